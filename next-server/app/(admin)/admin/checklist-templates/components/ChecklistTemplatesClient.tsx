@@ -0,0 +1,38 @@
+"use client";
+
+import { ChecklistTemplateLibrary } from "@/components/checklistTemplate";
+import type { ChecklistTemplateDto } from "@/domain/checklistTemplate";
+
+interface ChecklistTemplatesClientProps {
+  initialTemplates: ChecklistTemplateDto[];
+}
+
+/**
+ * 全社共通チェックリストテンプレート管理クライアントコンポーネント
+ */
+export function ChecklistTemplatesClient({
+  initialTemplates,
+}: ChecklistTemplatesClientProps) {
+  return (
+    <div className="p-6 max-w-4xl mx-auto">
+      {/* ページヘッダー */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">
+          チェックリストテンプレート
+        </h1>
+        <p className="text-gray-600">
+          全プロジェクトで利用できる全社共通テンプレートを管理します。テンプレートの作成・新しいバージョンの公開は、レビュースペースのチェックリスト画面の「テンプレートとして保存」から行います。
+        </p>
+      </div>
+
+      {/* テンプレート一覧カード */}
+      <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-4">
+        <ChecklistTemplateLibrary
+          templates={initialTemplates}
+          canManage={() => true}
+          emptyMessage="全社共通テンプレートはありません"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import {
+  ChecklistTemplateRepository,
+  ProjectRepository,
+} from "@/infrastructure/adapter/db";
+import { ListChecklistTemplatesService } from "@/application/checklistTemplate";
+import { getAuthenticatedUser } from "@/lib/server/auth";
+import { ChecklistTemplatesClient } from "./components/ChecklistTemplatesClient";
+
+/**
+ * 全社共通チェックリストテンプレート管理ページ（サーバーコンポーネント）
+ * RSCで初期データを取得してクライアントコンポーネントに渡す
+ */
+export default async function AdminChecklistTemplatesPage() {
+  const authUser = await getAuthenticatedUser();
+  const service = new ListChecklistTemplatesService(
+    new ChecklistTemplateRepository(),
+    new ProjectRepository(),
+  );
+  const templates = await service.execute({
+    projectId: null,
+    userId: authUser.userId,
+  });
+
+  return <ChecklistTemplatesClient initialTemplates={templates} />;
+}
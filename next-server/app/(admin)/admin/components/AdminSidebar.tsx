@@ -2,7 +2,15 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { Users, Bell, Settings } from "lucide-react";
+import {
+  Users,
+  Bell,
+  Settings,
+  ListChecks,
+  FolderKanban,
+  Library,
+  Coins,
+} from "lucide-react";
 
 /**
  * 管理者サイドバーのナビゲーション項目
@@ -18,6 +26,26 @@ const navItems = [
     label: "通知設定",
     icon: Bell,
   },
+  {
+    href: "/admin/projects",
+    label: "プロジェクト管理",
+    icon: FolderKanban,
+  },
+  {
+    href: "/admin/checklist-templates",
+    label: "チェックリストテンプレート",
+    icon: Library,
+  },
+  {
+    href: "/admin/tasks",
+    label: "AIタスク管理",
+    icon: ListChecks,
+  },
+  {
+    href: "/admin/usage",
+    label: "AI使用量",
+    icon: Coins,
+  },
   {
     href: "/admin/settings",
     label: "API設定",
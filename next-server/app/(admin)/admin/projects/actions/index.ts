@@ -0,0 +1,88 @@
+"use server";
+
+import { z } from "zod";
+import { adminAction } from "@/lib/server/baseAction";
+import {
+  AiTaskRepository,
+  ProjectRepository,
+  ReviewSpaceRepository,
+  ReviewTargetRepository,
+  UserRepository,
+} from "@/infrastructure/adapter/db";
+import { ListAllProjectsService } from "@/application/admin";
+import { DeleteProjectService } from "@/application/project";
+import { DeleteReviewSpaceService } from "@/application/reviewSpace";
+import { WorkflowRunRegistry } from "@/application/aiTask/WorkflowRunRegistry";
+
+/**
+ * 全プロジェクト一覧取得アクション
+ */
+const listAllProjectsSchema = z.object({
+  page: z.number().min(1).default(1),
+  limit: z.number().min(1).max(100).default(20),
+  search: z.string().optional(),
+});
+
+export const listAllProjectsAction = adminAction
+  .schema(listAllProjectsSchema)
+  .action(async ({ parsedInput }) => {
+    const service = new ListAllProjectsService(
+      new ProjectRepository(),
+      new UserRepository(),
+      new ReviewSpaceRepository(),
+      new ReviewTargetRepository(),
+    );
+    return service.execute(parsedInput);
+  });
+
+/**
+ * プロジェクト強制削除アクション
+ * メンバーでなくても削除でき、キャッシュ・タスクファイルもクリーンアップする
+ */
+const forceDeleteProjectSchema = z.object({
+  projectId: z.string().uuid(),
+});
+
+export const forceDeleteProjectAction = adminAction
+  .schema(forceDeleteProjectSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new DeleteProjectService(
+      new ProjectRepository(),
+      new ReviewSpaceRepository(),
+      new ReviewTargetRepository(),
+      new AiTaskRepository(),
+      WorkflowRunRegistry.getInstance(),
+    );
+    await service.execute({
+      projectId: parsedInput.projectId,
+      userId: ctx.auth.userId,
+      isAdmin: true,
+    });
+    return { success: true };
+  });
+
+/**
+ * レビュースペース強制削除アクション
+ * メンバーでなくても削除でき、キャッシュ・タスクファイルもクリーンアップする
+ */
+const forceDeleteReviewSpaceSchema = z.object({
+  reviewSpaceId: z.string().uuid(),
+});
+
+export const forceDeleteReviewSpaceAction = adminAction
+  .schema(forceDeleteReviewSpaceSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new DeleteReviewSpaceService(
+      new ReviewSpaceRepository(),
+      new ProjectRepository(),
+      new ReviewTargetRepository(),
+      new AiTaskRepository(),
+      WorkflowRunRegistry.getInstance(),
+    );
+    await service.execute({
+      reviewSpaceId: parsedInput.reviewSpaceId,
+      userId: ctx.auth.userId,
+      isAdmin: true,
+    });
+    return { success: true };
+  });
@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from "react";
+import type { AdminProjectListItemDto } from "@/application/admin";
+import { Button } from "@/components/ui/button";
+import { formatFileSize } from "@/components/upload";
+import { ChevronDown, ChevronRight, Trash2 } from "lucide-react";
+
+/**
+ * 日時フォーマット
+ */
+function formatDateTime(date: string): string {
+  return new Date(date).toLocaleString("ja-JP", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+interface AdminProjectListProps {
+  projects: AdminProjectListItemDto[];
+  onDeleteProject: (projectId: string) => void;
+  onDeleteReviewSpace: (reviewSpaceId: string) => void;
+  isDeleting: boolean;
+}
+
+/**
+ * 管理者向けプロジェクト一覧コンポーネント
+ * 行を展開するとレビュースペースの一覧を表示する
+ */
+export function AdminProjectList({
+  projects,
+  onDeleteProject,
+  onDeleteReviewSpace,
+  isDeleting,
+}: AdminProjectListProps) {
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+
+  const toggleExpanded = (projectId: string) => {
+    setExpandedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(projectId)) {
+        next.delete(projectId);
+      } else {
+        next.add(projectId);
+      }
+      return next;
+    });
+  };
+
+  if (projects.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        プロジェクトが見つかりません
+      </div>
+    );
+  }
+
+  return (
+    <div className="divide-y divide-gray-100">
+      {projects.map((project) => {
+        const isExpanded = expandedIds.has(project.id);
+        return (
+          <div key={project.id} className="py-3">
+            <div className="flex items-start gap-3 px-2">
+              <button
+                type="button"
+                onClick={() => toggleExpanded(project.id)}
+                className="mt-0.5 text-gray-400 hover:text-gray-600"
+                aria-label={
+                  isExpanded
+                    ? "レビュースペースを閉じる"
+                    : "レビュースペースを表示"
+                }
+              >
+                {isExpanded ? (
+                  <ChevronDown className="size-5" />
+                ) : (
+                  <ChevronRight className="size-5" />
+                )}
+              </button>
+
+              {/* プロジェクト情報 */}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900">
+                  {project.name}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  オーナー:{" "}
+                  {project.owners.map((m) => m.displayName).join("、") || "-"} /
+                  メンバー:{" "}
+                  {project.memberPreview.map((m) => m.displayName).join("、") ||
+                    "-"}
+                </p>
+                <p className="text-xs text-gray-400 mt-1">
+                  スペース {project.reviewSpaces.length}件 / 使用容量{" "}
+                  {formatFileSize(project.storageUsageBytes)}
+                  {project.storageUsagePartial && "以上"} / 最終更新{" "}
+                  {formatDateTime(project.lastActivityAt)}
+                </p>
+              </div>
+
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onDeleteProject(project.id)}
+                disabled={isDeleting}
+                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                aria-label="プロジェクトを削除"
+              >
+                <Trash2 className="size-4" />
+              </Button>
+            </div>
+
+            {/* レビュースペース一覧 */}
+            {isExpanded && (
+              <div className="ml-10 mt-2 border-l border-gray-200 pl-3">
+                {project.reviewSpaces.length === 0 ? (
+                  <p className="text-xs text-gray-500 py-2">
+                    レビュースペースはありません
+                  </p>
+                ) : (
+                  project.reviewSpaces.map((space) => (
+                    <div
+                      key={space.id}
+                      className="flex items-center gap-3 py-2 text-sm"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="text-gray-800">{space.name}</p>
+                        <p className="text-xs text-gray-400">
+                          レビュー対象 {space.reviewTargetCount}件 / 使用容量{" "}
+                          {formatFileSize(space.storageUsageBytes)}
+                          {space.storageUsagePartial && "以上"} / 最終更新{" "}
+                          {formatDateTime(space.lastActivityAt)}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onDeleteReviewSpace(space.id)}
+                        disabled={isDeleting}
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        aria-label="レビュースペースを削除"
+                      >
+                        <Trash2 className="size-4" />
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
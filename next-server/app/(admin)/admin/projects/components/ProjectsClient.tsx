@@ -0,0 +1,260 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { useAction } from "next-safe-action/hooks";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Search, Loader2 } from "lucide-react";
+import type { ListAllProjectsResult } from "@/application/admin";
+import { AdminProjectList } from "./AdminProjectList";
+import {
+  listAllProjectsAction,
+  forceDeleteProjectAction,
+  forceDeleteReviewSpaceAction,
+} from "../actions";
+import { useServerActionError } from "@/hooks";
+import { showSuccess, getMessage } from "@/lib/client";
+
+const PAGE_LIMIT = 20;
+
+/**
+ * 削除対象
+ */
+type DeleteTarget =
+  | { type: "project"; id: string; name: string }
+  | { type: "reviewSpace"; id: string; name: string };
+
+interface ProjectsClientProps {
+  initialResult: ListAllProjectsResult;
+}
+
+/**
+ * プロジェクト管理クライアントコンポーネント
+ */
+export function ProjectsClient({ initialResult }: ProjectsClientProps) {
+  const [result, setResult] = useState<ListAllProjectsResult>(initialResult);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [page, setPage] = useState(1);
+  const [deleteTarget, setDeleteTarget] = useState<DeleteTarget | null>(null);
+  const { error, handleError, clearError } = useServerActionError();
+  const isFirstRender = useRef(true);
+
+  // プロジェクト一覧取得
+  const { execute: loadProjects, isPending: isLoading } = useAction(
+    listAllProjectsAction,
+    {
+      onSuccess: ({ data }) => {
+        if (data) {
+          setResult(data);
+          clearError();
+        }
+      },
+      onError: ({ error: actionError }) => {
+        handleError(actionError, "プロジェクト一覧の取得に失敗しました");
+      },
+    },
+  );
+
+  const reload = () => {
+    loadProjects({ page, limit: PAGE_LIMIT, search: searchQuery || undefined });
+  };
+
+  // 検索キーワード・ページ変更時に再取得（初回はRSCで取得済み）
+  useEffect(() => {
+    if (isFirstRender.current) {
+      isFirstRender.current = false;
+      return;
+    }
+    const timer = setTimeout(() => {
+      loadProjects({
+        page,
+        limit: PAGE_LIMIT,
+        search: searchQuery || undefined,
+      });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [page, searchQuery, loadProjects]);
+
+  // プロジェクト強制削除
+  const { execute: deleteProject, isPending: isDeletingProject } = useAction(
+    forceDeleteProjectAction,
+    {
+      onSuccess: () => {
+        setDeleteTarget(null);
+        reload();
+        showSuccess(getMessage("SUCCESS_PROJECT_DELETED"));
+        clearError();
+      },
+      onError: ({ error: actionError }) => {
+        setDeleteTarget(null);
+        handleError(actionError, "プロジェクトの削除に失敗しました");
+      },
+    },
+  );
+
+  // レビュースペース強制削除
+  const { execute: deleteReviewSpace, isPending: isDeletingReviewSpace } =
+    useAction(forceDeleteReviewSpaceAction, {
+      onSuccess: () => {
+        setDeleteTarget(null);
+        reload();
+        showSuccess(getMessage("SUCCESS_REVIEW_SPACE_DELETED"));
+        clearError();
+      },
+      onError: ({ error: actionError }) => {
+        setDeleteTarget(null);
+        handleError(actionError, "レビュースペースの削除に失敗しました");
+      },
+    });
+
+  const handleDeleteProjectRequest = (projectId: string) => {
+    const project = result.projects.find((p) => p.id === projectId);
+    if (project) {
+      setDeleteTarget({ type: "project", id: project.id, name: project.name });
+    }
+  };
+
+  const handleDeleteReviewSpaceRequest = (reviewSpaceId: string) => {
+    const space = result.projects
+      .flatMap((p) => p.reviewSpaces)
+      .find((s) => s.id === reviewSpaceId);
+    if (space) {
+      setDeleteTarget({ type: "reviewSpace", id: space.id, name: space.name });
+    }
+  };
+
+  const handleDeleteConfirm = () => {
+    if (!deleteTarget) {
+      return;
+    }
+    if (deleteTarget.type === "project") {
+      deleteProject({ projectId: deleteTarget.id });
+    } else {
+      deleteReviewSpace({ reviewSpaceId: deleteTarget.id });
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(result.total / PAGE_LIMIT));
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto">
+      {/* ページヘッダー */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">
+          プロジェクト管理
+        </h1>
+        <p className="text-gray-600">
+          全プロジェクトとレビュースペースを確認し、必要に応じて削除します
+        </p>
+      </div>
+
+      {/* エラー表示 */}
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {/* プロジェクト一覧カード */}
+      <div className="bg-white rounded-lg border border-gray-200 shadow-sm">
+        <div className="flex items-center justify-between gap-4 p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">
+            プロジェクト一覧（{result.total}件）
+          </h2>
+          <div className="relative w-64">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-gray-400" />
+            <Input
+              placeholder="プロジェクト名で検索"
+              value={searchQuery}
+              onChange={(e) => {
+                setSearchQuery(e.target.value);
+                setPage(1);
+              }}
+              className="pl-9"
+            />
+          </div>
+        </div>
+
+        <div className="p-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="size-6 animate-spin text-gray-400" />
+              <span className="ml-2 text-gray-500">読み込み中...</span>
+            </div>
+          ) : (
+            <AdminProjectList
+              projects={result.projects}
+              onDeleteProject={handleDeleteProjectRequest}
+              onDeleteReviewSpace={handleDeleteReviewSpaceRequest}
+              isDeleting={isDeletingProject || isDeletingReviewSpace}
+            />
+          )}
+        </div>
+
+        {/* ページネーション */}
+        {totalPages > 1 && (
+          <div className="flex items-center justify-center gap-4 p-4 border-t border-gray-200">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page <= 1 || isLoading}
+            >
+              前へ
+            </Button>
+            <span className="text-sm text-gray-600">
+              {page} / {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+              disabled={page >= totalPages || isLoading}
+            >
+              次へ
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* 削除確認ダイアログ */}
+      <AlertDialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {deleteTarget?.type === "project"
+                ? "プロジェクトを削除しますか？"
+                : "レビュースペースを削除しますか？"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              <strong>{deleteTarget?.name}</strong>{" "}
+              を削除します。配下のレビュー結果・キャッシュ・実行中のAIタスクもすべて削除されます。この操作は取り消せません。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteConfirm}
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+            >
+              削除
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import {
+  ProjectRepository,
+  ReviewSpaceRepository,
+  ReviewTargetRepository,
+  UserRepository,
+} from "@/infrastructure/adapter/db";
+import { ListAllProjectsService } from "@/application/admin";
+import { ProjectsClient } from "./components/ProjectsClient";
+
+/**
+ * プロジェクト管理ページ（サーバーコンポーネント）
+ * RSCで初期データを取得してクライアントコンポーネントに渡す
+ */
+export default async function AdminProjectsPage() {
+  const service = new ListAllProjectsService(
+    new ProjectRepository(),
+    new UserRepository(),
+    new ReviewSpaceRepository(),
+    new ReviewTargetRepository(),
+  );
+  const result = await service.execute({ page: 1, limit: 20 });
+
+  return <ProjectsClient initialResult={result} />;
+}
@@ -24,6 +24,8 @@ const updateSystemSettingSchema = z.object({
   apiKey: z.string().optional(),
   apiUrl: z.string().url().optional().or(z.literal("")),
   apiModel: z.string().optional(),
+  rateLimitRequestsPerMinute: z.number().int().positive().nullable(),
+  rateLimitTokensPerMinute: z.number().int().positive().nullable(),
 });
 
 export const updateSystemSettingAction = adminAction
@@ -35,5 +37,75 @@ export const updateSystemSettingAction = adminAction
       apiKey: parsedInput.apiKey || null,
       apiUrl: parsedInput.apiUrl || null,
       apiModel: parsedInput.apiModel || null,
+      rateLimit: {
+        requestsPerMinute: parsedInput.rateLimitRequestsPerMinute,
+        tokensPerMinute: parsedInput.rateLimitTokensPerMinute,
+      },
+    });
+  });
+
+/**
+ * AIプロバイダー・エージェント別モデル設定更新アクション
+ * 既定のAPI設定（APIキー・URL・モデル・レート制限）は変更しない
+ */
+const updateAiProviderSettingsSchema = z.object({
+  aiProviders: z.array(
+    z.object({
+      id: z.string().min(1).max(50),
+      name: z.string().min(1).max(100),
+      type: z.enum(["openai_compatible", "azure_openai", "ollama"]),
+      apiUrl: z.string().url(),
+      /** 未入力（null）の場合は既存のAPIキーを引き継ぐ */
+      apiKey: z.string().min(1).nullable(),
+      apiVersion: z.string().nullable(),
+    }),
+  ),
+  aiModelAssignments: z.record(
+    z.string(),
+    z.object({
+      providerId: z.string().nullable(),
+      model: z.string().min(1).max(255),
+    }),
+  ),
+});
+
+export const updateAiProviderSettingsAction = adminAction
+  .schema(updateAiProviderSettingsSchema)
+  .action(async ({ parsedInput }) => {
+    const repository = new SystemSettingRepository();
+    const service = new UpdateSystemSettingService(repository);
+    return service.execute({
+      apiKey: null,
+      apiUrl: null,
+      apiModel: null,
+      aiProviders: parsedInput.aiProviders,
+      aiModelAssignments: parsedInput.aiModelAssignments,
+    });
+  });
+
+/**
+ * モデル別コンテキストウィンドウ設定更新アクション
+ * 既定のAPI設定・AIプロバイダー設定は変更しない
+ */
+const updateModelContextWindowsSchema = z.object({
+  modelContextWindows: z.array(
+    z.object({
+      model: z.string().min(1).max(255),
+      contextWindowTokens: z.number().int().positive(),
+      maxOutputTokens: z.number().int().min(0),
+    }),
+  ),
+});
+
+export const updateModelContextWindowsAction = adminAction
+  .schema(updateModelContextWindowsSchema)
+  .action(async ({ parsedInput }) => {
+    const repository = new SystemSettingRepository();
+    const service = new UpdateSystemSettingService(repository);
+    return service.execute({
+      apiKey: null,
+      apiUrl: null,
+      apiModel: null,
+      modelContextWindows: parsedInput.modelContextWindows,
     });
   });
@@ -0,0 +1,409 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { GetSystemSettingResultDto } from "@/application/system-setting";
+import {
+  AI_MODEL_TARGET,
+  AI_MODEL_TARGET_LABELS,
+  AI_PROVIDER_TYPE,
+  AI_PROVIDER_TYPE_LABELS,
+  type AiModelAssignmentDto,
+  type AiModelTarget,
+  type AiProviderType,
+} from "@/domain/system-setting";
+
+/**
+ * AIプロバイダー設定フォームの送信データ
+ */
+export interface AiProviderSettingsFormData {
+  aiProviders: {
+    id: string;
+    name: string;
+    type: AiProviderType;
+    apiUrl: string;
+    /** 未入力の場合はnull（既存のAPIキーを引き継ぐ） */
+    apiKey: string | null;
+    apiVersion: string | null;
+  }[];
+  aiModelAssignments: Partial<Record<AiModelTarget, AiModelAssignmentDto>>;
+}
+
+interface AiProviderSettingsFormProps {
+  initialData: GetSystemSettingResultDto | null;
+  onSubmit: (data: AiProviderSettingsFormData) => void;
+  isSubmitting: boolean;
+}
+
+/**
+ * 編集中のAIプロバイダー
+ */
+interface ProviderRow {
+  id: string;
+  name: string;
+  type: AiProviderType;
+  apiUrl: string;
+  apiKey: string;
+  apiVersion: string;
+  hasApiKey: boolean;
+}
+
+/**
+ * 編集中のモデル割り当て（providerIdが空文字の場合は既定の接続先）
+ */
+interface AssignmentRow {
+  providerId: string;
+  model: string;
+}
+
+const EMPTY_PROVIDER: ProviderRow = {
+  id: "",
+  name: "",
+  type: AI_PROVIDER_TYPE.OPENAI_COMPATIBLE,
+  apiUrl: "",
+  apiKey: "",
+  apiVersion: "",
+  hasApiKey: false,
+};
+
+const MODEL_TARGETS = Object.values(AI_MODEL_TARGET);
+
+/**
+ * 登録済みAIプロバイダーを編集用の行に変換する（APIキーは表示しない）
+ */
+function toProviderRows(
+  initialData: GetSystemSettingResultDto | null,
+): ProviderRow[] {
+  return (initialData?.aiProviders ?? []).map((provider) => ({
+    id: provider.id,
+    name: provider.name,
+    type: provider.type,
+    apiUrl: provider.apiUrl,
+    apiKey: "",
+    apiVersion: provider.apiVersion ?? "",
+    hasApiKey: provider.hasApiKey,
+  }));
+}
+
+/**
+ * モデル割り当てを編集用の行に変換する
+ */
+function toAssignmentRows(
+  initialData: GetSystemSettingResultDto | null,
+): Partial<Record<AiModelTarget, AssignmentRow>> {
+  const rows: Partial<Record<AiModelTarget, AssignmentRow>> = {};
+  for (const target of MODEL_TARGETS) {
+    const assignment = initialData?.aiModelAssignments[target];
+    if (assignment) {
+      rows[target] = {
+        providerId: assignment.providerId ?? "",
+        model: assignment.model,
+      };
+    }
+  }
+  return rows;
+}
+
+/**
+ * AIプロバイダー・エージェント別モデル設定フォームコンポーネント
+ * 保存後に最新の設定で初期化し直す場合は key を変更して再マウントする
+ */
+export function AiProviderSettingsForm({
+  initialData,
+  onSubmit,
+  isSubmitting,
+}: AiProviderSettingsFormProps) {
+  const [providers, setProviders] = useState<ProviderRow[]>(() =>
+    toProviderRows(initialData),
+  );
+  const [assignments, setAssignments] = useState(() =>
+    toAssignmentRows(initialData),
+  );
+
+  const updateProvider = (index: number, patch: Partial<ProviderRow>) => {
+    setProviders((prev) =>
+      prev.map((provider, i) =>
+        i === index ? { ...provider, ...patch } : provider,
+      ),
+    );
+  };
+
+  const updateAssignment = (
+    target: AiModelTarget,
+    patch: Partial<AssignmentRow>,
+  ) => {
+    setAssignments((prev) => ({
+      ...prev,
+      [target]: { providerId: "", model: "", ...prev[target], ...patch },
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // モデル名が空欄のエージェントは割り当てなし（既定の設定を使用）
+    const aiModelAssignments: AiProviderSettingsFormData["aiModelAssignments"] =
+      {};
+    for (const target of MODEL_TARGETS) {
+      const assignment = assignments[target];
+      if (assignment?.model.trim()) {
+        aiModelAssignments[target] = {
+          providerId: assignment.providerId || null,
+          model: assignment.model.trim(),
+        };
+      }
+    }
+
+    onSubmit({
+      aiProviders: providers.map((provider) => ({
+        id: provider.id.trim(),
+        name: provider.name.trim(),
+        type: provider.type,
+        apiUrl: provider.apiUrl.trim(),
+        apiKey: provider.apiKey ? provider.apiKey : null,
+        apiVersion: provider.apiVersion.trim() || null,
+      })),
+      aiModelAssignments,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-8">
+      {/* AIプロバイダー */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900">
+              AIプロバイダー
+            </h3>
+            <p className="text-xs text-gray-500 mt-1">
+              既定のAPI設定とは別の接続先を登録します。IDは英小文字・数字・ハイフン・アンダースコアで指定してください
+            </p>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setProviders((prev) => [...prev, EMPTY_PROVIDER])}
+          >
+            <Plus className="size-4 mr-1" />
+            追加
+          </Button>
+        </div>
+
+        {providers.length === 0 && (
+          <p className="text-sm text-gray-500">
+            登録されたAIプロバイダーはありません
+          </p>
+        )}
+
+        {providers.map((provider, index) => (
+          <div
+            key={index}
+            className="p-4 border border-gray-200 rounded-lg space-y-3"
+          >
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor={`provider-id-${index}`}>ID</Label>
+                <Input
+                  id={`provider-id-${index}`}
+                  placeholder="azure-east"
+                  value={provider.id}
+                  onChange={(e) =>
+                    updateProvider(index, { id: e.target.value })
+                  }
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`provider-name-${index}`}>表示名</Label>
+                <Input
+                  id={`provider-name-${index}`}
+                  placeholder="Azure（東日本）"
+                  value={provider.name}
+                  onChange={(e) =>
+                    updateProvider(index, { name: e.target.value })
+                  }
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`provider-type-${index}`}>種別</Label>
+                <select
+                  id={`provider-type-${index}`}
+                  className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  value={provider.type}
+                  onChange={(e) =>
+                    updateProvider(index, {
+                      type: e.target.value as AiProviderType,
+                    })
+                  }
+                >
+                  {Object.values(AI_PROVIDER_TYPE).map((type) => (
+                    <option key={type} value={type}>
+                      {AI_PROVIDER_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor={`provider-url-${index}`}>API URL</Label>
+                <Input
+                  id={`provider-url-${index}`}
+                  type="url"
+                  placeholder={
+                    provider.type === AI_PROVIDER_TYPE.AZURE_OPENAI
+                      ? "https://example.openai.azure.com"
+                      : provider.type === AI_PROVIDER_TYPE.OLLAMA
+                        ? "http://localhost:11434/v1"
+                        : "https://api.example.com/v1"
+                  }
+                  value={provider.apiUrl}
+                  onChange={(e) =>
+                    updateProvider(index, { apiUrl: e.target.value })
+                  }
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`provider-key-${index}`}>
+                  APIキー
+                  {provider.hasApiKey && !provider.apiKey && (
+                    <span className="ml-2 text-xs text-green-600">
+                      （設定済み）
+                    </span>
+                  )}
+                </Label>
+                <Input
+                  id={`provider-key-${index}`}
+                  type="password"
+                  placeholder={
+                    provider.hasApiKey
+                      ? "入力すると上書きされます"
+                      : provider.type === AI_PROVIDER_TYPE.OLLAMA
+                        ? "不要な場合は空欄"
+                        : "APIキーを入力..."
+                  }
+                  value={provider.apiKey}
+                  onChange={(e) =>
+                    updateProvider(index, { apiKey: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`provider-version-${index}`}>
+                  APIバージョン
+                </Label>
+                <Input
+                  id={`provider-version-${index}`}
+                  placeholder={
+                    provider.type === AI_PROVIDER_TYPE.AZURE_OPENAI
+                      ? "2024-10-21"
+                      : "Azure形式のみ"
+                  }
+                  value={provider.apiVersion}
+                  onChange={(e) =>
+                    updateProvider(index, { apiVersion: e.target.value })
+                  }
+                  disabled={provider.type !== AI_PROVIDER_TYPE.AZURE_OPENAI}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  setProviders((prev) => prev.filter((_, i) => i !== index))
+                }
+              >
+                <Trash2 className="size-4 mr-1" />
+                削除
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* エージェント別モデル */}
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900">
+            エージェント別モデル
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">
+            モデル名が空欄のエージェントは既定のAPI設定を使用します。プロジェクト設定で個別に上書きできます
+          </p>
+        </div>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-2 font-medium">エージェント</th>
+              <th className="py-2 font-medium">接続先</th>
+              <th className="py-2 font-medium">モデル名</th>
+            </tr>
+          </thead>
+          <tbody>
+            {MODEL_TARGETS.map((target) => (
+              <tr key={target} className="border-b border-gray-100">
+                <td className="py-2 pr-3 text-gray-900">
+                  {AI_MODEL_TARGET_LABELS[target]}
+                </td>
+                <td className="py-2 pr-3">
+                  <select
+                    aria-label={`${AI_MODEL_TARGET_LABELS[target]}の接続先`}
+                    className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                    value={assignments[target]?.providerId ?? ""}
+                    onChange={(e) =>
+                      updateAssignment(target, { providerId: e.target.value })
+                    }
+                  >
+                    <option value="">既定のAPI設定</option>
+                    {providers
+                      .filter((provider) => provider.id)
+                      .map((provider) => (
+                        <option key={provider.id} value={provider.id}>
+                          {provider.name || provider.id}
+                        </option>
+                      ))}
+                  </select>
+                </td>
+                <td className="py-2">
+                  <Input
+                    aria-label={`${AI_MODEL_TARGET_LABELS[target]}のモデル名`}
+                    placeholder="既定のモデル"
+                    value={assignments[target]?.model ?? ""}
+                    onChange={(e) =>
+                      updateAssignment(target, { model: e.target.value })
+                    }
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* 送信ボタン */}
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? (
+            <>
+              <Loader2 className="size-4 mr-2 animate-spin" />
+              保存中...
+            </>
+          ) : (
+            "設定を保存"
+          )}
+        </Button>
+      </div>
+    </form>
+  );
+}
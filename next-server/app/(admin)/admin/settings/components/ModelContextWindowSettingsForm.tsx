@@ -0,0 +1,185 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { GetSystemSettingResultDto } from "@/application/system-setting";
+import type { ModelContextWindowDto } from "@/domain/system-setting";
+
+/**
+ * モデル別コンテキストウィンドウ設定フォームの送信データ
+ */
+export interface ModelContextWindowSettingsFormData {
+  modelContextWindows: ModelContextWindowDto[];
+}
+
+interface ModelContextWindowSettingsFormProps {
+  initialData: GetSystemSettingResultDto | null;
+  onSubmit: (data: ModelContextWindowSettingsFormData) => void;
+  isSubmitting: boolean;
+}
+
+/**
+ * 編集中のコンテキストウィンドウ（数値は入力文字列のまま保持する）
+ */
+interface ContextWindowRow {
+  model: string;
+  contextWindowTokens: string;
+  maxOutputTokens: string;
+}
+
+const EMPTY_ROW: ContextWindowRow = {
+  model: "",
+  contextWindowTokens: "",
+  maxOutputTokens: "0",
+};
+
+/**
+ * 登録済みのコンテキストウィンドウを編集用の行に変換する
+ */
+function toRows(
+  initialData: GetSystemSettingResultDto | null,
+): ContextWindowRow[] {
+  return (initialData?.modelContextWindows ?? []).map((profile) => ({
+    model: profile.model,
+    contextWindowTokens: String(profile.contextWindowTokens),
+    maxOutputTokens: String(profile.maxOutputTokens),
+  }));
+}
+
+/**
+ * モデル別コンテキストウィンドウ設定フォームコンポーネント
+ * 保存後に最新の設定で初期化し直す場合は key を変更して再マウントする
+ */
+export function ModelContextWindowSettingsForm({
+  initialData,
+  onSubmit,
+  isSubmitting,
+}: ModelContextWindowSettingsFormProps) {
+  const [rows, setRows] = useState<ContextWindowRow[]>(() =>
+    toRows(initialData),
+  );
+
+  const updateRow = (index: number, patch: Partial<ContextWindowRow>) => {
+    setRows((prev) =>
+      prev.map((row, i) => (i === index ? { ...row, ...patch } : row)),
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      modelContextWindows: rows.map((row) => ({
+        model: row.model.trim(),
+        contextWindowTokens: Number(row.contextWindowTokens),
+        maxOutputTokens: Number(row.maxOutputTokens) || 0,
+      })),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-500">
+          大量レビューでチャンクサイズが自動の場合、個別レビューに使用するモデルのコンテキストウィンドウから出力トークン数を除いた半分を1チャンクの上限とします。未登録のモデルは事前に分割せず、コンテキスト超過時に分割してリトライします
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="ml-4 shrink-0"
+          onClick={() => setRows((prev) => [...prev, EMPTY_ROW])}
+        >
+          <Plus className="size-4 mr-1" />
+          追加
+        </Button>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          登録されたコンテキストウィンドウはありません
+        </p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-2 font-medium">モデル名</th>
+              <th className="py-2 font-medium">コンテキストウィンドウ</th>
+              <th className="py-2 font-medium">最大出力トークン数</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={index} className="border-b border-gray-100">
+                <td className="py-2 pr-3">
+                  <Input
+                    aria-label="モデル名"
+                    placeholder="gpt-4o"
+                    value={row.model}
+                    onChange={(e) =>
+                      updateRow(index, { model: e.target.value })
+                    }
+                    required
+                  />
+                </td>
+                <td className="py-2 pr-3">
+                  <Input
+                    aria-label="コンテキストウィンドウ"
+                    type="number"
+                    min={1000}
+                    placeholder="128000"
+                    value={row.contextWindowTokens}
+                    onChange={(e) =>
+                      updateRow(index, { contextWindowTokens: e.target.value })
+                    }
+                    required
+                  />
+                </td>
+                <td className="py-2 pr-3">
+                  <Input
+                    aria-label="最大出力トークン数"
+                    type="number"
+                    min={0}
+                    value={row.maxOutputTokens}
+                    onChange={(e) =>
+                      updateRow(index, { maxOutputTokens: e.target.value })
+                    }
+                  />
+                </td>
+                <td className="py-2 text-right">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    aria-label="削除"
+                    onClick={() =>
+                      setRows((prev) => prev.filter((_, i) => i !== index))
+                    }
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {/* 送信ボタン */}
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? (
+            <>
+              <Loader2 className="size-4 mr-2 animate-spin" />
+              保存中...
+            </>
+          ) : (
+            "設定を保存"
+          )}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -4,8 +4,23 @@ import { useState } from "react";
 import { useAction } from "next-safe-action/hooks";
 import { Loader2 } from "lucide-react";
 import { GetSystemSettingResultDto } from "@/application/system-setting";
-import { SystemSettingsForm } from "./SystemSettingsForm";
-import { updateSystemSettingAction } from "../actions";
+import {
+  SystemSettingsForm,
+  type SystemSettingsFormData,
+} from "./SystemSettingsForm";
+import {
+  AiProviderSettingsForm,
+  type AiProviderSettingsFormData,
+} from "./AiProviderSettingsForm";
+import {
+  ModelContextWindowSettingsForm,
+  type ModelContextWindowSettingsFormData,
+} from "./ModelContextWindowSettingsForm";
+import {
+  updateSystemSettingAction,
+  updateAiProviderSettingsAction,
+  updateModelContextWindowsAction,
+} from "../actions";
 import { useServerActionError } from "@/hooks";
 import { showSuccess, getMessage } from "@/lib/client";
 
@@ -39,14 +54,52 @@ export function SettingsClient({ initialSettings }: SettingsClientProps) {
     },
   );
 
-  const handleSubmit = (data: {
-    apiKey?: string;
-    apiUrl?: string;
-    apiModel?: string;
-  }) => {
+  // AIプロバイダー・エージェント別モデル設定更新
+  const { execute: updateAiProviderSettings, isPending: isUpdatingProviders } =
+    useAction(updateAiProviderSettingsAction, {
+      onSuccess: ({ data }) => {
+        if (data) {
+          setSettings(data);
+          showSuccess(getMessage("SUCCESS_SETTINGS_SAVED"));
+          clearError();
+        }
+      },
+      onError: ({ error: actionError }) => {
+        handleError(actionError, "設定の保存に失敗しました");
+      },
+    });
+
+  // モデル別コンテキストウィンドウ設定更新
+  const {
+    execute: updateModelContextWindows,
+    isPending: isUpdatingContextWindows,
+  } = useAction(updateModelContextWindowsAction, {
+    onSuccess: ({ data }) => {
+      if (data) {
+        setSettings(data);
+        showSuccess(getMessage("SUCCESS_SETTINGS_SAVED"));
+        clearError();
+      }
+    },
+    onError: ({ error: actionError }) => {
+      handleError(actionError, "設定の保存に失敗しました");
+    },
+  });
+
+  const handleSubmit = (data: SystemSettingsFormData) => {
     updateSettings(data);
   };
 
+  const handleAiProviderSubmit = (data: AiProviderSettingsFormData) => {
+    updateAiProviderSettings(data);
+  };
+
+  const handleModelContextWindowSubmit = (
+    data: ModelContextWindowSettingsFormData,
+  ) => {
+    updateModelContextWindows(data);
+  };
+
   return (
     <div className="p-6 max-w-4xl mx-auto">
       {/* ページヘッダー */}
@@ -69,7 +122,7 @@ export function SettingsClient({ initialSettings }: SettingsClientProps) {
         <div className="p-4 border-b border-gray-200">
           <h2 className="text-lg font-semibold text-gray-900">AI API設定</h2>
           <p className="text-sm text-gray-500 mt-1">
-            ここで設定されたAPIキー・URL・モデルがシステム全体で優先的に使用されます
+            ここで設定されたAPIキー・URL・モデル・レート制限がシステム全体で優先的に使用されます
           </p>
         </div>
 
@@ -82,6 +135,48 @@ export function SettingsClient({ initialSettings }: SettingsClientProps) {
         </div>
       </div>
 
+      {/* AIプロバイダー・エージェント別モデル設定カード */}
+      <div className="mt-6 bg-white rounded-lg border border-gray-200 shadow-sm">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">
+            AIプロバイダー・エージェント別モデル
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">
+            OpenAI互換・Azure形式・ローカルサーバーの接続先を登録し、エージェントごとに使用するモデルを割り当てます
+          </p>
+        </div>
+
+        <div className="p-6">
+          <AiProviderSettingsForm
+            key={settings?.updatedAt?.toString() ?? "initial"}
+            initialData={settings}
+            onSubmit={handleAiProviderSubmit}
+            isSubmitting={isUpdatingProviders}
+          />
+        </div>
+      </div>
+
+      {/* モデル別コンテキストウィンドウ設定カード */}
+      <div className="mt-6 bg-white rounded-lg border border-gray-200 shadow-sm">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">
+            モデル別コンテキストウィンドウ
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">
+            モデルごとのコンテキストウィンドウを登録し、大量レビューのドキュメント分割サイズの算出に使用します
+          </p>
+        </div>
+
+        <div className="p-6">
+          <ModelContextWindowSettingsForm
+            key={settings?.updatedAt?.toString() ?? "initial"}
+            initialData={settings}
+            onSubmit={handleModelContextWindowSubmit}
+            isSubmitting={isUpdatingContextWindows}
+          />
+        </div>
+      </div>
+
       {/* 注意事項 */}
       <div className="mt-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
         <h3 className="text-sm font-medium text-yellow-800 mb-2">注意事項</h3>
@@ -89,6 +184,9 @@ export function SettingsClient({ initialSettings }: SettingsClientProps) {
           <li>APIキーは暗号化して保存されます</li>
           <li>設定を変更すると、すべてのユーザーに即座に反映されます</li>
           <li>システム設定が空の場合は、環境変数の設定が使用されます</li>
+          <li>
+            レート制限とプロジェクトのAPIキーは既定のAPI設定の接続先にのみ適用されます
+          </li>
         </ul>
       </div>
     </div>
@@ -7,16 +7,32 @@ import { Label } from "@/components/ui/label";
 import { Eye, EyeOff, Loader2 } from "lucide-react";
 import { GetSystemSettingResultDto } from "@/application/system-setting";
 
+/**
+ * システム設定フォームの送信データ
+ */
+export interface SystemSettingsFormData {
+  apiKey?: string;
+  apiUrl?: string;
+  apiModel?: string;
+  /** 1分あたりの最大リクエスト数（nullの場合は制限なし） */
+  rateLimitRequestsPerMinute: number | null;
+  /** 1分あたりの最大トークン数（nullの場合は制限なし） */
+  rateLimitTokensPerMinute: number | null;
+}
+
 interface SystemSettingsFormProps {
   initialData: GetSystemSettingResultDto | null;
-  onSubmit: (data: {
-    apiKey?: string;
-    apiUrl?: string;
-    apiModel?: string;
-  }) => void;
+  onSubmit: (data: SystemSettingsFormData) => void;
   isSubmitting: boolean;
 }
 
+/**
+ * レート制限の入力値を数値に変換する（空欄の場合はnull）
+ */
+function toRateLimitValue(value: string): number | null {
+  return value.trim() ? Number(value) : null;
+}
+
 /**
  * システム設定フォームコンポーネント
  */
@@ -28,6 +44,8 @@ export function SystemSettingsForm({
   const [apiKey, setApiKey] = useState("");
   const [apiUrl, setApiUrl] = useState("");
   const [apiModel, setApiModel] = useState("");
+  const [requestsPerMinute, setRequestsPerMinute] = useState("");
+  const [tokensPerMinute, setTokensPerMinute] = useState("");
   const [showApiKey, setShowApiKey] = useState(false);
   const [isApiKeyChanged, setIsApiKeyChanged] = useState(false);
 
@@ -36,6 +54,12 @@ export function SystemSettingsForm({
     if (initialData) {
       setApiUrl(initialData.apiUrl || "");
       setApiModel(initialData.apiModel || "");
+      setRequestsPerMinute(
+        initialData.rateLimit.requestsPerMinute?.toString() ?? "",
+      );
+      setTokensPerMinute(
+        initialData.rateLimit.tokensPerMinute?.toString() ?? "",
+      );
       // APIキーは表示しない（hasApiKeyで設定有無のみ確認）
     }
   }, [initialData]);
@@ -43,7 +67,11 @@ export function SystemSettingsForm({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
-    const data: { apiKey?: string; apiUrl?: string; apiModel?: string } = {};
+    // レート制限は空欄の場合も送信する（制限なしに戻す）
+    const data: SystemSettingsFormData = {
+      rateLimitRequestsPerMinute: toRateLimitValue(requestsPerMinute),
+      rateLimitTokensPerMinute: toRateLimitValue(tokensPerMinute),
+    };
 
     // APIキーは変更された場合のみ送信
     if (isApiKeyChanged && apiKey) {
@@ -130,6 +158,41 @@ export function SystemSettingsForm({
         <p className="text-xs text-gray-500">使用するAIモデルの名前</p>
       </div>
 
+      {/* レート制限 */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="rateLimitRequestsPerMinute">
+            リクエスト数上限（1分あたり）
+          </Label>
+          <Input
+            id="rateLimitRequestsPerMinute"
+            type="number"
+            min={1}
+            step={1}
+            placeholder="制限なし"
+            value={requestsPerMinute}
+            onChange={(e) => setRequestsPerMinute(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rateLimitTokensPerMinute">
+            トークン数上限（1分あたり）
+          </Label>
+          <Input
+            id="rateLimitTokensPerMinute"
+            type="number"
+            min={1}
+            step={1}
+            placeholder="制限なし"
+            value={tokensPerMinute}
+            onChange={(e) => setTokensPerMinute(e.target.value)}
+          />
+        </div>
+        <p className="text-xs text-gray-500 sm:col-span-2">
+          APIキーごとにレビュー・チェックリスト生成・Q&Aのすべてのエージェント呼び出しに適用されます。プロジェクト設定で個別に上書きできます
+        </p>
+      </div>
+
       {/* 送信ボタン */}
       <div className="flex justify-end">
         <Button type="submit" disabled={isSubmitting}>
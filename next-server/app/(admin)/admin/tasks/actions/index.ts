@@ -0,0 +1,49 @@
+"use server";
+
+import { z } from "zod";
+import { adminAction } from "@/lib/server/baseAction";
+import {
+  AiTaskRepository,
+  ProjectRepository,
+  QaHistoryRepository,
+  ReviewSpaceRepository,
+  ReviewTargetRepository,
+} from "@/infrastructure/adapter/db";
+import {
+  ListActiveAiTasksService,
+  ForceStopAiTaskService,
+} from "@/application/admin";
+import { WorkflowRunRegistry } from "@/application/aiTask/WorkflowRunRegistry";
+
+/**
+ * 実行中・待機中AIタスク一覧取得アクション
+ */
+export const listActiveAiTasksAction = adminAction.action(async () => {
+  const service = new ListActiveAiTasksService(
+    new AiTaskRepository(),
+    new ReviewTargetRepository(),
+    new ReviewSpaceRepository(),
+    new ProjectRepository(),
+  );
+  return service.execute();
+});
+
+/**
+ * AIタスク強制停止アクション
+ */
+const forceStopAiTaskSchema = z.object({
+  taskId: z.string().uuid(),
+});
+
+export const forceStopAiTaskAction = adminAction
+  .schema(forceStopAiTaskSchema)
+  .action(async ({ parsedInput }) => {
+    const service = new ForceStopAiTaskService(
+      new AiTaskRepository(),
+      new ReviewTargetRepository(),
+      new ReviewSpaceRepository(),
+      WorkflowRunRegistry.getInstance(),
+      new QaHistoryRepository(),
+    );
+    return service.execute(parsedInput);
+  });
@@ -0,0 +1,143 @@
+"use client";
+
+import type { ActiveAiTaskDto } from "@/application/admin";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CircleStop } from "lucide-react";
+
+/**
+ * タスク種別の表示名
+ */
+const TASK_TYPE_LABELS: Record<ActiveAiTaskDto["taskType"], string> = {
+  small_review: "レビュー（少量）",
+  large_review: "レビュー（大量）",
+  checklist_generation: "チェックリスト生成",
+  qa_execution: "Q&A",
+};
+
+/**
+ * 日時フォーマット
+ */
+function formatDateTime(date: Date | string | null): string {
+  if (!date) {
+    return "-";
+  }
+  return new Date(date).toLocaleString("ja-JP", {
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+/**
+ * 経過時間フォーマット
+ */
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) {
+    return `${hours}時間${minutes}分`;
+  }
+  if (minutes > 0) {
+    return `${minutes}分${seconds}秒`;
+  }
+  return `${seconds}秒`;
+}
+
+interface ActiveAiTaskListProps {
+  tasks: ActiveAiTaskDto[];
+  onForceStop: (taskId: string) => void;
+  isStopping: boolean;
+}
+
+/**
+ * 実行中・待機中AIタスク一覧コンポーネント
+ */
+export function ActiveAiTaskList({
+  tasks,
+  onForceStop,
+  isStopping,
+}: ActiveAiTaskListProps) {
+  if (tasks.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        実行中・待機中のタスクはありません
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200 text-left text-xs text-gray-500">
+            <th className="px-2 py-2 font-medium">状態</th>
+            <th className="px-2 py-2 font-medium">種別</th>
+            <th className="px-2 py-2 font-medium">プロジェクト / スペース</th>
+            <th className="px-2 py-2 font-medium">レビュー対象</th>
+            <th className="px-2 py-2 font-medium">APIキー</th>
+            <th className="px-2 py-2 font-medium">待機時間</th>
+            <th className="px-2 py-2 font-medium">開始日時</th>
+            <th className="px-2 py-2 font-medium">ワーカー</th>
+            <th className="px-2 py-2" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {tasks.map((task) => (
+            <tr key={task.taskId} className="align-top">
+              <td className="px-2 py-3">
+                {task.status === "processing" ? (
+                  <Badge>処理中</Badge>
+                ) : (
+                  <Badge variant="secondary">待機中</Badge>
+                )}
+              </td>
+              <td className="px-2 py-3 whitespace-nowrap text-gray-700">
+                {TASK_TYPE_LABELS[task.taskType]}
+              </td>
+              <td className="px-2 py-3 text-gray-900">
+                <p>{task.projectName ?? "（削除済み）"}</p>
+                <p className="text-xs text-gray-500">
+                  {task.reviewSpaceName ?? "（削除済み）"}
+                </p>
+              </td>
+              <td className="px-2 py-3 text-gray-900">
+                {task.reviewTargetId
+                  ? (task.reviewTargetName ?? "（削除済み）")
+                  : "-"}
+              </td>
+              <td className="px-2 py-3 font-mono text-xs text-gray-500">
+                {task.apiKeyHash.substring(0, 8)}
+              </td>
+              <td className="px-2 py-3 whitespace-nowrap text-gray-700">
+                {formatDuration(task.waitTimeMs)}
+              </td>
+              <td className="px-2 py-3 whitespace-nowrap text-gray-700">
+                {formatDateTime(task.startedAt)}
+              </td>
+              <td className="px-2 py-3 font-mono text-xs text-gray-500">
+                {task.workerId ?? "-"}
+              </td>
+              <td className="px-2 py-3 text-right">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onForceStop(task.taskId)}
+                  disabled={isStopping}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  aria-label="強制停止"
+                >
+                  <CircleStop className="size-4" />
+                </Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import { useAction } from "next-safe-action/hooks";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { RefreshCw, Loader2 } from "lucide-react";
+import type { ListActiveAiTasksResult } from "@/application/admin";
+import { ActiveAiTaskList } from "./ActiveAiTaskList";
+import { listActiveAiTasksAction, forceStopAiTaskAction } from "../actions";
+import { useServerActionError } from "@/hooks";
+import { showSuccess, getMessage } from "@/lib/client";
+
+interface TasksClientProps {
+  initialResult: ListActiveAiTasksResult;
+}
+
+/**
+ * AIタスク管理クライアントコンポーネント
+ */
+export function TasksClient({ initialResult }: TasksClientProps) {
+  const [result, setResult] = useState<ListActiveAiTasksResult>(initialResult);
+  const [stopTargetId, setStopTargetId] = useState<string | null>(null);
+  const { error, handleError, clearError } = useServerActionError();
+
+  // 停止対象のタスク情報を取得
+  const stopTarget = result.tasks.find((t) => t.taskId === stopTargetId);
+
+  // タスク一覧取得
+  const { execute: loadTasks, isPending: isLoading } = useAction(
+    listActiveAiTasksAction,
+    {
+      onSuccess: ({ data }) => {
+        if (data) {
+          setResult(data);
+          clearError();
+        }
+      },
+      onError: ({ error: actionError }) => {
+        handleError(actionError, "タスク一覧の取得に失敗しました");
+      },
+    },
+  );
+
+  // タスク強制停止
+  const { execute: forceStopTask, isPending: isStopping } = useAction(
+    forceStopAiTaskAction,
+    {
+      onSuccess: () => {
+        setStopTargetId(null);
+        loadTasks();
+        showSuccess(getMessage("SUCCESS_AI_TASK_FORCE_STOPPED"));
+        clearError();
+      },
+      onError: ({ error: actionError }) => {
+        setStopTargetId(null);
+        loadTasks();
+        handleError(actionError, "タスクの停止に失敗しました");
+      },
+    },
+  );
+
+  const handleForceStopConfirm = () => {
+    if (stopTargetId) {
+      forceStopTask({ taskId: stopTargetId });
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto">
+      {/* ページヘッダー */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">AIタスク管理</h1>
+        <p className="text-gray-600">
+          全プロジェクトの実行中・待機中のAIタスクを確認し、必要に応じて停止します
+        </p>
+      </div>
+
+      {/* エラー表示 */}
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {/* タスク一覧カード */}
+      <div className="bg-white rounded-lg border border-gray-200 shadow-sm">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">タスク一覧</h2>
+            <p className="text-xs text-gray-500">
+              処理中 {result.processingCount}件 / 待機中 {result.queuedCount}件
+            </p>
+          </div>
+          <Button
+            onClick={() => loadTasks()}
+            size="sm"
+            variant="outline"
+            disabled={isLoading}
+          >
+            <RefreshCw className="size-4 mr-2" />
+            更新
+          </Button>
+        </div>
+
+        <div className="p-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="size-6 animate-spin text-gray-400" />
+              <span className="ml-2 text-gray-500">読み込み中...</span>
+            </div>
+          ) : (
+            <ActiveAiTaskList
+              tasks={result.tasks}
+              onForceStop={setStopTargetId}
+              isStopping={isStopping}
+            />
+          )}
+        </div>
+      </div>
+
+      {/* 強制停止確認ダイアログ */}
+      <AlertDialog
+        open={!!stopTargetId}
+        onOpenChange={(open) => !open && setStopTargetId(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>タスクを停止しますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              {stopTarget?.status === "processing"
+                ? "処理中のAIタスクを中断します。"
+                : "待機中のAIタスクをキューから削除します。"}
+              {stopTarget?.reviewTargetId
+                ? "レビュー対象はエラー状態になります。"
+                : "チェックリスト生成はエラーとして記録されます。"}
+              この操作は取り消せません。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleForceStopConfirm}
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+            >
+              停止
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import {
+  AiTaskRepository,
+  ProjectRepository,
+  ReviewSpaceRepository,
+  ReviewTargetRepository,
+} from "@/infrastructure/adapter/db";
+import { ListActiveAiTasksService } from "@/application/admin";
+import { TasksClient } from "./components/TasksClient";
+
+/**
+ * AIタスク管理ページ（サーバーコンポーネント）
+ * RSCで初期データを取得してクライアントコンポーネントに渡す
+ */
+export default async function AdminTasksPage() {
+  const service = new ListActiveAiTasksService(
+    new AiTaskRepository(),
+    new ReviewTargetRepository(),
+    new ReviewSpaceRepository(),
+    new ProjectRepository(),
+  );
+  const result = await service.execute();
+
+  return <TasksClient initialResult={result} />;
+}
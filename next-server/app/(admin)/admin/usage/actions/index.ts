@@ -0,0 +1,29 @@
+"use server";
+
+import { z } from "zod";
+import { adminAction } from "@/lib/server/baseAction";
+import {
+  AiTokenUsageRepository,
+  ProjectRepository,
+} from "@/infrastructure/adapter/db";
+import { ListAiTokenUsagesService } from "@/application/admin";
+
+/**
+ * プロジェクト別AIトークン使用量一覧取得アクション
+ */
+const listAiTokenUsagesSchema = z.object({
+  month: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/)
+    .optional(),
+});
+
+export const listAiTokenUsagesAction = adminAction
+  .schema(listAiTokenUsagesSchema)
+  .action(async ({ parsedInput }) => {
+    const service = new ListAiTokenUsagesService(
+      new AiTokenUsageRepository(),
+      new ProjectRepository(),
+    );
+    return service.execute(parsedInput);
+  });
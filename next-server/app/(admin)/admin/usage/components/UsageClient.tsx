@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import { useAction } from "next-safe-action/hooks";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Loader2 } from "lucide-react";
+import type { ListAiTokenUsagesResult } from "@/application/admin";
+import { listAiTokenUsagesAction } from "../actions";
+import { useServerActionError } from "@/hooks";
+
+interface UsageClientProps {
+  initialResult: ListAiTokenUsagesResult;
+}
+
+/**
+ * トークン数フォーマット
+ */
+function formatTokens(value: number): string {
+  return value.toLocaleString("ja-JP");
+}
+
+/**
+ * AI使用量クライアントコンポーネント
+ */
+export function UsageClient({ initialResult }: UsageClientProps) {
+  const [result, setResult] = useState<ListAiTokenUsagesResult>(initialResult);
+  const { error, handleError, clearError } = useServerActionError();
+
+  // 使用量一覧取得
+  const { execute: loadUsages, isPending: isLoading } = useAction(
+    listAiTokenUsagesAction,
+    {
+      onSuccess: ({ data }) => {
+        if (data) {
+          setResult(data);
+          clearError();
+        }
+      },
+      onError: ({ error: actionError }) => {
+        handleError(actionError, "AI使用量の取得に失敗しました");
+      },
+    },
+  );
+
+  const handleMonthChange = (month: string) => {
+    if (month) {
+      loadUsages({ month });
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto">
+      {/* ページヘッダー */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">AI使用量</h1>
+        <p className="text-gray-600">
+          全プロジェクトの月間のAIトークン使用量と上限に対する消費状況を確認します
+        </p>
+      </div>
+
+      {/* エラー表示 */}
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg border border-gray-200 shadow-sm">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              プロジェクト別使用量
+            </h2>
+            <p className="text-xs text-gray-500">
+              合計 {formatTokens(result.total.totalTokens)}トークン（入力{" "}
+              {formatTokens(result.total.promptTokens)} / 出力{" "}
+              {formatTokens(result.total.completionTokens)}）・呼び出し{" "}
+              {formatTokens(result.total.requestCount)}回
+            </p>
+          </div>
+          <Input
+            type="month"
+            aria-label="集計月"
+            className="w-44"
+            defaultValue={result.month}
+            onChange={(e) => handleMonthChange(e.target.value)}
+            disabled={isLoading}
+          />
+        </div>
+
+        <div className="p-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="size-6 animate-spin text-gray-400" />
+              <span className="ml-2 text-gray-500">読み込み中...</span>
+            </div>
+          ) : result.projects.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              {result.month}のAIトークン使用量はありません
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-xs text-gray-500">
+                    <th className="px-2 py-2 font-medium">プロジェクト</th>
+                    <th className="px-2 py-2 font-medium text-right">
+                      呼び出し回数
+                    </th>
+                    <th className="px-2 py-2 font-medium text-right">入力</th>
+                    <th className="px-2 py-2 font-medium text-right">出力</th>
+                    <th className="px-2 py-2 font-medium text-right">合計</th>
+                    <th className="px-2 py-2 font-medium">月間上限</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {result.projects.map((project) => (
+                    <tr key={project.projectId}>
+                      <td className="px-2 py-3 text-gray-900">
+                        {project.projectName}
+                      </td>
+                      <td className="px-2 py-3 text-right text-gray-700">
+                        {formatTokens(project.requestCount)}
+                      </td>
+                      <td className="px-2 py-3 text-right text-gray-700">
+                        {formatTokens(project.promptTokens)}
+                      </td>
+                      <td className="px-2 py-3 text-right text-gray-700">
+                        {formatTokens(project.completionTokens)}
+                      </td>
+                      <td className="px-2 py-3 text-right font-medium text-gray-900">
+                        {formatTokens(project.totalTokens)}
+                      </td>
+                      <td className="px-2 py-3 w-48">
+                        {project.monthlyTokenBudget === null ||
+                        project.budgetUsageRate === null ? (
+                          <span className="text-gray-500">上限なし</span>
+                        ) : (
+                          <div className="space-y-1">
+                            <Progress
+                              value={Math.min(
+                                project.budgetUsageRate * 100,
+                                100,
+                              )}
+                            />
+                            <p
+                              className={`text-xs ${
+                                project.budgetUsageRate >= 1
+                                  ? "text-red-600"
+                                  : "text-gray-500"
+                              }`}
+                            >
+                              {Math.round(project.budgetUsageRate * 100)}% /{" "}
+                              {formatTokens(project.monthlyTokenBudget)}
+                            </p>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
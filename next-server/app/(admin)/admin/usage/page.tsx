@@ -0,0 +1,20 @@
+import {
+  AiTokenUsageRepository,
+  ProjectRepository,
+} from "@/infrastructure/adapter/db";
+import { ListAiTokenUsagesService } from "@/application/admin";
+import { UsageClient } from "./components/UsageClient";
+
+/**
+ * AI使用量ページ（サーバーコンポーネント）
+ * RSCで今月の使用量を取得してクライアントコンポーネントに渡す
+ */
+export default async function AdminUsagePage() {
+  const service = new ListAiTokenUsagesService(
+    new AiTokenUsageRepository(),
+    new ProjectRepository(),
+  );
+  const result = await service.execute();
+
+  return <UsageClient initialResult={result} />;
+}
@@ -0,0 +1,56 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import {
+  PersonalAccessTokenRepository,
+  ProjectRepository,
+} from "@/infrastructure/adapter/db";
+import {
+  CreatePersonalAccessTokenService,
+  RevokePersonalAccessTokenService,
+} from "@/application/personalAccessToken";
+
+/**
+ * パーソナルアクセストークン発行アクション
+ */
+const createPersonalAccessTokenSchema = z.object({
+  name: z.string().min(1).max(100),
+  projectIds: z.array(z.string().uuid()).min(1),
+  expiresInDays: z.number().int().min(1).max(365).nullable(),
+});
+
+export const createPersonalAccessTokenAction = authenticatedAction
+  .schema(createPersonalAccessTokenSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new CreatePersonalAccessTokenService(
+      new PersonalAccessTokenRepository(),
+      new ProjectRepository(),
+    );
+    return service.execute({
+      userId: ctx.auth.userId,
+      name: parsedInput.name,
+      projectIds: parsedInput.projectIds,
+      expiresInDays: parsedInput.expiresInDays,
+    });
+  });
+
+/**
+ * パーソナルアクセストークン無効化アクション
+ */
+const revokePersonalAccessTokenSchema = z.object({
+  tokenId: z.string().uuid(),
+});
+
+export const revokePersonalAccessTokenAction = authenticatedAction
+  .schema(revokePersonalAccessTokenSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new RevokePersonalAccessTokenService(
+      new PersonalAccessTokenRepository(),
+    );
+    await service.execute({
+      tokenId: parsedInput.tokenId,
+      userId: ctx.auth.userId,
+    });
+    return { success: true };
+  });
@@ -0,0 +1,320 @@
+"use client";
+
+import { useState } from "react";
+import { useAction } from "next-safe-action/hooks";
+import { Copy, KeyRound, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { PersonalAccessTokenSummaryDto } from "@/application/personalAccessToken";
+import { useServerActionError } from "@/hooks";
+import { showSuccess, getMessage } from "@/lib/client";
+import {
+  createPersonalAccessTokenAction,
+  revokePersonalAccessTokenAction,
+} from "../actions";
+
+/** 有効期限の選択肢（日数、nullは無期限） */
+const EXPIRATION_OPTIONS: { label: string; value: number | null }[] = [
+  { label: "30日", value: 30 },
+  { label: "90日", value: 90 },
+  { label: "365日", value: 365 },
+  { label: "無期限", value: null },
+];
+
+interface AccessTokensClientProps {
+  initialTokens: PersonalAccessTokenSummaryDto[];
+  projects: { id: string; name: string }[];
+}
+
+/**
+ * 日時を表示用にフォーマットする
+ */
+function formatDate(value: Date | null): string {
+  return value ? new Date(value).toLocaleString("ja-JP") : "-";
+}
+
+/**
+ * アクセストークン管理クライアントコンポーネント
+ * トークンの発行・一覧表示・無効化を担当
+ */
+export function AccessTokensClient({
+  initialTokens,
+  projects,
+}: AccessTokensClientProps) {
+  const [tokens, setTokens] =
+    useState<PersonalAccessTokenSummaryDto[]>(initialTokens);
+  const [name, setName] = useState("");
+  const [selectedProjectIds, setSelectedProjectIds] = useState<string[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+  const [issuedToken, setIssuedToken] = useState<string | null>(null);
+  const [revokeTargetId, setRevokeTargetId] = useState<string | null>(null);
+  const { error, handleError, clearError } = useServerActionError();
+
+  const projectNameById = new Map(projects.map((p) => [p.id, p.name]));
+
+  // トークン発行
+  const { execute: createToken, isPending: isCreating } = useAction(
+    createPersonalAccessTokenAction,
+    {
+      onSuccess: ({ data }) => {
+        if (data) {
+          setTokens((prev) => [data.token, ...prev]);
+          setIssuedToken(data.rawToken);
+          setName("");
+          setSelectedProjectIds([]);
+          showSuccess(getMessage("SUCCESS_PERSONAL_ACCESS_TOKEN_CREATED"));
+          clearError();
+        }
+      },
+      onError: ({ error: actionError }) => {
+        handleError(actionError, "アクセストークンの発行に失敗しました");
+      },
+    },
+  );
+
+  // トークン無効化
+  const { execute: revokeToken, isPending: isRevoking } = useAction(
+    revokePersonalAccessTokenAction,
+    {
+      onSuccess: ({ input }) => {
+        setTokens((prev) => prev.filter((t) => t.id !== input.tokenId));
+        setRevokeTargetId(null);
+        showSuccess(getMessage("SUCCESS_PERSONAL_ACCESS_TOKEN_REVOKED"));
+        clearError();
+      },
+      onError: ({ error: actionError }) => {
+        setRevokeTargetId(null);
+        handleError(actionError, "アクセストークンの無効化に失敗しました");
+      },
+    },
+  );
+
+  const toggleProject = (projectId: string, checked: boolean) => {
+    setSelectedProjectIds((prev) =>
+      checked ? [...prev, projectId] : prev.filter((id) => id !== projectId),
+    );
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    setIssuedToken(null);
+    createToken({
+      name: name.trim(),
+      projectIds: selectedProjectIds,
+      expiresInDays,
+    });
+  };
+
+  const handleCopy = async () => {
+    if (issuedToken) {
+      await navigator.clipboard.writeText(issuedToken);
+    }
+  };
+
+  const canSubmit =
+    name.trim().length > 0 && selectedProjectIds.length > 0 && !isCreating;
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto">
+      {/* ページヘッダー */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">
+          アクセストークン
+        </h1>
+        <p className="text-gray-600">
+          CIなどの外部システムからAPI（/api/v1）を呼び出すためのトークンを管理します。
+          トークンはあなたの権限で、許可したプロジェクトのみにアクセスできます。
+        </p>
+      </div>
+
+      {/* エラー表示 */}
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {/* 発行したトークンの表示 */}
+      {issuedToken && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-sm font-medium text-green-800 mb-2">
+            トークンを発行しました。この画面を離れると再表示できないため、今すぐコピーしてください。
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 px-3 py-2 bg-white border border-green-200 rounded text-sm break-all">
+              {issuedToken}
+            </code>
+            <Button variant="outline" size="sm" onClick={handleCopy}>
+              <Copy className="size-4 mr-2" />
+              コピー
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* トークン発行フォーム */}
+      <form
+        onSubmit={handleCreate}
+        className="mb-6 bg-white rounded-lg border border-gray-200 shadow-sm p-4 space-y-4"
+      >
+        <h2 className="text-lg font-semibold text-gray-900">
+          新しいトークンを発行
+        </h2>
+        <div className="space-y-2">
+          <Label htmlFor="token-name">トークン名</Label>
+          <Input
+            id="token-name"
+            value={name}
+            maxLength={100}
+            placeholder="例: 設計書レビューCI"
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>アクセスを許可するプロジェクト</Label>
+          {projects.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              参加しているプロジェクトがありません
+            </p>
+          ) : (
+            <div className="grid gap-2 sm:grid-cols-2">
+              {projects.map((project) => (
+                <label
+                  key={project.id}
+                  className="flex items-center gap-2 text-sm text-gray-700"
+                >
+                  <Checkbox
+                    checked={selectedProjectIds.includes(project.id)}
+                    onCheckedChange={(checked) =>
+                      toggleProject(project.id, checked === true)
+                    }
+                  />
+                  {project.name}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="token-expiration">有効期限</Label>
+          <select
+            id="token-expiration"
+            className="block w-48 rounded-md border border-gray-300 px-3 py-2 text-sm"
+            value={expiresInDays ?? ""}
+            onChange={(e) =>
+              setExpiresInDays(e.target.value ? Number(e.target.value) : null)
+            }
+          >
+            {EXPIRATION_OPTIONS.map((option) => (
+              <option key={option.label} value={option.value ?? ""}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Button type="submit" disabled={!canSubmit}>
+          {isCreating ? (
+            <Loader2 className="size-4 mr-2 animate-spin" />
+          ) : (
+            <KeyRound className="size-4 mr-2" />
+          )}
+          発行
+        </Button>
+      </form>
+
+      {/* トークン一覧 */}
+      <div className="bg-white rounded-lg border border-gray-200 shadow-sm">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">
+            発行済みトークン
+          </h2>
+        </div>
+        {tokens.length === 0 ? (
+          <p className="p-4 text-sm text-gray-500">
+            発行済みのトークンはありません
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {tokens.map((token) => (
+              <li
+                key={token.id}
+                className="p-4 flex items-start justify-between gap-4"
+              >
+                <div className="space-y-1 text-sm">
+                  <p className="font-medium text-gray-900">
+                    {token.name}
+                    {token.isExpired && (
+                      <span className="ml-2 text-xs text-red-600">
+                        期限切れ
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-gray-500">
+                    <code>{token.tokenPrefix}…</code>
+                  </p>
+                  <p className="text-gray-500">
+                    プロジェクト:{" "}
+                    {token.projectIds
+                      .map((id) => projectNameById.get(id) ?? id)
+                      .join("、")}
+                  </p>
+                  <p className="text-gray-500">
+                    有効期限: {formatDate(token.expiresAt)} / 最終使用:{" "}
+                    {formatDate(token.lastUsedAt)}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRevokeTargetId(token.id)}
+                >
+                  <Trash2 className="size-4 mr-2" />
+                  無効化
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* 無効化確認ダイアログ */}
+      <AlertDialog
+        open={!!revokeTargetId}
+        onOpenChange={(open) => !open && setRevokeTargetId(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>トークンを無効化しますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              このトークンを使用しているCIなどからのAPI呼び出しは失敗するようになります。この操作は取り消せません。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                revokeTargetId && revokeToken({ tokenId: revokeTargetId })
+              }
+              disabled={isRevoking}
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+            >
+              無効化
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
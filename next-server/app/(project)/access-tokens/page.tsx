@@ -0,0 +1,41 @@
+import { ListPersonalAccessTokensService } from "@/application/personalAccessToken";
+import { ListUserProjectsService } from "@/application/project";
+import {
+  PersonalAccessTokenRepository,
+  ProjectRepository,
+  UserRepository,
+} from "@/infrastructure/adapter/db";
+import { getAuthenticatedUser } from "@/lib/server/auth";
+import { AccessTokensClient } from "./components/AccessTokensClient";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * アクセストークン管理ページ（サーバコンポーネント）
+ * CIなどからREST APIを呼び出すためのパーソナルアクセストークンを管理する
+ */
+export default async function AccessTokensPage() {
+  // 認証チェック
+  const authUser = await getAuthenticatedUser();
+
+  // 初期データ取得
+  const [tokens, projects] = await Promise.all([
+    new ListPersonalAccessTokensService(
+      new PersonalAccessTokenRepository(),
+    ).execute({ userId: authUser.userId }),
+    new ListUserProjectsService(
+      new ProjectRepository(),
+      new UserRepository(),
+    ).execute({ userId: authUser.userId, page: 1, limit: 100 }),
+  ]);
+
+  return (
+    <AccessTokensClient
+      initialTokens={tokens}
+      projects={projects.projects.map((project) => ({
+        id: project.id,
+        name: project.name,
+      }))}
+    />
+  );
+}
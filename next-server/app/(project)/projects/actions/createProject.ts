@@ -9,7 +9,21 @@ const createProjectSchema = z.object({
   name: z.string().min(1).max(100),
   description: z.string().max(1000).optional().nullable(),
   apiKey: z.string().optional().nullable(),
-  memberIds: z.array(z.string().uuid()).min(1),
+  aiApiRateLimit: z
+    .object({
+      requestsPerMinute: z.number().int().positive().nullable(),
+      tokensPerMinute: z.number().int().positive().nullable(),
+    })
+    .optional(),
+  monthlyTokenBudget: z.number().int().positive().nullable().optional(),
+  members: z
+    .array(
+      z.object({
+        userId: z.string().uuid(),
+        role: z.enum(["owner", "editor", "reviewer", "viewer"]).optional(),
+      }),
+    )
+    .min(1),
 });
 
 /**
@@ -21,16 +35,19 @@ export const createProjectAction = authenticatedAction
     const userRepository = new UserRepository();
     const projectRepository = new ProjectRepository();
 
-    // 作成者がメンバーに含まれていない場合は追加
-    const memberIds = parsedInput.memberIds.includes(ctx.auth.userId)
-      ? parsedInput.memberIds
-      : [ctx.auth.userId, ...parsedInput.memberIds];
+    // 作成者は常にオーナーとしてメンバーに含める
+    const members = [
+      { userId: ctx.auth.userId, role: "owner" },
+      ...parsedInput.members.filter((m) => m.userId !== ctx.auth.userId),
+    ];
 
     const service = new CreateProjectService(projectRepository, userRepository);
     return service.execute({
       name: parsedInput.name,
       description: parsedInput.description,
       apiKey: parsedInput.apiKey,
-      memberIds,
+      aiApiRateLimit: parsedInput.aiApiRateLimit,
+      monthlyTokenBudget: parsedInput.monthlyTokenBudget,
+      members,
     });
   });
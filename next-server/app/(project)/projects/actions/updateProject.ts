@@ -10,6 +10,22 @@ const updateProjectSchema = z.object({
   name: z.string().min(1).max(100).optional(),
   description: z.string().max(1000).optional().nullable(),
   apiKey: z.string().optional().nullable(),
+  aiApiRateLimit: z
+    .object({
+      requestsPerMinute: z.number().int().positive().nullable(),
+      tokensPerMinute: z.number().int().positive().nullable(),
+    })
+    .optional(),
+  monthlyTokenBudget: z.number().int().positive().nullable().optional(),
+  aiModelAssignments: z
+    .record(
+      z.string(),
+      z.object({
+        providerId: z.string().nullable(),
+        model: z.string().min(1).max(255),
+      }),
+    )
+    .optional(),
 });
 
 /**
@@ -29,5 +45,8 @@ export const updateProjectAction = authenticatedAction
       name: parsedInput.name,
       description: parsedInput.description,
       apiKey: parsedInput.apiKey,
+      aiApiRateLimit: parsedInput.aiApiRateLimit,
+      monthlyTokenBudget: parsedInput.monthlyTokenBudget,
+      aiModelAssignments: parsedInput.aiModelAssignments,
     });
   });
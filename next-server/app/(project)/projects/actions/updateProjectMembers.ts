@@ -7,7 +7,14 @@ import { ProjectRepository, UserRepository } from "@/infrastructure/adapter/db";
 
 const updateProjectMembersSchema = z.object({
   projectId: z.string().uuid(),
-  memberIds: z.array(z.string().uuid()).min(1),
+  members: z
+    .array(
+      z.object({
+        userId: z.string().uuid(),
+        role: z.enum(["owner", "editor", "reviewer", "viewer"]),
+      }),
+    )
+    .min(1),
 });
 
 /**
@@ -26,6 +33,6 @@ export const updateProjectMembersAction = authenticatedAction
     return service.execute({
       projectId: parsedInput.projectId,
       userId: ctx.auth.userId,
-      memberIds: parsedInput.memberIds,
+      members: parsedInput.members,
     });
   });
@@ -51,7 +51,9 @@ export default function NewProjectPage() {
       name: data.name,
       description: data.description || null,
       apiKey: data.apiKey || null,
-      memberIds: data.members.map((m) => m.id),
+      aiApiRateLimit: data.aiApiRateLimit,
+      monthlyTokenBudget: data.monthlyTokenBudget,
+      members: data.members.map((m) => ({ userId: m.id, role: m.role })),
     });
   };
 
@@ -0,0 +1,60 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import {
+  ExportReviewAnalyticsToCsvService,
+  GetReviewAnalyticsService,
+  REVIEW_ANALYTICS_CSV_SECTIONS,
+} from "@/application/reviewAnalytics";
+import {
+  ProjectRepository,
+  ReviewAnalyticsRepository,
+  ReviewSpaceRepository,
+} from "@/infrastructure/adapter/db";
+
+/**
+ * IANA形式のタイムゾーンか判定する
+ */
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const exportReviewAnalyticsToCsvSchema = z.object({
+  projectId: z.string().uuid(),
+  reviewSpaceId: z.string().uuid().optional(),
+  from: z.string().datetime(),
+  to: z.string().datetime(),
+  timeZone: z.string().refine(isValidTimeZone),
+  section: z.enum(REVIEW_ANALYTICS_CSV_SECTIONS),
+});
+
+/**
+ * レビュー分析の集計表をCSV形式でエクスポートするアクション
+ */
+export const exportReviewAnalyticsToCsvAction = authenticatedAction
+  .schema(exportReviewAnalyticsToCsvSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new ExportReviewAnalyticsToCsvService(
+      new GetReviewAnalyticsService(
+        new ReviewAnalyticsRepository(),
+        new ReviewSpaceRepository(),
+        new ProjectRepository(),
+      ),
+    );
+
+    return service.execute({
+      projectId: parsedInput.projectId,
+      reviewSpaceId: parsedInput.reviewSpaceId,
+      from: new Date(parsedInput.from),
+      to: new Date(parsedInput.to),
+      timeZone: parsedInput.timeZone,
+      section: parsedInput.section,
+      userId: ctx.auth.userId,
+    });
+  });
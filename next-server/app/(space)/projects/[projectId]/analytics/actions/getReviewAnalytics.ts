@@ -0,0 +1,52 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { GetReviewAnalyticsService } from "@/application/reviewAnalytics";
+import {
+  ProjectRepository,
+  ReviewAnalyticsRepository,
+  ReviewSpaceRepository,
+} from "@/infrastructure/adapter/db";
+
+/**
+ * IANA形式のタイムゾーンか判定する
+ */
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const getReviewAnalyticsSchema = z.object({
+  projectId: z.string().uuid(),
+  reviewSpaceId: z.string().uuid().optional(),
+  from: z.string().datetime(),
+  to: z.string().datetime(),
+  timeZone: z.string().refine(isValidTimeZone),
+});
+
+/**
+ * プロジェクト・レビュースペースのレビュー分析を取得するアクション
+ */
+export const getReviewAnalyticsAction = authenticatedAction
+  .schema(getReviewAnalyticsSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new GetReviewAnalyticsService(
+      new ReviewAnalyticsRepository(),
+      new ReviewSpaceRepository(),
+      new ProjectRepository(),
+    );
+
+    return service.execute({
+      projectId: parsedInput.projectId,
+      reviewSpaceId: parsedInput.reviewSpaceId,
+      from: new Date(parsedInput.from),
+      to: new Date(parsedInput.to),
+      timeZone: parsedInput.timeZone,
+      userId: ctx.auth.userId,
+    });
+  });
@@ -0,0 +1,2 @@
+export { getReviewAnalyticsAction } from "./getReviewAnalytics";
+export { exportReviewAnalyticsToCsvAction } from "./exportReviewAnalyticsToCsv";
@@ -0,0 +1,651 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAction } from "next-safe-action/hooks";
+import { BarChart3, Download, Loader2, RefreshCw } from "lucide-react";
+import { Breadcrumb } from "@/components/layout/Breadcrumb";
+import { Button } from "@/components/ui/button";
+import type {
+  ReviewAnalyticsCsvSection,
+  ReviewAnalyticsDto,
+} from "@/application/reviewAnalytics";
+import { extractServerErrorMessage } from "@/hooks";
+import { formatClientMessage, showError, showSuccess } from "@/lib/client";
+import {
+  exportReviewAnalyticsToCsvAction,
+  getReviewAnalyticsAction,
+} from "../actions";
+
+interface ReviewAnalyticsClientProps {
+  projectId: string;
+  projectName: string;
+  /** レビュースペースID（省略時はプロジェクト全体を集計） */
+  spaceId?: string;
+  spaceName?: string;
+}
+
+/**
+ * タスク種別の表示名
+ */
+const TASK_TYPE_LABELS: Record<string, string> = {
+  small_review: "レビュー（少量）",
+  large_review: "レビュー（大量）",
+  checklist_generation: "チェックリスト生成",
+  qa_execution: "Q&A",
+};
+
+/**
+ * 評定分布バーの色（評定ラベルの並び順で割り当てる）
+ */
+const EVALUATION_BAR_COLORS = [
+  "bg-green-500",
+  "bg-yellow-400",
+  "bg-red-500",
+  "bg-blue-500",
+  "bg-purple-500",
+  "bg-pink-500",
+];
+
+/**
+ * 期間のプリセット（日数）
+ */
+const RANGE_PRESETS = [7, 30, 90];
+
+/**
+ * 日付をdate入力の値（ローカル日付のYYYY-MM-DD）に変換する
+ */
+function toDateInputValue(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * 今日を終了日とする指定日数の期間を返す
+ */
+function presetRange(days: number): { from: string; to: string } {
+  const to = new Date();
+  const from = new Date();
+  from.setDate(to.getDate() - (days - 1));
+  return { from: toDateInputValue(from), to: toDateInputValue(to) };
+}
+
+/**
+ * 画面で選択した期間（ローカル日付）を集計条件に変換する
+ * 終了日はその日の終わりまでを含める
+ */
+function toQuery(from: string, to: string) {
+  const toDate = new Date(`${to}T00:00:00`);
+  toDate.setDate(toDate.getDate() + 1);
+  return {
+    from: new Date(`${from}T00:00:00`).toISOString(),
+    to: toDate.toISOString(),
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  };
+}
+
+/**
+ * 割合をパーセント表記に変換する
+ */
+function formatPercent(rate: number | null): string {
+  return rate === null ? "-" : `${(rate * 100).toFixed(1)}%`;
+}
+
+/**
+ * ミリ秒を読みやすい所要時間に変換する
+ */
+function formatDuration(ms: number | null): string {
+  if (ms === null) {
+    return "-";
+  }
+  if (ms < 60_000) {
+    return `${(ms / 1000).toFixed(1)}秒`;
+  }
+  if (ms < 3_600_000) {
+    return `${(ms / 60_000).toFixed(1)}分`;
+  }
+  return `${(ms / 3_600_000).toFixed(1)}時間`;
+}
+
+/**
+ * 集計表の見出し（CSVダウンロードボタン付き）
+ */
+function SectionHeader({
+  title,
+  description,
+  onDownload,
+  isDownloading,
+}: {
+  title: string;
+  description: string;
+  onDownload: () => void;
+  isDownloading: boolean;
+}) {
+  return (
+    <div className="flex items-start justify-between gap-4 mb-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+        <p className="text-sm text-gray-600">{description}</p>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={onDownload}
+        disabled={isDownloading}
+        className="flex items-center gap-2 flex-shrink-0"
+      >
+        <Download className="w-4 h-4" />
+        CSV
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * レビュー分析ダッシュボード
+ * プロジェクト全体またはレビュースペースのチェック項目ごとの評定分布、日別推移、
+ * AIタスクの所要時間、Q&Aでよく質問されるチェック項目を表示する
+ */
+export function ReviewAnalyticsClient({
+  projectId,
+  projectName,
+  spaceId,
+  spaceName,
+}: ReviewAnalyticsClientProps) {
+  const [range, setRange] = useState(() => presetRange(30));
+  const [analytics, setAnalytics] = useState<ReviewAnalyticsDto | null>(null);
+
+  const { execute: loadAnalytics, isPending: isLoading } = useAction(
+    getReviewAnalyticsAction,
+    {
+      onSuccess: ({ data }) => {
+        if (data) {
+          setAnalytics(data);
+        }
+      },
+      onError: ({ error: actionError }) => {
+        showError(extractServerErrorMessage(actionError, "集計に失敗しました"));
+      },
+    },
+  );
+
+  const { execute: exportCsv, isPending: isExporting } = useAction(
+    exportReviewAnalyticsToCsvAction,
+    {
+      onSuccess: ({ data, input }) => {
+        if (data?.csvContent) {
+          // BlobからダウンロードURLを生成
+          const blob = new Blob([data.csvContent], {
+            type: "text/csv;charset=utf-8",
+          });
+          const url = URL.createObjectURL(blob);
+
+          // ダウンロードリンクを作成してクリック
+          const a = document.createElement("a");
+          a.href = url;
+          a.download = `review_analytics_${input.section}_${range.from}_${range.to}.csv`;
+          document.body.appendChild(a);
+          a.click();
+          document.body.removeChild(a);
+          URL.revokeObjectURL(url);
+
+          showSuccess(
+            formatClientMessage("SUCCESS_REVIEW_ANALYTICS_EXPORTED", {
+              count: data.exportedCount,
+            }),
+          );
+        }
+      },
+      onError: ({ error: actionError }) => {
+        showError(
+          extractServerErrorMessage(actionError, "エクスポートに失敗しました"),
+        );
+      },
+    },
+  );
+
+  // 初期ロード（直近30日）
+  useEffect(() => {
+    const initial = presetRange(30);
+    loadAnalytics({
+      projectId,
+      reviewSpaceId: spaceId,
+      ...toQuery(initial.from, initial.to),
+    });
+  }, [projectId, spaceId, loadAnalytics]);
+
+  const handleLoad = (from: string, to: string) => {
+    loadAnalytics({
+      projectId,
+      reviewSpaceId: spaceId,
+      ...toQuery(from, to),
+    });
+  };
+
+  const handleExport = (section: ReviewAnalyticsCsvSection) => {
+    exportCsv({
+      projectId,
+      reviewSpaceId: spaceId,
+      ...toQuery(range.from, range.to),
+      section,
+    });
+  };
+
+  const basePath = spaceId
+    ? `/projects/${projectId}/spaces/${spaceId}`
+    : `/projects/${projectId}/spaces`;
+  const maxDailyCount = Math.max(
+    1,
+    ...(analytics?.dailyTrends.map((d) => d.resultCount) ?? []),
+  );
+  const maxQaCount = Math.max(
+    1,
+    ...(analytics?.qaTopics.map((t) => t.count) ?? []),
+  );
+  const summary = analytics?.summary;
+
+  return (
+    <div className="space-y-6">
+      <Breadcrumb
+        items={[
+          { label: projectName, href: `/projects/${projectId}/spaces` },
+          ...(spaceId && spaceName
+            ? [{ label: spaceName, href: basePath }]
+            : []),
+          { label: "分析" },
+        ]}
+      />
+
+      {/* 集計条件 */}
+      <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-6">
+        <div className="flex items-center gap-2 mb-4">
+          <BarChart3 className="w-5 h-5 text-gray-600" />
+          <h2 className="text-lg font-semibold text-gray-900">
+            {spaceName ? `${spaceName}の分析` : "プロジェクト全体の分析"}
+          </h2>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label
+              htmlFor="analytics-from"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              開始日
+            </label>
+            <input
+              id="analytics-from"
+              type="date"
+              className="rounded-md border border-gray-300 px-3 py-1.5 text-sm"
+              value={range.from}
+              max={range.to}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="analytics-to"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              終了日
+            </label>
+            <input
+              id="analytics-to"
+              type="date"
+              className="rounded-md border border-gray-300 px-3 py-1.5 text-sm"
+              value={range.to}
+              min={range.from}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+            />
+          </div>
+          <Button
+            size="sm"
+            onClick={() => handleLoad(range.from, range.to)}
+            disabled={isLoading || !range.from || !range.to}
+            className="flex items-center gap-2"
+          >
+            {isLoading ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <RefreshCw className="w-4 h-4" />
+            )}
+            集計
+          </Button>
+          <div className="flex gap-2">
+            {RANGE_PRESETS.map((days) => (
+              <Button
+                key={days}
+                variant="outline"
+                size="sm"
+                disabled={isLoading}
+                onClick={() => {
+                  const preset = presetRange(days);
+                  setRange(preset);
+                  handleLoad(preset.from, preset.to);
+                }}
+              >
+                直近{days}日
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {!analytics ? (
+        <div className="flex items-center justify-center py-16 text-gray-600">
+          <Loader2 className="w-5 h-5 animate-spin mr-2" />
+          集計中...
+        </div>
+      ) : (
+        <>
+          {/* サマリー */}
+          {summary && (
+            <div className="grid grid-cols-2 lg:grid-cols-6 gap-4">
+              {[
+                {
+                  label: "レビュー対象",
+                  value: `${summary.reviewTargetCount}件`,
+                },
+                { label: "レビュー結果", value: `${summary.resultCount}件` },
+                {
+                  label: "不適合率",
+                  value: formatPercent(
+                    summary.evaluatedCount > 0
+                      ? summary.nonconformingCount / summary.evaluatedCount
+                      : null,
+                  ),
+                },
+                {
+                  label: "エラー率",
+                  value: formatPercent(
+                    summary.resultCount > 0
+                      ? summary.errorResultCount / summary.resultCount
+                      : null,
+                  ),
+                },
+                {
+                  label: "AIタスク失敗率",
+                  value: formatPercent(
+                    summary.taskCount > 0
+                      ? summary.failedTaskCount / summary.taskCount
+                      : null,
+                  ),
+                },
+                { label: "Q&A質問数", value: `${summary.qaCount}件` },
+              ].map((card) => (
+                <div
+                  key={card.label}
+                  className="bg-white rounded-lg border border-gray-200 shadow-sm p-4"
+                >
+                  <p className="text-xs text-gray-500">{card.label}</p>
+                  <p className="mt-1 text-xl font-bold text-gray-900">
+                    {card.value}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* チェック項目ごとの評定分布 */}
+          <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-6">
+            <SectionHeader
+              title="チェック項目ごとの評定分布"
+              description="レビュアーの上書きを反映した最終評定で集計します。不適合は評定基準で最上位以外の評定（評価対象外を除く）です。"
+              onDownload={() => handleExport("checklistItems")}
+              isDownloading={isExporting}
+            />
+            <div className="flex flex-wrap gap-3 mb-3 text-xs text-gray-600">
+              {analytics.evaluationLabels.map((label, index) => (
+                <span key={label} className="flex items-center gap-1">
+                  <span
+                    className={`inline-block w-3 h-3 rounded-sm ${EVALUATION_BAR_COLORS[index % EVALUATION_BAR_COLORS.length]}`}
+                  />
+                  {label}
+                </span>
+              ))}
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-3 h-3 rounded-sm bg-gray-400" />
+                エラー
+              </span>
+            </div>
+            <div className="overflow-x-auto border border-gray-200 rounded">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">
+                      チェック項目
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 w-64">
+                      評定分布
+                    </th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 w-20">
+                      結果数
+                    </th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 w-24">
+                      不適合率
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {analytics.checklistItems.length === 0 ? (
+                    <tr>
+                      <td
+                        colSpan={4}
+                        className="px-4 py-6 text-center text-gray-500"
+                      >
+                        期間内のレビュー結果がありません
+                      </td>
+                    </tr>
+                  ) : (
+                    analytics.checklistItems.map((item) => (
+                      <tr key={item.checkListItemContent}>
+                        <td className="px-4 py-2 text-gray-900">
+                          {item.checkListItemContent}
+                        </td>
+                        <td className="px-4 py-2">
+                          <div
+                            className="flex h-3 w-full overflow-hidden rounded bg-gray-100"
+                            title={[
+                              ...analytics.evaluationLabels.map(
+                                (label) =>
+                                  `${label}: ${item.evaluationCounts[label] ?? 0}件`,
+                              ),
+                              `エラー: ${item.errorCount}件`,
+                            ].join(" / ")}
+                          >
+                            {analytics.evaluationLabels.map((label, index) => (
+                              <div
+                                key={label}
+                                className={
+                                  EVALUATION_BAR_COLORS[
+                                    index % EVALUATION_BAR_COLORS.length
+                                  ]
+                                }
+                                style={{
+                                  width: `${((item.evaluationCounts[label] ?? 0) / item.resultCount) * 100}%`,
+                                }}
+                              />
+                            ))}
+                            <div
+                              className="bg-gray-400"
+                              style={{
+                                width: `${(item.errorCount / item.resultCount) * 100}%`,
+                              }}
+                            />
+                          </div>
+                        </td>
+                        <td className="px-4 py-2 text-right text-gray-700">
+                          {item.resultCount}
+                        </td>
+                        <td className="px-4 py-2 text-right font-medium text-gray-900">
+                          {formatPercent(item.nonconformingRate)}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* 日別推移 */}
+          <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-6">
+            <SectionHeader
+              title="日別推移"
+              description="日ごとのレビュー結果数（うちエラーを赤で表示）です。バーにカーソルを合わせると詳細を表示します。"
+              onDownload={() => handleExport("dailyTrends")}
+              isDownloading={isExporting}
+            />
+            <div
+              className="flex items-end gap-px h-40 border-b border-gray-200"
+              aria-label="日別のレビュー結果数"
+            >
+              {analytics.dailyTrends.map((daily) => (
+                <div
+                  key={daily.date}
+                  className="flex-1 flex flex-col justify-end h-full min-w-[2px]"
+                  title={`${daily.date}: レビュー対象 ${daily.reviewTargetCount}件 / レビュー結果 ${daily.resultCount}件（エラー ${daily.errorResultCount}件） / AIタスク ${daily.taskCount}件（失敗 ${daily.failedTaskCount}件）`}
+                >
+                  <div
+                    className="bg-red-400"
+                    style={{
+                      height: `${(daily.errorResultCount / maxDailyCount) * 100}%`,
+                    }}
+                  />
+                  <div
+                    className="bg-blue-500"
+                    style={{
+                      height: `${((daily.resultCount - daily.errorResultCount) / maxDailyCount) * 100}%`,
+                    }}
+                  />
+                </div>
+              ))}
+            </div>
+            {analytics.dailyTrends.length > 0 && (
+              <div className="flex justify-between mt-1 text-xs text-gray-500">
+                <span>{analytics.dailyTrends[0].date}</span>
+                <span>
+                  {analytics.dailyTrends[analytics.dailyTrends.length - 1].date}
+                </span>
+              </div>
+            )}
+          </div>
+
+          {/* AIタスクの所要時間 */}
+          <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-6">
+            <SectionHeader
+              title="AIタスクの所要時間"
+              description="期間内に終了したAIタスクのキュー待ち時間と実行時間です。"
+              onDownload={() => handleExport("taskDurations")}
+              isDownloading={isExporting}
+            />
+            <div className="overflow-x-auto border border-gray-200 rounded">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {[
+                      "タスク種別",
+                      "件数",
+                      "失敗率",
+                      "平均待ち時間",
+                      "最大待ち時間",
+                      "平均実行時間",
+                      "最大実行時間",
+                    ].map((header) => (
+                      <th
+                        key={header}
+                        className="px-4 py-2 text-left text-xs font-medium text-gray-500"
+                      >
+                        {header}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {analytics.taskDurations.length === 0 ? (
+                    <tr>
+                      <td
+                        colSpan={7}
+                        className="px-4 py-6 text-center text-gray-500"
+                      >
+                        期間内に終了したAIタスクがありません
+                      </td>
+                    </tr>
+                  ) : (
+                    analytics.taskDurations.map((task) => (
+                      <tr key={task.taskType}>
+                        <td className="px-4 py-2 text-gray-900">
+                          {TASK_TYPE_LABELS[task.taskType] ?? task.taskType}
+                        </td>
+                        <td className="px-4 py-2 text-gray-700">
+                          {task.taskCount}
+                        </td>
+                        <td className="px-4 py-2 text-gray-700">
+                          {formatPercent(
+                            task.taskCount > 0
+                              ? task.failedTaskCount / task.taskCount
+                              : null,
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-gray-700">
+                          {formatDuration(task.avgWaitMs)}
+                        </td>
+                        <td className="px-4 py-2 text-gray-700">
+                          {formatDuration(task.maxWaitMs)}
+                        </td>
+                        <td className="px-4 py-2 text-gray-700">
+                          {formatDuration(task.avgExecutionMs)}
+                        </td>
+                        <td className="px-4 py-2 text-gray-700">
+                          {formatDuration(task.maxExecutionMs)}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Q&Aでよく質問されるチェック項目 */}
+          <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-6">
+            <SectionHeader
+              title="Q&Aでよく質問されるチェック項目"
+              description="複数のチェック項目を対象にした質問は、それぞれの項目に計上します。"
+              onDownload={() => handleExport("qaTopics")}
+              isDownloading={isExporting}
+            />
+            {analytics.qaTopics.length === 0 ? (
+              <p className="py-6 text-center text-sm text-gray-500">
+                期間内のQ&Aがありません
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {analytics.qaTopics.map((topic) => (
+                  <li key={topic.checkListItemContent}>
+                    <div className="flex justify-between gap-4 text-sm">
+                      <span className="text-gray-900">
+                        {topic.checkListItemContent}
+                      </span>
+                      <span className="text-gray-600 flex-shrink-0">
+                        {topic.count}件
+                      </span>
+                    </div>
+                    <div className="mt-1 h-2 rounded bg-gray-100">
+                      <div
+                        className="h-2 rounded bg-blue-500"
+                        style={{
+                          width: `${(topic.count / maxQaCount) * 100}%`,
+                        }}
+                      />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
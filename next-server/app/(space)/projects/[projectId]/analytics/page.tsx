@@ -0,0 +1,42 @@
+import { notFound } from "next/navigation";
+import { GetProjectService } from "@/application/project";
+import { ProjectRepository, UserRepository } from "@/infrastructure/adapter/db";
+import { getAuthenticatedUser } from "@/lib/server/auth";
+import { ReviewAnalyticsClient } from "./components/ReviewAnalyticsClient";
+
+export const dynamic = "force-dynamic";
+
+interface ProjectAnalyticsPageProps {
+  params: Promise<{ projectId: string }>;
+}
+
+/**
+ * プロジェクト分析ページ（サーバコンポーネント）
+ * プロジェクト全体のレビュー分析ダッシュボードを表示する
+ */
+export default async function ProjectAnalyticsPage({
+  params,
+}: ProjectAnalyticsPageProps) {
+  const { projectId } = await params;
+
+  // 認証チェック
+  const authUser = await getAuthenticatedUser();
+
+  // プロジェクト情報を取得
+  const getProjectService = new GetProjectService(
+    new ProjectRepository(),
+    new UserRepository(),
+  );
+  const project = await getProjectService.execute({
+    projectId,
+    userId: authUser.userId,
+  });
+
+  if (!project) {
+    notFound();
+  }
+
+  return (
+    <ReviewAnalyticsClient projectId={projectId} projectName={project.name} />
+  );
+}
@@ -2,6 +2,7 @@
 
 import { UserMenu } from "@/components/layout/UserMenu";
 import { AdminLink } from "@/components/layout/AdminLink";
+import { NotificationBell } from "@/components/layout/NotificationBell";
 
 interface ProjectHeaderProps {
   projectName: string;
@@ -9,7 +10,7 @@ interface ProjectHeaderProps {
 
 /**
  * プロジェクトページのヘッダーコンポーネント
- * プロジェクト名とユーザーメニューを表示
+ * プロジェクト名、通知、ユーザーメニューを表示
  */
 export function ProjectHeader({ projectName }: ProjectHeaderProps) {
   return (
@@ -18,6 +19,7 @@ export function ProjectHeader({ projectName }: ProjectHeaderProps) {
         <h2 className="text-xl font-bold text-gray-900">{projectName}</h2>
         <div className="flex items-center gap-3">
           <AdminLink />
+          <NotificationBell />
           <UserMenu />
         </div>
       </div>
@@ -0,0 +1,41 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { CreateWebhookService } from "@/application/webhook";
+import {
+  ProjectRepository,
+  ReviewSpaceRepository,
+  WebhookRepository,
+} from "@/infrastructure/adapter/db";
+
+const createWebhookSchema = z.object({
+  projectId: z.string().uuid(),
+  reviewSpaceId: z.string().uuid().nullable(),
+  name: z.string().min(1).max(100),
+  url: z.string().url().max(2048),
+  events: z.array(z.string()).min(1),
+});
+
+/**
+ * Webhookを登録するアクション
+ * 署名シークレットはこのアクションの結果でのみ返却する
+ */
+export const createWebhookAction = authenticatedAction
+  .schema(createWebhookSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new CreateWebhookService(
+      new WebhookRepository(),
+      new ReviewSpaceRepository(),
+      new ProjectRepository(),
+    );
+
+    return service.execute({
+      projectId: parsedInput.projectId,
+      reviewSpaceId: parsedInput.reviewSpaceId,
+      name: parsedInput.name,
+      url: parsedInput.url,
+      events: parsedInput.events,
+      userId: ctx.auth.userId,
+    });
+  });
@@ -0,0 +1,33 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { DeleteChecklistTemplateService } from "@/application/checklistTemplate";
+import {
+  ChecklistTemplateRepository,
+  ProjectRepository,
+} from "@/infrastructure/adapter/db";
+
+const deleteChecklistTemplateSchema = z.object({
+  templateId: z.string().uuid(),
+});
+
+/**
+ * チェックリストテンプレートを削除するアクション
+ */
+export const deleteChecklistTemplateAction = authenticatedAction
+  .schema(deleteChecklistTemplateSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new DeleteChecklistTemplateService(
+      new ChecklistTemplateRepository(),
+      new ProjectRepository(),
+    );
+
+    await service.execute({
+      templateId: parsedInput.templateId,
+      userId: ctx.auth.userId,
+      isAdmin: ctx.auth.isAdmin,
+    });
+
+    return { success: true };
+  });
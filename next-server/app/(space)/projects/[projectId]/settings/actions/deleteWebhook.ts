@@ -0,0 +1,32 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { DeleteWebhookService } from "@/application/webhook";
+import {
+  ProjectRepository,
+  WebhookRepository,
+} from "@/infrastructure/adapter/db";
+
+const deleteWebhookSchema = z.object({
+  webhookId: z.string().uuid(),
+});
+
+/**
+ * Webhookを削除するアクション
+ */
+export const deleteWebhookAction = authenticatedAction
+  .schema(deleteWebhookSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new DeleteWebhookService(
+      new WebhookRepository(),
+      new ProjectRepository(),
+    );
+
+    await service.execute({
+      webhookId: parsedInput.webhookId,
+      userId: ctx.auth.userId,
+    });
+
+    return { success: true };
+  });
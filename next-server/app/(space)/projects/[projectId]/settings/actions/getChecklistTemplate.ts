@@ -0,0 +1,32 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { GetChecklistTemplateService } from "@/application/checklistTemplate";
+import {
+  ChecklistTemplateRepository,
+  ProjectRepository,
+} from "@/infrastructure/adapter/db";
+
+const getChecklistTemplateSchema = z.object({
+  templateId: z.string().uuid(),
+  version: z.number().int().min(1).optional(),
+});
+
+/**
+ * チェックリストテンプレートのバージョン履歴とチェック項目を取得するアクション
+ */
+export const getChecklistTemplateAction = authenticatedAction
+  .schema(getChecklistTemplateSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new GetChecklistTemplateService(
+      new ChecklistTemplateRepository(),
+      new ProjectRepository(),
+    );
+
+    return service.execute({
+      templateId: parsedInput.templateId,
+      version: parsedInput.version,
+      userId: ctx.auth.userId,
+    });
+  });
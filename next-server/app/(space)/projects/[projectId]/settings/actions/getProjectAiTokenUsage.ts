@@ -0,0 +1,31 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { GetProjectAiTokenUsageService } from "@/application/project";
+import {
+  AiTokenUsageRepository,
+  ProjectRepository,
+} from "@/infrastructure/adapter/db";
+
+const getProjectAiTokenUsageSchema = z.object({
+  projectId: z.string().uuid(),
+});
+
+/**
+ * プロジェクトのAIトークン使用量を取得するアクション
+ */
+export const getProjectAiTokenUsageAction = authenticatedAction
+  .schema(getProjectAiTokenUsageSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new GetProjectAiTokenUsageService(
+      new AiTokenUsageRepository(),
+      new ProjectRepository(),
+    );
+
+    return service.execute({
+      projectId: parsedInput.projectId,
+      userId: ctx.auth.userId,
+      isAdmin: ctx.auth.isAdmin,
+    });
+  });
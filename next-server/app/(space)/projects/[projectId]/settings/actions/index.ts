@@ -0,0 +1,12 @@
+export { listWebhooksAction } from "./listWebhooks";
+export { createWebhookAction } from "./createWebhook";
+export { updateWebhookAction } from "./updateWebhook";
+export { deleteWebhookAction } from "./deleteWebhook";
+export { listWebhookDeliveriesAction } from "./listWebhookDeliveries";
+export { redeliverWebhookAction } from "./redeliverWebhook";
+export { listChecklistTemplatesAction } from "./listChecklistTemplates";
+export { getChecklistTemplateAction } from "./getChecklistTemplate";
+export { updateChecklistTemplateAction } from "./updateChecklistTemplate";
+export { deleteChecklistTemplateAction } from "./deleteChecklistTemplate";
+export { getProjectAiTokenUsageAction } from "./getProjectAiTokenUsage";
+export { listAiProvidersAction } from "./listAiProviders";
@@ -0,0 +1,13 @@
+"use server";
+
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { ListAiProvidersService } from "@/application/system-setting";
+import { SystemSettingRepository } from "@/infrastructure/adapter/db";
+
+/**
+ * エージェント別モデル選択用のAIプロバイダー一覧を取得するアクション
+ */
+export const listAiProvidersAction = authenticatedAction.action(async () => {
+  const service = new ListAiProvidersService(new SystemSettingRepository());
+  return service.execute();
+});
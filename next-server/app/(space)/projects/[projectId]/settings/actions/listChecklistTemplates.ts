@@ -0,0 +1,30 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { ListChecklistTemplatesService } from "@/application/checklistTemplate";
+import {
+  ChecklistTemplateRepository,
+  ProjectRepository,
+} from "@/infrastructure/adapter/db";
+
+const listChecklistTemplatesSchema = z.object({
+  projectId: z.string().uuid(),
+});
+
+/**
+ * プロジェクトで利用できるチェックリストテンプレート一覧を取得するアクション
+ */
+export const listChecklistTemplatesAction = authenticatedAction
+  .schema(listChecklistTemplatesSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new ListChecklistTemplatesService(
+      new ChecklistTemplateRepository(),
+      new ProjectRepository(),
+    );
+
+    return service.execute({
+      projectId: parsedInput.projectId,
+      userId: ctx.auth.userId,
+    });
+  });
@@ -0,0 +1,34 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { ListWebhookDeliveriesService } from "@/application/webhook";
+import {
+  ProjectRepository,
+  WebhookRepository,
+  WebhookDeliveryRepository,
+} from "@/infrastructure/adapter/db";
+
+const listWebhookDeliveriesSchema = z.object({
+  webhookId: z.string().uuid(),
+  limit: z.number().int().positive().max(100).optional(),
+});
+
+/**
+ * Webhookの配信ログを取得するアクション
+ */
+export const listWebhookDeliveriesAction = authenticatedAction
+  .schema(listWebhookDeliveriesSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new ListWebhookDeliveriesService(
+      new WebhookDeliveryRepository(),
+      new WebhookRepository(),
+      new ProjectRepository(),
+    );
+
+    return service.execute({
+      webhookId: parsedInput.webhookId,
+      limit: parsedInput.limit,
+      userId: ctx.auth.userId,
+    });
+  });
@@ -0,0 +1,30 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { ListWebhooksService } from "@/application/webhook";
+import {
+  ProjectRepository,
+  WebhookRepository,
+} from "@/infrastructure/adapter/db";
+
+const listWebhooksSchema = z.object({
+  projectId: z.string().uuid(),
+});
+
+/**
+ * プロジェクトのWebhook一覧を取得するアクション
+ */
+export const listWebhooksAction = authenticatedAction
+  .schema(listWebhooksSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new ListWebhooksService(
+      new WebhookRepository(),
+      new ProjectRepository(),
+    );
+
+    return service.execute({
+      projectId: parsedInput.projectId,
+      userId: ctx.auth.userId,
+    });
+  });
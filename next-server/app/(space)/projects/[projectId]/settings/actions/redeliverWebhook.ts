@@ -0,0 +1,32 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { RedeliverWebhookService } from "@/application/webhook";
+import {
+  ProjectRepository,
+  WebhookRepository,
+  WebhookDeliveryRepository,
+} from "@/infrastructure/adapter/db";
+
+const redeliverWebhookSchema = z.object({
+  deliveryId: z.string().uuid(),
+});
+
+/**
+ * 配信済みのイベントを再送信するアクション
+ */
+export const redeliverWebhookAction = authenticatedAction
+  .schema(redeliverWebhookSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new RedeliverWebhookService(
+      new WebhookDeliveryRepository(),
+      new WebhookRepository(),
+      new ProjectRepository(),
+    );
+
+    return service.execute({
+      deliveryId: parsedInput.deliveryId,
+      userId: ctx.auth.userId,
+    });
+  });
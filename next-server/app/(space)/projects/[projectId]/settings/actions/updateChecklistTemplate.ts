@@ -0,0 +1,35 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { UpdateChecklistTemplateService } from "@/application/checklistTemplate";
+import {
+  ChecklistTemplateRepository,
+  ProjectRepository,
+} from "@/infrastructure/adapter/db";
+
+const updateChecklistTemplateSchema = z.object({
+  templateId: z.string().uuid(),
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(1000).nullable().optional(),
+});
+
+/**
+ * チェックリストテンプレートの名前・説明を更新するアクション
+ */
+export const updateChecklistTemplateAction = authenticatedAction
+  .schema(updateChecklistTemplateSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new UpdateChecklistTemplateService(
+      new ChecklistTemplateRepository(),
+      new ProjectRepository(),
+    );
+
+    return service.execute({
+      templateId: parsedInput.templateId,
+      name: parsedInput.name,
+      description: parsedInput.description,
+      userId: ctx.auth.userId,
+      isAdmin: ctx.auth.isAdmin,
+    });
+  });
@@ -0,0 +1,38 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { UpdateWebhookService } from "@/application/webhook";
+import {
+  ProjectRepository,
+  WebhookRepository,
+} from "@/infrastructure/adapter/db";
+
+const updateWebhookSchema = z.object({
+  webhookId: z.string().uuid(),
+  name: z.string().min(1).max(100).optional(),
+  url: z.string().url().max(2048).optional(),
+  events: z.array(z.string()).min(1).optional(),
+  isEnabled: z.boolean().optional(),
+});
+
+/**
+ * Webhookの名前・送信先・購読イベント・有効/無効を更新するアクション
+ */
+export const updateWebhookAction = authenticatedAction
+  .schema(updateWebhookSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new UpdateWebhookService(
+      new WebhookRepository(),
+      new ProjectRepository(),
+    );
+
+    return service.execute({
+      webhookId: parsedInput.webhookId,
+      name: parsedInput.name,
+      url: parsedInput.url,
+      events: parsedInput.events,
+      isEnabled: parsedInput.isEnabled,
+      userId: ctx.auth.userId,
+    });
+  });
@@ -0,0 +1,225 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAction } from "next-safe-action/hooks";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { ListAiProvidersResultDto } from "@/application/system-setting";
+import type { ProjectDto } from "@/domain/project";
+import {
+  AI_MODEL_TARGET,
+  AI_MODEL_TARGET_LABELS,
+  type AiModelAssignmentDto,
+  type AiModelTarget,
+} from "@/domain/system-setting";
+import { updateProjectAction } from "@/app/(project)/projects/actions";
+import { extractServerErrorMessage } from "@/hooks";
+import { showError, showSuccess } from "@/lib/client";
+import { listAiProvidersAction } from "../actions";
+
+interface Props {
+  project: ProjectDto;
+  onSaved: (project: ProjectDto) => void;
+}
+
+/**
+ * 編集中のモデル割り当て（providerIdが空文字の場合は既定の接続先）
+ */
+interface AssignmentRow {
+  providerId: string;
+  model: string;
+}
+
+const MODEL_TARGETS = Object.values(AI_MODEL_TARGET);
+
+/**
+ * 割り当てを編集用の行に変換する
+ */
+function toRows(
+  assignments: Partial<Record<AiModelTarget, AiModelAssignmentDto>>,
+): Partial<Record<AiModelTarget, AssignmentRow>> {
+  const rows: Partial<Record<AiModelTarget, AssignmentRow>> = {};
+  for (const target of MODEL_TARGETS) {
+    const assignment = assignments[target];
+    if (assignment) {
+      rows[target] = {
+        providerId: assignment.providerId ?? "",
+        model: assignment.model,
+      };
+    }
+  }
+  return rows;
+}
+
+/**
+ * エージェント別モデルセクション
+ * プロジェクトで使用するAIモデルをエージェントごとに選択する
+ * 割り当てのないエージェントはシステム設定の割り当て（なければ既定のAPI設定）を使用する
+ */
+export function AiModelSection({ project, onSaved }: Props) {
+  const [options, setOptions] = useState<ListAiProvidersResultDto | null>(null);
+  const [rows, setRows] = useState(() => toRows(project.aiModelAssignments));
+
+  const { execute: loadProviders } = useAction(listAiProvidersAction, {
+    onSuccess: ({ data }) => {
+      if (data) {
+        setOptions(data);
+      }
+    },
+    onError: ({ error: actionError }) => {
+      showError(
+        extractServerErrorMessage(
+          actionError,
+          "AIプロバイダーの取得に失敗しました",
+        ),
+      );
+    },
+  });
+
+  const { execute: saveAssignments, isPending: isSaving } = useAction(
+    updateProjectAction,
+    {
+      onSuccess: ({ data }) => {
+        if (data) {
+          onSaved(data);
+          showSuccess("エージェント別モデルを保存しました");
+        }
+      },
+      onError: ({ error: actionError }) => {
+        showError(
+          extractServerErrorMessage(
+            actionError,
+            "エージェント別モデルの保存に失敗しました",
+          ),
+        );
+      },
+    },
+  );
+
+  // 初期ロード
+  useEffect(() => {
+    loadProviders();
+  }, [loadProviders]);
+
+  const updateRow = (target: AiModelTarget, patch: Partial<AssignmentRow>) => {
+    setRows((prev) => ({
+      ...prev,
+      [target]: { providerId: "", model: "", ...prev[target], ...patch },
+    }));
+  };
+
+  /**
+   * 割り当てがない場合に使用される設定の表示
+   */
+  const describeDefault = (target: AiModelTarget): string => {
+    const assignment = options?.defaultAssignments[target];
+    if (!assignment) {
+      return "既定のモデル";
+    }
+    const provider = options?.providers.find(
+      (p) => p.id === assignment.providerId,
+    );
+    return provider
+      ? `${assignment.model}（${provider.name}）`
+      : assignment.model;
+  };
+
+  const handleSave = () => {
+    // モデル名が空欄のエージェントは割り当てなし
+    const aiModelAssignments: Record<string, AiModelAssignmentDto> = {};
+    for (const target of MODEL_TARGETS) {
+      const row = rows[target];
+      if (row?.model.trim()) {
+        aiModelAssignments[target] = {
+          providerId: row.providerId || null,
+          model: row.model.trim(),
+        };
+      }
+    }
+    saveAssignments({ projectId: project.id, aiModelAssignments });
+  };
+
+  return (
+    <div className="mt-8 bg-white rounded-lg border border-gray-200 shadow-sm">
+      <div className="p-6 sm:p-8">
+        <div className="mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">
+            エージェント別モデル
+          </h3>
+          <p className="text-sm text-gray-600">
+            処理ごとに使用するAIモデルを選択します。空欄のエージェントはシステム設定のモデルを使用します。
+          </p>
+        </div>
+
+        {options === null ? (
+          <div className="flex items-center justify-center py-4 text-sm text-gray-500">
+            <Loader2 className="animate-spin h-4 w-4 mr-2" />
+            読み込み中...
+          </div>
+        ) : (
+          <>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 font-medium">エージェント</th>
+                  <th className="py-2 font-medium">接続先</th>
+                  <th className="py-2 font-medium">モデル名</th>
+                </tr>
+              </thead>
+              <tbody>
+                {MODEL_TARGETS.map((target) => (
+                  <tr key={target} className="border-b border-gray-100">
+                    <td className="py-2 pr-3 text-gray-900">
+                      {AI_MODEL_TARGET_LABELS[target]}
+                    </td>
+                    <td className="py-2 pr-3">
+                      <select
+                        aria-label={`${AI_MODEL_TARGET_LABELS[target]}の接続先`}
+                        className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                        value={rows[target]?.providerId ?? ""}
+                        onChange={(e) =>
+                          updateRow(target, { providerId: e.target.value })
+                        }
+                      >
+                        <option value="">既定のAPI設定</option>
+                        {options.providers.map((provider) => (
+                          <option key={provider.id} value={provider.id}>
+                            {provider.name}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-2">
+                      <Input
+                        aria-label={`${AI_MODEL_TARGET_LABELS[target]}のモデル名`}
+                        placeholder={describeDefault(target)}
+                        value={rows[target]?.model ?? ""}
+                        onChange={(e) =>
+                          updateRow(target, { model: e.target.value })
+                        }
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="mt-4 flex justify-end">
+              <Button type="button" onClick={handleSave} disabled={isSaving}>
+                {isSaving ? (
+                  <>
+                    <Loader2 className="size-4 mr-2 animate-spin" />
+                    保存中...
+                  </>
+                ) : (
+                  "モデル設定を保存"
+                )}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
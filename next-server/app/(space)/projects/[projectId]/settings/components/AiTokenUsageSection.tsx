@@ -0,0 +1,198 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAction } from "next-safe-action/hooks";
+import { Loader2 } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import type { ProjectAiTokenUsageDto } from "@/application/project";
+import { extractServerErrorMessage } from "@/hooks";
+import { showError } from "@/lib/client";
+import { getProjectAiTokenUsageAction } from "../actions";
+
+interface Props {
+  projectId: string;
+}
+
+/**
+ * タスク種別の表示名
+ */
+const TASK_TYPE_LABELS: Record<string, string> = {
+  small_review: "レビュー（少量）",
+  large_review: "レビュー（大量）",
+  checklist_generation: "チェックリスト生成",
+  qa_execution: "Q&A",
+};
+
+/**
+ * トークン数フォーマット
+ */
+function formatTokens(value: number): string {
+  return value.toLocaleString("ja-JP");
+}
+
+/**
+ * AI使用量セクション
+ * 今月のAIトークン使用量と月間上限に対する消費状況、タスク種別・月別の内訳を表示する
+ */
+export function AiTokenUsageSection({ projectId }: Props) {
+  const [usage, setUsage] = useState<ProjectAiTokenUsageDto | null>(null);
+  const [isFailed, setIsFailed] = useState(false);
+
+  const { execute: loadUsage } = useAction(getProjectAiTokenUsageAction, {
+    onSuccess: ({ data }) => {
+      if (data) {
+        setUsage(data);
+      }
+    },
+    onError: ({ error: actionError }) => {
+      setIsFailed(true);
+      showError(
+        extractServerErrorMessage(actionError, "AI使用量の取得に失敗しました"),
+      );
+    },
+  });
+
+  // 初期ロード
+  useEffect(() => {
+    loadUsage({ projectId });
+  }, [projectId, loadUsage]);
+
+  const maxMonthlyTokens = usage
+    ? Math.max(...usage.monthlyHistory.map((m) => m.totalTokens), 1)
+    : 1;
+
+  return (
+    <div className="mt-8 bg-white rounded-lg border border-gray-200 shadow-sm">
+      <div className="p-6 sm:p-8">
+        <div className="mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">AI使用量</h3>
+          <p className="text-sm text-gray-600">
+            レビュー・チェックリスト生成・Q&Aで使用したAIトークン数です。月間トークン上限に達すると、翌月まで新しいAI処理を開始できません。
+          </p>
+        </div>
+
+        {isFailed ? (
+          <p className="py-4 text-sm text-gray-500">AI使用量を表示できません</p>
+        ) : usage === null ? (
+          <div className="flex items-center justify-center py-4 text-sm text-gray-500">
+            <Loader2 className="animate-spin h-4 w-4 mr-2" />
+            読み込み中...
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* 今月の使用量 */}
+            <div>
+              <div className="flex items-baseline justify-between mb-2">
+                <p className="text-sm font-medium text-gray-700">
+                  今月（{usage.currentMonth.month}）の使用量
+                </p>
+                <p className="text-sm text-gray-900">
+                  <span className="text-xl font-semibold">
+                    {formatTokens(usage.currentMonth.totalTokens)}
+                  </span>
+                  {usage.monthlyTokenBudget !== null && (
+                    <span className="text-gray-500">
+                      {" "}
+                      / {formatTokens(usage.monthlyTokenBudget)}
+                    </span>
+                  )}{" "}
+                  トークン
+                </p>
+              </div>
+              {usage.budgetUsageRate !== null ? (
+                <>
+                  <Progress
+                    value={Math.min(usage.budgetUsageRate * 100, 100)}
+                  />
+                  <p
+                    className={`mt-1 text-xs ${
+                      usage.isBudgetExceeded ? "text-red-600" : "text-gray-500"
+                    }`}
+                  >
+                    {usage.isBudgetExceeded
+                      ? "月間トークン上限に達しています。新しいAI処理は開始できません。"
+                      : `月間トークン上限の${Math.round(usage.budgetUsageRate * 100)}%を使用しています`}
+                  </p>
+                </>
+              ) : (
+                <p className="text-xs text-gray-500">
+                  月間トークン上限は設定されていません
+                </p>
+              )}
+              <p className="mt-1 text-xs text-gray-500">
+                入力 {formatTokens(usage.currentMonth.promptTokens)} / 出力{" "}
+                {formatTokens(usage.currentMonth.completionTokens)}・呼び出し{" "}
+                {formatTokens(usage.currentMonth.requestCount)}回
+              </p>
+            </div>
+
+            {/* タスク種別の内訳 */}
+            {usage.byTaskType.length > 0 && (
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">
+                  今月のタスク種別の内訳
+                </p>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 text-left text-xs text-gray-500">
+                      <th className="px-2 py-2 font-medium">種別</th>
+                      <th className="px-2 py-2 font-medium text-right">
+                        呼び出し回数
+                      </th>
+                      <th className="px-2 py-2 font-medium text-right">
+                        合計トークン
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {usage.byTaskType.map((row) => (
+                      <tr key={row.taskType}>
+                        <td className="px-2 py-2 text-gray-700">
+                          {TASK_TYPE_LABELS[row.taskType] ?? row.taskType}
+                        </td>
+                        <td className="px-2 py-2 text-right text-gray-700">
+                          {formatTokens(row.requestCount)}
+                        </td>
+                        <td className="px-2 py-2 text-right text-gray-900">
+                          {formatTokens(row.totalTokens)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* 月別の推移 */}
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">
+                月別の推移
+              </p>
+              <ul className="space-y-1">
+                {usage.monthlyHistory.map((month) => (
+                  <li
+                    key={month.month}
+                    className="flex items-center gap-3 text-xs"
+                  >
+                    <span className="w-16 text-gray-500">{month.month}</span>
+                    <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-blue-500"
+                        style={{
+                          width: `${(month.totalTokens / maxMonthlyTokens) * 100}%`,
+                        }}
+                      />
+                    </div>
+                    <span className="w-28 text-right text-gray-700">
+                      {formatTokens(month.totalTokens)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAction } from "next-safe-action/hooks";
+import { Loader2 } from "lucide-react";
+import { ChecklistTemplateLibrary } from "@/components/checklistTemplate";
+import type { ChecklistTemplateDto } from "@/domain/checklistTemplate";
+import { extractServerErrorMessage } from "@/hooks";
+import { showError } from "@/lib/client";
+import { listChecklistTemplatesAction } from "../actions";
+
+interface Props {
+  projectId: string;
+}
+
+/**
+ * チェックリストテンプレートセクション
+ * プロジェクトで利用できるテンプレート（全社共通を含む）の確認と、プロジェクトのテンプレートの管理を担当
+ */
+export function ChecklistTemplateSection({ projectId }: Props) {
+  const [templates, setTemplates] = useState<ChecklistTemplateDto[] | null>(
+    null,
+  );
+
+  const { execute: loadTemplates } = useAction(listChecklistTemplatesAction, {
+    onSuccess: ({ data }) => {
+      if (data) {
+        setTemplates(data);
+      }
+    },
+    onError: ({ error: actionError }) => {
+      setTemplates([]);
+      showError(
+        extractServerErrorMessage(
+          actionError,
+          "テンプレート一覧の取得に失敗しました",
+        ),
+      );
+    },
+  });
+
+  // 初期ロード
+  useEffect(() => {
+    loadTemplates({ projectId });
+  }, [projectId, loadTemplates]);
+
+  return (
+    <div className="mt-8 bg-white rounded-lg border border-gray-200 shadow-sm">
+      <div className="p-6 sm:p-8">
+        <div className="mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">
+            チェックリストテンプレート
+          </h3>
+          <p className="text-sm text-gray-600">
+            レビュースペースのチェックリスト画面から「テンプレートとして保存」で作成したテンプレートです。全社共通テンプレートはシステム管理者が管理します。
+          </p>
+        </div>
+
+        {templates === null ? (
+          <div className="flex items-center justify-center py-4 text-sm text-gray-500">
+            <Loader2 className="animate-spin h-4 w-4 mr-2" />
+            読み込み中...
+          </div>
+        ) : (
+          <ChecklistTemplateLibrary
+            templates={templates}
+            canManage={(template) => template.projectId !== null}
+            emptyMessage="利用できるテンプレートはありません"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,573 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAction } from "next-safe-action/hooks";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  Loader2,
+  Plus,
+  RotateCw,
+  Trash2,
+  Webhook as WebhookIcon,
+} from "lucide-react";
+import {
+  WEBHOOK_EVENT,
+  WEBHOOK_DELIVERY_STATUS,
+  type WebhookDto,
+  type WebhookDeliveryDto,
+  type WebhookEventValue,
+} from "@/domain/webhook";
+import type { ReviewSpaceListItemDto } from "@/domain/reviewSpace";
+import { extractServerErrorMessage } from "@/hooks";
+import { showError, showSuccess, getMessage } from "@/lib/client";
+import { listProjectReviewSpacesAction } from "../../spaces/actions";
+import {
+  listWebhooksAction,
+  createWebhookAction,
+  updateWebhookAction,
+  deleteWebhookAction,
+  listWebhookDeliveriesAction,
+  redeliverWebhookAction,
+} from "../actions";
+
+/**
+ * イベントの表示名
+ */
+const EVENT_LABELS: Record<WebhookEventValue, string> = {
+  [WEBHOOK_EVENT.REVIEW_QUEUED]: "レビュー受付",
+  [WEBHOOK_EVENT.REVIEW_STARTED]: "レビュー開始",
+  [WEBHOOK_EVENT.REVIEW_COMPLETED]: "レビュー完了",
+  [WEBHOOK_EVENT.REVIEW_FAILED]: "レビュー失敗",
+  [WEBHOOK_EVENT.CHECKLIST_GENERATED]: "チェックリスト生成完了",
+  [WEBHOOK_EVENT.QA_ANSWERED]: "Q&A回答",
+};
+
+/**
+ * 配信ステータスの表示名と色
+ */
+const DELIVERY_STATUS_STYLES: Record<
+  WebhookDeliveryDto["status"],
+  { label: string; className: string }
+> = {
+  [WEBHOOK_DELIVERY_STATUS.PENDING]: {
+    label: "送信待ち",
+    className: "text-yellow-700 bg-yellow-50",
+  },
+  [WEBHOOK_DELIVERY_STATUS.SUCCEEDED]: {
+    label: "成功",
+    className: "text-green-700 bg-green-50",
+  },
+  [WEBHOOK_DELIVERY_STATUS.FAILED]: {
+    label: "失敗",
+    className: "text-red-700 bg-red-50",
+  },
+};
+
+const ALL_EVENTS = Object.values(WEBHOOK_EVENT);
+
+/**
+ * 日時を表示用にフォーマットする
+ */
+function formatDate(value: Date | null): string {
+  return value ? new Date(value).toLocaleString("ja-JP") : "-";
+}
+
+interface Props {
+  projectId: string;
+}
+
+/**
+ * Webhook設定セクション
+ * レビュー・チェックリスト生成・Q&Aのイベント通知先の登録・有効化・削除と配信ログの確認を担当
+ */
+export function WebhookSection({ projectId }: Props) {
+  const [webhooks, setWebhooks] = useState<WebhookDto[]>([]);
+  const [reviewSpaces, setReviewSpaces] = useState<ReviewSpaceListItemDto[]>(
+    [],
+  );
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [reviewSpaceId, setReviewSpaceId] = useState<string>("");
+  const [selectedEvents, setSelectedEvents] =
+    useState<WebhookEventValue[]>(ALL_EVENTS);
+  const [issuedSecret, setIssuedSecret] = useState<string | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<WebhookDto | null>(null);
+  const [expandedWebhookId, setExpandedWebhookId] = useState<string | null>(
+    null,
+  );
+  const [deliveries, setDeliveries] = useState<WebhookDeliveryDto[]>([]);
+
+  const reviewSpaceNameById = new Map(reviewSpaces.map((s) => [s.id, s.name]));
+
+  const replaceWebhook = (updated: WebhookDto) => {
+    setWebhooks((prev) => prev.map((w) => (w.id === updated.id ? updated : w)));
+  };
+
+  const { execute: loadWebhooks, isPending: isLoading } = useAction(
+    listWebhooksAction,
+    {
+      onSuccess: ({ data }) => {
+        if (data) {
+          setWebhooks(data);
+        }
+      },
+      onError: ({ error: actionError }) => {
+        showError(
+          extractServerErrorMessage(
+            actionError,
+            "Webhook一覧の取得に失敗しました",
+          ),
+        );
+      },
+    },
+  );
+
+  const { execute: loadReviewSpaces } = useAction(
+    listProjectReviewSpacesAction,
+    {
+      onSuccess: ({ data }) => {
+        if (data) {
+          setReviewSpaces(data.spaces);
+        }
+      },
+    },
+  );
+
+  const { execute: createWebhook, isPending: isCreating } = useAction(
+    createWebhookAction,
+    {
+      onSuccess: ({ data }) => {
+        if (data) {
+          setWebhooks((prev) => [...prev, data.webhook]);
+          setIssuedSecret(data.secret);
+          setName("");
+          setUrl("");
+          setReviewSpaceId("");
+          setSelectedEvents(ALL_EVENTS);
+          showSuccess(getMessage("SUCCESS_WEBHOOK_CREATED"));
+        }
+      },
+      onError: ({ error: actionError }) => {
+        showError(
+          extractServerErrorMessage(actionError, "Webhookの登録に失敗しました"),
+        );
+      },
+    },
+  );
+
+  const { execute: updateWebhook, isPending: isUpdating } = useAction(
+    updateWebhookAction,
+    {
+      onSuccess: ({ data }) => {
+        if (data) {
+          replaceWebhook(data);
+          showSuccess(getMessage("SUCCESS_WEBHOOK_UPDATED"));
+        }
+      },
+      onError: ({ error: actionError }) => {
+        showError(
+          extractServerErrorMessage(actionError, "Webhookの更新に失敗しました"),
+        );
+      },
+    },
+  );
+
+  const { execute: deleteWebhook, isPending: isDeleting } = useAction(
+    deleteWebhookAction,
+    {
+      onSuccess: ({ input }) => {
+        setWebhooks((prev) => prev.filter((w) => w.id !== input.webhookId));
+        if (expandedWebhookId === input.webhookId) {
+          setExpandedWebhookId(null);
+        }
+        setDeleteTarget(null);
+        showSuccess(getMessage("SUCCESS_WEBHOOK_DELETED"));
+      },
+      onError: ({ error: actionError }) => {
+        setDeleteTarget(null);
+        showError(
+          extractServerErrorMessage(actionError, "Webhookの削除に失敗しました"),
+        );
+      },
+    },
+  );
+
+  const { execute: loadDeliveries, isPending: isLoadingDeliveries } = useAction(
+    listWebhookDeliveriesAction,
+    {
+      onSuccess: ({ data }) => {
+        if (data) {
+          setDeliveries(data);
+        }
+      },
+      onError: ({ error: actionError }) => {
+        showError(
+          extractServerErrorMessage(
+            actionError,
+            "配信ログの取得に失敗しました",
+          ),
+        );
+      },
+    },
+  );
+
+  const { execute: redeliver, isPending: isRedelivering } = useAction(
+    redeliverWebhookAction,
+    {
+      onSuccess: ({ data }) => {
+        if (data) {
+          setDeliveries((prev) => [data, ...prev]);
+          showSuccess(getMessage("SUCCESS_WEBHOOK_REDELIVERY_QUEUED"));
+        }
+      },
+      onError: ({ error: actionError }) => {
+        showError(
+          extractServerErrorMessage(actionError, "再送信に失敗しました"),
+        );
+      },
+    },
+  );
+
+  // 初期ロード
+  useEffect(() => {
+    loadWebhooks({ projectId });
+    loadReviewSpaces({ projectId, limit: 100 });
+  }, [projectId, loadWebhooks, loadReviewSpaces]);
+
+  const toggleEvent = (event: WebhookEventValue, checked: boolean) => {
+    setSelectedEvents((prev) =>
+      checked ? [...prev, event] : prev.filter((e) => e !== event),
+    );
+  };
+
+  const toggleDeliveries = (webhookId: string) => {
+    if (expandedWebhookId === webhookId) {
+      setExpandedWebhookId(null);
+      return;
+    }
+    setExpandedWebhookId(webhookId);
+    setDeliveries([]);
+    loadDeliveries({ webhookId });
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    setIssuedSecret(null);
+    createWebhook({
+      projectId,
+      reviewSpaceId: reviewSpaceId || null,
+      name: name.trim(),
+      url: url.trim(),
+      events: selectedEvents,
+    });
+  };
+
+  const handleCopySecret = async () => {
+    if (issuedSecret) {
+      await navigator.clipboard.writeText(issuedSecret);
+    }
+  };
+
+  const canSubmit =
+    name.trim().length > 0 &&
+    url.trim().length > 0 &&
+    selectedEvents.length > 0 &&
+    !isCreating;
+
+  return (
+    <div className="mt-8 bg-white rounded-lg border border-gray-200 shadow-sm">
+      <div className="p-6 sm:p-8">
+        <div className="mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Webhook</h3>
+          <p className="text-sm text-gray-600">
+            レビューやチェックリスト生成の状況を外部システムへ通知します。送信するリクエストには署名シークレットによるHMAC-SHA256署名（X-Webhook-Signatureヘッダー）が付与されます。
+          </p>
+        </div>
+
+        {/* 発行した署名シークレットの表示 */}
+        {issuedSecret && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+            <p className="text-sm font-medium text-green-800 mb-2">
+              Webhookを登録しました。署名シークレットは再表示できないため、今すぐコピーしてください。
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 px-3 py-2 bg-white border border-green-200 rounded text-sm break-all">
+                {issuedSecret}
+              </code>
+              <Button variant="outline" size="sm" onClick={handleCopySecret}>
+                <Copy className="size-4 mr-2" />
+                コピー
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Webhook登録フォーム */}
+        <form
+          onSubmit={handleCreate}
+          className="mb-6 p-4 border border-gray-200 rounded-lg space-y-4"
+        >
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-name">名前</Label>
+              <Input
+                id="webhook-name"
+                value={name}
+                maxLength={100}
+                placeholder="例: CI通知"
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-scope">対象</Label>
+              <select
+                id="webhook-scope"
+                className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                value={reviewSpaceId}
+                onChange={(e) => setReviewSpaceId(e.target.value)}
+              >
+                <option value="">プロジェクト全体</option>
+                {reviewSpaces.map((space) => (
+                  <option key={space.id} value={space.id}>
+                    {space.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">送信先URL</Label>
+            <Input
+              id="webhook-url"
+              type="url"
+              value={url}
+              maxLength={2048}
+              placeholder="https://example.com/webhooks/aikata"
+              onChange={(e) => setUrl(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>通知するイベント</Label>
+            <div className="grid gap-2 sm:grid-cols-3">
+              {ALL_EVENTS.map((event) => (
+                <label
+                  key={event}
+                  className="flex items-center gap-2 text-sm text-gray-700"
+                >
+                  <Checkbox
+                    checked={selectedEvents.includes(event)}
+                    onCheckedChange={(checked) =>
+                      toggleEvent(event, checked === true)
+                    }
+                  />
+                  {EVENT_LABELS[event]}
+                </label>
+              ))}
+            </div>
+          </div>
+          <Button type="submit" disabled={!canSubmit}>
+            {isCreating ? (
+              <Loader2 className="animate-spin h-4 w-4 mr-2" />
+            ) : (
+              <Plus className="h-4 w-4 mr-2" />
+            )}
+            Webhookを追加
+          </Button>
+        </form>
+
+        {/* Webhook一覧 */}
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4 text-sm text-gray-500">
+            <Loader2 className="animate-spin h-4 w-4 mr-2" />
+            読み込み中...
+          </div>
+        ) : webhooks.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4 text-center">
+            登録されているWebhookはありません
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {webhooks.map((webhook) => (
+              <li key={webhook.id} className="p-4">
+                <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                  <div className="flex items-start gap-3 flex-1 min-w-0">
+                    <WebhookIcon className="h-5 w-5 text-gray-400 mt-0.5 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">
+                        {webhook.name}
+                      </p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {webhook.url}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        対象:{" "}
+                        {webhook.reviewSpaceId
+                          ? (reviewSpaceNameById.get(webhook.reviewSpaceId) ??
+                            webhook.reviewSpaceId)
+                          : "プロジェクト全体"}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {webhook.events.map((e) => EVENT_LABELS[e]).join(" / ")}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => toggleDeliveries(webhook.id)}
+                    >
+                      {expandedWebhookId === webhook.id ? (
+                        <ChevronDown className="h-4 w-4 mr-1" />
+                      ) : (
+                        <ChevronRight className="h-4 w-4 mr-1" />
+                      )}
+                      配信ログ
+                    </Button>
+                    <span className="text-sm text-gray-600">
+                      {webhook.isEnabled ? "有効" : "無効"}
+                    </span>
+                    <Switch
+                      checked={webhook.isEnabled}
+                      onCheckedChange={(checked) =>
+                        updateWebhook({
+                          webhookId: webhook.id,
+                          isEnabled: checked,
+                        })
+                      }
+                      disabled={isUpdating}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDeleteTarget(webhook)}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {/* 配信ログ */}
+                {expandedWebhookId === webhook.id && (
+                  <div className="mt-4 border border-gray-200 rounded-lg">
+                    {isLoadingDeliveries ? (
+                      <div className="flex items-center justify-center py-4 text-sm text-gray-500">
+                        <Loader2 className="animate-spin h-4 w-4 mr-2" />
+                        読み込み中...
+                      </div>
+                    ) : deliveries.length === 0 ? (
+                      <p className="text-sm text-gray-500 py-4 text-center">
+                        配信履歴はありません
+                      </p>
+                    ) : (
+                      <ul className="divide-y divide-gray-200">
+                        {deliveries.map((delivery) => {
+                          const statusStyle =
+                            DELIVERY_STATUS_STYLES[delivery.status];
+                          return (
+                            <li
+                              key={delivery.id}
+                              className="flex items-start justify-between gap-4 p-3 text-xs"
+                            >
+                              <div className="space-y-1 min-w-0">
+                                <p className="text-gray-900">
+                                  <span
+                                    className={`inline-block px-2 py-0.5 mr-2 rounded ${statusStyle.className}`}
+                                  >
+                                    {statusStyle.label}
+                                  </span>
+                                  {EVENT_LABELS[delivery.event]}
+                                  <span className="ml-2 text-gray-500">
+                                    {formatDate(delivery.createdAt)}
+                                  </span>
+                                </p>
+                                <p className="text-gray-500">
+                                  試行回数: {delivery.attemptCount} / 応答:{" "}
+                                  {delivery.lastStatusCode ?? "-"} / 最終送信:{" "}
+                                  {formatDate(delivery.lastAttemptedAt)}
+                                  {delivery.nextAttemptAt &&
+                                    ` / 次回送信: ${formatDate(delivery.nextAttemptAt)}`}
+                                </p>
+                                {delivery.lastError && (
+                                  <p className="text-red-600 break-all">
+                                    {delivery.lastError}
+                                  </p>
+                                )}
+                              </div>
+                              <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                onClick={() =>
+                                  redeliver({ deliveryId: delivery.id })
+                                }
+                                disabled={isRedelivering}
+                              >
+                                <RotateCw className="h-3 w-3 mr-1" />
+                                再送信
+                              </Button>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* 削除確認ダイアログ */}
+      <AlertDialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Webhookを削除しますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              「{deleteTarget?.name}
+              」と配信ログを削除します。この操作は取り消せません。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>
+              キャンセル
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                deleteTarget && deleteWebhook({ webhookId: deleteTarget.id })
+              }
+              disabled={isDeleting}
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+            >
+              削除する
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
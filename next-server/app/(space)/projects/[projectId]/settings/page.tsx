@@ -13,9 +13,13 @@ import {
   deleteProjectAction,
 } from "@/app/(project)/projects/actions";
 import { useAction } from "next-safe-action/hooks";
-import { ProjectDto } from "@/domain/project";
+import { PROJECT_MEMBER_ROLE, ProjectDto } from "@/domain/project";
 import { UserDto } from "@/domain/user";
 import { useServerActionError } from "@/hooks";
+import { WebhookSection } from "./components/WebhookSection";
+import { ChecklistTemplateSection } from "./components/ChecklistTemplateSection";
+import { AiTokenUsageSection } from "./components/AiTokenUsageSection";
+import { AiModelSection } from "./components/AiModelSection";
 
 interface Props {
   params: Promise<{ projectId: string }>;
@@ -122,15 +126,25 @@ export default function ProjectSettingsPage({ params }: Props) {
       name: data.name,
       description: data.description || null,
       ...(data.apiKey !== null && { apiKey: data.apiKey || null }),
+      aiApiRateLimit: data.aiApiRateLimit,
+      monthlyTokenBudget: data.monthlyTokenBudget,
     });
 
-    // メンバーを更新（変更があれば）
-    const newMemberIds = data.members.map((m) => m.id).sort();
-    const currentMemberIds = project?.members.map((m) => m.userId).sort() ?? [];
-    if (JSON.stringify(newMemberIds) !== JSON.stringify(currentMemberIds)) {
+    // メンバー・ロールを更新（変更があれば）
+    const toKey = (members: { userId: string; role: string }[]) =>
+      JSON.stringify(
+        [...members]
+          .sort((a, b) => a.userId.localeCompare(b.userId))
+          .map((m) => [m.userId, m.role]),
+      );
+    const newMembers = data.members.map((m) => ({
+      userId: m.id,
+      role: m.role,
+    }));
+    if (toKey(newMembers) !== toKey(project?.members ?? [])) {
       await updateMembers({
         projectId,
-        memberIds: newMemberIds,
+        members: newMembers,
       });
     }
   };
@@ -216,14 +230,22 @@ export default function ProjectSettingsPage({ params }: Props) {
     description: project.description ?? "",
     apiKey: "", // APIキーは表示しない（セキュリティ上）
     hasApiKey: project.hasApiKey, // APIキー設定有無
+    aiApiRateLimit: project.aiApiRateLimit,
+    monthlyTokenBudget: project.monthlyTokenBudget,
     members: project.members.map((m) => ({
       id: m.userId,
       employeeId: m.employeeId,
       displayName: m.displayName,
       isAdmin: false, // プロジェクトメンバー情報からはisAdminは不明なのでデフォルトfalse
+      role: m.role,
     })),
   };
 
+  // メンバー・ロールの変更はオーナーのみ可能
+  const canManageMembers = project.members.some(
+    (m) => m.userId === currentUser.id && m.role === PROJECT_MEMBER_ROLE.OWNER,
+  );
+
   return (
     <div className="bg-gray-50 min-h-screen">
       <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -273,10 +295,25 @@ export default function ProjectSettingsPage({ params }: Props) {
               onCancel={handleCancel}
               isSubmitting={isUpdating}
               submitLabel="変更を保存"
+              canManageMembers={canManageMembers}
             />
           </div>
         </div>
 
+        {/* Webhook（オーナーのみ） */}
+        {canManageMembers && <WebhookSection projectId={projectId} />}
+
+        {/* チェックリストテンプレート */}
+        <ChecklistTemplateSection projectId={projectId} />
+
+        {/* エージェント別モデル（オーナーのみ） */}
+        {canManageMembers && (
+          <AiModelSection project={project} onSaved={setProject} />
+        )}
+
+        {/* AI使用量 */}
+        <AiTokenUsageSection projectId={projectId} />
+
         {/* Danger Zone */}
         <div className="mt-8 bg-white rounded-lg border border-red-200 shadow-sm">
           <div className="p-6 sm:p-8">
@@ -0,0 +1,70 @@
+import { notFound } from "next/navigation";
+import { GetProjectService } from "@/application/project";
+import { GetReviewSpaceService } from "@/application/reviewSpace";
+import {
+  ProjectRepository,
+  ReviewSpaceRepository,
+  UserRepository,
+} from "@/infrastructure/adapter/db";
+import { getAuthenticatedUser } from "@/lib/server/auth";
+import { ReviewAnalyticsClient } from "../../../analytics/components/ReviewAnalyticsClient";
+
+export const dynamic = "force-dynamic";
+
+interface ReviewSpaceAnalyticsPageProps {
+  params: Promise<{ projectId: string; spaceId: string }>;
+}
+
+/**
+ * レビュースペース分析ページ（サーバコンポーネント）
+ * レビュースペースのレビュー分析ダッシュボードを表示する
+ */
+export default async function ReviewSpaceAnalyticsPage({
+  params,
+}: ReviewSpaceAnalyticsPageProps) {
+  const { projectId, spaceId } = await params;
+
+  // 認証チェック
+  const authUser = await getAuthenticatedUser();
+
+  // リポジトリの初期化
+  const projectRepository = new ProjectRepository();
+  const reviewSpaceRepository = new ReviewSpaceRepository();
+
+  // プロジェクト情報を取得
+  const getProjectService = new GetProjectService(
+    projectRepository,
+    new UserRepository(),
+  );
+  const project = await getProjectService.execute({
+    projectId,
+    userId: authUser.userId,
+  });
+
+  if (!project) {
+    notFound();
+  }
+
+  // レビュースペース情報を取得
+  const getReviewSpaceService = new GetReviewSpaceService(
+    reviewSpaceRepository,
+    projectRepository,
+  );
+  const reviewSpace = await getReviewSpaceService.execute({
+    reviewSpaceId: spaceId,
+    userId: authUser.userId,
+  });
+
+  if (!reviewSpace) {
+    notFound();
+  }
+
+  return (
+    <ReviewAnalyticsClient
+      projectId={projectId}
+      projectName={project.name}
+      spaceId={spaceId}
+      spaceName={reviewSpace.name}
+    />
+  );
+}
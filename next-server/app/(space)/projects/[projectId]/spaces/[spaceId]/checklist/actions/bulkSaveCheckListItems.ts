@@ -8,10 +8,18 @@ import {
   ReviewSpaceRepository,
 } from "@/infrastructure/adapter/db";
 import { CheckListItemRepository } from "@/infrastructure/adapter/db/drizzle/repository/CheckListItemRepository";
+import { CHECK_LIST_ITEM_SEVERITY_VALUES } from "@/domain/checkListItem";
 
 const bulkSaveCheckListItemsSchema = z.object({
   reviewSpaceId: z.string().uuid(),
-  contents: z.array(z.string().min(1)),
+  items: z.array(
+    z.object({
+      content: z.string().min(1),
+      category: z.string().nullable().optional(),
+      severity: z.enum(CHECK_LIST_ITEM_SEVERITY_VALUES).optional(),
+      guidance: z.string().nullable().optional(),
+    }),
+  ),
 });
 
 /**
@@ -33,7 +41,7 @@ export const bulkSaveCheckListItemsAction = authenticatedAction
     const result = await service.execute({
       reviewSpaceId: parsedInput.reviewSpaceId,
       userId: ctx.auth.userId,
-      contents: parsedInput.contents,
+      items: parsedInput.items,
     });
 
     return result;
@@ -4,3 +4,10 @@ export { bulkDeleteCheckListItemsAction } from "./bulkDeleteCheckListItems";
 export { exportCheckListToCsvAction } from "./exportCheckListToCsv";
 export { getChecklistGenerationTaskStatusAction } from "./getChecklistGenerationTaskStatus";
 export { cancelChecklistGenerationTaskAction } from "./cancelChecklistGenerationTask";
+export { previewChecklistTemplateSyncAction } from "./previewChecklistTemplateSync";
+export { syncChecklistTemplateAction } from "./syncChecklistTemplate";
+export { unlinkChecklistTemplateAction } from "./unlinkChecklistTemplate";
+export {
+  createChecklistTemplateAction,
+  publishChecklistTemplateVersionAction,
+} from "./saveChecklistAsTemplate";
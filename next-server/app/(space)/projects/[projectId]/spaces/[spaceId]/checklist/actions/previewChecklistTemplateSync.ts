@@ -0,0 +1,36 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { PreviewChecklistTemplateSyncService } from "@/application/checklistTemplate";
+import {
+  ChecklistTemplateRepository,
+  CheckListItemRepository,
+  ProjectRepository,
+  ReviewSpaceRepository,
+} from "@/infrastructure/adapter/db";
+
+const previewChecklistTemplateSyncSchema = z.object({
+  reviewSpaceId: z.string().uuid(),
+  templateId: z.string().uuid().optional(),
+});
+
+/**
+ * テンプレートの最新バージョンを取り込んだ場合の差分を取得するアクション
+ */
+export const previewChecklistTemplateSyncAction = authenticatedAction
+  .schema(previewChecklistTemplateSyncSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new PreviewChecklistTemplateSyncService(
+      new ChecklistTemplateRepository(),
+      new CheckListItemRepository(),
+      new ReviewSpaceRepository(),
+      new ProjectRepository(),
+    );
+
+    return service.execute({
+      reviewSpaceId: parsedInput.reviewSpaceId,
+      templateId: parsedInput.templateId,
+      userId: ctx.auth.userId,
+    });
+  });
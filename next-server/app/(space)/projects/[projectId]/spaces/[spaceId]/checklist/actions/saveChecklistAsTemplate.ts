@@ -0,0 +1,68 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import {
+  CreateChecklistTemplateService,
+  PublishChecklistTemplateVersionService,
+} from "@/application/checklistTemplate";
+import {
+  ChecklistTemplateRepository,
+  CheckListItemRepository,
+  ProjectRepository,
+  ReviewSpaceRepository,
+} from "@/infrastructure/adapter/db";
+
+const createChecklistTemplateSchema = z.object({
+  reviewSpaceId: z.string().uuid(),
+  scope: z.enum(["project", "global"]),
+  name: z.string().min(1).max(100),
+  description: z.string().max(1000).nullable().optional(),
+  changeNote: z.string().max(1000).nullable().optional(),
+});
+
+/**
+ * チェックリストを新しいテンプレートとして保存するアクション
+ */
+export const createChecklistTemplateAction = authenticatedAction
+  .schema(createChecklistTemplateSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new CreateChecklistTemplateService(
+      new ChecklistTemplateRepository(),
+      new CheckListItemRepository(),
+      new ReviewSpaceRepository(),
+      new ProjectRepository(),
+    );
+
+    return service.execute({
+      ...parsedInput,
+      userId: ctx.auth.userId,
+      isAdmin: ctx.auth.isAdmin,
+    });
+  });
+
+const publishChecklistTemplateVersionSchema = z.object({
+  reviewSpaceId: z.string().uuid(),
+  templateId: z.string().uuid(),
+  changeNote: z.string().max(1000).nullable().optional(),
+});
+
+/**
+ * チェックリストをリンク中のテンプレートの新しいバージョンとして公開するアクション
+ */
+export const publishChecklistTemplateVersionAction = authenticatedAction
+  .schema(publishChecklistTemplateVersionSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new PublishChecklistTemplateVersionService(
+      new ChecklistTemplateRepository(),
+      new CheckListItemRepository(),
+      new ReviewSpaceRepository(),
+      new ProjectRepository(),
+    );
+
+    return service.execute({
+      ...parsedInput,
+      userId: ctx.auth.userId,
+      isAdmin: ctx.auth.isAdmin,
+    });
+  });
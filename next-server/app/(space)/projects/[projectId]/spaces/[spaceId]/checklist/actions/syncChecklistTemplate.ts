@@ -0,0 +1,38 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { SyncChecklistTemplateService } from "@/application/checklistTemplate";
+import {
+  ChecklistTemplateRepository,
+  CheckListItemRepository,
+  ProjectRepository,
+  ReviewSpaceRepository,
+} from "@/infrastructure/adapter/db";
+
+const syncChecklistTemplateSchema = z.object({
+  reviewSpaceId: z.string().uuid(),
+  templateId: z.string().uuid(),
+  expectedVersion: z.number().int().min(1),
+});
+
+/**
+ * テンプレートの最新バージョンの変更をチェックリストに取り込むアクション
+ */
+export const syncChecklistTemplateAction = authenticatedAction
+  .schema(syncChecklistTemplateSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new SyncChecklistTemplateService(
+      new ChecklistTemplateRepository(),
+      new CheckListItemRepository(),
+      new ReviewSpaceRepository(),
+      new ProjectRepository(),
+    );
+
+    return service.execute({
+      reviewSpaceId: parsedInput.reviewSpaceId,
+      templateId: parsedInput.templateId,
+      expectedVersion: parsedInput.expectedVersion,
+      userId: ctx.auth.userId,
+    });
+  });
@@ -0,0 +1,32 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { UnlinkChecklistTemplateService } from "@/application/checklistTemplate";
+import {
+  ProjectRepository,
+  ReviewSpaceRepository,
+} from "@/infrastructure/adapter/db";
+
+const unlinkChecklistTemplateSchema = z.object({
+  reviewSpaceId: z.string().uuid(),
+});
+
+/**
+ * チェックリストとテンプレートのリンクを解除するアクション
+ */
+export const unlinkChecklistTemplateAction = authenticatedAction
+  .schema(unlinkChecklistTemplateSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new UnlinkChecklistTemplateService(
+      new ReviewSpaceRepository(),
+      new ProjectRepository(),
+    );
+
+    await service.execute({
+      reviewSpaceId: parsedInput.reviewSpaceId,
+      userId: ctx.auth.userId,
+    });
+
+    return { success: true };
+  });
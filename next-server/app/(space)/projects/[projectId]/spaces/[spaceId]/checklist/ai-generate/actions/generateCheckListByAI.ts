@@ -17,6 +17,7 @@ import {
   AiTaskRepository,
   AiTaskFileMetadataRepository,
   SystemSettingRepository,
+  AiTokenUsageRepository,
 } from "@/infrastructure/adapter/db";
 import { fileUploadConfig } from "@/lib/server/fileUploadConfig";
 
@@ -30,6 +31,8 @@ const formDataMetadataItemSchema = z.object({
   size: z.number(),
   processMode: z.enum(["text", "image"]),
   convertedImageCount: z.number().optional(),
+  /** サーバー側で画像に変換する際のオプション（画像モードで変換済み画像がない場合に使用） */
+  renderOptions: rawUploadFileMetaSchema.shape.renderOptions,
 });
 
 /**
@@ -136,6 +139,8 @@ async function parseFormData(formData: FormData): Promise<{
       size: metadata.size,
       processMode: metadata.processMode,
       convertedImageCount: metadata.convertedImageCount,
+      renderOptions:
+        metadata.processMode === "image" ? metadata.renderOptions : undefined,
     });
 
     files.push(rawFileMeta);
@@ -186,6 +191,7 @@ export const generateCheckListByAIAction = authenticatedAction
       projectRepository,
       systemSettingRepository,
       aiTaskQueueService,
+      new AiTokenUsageRepository(),
     );
 
     const result = await service.execute({
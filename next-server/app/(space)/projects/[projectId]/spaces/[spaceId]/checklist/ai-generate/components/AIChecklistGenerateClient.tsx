@@ -7,13 +7,14 @@ import { Sparkles, Info, HelpCircle, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Breadcrumb } from "@/components/layout/Breadcrumb";
-import { FileUploadArea, UploadedFile, isPdfFile } from "@/components/upload";
 import {
-  convertPdfFileToFiles,
-  showError,
-  showSuccess,
-  getMessage,
-} from "@/lib/client";
+  FileUploadArea,
+  UploadedFile,
+  RenderOptions,
+  isPdfFile,
+} from "@/components/upload";
+import { showError, showSuccess, getMessage } from "@/lib/client";
+import { isValidPageRange } from "@/lib/shared/pageRange";
 import { generateCheckListByAIAction } from "../actions";
 import { extractServerErrorMessage } from "@/hooks";
 
@@ -24,6 +25,8 @@ interface AIChecklistGenerateClientProps {
   spaceName: string;
   /** ファイルサイズ上限（バイト） */
   maxFileSize?: number;
+  /** サーバー側で画像に変換できるファイル形式（Office文書は変換ツールがある場合のみ含まれる） */
+  serverRenderableFormats?: string[];
 }
 
 /**
@@ -36,6 +39,7 @@ interface FileMetadata {
   size: number;
   processMode: "text" | "image";
   convertedImageCount?: number;
+  renderOptions?: RenderOptions;
 }
 
 /**
@@ -47,6 +51,7 @@ export function AIChecklistGenerateClient({
   spaceId,
   spaceName,
   maxFileSize,
+  serverRenderableFormats = [".pdf"],
 }: AIChecklistGenerateClientProps) {
   const router = useRouter();
 
@@ -56,9 +61,6 @@ export function AIChecklistGenerateClient({
   // チェックリスト生成要件
   const [checklistRequirements, setChecklistRequirements] = useState("");
 
-  // PDF変換中フラグ
-  const [isConverting, setIsConverting] = useState(false);
-
   // AI生成アクション（FormData対応）
   const { execute: executeGenerate, isExecuting } = useAction(
     generateCheckListByAIAction,
@@ -84,7 +86,7 @@ export function AIChecklistGenerateClient({
   );
 
   // UI用の統合ローディングフラグ
-  const isProcessing = isConverting || isExecuting;
+  const isProcessing = isExecuting;
 
   // ファイル変更時のハンドラー
   const handleFilesChange = useCallback((newFiles: UploadedFile[]) => {
@@ -94,11 +96,11 @@ export function AIChecklistGenerateClient({
     // （テキスト抽出はサーバー側で行うため、クライアントでは処理不要）
     const updatedFiles = newFiles.map((file) => {
       if (file.status === "pending") {
-        if (isPdfFile(file.file)) {
-          // PDFファイルはcomplete状態に（ユーザーが処理モードを選択可能）
+        if (file.willConvertToImage !== undefined) {
+          // 画像変換できるファイルはcomplete状態に（ユーザーが処理モードを選択可能）
           return { ...file, status: "complete" as const };
         } else {
-          // 非PDFファイルは自動でtextモードに設定してcomplete
+          // それ以外のファイルは自動でtextモードに設定してcomplete
           return {
             ...file,
             status: "complete" as const,
@@ -135,6 +137,16 @@ export function AIChecklistGenerateClient({
       .every((f) => f.willConvertToImage !== undefined);
     if (!allPdfReady) return false;
 
+    // 画像変換するファイルのページ範囲が正しいか
+    if (
+      files.some(
+        (f) =>
+          f.willConvertToImage === true &&
+          !isValidPageRange(f.renderOptions?.pageRange ?? ""),
+      )
+    )
+      return false;
+
     // チェックリスト生成要件が入力されているか
     if (!checklistRequirements.trim()) return false;
 
@@ -142,38 +154,20 @@ export function AIChecklistGenerateClient({
   }, [files, checklistRequirements]);
 
   /**
-   * PDF画像変換を実行し、ファイルリストを更新
+   * 処理モードを確定したファイルリストを返す
+   * 画像変換はサーバー側で行うため、元ファイルのまま送信する
    */
-  const processPdfFiles = async (
-    currentFiles: UploadedFile[],
-  ): Promise<UploadedFile[]> => {
-    const result: UploadedFile[] = [];
-
-    for (const file of currentFiles) {
-      if (isPdfFile(file.file) && file.willConvertToImage === true) {
-        // 画像変換を実行（File形式で取得）
-        const convertedImages = await convertPdfFileToFiles(file.file);
-
-        result.push({
-          ...file,
-          status: "complete",
-          processMode: "image",
-          convertedImages,
-          willConvertToImage: false, // 変換完了後はフラグをクリア
-        });
-      } else if (isPdfFile(file.file) && file.willConvertToImage === false) {
-        // テキスト抽出モードのPDF
-        result.push({
-          ...file,
-          processMode: "text",
-        });
-      } else {
-        result.push(file);
+  const resolveProcessModes = (currentFiles: UploadedFile[]): UploadedFile[] =>
+    currentFiles.map((file) => {
+      if (file.willConvertToImage === true) {
+        return { ...file, processMode: "image" as const };
       }
-    }
-
-    return result;
-  };
+      if (file.willConvertToImage === false) {
+        // テキスト抽出モード
+        return { ...file, processMode: "text" as const };
+      }
+      return file;
+    });
 
   /**
    * FormDataを構築
@@ -205,6 +199,12 @@ export function AIChecklistGenerateClient({
       // 画像モードの場合、変換済み画像数を追加
       if (file.processMode === "image" && file.convertedImages) {
         fileMeta.convertedImageCount = file.convertedImages.length;
+      } else if (file.processMode === "image") {
+        // サーバー側で画像に変換する場合はページ範囲・解像度を指定する
+        fileMeta.renderOptions = {
+          pageRange: file.renderOptions?.pageRange?.trim() || undefined,
+          scale: file.renderOptions?.scale,
+        };
       }
 
       metadata.push(fileMeta);
@@ -227,33 +227,18 @@ export function AIChecklistGenerateClient({
   };
 
   // 生成実行
-  const handleGenerate = useCallback(async () => {
+  const handleGenerate = useCallback(() => {
     if (!canGenerate()) return;
 
-    setIsConverting(true);
-
-    try {
-      // willConvertToImage=trueのPDFを変換
-      const processedFiles = await processPdfFiles(files);
-      setIsConverting(false);
-
-      // FormDataを構築
-      const formData = buildFormData(
-        processedFiles,
-        spaceId,
-        checklistRequirements.trim(),
-      );
-
-      // アクションを実行（ここでisExecuting=trueになる）
-      executeGenerate(formData);
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error
-          ? error.message
-          : getMessage("ERROR_PDF_CONVERSION_FAILED");
-      showError(errorMessage);
-      setIsConverting(false);
-    }
+    // 処理モードを確定してFormDataを構築
+    const formData = buildFormData(
+      resolveProcessModes(files),
+      spaceId,
+      checklistRequirements.trim(),
+    );
+
+    // アクションを実行（ここでisExecuting=trueになる）
+    executeGenerate(formData);
   }, [canGenerate, files, checklistRequirements, spaceId, executeGenerate]);
 
   return (
@@ -332,9 +317,14 @@ export function AIChecklistGenerateClient({
                   enableMultiSelect={true}
                   disabled={isProcessing}
                   maxFileSize={maxFileSize}
+                  imageConvertibleFormats={serverRenderableFormats}
+                  showRenderOptions={true}
                 />
                 <p className="mt-2 text-sm text-gray-500">
-                  PDFファイルは処理モードを選択できます。図表が多い場合は「画像変換」を推奨します（ただし、文字の認識精度は低下します）。
+                  {serverRenderableFormats.length > 1
+                    ? "PDF・Office文書"
+                    : "PDFファイル"}
+                  は処理モードを選択できます。図表が多い場合は「画像変換」を推奨します（ただし、文字の認識精度は低下します）。
                 </p>
               </div>
             </div>
@@ -7,6 +7,7 @@ import {
   UserRepository,
 } from "@/infrastructure/adapter/db";
 import { getAuthenticatedUser } from "@/lib/server/auth";
+import { DocumentRenderer } from "@/infrastructure/adapter/documentRenderer";
 import { fileUploadConfig } from "@/lib/server/fileUploadConfig";
 import { AIChecklistGenerateClient } from "./components/AIChecklistGenerateClient";
 
@@ -58,6 +59,10 @@ export default async function AIGeneratePage({ params }: AIGeneratePageProps) {
     notFound();
   }
 
+  // サーバー側で画像に変換できるファイル形式を取得
+  const serverRenderableFormats =
+    await new DocumentRenderer().getSupportedExtensions();
+
   return (
     <AIChecklistGenerateClient
       projectId={projectId}
@@ -65,6 +70,7 @@ export default async function AIGeneratePage({ params }: AIGeneratePageProps) {
       spaceId={spaceId}
       spaceName={reviewSpace.name}
       maxFileSize={fileUploadConfig.maxFileSizeBytes}
+      serverRenderableFormats={serverRenderableFormats}
     />
   );
 }
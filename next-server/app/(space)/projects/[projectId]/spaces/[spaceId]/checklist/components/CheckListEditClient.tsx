@@ -19,9 +19,12 @@ import {
   X,
   AlertCircle,
   Undo2,
+  ArrowUp,
+  ArrowDown,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Breadcrumb } from "@/components/layout/Breadcrumb";
 import {
@@ -29,8 +32,15 @@ import {
   exportCheckListToCsvAction,
   cancelChecklistGenerationTaskAction,
 } from "../actions";
-import { CheckListItemListItemDto } from "@/domain/checkListItem";
+import {
+  CheckListItemListItemDto,
+  CheckListItemSeverityValue,
+  CHECK_LIST_ITEM_SEVERITY_VALUES,
+  CHECK_LIST_ITEM_SEVERITY_LABELS,
+} from "@/domain/checkListItem";
 import type { ChecklistGenerationTaskStatusDto } from "@/application/checkListItem";
+import type { ChecklistTemplateSyncPreviewDto } from "@/application/checklistTemplate";
+import type { ChecklistTemplateDto } from "@/domain/checklistTemplate";
 import { extractServerErrorMessage } from "@/hooks";
 import {
   showError,
@@ -39,6 +49,7 @@ import {
   formatClientMessage,
 } from "@/lib/client";
 import { CheckListImportModal } from "./CheckListImportModal";
+import { ChecklistTemplatePanel } from "./ChecklistTemplatePanel";
 import { useChecklistTaskPolling } from "../hooks/useChecklistTaskPolling";
 
 interface CheckListEditClientProps {
@@ -50,15 +61,43 @@ interface CheckListEditClientProps {
   initialTotal: number;
   /** チェックリスト生成タスクのステータス */
   taskStatus: ChecklistGenerationTaskStatusDto;
+  /** プロジェクトで利用できるチェックリストテンプレート */
+  templates: ChecklistTemplateDto[];
+  /** リンク中のテンプレートの取り込みプレビュー（リンクしていない場合はnull） */
+  templateSyncPreview: ChecklistTemplateSyncPreviewDto | null;
+  /** システム管理者か */
+  isAdmin: boolean;
 }
 
 interface EditableItem {
   id: string;
   content: string;
+  category: string;
+  severity: CheckListItemSeverityValue;
+  guidance: string;
   isNew?: boolean;
   isPendingDelete?: boolean;
 }
 
+/** 編集可能な項目の属性 */
+type EditableItemFields = Pick<
+  EditableItem,
+  "content" | "category" | "severity" | "guidance"
+>;
+
+/**
+ * 一覧用DTOを編集用アイテムに変換
+ */
+function toEditableItem(item: CheckListItemListItemDto): EditableItem {
+  return {
+    id: item.id,
+    content: item.content,
+    category: item.category ?? "",
+    severity: item.severity,
+    guidance: item.guidance ?? "",
+  };
+}
+
 /**
  * タスクステータスに応じたバナー設定を取得
  */
@@ -104,6 +143,9 @@ export function CheckListEditClient({
   spaceName,
   initialItems,
   taskStatus,
+  templates,
+  templateSyncPreview,
+  isAdmin,
 }: CheckListEditClientProps) {
   const router = useRouter();
 
@@ -118,10 +160,7 @@ export function CheckListEditClient({
 
   // 編集中のアイテムリスト
   const [items, setItems] = useState<EditableItem[]>(
-    initialItems.map((item) => ({
-      id: item.id,
-      content: item.content,
-    })),
+    initialItems.map(toEditableItem),
   );
 
   // 選択中のアイテムID
@@ -139,12 +178,7 @@ export function CheckListEditClient({
   // initialItemsが変更されたときにitemsを更新（インポート成功後のrouter.refresh()で反映）
   // eslint-disable-next-line react-hooks/set-state-in-effect
   useEffect(() => {
-    setItems(
-      initialItems.map((item) => ({
-        id: item.id,
-        content: item.content,
-      })),
-    );
+    setItems(initialItems.map(toEditableItem));
     setHasChanges(false);
     setSelectedIds(new Set());
   }, [initialItems]);
@@ -237,17 +271,37 @@ export function CheckListEditClient({
     const newItem: EditableItem = {
       id: `new-${uuidv4()}`,
       content: "",
+      category: "",
+      severity: "medium",
+      guidance: "",
       isNew: true,
     };
     setItems((prev) => [...prev, newItem]);
     setHasChanges(true);
   }, []);
 
-  // アイテム内容変更
-  const handleContentChange = useCallback((id: string, content: string) => {
-    setItems((prev) =>
-      prev.map((item) => (item.id === id ? { ...item, content } : item)),
-    );
+  // アイテム属性変更（内容・カテゴリ・重要度・ガイダンス）
+  const handleItemChange = useCallback(
+    (id: string, changes: Partial<EditableItemFields>) => {
+      setItems((prev) =>
+        prev.map((item) => (item.id === id ? { ...item, ...changes } : item)),
+      );
+      setHasChanges(true);
+    },
+    [],
+  );
+
+  // アイテム並び替え（指定方向の隣接アイテムと入れ替え）
+  const handleMoveItem = useCallback((index: number, direction: -1 | 1) => {
+    setItems((prev) => {
+      const targetIndex = index + direction;
+      if (targetIndex < 0 || targetIndex >= prev.length) {
+        return prev;
+      }
+      const next = [...prev];
+      [next[index], next[targetIndex]] = [next[targetIndex], next[index]];
+      return next;
+    });
     setHasChanges(true);
   }, []);
 
@@ -354,15 +408,20 @@ export function CheckListEditClient({
 
   // 保存
   const handleSave = useCallback(() => {
-    // 削除予定と空のアイテムを除外
-    const validContents = items
+    // 削除予定と空のアイテムを除外（表示順は並び順のまま保存）
+    const validItems = items
       .filter((item) => !item.isPendingDelete)
-      .map((item) => item.content.trim())
-      .filter((content) => content.length > 0);
+      .map((item) => ({
+        content: item.content.trim(),
+        category: item.category.trim() || null,
+        severity: item.severity,
+        guidance: item.guidance.trim() || null,
+      }))
+      .filter((item) => item.content.length > 0);
 
     executeBulkSave({
       reviewSpaceId: spaceId,
-      contents: validContents,
+      items: validItems,
     });
   }, [items, spaceId, executeBulkSave]);
 
@@ -375,7 +434,7 @@ export function CheckListEditClient({
     return items.some((item) => !item.isPendingDelete && !item.content.trim());
   }, [items]);
 
-  // インポート成功時のハンドラー
+  // インポート・テンプレート取り込み成功時のハンドラー
   const handleImportSuccess = useCallback(() => {
     // ページをリフレッシュして最新のデータを取得
     router.refresh();
@@ -471,6 +530,16 @@ export function CheckListEditClient({
           </div>
         </div>
 
+        {/* Checklist Template */}
+        <ChecklistTemplatePanel
+          spaceId={spaceId}
+          templates={templates}
+          linkedPreview={templateSyncPreview}
+          isAdmin={isAdmin}
+          hasUnsavedChanges={hasChanges}
+          onChanged={handleImportSuccess}
+        />
+
         {/* Task Status Banner */}
         {taskBannerConfig && TaskStatusIcon && (
           <div
@@ -492,6 +561,13 @@ export function CheckListEditClient({
                   <p className={`mt-1 text-sm ${taskBannerConfig.textColor}`}>
                     {taskBannerConfig.message}
                   </p>
+                  {taskStatus.aiApiRetryCount > 0 && (
+                    <p className={`mt-1 text-xs ${taskBannerConfig.textColor}`}>
+                      AI
+                      APIの一時的なエラーのため自動で再試行しています（再試行回数:{" "}
+                      {taskStatus.aiApiRetryCount}回）
+                    </p>
+                  )}
                 </div>
               </div>
               {taskBannerConfig.showCancelButton && (
@@ -583,7 +659,19 @@ export function CheckListEditClient({
                   </th>
                   <th
                     scope="col"
-                    className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider w-32"
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-48"
+                  >
+                    カテゴリ
+                  </th>
+                  <th
+                    scope="col"
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-28"
+                  >
+                    重要度
+                  </th>
+                  <th
+                    scope="col"
+                    className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider w-40"
                   >
                     アクション
                   </th>
@@ -593,7 +681,7 @@ export function CheckListEditClient({
                 {items.length === 0 ? (
                   <tr>
                     <td
-                      colSpan={3}
+                      colSpan={5}
                       className="px-6 py-12 text-center text-gray-500"
                     >
                       <div className="flex flex-col items-center gap-2">
@@ -642,17 +730,74 @@ export function CheckListEditClient({
                         {item.isPendingDelete ? (
                           <span className="line-through">{item.content}</span>
                         ) : (
-                          <Textarea
-                            value={item.content}
+                          <div className="flex flex-col gap-1">
+                            <Textarea
+                              value={item.content}
+                              onChange={(e) =>
+                                handleItemChange(item.id, {
+                                  content: e.target.value,
+                                })
+                              }
+                              placeholder="チェック項目を入力..."
+                              className="flex-1 border-transparent hover:border-gray-300 focus:border-primary focus:ring-1 focus:ring-primary resize-none min-h-[38px] max-h-[120px] overflow-y-auto"
+                              rows={1}
+                            />
+                            <Textarea
+                              value={item.guidance}
+                              onChange={(e) =>
+                                handleItemChange(item.id, {
+                                  guidance: e.target.value,
+                                })
+                              }
+                              placeholder="レビューガイダンス・判定例（任意）"
+                              className="flex-1 border-transparent hover:border-gray-300 focus:border-primary focus:ring-1 focus:ring-primary resize-none min-h-[32px] max-h-[120px] overflow-y-auto text-xs text-gray-600"
+                              rows={1}
+                            />
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {item.isPendingDelete ? (
+                          <span className="line-through">{item.category}</span>
+                        ) : (
+                          <Input
+                            value={item.category}
                             onChange={(e) =>
-                              handleContentChange(item.id, e.target.value)
+                              handleItemChange(item.id, {
+                                category: e.target.value,
+                              })
                             }
-                            placeholder="チェック項目を入力..."
-                            className="flex-1 border-transparent hover:border-gray-300 focus:border-primary focus:ring-1 focus:ring-primary resize-none min-h-[38px] max-h-[120px] overflow-y-auto"
-                            rows={1}
+                            placeholder="カテゴリ（任意）"
+                            aria-label="カテゴリ"
+                            className="border-transparent hover:border-gray-300"
                           />
                         )}
                       </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {item.isPendingDelete ? (
+                          <span className="line-through">
+                            {CHECK_LIST_ITEM_SEVERITY_LABELS[item.severity]}
+                          </span>
+                        ) : (
+                          <select
+                            value={item.severity}
+                            onChange={(e) =>
+                              handleItemChange(item.id, {
+                                severity: e.target
+                                  .value as CheckListItemSeverityValue,
+                              })
+                            }
+                            aria-label="重要度"
+                            className="block w-full rounded-md border border-gray-300 px-2 py-2 text-sm"
+                          >
+                            {CHECK_LIST_ITEM_SEVERITY_VALUES.map((value) => (
+                              <option key={value} value={value}>
+                                {CHECK_LIST_ITEM_SEVERITY_LABELS[value]}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                         {item.isPendingDelete ? (
                           <Button
@@ -664,14 +809,36 @@ export function CheckListEditClient({
                             <Undo2 className="w-5 h-5" />
                           </Button>
                         ) : (
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            className="text-red-600 hover:text-red-900 opacity-0 group-hover:opacity-100 transition duration-150"
-                            onClick={() => handleDeleteItem(item.id)}
-                          >
-                            <Trash2 className="w-5 h-5" />
-                          </Button>
+                          <div className="flex items-center justify-end">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-gray-500 hover:text-gray-900"
+                              aria-label="上へ移動"
+                              disabled={index === 0}
+                              onClick={() => handleMoveItem(index, -1)}
+                            >
+                              <ArrowUp className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-gray-500 hover:text-gray-900"
+                              aria-label="下へ移動"
+                              disabled={index === items.length - 1}
+                              onClick={() => handleMoveItem(index, 1)}
+                            >
+                              <ArrowDown className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-600 hover:text-red-900 opacity-0 group-hover:opacity-100 transition duration-150"
+                              onClick={() => handleDeleteItem(item.id)}
+                            >
+                              <Trash2 className="w-5 h-5" />
+                            </Button>
+                          </div>
                         )}
                       </td>
                     </tr>
@@ -725,9 +892,16 @@ export function CheckListEditClient({
                 <li>項目をクリックして直接編集できます</li>
                 <li>編集後は「変更を保存」ボタンをクリックしてください</li>
                 <li>Shiftキーを押しながらクリックすると、範囲選択ができます</li>
+                <li>矢印ボタンで項目の並び順を変更できます</li>
+                <li>
+                  カテゴリを設定すると、レビュー時にAIによる分類を行わずにそのカテゴリ単位でレビューします
+                </li>
                 <li>
                   AI生成機能でドキュメントからチェック項目を自動生成できます
                 </li>
+                <li>
+                  テンプレートにリンクすると、テンプレートの新しいバージョンの変更を差分を確認して取り込めます
+                </li>
               </ul>
             </div>
           </div>
@@ -0,0 +1,223 @@
+"use client";
+
+import { useState } from "react";
+import { useAction } from "next-safe-action/hooks";
+import { BookmarkPlus, Eye, Library, Link2Off, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ChecklistTemplateSyncPreviewDto } from "@/application/checklistTemplate";
+import type { ChecklistTemplateDto } from "@/domain/checklistTemplate";
+import {
+  previewChecklistTemplateSyncAction,
+  unlinkChecklistTemplateAction,
+} from "../actions";
+import { extractServerErrorMessage } from "@/hooks";
+import { showError, showSuccess, getMessage } from "@/lib/client";
+import { ChecklistTemplateSyncModal } from "./ChecklistTemplateSyncModal";
+import { SaveAsChecklistTemplateModal } from "./SaveAsChecklistTemplateModal";
+
+interface ChecklistTemplatePanelProps {
+  spaceId: string;
+  /** プロジェクトで利用できるテンプレート */
+  templates: ChecklistTemplateDto[];
+  /** リンク中のテンプレートの取り込みプレビュー（リンクしていない場合はnull） */
+  linkedPreview: ChecklistTemplateSyncPreviewDto | null;
+  /** システム管理者か */
+  isAdmin: boolean;
+  /** 未保存の変更があるか（取り込み・保存前に変更の保存を促す） */
+  hasUnsavedChanges: boolean;
+  onChanged: () => void;
+}
+
+/**
+ * チェックリストテンプレートパネル
+ * テンプレートとのリンク状態・新しいバージョンの有無を表示し、取り込み・リンク解除・テンプレートとしての保存を行う
+ */
+export function ChecklistTemplatePanel({
+  spaceId,
+  templates,
+  linkedPreview,
+  isAdmin,
+  hasUnsavedChanges,
+  onChanged,
+}: ChecklistTemplatePanelProps) {
+  const [selectedTemplateId, setSelectedTemplateId] = useState("");
+  const [preview, setPreview] =
+    useState<ChecklistTemplateSyncPreviewDto | null>(null);
+  const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
+
+  const { execute: loadPreview, isExecuting: isLoadingPreview } = useAction(
+    previewChecklistTemplateSyncAction,
+    {
+      onSuccess: ({ data }) => {
+        if (data) {
+          setPreview(data);
+        }
+      },
+      onError: ({ error: actionError }) => {
+        showError(
+          extractServerErrorMessage(
+            actionError,
+            "テンプレートの差分の取得に失敗しました",
+          ),
+        );
+      },
+    },
+  );
+
+  const { execute: unlink, isExecuting: isUnlinking } = useAction(
+    unlinkChecklistTemplateAction,
+    {
+      onSuccess: () => {
+        showSuccess(getMessage("SUCCESS_CHECKLIST_TEMPLATE_UNLINKED"));
+        onChanged();
+      },
+      onError: ({ error: actionError }) => {
+        showError(
+          extractServerErrorMessage(
+            actionError,
+            "テンプレートのリンク解除に失敗しました",
+          ),
+        );
+      },
+    },
+  );
+
+  const linkedTemplate = linkedPreview?.template ?? null;
+  const selectableTemplates = templates.filter(
+    (template) => template.id !== linkedTemplate?.id,
+  );
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 mb-6">
+      <div className="flex flex-col lg:flex-row lg:items-center gap-4">
+        <div className="flex items-start gap-3 flex-1 min-w-0">
+          <Library className="w-5 h-5 text-gray-400 mt-0.5 flex-shrink-0" />
+          {linkedPreview && linkedTemplate ? (
+            <div className="min-w-0">
+              <p className="text-sm text-gray-900">
+                テンプレート「
+                <span className="font-medium">{linkedTemplate.name}</span>」v
+                {linkedPreview.linkedVersion} にリンクしています
+                {linkedTemplate.projectId === null && (
+                  <span className="ml-2 px-2 py-0.5 text-xs rounded bg-gray-100 text-gray-600">
+                    全社共通
+                  </span>
+                )}
+              </p>
+              {linkedPreview.hasUpdate && (
+                <p className="mt-1 text-sm text-orange-600 font-medium">
+                  新しいバージョン v{linkedTemplate.latestVersion}{" "}
+                  が公開されています
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">
+              テンプレートにリンクしていません
+            </p>
+          )}
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          {linkedPreview && linkedTemplate && (
+            <>
+              {linkedPreview.hasUpdate && (
+                <Button
+                  size="sm"
+                  disabled={hasUnsavedChanges}
+                  onClick={() => setPreview(linkedPreview)}
+                >
+                  <Eye className="w-4 h-4 mr-1" />
+                  差分を確認
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isUnlinking}
+                onClick={() => unlink({ reviewSpaceId: spaceId })}
+              >
+                <Link2Off className="w-4 h-4 mr-1" />
+                リンクを解除
+              </Button>
+            </>
+          )}
+          {selectableTemplates.length > 0 && (
+            <div className="flex gap-2">
+              <select
+                aria-label="取り込むテンプレート"
+                className="rounded-md border border-gray-300 px-3 py-1.5 text-sm"
+                value={selectedTemplateId}
+                onChange={(e) => setSelectedTemplateId(e.target.value)}
+              >
+                <option value="">テンプレートを選択</option>
+                {selectableTemplates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}（v{template.latestVersion}
+                    {template.projectId === null ? "・全社共通" : ""}）
+                  </option>
+                ))}
+              </select>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={
+                  !selectedTemplateId || isLoadingPreview || hasUnsavedChanges
+                }
+                onClick={() =>
+                  loadPreview({
+                    reviewSpaceId: spaceId,
+                    templateId: selectedTemplateId,
+                  })
+                }
+              >
+                {isLoadingPreview ? (
+                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                ) : (
+                  <Eye className="w-4 h-4 mr-1" />
+                )}
+                取り込む
+              </Button>
+            </div>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={hasUnsavedChanges}
+            onClick={() => setIsSaveModalOpen(true)}
+          >
+            <BookmarkPlus className="w-4 h-4 mr-1" />
+            テンプレートとして保存
+          </Button>
+        </div>
+      </div>
+      {hasUnsavedChanges && (
+        <p className="mt-2 text-xs text-gray-500">
+          テンプレートの取り込み・保存の前に変更を保存してください
+        </p>
+      )}
+
+      {preview && (
+        <ChecklistTemplateSyncModal
+          open={preview !== null}
+          onOpenChange={(open) => !open && setPreview(null)}
+          reviewSpaceId={spaceId}
+          preview={preview}
+          onSyncSuccess={() => {
+            setSelectedTemplateId("");
+            onChanged();
+          }}
+        />
+      )}
+      <SaveAsChecklistTemplateModal
+        key={linkedTemplate?.id ?? "unlinked"}
+        open={isSaveModalOpen}
+        onOpenChange={setIsSaveModalOpen}
+        reviewSpaceId={spaceId}
+        linkedTemplate={linkedTemplate}
+        isAdmin={isAdmin}
+        onSaveSuccess={onChanged}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+"use client";
+
+import { useAction } from "next-safe-action/hooks";
+import { Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { ChecklistTemplateSyncPreviewDto } from "@/application/checklistTemplate";
+import type { ChecklistTemplateItemDto } from "@/domain/checklistTemplate";
+import { CHECK_LIST_ITEM_SEVERITY_LABELS } from "@/domain/checkListItem";
+import { syncChecklistTemplateAction } from "../actions";
+import { extractServerErrorMessage } from "@/hooks";
+import { showError, showSuccess, formatClientMessage } from "@/lib/client";
+
+interface ChecklistTemplateSyncModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  reviewSpaceId: string;
+  /** 取り込みプレビュー */
+  preview: ChecklistTemplateSyncPreviewDto;
+  onSyncSuccess: () => void;
+}
+
+/**
+ * カテゴリ・重要度・ガイダンスを1行で表示する
+ */
+function formatAttributes(item: ChecklistTemplateItemDto): string {
+  return [
+    `カテゴリ: ${item.category ?? "なし"}`,
+    `重要度: ${CHECK_LIST_ITEM_SEVERITY_LABELS[item.severity]}`,
+    `ガイダンス: ${item.guidance ?? "なし"}`,
+  ].join(" / ");
+}
+
+/**
+ * テンプレート取り込みモーダル
+ * テンプレートの最新バージョンとの差分を表示し、確認後にチェックリストへ取り込む
+ */
+export function ChecklistTemplateSyncModal({
+  open,
+  onOpenChange,
+  reviewSpaceId,
+  preview,
+  onSyncSuccess,
+}: ChecklistTemplateSyncModalProps) {
+  const { template, linkedVersion, diff } = preview;
+  const hasChanges =
+    diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
+
+  const { execute, isExecuting } = useAction(syncChecklistTemplateAction, {
+    onSuccess: ({ data }) => {
+      showSuccess(
+        formatClientMessage("SUCCESS_CHECKLIST_TEMPLATE_SYNCED", {
+          version: data?.version ?? template.latestVersion,
+        }),
+      );
+      onOpenChange(false);
+      onSyncSuccess();
+    },
+    onError: ({ error: actionError }) => {
+      showError(
+        extractServerErrorMessage(
+          actionError,
+          "テンプレートの取り込みに失敗しました",
+        ),
+      );
+    },
+  });
+
+  const handleSync = () => {
+    execute({
+      reviewSpaceId,
+      templateId: template.id,
+      expectedVersion: template.latestVersion,
+    });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => !isExecuting && onOpenChange(value)}
+    >
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>テンプレートの変更を確認</DialogTitle>
+          <DialogDescription>
+            「{template.name}」
+            {linkedVersion !== null && ` v${linkedVersion} →`} v
+            {template.latestVersion}
+            の内容をチェックリストに取り込みます。チェックリストで独自に追加した項目と並び順はそのまま残ります。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-2 space-y-4 max-h-[60vh] overflow-y-auto">
+          {!hasChanges && (
+            <p className="text-sm text-gray-600">
+              チェック項目に変更はありません。
+            </p>
+          )}
+
+          {diff.added.length > 0 && (
+            <section>
+              <h4 className="text-sm font-medium text-green-700 mb-2">
+                追加される項目（{diff.added.length}件）
+              </h4>
+              <ul className="space-y-1">
+                {diff.added.map((item) => (
+                  <li
+                    key={item.content}
+                    className="p-2 text-sm bg-green-50 border border-green-200 rounded"
+                  >
+                    <p className="text-gray-900 whitespace-pre-wrap">
+                      + {item.content}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatAttributes(item)}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {diff.removed.length > 0 && (
+            <section>
+              <h4 className="text-sm font-medium text-red-700 mb-2">
+                削除される項目（{diff.removed.length}件）
+              </h4>
+              <ul className="space-y-1">
+                {diff.removed.map((item) => (
+                  <li
+                    key={item.content}
+                    className="p-2 text-sm bg-red-50 border border-red-200 rounded text-gray-900 whitespace-pre-wrap"
+                  >
+                    - {item.content}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {diff.changed.length > 0 && (
+            <section>
+              <h4 className="text-sm font-medium text-blue-700 mb-2">
+                属性が更新される項目（{diff.changed.length}件）
+              </h4>
+              <ul className="space-y-1">
+                {diff.changed.map(({ before, after }) => (
+                  <li
+                    key={before.content}
+                    className="p-2 text-sm bg-blue-50 border border-blue-200 rounded"
+                  >
+                    <p className="text-gray-900 whitespace-pre-wrap">
+                      {before.content}
+                    </p>
+                    <p className="text-xs text-gray-500 line-through">
+                      {formatAttributes(before)}
+                    </p>
+                    <p className="text-xs text-blue-700">
+                      {formatAttributes(after)}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isExecuting}
+          >
+            キャンセル
+          </Button>
+          <Button
+            onClick={handleSync}
+            disabled={isExecuting}
+            className="flex items-center gap-2"
+          >
+            {isExecuting ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <RefreshCw className="w-4 h-4" />
+            )}
+            {linkedVersion === null ? "取り込んでリンク" : "更新を取り込む"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
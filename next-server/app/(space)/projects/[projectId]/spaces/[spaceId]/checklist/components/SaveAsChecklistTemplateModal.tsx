@@ -0,0 +1,238 @@
+"use client";
+
+import { useState } from "react";
+import { useAction } from "next-safe-action/hooks";
+import { BookmarkPlus, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { ChecklistTemplateDto } from "@/domain/checklistTemplate";
+import {
+  createChecklistTemplateAction,
+  publishChecklistTemplateVersionAction,
+} from "../actions";
+import { extractServerErrorMessage } from "@/hooks";
+import {
+  showError,
+  showSuccess,
+  getMessage,
+  formatClientMessage,
+} from "@/lib/client";
+
+type SaveMode = "create" | "publish";
+
+interface SaveAsChecklistTemplateModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  reviewSpaceId: string;
+  /** リンク中のテンプレート（リンクしていない場合はnull） */
+  linkedTemplate: ChecklistTemplateDto | null;
+  /** システム管理者か（全社共通テンプレートを作成できる） */
+  isAdmin: boolean;
+  onSaveSuccess: () => void;
+}
+
+/**
+ * テンプレートとして保存モーダル
+ * 保存済みのチェックリストを新しいテンプレート、またはリンク中のテンプレートの新しいバージョンとして公開する
+ */
+export function SaveAsChecklistTemplateModal({
+  open,
+  onOpenChange,
+  reviewSpaceId,
+  linkedTemplate,
+  isAdmin,
+  onSaveSuccess,
+}: SaveAsChecklistTemplateModalProps) {
+  const [mode, setMode] = useState<SaveMode>(
+    linkedTemplate ? "publish" : "create",
+  );
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [scope, setScope] = useState<"project" | "global">("project");
+  const [changeNote, setChangeNote] = useState("");
+
+  const handleSuccess = () => {
+    setName("");
+    setDescription("");
+    setChangeNote("");
+    onOpenChange(false);
+    onSaveSuccess();
+  };
+
+  const handleError = (actionError: { serverError?: unknown }) => {
+    showError(
+      extractServerErrorMessage(
+        actionError,
+        "テンプレートの保存に失敗しました",
+      ),
+    );
+  };
+
+  const { execute: createTemplate, isExecuting: isCreating } = useAction(
+    createChecklistTemplateAction,
+    {
+      onSuccess: () => {
+        showSuccess(getMessage("SUCCESS_CHECKLIST_TEMPLATE_CREATED"));
+        handleSuccess();
+      },
+      onError: ({ error }) => handleError(error),
+    },
+  );
+
+  const { execute: publishVersion, isExecuting: isPublishing } = useAction(
+    publishChecklistTemplateVersionAction,
+    {
+      onSuccess: ({ data }) => {
+        showSuccess(
+          formatClientMessage("SUCCESS_CHECKLIST_TEMPLATE_VERSION_PUBLISHED", {
+            version: data?.latestVersion ?? "",
+          }),
+        );
+        handleSuccess();
+      },
+      onError: ({ error }) => handleError(error),
+    },
+  );
+
+  const isExecuting = isCreating || isPublishing;
+
+  const handleSave = () => {
+    if (mode === "publish" && linkedTemplate) {
+      publishVersion({
+        reviewSpaceId,
+        templateId: linkedTemplate.id,
+        changeNote: changeNote.trim() || null,
+      });
+      return;
+    }
+    createTemplate({
+      reviewSpaceId,
+      scope,
+      name: name.trim(),
+      description: description.trim() || null,
+      changeNote: changeNote.trim() || null,
+    });
+  };
+
+  const canSubmit =
+    !isExecuting && (mode === "publish" || name.trim().length > 0);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => !isExecuting && onOpenChange(value)}
+    >
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>テンプレートとして保存</DialogTitle>
+          <DialogDescription>
+            保存済みのチェックリストをテンプレートとして公開し、他のレビュースペースで再利用できるようにします。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-2 space-y-4">
+          {linkedTemplate && (
+            <div className="space-y-2">
+              <Label htmlFor="template-save-mode">保存方法</Label>
+              <select
+                id="template-save-mode"
+                className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                value={mode}
+                onChange={(e) => setMode(e.target.value as SaveMode)}
+              >
+                <option value="publish">
+                  「{linkedTemplate.name}」の新しいバージョン（v
+                  {linkedTemplate.latestVersion + 1}）として公開
+                </option>
+                <option value="create">新しいテンプレートを作成</option>
+              </select>
+            </div>
+          )}
+
+          {mode === "create" && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="template-name">テンプレート名</Label>
+                <Input
+                  id="template-name"
+                  value={name}
+                  maxLength={100}
+                  placeholder="例: 設計書レビュー標準チェックリスト"
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-description">説明</Label>
+                <Textarea
+                  id="template-description"
+                  value={description}
+                  maxLength={1000}
+                  rows={2}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-scope">公開範囲</Label>
+                <select
+                  id="template-scope"
+                  className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  value={scope}
+                  onChange={(e) =>
+                    setScope(e.target.value as "project" | "global")
+                  }
+                >
+                  <option value="project">このプロジェクト</option>
+                  {isAdmin && <option value="global">全社共通</option>}
+                </select>
+              </div>
+            </>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="template-change-note">変更内容のメモ</Label>
+            <Textarea
+              id="template-change-note"
+              value={changeNote}
+              maxLength={1000}
+              rows={2}
+              placeholder="例: セキュリティ観点の項目を追加"
+              onChange={(e) => setChangeNote(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isExecuting}
+          >
+            キャンセル
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!canSubmit}
+            className="flex items-center gap-2"
+          >
+            {isExecuting ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <BookmarkPlus className="w-4 h-4" />
+            )}
+            保存
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
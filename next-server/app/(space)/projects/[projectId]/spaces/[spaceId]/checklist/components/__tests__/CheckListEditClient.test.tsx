@@ -1,7 +1,9 @@
+import type { ComponentProps } from "react";
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { render, screen, waitFor, fireEvent } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { CheckListEditClient } from "../CheckListEditClient";
+import type { ChecklistTemplateDto } from "@/domain/checklistTemplate";
 
 // next/navigation のモック
 const mockPush = vi.fn();
@@ -91,6 +93,21 @@ vi.mock("../actions", () => ({
   cancelChecklistGenerationTaskAction: Object.assign(() => {}, {
     _actionType: "cancelTask",
   }),
+  previewChecklistTemplateSyncAction: Object.assign(() => {}, {
+    _actionType: "previewTemplateSync",
+  }),
+  syncChecklistTemplateAction: Object.assign(() => {}, {
+    _actionType: "syncTemplate",
+  }),
+  unlinkChecklistTemplateAction: Object.assign(() => {}, {
+    _actionType: "unlinkTemplate",
+  }),
+  createChecklistTemplateAction: Object.assign(() => {}, {
+    _actionType: "createTemplate",
+  }),
+  publishChecklistTemplateVersionAction: Object.assign(() => {}, {
+    _actionType: "publishTemplateVersion",
+  }),
 }));
 
 // sonnerのモック
@@ -111,22 +128,48 @@ vi.mock("@/lib/client", () => ({
 
 describe("CheckListEditClient", () => {
   // テスト用の基本props
-  const baseProps = {
+  const baseProps: ComponentProps<typeof CheckListEditClient> = {
     projectId: "project-1",
     projectName: "テストプロジェクト",
     spaceId: "space-1",
     spaceName: "テストスペース",
     initialItems: [
-      { id: "item-1", content: "チェック項目1" },
-      { id: "item-2", content: "チェック項目2" },
-      { id: "item-3", content: "チェック項目3" },
+      {
+        id: "item-1",
+        content: "チェック項目1",
+        category: "セキュリティ",
+        displayOrder: 0,
+        severity: "high" as const,
+        guidance: "認証の有無を確認する",
+      },
+      {
+        id: "item-2",
+        content: "チェック項目2",
+        category: null,
+        displayOrder: 1,
+        severity: "medium" as const,
+        guidance: null,
+      },
+      {
+        id: "item-3",
+        content: "チェック項目3",
+        category: null,
+        displayOrder: 2,
+        severity: "low" as const,
+        guidance: null,
+      },
     ],
     initialTotal: 3,
     taskStatus: {
       hasTask: false,
       status: null,
+      taskId: null,
+      aiApiRetryCount: 0,
       errorMessage: null,
     },
+    templates: [],
+    templateSyncPreview: null,
+    isAdmin: false,
   };
 
   beforeEach(() => {
@@ -330,11 +373,14 @@ describe("CheckListEditClient", () => {
         expect(mockExecuteBulkSave).toHaveBeenCalledTimes(1);
       });
 
-      // 保存時のcontentsに削除予定の項目（チェック項目1）が含まれていないことを確認
+      // 保存時のitemsに削除予定の項目（チェック項目1）が含まれていないことを確認
       const savedData = mockExecuteBulkSave.mock.calls[0][0];
-      expect(savedData.contents).not.toContain("チェック項目1");
-      expect(savedData.contents).toContain("チェック項目2");
-      expect(savedData.contents).toContain("チェック項目3");
+      const savedContents = savedData.items.map(
+        (item: { content: string }) => item.content,
+      );
+      expect(savedContents).not.toContain("チェック項目1");
+      expect(savedContents).toContain("チェック項目2");
+      expect(savedContents).toContain("チェック項目3");
     });
 
     it("全アイテム削除後の保存で空配列が送信されること", async () => {
@@ -364,7 +410,53 @@ describe("CheckListEditClient", () => {
       await waitFor(() => {
         expect(mockExecuteBulkSave).toHaveBeenCalledWith({
           reviewSpaceId: "space-1",
-          contents: [],
+          items: [],
+        });
+      });
+    });
+
+    it("カテゴリ・重要度・ガイダンスが並び順どおりに保存されること", async () => {
+      render(<CheckListEditClient {...baseProps} />);
+
+      // 2番目の項目を上へ移動
+      const moveUpButtons = screen.getAllByRole("button", {
+        name: "上へ移動",
+      });
+      fireEvent.click(moveUpButtons[1]);
+
+      // 重要度を変更
+      const severitySelects = screen.getAllByRole("combobox", {
+        name: "重要度",
+      });
+      fireEvent.change(severitySelects[0], { target: { value: "high" } });
+
+      // 保存ボタンをクリック
+      const saveButton = screen.getByRole("button", { name: /変更を保存/ });
+      fireEvent.click(saveButton);
+
+      await waitFor(() => {
+        expect(mockExecuteBulkSave).toHaveBeenCalledWith({
+          reviewSpaceId: "space-1",
+          items: [
+            {
+              content: "チェック項目2",
+              category: null,
+              severity: "high",
+              guidance: null,
+            },
+            {
+              content: "チェック項目1",
+              category: "セキュリティ",
+              severity: "high",
+              guidance: "認証の有無を確認する",
+            },
+            {
+              content: "チェック項目3",
+              category: null,
+              severity: "low",
+              guidance: null,
+            },
+          ],
         });
       });
     });
@@ -453,4 +545,50 @@ describe("CheckListEditClient", () => {
       expect(checkboxes[3]).toBeChecked();
     });
   });
+
+  describe("チェックリストテンプレート", () => {
+    const template: ChecklistTemplateDto = {
+      id: "template-1",
+      projectId: null,
+      name: "設計書標準",
+      description: null,
+      latestVersion: 3,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it("リンク中のテンプレートに新しいバージョンがある場合、通知と差分確認ボタンが表示されること", () => {
+      render(
+        <CheckListEditClient
+          {...baseProps}
+          templates={[template]}
+          templateSyncPreview={{
+            template,
+            linkedVersion: 2,
+            hasUpdate: true,
+            diff: { added: [], removed: [], changed: [] },
+          }}
+        />,
+      );
+
+      expect(screen.getByText(/v2 にリンクしています/)).toBeInTheDocument();
+      expect(
+        screen.getByText(/新しいバージョン v3\s*が公開されています/),
+      ).toBeInTheDocument();
+      expect(
+        screen.getByRole("button", { name: "差分を確認" }),
+      ).toBeInTheDocument();
+    });
+
+    it("テンプレートにリンクしていない場合、リンク解除ボタンが表示されないこと", () => {
+      render(<CheckListEditClient {...baseProps} templates={[template]} />);
+
+      expect(
+        screen.getByText("テンプレートにリンクしていません"),
+      ).toBeInTheDocument();
+      expect(
+        screen.queryByRole("button", { name: "リンクを解除" }),
+      ).not.toBeInTheDocument();
+    });
+  });
 });
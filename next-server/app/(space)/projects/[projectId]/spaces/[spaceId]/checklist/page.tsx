@@ -5,10 +5,15 @@ import {
   ListReviewSpaceCheckListItemsService,
   GetChecklistGenerationTaskStatusService,
 } from "@/application/checkListItem";
+import {
+  ListChecklistTemplatesService,
+  PreviewChecklistTemplateSyncService,
+} from "@/application/checklistTemplate";
 import {
   ProjectRepository,
   ReviewSpaceRepository,
   UserRepository,
+  ChecklistTemplateRepository,
 } from "@/infrastructure/adapter/db";
 import { CheckListItemRepository } from "@/infrastructure/adapter/db/drizzle/repository/CheckListItemRepository";
 import { AiTaskRepository } from "@/infrastructure/adapter/db/drizzle/repository/AiTaskRepository";
@@ -37,6 +42,7 @@ export default async function CheckListPage({ params }: CheckListPageProps) {
   const reviewSpaceRepository = new ReviewSpaceRepository();
   const checkListItemRepository = new CheckListItemRepository();
   const aiTaskRepository = new AiTaskRepository();
+  const checklistTemplateRepository = new ChecklistTemplateRepository();
 
   // プロジェクト情報を取得
   const getProjectService = new GetProjectService(
@@ -92,6 +98,29 @@ export default async function CheckListPage({ params }: CheckListPageProps) {
     userId: authUser.userId,
   });
 
+  // 利用できるテンプレートとリンク中のテンプレートの更新状況を取得
+  const listTemplatesService = new ListChecklistTemplatesService(
+    checklistTemplateRepository,
+    projectRepository,
+  );
+  const templates = await listTemplatesService.execute({
+    projectId,
+    userId: authUser.userId,
+  });
+
+  const previewTemplateSyncService = new PreviewChecklistTemplateSyncService(
+    checklistTemplateRepository,
+    checkListItemRepository,
+    reviewSpaceRepository,
+    projectRepository,
+  );
+  const templateSyncPreview = reviewSpace.checklistTemplateId
+    ? await previewTemplateSyncService.execute({
+        reviewSpaceId: spaceId,
+        userId: authUser.userId,
+      })
+    : null;
+
   return (
     <CheckListEditClient
       projectId={projectId}
@@ -101,6 +130,9 @@ export default async function CheckListPage({ params }: CheckListPageProps) {
       initialItems={initialData.items}
       initialTotal={initialData.total}
       taskStatus={taskStatus}
+      templates={templates}
+      templateSyncPreview={templateSyncPreview}
+      isAdmin={authUser.isAdmin}
     />
   );
 }
@@ -10,6 +10,7 @@ import {
   HelpCircle,
   Plus,
   Settings,
+  BarChart3,
   ChevronDown,
   ChevronRight,
   Eye,
@@ -39,6 +40,8 @@ interface ReviewTargetItem {
   id: string;
   name: string;
   status: string;
+  /** リビジョン番号 */
+  revision?: number;
   updatedAt: Date;
 }
 
@@ -189,13 +192,22 @@ export function ReviewTargetListClient({
               <h3 className="text-lg font-semibold text-gray-900">
                 スペース情報
               </h3>
-              <Link
-                href={`/projects/${projectId}/spaces/${spaceId}/settings`}
-                className="text-sm text-primary hover:text-primary/80 font-medium flex items-center gap-1"
-              >
-                <Settings className="w-4 h-4" />
-                設定
-              </Link>
+              <div className="flex items-center gap-4">
+                <Link
+                  href={`/projects/${projectId}/spaces/${spaceId}/analytics`}
+                  className="text-sm text-primary hover:text-primary/80 font-medium flex items-center gap-1"
+                >
+                  <BarChart3 className="w-4 h-4" />
+                  分析
+                </Link>
+                <Link
+                  href={`/projects/${projectId}/spaces/${spaceId}/settings`}
+                  className="text-sm text-primary hover:text-primary/80 font-medium flex items-center gap-1"
+                >
+                  <Settings className="w-4 h-4" />
+                  設定
+                </Link>
+              </div>
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -457,6 +469,11 @@ export function ReviewTargetListClient({
                           >
                             {target.name}
                           </Link>
+                          {(target.revision ?? 1) > 1 && (
+                            <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-blue-100 text-blue-800">
+                              Rev.{target.revision}
+                            </span>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <span
@@ -0,0 +1,45 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { AdjudicateReviewResultService } from "@/application/reviewResult";
+import {
+  ProjectRepository,
+  ReviewSpaceRepository,
+  ReviewTargetRepository,
+  ReviewResultRepository,
+} from "@/infrastructure/adapter/db";
+
+const adjudicateReviewResultSchema = z.object({
+  reviewResultId: z.string().uuid(),
+  evaluation: z.string().max(20).nullable(),
+  comment: z.string().max(2000).nullable(),
+  disposition: z.enum(["accepted", "disputed", "fixed"]),
+});
+
+/**
+ * レビュー結果に対するレビュアーの判定を保存するアクション
+ */
+export const adjudicateReviewResultAction = authenticatedAction
+  .schema(adjudicateReviewResultSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const projectRepository = new ProjectRepository();
+    const reviewSpaceRepository = new ReviewSpaceRepository();
+    const reviewTargetRepository = new ReviewTargetRepository();
+    const reviewResultRepository = new ReviewResultRepository();
+
+    const service = new AdjudicateReviewResultService(
+      reviewResultRepository,
+      reviewTargetRepository,
+      reviewSpaceRepository,
+      projectRepository,
+    );
+
+    return service.execute({
+      reviewResultId: parsedInput.reviewResultId,
+      evaluation: parsedInput.evaluation,
+      comment: parsedInput.comment,
+      disposition: parsedInput.disposition,
+      userId: ctx.auth.userId,
+    });
+  });
@@ -0,0 +1,36 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { CompareReviewTargetRevisionsService } from "@/application/reviewTarget";
+import {
+  ProjectRepository,
+  ReviewSpaceRepository,
+  ReviewTargetRepository,
+  ReviewResultRepository,
+} from "@/infrastructure/adapter/db";
+
+const compareReviewTargetRevisionsSchema = z.object({
+  baseReviewTargetId: z.string().uuid(),
+  compareReviewTargetId: z.string().uuid(),
+});
+
+/**
+ * レビュー対象の2つのリビジョンのレビュー結果を比較するアクション
+ */
+export const compareReviewTargetRevisionsAction = authenticatedAction
+  .schema(compareReviewTargetRevisionsSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new CompareReviewTargetRevisionsService(
+      new ReviewTargetRepository(),
+      new ReviewResultRepository(),
+      new ReviewSpaceRepository(),
+      new ProjectRepository(),
+    );
+
+    return service.execute({
+      baseReviewTargetId: parsedInput.baseReviewTargetId,
+      compareReviewTargetId: parsedInput.compareReviewTargetId,
+      userId: ctx.auth.userId,
+    });
+  });
@@ -8,6 +8,7 @@ import {
   ReviewSpaceRepository,
   ReviewTargetRepository,
   ReviewResultRepository,
+  UserRepository,
 } from "@/infrastructure/adapter/db";
 
 const exportReviewResultsToCsvSchema = z.object({
@@ -24,12 +25,14 @@ export const exportReviewResultsToCsvAction = authenticatedAction
     const reviewSpaceRepository = new ReviewSpaceRepository();
     const reviewTargetRepository = new ReviewTargetRepository();
     const reviewResultRepository = new ReviewResultRepository();
+    const userRepository = new UserRepository();
 
     const service = new ExportReviewResultsToCsvService(
       reviewResultRepository,
       reviewTargetRepository,
       reviewSpaceRepository,
       projectRepository,
+      userRepository,
     );
 
     return service.execute({
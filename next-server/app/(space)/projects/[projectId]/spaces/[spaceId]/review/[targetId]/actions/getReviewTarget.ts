@@ -8,6 +8,8 @@ import {
   ReviewSpaceRepository,
   ReviewTargetRepository,
   ReviewResultRepository,
+  UserRepository,
+  AiTaskRepository,
 } from "@/infrastructure/adapter/db";
 
 /**
@@ -27,6 +29,7 @@ export const getReviewTargetAction = authenticatedAction
     const reviewSpaceRepository = new ReviewSpaceRepository();
     const reviewTargetRepository = new ReviewTargetRepository();
     const reviewResultRepository = new ReviewResultRepository();
+    const userRepository = new UserRepository();
 
     // サービスを実行
     const service = new GetReviewTargetService(
@@ -34,6 +37,8 @@ export const getReviewTargetAction = authenticatedAction
       reviewResultRepository,
       reviewSpaceRepository,
       projectRepository,
+      userRepository,
+      new AiTaskRepository(),
     );
 
     const result = await service.execute({
@@ -0,0 +1,64 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import {
+  SignOffReviewTargetService,
+  RevokeReviewTargetSignOffService,
+} from "@/application/reviewTarget";
+import {
+  ProjectRepository,
+  ReviewSpaceRepository,
+  ReviewTargetRepository,
+  ReviewResultRepository,
+} from "@/infrastructure/adapter/db";
+
+const signOffReviewTargetSchema = z.object({
+  reviewTargetId: z.string().uuid(),
+});
+
+/**
+ * レビュー対象を承認（サインオフ）するアクション
+ */
+export const signOffReviewTargetAction = authenticatedAction
+  .schema(signOffReviewTargetSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const projectRepository = new ProjectRepository();
+    const reviewSpaceRepository = new ReviewSpaceRepository();
+    const reviewTargetRepository = new ReviewTargetRepository();
+    const reviewResultRepository = new ReviewResultRepository();
+
+    const service = new SignOffReviewTargetService(
+      reviewTargetRepository,
+      reviewResultRepository,
+      reviewSpaceRepository,
+      projectRepository,
+    );
+
+    return service.execute({
+      reviewTargetId: parsedInput.reviewTargetId,
+      userId: ctx.auth.userId,
+    });
+  });
+
+/**
+ * レビュー対象の承認を取り消すアクション
+ */
+export const revokeReviewTargetSignOffAction = authenticatedAction
+  .schema(signOffReviewTargetSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const projectRepository = new ProjectRepository();
+    const reviewSpaceRepository = new ReviewSpaceRepository();
+    const reviewTargetRepository = new ReviewTargetRepository();
+
+    const service = new RevokeReviewTargetSignOffService(
+      reviewTargetRepository,
+      reviewSpaceRepository,
+      projectRepository,
+    );
+
+    return service.execute({
+      reviewTargetId: parsedInput.reviewTargetId,
+      userId: ctx.auth.userId,
+    });
+  });
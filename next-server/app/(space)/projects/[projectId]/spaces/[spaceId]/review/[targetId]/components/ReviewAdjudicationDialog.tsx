@@ -0,0 +1,224 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+/**
+ * 対応状況
+ */
+export type ReviewDisposition = "accepted" | "disputed" | "fixed";
+
+/**
+ * レビュアー判定フォームデータ
+ */
+export interface ReviewAdjudicationFormData {
+  /** 評定の上書き（nullの場合はAIの評定を採用） */
+  evaluation: string | null;
+  /** コメントの上書き（nullの場合はAIのコメントを採用） */
+  comment: string | null;
+  disposition: ReviewDisposition;
+}
+
+/**
+ * 対応状況の選択肢
+ */
+const DISPOSITION_OPTIONS: {
+  value: ReviewDisposition;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "accepted",
+    label: "承認",
+    description: "AIのレビュー結果（または上書きした内容）で確定します",
+  },
+  {
+    value: "disputed",
+    label: "異議あり",
+    description: "判定に異議があります。異議が残っている間は承認できません",
+  },
+  {
+    value: "fixed",
+    label: "修正済み",
+    description: "指摘事項をドキュメント側で修正済みです",
+  },
+];
+
+// AIの評定を採用する場合の選択値
+const AI_EVALUATION_VALUE = "__ai__";
+
+const COMMENT_MAX_LENGTH = 2000;
+
+interface ReviewAdjudicationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: ReviewAdjudicationFormData) => void;
+  isSubmitting: boolean;
+  /** 対象のチェック項目 */
+  checkListItemContent: string;
+  /** AIの評定 */
+  aiEvaluation: string | null;
+  /** 選択可能な評定ラベル（レビュー実行時の評価基準） */
+  evaluationLabels: string[];
+  /** 既存の判定（初期値） */
+  initialValue: ReviewAdjudicationFormData | null;
+}
+
+/**
+ * レビュアー判定ダイアログ
+ * AIの評定・コメントの上書きと対応状況を入力する
+ */
+export function ReviewAdjudicationDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  isSubmitting,
+  checkListItemContent,
+  aiEvaluation,
+  evaluationLabels,
+  initialValue,
+}: ReviewAdjudicationDialogProps) {
+  const [evaluation, setEvaluation] = useState(
+    initialValue?.evaluation ?? AI_EVALUATION_VALUE,
+  );
+  const [comment, setComment] = useState(initialValue?.comment ?? "");
+  const [disposition, setDisposition] = useState<ReviewDisposition>(
+    initialValue?.disposition ?? "accepted",
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    onSubmit({
+      evaluation: evaluation === AI_EVALUATION_VALUE ? null : evaluation,
+      comment: comment.trim() || null,
+      disposition,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>レビュー結果の判定</DialogTitle>
+          <DialogDescription className="whitespace-pre-wrap">
+            {checkListItemContent}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>評定</Label>
+            <RadioGroup
+              value={evaluation}
+              onValueChange={setEvaluation}
+              className="flex flex-wrap gap-4"
+              aria-label="評定"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem
+                  value={AI_EVALUATION_VALUE}
+                  id="adjudication-evaluation-ai"
+                />
+                <Label
+                  htmlFor="adjudication-evaluation-ai"
+                  className="cursor-pointer font-normal"
+                >
+                  AIの評定を採用（{aiEvaluation ?? "-"}）
+                </Label>
+              </div>
+              {evaluationLabels.map((label) => (
+                <div key={label} className="flex items-center space-x-2">
+                  <RadioGroupItem
+                    value={label}
+                    id={`adjudication-evaluation-${label}`}
+                  />
+                  <Label
+                    htmlFor={`adjudication-evaluation-${label}`}
+                    className="cursor-pointer font-normal"
+                  >
+                    {label}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="adjudication-comment">コメント</Label>
+            <Textarea
+              id="adjudication-comment"
+              placeholder="空欄の場合はAIのコメントを採用します"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={4}
+              maxLength={COMMENT_MAX_LENGTH}
+            />
+            <p className="text-xs text-gray-500 text-right">
+              {comment.length}/{COMMENT_MAX_LENGTH}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>対応状況</Label>
+            <RadioGroup
+              value={disposition}
+              onValueChange={(v) => setDisposition(v as ReviewDisposition)}
+              className="space-y-2"
+              aria-label="対応状況"
+            >
+              {DISPOSITION_OPTIONS.map((option) => (
+                <div
+                  key={option.value}
+                  className="flex items-start space-x-3 p-3 border rounded-lg bg-white hover:bg-gray-50"
+                >
+                  <RadioGroupItem
+                    value={option.value}
+                    id={`adjudication-disposition-${option.value}`}
+                    className="mt-1"
+                  />
+                  <div className="flex-1">
+                    <Label
+                      htmlFor={`adjudication-disposition-${option.value}`}
+                      className="font-medium cursor-pointer"
+                    >
+                      {option.label}
+                    </Label>
+                    <p className="text-sm text-gray-500">
+                      {option.description}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              キャンセル
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "保存中..." : "保存"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,14 @@
 "use client";
 
-import { useCallback, useMemo } from "react";
+import { useCallback, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useAction } from "next-safe-action/hooks";
 import { exportReviewResultsToCsvAction } from "../actions/exportReviewResultsToCsv";
+import { adjudicateReviewResultAction } from "../actions/adjudicateReviewResult";
+import {
+  signOffReviewTargetAction,
+  revokeReviewTargetSignOffAction,
+} from "../actions/signOffReviewTarget";
 import { showSuccess, showError, formatClientMessage } from "@/lib/client";
 import { extractServerErrorMessage } from "@/hooks";
 import {
@@ -17,12 +22,55 @@ import {
   Clock,
   HelpCircle,
   AlertTriangle,
+  FileText,
+  Gavel,
+  ShieldCheck,
+  ShieldOff,
+  Upload,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Breadcrumb } from "@/components/layout/Breadcrumb";
 import { useReviewResultsPolling } from "../hooks/useReviewResultsPolling";
+import {
+  ReviewAdjudicationDialog,
+  type ReviewAdjudicationFormData,
+  type ReviewDisposition,
+} from "./ReviewAdjudicationDialog";
+import {
+  ReviewRevisionComparisonPanel,
+  type ReviewRevisionData,
+} from "./ReviewRevisionComparisonPanel";
 import type { EvaluationCriterion } from "@/application/mastra";
 
+/**
+ * レビュー根拠データ（ファイル単位の参照箇所）
+ */
+interface ReviewEvidenceData {
+  fileName: string;
+  sectionNames: string[];
+  pageNumbers: number[];
+  lineRanges: { start: number; end: number }[];
+}
+
+/**
+ * レビュアー判定データ
+ */
+interface ReviewAdjudicationData {
+  evaluation: string | null;
+  comment: string | null;
+  disposition: ReviewDisposition;
+  reviewedByName: string | null;
+  reviewedAt: Date;
+}
+
+/**
+ * 承認情報データ
+ */
+interface ReviewSignOffData {
+  signedOffByName: string | null;
+  signedOffAt: Date;
+}
+
 /**
  * レビュー結果データ
  */
@@ -33,6 +81,14 @@ interface ReviewResultData {
   evaluation: string | null;
   comment: string | null;
   errorMessage: string | null;
+  /** AIが評価・コメントの根拠としたドキュメント上の参照箇所 */
+  evidence: ReviewEvidenceData[];
+  /** レビュアー判定（未判定の場合はnull） */
+  adjudication: ReviewAdjudicationData | null;
+  /** 最終評定（レビュアーの上書きがあればその値、なければAIの評定） */
+  finalEvaluation: string | null;
+  /** 最終コメント（レビュアーの上書きがあればその値、なければAIのコメント） */
+  finalComment: string | null;
   createdAt: Date;
 }
 
@@ -56,6 +112,10 @@ interface ReviewTargetData {
   status: string;
   reviewSettings: ReviewSettingsData | null;
   reviewResults: ReviewResultData[];
+  /** 承認情報（未承認の場合はnull） */
+  signOff: ReviewSignOffData | null;
+  /** 実行中のレビュータスクでのAI API自動リトライ回数 */
+  aiApiRetryCount?: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -70,6 +130,8 @@ interface ReviewResultsClientProps {
   reviewTarget: ReviewTargetData;
   /** リトライ可能かどうか */
   canRetry: boolean;
+  /** 同じレビュー対象のリビジョン一覧（リビジョン番号昇順） */
+  revisions?: ReviewRevisionData[];
 }
 
 /**
@@ -158,6 +220,41 @@ function getEvaluationBadgeStyle(evaluation: string | null): string {
   return "bg-blue-100 text-blue-800";
 }
 
+/**
+ * 対応状況に応じたバッジ設定を取得
+ */
+function getDispositionBadgeConfig(disposition: ReviewDisposition) {
+  switch (disposition) {
+    case "accepted":
+      return { label: "承認", className: "bg-green-50 text-green-700" };
+    case "disputed":
+      return { label: "異議あり", className: "bg-orange-50 text-orange-700" };
+    case "fixed":
+      return { label: "修正済み", className: "bg-blue-50 text-blue-700" };
+  }
+}
+
+/**
+ * レビュー根拠を表示用文字列に変換
+ * 例: "設計書.pdf - 第2章 概要 (p.3, p.4 / L10-20)"
+ */
+function formatEvidence(evidence: ReviewEvidenceData): string {
+  const sections =
+    evidence.sectionNames.length > 0
+      ? ` - ${evidence.sectionNames.join(", ")}`
+      : "";
+  const anchors = [
+    evidence.pageNumbers.map((page) => `p.${page}`).join(", "),
+    evidence.lineRanges
+      .map(({ start, end }) =>
+        start === end ? `L${start}` : `L${start}-${end}`,
+      )
+      .join(", "),
+  ].filter(Boolean);
+  const anchorText = anchors.length > 0 ? ` (${anchors.join(" / ")})` : "";
+  return `${evidence.fileName}${sections}${anchorText}`;
+}
+
 /**
  * レビュー結果クライアントコンポーネント
  */
@@ -169,6 +266,7 @@ export function ReviewResultsClient({
   targetId,
   reviewTarget,
   canRetry,
+  revisions = [],
 }: ReviewResultsClientProps) {
   const router = useRouter();
 
@@ -181,6 +279,26 @@ export function ReviewResultsClient({
   const isActionsDisabled =
     reviewTarget.status === "reviewing" || reviewTarget.status === "queued";
 
+  // 承認済みかどうか（承認済みの場合は判定・リトライ不可）
+  const isSignedOff = reviewTarget.signOff !== null;
+
+  // 判定中のレビュー結果
+  const [adjudicatingResult, setAdjudicatingResult] =
+    useState<ReviewResultData | null>(null);
+
+  // 評定の選択肢（レビュー実行時の評価基準）
+  const evaluationLabels = useMemo(
+    () =>
+      reviewTarget.reviewSettings?.evaluationCriteria?.map((c) => c.label) ??
+      [],
+    [reviewTarget.reviewSettings],
+  );
+
+  // 異議ありの項目数（残っている間は承認不可）
+  const disputedCount = reviewTarget.reviewResults.filter(
+    (r) => r.adjudication?.disposition === "disputed",
+  ).length;
+
   // ステータスバナー設定
   const bannerConfig = getStatusBannerConfig(reviewTarget.status);
   const StatusIcon = bannerConfig.icon;
@@ -243,6 +361,79 @@ export function ReviewResultsClient({
     },
   );
 
+  // レビュアー判定アクション
+  const { execute: executeAdjudicate, isExecuting: isAdjudicating } = useAction(
+    adjudicateReviewResultAction,
+    {
+      onSuccess: () => {
+        showSuccess(formatClientMessage("SUCCESS_REVIEW_RESULT_ADJUDICATED"));
+        setAdjudicatingResult(null);
+        router.refresh();
+      },
+      onError: ({ error: actionError }) => {
+        const message = extractServerErrorMessage(
+          actionError,
+          "判定の保存に失敗しました",
+        );
+        showError(message);
+      },
+    },
+  );
+
+  // 承認アクション
+  const { execute: executeSignOff, isExecuting: isSigningOff } = useAction(
+    signOffReviewTargetAction,
+    {
+      onSuccess: () => {
+        showSuccess(formatClientMessage("SUCCESS_REVIEW_TARGET_SIGNED_OFF"));
+        router.refresh();
+      },
+      onError: ({ error: actionError }) => {
+        const message = extractServerErrorMessage(
+          actionError,
+          "承認に失敗しました",
+        );
+        showError(message);
+      },
+    },
+  );
+
+  // 承認取消アクション
+  const { execute: executeRevokeSignOff, isExecuting: isRevokingSignOff } =
+    useAction(revokeReviewTargetSignOffAction, {
+      onSuccess: () => {
+        showSuccess(
+          formatClientMessage("SUCCESS_REVIEW_TARGET_SIGN_OFF_REVOKED"),
+        );
+        router.refresh();
+      },
+      onError: ({ error: actionError }) => {
+        const message = extractServerErrorMessage(
+          actionError,
+          "承認の取消に失敗しました",
+        );
+        showError(message);
+      },
+    });
+
+  // 判定保存ハンドラー
+  const handleAdjudicate = useCallback(
+    (data: ReviewAdjudicationFormData) => {
+      if (!adjudicatingResult) return;
+      executeAdjudicate({ reviewResultId: adjudicatingResult.id, ...data });
+    },
+    [adjudicatingResult, executeAdjudicate],
+  );
+
+  // 承認・承認取消ハンドラー
+  const handleToggleSignOff = useCallback(() => {
+    if (isSignedOff) {
+      executeRevokeSignOff({ reviewTargetId: targetId });
+    } else {
+      executeSignOff({ reviewTargetId: targetId });
+    }
+  }, [isSignedOff, targetId, executeSignOff, executeRevokeSignOff]);
+
   // CSV出力ハンドラー
   const handleExportCsv = useCallback(() => {
     executeExportCsv({ reviewTargetId: targetId });
@@ -256,6 +447,16 @@ export function ReviewResultsClient({
     );
   }, [router, projectId, spaceId, targetId]);
 
+  // 新しいリビジョンのアップロードハンドラー
+  const handleUploadRevision = useCallback(() => {
+    router.push(
+      `/projects/${projectId}/spaces/${spaceId}/review/${targetId}/revision`,
+    );
+  }, [router, projectId, spaceId, targetId]);
+
+  // 表示中のリビジョン番号
+  const currentRevision = revisions.find((r) => r.id === targetId)?.revision;
+
   // Q&Aハンドラー（今後実装）
   const handleQA = useCallback(() => {
     // TODO: Q&A機能を実装
@@ -283,8 +484,21 @@ export function ReviewResultsClient({
         <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mb-6">
           <h2 className="text-xl font-bold text-gray-900">
             {reviewTarget.name}
+            {currentRevision !== undefined && revisions.length > 1 && (
+              <span className="ml-2 align-middle px-2 py-0.5 text-xs font-medium rounded bg-blue-100 text-blue-800">
+                Rev.{currentRevision}
+              </span>
+            )}
           </h2>
           <div className="flex flex-col sm:flex-row gap-3">
+            <Button
+              variant="outline"
+              onClick={handleUploadRevision}
+              className="flex items-center gap-2"
+            >
+              <Upload className="w-4 h-4" />
+              新しいリビジョン
+            </Button>
             <Button
               variant="outline"
               onClick={handleQA}
@@ -297,9 +511,15 @@ export function ReviewResultsClient({
             <Button
               variant="outline"
               onClick={handleRetry}
-              disabled={isActionsDisabled || !canRetry}
+              disabled={isActionsDisabled || !canRetry || isSignedOff}
               className="flex items-center gap-2"
-              title={!canRetry ? "リトライに必要な情報がありません" : undefined}
+              title={
+                isSignedOff
+                  ? "承認済みのためリトライできません"
+                  : !canRetry
+                    ? "リトライに必要な情報がありません"
+                    : undefined
+              }
             >
               <RefreshCw className="w-4 h-4" />
               リトライ
@@ -313,6 +533,34 @@ export function ReviewResultsClient({
               <Download className="w-4 h-4" />
               {isExporting ? "出力中..." : "CSV出力"}
             </Button>
+            <Button
+              variant={isSignedOff ? "outline" : "default"}
+              onClick={handleToggleSignOff}
+              disabled={
+                isSigningOff ||
+                isRevokingSignOff ||
+                (!isSignedOff &&
+                  (reviewTarget.status !== "completed" || disputedCount > 0))
+              }
+              className="flex items-center gap-2"
+              title={
+                !isSignedOff && disputedCount > 0
+                  ? "異議ありの項目が残っているため承認できません"
+                  : undefined
+              }
+            >
+              {isSignedOff ? (
+                <>
+                  <ShieldOff className="w-4 h-4" />
+                  承認取消
+                </>
+              ) : (
+                <>
+                  <ShieldCheck className="w-4 h-4" />
+                  承認
+                </>
+              )}
+            </Button>
           </div>
         </div>
 
@@ -346,6 +594,16 @@ export function ReviewResultsClient({
                       {bannerConfig.message}
                     </p>
                   )}
+                  {isActionsDisabled &&
+                    (reviewTarget.aiApiRetryCount ?? 0) > 0 && (
+                      <p
+                        className={`mt-1 text-xs ${bannerConfig.textColor.replace("800", "700")}`}
+                      >
+                        AI
+                        APIの一時的なエラーのため自動で再試行しています（再試行回数:{" "}
+                        {reviewTarget.aiApiRetryCount}回）
+                      </p>
+                    )}
                   {reviewTarget.status === "completed" && (
                     <p
                       className={`mt-1 text-sm ${bannerConfig.textColor.replace("800", "700")}`}
@@ -353,12 +611,29 @@ export function ReviewResultsClient({
                       レビュー完了日時: {formatDate(reviewTarget.updatedAt)}
                     </p>
                   )}
+                  {reviewTarget.signOff && (
+                    <p className="mt-1 text-sm font-medium text-green-700 flex items-center gap-1">
+                      <ShieldCheck className="w-4 h-4" />
+                      承認済み: {reviewTarget.signOff.signedOffByName ?? "-"}（
+                      {formatDate(reviewTarget.signOff.signedOffAt)}）
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
           </div>
         </div>
 
+        {/* Revisions */}
+        {revisions.length > 1 && (
+          <ReviewRevisionComparisonPanel
+            projectId={projectId}
+            spaceId={spaceId}
+            targetId={targetId}
+            revisions={revisions}
+          />
+        )}
+
         {/* Results Table */}
         <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
           <div className="overflow-x-auto">
@@ -389,13 +664,19 @@ export function ReviewResultsClient({
                   >
                     コメント
                   </th>
+                  <th
+                    scope="col"
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-40"
+                  >
+                    対応状況
+                  </th>
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {sortedResults.length === 0 ? (
                   <tr>
                     <td
-                      colSpan={4}
+                      colSpan={5}
                       className="px-6 py-8 text-center text-gray-500"
                     >
                       {reviewTarget.status === "reviewing" ? (
@@ -411,6 +692,11 @@ export function ReviewResultsClient({
                 ) : (
                   sortedResults.map((result, index) => {
                     const hasError = !!result.errorMessage;
+                    const adjudication = result.adjudication;
+                    const isEvaluationOverridden =
+                      adjudication?.evaluation != null &&
+                      adjudication.evaluation !== result.evaluation;
+                    const isCommentOverridden = adjudication?.comment != null;
 
                     return (
                       <tr
@@ -429,17 +715,22 @@ export function ReviewResultsClient({
                               <AlertTriangle className="w-4 h-4 mr-1" />
                               エラー
                             </span>
-                          ) : result.evaluation ? (
+                          ) : result.finalEvaluation ? (
                             <span
                               className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-bold ${getEvaluationBadgeStyle(
-                                result.evaluation,
+                                result.finalEvaluation,
                               )}`}
                             >
-                              {result.evaluation}
+                              {result.finalEvaluation}
                             </span>
                           ) : (
                             <span className="text-gray-400">-</span>
                           )}
+                          {isEvaluationOverridden && (
+                            <p className="mt-1 text-xs text-gray-500">
+                              AI: {result.evaluation ?? "-"}
+                            </p>
+                          )}
                         </td>
                         <td className="px-6 py-4 text-sm text-gray-700">
                           <div className="max-h-24 overflow-y-auto pr-2 scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-gray-100">
@@ -447,14 +738,76 @@ export function ReviewResultsClient({
                               <span className="text-red-600">
                                 {result.errorMessage}
                               </span>
-                            ) : result.comment ? (
+                            ) : result.finalComment ? (
                               <span className="whitespace-pre-wrap">
-                                {result.comment}
+                                {result.finalComment}
                               </span>
                             ) : (
                               <span className="text-gray-400">-</span>
                             )}
                           </div>
+                          {isCommentOverridden && result.comment && (
+                            <details className="mt-1 text-xs text-gray-500">
+                              <summary className="cursor-pointer">
+                                AIのコメント
+                              </summary>
+                              <p className="mt-1 whitespace-pre-wrap">
+                                {result.comment}
+                              </p>
+                            </details>
+                          )}
+                          {!hasError && result.evidence.length > 0 && (
+                            <ul
+                              className="mt-2 space-y-1 text-xs text-gray-500"
+                              aria-label="レビュー根拠"
+                            >
+                              {result.evidence.map((evidence) => (
+                                <li
+                                  key={evidence.fileName}
+                                  className="flex items-start gap-1"
+                                >
+                                  <FileText className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                                  <span>{formatEvidence(evidence)}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-700">
+                          {adjudication && (
+                            <div className="mb-2">
+                              <span
+                                className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+                                  getDispositionBadgeConfig(
+                                    adjudication.disposition,
+                                  ).className
+                                }`}
+                              >
+                                {
+                                  getDispositionBadgeConfig(
+                                    adjudication.disposition,
+                                  ).label
+                                }
+                              </span>
+                              <p className="mt-1 text-xs text-gray-500">
+                                {adjudication.reviewedByName ?? "-"}
+                                <br />
+                                {formatDate(adjudication.reviewedAt)}
+                              </p>
+                            </div>
+                          )}
+                          {!hasError && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setAdjudicatingResult(result)}
+                              disabled={isActionsDisabled || isSignedOff}
+                              className="flex items-center gap-1"
+                            >
+                              <Gavel className="w-4 h-4" />
+                              判定
+                            </Button>
+                          )}
                         </td>
                       </tr>
                     );
@@ -475,12 +828,43 @@ export function ReviewResultsClient({
               </p>
               <ul className="mt-2 text-sm text-gray-600 space-y-1 list-disc list-inside">
                 <li>「リトライ」で改善後に再度レビューを実行できます</li>
+                <li>
+                  「新しいリビジョン」で修正したドキュメントをアップロードし、前リビジョンとチェック項目ごとに比較できます
+                </li>
                 <li>「CSV出力」で結果をExcelなどで加工・共有できます</li>
                 <li>「Q&A」でレビュー結果について質問できます</li>
+                <li>「判定」でAIの評定・コメントを確認・修正できます</li>
+                <li>
+                  全項目の確認後「承認」でレビュー結果を確定できます（異議ありの項目が残っている間は承認できません）
+                </li>
               </ul>
             </div>
           </div>
         </div>
+
+        {adjudicatingResult && (
+          <ReviewAdjudicationDialog
+            key={adjudicatingResult.id}
+            open
+            onOpenChange={(open) => {
+              if (!open) setAdjudicatingResult(null);
+            }}
+            onSubmit={handleAdjudicate}
+            isSubmitting={isAdjudicating}
+            checkListItemContent={adjudicatingResult.checkListItemContent}
+            aiEvaluation={adjudicatingResult.evaluation}
+            evaluationLabels={evaluationLabels}
+            initialValue={
+              adjudicatingResult.adjudication
+                ? {
+                    evaluation: adjudicatingResult.adjudication.evaluation,
+                    comment: adjudicatingResult.adjudication.comment,
+                    disposition: adjudicatingResult.adjudication.disposition,
+                  }
+                : null
+            }
+          />
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,295 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useAction } from "next-safe-action/hooks";
+import { ArrowRight, GitCompare, History, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type {
+  ReviewRevisionComparisonDto,
+  RevisionComparisonStatusValue,
+} from "@/domain/reviewResult";
+import { extractServerErrorMessage } from "@/hooks";
+import { showError } from "@/lib/client";
+import { diffText } from "@/lib/shared/textDiff";
+import { compareReviewTargetRevisionsAction } from "../actions/compareReviewTargetRevisions";
+
+/**
+ * リビジョンデータ
+ */
+export interface ReviewRevisionData {
+  id: string;
+  name: string;
+  revision: number;
+  status: string;
+  createdAt: Date;
+}
+
+interface ReviewRevisionComparisonPanelProps {
+  projectId: string;
+  spaceId: string;
+  /** 表示中のレビュー対象ID */
+  targetId: string;
+  /** 同じレビュー対象のリビジョン一覧（リビジョン番号昇順） */
+  revisions: ReviewRevisionData[];
+}
+
+/**
+ * 比較ステータスごとの表示設定
+ */
+const COMPARISON_STATUS_CONFIG: Record<
+  RevisionComparisonStatusValue,
+  { label: string; className: string }
+> = {
+  improved: { label: "改善", className: "bg-green-100 text-green-800" },
+  regressed: { label: "悪化", className: "bg-red-100 text-red-800" },
+  unchanged: { label: "変化なし", className: "bg-gray-100 text-gray-700" },
+  changed: { label: "変更", className: "bg-blue-100 text-blue-800" },
+  added: { label: "追加", className: "bg-purple-100 text-purple-800" },
+  removed: { label: "削除", className: "bg-gray-100 text-gray-500" },
+};
+
+/**
+ * コメントの差分を表示する
+ */
+function CommentDiff({
+  before,
+  after,
+}: {
+  before: string | null;
+  after: string | null;
+}) {
+  const segments = useMemo(
+    () => diffText(before ?? "", after ?? ""),
+    [before, after],
+  );
+
+  return (
+    <p className="whitespace-pre-wrap">
+      {segments.map((segment, index) =>
+        segment.type === "added" ? (
+          <ins key={index} className="bg-green-100 text-green-900 no-underline">
+            {segment.text}
+          </ins>
+        ) : segment.type === "removed" ? (
+          <del key={index} className="bg-red-100 text-red-900">
+            {segment.text}
+          </del>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ),
+      )}
+    </p>
+  );
+}
+
+/**
+ * リビジョン比較パネル
+ * 同じレビュー対象のリビジョンへの切り替えと、任意の2リビジョン間のチェック項目ごとの比較を行う
+ */
+export function ReviewRevisionComparisonPanel({
+  projectId,
+  spaceId,
+  targetId,
+  revisions,
+}: ReviewRevisionComparisonPanelProps) {
+  // 初期値は表示中のリビジョンとその直前のリビジョン
+  const currentIndex = revisions.findIndex((r) => r.id === targetId);
+  const [baseId, setBaseId] = useState(
+    revisions[Math.max(currentIndex - 1, 0)]?.id ?? "",
+  );
+  const [compareId, setCompareId] = useState(
+    revisions[Math.max(currentIndex, 1)]?.id ?? "",
+  );
+  const [comparison, setComparison] =
+    useState<ReviewRevisionComparisonDto | null>(null);
+
+  const { execute: compare, isExecuting: isComparing } = useAction(
+    compareReviewTargetRevisionsAction,
+    {
+      onSuccess: ({ data }) => {
+        if (data) {
+          setComparison(data.comparison);
+        }
+      },
+      onError: ({ error: actionError }) => {
+        showError(
+          extractServerErrorMessage(
+            actionError,
+            "リビジョンの比較に失敗しました",
+          ),
+        );
+      },
+    },
+  );
+
+  const revisionOptions = revisions.map((r) => (
+    <option key={r.id} value={r.id}>
+      リビジョン {r.revision}（{r.name}）
+    </option>
+  ));
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-4 mb-6">
+      <div className="flex items-start gap-3">
+        <History className="w-5 h-5 text-gray-400 mt-0.5 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-gray-900">リビジョン</p>
+          <ul className="mt-2 flex flex-wrap gap-2" aria-label="リビジョン一覧">
+            {revisions.map((r) =>
+              r.id === targetId ? (
+                <li
+                  key={r.id}
+                  className="px-2 py-0.5 text-xs rounded bg-blue-600 text-white"
+                  aria-current="page"
+                >
+                  Rev.{r.revision}
+                </li>
+              ) : (
+                <li key={r.id}>
+                  <Link
+                    href={`/projects/${projectId}/spaces/${spaceId}/review/${r.id}`}
+                    className="px-2 py-0.5 text-xs rounded bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  >
+                    Rev.{r.revision}
+                  </Link>
+                </li>
+              ),
+            )}
+          </ul>
+
+          <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-2">
+            <select
+              aria-label="比較元のリビジョン"
+              className="rounded-md border border-gray-300 px-3 py-1.5 text-sm"
+              value={baseId}
+              onChange={(e) => {
+                setBaseId(e.target.value);
+                setComparison(null);
+              }}
+            >
+              {revisionOptions}
+            </select>
+            <ArrowRight className="w-4 h-4 text-gray-400 hidden sm:block" />
+            <select
+              aria-label="比較先のリビジョン"
+              className="rounded-md border border-gray-300 px-3 py-1.5 text-sm"
+              value={compareId}
+              onChange={(e) => {
+                setCompareId(e.target.value);
+                setComparison(null);
+              }}
+            >
+              {revisionOptions}
+            </select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                compare({
+                  baseReviewTargetId: baseId,
+                  compareReviewTargetId: compareId,
+                })
+              }
+              disabled={isComparing || !baseId || baseId === compareId}
+              className="flex items-center gap-2"
+            >
+              {isComparing ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <GitCompare className="w-4 h-4" />
+              )}
+              比較
+            </Button>
+          </div>
+
+          {comparison && (
+            <div className="mt-4">
+              <div className="flex flex-wrap gap-2 mb-3">
+                {(
+                  Object.keys(
+                    COMPARISON_STATUS_CONFIG,
+                  ) as RevisionComparisonStatusValue[]
+                )
+                  .filter((status) => comparison.summary[status] > 0)
+                  .map((status) => (
+                    <span
+                      key={status}
+                      className={`px-2 py-0.5 text-xs rounded font-medium ${COMPARISON_STATUS_CONFIG[status].className}`}
+                    >
+                      {COMPARISON_STATUS_CONFIG[status].label}:{" "}
+                      {comparison.summary[status]}件
+                    </span>
+                  ))}
+              </div>
+              <div className="overflow-x-auto border border-gray-200 rounded">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 w-24">
+                        比較
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">
+                        チェック項目
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 w-28">
+                        評定
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">
+                        コメントの変更
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {comparison.items.length === 0 ? (
+                      <tr>
+                        <td
+                          colSpan={4}
+                          className="px-4 py-6 text-center text-gray-500"
+                        >
+                          比較できるレビュー結果がありません
+                        </td>
+                      </tr>
+                    ) : (
+                      comparison.items.map((item, index) => (
+                        <tr key={index}>
+                          <td className="px-4 py-2 whitespace-nowrap">
+                            <span
+                              className={`px-2 py-0.5 text-xs rounded font-medium ${COMPARISON_STATUS_CONFIG[item.status].className}`}
+                            >
+                              {COMPARISON_STATUS_CONFIG[item.status].label}
+                            </span>
+                          </td>
+                          <td className="px-4 py-2 text-gray-900">
+                            {item.checkListItemContent}
+                          </td>
+                          <td className="px-4 py-2 whitespace-nowrap font-bold text-gray-900">
+                            {item.baseEvaluation ?? "-"} →{" "}
+                            {item.compareEvaluation ?? "-"}
+                          </td>
+                          <td className="px-4 py-2 text-gray-700">
+                            {item.commentChanged ? (
+                              <CommentDiff
+                                before={item.baseComment}
+                                after={item.compareComment}
+                              />
+                            ) : item.status === "added" ||
+                              item.status === "removed" ? (
+                              <span className="text-gray-400">-</span>
+                            ) : (
+                              <span className="text-gray-400">変更なし</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -37,6 +37,21 @@ describe("ReviewResultsClient", () => {
     evaluation: string | null;
     comment: string | null;
     errorMessage: string | null;
+    evidence: Array<{
+      fileName: string;
+      sectionNames: string[];
+      pageNumbers: number[];
+      lineRanges: Array<{ start: number; end: number }>;
+    }>;
+    adjudication: {
+      evaluation: string | null;
+      comment: string | null;
+      disposition: "accepted" | "disputed" | "fixed";
+      reviewedByName: string | null;
+      reviewedAt: Date;
+    } | null;
+    finalEvaluation: string | null;
+    finalComment: string | null;
     createdAt: Date;
   }
 
@@ -54,6 +69,7 @@ describe("ReviewResultsClient", () => {
     status: string;
     reviewSettings: ReviewSettingsForTest | null;
     reviewResults: ReviewResultForTest[];
+    signOff: { signedOffByName: string | null; signedOffAt: Date } | null;
     createdAt: Date;
     updatedAt: Date;
   }
@@ -69,6 +85,7 @@ describe("ReviewResultsClient", () => {
       status: "completed",
       reviewSettings: null,
       reviewResults: [],
+      signOff: null,
       createdAt: now,
       updatedAt: now,
       ...overrides,
@@ -141,6 +158,10 @@ describe("ReviewResultsClient", () => {
               evaluation: "A",
               comment: "問題ありません",
               errorMessage: null,
+              evidence: [],
+              adjudication: null,
+              finalEvaluation: "A",
+              finalComment: "問題ありません",
               createdAt: new Date(),
             },
             {
@@ -149,6 +170,10 @@ describe("ReviewResultsClient", () => {
               evaluation: "B",
               comment: "一部改善が必要です",
               errorMessage: null,
+              evidence: [],
+              adjudication: null,
+              finalEvaluation: "B",
+              finalComment: "一部改善が必要です",
               createdAt: new Date(),
             },
           ],
@@ -168,6 +193,51 @@ describe("ReviewResultsClient", () => {
         expect(screen.getByText("一部改善が必要です")).toBeInTheDocument();
       });
 
+      it("レビュー根拠が参照箇所ごとに表示される", () => {
+        const reviewTarget = createReviewTarget({
+          status: "completed",
+          reviewResults: [
+            {
+              id: "result-1",
+              checkListItemContent: "目次が含まれているか",
+              evaluation: "A",
+              comment: "目次があります",
+              errorMessage: null,
+              evidence: [
+                {
+                  fileName: "設計書.pdf",
+                  sectionNames: ["目次"],
+                  pageNumbers: [1, 2],
+                  lineRanges: [],
+                },
+                {
+                  fileName: "main.ts",
+                  sectionNames: [],
+                  pageNumbers: [],
+                  lineRanges: [{ start: 10, end: 20 }],
+                },
+              ],
+              adjudication: null,
+              finalEvaluation: "A",
+              finalComment: "目次があります",
+              createdAt: new Date(),
+            },
+          ],
+        });
+
+        render(
+          <ReviewResultsClient {...baseProps} reviewTarget={reviewTarget} />,
+        );
+
+        expect(
+          screen.getByRole("list", { name: "レビュー根拠" }),
+        ).toBeInTheDocument();
+        expect(
+          screen.getByText("設計書.pdf - 目次 (p.1, p.2)"),
+        ).toBeInTheDocument();
+        expect(screen.getByText("main.ts (L10-20)")).toBeInTheDocument();
+      });
+
       it("空のレビュー結果の場合、適切なメッセージが表示される", () => {
         const reviewTarget = createReviewTarget({
           status: "completed",
@@ -206,6 +276,10 @@ describe("ReviewResultsClient", () => {
               evaluation: "A",
               comment: null,
               errorMessage: null,
+              evidence: [],
+              adjudication: null,
+              finalEvaluation: "A",
+              finalComment: null,
               createdAt: new Date(),
             },
             {
@@ -214,6 +288,10 @@ describe("ReviewResultsClient", () => {
               evaluation: "B",
               comment: null,
               errorMessage: null,
+              evidence: [],
+              adjudication: null,
+              finalEvaluation: "B",
+              finalComment: null,
               createdAt: new Date(),
             },
             {
@@ -222,6 +300,10 @@ describe("ReviewResultsClient", () => {
               evaluation: "C",
               comment: null,
               errorMessage: null,
+              evidence: [],
+              adjudication: null,
+              finalEvaluation: "C",
+              finalComment: null,
               createdAt: new Date(),
             },
           ],
@@ -253,6 +335,10 @@ describe("ReviewResultsClient", () => {
               evaluation: null,
               comment: null,
               errorMessage: "AI処理中にエラーが発生しました",
+              evidence: [],
+              adjudication: null,
+              finalEvaluation: null,
+              finalComment: null,
               createdAt: new Date(),
             },
           ],
@@ -284,6 +370,10 @@ describe("ReviewResultsClient", () => {
               evaluation: null,
               comment: null,
               errorMessage: "テストエラーメッセージ",
+              evidence: [],
+              adjudication: null,
+              finalEvaluation: null,
+              finalComment: null,
               createdAt: new Date(),
             },
           ],
@@ -517,6 +607,10 @@ describe("ReviewResultsClient", () => {
             evaluation: "A",
             comment: null,
             errorMessage: null,
+            evidence: [],
+            adjudication: null,
+            finalEvaluation: "A",
+            finalComment: null,
             createdAt: new Date(baseDate.getTime() + 2000),
           },
           {
@@ -525,6 +619,10 @@ describe("ReviewResultsClient", () => {
             evaluation: "A",
             comment: null,
             errorMessage: null,
+            evidence: [],
+            adjudication: null,
+            finalEvaluation: "A",
+            finalComment: null,
             createdAt: new Date(baseDate.getTime()),
           },
           {
@@ -533,6 +631,10 @@ describe("ReviewResultsClient", () => {
             evaluation: "A",
             comment: null,
             errorMessage: null,
+            evidence: [],
+            adjudication: null,
+            finalEvaluation: "A",
+            finalComment: null,
             createdAt: new Date(baseDate.getTime() + 1000),
           },
         ],
@@ -570,6 +672,10 @@ describe("ReviewResultsClient", () => {
             evaluation: null,
             comment: "コメントのみ",
             errorMessage: null,
+            evidence: [],
+            adjudication: null,
+            finalEvaluation: null,
+            finalComment: "コメントのみ",
             createdAt: new Date(),
           },
         ],
@@ -603,6 +709,10 @@ describe("ReviewResultsClient", () => {
             evaluation: "A",
             comment: null,
             errorMessage: null,
+            evidence: [],
+            adjudication: null,
+            finalEvaluation: "A",
+            finalComment: null,
             createdAt: new Date(),
           },
         ],
@@ -619,4 +729,140 @@ describe("ReviewResultsClient", () => {
       expect(commentCell.textContent).toBe("-");
     });
   });
+  describe("レビュアー判定と承認", () => {
+    const reviewedAt = new Date("2024-01-01T00:00:00Z");
+
+    it("評定が上書きされている場合、最終評定とAIの評定が表示される", () => {
+      const reviewTarget = createReviewTarget({
+        status: "completed",
+        reviewResults: [
+          {
+            id: "result-1",
+            checkListItemContent: "上書き項目",
+            evaluation: "A",
+            comment: "AIによる指摘",
+            errorMessage: null,
+            evidence: [],
+            adjudication: {
+              evaluation: "C",
+              comment: "レビュアーのコメント",
+              disposition: "fixed",
+              reviewedByName: "確認 太郎",
+              reviewedAt,
+            },
+            finalEvaluation: "C",
+            finalComment: "レビュアーのコメント",
+            createdAt: new Date(),
+          },
+        ],
+      });
+
+      render(
+        <ReviewResultsClient {...baseProps} reviewTarget={reviewTarget} />,
+      );
+
+      expect(screen.getByText("C")).toBeInTheDocument();
+      expect(screen.getByText("AI: A")).toBeInTheDocument();
+      expect(screen.getByText("レビュアーのコメント")).toBeInTheDocument();
+      expect(screen.getByText("AIによる指摘")).toBeInTheDocument();
+      expect(screen.getByText("修正済み")).toBeInTheDocument();
+      expect(screen.getByText(/確認 太郎/)).toBeInTheDocument();
+    });
+
+    it("異議ありの項目がある場合、承認ボタンが無効になる", () => {
+      const reviewTarget = createReviewTarget({
+        status: "completed",
+        reviewResults: [
+          {
+            id: "result-1",
+            checkListItemContent: "異議あり項目",
+            evaluation: "A",
+            comment: null,
+            errorMessage: null,
+            evidence: [],
+            adjudication: {
+              evaluation: null,
+              comment: null,
+              disposition: "disputed",
+              reviewedByName: null,
+              reviewedAt,
+            },
+            finalEvaluation: "A",
+            finalComment: null,
+            createdAt: new Date(),
+          },
+        ],
+      });
+
+      render(
+        <ReviewResultsClient {...baseProps} reviewTarget={reviewTarget} />,
+      );
+
+      expect(screen.getByText("異議あり")).toBeInTheDocument();
+      expect(screen.getByRole("button", { name: /^承認$/ })).toBeDisabled();
+    });
+
+    it("承認済みの場合、承認情報が表示され判定・リトライができない", () => {
+      const reviewTarget = createReviewTarget({
+        status: "completed",
+        reviewResults: [
+          {
+            id: "result-1",
+            checkListItemContent: "承認済み項目",
+            evaluation: "A",
+            comment: null,
+            errorMessage: null,
+            evidence: [],
+            adjudication: null,
+            finalEvaluation: "A",
+            finalComment: null,
+            createdAt: new Date(),
+          },
+        ],
+        signOff: { signedOffByName: "承認 花子", signedOffAt: reviewedAt },
+      });
+
+      render(
+        <ReviewResultsClient
+          {...baseProps}
+          reviewTarget={reviewTarget}
+          canRetry={true}
+        />,
+      );
+
+      expect(screen.getByText(/承認済み: 承認 花子/)).toBeInTheDocument();
+      expect(
+        screen.getByRole("button", { name: /承認取消/ }),
+      ).not.toBeDisabled();
+      expect(screen.getByRole("button", { name: /判定/ })).toBeDisabled();
+      expect(screen.getByRole("button", { name: /リトライ/ })).toBeDisabled();
+    });
+
+    it("レビュー完了後、未承認であれば判定ボタンが有効になる", () => {
+      const reviewTarget = createReviewTarget({
+        status: "completed",
+        reviewResults: [
+          {
+            id: "result-1",
+            checkListItemContent: "判定対象項目",
+            evaluation: "B",
+            comment: null,
+            errorMessage: null,
+            evidence: [],
+            adjudication: null,
+            finalEvaluation: "B",
+            finalComment: null,
+            createdAt: new Date(),
+          },
+        ],
+      });
+
+      render(
+        <ReviewResultsClient {...baseProps} reviewTarget={reviewTarget} />,
+      );
+
+      expect(screen.getByRole("button", { name: /判定/ })).not.toBeDisabled();
+      expect(screen.getByRole("button", { name: /^承認$/ })).not.toBeDisabled();
+    });
+  });
 });
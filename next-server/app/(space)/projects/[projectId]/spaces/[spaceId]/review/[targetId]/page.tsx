@@ -4,6 +4,7 @@ import { GetReviewSpaceService } from "@/application/reviewSpace";
 import {
   GetReviewTargetService,
   GetRetryInfoService,
+  ListReviewTargetRevisionsService,
 } from "@/application/reviewTarget";
 import {
   ProjectRepository,
@@ -13,6 +14,7 @@ import {
   ReviewResultRepository,
   CheckListItemRepository,
   ReviewDocumentCacheRepository,
+  AiTaskRepository,
 } from "@/infrastructure/adapter/db";
 import { getAuthenticatedUser } from "@/lib/server/auth";
 import { ReviewResultsClient } from "./components/ReviewResultsClient";
@@ -77,6 +79,8 @@ export default async function ReviewResultsPage({
     reviewResultRepository,
     reviewSpaceRepository,
     projectRepository,
+    userRepository,
+    new AiTaskRepository(),
   );
 
   let reviewTargetData;
@@ -111,6 +115,17 @@ export default async function ReviewResultsPage({
     canRetry = false;
   }
 
+  // 同じレビュー対象のリビジョン一覧を取得
+  const listRevisionsService = new ListReviewTargetRevisionsService(
+    reviewTargetRepository,
+    reviewSpaceRepository,
+    projectRepository,
+  );
+  const { revisions } = await listRevisionsService.execute({
+    reviewTargetId: targetId,
+    userId: authUser.userId,
+  });
+
   return (
     <ReviewResultsClient
       projectId={projectId}
@@ -120,6 +135,7 @@ export default async function ReviewResultsPage({
       targetId={targetId}
       reviewTarget={reviewTargetData}
       canRetry={canRetry}
+      revisions={revisions}
     />
   );
 }
@@ -8,7 +8,12 @@ import {
   ReviewTargetRepository,
   ReviewSpaceRepository,
   ProjectRepository,
+  SystemSettingRepository,
+  AiTaskRepository,
+  AiTaskFileMetadataRepository,
+  AiTokenUsageRepository,
 } from "@/infrastructure/adapter/db";
+import { AiTaskQueueService } from "@/application/aiTask";
 
 /**
  * Q&A実行アクションの入力スキーマ
@@ -18,10 +23,13 @@ const executeQaSchema = z.object({
   reviewTargetId: z.string().uuid(),
   /** 質問内容 */
   question: z.string().min(1, "質問を入力してください"),
-  /** 選択されたチェックリスト項目の内容（複数） */
-  checklistItemContents: z
-    .array(z.string().min(1))
-    .min(1, "チェック項目を選択してください"),
+  /**
+   * 選択されたチェックリスト項目の内容（複数）
+   * スレッドへの追加の質問では未選択でもよい（直前の質問の項目を引き継ぐ）ため、必須チェックはサービスで行う
+   */
+  checklistItemContents: z.array(z.string().min(1)),
+  /** 続けて質問するスレッドのID（新しいスレッドを開始する場合は未指定） */
+  threadId: z.string().uuid().optional(),
 });
 
 /**
@@ -31,16 +39,23 @@ const executeQaSchema = z.object({
 export const executeQaAction = authenticatedAction
   .schema(executeQaSchema)
   .action(async ({ parsedInput, ctx }) => {
-    const { reviewTargetId, question, checklistItemContents } = parsedInput;
+    const { reviewTargetId, question, checklistItemContents, threadId } =
+      parsedInput;
 
     // サービスを初期化
-    // 注意: ExecuteQaServiceはQ&A履歴の作成のみを行う
-    // ワークフローの実行はSSE接続確立後にStartQaWorkflowServiceが行う
+    // 注意: ExecuteQaServiceはQ&A履歴の作成とタスクのキュー登録のみを行う
+    // ワークフローの実行はAIタスクのワーカーが行い、進捗はSSEで購読する
     const executeQaService = new ExecuteQaService(
       new QaHistoryRepository(),
       new ReviewTargetRepository(),
       new ReviewSpaceRepository(),
       new ProjectRepository(),
+      new SystemSettingRepository(),
+      new AiTaskQueueService(
+        new AiTaskRepository(),
+        new AiTaskFileMetadataRepository(),
+      ),
+      new AiTokenUsageRepository(),
     );
 
     // Q&A実行（複数チェックリスト項目をJSON配列として渡す）
@@ -48,10 +63,14 @@ export const executeQaAction = authenticatedAction
       reviewTargetId,
       question,
       checklistItemContents,
+      threadId,
       userId: ctx.auth.userId,
+      employeeId: ctx.auth.employeeId,
     });
 
     return {
       qaHistoryId: result.qaHistoryId,
+      threadId: result.threadId,
+      checklistItemContents: result.checklistItemContents,
     };
   });
@@ -17,7 +17,7 @@ import {
   CommandItem,
   CommandList,
 } from "@/components/ui/command";
-import { Send, X, Check } from "lucide-react";
+import { Send, X, Check, CornerDownRight } from "lucide-react";
 import { showError } from "@/lib/client/toast";
 import { template } from "@/messages/ja/template";
 import { executeQaAction } from "../actions";
@@ -30,25 +30,42 @@ interface ChecklistItem {
   content: string;
 }
 
+/**
+ * 続けて質問する対象のスレッド
+ */
+interface ReplyTarget {
+  threadId: string;
+  /** スレッドの最初の質問 */
+  question: string;
+}
+
 interface QaInputFormProps {
   targetId: string;
   checklistItems: ChecklistItem[];
   onQaStart: (
     qaHistoryId: string,
+    threadId: string,
     question: string,
     checklistItemContents: string[],
   ) => void;
+  /** 続けて質問する対象のスレッド（nullの場合は新しいスレッドを開始） */
+  replyTo?: ReplyTarget | null;
+  /** 続けて質問するのをやめた時のコールバック */
+  onCancelReply?: () => void;
   disabled?: boolean;
 }
 
 /**
  * Q&A入力フォームコンポーネント
  * @メンション機能でチェックリスト項目を複数選択して質問する
+ * スレッドに続けて質問する場合、チェックリスト項目が未選択であれば直前の質問の項目を引き継ぐ
  */
 export function QaInputForm({
   targetId,
   checklistItems,
   onQaStart,
+  replyTo = null,
+  onCancelReply,
   disabled = false,
 }: QaInputFormProps) {
   // 入力テキスト
@@ -67,11 +84,13 @@ export function QaInputForm({
   // Q&A実行アクション
   const { execute: executeQa, isExecuting } = useAction(executeQaAction, {
     onSuccess: ({ data }) => {
-      if (data?.qaHistoryId && selectedItems.length > 0) {
+      if (data?.qaHistoryId) {
+        // 引き継いだチェックリスト項目を反映するためサーバーの結果を使用する
         onQaStart(
           data.qaHistoryId,
+          data.threadId,
           message,
-          selectedItems.map((item) => item.content),
+          data.checklistItemContents,
         );
         setMessage("");
         setSelectedItems([]);
@@ -199,8 +218,8 @@ export function QaInputForm({
     (e: React.FormEvent) => {
       e.preventDefault();
 
-      // チェックリストが選択されていない場合は警告
-      if (selectedItems.length === 0) {
+      // チェックリストが選択されていない場合は警告（続けて質問する場合は直前の質問から引き継ぐ）
+      if (selectedItems.length === 0 && !replyTo) {
         showError(template.QA_CHECKLIST_NOT_SELECTED);
         return;
       }
@@ -216,9 +235,10 @@ export function QaInputForm({
         reviewTargetId: targetId,
         question: message.trim(),
         checklistItemContents: selectedItems.map((item) => item.content),
+        threadId: replyTo?.threadId,
       });
     },
-    [selectedItems, message, executeQa, targetId],
+    [selectedItems, message, executeQa, targetId, replyTo],
   );
 
   // Enter キー送信（Shift+Enter で改行）
@@ -261,6 +281,14 @@ export function QaInputForm({
     }
   }, []);
 
+  // 続けて質問するスレッドが選択されたら入力欄にフォーカス
+  const replyThreadId = replyTo?.threadId;
+  useEffect(() => {
+    if (replyThreadId) {
+      textareaRef.current?.focus();
+    }
+  }, [replyThreadId]);
+
   // テキストエリアの自動リサイズ
   useEffect(() => {
     const textarea = textareaRef.current;
@@ -271,10 +299,29 @@ export function QaInputForm({
   }, [message]);
 
   const isSubmitDisabled =
-    disabled || isExecuting || !message.trim() || selectedItems.length === 0;
+    disabled ||
+    isExecuting ||
+    !message.trim() ||
+    (selectedItems.length === 0 && !replyTo);
 
   return (
     <div className="bg-gray-50 border border-gray-200 rounded-xl p-4">
+      {/* 続けて質問するスレッド */}
+      {replyTo && (
+        <div className="mb-3 flex items-center gap-2 text-sm text-purple-700">
+          <CornerDownRight className="h-4 w-4 flex-shrink-0" />
+          <span className="truncate">「{replyTo.question}」に続けて質問</span>
+          <button
+            type="button"
+            onClick={onCancelReply}
+            className="ml-auto flex-shrink-0 text-purple-500 hover:text-purple-900"
+            aria-label="続けて質問するのをやめる"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
       {/* 選択中のチェックリスト項目（複数表示） */}
       {selectedItems.length > 0 && (
         <div className="mb-3 max-h-24 overflow-y-auto">
@@ -315,7 +362,11 @@ export function QaInputForm({
                 onKeyDown={handleKeyDown}
                 onCompositionStart={handleCompositionStart}
                 onCompositionEnd={handleCompositionEnd}
-                placeholder={`質問を入力してください...\n@を入力するとチェック項目を選択できます（複数選択可）`}
+                placeholder={
+                  replyTo
+                    ? `続けて質問を入力してください...\n@でチェック項目を選択し直せます（未選択の場合は直前の質問の項目を引き継ぎます）`
+                    : `質問を入力してください...\n@を入力するとチェック項目を選択できます（複数選択可）`
+                }
                 disabled={disabled || isExecuting}
                 rows={2}
                 className="resize-none min-h-[60px] max-h-[150px]"
@@ -3,7 +3,7 @@
 import { useState, useCallback, useMemo, useRef, useEffect } from "react";
 import { Breadcrumb } from "@/components/layout/Breadcrumb";
 import { QaInputForm } from "./QaInputForm";
-import { QaHistoryList } from "./QaHistoryList";
+import { QaThreadList } from "./QaThreadList";
 
 /**
  * チェックリスト項目
@@ -22,6 +22,7 @@ interface QaHistoryData {
   userDisplayName: string;
   question: string;
   checklistItemContent: string;
+  threadId: string;
   answer: string | null;
   researchSummary: string | null;
   status: "pending" | "processing" | "completed" | "error";
@@ -47,6 +48,7 @@ interface QaPageClientProps {
 
 /**
  * Q&Aページクライアントコンポーネント
+ * Q&A履歴をスレッドごとに表示し、新しい質問またはスレッドへの追加の質問を受け付ける
  */
 export function QaPageClient({
   projectId,
@@ -72,10 +74,8 @@ export function QaPageClient({
         new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
     );
   });
-  // ストリーミング中の状態
-  const [currentQuestion, setCurrentQuestion] = useState<string | null>(null);
-  const [currentChecklistItemContents, setCurrentChecklistItemContents] =
-    useState<string[]>([]);
+  // 続けて質問する対象のスレッドID（nullの場合は新しいスレッドを開始）
+  const [replyThreadId, setReplyThreadId] = useState<string | null>(null);
 
   // 履歴リストの表示用（古い順 = 最新が下）
   const sortedHistories = useMemo(() => {
@@ -85,16 +85,26 @@ export function QaPageClient({
     );
   }, [histories]);
 
+  // 続けて質問する対象のスレッド（入力フォームに表示）
+  const replyTo = useMemo(() => {
+    if (!replyThreadId) return null;
+    const rootHistory = histories.find(
+      (history) => history.id === replyThreadId,
+    );
+    return rootHistory
+      ? { threadId: replyThreadId, question: rootHistory.question }
+      : null;
+  }, [histories, replyThreadId]);
+
   // Q&A実行開始時のハンドラー
   const handleQaStart = useCallback(
     (
       qaHistoryId: string,
+      threadId: string,
       question: string,
       checklistItemContents: string[],
     ) => {
       setActiveQaHistoryId(qaHistoryId);
-      setCurrentQuestion(question);
-      setCurrentChecklistItemContents(checklistItemContents);
       // 履歴リストに新規項目を末尾に追加（processing状態）
       // checklistItemContentはJSON配列として保存
       setHistories((prev) => [
@@ -105,6 +115,7 @@ export function QaPageClient({
           userDisplayName: currentUserDisplayName,
           question,
           checklistItemContent: JSON.stringify(checklistItemContents),
+          threadId,
           answer: null,
           researchSummary: null,
           status: "processing",
@@ -121,8 +132,6 @@ export function QaPageClient({
   const handleQaComplete = useCallback(
     (qaHistoryId: string, answer: string, researchSummary: string) => {
       setActiveQaHistoryId(null);
-      setCurrentQuestion(null);
-      setCurrentChecklistItemContents([]);
       // 履歴リストを更新
       setHistories((prev) =>
         prev.map((history) =>
@@ -145,8 +154,6 @@ export function QaPageClient({
   const handleQaError = useCallback(
     (qaHistoryId: string, errorMessage: string) => {
       setActiveQaHistoryId(null);
-      setCurrentQuestion(null);
-      setCurrentChecklistItemContents([]);
       // 履歴リストを更新
       setHistories((prev) =>
         prev.map((history) =>
@@ -167,6 +174,16 @@ export function QaPageClient({
   // 入力可能かどうか
   const isInputEnabled = activeQaHistoryId === null;
 
+  // スレッドに続けて質問する
+  const handleReply = useCallback((threadId: string) => {
+    setReplyThreadId(threadId);
+  }, []);
+
+  // 続けて質問するのをやめて新しいスレッドを開始する
+  const handleCancelReply = useCallback(() => {
+    setReplyThreadId(null);
+  }, []);
+
   // スクロールコンテナの参照
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
@@ -221,7 +238,7 @@ export function QaPageClient({
         <div className="mt-4">
           <h2 className="text-xl font-bold text-gray-900">Q&A</h2>
           <p className="text-sm text-gray-500 mt-1">
-            レビュー結果について質問できます。@でチェック項目を選択してください。
+            レビュー結果について質問できます。@でチェック項目を選択してください。回答後は「続けて質問」から会話を続けられます。
           </p>
         </div>
       </div>
@@ -231,13 +248,12 @@ export function QaPageClient({
         {/* Q&A履歴リスト（スクロール可能エリア） */}
         <div ref={scrollContainerRef} className="flex-1 overflow-y-auto px-6">
           <div className="max-w-5xl mx-auto w-full py-6">
-            {(sortedHistories.length > 0 || activeQaHistoryId) && (
-              <QaHistoryList
+            {sortedHistories.length > 0 && (
+              <QaThreadList
                 histories={sortedHistories}
-                activeQaHistoryId={activeQaHistoryId}
-                currentQuestion={currentQuestion}
-                currentChecklistItemContents={currentChecklistItemContents}
-                currentUserDisplayName={currentUserDisplayName}
+                replyThreadId={replyThreadId}
+                canReply={isInputEnabled}
+                onReply={handleReply}
                 onComplete={handleQaComplete}
                 onError={handleQaError}
                 onScrollToBottom={scrollToBottom}
@@ -270,6 +286,8 @@ export function QaPageClient({
               targetId={targetId}
               checklistItems={checklistItems}
               onQaStart={handleQaStart}
+              replyTo={replyTo}
+              onCancelReply={handleCancelReply}
               disabled={!isInputEnabled}
             />
           </div>
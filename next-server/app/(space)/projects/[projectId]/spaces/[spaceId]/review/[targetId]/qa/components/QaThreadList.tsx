@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -19,6 +19,7 @@ import {
   User,
   CheckCircle,
   Circle,
+  MessageSquarePlus,
 } from "lucide-react";
 import { useSseSubscription } from "@/lib/client/useSseSubscription";
 import type {
@@ -35,6 +36,7 @@ interface QaHistoryData {
   userDisplayName: string;
   question: string;
   checklistItemContent: string;
+  threadId: string;
   answer: string | null;
   researchSummary: string | null;
   status: "pending" | "processing" | "completed" | "error";
@@ -60,16 +62,24 @@ interface ResearchTaskState extends QaResearchTask {
   result?: string;
 }
 
-interface QaHistoryListProps {
+/**
+ * Q&Aスレッド（最初の質問と追加の質問）
+ */
+interface QaThread {
+  threadId: string;
+  /** スレッド内のQ&A履歴（古い順） */
+  turns: QaHistoryData[];
+}
+
+interface QaThreadListProps {
+  /** Q&A履歴（古い順） */
   histories: QaHistoryData[];
-  /** 現在処理中のQ&A履歴ID（ストリーミング中の場合） */
-  activeQaHistoryId?: string | null;
-  /** 処理中の質問 */
-  currentQuestion?: string | null;
-  /** 処理中のチェックリスト項目内容 */
-  currentChecklistItemContents?: string[];
-  /** 現在のユーザー表示名（ストリーミング中のQ&Aに表示） */
-  currentUserDisplayName?: string;
+  /** 続けて質問する対象として選択中のスレッドID */
+  replyThreadId?: string | null;
+  /** 続けて質問できるか（他のQ&Aの処理中は質問できない） */
+  canReply?: boolean;
+  /** 「続けて質問」選択時のコールバック */
+  onReply?: (threadId: string) => void;
   /** 完了時のコールバック */
   onComplete?: (
     qaHistoryId: string,
@@ -278,14 +288,8 @@ function QaHistoryItem({ history }: { history: QaHistoryData }) {
  */
 interface StreamingQaItemProps {
   qaHistoryId: string;
-  /** 質問テキスト（propsから渡す場合） */
-  question?: string;
-  /** チェックリスト項目内容（propsから渡す場合） */
-  checklistItemContents?: string[];
-  /** ユーザー表示名 */
-  userDisplayName?: string;
-  /** 履歴データ（処理中の既存履歴から表示する場合） */
-  historyData?: QaHistoryData;
+  /** 処理中の履歴データ */
+  historyData: QaHistoryData;
   onComplete: (
     qaHistoryId: string,
     answer: string,
@@ -297,23 +301,17 @@ interface StreamingQaItemProps {
 
 function StreamingQaItem({
   qaHistoryId,
-  question: questionProp,
-  checklistItemContents: checklistItemContentsProp,
-  userDisplayName: userDisplayNameProp,
   historyData,
   onComplete,
   onError,
   onScrollToBottom,
 }: StreamingQaItemProps) {
-  // propsまたは履歴データから質問とチェックリスト項目を取得
-  const question = questionProp ?? historyData?.question ?? "";
-  const checklistItemContents =
-    checklistItemContentsProp ??
-    (historyData
-      ? parseChecklistItemContents(historyData.checklistItemContent)
-      : []);
-  const userDisplayName =
-    userDisplayNameProp ?? historyData?.userDisplayName ?? "";
+  // 履歴データから質問とチェックリスト項目を取得
+  const question = historyData.question;
+  const checklistItemContents = parseChecklistItemContents(
+    historyData.checklistItemContent,
+  );
+  const userDisplayName = historyData.userDisplayName;
   // 調査タスクの状態
   const [researchTasks, setResearchTasks] = useState<ResearchTaskState[]>([]);
   // 回答テキスト（ストリーミング中）
@@ -347,8 +345,11 @@ function StreamingQaItem({
       switch (event.type) {
         case "workflow_start":
           // ワークフロー開始：準備中フェーズに遷移
+          // ワーカーの再実行時は最初からやり直すため、それまでの表示をリセット
           setPhase("preparing");
           setPreparingMessage(event.data.message);
+          setResearchTasks([]);
+          setAnswerText("");
           // スクロール
           setTimeout(onScrollToBottom, 100);
           break;
@@ -437,11 +438,19 @@ function StreamingQaItem({
   );
 
   // SSEエラーハンドラー
-  const handleSseError = useCallback(() => {
-    setPhase("error");
-    setErrorMessage("接続エラーが発生しました");
-    onError(qaHistoryId, "接続エラーが発生しました");
-  }, [qaHistoryId, onError]);
+  // 自動再接続される場合は、再接続後に続きのイベントが再送されるためエラーにしない
+  const handleSseError = useCallback(
+    (error: Event) => {
+      const eventSource = error.target as EventSource | null;
+      if (eventSource && eventSource.readyState !== EventSource.CLOSED) {
+        return;
+      }
+      setPhase("error");
+      setErrorMessage("接続エラーが発生しました");
+      onError(qaHistoryId, "接続エラーが発生しました");
+    },
+    [qaHistoryId, onError],
+  );
 
   // SSE接続時のハンドラー
   // 注: フェーズ遷移はworkflow_startイベントで行われるため、ここではスクロールのみ
@@ -618,82 +627,107 @@ function StreamingQaItem({
 }
 
 /**
- * Q&A履歴リストコンポーネント
- * 履歴は古い順（最新が下）で表示される
- * ストリーミング中のQ&Aも末尾に表示
+ * Q&A履歴をスレッドごとにまとめる
+ * スレッドは最後の質問の日時の古い順に並べる（最新のやり取りがあったスレッドが下）
+ */
+function groupByThread(histories: QaHistoryData[]): QaThread[] {
+  const threadMap = new Map<string, QaHistoryData[]>();
+  for (const history of histories) {
+    const turns = threadMap.get(history.threadId) ?? [];
+    turns.push(history);
+    threadMap.set(history.threadId, turns);
+  }
+
+  const lastCreatedAt = (thread: QaThread) =>
+    new Date(thread.turns[thread.turns.length - 1].createdAt).getTime();
+
+  return [...threadMap.entries()]
+    .map(([threadId, turns]) => ({ threadId, turns }))
+    .sort((a, b) => lastCreatedAt(a) - lastCreatedAt(b));
+}
+
+/**
+ * Q&Aスレッドリストコンポーネント
+ * スレッドごとに質問と回答をチャット形式で表示し、スレッドに続けて質問できる
+ * スレッド内・スレッド間とも古い順（最新が下）で表示される
  */
-export function QaHistoryList({
+export function QaThreadList({
   histories,
-  activeQaHistoryId,
-  currentQuestion,
-  currentChecklistItemContents,
-  currentUserDisplayName,
+  replyThreadId,
+  canReply = false,
+  onReply,
   onComplete,
   onError,
   onScrollToBottom,
-}: QaHistoryListProps) {
+}: QaThreadListProps) {
   // スクロール制御は親コンポーネント（QaPageClient）が管理
   // onScrollToBottomがない場合はno-opのコールバックを使用
   const scrollToBottom = useCallback(() => {
     onScrollToBottom?.();
   }, [onScrollToBottom]);
 
-  // ユーザーが自分で送信した新規Q&Aのストリーミング中かどうか
-  const isNewQaStreaming = !!(
-    activeQaHistoryId &&
-    currentQuestion &&
-    currentChecklistItemContents &&
-    currentChecklistItemContents.length > 0 &&
-    onComplete &&
-    onError
-  );
+  const threads = useMemo(() => groupByThread(histories), [histories]);
 
   // コールバックが設定されているか（ストリーミング対応可能か）
   const hasCallbacks = !!(onComplete && onError);
 
   // 何も表示するものがない場合
-  if (histories.length === 0 && !isNewQaStreaming) {
+  if (threads.length === 0) {
     return null;
   }
 
   return (
-    <div className="space-y-8 pb-6">
-      {histories.map((history) => {
-        // 現在のユーザーが送信したストリーミング中のQ&Aは後で別途レンダリングするのでスキップ
-        if (history.id === activeQaHistoryId && isNewQaStreaming) {
-          return null;
-        }
-
-        // 処理中の履歴はStreamingQaItemでレンダリング（リアルタイム更新を受信するため）
-        if (history.status === "processing" && hasCallbacks) {
-          return (
-            <StreamingQaItem
-              key={history.id}
-              qaHistoryId={history.id}
-              historyData={history}
-              onComplete={onComplete!}
-              onError={onError!}
-              onScrollToBottom={scrollToBottom}
-            />
-          );
-        }
-
-        // 完了/エラー/pending状態の履歴は静的なQaHistoryItemでレンダリング
-        return <QaHistoryItem key={history.id} history={history} />;
+    <div className="space-y-6 pb-6">
+      {threads.map((thread) => {
+        const isReplyTarget = thread.threadId === replyThreadId;
+        // 回答待ちの質問があるスレッドには続けて質問できない
+        const isInProgress = thread.turns.some(
+          (turn) => turn.status === "pending" || turn.status === "processing",
+        );
+
+        return (
+          <div
+            key={thread.threadId}
+            className={`rounded-xl border p-4 space-y-8 ${
+              isReplyTarget
+                ? "border-purple-300 ring-1 ring-purple-200"
+                : "border-gray-200"
+            }`}
+          >
+            {thread.turns.map((turn) =>
+              // 処理中の履歴はStreamingQaItemでレンダリング（リアルタイム更新を受信するため）
+              turn.status === "processing" && hasCallbacks ? (
+                <StreamingQaItem
+                  key={turn.id}
+                  qaHistoryId={turn.id}
+                  historyData={turn}
+                  onComplete={onComplete!}
+                  onError={onError!}
+                  onScrollToBottom={scrollToBottom}
+                />
+              ) : (
+                // 完了/エラー/pending状態の履歴は静的なQaHistoryItemでレンダリング
+                <QaHistoryItem key={turn.id} history={turn} />
+              ),
+            )}
+
+            {onReply && (
+              <div className="flex justify-start pl-11">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onReply(thread.threadId)}
+                  disabled={!canReply || isInProgress || isReplyTarget}
+                  className="text-purple-600 hover:text-purple-700 hover:bg-purple-50"
+                >
+                  <MessageSquarePlus className="h-4 w-4 mr-1" />
+                  {isReplyTarget ? "このスレッドに質問中" : "続けて質問"}
+                </Button>
+              </div>
+            )}
+          </div>
+        );
       })}
-      {/* 現在のユーザーが送信した新規Q&A（マップ内でスキップされたもの） */}
-      {isNewQaStreaming && (
-        <StreamingQaItem
-          key={`streaming-${activeQaHistoryId}`}
-          qaHistoryId={activeQaHistoryId!}
-          question={currentQuestion!}
-          checklistItemContents={currentChecklistItemContents!}
-          userDisplayName={currentUserDisplayName}
-          onComplete={onComplete!}
-          onError={onError!}
-          onScrollToBottom={scrollToBottom}
-        />
-      )}
     </div>
   );
 }
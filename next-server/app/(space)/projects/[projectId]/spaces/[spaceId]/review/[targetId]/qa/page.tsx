@@ -71,6 +71,7 @@ export default async function QaPage({ params }: QaPageProps) {
     reviewResultRepository,
     reviewSpaceRepository,
     projectRepository,
+    userRepository,
   );
 
   let reviewTargetData;
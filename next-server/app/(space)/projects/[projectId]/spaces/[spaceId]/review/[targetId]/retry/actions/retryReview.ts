@@ -4,6 +4,7 @@ import { z } from "zod";
 import { authenticatedAction } from "@/lib/server/baseAction";
 import { RetryReviewService } from "@/application/reviewTarget";
 import { AiTaskQueueService } from "@/application/aiTask";
+import { PublishWebhookEventService } from "@/application/webhook";
 import {
   ProjectRepository,
   ReviewSpaceRepository,
@@ -14,6 +15,9 @@ import {
   AiTaskRepository,
   AiTaskFileMetadataRepository,
   SystemSettingRepository,
+  WebhookRepository,
+  WebhookDeliveryRepository,
+  AiTokenUsageRepository,
 } from "@/infrastructure/adapter/db";
 
 /**
@@ -37,6 +41,16 @@ const retryReviewInputSchema = z.object({
           }),
         )
         .optional(),
+      chunking: z
+        .object({
+          strategy: z.enum(["characters", "tokens", "structure"]),
+          chunkSize: z.number().int().nullable(),
+          overlap: z.number().int().min(0),
+          maxPagesPerChunk: z.number().int().nullable(),
+          pageOverlap: z.number().int().min(0),
+        })
+        .partial()
+        .optional(),
     })
     .optional(),
 });
@@ -83,6 +97,12 @@ export const retryReviewAction = authenticatedAction
       reviewDocumentCacheRepository,
       systemSettingRepository,
       aiTaskQueueService,
+      new PublishWebhookEventService(
+        new WebhookRepository(),
+        new WebhookDeliveryRepository(),
+        reviewSpaceRepository,
+      ),
+      new AiTokenUsageRepository(),
     );
 
     const result = await service.execute({
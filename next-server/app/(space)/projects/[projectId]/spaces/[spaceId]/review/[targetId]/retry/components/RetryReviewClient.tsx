@@ -28,6 +28,8 @@ import {
 import {
   DEFAULT_EVALUATION_CRITERIA,
   DEFAULT_COMMENT_FORMAT,
+  DEFAULT_CHUNKING_SETTINGS,
+  type ChunkingSettingsDto,
 } from "@/domain/reviewSpace";
 import {
   showError,
@@ -66,6 +68,7 @@ interface RetryInfoData {
     concurrentReviewItems?: number;
     commentFormat: string | null;
     evaluationCriteria?: EvaluationCriterionItem[];
+    chunking?: ChunkingSettingsDto;
   } | null;
   failedItemCount: number;
   totalItemCount: number;
@@ -125,6 +128,9 @@ export function RetryReviewClient({
     evaluationCriteria:
       retryInfo.previousSettings?.evaluationCriteria ??
       DEFAULT_EVALUATION_CRITERIA,
+    chunking: retryInfo.previousSettings?.chunking ?? {
+      ...DEFAULT_CHUNKING_SETTINGS,
+    },
   });
 
   // リトライ実行アクション
@@ -186,6 +192,7 @@ export function RetryReviewClient({
         concurrentReviewItems: reviewSettings.concurrentReviewItems,
         commentFormat: reviewSettings.commentFormat || null,
         evaluationCriteria: reviewSettings.evaluationCriteria,
+        chunking: reviewSettings.chunking,
       },
     });
   }, [
@@ -77,6 +77,7 @@ export default async function RetryReviewPage({
     reviewResultRepository,
     reviewSpaceRepository,
     projectRepository,
+    userRepository,
   );
 
   let reviewTargetData;
@@ -0,0 +1,165 @@
+import { notFound } from "next/navigation";
+import { GetProjectService } from "@/application/project";
+import { GetReviewSpaceService } from "@/application/reviewSpace";
+import {
+  GetReviewTargetService,
+  ListReviewTargetRevisionsService,
+} from "@/application/reviewTarget";
+import {
+  ProjectRepository,
+  ReviewSpaceRepository,
+  ReviewSpacePluginRepository,
+  UserRepository,
+  ReviewTargetRepository,
+  ReviewResultRepository,
+  CheckListItemRepository,
+} from "@/infrastructure/adapter/db";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { getAuthenticatedUser } from "@/lib/server/auth";
+import { DocumentRenderer } from "@/infrastructure/adapter/documentRenderer";
+import { fileUploadConfig } from "@/lib/server/fileUploadConfig";
+import { ReviewExecutionClient } from "../../new/components/ReviewExecutionClient";
+
+export const dynamic = "force-dynamic";
+
+interface ReviewRevisionPageProps {
+  params: Promise<{ projectId: string; spaceId: string; targetId: string }>;
+}
+
+/**
+ * 新しいリビジョンのアップロードページ（サーバコンポーネント）
+ * 修正したドキュメントを既存のレビュー対象の新しいリビジョンとしてレビューする
+ */
+export default async function ReviewRevisionPage({
+  params,
+}: ReviewRevisionPageProps) {
+  const { projectId, spaceId, targetId } = await params;
+
+  // 認証チェック
+  const authUser = await getAuthenticatedUser();
+
+  // リポジトリの初期化
+  const userRepository = new UserRepository();
+  const projectRepository = new ProjectRepository();
+  const reviewSpaceRepository = new ReviewSpaceRepository();
+  const reviewTargetRepository = new ReviewTargetRepository();
+  const checkListItemRepository = new CheckListItemRepository();
+
+  // プロジェクト情報を取得
+  const getProjectService = new GetProjectService(
+    projectRepository,
+    userRepository,
+  );
+  const project = await getProjectService.execute({
+    projectId,
+    userId: authUser.userId,
+  });
+
+  if (!project) {
+    notFound();
+  }
+
+  // レビュースペース情報を取得
+  const getReviewSpaceService = new GetReviewSpaceService(
+    reviewSpaceRepository,
+    projectRepository,
+  );
+  const reviewSpace = await getReviewSpaceService.execute({
+    reviewSpaceId: spaceId,
+    userId: authUser.userId,
+  });
+
+  if (!reviewSpace) {
+    notFound();
+  }
+
+  // 前リビジョンのレビュー対象とリビジョン一覧を取得
+  const getReviewTargetService = new GetReviewTargetService(
+    reviewTargetRepository,
+    new ReviewResultRepository(),
+    reviewSpaceRepository,
+    projectRepository,
+    userRepository,
+  );
+  const listRevisionsService = new ListReviewTargetRevisionsService(
+    reviewTargetRepository,
+    reviewSpaceRepository,
+    projectRepository,
+  );
+
+  let reviewTargetData;
+  let revisions;
+  try {
+    reviewTargetData = await getReviewTargetService.execute({
+      reviewTargetId: targetId,
+      userId: authUser.userId,
+    });
+    ({ revisions } = await listRevisionsService.execute({
+      reviewTargetId: targetId,
+      userId: authUser.userId,
+    }));
+  } catch {
+    notFound();
+  }
+
+  if (reviewTargetData.reviewSpaceId !== spaceId) {
+    notFound();
+  }
+
+  // チェックリスト件数を取得
+  const reviewSpaceIdVo = ReviewSpaceId.reconstruct(spaceId);
+  const checklistCount =
+    await checkListItemRepository.countByReviewSpaceId(reviewSpaceIdVo);
+
+  // 有効なプラグインが対応する拡張子を取得（アップロード可能な形式に追加する）
+  const enabledPlugins =
+    await new ReviewSpacePluginRepository().findByReviewSpaceId(
+      reviewSpaceIdVo,
+      { enabledOnly: true },
+    );
+  const pluginExtensions = [
+    ...new Set(enabledPlugins.flatMap((plugin) => plugin.extensions)),
+  ];
+
+  // サーバー側で画像に変換できるファイル形式を取得
+  const serverRenderableFormats =
+    await new DocumentRenderer().getSupportedExtensions();
+
+  // 前リビジョンと比較できるよう、前リビジョンのレビュー設定を初期値にする
+  const spaceDefaults = reviewSpace.defaultReviewSettings;
+  const previousSettings = reviewTargetData.reviewSettings;
+  const defaultReviewSettings = previousSettings
+    ? {
+        additionalInstructions: previousSettings.additionalInstructions,
+        concurrentReviewItems:
+          previousSettings.concurrentReviewItems ??
+          spaceDefaults.concurrentReviewItems,
+        commentFormat:
+          previousSettings.commentFormat ?? spaceDefaults.commentFormat,
+        evaluationCriteria:
+          previousSettings.evaluationCriteria ??
+          spaceDefaults.evaluationCriteria,
+      }
+    : spaceDefaults;
+
+  const latestRevision = Math.max(...revisions.map((r) => r.revision));
+
+  return (
+    <ReviewExecutionClient
+      projectId={projectId}
+      projectName={project.name}
+      spaceId={spaceId}
+      spaceName={reviewSpace.name}
+      defaultReviewSettings={defaultReviewSettings}
+      checklistCount={checklistCount}
+      maxFileSize={fileUploadConfig.maxFileSizeBytes}
+      pluginExtensions={pluginExtensions}
+      serverRenderableFormats={serverRenderableFormats}
+      revisionOf={{
+        reviewTargetId: targetId,
+        name: reviewTargetData.name,
+        nextRevision: latestRevision + 1,
+      }}
+    />
+  );
+}
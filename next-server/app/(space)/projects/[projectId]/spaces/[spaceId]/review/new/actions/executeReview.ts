@@ -5,6 +5,7 @@ import { authenticatedAction } from "@/lib/server/baseAction";
 import { internalError, domainValidationError } from "@/lib/server/error";
 import { ExecuteReviewService } from "@/application/reviewTarget";
 import { AiTaskQueueService } from "@/application/aiTask";
+import { PublishWebhookEventService } from "@/application/webhook";
 import {
   rawUploadFileMetaSchema,
   type RawUploadFileMeta,
@@ -19,10 +20,14 @@ import {
   AiTaskRepository,
   AiTaskFileMetadataRepository,
   SystemSettingRepository,
+  WebhookRepository,
+  WebhookDeliveryRepository,
+  AiTokenUsageRepository,
 } from "@/infrastructure/adapter/db";
 import { CheckListItemRepository } from "@/infrastructure/adapter/db/drizzle/repository/CheckListItemRepository";
 import { ReviewTargetRepository } from "@/infrastructure/adapter/db";
 import { fileUploadConfig } from "@/lib/server/fileUploadConfig";
+import type { ChunkingSettingsDto } from "@/domain/reviewSpace";
 
 /**
  * FormDataメタデータアイテムのスキーマ
@@ -34,6 +39,10 @@ const formDataMetadataItemSchema = z.object({
   size: z.number(),
   processMode: z.enum(["text", "image"]),
   convertedImageCount: z.number().optional(),
+  /** サーバー側で画像に変換する際のオプション（画像モードで変換済み画像がない場合に使用） */
+  renderOptions: rawUploadFileMetaSchema.shape.renderOptions,
+  /** アーカイブを展開する際のオプション（アーカイブファイルの場合に使用） */
+  archiveOptions: rawUploadFileMetaSchema.shape.archiveOptions,
 });
 
 /**
@@ -51,6 +60,16 @@ const reviewSettingsSchema = z.object({
       }),
     )
     .optional(),
+  chunking: z
+    .object({
+      strategy: z.enum(["characters", "tokens", "structure"]),
+      chunkSize: z.number().int().nullable(),
+      overlap: z.number().int().min(0),
+      maxPagesPerChunk: z.number().int().nullable(),
+      pageOverlap: z.number().int().min(0),
+    })
+    .partial()
+    .optional(),
 });
 
 /**
@@ -74,14 +93,17 @@ async function parseFormData(formData: FormData): Promise<{
     concurrentReviewItems?: number;
     commentFormat?: string | null;
     evaluationCriteria?: EvaluationCriterion[];
+    chunking?: Partial<ChunkingSettingsDto>;
   };
   reviewType: ReviewType;
+  previousReviewTargetId?: string;
 }> {
   const reviewSpaceId = formData.get("reviewSpaceId");
   const name = formData.get("name");
   const reviewTypeValue = formData.get("reviewType");
   const metadataJson = formData.get("metadata");
   const reviewSettingsJson = formData.get("reviewSettings");
+  const previousReviewTargetIdValue = formData.get("previousReviewTargetId");
 
   // バリデーション
   if (typeof reviewSpaceId !== "string" || !reviewSpaceId) {
@@ -101,6 +123,18 @@ async function parseFormData(formData: FormData): Promise<{
     reviewType = reviewTypeValue;
   }
 
+  // 前リビジョンのレビュー対象ID（新しいリビジョンとしてアップロードする場合のみ）
+  let previousReviewTargetId: string | undefined;
+  if (
+    typeof previousReviewTargetIdValue === "string" &&
+    previousReviewTargetIdValue
+  ) {
+    if (!z.string().uuid().safeParse(previousReviewTargetIdValue).success) {
+      throw domainValidationError("VALIDATION_ERROR");
+    }
+    previousReviewTargetId = previousReviewTargetIdValue;
+  }
+
   if (typeof metadataJson !== "string" || !metadataJson) {
     throw domainValidationError("VALIDATION_ERROR");
   }
@@ -136,6 +170,7 @@ async function parseFormData(formData: FormData): Promise<{
         concurrentReviewItems?: number;
         commentFormat?: string | null;
         evaluationCriteria?: EvaluationCriterion[];
+        chunking?: Partial<ChunkingSettingsDto>;
       }
     | undefined;
 
@@ -156,8 +191,8 @@ async function parseFormData(formData: FormData): Promise<{
     // メタデータをバリデーション
     const metadata = formDataMetadataItemSchema.parse(metadataArray[i]);
 
-    // 画像モードかテキストモードかで処理を分岐
-    const isImageMode =
+    // 変換済み画像の有無で処理を分岐
+    const hasConvertedImages =
       metadata.processMode === "image" &&
       metadata.convertedImageCount &&
       metadata.convertedImageCount > 0;
@@ -165,7 +200,7 @@ async function parseFormData(formData: FormData): Promise<{
     let buffer: Buffer;
     const convertedImageBuffers: Buffer[] = [];
 
-    if (isImageMode) {
+    if (hasConvertedImages) {
       // 画像モード: 変換済み画像のみを取得（元ファイルは送信されない）
       for (let j = 0; j < metadata.convertedImageCount!; j++) {
         const imageFile = formData.get(`file_${i}_image_${j}`);
@@ -177,7 +212,8 @@ async function parseFormData(formData: FormData): Promise<{
       // 画像モードでは元ファイルバッファは空
       buffer = Buffer.alloc(0);
     } else {
-      // テキストモード: 元ファイルを取得
+      // テキストモード、または変換済み画像がない画像モード: 元ファイルを取得
+      // （変換済み画像がない画像モードのファイルはサーバー側で画像に変換する）
       const file = formData.get(`file_${i}`);
       if (!(file instanceof File)) {
         throw domainValidationError("VALIDATION_ERROR");
@@ -203,6 +239,9 @@ async function parseFormData(formData: FormData): Promise<{
       size: metadata.size,
       processMode: metadata.processMode,
       convertedImageCount: metadata.convertedImageCount,
+      renderOptions:
+        metadata.processMode === "image" ? metadata.renderOptions : undefined,
+      archiveOptions: metadata.archiveOptions,
     });
 
     files.push(rawFileMeta);
@@ -222,6 +261,7 @@ async function parseFormData(formData: FormData): Promise<{
     fileBuffers,
     reviewSettings,
     reviewType,
+    previousReviewTargetId,
   };
 }
 
@@ -240,6 +280,7 @@ export const executeReviewAction = authenticatedAction
       fileBuffers,
       reviewSettings,
       reviewType,
+      previousReviewTargetId,
     } = await parseFormData(parsedInput);
 
     // リポジトリの初期化
@@ -265,6 +306,12 @@ export const executeReviewAction = authenticatedAction
       projectRepository,
       systemSettingRepository,
       aiTaskQueueService,
+      new PublishWebhookEventService(
+        new WebhookRepository(),
+        new WebhookDeliveryRepository(),
+        reviewSpaceRepository,
+      ),
+      new AiTokenUsageRepository(),
     );
 
     const result = await service.execute({
@@ -276,6 +323,7 @@ export const executeReviewAction = authenticatedAction
       fileBuffers,
       reviewSettings,
       reviewType,
+      previousReviewTargetId,
     });
 
     // キュー登録完了を返す（非同期処理なのでレビュー結果は含まない）
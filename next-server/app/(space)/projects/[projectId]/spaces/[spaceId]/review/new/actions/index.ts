@@ -1 +1,2 @@
 export { executeReviewAction } from "./executeReview";
+export { previewDocumentChunksAction } from "./previewDocumentChunks";
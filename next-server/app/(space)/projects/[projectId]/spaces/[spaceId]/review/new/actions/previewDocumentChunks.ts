@@ -0,0 +1,174 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { internalError, domainValidationError } from "@/lib/server/error";
+import {
+  PreviewDocumentChunksService,
+  type PreviewDocumentFileCommand,
+} from "@/application/reviewTarget";
+import { rawUploadFileMetaSchema } from "@/application/mastra";
+import {
+  ProjectRepository,
+  ReviewSpaceRepository,
+  SystemSettingRepository,
+} from "@/infrastructure/adapter/db";
+import { FileTextExtractor } from "@/infrastructure/adapter/textExtractor";
+import { ArchiveExtractor } from "@/infrastructure/adapter/archive";
+import { fileUploadConfig } from "@/lib/server/fileUploadConfig";
+
+/**
+ * FormDataメタデータアイテムのスキーマ
+ * レビュー実行と同じメタデータを受け取り、プレビューに必要な項目のみ使用する
+ */
+const formDataMetadataItemSchema = z.object({
+  name: z.string(),
+  processMode: z.enum(["text", "image"]),
+  convertedImageCount: z.number().optional(),
+  /** アーカイブを展開する際のオプション（アーカイブファイルの場合に使用） */
+  archiveOptions: rawUploadFileMetaSchema.shape.archiveOptions,
+});
+
+/**
+ * レビュー設定のスキーマ（分割設定のみ使用）
+ */
+const reviewSettingsSchema = z.object({
+  chunking: z
+    .object({
+      strategy: z.enum(["characters", "tokens", "structure"]),
+      chunkSize: z.number().int().nullable(),
+      overlap: z.number().int().min(0),
+      maxPagesPerChunk: z.number().int().nullable(),
+      pageOverlap: z.number().int().min(0),
+    })
+    .partial()
+    .optional(),
+});
+
+/**
+ * プレビューの設定
+ */
+const previewConfig = {
+  /** 最大ファイル数（レビュー実行と同じ） */
+  maxFiles: 10,
+};
+
+/**
+ * FormDataからパラメータを抽出するヘルパー関数
+ * 画像モードのファイルは元ファイルを受け取らず、変換済み画像の枚数をページ数として扱う
+ */
+async function parseFormData(formData: FormData) {
+  const reviewSpaceId = formData.get("reviewSpaceId");
+  const metadataJson = formData.get("metadata");
+  const reviewSettingsJson = formData.get("reviewSettings");
+
+  if (typeof reviewSpaceId !== "string" || !reviewSpaceId) {
+    throw domainValidationError("VALIDATION_ERROR");
+  }
+
+  if (typeof metadataJson !== "string" || !metadataJson) {
+    throw domainValidationError("VALIDATION_ERROR");
+  }
+
+  // メタデータをパース
+  let metadataArray: unknown[];
+  try {
+    metadataArray = JSON.parse(metadataJson);
+  } catch {
+    throw domainValidationError("VALIDATION_ERROR");
+  }
+
+  if (!Array.isArray(metadataArray) || metadataArray.length === 0) {
+    throw internalError({
+      expose: true,
+      messageCode: "REVIEW_EXECUTION_NO_FILES",
+    });
+  }
+
+  if (metadataArray.length > previewConfig.maxFiles) {
+    throw internalError({
+      expose: true,
+      messageCode: "FILE_UPLOAD_TOO_MANY_FILES",
+      messageParams: { maxFiles: String(previewConfig.maxFiles) },
+    });
+  }
+
+  // 分割設定をパース
+  let chunking: z.infer<typeof reviewSettingsSchema>["chunking"];
+  if (typeof reviewSettingsJson === "string" && reviewSettingsJson) {
+    try {
+      chunking = reviewSettingsSchema.parse(
+        JSON.parse(reviewSettingsJson),
+      ).chunking;
+    } catch {
+      throw domainValidationError("VALIDATION_ERROR");
+    }
+  }
+
+  const files: PreviewDocumentFileCommand[] = [];
+  for (let i = 0; i < metadataArray.length; i++) {
+    const metadata = formDataMetadataItemSchema.parse(metadataArray[i]);
+
+    if (metadata.processMode === "image") {
+      files.push({
+        name: metadata.name,
+        processMode: "image",
+        buffer: null,
+        pageCount:
+          metadata.convertedImageCount && metadata.convertedImageCount > 0
+            ? metadata.convertedImageCount
+            : null,
+      });
+      continue;
+    }
+
+    const file = formData.get(`file_${i}`);
+    if (!(file instanceof File)) {
+      throw domainValidationError("VALIDATION_ERROR");
+    }
+
+    // ファイルサイズチェック
+    if (file.size > fileUploadConfig.maxFileSizeBytes) {
+      throw internalError({
+        expose: true,
+        messageCode: "CHECK_LIST_FILE_IMPORT_FILE_TOO_LARGE",
+        messageParams: { maxSize: String(fileUploadConfig.maxFileSizeMB) },
+      });
+    }
+
+    files.push({
+      name: metadata.name,
+      processMode: "text",
+      buffer: Buffer.from(await file.arrayBuffer()),
+      pageCount: null,
+      archiveOptions: metadata.archiveOptions,
+    });
+  }
+
+  return { reviewSpaceId, files, chunking };
+}
+
+/**
+ * ドキュメントの分割結果をプレビューするサーバーアクション
+ * 大量レビューの実行前に、現在の分割設定でドキュメントがどのように分割されるかを返す
+ */
+export const previewDocumentChunksAction = authenticatedAction
+  .schema(z.instanceof(FormData))
+  .action(async ({ parsedInput, ctx }) => {
+    const { reviewSpaceId, files, chunking } = await parseFormData(parsedInput);
+
+    const service = new PreviewDocumentChunksService(
+      new ReviewSpaceRepository(),
+      new ProjectRepository(),
+      new SystemSettingRepository(),
+      new FileTextExtractor(),
+      new ArchiveExtractor(),
+    );
+
+    return service.execute({
+      reviewSpaceId,
+      userId: ctx.auth.userId,
+      files,
+      chunking,
+    });
+  });
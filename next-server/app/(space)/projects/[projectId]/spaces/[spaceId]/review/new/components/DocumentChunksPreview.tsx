@@ -0,0 +1,71 @@
+"use client";
+
+import type { PreviewDocumentChunksResult } from "@/application/reviewTarget";
+import { CHUNKING_STRATEGY_LABELS } from "@/domain/reviewSpace";
+
+interface DocumentChunksPreviewProps {
+  result: PreviewDocumentChunksResult;
+}
+
+/**
+ * ドキュメント分割プレビューの結果表示コンポーネント
+ * ドキュメントごとのチャンク数と各チャンクの範囲・推定トークン数を表示する
+ */
+export function DocumentChunksPreview({ result }: DocumentChunksPreviewProps) {
+  const unit = result.strategy === "characters" ? "文字" : "トークン";
+
+  return (
+    <div className="mt-4 space-y-4 rounded-md border border-gray-200 bg-gray-50 p-4">
+      <div className="text-sm text-gray-700">
+        <p>
+          分割方式: {CHUNKING_STRATEGY_LABELS[result.strategy]} /
+          チャンクサイズ:{" "}
+          {result.chunkSize !== null
+            ? `${result.chunkSize.toLocaleString()}${unit}`
+            : "分割しない"}
+          {result.maxPagesPerChunk !== null &&
+            ` / 最大ページ数: ${result.maxPagesPerChunk}`}
+        </p>
+        <p className="text-xs text-gray-500">
+          モデル: {result.model}
+          {result.contextWindowTokens !== null
+            ? `（コンテキストウィンドウ: ${result.contextWindowTokens.toLocaleString()}トークン）`
+            : "（コンテキストウィンドウ未登録のため、自動の場合は事前に分割しません）"}
+        </p>
+      </div>
+
+      {result.documents.map((document) => (
+        <div key={document.fileName} className="space-y-2">
+          <p className="text-sm font-medium text-gray-900">
+            {document.fileName}
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              {document.processMode === "text"
+                ? `${document.totalChars?.toLocaleString()}文字・約${document.estimatedTokens?.toLocaleString()}トークン`
+                : document.pageCount !== null
+                  ? `${document.pageCount}ページ`
+                  : "ページ数はレビュー実行時に確定します"}
+              {document.chunks.length > 0 &&
+                ` → ${document.chunks.length}チャンク`}
+            </span>
+          </p>
+          {document.chunks.length > 1 && (
+            <ul className="space-y-1 text-xs text-gray-600">
+              {document.chunks.map((chunk, index) => (
+                <li key={`${chunk.start}-${chunk.end}`} className="truncate">
+                  <span className="font-medium">#{index + 1}</span>{" "}
+                  {document.processMode === "text"
+                    ? `${chunk.start.toLocaleString()}〜${chunk.end.toLocaleString()}文字目（約${chunk.estimatedTokens?.toLocaleString()}トークン）`
+                    : `${chunk.start}〜${chunk.end}ページ`}
+                  {chunk.heading && ` ${chunk.heading}`}
+                  {!chunk.heading && chunk.excerpt && (
+                    <span className="text-gray-400"> {chunk.excerpt}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
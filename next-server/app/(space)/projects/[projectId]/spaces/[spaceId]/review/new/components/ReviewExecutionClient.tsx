@@ -11,14 +11,23 @@ import {
   Settings,
   ExternalLink,
   Link2,
+  Scissors,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
 import { FormSection } from "@/components/ui/form-section";
 import { Breadcrumb } from "@/components/layout/Breadcrumb";
-import { FileUploadArea, UploadedFile, isPdfFile } from "@/components/upload";
+import {
+  FileUploadArea,
+  UploadedFile,
+  RenderOptions,
+  isPdfFile,
+  applyImageConvertibleFormats,
+  SUPPORTED_FILE_EXTENSIONS,
+} from "@/components/upload";
 import {
   ReviewSettingsEditor,
   ReviewSettingsValue,
@@ -29,6 +38,8 @@ import {
 import {
   DEFAULT_EVALUATION_CRITERIA,
   DEFAULT_COMMENT_FORMAT,
+  DEFAULT_CHUNKING_SETTINGS,
+  type ChunkingSettingsDto,
 } from "@/domain/reviewSpace";
 import {
   convertPdfFileToFiles,
@@ -37,10 +48,18 @@ import {
   validateEvaluationCriteria,
   getMessage,
 } from "@/lib/client";
-import { executeReviewAction } from "../actions";
+import { isValidPageRange } from "@/lib/shared/pageRange";
+import {
+  ARCHIVE_EXTENSIONS,
+  SOURCE_CODE_EXTENSIONS,
+  isArchiveFileName,
+} from "@/lib/shared/sourceCode";
+import { executeReviewAction, previewDocumentChunksAction } from "../actions";
 import { extractServerErrorMessage } from "@/hooks";
 import { useApiReview } from "../hooks/useApiReview";
 import type { ExternalReviewDocument } from "@/types/shared/externalReviewApi";
+import type { PreviewDocumentChunksResult } from "@/application/reviewTarget";
+import { DocumentChunksPreview } from "./DocumentChunksPreview";
 
 interface ReviewExecutionClientProps {
   projectId: string;
@@ -53,11 +72,25 @@ interface ReviewExecutionClientProps {
     concurrentReviewItems: number;
     commentFormat: string;
     evaluationCriteria: EvaluationCriterionItem[];
+    chunking?: ChunkingSettingsDto;
   } | null;
   /** チェックリスト件数 */
   checklistCount: number;
   /** ファイルサイズ上限（バイト） */
   maxFileSize?: number;
+  /** 有効なプラグインが追加で受け付ける拡張子 */
+  pluginExtensions?: string[];
+  /** サーバー側で画像に変換できるファイル形式（Office文書は変換ツールがある場合のみ含まれる） */
+  serverRenderableFormats?: string[];
+  /** 新しいリビジョンとしてアップロードする場合の前リビジョン情報 */
+  revisionOf?: {
+    /** 前リビジョンのレビュー対象ID */
+    reviewTargetId: string;
+    /** 前リビジョンのレビュー対象名 */
+    name: string;
+    /** 登録されるリビジョン番号 */
+    nextRevision: number;
+  };
 }
 
 /**
@@ -70,8 +103,22 @@ interface FileMetadata {
   size: number;
   processMode: "text" | "image";
   convertedImageCount?: number;
+  renderOptions?: RenderOptions;
+  archiveOptions?: {
+    includePatterns: string[];
+    excludePatterns: string[];
+  };
 }
 
+/**
+ * 改行区切りのglobパターンを配列に変換する
+ */
+const splitPatterns = (value: string): string[] =>
+  value
+    .split("\n")
+    .map((pattern) => pattern.trim())
+    .filter(Boolean);
+
 /**
  * レビュー実行クライアントコンポーネント
  */
@@ -83,11 +130,14 @@ export function ReviewExecutionClient({
   defaultReviewSettings,
   checklistCount,
   maxFileSize,
+  pluginExtensions = [],
+  serverRenderableFormats = [".pdf"],
+  revisionOf,
 }: ReviewExecutionClientProps) {
   const router = useRouter();
 
-  // レビュー対象名
-  const [name, setName] = useState("");
+  // レビュー対象名（新しいリビジョンの場合は前リビジョンの名前を初期値にする）
+  const [name, setName] = useState(revisionOf?.name ?? "");
 
   // ファイル状態
   const [files, setFiles] = useState<UploadedFile[]>([]);
@@ -95,6 +145,49 @@ export function ReviewExecutionClient({
   // レビュー種別
   const [reviewType, setReviewType] = useState<ReviewTypeValue>("small");
 
+  // 受け付けるファイル形式（標準形式＋ソースコード＋プラグインが対応する拡張子）
+  // アーカイブはサーバー側で展開するため、外部APIレビューでは受け付けない
+  const acceptedFormats = useMemo(
+    () => [
+      ...new Set([
+        ...SUPPORTED_FILE_EXTENSIONS,
+        ...SOURCE_CODE_EXTENSIONS,
+        ...(reviewType === "api" ? [] : ARCHIVE_EXTENSIONS),
+        ...pluginExtensions,
+      ]),
+    ],
+    [reviewType, pluginExtensions],
+  );
+
+  // アーカイブから展開するファイルの対象・除外パターン（1行に1パターン）
+  const [includePatterns, setIncludePatterns] = useState("");
+  const [excludePatterns, setExcludePatterns] = useState("");
+  const hasArchive = files.some((f) => isArchiveFileName(f.name));
+
+  // 画像変換を選択できるファイル形式
+  // 外部APIレビューはブラウザで画像に変換するためPDFのみ、それ以外はサーバー側で変換できる形式
+  const getImageConvertibleFormats = useCallback(
+    (type: ReviewTypeValue) =>
+      type === "api" ? [".pdf"] : serverRenderableFormats,
+    [serverRenderableFormats],
+  );
+  const imageConvertibleFormats = useMemo(
+    () => getImageConvertibleFormats(reviewType),
+    [getImageConvertibleFormats, reviewType],
+  );
+
+  // レビュー種別の変更
+  // 画像変換できなくなったファイル（外部APIレビューでのOffice文書）は画像変換の選択を解除する
+  const handleReviewTypeChange = useCallback(
+    (type: ReviewTypeValue) => {
+      setReviewType(type);
+      setFiles((prev) =>
+        applyImageConvertibleFormats(prev, getImageConvertibleFormats(type)),
+      );
+    },
+    [getImageConvertibleFormats],
+  );
+
   // 外部APIエンドポイント（API呼び出しの場合のみ使用）
   const [apiEndpoint, setApiEndpoint] = useState("");
 
@@ -106,8 +199,15 @@ export function ReviewExecutionClient({
       defaultReviewSettings?.commentFormat ?? DEFAULT_COMMENT_FORMAT,
     evaluationCriteria:
       defaultReviewSettings?.evaluationCriteria ?? DEFAULT_EVALUATION_CRITERIA,
+    chunking: defaultReviewSettings?.chunking ?? {
+      ...DEFAULT_CHUNKING_SETTINGS,
+    },
   });
 
+  // ドキュメント分割プレビューの結果（大量レビューの場合のみ使用）
+  const [chunksPreview, setChunksPreview] =
+    useState<PreviewDocumentChunksResult | null>(null);
+
   // PDF変換中フラグ
   const [isConverting, setIsConverting] = useState(false);
 
@@ -139,6 +239,21 @@ export function ReviewExecutionClient({
     },
   );
 
+  // ドキュメント分割プレビューアクション
+  const { execute: previewDocumentChunks, isExecuting: isPreviewing } =
+    useAction(previewDocumentChunksAction, {
+      onSuccess: (result) => {
+        setChunksPreview(result.data ?? null);
+      },
+      onError: ({ error: actionError }) => {
+        const message = extractServerErrorMessage(
+          actionError,
+          "分割プレビューに失敗しました",
+        );
+        showError(message);
+      },
+    });
+
   // UI用の統合ローディングフラグ
   const isProcessing = isConverting || isExecuting || isApiExecuting;
 
@@ -149,7 +264,8 @@ export function ReviewExecutionClient({
     // 新規追加されたpending状態のファイルを即座にcomplete状態に変更
     const updatedFiles = newFiles.map((file) => {
       if (file.status === "pending") {
-        if (isPdfFile(file.file)) {
+        // 画像変換できるファイルは処理モードを実行時に決定する
+        if (file.willConvertToImage !== undefined) {
           return { ...file, status: "complete" as const };
         } else {
           return {
@@ -201,6 +317,20 @@ export function ReviewExecutionClient({
       .every((f) => f.willConvertToImage !== undefined);
     if (!allPdfReady) return false;
 
+    // 画像変換するファイルのページ範囲が正しいか（サーバー側で変換する場合のみ指定できる）
+    if (
+      reviewType !== "api" &&
+      files.some(
+        (f) =>
+          f.willConvertToImage === true &&
+          !isValidPageRange(f.renderOptions?.pageRange ?? ""),
+      )
+    )
+      return false;
+
+    // アーカイブはサーバー側で展開するため外部APIレビューでは使用できない
+    if (reviewType === "api" && hasArchive) return false;
+
     // チェックリストがあるか
     if (checklistCount === 0) return false;
 
@@ -215,6 +345,7 @@ export function ReviewExecutionClient({
   }, [
     name,
     files,
+    hasArchive,
     checklistCount,
     reviewSettings.evaluationCriteria,
     reviewType,
@@ -223,15 +354,23 @@ export function ReviewExecutionClient({
   ]);
 
   /**
-   * PDF画像変換を実行し、ファイルリストを更新
+   * 処理モードを確定し、ファイルリストを更新
+   * 通常のレビューはサーバー側で画像に変換するため元ファイルのまま送信する
+   * 外部APIレビューはブラウザでPDF画像変換を実行する
    */
   const processPdfFiles = async (
     currentFiles: UploadedFile[],
+    currentReviewType: ReviewTypeValue,
   ): Promise<UploadedFile[]> => {
     const result: UploadedFile[] = [];
 
     for (const file of currentFiles) {
-      if (isPdfFile(file.file) && file.willConvertToImage === true) {
+      if (file.willConvertToImage === true && currentReviewType !== "api") {
+        result.push({
+          ...file,
+          processMode: "image",
+        });
+      } else if (isPdfFile(file.file) && file.willConvertToImage === true) {
         const convertedImages = await convertPdfFileToFiles(file.file);
 
         result.push({
@@ -241,7 +380,7 @@ export function ReviewExecutionClient({
           convertedImages,
           willConvertToImage: false,
         });
-      } else if (isPdfFile(file.file) && file.willConvertToImage === false) {
+      } else if (file.willConvertToImage !== undefined) {
         result.push({
           ...file,
           processMode: "text",
@@ -263,6 +402,8 @@ export function ReviewExecutionClient({
     reviewName: string,
     settings: ReviewSettingsValue,
     type: ReviewTypeValue,
+    archiveOptions: NonNullable<FileMetadata["archiveOptions"]>,
+    previousReviewTargetId?: string,
   ): FormData => {
     const formData = new FormData();
 
@@ -270,6 +411,9 @@ export function ReviewExecutionClient({
     formData.append("reviewSpaceId", reviewSpaceId);
     formData.append("name", reviewName);
     formData.append("reviewType", type);
+    if (previousReviewTargetId) {
+      formData.append("previousReviewTargetId", previousReviewTargetId);
+    }
 
     // レビュー設定を追加
     formData.append(
@@ -279,6 +423,7 @@ export function ReviewExecutionClient({
         concurrentReviewItems: settings.concurrentReviewItems,
         commentFormat: settings.commentFormat || null,
         evaluationCriteria: settings.evaluationCriteria,
+        chunking: settings.chunking,
       }),
     );
 
@@ -296,12 +441,22 @@ export function ReviewExecutionClient({
 
       if (file.processMode === "image" && file.convertedImages) {
         fileMeta.convertedImageCount = file.convertedImages.length;
+      } else if (file.processMode === "image") {
+        // サーバー側で画像に変換する場合はページ範囲・解像度を指定する
+        fileMeta.renderOptions = {
+          pageRange: file.renderOptions?.pageRange?.trim() || undefined,
+          scale: file.renderOptions?.scale,
+        };
+      }
+
+      if (isArchiveFileName(file.name)) {
+        fileMeta.archiveOptions = archiveOptions;
       }
 
       metadata.push(fileMeta);
 
-      // 画像モードの場合は変換済み画像のみを送信（元ファイルは不要）
-      // テキストモードの場合は元ファイルのみを送信
+      // 画像変換済みの場合は変換済み画像のみを送信（元ファイルは不要）
+      // それ以外の場合は元ファイルのみを送信（画像モードはサーバー側で画像に変換する）
       if (
         file.processMode === "image" &&
         file.convertedImages &&
@@ -362,7 +517,7 @@ export function ReviewExecutionClient({
     setIsConverting(true);
 
     try {
-      const processedFiles = await processPdfFiles(files);
+      const processedFiles = await processPdfFiles(files, reviewType);
       setIsConverting(false);
 
       if (reviewType === "api") {
@@ -401,6 +556,11 @@ export function ReviewExecutionClient({
           name.trim(),
           reviewSettings,
           reviewType,
+          {
+            includePatterns: splitPatterns(includePatterns),
+            excludePatterns: splitPatterns(excludePatterns),
+          },
+          revisionOf?.reviewTargetId,
         );
 
         executeReview(formData);
@@ -420,13 +580,52 @@ export function ReviewExecutionClient({
     name,
     reviewSettings,
     reviewType,
+    includePatterns,
+    excludePatterns,
     apiEndpoint,
+    revisionOf,
     executeReview,
     executeApiReview,
     projectId,
     router,
   ]);
 
+  // 分割プレビュー（ファイル・分割設定の変更後は再実行する）
+  const handlePreviewChunks = useCallback(async () => {
+    if (files.length === 0) return;
+
+    try {
+      const processedFiles = await processPdfFiles(files, reviewType);
+      const formData = buildFormData(
+        processedFiles,
+        spaceId,
+        name.trim(),
+        reviewSettings,
+        reviewType,
+        {
+          includePatterns: splitPatterns(includePatterns),
+          excludePatterns: splitPatterns(excludePatterns),
+        },
+      );
+      previewDocumentChunks(formData);
+    } catch (error) {
+      showError(
+        error instanceof Error
+          ? error.message
+          : getMessage("ERROR_PDF_CONVERSION_FAILED"),
+      );
+    }
+  }, [
+    files,
+    spaceId,
+    name,
+    reviewSettings,
+    reviewType,
+    includePatterns,
+    excludePatterns,
+    previewDocumentChunks,
+  ]);
+
   // 外部APIレビューの進捗表示
   const progressPercentage = useMemo(() => {
     if (apiProgress.totalChunks === 0) return 0;
@@ -446,7 +645,15 @@ export function ReviewExecutionClient({
               label: spaceName,
               href: `/projects/${projectId}/spaces/${spaceId}`,
             },
-            { label: "新規レビュー" },
+            ...(revisionOf
+              ? [
+                  {
+                    label: revisionOf.name,
+                    href: `/projects/${projectId}/spaces/${spaceId}/review/${revisionOf.reviewTargetId}`,
+                  },
+                  { label: "新しいリビジョン" },
+                ]
+              : [{ label: "新規レビュー" }]),
           ]}
         />
 
@@ -457,7 +664,9 @@ export function ReviewExecutionClient({
             <div className="mb-8">
               <div className="flex items-center gap-3 mb-2">
                 <h3 className="text-2xl font-bold text-gray-900">
-                  レビューを実行
+                  {revisionOf
+                    ? `リビジョン ${revisionOf.nextRevision} をアップロード`
+                    : "レビューを実行"}
                 </h3>
                 <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
                   <PlayCircle className="w-3 h-3 mr-1" />
@@ -465,7 +674,9 @@ export function ReviewExecutionClient({
                 </span>
               </div>
               <p className="text-gray-600">
-                ドキュメントをアップロードして、チェックリストに基づいてAIがレビューを実行します
+                {revisionOf
+                  ? "修正したドキュメントをアップロードして、新しいリビジョンとしてレビューを実行します。前リビジョンのレビュー結果は保持され、結果画面で比較できます"
+                  : "ドキュメントをアップロードして、チェックリストに基づいてAIがレビューを実行します"}
               </p>
             </div>
 
@@ -531,19 +742,76 @@ export function ReviewExecutionClient({
                 enableMultiSelect={true}
                 disabled={isProcessing}
                 maxFileSize={maxFileSize}
+                acceptedFormats={acceptedFormats}
+                imageConvertibleFormats={imageConvertibleFormats}
+                showRenderOptions={reviewType !== "api"}
               />
               <p className="mt-2 text-sm text-gray-500">
-                PDFファイルは処理モードを選択できます。図表が多い場合は「画像変換」を推奨します（ただし、文字の認識精度は低下します）。
+                {imageConvertibleFormats.length > 1
+                  ? "PDF・Office文書"
+                  : "PDFファイル"}
+                は処理モードを選択できます。図表が多い場合は「画像変換」を推奨します（ただし、文字の認識精度は低下します）。
+                {reviewType !== "api" &&
+                  "ソースコードはZIP・tar形式のアーカイブでもアップロードできます。"}
               </p>
+              {hasArchive && reviewType !== "api" && (
+                <div className="mt-4 space-y-3 rounded-md border border-gray-200 bg-gray-50 p-4">
+                  <p className="text-sm text-gray-700">
+                    アーカイブは展開したファイルごとに個別にレビューし、結果を統合します（大量レビューで実行されます）。
+                  </p>
+                  <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+                    <div>
+                      <Label
+                        htmlFor="includePatterns"
+                        className="block text-sm font-medium text-gray-700 mb-1"
+                      >
+                        対象ファイル
+                      </Label>
+                      <Textarea
+                        id="includePatterns"
+                        value={includePatterns}
+                        onChange={(e) => setIncludePatterns(e.target.value)}
+                        placeholder={"例: src/**\n*.java"}
+                        rows={3}
+                        disabled={isProcessing}
+                      />
+                    </div>
+                    <div>
+                      <Label
+                        htmlFor="excludePatterns"
+                        className="block text-sm font-medium text-gray-700 mb-1"
+                      >
+                        除外ファイル
+                      </Label>
+                      <Textarea
+                        id="excludePatterns"
+                        value={excludePatterns}
+                        onChange={(e) => setExcludePatterns(e.target.value)}
+                        placeholder={"例: node_modules\n*.test.ts"}
+                        rows={3}
+                        disabled={isProcessing}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    1行に1つのglobパターンを指定します。対象ファイルが空欄の場合は、対応する形式の全ファイルが対象になります。
+                  </p>
+                </div>
+              )}
+              {hasArchive && reviewType === "api" && (
+                <p className="mt-2 text-sm text-red-600">
+                  外部APIレビューではアーカイブを使用できません。ファイルを削除するかレビュー種別を変更してください。
+                </p>
+              )}
             </FormSection>
 
             {/* Section 3: レビュー種別 */}
             <FormSection sectionNumber={3} title="レビュー種別">
               <ReviewTypeSelector
                 value={reviewType}
-                onChange={setReviewType}
+                onChange={handleReviewTypeChange}
                 disabled={isProcessing}
-                showApiOption={true}
+                showApiOption={!revisionOf}
               />
             </FormSection>
 
@@ -606,6 +874,33 @@ export function ReviewExecutionClient({
                 onChange={setReviewSettings}
                 disabled={isProcessing}
               />
+              {reviewType === "large" && (
+                <div className="mt-4">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={handlePreviewChunks}
+                    disabled={
+                      files.length === 0 || isProcessing || isPreviewing
+                    }
+                    className="flex items-center gap-2"
+                  >
+                    {isPreviewing ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Scissors className="w-4 h-4" />
+                    )}
+                    分割プレビュー
+                  </Button>
+                  <p className="mt-1 text-xs text-gray-500">
+                    現在の分割設定でドキュメントがどのように分割されるかを確認できます
+                  </p>
+                  {chunksPreview && (
+                    <DocumentChunksPreview result={chunksPreview} />
+                  )}
+                </div>
+              )}
             </FormSection>
 
             {/* 外部APIレビュー進捗表示 */}
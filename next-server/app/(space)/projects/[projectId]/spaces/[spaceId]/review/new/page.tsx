@@ -4,11 +4,13 @@ import { GetReviewSpaceService } from "@/application/reviewSpace";
 import {
   ProjectRepository,
   ReviewSpaceRepository,
+  ReviewSpacePluginRepository,
   UserRepository,
 } from "@/infrastructure/adapter/db";
 import { CheckListItemRepository } from "@/infrastructure/adapter/db/drizzle/repository/CheckListItemRepository";
 import { ReviewSpaceId } from "@/domain/reviewSpace";
 import { getAuthenticatedUser } from "@/lib/server/auth";
+import { DocumentRenderer } from "@/infrastructure/adapter/documentRenderer";
 import { fileUploadConfig } from "@/lib/server/fileUploadConfig";
 import { ReviewExecutionClient } from "./components/ReviewExecutionClient";
 
@@ -66,6 +68,20 @@ export default async function ReviewNewPage({ params }: ReviewNewPageProps) {
   const checklistCount =
     await checkListItemRepository.countByReviewSpaceId(reviewSpaceIdVo);
 
+  // 有効なプラグインが対応する拡張子を取得（アップロード可能な形式に追加する）
+  const enabledPlugins =
+    await new ReviewSpacePluginRepository().findByReviewSpaceId(
+      reviewSpaceIdVo,
+      { enabledOnly: true },
+    );
+  const pluginExtensions = [
+    ...new Set(enabledPlugins.flatMap((plugin) => plugin.extensions)),
+  ];
+
+  // サーバー側で画像に変換できるファイル形式を取得
+  const serverRenderableFormats =
+    await new DocumentRenderer().getSupportedExtensions();
+
   return (
     <ReviewExecutionClient
       projectId={projectId}
@@ -75,6 +91,8 @@ export default async function ReviewNewPage({ params }: ReviewNewPageProps) {
       defaultReviewSettings={reviewSpace.defaultReviewSettings}
       checklistCount={checklistCount}
       maxFileSize={fileUploadConfig.maxFileSizeBytes}
+      pluginExtensions={pluginExtensions}
+      serverRenderableFormats={serverRenderableFormats}
     />
   );
 }
@@ -0,0 +1,34 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { DeleteReviewSpacePluginService } from "@/application/reviewSpacePlugin";
+import {
+  ProjectRepository,
+  ReviewSpaceRepository,
+  ReviewSpacePluginRepository,
+} from "@/infrastructure/adapter/db";
+
+const deleteReviewSpacePluginSchema = z.object({
+  pluginId: z.string().uuid(),
+});
+
+/**
+ * プラグインを削除するアクション
+ */
+export const deleteReviewSpacePluginAction = authenticatedAction
+  .schema(deleteReviewSpacePluginSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new DeleteReviewSpacePluginService(
+      new ReviewSpacePluginRepository(),
+      new ReviewSpaceRepository(),
+      new ProjectRepository(),
+    );
+
+    await service.execute({
+      pluginId: parsedInput.pluginId,
+      userId: ctx.auth.userId,
+    });
+
+    return { success: true };
+  });
@@ -0,0 +1,4 @@
+export { uploadReviewSpacePluginAction } from "./uploadReviewSpacePlugin";
+export { listReviewSpacePluginsAction } from "./listReviewSpacePlugins";
+export { updateReviewSpacePluginAction } from "./updateReviewSpacePlugin";
+export { deleteReviewSpacePluginAction } from "./deleteReviewSpacePlugin";
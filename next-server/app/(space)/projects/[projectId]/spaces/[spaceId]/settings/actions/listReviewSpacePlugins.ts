@@ -0,0 +1,32 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { ListReviewSpacePluginsService } from "@/application/reviewSpacePlugin";
+import {
+  ProjectRepository,
+  ReviewSpaceRepository,
+  ReviewSpacePluginRepository,
+} from "@/infrastructure/adapter/db";
+
+const listReviewSpacePluginsSchema = z.object({
+  reviewSpaceId: z.string().uuid(),
+});
+
+/**
+ * レビュースペースのプラグイン一覧を取得するアクション
+ */
+export const listReviewSpacePluginsAction = authenticatedAction
+  .schema(listReviewSpacePluginsSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new ListReviewSpacePluginsService(
+      new ReviewSpacePluginRepository(),
+      new ReviewSpaceRepository(),
+      new ProjectRepository(),
+    );
+
+    return service.execute({
+      reviewSpaceId: parsedInput.reviewSpaceId,
+      userId: ctx.auth.userId,
+    });
+  });
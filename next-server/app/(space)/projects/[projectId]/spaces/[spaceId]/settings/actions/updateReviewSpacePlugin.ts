@@ -0,0 +1,36 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { UpdateReviewSpacePluginService } from "@/application/reviewSpacePlugin";
+import {
+  ProjectRepository,
+  ReviewSpaceRepository,
+  ReviewSpacePluginRepository,
+} from "@/infrastructure/adapter/db";
+
+const updateReviewSpacePluginSchema = z.object({
+  pluginId: z.string().uuid(),
+  isEnabled: z.boolean().optional(),
+  timeoutMs: z.number().int().min(100).max(60000).optional(),
+});
+
+/**
+ * プラグインの有効/無効・タイムアウトを更新するアクション
+ */
+export const updateReviewSpacePluginAction = authenticatedAction
+  .schema(updateReviewSpacePluginSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const service = new UpdateReviewSpacePluginService(
+      new ReviewSpacePluginRepository(),
+      new ReviewSpaceRepository(),
+      new ProjectRepository(),
+    );
+
+    return service.execute({
+      pluginId: parsedInput.pluginId,
+      userId: ctx.auth.userId,
+      isEnabled: parsedInput.isEnabled,
+      timeoutMs: parsedInput.timeoutMs,
+    });
+  });
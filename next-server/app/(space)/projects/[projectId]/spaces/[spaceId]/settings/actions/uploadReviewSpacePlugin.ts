@@ -0,0 +1,74 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { domainValidationError } from "@/lib/server/error";
+import { UploadReviewSpacePluginService } from "@/application/reviewSpacePlugin";
+import {
+  ProjectRepository,
+  ReviewSpaceRepository,
+  ReviewSpacePluginRepository,
+} from "@/infrastructure/adapter/db";
+import { WorkerThreadPluginSandbox } from "@/infrastructure/adapter/plugin";
+
+/**
+ * FormDataをパースするためのスキーマ
+ * FormDataは直接スキーマ検証できないため、パース済みのオブジェクトを検証する
+ */
+const uploadReviewSpacePluginSchema = z.object({
+  reviewSpaceId: z.string().uuid(),
+  /** スクリプト本文 */
+  script: z.string(),
+  /** ファイル名 */
+  fileName: z.string().min(1),
+});
+
+/**
+ * FormDataからパラメータを抽出するヘルパー関数
+ */
+async function parseFormData(formData: FormData) {
+  const reviewSpaceId = formData.get("reviewSpaceId");
+  const file = formData.get("file");
+
+  if (typeof reviewSpaceId !== "string") {
+    throw domainValidationError("VALIDATION_ERROR");
+  }
+
+  if (!(file instanceof File)) {
+    throw domainValidationError("VALIDATION_ERROR");
+  }
+
+  return {
+    reviewSpaceId,
+    script: await file.text(),
+    fileName: file.name,
+  };
+}
+
+/**
+ * プラグインを登録するアクション
+ * FormDataでJSファイルを受け取り、サンドボックスで読み込んで登録する
+ */
+export const uploadReviewSpacePluginAction = authenticatedAction
+  .schema(z.instanceof(FormData))
+  .action(async ({ parsedInput, ctx }) => {
+    // FormDataからパラメータを抽出
+    const params = await parseFormData(parsedInput);
+
+    // パラメータを検証
+    const validatedParams = uploadReviewSpacePluginSchema.parse(params);
+
+    const service = new UploadReviewSpacePluginService(
+      new ReviewSpacePluginRepository(),
+      new ReviewSpaceRepository(),
+      new ProjectRepository(),
+      new WorkerThreadPluginSandbox(),
+    );
+
+    return service.execute({
+      reviewSpaceId: validatedParams.reviewSpaceId,
+      userId: ctx.auth.userId,
+      fileName: validatedParams.fileName,
+      script: validatedParams.script,
+    });
+  });
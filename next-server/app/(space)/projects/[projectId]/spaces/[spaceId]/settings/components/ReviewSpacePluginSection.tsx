@@ -0,0 +1,274 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useAction } from "next-safe-action/hooks";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, Puzzle, Trash2, Upload } from "lucide-react";
+import type { ReviewSpacePluginDto } from "@/domain/reviewSpacePlugin";
+import { extractServerErrorMessage } from "@/hooks";
+import { showError, showSuccess, getMessage } from "@/lib/client";
+import {
+  uploadReviewSpacePluginAction,
+  updateReviewSpacePluginAction,
+  deleteReviewSpacePluginAction,
+} from "../actions";
+
+/**
+ * フックポイントの表示名
+ */
+const HOOK_POINT_LABELS: Record<string, string> = {
+  beforeExtraction: "テキスト抽出前",
+  afterExtraction: "テキスト抽出後",
+  beforePromptBuilding: "プロンプト構築前",
+  afterResults: "レビュー結果保存前",
+};
+
+interface Props {
+  spaceId: string;
+  initialPlugins: ReviewSpacePluginDto[];
+}
+
+/**
+ * レビュースペースプラグイン設定セクション
+ * プラグイン（JSファイル）の登録・有効化・タイムアウト設定・削除を担当
+ */
+export function ReviewSpacePluginSection({ spaceId, initialPlugins }: Props) {
+  const [plugins, setPlugins] =
+    useState<ReviewSpacePluginDto[]>(initialPlugins);
+  const [deleteTarget, setDeleteTarget] = useState<ReviewSpacePluginDto | null>(
+    null,
+  );
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const replacePlugin = (updated: ReviewSpacePluginDto) => {
+    setPlugins((prev) => prev.map((p) => (p.id === updated.id ? updated : p)));
+  };
+
+  const { execute: uploadPlugin, isPending: isUploading } = useAction(
+    uploadReviewSpacePluginAction,
+    {
+      onSuccess: ({ data }) => {
+        if (data) {
+          setPlugins((prev) => [...prev, data]);
+          showSuccess(getMessage("SUCCESS_PLUGIN_UPLOADED"));
+        }
+      },
+      onError: ({ error: actionError }) => {
+        showError(
+          extractServerErrorMessage(
+            actionError,
+            "プラグインの登録に失敗しました",
+          ),
+        );
+      },
+    },
+  );
+
+  const { execute: updatePlugin, isPending: isUpdating } = useAction(
+    updateReviewSpacePluginAction,
+    {
+      onSuccess: ({ data }) => {
+        if (data) {
+          replacePlugin(data);
+          showSuccess(getMessage("SUCCESS_PLUGIN_UPDATED"));
+        }
+      },
+      onError: ({ error: actionError }) => {
+        showError(
+          extractServerErrorMessage(
+            actionError,
+            "プラグインの更新に失敗しました",
+          ),
+        );
+      },
+    },
+  );
+
+  const { execute: deletePlugin, isPending: isDeleting } = useAction(
+    deleteReviewSpacePluginAction,
+    {
+      onSuccess: ({ input }) => {
+        setPlugins((prev) => prev.filter((p) => p.id !== input.pluginId));
+        setDeleteTarget(null);
+        showSuccess(getMessage("SUCCESS_PLUGIN_DELETED"));
+      },
+      onError: ({ error: actionError }) => {
+        setDeleteTarget(null);
+        showError(
+          extractServerErrorMessage(
+            actionError,
+            "プラグインの削除に失敗しました",
+          ),
+        );
+      },
+    },
+  );
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const formData = new FormData();
+    formData.append("reviewSpaceId", spaceId);
+    formData.append("file", file);
+    uploadPlugin(formData);
+  };
+
+  const handleTimeoutBlur = (
+    plugin: ReviewSpacePluginDto,
+    e: React.FocusEvent<HTMLInputElement>,
+  ) => {
+    const timeoutMs = Number(e.target.value);
+    if (!Number.isInteger(timeoutMs) || timeoutMs === plugin.timeoutMs) {
+      e.target.value = String(plugin.timeoutMs);
+      return;
+    }
+    updatePlugin({ pluginId: plugin.id, timeoutMs });
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 shadow-sm mb-6">
+      <div className="p-6 sm:p-8">
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">プラグイン</h3>
+            <p className="text-sm text-gray-600">
+              JavaScriptファイルを登録すると、レビュー実行時にドキュメントの前処理やレビュー結果の加工を行えます。登録順に実行されます。
+            </p>
+          </div>
+          <input
+            type="file"
+            ref={fileInputRef}
+            className="hidden"
+            accept=".js"
+            onChange={handleFileChange}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+          >
+            {isUploading ? (
+              <Loader2 className="animate-spin h-4 w-4 mr-2" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
+            プラグインを追加
+          </Button>
+        </div>
+
+        {plugins.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4 text-center">
+            登録されているプラグインはありません
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {plugins.map((plugin) => (
+              <li
+                key={plugin.id}
+                className="flex flex-col sm:flex-row sm:items-center gap-4 p-4"
+              >
+                <div className="flex items-start gap-3 flex-1 min-w-0">
+                  <Puzzle className="h-5 w-5 text-gray-400 mt-0.5 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">
+                      {plugin.name}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {plugin.hookPoints
+                        .map((hp) => HOOK_POINT_LABELS[hp] ?? hp)
+                        .join(" / ")}
+                    </p>
+                    {plugin.extensions.length > 0 && (
+                      <p className="text-xs text-gray-500">
+                        対象拡張子: {plugin.extensions.join(", ")}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-4">
+                  <label className="flex items-center gap-2 text-sm text-gray-600">
+                    タイムアウト
+                    <Input
+                      type="number"
+                      min={100}
+                      max={60000}
+                      step={100}
+                      defaultValue={plugin.timeoutMs}
+                      onBlur={(e) => handleTimeoutBlur(plugin, e)}
+                      disabled={isUpdating}
+                      className="w-24"
+                    />
+                    ms
+                  </label>
+                  <span className="text-sm text-gray-600">
+                    {plugin.isEnabled ? "有効" : "無効"}
+                  </span>
+                  <Switch
+                    checked={plugin.isEnabled}
+                    onCheckedChange={(checked) =>
+                      updatePlugin({ pluginId: plugin.id, isEnabled: checked })
+                    }
+                    disabled={isUpdating}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDeleteTarget(plugin)}
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* 削除確認ダイアログ */}
+      <AlertDialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>プラグインを削除しますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              「{deleteTarget?.name}」を削除します。この操作は取り消せません。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>
+              キャンセル
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                deleteTarget && deletePlugin({ pluginId: deleteTarget.id })
+              }
+              disabled={isDeleting}
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+            >
+              削除する
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
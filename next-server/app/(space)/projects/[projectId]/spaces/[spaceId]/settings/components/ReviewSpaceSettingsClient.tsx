@@ -14,16 +14,20 @@ import {
   DEFAULT_EVALUATION_CRITERIA,
   DEFAULT_CONCURRENT_REVIEW_ITEMS,
   DEFAULT_COMMENT_FORMAT,
+  DEFAULT_CHUNKING_SETTINGS,
 } from "@/domain/reviewSpace";
 import { ReviewSpaceForm, ReviewSpaceFormData } from "@/components/reviewSpace";
 import { useServerActionError } from "@/hooks";
 import { showSuccess, getMessage } from "@/lib/client";
 import { Loader2 } from "lucide-react";
+import type { ReviewSpacePluginDto } from "@/domain/reviewSpacePlugin";
+import { ReviewSpacePluginSection } from "./ReviewSpacePluginSection";
 
 interface Props {
   projectId: string;
   spaceId: string;
   initialReviewSpace: ReviewSpaceDto;
+  initialPlugins: ReviewSpacePluginDto[];
 }
 
 /**
@@ -34,6 +38,7 @@ export function ReviewSpaceSettingsClient({
   projectId,
   spaceId,
   initialReviewSpace,
+  initialPlugins,
 }: Props) {
   const router = useRouter();
   const [reviewSpace, setReviewSpace] =
@@ -82,6 +87,7 @@ export function ReviewSpaceSettingsClient({
         concurrentReviewItems: data.concurrentReviewItems,
         commentFormat: data.commentFormat,
         evaluationCriteria: data.evaluationCriteria,
+        chunking: data.chunking,
       },
     });
   };
@@ -108,6 +114,9 @@ export function ReviewSpaceSettingsClient({
       DEFAULT_COMMENT_FORMAT,
     evaluationCriteria: reviewSpace.defaultReviewSettings
       ?.evaluationCriteria ?? [...DEFAULT_EVALUATION_CRITERIA],
+    chunking: reviewSpace.defaultReviewSettings?.chunking ?? {
+      ...DEFAULT_CHUNKING_SETTINGS,
+    },
   };
 
   return (
@@ -163,6 +172,12 @@ export function ReviewSpaceSettingsClient({
           />
         </div>
 
+        {/* Plugins */}
+        <ReviewSpacePluginSection
+          spaceId={spaceId}
+          initialPlugins={initialPlugins}
+        />
+
         {/* Danger Zone */}
         <div className="bg-white rounded-lg border border-red-200 shadow-sm">
           <div className="p-6 sm:p-8">
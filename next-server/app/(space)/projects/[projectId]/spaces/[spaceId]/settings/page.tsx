@@ -1,8 +1,10 @@
 import Link from "next/link";
 import { GetReviewSpaceService } from "@/application/reviewSpace";
+import { ListReviewSpacePluginsService } from "@/application/reviewSpacePlugin";
 import {
   ProjectRepository,
   ReviewSpaceRepository,
+  ReviewSpacePluginRepository,
 } from "@/infrastructure/adapter/db";
 import { getAuthenticatedUser } from "@/lib/server/auth";
 import { ReviewSpaceSettingsClient } from "./components/ReviewSpaceSettingsClient";
@@ -34,18 +36,28 @@ export default async function ReviewSpaceSettingsPage({
     reviewSpaceRepository,
     projectRepository,
   );
+  const listReviewSpacePluginsService = new ListReviewSpacePluginsService(
+    new ReviewSpacePluginRepository(),
+    reviewSpaceRepository,
+    projectRepository,
+  );
 
   try {
     const reviewSpace = await getReviewSpaceService.execute({
       reviewSpaceId: spaceId,
       userId: authUser.userId,
     });
+    const plugins = await listReviewSpacePluginsService.execute({
+      reviewSpaceId: spaceId,
+      userId: authUser.userId,
+    });
 
     return (
       <ReviewSpaceSettingsClient
         projectId={projectId}
         spaceId={spaceId}
         initialReviewSpace={reviewSpace}
+        initialPlugins={plugins}
       />
     );
   } catch {
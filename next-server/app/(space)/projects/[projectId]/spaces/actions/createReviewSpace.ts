@@ -6,6 +6,8 @@ import { CreateReviewSpaceService } from "@/application/reviewSpace";
 import {
   ProjectRepository,
   ReviewSpaceRepository,
+  ChecklistTemplateRepository,
+  CheckListItemRepository,
 } from "@/infrastructure/adapter/db";
 
 /**
@@ -16,6 +18,17 @@ const evaluationItemSchema = z.object({
   description: z.string().min(1).max(200),
 });
 
+/**
+ * ドキュメント分割設定のスキーマ
+ */
+const chunkingSettingsSchema = z.object({
+  strategy: z.enum(["characters", "tokens", "structure"]),
+  chunkSize: z.number().int().nullable(),
+  overlap: z.number().int().min(0),
+  maxPagesPerChunk: z.number().int().nullable(),
+  pageOverlap: z.number().int().min(0),
+});
+
 /**
  * レビュー設定のスキーマ
  */
@@ -25,6 +38,7 @@ const reviewSettingsSchema = z
     concurrentReviewItems: z.number().min(1).max(100),
     commentFormat: z.string().min(1).max(2000),
     evaluationCriteria: z.array(evaluationItemSchema).min(1).max(10),
+    chunking: chunkingSettingsSchema.optional(),
   })
   .nullable()
   .optional();
@@ -34,6 +48,7 @@ const createReviewSpaceSchema = z.object({
   name: z.string().min(1).max(100),
   description: z.string().max(1000).optional().nullable(),
   defaultReviewSettings: reviewSettingsSchema,
+  checklistTemplateId: z.string().uuid().nullable().optional(),
 });
 
 /**
@@ -48,6 +63,8 @@ export const createReviewSpaceAction = authenticatedAction
     const service = new CreateReviewSpaceService(
       reviewSpaceRepository,
       projectRepository,
+      new ChecklistTemplateRepository(),
+      new CheckListItemRepository(),
     );
 
     return service.execute({
@@ -56,5 +73,6 @@ export const createReviewSpaceAction = authenticatedAction
       description: parsedInput.description,
       userId: ctx.auth.userId,
       defaultReviewSettings: parsedInput.defaultReviewSettings,
+      checklistTemplateId: parsedInput.checklistTemplateId,
     });
   });
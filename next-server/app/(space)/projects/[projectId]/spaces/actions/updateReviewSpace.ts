@@ -16,6 +16,17 @@ const evaluationItemSchema = z.object({
   description: z.string().min(1).max(200),
 });
 
+/**
+ * ドキュメント分割設定のスキーマ
+ */
+const chunkingSettingsSchema = z.object({
+  strategy: z.enum(["characters", "tokens", "structure"]),
+  chunkSize: z.number().int().nullable(),
+  overlap: z.number().int().min(0),
+  maxPagesPerChunk: z.number().int().nullable(),
+  pageOverlap: z.number().int().min(0),
+});
+
 /**
  * レビュー設定のスキーマ
  */
@@ -24,6 +35,7 @@ const reviewSettingsSchema = z.object({
   concurrentReviewItems: z.number().min(1).max(100),
   commentFormat: z.string().min(1).max(2000),
   evaluationCriteria: z.array(evaluationItemSchema).min(1).max(10),
+  chunking: chunkingSettingsSchema.optional(),
 });
 
 const updateReviewSpaceSchema = z.object({
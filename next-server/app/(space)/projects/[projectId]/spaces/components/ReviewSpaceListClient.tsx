@@ -9,6 +9,7 @@ import {
   Folder,
   AlertCircle,
   Settings,
+  BarChart3,
   Key,
   KeySquare,
 } from "lucide-react";
@@ -112,13 +113,22 @@ export function ReviewSpaceListClient({
             <h3 className="text-lg font-semibold text-gray-900">
               プロジェクト設定
             </h3>
-            <Link
-              href={`/projects/${projectId}/settings`}
-              className="text-sm text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
-            >
-              <Settings className="size-4" />
-              設定
-            </Link>
+            <div className="flex items-center gap-4">
+              <Link
+                href={`/projects/${projectId}/analytics`}
+                className="text-sm text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
+              >
+                <BarChart3 className="size-4" />
+                分析
+              </Link>
+              <Link
+                href={`/projects/${projectId}/settings`}
+                className="text-sm text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
+              >
+                <Settings className="size-4" />
+                設定
+              </Link>
+            </div>
           </div>
 
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
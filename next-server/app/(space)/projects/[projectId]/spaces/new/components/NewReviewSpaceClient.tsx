@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { AlertCircle } from "lucide-react";
 import { ReviewSpaceForm, ReviewSpaceFormData } from "@/components/reviewSpace";
@@ -7,10 +8,14 @@ import { Breadcrumb } from "@/components/layout/Breadcrumb";
 import { createReviewSpaceAction } from "../../actions";
 import { useAction } from "next-safe-action/hooks";
 import { useServerActionError } from "@/hooks";
+import { Label } from "@/components/ui/label";
+import type { ChecklistTemplateDto } from "@/domain/checklistTemplate";
 
 interface NewReviewSpaceClientProps {
   projectId: string;
   projectName: string;
+  /** プロジェクトで利用できるチェックリストテンプレート */
+  templates: ChecklistTemplateDto[];
 }
 
 /**
@@ -19,8 +24,10 @@ interface NewReviewSpaceClientProps {
 export function NewReviewSpaceClient({
   projectId,
   projectName,
+  templates,
 }: NewReviewSpaceClientProps) {
   const router = useRouter();
+  const [checklistTemplateId, setChecklistTemplateId] = useState("");
   const { error, handleError } = useServerActionError();
 
   const { execute, isPending } = useAction(createReviewSpaceAction, {
@@ -45,7 +52,9 @@ export function NewReviewSpaceClient({
         concurrentReviewItems: data.concurrentReviewItems,
         commentFormat: data.commentFormat,
         evaluationCriteria: data.evaluationCriteria,
+        chunking: data.chunking,
       },
+      checklistTemplateId: checklistTemplateId || null,
     });
   };
 
@@ -83,6 +92,30 @@ export function NewReviewSpaceClient({
         </div>
       )}
 
+      {/* チェックリストテンプレート */}
+      {templates.length > 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-6 space-y-2">
+          <Label htmlFor="checklist-template">チェックリストテンプレート</Label>
+          <select
+            id="checklist-template"
+            className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+            value={checklistTemplateId}
+            onChange={(e) => setChecklistTemplateId(e.target.value)}
+          >
+            <option value="">使用しない</option>
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}（v{template.latestVersion}
+                {template.projectId === null ? "・全社共通" : ""}）
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500">
+            選択したテンプレートの最新バージョンのチェック項目をコピーし、テンプレートにリンクします
+          </p>
+        </div>
+      )}
+
       {/* フォーム */}
       <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-6">
         <ReviewSpaceForm
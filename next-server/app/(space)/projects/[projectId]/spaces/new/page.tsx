@@ -1,6 +1,11 @@
 import { notFound } from "next/navigation";
 import { GetProjectService } from "@/application/project";
-import { ProjectRepository, UserRepository } from "@/infrastructure/adapter/db";
+import { ListChecklistTemplatesService } from "@/application/checklistTemplate";
+import {
+  ChecklistTemplateRepository,
+  ProjectRepository,
+  UserRepository,
+} from "@/infrastructure/adapter/db";
 import { getAuthenticatedUser } from "@/lib/server/auth";
 import { NewReviewSpaceClient } from "./components/NewReviewSpaceClient";
 
@@ -35,7 +40,21 @@ export default async function NewSpacePage({ params }: NewSpacePageProps) {
     notFound();
   }
 
+  // チェックリストのコピー元として選択できるテンプレートを取得
+  const listTemplatesService = new ListChecklistTemplatesService(
+    new ChecklistTemplateRepository(),
+    projectRepository,
+  );
+  const templates = await listTemplatesService.execute({
+    projectId,
+    userId: authUser.userId,
+  });
+
   return (
-    <NewReviewSpaceClient projectId={projectId} projectName={project.name} />
+    <NewReviewSpaceClient
+      projectId={projectId}
+      projectName={project.name}
+      templates={templates}
+    />
   );
 }
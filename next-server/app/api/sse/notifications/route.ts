@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/auth";
+import { InMemoryEventBroker } from "@/infrastructure/adapter/push/InMemoryEventBroker";
+import { NotificationRepository } from "@/infrastructure/adapter/db";
+import { ListNotificationsService } from "@/application/notification";
+import { getLogger } from "@/lib/server/logger";
+import {
+  NOTIFICATION_EVENT_TYPE,
+  type NotificationSseEvent,
+} from "@/application/shared/port/push/NotificationSseEventTypes";
+
+const logger = getLogger();
+
+/** 接続維持用コメントの送信間隔（ミリ秒） */
+const KEEPALIVE_INTERVAL_MS = 30000;
+
+/**
+ * 新着通知の確認間隔（ミリ秒）
+ * 別インスタンスのワーカーが作成した通知はこのストリームに直接配信されないため、DBから取得する
+ */
+const NOTIFICATION_POLL_INTERVAL_MS = 5000;
+
+/**
+ * 新着通知の取得範囲を遡る時間（ミリ秒）
+ * 通知の作成日時は作成したインスタンスの時刻のため、インスタンス間の時刻のずれを吸収する
+ */
+const NOTIFICATION_POLL_LOOKBACK_MS = 60000;
+
+/**
+ * 通知SSEストリームのGETハンドラー
+ * ログインユーザー宛の通知（長時間タスクの完了・失敗）をリアルタイムで配信する
+ * 同一インスタンスで作成された通知は即時に、別インスタンスで作成された通知はDBの定期確認で配信する
+ * 通知はDBに永続化されるため、切断中に作成された通知はリロード時の一覧取得で補完される
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  // 認証チェック
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const userId = session.user.id;
+
+  try {
+    // SSEストリームを作成
+    const encoder = new TextEncoder();
+    const eventBroker = InMemoryEventBroker.getInstance();
+    const listNotificationsService = new ListNotificationsService(
+      new NotificationRepository(),
+    );
+    const connectedAt = new Date();
+
+    const stream = new ReadableStream({
+      start(controller) {
+        // 送信済みの通知ID（即時配信とDBの定期確認の両方で届くため重複を除く）
+        const sentNotificationIds = new Set<string>();
+        let isClosed = false;
+
+        const send = (event: NotificationSseEvent) => {
+          if (isClosed || sentNotificationIds.has(event.data.id)) {
+            return;
+          }
+          sentNotificationIds.add(event.data.id);
+          const sseData = `data: ${JSON.stringify(event)}\n\n`;
+          controller.enqueue(encoder.encode(sseData));
+        };
+
+        // ユーザー宛の通知を購読
+        const subscriptionId = eventBroker.subscribe(
+          userId,
+          NOTIFICATION_EVENT_TYPE,
+          (data: unknown) => {
+            send(data as NotificationSseEvent);
+          },
+        );
+
+        // 別インスタンスで作成された通知を取得するため定期的にDBを確認
+        // 接続前に作成された通知は一覧取得で表示済みのため、接続以降に作成された通知のみ対象とする
+        const pollTimer = setInterval(() => {
+          const createdAfter = new Date(
+            Math.max(
+              connectedAt.getTime(),
+              Date.now() - NOTIFICATION_POLL_LOOKBACK_MS,
+            ),
+          );
+          listNotificationsService
+            .execute({ userId, createdAfter })
+            .then((result) => {
+              // 古い順に配信する
+              for (const notification of [...result.notifications].reverse()) {
+                send({ type: "notification", data: notification });
+              }
+            })
+            .catch((error) => {
+              logger.warn(
+                { err: error, userId },
+                "新着通知の取得に失敗しました",
+              );
+            });
+        }, NOTIFICATION_POLL_INTERVAL_MS);
+
+        logger.info(
+          { userId, subscriptionId },
+          "SSE subscription started for notifications",
+        );
+
+        // 接続確認用の初期イベントを送信
+        const connectedEvent = `data: ${JSON.stringify({ type: "connected" })}\n\n`;
+        controller.enqueue(encoder.encode(connectedEvent));
+
+        // プロキシ等によるアイドル切断を防ぐためコメント行を定期送信
+        const keepaliveTimer = setInterval(() => {
+          if (!isClosed) {
+            controller.enqueue(encoder.encode(": keepalive\n\n"));
+          }
+        }, KEEPALIVE_INTERVAL_MS);
+
+        // クライアントの切断検知
+        request.signal.addEventListener("abort", () => {
+          isClosed = true;
+          clearInterval(pollTimer);
+          clearInterval(keepaliveTimer);
+          eventBroker.unsubscribe(subscriptionId);
+          controller.close();
+          logger.info(
+            { userId, subscriptionId },
+            "SSE subscription ended for notifications",
+          );
+        });
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    logger.error(
+      { err: error, userId },
+      "Error creating SSE stream for notifications",
+    );
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -3,27 +3,46 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/auth";
 import { InMemoryEventBroker } from "@/infrastructure/adapter/push/InMemoryEventBroker";
 import { QaHistoryRepository } from "@/infrastructure/adapter/db/drizzle/repository/QaHistoryRepository";
+import { QaHistoryEventRepository } from "@/infrastructure/adapter/db/drizzle/repository/QaHistoryEventRepository";
 import { ReviewTargetRepository } from "@/infrastructure/adapter/db/drizzle/repository/ReviewTargetRepository";
 import { ReviewSpaceRepository } from "@/infrastructure/adapter/db/drizzle/repository/ReviewSpaceRepository";
 import { ProjectRepository } from "@/infrastructure/adapter/db/drizzle/repository/ProjectRepository";
-import { ReviewResultRepository } from "@/infrastructure/adapter/db/drizzle/repository/ReviewResultRepository";
-import { ReviewDocumentCacheRepository } from "@/infrastructure/adapter/db/drizzle/repository/ReviewDocumentCacheRepository";
-import { LargeDocumentResultCacheRepository } from "@/infrastructure/adapter/db/drizzle/repository/LargeDocumentResultCacheRepository";
-import { SystemSettingRepository } from "@/infrastructure/adapter/db/drizzle/repository/SystemSettingRepository";
 import { QaHistoryId } from "@/domain/qaHistory";
 import { ReviewSpaceId } from "@/domain/reviewSpace";
 import { ProjectId } from "@/domain/project";
 import { getLogger } from "@/lib/server/logger";
-import type { QaSseEvent } from "@/application/shared/port/push/QaSseEventTypes";
-import { StartQaWorkflowService } from "@/application/qaHistory";
-import { mastra } from "@/application/mastra";
+import type {
+  QaSseEvent,
+  QaSseEventWithSequence,
+} from "@/application/shared/port/push/QaSseEventTypes";
+import { ListQaEventsService } from "@/application/qaHistory";
 
 const logger = getLogger();
 
+/**
+ * 記録済みイベントの確認間隔（ミリ秒）
+ * 別インスタンスのワーカーが発行したイベントはこのストリームに直接配信されないため、DBから取得する
+ */
+const QA_EVENT_POLL_INTERVAL_MS = 2000;
+
+/** 接続維持用コメントの送信間隔（ミリ秒） */
+const KEEPALIVE_INTERVAL_MS = 30000;
+
+/**
+ * 送信済みイベントの最後の発行順をLast-Event-IDヘッダーから取得する
+ * EventSourceの自動再接続時に送信されるため、続きのイベントから再送できる
+ */
+const parseLastEventId = (value: string | null): number => {
+  const sequence = Number(value);
+  return Number.isInteger(sequence) && sequence > 0 ? sequence : 0;
+};
+
 /**
  * Q&A SSEストリームのGETハンドラー
  * Q&A処理の進捗をリアルタイムでクライアントに通知する
- * SSE接続確立後にQ&Aワークフローを開始する
+ *
+ * Q&Aワークフローはワーカーがバックグラウンドで実行するため、このストリームは進捗の配信のみを行う
+ * 接続時には記録済みのイベントを再送するため、切断・再接続したクライアントも処理状況を復元できる
  */
 export async function GET(
   request: NextRequest,
@@ -38,7 +57,6 @@ export async function GET(
   }
 
   const userId = session.user.id;
-  const employeeId = session.user.employeeId;
 
   try {
     // Q&A履歴の存在確認
@@ -96,23 +114,123 @@ export async function GET(
     // SSEストリームを作成
     const encoder = new TextEncoder();
     const eventBroker = InMemoryEventBroker.getInstance();
+    const listQaEventsService = new ListQaEventsService(
+      qaHistoryRepository,
+      new QaHistoryEventRepository(),
+    );
 
     const stream = new ReadableStream({
-      async start(controller) {
+      start(controller) {
         const channel = `qa:${qaHistoryId}`;
+        // 送信済みイベントの最後の発行順
+        let lastSequence = parseLastEventId(
+          request.headers.get("last-event-id"),
+        );
+        let isFinished = false;
+        let isClosed = false;
+        let isSyncing = false;
+        let isSyncRequested = false;
+
+        const send = (event: QaSseEvent | QaSseEventWithSequence) => {
+          if (isClosed) {
+            return;
+          }
+          // 発行順をイベントIDとして送信し、自動再接続時に続きから再送できるようにする
+          const idLine = "sequence" in event ? `id: ${event.sequence}\n` : "";
+          controller.enqueue(
+            encoder.encode(`${idLine}data: ${JSON.stringify(event)}\n\n`),
+          );
+        };
+
+        /**
+         * 記録済みのイベントを発行順に送信する
+         * 送信済みのイベントは送信しない
+         */
+        const sendRecorded = (event: QaSseEventWithSequence) => {
+          if (event.sequence <= lastSequence) {
+            return;
+          }
+          lastSequence = event.sequence;
+          send(event);
+          if (event.type === "complete" || event.type === "error") {
+            finish();
+          }
+        };
+
+        /**
+         * 送信済みの続きのイベントをDBから取得して送信する
+         * 実行中に再度要求された場合は、実行完了後にもう一度取得する（直列実行）
+         */
+        const syncRecordedEvents = async () => {
+          if (isSyncing) {
+            isSyncRequested = true;
+            return;
+          }
+          isSyncing = true;
+          try {
+            do {
+              isSyncRequested = false;
+              const result = await listQaEventsService.execute({
+                qaHistoryId,
+                afterSequence: lastSequence,
+              });
+              result.events.forEach(sendRecorded);
+              if (result.terminalEvent) {
+                send(result.terminalEvent);
+              }
+              if (result.isFinished) {
+                finish();
+              }
+            } while (isSyncRequested && !isFinished);
+          } catch (error) {
+            logger.warn(
+              { err: error, qaHistoryId },
+              "記録済みのQ&Aイベントの取得に失敗しました",
+            );
+          } finally {
+            isSyncing = false;
+          }
+        };
 
         // チャンネル購読（ユーザーIDに依存しない）
+        // 配信されるイベントは記録済みのため、取りこぼしがある場合はDBから取得する
         const subscriptionId = eventBroker.subscribeChannel(
           channel,
           (data: unknown) => {
-            const event = data as QaSseEvent;
-            const sseData = `data: ${JSON.stringify(event)}\n\n`;
-            controller.enqueue(encoder.encode(sseData));
+            const event = data as QaSseEventWithSequence;
+            if (event.sequence === lastSequence + 1) {
+              sendRecorded(event);
+            } else if (event.sequence > lastSequence) {
+              void syncRecordedEvents();
+            }
           },
         );
 
+        // 別インスタンスで発行されたイベントを取得するため定期的にDBを確認
+        const pollTimer = setInterval(() => {
+          void syncRecordedEvents();
+        }, QA_EVENT_POLL_INTERVAL_MS);
+
+        // プロキシ等によるアイドル切断を防ぐためコメント行を定期送信
+        const keepaliveTimer = setInterval(() => {
+          if (!isClosed) {
+            controller.enqueue(encoder.encode(": keepalive\n\n"));
+          }
+        }, KEEPALIVE_INTERVAL_MS);
+
+        // Q&A処理の終了後はイベントが発行されないため購読と確認を停止する
+        // ストリームはクライアントが切断するまで維持する（サーバーから閉じると自動再接続されるため）
+        function finish() {
+          if (isFinished) {
+            return;
+          }
+          isFinished = true;
+          clearInterval(pollTimer);
+          eventBroker.unsubscribe(subscriptionId);
+        }
+
         logger.info(
-          { qaHistoryId, userId, subscriptionId, channel },
+          { qaHistoryId, userId, subscriptionId, channel, lastSequence },
           "SSE channel subscription started for Q&A",
         );
 
@@ -120,42 +238,14 @@ export async function GET(
         const connectedEvent = `data: ${JSON.stringify({ type: "connected", data: { qaHistoryId } })}\n\n`;
         controller.enqueue(encoder.encode(connectedEvent));
 
-        // ワークフロー開始イベントを送信（進捗表示改善のため）
-        const workflowStartEvent = `data: ${JSON.stringify({ type: "workflow_start", data: { message: "質問を分析しています..." } })}\n\n`;
-        controller.enqueue(encoder.encode(workflowStartEvent));
-
-        // 購読登録完了後にワークフローを開始
-        try {
-          const startWorkflowService = new StartQaWorkflowService(
-            qaHistoryRepository,
-            reviewTargetRepository,
-            new ReviewResultRepository(),
-            new ReviewDocumentCacheRepository(),
-            new LargeDocumentResultCacheRepository(),
-            new SystemSettingRepository(),
-            new ReviewSpaceRepository(),
-            new ProjectRepository(),
-            eventBroker,
-            mastra,
-          );
-          await startWorkflowService.startWorkflow(
-            qaHistoryId,
-            userId,
-            employeeId,
-          );
-        } catch (error) {
-          logger.error(
-            { err: error, qaHistoryId },
-            "ワークフロー開始に失敗しました",
-          );
-          // エラーイベントを送信
-          const errorEvent = `data: ${JSON.stringify({ type: "error", data: { message: "処理の開始に失敗しました" } })}\n\n`;
-          controller.enqueue(encoder.encode(errorEvent));
-        }
+        // 購読登録後に記録済みのイベントを再送
+        void syncRecordedEvents();
 
         // クライアントの切断検知
         request.signal.addEventListener("abort", () => {
-          eventBroker.unsubscribe(subscriptionId);
+          isClosed = true;
+          finish();
+          clearInterval(keepaliveTimer);
           controller.close();
           logger.info(
             { qaHistoryId, userId, subscriptionId, channel },
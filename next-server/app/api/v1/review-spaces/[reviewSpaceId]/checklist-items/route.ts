@@ -0,0 +1,46 @@
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { ListReviewSpaceCheckListItemsService } from "@/application/checkListItem";
+import {
+  ProjectRepository,
+  ReviewSpaceRepository,
+  CheckListItemRepository,
+} from "@/infrastructure/adapter/db";
+import { apiRoute, assertReviewSpaceScope } from "@/lib/server/apiRoute";
+
+const listCheckListItemsQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().positive().max(1000).optional(),
+});
+
+/**
+ * レビュースペースのチェック項目一覧を取得する
+ * GET /api/v1/review-spaces/{reviewSpaceId}/checklist-items?page=1&limit=100
+ */
+export const GET = apiRoute<{ reviewSpaceId: string }>(
+  async (request: NextRequest, { auth, params }) => {
+    const { reviewSpaceId } = params;
+    await assertReviewSpaceScope(auth, reviewSpaceId);
+
+    const { searchParams } = request.nextUrl;
+    const { page, limit } = listCheckListItemsQuerySchema.parse({
+      page: searchParams.get("page") ?? undefined,
+      limit: searchParams.get("limit") ?? undefined,
+    });
+
+    const service = new ListReviewSpaceCheckListItemsService(
+      new CheckListItemRepository(),
+      new ReviewSpaceRepository(),
+      new ProjectRepository(),
+    );
+
+    const result = await service.execute({
+      reviewSpaceId,
+      userId: auth.userId,
+      page,
+      limit,
+    });
+
+    return NextResponse.json(result);
+  },
+);
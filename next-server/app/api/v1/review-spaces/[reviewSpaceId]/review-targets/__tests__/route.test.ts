@@ -0,0 +1,214 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "../route";
+
+const mockAuthenticate = vi.hoisted(() => vi.fn());
+const mockFindReviewSpace = vi.hoisted(() => vi.fn());
+const mockExecuteReview = vi.hoisted(() => vi.fn());
+
+vi.mock("@/lib/server/logger", () => ({
+  getLogger: vi.fn().mockReturnValue({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+  createContextLogger: vi.fn().mockReturnValue({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+vi.mock("@/lib/server/fileUploadConfig", () => ({
+  fileUploadConfig: { maxFileSizeMB: 1, maxFileSizeBytes: 1024 * 1024 },
+}));
+
+vi.mock("@/application/personalAccessToken", () => ({
+  AuthenticatePersonalAccessTokenService: vi.fn().mockImplementation(() => ({
+    execute: mockAuthenticate,
+  })),
+}));
+
+vi.mock("@/application/reviewTarget", () => ({
+  ExecuteReviewService: vi.fn().mockImplementation(() => ({
+    execute: mockExecuteReview,
+  })),
+}));
+
+vi.mock("@/application/aiTask", () => ({
+  AiTaskQueueService: vi.fn(),
+}));
+
+vi.mock("@/application/webhook", () => ({
+  PublishWebhookEventService: vi.fn(),
+}));
+
+vi.mock("@/infrastructure/adapter/db", () => ({
+  ProjectRepository: vi.fn(),
+  ReviewSpaceRepository: vi.fn().mockImplementation(() => ({
+    findById: mockFindReviewSpace,
+  })),
+  ReviewTargetRepository: vi.fn(),
+  CheckListItemRepository: vi.fn(),
+  AiTaskRepository: vi.fn(),
+  AiTaskFileMetadataRepository: vi.fn(),
+  SystemSettingRepository: vi.fn(),
+  WebhookRepository: vi.fn(),
+  WebhookDeliveryRepository: vi.fn(),
+  AiTokenUsageRepository: vi.fn(),
+  PersonalAccessTokenRepository: vi.fn(),
+  UserRepository: vi.fn(),
+}));
+
+describe("POST /api/v1/review-spaces/{reviewSpaceId}/review-targets", () => {
+  const reviewSpaceId = "550e8400-e29b-41d4-a716-446655440000";
+  const projectId = "660e8400-e29b-41d4-a716-446655440001";
+
+  /**
+   * ファイルを添付したレビュー対象作成リクエストを作成する
+   */
+  const createRequest = (files: File[]): NextRequest => {
+    const formData = new FormData();
+    formData.append("name", "基本設計書");
+    for (const file of files) {
+      formData.append("files", file);
+    }
+    return new NextRequest(
+      `http://localhost/api/v1/review-spaces/${reviewSpaceId}/review-targets`,
+      {
+        method: "POST",
+        headers: { authorization: "Bearer rvw_test-token" },
+        body: formData,
+      },
+    );
+  };
+
+  const callPost = (request: NextRequest) =>
+    POST(request, { params: Promise.resolve({ reviewSpaceId }) });
+
+  const textFile = (name: string, size = 10) =>
+    new File(["a".repeat(size)], name, { type: "text/plain" });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuthenticate.mockResolvedValue({
+      userId: "user-1",
+      employeeId: "EMP001",
+      displayName: "テストユーザー",
+      isAdmin: false,
+      tokenId: "token-1",
+      projectIds: [projectId],
+    });
+    mockFindReviewSpace.mockResolvedValue({ projectId: { value: projectId } });
+    mockExecuteReview.mockResolvedValue({
+      reviewTargetId: "review-target-1",
+      status: "queued",
+      queueLength: 1,
+    });
+  });
+
+  it("レビューをキューに登録して202を返すこと", async () => {
+    const response = await callPost(createRequest([textFile("design.txt")]));
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({
+      reviewTargetId: "review-target-1",
+      status: "queued",
+      queueLength: 1,
+    });
+    expect(mockExecuteReview).toHaveBeenCalledWith(
+      expect.objectContaining({
+        reviewSpaceId,
+        name: "基本設計書",
+        userId: "user-1",
+        files: [expect.objectContaining({ name: "design.txt", size: 10 })],
+      }),
+    );
+  });
+
+  it("ファイルが指定されていない場合は400を返すこと", async () => {
+    const response = await callPost(createRequest([]));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: {
+        code: "BAD_REQUEST",
+        message: "files にレビュー対象ファイルを1件以上指定してください。",
+      },
+    });
+    expect(mockExecuteReview).not.toHaveBeenCalled();
+  });
+
+  it("ファイル数が上限を超える場合は400を返すこと", async () => {
+    const files = Array.from({ length: 11 }, (_, i) =>
+      textFile(`file${i}.txt`),
+    );
+
+    const response = await callPost(createRequest(files));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: {
+        code: "BAD_REQUEST",
+        message: "files に指定できるファイルは10件までです。",
+      },
+    });
+    expect(mockExecuteReview).not.toHaveBeenCalled();
+  });
+
+  it("ファイルサイズが上限を超える場合は413を返すこと", async () => {
+    const response = await callPost(
+      createRequest([textFile("large.txt", 1024 * 1024 + 1)]),
+    );
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({
+      error: {
+        code: "PAYLOAD_TOO_LARGE",
+        message: "ファイル「large.txt」のサイズが上限（1MB）を超えています。",
+      },
+    });
+    expect(mockExecuteReview).not.toHaveBeenCalled();
+  });
+
+  it("レビュースペースが存在しない場合は404を返すこと", async () => {
+    mockFindReviewSpace.mockResolvedValue(null);
+
+    const response = await callPost(createRequest([textFile("design.txt")]));
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({
+      error: {
+        code: "NOT_FOUND",
+        message: "指定されたレビュースペースが見つかりません。",
+      },
+    });
+    expect(mockExecuteReview).not.toHaveBeenCalled();
+  });
+
+  it("トークンの対象外のプロジェクトの場合は403を返すこと", async () => {
+    mockFindReviewSpace.mockResolvedValue({
+      projectId: { value: "770e8400-e29b-41d4-a716-446655440002" },
+    });
+
+    const response = await callPost(createRequest([textFile("design.txt")]));
+
+    expect(response.status).toBe(403);
+    expect(mockExecuteReview).not.toHaveBeenCalled();
+  });
+
+  it("トークンが指定されていない場合は401を返すこと", async () => {
+    const request = new NextRequest(
+      `http://localhost/api/v1/review-spaces/${reviewSpaceId}/review-targets`,
+      { method: "POST", body: new FormData() },
+    );
+
+    const response = await callPost(request);
+
+    expect(response.status).toBe(401);
+    expect(mockAuthenticate).not.toHaveBeenCalled();
+  });
+});
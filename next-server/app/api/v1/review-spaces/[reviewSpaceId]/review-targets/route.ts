@@ -0,0 +1,226 @@
+import { z } from "zod";
+import { v4 as uuidv4 } from "uuid";
+import { NextRequest, NextResponse } from "next/server";
+import { ExecuteReviewService } from "@/application/reviewTarget";
+import { AiTaskQueueService } from "@/application/aiTask";
+import { PublishWebhookEventService } from "@/application/webhook";
+import type { FileBuffersMap, RawUploadFileMeta } from "@/application/mastra";
+import {
+  processModeSchema,
+  renderOptionsSchema,
+} from "@/application/mastra/workflows/shared";
+import { isArchiveFileName } from "@/lib/shared/sourceCode";
+import {
+  ProjectRepository,
+  ReviewSpaceRepository,
+  ReviewTargetRepository,
+  CheckListItemRepository,
+  AiTaskRepository,
+  AiTaskFileMetadataRepository,
+  SystemSettingRepository,
+  WebhookRepository,
+  WebhookDeliveryRepository,
+  AiTokenUsageRepository,
+} from "@/infrastructure/adapter/db";
+import { apiRoute, assertReviewSpaceScope } from "@/lib/server/apiRoute";
+import { AppError, domainValidationError } from "@/lib/server/error";
+import { fileUploadConfig } from "@/lib/server/fileUploadConfig";
+
+/** 1回のリクエストで受け付ける最大ファイル数 */
+const MAX_FILES = 10;
+
+/**
+ * レビュー対象作成リクエストのスキーマ（multipart/form-dataのファイル以外の項目）
+ */
+const createReviewTargetSchema = z.object({
+  name: z.string().min(1),
+  reviewType: z.enum(["small", "large"]).optional(),
+  previousReviewTargetId: z.string().uuid().optional(),
+  processMode: processModeSchema.optional(),
+  pageRange: z.string().optional(),
+  scale: z.coerce.number().optional(),
+  includePatterns: z.array(z.string()),
+  excludePatterns: z.array(z.string()),
+  reviewSettings: z
+    .object({
+      additionalInstructions: z.string().nullable().optional(),
+      concurrentReviewItems: z.number().optional(),
+      commentFormat: z.string().nullable().optional(),
+      evaluationCriteria: z
+        .array(
+          z.object({
+            label: z.string(),
+            description: z.string(),
+          }),
+        )
+        .optional(),
+      chunking: z
+        .object({
+          strategy: z.enum(["characters", "tokens", "structure"]),
+          chunkSize: z.number().int().nullable(),
+          overlap: z.number().int().min(0),
+          maxPagesPerChunk: z.number().int().nullable(),
+          pageOverlap: z.number().int().min(0),
+        })
+        .partial()
+        .optional(),
+    })
+    .optional(),
+});
+
+/**
+ * レビュー設定のJSON文字列をパースする
+ */
+function parseReviewSettings(value: FormDataEntryValue | null): unknown {
+  if (typeof value !== "string" || !value) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw domainValidationError("VALIDATION_ERROR");
+  }
+}
+
+/**
+ * レビュー対象を作成してレビューを開始する
+ * POST /api/v1/review-spaces/{reviewSpaceId}/review-targets
+ *
+ * multipart/form-data:
+ * - name: レビュー対象名
+ * - reviewType: small | large（省略時: small）
+ * - reviewSettings: レビュー設定のJSON文字列（任意）
+ * - previousReviewTargetId: 前リビジョンのレビュー対象ID（任意、指定時は新しいリビジョンとして登録）
+ * - processMode: text | image（省略時: text、全ファイルに適用）
+ * - pageRange: 画像モードで変換するページ範囲（例: 1-3,5、省略時は全ページ）
+ * - scale: 画像モードの解像度の倍率（0.5〜3、省略時: 2）
+ * - includePatterns: アーカイブから展開するファイルパスのglobパターン（任意、複数指定可）
+ * - excludePatterns: アーカイブから除外するファイルパスのglobパターン（任意、複数指定可）
+ * - files: レビュー対象ファイル（複数指定可）
+ *
+ * 画像モードではPDF（およびサーバーに変換ツールがある場合のOffice文書）をページごとの画像に変換して処理する
+ * アーカイブ（ZIP・tar）は展開したファイルごとに個別レビューして統合する（大量レビューで実行）
+ *
+ * キューに登録して202を返す。結果は GET /api/v1/review-targets/{id} でポーリングする
+ */
+export const POST = apiRoute<{ reviewSpaceId: string }>(
+  async (request: NextRequest, { auth, params }) => {
+    const { reviewSpaceId } = params;
+    await assertReviewSpaceScope(auth, reviewSpaceId);
+
+    const formData = await request.formData();
+    const {
+      name,
+      reviewType,
+      previousReviewTargetId,
+      processMode = "text",
+      pageRange,
+      scale,
+      includePatterns,
+      excludePatterns,
+      reviewSettings,
+    } = createReviewTargetSchema.parse({
+      name: formData.get("name") ?? undefined,
+      reviewType: formData.get("reviewType") || undefined,
+      previousReviewTargetId:
+        formData.get("previousReviewTargetId") || undefined,
+      processMode: formData.get("processMode") || undefined,
+      pageRange: formData.get("pageRange") || undefined,
+      scale: formData.get("scale") || undefined,
+      includePatterns: formData.getAll("includePatterns"),
+      excludePatterns: formData.getAll("excludePatterns"),
+      reviewSettings: parseReviewSettings(formData.get("reviewSettings")),
+    });
+    const renderOptions =
+      processMode === "image"
+        ? renderOptionsSchema.parse({ pageRange, scale })
+        : undefined;
+
+    const uploadedFiles = formData
+      .getAll("files")
+      .filter((entry): entry is File => entry instanceof File);
+    if (uploadedFiles.length === 0) {
+      throw new AppError("BAD_REQUEST", {
+        expose: true,
+        messageCode: "API_REVIEW_TARGET_FILES_REQUIRED",
+      });
+    }
+    if (uploadedFiles.length > MAX_FILES) {
+      throw new AppError("BAD_REQUEST", {
+        expose: true,
+        messageCode: "API_REVIEW_TARGET_TOO_MANY_FILES",
+        messageParams: { maxFiles: String(MAX_FILES) },
+      });
+    }
+
+    const files: RawUploadFileMeta[] = [];
+    const fileBuffers: FileBuffersMap = new Map();
+    for (const file of uploadedFiles) {
+      if (file.size > fileUploadConfig.maxFileSizeBytes) {
+        throw new AppError("PAYLOAD_TOO_LARGE", {
+          expose: true,
+          messageCode: "API_REVIEW_TARGET_FILE_TOO_LARGE",
+          messageParams: {
+            fileName: file.name,
+            maxSize: String(fileUploadConfig.maxFileSizeMB),
+          },
+        });
+      }
+
+      const fileId = uuidv4();
+      files.push({
+        id: fileId,
+        name: file.name,
+        type: file.type || "application/octet-stream",
+        size: file.size,
+        processMode,
+        ...(renderOptions && { renderOptions }),
+        ...(isArchiveFileName(file.name) && {
+          archiveOptions: { includePatterns, excludePatterns },
+        }),
+      });
+      fileBuffers.set(fileId, {
+        buffer: Buffer.from(await file.arrayBuffer()),
+      });
+    }
+
+    const service = new ExecuteReviewService(
+      new ReviewTargetRepository(),
+      new CheckListItemRepository(),
+      new ReviewSpaceRepository(),
+      new ProjectRepository(),
+      new SystemSettingRepository(),
+      new AiTaskQueueService(
+        new AiTaskRepository(),
+        new AiTaskFileMetadataRepository(),
+      ),
+      new PublishWebhookEventService(
+        new WebhookRepository(),
+        new WebhookDeliveryRepository(),
+        new ReviewSpaceRepository(),
+      ),
+      new AiTokenUsageRepository(),
+    );
+
+    const result = await service.execute({
+      reviewSpaceId,
+      name,
+      userId: auth.userId,
+      employeeId: auth.employeeId,
+      files,
+      fileBuffers,
+      reviewSettings,
+      reviewType,
+      previousReviewTargetId,
+    });
+
+    return NextResponse.json(
+      {
+        reviewTargetId: result.reviewTargetId,
+        status: result.status,
+        queueLength: result.queueLength,
+      },
+      { status: 202 },
+    );
+  },
+);
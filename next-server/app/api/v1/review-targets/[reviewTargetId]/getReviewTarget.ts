@@ -0,0 +1,34 @@
+import { GetReviewTargetService } from "@/application/reviewTarget";
+import {
+  ProjectRepository,
+  ReviewSpaceRepository,
+  ReviewTargetRepository,
+  ReviewResultRepository,
+  UserRepository,
+  AiTaskRepository,
+} from "@/infrastructure/adapter/db";
+import {
+  assertReviewTargetScope,
+  type ApiAuthContext,
+} from "@/lib/server/apiRoute";
+
+/**
+ * トークンの対象範囲を確認してレビュー対象と結果を取得する
+ */
+export async function getReviewTarget(
+  auth: ApiAuthContext,
+  reviewTargetId: string,
+) {
+  await assertReviewTargetScope(auth, reviewTargetId);
+
+  const service = new GetReviewTargetService(
+    new ReviewTargetRepository(),
+    new ReviewResultRepository(),
+    new ReviewSpaceRepository(),
+    new ProjectRepository(),
+    new UserRepository(),
+    new AiTaskRepository(),
+  );
+
+  return service.execute({ reviewTargetId, userId: auth.userId });
+}
@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiRoute } from "@/lib/server/apiRoute";
+import { getReviewTarget } from "../getReviewTarget";
+
+/**
+ * レビュー対象とレビュー結果を取得する
+ * GET /api/v1/review-targets/{reviewTargetId}/results
+ */
+export const GET = apiRoute<{ reviewTargetId: string }>(
+  async (_request: NextRequest, { auth, params }) => {
+    const reviewTarget = await getReviewTarget(auth, params.reviewTargetId);
+    return NextResponse.json(reviewTarget);
+  },
+);
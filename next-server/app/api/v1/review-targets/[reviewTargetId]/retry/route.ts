@@ -0,0 +1,115 @@
+import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import { RetryReviewService } from "@/application/reviewTarget";
+import { AiTaskQueueService } from "@/application/aiTask";
+import { PublishWebhookEventService } from "@/application/webhook";
+import {
+  ProjectRepository,
+  ReviewSpaceRepository,
+  ReviewTargetRepository,
+  ReviewResultRepository,
+  CheckListItemRepository,
+  ReviewDocumentCacheRepository,
+  AiTaskRepository,
+  AiTaskFileMetadataRepository,
+  SystemSettingRepository,
+  WebhookRepository,
+  WebhookDeliveryRepository,
+  AiTokenUsageRepository,
+} from "@/infrastructure/adapter/db";
+import { apiRoute, assertReviewTargetScope } from "@/lib/server/apiRoute";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * リトライリクエストのスキーマ
+ */
+const retryReviewSchema = z.object({
+  retryScope: z.enum(["failed", "all"]).default("failed"),
+  useLatestChecklist: z.boolean().optional(),
+  reviewType: z.enum(["small", "large"]).optional(),
+  reviewSettings: z
+    .object({
+      additionalInstructions: z.string().nullable().optional(),
+      concurrentReviewItems: z.number().optional(),
+      commentFormat: z.string().nullable().optional(),
+      evaluationCriteria: z
+        .array(
+          z.object({
+            label: z.string(),
+            description: z.string(),
+          }),
+        )
+        .optional(),
+      chunking: z
+        .object({
+          strategy: z.enum(["characters", "tokens", "structure"]),
+          chunkSize: z.number().int().nullable(),
+          overlap: z.number().int().min(0),
+          maxPagesPerChunk: z.number().int().nullable(),
+          pageOverlap: z.number().int().min(0),
+        })
+        .partial()
+        .optional(),
+    })
+    .optional(),
+});
+
+/**
+ * リクエストボディのJSONをパースする（空の場合は既定値を使用）
+ */
+async function parseJsonBody(request: NextRequest): Promise<unknown> {
+  const text = await request.text();
+  if (!text) {
+    return {};
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw domainValidationError("VALIDATION_ERROR");
+  }
+}
+
+/**
+ * レビューをリトライする
+ * POST /api/v1/review-targets/{reviewTargetId}/retry
+ *
+ * JSON: { retryScope: "failed" | "all", useLatestChecklist?, reviewType?, reviewSettings? }
+ * キューに登録して202を返す
+ */
+export const POST = apiRoute<{ reviewTargetId: string }>(
+  async (request: NextRequest, { auth, params }) => {
+    const { reviewTargetId } = params;
+    await assertReviewTargetScope(auth, reviewTargetId);
+
+    const body = retryReviewSchema.parse(await parseJsonBody(request));
+
+    const service = new RetryReviewService(
+      new ReviewTargetRepository(),
+      new ReviewResultRepository(),
+      new CheckListItemRepository(),
+      new ReviewSpaceRepository(),
+      new ProjectRepository(),
+      new ReviewDocumentCacheRepository(),
+      new SystemSettingRepository(),
+      new AiTaskQueueService(
+        new AiTaskRepository(),
+        new AiTaskFileMetadataRepository(),
+      ),
+      new PublishWebhookEventService(
+        new WebhookRepository(),
+        new WebhookDeliveryRepository(),
+        new ReviewSpaceRepository(),
+      ),
+      new AiTokenUsageRepository(),
+    );
+
+    const result = await service.execute({
+      reviewTargetId,
+      userId: auth.userId,
+      employeeId: auth.employeeId,
+      ...body,
+    });
+
+    return NextResponse.json(result, { status: 202 });
+  },
+);
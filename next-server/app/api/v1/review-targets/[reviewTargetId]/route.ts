@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiRoute } from "@/lib/server/apiRoute";
+import { getReviewTarget } from "./getReviewTarget";
+
+/**
+ * レビュー対象のステータスを取得する（ポーリング用）
+ * GET /api/v1/review-targets/{reviewTargetId}
+ *
+ * statusが completed / error になるまでポーリングし、
+ * 結果は GET /api/v1/review-targets/{reviewTargetId}/results で取得する
+ */
+export const GET = apiRoute<{ reviewTargetId: string }>(
+  async (_request: NextRequest, { auth, params }) => {
+    const reviewTarget = await getReviewTarget(auth, params.reviewTargetId);
+
+    return NextResponse.json({
+      id: reviewTarget.id,
+      reviewSpaceId: reviewTarget.reviewSpaceId,
+      name: reviewTarget.name,
+      status: reviewTarget.status,
+      reviewResultCount: reviewTarget.reviewResults.length,
+      failedResultCount: reviewTarget.reviewResults.filter(
+        (result) => result.errorMessage !== null,
+      ).length,
+      aiApiRetryCount: reviewTarget.aiApiRetryCount,
+      signOff: reviewTarget.signOff,
+      createdAt: reviewTarget.createdAt,
+      updatedAt: reviewTarget.updatedAt,
+    });
+  },
+);
@@ -0,0 +1,194 @@
+import { IAiTaskRepository } from "@/application/shared/port/repository";
+import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
+import { IQaHistoryRepository } from "@/application/shared/port/repository/IQaHistoryRepository";
+import { type IWorkflowRunRegistry } from "@/application/aiTask/WorkflowRunRegistry";
+import { AiTask, AiTaskId, AI_TASK_STATUS } from "@/domain/aiTask";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { ReviewTargetId } from "@/domain/reviewTarget";
+import { QaHistoryId } from "@/domain/qaHistory";
+import { domainValidationError } from "@/lib/server/error";
+import { TaskFileHelper } from "@/lib/server/taskFileHelper";
+import { getLogger } from "@/lib/server/logger";
+
+const logger = getLogger();
+
+/**
+ * 強制停止時にチェックリスト生成エラー・Q&Aのエラーとして保存するメッセージ
+ */
+export const FORCE_STOP_ERROR_MESSAGE = "管理者により処理が中止されました";
+
+/**
+ * AIタスク強制停止コマンド（入力DTO）
+ */
+export interface ForceStopAiTaskCommand {
+  /** AIタスクID */
+  taskId: string;
+}
+
+/**
+ * AIタスク強制停止結果
+ */
+export interface ForceStopAiTaskResult {
+  /** AIタスクID */
+  taskId: string;
+  /** 停止時に処理中だったかどうか */
+  wasProcessing: boolean;
+  /**
+   * このインスタンスで実行中のワークフローをキャンセルできたかどうか
+   * 他インスタンスで実行中の場合はfalse（タスク削除によりリースを失ったワーカーが次回のハートビートでキャンセルする）
+   */
+  workflowCancelled: boolean;
+}
+
+/**
+ * AIタスク強制停止サービス
+ * 管理者が待機中・処理中のAIタスクを停止し、関連エンティティのステータスを戻す
+ * - 処理中の場合はワークフローをキャンセルする
+ * - レビュータスクの場合はレビュー対象をエラー状態にする
+ * - チェックリスト生成タスクの場合はレビュースペースに生成エラーを保存する
+ * - Q&A実行タスクの場合はQ&A履歴をエラー状態にする
+ */
+export class ForceStopAiTaskService {
+  constructor(
+    private readonly aiTaskRepository: IAiTaskRepository,
+    private readonly reviewTargetRepository: IReviewTargetRepository,
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+    private readonly workflowRunRegistry?: IWorkflowRunRegistry,
+    private readonly qaHistoryRepository?: IQaHistoryRepository,
+  ) {}
+
+  /**
+   * AIタスクを強制停止する
+   * @param command 強制停止コマンド
+   * @returns 強制停止結果
+   * @throws タスクが見つからない場合はエラー
+   */
+  async execute(
+    command: ForceStopAiTaskCommand,
+  ): Promise<ForceStopAiTaskResult> {
+    const taskId = AiTaskId.reconstruct(command.taskId);
+    const task = await this.aiTaskRepository.findById(taskId);
+    if (!task) {
+      throw domainValidationError("AI_TASK_NOT_FOUND");
+    }
+
+    const wasProcessing = task.status.value === AI_TASK_STATUS.PROCESSING;
+
+    // 処理中の場合、ワークフローをキャンセル
+    const workflowCancelled = wasProcessing
+      ? await this.cancelWorkflow(task.id.value)
+      : false;
+
+    // タスクファイルの削除（失敗しても停止処理は続行）
+    try {
+      await TaskFileHelper.deleteTaskFiles(task.id.value);
+    } catch (error) {
+      logger.warn(
+        { err: error, taskId: task.id.value },
+        "タスクファイルの削除に失敗しました（停止処理は続行します）",
+      );
+    }
+
+    // タスクを削除
+    await this.aiTaskRepository.delete(task.id);
+
+    // 関連エンティティのステータスを戻す
+    await this.rollbackRelatedEntityStatus(task);
+
+    logger.info(
+      {
+        taskId: task.id.value,
+        taskType: task.taskType.value,
+        wasProcessing,
+        workflowCancelled,
+      },
+      "管理者によりAIタスクを強制停止しました",
+    );
+
+    return {
+      taskId: task.id.value,
+      wasProcessing,
+      workflowCancelled,
+    };
+  }
+
+  /**
+   * ワークフローをキャンセルする
+   * @returns キャンセルできた場合true
+   */
+  private async cancelWorkflow(taskId: string): Promise<boolean> {
+    if (!this.workflowRunRegistry) {
+      return false;
+    }
+
+    try {
+      this.workflowRunRegistry.setCancelling(true);
+
+      const cancelled = await this.workflowRunRegistry.cancel(taskId);
+      if (!cancelled) {
+        logger.warn(
+          { taskId },
+          "ワークフローのキャンセルに失敗しました（ワークフロー実行が見つからない可能性があります）",
+        );
+      }
+      return cancelled;
+    } catch (error) {
+      logger.warn(
+        { err: error, taskId },
+        "ワークフローのキャンセル中にエラーが発生しました（停止処理は続行します）",
+      );
+      return false;
+    } finally {
+      this.workflowRunRegistry.setCancelling(false);
+    }
+  }
+
+  /**
+   * タスク種別に応じて関連エンティティのステータスを戻す
+   */
+  private async rollbackRelatedEntityStatus(task: AiTask): Promise<void> {
+    if (task.taskType.isReviewTask()) {
+      const reviewTargetId = task.payload.reviewTargetId;
+      if (typeof reviewTargetId !== "string") {
+        return;
+      }
+
+      const reviewTarget = await this.reviewTargetRepository.findById(
+        ReviewTargetId.reconstruct(reviewTargetId),
+      );
+      // 既に完了・エラー状態になっている場合はそのまま
+      if (
+        reviewTarget &&
+        (reviewTarget.status.isQueued() || reviewTarget.status.isReviewing())
+      ) {
+        await this.reviewTargetRepository.save(reviewTarget.markAsError());
+      }
+    } else if (task.taskType.isChecklistGeneration()) {
+      const reviewSpaceId = task.payload.reviewSpaceId;
+      if (typeof reviewSpaceId !== "string") {
+        return;
+      }
+
+      await this.reviewSpaceRepository.updateChecklistGenerationError(
+        ReviewSpaceId.reconstruct(reviewSpaceId),
+        FORCE_STOP_ERROR_MESSAGE,
+      );
+    } else if (task.taskType.isQaExecution() && this.qaHistoryRepository) {
+      const qaHistoryId = task.payload.qaHistoryId;
+      if (typeof qaHistoryId !== "string") {
+        return;
+      }
+
+      const qaHistoryIdVo = QaHistoryId.reconstruct(qaHistoryId);
+      const qaHistory = await this.qaHistoryRepository.findById(qaHistoryIdVo);
+      // 既に完了している場合はそのまま
+      if (qaHistory && (qaHistory.isPending() || qaHistory.isProcessing())) {
+        await this.qaHistoryRepository.updateError(
+          qaHistoryIdVo,
+          FORCE_STOP_ERROR_MESSAGE,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,212 @@
+import {
+  IAiTaskRepository,
+  IProjectRepository,
+} from "@/application/shared/port/repository";
+import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
+import {
+  AiTask,
+  AI_TASK_STATUS,
+  type AiTaskStatusValue,
+  type AiTaskTypeValue,
+} from "@/domain/aiTask";
+import { ProjectId } from "@/domain/project";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { ReviewTargetId } from "@/domain/reviewTarget";
+
+/**
+ * 取得対象タスクの最大件数（ステータスごと）
+ */
+const MAX_TASKS_PER_STATUS = 500;
+
+/**
+ * 実行中・待機中AIタスクDTO
+ */
+export interface ActiveAiTaskDto {
+  /** タスクID */
+  taskId: string;
+  /** タスク種別 */
+  taskType: AiTaskTypeValue;
+  /** ステータス（queued / processing） */
+  status: AiTaskStatusValue;
+  /** プロジェクトID（削除済みの場合はnull） */
+  projectId: string | null;
+  /** プロジェクト名（削除済みの場合はnull） */
+  projectName: string | null;
+  /** レビュースペースID */
+  reviewSpaceId: string | null;
+  /** レビュースペース名（削除済みの場合はnull） */
+  reviewSpaceName: string | null;
+  /** レビュー対象ID（チェックリスト生成タスクの場合はnull） */
+  reviewTargetId: string | null;
+  /** レビュー対象名（チェックリスト生成タスク・削除済みの場合はnull） */
+  reviewTargetName: string | null;
+  /** APIキーハッシュ（キューの振り分け単位） */
+  apiKeyHash: string;
+  /** 登録日時 */
+  createdAt: Date;
+  /** 処理開始日時（待機中の場合はnull） */
+  startedAt: Date | null;
+  /** キュー待機時間（ミリ秒）。待機中の場合は現在時刻までの経過時間 */
+  waitTimeMs: number;
+  /** リースを保持しているワーカーID（待機中の場合はnull） */
+  workerId: string | null;
+}
+
+/**
+ * 実行中・待機中AIタスク一覧取得結果
+ */
+export interface ListActiveAiTasksResult {
+  /** タスク一覧（処理中→待機中の順、それぞれ登録日時の昇順） */
+  tasks: ActiveAiTaskDto[];
+  /** 処理中タスク数 */
+  processingCount: number;
+  /** 待機中タスク数 */
+  queuedCount: number;
+}
+
+/**
+ * 実行中・待機中AIタスク一覧取得サービス
+ * 管理者画面で全プロジェクトのAIタスクの状況を確認するために使用
+ */
+export class ListActiveAiTasksService {
+  constructor(
+    private readonly aiTaskRepository: IAiTaskRepository,
+    private readonly reviewTargetRepository: IReviewTargetRepository,
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * 実行中・待機中のAIタスク一覧を取得する
+   * @returns タスク一覧と件数
+   */
+  async execute(): Promise<ListActiveAiTasksResult> {
+    const [processingTasks, queuedTasks] = await Promise.all([
+      this.aiTaskRepository.findByStatus(AI_TASK_STATUS.PROCESSING, {
+        limit: MAX_TASKS_PER_STATUS,
+      }),
+      this.aiTaskRepository.findByStatus(AI_TASK_STATUS.QUEUED, {
+        limit: MAX_TASKS_PER_STATUS,
+      }),
+    ]);
+
+    const now = new Date();
+
+    // 同一スペース・プロジェクトの重複取得を避けるためのキャッシュ
+    const spaceNameCache = new Map<
+      string,
+      { name: string; projectId: string } | null
+    >();
+    const projectNameCache = new Map<string, string | null>();
+
+    const sortByCreatedAt = (a: AiTask, b: AiTask) =>
+      a.createdAt.getTime() - b.createdAt.getTime();
+
+    const tasks: ActiveAiTaskDto[] = [];
+    for (const task of [
+      ...[...processingTasks].sort(sortByCreatedAt),
+      ...[...queuedTasks].sort(sortByCreatedAt),
+    ]) {
+      const reviewSpaceId = this.getPayloadString(task, "reviewSpaceId");
+      const reviewTargetId =
+        task.taskType.isReviewTask() || task.taskType.isQaExecution()
+          ? this.getPayloadString(task, "reviewTargetId")
+          : null;
+
+      const reviewTargetName = reviewTargetId
+        ? await this.findReviewTargetName(reviewTargetId)
+        : null;
+      const space = reviewSpaceId
+        ? await this.findReviewSpace(reviewSpaceId, spaceNameCache)
+        : null;
+      const projectName = space
+        ? await this.findProjectName(space.projectId, projectNameCache)
+        : null;
+
+      tasks.push({
+        taskId: task.id.value,
+        taskType: task.taskType.value,
+        status: task.status.value,
+        projectId: space?.projectId ?? null,
+        projectName,
+        reviewSpaceId,
+        reviewSpaceName: space?.name ?? null,
+        reviewTargetId,
+        reviewTargetName,
+        apiKeyHash: task.apiKeyHash,
+        createdAt: task.createdAt,
+        startedAt: task.startedAt,
+        waitTimeMs: Math.max(
+          0,
+          (task.startedAt ?? now).getTime() - task.createdAt.getTime(),
+        ),
+        workerId: task.leaseOwner,
+      });
+    }
+
+    return {
+      tasks,
+      processingCount: processingTasks.length,
+      queuedCount: queuedTasks.length,
+    };
+  }
+
+  /**
+   * ペイロードから文字列値を取得する
+   */
+  private getPayloadString(task: AiTask, key: string): string | null {
+    const value = task.payload[key];
+    return typeof value === "string" ? value : null;
+  }
+
+  /**
+   * レビュー対象名を取得する
+   */
+  private async findReviewTargetName(
+    reviewTargetId: string,
+  ): Promise<string | null> {
+    const reviewTarget = await this.reviewTargetRepository.findById(
+      ReviewTargetId.reconstruct(reviewTargetId),
+    );
+    return reviewTarget?.name.value ?? null;
+  }
+
+  /**
+   * レビュースペース名と所属プロジェクトIDを取得する
+   */
+  private async findReviewSpace(
+    reviewSpaceId: string,
+    cache: Map<string, { name: string; projectId: string } | null>,
+  ): Promise<{ name: string; projectId: string } | null> {
+    if (cache.has(reviewSpaceId)) {
+      return cache.get(reviewSpaceId) ?? null;
+    }
+    const reviewSpace = await this.reviewSpaceRepository.findById(
+      ReviewSpaceId.reconstruct(reviewSpaceId),
+    );
+    const result = reviewSpace
+      ? { name: reviewSpace.name.value, projectId: reviewSpace.projectId.value }
+      : null;
+    cache.set(reviewSpaceId, result);
+    return result;
+  }
+
+  /**
+   * プロジェクト名を取得する
+   */
+  private async findProjectName(
+    projectId: string,
+    cache: Map<string, string | null>,
+  ): Promise<string | null> {
+    if (cache.has(projectId)) {
+      return cache.get(projectId) ?? null;
+    }
+    const project = await this.projectRepository.findById(
+      ProjectId.reconstruct(projectId),
+    );
+    const result = project?.name.value ?? null;
+    cache.set(projectId, result);
+    return result;
+  }
+}
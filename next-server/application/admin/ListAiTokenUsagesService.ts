@@ -0,0 +1,110 @@
+import {
+  IAiTokenUsageRepository,
+  IProjectRepository,
+  AiTokenUsageSumRow,
+} from "@/application/shared/port/repository";
+import { MonthlyTokenBudget, ProjectId } from "@/domain/project";
+
+/**
+ * プロジェクト別AIトークン使用量一覧取得クエリ
+ */
+export interface ListAiTokenUsagesQuery {
+  /** 集計月（YYYY-MM、省略時は今月） */
+  month?: string;
+}
+
+/**
+ * 管理者向けプロジェクト別AIトークン使用量DTO
+ */
+export interface AdminProjectAiTokenUsageDto extends AiTokenUsageSumRow {
+  projectId: string;
+  projectName: string;
+  /** 月間トークン上限（nullの場合は上限なし） */
+  monthlyTokenBudget: number | null;
+  /** 使用量の上限に対する割合（上限なしの場合はnull） */
+  budgetUsageRate: number | null;
+}
+
+/**
+ * プロジェクト別AIトークン使用量一覧取得結果
+ */
+export interface ListAiTokenUsagesResult {
+  /** 集計月（YYYY-MM） */
+  month: string;
+  /** 全プロジェクトの合計 */
+  total: AiTokenUsageSumRow;
+  /** プロジェクト別の使用量（合計トークン数の多い順、使用量のあるプロジェクトのみ） */
+  projects: AdminProjectAiTokenUsageDto[];
+}
+
+/**
+ * プロジェクト別AIトークン使用量一覧取得サービス
+ * 管理者画面で全プロジェクトの月間のAIトークン使用量を確認するために使用
+ */
+export class ListAiTokenUsagesService {
+  constructor(
+    private readonly aiTokenUsageRepository: IAiTokenUsageRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * プロジェクト別AIトークン使用量一覧を取得する
+   * @param query 取得クエリ
+   * @returns プロジェクト別の使用量と合計
+   */
+  async execute(
+    query: ListAiTokenUsagesQuery = {},
+  ): Promise<ListAiTokenUsagesResult> {
+    const target = ListAiTokenUsagesService.parseMonth(query.month);
+
+    const rows = await this.aiTokenUsageRepository.sumGroupByProject(
+      MonthlyTokenBudget.periodStart(target),
+      MonthlyTokenBudget.periodEnd(target),
+    );
+
+    const projects: AdminProjectAiTokenUsageDto[] = [];
+    for (const row of rows) {
+      const project = await this.projectRepository.findById(
+        ProjectId.reconstruct(row.projectId),
+      );
+      if (!project) {
+        continue;
+      }
+      const budget = project.monthlyTokenBudget.value;
+      projects.push({
+        ...row,
+        projectName: project.name.value,
+        monthlyTokenBudget: budget,
+        budgetUsageRate: budget !== null ? row.totalTokens / budget : null,
+      });
+    }
+    projects.sort((a, b) => b.totalTokens - a.totalTokens);
+
+    const total = projects.reduce<AiTokenUsageSumRow>(
+      (sum, project) => ({
+        requestCount: sum.requestCount + project.requestCount,
+        promptTokens: sum.promptTokens + project.promptTokens,
+        completionTokens: sum.completionTokens + project.completionTokens,
+        totalTokens: sum.totalTokens + project.totalTokens,
+      }),
+      { requestCount: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    );
+
+    return {
+      month: MonthlyTokenBudget.periodKey(target),
+      total,
+      projects,
+    };
+  }
+
+  /**
+   * 集計月（YYYY-MM）をその月の日時に変換する（省略・不正な場合は現在日時）
+   */
+  private static parseMonth(month?: string): Date {
+    const match = month?.match(/^(\d{4})-(0[1-9]|1[0-2])$/);
+    if (!match) {
+      return new Date();
+    }
+    return new Date(Number(match[1]), Number(match[2]) - 1, 1);
+  }
+}
@@ -0,0 +1,245 @@
+import {
+  IProjectRepository,
+  IUserRepository,
+} from "@/application/shared/port/repository";
+import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import {
+  IReviewTargetRepository,
+  ReviewTargetSpaceSummaryRow,
+} from "@/application/shared/port/repository/IReviewTargetRepository";
+import {
+  buildUserNameMap,
+  normalizePagination,
+} from "@/application/shared/util";
+import {
+  Project,
+  type MemberPreviewDto,
+  type ProjectListItemDto,
+} from "@/domain/project";
+import type { ReviewSpace } from "@/domain/reviewSpace";
+import { UserId } from "@/domain/user";
+import { ReviewCacheHelper } from "@/lib/server/reviewCacheHelper";
+
+/**
+ * 使用容量の集計対象とするレビュー対象の最大件数（スペースごと、作成日時の新しい順）
+ */
+const MAX_TARGETS_PER_SPACE = 1000;
+
+/**
+ * 使用容量を集計する際に並列で走査するキャッシュディレクトリ数
+ */
+const STORAGE_SCAN_CONCURRENCY = 10;
+
+/**
+ * 全プロジェクト一覧取得クエリ
+ */
+export interface ListAllProjectsQuery {
+  /** 検索キーワード（プロジェクト名で部分一致） */
+  search?: string;
+  /** ページ番号（1始まり） */
+  page?: number;
+  /** 1ページあたりの件数 */
+  limit?: number;
+}
+
+/**
+ * 管理者向けレビュースペース概要DTO
+ */
+export interface AdminReviewSpaceSummaryDto {
+  id: string;
+  name: string;
+  /** レビュー対象数 */
+  reviewTargetCount: number;
+  /** キャッシュの使用容量（バイト） */
+  storageUsageBytes: number;
+  /** レビュー対象数が集計上限を超え、使用容量が一部のレビュー対象のみの集計の場合true */
+  storageUsagePartial: boolean;
+  /** 最終更新日時（スペース・レビュー対象の更新日時の最大値） */
+  lastActivityAt: string;
+}
+
+/**
+ * 管理者向けプロジェクト一覧DTO
+ * memberPreviewには全メンバーが含まれる
+ */
+export interface AdminProjectListItemDto extends ProjectListItemDto {
+  /** オーナーロールのメンバー一覧 */
+  owners: MemberPreviewDto[];
+  /** レビュースペース一覧 */
+  reviewSpaces: AdminReviewSpaceSummaryDto[];
+  /** キャッシュの使用容量（バイト） */
+  storageUsageBytes: number;
+  /** 使用容量が一部のレビュー対象のみの集計を含む場合true */
+  storageUsagePartial: boolean;
+  /** 最終更新日時（プロジェクト配下の更新日時の最大値） */
+  lastActivityAt: string;
+}
+
+/**
+ * 全プロジェクト一覧取得結果
+ */
+export interface ListAllProjectsResult {
+  projects: AdminProjectListItemDto[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/**
+ * 全プロジェクト一覧取得サービス
+ * 管理者画面でメンバーかどうかに関わらず全プロジェクトを参照するために使用
+ */
+export class ListAllProjectsService {
+  private static readonly DEFAULT_LIMIT = 20;
+  private static readonly MAX_LIMIT = 100;
+
+  constructor(
+    private readonly projectRepository: IProjectRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+    private readonly reviewTargetRepository: IReviewTargetRepository,
+  ) {}
+
+  /**
+   * 全プロジェクト一覧を取得する
+   * @param query 取得クエリ
+   * @returns プロジェクト一覧と総件数
+   */
+  async execute(
+    query: ListAllProjectsQuery = {},
+  ): Promise<ListAllProjectsResult> {
+    const { search } = query;
+
+    const { page, limit, offset } = normalizePagination({
+      page: query.page,
+      limit: query.limit,
+      defaultLimit: ListAllProjectsService.DEFAULT_LIMIT,
+      maxLimit: ListAllProjectsService.MAX_LIMIT,
+    });
+
+    const [projects, total] = await Promise.all([
+      this.projectRepository.findAll({ search, limit, offset }),
+      this.projectRepository.countAll(search),
+    ]);
+
+    // メンバーのユーザー情報を取得
+    const memberUserIds = new Set<string>();
+    for (const project of projects) {
+      for (const member of project.members) {
+        memberUserIds.add(member.userId.value);
+      }
+    }
+    const users = await this.userRepository.findByIds(
+      Array.from(memberUserIds).map((id) => UserId.reconstruct(id)),
+    );
+    const userNameMap = buildUserNameMap(users);
+
+    const reviewSpacesByProject = await Promise.all(
+      projects.map((project) =>
+        this.reviewSpaceRepository.findByProjectId(project.id),
+      ),
+    );
+
+    // 全スペースのレビュー対象数・最終更新日時を1回のクエリで集計
+    const summaries =
+      await this.reviewTargetRepository.summarizeByReviewSpaceIds(
+        reviewSpacesByProject.flat().map((reviewSpace) => reviewSpace.id),
+        MAX_TARGETS_PER_SPACE,
+      );
+    const summaryMap = new Map(
+      summaries.map((summary) => [summary.reviewSpaceId, summary]),
+    );
+
+    const items: AdminProjectListItemDto[] = [];
+    for (const [index, project] of projects.entries()) {
+      items.push(
+        await this.toAdminListItem(
+          project,
+          reviewSpacesByProject[index],
+          summaryMap,
+          userNameMap,
+        ),
+      );
+    }
+
+    return { projects: items, total, page, limit };
+  }
+
+  /**
+   * プロジェクトを管理者向けDTOに変換する
+   */
+  private async toAdminListItem(
+    project: Project,
+    reviewSpaces: ReviewSpace[],
+    summaryMap: Map<string, ReviewTargetSpaceSummaryRow>,
+    userNameMap: Map<string, string>,
+  ): Promise<AdminProjectListItemDto> {
+    const listItem = project.toListItemDto(userNameMap, project.members.length);
+
+    const owners = project.members
+      .filter((member) => member.role.isOwner())
+      .map((member) => ({
+        userId: member.userId.value,
+        displayName: userNameMap.get(member.userId.value) ?? "Unknown",
+      }));
+
+    const spaceSummaries: AdminReviewSpaceSummaryDto[] = [];
+    for (const reviewSpace of reviewSpaces) {
+      const summary = summaryMap.get(reviewSpace.id.value);
+      const reviewTargetIds = summary?.recentReviewTargetIds ?? [];
+      const reviewTargetCount = summary?.reviewTargetCount ?? 0;
+      const lastActivity =
+        summary && summary.lastUpdatedAt > reviewSpace.updatedAt
+          ? summary.lastUpdatedAt
+          : reviewSpace.updatedAt;
+
+      spaceSummaries.push({
+        id: reviewSpace.id.value,
+        name: reviewSpace.name.value,
+        reviewTargetCount,
+        storageUsageBytes: await this.sumCacheDirectorySizes(reviewTargetIds),
+        storageUsagePartial: reviewTargetCount > reviewTargetIds.length,
+        lastActivityAt: lastActivity.toISOString(),
+      });
+    }
+
+    const lastActivityAt = spaceSummaries.reduce(
+      (latest, space) =>
+        space.lastActivityAt > latest ? space.lastActivityAt : latest,
+      listItem.updatedAt,
+    );
+
+    return {
+      ...listItem,
+      owners,
+      reviewSpaces: spaceSummaries,
+      storageUsageBytes: spaceSummaries.reduce(
+        (sum, space) => sum + space.storageUsageBytes,
+        0,
+      ),
+      storageUsagePartial: spaceSummaries.some(
+        (space) => space.storageUsagePartial,
+      ),
+      lastActivityAt,
+    };
+  }
+
+  /**
+   * レビュー対象のキャッシュディレクトリの合計サイズを取得する
+   * 大量のディレクトリを同時に走査しないよう、一定数ずつ並列で走査する
+   */
+  private async sumCacheDirectorySizes(
+    reviewTargetIds: string[],
+  ): Promise<number> {
+    let total = 0;
+    for (let i = 0; i < reviewTargetIds.length; i += STORAGE_SCAN_CONCURRENCY) {
+      const sizes = await Promise.all(
+        reviewTargetIds
+          .slice(i, i + STORAGE_SCAN_CONCURRENCY)
+          .map((id) => ReviewCacheHelper.getCacheDirectorySize(id)),
+      );
+      total += sizes.reduce((sum, size) => sum + size, 0);
+    }
+    return total;
+  }
+}
@@ -0,0 +1,297 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  ForceStopAiTaskService,
+  FORCE_STOP_ERROR_MESSAGE,
+} from "../ForceStopAiTaskService";
+import type { IAiTaskRepository } from "@/application/shared/port/repository";
+import type { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
+import type { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import type { IQaHistoryRepository } from "@/application/shared/port/repository/IQaHistoryRepository";
+import type { IWorkflowRunRegistry } from "@/application/aiTask/WorkflowRunRegistry";
+import { AiTask, AI_TASK_TYPE, AI_TASK_STATUS } from "@/domain/aiTask";
+import { ReviewTarget } from "@/domain/reviewTarget";
+import { DEFAULT_EVALUATION_CRITERIA } from "@/domain/reviewSpace/EvaluationCriteria";
+import { TaskFileHelper } from "@/lib/server/taskFileHelper";
+
+// TaskFileHelperをモック
+vi.mock("@/lib/server/taskFileHelper", () => ({
+  TaskFileHelper: {
+    deleteTaskFiles: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+describe("ForceStopAiTaskService", () => {
+  let mockAiTaskRepository: IAiTaskRepository;
+  let mockReviewTargetRepository: IReviewTargetRepository;
+  let mockReviewSpaceRepository: IReviewSpaceRepository;
+  let mockWorkflowRunRegistry: IWorkflowRunRegistry;
+  let service: ForceStopAiTaskService;
+
+  const validReviewSpaceId = "223e4567-e89b-12d3-a456-426614174001";
+  const validReviewTargetId = "323e4567-e89b-12d3-a456-426614174002";
+  const validTaskId = "423e4567-e89b-12d3-a456-426614174003";
+
+  const createTask = (params: {
+    taskType: string;
+    status: string;
+    payload: Record<string, unknown>;
+  }) =>
+    AiTask.reconstruct({
+      id: validTaskId,
+      taskType: params.taskType,
+      status: params.status,
+      apiKeyHash: "test_hash",
+      priority: 5,
+      payload: params.payload,
+      errorMessage: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      startedAt:
+        params.status === AI_TASK_STATUS.PROCESSING ? new Date() : null,
+      completedAt: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      deliveryCount: 0,
+      aiApiRetryCount: 0,
+      fileMetadata: [],
+    });
+
+  const createReviewTarget = (status: string) =>
+    ReviewTarget.reconstruct({
+      id: validReviewTargetId,
+      reviewSpaceId: validReviewSpaceId,
+      name: "テストレビュー対象",
+      status,
+      reviewType: "small",
+      reviewSettings: {
+        additionalInstructions: null,
+        concurrentReviewItems: 1,
+        commentFormat: null,
+        evaluationCriteria: DEFAULT_EVALUATION_CRITERIA,
+      },
+      signedOffBy: null,
+      signedOffAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+  const reviewPayload = {
+    reviewTargetId: validReviewTargetId,
+    reviewSpaceId: validReviewSpaceId,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockAiTaskRepository = {
+      findById: vi.fn(),
+      findByStatus: vi.fn(),
+      findByApiKeyHashAndStatus: vi.fn(),
+      findDistinctApiKeyHashesInQueue: vi.fn(),
+      countQueuedByApiKeyHash: vi.fn(),
+      dequeueNextTask: vi.fn(),
+      renewLease: vi.fn(),
+      incrementAiApiRetryCount: vi.fn(),
+      requeueExpiredLeases: vi.fn(),
+      findLeaseExpiredTasks: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn().mockResolvedValue(undefined),
+      deleteByStatus: vi.fn(),
+      findByReviewTargetId: vi.fn(),
+      deleteByReviewTargetId: vi.fn(),
+      findChecklistGenerationTaskByReviewSpaceId: vi.fn(),
+      deleteChecklistGenerationTaskByReviewSpaceId: vi.fn(),
+    };
+    mockReviewTargetRepository = {
+      findById: vi.fn().mockResolvedValue(createReviewTarget("reviewing")),
+      findByReviewSpaceId: vi.fn(),
+      findByRevisionGroupId: vi.fn(),
+      countByReviewSpaceId: vi.fn(),
+      summarizeByReviewSpaceIds: vi.fn(),
+      save: vi.fn(),
+      saveRevision: vi.fn(),
+      delete: vi.fn(),
+    };
+    mockReviewSpaceRepository = {
+      findById: vi.fn(),
+      findByProjectId: vi.fn(),
+      countByProjectId: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+      updateChecklistGenerationError: vi.fn().mockResolvedValue(undefined),
+    };
+    mockWorkflowRunRegistry = {
+      register: vi.fn(),
+      deregister: vi.fn(),
+      cancel: vi.fn().mockResolvedValue(true),
+      isRegistered: vi.fn(),
+      isCancelling: vi.fn(),
+      setCancelling: vi.fn(),
+    };
+    service = new ForceStopAiTaskService(
+      mockAiTaskRepository,
+      mockReviewTargetRepository,
+      mockReviewSpaceRepository,
+      mockWorkflowRunRegistry,
+    );
+  });
+
+  describe("正常系", () => {
+    it("処理中のレビュータスクのワークフローをキャンセルし、レビュー対象をエラー状態にする", async () => {
+      vi.mocked(mockAiTaskRepository.findById).mockResolvedValue(
+        createTask({
+          taskType: AI_TASK_TYPE.SMALL_REVIEW,
+          status: AI_TASK_STATUS.PROCESSING,
+          payload: reviewPayload,
+        }),
+      );
+
+      const result = await service.execute({ taskId: validTaskId });
+
+      expect(result).toEqual({
+        taskId: validTaskId,
+        wasProcessing: true,
+        workflowCancelled: true,
+      });
+      expect(mockWorkflowRunRegistry.setCancelling).toHaveBeenNthCalledWith(
+        1,
+        true,
+      );
+      expect(mockWorkflowRunRegistry.cancel).toHaveBeenCalledWith(validTaskId);
+      expect(mockWorkflowRunRegistry.setCancelling).toHaveBeenLastCalledWith(
+        false,
+      );
+      expect(TaskFileHelper.deleteTaskFiles).toHaveBeenCalledWith(validTaskId);
+      expect(mockAiTaskRepository.delete).toHaveBeenCalledTimes(1);
+
+      const saved = vi.mocked(mockReviewTargetRepository.save).mock.calls[0][0];
+      expect(saved.status.isError()).toBe(true);
+    });
+
+    it("待機中のタスクはワークフローをキャンセルせずに削除する", async () => {
+      vi.mocked(mockAiTaskRepository.findById).mockResolvedValue(
+        createTask({
+          taskType: AI_TASK_TYPE.LARGE_REVIEW,
+          status: AI_TASK_STATUS.QUEUED,
+          payload: reviewPayload,
+        }),
+      );
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+        createReviewTarget("queued"),
+      );
+
+      const result = await service.execute({ taskId: validTaskId });
+
+      expect(result.wasProcessing).toBe(false);
+      expect(result.workflowCancelled).toBe(false);
+      expect(mockWorkflowRunRegistry.cancel).not.toHaveBeenCalled();
+      expect(mockAiTaskRepository.delete).toHaveBeenCalledTimes(1);
+      expect(mockReviewTargetRepository.save).toHaveBeenCalledTimes(1);
+    });
+
+    it("チェックリスト生成タスクの場合はレビュースペースに生成エラーを保存する", async () => {
+      vi.mocked(mockAiTaskRepository.findById).mockResolvedValue(
+        createTask({
+          taskType: AI_TASK_TYPE.CHECKLIST_GENERATION,
+          status: AI_TASK_STATUS.PROCESSING,
+          payload: { reviewSpaceId: validReviewSpaceId },
+        }),
+      );
+
+      await service.execute({ taskId: validTaskId });
+
+      expect(
+        mockReviewSpaceRepository.updateChecklistGenerationError,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({ value: validReviewSpaceId }),
+        FORCE_STOP_ERROR_MESSAGE,
+      );
+      expect(mockReviewTargetRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("Q&A実行タスクの場合はQ&A履歴をエラー状態にする", async () => {
+      const validQaHistoryId = "523e4567-e89b-12d3-a456-426614174004";
+      const mockQaHistoryRepository = {
+        findById: vi.fn().mockResolvedValue({
+          isPending: () => false,
+          isProcessing: () => true,
+        }),
+        updateError: vi.fn().mockResolvedValue(undefined),
+      } as unknown as IQaHistoryRepository;
+      const serviceWithQaHistory = new ForceStopAiTaskService(
+        mockAiTaskRepository,
+        mockReviewTargetRepository,
+        mockReviewSpaceRepository,
+        mockWorkflowRunRegistry,
+        mockQaHistoryRepository,
+      );
+      vi.mocked(mockAiTaskRepository.findById).mockResolvedValue(
+        createTask({
+          taskType: AI_TASK_TYPE.QA_EXECUTION,
+          status: AI_TASK_STATUS.PROCESSING,
+          payload: { ...reviewPayload, qaHistoryId: validQaHistoryId },
+        }),
+      );
+
+      await serviceWithQaHistory.execute({ taskId: validTaskId });
+
+      expect(mockWorkflowRunRegistry.cancel).toHaveBeenCalledWith(validTaskId);
+      expect(mockQaHistoryRepository.updateError).toHaveBeenCalledWith(
+        expect.objectContaining({ value: validQaHistoryId }),
+        FORCE_STOP_ERROR_MESSAGE,
+      );
+      expect(mockReviewTargetRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("レビュー対象が既に完了している場合はステータスを変更しない", async () => {
+      vi.mocked(mockAiTaskRepository.findById).mockResolvedValue(
+        createTask({
+          taskType: AI_TASK_TYPE.SMALL_REVIEW,
+          status: AI_TASK_STATUS.PROCESSING,
+          payload: reviewPayload,
+        }),
+      );
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+        createReviewTarget("completed"),
+      );
+
+      await service.execute({ taskId: validTaskId });
+
+      expect(mockAiTaskRepository.delete).toHaveBeenCalledTimes(1);
+      expect(mockReviewTargetRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("ワークフローが見つからない場合もタスクを削除する", async () => {
+      vi.mocked(mockAiTaskRepository.findById).mockResolvedValue(
+        createTask({
+          taskType: AI_TASK_TYPE.SMALL_REVIEW,
+          status: AI_TASK_STATUS.PROCESSING,
+          payload: reviewPayload,
+        }),
+      );
+      vi.mocked(mockWorkflowRunRegistry.cancel).mockResolvedValue(false);
+
+      const result = await service.execute({ taskId: validTaskId });
+
+      expect(result.workflowCancelled).toBe(false);
+      expect(mockWorkflowRunRegistry.setCancelling).toHaveBeenLastCalledWith(
+        false,
+      );
+      expect(mockAiTaskRepository.delete).toHaveBeenCalledTimes(1);
+      expect(mockReviewTargetRepository.save).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("異常系", () => {
+    it("タスクが存在しない場合エラーになる", async () => {
+      vi.mocked(mockAiTaskRepository.findById).mockResolvedValue(null);
+
+      await expect(
+        service.execute({ taskId: validTaskId }),
+      ).rejects.toMatchObject({
+        messageCode: "AI_TASK_NOT_FOUND",
+      });
+      expect(mockAiTaskRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
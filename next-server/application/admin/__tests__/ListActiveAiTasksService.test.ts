@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { ListActiveAiTasksService } from "../ListActiveAiTasksService";
+import type {
+  IAiTaskRepository,
+  IProjectRepository,
+} from "@/application/shared/port/repository";
+import type { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
+import type { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import { AiTask, AI_TASK_TYPE, AI_TASK_STATUS } from "@/domain/aiTask";
+import { Project } from "@/domain/project";
+import { ReviewSpace } from "@/domain/reviewSpace";
+import { ReviewTarget } from "@/domain/reviewTarget";
+import { DEFAULT_EVALUATION_CRITERIA } from "@/domain/reviewSpace/EvaluationCriteria";
+
+describe("ListActiveAiTasksService", () => {
+  let mockAiTaskRepository: IAiTaskRepository;
+  let mockReviewTargetRepository: IReviewTargetRepository;
+  let mockReviewSpaceRepository: IReviewSpaceRepository;
+  let mockProjectRepository: IProjectRepository;
+
+  const fixedDate = new Date("2024-01-01T01:00:00.000Z");
+
+  const validProjectId = "123e4567-e89b-12d3-a456-426614174000";
+  const validReviewSpaceId = "223e4567-e89b-12d3-a456-426614174001";
+  const validReviewTargetId = "323e4567-e89b-12d3-a456-426614174002";
+  const processingTaskId = "423e4567-e89b-12d3-a456-426614174003";
+  const queuedTaskId = "523e4567-e89b-12d3-a456-426614174004";
+
+  const processingTask = AiTask.reconstruct({
+    id: processingTaskId,
+    taskType: AI_TASK_TYPE.SMALL_REVIEW,
+    status: AI_TASK_STATUS.PROCESSING,
+    apiKeyHash: "hash_a",
+    priority: 5,
+    payload: {
+      reviewTargetId: validReviewTargetId,
+      reviewSpaceId: validReviewSpaceId,
+    },
+    errorMessage: null,
+    createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    updatedAt: new Date("2024-01-01T00:10:00.000Z"),
+    startedAt: new Date("2024-01-01T00:10:00.000Z"),
+    completedAt: null,
+    leaseOwner: "hash_a-1-abcd1234",
+    leaseExpiresAt: new Date("2024-01-01T00:11:00.000Z"),
+    deliveryCount: 1,
+    aiApiRetryCount: 0,
+    fileMetadata: [],
+  });
+
+  const queuedTask = AiTask.reconstruct({
+    id: queuedTaskId,
+    taskType: AI_TASK_TYPE.CHECKLIST_GENERATION,
+    status: AI_TASK_STATUS.QUEUED,
+    apiKeyHash: "hash_a",
+    priority: 5,
+    payload: { reviewSpaceId: validReviewSpaceId },
+    errorMessage: null,
+    createdAt: new Date("2024-01-01T00:30:00.000Z"),
+    updatedAt: new Date("2024-01-01T00:30:00.000Z"),
+    startedAt: null,
+    completedAt: null,
+    leaseOwner: null,
+    leaseExpiresAt: null,
+    deliveryCount: 0,
+    aiApiRetryCount: 0,
+    fileMetadata: [],
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(fixedDate);
+
+    mockAiTaskRepository = {
+      findById: vi.fn(),
+      findByStatus: vi.fn((status: string) =>
+        Promise.resolve(
+          status === AI_TASK_STATUS.PROCESSING
+            ? [processingTask]
+            : [queuedTask],
+        ),
+      ),
+      findByApiKeyHashAndStatus: vi.fn(),
+      findDistinctApiKeyHashesInQueue: vi.fn(),
+      countQueuedByApiKeyHash: vi.fn(),
+      dequeueNextTask: vi.fn(),
+      renewLease: vi.fn(),
+      incrementAiApiRetryCount: vi.fn(),
+      requeueExpiredLeases: vi.fn(),
+      findLeaseExpiredTasks: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+      deleteByStatus: vi.fn(),
+      findByReviewTargetId: vi.fn(),
+      deleteByReviewTargetId: vi.fn(),
+      findChecklistGenerationTaskByReviewSpaceId: vi.fn(),
+      deleteChecklistGenerationTaskByReviewSpaceId: vi.fn(),
+    };
+    mockReviewTargetRepository = {
+      findById: vi.fn().mockResolvedValue(
+        ReviewTarget.reconstruct({
+          id: validReviewTargetId,
+          reviewSpaceId: validReviewSpaceId,
+          name: "設計書.pdf",
+          status: "reviewing",
+          reviewType: "small",
+          reviewSettings: {
+            additionalInstructions: null,
+            concurrentReviewItems: 1,
+            commentFormat: null,
+            evaluationCriteria: DEFAULT_EVALUATION_CRITERIA,
+          },
+          signedOffBy: null,
+          signedOffAt: null,
+          createdAt: fixedDate,
+          updatedAt: fixedDate,
+        }),
+      ),
+      findByReviewSpaceId: vi.fn(),
+      findByRevisionGroupId: vi.fn(),
+      countByReviewSpaceId: vi.fn(),
+      summarizeByReviewSpaceIds: vi.fn(),
+      save: vi.fn(),
+      saveRevision: vi.fn(),
+      delete: vi.fn(),
+    };
+    mockReviewSpaceRepository = {
+      findById: vi.fn().mockResolvedValue(
+        ReviewSpace.reconstruct({
+          id: validReviewSpaceId,
+          projectId: validProjectId,
+          name: "テストスペース",
+          description: null,
+          createdAt: fixedDate,
+          updatedAt: fixedDate,
+        }),
+      ),
+      findByProjectId: vi.fn(),
+      countByProjectId: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+      updateChecklistGenerationError: vi.fn(),
+    };
+    mockProjectRepository = {
+      findById: vi.fn().mockResolvedValue(
+        Project.reconstruct({
+          id: validProjectId,
+          name: "テストプロジェクト",
+          description: null,
+          encryptedApiKey: null,
+          members: [],
+          createdAt: fixedDate,
+          updatedAt: fixedDate,
+        }),
+      ),
+      findByMemberId: vi.fn(),
+      countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("正常系", () => {
+    it("処理中・待機中のタスクを関連エンティティ名とともに取得できる", async () => {
+      const service = new ListActiveAiTasksService(
+        mockAiTaskRepository,
+        mockReviewTargetRepository,
+        mockReviewSpaceRepository,
+        mockProjectRepository,
+      );
+
+      const result = await service.execute();
+
+      expect(result.processingCount).toBe(1);
+      expect(result.queuedCount).toBe(1);
+      expect(result.tasks.map((t) => t.taskId)).toEqual([
+        processingTaskId,
+        queuedTaskId,
+      ]);
+
+      const [processing, queued] = result.tasks;
+      expect(processing).toMatchObject({
+        taskType: "small_review",
+        status: "processing",
+        projectId: validProjectId,
+        projectName: "テストプロジェクト",
+        reviewSpaceName: "テストスペース",
+        reviewTargetId: validReviewTargetId,
+        reviewTargetName: "設計書.pdf",
+        apiKeyHash: "hash_a",
+        workerId: "hash_a-1-abcd1234",
+        // 開始日時 - 登録日時
+        waitTimeMs: 10 * 60 * 1000,
+      });
+      expect(queued).toMatchObject({
+        taskType: "checklist_generation",
+        status: "queued",
+        projectName: "テストプロジェクト",
+        reviewTargetId: null,
+        reviewTargetName: null,
+        workerId: null,
+        // 現在時刻 - 登録日時
+        waitTimeMs: 30 * 60 * 1000,
+      });
+
+      // 同一スペース・プロジェクトは1回だけ取得する
+      expect(mockReviewSpaceRepository.findById).toHaveBeenCalledTimes(1);
+      expect(mockProjectRepository.findById).toHaveBeenCalledTimes(1);
+    });
+
+    it("関連エンティティが削除済みの場合は名前がnullになる", async () => {
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(null);
+      vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(null);
+      const service = new ListActiveAiTasksService(
+        mockAiTaskRepository,
+        mockReviewTargetRepository,
+        mockReviewSpaceRepository,
+        mockProjectRepository,
+      );
+
+      const result = await service.execute();
+
+      expect(result.tasks[0]).toMatchObject({
+        projectId: null,
+        projectName: null,
+        reviewSpaceName: null,
+        reviewTargetName: null,
+      });
+      expect(mockProjectRepository.findById).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ListAiTokenUsagesService } from "../ListAiTokenUsagesService";
+import type {
+  IAiTokenUsageRepository,
+  IProjectRepository,
+} from "@/application/shared/port/repository";
+import { Project, ProjectId } from "@/domain/project";
+
+describe("ListAiTokenUsagesService", () => {
+  let mockAiTokenUsageRepository: IAiTokenUsageRepository;
+  let mockProjectRepository: IProjectRepository;
+  let service: ListAiTokenUsagesService;
+
+  const projectAId = "123e4567-e89b-12d3-a456-426614174000";
+  const projectBId = "223e4567-e89b-12d3-a456-426614174001";
+  const deletedProjectId = "323e4567-e89b-12d3-a456-426614174002";
+  const now = new Date();
+
+  const createProject = (
+    id: string,
+    name: string,
+    monthlyTokenBudget: number | null,
+  ) =>
+    Project.reconstruct({
+      id,
+      name,
+      description: null,
+      encryptedApiKey: null,
+      monthlyTokenBudget,
+      members: [
+        {
+          userId: "423e4567-e89b-12d3-a456-426614174003",
+          role: "owner",
+          createdAt: now,
+        },
+      ],
+      createdAt: now,
+      updatedAt: now,
+    });
+
+  const sum = (promptTokens: number, completionTokens: number) => ({
+    requestCount: 2,
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+  });
+
+  beforeEach(() => {
+    mockAiTokenUsageRepository = {
+      save: vi.fn(),
+      sumByProjectId: vi.fn(),
+      sumByProjectIdGroupByTaskType: vi.fn(),
+      sumGroupByProject: vi.fn().mockResolvedValue([
+        { projectId: projectAId, ...sum(100, 50) },
+        { projectId: projectBId, ...sum(400, 100) },
+        { projectId: deletedProjectId, ...sum(10, 10) },
+      ]),
+    };
+    mockProjectRepository = {
+      findById: vi.fn((id: ProjectId) =>
+        Promise.resolve(
+          id.value === projectAId
+            ? createProject(projectAId, "プロジェクトA", null)
+            : id.value === projectBId
+              ? createProject(projectBId, "プロジェクトB", 1000)
+              : null,
+        ),
+      ),
+      findByMemberId: vi.fn(),
+      countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+    service = new ListAiTokenUsagesService(
+      mockAiTokenUsageRepository,
+      mockProjectRepository,
+    );
+  });
+
+  it("指定月のプロジェクト別使用量を合計トークン数の多い順に取得できる", async () => {
+    const result = await service.execute({ month: "2024-02" });
+
+    expect(result.month).toBe("2024-02");
+    expect(mockAiTokenUsageRepository.sumGroupByProject).toHaveBeenCalledWith(
+      new Date(2024, 1, 1),
+      new Date(2024, 2, 1),
+    );
+    expect(result.projects).toEqual([
+      {
+        projectId: projectBId,
+        projectName: "プロジェクトB",
+        monthlyTokenBudget: 1000,
+        budgetUsageRate: 0.5,
+        ...sum(400, 100),
+      },
+      {
+        projectId: projectAId,
+        projectName: "プロジェクトA",
+        monthlyTokenBudget: null,
+        budgetUsageRate: null,
+        ...sum(100, 50),
+      },
+    ]);
+    expect(result.total).toEqual({
+      requestCount: 4,
+      promptTokens: 500,
+      completionTokens: 150,
+      totalTokens: 650,
+    });
+  });
+
+  it("月を省略した場合は今月を集計する", async () => {
+    const result = await service.execute();
+
+    const month = String(now.getMonth() + 1).padStart(2, "0");
+    expect(result.month).toBe(`${now.getFullYear()}-${month}`);
+  });
+});
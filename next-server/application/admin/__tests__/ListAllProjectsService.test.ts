@@ -0,0 +1,259 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ListAllProjectsService } from "../ListAllProjectsService";
+import type {
+  IProjectRepository,
+  IUserRepository,
+} from "@/application/shared/port/repository";
+import type { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import type { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
+import { Project } from "@/domain/project";
+import { ReviewSpace } from "@/domain/reviewSpace";
+import { User } from "@/domain/user";
+import { ReviewCacheHelper } from "@/lib/server/reviewCacheHelper";
+
+// ReviewCacheHelperをモック
+vi.mock("@/lib/server/reviewCacheHelper", () => ({
+  ReviewCacheHelper: {
+    getCacheDirectorySize: vi.fn().mockResolvedValue(1024),
+  },
+}));
+
+describe("ListAllProjectsService", () => {
+  let mockProjectRepository: IProjectRepository;
+  let mockUserRepository: IUserRepository;
+  let mockReviewSpaceRepository: IReviewSpaceRepository;
+  let mockReviewTargetRepository: IReviewTargetRepository;
+  let service: ListAllProjectsService;
+
+  const ownerId = "123e4567-e89b-12d3-a456-426614174000";
+  const memberId = "223e4567-e89b-12d3-a456-426614174001";
+  const projectId = "323e4567-e89b-12d3-a456-426614174002";
+  const reviewSpaceId = "423e4567-e89b-12d3-a456-426614174003";
+  const reviewTargetId = "523e4567-e89b-12d3-a456-426614174004";
+
+  const project = Project.reconstruct({
+    id: projectId,
+    name: "テストプロジェクト",
+    description: null,
+    encryptedApiKey: null,
+    members: [
+      {
+        userId: memberId,
+        role: "editor",
+        createdAt: new Date("2024-01-01T00:00:00.000Z"),
+      },
+      {
+        userId: ownerId,
+        role: "owner",
+        createdAt: new Date("2024-01-02T00:00:00.000Z"),
+      },
+    ],
+    createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    updatedAt: new Date("2024-01-03T00:00:00.000Z"),
+  });
+
+  const reviewSpace = ReviewSpace.reconstruct({
+    id: reviewSpaceId,
+    projectId,
+    name: "テストスペース",
+    description: null,
+    createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    updatedAt: new Date("2024-01-04T00:00:00.000Z"),
+  });
+
+  const reviewTargetSummary = {
+    reviewSpaceId,
+    reviewTargetCount: 1,
+    lastUpdatedAt: new Date("2024-01-05T00:00:00.000Z"),
+    recentReviewTargetIds: [reviewTargetId],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockProjectRepository = {
+      findById: vi.fn(),
+      findByMemberId: vi.fn(),
+      countByMemberId: vi.fn(),
+      findAll: vi.fn().mockResolvedValue([project]),
+      countAll: vi.fn().mockResolvedValue(1),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+    mockUserRepository = {
+      findByEmployeeId: vi.fn(),
+      findById: vi.fn(),
+      findByIds: vi.fn().mockResolvedValue([
+        User.reconstruct({
+          id: ownerId,
+          employeeId: "EMP001",
+          displayName: "オーナーユーザー",
+          isAdmin: false,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }),
+        User.reconstruct({
+          id: memberId,
+          employeeId: "EMP002",
+          displayName: "メンバーユーザー",
+          isAdmin: false,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }),
+      ]),
+      searchUsers: vi.fn(),
+      countSearchUsers: vi.fn(),
+      save: vi.fn(),
+      findAllAdmins: vi.fn(),
+      countAdmins: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
+    };
+    mockReviewSpaceRepository = {
+      findById: vi.fn(),
+      findByProjectId: vi.fn().mockResolvedValue([reviewSpace]),
+      countByProjectId: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+      updateChecklistGenerationError: vi.fn(),
+    };
+    mockReviewTargetRepository = {
+      findById: vi.fn(),
+      findByReviewSpaceId: vi.fn(),
+      findByRevisionGroupId: vi.fn(),
+      countByReviewSpaceId: vi.fn(),
+      summarizeByReviewSpaceIds: vi
+        .fn()
+        .mockResolvedValue([reviewTargetSummary]),
+      save: vi.fn(),
+      saveRevision: vi.fn(),
+      delete: vi.fn(),
+    };
+
+    service = new ListAllProjectsService(
+      mockProjectRepository,
+      mockUserRepository,
+      mockReviewSpaceRepository,
+      mockReviewTargetRepository,
+    );
+  });
+
+  describe("正常系", () => {
+    it("メンバーかどうかに関わらず全プロジェクトを取得できる", async () => {
+      const result = await service.execute({ search: "テスト", page: 1 });
+
+      expect(mockProjectRepository.findAll).toHaveBeenCalledWith({
+        search: "テスト",
+        limit: 20,
+        offset: 0,
+      });
+      expect(mockProjectRepository.countAll).toHaveBeenCalledWith("テスト");
+      expect(result.total).toBe(1);
+      expect(result.projects).toHaveLength(1);
+    });
+
+    it("オーナー・メンバー・使用容量・最終更新日時を集計する", async () => {
+      const result = await service.execute();
+      const item = result.projects[0];
+
+      // 最初に登録されたメンバーではなくオーナーロールのメンバー
+      expect(item.owners).toEqual([
+        { userId: ownerId, displayName: "オーナーユーザー" },
+      ]);
+      expect(item.memberPreview.map((m) => m.displayName)).toEqual([
+        "メンバーユーザー",
+        "オーナーユーザー",
+      ]);
+
+      // 全スペースのレビュー対象を1回のクエリで集計する
+      expect(
+        mockReviewTargetRepository.summarizeByReviewSpaceIds,
+      ).toHaveBeenCalledTimes(1);
+      expect(
+        mockReviewTargetRepository.summarizeByReviewSpaceIds,
+      ).toHaveBeenCalledWith([reviewSpace.id], 1000);
+      expect(
+        mockReviewTargetRepository.findByReviewSpaceId,
+      ).not.toHaveBeenCalled();
+      expect(
+        mockReviewTargetRepository.countByReviewSpaceId,
+      ).not.toHaveBeenCalled();
+
+      expect(ReviewCacheHelper.getCacheDirectorySize).toHaveBeenCalledWith(
+        reviewTargetId,
+      );
+      expect(item.storageUsageBytes).toBe(1024);
+      expect(item.storageUsagePartial).toBe(false);
+      expect(item.reviewSpaces).toEqual([
+        {
+          id: reviewSpaceId,
+          name: "テストスペース",
+          reviewTargetCount: 1,
+          storageUsageBytes: 1024,
+          storageUsagePartial: false,
+          lastActivityAt: "2024-01-05T00:00:00.000Z",
+        },
+      ]);
+      // レビュー対象の更新日時が最新
+      expect(item.lastActivityAt).toBe("2024-01-05T00:00:00.000Z");
+    });
+
+    it("レビュースペースがない場合はプロジェクトの更新日時を最終更新日時とする", async () => {
+      vi.mocked(mockReviewSpaceRepository.findByProjectId).mockResolvedValue(
+        [],
+      );
+
+      const result = await service.execute();
+      const item = result.projects[0];
+
+      expect(item.reviewSpaces).toEqual([]);
+      expect(item.storageUsageBytes).toBe(0);
+      expect(item.lastActivityAt).toBe("2024-01-03T00:00:00.000Z");
+    });
+
+    it("レビュー対象のないスペースは件数0・スペースの更新日時で集計する", async () => {
+      vi.mocked(
+        mockReviewTargetRepository.summarizeByReviewSpaceIds,
+      ).mockResolvedValue([]);
+
+      const result = await service.execute();
+      const space = result.projects[0].reviewSpaces[0];
+
+      expect(ReviewCacheHelper.getCacheDirectorySize).not.toHaveBeenCalled();
+      expect(space).toEqual({
+        id: reviewSpaceId,
+        name: "テストスペース",
+        reviewTargetCount: 0,
+        storageUsageBytes: 0,
+        storageUsagePartial: false,
+        lastActivityAt: "2024-01-04T00:00:00.000Z",
+      });
+    });
+
+    it("レビュー対象数が集計上限を超える場合は使用容量を一部の集計として返す", async () => {
+      vi.mocked(
+        mockReviewTargetRepository.summarizeByReviewSpaceIds,
+      ).mockResolvedValue([
+        {
+          ...reviewTargetSummary,
+          reviewTargetCount: 1001,
+          recentReviewTargetIds: Array.from(
+            { length: 1000 },
+            (_, i) => `target-${i}`,
+          ),
+        },
+      ]);
+
+      const result = await service.execute();
+      const item = result.projects[0];
+
+      expect(ReviewCacheHelper.getCacheDirectorySize).toHaveBeenCalledTimes(
+        1000,
+      );
+      expect(item.reviewSpaces[0].reviewTargetCount).toBe(1001);
+      expect(item.reviewSpaces[0].storageUsageBytes).toBe(1024 * 1000);
+      expect(item.reviewSpaces[0].storageUsagePartial).toBe(true);
+      expect(item.storageUsagePartial).toBe(true);
+    });
+  });
+});
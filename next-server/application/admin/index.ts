@@ -9,3 +9,26 @@ export {
   type ListAllUsersQuery,
   type ListAllUsersResult,
 } from "./ListAllUsersService";
+export {
+  ListActiveAiTasksService,
+  type ActiveAiTaskDto,
+  type ListActiveAiTasksResult,
+} from "./ListActiveAiTasksService";
+export {
+  ForceStopAiTaskService,
+  type ForceStopAiTaskCommand,
+  type ForceStopAiTaskResult,
+} from "./ForceStopAiTaskService";
+export {
+  ListAllProjectsService,
+  type ListAllProjectsQuery,
+  type ListAllProjectsResult,
+  type AdminProjectListItemDto,
+  type AdminReviewSpaceSummaryDto,
+} from "./ListAllProjectsService";
+export {
+  ListAiTokenUsagesService,
+  type ListAiTokenUsagesQuery,
+  type ListAiTokenUsagesResult,
+  type AdminProjectAiTokenUsageDto,
+} from "./ListAiTokenUsagesService";
@@ -1,13 +1,17 @@
-import { AiTaskQueueService } from "./AiTaskQueueService";
+import { AiTaskQueueService, getLeaseDurationMs } from "./AiTaskQueueService";
 import { AiTaskWorkerPool } from "./AiTaskWorkerPool";
+import { WorkflowRunRegistry } from "./WorkflowRunRegistry";
 import {
   AiTaskExecutor,
   type ReviewTaskPayload,
   type ChecklistGenerationTaskPayload,
+  type QaExecutionTaskPayload,
 } from "./AiTaskExecutor";
 import {
   AiTaskRepository,
   AiTaskFileMetadataRepository,
+  AiTaskHistoryRepository,
+  AiTokenUsageRepository,
 } from "@/infrastructure/adapter/db/drizzle/repository";
 import {
   ReviewTargetRepository,
@@ -16,23 +20,68 @@ import {
   ReviewDocumentCacheRepository,
   ReviewSpaceRepository,
   LargeDocumentResultCacheRepository,
+  ReviewSpacePluginRepository,
+  ProjectRepository,
+  NotificationRepository,
+  WebhookRepository,
+  WebhookDeliveryRepository,
+  QaHistoryRepository,
+  QaHistoryEventRepository,
+  ReviewDocumentChunkRepository,
 } from "@/infrastructure/adapter/db/drizzle/repository";
-import { AI_TASK_STATUS, AI_TASK_TYPE } from "@/domain/aiTask";
+import { WorkerThreadPluginSandbox } from "@/infrastructure/adapter/plugin";
+import { createEmbeddingProvider } from "@/infrastructure/adapter/embedding";
+import { InMemoryEventBroker } from "@/infrastructure/adapter/push";
+import { PluginHookRunnerFactory } from "@/application/reviewSpacePlugin";
+import { NotifyTaskCompletionService } from "@/application/notification";
+import { PublishWebhookEventService } from "@/application/webhook/PublishWebhookEventService";
+import { RunQaWorkflowService } from "@/application/qaHistory/RunQaWorkflowService";
+import { ReviewDocumentIndex } from "@/application/reviewTarget/ReviewDocumentIndex";
+import { RecordingQaEventBroker } from "@/application/qaHistory/RecordingQaEventBroker";
+import type { QaErrorEvent } from "@/application/shared/port/push/QaSseEventTypes";
+import { AI_TASK_TYPE, AiTaskHistory } from "@/domain/aiTask";
 import { ReviewTargetId } from "@/domain/reviewTarget";
 import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { QaHistoryId } from "@/domain/qaHistory";
 import { TaskFileHelper } from "@/lib/server/taskFileHelper";
 import { getLogger } from "@/lib/server/logger";
 
 const logger = getLogger();
 
+/**
+ * リース監視間隔を取得（ミリ秒）
+ * 環境変数AI_QUEUE_LEASE_CHECK_INTERVAL_MSで設定可能（デフォルト: 30000ms）
+ */
+const getLeaseCheckIntervalMs = (): number => {
+  const interval = parseInt(
+    process.env.AI_QUEUE_LEASE_CHECK_INTERVAL_MS || "30000",
+    10,
+  );
+  return isNaN(interval) || interval < 1000 ? 30000 : interval;
+};
+
 /**
  * AIタスクキューのブートストラップ
  * サーバ起動時の初期化とシャットダウン処理を管理
+ *
+ * 複数インスタンスで同一DBを共有して動作できるよう、定期的に以下を行う
+ * - リース期限切れのタスク（ハートビートが途絶えたワーカーのタスク）の再配信
+ * - 再配信回数の上限に達したタスクの失敗処理
+ * - 実行するタスクが存在しないまま処理待ち・処理中で取り残されたQ&A履歴の失敗処理
+ * - キューにタスクがあるAPIキーハッシュのワーカー起動（他インスタンスで登録されたタスクを含む）
  */
 export class AiTaskBootstrap {
   private static instance: AiTaskBootstrap | null = null;
   private workerPool: AiTaskWorkerPool | null = null;
   private queueService: AiTaskQueueService | null = null;
+  private aiTaskRepository: AiTaskRepository | null = null;
+  private aiTaskHistoryRepository: AiTaskHistoryRepository | null = null;
+  private reviewTargetRepository: ReviewTargetRepository | null = null;
+  private reviewSpaceRepository: ReviewSpaceRepository | null = null;
+  private qaHistoryRepository: QaHistoryRepository | null = null;
+  private qaHistoryEventRepository: QaHistoryEventRepository | null = null;
+  private leaseMonitorTimer: ReturnType<typeof setInterval> | null = null;
+  private isMaintaining: boolean = false;
   private isInitialized: boolean = false;
 
   private constructor() {}
@@ -49,8 +98,9 @@ export class AiTaskBootstrap {
 
   /**
    * 初期化を実行
-   * 1. 処理中のタスクを失敗としてマーク
+   * 1. リース期限切れのタスクを再配信（上限に達したものは失敗としてマーク）
    * 2. キューにあるタスクのAPIキーハッシュを取得してワーカーを開始
+   * 3. リース監視を開始
    */
   async initialize(): Promise<void> {
     if (this.isInitialized) {
@@ -66,19 +116,49 @@ export class AiTaskBootstrap {
 
       // リポジトリの作成
       const aiTaskRepository = new AiTaskRepository();
+      this.aiTaskRepository = aiTaskRepository;
+      const aiTaskHistoryRepository = new AiTaskHistoryRepository();
+      this.aiTaskHistoryRepository = aiTaskHistoryRepository;
       const aiTaskFileMetadataRepository = new AiTaskFileMetadataRepository();
       const reviewTargetRepository = new ReviewTargetRepository();
+      this.reviewTargetRepository = reviewTargetRepository;
       const reviewResultRepository = new ReviewResultRepository();
       const checkListItemRepository = new CheckListItemRepository();
       const reviewDocumentCacheRepository = new ReviewDocumentCacheRepository();
       const reviewSpaceRepository = new ReviewSpaceRepository();
+      this.reviewSpaceRepository = reviewSpaceRepository;
       const largeDocumentResultCacheRepository =
         new LargeDocumentResultCacheRepository();
+      const reviewSpacePluginRepository = new ReviewSpacePluginRepository();
+      const qaHistoryRepository = new QaHistoryRepository();
+      this.qaHistoryRepository = qaHistoryRepository;
+      const qaHistoryEventRepository = new QaHistoryEventRepository();
+      this.qaHistoryEventRepository = qaHistoryEventRepository;
 
       // サービスの作成
       this.queueService = new AiTaskQueueService(
         aiTaskRepository,
         aiTaskFileMetadataRepository,
+        aiTaskHistoryRepository,
+      );
+
+      // ワークフローのキャンセル（タスク削除・管理者による強制停止）に使用
+      const workflowRunRegistry = WorkflowRunRegistry.getInstance();
+
+      // 埋め込みモデルが設定されている場合のみ、大量レビュー・Q&Aで意味検索インデックスを使用
+      const embeddingProvider = createEmbeddingProvider();
+      const documentIndex = embeddingProvider
+        ? new ReviewDocumentIndex(
+            new ReviewDocumentChunkRepository(),
+            reviewDocumentCacheRepository,
+            embeddingProvider,
+          )
+        : undefined;
+
+      const webhookEventPublisher = new PublishWebhookEventService(
+        new WebhookRepository(),
+        new WebhookDeliveryRepository(),
+        reviewSpaceRepository,
       );
 
       const executor = new AiTaskExecutor(
@@ -88,81 +168,156 @@ export class AiTaskBootstrap {
         reviewDocumentCacheRepository,
         reviewSpaceRepository,
         largeDocumentResultCacheRepository,
+        workflowRunRegistry,
+        new PluginHookRunnerFactory(
+          reviewSpacePluginRepository,
+          new WorkerThreadPluginSandbox(),
+        ),
+        new NotifyTaskCompletionService(
+          new NotificationRepository(),
+          reviewSpaceRepository,
+          reviewTargetRepository,
+          new ProjectRepository(),
+          InMemoryEventBroker.getInstance(),
+        ),
+        aiTaskRepository,
+        webhookEventPublisher,
+        new RunQaWorkflowService(
+          qaHistoryRepository,
+          qaHistoryEventRepository,
+          reviewResultRepository,
+          reviewDocumentCacheRepository,
+          largeDocumentResultCacheRepository,
+          InMemoryEventBroker.getInstance(),
+          workflowRunRegistry,
+          webhookEventPublisher,
+          documentIndex,
+        ),
+        new AiTokenUsageRepository(),
+        documentIndex,
+        aiTaskFileMetadataRepository,
       );
 
-      this.workerPool = new AiTaskWorkerPool(this.queueService, executor);
+      this.workerPool = new AiTaskWorkerPool(
+        this.queueService,
+        executor,
+        workflowRunRegistry,
+      );
 
-      // 処理中のタスクを復元（失敗としてマーク）
-      await this.recoverStuckTasks(
-        aiTaskRepository,
-        reviewTargetRepository,
-        reviewSpaceRepository,
+      // リース期限切れのタスクを再配信し、キューにあるタスクのワーカーを開始
+      await this.maintainQueue();
+
+      // 定期的なリース監視を開始
+      this.startLeaseMonitor();
+
+      this.isInitialized = true;
+      logger.info("AIタスクブートストラップの初期化が完了しました");
+    } catch (error) {
+      logger.error(
+        { err: error },
+        "AIタスクブートストラップの初期化に失敗しました",
       );
+      throw error;
+    }
+  }
+
+  /**
+   * キューの保守処理を実行
+   * 複数インスタンスから同時に実行されても問題ないよう、再配信はDB側で排他制御される
+   */
+  async maintainQueue(): Promise<void> {
+    if (!this.queueService || !this.workerPool || this.isMaintaining) {
+      return;
+    }
+
+    this.isMaintaining = true;
+    try {
+      // リース期限切れのタスクをキューに戻す
+      await this.queueService.requeueExpiredTasks();
+
+      // 再配信回数の上限に達したタスクを失敗としてマーク
+      await this.recoverExpiredLeaseTasks();
+
+      // 実行するタスクが存在しないQ&A履歴をエラーとしてマーク
+      await this.recoverOrphanedQaHistories();
 
       // キューにあるタスクのAPIキーハッシュを取得してワーカーを開始
       const apiKeyHashes =
         await this.queueService.findDistinctApiKeyHashesInQueue();
 
-      logger.info(
+      logger.debug(
         { apiKeyHashCount: apiKeyHashes.length },
         "キュー内のAPIキーハッシュを検出しました",
       );
 
       for (const apiKeyHash of apiKeyHashes) {
-        await this.workerPool.startWorkers(apiKeyHash);
+        if (!this.workerPool.hasWorkers(apiKeyHash)) {
+          await this.workerPool.startWorkers(apiKeyHash);
+        }
       }
-
-      this.isInitialized = true;
-      logger.info("AIタスクブートストラップの初期化が完了しました");
-    } catch (error) {
-      logger.error(
-        { err: error },
-        "AIタスクブートストラップの初期化に失敗しました",
-      );
-      throw error;
+    } finally {
+      this.isMaintaining = false;
     }
   }
 
   /**
-   * 処理中で止まっていたタスクを復元
-   * システム再起動時に処理中だったタスクは失敗として扱う
+   * リース監視を開始する
+   */
+  private startLeaseMonitor(): void {
+    this.leaseMonitorTimer = setInterval(() => {
+      this.maintainQueue().catch((error) => {
+        logger.error(
+          { err: error },
+          "キューの保守処理中にエラーが発生しました",
+        );
+      });
+    }, getLeaseCheckIntervalMs());
+    // リース監視のみでプロセスが終了できなくならないようにする
+    this.leaseMonitorTimer.unref?.();
+  }
+
+  /**
+   * リース期限切れのまま残っているタスクを失敗として処理する
+   * 再配信回数の上限に達したタスクが対象（それ以外は直前に再配信済み）
    * 関連するエンティティ（review_targets, review_spaces）のステータスも更新する
    */
-  private async recoverStuckTasks(
-    aiTaskRepository: AiTaskRepository,
-    reviewTargetRepository: ReviewTargetRepository,
-    reviewSpaceRepository: ReviewSpaceRepository,
-  ): Promise<void> {
-    const processingTasks = await aiTaskRepository.findByStatus(
-      AI_TASK_STATUS.PROCESSING,
-    );
+  private async recoverExpiredLeaseTasks(): Promise<void> {
+    if (
+      !this.aiTaskRepository ||
+      !this.reviewTargetRepository ||
+      !this.reviewSpaceRepository
+    ) {
+      return;
+    }
 
-    if (processingTasks.length === 0) {
-      logger.info("復元対象の処理中タスクはありません");
+    const expiredTasks = await this.aiTaskRepository.findLeaseExpiredTasks();
+
+    if (expiredTasks.length === 0) {
       return;
     }
 
     logger.info(
-      { count: processingTasks.length },
-      "処理中のタスクを失敗としてマークします",
+      { count: expiredTasks.length },
+      "再配信回数の上限に達したタスクを失敗としてマークします",
     );
 
-    const errorMessage = "システム再起動により処理が中断されました";
+    const errorMessage =
+      "ワーカーの応答が途絶えたため処理が中断されました（再実行回数の上限に達しました）";
 
-    for (const task of processingTasks) {
+    for (const task of expiredTasks) {
       try {
         // タスクを失敗としてマーク
         const failedTask = task.failWithError(errorMessage);
 
         // DBを更新（その後すぐ削除されるが、ログ目的で一旦保存）
-        await aiTaskRepository.save(failedTask);
+        await this.aiTaskRepository.save(failedTask);
 
         // タスク種別に応じて関連エンティティのステータスを更新
         await this.updateRelatedEntityStatus(
           task.taskType.value,
           task.payload,
-          reviewTargetRepository,
-          reviewSpaceRepository,
+          this.reviewTargetRepository,
+          this.reviewSpaceRepository,
           errorMessage,
         );
 
@@ -170,11 +325,20 @@ export class AiTaskBootstrap {
         await TaskFileHelper.deleteTaskFiles(task.id.value);
 
         // DBからタスクを削除
-        await aiTaskRepository.delete(task.id);
+        await this.aiTaskRepository.delete(task.id);
+
+        // 分析用に実行履歴を記録
+        await this.aiTaskHistoryRepository?.save(
+          AiTaskHistory.fromTask(failedTask),
+        );
 
         logger.warn(
-          { taskId: task.id.value, taskType: task.taskType.value },
-          "処理中タスクを失敗としてマークし、削除しました",
+          {
+            taskId: task.id.value,
+            taskType: task.taskType.value,
+            deliveryCount: task.deliveryCount,
+          },
+          "リース期限切れのタスクを失敗としてマークし、削除しました",
         );
       } catch (error) {
         logger.error(
@@ -185,6 +349,75 @@ export class AiTaskBootstrap {
     }
   }
 
+  /**
+   * 処理待ち・処理中のまま、実行するタスクが存在しないQ&A履歴をエラーとして処理する
+   * タスク登録前のプロセス終了などで取り残されたQ&A履歴が対象
+   * タスク登録直後のQ&A履歴を誤って対象としないよう、リース期間以上更新されていないものに限定する
+   */
+  private async recoverOrphanedQaHistories(): Promise<void> {
+    if (!this.qaHistoryRepository) {
+      return;
+    }
+
+    const orphaned = await this.qaHistoryRepository.findOrphaned(
+      new Date(Date.now() - getLeaseDurationMs()),
+    );
+
+    if (orphaned.length === 0) {
+      return;
+    }
+
+    logger.info(
+      { count: orphaned.length },
+      "実行するタスクが存在しないQ&A履歴をエラーとしてマークします",
+    );
+
+    for (const qaHistory of orphaned) {
+      await this.failQaHistory(
+        qaHistory.id.value,
+        "処理が中断されました。もう一度質問してください",
+      );
+    }
+  }
+
+  /**
+   * Q&A履歴をエラーとして記録し、エラーイベントを発行する
+   * SSEで接続中・再接続したクライアントにもエラーが通知される
+   */
+  private async failQaHistory(
+    qaHistoryId: string,
+    errorMessage: string,
+  ): Promise<void> {
+    if (!this.qaHistoryRepository || !this.qaHistoryEventRepository) {
+      return;
+    }
+
+    try {
+      const qaHistoryIdVo = QaHistoryId.reconstruct(qaHistoryId);
+      await this.qaHistoryRepository.updateError(qaHistoryIdVo, errorMessage);
+
+      const eventBroker = new RecordingQaEventBroker(
+        InMemoryEventBroker.getInstance(),
+        this.qaHistoryEventRepository,
+        qaHistoryIdVo,
+        await this.qaHistoryEventRepository.findLatestSequence(qaHistoryIdVo),
+      );
+      const errorEvent: QaErrorEvent = {
+        type: "error",
+        data: { message: errorMessage },
+      };
+      eventBroker.broadcast(`qa:${qaHistoryId}`, errorEvent);
+      await eventBroker.flush();
+
+      logger.info({ qaHistoryId }, "Q&A履歴のステータスをerrorに更新しました");
+    } catch (error) {
+      logger.error(
+        { err: error, qaHistoryId },
+        "Q&A履歴のステータス更新に失敗しました",
+      );
+    }
+  }
+
   /**
    * タスク種別に応じて関連エンティティのステータスを更新
    */
@@ -244,12 +477,16 @@ export class AiTaskBootstrap {
           "チェックリスト生成エラーの保存に失敗しました",
         );
       }
+    } else if (taskType === AI_TASK_TYPE.QA_EXECUTION) {
+      // Q&A実行タスクの場合: qa_historiesをerrorに更新
+      const qaPayload = payload as QaExecutionTaskPayload;
+      await this.failQaHistory(qaPayload.qaHistoryId, errorMessage);
     }
   }
 
   /**
    * シャットダウンを実行
-   * 全ワーカーを停止
+   * リース監視と全ワーカーを停止
    */
   async shutdown(): Promise<void> {
     if (!this.isInitialized) {
@@ -259,6 +496,11 @@ export class AiTaskBootstrap {
     logger.info("AIタスクブートストラップをシャットダウンします");
 
     try {
+      if (this.leaseMonitorTimer) {
+        clearInterval(this.leaseMonitorTimer);
+        this.leaseMonitorTimer = null;
+      }
+
       if (this.workerPool) {
         await this.workerPool.stopAllWorkers();
       }
@@ -1,14 +1,31 @@
 import { RuntimeContext } from "@mastra/core/di";
 import type { AiTaskDto, AiTaskTypeValue } from "@/domain/aiTask";
-import { AI_TASK_TYPE } from "@/domain/aiTask";
+import {
+  AI_TASK_TYPE,
+  AiTaskFileMetadataId,
+  AiTaskId,
+  AiTokenUsage,
+} from "@/domain/aiTask";
+import { IAiTaskRepository } from "@/application/shared/port/repository/IAiTaskRepository";
 import { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
 import { IReviewResultRepository } from "@/application/shared/port/repository/IReviewResultRepository";
 import { ICheckListItemRepository } from "@/application/shared/port/repository/ICheckListItemRepository";
 import { IReviewDocumentCacheRepository } from "@/application/shared/port/repository/IReviewDocumentCacheRepository";
 import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
 import { ILargeDocumentResultCacheRepository } from "@/application/shared/port/repository/ILargeDocumentResultCacheRepository";
+import type { IAiTokenUsageRepository } from "@/application/shared/port/repository/IAiTokenUsageRepository";
+import type { IAiTaskFileMetadataRepository } from "@/application/shared/port/repository/IAiTaskFileMetadataRepository";
+import type { IDocumentIndex } from "@/application/shared/port/documentIndex";
 import { IWorkflowRunRegistry } from "@/application/aiTask/WorkflowRunRegistry";
+import type { PluginHookRunnerFactory } from "@/application/reviewSpacePlugin/PluginHookRunnerFactory";
+import type { NotifyTaskCompletionService } from "@/application/notification/NotifyTaskCompletionService";
+import type { RunQaWorkflowService } from "@/application/qaHistory/RunQaWorkflowService";
+import type {
+  PublishWebhookEventService,
+  PublishWebhookEventCommand,
+} from "@/application/webhook/PublishWebhookEventService";
 import type { AiApiConfig } from "@/application/shared/lib/resolveAiApiConfig";
+import type { ChunkingConfig } from "@/application/mastra/lib/chunking";
 import { ReviewTargetId, ReviewDocumentCache } from "@/domain/reviewTarget";
 import { ReviewSpaceId } from "@/domain/reviewSpace";
 import { CheckListItem } from "@/domain/checkListItem";
@@ -21,8 +38,17 @@ import {
   mastra,
   checkWorkflowResult,
   FILE_BUFFERS_CONTEXT_KEY,
+  PLUGIN_HOOK_RUNNER_CONTEXT_KEY,
+  DOCUMENT_INDEX_CONTEXT_KEY,
+  AI_API_RETRY_CONTEXT_KEY,
+  getAiApiRetryMaxAttempts,
 } from "@/application/mastra";
+import {
+  AI_TOKEN_USAGE_CONTEXT_KEY,
+  AiTokenUsageCollector,
+} from "@/application/mastra/lib/aiTokenUsage";
 import type {
+  AiApiRetryContext,
   RawUploadFileMeta,
   FileBuffersMap,
   ReviewExecutionWorkflowRuntimeContext,
@@ -32,8 +58,14 @@ import type {
   ReviewType,
   CachedDocument,
   IndividualDocumentResult,
+  CheckListItem as ReviewCheckListItem,
 } from "@/application/mastra";
 import { ReviewResultId } from "@/domain/reviewResult";
+import {
+  NOTIFICATION_TYPE,
+  NotificationTypeValue,
+} from "@/domain/notification";
+import { WEBHOOK_EVENT } from "@/domain/webhook";
 
 const logger = getLogger();
 
@@ -51,8 +83,8 @@ export interface ReviewTaskPayload {
   employeeId: string;
   /** ファイルメタデータ */
   files: RawUploadFileMeta[];
-  /** チェックリスト項目 */
-  checkListItems: Array<{ id: string; content: string }>;
+  /** チェックリスト項目（カテゴリ・重要度・ガイダンスを含む） */
+  checkListItems: ReviewCheckListItem[];
   /** レビュー設定 */
   reviewSettings?: {
     additionalInstructions?: string | null;
@@ -64,6 +96,11 @@ export interface ReviewTaskPayload {
   reviewType: ReviewType;
   /** 確定済みAI API設定 */
   aiApiConfig: AiApiConfig;
+  /**
+   * 確定済みのドキュメント分割設定（大量レビュー時のみ）
+   * 分割設定導入前にキューイングされたタスクでは未設定
+   */
+  chunkingConfig?: ChunkingConfig;
   /** リトライモードフラグ */
   isRetry?: boolean;
   /** リトライ範囲（isRetry=trueの場合のみ） */
@@ -90,6 +127,24 @@ export interface ChecklistGenerationTaskPayload {
   aiApiConfig: AiApiConfig;
 }
 
+/**
+ * Q&A実行タスクのペイロード型
+ */
+export interface QaExecutionTaskPayload {
+  /** Q&A履歴ID */
+  qaHistoryId: string;
+  /** レビュー対象ID */
+  reviewTargetId: string;
+  /** レビュースペースID */
+  reviewSpaceId: string;
+  /** 質問したユーザーID（DBのUUID） */
+  userId: string;
+  /** 社員ID（Keycloakのpreferred_username） */
+  employeeId: string;
+  /** 確定済みAI API設定 */
+  aiApiConfig: AiApiConfig;
+}
+
 /**
  * タスク実行結果
  */
@@ -113,6 +168,14 @@ export class AiTaskExecutor {
     private readonly reviewSpaceRepository: IReviewSpaceRepository,
     private readonly largeDocumentResultCacheRepository: ILargeDocumentResultCacheRepository,
     private readonly workflowRunRegistry?: IWorkflowRunRegistry,
+    private readonly pluginHookRunnerFactory?: PluginHookRunnerFactory,
+    private readonly taskCompletionNotifier?: NotifyTaskCompletionService,
+    private readonly aiTaskRepository?: IAiTaskRepository,
+    private readonly webhookEventPublisher?: PublishWebhookEventService,
+    private readonly qaWorkflowRunner?: RunQaWorkflowService,
+    private readonly aiTokenUsageRepository?: IAiTokenUsageRepository,
+    private readonly documentIndex?: IDocumentIndex,
+    private readonly aiTaskFileMetadataRepository?: IAiTaskFileMetadataRepository,
   ) {}
 
   /**
@@ -128,6 +191,32 @@ export class AiTaskExecutor {
       "タスク実行を開始します",
     );
 
+    // レビュー開始を外部システムに通知
+    await this.publishTaskWebhookEvent(task, taskType);
+
+    const tokenUsage = new AiTokenUsageCollector();
+    const result = await this.executeTask(task, taskType, tokenUsage);
+
+    // 成否に関わらずAIトークン使用量を記録
+    await this.recordTokenUsage(task, taskType, tokenUsage);
+
+    // 完了・失敗をプロジェクトメンバーに通知
+    await this.notifyTaskCompletion(task, taskType, result);
+
+    // 完了・失敗を外部システムに通知
+    await this.publishTaskWebhookEvent(task, taskType, result);
+
+    return result;
+  }
+
+  /**
+   * タスク種別に応じた処理を実行する
+   */
+  private async executeTask(
+    task: AiTaskDto,
+    taskType: AiTaskTypeValue,
+    tokenUsage: AiTokenUsageCollector,
+  ): Promise<TaskExecutionResult> {
     try {
       // ファイルバッファを読み込む
       const fileBuffers = await this.loadFileBuffers(task);
@@ -135,9 +224,15 @@ export class AiTaskExecutor {
       switch (taskType) {
         case AI_TASK_TYPE.SMALL_REVIEW:
         case AI_TASK_TYPE.LARGE_REVIEW:
-          return await this.executeReviewTask(task, fileBuffers);
+          return await this.executeReviewTask(task, fileBuffers, tokenUsage);
         case AI_TASK_TYPE.CHECKLIST_GENERATION:
-          return await this.executeChecklistGenerationTask(task, fileBuffers);
+          return await this.executeChecklistGenerationTask(
+            task,
+            fileBuffers,
+            tokenUsage,
+          );
+        case AI_TASK_TYPE.QA_EXECUTION:
+          return await this.executeQaTask(task, tokenUsage);
         default:
           throw new Error(`Unknown task type: ${taskType}`);
       }
@@ -156,6 +251,207 @@ export class AiTaskExecutor {
     }
   }
 
+  /**
+   * タスクで使用したAIトークン数を記録する
+   * 課金対象のプロジェクトはペイロードのレビュースペースから特定する
+   * 記録の失敗はタスクの実行結果に影響させない
+   */
+  private async recordTokenUsage(
+    task: AiTaskDto,
+    taskType: AiTaskTypeValue,
+    tokenUsage: AiTokenUsageCollector,
+  ): Promise<void> {
+    const totals = tokenUsage.getTotals();
+    if (!this.aiTokenUsageRepository || totals.requestCount === 0) {
+      return;
+    }
+
+    try {
+      const payload = task.payload as unknown as {
+        reviewSpaceId: string;
+        reviewTargetId?: string;
+        qaHistoryId?: string;
+        aiApiConfig: AiApiConfig;
+      };
+      const reviewSpace = await this.reviewSpaceRepository.findById(
+        ReviewSpaceId.reconstruct(payload.reviewSpaceId),
+      );
+      if (!reviewSpace) {
+        logger.warn(
+          { taskId: task.id, taskType, ...totals },
+          "レビュースペースが削除されたためAIトークン使用量を記録できません",
+        );
+        return;
+      }
+
+      await this.aiTokenUsageRepository.save(
+        AiTokenUsage.create({
+          taskId: task.id,
+          taskType,
+          projectId: reviewSpace.projectId.value,
+          reviewSpaceId: payload.reviewSpaceId,
+          reviewTargetId: payload.reviewTargetId,
+          qaHistoryId: payload.qaHistoryId,
+          model: payload.aiApiConfig.apiModel,
+          ...totals,
+        }),
+      );
+    } catch (error) {
+      logger.warn(
+        { err: normalizeUnknownError(error), taskId: task.id, taskType },
+        "AIトークン使用量の記録に失敗しました",
+      );
+    }
+  }
+
+  /**
+   * タスクの完了・失敗を通知する
+   * 通知の失敗はタスクの実行結果に影響させない
+   */
+  private async notifyTaskCompletion(
+    task: AiTaskDto,
+    taskType: AiTaskTypeValue,
+    result: TaskExecutionResult,
+  ): Promise<void> {
+    if (!this.taskCompletionNotifier) {
+      return;
+    }
+
+    try {
+      if (taskType === AI_TASK_TYPE.CHECKLIST_GENERATION) {
+        const payload =
+          task.payload as unknown as ChecklistGenerationTaskPayload;
+        await this.taskCompletionNotifier.execute({
+          type: result.success
+            ? NOTIFICATION_TYPE.CHECKLIST_GENERATION_COMPLETED
+            : NOTIFICATION_TYPE.CHECKLIST_GENERATION_FAILED,
+          reviewSpaceId: payload.reviewSpaceId,
+          errorMessage: result.errorMessage,
+        });
+        return;
+      }
+
+      if (
+        taskType === AI_TASK_TYPE.SMALL_REVIEW ||
+        taskType === AI_TASK_TYPE.LARGE_REVIEW
+      ) {
+        const payload = task.payload as unknown as ReviewTaskPayload;
+        let type: NotificationTypeValue;
+        if (payload.isRetry === true) {
+          type = result.success
+            ? NOTIFICATION_TYPE.RETRY_COMPLETED
+            : NOTIFICATION_TYPE.RETRY_FAILED;
+        } else {
+          type = result.success
+            ? NOTIFICATION_TYPE.REVIEW_COMPLETED
+            : NOTIFICATION_TYPE.REVIEW_FAILED;
+        }
+        await this.taskCompletionNotifier.execute({
+          type,
+          reviewSpaceId: payload.reviewSpaceId,
+          reviewTargetId: payload.reviewTargetId,
+          errorMessage: result.errorMessage,
+        });
+      }
+    } catch (error) {
+      logger.warn(
+        { err: normalizeUnknownError(error), taskId: task.id, taskType },
+        "タスク完了通知の送信に失敗しました",
+      );
+    }
+  }
+
+  /**
+   * タスクの開始・完了・失敗をWebhookイベントとして発行する
+   * 実行結果を渡さない場合は開始イベントを発行する
+   * 発行の失敗はタスクの実行結果に影響させない
+   */
+  private async publishTaskWebhookEvent(
+    task: AiTaskDto,
+    taskType: AiTaskTypeValue,
+    result?: TaskExecutionResult,
+  ): Promise<void> {
+    if (!this.webhookEventPublisher) {
+      return;
+    }
+
+    let command: PublishWebhookEventCommand | null = null;
+    if (taskType === AI_TASK_TYPE.CHECKLIST_GENERATION) {
+      // チェックリスト生成は完了のみ通知する
+      if (result?.success) {
+        const payload =
+          task.payload as unknown as ChecklistGenerationTaskPayload;
+        command = {
+          event: WEBHOOK_EVENT.CHECKLIST_GENERATED,
+          reviewSpaceId: payload.reviewSpaceId,
+          data: {},
+        };
+      }
+    } else if (
+      taskType === AI_TASK_TYPE.SMALL_REVIEW ||
+      taskType === AI_TASK_TYPE.LARGE_REVIEW
+    ) {
+      const payload = task.payload as unknown as ReviewTaskPayload;
+      const data = {
+        reviewTargetId: payload.reviewTargetId,
+        isRetry: payload.isRetry === true,
+      };
+      if (!result) {
+        command = {
+          event: WEBHOOK_EVENT.REVIEW_STARTED,
+          reviewSpaceId: payload.reviewSpaceId,
+          data,
+        };
+      } else if (result.success) {
+        command = {
+          event: WEBHOOK_EVENT.REVIEW_COMPLETED,
+          reviewSpaceId: payload.reviewSpaceId,
+          data,
+        };
+      } else {
+        command = {
+          event: WEBHOOK_EVENT.REVIEW_FAILED,
+          reviewSpaceId: payload.reviewSpaceId,
+          data: { ...data, errorMessage: result.errorMessage ?? null },
+        };
+      }
+    }
+
+    if (!command) {
+      return;
+    }
+
+    try {
+      await this.webhookEventPublisher.execute(command);
+    } catch (error) {
+      logger.warn(
+        { err: normalizeUnknownError(error), taskId: task.id, taskType },
+        "Webhookイベントの発行に失敗しました",
+      );
+    }
+  }
+
+  /**
+   * AI API呼び出しのリトライ設定を作成する
+   * リトライが発生するたびにタスクのリトライ回数を加算し、ユーザーに表示できるようにする
+   */
+  private createAiApiRetryContext(task: AiTaskDto): AiApiRetryContext {
+    return {
+      maxAttempts: getAiApiRetryMaxAttempts(),
+      onRetry: async (event) => {
+        logger.info(
+          { taskId: task.id, ...event },
+          "AI API呼び出しを再試行します",
+        );
+        if (this.aiTaskRepository) {
+          await this.aiTaskRepository.incrementAiApiRetryCount(
+            AiTaskId.reconstruct(task.id),
+          );
+        }
+      },
+    };
+  }
+
   /**
    * ファイルバッファを読み込む
    */
@@ -185,10 +481,18 @@ export class AiTaskExecutor {
           convertedImageBuffers,
         });
       } else if (fm.filePath) {
-        // テキストモード: 元ファイルを読み込む
+        // テキストモード、または変換済み画像がない画像モード: 元ファイルを読み込む
         const buffer = await TaskFileHelper.loadFile(fm.filePath);
         fileBuffers.set(matchingFile.id, {
           buffer,
+          // サーバー側で画像に変換した場合は変換済み画像としてキューファイルに保存する
+          // 枚数を記録し、リース期限切れで再配信された場合は変換済み画像を読み込んで再変換しない
+          ...(fm.processMode === "image" && {
+            onImagesRendered: async (images: Buffer[]) => {
+              await TaskFileHelper.saveConvertedImages(task.id, fm.id, images);
+              await this.saveConvertedImageCount(fm.id, images.length);
+            },
+          }),
         });
       }
     }
@@ -196,12 +500,33 @@ export class AiTaskExecutor {
     return fileBuffers;
   }
 
+  /**
+   * サーバー側で変換した画像の枚数をファイルメタデータに記録する
+   */
+  private async saveConvertedImageCount(
+    fileMetadataId: string,
+    convertedImageCount: number,
+  ): Promise<void> {
+    if (!this.aiTaskFileMetadataRepository) {
+      return;
+    }
+    const metadata = await this.aiTaskFileMetadataRepository.findById(
+      AiTaskFileMetadataId.reconstruct(fileMetadataId),
+    );
+    if (metadata) {
+      await this.aiTaskFileMetadataRepository.save(
+        metadata.withConvertedImageCount(convertedImageCount),
+      );
+    }
+  }
+
   /**
    * レビュータスクを実行
    */
   private async executeReviewTask(
     task: AiTaskDto,
     fileBuffers: FileBuffersMap,
+    tokenUsage: AiTokenUsageCollector,
   ): Promise<TaskExecutionResult> {
     const payload = task.payload as unknown as ReviewTaskPayload;
     const reviewTargetId = ReviewTargetId.reconstruct(payload.reviewTargetId);
@@ -233,8 +558,18 @@ export class AiTaskExecutor {
       );
     }
 
+    // リース期限切れによる再配信の場合、前回の配信で保存された結果を破棄してやり直す
+    // レビュー対象は前回の配信でreviewingに遷移済みのため、そのまま再開する
+    const isRedelivery = task.deliveryCount > 1;
+    if (isRedelivery) {
+      await this.discardRedeliveredReviewResults(payload, reviewTargetId);
+    }
+
     // ステータスをreviewingに更新
-    const reviewingTarget = reviewTarget.startReviewing();
+    const reviewingTarget =
+      isRedelivery && reviewTarget.status.isReviewing()
+        ? reviewTarget
+        : reviewTarget.startReviewing();
     await this.reviewTargetRepository.save(reviewingTarget);
 
     try {
@@ -245,12 +580,57 @@ export class AiTaskExecutor {
       runtimeContext.set("aiApiKey", payload.aiApiConfig.apiKey);
       runtimeContext.set("aiApiUrl", payload.aiApiConfig.apiUrl);
       runtimeContext.set("aiApiModel", payload.aiApiConfig.apiModel);
+      runtimeContext.set("aiApiRateLimit", payload.aiApiConfig.rateLimit);
+      runtimeContext.set(
+        "aiModelEndpoints",
+        payload.aiApiConfig.modelEndpoints,
+      );
       runtimeContext.set("reviewTargetId", payload.reviewTargetId);
+      runtimeContext.set(
+        AI_API_RETRY_CONTEXT_KEY,
+        this.createAiApiRetryContext(task),
+      );
+      runtimeContext.set(AI_TOKEN_USAGE_CONTEXT_KEY, tokenUsage);
+
+      // レビュースペースの有効なプラグインを読み込む
+      const pluginHookRunner = this.pluginHookRunnerFactory
+        ? await this.pluginHookRunnerFactory.createForReviewSpace(
+            payload.reviewSpaceId,
+          )
+        : null;
+      if (pluginHookRunner) {
+        runtimeContext.set(PLUGIN_HOOK_RUNNER_CONTEXT_KEY, pluginHookRunner);
+      }
+
+      // 大量レビューでチェック項目に関連するセクションのみを送るため、意味検索インデックスを設定
+      if (this.documentIndex) {
+        runtimeContext.set(DOCUMENT_INDEX_CONTEXT_KEY, this.documentIndex);
+      }
 
-      // DB保存コールバックを設定
-      const onReviewResultSaved = createReviewResultSavedCallback(
+      // DB保存コールバックを設定（afterResultsフックがある場合は保存前に適用）
+      const saveReviewResults = createReviewResultSavedCallback(
         this.reviewResultRepository,
       );
+      const onReviewResultSaved = pluginHookRunner?.hasHook("afterResults")
+        ? async (
+            results: SingleReviewResult[],
+            targetId: string,
+          ): Promise<void> => {
+            const hookedResults =
+              await pluginHookRunner.runAfterResults(results);
+            // プラグインには根拠を渡さないため、チェック項目内容をキーに元の根拠を引き継ぐ
+            const evidenceByContent = new Map(
+              results.map((r) => [r.checkListItemContent, r.evidence]),
+            );
+            await saveReviewResults(
+              hookedResults.map((r) => ({
+                ...r,
+                evidence: evidenceByContent.get(r.checkListItemContent),
+              })),
+              targetId,
+            );
+          }
+        : saveReviewResults;
       runtimeContext.set("onReviewResultSaved", onReviewResultSaved);
 
       // 大量レビュー時の個別結果保存コールバックを設定
@@ -374,6 +754,23 @@ export class AiTaskExecutor {
               cachePath,
             });
             await this.reviewDocumentCacheRepository.save(cache);
+
+            // テキストモードのドキュメントは意味検索インデックスを作成
+            // 作成に失敗してもレビューは文字数での分割で継続できるため、エラーにはしない
+            if (this.documentIndex && file.processMode === "text") {
+              try {
+                await this.documentIndex.buildIndex(
+                  cache.id.value,
+                  file.textContent ?? "",
+                  { runtimeContext },
+                );
+              } catch (error) {
+                logger.warn(
+                  { err: error, reviewTargetId: targetId, fileName: file.name },
+                  "ドキュメントの意味検索インデックスの作成に失敗しました",
+                );
+              }
+            }
           }
         };
         runtimeContext.set("onExtractedFilesCached", onExtractedFilesCached);
@@ -397,6 +794,7 @@ export class AiTaskExecutor {
             checkListItems: payload.checkListItems,
             reviewSettings: payload.reviewSettings,
             reviewType: payload.reviewType,
+            chunkingConfig: payload.chunkingConfig,
           },
           runtimeContext,
         });
@@ -477,6 +875,47 @@ export class AiTaskExecutor {
     }
   }
 
+  /**
+   * 再配信されたレビュータスクについて、前回の配信で保存されたレビュー結果を削除する
+   * - 通常実行: レビュー対象の結果とドキュメントキャッシュをすべて削除（ファイル処理からやり直す）
+   * - リトライ: リトライ対象のチェック項目の結果のみ削除（対象外の項目の結果は残す）
+   */
+  private async discardRedeliveredReviewResults(
+    payload: ReviewTaskPayload,
+    reviewTargetId: ReviewTargetId,
+  ): Promise<void> {
+    if (payload.isRetry !== true) {
+      await this.reviewResultRepository.deleteByReviewTargetId(reviewTargetId);
+      await this.reviewDocumentCacheRepository.deleteByReviewTargetId(
+        reviewTargetId,
+      );
+      logger.info(
+        { reviewTargetId: payload.reviewTargetId },
+        "再配信のため前回のレビュー結果とドキュメントキャッシュを削除しました",
+      );
+      return;
+    }
+
+    const retryContents = new Set(
+      payload.checkListItems.map((item) => item.content),
+    );
+    const savedResults =
+      await this.reviewResultRepository.findByReviewTargetId(reviewTargetId);
+    const resultsToDelete = savedResults.filter((result) =>
+      retryContents.has(result.checkListItemContent),
+    );
+    for (const result of resultsToDelete) {
+      await this.reviewResultRepository.delete(result.id);
+    }
+    logger.info(
+      {
+        reviewTargetId: payload.reviewTargetId,
+        deletedCount: resultsToDelete.length,
+      },
+      "再配信のため前回のリトライで保存されたレビュー結果を削除しました",
+    );
+  }
+
   /**
    * キャッシュからドキュメントを読み込む
    */
@@ -522,12 +961,38 @@ export class AiTaskExecutor {
     return cachedDocuments;
   }
 
+  /**
+   * Q&A実行タスクを実行
+   * ワークフローの実行・進捗イベントの記録はRunQaWorkflowServiceに委譲する
+   */
+  private async executeQaTask(
+    task: AiTaskDto,
+    tokenUsage: AiTokenUsageCollector,
+  ): Promise<TaskExecutionResult> {
+    if (!this.qaWorkflowRunner) {
+      throw new Error("Q&Aワークフローの実行サービスが設定されていません");
+    }
+
+    const payload = task.payload as unknown as QaExecutionTaskPayload;
+    return this.qaWorkflowRunner.execute({
+      taskId: task.id,
+      qaHistoryId: payload.qaHistoryId,
+      reviewSpaceId: payload.reviewSpaceId,
+      userId: payload.userId,
+      employeeId: payload.employeeId,
+      aiApiConfig: payload.aiApiConfig,
+      aiApiRetryContext: this.createAiApiRetryContext(task),
+      aiTokenUsage: tokenUsage,
+    });
+  }
+
   /**
    * チェックリスト生成タスクを実行
    */
   private async executeChecklistGenerationTask(
     task: AiTaskDto,
     fileBuffers: FileBuffersMap,
+    tokenUsage: AiTokenUsageCollector,
   ): Promise<TaskExecutionResult> {
     const payload = task.payload as unknown as ChecklistGenerationTaskPayload;
     const reviewSpaceId = ReviewSpaceId.reconstruct(payload.reviewSpaceId);
@@ -539,7 +1004,14 @@ export class AiTaskExecutor {
     runtimeContext.set("aiApiKey", payload.aiApiConfig.apiKey);
     runtimeContext.set("aiApiUrl", payload.aiApiConfig.apiUrl);
     runtimeContext.set("aiApiModel", payload.aiApiConfig.apiModel);
+    runtimeContext.set("aiApiRateLimit", payload.aiApiConfig.rateLimit);
+    runtimeContext.set("aiModelEndpoints", payload.aiApiConfig.modelEndpoints);
     runtimeContext.set(FILE_BUFFERS_CONTEXT_KEY, fileBuffers);
+    runtimeContext.set(
+      AI_API_RETRY_CONTEXT_KEY,
+      this.createAiApiRetryContext(task),
+    );
+    runtimeContext.set(AI_TOKEN_USAGE_CONTEXT_KEY, tokenUsage);
 
     // ワークフロー実行
     const workflow = mastra.getWorkflow("checklistGenerationWorkflow");
@@ -605,11 +1077,12 @@ export class AiTaskExecutor {
       };
     }
 
-    // チェック項目をDBに保存
-    const items = workflowResult.generatedItems.map((content) =>
+    // チェック項目をDBに保存（既存項目の後ろに生成順で追加）
+    const items = workflowResult.generatedItems.map((content, index) =>
       CheckListItem.create({
         reviewSpaceId: payload.reviewSpaceId,
         content,
+        displayOrder: index,
       }),
     );
     await this.checkListItemRepository.bulkInsert(items);
@@ -1,9 +1,11 @@
 import { IAiTaskRepository } from "@/application/shared/port/repository/IAiTaskRepository";
 import { IAiTaskFileMetadataRepository } from "@/application/shared/port/repository/IAiTaskFileMetadataRepository";
+import { IAiTaskHistoryRepository } from "@/application/shared/port/repository/IAiTaskHistoryRepository";
 import {
   AiTask,
   AiTaskDto,
   AiTaskFileMetadata,
+  AiTaskHistory,
   AiTaskId,
   AI_TASK_STATUS,
   type ProcessMode,
@@ -15,6 +17,29 @@ import type { AiTaskTypeValue } from "@/domain/aiTask";
 
 const logger = getLogger();
 
+/**
+ * リース期間を取得（ミリ秒）
+ * 環境変数AI_QUEUE_LEASE_DURATION_MSで設定可能（デフォルト: 60000ms）
+ * ワーカーのハートビートが途絶えてからこの期間が経過したタスクは再配信される
+ */
+export const getLeaseDurationMs = (): number => {
+  const duration = parseInt(
+    process.env.AI_QUEUE_LEASE_DURATION_MS || "60000",
+    10,
+  );
+  return isNaN(duration) || duration < 10000 ? 60000 : duration;
+};
+
+/**
+ * 最大配信回数を取得
+ * 環境変数AI_QUEUE_MAX_DELIVERY_COUNTで設定可能（デフォルト: 3）
+ * リース期限切れによる再配信がこの回数に達したタスクは失敗として扱う
+ */
+const getMaxDeliveryCount = (): number => {
+  const count = parseInt(process.env.AI_QUEUE_MAX_DELIVERY_COUNT || "3", 10);
+  return isNaN(count) || count < 1 ? 3 : count;
+};
+
 /**
  * ファイル情報コマンド
  */
@@ -30,13 +55,14 @@ export interface FileInfoCommand {
   /**
    * 処理モード
    * text: テキスト抽出モード（元ファイルを保存）
-   * image: 画像変換モード（変換済み画像を保存）
+   * image: 画像変換モード（変換済み画像を保存、変換済み画像がない場合は元ファイルを保存）
    */
   processMode: ProcessMode;
   /**
    * ファイルデータ
    * テキストモード: 元ファイルのバッファ
    * 画像モード: 空のバッファ（変換済み画像は convertedImageBuffers に格納）
+   *   変換済み画像がない場合は元ファイルのバッファ（実行時にサーバー側で画像に変換する）
    */
   buffer: Buffer;
   /**
@@ -79,6 +105,8 @@ export interface EnqueueTaskResult {
 export interface CompleteTaskCommand {
   /** タスクID */
   taskId: string;
+  /** リースを保持しているワーカーID（指定時はリースを保持している場合のみ完了する） */
+  workerId?: string;
 }
 
 /**
@@ -89,6 +117,18 @@ export interface FailTaskCommand {
   taskId: string;
   /** エラーメッセージ */
   errorMessage: string;
+  /** リースを保持しているワーカーID（指定時はリースを保持している場合のみ失敗とする） */
+  workerId?: string;
+}
+
+/**
+ * リース延長コマンド
+ */
+export interface RenewLeaseCommand {
+  /** タスクID */
+  taskId: string;
+  /** リースを保持しているワーカーID */
+  workerId: string;
 }
 
 /**
@@ -99,6 +139,8 @@ export class AiTaskQueueService {
   constructor(
     private readonly aiTaskRepository: IAiTaskRepository,
     private readonly aiTaskFileMetadataRepository: IAiTaskFileMetadataRepository,
+    /** 実行履歴の記録先（完了・失敗処理を行うワーカー側でのみ指定する） */
+    private readonly aiTaskHistoryRepository?: IAiTaskHistoryRepository,
   ) {}
 
   /**
@@ -156,7 +198,7 @@ export class AiTaskQueueService {
             0,
           );
         } else {
-          // テキストモード: 元ファイルを保存
+          // テキストモード、または変換済み画像がない画像モード: 元ファイルを保存
           filePath = await TaskFileHelper.saveFile(
             task.id.value,
             metadata.id.value,
@@ -185,6 +227,10 @@ export class AiTaskQueueService {
         updatedAt: task.updatedAt,
         startedAt: task.startedAt,
         completedAt: task.completedAt,
+        leaseOwner: task.leaseOwner,
+        leaseExpiresAt: task.leaseExpiresAt,
+        deliveryCount: task.deliveryCount,
+        aiApiRetryCount: task.aiApiRetryCount,
         fileMetadata: fileMetadataWithPaths.map((fm) => ({
           id: fm.id.value,
           taskId: task.id.value,
@@ -233,12 +279,20 @@ export class AiTaskQueueService {
   }
 
   /**
-   * 次のタスクを取得する（処理中に遷移）
+   * 次のタスクを取得する（リースを付与して処理中に遷移）
    * @param apiKeyHash APIキーハッシュ
+   * @param workerId リースを取得するワーカーID
    * @returns タスクDTO（キューが空の場合はnull）
    */
-  async dequeueTask(apiKeyHash: string): Promise<AiTaskDto | null> {
-    const task = await this.aiTaskRepository.dequeueNextTask(apiKeyHash);
+  async dequeueTask(
+    apiKeyHash: string,
+    workerId: string,
+  ): Promise<AiTaskDto | null> {
+    const task = await this.aiTaskRepository.dequeueNextTask(
+      apiKeyHash,
+      workerId,
+      getLeaseDurationMs(),
+    );
 
     if (task) {
       logger.debug(
@@ -246,6 +300,9 @@ export class AiTaskQueueService {
           taskId: task.id.value,
           taskType: task.taskType.value,
           apiKeyHash,
+          workerId,
+          deliveryCount: task.deliveryCount,
+          aiApiRetryCount: task.aiApiRetryCount,
         },
         "タスクをデキューしました",
       );
@@ -254,6 +311,45 @@ export class AiTaskQueueService {
     return task ? task.toDto() : null;
   }
 
+  /**
+   * タスクのリースを延長する（ハートビート）
+   * @param command リース延長コマンド
+   * @returns 延長できた場合true。タスクが削除された（キャンセル）またはリースを失った場合はfalse
+   */
+  async renewLease(command: RenewLeaseCommand): Promise<boolean> {
+    return this.aiTaskRepository.renewLease(
+      AiTaskId.reconstruct(command.taskId),
+      command.workerId,
+      getLeaseDurationMs(),
+    );
+  }
+
+  /**
+   * リース期限切れのタスクをキューに戻す（再配信）
+   * 配信回数が上限に達したタスクは対象外（呼び出し側で失敗として扱う）
+   * @returns キューに戻したタスクDTO配列
+   */
+  async requeueExpiredTasks(): Promise<AiTaskDto[]> {
+    const tasks = await this.aiTaskRepository.requeueExpiredLeases(
+      getMaxDeliveryCount(),
+    );
+
+    for (const task of tasks) {
+      logger.warn(
+        {
+          taskId: task.id.value,
+          taskType: task.taskType.value,
+          apiKeyHash: task.apiKeyHash,
+          deliveryCount: task.deliveryCount,
+          aiApiRetryCount: task.aiApiRetryCount,
+        },
+        "リース期限切れのタスクをキューに戻しました",
+      );
+    }
+
+    return tasks.map((task) => task.toDto());
+  }
+
   /**
    * タスクを完了としてマークし、削除する
    * @param command 完了コマンド
@@ -270,8 +366,16 @@ export class AiTaskQueueService {
       return; // 既に削除されている場合は何もしない
     }
 
-    // 処理中から完了に遷移（結果は使用しないが、状態遷移の妥当性を検証するため呼び出す）
-    task.completeWithSuccess();
+    if (command.workerId && !task.isLeasedBy(command.workerId)) {
+      logger.warn(
+        { taskId: command.taskId, workerId: command.workerId },
+        "リースが他のワーカーに移っているため完了処理をスキップします",
+      );
+      return;
+    }
+
+    // 処理中から完了に遷移
+    const completedTask = task.completeWithSuccess();
 
     logger.info(
       {
@@ -282,6 +386,9 @@ export class AiTaskQueueService {
       "タスクを完了としてマークしました",
     );
 
+    // 分析用に実行履歴を記録
+    await this.recordHistory(completedTask);
+
     // タスクとファイルを削除（シンプル運用）
     await this.cleanupTask(taskId.value, task.apiKeyHash);
   }
@@ -302,8 +409,16 @@ export class AiTaskQueueService {
       return; // 既に削除されている場合は何もしない
     }
 
-    // 処理中から失敗に遷移（結果は使用しないが、状態遷移の妥当性を検証するため呼び出す）
-    task.failWithError(command.errorMessage);
+    if (command.workerId && !task.isLeasedBy(command.workerId)) {
+      logger.warn(
+        { taskId: command.taskId, workerId: command.workerId },
+        "リースが他のワーカーに移っているため失敗処理をスキップします",
+      );
+      return;
+    }
+
+    // 処理中から失敗に遷移
+    const failedTask = task.failWithError(command.errorMessage);
 
     logger.error(
       {
@@ -315,6 +430,9 @@ export class AiTaskQueueService {
       "タスクを失敗としてマークしました",
     );
 
+    // 分析用に実行履歴を記録
+    await this.recordHistory(failedTask);
+
     // タスクとファイルを削除（シンプル運用）
     await this.cleanupTask(taskId.value, task.apiKeyHash);
   }
@@ -358,6 +476,26 @@ export class AiTaskQueueService {
     return tasks.map((task) => task.toDto());
   }
 
+  /**
+   * 完了・失敗したタスクの実行履歴を記録する
+   * 記録に失敗してもタスクの完了・失敗処理は続行する
+   * @param task 完了または失敗に遷移したタスク
+   */
+  private async recordHistory(task: AiTask): Promise<void> {
+    if (!this.aiTaskHistoryRepository) {
+      return;
+    }
+
+    try {
+      await this.aiTaskHistoryRepository.save(AiTaskHistory.fromTask(task));
+    } catch (error) {
+      logger.warn(
+        { err: error, taskId: task.id.value },
+        "タスク実行履歴の記録中にエラーが発生しましたが、続行します",
+      );
+    }
+  }
+
   /**
    * タスクと関連ファイルをクリーンアップする
    * @param taskId タスクID
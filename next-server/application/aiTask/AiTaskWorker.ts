@@ -17,21 +17,41 @@ const getPollingIntervalMs = (): number => {
   return isNaN(interval) || interval < 1000 ? 10000 : interval;
 };
 
+/**
+ * ハートビート間隔を取得（ミリ秒）
+ * 環境変数AI_QUEUE_HEARTBEAT_INTERVAL_MSで設定可能（デフォルト: 15000ms）
+ * リース期間（AI_QUEUE_LEASE_DURATION_MS）より十分短い値を設定すること
+ */
+const getHeartbeatIntervalMs = (): number => {
+  const interval = parseInt(
+    process.env.AI_QUEUE_HEARTBEAT_INTERVAL_MS || "15000",
+    10,
+  );
+  return isNaN(interval) || interval < 1000 ? 15000 : interval;
+};
+
 /**
  * AIタスクワーカー
  * 特定のAPIキーハッシュに対してキューをポーリングし、タスクを実行する
+ *
+ * タスク実行中は定期的にハートビートを送信してリースを延長する。
+ * リースを延長できなかった場合（他インスタンスでタスクが削除・強制停止された、
+ * またはリース期限切れで再配信された場合）は実行中のワークフローをキャンセルし、
+ * タスクの完了・失敗処理は行わない。
  */
 export class AiTaskWorker {
   private _isRunning: boolean = false;
   private _shouldStop: boolean = false;
   private _currentTaskId: string | null = null;
   private _loopPromise: Promise<void> | null = null;
+  private _heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private _leaseLost: boolean = false;
 
   constructor(
     private readonly apiKeyHash: string,
     private readonly queueService: AiTaskQueueService,
     private readonly executor: AiTaskExecutor,
-    private readonly workerId: string,
+    readonly workerId: string,
     private readonly workflowRunRegistry?: IWorkflowRunRegistry,
   ) {}
 
@@ -122,8 +142,11 @@ export class AiTaskWorker {
           continue;
         }
 
-        // キューからタスクを取得（処理中に遷移）
-        const task = await this.queueService.dequeueTask(this.apiKeyHash);
+        // キューからタスクを取得（リースを付与して処理中に遷移）
+        const task = await this.queueService.dequeueTask(
+          this.apiKeyHash,
+          this.workerId,
+        );
 
         if (task) {
           this._currentTaskId = task.id;
@@ -137,12 +160,24 @@ export class AiTaskWorker {
             "タスクを実行開始します",
           );
 
-          // タスクを実行
-          const result = await this.executor.execute(task);
+          // タスクを実行（実行中はハートビートでリースを延長）
+          this.startHeartbeat(task.id);
+          const result = await this.executor
+            .execute(task)
+            .finally(() => this.stopHeartbeat());
 
-          if (result.success) {
+          if (this._leaseLost) {
+            // 他インスタンスでキャンセルされた、または再配信されたタスクは完了・失敗処理を行わない
+            logger.warn(
+              { workerId: this.workerId, taskId: task.id },
+              "リースを失ったため、タスクの完了処理をスキップします",
+            );
+          } else if (result.success) {
             // タスク完了
-            await this.queueService.completeTask({ taskId: task.id });
+            await this.queueService.completeTask({
+              taskId: task.id,
+              workerId: this.workerId,
+            });
             logger.info(
               { workerId: this.workerId, taskId: task.id },
               "タスクが正常に完了しました",
@@ -152,6 +187,7 @@ export class AiTaskWorker {
             await this.queueService.failTask({
               taskId: task.id,
               errorMessage: result.errorMessage || "Unknown error",
+              workerId: this.workerId,
             });
             logger.error(
               {
@@ -174,13 +210,14 @@ export class AiTaskWorker {
           "ワーカーループ中にエラーが発生しました",
         );
 
-        // 現在処理中のタスクがあれば失敗としてマーク
-        if (this._currentTaskId) {
+        // 現在処理中のタスクがあれば失敗としてマーク（リースを失っている場合を除く）
+        if (this._currentTaskId && !this._leaseLost) {
           try {
             await this.queueService.failTask({
               taskId: this._currentTaskId,
               errorMessage:
                 error instanceof Error ? error.message : "ワーカーループエラー",
+              workerId: this.workerId,
             });
           } catch (failError) {
             logger.error(
@@ -188,8 +225,8 @@ export class AiTaskWorker {
               "タスク失敗マーク中にエラーが発生しました",
             );
           }
-          this._currentTaskId = null;
         }
+        this._currentTaskId = null;
 
         // エラー後は短い待機を入れてから再試行
         await this.sleep(5000);
@@ -197,6 +234,60 @@ export class AiTaskWorker {
     }
   }
 
+  /**
+   * ハートビートを開始する
+   * @param taskId 実行中のタスクID
+   */
+  private startHeartbeat(taskId: string): void {
+    this._leaseLost = false;
+    this._heartbeatTimer = setInterval(() => {
+      void this.heartbeat(taskId);
+    }, getHeartbeatIntervalMs());
+  }
+
+  /**
+   * ハートビートを停止する
+   */
+  private stopHeartbeat(): void {
+    if (this._heartbeatTimer) {
+      clearInterval(this._heartbeatTimer);
+      this._heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * リースを延長する
+   * 延長できなかった場合はリースを失ったものとして実行中のワークフローをキャンセルする
+   */
+  private async heartbeat(taskId: string): Promise<void> {
+    if (this._leaseLost) {
+      return;
+    }
+
+    try {
+      const renewed = await this.queueService.renewLease({
+        taskId,
+        workerId: this.workerId,
+      });
+      if (renewed) {
+        return;
+      }
+
+      this._leaseLost = true;
+      logger.warn(
+        { workerId: this.workerId, taskId },
+        "タスクのリースを失ったため、ワークフローをキャンセルします",
+      );
+      await this.workflowRunRegistry?.cancel(taskId);
+    } catch (error) {
+      // 一時的なDBエラー等の場合は次回のハートビートで再試行する
+      logger.warn(
+        { err: error, workerId: this.workerId, taskId },
+        "ハートビートの送信に失敗しました",
+      );
+    }
+  }
+
   /**
    * 指定時間待機
    */
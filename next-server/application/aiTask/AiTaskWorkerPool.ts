@@ -1,6 +1,7 @@
 import { AiTaskWorker } from "./AiTaskWorker";
 import { AiTaskQueueService } from "./AiTaskQueueService";
 import { AiTaskExecutor } from "./AiTaskExecutor";
+import { type IWorkflowRunRegistry } from "./WorkflowRunRegistry";
 import { getLogger } from "@/lib/server/logger";
 import { v4 as uuidv4 } from "uuid";
 
@@ -26,6 +27,7 @@ export class AiTaskWorkerPool {
   constructor(
     private readonly queueService: AiTaskQueueService,
     private readonly executor: AiTaskExecutor,
+    private readonly workflowRunRegistry?: IWorkflowRunRegistry,
   ) {}
 
   /**
@@ -67,6 +69,7 @@ export class AiTaskWorkerPool {
         this.queueService,
         this.executor,
         workerId,
+        this.workflowRunRegistry,
       );
       newWorkers.push(worker);
 
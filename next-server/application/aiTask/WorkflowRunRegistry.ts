@@ -63,6 +63,10 @@ const logger = getLogger();
  * シングルトンパターンで実装。
  * - 実行中のワークフローをタスクIDで追跡
  * - キャンセル中フラグで新規デキューをブロック
+ *
+ * 追跡できるのは自プロセスで実行中のワークフローのみ。
+ * 別インスタンスで実行中のタスクは、AIタスクをDBから削除することで
+ * 実行中のインスタンスがハートビート時にリースを失い、ワークフローをキャンセルする。
  */
 export class WorkflowRunRegistry implements IWorkflowRunRegistry {
   private static instance: WorkflowRunRegistry | null = null;
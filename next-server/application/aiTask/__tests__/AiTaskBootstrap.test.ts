@@ -1,22 +1,45 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { AiTaskBootstrap, getAiTaskBootstrap } from "../AiTaskBootstrap";
 import { AiTask, AI_TASK_TYPE, AI_TASK_STATUS } from "@/domain/aiTask";
-import { ReviewTarget, REVIEW_TARGET_STATUS } from "@/domain/reviewTarget";
+import {
+  ReviewTarget,
+  ReviewTargetId,
+  REVIEW_TARGET_STATUS,
+} from "@/domain/reviewTarget";
+import {
+  QaHistory,
+  QaHistoryEvent,
+  QaHistoryId,
+  Question,
+  CheckListItemContent,
+  QaStatus,
+} from "@/domain/qaHistory";
+import { UserId } from "@/domain/user";
 
 // モック用の関数参照を保持
-let mockFindByStatus = vi.fn().mockResolvedValue([]);
+let mockFindLeaseExpiredTasks = vi.fn().mockResolvedValue([]);
 let mockAiTaskDelete = vi.fn().mockResolvedValue(undefined);
 let mockAiTaskSave = vi.fn().mockResolvedValue(undefined);
 let mockReviewTargetFindById = vi.fn().mockResolvedValue(null);
 let mockReviewTargetSave = vi.fn().mockResolvedValue(undefined);
 let mockUpdateChecklistGenerationError = vi.fn().mockResolvedValue(undefined);
+let mockRequeueExpiredTasks = vi.fn().mockResolvedValue([]);
+let mockFindDistinctApiKeyHashesInQueue = vi.fn().mockResolvedValue([]);
+let mockQaHistoryFindOrphaned = vi.fn().mockResolvedValue([]);
+let mockQaHistoryUpdateError = vi.fn().mockResolvedValue(undefined);
+let mockQaHistoryEventAppend = vi.fn().mockResolvedValue(undefined);
+let mockQaHistoryEventFindLatestSequence = vi.fn().mockResolvedValue(0);
 
 // 依存モジュールのモック
 vi.mock("../AiTaskQueueService", () => {
   return {
     AiTaskQueueService: vi.fn().mockImplementation(() => ({
-      findDistinctApiKeyHashesInQueue: vi.fn().mockResolvedValue([]),
+      requeueExpiredTasks: (...args: unknown[]) =>
+        mockRequeueExpiredTasks(...args),
+      findDistinctApiKeyHashesInQueue: (...args: unknown[]) =>
+        mockFindDistinctApiKeyHashesInQueue(...args),
     })),
+    getLeaseDurationMs: vi.fn().mockReturnValue(5 * 60 * 1000),
   };
 });
 
@@ -36,14 +59,25 @@ vi.mock("../AiTaskExecutor", () => {
   };
 });
 
+vi.mock("@/application/qaHistory/RunQaWorkflowService", () => {
+  return {
+    RunQaWorkflowService: vi.fn().mockImplementation(() => ({})),
+  };
+});
+
 vi.mock("@/infrastructure/adapter/db/drizzle/repository", () => {
   return {
     AiTaskRepository: vi.fn().mockImplementation(() => ({
-      findByStatus: (...args: unknown[]) => mockFindByStatus(...args),
+      findLeaseExpiredTasks: (...args: unknown[]) =>
+        mockFindLeaseExpiredTasks(...args),
       delete: (...args: unknown[]) => mockAiTaskDelete(...args),
       save: (...args: unknown[]) => mockAiTaskSave(...args),
     })),
     AiTaskFileMetadataRepository: vi.fn().mockImplementation(() => ({})),
+    AiTaskHistoryRepository: vi.fn().mockImplementation(() => ({
+      save: vi.fn().mockResolvedValue(undefined),
+    })),
+    AiTokenUsageRepository: vi.fn().mockImplementation(() => ({})),
     ReviewTargetRepository: vi.fn().mockImplementation(() => ({
       findById: (...args: unknown[]) => mockReviewTargetFindById(...args),
       save: (...args: unknown[]) => mockReviewTargetSave(...args),
@@ -51,15 +85,30 @@ vi.mock("@/infrastructure/adapter/db/drizzle/repository", () => {
     ReviewResultRepository: vi.fn().mockImplementation(() => ({})),
     CheckListItemRepository: vi.fn().mockImplementation(() => ({})),
     ReviewDocumentCacheRepository: vi.fn().mockImplementation(() => ({})),
+    ReviewDocumentChunkRepository: vi.fn().mockImplementation(() => ({})),
     ReviewSpaceRepository: vi.fn().mockImplementation(() => ({
       updateChecklistGenerationError: (...args: unknown[]) =>
         mockUpdateChecklistGenerationError(...args),
     })),
     LargeDocumentResultCacheRepository: vi.fn().mockImplementation(() => ({})),
+    ReviewSpacePluginRepository: vi.fn().mockImplementation(() => ({})),
+    ProjectRepository: vi.fn().mockImplementation(() => ({})),
+    NotificationRepository: vi.fn().mockImplementation(() => ({})),
+    WebhookRepository: vi.fn().mockImplementation(() => ({})),
+    WebhookDeliveryRepository: vi.fn().mockImplementation(() => ({})),
     SystemSettingRepository: vi.fn().mockImplementation(() => ({
       find: vi.fn().mockResolvedValue(null),
       save: vi.fn(),
     })),
+    QaHistoryRepository: vi.fn().mockImplementation(() => ({
+      findOrphaned: (...args: unknown[]) => mockQaHistoryFindOrphaned(...args),
+      updateError: (...args: unknown[]) => mockQaHistoryUpdateError(...args),
+    })),
+    QaHistoryEventRepository: vi.fn().mockImplementation(() => ({
+      append: (...args: unknown[]) => mockQaHistoryEventAppend(...args),
+      findLatestSequence: (...args: unknown[]) =>
+        mockQaHistoryEventFindLatestSequence(...args),
+    })),
   };
 });
 
@@ -79,12 +128,18 @@ describe("AiTaskBootstrap", () => {
     vi.clearAllMocks();
 
     // モック関数をリセット
-    mockFindByStatus = vi.fn().mockResolvedValue([]);
+    mockFindLeaseExpiredTasks = vi.fn().mockResolvedValue([]);
     mockAiTaskDelete = vi.fn().mockResolvedValue(undefined);
     mockAiTaskSave = vi.fn().mockResolvedValue(undefined);
     mockReviewTargetFindById = vi.fn().mockResolvedValue(null);
     mockReviewTargetSave = vi.fn().mockResolvedValue(undefined);
     mockUpdateChecklistGenerationError = vi.fn().mockResolvedValue(undefined);
+    mockRequeueExpiredTasks = vi.fn().mockResolvedValue([]);
+    mockFindDistinctApiKeyHashesInQueue = vi.fn().mockResolvedValue([]);
+    mockQaHistoryFindOrphaned = vi.fn().mockResolvedValue([]);
+    mockQaHistoryUpdateError = vi.fn().mockResolvedValue(undefined);
+    mockQaHistoryEventAppend = vi.fn().mockResolvedValue(undefined);
+    mockQaHistoryEventFindLatestSequence = vi.fn().mockResolvedValue(0);
 
     // シングルトンインスタンスをリセット
     // プライベートフィールドにアクセスするためのワークアラウンド
@@ -123,6 +178,20 @@ describe("AiTaskBootstrap", () => {
       expect(bootstrap.getQueueService()).not.toBeNull();
     });
 
+    it("リース期限切れのタスクを再配信し、キューにあるAPIキーハッシュのワーカーを開始する", async () => {
+      // Arrange
+      mockFindDistinctApiKeyHashesInQueue.mockResolvedValue(["hash_a"]);
+
+      // Act
+      await bootstrap.initialize();
+
+      // Assert
+      expect(mockRequeueExpiredTasks).toHaveBeenCalled();
+      expect(bootstrap.getWorkerPool()?.startWorkers).toHaveBeenCalledWith(
+        "hash_a",
+      );
+    });
+
     it("既に初期化済みの場合は何もしない", async () => {
       // Arrange
       await bootstrap.initialize();
@@ -177,6 +246,74 @@ describe("AiTaskBootstrap", () => {
     });
   });
 
+  describe("maintainQueue", () => {
+    it("ワーカーが起動していないAPIキーハッシュのみワーカーを開始する", async () => {
+      // Arrange
+      await bootstrap.initialize();
+      const workerPool = bootstrap.getWorkerPool();
+      vi.mocked(workerPool!.hasWorkers).mockImplementation(
+        (hash: string) => hash === "hash_a",
+      );
+      // 他インスタンスで登録されたタスクを含む
+      mockFindDistinctApiKeyHashesInQueue.mockResolvedValue([
+        "hash_a",
+        "hash_b",
+      ]);
+
+      // Act
+      await bootstrap.maintainQueue();
+
+      // Assert
+      expect(workerPool?.startWorkers).not.toHaveBeenCalledWith("hash_a");
+      expect(workerPool?.startWorkers).toHaveBeenCalledWith("hash_b");
+    });
+
+    it("実行するタスクが存在しないQ&A履歴をエラーに更新し、エラーイベントを記録する", async () => {
+      // Arrange
+      await bootstrap.initialize();
+      const orphanedQaHistoryId = "423e4567-e89b-12d3-a456-426614174004";
+      mockQaHistoryFindOrphaned.mockResolvedValue([
+        QaHistory.reconstruct({
+          id: QaHistoryId.reconstruct(orphanedQaHistoryId),
+          reviewTargetId: ReviewTargetId.reconstruct(
+            "123e4567-e89b-12d3-a456-426614174001",
+          ),
+          userId: UserId.reconstruct("523e4567-e89b-12d3-a456-426614174005"),
+          question: Question.create("テスト質問"),
+          checkListItemContent: CheckListItemContent.create(
+            JSON.stringify(["チェック項目"]),
+          ),
+          threadId: QaHistoryId.reconstruct(orphanedQaHistoryId),
+          answer: null,
+          researchSummary: null,
+          status: QaStatus.reconstruct("pending"),
+          errorMessage: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }),
+      ]);
+      mockQaHistoryEventFindLatestSequence.mockResolvedValue(2);
+
+      // Act
+      await bootstrap.maintainQueue();
+
+      // Assert
+      // リース期間以上更新されていないQ&A履歴が対象となること
+      const updatedBefore = mockQaHistoryFindOrphaned.mock.calls[0][0] as Date;
+      expect(updatedBefore.getTime()).toBeLessThanOrEqual(
+        Date.now() - 5 * 60 * 1000,
+      );
+      expect(mockQaHistoryUpdateError).toHaveBeenCalledWith(
+        expect.objectContaining({ value: orphanedQaHistoryId }),
+        "処理が中断されました。もう一度質問してください",
+      );
+      const appended = mockQaHistoryEventAppend.mock
+        .calls[0][0] as QaHistoryEvent;
+      expect(appended.sequence).toBe(3);
+      expect(appended.type).toBe("error");
+    });
+  });
+
   describe("shutdown", () => {
     it("シャットダウン後は初期化状態がfalseになる", async () => {
       // Arrange
@@ -199,7 +336,7 @@ describe("AiTaskBootstrap", () => {
     });
   });
 
-  describe("recoverStuckTasks", () => {
+  describe("recoverExpiredLeaseTasks", () => {
     const validReviewTargetId = "123e4567-e89b-12d3-a456-426614174001";
     const validReviewSpaceId = "223e4567-e89b-12d3-a456-426614174002";
     const validTaskId = "323e4567-e89b-12d3-a456-426614174003";
@@ -221,6 +358,10 @@ describe("AiTaskBootstrap", () => {
         updatedAt: new Date(),
         startedAt: new Date(),
         completedAt: null,
+        leaseOwner: "worker-1",
+        leaseExpiresAt: new Date(),
+        deliveryCount: 3,
+        aiApiRetryCount: 0,
         fileMetadata: [],
       });
 
@@ -240,6 +381,10 @@ describe("AiTaskBootstrap", () => {
         updatedAt: new Date(),
         startedAt: new Date(),
         completedAt: null,
+        leaseOwner: "worker-1",
+        leaseExpiresAt: new Date(),
+        deliveryCount: 3,
+        aiApiRetryCount: 0,
         fileMetadata: [],
       });
 
@@ -257,11 +402,11 @@ describe("AiTaskBootstrap", () => {
       });
 
     describe("レビュータスク復元", () => {
-      it("処理中のレビュータスク（small_review）がある場合、review_targetsのステータスをerrorに更新する", async () => {
+      it("再配信回数の上限に達したレビュータスク（small_review）がある場合、review_targetsのステータスをerrorに更新する", async () => {
         // Arrange
         const mockTask = createMockReviewTask(AI_TASK_TYPE.SMALL_REVIEW);
         const mockReviewTarget = createMockReviewTarget();
-        mockFindByStatus.mockResolvedValue([mockTask]);
+        mockFindLeaseExpiredTasks.mockResolvedValue([mockTask]);
         mockReviewTargetFindById.mockResolvedValue(mockReviewTarget);
 
         // Act
@@ -278,11 +423,11 @@ describe("AiTaskBootstrap", () => {
         expect(savedReviewTarget.status.value).toBe(REVIEW_TARGET_STATUS.ERROR);
       });
 
-      it("処理中のレビュータスク（large_review）がある場合、review_targetsのステータスをerrorに更新する", async () => {
+      it("再配信回数の上限に達したレビュータスク（large_review）がある場合、review_targetsのステータスをerrorに更新する", async () => {
         // Arrange
         const mockTask = createMockReviewTask(AI_TASK_TYPE.LARGE_REVIEW);
         const mockReviewTarget = createMockReviewTarget();
-        mockFindByStatus.mockResolvedValue([mockTask]);
+        mockFindLeaseExpiredTasks.mockResolvedValue([mockTask]);
         mockReviewTargetFindById.mockResolvedValue(mockReviewTarget);
 
         // Act
@@ -299,10 +444,10 @@ describe("AiTaskBootstrap", () => {
     });
 
     describe("チェックリスト生成タスク復元", () => {
-      it("処理中のチェックリスト生成タスクがある場合、checklistGenerationErrorを保存する", async () => {
+      it("再配信回数の上限に達したチェックリスト生成タスクがある場合、checklistGenerationErrorを保存する", async () => {
         // Arrange
         const mockTask = createMockChecklistGenerationTask();
-        mockFindByStatus.mockResolvedValue([mockTask]);
+        mockFindLeaseExpiredTasks.mockResolvedValue([mockTask]);
 
         // Act
         await bootstrap.initialize();
@@ -310,8 +455,51 @@ describe("AiTaskBootstrap", () => {
         // Assert
         expect(mockUpdateChecklistGenerationError).toHaveBeenCalledWith(
           expect.objectContaining({ value: validReviewSpaceId }),
-          "システム再起動により処理が中断されました",
+          "ワーカーの応答が途絶えたため処理が中断されました（再実行回数の上限に達しました）",
+        );
+      });
+    });
+
+    describe("Q&A実行タスク復元", () => {
+      it("再配信回数の上限に達したQ&A実行タスクがある場合、qa_historiesのステータスをerrorに更新する", async () => {
+        // Arrange
+        const qaHistoryId = "423e4567-e89b-12d3-a456-426614174004";
+        const mockTask = AiTask.reconstruct({
+          id: validTaskId,
+          taskType: AI_TASK_TYPE.QA_EXECUTION,
+          status: AI_TASK_STATUS.PROCESSING,
+          apiKeyHash: "test_hash",
+          priority: 5,
+          payload: {
+            qaHistoryId,
+            reviewTargetId: validReviewTargetId,
+            reviewSpaceId: validReviewSpaceId,
+          },
+          errorMessage: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          startedAt: new Date(),
+          completedAt: null,
+          leaseOwner: "worker-1",
+          leaseExpiresAt: new Date(),
+          deliveryCount: 3,
+          aiApiRetryCount: 0,
+          fileMetadata: [],
+        });
+        mockFindLeaseExpiredTasks.mockResolvedValue([mockTask]);
+
+        // Act
+        await bootstrap.initialize();
+
+        // Assert
+        expect(mockQaHistoryUpdateError).toHaveBeenCalledWith(
+          expect.objectContaining({ value: qaHistoryId }),
+          "ワーカーの応答が途絶えたため処理が中断されました（再実行回数の上限に達しました）",
         );
+        expect(mockQaHistoryEventAppend).toHaveBeenCalledWith(
+          expect.objectContaining({ type: "error", sequence: 1 }),
+        );
+        expect(mockAiTaskDelete).toHaveBeenCalled();
       });
     });
 
@@ -319,7 +507,7 @@ describe("AiTaskBootstrap", () => {
       it("ReviewTargetが見つからない場合、エラーをログに記録して処理を継続する", async () => {
         // Arrange
         const mockTask = createMockReviewTask(AI_TASK_TYPE.SMALL_REVIEW);
-        mockFindByStatus.mockResolvedValue([mockTask]);
+        mockFindLeaseExpiredTasks.mockResolvedValue([mockTask]);
         mockReviewTargetFindById.mockResolvedValue(null);
 
         // Act & Assert - エラーなく初期化が完了すること
@@ -336,7 +524,7 @@ describe("AiTaskBootstrap", () => {
         // Arrange
         const mockTask = createMockReviewTask(AI_TASK_TYPE.SMALL_REVIEW);
         const mockReviewTarget = createMockReviewTarget();
-        mockFindByStatus.mockResolvedValue([mockTask]);
+        mockFindLeaseExpiredTasks.mockResolvedValue([mockTask]);
         mockReviewTargetFindById.mockResolvedValue(mockReviewTarget);
         mockReviewTargetSave.mockRejectedValue(new Error("DB Error"));
 
@@ -351,7 +539,7 @@ describe("AiTaskBootstrap", () => {
       it("チェックリスト生成エラーの保存に失敗した場合、エラーをログに記録して処理を継続する", async () => {
         // Arrange
         const mockTask = createMockChecklistGenerationTask();
-        mockFindByStatus.mockResolvedValue([mockTask]);
+        mockFindLeaseExpiredTasks.mockResolvedValue([mockTask]);
         mockUpdateChecklistGenerationError.mockRejectedValue(
           new Error("DB Error"),
         );
@@ -3,16 +3,28 @@ import {
   AiTaskExecutor,
   type ReviewTaskPayload,
   type ChecklistGenerationTaskPayload,
+  type QaExecutionTaskPayload,
 } from "../AiTaskExecutor";
 import type { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
 import type { IReviewResultRepository } from "@/application/shared/port/repository/IReviewResultRepository";
 import type { ICheckListItemRepository } from "@/application/shared/port/repository/ICheckListItemRepository";
 import type { IReviewDocumentCacheRepository } from "@/application/shared/port/repository/IReviewDocumentCacheRepository";
 import type { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import type { IAiTaskFileMetadataRepository } from "@/application/shared/port/repository/IAiTaskFileMetadataRepository";
 import type { ILargeDocumentResultCacheRepository } from "@/application/shared/port/repository/ILargeDocumentResultCacheRepository";
 import type { IWorkflowRunRegistry } from "../WorkflowRunRegistry";
+import type { NotifyTaskCompletionService } from "@/application/notification/NotifyTaskCompletionService";
+import type { IAiTaskRepository } from "@/application/shared/port/repository/IAiTaskRepository";
+import type { AiApiRetryContext } from "@/application/mastra";
+import type { RunQaWorkflowService } from "@/application/qaHistory/RunQaWorkflowService";
+import type { IAiTokenUsageRepository } from "@/application/shared/port/repository/IAiTokenUsageRepository";
+import type { IDocumentIndex } from "@/application/shared/port/documentIndex";
+import type { AiTokenUsageCollector } from "@/application/mastra/lib/aiTokenUsage";
+import type { FileBufferData } from "@/application/mastra/workflows/shared/types";
 import type { AiTaskDto } from "@/domain/aiTask";
+import { AiTaskFileMetadata } from "@/domain/aiTask";
 import { ReviewTarget, ReviewDocumentCache } from "@/domain/reviewTarget";
+import { ReviewResult } from "@/domain/reviewResult";
 import { ReviewSpace } from "@/domain/reviewSpace";
 import { TaskFileHelper } from "@/lib/server/taskFileHelper";
 
@@ -21,6 +33,7 @@ vi.mock("@/lib/server/taskFileHelper", () => ({
   TaskFileHelper: {
     loadFile: vi.fn().mockResolvedValue(Buffer.from("test content")),
     loadConvertedImages: vi.fn().mockResolvedValue([Buffer.from("image1")]),
+    saveConvertedImages: vi.fn().mockResolvedValue(undefined),
   },
 }));
 
@@ -51,6 +64,9 @@ vi.mock("@/application/mastra", () => ({
   },
   checkWorkflowResult: vi.fn().mockReturnValue({ status: "success" }),
   FILE_BUFFERS_CONTEXT_KEY: "fileBuffers",
+  DOCUMENT_INDEX_CONTEXT_KEY: "documentIndex",
+  AI_API_RETRY_CONTEXT_KEY: "aiApiRetry",
+  getAiApiRetryMaxAttempts: vi.fn().mockReturnValue(3),
 }));
 
 // ロガーのモック
@@ -148,8 +164,11 @@ describe("AiTaskExecutor", () => {
   const mockReviewTargetRepository: IReviewTargetRepository = {
     findById: vi.fn(),
     findByReviewSpaceId: vi.fn(),
+    findByRevisionGroupId: vi.fn(),
     countByReviewSpaceId: vi.fn(),
+    summarizeByReviewSpaceIds: vi.fn(),
     save: vi.fn(),
+    saveRevision: vi.fn(),
     delete: vi.fn(),
   };
 
@@ -267,6 +286,10 @@ describe("AiTaskExecutor", () => {
       updatedAt: now,
       startedAt: now,
       completedAt: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      deliveryCount: 0,
+      aiApiRetryCount: 0,
       fileMetadata: [
         {
           id: "file-meta-1",
@@ -375,6 +398,63 @@ describe("AiTaskExecutor", () => {
       // エラー時にステータスが更新されることを確認
       expect(mockReviewTargetRepository.save).toHaveBeenCalled();
     });
+
+    it("レビュー中にリース期限が切れて再配信された場合、前回の結果を破棄してレビューを完了できる", async () => {
+      // レビュー対象の状態を保存内容に追従させる
+      let storedTarget = testReviewTarget;
+      vi.mocked(mockReviewTargetRepository.findById).mockImplementation(
+        async () => storedTarget,
+      );
+      vi.mocked(mockReviewTargetRepository.save).mockImplementation(
+        async (target) => {
+          storedTarget = target;
+        },
+      );
+
+      const { checkWorkflowResult } = await import("@/application/mastra");
+      vi.mocked(checkWorkflowResult).mockReturnValue({ status: "success" });
+
+      // 1回目の配信: ワークフローが応答しないままリース期限切れになる
+      mockWorkflowRun.start.mockReturnValueOnce(new Promise(() => {}));
+      void executor.execute({ ...createReviewTask(), deliveryCount: 1 });
+      await vi.waitFor(() => {
+        expect(mockWorkflowRun.start).toHaveBeenCalledTimes(1);
+      });
+      expect(storedTarget.status.isReviewing()).toBe(true);
+
+      // 2回目の配信
+      mockWorkflowRun.start.mockResolvedValueOnce({
+        status: "success",
+        result: {
+          status: "success",
+          reviewResults: [
+            {
+              checkListItemId: "item-1",
+              rating: "A",
+              comment: "問題ありません",
+            },
+          ],
+        },
+      });
+      const result = await executor.execute({
+        ...createReviewTask(),
+        deliveryCount: 2,
+      });
+
+      expect(result.success).toBe(true);
+      expect(storedTarget.status.isCompleted()).toBe(true);
+      // 1回目の配信で保存された結果とキャッシュを削除してから再実行する
+      expect(
+        mockReviewResultRepository.deleteByReviewTargetId,
+      ).toHaveBeenCalledTimes(1);
+      expect(
+        mockReviewDocumentCacheRepository.deleteByReviewTargetId,
+      ).toHaveBeenCalledTimes(1);
+      expect(
+        vi.mocked(mockReviewResultRepository.deleteByReviewTargetId).mock
+          .invocationCallOrder[0],
+      ).toBeLessThan(mockWorkflowRun.start.mock.invocationCallOrder[1]);
+    });
   });
 
   describe("execute - チェックリスト生成タスク", () => {
@@ -401,6 +481,10 @@ describe("AiTaskExecutor", () => {
       updatedAt: now,
       startedAt: now,
       completedAt: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      deliveryCount: 0,
+      aiApiRetryCount: 0,
       fileMetadata: [
         {
           id: "file-meta-1",
@@ -508,6 +592,10 @@ describe("AiTaskExecutor", () => {
         updatedAt: now,
         startedAt: now,
         completedAt: null,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        deliveryCount: 0,
+        aiApiRetryCount: 0,
         fileMetadata: [],
       };
 
@@ -519,6 +607,102 @@ describe("AiTaskExecutor", () => {
     });
   });
 
+  describe("execute - Q&A実行タスク", () => {
+    const mockQaWorkflowRunner = {
+      execute: vi.fn(),
+    } as unknown as RunQaWorkflowService;
+
+    const qaPayload: QaExecutionTaskPayload = {
+      qaHistoryId: "550e8400-e29b-41d4-a716-446655440010",
+      reviewTargetId: testReviewTargetId,
+      reviewSpaceId: testReviewSpaceId,
+      userId: "test-user-id",
+      employeeId: "test-employee-id",
+      aiApiConfig: {
+        apiKey: "test-api-key",
+        apiUrl: "http://test-api-url",
+        apiModel: "test-model",
+      },
+    };
+
+    const createQaTask = (): AiTaskDto => ({
+      id: "test-task-id",
+      taskType: "qa_execution",
+      status: "processing",
+      apiKeyHash: "test-api-key-hash",
+      priority: 5,
+      payload: {
+        ...qaPayload,
+      },
+      errorMessage: null,
+      createdAt: now,
+      updatedAt: now,
+      startedAt: now,
+      completedAt: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      deliveryCount: 0,
+      aiApiRetryCount: 0,
+      fileMetadata: [],
+    });
+
+    const createExecutorWithQaRunner = () =>
+      new AiTaskExecutor(
+        mockReviewTargetRepository,
+        mockReviewResultRepository,
+        mockCheckListItemRepository,
+        mockReviewDocumentCacheRepository,
+        mockReviewSpaceRepository,
+        mockLargeDocumentResultCacheRepository,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        mockQaWorkflowRunner,
+      );
+
+    it("Q&Aワークフロー実行サービスにペイロードを渡して実行する", async () => {
+      vi.mocked(mockQaWorkflowRunner.execute).mockResolvedValue({
+        success: true,
+      });
+
+      const result = await createExecutorWithQaRunner().execute(createQaTask());
+
+      expect(result.success).toBe(true);
+      expect(mockQaWorkflowRunner.execute).toHaveBeenCalledWith(
+        expect.objectContaining({
+          taskId: "test-task-id",
+          qaHistoryId: "550e8400-e29b-41d4-a716-446655440010",
+          reviewSpaceId: testReviewSpaceId,
+          userId: "test-user-id",
+          employeeId: "test-employee-id",
+          aiApiConfig: expect.objectContaining({ apiKey: "test-api-key" }),
+          aiApiRetryContext: expect.objectContaining({ maxAttempts: 3 }),
+        }),
+      );
+    });
+
+    it("Q&Aワークフローの失敗結果をそのまま返す", async () => {
+      vi.mocked(mockQaWorkflowRunner.execute).mockResolvedValue({
+        success: false,
+        errorMessage: "回答の生成に失敗しました",
+      });
+
+      const result = await createExecutorWithQaRunner().execute(createQaTask());
+
+      expect(result.success).toBe(false);
+      expect(result.errorMessage).toBe("回答の生成に失敗しました");
+    });
+
+    it("Q&Aワークフロー実行サービスが設定されていない場合はエラーを返す", async () => {
+      const result = await executor.execute(createQaTask());
+
+      expect(result.success).toBe(false);
+      expect(mockQaWorkflowRunner.execute).not.toHaveBeenCalled();
+    });
+  });
+
   describe("execute - ファイル読み込みエラー", () => {
     it("ファイル読み込み失敗時はエラーを返す", async () => {
       // TaskFileHelperのloadFileをエラーにする
@@ -570,6 +754,10 @@ describe("AiTaskExecutor", () => {
         updatedAt: now,
         startedAt: now,
         completedAt: null,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        deliveryCount: 0,
+        aiApiRetryCount: 0,
         fileMetadata: [
           {
             id: "file-meta-1",
@@ -639,6 +827,10 @@ describe("AiTaskExecutor", () => {
       updatedAt: now,
       startedAt: now,
       completedAt: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      deliveryCount: 0,
+      aiApiRetryCount: 0,
       fileMetadata: [
         {
           id: "file-meta-1",
@@ -677,6 +869,10 @@ describe("AiTaskExecutor", () => {
       updatedAt: now,
       startedAt: now,
       completedAt: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      deliveryCount: 0,
+      aiApiRetryCount: 0,
       fileMetadata: [
         {
           id: "file-meta-1",
@@ -879,6 +1075,10 @@ describe("AiTaskExecutor", () => {
       updatedAt: now,
       startedAt: now,
       completedAt: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      deliveryCount: 0,
+      aiApiRetryCount: 0,
       fileMetadata: [], // リトライ時はファイルメタデータは空
     });
 
@@ -1088,6 +1288,78 @@ describe("AiTaskExecutor", () => {
       // 全てのレビュー結果が削除されたことを確認（5件）
       expect(mockReviewResultRepository.delete).toHaveBeenCalledTimes(5);
     });
+
+    it("リトライが再配信された場合、リトライ対象の項目の結果のみ削除してレビューを再開する", async () => {
+      const reviewingTarget = ReviewTarget.reconstruct({
+        id: testReviewTargetId,
+        reviewSpaceId: testReviewSpaceId,
+        name: "テストレビュー対象",
+        status: "reviewing",
+        reviewType: "small",
+        reviewSettings: null,
+        createdAt: now,
+        updatedAt: now,
+      });
+      const createSavedResult = (id: string, content: string) =>
+        ReviewResult.reconstruct({
+          id,
+          reviewTargetId: testReviewTargetId,
+          checkListItemContent: content,
+          evaluation: "A",
+          comment: "問題ありません",
+          errorMessage: null,
+          evidence: null,
+          createdAt: now,
+          updatedAt: now,
+        });
+
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+        reviewingTarget,
+      );
+      vi.mocked(mockReviewTargetRepository.save).mockResolvedValue(undefined);
+      vi.mocked(
+        mockReviewDocumentCacheRepository.findByReviewTargetId,
+      ).mockResolvedValue([createTestDocumentCache()]);
+      // 前回の配信でリトライ対象の項目の結果が保存済み
+      vi.mocked(
+        mockReviewResultRepository.findByReviewTargetId,
+      ).mockResolvedValue([
+        createSavedResult(testResultId3, "チェック項目1"),
+        createSavedResult(testResultId4, "チェック項目2"),
+      ]);
+
+      mockWorkflowRun.start.mockResolvedValue({
+        status: "success",
+        result: {
+          status: "success",
+          reviewResults: [
+            {
+              checkListItemId: "item-1",
+              rating: "A",
+              comment: "問題ありません",
+            },
+          ],
+        },
+      });
+
+      const { checkWorkflowResult } = await import("@/application/mastra");
+      vi.mocked(checkWorkflowResult).mockReturnValue({ status: "success" });
+
+      const task = { ...createRetryReviewTask(), deliveryCount: 2 };
+      (task.payload as unknown as ReviewTaskPayload).resultsToDeleteIds = [];
+
+      const result = await executor.execute(task);
+
+      expect(result.success).toBe(true);
+      expect(mockReviewResultRepository.delete).toHaveBeenCalledTimes(1);
+      expect(
+        vi.mocked(mockReviewResultRepository.delete).mock.calls[0][0].value,
+      ).toBe(testResultId3);
+      // リトライ時はドキュメントキャッシュを使い回すため削除しない
+      expect(
+        mockReviewDocumentCacheRepository.deleteByReviewTargetId,
+      ).not.toHaveBeenCalled();
+    });
   });
 
   // ========================================
@@ -1137,6 +1409,10 @@ describe("AiTaskExecutor", () => {
       updatedAt: now,
       startedAt: now,
       completedAt: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      deliveryCount: 0,
+      aiApiRetryCount: 0,
       fileMetadata: [
         {
           id: "file-meta-1",
@@ -1354,6 +1630,10 @@ describe("AiTaskExecutor", () => {
       updatedAt: now,
       startedAt: now,
       completedAt: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      deliveryCount: 0,
+      aiApiRetryCount: 0,
       fileMetadata: [
         {
           id: "file-meta-1",
@@ -1429,6 +1709,50 @@ describe("AiTaskExecutor", () => {
       );
     });
 
+    it("RuntimeContextにAI APIリトライ設定が設定され、リトライ時にリトライ回数が加算されること", async () => {
+      // Arrange
+      const taskId = "123e4567-e89b-12d3-a456-426614174999";
+      const mockAiTaskRepository = {
+        incrementAiApiRetryCount: vi.fn().mockResolvedValue(undefined),
+      } as unknown as IAiTaskRepository;
+      const executorWithRetryRecorder = new AiTaskExecutor(
+        mockReviewTargetRepository,
+        mockReviewResultRepository,
+        mockCheckListItemRepository,
+        mockReviewDocumentCacheRepository,
+        mockReviewSpaceRepository,
+        mockLargeDocumentResultCacheRepository,
+        undefined,
+        undefined,
+        undefined,
+        mockAiTaskRepository,
+      );
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+        testReviewTarget,
+      );
+      vi.mocked(mockReviewTargetRepository.save).mockResolvedValue(undefined);
+
+      const { checkWorkflowResult } = await import("@/application/mastra");
+      vi.mocked(checkWorkflowResult).mockReturnValue({ status: "success" });
+
+      const task = { ...createReviewTask(), id: taskId };
+
+      // Act
+      await executorWithRetryRecorder.execute(task);
+
+      // Assert
+      expect(capturedStartArgs).not.toBeNull();
+      const retryContext = capturedStartArgs!.runtimeContext.get(
+        "aiApiRetry",
+      ) as AiApiRetryContext;
+      expect(retryContext.maxAttempts).toBe(3);
+
+      await retryContext.onRetry!({ attempt: 1, maxAttempts: 3, delayMs: 0 });
+      expect(
+        mockAiTaskRepository.incrementAiApiRetryCount,
+      ).toHaveBeenCalledWith(expect.objectContaining({ value: taskId }));
+    });
+
     it("RuntimeContextにaiApiKey/aiApiUrl/aiApiModelが設定されること", async () => {
       // Arrange
       vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
@@ -1478,6 +1802,157 @@ describe("AiTaskExecutor", () => {
       expect(fileBuffers).toBeInstanceOf(Map);
     });
 
+    it("変換済み画像がない画像モードのファイルは元ファイルを読み込み、サーバー側で変換した画像を保存できること", async () => {
+      // Arrange
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+        testReviewTarget,
+      );
+      vi.mocked(mockReviewTargetRepository.save).mockResolvedValue(undefined);
+
+      const { checkWorkflowResult } = await import("@/application/mastra");
+      vi.mocked(checkWorkflowResult).mockReturnValue({ status: "success" });
+
+      const baseTask = createReviewTask({
+        files: [
+          {
+            id: "file-1",
+            name: "slides.pdf",
+            type: "application/pdf",
+            size: 2048,
+            processMode: "image",
+            renderOptions: { pageRange: "1-3" },
+          },
+        ],
+      });
+      const fileMetadataId = "923e4567-e89b-12d3-a456-426614174009";
+      const task: AiTaskDto = {
+        ...baseTask,
+        fileMetadata: [
+          {
+            ...baseTask.fileMetadata[0],
+            id: fileMetadataId,
+            fileName: "slides.pdf",
+            filePath: "/path/to/slides.pdf",
+            mimeType: "application/pdf",
+            processMode: "image" as const,
+            convertedImageCount: 0,
+          },
+        ],
+      };
+      const fileMetadata = AiTaskFileMetadata.reconstruct({
+        ...task.fileMetadata[0],
+        taskId: "a23e4567-e89b-12d3-a456-42661417400a",
+        createdAt: new Date(),
+      });
+      const mockAiTaskFileMetadataRepository: IAiTaskFileMetadataRepository = {
+        findById: vi.fn().mockResolvedValue(fileMetadata),
+        findByTaskId: vi.fn(),
+        save: vi.fn(),
+        saveMany: vi.fn(),
+        delete: vi.fn(),
+        deleteByTaskId: vi.fn(),
+      };
+      const executorWithFileMetadata = new AiTaskExecutor(
+        mockReviewTargetRepository,
+        mockReviewResultRepository,
+        mockCheckListItemRepository,
+        mockReviewDocumentCacheRepository,
+        mockReviewSpaceRepository,
+        mockLargeDocumentResultCacheRepository,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        mockAiTaskFileMetadataRepository,
+      );
+
+      // Act
+      await executorWithFileMetadata.execute(task);
+
+      // Assert
+      expect(TaskFileHelper.loadFile).toHaveBeenCalledWith(
+        "/path/to/slides.pdf",
+      );
+      const fileBuffers = capturedStartArgs!.runtimeContext.get(
+        "fileBuffers",
+      ) as Map<string, FileBufferData>;
+      const bufferData = fileBuffers.get("file-1")!;
+      expect(bufferData.buffer.toString()).toBe("test content");
+
+      const images = [Buffer.from("page1")];
+      await bufferData.onImagesRendered!(images);
+      expect(TaskFileHelper.saveConvertedImages).toHaveBeenCalledWith(
+        "test-task-id",
+        fileMetadataId,
+        images,
+      );
+      // 再配信時に変換済み画像を読み込めるよう枚数を記録する
+      expect(mockAiTaskFileMetadataRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ convertedImageCount: 1 }),
+      );
+    });
+
+    it("サーバー側で変換済みの画像モードのファイルは変換済み画像を読み込むこと", async () => {
+      // Arrange
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+        testReviewTarget,
+      );
+      vi.mocked(mockReviewTargetRepository.save).mockResolvedValue(undefined);
+      const convertedImages = [Buffer.from("page1"), Buffer.from("page2")];
+      vi.mocked(TaskFileHelper.loadConvertedImages).mockResolvedValueOnce(
+        convertedImages,
+      );
+
+      const { checkWorkflowResult } = await import("@/application/mastra");
+      vi.mocked(checkWorkflowResult).mockReturnValue({ status: "success" });
+
+      const baseTask = createReviewTask({
+        files: [
+          {
+            id: "file-1",
+            name: "slides.pdf",
+            type: "application/pdf",
+            size: 2048,
+            processMode: "image",
+          },
+        ],
+      });
+      const task: AiTaskDto = {
+        ...baseTask,
+        deliveryCount: 2,
+        fileMetadata: [
+          {
+            ...baseTask.fileMetadata[0],
+            fileName: "slides.pdf",
+            filePath: "/path/to/slides.pdf",
+            mimeType: "application/pdf",
+            processMode: "image" as const,
+            convertedImageCount: 2,
+          },
+        ],
+      };
+
+      // Act
+      await executor.execute(task);
+
+      // Assert
+      expect(TaskFileHelper.loadConvertedImages).toHaveBeenCalledWith(
+        "test-task-id",
+        "file-meta-1",
+        2,
+      );
+      const fileBuffers = capturedStartArgs!.runtimeContext.get(
+        "fileBuffers",
+      ) as Map<string, FileBufferData>;
+      expect(fileBuffers.get("file-1")?.convertedImageBuffers).toEqual(
+        convertedImages,
+      );
+    });
+
     it("RuntimeContextにonReviewResultSavedコールバックが設定されること", async () => {
       // Arrange
       vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
@@ -1520,6 +1995,90 @@ describe("AiTaskExecutor", () => {
       });
     });
 
+    it("意味検索インデックスがある場合、テキストモードのキャッシュ保存時にインデックスを作成すること", async () => {
+      // Arrange
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+        testReviewTarget,
+      );
+      vi.mocked(mockReviewTargetRepository.save).mockResolvedValue(undefined);
+      const mockDocumentIndex: IDocumentIndex = {
+        buildIndex: vi.fn().mockRejectedValueOnce(new Error("embedding error")),
+        retrieve: vi.fn(),
+        retrieveByFileName: vi.fn(),
+      };
+      const executorWithIndex = new AiTaskExecutor(
+        mockReviewTargetRepository,
+        mockReviewResultRepository,
+        mockCheckListItemRepository,
+        mockReviewDocumentCacheRepository,
+        mockReviewSpaceRepository,
+        mockLargeDocumentResultCacheRepository,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        mockDocumentIndex,
+      );
+
+      // Act
+      await executorWithIndex.execute(createReviewTask());
+      const runtimeContext = capturedStartArgs!.runtimeContext;
+      const onExtractedFilesCached = runtimeContext.get(
+        "onExtractedFilesCached",
+      ) as (files: unknown[], targetId: string) => Promise<void>;
+      // インデックスの作成に失敗してもキャッシュ保存は継続する
+      await onExtractedFilesCached(
+        [
+          {
+            id: "f1",
+            name: "a.md",
+            type: "text/markdown",
+            processMode: "text",
+            textContent: "# A",
+          },
+          {
+            id: "f2",
+            name: "b.pdf",
+            type: "application/pdf",
+            processMode: "image",
+            imageData: ["img"],
+          },
+          {
+            id: "f3",
+            name: "c.txt",
+            type: "text/plain",
+            processMode: "text",
+            textContent: "C",
+          },
+        ],
+        testReviewTargetId,
+      );
+
+      // Assert
+      expect(runtimeContext.get("documentIndex")).toBe(mockDocumentIndex);
+      expect(mockReviewDocumentCacheRepository.save).toHaveBeenCalledTimes(3);
+      const savedCaches = vi
+        .mocked(mockReviewDocumentCacheRepository.save)
+        .mock.calls.map(([cache]) => cache);
+      expect(mockDocumentIndex.buildIndex).toHaveBeenCalledTimes(2);
+      expect(mockDocumentIndex.buildIndex).toHaveBeenNthCalledWith(
+        1,
+        savedCaches[0].id.value,
+        "# A",
+        // 埋め込みAPIの呼び出しにタスクのリトライ・レート制限・トークン使用量の集計を適用する
+        { runtimeContext: expect.anything() },
+      );
+      expect(mockDocumentIndex.buildIndex).toHaveBeenNthCalledWith(
+        2,
+        savedCaches[2].id.value,
+        "C",
+        { runtimeContext: expect.anything() },
+      );
+    });
+
     it("RuntimeContextにonIndividualResultsSavedコールバックが設定されること", async () => {
       // Arrange
       vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
@@ -1745,6 +2304,10 @@ describe("AiTaskExecutor", () => {
       updatedAt: now,
       startedAt: now,
       completedAt: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      deliveryCount: 0,
+      aiApiRetryCount: 0,
       fileMetadata: [
         {
           id: "file-meta-1",
@@ -1882,6 +2445,10 @@ describe("AiTaskExecutor", () => {
       updatedAt: now,
       startedAt: now,
       completedAt: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      deliveryCount: 0,
+      aiApiRetryCount: 0,
       fileMetadata: [
         {
           id: "file-meta-1",
@@ -1985,4 +2552,307 @@ describe("AiTaskExecutor", () => {
       expect(fileBuffers).toBeInstanceOf(Map);
     });
   });
+
+  describe("タスク完了通知", () => {
+    const mockNotifier = {
+      execute: vi.fn(),
+    } as unknown as NotifyTaskCompletionService;
+
+    let executorWithNotifier: AiTaskExecutor;
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      executorWithNotifier = new AiTaskExecutor(
+        mockReviewTargetRepository,
+        mockReviewResultRepository,
+        mockCheckListItemRepository,
+        mockReviewDocumentCacheRepository,
+        mockReviewSpaceRepository,
+        mockLargeDocumentResultCacheRepository,
+        undefined,
+        undefined,
+        mockNotifier,
+      );
+    });
+
+    const createReviewTask = (isRetry = false): AiTaskDto => ({
+      id: "test-task-id",
+      taskType: "small_review",
+      status: "processing",
+      apiKeyHash: "test-api-key-hash",
+      priority: 5,
+      payload: {
+        reviewTargetId: testReviewTargetId,
+        reviewSpaceId: testReviewSpaceId,
+        userId: "test-user-id",
+        employeeId: "test-employee-id",
+        files: [{ id: "file-1", name: "test.txt", type: "text/plain" }],
+        checkListItems: [{ id: "item-1", content: "チェック項目1" }],
+        reviewType: "small",
+        aiApiConfig: {
+          apiKey: "test-api-key",
+          apiUrl: "http://test-api-url",
+          apiModel: "test-model",
+        },
+        isRetry,
+      },
+      errorMessage: null,
+      createdAt: now,
+      updatedAt: now,
+      startedAt: now,
+      completedAt: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      deliveryCount: 0,
+      aiApiRetryCount: 0,
+      fileMetadata: [],
+    });
+
+    const createChecklistTask = (): AiTaskDto => ({
+      id: "test-checklist-task-id",
+      taskType: "checklist_generation",
+      status: "processing",
+      apiKeyHash: "test-api-key-hash",
+      priority: 5,
+      payload: {
+        reviewSpaceId: testReviewSpaceId,
+        userId: "test-user-id",
+        employeeId: "test-employee-id",
+        files: [],
+        checklistRequirements: "テスト用のチェックリストを生成してください",
+        aiApiConfig: {
+          apiKey: "test-api-key",
+          apiUrl: "http://test-api-url",
+          apiModel: "test-model",
+        },
+      },
+      errorMessage: null,
+      createdAt: now,
+      updatedAt: now,
+      startedAt: now,
+      completedAt: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      deliveryCount: 0,
+      aiApiRetryCount: 0,
+      fileMetadata: [],
+    });
+
+    it("レビュー完了時に完了通知を送信する", async () => {
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+        testReviewTarget,
+      );
+      mockWorkflowRun.start.mockResolvedValue({
+        status: "success",
+        result: {
+          status: "success",
+          reviewResults: [
+            {
+              checkListItemId: "item-1",
+              rating: "A",
+              comment: "問題ありません",
+            },
+          ],
+        },
+      });
+      const { checkWorkflowResult } = await import("@/application/mastra");
+      vi.mocked(checkWorkflowResult).mockReturnValue({ status: "success" });
+
+      const result = await executorWithNotifier.execute(createReviewTask());
+
+      expect(result.success).toBe(true);
+      expect(mockNotifier.execute).toHaveBeenCalledWith({
+        type: "review_completed",
+        reviewSpaceId: testReviewSpaceId,
+        reviewTargetId: testReviewTargetId,
+        errorMessage: undefined,
+      });
+    });
+
+    it("レビュー失敗時にエラーメッセージ付きで失敗通知を送信する", async () => {
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(null);
+
+      await executorWithNotifier.execute(createReviewTask());
+
+      expect(mockNotifier.execute).toHaveBeenCalledWith({
+        type: "review_failed",
+        reviewSpaceId: testReviewSpaceId,
+        reviewTargetId: testReviewTargetId,
+        errorMessage: "レビュー対象が見つかりません",
+      });
+    });
+
+    it("リトライ失敗時はリトライ失敗通知を送信する", async () => {
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(null);
+
+      await executorWithNotifier.execute(createReviewTask(true));
+
+      expect(mockNotifier.execute).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "retry_failed" }),
+      );
+    });
+
+    it("チェックリスト生成完了時に完了通知を送信する", async () => {
+      mockWorkflowRun.start.mockResolvedValue({
+        status: "success",
+        result: {
+          status: "success",
+          generatedItems: ["チェック項目1"],
+        },
+      });
+      const { checkWorkflowResult } = await import("@/application/mastra");
+      vi.mocked(checkWorkflowResult).mockReturnValue({ status: "success" });
+
+      const result = await executorWithNotifier.execute(createChecklistTask());
+
+      expect(result.success).toBe(true);
+      expect(mockNotifier.execute).toHaveBeenCalledWith({
+        type: "checklist_generation_completed",
+        reviewSpaceId: testReviewSpaceId,
+        errorMessage: undefined,
+      });
+    });
+
+    it("通知の送信に失敗してもタスクの実行結果に影響しない", async () => {
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(null);
+      vi.mocked(mockNotifier.execute).mockRejectedValue(
+        new Error("通知エラー"),
+      );
+
+      const result = await executorWithNotifier.execute(createReviewTask());
+
+      expect(result).toEqual({
+        success: false,
+        errorMessage: "レビュー対象が見つかりません",
+      });
+    });
+  });
+
+  describe("AIトークン使用量の記録", () => {
+    const testProjectId = "550e8400-e29b-41d4-a716-446655440099";
+    const testTaskId = "550e8400-e29b-41d4-a716-446655440098";
+
+    const mockAiTokenUsageRepository: IAiTokenUsageRepository = {
+      save: vi.fn(),
+      sumByProjectId: vi.fn(),
+      sumByProjectIdGroupByTaskType: vi.fn(),
+      sumGroupByProject: vi.fn(),
+    };
+
+    let executorWithUsage: AiTaskExecutor;
+
+    const createReviewTask = (): AiTaskDto => ({
+      id: testTaskId,
+      taskType: "small_review",
+      status: "processing",
+      apiKeyHash: "test-api-key-hash",
+      priority: 5,
+      payload: {
+        reviewTargetId: testReviewTargetId,
+        reviewSpaceId: testReviewSpaceId,
+        userId: "test-user-id",
+        employeeId: "test-employee-id",
+        files: [],
+        checkListItems: [{ id: "item-1", content: "チェック項目1" }],
+        reviewType: "small",
+        aiApiConfig: {
+          apiKey: "test-api-key",
+          apiUrl: "http://test-api-url",
+          apiModel: "test-model",
+        },
+      },
+      errorMessage: null,
+      createdAt: now,
+      updatedAt: now,
+      startedAt: now,
+      completedAt: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      deliveryCount: 0,
+      aiApiRetryCount: 0,
+      fileMetadata: [],
+    });
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      executorWithUsage = new AiTaskExecutor(
+        mockReviewTargetRepository,
+        mockReviewResultRepository,
+        mockCheckListItemRepository,
+        mockReviewDocumentCacheRepository,
+        mockReviewSpaceRepository,
+        mockLargeDocumentResultCacheRepository,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        mockAiTokenUsageRepository,
+      );
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+        testReviewTarget,
+      );
+      vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(
+        ReviewSpace.reconstruct({
+          id: testReviewSpaceId,
+          projectId: testProjectId,
+          name: "テストスペース",
+          description: null,
+          createdAt: now,
+          updatedAt: now,
+        }),
+      );
+    });
+
+    it("ワークフロー内のエージェント呼び出しのトークン使用量をプロジェクトに記録する", async () => {
+      mockWorkflowRun.start = vi.fn().mockImplementation((args) => {
+        const collector = args.runtimeContext.get(
+          "aiTokenUsage",
+        ) as AiTokenUsageCollector;
+        collector.add({
+          promptTokens: 100,
+          completionTokens: 20,
+          totalTokens: 120,
+        });
+        collector.add({
+          promptTokens: 50,
+          completionTokens: 5,
+          totalTokens: 55,
+        });
+        return Promise.resolve({
+          status: "success",
+          result: {
+            status: "success",
+            reviewResults: [
+              { checkListItemId: "item-1", rating: "A", comment: "OK" },
+            ],
+          },
+        });
+      });
+      const { checkWorkflowResult } = await import("@/application/mastra");
+      vi.mocked(checkWorkflowResult).mockReturnValue({ status: "success" });
+
+      await executorWithUsage.execute(createReviewTask());
+
+      expect(mockAiTokenUsageRepository.save).toHaveBeenCalledTimes(1);
+      const usage = vi.mocked(mockAiTokenUsageRepository.save).mock.calls[0][0];
+      expect(usage.taskId.value).toBe(testTaskId);
+      expect(usage.projectId.value).toBe(testProjectId);
+      expect(usage.reviewTargetId?.value).toBe(testReviewTargetId);
+      expect(usage.model).toBe("test-model");
+      expect(usage.requestCount).toBe(2);
+      expect(usage.promptTokens).toBe(150);
+      expect(usage.completionTokens).toBe(25);
+      expect(usage.totalTokens).toBe(175);
+    });
+
+    it("エージェント呼び出しがない場合は記録しない", async () => {
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(null);
+
+      await executorWithUsage.execute(createReviewTask());
+
+      expect(mockAiTokenUsageRepository.save).not.toHaveBeenCalled();
+    });
+  });
 });
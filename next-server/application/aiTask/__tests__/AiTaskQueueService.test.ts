@@ -7,6 +7,7 @@ import {
 } from "../AiTaskQueueService";
 import type { IAiTaskRepository } from "@/application/shared/port/repository/IAiTaskRepository";
 import type { IAiTaskFileMetadataRepository } from "@/application/shared/port/repository/IAiTaskFileMetadataRepository";
+import type { IAiTaskHistoryRepository } from "@/application/shared/port/repository/IAiTaskHistoryRepository";
 import { AiTask, AI_TASK_STATUS } from "@/domain/aiTask";
 import { TaskFileHelper } from "@/lib/server/taskFileHelper";
 
@@ -39,6 +40,10 @@ describe("AiTaskQueueService", () => {
     findDistinctApiKeyHashesInQueue: vi.fn(),
     countQueuedByApiKeyHash: vi.fn(),
     dequeueNextTask: vi.fn(),
+    renewLease: vi.fn(),
+    incrementAiApiRetryCount: vi.fn(),
+    requeueExpiredLeases: vi.fn(),
+    findLeaseExpiredTasks: vi.fn(),
     save: vi.fn(),
     delete: vi.fn(),
     deleteByStatus: vi.fn(),
@@ -59,8 +64,12 @@ describe("AiTaskQueueService", () => {
   const now = new Date();
   const testTaskId = "550e8400-e29b-41d4-a716-446655440001";
   const testApiKeyHash = "test-api-key-hash-12345678901234567890123456789012";
+  const testWorkerId = "worker-1";
 
-  const createTestAiTask = (status: string = AI_TASK_STATUS.QUEUED) =>
+  const createTestAiTask = (
+    status: string = AI_TASK_STATUS.QUEUED,
+    leaseOwner: string | null = null,
+  ) =>
     AiTask.reconstruct({
       id: testTaskId,
       taskType: "small_review",
@@ -73,6 +82,10 @@ describe("AiTaskQueueService", () => {
       updatedAt: now,
       startedAt: null,
       completedAt: null,
+      leaseOwner,
+      leaseExpiresAt: null,
+      deliveryCount: leaseOwner ? 1 : 0,
+      aiApiRetryCount: 0,
       fileMetadata: [],
     });
 
@@ -192,22 +205,81 @@ describe("AiTaskQueueService", () => {
         testTask,
       );
 
-      const result = await service.dequeueTask(testApiKeyHash);
+      const result = await service.dequeueTask(testApiKeyHash, testWorkerId);
 
       expect(result).not.toBeNull();
       expect(result?.id).toBe(testTaskId);
       expect(mockAiTaskRepository.dequeueNextTask).toHaveBeenCalledWith(
         testApiKeyHash,
+        testWorkerId,
+        60000,
       );
     });
 
     it("キューが空の場合はnullを返す", async () => {
       vi.mocked(mockAiTaskRepository.dequeueNextTask).mockResolvedValue(null);
 
-      const result = await service.dequeueTask(testApiKeyHash);
+      const result = await service.dequeueTask(testApiKeyHash, testWorkerId);
 
       expect(result).toBeNull();
     });
+
+    it("環境変数でリース期間を設定できる", async () => {
+      process.env.AI_QUEUE_LEASE_DURATION_MS = "120000";
+      vi.mocked(mockAiTaskRepository.dequeueNextTask).mockResolvedValue(null);
+
+      await service.dequeueTask(testApiKeyHash, testWorkerId);
+
+      expect(mockAiTaskRepository.dequeueNextTask).toHaveBeenCalledWith(
+        testApiKeyHash,
+        testWorkerId,
+        120000,
+      );
+      delete process.env.AI_QUEUE_LEASE_DURATION_MS;
+    });
+  });
+
+  describe("renewLease", () => {
+    it("リースを延長できた場合はtrueを返す", async () => {
+      vi.mocked(mockAiTaskRepository.renewLease).mockResolvedValue(true);
+
+      const result = await service.renewLease({
+        taskId: testTaskId,
+        workerId: testWorkerId,
+      });
+
+      expect(result).toBe(true);
+      expect(mockAiTaskRepository.renewLease).toHaveBeenCalledWith(
+        expect.objectContaining({ value: testTaskId }),
+        testWorkerId,
+        60000,
+      );
+    });
+
+    it("タスクが削除された・リースを失った場合はfalseを返す", async () => {
+      vi.mocked(mockAiTaskRepository.renewLease).mockResolvedValue(false);
+
+      const result = await service.renewLease({
+        taskId: testTaskId,
+        workerId: testWorkerId,
+      });
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe("requeueExpiredTasks", () => {
+    it("最大配信回数を指定してリース期限切れのタスクをキューに戻す", async () => {
+      vi.mocked(mockAiTaskRepository.requeueExpiredLeases).mockResolvedValue([
+        createTestAiTask(AI_TASK_STATUS.QUEUED),
+      ]);
+
+      const result = await service.requeueExpiredTasks();
+
+      expect(result).toHaveLength(1);
+      expect(result[0].id).toBe(testTaskId);
+      expect(mockAiTaskRepository.requeueExpiredLeases).toHaveBeenCalledWith(3);
+    });
   });
 
   describe("completeTask", () => {
@@ -228,6 +300,19 @@ describe("AiTaskQueueService", () => {
       expect(mockAiTaskRepository.delete).toHaveBeenCalledTimes(1);
     });
 
+    it("リースが他のワーカーに移っている場合は何もしない", async () => {
+      const testTask = createTestAiTask(AI_TASK_STATUS.PROCESSING, "worker-2");
+      vi.mocked(mockAiTaskRepository.findById).mockResolvedValue(testTask);
+
+      await service.completeTask({
+        taskId: testTaskId,
+        workerId: testWorkerId,
+      });
+
+      expect(TaskFileHelper.deleteTaskFiles).not.toHaveBeenCalled();
+      expect(mockAiTaskRepository.delete).not.toHaveBeenCalled();
+    });
+
     it("タスクが存在しない場合は何もしない", async () => {
       vi.mocked(mockAiTaskRepository.findById).mockResolvedValue(null);
 
@@ -263,6 +348,23 @@ describe("AiTaskQueueService", () => {
       expect(mockAiTaskRepository.delete).toHaveBeenCalledTimes(1);
     });
 
+    it("リースを保持している場合は失敗としてクリーンアップされる", async () => {
+      const testTask = createTestAiTask(
+        AI_TASK_STATUS.PROCESSING,
+        testWorkerId,
+      );
+      vi.mocked(mockAiTaskRepository.findById).mockResolvedValue(testTask);
+
+      await service.failTask({
+        taskId: testTaskId,
+        errorMessage: "テストエラー",
+        workerId: testWorkerId,
+      });
+
+      expect(TaskFileHelper.deleteTaskFiles).toHaveBeenCalledWith(testTaskId);
+      expect(mockAiTaskRepository.delete).toHaveBeenCalledTimes(1);
+    });
+
     it("タスクが存在しない場合は何もしない", async () => {
       vi.mocked(mockAiTaskRepository.findById).mockResolvedValue(null);
 
@@ -280,6 +382,94 @@ describe("AiTaskQueueService", () => {
     });
   });
 
+  describe("実行履歴の記録", () => {
+    const testReviewSpaceId = "550e8400-e29b-41d4-a716-446655440002";
+    const mockAiTaskHistoryRepository: IAiTaskHistoryRepository = {
+      save: vi.fn(),
+    };
+
+    const createProcessingTask = () =>
+      AiTask.reconstruct({
+        id: testTaskId,
+        taskType: "checklist_generation",
+        status: AI_TASK_STATUS.PROCESSING,
+        apiKeyHash: testApiKeyHash,
+        priority: 5,
+        payload: { reviewSpaceId: testReviewSpaceId },
+        errorMessage: null,
+        createdAt: new Date("2024-01-15T10:00:00Z"),
+        updatedAt: new Date("2024-01-15T10:00:30Z"),
+        startedAt: new Date("2024-01-15T10:00:30Z"),
+        completedAt: null,
+        leaseOwner: testWorkerId,
+        leaseExpiresAt: null,
+        deliveryCount: 1,
+        aiApiRetryCount: 0,
+        fileMetadata: [],
+      });
+
+    beforeEach(() => {
+      service = new AiTaskQueueService(
+        mockAiTaskRepository,
+        mockAiTaskFileMetadataRepository,
+        mockAiTaskHistoryRepository,
+      );
+    });
+
+    it("完了したタスクの実行履歴を記録してからクリーンアップする", async () => {
+      vi.mocked(mockAiTaskRepository.findById).mockResolvedValue(
+        createProcessingTask(),
+      );
+
+      await service.completeTask({ taskId: testTaskId });
+
+      expect(mockAiTaskHistoryRepository.save).toHaveBeenCalledTimes(1);
+      const history = vi.mocked(mockAiTaskHistoryRepository.save).mock
+        .calls[0][0];
+      expect(history.toDto()).toMatchObject({
+        taskId: testTaskId,
+        taskType: "checklist_generation",
+        status: AI_TASK_STATUS.COMPLETED,
+        reviewSpaceId: testReviewSpaceId,
+        reviewTargetId: null,
+      });
+      expect(history.waitDurationMs).toBe(30_000);
+      expect(mockAiTaskRepository.delete).toHaveBeenCalledTimes(1);
+    });
+
+    it("失敗したタスクはエラーメッセージとともに記録する", async () => {
+      vi.mocked(mockAiTaskRepository.findById).mockResolvedValue(
+        createProcessingTask(),
+      );
+
+      await service.failTask({
+        taskId: testTaskId,
+        errorMessage: "テストエラー",
+      });
+
+      const history = vi.mocked(mockAiTaskHistoryRepository.save).mock
+        .calls[0][0];
+      expect(history.status.value).toBe(AI_TASK_STATUS.FAILED);
+      expect(history.errorMessage).toBe("テストエラー");
+    });
+
+    it("実行履歴の記録に失敗してもクリーンアップを続行する", async () => {
+      vi.mocked(mockAiTaskRepository.findById).mockResolvedValue(
+        createProcessingTask(),
+      );
+      vi.mocked(mockAiTaskHistoryRepository.save).mockRejectedValueOnce(
+        new Error("DB error"),
+      );
+
+      await expect(
+        service.completeTask({ taskId: testTaskId }),
+      ).resolves.toBeUndefined();
+
+      expect(TaskFileHelper.deleteTaskFiles).toHaveBeenCalledWith(testTaskId);
+      expect(mockAiTaskRepository.delete).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("getQueueLength", () => {
     it("キュー長を取得できる", async () => {
       vi.mocked(mockAiTaskRepository.countQueuedByApiKeyHash).mockResolvedValue(
@@ -21,6 +21,7 @@ describe("AiTaskWorker", () => {
     dequeueTask: vi.fn(),
     completeTask: vi.fn(),
     failTask: vi.fn(),
+    renewLease: vi.fn(),
   } as unknown as AiTaskQueueService;
 
   // モックエグゼキューター
@@ -47,6 +48,10 @@ describe("AiTaskWorker", () => {
     updatedAt: now,
     startedAt: now,
     completedAt: null,
+    leaseOwner: null,
+    leaseExpiresAt: null,
+    deliveryCount: 0,
+    aiApiRetryCount: 0,
     fileMetadata: [],
   });
 
@@ -144,8 +149,13 @@ describe("AiTaskWorker", () => {
 
       await worker.stop();
 
+      expect(mockQueueService.dequeueTask).toHaveBeenCalledWith(
+        testApiKeyHash,
+        testWorkerId,
+      );
       expect(mockQueueService.completeTask).toHaveBeenCalledWith({
         taskId: testTask.id,
+        workerId: testWorkerId,
       });
     }, 20000);
 
@@ -182,6 +192,7 @@ describe("AiTaskWorker", () => {
       expect(mockQueueService.failTask).toHaveBeenCalledWith({
         taskId: testTask.id,
         errorMessage: "テストエラー",
+        workerId: testWorkerId,
       });
     }, 20000);
 
@@ -216,6 +227,7 @@ describe("AiTaskWorker", () => {
       expect(mockQueueService.failTask).toHaveBeenCalledWith({
         taskId: testTask.id,
         errorMessage: "実行時エラー",
+        workerId: testWorkerId,
       });
     }, 20000);
 
@@ -363,6 +375,96 @@ describe("AiTaskWorker", () => {
       expect(mockExecutor.execute).toHaveBeenCalled();
     }, 20000);
 
+    it("タスク実行中はハートビートでリースを延長する", async () => {
+      process.env.AI_QUEUE_HEARTBEAT_INTERVAL_MS = "1000";
+      vi.mocked(mockWorkflowRunRegistry.isCancelling).mockReturnValue(false);
+
+      let taskReturned = false;
+      vi.mocked(mockQueueService.dequeueTask).mockImplementation(async () => {
+        if (!taskReturned) {
+          taskReturned = true;
+          return createTestTask();
+        }
+        return null;
+      });
+      vi.mocked(mockQueueService.renewLease).mockResolvedValue(true);
+
+      // ハートビートが送信されるまで実行を継続する
+      vi.mocked(mockExecutor.execute).mockImplementation(async () => {
+        await vi.waitFor(
+          () => {
+            expect(mockQueueService.renewLease).toHaveBeenCalled();
+          },
+          { timeout: 5000 },
+        );
+        return { success: true };
+      });
+      vi.mocked(mockQueueService.completeTask).mockResolvedValue(undefined);
+
+      await workerWithRegistry.start();
+
+      await vi.waitFor(
+        () => {
+          expect(mockQueueService.completeTask).toHaveBeenCalled();
+        },
+        { timeout: 10000 },
+      );
+
+      await workerWithRegistry.stop();
+      delete process.env.AI_QUEUE_HEARTBEAT_INTERVAL_MS;
+
+      expect(mockQueueService.renewLease).toHaveBeenCalledWith({
+        taskId: "test-task-id",
+        workerId: testWorkerId,
+      });
+      expect(mockWorkflowRunRegistry.cancel).not.toHaveBeenCalled();
+    }, 20000);
+
+    it("リースを失った場合はワークフローをキャンセルし、完了・失敗処理を行わない", async () => {
+      process.env.AI_QUEUE_HEARTBEAT_INTERVAL_MS = "1000";
+      vi.mocked(mockWorkflowRunRegistry.isCancelling).mockReturnValue(false);
+
+      let taskReturned = false;
+      vi.mocked(mockQueueService.dequeueTask).mockImplementation(async () => {
+        if (!taskReturned) {
+          taskReturned = true;
+          return createTestTask();
+        }
+        return null;
+      });
+      // 他インスタンスでタスクが削除された
+      vi.mocked(mockQueueService.renewLease).mockResolvedValue(false);
+
+      // キャンセルされるまで実行を継続し、キャンセル後は失敗結果を返す
+      vi.mocked(mockExecutor.execute).mockImplementation(async () => {
+        await vi.waitFor(
+          () => {
+            expect(mockWorkflowRunRegistry.cancel).toHaveBeenCalled();
+          },
+          { timeout: 5000 },
+        );
+        return { success: false, errorMessage: "キャンセルされました" };
+      });
+
+      await workerWithRegistry.start();
+
+      await vi.waitFor(
+        () => {
+          expect(workerWithRegistry.currentTaskId).toBeNull();
+          expect(mockWorkflowRunRegistry.cancel).toHaveBeenCalledWith(
+            "test-task-id",
+          );
+        },
+        { timeout: 10000 },
+      );
+
+      await workerWithRegistry.stop();
+      delete process.env.AI_QUEUE_HEARTBEAT_INTERVAL_MS;
+
+      expect(mockQueueService.completeTask).not.toHaveBeenCalled();
+      expect(mockQueueService.failTask).not.toHaveBeenCalled();
+    }, 20000);
+
     it("WorkflowRunRegistryが渡されていない場合はキャンセルチェックをスキップ", async () => {
       // WorkflowRunRegistryなしのworkerを使用
       vi.mocked(mockQueueService.dequeueTask).mockResolvedValue(null);
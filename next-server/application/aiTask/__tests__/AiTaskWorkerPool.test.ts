@@ -3,6 +3,7 @@ import { AiTaskWorkerPool } from "../AiTaskWorkerPool";
 import { AiTaskQueueService } from "../AiTaskQueueService";
 import { AiTaskExecutor } from "../AiTaskExecutor";
 import { AiTaskWorker } from "../AiTaskWorker";
+import type { IWorkflowRunRegistry } from "../WorkflowRunRegistry";
 
 // isRunningの状態を制御するためのフラグ
 let mockIsRunning = true;
@@ -10,13 +11,23 @@ let mockIsRunning = true;
 // AiTaskWorkerをモック
 vi.mock("../AiTaskWorker", () => {
   return {
-    AiTaskWorker: vi.fn().mockImplementation(() => ({
-      get isRunning() {
-        return mockIsRunning;
-      },
-      start: vi.fn().mockResolvedValue(undefined),
-      stop: vi.fn().mockResolvedValue(undefined),
-    })),
+    AiTaskWorker: vi
+      .fn()
+      .mockImplementation(
+        (
+          _apiKeyHash: string,
+          _queue: unknown,
+          _executor: unknown,
+          workerId: string,
+        ) => ({
+          workerId,
+          get isRunning() {
+            return mockIsRunning;
+          },
+          start: vi.fn().mockResolvedValue(undefined),
+          stop: vi.fn().mockResolvedValue(undefined),
+        }),
+      ),
   };
 });
 
@@ -180,4 +191,28 @@ describe("AiTaskWorkerPool", () => {
       expect(workerPool.getRunningWorkerCount()).toBe(0);
     });
   });
+
+  describe("ワークフロー実行レジストリ", () => {
+    it("ワーカーにレジストリを渡す", async () => {
+      // Arrange
+      const registry = {} as IWorkflowRunRegistry;
+      workerPool = new AiTaskWorkerPool(
+        mockQueueService,
+        mockExecutor,
+        registry,
+      );
+
+      // Act
+      await workerPool.startWorkers("test-api-key-hash");
+
+      // Assert
+      expect(AiTaskWorker).toHaveBeenCalledWith(
+        "test-api-key-hash",
+        mockQueueService,
+        mockExecutor,
+        expect.any(String),
+        registry,
+      );
+    });
+  });
 });
@@ -157,6 +157,9 @@ vi.mock("@/application/mastra", async () => {
   const workflowUtils = await vi.importActual<
     typeof import("@/application/mastra/lib/workflowUtils")
   >("@/application/mastra/lib/workflowUtils");
+  const aiApiRetry = await vi.importActual<
+    typeof import("@/application/mastra/lib/aiApiRetry")
+  >("@/application/mastra/lib/aiApiRetry");
   const checklistGenerationWorkflowModule = await vi.importActual<
     typeof import("@/application/mastra/workflows/checklistGeneration")
   >("@/application/mastra/workflows/checklistGeneration");
@@ -182,6 +185,9 @@ vi.mock("@/application/mastra", async () => {
     extractedFileSchema: checklistGenerationWorkflowModule.extractedFileSchema,
     FILE_BUFFERS_CONTEXT_KEY:
       checklistGenerationWorkflowModule.FILE_BUFFERS_CONTEXT_KEY,
+    // AI APIリトライ設定
+    AI_API_RETRY_CONTEXT_KEY: aiApiRetry.AI_API_RETRY_CONTEXT_KEY,
+    getAiApiRetryMaxAttempts: aiApiRetry.getAiApiRetryMaxAttempts,
   };
 });
 
@@ -316,7 +322,16 @@ interface ExpectedTaskPayload {
   userId: string;
   files: RawUploadFileMeta[];
   checklistRequirements: string;
-  aiApiConfig: { apiKey: string; apiUrl: string; apiModel: string };
+  aiApiConfig: {
+    apiKey: string;
+    apiUrl: string;
+    apiModel: string;
+    rateLimit?: {
+      requestsPerMinute: number | null;
+      tokensPerMinute: number | null;
+    };
+    modelEndpoints?: Record<string, unknown>;
+  };
 }
 
 const assertSavedTaskPayload = (
@@ -391,7 +406,7 @@ describe("AIチェックリスト生成 結合テスト", () => {
     id: testProjectId,
     name: "テストプロジェクト",
     description: null,
-    members: [{ userId: testUserId, createdAt: now }],
+    members: [{ userId: testUserId, role: "owner", createdAt: now }],
     encryptedApiKey: null,
     createdAt: now,
     updatedAt: now,
@@ -421,6 +436,8 @@ describe("AIチェックリスト生成 結合テスト", () => {
     findById: vi.fn(),
     findByMemberId: vi.fn(),
     countByMemberId: vi.fn(),
+    findAll: vi.fn(),
+    countAll: vi.fn(),
     save: vi.fn(),
     delete: vi.fn(),
   };
@@ -437,6 +454,10 @@ describe("AIチェックリスト生成 結合テスト", () => {
     findDistinctApiKeyHashesInQueue: vi.fn(),
     countQueuedByApiKeyHash: vi.fn(),
     dequeueNextTask: vi.fn(),
+    renewLease: vi.fn(),
+    incrementAiApiRetryCount: vi.fn(),
+    requeueExpiredLeases: vi.fn(),
+    findLeaseExpiredTasks: vi.fn(),
     save: vi.fn(),
     delete: vi.fn(),
     deleteByStatus: vi.fn(),
@@ -471,8 +492,11 @@ describe("AIチェックリスト生成 結合テスト", () => {
   const mockReviewTargetRepository: IReviewTargetRepository = {
     findById: vi.fn(),
     findByReviewSpaceId: vi.fn(),
+    findByRevisionGroupId: vi.fn(),
     countByReviewSpaceId: vi.fn(),
+    summarizeByReviewSpaceIds: vi.fn(),
     save: vi.fn(),
+    saveRevision: vi.fn(),
     delete: vi.fn(),
   };
 
@@ -537,6 +561,10 @@ describe("AIチェックリスト生成 結合テスト", () => {
     updatedAt: now,
     startedAt: now,
     completedAt: null,
+    leaseOwner: null,
+    leaseExpiresAt: null,
+    deliveryCount: 0,
+    aiApiRetryCount: 0,
     fileMetadata: files.map((f, i) => ({
       id: `file-meta-${i}`,
       taskId: testTaskId,
@@ -724,6 +752,8 @@ describe("AIチェックリスト生成 結合テスト", () => {
             apiKey: "test-api-key",
             apiUrl: "http://test-api-url",
             apiModel: "test-model",
+            rateLimit: { requestsPerMinute: null, tokensPerMinute: null },
+            modelEndpoints: {},
           },
         });
 
@@ -1202,7 +1232,11 @@ describe("AIチェックリスト生成 結合テスト", () => {
           name: "テストプロジェクト",
           description: null,
           members: [
-            { userId: "550e8400-e29b-41d4-a716-446655449999", createdAt: now },
+            {
+              userId: "550e8400-e29b-41d4-a716-446655449999",
+              role: "owner",
+              createdAt: now,
+            },
           ], // testUserIdは含まれていない
           encryptedApiKey: null,
           createdAt: now,
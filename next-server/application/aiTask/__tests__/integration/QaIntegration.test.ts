@@ -1,10 +1,10 @@
 /**
  * QA機能 結合テスト
  *
- * ExecuteQaService → StartQaWorkflowService → qaExecutionWorkflow → DB保存
+ * ExecuteQaService → (AIタスクキュー) → RunQaWorkflowService → qaExecutionWorkflow → DB保存
  * の一連の流れをテストする
  *
- * 注意: QAはキューを経由せず、直接ワークフローを実行する点が他のAI処理と異なる
+ * 注意: キューへの登録はモックし、ワーカーが呼び出すRunQaWorkflowServiceを直接実行する
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
@@ -19,13 +19,17 @@ import type { IReviewResultRepository } from "@/application/shared/port/reposito
 import type { IReviewDocumentCacheRepository } from "@/application/shared/port/repository/IReviewDocumentCacheRepository";
 import type { ILargeDocumentResultCacheRepository } from "@/application/shared/port/repository/ILargeDocumentResultCacheRepository";
 import type { IQaHistoryRepository } from "@/application/shared/port/repository/IQaHistoryRepository";
+import type { IQaHistoryEventRepository } from "@/application/shared/port/repository/IQaHistoryEventRepository";
 import type { IEventBroker } from "@/application/shared/port/push/IEventBroker";
 import {
   ExecuteQaService,
   type ExecuteQaCommand,
 } from "@/application/qaHistory/ExecuteQaService";
-import { StartQaWorkflowService } from "@/application/qaHistory/StartQaWorkflowService";
-import type { Mastra } from "@mastra/core";
+import {
+  RunQaWorkflowService,
+  type RunQaWorkflowCommand,
+} from "@/application/qaHistory/RunQaWorkflowService";
+import type { AiTaskQueueService } from "@/application/aiTask/AiTaskQueueService";
 import type {
   QaCompleteEvent,
   QaErrorEvent,
@@ -72,6 +76,7 @@ const {
   mockReviewCacheHelperLoadTextCache,
   mockReviewCacheHelperLoadImageCache,
   mockMastraForSteps,
+  mockStartWorkersForApiKeyHash,
 } = vi.hoisted(() => {
   const _mockQaPlanningAgentGenerateLegacy = vi.fn();
   const _mockQaResearchAgentGenerateLegacy = vi.fn();
@@ -84,6 +89,7 @@ const {
     mockReviewDocumentCacheRepositoryFindById: vi.fn(),
     mockReviewCacheHelperLoadTextCache: vi.fn(),
     mockReviewCacheHelperLoadImageCache: vi.fn(),
+    mockStartWorkersForApiKeyHash: vi.fn(),
     // QAステップ用のモックMastraオブジェクト
     mockMastraForSteps: {
       getAgent: (name: string) => {
@@ -131,6 +137,15 @@ vi.mock("@/lib/server/logger", () => ({
   }),
 }));
 
+// ========================================
+// AiTaskBootstrapのモック（ワーカーは起動しない）
+// ========================================
+vi.mock("@/application/aiTask", () => ({
+  getAiTaskBootstrap: vi.fn(() => ({
+    startWorkersForApiKeyHash: mockStartWorkersForApiKeyHash,
+  })),
+}));
+
 // ========================================
 // AIエージェントのモック（AI API呼び出しのみモック）
 // ========================================
@@ -405,6 +420,7 @@ const createTestQaHistory = (params: {
     checkListItemContent: QaCheckListItemContent.create(
       params.checkListItemContent,
     ),
+    threadId: QaHistoryId.reconstruct(params.id),
     answer: params.answer ? Answer.create(params.answer) : null,
     researchSummary: params.researchSummary
       ? ResearchSummary.create(params.researchSummary)
@@ -437,7 +453,7 @@ describe("QA機能 結合テスト", () => {
     id: testProjectId,
     name: "テストプロジェクト",
     description: null,
-    members: [{ userId: testUserId, createdAt: now }],
+    members: [{ userId: testUserId, role: "owner", createdAt: now }],
     encryptedApiKey: null,
     createdAt: now,
     updatedAt: now,
@@ -529,13 +545,24 @@ describe("QA機能 結合テスト", () => {
       }),
     delete: vi.fn(),
     deleteByReviewTargetId: vi.fn(),
+    findByThreadId: vi.fn(),
+    findOrphaned: vi.fn(),
+  };
+
+  const mockQaHistoryEventRepository: IQaHistoryEventRepository = {
+    append: vi.fn(),
+    findByQaHistoryId: vi.fn(),
+    findLatestSequence: vi.fn(),
   };
 
   const mockReviewTargetRepository: IReviewTargetRepository = {
     findById: vi.fn(),
     findByReviewSpaceId: vi.fn(),
+    findByRevisionGroupId: vi.fn(),
     countByReviewSpaceId: vi.fn(),
+    summarizeByReviewSpaceIds: vi.fn(),
     save: vi.fn(),
+    saveRevision: vi.fn(),
     delete: vi.fn(),
   };
 
@@ -552,6 +579,8 @@ describe("QA機能 結合テスト", () => {
     findById: vi.fn(),
     findByMemberId: vi.fn(),
     countByMemberId: vi.fn(),
+    findAll: vi.fn(),
+    countAll: vi.fn(),
     save: vi.fn(),
     delete: vi.fn(),
   };
@@ -601,13 +630,26 @@ describe("QA機能 結合テスト", () => {
 
   // サービス
   let executeQaService: ExecuteQaService;
-  let startQaWorkflowService: StartQaWorkflowService;
+  let runQaWorkflowService: RunQaWorkflowService;
+
+  // モックAIタスクキュー
+  const mockEnqueueTask = vi.fn();
 
-  // モックMastra（StartQaWorkflowService用）
-  const mockMastra = {
-    getWorkflow: () => null,
-    getAgent: () => null,
-  } as unknown as Mastra;
+  /**
+   * ワーカーがRunQaWorkflowServiceに渡すコマンドを作成
+   */
+  const createRunCommand = (qaHistoryId: string): RunQaWorkflowCommand => ({
+    taskId: "test-task-id",
+    qaHistoryId,
+    reviewSpaceId: testReviewSpaceId,
+    userId: testUserId,
+    employeeId: testEmployeeId,
+    aiApiConfig: {
+      apiKey: "test-api-key",
+      apiUrl: "http://test-api-url",
+      apiModel: "test-model",
+    },
+  });
 
   // 環境変数のバックアップ用
   let originalEnv: NodeJS.ProcessEnv;
@@ -648,6 +690,11 @@ describe("QA機能 結合テスト", () => {
       mockLargeDocumentResultCacheRepository.findChecklistResultsWithIndividualResults,
     ).mockResolvedValue([]);
     vi.mocked(mockSystemSettingRepository.find).mockResolvedValue(null);
+    vi.mocked(mockQaHistoryEventRepository.append).mockResolvedValue();
+    vi.mocked(
+      mockQaHistoryEventRepository.findLatestSequence,
+    ).mockResolvedValue(0);
+    mockEnqueueTask.mockResolvedValue({ taskId: "test-task-id" });
 
     // ワークフロー内部で使用するリポジトリのモック設定
     mockReviewDocumentCacheRepositoryFindById.mockResolvedValue({
@@ -695,19 +742,17 @@ describe("QA機能 結合テスト", () => {
       mockReviewTargetRepository,
       mockReviewSpaceRepository,
       mockProjectRepository,
+      mockSystemSettingRepository,
+      { enqueueTask: mockEnqueueTask } as unknown as AiTaskQueueService,
     );
 
-    startQaWorkflowService = new StartQaWorkflowService(
+    runQaWorkflowService = new RunQaWorkflowService(
       mockQaHistoryRepository,
-      mockReviewTargetRepository,
+      mockQaHistoryEventRepository,
       mockReviewResultRepository,
       mockReviewDocumentCacheRepository,
       mockLargeDocumentResultCacheRepository,
-      mockSystemSettingRepository,
-      mockReviewSpaceRepository,
-      mockProjectRepository,
       mockEventBroker,
-      mockMastra,
     );
   });
 
@@ -730,6 +775,7 @@ describe("QA機能 結合テスト", () => {
           question,
           checklistItemContents,
           userId: testUserId,
+          employeeId: testEmployeeId,
         };
 
         // Act
@@ -764,6 +810,7 @@ describe("QA機能 結合テスト", () => {
           question,
           checklistItemContents,
           userId: testUserId,
+          employeeId: testEmployeeId,
         };
 
         // Act
@@ -969,6 +1016,7 @@ describe("QA機能 結合テスト", () => {
           question,
           checklistItemContents,
           userId: testUserId,
+          employeeId: testEmployeeId,
         };
 
         // Act
@@ -995,6 +1043,7 @@ describe("QA機能 結合テスト", () => {
           question: "テスト質問",
           checklistItemContents: [],
           userId: testUserId,
+          employeeId: testEmployeeId,
         };
 
         // Act & Assert
@@ -1010,6 +1059,7 @@ describe("QA機能 結合テスト", () => {
           question: "テスト質問",
           checklistItemContents: ["チェック項目"],
           userId: testUserId,
+          employeeId: testEmployeeId,
         };
 
         // Act & Assert
@@ -1036,6 +1086,7 @@ describe("QA機能 結合テスト", () => {
           question: "テスト質問",
           checklistItemContents: ["チェック項目"],
           userId: testUserId,
+          employeeId: testEmployeeId,
         };
 
         // Act & Assert
@@ -1087,11 +1138,11 @@ describe("QA機能 結合テスト", () => {
   });
 
   // ========================================
-  // ExecuteQaService → StartQaWorkflowService 結合テスト
+  // ExecuteQaService → RunQaWorkflowService 結合テスト
   // ========================================
-  describe("ExecuteQaService → StartQaWorkflowService 結合テスト", () => {
+  describe("ExecuteQaService → RunQaWorkflowService 結合テスト", () => {
     describe("正常系: 少量レビュー結果に対するQA", () => {
-      it("ExecuteQaServiceでQaHistory作成後、StartQaWorkflowServiceでワークフロー実行が正常に動作すること", async () => {
+      it("ExecuteQaServiceでQaHistory作成後、RunQaWorkflowServiceでワークフロー実行が正常に動作すること", async () => {
         // Arrange
         const question = "セキュリティ対策について教えてください";
         const checklistItemContents = [
@@ -1104,6 +1155,7 @@ describe("QA機能 結合テスト", () => {
           question,
           checklistItemContents,
           userId: testUserId,
+          employeeId: testEmployeeId,
         };
 
         // Act 1: ExecuteQaServiceでQaHistory作成
@@ -1114,7 +1166,7 @@ describe("QA機能 結合テスト", () => {
         expect(savedQaHistory!.isPending()).toBe(true);
         expect(savedQaHistory!.question.value).toBe(question);
 
-        // Arrange 2: StartQaWorkflowService用にQaHistoryをfindByIdで返す設定
+        // Arrange 2: RunQaWorkflowService用にQaHistoryをfindByIdで返す設定
         const pendingQaHistory = createTestQaHistory({
           id: executeResult.qaHistoryId,
           reviewTargetId: testReviewTargetId,
@@ -1127,15 +1179,11 @@ describe("QA機能 結合テスト", () => {
           pendingQaHistory,
         );
 
-        // Act 2: StartQaWorkflowServiceでワークフロー実行
-        await startQaWorkflowService.startWorkflow(
-          executeResult.qaHistoryId,
-          testUserId,
+        // Act 2: RunQaWorkflowServiceでワークフロー実行
+        await runQaWorkflowService.execute(
+          createRunCommand(executeResult.qaHistoryId),
         );
 
-        // ワークフローが非同期実行されるため、少し待つ
-        await new Promise((resolve) => setTimeout(resolve, 100));
-
         // Assert 2: ステータスがprocessingに更新されること
         expect(mockQaHistoryRepository.updateStatus).toHaveBeenCalledTimes(1);
         expect(statusHistory).toHaveLength(1);
@@ -1161,10 +1209,7 @@ describe("QA機能 結合テスト", () => {
         );
 
         // Act
-        await startQaWorkflowService.startWorkflow(testQaHistoryId, testUserId, testEmployeeId);
-
-        // ワークフローが非同期実行されるため、少し待つ
-        await new Promise((resolve) => setTimeout(resolve, 500));
+        await runQaWorkflowService.execute(createRunCommand(testQaHistoryId));
 
         // Assert
         // 1. ステータスがprocessingに更新されること
@@ -1250,10 +1295,7 @@ describe("QA機能 結合テスト", () => {
         });
 
         // Act
-        await startQaWorkflowService.startWorkflow(testQaHistoryId, testUserId, testEmployeeId);
-
-        // ワークフローが非同期実行されるため、十分に待つ
-        await new Promise((resolve) => setTimeout(resolve, 500));
+        await runQaWorkflowService.execute(createRunCommand(testQaHistoryId));
 
         // Assert 1: リポジトリが正しい引数で呼ばれること
         expect(
@@ -1320,10 +1362,7 @@ describe("QA機能 結合テスト", () => {
         });
 
         // Act
-        await startQaWorkflowService.startWorkflow(testQaHistoryId, testUserId, testEmployeeId);
-
-        // ワークフローが非同期実行されるため、少し待つ
-        await new Promise((resolve) => setTimeout(resolve, 500));
+        await runQaWorkflowService.execute(createRunCommand(testQaHistoryId));
 
         // Assert: updateAnswerが呼ばれること
         // 注意: ワークフローの完全な成功にはエージェントモックの正しい設定が必要
@@ -1350,10 +1389,7 @@ describe("QA機能 結合テスト", () => {
         );
 
         // Act
-        await startQaWorkflowService.startWorkflow(testQaHistoryId, testUserId, testEmployeeId);
-
-        // ワークフローが非同期実行されるため、少し待つ
-        await new Promise((resolve) => setTimeout(resolve, 500));
+        await runQaWorkflowService.execute(createRunCommand(testQaHistoryId));
 
         // Assert: broadcastが呼ばれること（research_startまたはcomplete）
         // 注意: ワークフローの実行内容によって発行されるイベントが異なる
@@ -1385,10 +1421,7 @@ describe("QA機能 結合テスト", () => {
         });
 
         // Act
-        await startQaWorkflowService.startWorkflow(testQaHistoryId, testUserId, testEmployeeId);
-
-        // ワークフローが非同期実行されるため、少し待つ
-        await new Promise((resolve) => setTimeout(resolve, 500));
+        await runQaWorkflowService.execute(createRunCommand(testQaHistoryId));
 
         // Assert: broadcastが呼ばれること
         // completeイベントの検証
@@ -1424,10 +1457,7 @@ describe("QA機能 結合テスト", () => {
         );
 
         // Act
-        await startQaWorkflowService.startWorkflow(testQaHistoryId, testUserId, testEmployeeId);
-
-        // ワークフローが非同期実行されるため、少し待つ
-        await new Promise((resolve) => setTimeout(resolve, 500));
+        await runQaWorkflowService.execute(createRunCommand(testQaHistoryId));
 
         // Assert: エラーイベントが発行されるか、またはupdateErrorが呼ばれること
         // ワークフロー内部でエラーがハンドリングされる
@@ -1435,60 +1465,79 @@ describe("QA機能 結合テスト", () => {
     });
 
     describe("異常系", () => {
-      it("二重起動防止: pending状態でない場合はワークフローが開始されないこと", async () => {
+      it("完了済みの場合はワークフローが再実行されないこと", async () => {
         // Arrange
         const question = "テスト質問";
         const checklistItemContents = ["チェック項目1"];
 
-        // processing状態のQaHistoryを返す
-        const processingQaHistory = createTestQaHistory({
+        // completed状態のQaHistoryを返す（完了直後にタスクが再配信された場合）
+        const completedQaHistory = createTestQaHistory({
           id: testQaHistoryId,
           reviewTargetId: testReviewTargetId,
           userId: testUserId,
           question,
           checkListItemContent: JSON.stringify(checklistItemContents),
-          status: "processing",
+          answer: "回答済み",
+          researchSummary: [],
+          status: "completed",
         });
         vi.mocked(mockQaHistoryRepository.findById).mockResolvedValue(
-          processingQaHistory,
+          completedQaHistory,
         );
 
         // Act
-        await startQaWorkflowService.startWorkflow(testQaHistoryId, testUserId, testEmployeeId);
+        const result = await runQaWorkflowService.execute(
+          createRunCommand(testQaHistoryId),
+        );
 
-        // Assert: updateStatusが呼ばれないこと（ワークフローが開始されない）
+        // Assert: updateStatusが呼ばれないこと（ワークフローが実行されない）
+        expect(result.success).toBe(true);
         expect(mockQaHistoryRepository.updateStatus).not.toHaveBeenCalled();
+        expect(mockEventBroker.broadcast).not.toHaveBeenCalled();
       });
 
-      it("QaHistoryが見つからない場合エラーがスローされること", async () => {
+      it("processing状態の場合はワークフローが再実行されること", async () => {
         // Arrange
-        vi.mocked(mockQaHistoryRepository.findById).mockResolvedValue(null);
-
-        // Act & Assert
-        await expect(
-          startQaWorkflowService.startWorkflow(testQaHistoryId, testUserId, testEmployeeId),
-        ).rejects.toThrow("Q&A履歴が見つかりません");
-      });
-
-      it("レビュー対象が見つからない場合エラーがスローされること", async () => {
-        // Arrange
-        const pendingQaHistory = createTestQaHistory({
+        // リース期限切れで再配信されたタスクはprocessing状態のQ&Aを再実行する
+        const processingQaHistory = createTestQaHistory({
           id: testQaHistoryId,
           reviewTargetId: testReviewTargetId,
           userId: testUserId,
-          question: "テスト",
-          checkListItemContent: JSON.stringify(["チェック項目"]),
-          status: "pending",
+          question: "テスト質問",
+          checkListItemContent: JSON.stringify(["チェック項目1"]),
+          status: "processing",
         });
         vi.mocked(mockQaHistoryRepository.findById).mockResolvedValue(
-          pendingQaHistory,
+          processingQaHistory,
         );
-        vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(null);
+        vi.mocked(
+          mockQaHistoryEventRepository.findLatestSequence,
+        ).mockResolvedValue(3);
 
-        // Act & Assert
-        await expect(
-          startQaWorkflowService.startWorkflow(testQaHistoryId, testUserId, testEmployeeId),
-        ).rejects.toThrow("レビュー対象が見つかりません");
+        // Act
+        await runQaWorkflowService.execute(createRunCommand(testQaHistoryId));
+
+        // Assert: 前回の続きから発行順が採番され、workflow_startから再送されること
+        expect(mockQaHistoryRepository.updateStatus).toHaveBeenCalled();
+        const broadcastCalls = vi.mocked(mockEventBroker.broadcast).mock.calls;
+        expect(broadcastCalls[0][1]).toEqual(
+          expect.objectContaining({ type: "workflow_start", sequence: 4 }),
+        );
+      });
+
+      it("QaHistoryが見つからない場合は失敗結果が返されること", async () => {
+        // Arrange
+        vi.mocked(mockQaHistoryRepository.findById).mockResolvedValue(null);
+
+        // Act
+        const result = await runQaWorkflowService.execute(
+          createRunCommand(testQaHistoryId),
+        );
+
+        // Assert
+        expect(result.success).toBe(false);
+        expect(result.errorMessage).toBe("Q&A履歴が見つかりません");
+        expect(mockQaHistoryRepository.updateStatus).not.toHaveBeenCalled();
       });
 
       it("ワークフロー失敗時にupdateErrorでエラーメッセージが保存されること", async () => {
@@ -1516,10 +1565,7 @@ describe("QA機能 結合テスト", () => {
         });
 
         // Act
-        await startQaWorkflowService.startWorkflow(testQaHistoryId, testUserId, testEmployeeId);
-
-        // ワークフローが非同期実行されるため、少し待つ
-        await new Promise((resolve) => setTimeout(resolve, 500));
+        await runQaWorkflowService.execute(createRunCommand(testQaHistoryId));
 
         // Assert: updateErrorが呼ばれること（調査するドキュメントが見つからないエラー）
         expect(mockQaHistoryRepository.updateError).toHaveBeenCalled();
@@ -1568,10 +1614,7 @@ describe("QA機能 結合テスト", () => {
         );
 
         // Act
-        await startQaWorkflowService.startWorkflow(testQaHistoryId, testUserId, testEmployeeId);
-
-        // ワークフローが非同期実行されるため、少し待つ
-        await new Promise((resolve) => setTimeout(resolve, 500));
+        await runQaWorkflowService.execute(createRunCommand(testQaHistoryId));
 
         // Assert: ステータスがprocessingに更新されること
         expect(mockQaHistoryRepository.updateStatus).toHaveBeenCalled();
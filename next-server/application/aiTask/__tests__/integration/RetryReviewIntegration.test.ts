@@ -193,6 +193,9 @@ vi.mock("@/application/mastra", async () => {
   const workflowUtils = await vi.importActual<
     typeof import("@/application/mastra/lib/workflowUtils")
   >("@/application/mastra/lib/workflowUtils");
+  const aiApiRetry = await vi.importActual<
+    typeof import("@/application/mastra/lib/aiApiRetry")
+  >("@/application/mastra/lib/aiApiRetry");
   const reviewExecutionWorkflowModule = await vi.importActual<
     typeof import("@/application/mastra/workflows/reviewExecution")
   >("@/application/mastra/workflows/reviewExecution");
@@ -218,6 +221,9 @@ vi.mock("@/application/mastra", async () => {
     extractedFileSchema: reviewExecutionWorkflowModule.extractedFileSchema,
     FILE_BUFFERS_CONTEXT_KEY:
       reviewExecutionWorkflowModule.FILE_BUFFERS_CONTEXT_KEY,
+    // AI APIリトライ設定
+    AI_API_RETRY_CONTEXT_KEY: aiApiRetry.AI_API_RETRY_CONTEXT_KEY,
+    getAiApiRetryMaxAttempts: aiApiRetry.getAiApiRetryMaxAttempts,
   };
 });
 
@@ -276,6 +282,10 @@ const createTestCheckListItems = (
         id: checkListItemIds[i],
         reviewSpaceId,
         content: `チェック項目${i + 1}の内容`,
+        category: null,
+        displayOrder: 0,
+        severity: "medium",
+        guidance: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       }),
@@ -357,7 +367,16 @@ interface ExpectedRetryTaskPayload {
   userId: string;
   checkListItemCount: number;
   reviewType: ReviewType;
-  aiApiConfig: { apiKey: string; apiUrl: string; apiModel: string };
+  aiApiConfig: {
+    apiKey: string;
+    apiUrl: string;
+    apiModel: string;
+    rateLimit?: {
+      requestsPerMinute: number | null;
+      tokensPerMinute: number | null;
+    };
+    modelEndpoints?: Record<string, unknown>;
+  };
   isRetry: boolean;
   retryScope: "failed" | "all";
   resultsToDeleteCount: number;
@@ -417,7 +436,7 @@ describe("レビューリトライ 結合テスト", () => {
     id: testProjectId,
     name: "テストプロジェクト",
     description: null,
-    members: [{ userId: testUserId, createdAt: now }],
+    members: [{ userId: testUserId, role: "owner", createdAt: now }],
     encryptedApiKey: null,
     createdAt: now,
     updatedAt: now,
@@ -475,6 +494,7 @@ describe("レビューリトライ 結合テスト", () => {
           evaluation: isFailed ? null : "A",
           comment: isFailed ? null : `レビューコメント${i + 1}`,
           errorMessage: isFailed ? "AI処理エラー" : null,
+          evidence: null,
           createdAt: now,
           updatedAt: now,
         }),
@@ -533,6 +553,8 @@ describe("レビューリトライ 結合テスト", () => {
     findById: vi.fn(),
     findByMemberId: vi.fn(),
     countByMemberId: vi.fn(),
+    findAll: vi.fn(),
+    countAll: vi.fn(),
     save: vi.fn(),
     delete: vi.fn(),
   };
@@ -549,6 +571,10 @@ describe("レビューリトライ 結合テスト", () => {
     findDistinctApiKeyHashesInQueue: vi.fn(),
     countQueuedByApiKeyHash: vi.fn(),
     dequeueNextTask: vi.fn(),
+    renewLease: vi.fn(),
+    incrementAiApiRetryCount: vi.fn(),
+    requeueExpiredLeases: vi.fn(),
+    findLeaseExpiredTasks: vi.fn(),
     save: vi.fn(),
     delete: vi.fn(),
     deleteByStatus: vi.fn(),
@@ -583,8 +609,11 @@ describe("レビューリトライ 結合テスト", () => {
   const mockReviewTargetRepository: IReviewTargetRepository = {
     findById: vi.fn(),
     findByReviewSpaceId: vi.fn(),
+    findByRevisionGroupId: vi.fn(),
     countByReviewSpaceId: vi.fn(),
+    summarizeByReviewSpaceIds: vi.fn(),
     save: vi.fn(),
+    saveRevision: vi.fn(),
     delete: vi.fn(),
   };
 
@@ -668,6 +697,10 @@ describe("レビューリトライ 結合テスト", () => {
     updatedAt: now,
     startedAt: now,
     completedAt: null,
+    leaseOwner: null,
+    leaseExpiresAt: null,
+    deliveryCount: 0,
+    aiApiRetryCount: 0,
     fileMetadata: [], // リトライ時はファイルメタデータなし
   });
 
@@ -838,6 +871,8 @@ describe("レビューリトライ 結合テスト", () => {
             apiKey: "test-api-key",
             apiUrl: "http://test-api-url",
             apiModel: "test-model",
+            rateLimit: { requestsPerMinute: null, tokensPerMinute: null },
+            modelEndpoints: {},
           },
           isRetry: true,
           retryScope: "failed",
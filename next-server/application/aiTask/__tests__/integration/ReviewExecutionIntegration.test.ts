@@ -188,6 +188,9 @@ vi.mock("@/application/mastra", async () => {
   const workflowUtils = await vi.importActual<
     typeof import("@/application/mastra/lib/workflowUtils")
   >("@/application/mastra/lib/workflowUtils");
+  const aiApiRetry = await vi.importActual<
+    typeof import("@/application/mastra/lib/aiApiRetry")
+  >("@/application/mastra/lib/aiApiRetry");
   const reviewExecutionWorkflowModule = await vi.importActual<
     typeof import("@/application/mastra/workflows/reviewExecution")
   >("@/application/mastra/workflows/reviewExecution");
@@ -213,6 +216,9 @@ vi.mock("@/application/mastra", async () => {
     extractedFileSchema: reviewExecutionWorkflowModule.extractedFileSchema,
     FILE_BUFFERS_CONTEXT_KEY:
       reviewExecutionWorkflowModule.FILE_BUFFERS_CONTEXT_KEY,
+    // AI APIリトライ設定
+    AI_API_RETRY_CONTEXT_KEY: aiApiRetry.AI_API_RETRY_CONTEXT_KEY,
+    getAiApiRetryMaxAttempts: aiApiRetry.getAiApiRetryMaxAttempts,
   };
 });
 
@@ -292,6 +298,10 @@ const createTestCheckListItems = (count: number): CheckListItem[] => {
         id: checkListItemIds[i],
         reviewSpaceId: "550e8400-e29b-41d4-a716-446655440002",
         content: `チェック項目${i + 1}の内容`,
+        category: null,
+        displayOrder: 0,
+        severity: "medium",
+        guidance: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       }),
@@ -374,7 +384,16 @@ interface ExpectedReviewTaskPayload {
   files: RawUploadFileMeta[];
   checkListItemCount: number;
   reviewType: ReviewType;
-  aiApiConfig: { apiKey: string; apiUrl: string; apiModel: string };
+  aiApiConfig: {
+    apiKey: string;
+    apiUrl: string;
+    apiModel: string;
+    rateLimit?: {
+      requestsPerMinute: number | null;
+      tokensPerMinute: number | null;
+    };
+    modelEndpoints?: Record<string, unknown>;
+  };
 }
 
 const assertSavedReviewTaskPayload = (
@@ -430,7 +449,7 @@ describe("レビュー実行 結合テスト", () => {
     id: testProjectId,
     name: "テストプロジェクト",
     description: null,
-    members: [{ userId: testUserId, createdAt: now }],
+    members: [{ userId: testUserId, role: "owner", createdAt: now }],
     encryptedApiKey: null,
     createdAt: now,
     updatedAt: now,
@@ -462,6 +481,8 @@ describe("レビュー実行 結合テスト", () => {
     findById: vi.fn(),
     findByMemberId: vi.fn(),
     countByMemberId: vi.fn(),
+    findAll: vi.fn(),
+    countAll: vi.fn(),
     save: vi.fn(),
     delete: vi.fn(),
   };
@@ -478,6 +499,10 @@ describe("レビュー実行 結合テスト", () => {
     findDistinctApiKeyHashesInQueue: vi.fn(),
     countQueuedByApiKeyHash: vi.fn(),
     dequeueNextTask: vi.fn(),
+    renewLease: vi.fn(),
+    incrementAiApiRetryCount: vi.fn(),
+    requeueExpiredLeases: vi.fn(),
+    findLeaseExpiredTasks: vi.fn(),
     save: vi.fn(),
     delete: vi.fn(),
     deleteByStatus: vi.fn(),
@@ -512,8 +537,11 @@ describe("レビュー実行 結合テスト", () => {
   const mockReviewTargetRepository: IReviewTargetRepository = {
     findById: vi.fn(),
     findByReviewSpaceId: vi.fn(),
+    findByRevisionGroupId: vi.fn(),
     countByReviewSpaceId: vi.fn(),
+    summarizeByReviewSpaceIds: vi.fn(),
     save: vi.fn(),
+    saveRevision: vi.fn(),
     delete: vi.fn(),
   };
 
@@ -592,6 +620,10 @@ describe("レビュー実行 結合テスト", () => {
     updatedAt: now,
     startedAt: now,
     completedAt: null,
+    leaseOwner: null,
+    leaseExpiresAt: null,
+    deliveryCount: 0,
+    aiApiRetryCount: 0,
     fileMetadata: files.map((f, i) => ({
       id: `file-meta-${i}`,
       taskId: testTaskId,
@@ -793,6 +825,8 @@ describe("レビュー実行 結合テスト", () => {
             apiKey: "test-api-key",
             apiUrl: "http://test-api-url",
             apiModel: "test-model",
+            rateLimit: { requestsPerMinute: null, tokensPerMinute: null },
+            modelEndpoints: {},
           },
         });
 
@@ -1413,6 +1447,8 @@ describe("レビュー実行 結合テスト", () => {
           apiKey: "test-api-key",
           apiUrl: "http://test-api-url",
           apiModel: "test-model",
+          rateLimit: { requestsPerMinute: null, tokensPerMinute: null },
+          modelEndpoints: {},
         },
       });
     });
@@ -1447,6 +1483,8 @@ describe("レビュー実行 結合テスト", () => {
           apiKey: "test-api-key",
           apiUrl: "http://test-api-url",
           apiModel: "test-model",
+          rateLimit: { requestsPerMinute: null, tokensPerMinute: null },
+          modelEndpoints: {},
         },
       });
     });
@@ -1610,7 +1648,11 @@ describe("レビュー実行 結合テスト", () => {
           name: "テストプロジェクト",
           description: null,
           members: [
-            { userId: "550e8400-e29b-41d4-a716-446655449999", createdAt: now },
+            {
+              userId: "550e8400-e29b-41d4-a716-446655449999",
+              role: "owner",
+              createdAt: now,
+            },
           ], // testUserIdは含まれていない
           encryptedApiKey: null,
           createdAt: now,
@@ -11,6 +11,7 @@ export { AiTaskExecutor } from "./AiTaskExecutor";
 export type {
   ReviewTaskPayload,
   ChecklistGenerationTaskPayload,
+  QaExecutionTaskPayload,
   TaskExecutionResult,
 } from "./AiTaskExecutor";
 
@@ -2,7 +2,7 @@ import { ICheckListItemRepository } from "@/application/shared/port/repository/I
 import { IProjectRepository } from "@/application/shared/port/repository";
 import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
 import { CheckListItemId } from "@/domain/checkListItem";
-import { ProjectId } from "@/domain/project";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
 import { ReviewSpaceId } from "@/domain/reviewSpace";
 import { domainValidationError } from "@/lib/server/error";
 
@@ -72,6 +72,11 @@ export class BulkDeleteCheckListItemsService {
       throw domainValidationError("PROJECT_ACCESS_DENIED");
     }
 
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.EDIT_CHECKLIST)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
     // チェック項目IDを値オブジェクトに変換
     const itemIds = checkListItemIds.map((id) =>
       CheckListItemId.reconstruct(id),
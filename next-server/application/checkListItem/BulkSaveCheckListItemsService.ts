@@ -2,10 +2,24 @@ import { ICheckListItemRepository } from "@/application/shared/port/repository/I
 import { IProjectRepository } from "@/application/shared/port/repository";
 import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
 import { CheckListItem } from "@/domain/checkListItem";
-import { ProjectId } from "@/domain/project";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
 import { ReviewSpaceId } from "@/domain/reviewSpace";
 import { domainValidationError } from "@/lib/server/error";
 
+/**
+ * 一括保存するチェック項目
+ */
+export interface BulkSaveCheckListItemInput {
+  /** チェック項目内容 */
+  content: string;
+  /** カテゴリ */
+  category?: string | null;
+  /** 重要度（high, medium, low） */
+  severity?: string | null;
+  /** レビューガイダンス */
+  guidance?: string | null;
+}
+
 /**
  * チェック項目一括保存コマンド（入力DTO）
  */
@@ -14,8 +28,8 @@ export interface BulkSaveCheckListItemsCommand {
   reviewSpaceId: string;
   /** 実行ユーザーID（権限確認用） */
   userId: string;
-  /** チェック項目内容の配列 */
-  contents: string[];
+  /** チェック項目の配列（配列の順序が表示順になる） */
+  items: BulkSaveCheckListItemInput[];
 }
 
 /**
@@ -45,7 +59,7 @@ export class BulkSaveCheckListItemsService {
   async execute(
     command: BulkSaveCheckListItemsCommand,
   ): Promise<BulkSaveCheckListItemsResult> {
-    const { reviewSpaceId, userId, contents } = command;
+    const { reviewSpaceId, userId } = command;
 
     // レビュースペースの存在確認
     const reviewSpaceIdVo = ReviewSpaceId.reconstruct(reviewSpaceId);
@@ -67,11 +81,20 @@ export class BulkSaveCheckListItemsService {
       throw domainValidationError("PROJECT_ACCESS_DENIED");
     }
 
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.EDIT_CHECKLIST)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
     // チェック項目エンティティを生成（バリデーションを含む）
-    const items = contents.map((content) =>
+    const items = command.items.map((item, index) =>
       CheckListItem.create({
         reviewSpaceId,
-        content,
+        content: item.content,
+        category: item.category,
+        displayOrder: index,
+        severity: item.severity,
+        guidance: item.guidance,
       }),
     );
 
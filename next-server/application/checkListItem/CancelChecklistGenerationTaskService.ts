@@ -2,7 +2,7 @@ import { IAiTaskRepository } from "@/application/shared/port/repository/IAiTaskR
 import { IProjectRepository } from "@/application/shared/port/repository";
 import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
 import { AI_TASK_STATUS } from "@/domain/aiTask";
-import { ProjectId } from "@/domain/project";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
 import { ReviewSpaceId } from "@/domain/reviewSpace";
 import { domainValidationError } from "@/lib/server/error";
 import { TaskFileHelper } from "@/lib/server/taskFileHelper";
@@ -56,6 +56,11 @@ export class CancelChecklistGenerationTaskService {
       throw domainValidationError("PROJECT_ACCESS_DENIED");
     }
 
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.EDIT_CHECKLIST)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
     // チェックリスト生成タスクを検索
     const task =
       await this.aiTaskRepository.findChecklistGenerationTaskByReviewSpaceId(
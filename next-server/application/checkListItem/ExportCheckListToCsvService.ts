@@ -6,6 +6,10 @@ import { ProjectId } from "@/domain/project";
 import { ReviewSpaceId } from "@/domain/reviewSpace";
 import { domainValidationError, internalError } from "@/lib/server/error";
 import { CsvParser } from "@/lib/shared/CsvParser";
+import {
+  CHECK_LIST_CSV_HEADERS,
+  CHECK_LIST_CSV_COLUMN_ORDER,
+} from "./checkListCsvColumns";
 
 /**
  * チェックリストCSV出力コマンド（入力DTO）
@@ -29,7 +33,8 @@ export interface ExportCheckListToCsvResult {
 
 /**
  * チェックリストCSV出力サービス
- * レビュースペース配下のチェック項目をCSV形式で出力する
+ * レビュースペース配下のチェック項目を表示順にCSV形式で出力する
+ * 出力したCSVはインポートでそのまま取り込める（見出し行で列を判別する）
  */
 export class ExportCheckListToCsvService {
   // UTF-8 BOM（Excelで正しく開けるように）
@@ -114,12 +119,25 @@ export class ExportCheckListToCsvService {
   /**
    * チェック項目リストからCSVコンテンツを生成
    * @param items チェック項目リスト
-   * @returns UTF-8 BOM付きCSVコンテンツ
+   * @returns UTF-8 BOM付きCSVコンテンツ（見出し行付き）
    */
   private generateCsv(items: CheckListItem[]): string {
+    // 見出し行
+    const header = CHECK_LIST_CSV_COLUMN_ORDER.map(
+      (column) => CHECK_LIST_CSV_HEADERS[column],
+    );
+
+    // データ行（重要度は表示ラベルで出力）
+    const rows = items.map((item) => [
+      item.content.value,
+      item.category.value ?? "",
+      item.severity.label,
+      item.guidance.value ?? "",
+    ]);
+
     // 各項目をエスケープして改行で結合
-    const lines = items.map((item) =>
-      CsvParser.escapeField(item.content.value),
+    const lines = [header, ...rows].map((row) =>
+      row.map((field) => CsvParser.escapeField(field)).join(","),
     );
     return ExportCheckListToCsvService.UTF8_BOM + lines.join("\n");
   }
@@ -5,13 +5,15 @@ import {
 import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
 import { AiTaskQueueService } from "@/application/aiTask/AiTaskQueueService";
 import { getAiTaskBootstrap } from "@/application/aiTask";
-import { ProjectId } from "@/domain/project";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
 import { ReviewSpaceId } from "@/domain/reviewSpace";
 import { AI_TASK_TYPE } from "@/domain/aiTask";
 import { domainValidationError, internalError } from "@/lib/server/error";
 import type { RawUploadFileMeta, FileBuffersMap } from "@/application/mastra";
 import type { ChecklistGenerationTaskPayload } from "@/application/aiTask/AiTaskExecutor";
 import { resolveAiApiConfig } from "@/application/shared/lib/resolveAiApiConfig";
+import { assertAiTokenBudget } from "@/application/shared/lib/assertAiTokenBudget";
+import type { IAiTokenUsageRepository } from "@/application/shared/port/repository/IAiTokenUsageRepository";
 
 /**
  * AIチェックリスト生成コマンド（入力DTO）
@@ -53,6 +55,7 @@ export class GenerateCheckListByAIService {
     private readonly projectRepository: IProjectRepository,
     private readonly systemSettingRepository: ISystemSettingRepository,
     private readonly aiTaskQueueService: AiTaskQueueService,
+    private readonly aiTokenUsageRepository?: IAiTokenUsageRepository,
   ) {}
 
   /**
@@ -107,11 +110,21 @@ export class GenerateCheckListByAIService {
       throw domainValidationError("PROJECT_ACCESS_DENIED");
     }
 
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.EDIT_CHECKLIST)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
+    // 月間トークン上限の確認
+    await assertAiTokenBudget(project, this.aiTokenUsageRepository);
+
     // API設定を取得（プロジェクト設定 > 管理者設定 > 環境変数）
     const systemSetting = await this.systemSettingRepository.find();
     const aiApiConfig = resolveAiApiConfig(
       project.encryptedApiKey,
       systemSetting,
+      project.aiApiRateLimit,
+      project.aiModelAssignments,
     );
 
     // ペイロードを作成
@@ -134,16 +147,20 @@ export class GenerateCheckListByAIService {
         });
       }
 
-      // 画像モードの場合は変換済み画像のみを使用、テキストモードの場合は元ファイルを使用
+      // 画像モードで変換済み画像がある場合は変換済み画像のみを使用、それ以外は元ファイルを使用
       const processMode = f.processMode ?? "text";
+      const hasConvertedImages =
+        processMode === "image" &&
+        (bufferData.convertedImageBuffers?.length ?? 0) > 0;
       return {
         fileId: f.id,
         fileName: f.name,
         fileSize: f.size,
         mimeType: f.type,
         processMode,
-        // テキストモード: 元ファイルのバッファ、画像モード: 空バッファ
-        buffer: processMode === "text" ? bufferData.buffer : Buffer.alloc(0),
+        // 変換済み画像がある場合は空バッファ、それ以外は元ファイルのバッファ
+        // （変換済み画像がない画像モードのファイルはサーバー側で画像に変換する）
+        buffer: hasConvertedImages ? Buffer.alloc(0) : bufferData.buffer,
         // 画像モードの場合のみ変換済み画像を設定
         convertedImageBuffers:
           processMode === "image"
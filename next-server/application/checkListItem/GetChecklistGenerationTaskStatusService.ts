@@ -25,6 +25,8 @@ export interface ChecklistGenerationTaskStatusDto {
   status: "queued" | "processing" | null;
   /** タスクID（存在しない場合はnull） */
   taskId: string | null;
+  /** AI API自動リトライ回数（タスクが存在しない場合は0） */
+  aiApiRetryCount: number;
   /** チェックリスト生成エラーメッセージ（エラー時のみ） */
   errorMessage: string | null;
 }
@@ -81,6 +83,7 @@ export class GetChecklistGenerationTaskStatusService {
         hasTask: false,
         status: null,
         taskId: null,
+        aiApiRetryCount: 0,
         errorMessage: reviewSpace.checklistGenerationError,
       };
     }
@@ -89,6 +92,7 @@ export class GetChecklistGenerationTaskStatusService {
       hasTask: true,
       status: task.status.value as "queued" | "processing",
       taskId: task.id.value,
+      aiApiRetryCount: task.aiApiRetryCount,
       errorMessage: reviewSpace.checklistGenerationError,
     };
   }
@@ -3,11 +3,15 @@ import { IProjectRepository } from "@/application/shared/port/repository";
 import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
 import type { IFileTextExtractor } from "@/application/shared/port/textExtractor";
 import { CheckListItem } from "@/domain/checkListItem";
-import { ProjectId } from "@/domain/project";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
 import { ReviewSpaceId } from "@/domain/reviewSpace";
 import { domainValidationError, internalError } from "@/lib/server/error";
 import { CsvParser } from "@/lib/shared/CsvParser";
 import path from "path";
+import {
+  CHECK_LIST_CSV_HEADERS,
+  type CheckListCsvColumn,
+} from "./checkListCsvColumns";
 
 /**
  * チェックリストファイルインポートコマンド（入力DTO）
@@ -43,9 +47,28 @@ export interface ImportCheckListFromFileResult {
   fileType: string;
 }
 
+/**
+ * ファイルから抽出したチェック項目
+ */
+interface ParsedCheckListItem {
+  content: string;
+  category: string | null;
+  severity: string | null;
+  guidance: string | null;
+}
+
+/**
+ * 列見出しから判別した各属性の列番号
+ */
+type ColumnIndexes = Partial<Record<CheckListCsvColumn, number>>;
+
 /**
  * チェックリストファイルインポートサービス
  * ファイルからチェックリストを抽出し、レビュースペースに保存する
+ *
+ * 1行目に「チェック項目」列の見出しがある場合（エクスポートしたCSVなど）は、
+ * 見出しに従ってカテゴリ・重要度・レビューガイダンスも取り込む
+ * 見出しがない場合は1列目のみをチェック項目内容として取り込む
  */
 export class ImportCheckListFromFileService {
   constructor(
@@ -96,6 +119,11 @@ export class ImportCheckListFromFileService {
       throw domainValidationError("PROJECT_ACCESS_DENIED");
     }
 
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.EDIT_CHECKLIST)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
     // 1. ファイルからテキストを抽出（汎用処理）
     let extractedText: string;
     try {
@@ -116,27 +144,31 @@ export class ImportCheckListFromFileService {
 
     // 2. テキストからチェックリスト項目を抽出（チェックリスト固有処理）
     const fileType = this.getFileType(extension);
-    const contents = this.parseCheckListItems(extractedText, fileType, {
+    const parsedItems = this.parseCheckListItems(extractedText, fileType, {
       skipHeaderRow: options?.skipHeaderRow ?? false,
     });
 
     // 抽出された項目が0件の場合はエラー
-    if (contents.length === 0) {
+    if (parsedItems.length === 0) {
       throw internalError({
         expose: true,
         messageCode: "CHECK_LIST_FILE_IMPORT_NO_ITEMS",
       });
     }
 
-    // チェック項目エンティティを生成
-    const items = contents.map((content) =>
+    // チェック項目エンティティを生成（表示順はファイル内の順序）
+    const items = parsedItems.map((item, index) =>
       CheckListItem.create({
         reviewSpaceId,
-        content,
+        content: item.content,
+        category: item.category,
+        displayOrder: index,
+        severity: item.severity,
+        guidance: item.guidance,
       }),
     );
 
-    // 一括追加を実行（既存のチェック項目に追加）
+    // 一括追加を実行（既存のチェック項目の末尾に追加）
     await this.checkListItemRepository.bulkInsert(items);
 
     return {
@@ -171,7 +203,7 @@ export class ImportCheckListFromFileService {
     text: string,
     fileType: string,
     options: { skipHeaderRow: boolean },
-  ): string[] {
+  ): ParsedCheckListItem[] {
     switch (fileType) {
       case "csv":
         return this.parseCsvItems(text, options);
@@ -200,18 +232,13 @@ export class ImportCheckListFromFileService {
 
   /**
    * CSVファイルからチェック項目を抽出
-   * 1列目を項目として抽出（空行は除外）
+   * 見出し行がない場合は1列目を項目として抽出（空行は除外）
    */
   private parseCsvItems(
     text: string,
     options: { skipHeaderRow: boolean },
-  ): string[] {
-    const rows = CsvParser.parse(text);
-    const startIndex = options.skipHeaderRow ? 1 : 0;
-    return rows
-      .slice(startIndex)
-      .map((row) => row[0]?.trim() ?? "")
-      .filter((cell) => cell !== "");
+  ): ParsedCheckListItem[] {
+    return this.parseRows(CsvParser.parse(text), options);
   }
 
   /**
@@ -221,8 +248,8 @@ export class ImportCheckListFromFileService {
   private parseXlsxItems(
     text: string,
     options: { skipHeaderRow: boolean },
-  ): string[] {
-    const items: string[] = [];
+  ): ParsedCheckListItem[] {
+    const items: ParsedCheckListItem[] = [];
     // #sheet: でシートを分割（最初の空文字を除外）
     const sheets = text.split(/^#sheet:/m).filter((s) => s.trim());
 
@@ -234,17 +261,58 @@ export class ImportCheckListFromFileService {
       // 空のシートはスキップ
       if (!csvLines.trim()) continue;
 
-      const rows = CsvParser.parse(csvLines);
-      const startIndex = options.skipHeaderRow ? 1 : 0;
-
-      for (const row of rows.slice(startIndex)) {
-        const cell = row[0]?.trim() ?? "";
-        if (cell !== "") {
-          items.push(cell);
-        }
-      }
+      items.push(...this.parseRows(CsvParser.parse(csvLines), options));
     }
 
     return items;
   }
+
+  /**
+   * 表形式の行からチェック項目を抽出
+   * 1行目が見出し行の場合は見出しに従って各属性を抽出し、見出し行は取り込まない
+   */
+  private parseRows(
+    rows: string[][],
+    options: { skipHeaderRow: boolean },
+  ): ParsedCheckListItem[] {
+    const headerIndexes = rows.length > 0 ? this.detectHeader(rows[0]) : null;
+    const startIndex = headerIndexes || options.skipHeaderRow ? 1 : 0;
+    const indexes: ColumnIndexes = headerIndexes ?? { content: 0 };
+
+    const getCell = (row: string[], column: CheckListCsvColumn) => {
+      const index = indexes[column];
+      return index !== undefined ? (row[index]?.trim() ?? "") : "";
+    };
+
+    return rows
+      .slice(startIndex)
+      .map((row) => ({
+        content: getCell(row, "content"),
+        category: getCell(row, "category") || null,
+        severity: getCell(row, "severity") || null,
+        guidance: getCell(row, "guidance") || null,
+      }))
+      .filter((item) => item.content !== "");
+  }
+
+  /**
+   * 見出し行から各属性の列番号を判別する
+   * 「チェック項目」列の見出しがない場合は見出し行ではないとみなしnullを返す
+   */
+  private detectHeader(row: string[]): ColumnIndexes | null {
+    const indexes: ColumnIndexes = {};
+    const columns = Object.entries(CHECK_LIST_CSV_HEADERS) as [
+      CheckListCsvColumn,
+      string,
+    ][];
+
+    row.forEach((cell, index) => {
+      const matched = columns.find(([, header]) => header === cell.trim());
+      if (matched && indexes[matched[0]] === undefined) {
+        indexes[matched[0]] = index;
+      }
+    });
+
+    return indexes.content !== undefined ? indexes : null;
+  }
 }
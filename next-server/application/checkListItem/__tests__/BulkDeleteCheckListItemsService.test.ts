@@ -30,7 +30,7 @@ describe("BulkDeleteCheckListItemsService", () => {
     name: "テストプロジェクト",
     description: "テスト説明",
     encryptedApiKey: null,
-    members: [{ userId: validUserId, createdAt: new Date() }],
+    members: [{ userId: validUserId, role: "owner", createdAt: new Date() }],
     createdAt: new Date(),
     updatedAt: new Date(),
   });
@@ -48,6 +48,10 @@ describe("BulkDeleteCheckListItemsService", () => {
     id: validCheckListItemId1,
     reviewSpaceId: validReviewSpaceId,
     content: "チェック項目1",
+    category: null,
+    displayOrder: 0,
+    severity: "medium",
+    guidance: null,
     createdAt: new Date(),
     updatedAt: new Date(),
   });
@@ -56,6 +60,10 @@ describe("BulkDeleteCheckListItemsService", () => {
     id: validCheckListItemId2,
     reviewSpaceId: validReviewSpaceId,
     content: "チェック項目2",
+    category: null,
+    displayOrder: 0,
+    severity: "medium",
+    guidance: null,
     createdAt: new Date(),
     updatedAt: new Date(),
   });
@@ -103,6 +111,8 @@ describe("BulkDeleteCheckListItemsService", () => {
       findById: vi.fn().mockResolvedValue(mockProject),
       findByMemberId: vi.fn(),
       countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
       save: vi.fn(),
       delete: vi.fn(),
     };
@@ -204,6 +214,10 @@ describe("BulkDeleteCheckListItemsService", () => {
         id: "923e4567-e89b-12d3-a456-426614174008",
         reviewSpaceId: otherReviewSpaceId,
         content: "他のスペースのチェック項目",
+        category: null,
+        displayOrder: 0,
+        severity: "medium",
+        guidance: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       });
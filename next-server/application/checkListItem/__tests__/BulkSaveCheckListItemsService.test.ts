@@ -27,7 +27,7 @@ describe("BulkSaveCheckListItemsService", () => {
     name: "テストプロジェクト",
     description: "テスト説明",
     encryptedApiKey: null,
-    members: [{ userId: validUserId, createdAt: new Date() }],
+    members: [{ userId: validUserId, role: "owner", createdAt: new Date() }],
     createdAt: new Date(),
     updatedAt: new Date(),
   });
@@ -65,6 +65,8 @@ describe("BulkSaveCheckListItemsService", () => {
       findById: vi.fn().mockResolvedValue(mockProject),
       findByMemberId: vi.fn(),
       countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
       save: vi.fn(),
       delete: vi.fn(),
     };
@@ -86,7 +88,7 @@ describe("BulkSaveCheckListItemsService", () => {
       const result = await service.execute({
         reviewSpaceId: validReviewSpaceId,
         userId: validUserId,
-        contents,
+        items: contents.map((content) => ({ content })),
       });
 
       expect(result.savedCount).toBe(3);
@@ -101,13 +103,42 @@ describe("BulkSaveCheckListItemsService", () => {
       expect(savedItems[0].content.value).toBe(contents[0]);
       expect(savedItems[1].content.value).toBe(contents[1]);
       expect(savedItems[2].content.value).toBe(contents[2]);
+      expect(savedItems.map((item) => item.displayOrder)).toEqual([0, 1, 2]);
+    });
+
+    it("カテゴリ・重要度・レビューガイダンスを保存できる", async () => {
+      await service.execute({
+        reviewSpaceId: validReviewSpaceId,
+        userId: validUserId,
+        items: [
+          {
+            content: "パスワードがハッシュ化されているか",
+            category: "セキュリティ",
+            severity: "high",
+            guidance: "平文やMD5での保存は不適合とする",
+          },
+          { content: "誤字脱字がないか" },
+        ],
+      });
+
+      const savedItems = vi.mocked(mockCheckListItemRepository.bulkSave).mock
+        .calls[0][1];
+      expect(savedItems[0].category.value).toBe("セキュリティ");
+      expect(savedItems[0].severity.value).toBe("high");
+      expect(savedItems[0].guidance.value).toBe(
+        "平文やMD5での保存は不適合とする",
+      );
+      // 未指定の場合はカテゴリなし・重要度は中
+      expect(savedItems[1].category.value).toBeNull();
+      expect(savedItems[1].severity.value).toBe("medium");
+      expect(savedItems[1].guidance.value).toBeNull();
     });
 
     it("空の配列でも保存できる（全削除）", async () => {
       const result = await service.execute({
         reviewSpaceId: validReviewSpaceId,
         userId: validUserId,
-        contents: [],
+        items: [],
       });
 
       expect(result.savedCount).toBe(0);
@@ -126,7 +157,7 @@ describe("BulkSaveCheckListItemsService", () => {
       const result = await service.execute({
         reviewSpaceId: validReviewSpaceId,
         userId: validUserId,
-        contents,
+        items: contents.map((content) => ({ content })),
       });
 
       expect(result.savedCount).toBe(100);
@@ -141,7 +172,7 @@ describe("BulkSaveCheckListItemsService", () => {
         service.execute({
           reviewSpaceId: validReviewSpaceId,
           userId: validUserId,
-          contents: ["テスト項目"],
+          items: [{ content: "テスト項目" }],
         }),
       ).rejects.toMatchObject({ messageCode: "REVIEW_SPACE_NOT_FOUND" });
     });
@@ -153,7 +184,7 @@ describe("BulkSaveCheckListItemsService", () => {
         service.execute({
           reviewSpaceId: validReviewSpaceId,
           userId: validUserId,
-          contents: ["テスト項目"],
+          items: [{ content: "テスト項目" }],
         }),
       ).rejects.toMatchObject({ messageCode: "PROJECT_NOT_FOUND" });
     });
@@ -165,21 +196,63 @@ describe("BulkSaveCheckListItemsService", () => {
         service.execute({
           reviewSpaceId: validReviewSpaceId,
           userId: otherUserId,
-          contents: ["テスト項目"],
+          items: [{ content: "テスト項目" }],
         }),
       ).rejects.toMatchObject({ messageCode: "PROJECT_ACCESS_DENIED" });
     });
 
+    it("チェックリストの編集権限がないロールの場合はエラー", async () => {
+      vi.mocked(mockProjectRepository.findById).mockResolvedValue(
+        Project.reconstruct({
+          id: validProjectId,
+          name: "テストプロジェクト",
+          description: null,
+          encryptedApiKey: null,
+          members: [
+            { userId: validUserId, role: "reviewer", createdAt: new Date() },
+          ],
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }),
+      );
+
+      await expect(
+        service.execute({
+          reviewSpaceId: validReviewSpaceId,
+          userId: validUserId,
+          items: [{ content: "テスト項目" }],
+        }),
+      ).rejects.toMatchObject({ messageCode: "PROJECT_PERMISSION_DENIED" });
+      expect(mockCheckListItemRepository.bulkInsert).not.toHaveBeenCalled();
+    });
+
     it("空のチェック項目内容がある場合はエラー", async () => {
       await expect(
         service.execute({
           reviewSpaceId: validReviewSpaceId,
           userId: validUserId,
-          contents: ["有効な項目", "", "別の有効な項目"],
+          items: [
+            { content: "有効な項目" },
+            { content: "" },
+            { content: "別の有効な項目" },
+          ],
         }),
       ).rejects.toMatchObject({ messageCode: "CHECK_LIST_ITEM_CONTENT_EMPTY" });
     });
 
+    it("重要度が不正な場合はエラー", async () => {
+      await expect(
+        service.execute({
+          reviewSpaceId: validReviewSpaceId,
+          userId: validUserId,
+          items: [{ content: "テスト項目", severity: "urgent" }],
+        }),
+      ).rejects.toMatchObject({
+        messageCode: "CHECK_LIST_ITEM_SEVERITY_INVALID",
+      });
+      expect(mockCheckListItemRepository.bulkSave).not.toHaveBeenCalled();
+    });
+
     it("リポジトリでエラーが発生した場合はスロー", async () => {
       vi.mocked(mockCheckListItemRepository.bulkSave).mockRejectedValue(
         new Error("DB Error"),
@@ -189,7 +262,7 @@ describe("BulkSaveCheckListItemsService", () => {
         service.execute({
           reviewSpaceId: validReviewSpaceId,
           userId: validUserId,
-          contents: ["テスト項目"],
+          items: [{ content: "テスト項目" }],
         }),
       ).rejects.toThrow("DB Error");
     });
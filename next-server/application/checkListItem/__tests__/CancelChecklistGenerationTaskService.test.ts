@@ -42,7 +42,7 @@ describe("CancelChecklistGenerationTaskService", () => {
     name: "テストプロジェクト",
     description: "テスト説明",
     encryptedApiKey: null,
-    members: [{ userId: validUserId, createdAt: new Date() }],
+    members: [{ userId: validUserId, role: "owner", createdAt: new Date() }],
     createdAt: new Date(),
     updatedAt: new Date(),
   });
@@ -68,6 +68,10 @@ describe("CancelChecklistGenerationTaskService", () => {
     updatedAt: new Date(),
     startedAt: null,
     completedAt: null,
+    leaseOwner: null,
+    leaseExpiresAt: null,
+    deliveryCount: 0,
+    aiApiRetryCount: 0,
     fileMetadata: [],
   });
 
@@ -83,6 +87,10 @@ describe("CancelChecklistGenerationTaskService", () => {
     updatedAt: new Date(),
     startedAt: new Date(),
     completedAt: null,
+    leaseOwner: null,
+    leaseExpiresAt: null,
+    deliveryCount: 0,
+    aiApiRetryCount: 0,
     fileMetadata: [],
   });
 
@@ -96,6 +104,10 @@ describe("CancelChecklistGenerationTaskService", () => {
       findDistinctApiKeyHashesInQueue: vi.fn(),
       countQueuedByApiKeyHash: vi.fn(),
       dequeueNextTask: vi.fn(),
+      renewLease: vi.fn(),
+      incrementAiApiRetryCount: vi.fn(),
+      requeueExpiredLeases: vi.fn(),
+      findLeaseExpiredTasks: vi.fn(),
       save: vi.fn(),
       delete: vi.fn().mockResolvedValue(undefined),
       deleteByStatus: vi.fn(),
@@ -117,6 +129,8 @@ describe("CancelChecklistGenerationTaskService", () => {
       findById: vi.fn().mockResolvedValue(mockProject),
       findByMemberId: vi.fn(),
       countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
       save: vi.fn(),
       delete: vi.fn(),
     };
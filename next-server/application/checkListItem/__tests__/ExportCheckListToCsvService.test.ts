@@ -28,7 +28,7 @@ describe("ExportCheckListToCsvService", () => {
     name: "テストプロジェクト",
     description: "テスト説明",
     encryptedApiKey: null,
-    members: [{ userId: validUserId, createdAt: new Date() }],
+    members: [{ userId: validUserId, role: "owner", createdAt: new Date() }],
     createdAt: new Date(),
     updatedAt: new Date(),
   });
@@ -42,11 +42,25 @@ describe("ExportCheckListToCsvService", () => {
     updatedAt: new Date(),
   });
 
-  const createMockCheckListItem = (content: string) => {
+  // 見出し行（UTF-8 BOM付き）
+  const HEADER = "\uFEFFチェック項目,カテゴリ,重要度,レビューガイダンス\n";
+
+  const createMockCheckListItem = (
+    content: string,
+    options: {
+      category?: string | null;
+      severity?: string;
+      guidance?: string | null;
+    } = {},
+  ) => {
     return CheckListItem.reconstruct({
       id: crypto.randomUUID(),
       reviewSpaceId: validReviewSpaceId,
       content,
+      category: options.category ?? null,
+      displayOrder: 0,
+      severity: options.severity ?? "medium",
+      guidance: options.guidance ?? null,
       createdAt: new Date(),
       updatedAt: new Date(),
     });
@@ -76,6 +90,8 @@ describe("ExportCheckListToCsvService", () => {
       findById: vi.fn().mockResolvedValue(mockProject),
       findByMemberId: vi.fn(),
       countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
       save: vi.fn(),
       delete: vi.fn(),
     };
@@ -106,8 +122,10 @@ describe("ExportCheckListToCsvService", () => {
       });
 
       expect(result.exportedCount).toBe(3);
-      // UTF-8 BOM + 各行
-      expect(result.csvContent).toBe("\uFEFF項目1\n項目2\n項目3");
+      // UTF-8 BOM + 見出し行 + 各行
+      expect(result.csvContent).toBe(
+        HEADER + "項目1,,中,\n項目2,,中,\n項目3,,中,",
+      );
     });
 
     it("改行を含むチェック項目が正しくエスケープされる", async () => {
@@ -129,7 +147,9 @@ describe("ExportCheckListToCsvService", () => {
 
       expect(result.exportedCount).toBe(2);
       // 改行を含む項目はダブルクォートで囲まれる
-      expect(result.csvContent).toBe('\uFEFF"項目1\n改行あり"\n項目2');
+      expect(result.csvContent).toBe(
+        HEADER + '"項目1\n改行あり",,中,\n項目2,,中,',
+      );
     });
 
     it("カンマを含むチェック項目が正しくエスケープされる", async () => {
@@ -151,7 +171,9 @@ describe("ExportCheckListToCsvService", () => {
 
       expect(result.exportedCount).toBe(2);
       // カンマを含む項目はダブルクォートで囲まれる
-      expect(result.csvContent).toBe('\uFEFF"項目1,カンマあり"\n項目2');
+      expect(result.csvContent).toBe(
+        HEADER + '"項目1,カンマあり",,中,\n項目2,,中,',
+      );
     });
 
     it("ダブルクォートを含むチェック項目が正しくエスケープされる", async () => {
@@ -173,7 +195,9 @@ describe("ExportCheckListToCsvService", () => {
 
       expect(result.exportedCount).toBe(2);
       // ダブルクォートはエスケープされ、全体がダブルクォートで囲まれる
-      expect(result.csvContent).toBe('\uFEFF"項目1""クォートあり"\n項目2');
+      expect(result.csvContent).toBe(
+        HEADER + '"項目1""クォートあり",,中,\n項目2,,中,',
+      );
     });
 
     it("UTF-8 BOMが付与される", async () => {
@@ -211,7 +235,7 @@ describe("ExportCheckListToCsvService", () => {
 
       // 複合的な特殊文字が正しくエスケープされる
       expect(result.csvContent).toBe(
-        '\uFEFF"項目1,カンマと""クォート""と\n改行"',
+        HEADER + '"項目1,カンマと""クォート""と\n改行",,中,',
       );
     });
 
@@ -230,7 +254,35 @@ describe("ExportCheckListToCsvService", () => {
       });
 
       expect(result.exportedCount).toBe(1);
-      expect(result.csvContent).toBe("\uFEFF単一項目");
+      expect(result.csvContent).toBe(HEADER + "単一項目,,中,");
+    });
+
+    it("カテゴリ・重要度・レビューガイダンスを出力できる", async () => {
+      const mockItems = [
+        createMockCheckListItem("パスワードがハッシュ化されているか", {
+          category: "セキュリティ",
+          severity: "high",
+          guidance: "平文やMD5での保存は不適合",
+        }),
+        createMockCheckListItem("誤字脱字がないか", { severity: "low" }),
+      ];
+      vi.mocked(
+        mockCheckListItemRepository.countByReviewSpaceId,
+      ).mockResolvedValue(2);
+      vi.mocked(
+        mockCheckListItemRepository.findByReviewSpaceId,
+      ).mockResolvedValue(mockItems);
+
+      const result = await service.execute({
+        reviewSpaceId: validReviewSpaceId,
+        userId: validUserId,
+      });
+
+      expect(result.csvContent).toBe(
+        HEADER +
+          "パスワードがハッシュ化されているか,セキュリティ,高,平文やMD5での保存は不適合\n" +
+          "誤字脱字がないか,,低,",
+      );
     });
 
     it("上限件数（10000件）ちょうどでもエクスポートできる", async () => {
@@ -55,6 +55,8 @@ describe("GenerateCheckListByAIService", () => {
     findById: vi.fn(),
     findByMemberId: vi.fn(),
     countByMemberId: vi.fn(),
+    findAll: vi.fn(),
+    countAll: vi.fn(),
     save: vi.fn(),
     delete: vi.fn(),
   };
@@ -93,7 +95,7 @@ describe("GenerateCheckListByAIService", () => {
     name: "テストプロジェクト",
     description: null,
     encryptedApiKey: null,
-    members: [{ userId: testUserId, createdAt: new Date() }],
+    members: [{ userId: testUserId, role: "owner", createdAt: new Date() }],
     createdAt: new Date(),
     updatedAt: new Date(),
   });
@@ -228,6 +230,46 @@ describe("GenerateCheckListByAIService", () => {
       expect(result.status).toBe("queued");
       expect(mockEnqueueTask).toHaveBeenCalledTimes(1);
     });
+
+    it("変換済み画像がない画像モードのファイルは元ファイルをキューに登録する", async () => {
+      vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(
+        testReviewSpace,
+      );
+      vi.mocked(mockProjectRepository.findById).mockResolvedValue(testProject);
+
+      const pdfBuffer = Buffer.from("元PDFデータ");
+      const imageFileBuffers: FileBuffersMap = new Map();
+      imageFileBuffers.set("file-1", { buffer: pdfBuffer });
+
+      const command: GenerateCheckListByAICommand = {
+        reviewSpaceId: testReviewSpaceId,
+        userId: testUserId,
+        employeeId: testEmployeeId,
+        files: [
+          {
+            id: "file-1",
+            name: "document.pdf",
+            type: "application/pdf",
+            size: 5000,
+            processMode: "image",
+            renderOptions: { pageRange: "1-2" },
+          },
+        ],
+        fileBuffers: imageFileBuffers,
+        checklistRequirements: "ドキュメントからチェックリストを生成",
+      };
+
+      await service.execute(command);
+
+      const enqueueCommand = mockEnqueueTask.mock.calls[0][0];
+      expect(enqueueCommand.files[0]).toMatchObject({
+        processMode: "image",
+        buffer: pdfBuffer,
+      });
+      expect(enqueueCommand.payload.files[0].renderOptions).toEqual({
+        pageRange: "1-2",
+      });
+    });
   });
 
   describe("異常系 - 入力バリデーション", () => {
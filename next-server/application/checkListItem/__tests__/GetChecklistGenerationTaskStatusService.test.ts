@@ -29,7 +29,7 @@ describe("GetChecklistGenerationTaskStatusService", () => {
     name: "テストプロジェクト",
     description: "テスト説明",
     encryptedApiKey: null,
-    members: [{ userId: validUserId, createdAt: new Date() }],
+    members: [{ userId: validUserId, role: "owner", createdAt: new Date() }],
     createdAt: new Date(),
     updatedAt: new Date(),
   });
@@ -55,6 +55,10 @@ describe("GetChecklistGenerationTaskStatusService", () => {
     updatedAt: new Date(),
     startedAt: null,
     completedAt: null,
+    leaseOwner: null,
+    leaseExpiresAt: null,
+    deliveryCount: 0,
+    aiApiRetryCount: 0,
     fileMetadata: [],
   });
 
@@ -70,6 +74,10 @@ describe("GetChecklistGenerationTaskStatusService", () => {
     updatedAt: new Date(),
     startedAt: new Date(),
     completedAt: null,
+    leaseOwner: null,
+    leaseExpiresAt: null,
+    deliveryCount: 0,
+    aiApiRetryCount: 2,
     fileMetadata: [],
   });
 
@@ -81,6 +89,10 @@ describe("GetChecklistGenerationTaskStatusService", () => {
       findDistinctApiKeyHashesInQueue: vi.fn(),
       countQueuedByApiKeyHash: vi.fn(),
       dequeueNextTask: vi.fn(),
+      renewLease: vi.fn(),
+      incrementAiApiRetryCount: vi.fn(),
+      requeueExpiredLeases: vi.fn(),
+      findLeaseExpiredTasks: vi.fn(),
       save: vi.fn(),
       delete: vi.fn(),
       deleteByStatus: vi.fn(),
@@ -102,6 +114,8 @@ describe("GetChecklistGenerationTaskStatusService", () => {
       findById: vi.fn().mockResolvedValue(mockProject),
       findByMemberId: vi.fn(),
       countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
       save: vi.fn(),
       delete: vi.fn(),
     };
@@ -123,6 +137,7 @@ describe("GetChecklistGenerationTaskStatusService", () => {
         hasTask: false,
         status: null,
         taskId: null,
+        aiApiRetryCount: 0,
         errorMessage: null,
       });
     });
@@ -141,11 +156,12 @@ describe("GetChecklistGenerationTaskStatusService", () => {
         hasTask: true,
         status: "queued",
         taskId: validTaskId,
+        aiApiRetryCount: 0,
         errorMessage: null,
       });
     });
 
-    it("処理中のタスクが存在する場合はprocessing状態を返す", async () => {
+    it("処理中のタスクが存在する場合はprocessing状態とAI APIリトライ回数を返す", async () => {
       vi.mocked(
         mockAiTaskRepository.findChecklistGenerationTaskByReviewSpaceId,
       ).mockResolvedValue(mockProcessingTask);
@@ -159,6 +175,7 @@ describe("GetChecklistGenerationTaskStatusService", () => {
         hasTask: true,
         status: "processing",
         taskId: validTaskId,
+        aiApiRetryCount: 2,
         errorMessage: null,
       });
     });
@@ -186,6 +203,7 @@ describe("GetChecklistGenerationTaskStatusService", () => {
         hasTask: false,
         status: null,
         taskId: null,
+        aiApiRetryCount: 0,
         errorMessage: "チェックリスト生成に失敗しました",
       });
     });
@@ -29,7 +29,7 @@ describe("ImportCheckListFromFileService", () => {
     name: "テストプロジェクト",
     description: "テスト説明",
     encryptedApiKey: null,
-    members: [{ userId: validUserId, createdAt: new Date() }],
+    members: [{ userId: validUserId, role: "owner", createdAt: new Date() }],
     createdAt: new Date(),
     updatedAt: new Date(),
   });
@@ -49,6 +49,7 @@ describe("ImportCheckListFromFileService", () => {
       extract: vi.fn().mockResolvedValue("項目1\n項目2\n項目3"),
       getAvailableStrategies: vi.fn().mockReturnValue(["txt-default"]),
       isSupported: vi.fn().mockReturnValue(true),
+      getSupportedExtensions: vi.fn().mockReturnValue([".txt"]),
     };
     mockCheckListItemRepository = {
       findById: vi.fn(),
@@ -73,6 +74,8 @@ describe("ImportCheckListFromFileService", () => {
       findById: vi.fn().mockResolvedValue(mockProject),
       findByMemberId: vi.fn(),
       countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
       save: vi.fn(),
       delete: vi.fn(),
     };
@@ -261,9 +264,61 @@ describe("ImportCheckListFromFileService", () => {
       // 各シートのヘッダー行がスキップされて2件
       expect(result.importedCount).toBe(2);
     });
+
+    it("見出し行がある場合はカテゴリ・重要度・レビューガイダンスも取り込む", async () => {
+      // エクスポートしたCSVと同じ形式（列の順序は問わない）
+      const csvContent =
+        "重要度,チェック項目,カテゴリ,レビューガイダンス\n" +
+        "高,パスワードがハッシュ化されているか,セキュリティ,平文は不適合\n" +
+        ",誤字脱字がないか,,";
+      const fileBuffer = Buffer.from(csvContent, "utf-8");
+      vi.mocked(mockFileTextExtractor.extract).mockResolvedValue(csvContent);
+
+      const result = await service.execute({
+        reviewSpaceId: validReviewSpaceId,
+        userId: validUserId,
+        fileBuffer,
+        fileName: "checklist.csv",
+      });
+
+      // 見出し行は取り込まれない
+      expect(result.importedCount).toBe(2);
+      const savedItems = vi.mocked(mockCheckListItemRepository.bulkInsert).mock
+        .calls[0][0];
+      expect(savedItems[0].content.value).toBe(
+        "パスワードがハッシュ化されているか",
+      );
+      expect(savedItems[0].category.value).toBe("セキュリティ");
+      expect(savedItems[0].severity.value).toBe("high");
+      expect(savedItems[0].guidance.value).toBe("平文は不適合");
+      // 空欄の場合はカテゴリなし・重要度は中
+      expect(savedItems[1].category.value).toBeNull();
+      expect(savedItems[1].severity.value).toBe("medium");
+      expect(savedItems[1].guidance.value).toBeNull();
+      // 表示順はファイル内の順序
+      expect(savedItems.map((item) => item.displayOrder)).toEqual([0, 1]);
+    });
   });
 
   describe("異常系", () => {
+    it("見出し行付きのファイルで重要度が不正な場合はエラー", async () => {
+      const csvContent = "チェック項目,重要度\n項目1,最優先";
+      const fileBuffer = Buffer.from(csvContent, "utf-8");
+      vi.mocked(mockFileTextExtractor.extract).mockResolvedValue(csvContent);
+
+      await expect(
+        service.execute({
+          reviewSpaceId: validReviewSpaceId,
+          userId: validUserId,
+          fileBuffer,
+          fileName: "checklist.csv",
+        }),
+      ).rejects.toMatchObject({
+        messageCode: "CHECK_LIST_ITEM_SEVERITY_INVALID",
+      });
+      expect(mockCheckListItemRepository.bulkInsert).not.toHaveBeenCalled();
+    });
+
     it("サポートされていないファイル形式の場合はエラー", async () => {
       vi.mocked(mockFileTextExtractor.isSupported).mockReturnValue(false);
       const fileBuffer = Buffer.from("content");
@@ -28,7 +28,7 @@ describe("ListReviewSpaceCheckListItemsService", () => {
     name: "テストプロジェクト",
     description: "テスト説明",
     encryptedApiKey: null,
-    members: [{ userId: validUserId, createdAt: new Date() }],
+    members: [{ userId: validUserId, role: "owner", createdAt: new Date() }],
     createdAt: new Date(),
     updatedAt: new Date(),
   });
@@ -46,6 +46,10 @@ describe("ListReviewSpaceCheckListItemsService", () => {
     id: "423e4567-e89b-12d3-a456-426614174003",
     reviewSpaceId: validReviewSpaceId,
     content: "要件定義書との整合性が確保されているか",
+    category: null,
+    displayOrder: 0,
+    severity: "medium",
+    guidance: null,
     createdAt: new Date("2024-01-01"),
     updatedAt: new Date("2024-01-01"),
   });
@@ -54,6 +58,10 @@ describe("ListReviewSpaceCheckListItemsService", () => {
     id: "523e4567-e89b-12d3-a456-426614174004",
     reviewSpaceId: validReviewSpaceId,
     content: "セキュリティ要件が考慮されているか",
+    category: null,
+    displayOrder: 0,
+    severity: "medium",
+    guidance: null,
     createdAt: new Date("2024-01-02"),
     updatedAt: new Date("2024-01-02"),
   });
@@ -84,6 +92,8 @@ describe("ListReviewSpaceCheckListItemsService", () => {
       findById: vi.fn().mockResolvedValue(mockProject),
       findByMemberId: vi.fn(),
       countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
       save: vi.fn(),
       delete: vi.fn(),
     };
@@ -0,0 +1,22 @@
+/**
+ * チェックリストCSVの列見出し
+ * エクスポートしたCSVをそのままインポートできるよう、入出力で同じ見出しを使用する
+ */
+export const CHECK_LIST_CSV_HEADERS = {
+  content: "チェック項目",
+  category: "カテゴリ",
+  severity: "重要度",
+  guidance: "レビューガイダンス",
+} as const;
+
+export type CheckListCsvColumn = keyof typeof CHECK_LIST_CSV_HEADERS;
+
+/**
+ * CSVの列順（エクスポート時の出力順）
+ */
+export const CHECK_LIST_CSV_COLUMN_ORDER: CheckListCsvColumn[] = [
+  "content",
+  "category",
+  "severity",
+  "guidance",
+];
@@ -6,6 +6,7 @@ export {
 
 export {
   BulkSaveCheckListItemsService,
+  type BulkSaveCheckListItemInput,
   type BulkSaveCheckListItemsCommand,
   type BulkSaveCheckListItemsResult,
 } from "./BulkSaveCheckListItemsService";
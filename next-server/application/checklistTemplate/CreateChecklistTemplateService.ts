@@ -0,0 +1,117 @@
+import {
+  IChecklistTemplateRepository,
+  IProjectRepository,
+} from "@/application/shared/port/repository";
+import { ICheckListItemRepository } from "@/application/shared/port/repository/ICheckListItemRepository";
+import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import {
+  ChecklistTemplate,
+  ChecklistTemplateItem,
+  type ChecklistTemplateDto,
+} from "@/domain/checklistTemplate";
+import { ProjectId } from "@/domain/project";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { domainValidationError } from "@/lib/server/error";
+import { assertCanManageChecklistTemplate } from "./checklistTemplateAccess";
+
+/**
+ * テンプレートの公開範囲
+ * - project: レビュースペースが所属するプロジェクト内で共有
+ * - global: 全プロジェクトで共有（システム管理者のみ）
+ */
+export type ChecklistTemplateScope = "project" | "global";
+
+/**
+ * テンプレート作成コマンド（入力DTO）
+ */
+export interface CreateChecklistTemplateCommand {
+  /** チェック項目のコピー元レビュースペースID */
+  reviewSpaceId: string;
+  /** 公開範囲 */
+  scope: ChecklistTemplateScope;
+  /** テンプレート名 */
+  name: string;
+  /** テンプレート説明 */
+  description?: string | null;
+  /** 変更内容のメモ */
+  changeNote?: string | null;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+  /** 実行ユーザーがシステム管理者か */
+  isAdmin: boolean;
+}
+
+/**
+ * テンプレート作成サービス
+ * レビュースペースのチェックリストから新しいテンプレート（v1）を作成し、
+ * コピー元のレビュースペースを作成したテンプレートにリンクする
+ */
+export class CreateChecklistTemplateService {
+  constructor(
+    private readonly checklistTemplateRepository: IChecklistTemplateRepository,
+    private readonly checkListItemRepository: ICheckListItemRepository,
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * テンプレートを作成する
+   * @param command 作成コマンド
+   * @returns 作成したテンプレート
+   * @throws ドメインバリデーションエラー - レビュースペースが存在しない、権限がない、またはチェック項目がない場合
+   */
+  async execute(
+    command: CreateChecklistTemplateCommand,
+  ): Promise<ChecklistTemplateDto> {
+    const { reviewSpaceId, scope, userId, isAdmin } = command;
+
+    // コピー元レビュースペースの存在確認
+    const reviewSpaceIdVo = ReviewSpaceId.reconstruct(reviewSpaceId);
+    const reviewSpace =
+      await this.reviewSpaceRepository.findById(reviewSpaceIdVo);
+    if (!reviewSpace) {
+      throw domainValidationError("REVIEW_SPACE_NOT_FOUND");
+    }
+
+    // コピー元プロジェクトへのアクセス権確認
+    const project = await this.projectRepository.findById(
+      ProjectId.reconstruct(reviewSpace.projectId.value),
+    );
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("PROJECT_ACCESS_DENIED");
+    }
+
+    // 公開範囲に応じた管理権限の確認
+    const templateProjectId = scope === "global" ? null : project.id;
+    await assertCanManageChecklistTemplate(
+      this.projectRepository,
+      templateProjectId,
+      userId,
+      isAdmin,
+    );
+
+    const checkListItems =
+      await this.checkListItemRepository.findByReviewSpaceId(reviewSpaceIdVo);
+    const { template, version } = ChecklistTemplate.create({
+      projectId: templateProjectId?.value ?? null,
+      name: command.name,
+      description: command.description,
+      items: checkListItems.map((item) =>
+        ChecklistTemplateItem.fromCheckListItem(item).toDto(),
+      ),
+      changeNote: command.changeNote,
+      publishedBy: userId,
+    });
+    await this.checklistTemplateRepository.save(template, version);
+
+    // コピー元のレビュースペースはテンプレートと同じ内容のためリンクする
+    await this.reviewSpaceRepository.save(
+      reviewSpace.linkChecklistTemplate(template.id.value, version.version),
+    );
+
+    return template.toDto();
+  }
+}
@@ -0,0 +1,52 @@
+import {
+  IChecklistTemplateRepository,
+  IProjectRepository,
+} from "@/application/shared/port/repository";
+import { ChecklistTemplateId } from "@/domain/checklistTemplate";
+import { domainValidationError } from "@/lib/server/error";
+import { assertCanManageChecklistTemplate } from "./checklistTemplateAccess";
+
+/**
+ * テンプレート削除コマンド（入力DTO）
+ */
+export interface DeleteChecklistTemplateCommand {
+  /** テンプレートID */
+  templateId: string;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+  /** 実行ユーザーがシステム管理者か */
+  isAdmin: boolean;
+}
+
+/**
+ * テンプレート削除サービス
+ * リンクしていたレビュースペースのチェック項目はそのまま残り、リンクのみ解除される
+ */
+export class DeleteChecklistTemplateService {
+  constructor(
+    private readonly checklistTemplateRepository: IChecklistTemplateRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * テンプレートを削除する
+   * @param command 削除コマンド
+   * @throws ドメインバリデーションエラー - テンプレートが存在しない、または権限がない場合
+   */
+  async execute(command: DeleteChecklistTemplateCommand): Promise<void> {
+    const templateId = ChecklistTemplateId.reconstruct(command.templateId);
+    const template =
+      await this.checklistTemplateRepository.findById(templateId);
+    if (!template) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_NOT_FOUND");
+    }
+    await assertCanManageChecklistTemplate(
+      this.projectRepository,
+      template.projectId,
+      command.userId,
+      command.isAdmin,
+    );
+
+    await this.checklistTemplateRepository.delete(templateId);
+  }
+}
@@ -0,0 +1,85 @@
+import {
+  IChecklistTemplateRepository,
+  IProjectRepository,
+} from "@/application/shared/port/repository";
+import {
+  ChecklistTemplateId,
+  type ChecklistTemplateDto,
+  type ChecklistTemplateItemDto,
+  type ChecklistTemplateVersionSummaryDto,
+} from "@/domain/checklistTemplate";
+import { domainValidationError } from "@/lib/server/error";
+import { assertCanViewChecklistTemplate } from "./checklistTemplateAccess";
+
+/**
+ * テンプレート詳細取得クエリ（入力DTO）
+ */
+export interface GetChecklistTemplateQuery {
+  /** テンプレートID */
+  templateId: string;
+  /** 取得するバージョン（省略時は最新バージョン） */
+  version?: number;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+}
+
+/**
+ * テンプレート詳細DTO
+ */
+export interface ChecklistTemplateDetailDto {
+  template: ChecklistTemplateDto;
+  /** 公開済みバージョンの一覧（バージョンの降順） */
+  versions: ChecklistTemplateVersionSummaryDto[];
+  /** 取得したバージョン */
+  version: number;
+  /** 取得したバージョンのチェック項目 */
+  items: ChecklistTemplateItemDto[];
+}
+
+/**
+ * テンプレート詳細取得サービス
+ * テンプレートのバージョン履歴と指定バージョンのチェック項目を返す
+ */
+export class GetChecklistTemplateService {
+  constructor(
+    private readonly checklistTemplateRepository: IChecklistTemplateRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * テンプレート詳細を取得する
+   * @param query 取得クエリ
+   * @returns テンプレート詳細
+   * @throws ドメインバリデーションエラー - テンプレート・バージョンが存在しない、または閲覧権限がない場合
+   */
+  async execute(
+    query: GetChecklistTemplateQuery,
+  ): Promise<ChecklistTemplateDetailDto> {
+    const templateId = ChecklistTemplateId.reconstruct(query.templateId);
+    const template =
+      await this.checklistTemplateRepository.findById(templateId);
+    if (!template) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_NOT_FOUND");
+    }
+    await assertCanViewChecklistTemplate(
+      this.projectRepository,
+      template,
+      query.userId,
+    );
+
+    const versions =
+      await this.checklistTemplateRepository.findVersions(templateId);
+    const targetVersion = query.version ?? template.latestVersion;
+    const version = versions.find((v) => v.version === targetVersion);
+    if (!version) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_VERSION_NOT_FOUND");
+    }
+
+    return {
+      template: template.toDto(),
+      versions: versions.map((v) => v.toSummaryDto()),
+      version: version.version,
+      items: version.items.map((item) => item.toDto()),
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  IChecklistTemplateRepository,
+  IProjectRepository,
+} from "@/application/shared/port/repository";
+import type { ChecklistTemplateDto } from "@/domain/checklistTemplate";
+import { ProjectId } from "@/domain/project";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * テンプレート一覧取得クエリ（入力DTO）
+ */
+export interface ListChecklistTemplatesQuery {
+  /** プロジェクトID（nullの場合は全社共通テンプレートのみ取得） */
+  projectId: string | null;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+}
+
+/**
+ * テンプレート一覧取得サービス
+ * プロジェクトを指定した場合は全社共通テンプレートとプロジェクトのテンプレートを返す
+ */
+export class ListChecklistTemplatesService {
+  constructor(
+    private readonly checklistTemplateRepository: IChecklistTemplateRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * テンプレート一覧を取得する
+   * @param query 取得クエリ
+   * @returns テンプレートの配列（名前の昇順）
+   * @throws ドメインバリデーションエラー - プロジェクトが存在しない、またはアクセス権がない場合
+   */
+  async execute(
+    query: ListChecklistTemplatesQuery,
+  ): Promise<ChecklistTemplateDto[]> {
+    const { projectId, userId } = query;
+
+    if (projectId === null) {
+      const templates = await this.checklistTemplateRepository.findGlobal();
+      return templates.map((template) => template.toDto());
+    }
+
+    // プロジェクトの存在確認とアクセス権確認
+    const projectIdVo = ProjectId.reconstruct(projectId);
+    const project = await this.projectRepository.findById(projectIdVo);
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("PROJECT_ACCESS_DENIED");
+    }
+
+    const templates =
+      await this.checklistTemplateRepository.findAvailableToProject(
+        projectIdVo,
+      );
+    return templates.map((template) => template.toDto());
+  }
+}
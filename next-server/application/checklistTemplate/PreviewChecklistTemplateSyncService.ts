@@ -0,0 +1,115 @@
+import {
+  IChecklistTemplateRepository,
+  IProjectRepository,
+} from "@/application/shared/port/repository";
+import { ICheckListItemRepository } from "@/application/shared/port/repository/ICheckListItemRepository";
+import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import {
+  ChecklistTemplateId,
+  type ChecklistTemplateDiffDto,
+  type ChecklistTemplateDto,
+} from "@/domain/checklistTemplate";
+import { ProjectId } from "@/domain/project";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { domainValidationError } from "@/lib/server/error";
+import { computeChecklistTemplateSyncDiff } from "./checklistTemplateSync";
+
+/**
+ * テンプレート取り込みプレビュークエリ（入力DTO）
+ */
+export interface PreviewChecklistTemplateSyncQuery {
+  /** レビュースペースID */
+  reviewSpaceId: string;
+  /** テンプレートID（省略時はリンク中のテンプレート） */
+  templateId?: string;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+}
+
+/**
+ * テンプレート取り込みプレビューDTO
+ */
+export interface ChecklistTemplateSyncPreviewDto {
+  template: ChecklistTemplateDto;
+  /** レビュースペースがリンクしているバージョン（このテンプレートにリンクしていない場合はnull） */
+  linkedVersion: number | null;
+  /** リンク中のバージョンより新しいバージョンが公開されているか */
+  hasUpdate: boolean;
+  /** 最新バージョンを取り込んだ場合の差分 */
+  diff: ChecklistTemplateDiffDto;
+}
+
+/**
+ * テンプレート取り込みプレビューサービス
+ * テンプレートの最新バージョンをレビュースペースに取り込んだ場合の差分を返す
+ */
+export class PreviewChecklistTemplateSyncService {
+  constructor(
+    private readonly checklistTemplateRepository: IChecklistTemplateRepository,
+    private readonly checkListItemRepository: ICheckListItemRepository,
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * 取り込みプレビューを取得する
+   * @param query 取得クエリ
+   * @returns 取り込みプレビュー
+   * @throws ドメインバリデーションエラー - レビュースペース・テンプレートが存在しない、またはアクセス権がない場合
+   */
+  async execute(
+    query: PreviewChecklistTemplateSyncQuery,
+  ): Promise<ChecklistTemplateSyncPreviewDto> {
+    const { reviewSpaceId, userId } = query;
+
+    // レビュースペースの存在確認
+    const reviewSpace = await this.reviewSpaceRepository.findById(
+      ReviewSpaceId.reconstruct(reviewSpaceId),
+    );
+    if (!reviewSpace) {
+      throw domainValidationError("REVIEW_SPACE_NOT_FOUND");
+    }
+
+    // プロジェクトの存在確認とアクセス権確認
+    const project = await this.projectRepository.findById(
+      ProjectId.reconstruct(reviewSpace.projectId.value),
+    );
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("PROJECT_ACCESS_DENIED");
+    }
+
+    // 対象テンプレートの取得
+    const templateId = query.templateId
+      ? ChecklistTemplateId.reconstruct(query.templateId)
+      : reviewSpace.checklistTemplateId;
+    if (!templateId) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_NOT_LINKED");
+    }
+    const template =
+      await this.checklistTemplateRepository.findById(templateId);
+    if (!template) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_NOT_FOUND");
+    }
+    if (!template.isAvailableTo(project.id.value)) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_ACCESS_DENIED");
+    }
+
+    const { linkedVersion, diff } = await computeChecklistTemplateSyncDiff(
+      this.checklistTemplateRepository,
+      this.checkListItemRepository,
+      reviewSpace,
+      template,
+    );
+
+    return {
+      template: template.toDto(),
+      linkedVersion,
+      hasUpdate:
+        linkedVersion !== null && template.hasNewerVersionThan(linkedVersion),
+      diff: diff.toDto(),
+    };
+  }
+}
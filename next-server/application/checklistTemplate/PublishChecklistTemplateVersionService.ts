@@ -0,0 +1,109 @@
+import {
+  IChecklistTemplateRepository,
+  IProjectRepository,
+} from "@/application/shared/port/repository";
+import { ICheckListItemRepository } from "@/application/shared/port/repository/ICheckListItemRepository";
+import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import {
+  ChecklistTemplateId,
+  ChecklistTemplateItem,
+  type ChecklistTemplateDto,
+} from "@/domain/checklistTemplate";
+import { ProjectId } from "@/domain/project";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { domainValidationError } from "@/lib/server/error";
+import { assertCanManageChecklistTemplate } from "./checklistTemplateAccess";
+
+/**
+ * テンプレートバージョン公開コマンド（入力DTO）
+ */
+export interface PublishChecklistTemplateVersionCommand {
+  /** テンプレートID */
+  templateId: string;
+  /** チェック項目のコピー元レビュースペースID */
+  reviewSpaceId: string;
+  /** 変更内容のメモ */
+  changeNote?: string | null;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+  /** 実行ユーザーがシステム管理者か */
+  isAdmin: boolean;
+}
+
+/**
+ * テンプレートバージョン公開サービス
+ * レビュースペースのチェックリストをテンプレートの新しいバージョンとして公開し、
+ * コピー元のレビュースペースを公開したバージョンにリンクする
+ */
+export class PublishChecklistTemplateVersionService {
+  constructor(
+    private readonly checklistTemplateRepository: IChecklistTemplateRepository,
+    private readonly checkListItemRepository: ICheckListItemRepository,
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * 新しいバージョンを公開する
+   * @param command 公開コマンド
+   * @returns 公開後のテンプレート
+   * @throws ドメインバリデーションエラー - テンプレート・レビュースペースが存在しない、または権限がない場合
+   */
+  async execute(
+    command: PublishChecklistTemplateVersionCommand,
+  ): Promise<ChecklistTemplateDto> {
+    const { reviewSpaceId, userId, isAdmin } = command;
+
+    // テンプレートの存在確認と管理権限の確認
+    const template = await this.checklistTemplateRepository.findById(
+      ChecklistTemplateId.reconstruct(command.templateId),
+    );
+    if (!template) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_NOT_FOUND");
+    }
+    await assertCanManageChecklistTemplate(
+      this.projectRepository,
+      template.projectId,
+      userId,
+      isAdmin,
+    );
+
+    // コピー元レビュースペースの存在確認とアクセス権確認
+    const reviewSpaceIdVo = ReviewSpaceId.reconstruct(reviewSpaceId);
+    const reviewSpace =
+      await this.reviewSpaceRepository.findById(reviewSpaceIdVo);
+    if (!reviewSpace) {
+      throw domainValidationError("REVIEW_SPACE_NOT_FOUND");
+    }
+    const project = await this.projectRepository.findById(
+      ProjectId.reconstruct(reviewSpace.projectId.value),
+    );
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("PROJECT_ACCESS_DENIED");
+    }
+    if (!template.isAvailableTo(project.id.value)) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_ACCESS_DENIED");
+    }
+
+    const checkListItems =
+      await this.checkListItemRepository.findByReviewSpaceId(reviewSpaceIdVo);
+    const { template: published, version } = template.publishVersion({
+      items: checkListItems.map((item) =>
+        ChecklistTemplateItem.fromCheckListItem(item).toDto(),
+      ),
+      changeNote: command.changeNote,
+      publishedBy: userId,
+    });
+    await this.checklistTemplateRepository.save(published, version);
+
+    // コピー元のレビュースペースは公開したバージョンと同じ内容のためリンクする
+    await this.reviewSpaceRepository.save(
+      reviewSpace.linkChecklistTemplate(published.id.value, version.version),
+    );
+
+    return published.toDto();
+  }
+}
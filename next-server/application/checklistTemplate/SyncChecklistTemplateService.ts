@@ -0,0 +1,139 @@
+import {
+  IChecklistTemplateRepository,
+  IProjectRepository,
+} from "@/application/shared/port/repository";
+import { ICheckListItemRepository } from "@/application/shared/port/repository/ICheckListItemRepository";
+import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import { CheckListItem } from "@/domain/checkListItem";
+import { ChecklistTemplateId } from "@/domain/checklistTemplate";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { domainValidationError } from "@/lib/server/error";
+import { computeChecklistTemplateSyncDiff } from "./checklistTemplateSync";
+
+/**
+ * テンプレート取り込みコマンド（入力DTO）
+ */
+export interface SyncChecklistTemplateCommand {
+  /** レビュースペースID */
+  reviewSpaceId: string;
+  /** テンプレートID（リンク中と異なる場合はリンク先を切り替える） */
+  templateId: string;
+  /** プレビューで確認したテンプレートの最新バージョン */
+  expectedVersion: number;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+}
+
+/**
+ * テンプレート取り込み結果DTO
+ */
+export interface SyncChecklistTemplateResult {
+  /** 取り込んだバージョン */
+  version: number;
+  addedCount: number;
+  removedCount: number;
+  changedCount: number;
+}
+
+/**
+ * テンプレート取り込みサービス
+ * テンプレートの最新バージョンの変更をレビュースペースのチェックリストに反映し、
+ * レビュースペースを最新バージョンにリンクする
+ * レビュースペースで独自に追加した項目や並び順は維持する
+ */
+export class SyncChecklistTemplateService {
+  constructor(
+    private readonly checklistTemplateRepository: IChecklistTemplateRepository,
+    private readonly checkListItemRepository: ICheckListItemRepository,
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * テンプレートの変更を取り込む
+   * @param command 取り込みコマンド
+   * @returns 取り込み結果
+   * @throws ドメインバリデーションエラー - レビュースペース・テンプレートが存在しない、権限がない、
+   *   またはプレビュー後に新しいバージョンが公開された場合
+   */
+  async execute(
+    command: SyncChecklistTemplateCommand,
+  ): Promise<SyncChecklistTemplateResult> {
+    const { reviewSpaceId, userId } = command;
+
+    // レビュースペースの存在確認
+    const reviewSpaceIdVo = ReviewSpaceId.reconstruct(reviewSpaceId);
+    const reviewSpace =
+      await this.reviewSpaceRepository.findById(reviewSpaceIdVo);
+    if (!reviewSpace) {
+      throw domainValidationError("REVIEW_SPACE_NOT_FOUND");
+    }
+
+    // プロジェクトの存在確認と権限確認
+    const project = await this.projectRepository.findById(
+      ProjectId.reconstruct(reviewSpace.projectId.value),
+    );
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("PROJECT_ACCESS_DENIED");
+    }
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.EDIT_CHECKLIST)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
+    // テンプレートの存在確認
+    const template = await this.checklistTemplateRepository.findById(
+      ChecklistTemplateId.reconstruct(command.templateId),
+    );
+    if (!template) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_NOT_FOUND");
+    }
+    if (!template.isAvailableTo(project.id.value)) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_ACCESS_DENIED");
+    }
+
+    // プレビューで確認した内容と異なる変更を取り込まないようにする
+    if (template.latestVersion !== command.expectedVersion) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_VERSION_CONFLICT");
+    }
+
+    const { currentItems, diff } = await computeChecklistTemplateSyncDiff(
+      this.checklistTemplateRepository,
+      this.checkListItemRepository,
+      reviewSpace,
+      template,
+    );
+
+    if (diff.hasChanges()) {
+      const items = diff.applyTo(currentItems).map((item, index) =>
+        CheckListItem.create({
+          reviewSpaceId,
+          content: item.content,
+          category: item.category,
+          displayOrder: index,
+          severity: item.severity,
+          guidance: item.guidance,
+        }),
+      );
+      await this.checkListItemRepository.bulkSave(reviewSpaceIdVo, items);
+    }
+
+    await this.reviewSpaceRepository.save(
+      reviewSpace.linkChecklistTemplate(
+        template.id.value,
+        template.latestVersion,
+      ),
+    );
+
+    const diffDto = diff.toDto();
+    return {
+      version: template.latestVersion,
+      addedCount: diffDto.added.length,
+      removedCount: diffDto.removed.length,
+      changedCount: diffDto.changed.length,
+    };
+  }
+}
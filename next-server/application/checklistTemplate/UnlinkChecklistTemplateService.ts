@@ -0,0 +1,65 @@
+import { IProjectRepository } from "@/application/shared/port/repository";
+import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * テンプレートリンク解除コマンド（入力DTO）
+ */
+export interface UnlinkChecklistTemplateCommand {
+  /** レビュースペースID */
+  reviewSpaceId: string;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+}
+
+/**
+ * テンプレートリンク解除サービス
+ * レビュースペースのチェック項目はそのまま残し、テンプレートとのリンクのみ解除する
+ */
+export class UnlinkChecklistTemplateService {
+  constructor(
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * テンプレートとのリンクを解除する
+   * @param command 解除コマンド
+   * @throws ドメインバリデーションエラー - レビュースペースが存在しない、権限がない、またはリンクしていない場合
+   */
+  async execute(command: UnlinkChecklistTemplateCommand): Promise<void> {
+    const { reviewSpaceId, userId } = command;
+
+    // レビュースペースの存在確認
+    const reviewSpace = await this.reviewSpaceRepository.findById(
+      ReviewSpaceId.reconstruct(reviewSpaceId),
+    );
+    if (!reviewSpace) {
+      throw domainValidationError("REVIEW_SPACE_NOT_FOUND");
+    }
+
+    // プロジェクトの存在確認と権限確認
+    const project = await this.projectRepository.findById(
+      ProjectId.reconstruct(reviewSpace.projectId.value),
+    );
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("PROJECT_ACCESS_DENIED");
+    }
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.EDIT_CHECKLIST)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
+    if (!reviewSpace.checklistTemplateId) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_NOT_LINKED");
+    }
+
+    await this.reviewSpaceRepository.save(
+      reviewSpace.unlinkChecklistTemplate(),
+    );
+  }
+}
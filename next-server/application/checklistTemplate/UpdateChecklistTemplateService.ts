@@ -0,0 +1,69 @@
+import {
+  IChecklistTemplateRepository,
+  IProjectRepository,
+} from "@/application/shared/port/repository";
+import {
+  ChecklistTemplateId,
+  type ChecklistTemplateDto,
+} from "@/domain/checklistTemplate";
+import { domainValidationError } from "@/lib/server/error";
+import { assertCanManageChecklistTemplate } from "./checklistTemplateAccess";
+
+/**
+ * テンプレート更新コマンド（入力DTO）
+ * 指定した項目のみ更新する
+ */
+export interface UpdateChecklistTemplateCommand {
+  /** テンプレートID */
+  templateId: string;
+  /** テンプレート名 */
+  name?: string;
+  /** テンプレート説明 */
+  description?: string | null;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+  /** 実行ユーザーがシステム管理者か */
+  isAdmin: boolean;
+}
+
+/**
+ * テンプレート更新サービス
+ * テンプレート名・説明を更新する（チェック項目の変更は新しいバージョンとして公開する）
+ */
+export class UpdateChecklistTemplateService {
+  constructor(
+    private readonly checklistTemplateRepository: IChecklistTemplateRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * テンプレートを更新する
+   * @param command 更新コマンド
+   * @returns 更新後のテンプレート
+   * @throws ドメインバリデーションエラー - テンプレートが存在しない、または権限がない場合
+   */
+  async execute(
+    command: UpdateChecklistTemplateCommand,
+  ): Promise<ChecklistTemplateDto> {
+    const template = await this.checklistTemplateRepository.findById(
+      ChecklistTemplateId.reconstruct(command.templateId),
+    );
+    if (!template) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_NOT_FOUND");
+    }
+    await assertCanManageChecklistTemplate(
+      this.projectRepository,
+      template.projectId,
+      command.userId,
+      command.isAdmin,
+    );
+
+    const updated = template.update({
+      name: command.name,
+      description: command.description,
+    });
+    await this.checklistTemplateRepository.save(updated);
+
+    return updated.toDto();
+  }
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { CreateChecklistTemplateService } from "../CreateChecklistTemplateService";
+import type {
+  IChecklistTemplateRepository,
+  IProjectRepository,
+} from "@/application/shared/port/repository";
+import type { ICheckListItemRepository } from "@/application/shared/port/repository/ICheckListItemRepository";
+import type { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import { CheckListItem } from "@/domain/checkListItem";
+import { Project } from "@/domain/project";
+import { ReviewSpace } from "@/domain/reviewSpace";
+
+describe("CreateChecklistTemplateService", () => {
+  let mockChecklistTemplateRepository: IChecklistTemplateRepository;
+  let mockCheckListItemRepository: ICheckListItemRepository;
+  let mockReviewSpaceRepository: IReviewSpaceRepository;
+  let mockProjectRepository: IProjectRepository;
+  let service: CreateChecklistTemplateService;
+
+  const validProjectId = "123e4567-e89b-12d3-a456-426614174000";
+  const editorUserId = "223e4567-e89b-12d3-a456-426614174001";
+  const viewerUserId = "223e4567-e89b-12d3-a456-426614174002";
+  const validReviewSpaceId = "323e4567-e89b-12d3-a456-426614174002";
+
+  const mockProject = Project.reconstruct({
+    id: validProjectId,
+    name: "テストプロジェクト",
+    description: null,
+    encryptedApiKey: null,
+    members: [
+      { userId: editorUserId, role: "editor", createdAt: new Date() },
+      { userId: viewerUserId, role: "viewer", createdAt: new Date() },
+    ],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const mockReviewSpace = ReviewSpace.reconstruct({
+    id: validReviewSpaceId,
+    projectId: validProjectId,
+    name: "設計書レビュー",
+    description: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const baseCommand = {
+    reviewSpaceId: validReviewSpaceId,
+    scope: "project" as const,
+    name: "設計書標準",
+    userId: editorUserId,
+    isAdmin: false,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockChecklistTemplateRepository = {
+      findById: vi.fn(),
+      findAvailableToProject: vi.fn(),
+      findGlobal: vi.fn(),
+      findVersion: vi.fn(),
+      findVersions: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+    mockCheckListItemRepository = {
+      findById: vi.fn(),
+      findByIds: vi.fn(),
+      findByReviewSpaceId: vi.fn().mockResolvedValue([
+        CheckListItem.reconstruct({
+          id: "423e4567-e89b-12d3-a456-426614174003",
+          reviewSpaceId: validReviewSpaceId,
+          content: "認証方式が記載されているか",
+          category: "セキュリティ",
+          displayOrder: 0,
+          severity: "high",
+          guidance: "認証基盤の名称まで確認する",
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }),
+      ]),
+      countByReviewSpaceId: vi.fn(),
+      save: vi.fn(),
+      bulkSave: vi.fn(),
+      bulkInsert: vi.fn(),
+      delete: vi.fn(),
+      deleteMany: vi.fn(),
+      deleteByReviewSpaceId: vi.fn(),
+    };
+    mockReviewSpaceRepository = {
+      findById: vi.fn().mockResolvedValue(mockReviewSpace),
+      findByProjectId: vi.fn(),
+      countByProjectId: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+      updateChecklistGenerationError: vi.fn(),
+    };
+    mockProjectRepository = {
+      findById: vi.fn().mockResolvedValue(mockProject),
+      findByMemberId: vi.fn(),
+      countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+    service = new CreateChecklistTemplateService(
+      mockChecklistTemplateRepository,
+      mockCheckListItemRepository,
+      mockReviewSpaceRepository,
+      mockProjectRepository,
+    );
+  });
+
+  it("レビュースペースのチェックリストからプロジェクトのテンプレートを作成し、リンクする", async () => {
+    const result = await service.execute(baseCommand);
+
+    expect(result.projectId).toBe(validProjectId);
+    expect(result.latestVersion).toBe(1);
+    const [, version] = vi.mocked(mockChecklistTemplateRepository.save).mock
+      .calls[0];
+    expect(version?.toDto().items).toEqual([
+      {
+        content: "認証方式が記載されているか",
+        category: "セキュリティ",
+        severity: "high",
+        guidance: "認証基盤の名称まで確認する",
+      },
+    ]);
+    const savedSpace = vi.mocked(mockReviewSpaceRepository.save).mock
+      .calls[0][0];
+    expect(savedSpace.checklistTemplateId?.value).toBe(result.id);
+    expect(savedSpace.checklistTemplateVersion).toBe(1);
+  });
+
+  it("システム管理者は全社共通テンプレートを作成できる", async () => {
+    const result = await service.execute({
+      ...baseCommand,
+      scope: "global",
+      isAdmin: true,
+    });
+
+    expect(result.projectId).toBeNull();
+  });
+
+  it("システム管理者以外は全社共通テンプレートを作成できない", async () => {
+    await expect(
+      service.execute({ ...baseCommand, scope: "global" }),
+    ).rejects.toMatchObject({
+      messageCode: "CHECKLIST_TEMPLATE_ACCESS_DENIED",
+    });
+    expect(mockChecklistTemplateRepository.save).not.toHaveBeenCalled();
+  });
+
+  it("チェックリストの編集権限がない場合はエラー", async () => {
+    await expect(
+      service.execute({ ...baseCommand, userId: viewerUserId }),
+    ).rejects.toMatchObject({ messageCode: "PROJECT_PERMISSION_DENIED" });
+  });
+
+  it("チェック項目がない場合はエラー", async () => {
+    vi.mocked(
+      mockCheckListItemRepository.findByReviewSpaceId,
+    ).mockResolvedValue([]);
+
+    await expect(service.execute(baseCommand)).rejects.toMatchObject({
+      messageCode: "CHECKLIST_TEMPLATE_ITEMS_EMPTY",
+    });
+  });
+});
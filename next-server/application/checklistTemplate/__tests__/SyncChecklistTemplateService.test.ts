@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { SyncChecklistTemplateService } from "../SyncChecklistTemplateService";
+import type {
+  IChecklistTemplateRepository,
+  IProjectRepository,
+} from "@/application/shared/port/repository";
+import type { ICheckListItemRepository } from "@/application/shared/port/repository/ICheckListItemRepository";
+import type { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import { CheckListItem } from "@/domain/checkListItem";
+import { ChecklistTemplate } from "@/domain/checklistTemplate";
+import { Project } from "@/domain/project";
+import { ReviewSpace } from "@/domain/reviewSpace";
+
+describe("SyncChecklistTemplateService", () => {
+  let mockChecklistTemplateRepository: IChecklistTemplateRepository;
+  let mockCheckListItemRepository: ICheckListItemRepository;
+  let mockReviewSpaceRepository: IReviewSpaceRepository;
+  let mockProjectRepository: IProjectRepository;
+  let service: SyncChecklistTemplateService;
+
+  const validProjectId = "123e4567-e89b-12d3-a456-426614174000";
+  const otherProjectId = "523e4567-e89b-12d3-a456-426614174004";
+  const editorUserId = "223e4567-e89b-12d3-a456-426614174001";
+  const viewerUserId = "223e4567-e89b-12d3-a456-426614174002";
+  const validReviewSpaceId = "323e4567-e89b-12d3-a456-426614174002";
+
+  const mockProject = Project.reconstruct({
+    id: validProjectId,
+    name: "テストプロジェクト",
+    description: null,
+    encryptedApiKey: null,
+    members: [
+      { userId: editorUserId, role: "editor", createdAt: new Date() },
+      { userId: viewerUserId, role: "viewer", createdAt: new Date() },
+    ],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  // v1: 項目A・項目B、v2: 項目Bを削除し、項目Aの重要度を変更、項目Cを追加
+  const { template: templateV1, version: version1 } = ChecklistTemplate.create({
+    projectId: null,
+    name: "共通テンプレート",
+    items: [{ content: "項目A" }, { content: "項目B" }],
+    publishedBy: editorUserId,
+  });
+  const { template: templateV2, version: version2 } = templateV1.publishVersion(
+    {
+      items: [{ content: "項目A", severity: "high" }, { content: "項目C" }],
+      publishedBy: editorUserId,
+    },
+  );
+
+  const linkedReviewSpace = ReviewSpace.reconstruct({
+    id: validReviewSpaceId,
+    projectId: validProjectId,
+    name: "設計書レビュー",
+    description: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    checklistTemplateId: templateV2.id.value,
+    checklistTemplateVersion: 1,
+  });
+
+  const createCheckListItem = (
+    content: string,
+    displayOrder: number,
+    severity: "high" | "medium" | "low" = "medium",
+  ) =>
+    CheckListItem.reconstruct({
+      id: crypto.randomUUID(),
+      reviewSpaceId: validReviewSpaceId,
+      content,
+      category: null,
+      displayOrder,
+      severity,
+      guidance: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+  const baseCommand = {
+    reviewSpaceId: validReviewSpaceId,
+    templateId: templateV2.id.value,
+    expectedVersion: 2,
+    userId: editorUserId,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockChecklistTemplateRepository = {
+      findById: vi.fn().mockResolvedValue(templateV2),
+      findAvailableToProject: vi.fn(),
+      findGlobal: vi.fn(),
+      findVersion: vi
+        .fn()
+        .mockImplementation(async (_templateId, version: number) =>
+          version === 1 ? version1 : version === 2 ? version2 : null,
+        ),
+      findVersions: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+    mockCheckListItemRepository = {
+      findById: vi.fn(),
+      findByIds: vi.fn(),
+      findByReviewSpaceId: vi
+        .fn()
+        .mockResolvedValue([
+          createCheckListItem("独自の項目", 0),
+          createCheckListItem("項目A", 1),
+          createCheckListItem("項目B", 2),
+        ]),
+      countByReviewSpaceId: vi.fn(),
+      save: vi.fn(),
+      bulkSave: vi.fn(),
+      bulkInsert: vi.fn(),
+      delete: vi.fn(),
+      deleteMany: vi.fn(),
+      deleteByReviewSpaceId: vi.fn(),
+    };
+    mockReviewSpaceRepository = {
+      findById: vi.fn().mockResolvedValue(linkedReviewSpace),
+      findByProjectId: vi.fn(),
+      countByProjectId: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+      updateChecklistGenerationError: vi.fn(),
+    };
+    mockProjectRepository = {
+      findById: vi.fn().mockResolvedValue(mockProject),
+      findByMemberId: vi.fn(),
+      countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+    service = new SyncChecklistTemplateService(
+      mockChecklistTemplateRepository,
+      mockCheckListItemRepository,
+      mockReviewSpaceRepository,
+      mockProjectRepository,
+    );
+  });
+
+  it("リンク中のバージョンからの変更を取り込み、最新バージョンにリンクする", async () => {
+    const result = await service.execute(baseCommand);
+
+    expect(result).toEqual({
+      version: 2,
+      addedCount: 1,
+      removedCount: 1,
+      changedCount: 1,
+    });
+    const savedItems = vi.mocked(mockCheckListItemRepository.bulkSave).mock
+      .calls[0][1];
+    expect(
+      savedItems.map((item) => ({
+        content: item.content.value,
+        severity: item.severity.value,
+        displayOrder: item.displayOrder,
+      })),
+    ).toEqual([
+      { content: "独自の項目", severity: "medium", displayOrder: 0 },
+      { content: "項目A", severity: "high", displayOrder: 1 },
+      { content: "項目C", severity: "medium", displayOrder: 2 },
+    ]);
+    const savedSpace = vi.mocked(mockReviewSpaceRepository.save).mock
+      .calls[0][0];
+    expect(savedSpace.checklistTemplateVersion).toBe(2);
+  });
+
+  it("変更がない場合はチェック項目を保存せずリンクのみ更新する", async () => {
+    vi.mocked(
+      mockCheckListItemRepository.findByReviewSpaceId,
+    ).mockResolvedValue([
+      createCheckListItem("項目A", 0, "high"),
+      createCheckListItem("項目C", 1),
+    ]);
+    vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(
+      linkedReviewSpace.linkChecklistTemplate(templateV2.id.value, 2),
+    );
+
+    await service.execute(baseCommand);
+
+    expect(mockCheckListItemRepository.bulkSave).not.toHaveBeenCalled();
+    expect(mockReviewSpaceRepository.save).toHaveBeenCalledTimes(1);
+  });
+
+  it("プレビュー後に新しいバージョンが公開された場合はエラー", async () => {
+    await expect(
+      service.execute({ ...baseCommand, expectedVersion: 1 }),
+    ).rejects.toMatchObject({
+      messageCode: "CHECKLIST_TEMPLATE_VERSION_CONFLICT",
+    });
+    expect(mockCheckListItemRepository.bulkSave).not.toHaveBeenCalled();
+  });
+
+  it("他のプロジェクトのテンプレートは取り込めない", async () => {
+    const { template } = ChecklistTemplate.create({
+      projectId: otherProjectId,
+      name: "他プロジェクトのテンプレート",
+      items: [{ content: "項目" }],
+      publishedBy: editorUserId,
+    });
+    vi.mocked(mockChecklistTemplateRepository.findById).mockResolvedValue(
+      template,
+    );
+
+    await expect(
+      service.execute({
+        ...baseCommand,
+        templateId: template.id.value,
+        expectedVersion: 1,
+      }),
+    ).rejects.toMatchObject({
+      messageCode: "CHECKLIST_TEMPLATE_ACCESS_DENIED",
+    });
+  });
+
+  it("チェックリストの編集権限がない場合はエラー", async () => {
+    await expect(
+      service.execute({ ...baseCommand, userId: viewerUserId }),
+    ).rejects.toMatchObject({ messageCode: "PROJECT_PERMISSION_DENIED" });
+  });
+});
@@ -0,0 +1,55 @@
+import { IProjectRepository } from "@/application/shared/port/repository";
+import { ChecklistTemplate } from "@/domain/checklistTemplate";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * テンプレートの管理（作成・更新・バージョン公開・削除）権限を確認する
+ * - 全社共通テンプレート（projectIdがnull）: システム管理者のみ
+ * - プロジェクトのテンプレート: チェックリスト編集権限を持つプロジェクトメンバー
+ * @throws ドメインバリデーションエラー - 権限がない場合
+ */
+export async function assertCanManageChecklistTemplate(
+  projectRepository: IProjectRepository,
+  projectId: ProjectId | null,
+  userId: string,
+  isAdmin: boolean,
+): Promise<void> {
+  if (projectId === null) {
+    if (!isAdmin) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_ACCESS_DENIED");
+    }
+    return;
+  }
+
+  const project = await projectRepository.findById(projectId);
+  if (!project) {
+    throw domainValidationError("PROJECT_NOT_FOUND");
+  }
+  if (!project.hasMember(userId)) {
+    throw domainValidationError("PROJECT_ACCESS_DENIED");
+  }
+  if (!project.hasPermission(userId, PROJECT_PERMISSION.EDIT_CHECKLIST)) {
+    throw domainValidationError("PROJECT_PERMISSION_DENIED");
+  }
+}
+
+/**
+ * テンプレートの閲覧権限を確認する
+ * 全社共通テンプレートは全ユーザー、プロジェクトのテンプレートはプロジェクトメンバーが閲覧できる
+ * @throws ドメインバリデーションエラー - 権限がない場合
+ */
+export async function assertCanViewChecklistTemplate(
+  projectRepository: IProjectRepository,
+  template: ChecklistTemplate,
+  userId: string,
+): Promise<void> {
+  if (template.projectId === null) {
+    return;
+  }
+
+  const project = await projectRepository.findById(template.projectId);
+  if (!project || !project.hasMember(userId)) {
+    throw domainValidationError("CHECKLIST_TEMPLATE_ACCESS_DENIED");
+  }
+}
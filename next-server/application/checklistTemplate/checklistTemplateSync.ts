@@ -0,0 +1,68 @@
+import { IChecklistTemplateRepository } from "@/application/shared/port/repository";
+import { ICheckListItemRepository } from "@/application/shared/port/repository/ICheckListItemRepository";
+import {
+  ChecklistTemplate,
+  ChecklistTemplateDiff,
+  ChecklistTemplateItem,
+  type ChecklistTemplateItemDto,
+} from "@/domain/checklistTemplate";
+import { ReviewSpace } from "@/domain/reviewSpace";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * テンプレート取り込みの差分計算結果
+ */
+export interface ChecklistTemplateSyncDiff {
+  /** レビュースペースがリンクしているバージョン（このテンプレートにリンクしていない場合はnull） */
+  linkedVersion: number | null;
+  /** レビュースペースの現在のチェック項目 */
+  currentItems: ChecklistTemplateItemDto[];
+  /** 最新バージョンとの差分 */
+  diff: ChecklistTemplateDiff;
+}
+
+/**
+ * テンプレートの最新バージョンをレビュースペースに取り込む際の差分を計算する
+ * レビュースペースがこのテンプレートにリンクしている場合はリンク中のバージョンを基準にし、
+ * 基準バージョン以降にテンプレートから削除された項目のみ削除対象とする
+ * @throws ドメインバリデーションエラー - テンプレートのバージョンが存在しない場合
+ */
+export async function computeChecklistTemplateSyncDiff(
+  checklistTemplateRepository: IChecklistTemplateRepository,
+  checkListItemRepository: ICheckListItemRepository,
+  reviewSpace: ReviewSpace,
+  template: ChecklistTemplate,
+): Promise<ChecklistTemplateSyncDiff> {
+  const latest = await checklistTemplateRepository.findVersion(
+    template.id,
+    template.latestVersion,
+  );
+  if (!latest) {
+    throw domainValidationError("CHECKLIST_TEMPLATE_VERSION_NOT_FOUND");
+  }
+
+  const linkedVersion = reviewSpace.checklistTemplateId?.equals(template.id)
+    ? reviewSpace.checklistTemplateVersion
+    : null;
+  const base =
+    linkedVersion !== null
+      ? await checklistTemplateRepository.findVersion(
+          template.id,
+          linkedVersion,
+        )
+      : null;
+
+  const currentItems = (
+    await checkListItemRepository.findByReviewSpaceId(reviewSpace.id)
+  ).map((item) => ChecklistTemplateItem.fromCheckListItem(item).toDto());
+
+  return {
+    linkedVersion,
+    currentItems,
+    diff: ChecklistTemplateDiff.compute({
+      currentItems,
+      baseItems: base?.items.map((item) => item.toDto()) ?? [],
+      latestItems: latest.items.map((item) => item.toDto()),
+    }),
+  };
+}
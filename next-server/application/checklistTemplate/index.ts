@@ -0,0 +1,48 @@
+/**
+ * チェックリストテンプレート アプリケーションサービス
+ * エントリーポイント
+ */
+
+// テンプレート管理
+export {
+  CreateChecklistTemplateService,
+  type CreateChecklistTemplateCommand,
+  type ChecklistTemplateScope,
+} from "./CreateChecklistTemplateService";
+export {
+  ListChecklistTemplatesService,
+  type ListChecklistTemplatesQuery,
+} from "./ListChecklistTemplatesService";
+export {
+  GetChecklistTemplateService,
+  type GetChecklistTemplateQuery,
+  type ChecklistTemplateDetailDto,
+} from "./GetChecklistTemplateService";
+export {
+  UpdateChecklistTemplateService,
+  type UpdateChecklistTemplateCommand,
+} from "./UpdateChecklistTemplateService";
+export {
+  PublishChecklistTemplateVersionService,
+  type PublishChecklistTemplateVersionCommand,
+} from "./PublishChecklistTemplateVersionService";
+export {
+  DeleteChecklistTemplateService,
+  type DeleteChecklistTemplateCommand,
+} from "./DeleteChecklistTemplateService";
+
+// レビュースペースへの取り込み
+export {
+  PreviewChecklistTemplateSyncService,
+  type PreviewChecklistTemplateSyncQuery,
+  type ChecklistTemplateSyncPreviewDto,
+} from "./PreviewChecklistTemplateSyncService";
+export {
+  SyncChecklistTemplateService,
+  type SyncChecklistTemplateCommand,
+  type SyncChecklistTemplateResult,
+} from "./SyncChecklistTemplateService";
+export {
+  UnlinkChecklistTemplateService,
+  type UnlinkChecklistTemplateCommand,
+} from "./UnlinkChecklistTemplateService";
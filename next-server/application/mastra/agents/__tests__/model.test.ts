@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { RuntimeContext } from "@mastra/core/di";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import {
+  createChatModel,
+  getModelFor,
+  registerAiProviderFactory,
+  type AiChatModel,
+} from "../model";
+import type { BaseRuntimeContext } from "../../types";
+
+vi.mock("@ai-sdk/openai-compatible", () => ({
+  createOpenAICompatible: vi.fn(() => ({
+    chatModel: vi.fn((modelId: string) => ({ modelId })),
+  })),
+}));
+
+describe("model", () => {
+  beforeEach(() => {
+    vi.mocked(createOpenAICompatible).mockClear();
+  });
+
+  describe("createChatModel", () => {
+    it("OpenAI互換の接続先はAPIキーをBearerで送信する", () => {
+      createChatModel({
+        providerType: "openai_compatible",
+        apiKey: "test-key",
+        apiUrl: "https://api.example.com/v1",
+        apiModel: "gpt-4o",
+        apiVersion: null,
+      });
+
+      expect(createOpenAICompatible).toHaveBeenCalledWith({
+        name: "openAICompatibleModel",
+        apiKey: "test-key",
+        baseURL: "https://api.example.com/v1",
+      });
+    });
+
+    it("Azure形式の接続先はデプロイメントURL・api-keyヘッダー・api-versionクエリを使用する", () => {
+      const model = createChatModel({
+        providerType: "azure_openai",
+        apiKey: "azure-key",
+        apiUrl: "https://example.openai.azure.com/",
+        apiModel: "gpt-4o",
+        apiVersion: "2024-10-21",
+      });
+
+      expect(createOpenAICompatible).toHaveBeenCalledWith({
+        name: "azureOpenAIModel",
+        baseURL: "https://example.openai.azure.com/openai/deployments/gpt-4o",
+        headers: { "api-key": "azure-key" },
+        queryParams: { "api-version": "2024-10-21" },
+      });
+      expect(model).toEqual({ modelId: "gpt-4o" });
+    });
+
+    it("Ollamaの接続先はAPIキーなしで接続できる", () => {
+      createChatModel({
+        providerType: "ollama",
+        apiKey: null,
+        apiUrl: "http://localhost:11434/v1",
+        apiModel: "llama3",
+        apiVersion: null,
+      });
+
+      expect(createOpenAICompatible).toHaveBeenCalledWith({
+        name: "ollamaModel",
+        apiKey: undefined,
+        baseURL: "http://localhost:11434/v1",
+      });
+    });
+
+    it("APIキーが必要な接続先でAPIキーがない場合はエラー", () => {
+      expect(() =>
+        createChatModel({
+          providerType: "openai_compatible",
+          apiKey: null,
+          apiUrl: "https://api.example.com/v1",
+          apiModel: "gpt-4o",
+          apiVersion: null,
+        }),
+      ).toThrow(
+        expect.objectContaining({ messageCode: "AI_CONFIG_API_KEY_MISSING" }),
+      );
+    });
+
+    it("登録したモデル生成関数で置き換えられる", () => {
+      const customModel = { modelId: "custom" } as unknown as AiChatModel;
+      const factory = vi.fn(() => customModel);
+      registerAiProviderFactory("ollama", factory);
+
+      const endpoint = {
+        providerType: "ollama" as const,
+        apiKey: null,
+        apiUrl: "http://localhost:11434/v1",
+        apiModel: "llama3",
+        apiVersion: null,
+      };
+
+      expect(createChatModel(endpoint)).toBe(customModel);
+      expect(factory).toHaveBeenCalledWith(endpoint);
+    });
+  });
+
+  describe("getModelFor", () => {
+    it("割り当てがあるエージェントは割り当てた接続先を使用する", () => {
+      const runtimeContext = new RuntimeContext<BaseRuntimeContext>();
+      runtimeContext.set("aiApiKey", "default-key");
+      runtimeContext.set("aiApiUrl", "https://api.example.com/v1");
+      runtimeContext.set("aiApiModel", "gpt-4o");
+      runtimeContext.set("aiModelEndpoints", {
+        checklistCategory: {
+          providerType: "openai_compatible",
+          apiKey: "default-key",
+          apiUrl: "https://api.example.com/v1",
+          apiModel: "gpt-4o-mini",
+          apiVersion: null,
+        },
+      });
+
+      expect(getModelFor("checklistCategory")({ runtimeContext })).toEqual({
+        modelId: "gpt-4o-mini",
+      });
+      expect(getModelFor("consolidateReview")({ runtimeContext })).toEqual({
+        modelId: "gpt-4o",
+      });
+    });
+  });
+});
@@ -1,7 +1,8 @@
 import { Agent } from "@mastra/core/agent";
 import { z } from "zod";
 import { getChecklistCategorizePrompt } from "./prompts";
-import { getModel } from "./model";
+import { AI_MODEL_TARGET } from "@/domain/system-setting";
+import { getModelFor } from "./model";
 
 /**
  * カテゴリ分類エージェントの出力スキーマ
@@ -30,5 +31,5 @@ export type ChecklistCategoryOutput = z.infer<
 export const checklistCategoryAgent = new Agent({
   name: "checklist-category-agent",
   instructions: getChecklistCategorizePrompt,
-  model: getModel,
+  model: getModelFor(AI_MODEL_TARGET.CHECKLIST_CATEGORY),
 });
@@ -1,5 +1,6 @@
 import { Agent } from "@mastra/core/agent";
-import { getModel } from "./model";
+import { AI_MODEL_TARGET } from "@/domain/system-setting";
+import { getModelFor } from "./model";
 import { z } from "zod";
 import { getChecklistRefinementPrompt } from "./prompts";
 
@@ -23,5 +24,5 @@ export type ChecklistRefinementOutput = z.infer<
 export const checklistRefinementAgent = new Agent({
   name: "checklist-refinement-agent",
   instructions: getChecklistRefinementPrompt,
-  model: getModel,
+  model: getModelFor(AI_MODEL_TARGET.CHECKLIST_REFINEMENT),
 });
@@ -1,7 +1,9 @@
 import { Agent } from "@mastra/core/agent";
 import { z } from "zod";
 import { getConsolidateReviewPrompt } from "./prompts";
-import { getModel } from "./model";
+import { AI_MODEL_TARGET } from "@/domain/system-setting";
+import { getModelFor } from "./model";
+import { reviewSectionsSchema } from "./types";
 
 /**
  * レビュー結果統合の単一項目スキーマ
@@ -9,19 +11,8 @@ import { getModel } from "./model";
  */
 export const consolidateReviewResultItemSchema = z.object({
   checklistId: z.number().describe("Checklist item ID (sequential number)"),
-  // CoTのようにAIにどのファイルのどのセクションをレビューするべきかを考えさせるための隠しフィールド
-  reviewSections: z
-    .array(
-      z.object({
-        fileName: z.string().describe("file name to review"),
-        sectionNames: z.array(
-          z.string().describe("section name within the file"),
-        ),
-      }),
-    )
-    .describe(
-      "files and sections that should be reviewed for evaluation and commenting",
-    ),
+  // CoTのようにAIにどのファイルのどのセクションをレビューするべきかを考えさせ、根拠として保存するフィールド
+  reviewSections: reviewSectionsSchema,
   comment: z.string().describe("consolidated evaluation comment"),
   evaluation: z.string().describe("evaluation label"),
 });
@@ -47,5 +38,5 @@ export type ConsolidateReviewOutput = z.infer<
 export const consolidateReviewAgent = new Agent({
   name: "consolidate-review-agent",
   instructions: getConsolidateReviewPrompt,
-  model: getModel,
+  model: getModelFor(AI_MODEL_TARGET.CONSOLIDATE_REVIEW),
 });
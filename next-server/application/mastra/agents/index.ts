@@ -61,4 +61,6 @@ export type {
   QaPlanningAgentRuntimeContext,
   QaResearchAgentRuntimeContext,
   QaAnswerAgentRuntimeContext,
+  ReviewSection,
 } from "./types";
+export { reviewSectionSchema, reviewSectionsSchema } from "./types";
@@ -1,7 +1,9 @@
 import { Agent } from "@mastra/core/agent";
 import { z } from "zod";
 import { getIndividualDocumentReviewPrompt } from "./prompts";
-import { getModel } from "./model";
+import { AI_MODEL_TARGET } from "@/domain/system-setting";
+import { getModelFor } from "./model";
+import { reviewSectionsSchema } from "./types";
 
 /**
  * 個別ドキュメントレビュー結果の単一項目スキーマ
@@ -10,19 +12,8 @@ import { getModel } from "./model";
  */
 export const individualDocumentReviewResultItemSchema = z.object({
   checklistId: z.number().describe("Checklist item ID (sequential number)"),
-  // CoTのようにAIにどのファイルのどのセクションをレビューするべきかを考えさせるための隠しフィールド
-  reviewSections: z
-    .array(
-      z.object({
-        fileName: z.string().describe("file name to review"),
-        sectionNames: z.array(
-          z.string().describe("section name within the file"),
-        ),
-      }),
-    )
-    .describe(
-      "files and sections that should be reviewed for evaluation and commenting",
-    ),
+  // CoTのようにAIにどのファイルのどのセクションをレビューするべきかを考えさせ、根拠として保存するフィールド
+  reviewSections: reviewSectionsSchema,
   comment: z.string().describe("review comment for this document part"),
 });
 
@@ -48,5 +39,5 @@ export type IndividualDocumentReviewOutput = z.infer<
 export const individualDocumentReviewAgent = new Agent({
   name: "individual-document-review-agent",
   instructions: getIndividualDocumentReviewPrompt,
-  model: getModel,
+  model: getModelFor(AI_MODEL_TARGET.INDIVIDUAL_DOCUMENT_REVIEW),
 });
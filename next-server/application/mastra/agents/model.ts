@@ -1,8 +1,108 @@
-import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import {
+  createOpenAICompatible,
+  type OpenAICompatibleProvider,
+} from "@ai-sdk/openai-compatible";
 import type { RuntimeContext } from "@mastra/core/di";
 import type { BaseRuntimeContext } from "../types";
+import type { AiModelEndpoint } from "@/application/shared/lib/resolveAiApiConfig";
+import {
+  AI_PROVIDER_TYPE,
+  type AiModelTarget,
+  type AiProviderType,
+} from "@/domain/system-setting";
 import { aiConfigError } from "@/lib/server/error";
 
+/**
+ * エージェントが使用するチャットモデル
+ */
+export type AiChatModel = ReturnType<OpenAICompatibleProvider["chatModel"]>;
+
+/**
+ * AIプロバイダーのモデル生成関数
+ * 確定済みの接続先からチャットモデルを生成する
+ */
+export type AiProviderFactory = (endpoint: AiModelEndpoint) => AiChatModel;
+
+/**
+ * APIキーを必須とする接続先のAPIキーを取得する
+ */
+function requireApiKey(endpoint: AiModelEndpoint): string {
+  if (!endpoint.apiKey) {
+    throw aiConfigError("AI_CONFIG_API_KEY_MISSING");
+  }
+  return endpoint.apiKey;
+}
+
+/**
+ * プロバイダー種別ごとのモデル生成関数
+ */
+const providerFactories = new Map<AiProviderType, AiProviderFactory>([
+  // OpenAI互換API（Authorization: Bearer）
+  [
+    AI_PROVIDER_TYPE.OPENAI_COMPATIBLE,
+    (endpoint) =>
+      createOpenAICompatible({
+        name: "openAICompatibleModel",
+        apiKey: requireApiKey(endpoint),
+        baseURL: endpoint.apiUrl,
+      }).chatModel(endpoint.apiModel),
+  ],
+  // Azure形式（デプロイメント単位のURL、api-keyヘッダー、api-versionクエリ）
+  [
+    AI_PROVIDER_TYPE.AZURE_OPENAI,
+    (endpoint) => {
+      if (!endpoint.apiVersion) {
+        throw aiConfigError("AI_PROVIDER_API_VERSION_REQUIRED");
+      }
+      const baseUrl = endpoint.apiUrl.replace(/\/+$/, "");
+      return createOpenAICompatible({
+        name: "azureOpenAIModel",
+        baseURL: `${baseUrl}/openai/deployments/${encodeURIComponent(endpoint.apiModel)}`,
+        headers: { "api-key": requireApiKey(endpoint) },
+        queryParams: { "api-version": endpoint.apiVersion },
+      }).chatModel(endpoint.apiModel);
+    },
+  ],
+  // Ollamaなどのローカルサーバー（OpenAI互換API、APIキーは任意）
+  [
+    AI_PROVIDER_TYPE.OLLAMA,
+    (endpoint) =>
+      createOpenAICompatible({
+        name: "ollamaModel",
+        apiKey: endpoint.apiKey ?? undefined,
+        baseURL: endpoint.apiUrl,
+      }).chatModel(endpoint.apiModel),
+  ],
+]);
+
+/**
+ * AIプロバイダーのモデル生成関数を登録する
+ * 同じ種別が登録済みの場合は置き換える
+ *
+ * @param type プロバイダー種別
+ * @param factory モデル生成関数
+ */
+export function registerAiProviderFactory(
+  type: AiProviderType,
+  factory: AiProviderFactory,
+): void {
+  providerFactories.set(type, factory);
+}
+
+/**
+ * 接続先からチャットモデルを生成する
+ *
+ * @param endpoint 確定済みの接続先
+ * @throws aiConfigError プロバイダー種別に対応するモデル生成関数がない場合
+ */
+export function createChatModel(endpoint: AiModelEndpoint): AiChatModel {
+  const factory = providerFactories.get(endpoint.providerType);
+  if (!factory) {
+    throw aiConfigError("AI_CONFIG_PROVIDER_NOT_FOUND");
+  }
+  return factory(endpoint);
+}
+
 /**
  * AIモデルを取得する
  * RuntimeContextから確定済みのAI API設定を取得
@@ -33,9 +133,30 @@ export const getModel = ({
     throw aiConfigError("AI_CONFIG_API_MODEL_MISSING");
   }
 
-  return createOpenAICompatible({
-    name: "openAICompatibleModel",
+  return createChatModel({
+    providerType: AI_PROVIDER_TYPE.OPENAI_COMPATIBLE,
     apiKey,
-    baseURL: apiUrl,
-  }).chatModel(apiModel);
+    apiUrl,
+    apiModel,
+    apiVersion: null,
+  });
 };
+
+/**
+ * エージェント別のAIモデル取得関数を作成する
+ * RuntimeContextにエージェントの接続先が割り当てられている場合はその接続先を使用し、
+ * 割り当てがない場合は既定の設定（getModel）を使用する
+ *
+ * @param target モデル割り当ての対象エージェント
+ * @returns エージェントのmodelに指定する取得関数
+ */
+export const getModelFor =
+  (target: AiModelTarget) =>
+  ({
+    runtimeContext,
+  }: {
+    runtimeContext: RuntimeContext<BaseRuntimeContext>;
+  }) => {
+    const endpoint = runtimeContext.get("aiModelEndpoints")?.[target];
+    return endpoint ? createChatModel(endpoint) : getModel({ runtimeContext });
+  };
@@ -10,8 +10,47 @@ import type {
   QaPlanningAgentRuntimeContext,
   QaResearchAgentRuntimeContext,
   QaAnswerAgentRuntimeContext,
+  ReviewChecklistItem,
 } from "./types";
 
+/**
+ * 重要度の英語表記（プロンプト用）
+ */
+const SEVERITY_PROMPT_LABELS: Record<
+  NonNullable<ReviewChecklistItem["severity"]>,
+  string
+> = {
+  high: "High",
+  medium: "Medium",
+  low: "Low",
+};
+
+/**
+ * レビュー用のチェック項目一覧をフォーマットする
+ * 1始まりの連番IDを使用してトークン消費を削減し、重要度・ガイダンスが設定されている場合は併記する
+ */
+function formatReviewChecklistItems(items: ReviewChecklistItem[]): string {
+  const formattedItems = items
+    .map((item, index) => {
+      const lines = [`ID: ${index + 1} - ${item.content}`];
+      if (item.severity) {
+        lines.push(`  Severity: ${SEVERITY_PROMPT_LABELS[item.severity]}`);
+      }
+      if (item.guidance) {
+        lines.push(`  Reviewer guidance: ${item.guidance}`);
+      }
+      return lines.join("\n");
+    })
+    .join("\n");
+
+  const hasAttributes = items.some((item) => item.severity || item.guidance);
+  if (!hasAttributes) {
+    return formattedItems;
+  }
+  return `${formattedItems}
+(Severity is the impact when the item is not satisfied; examine High items with particular rigor. When reviewer guidance is given, follow it to judge the item.)`;
+}
+
 /**
  * トピック抽出用のシステムプロンプトを取得する関数
  * ドキュメントから独立したトピックを抽出してチェックリスト作成に使用する
@@ -191,9 +230,7 @@ export function getReviewExecutionPrompt({
   const evaluationCriteria = runtimeContext?.get("evaluationCriteria");
 
   // チェック項目一覧をフォーマット（1始まりの連番IDを使用してトークン消費を削減）
-  const formattedList = checklistItems
-    .map((item, index) => `ID: ${index + 1} - ${item.content}`)
-    .join("\n");
+  const formattedList = formatReviewChecklistItems(checklistItems);
 
   // デフォルトのコメントフォーマット
   const defaultFormat = `【評価理由・根拠】
@@ -239,6 +276,7 @@ ${actualFormat}
 3. For each checklist item, specify the review sections that should be examined for evaluation and commenting:
    a) Identify the specific file names that need to be reviewed.
    b) For each file, list the relevant sections within that file.
+   c) If the document shows page markers (e.g. "Page 3/10") or line numbers, also record the page numbers and line ranges of those sections. Leave them empty when the document does not show them; never guess.
 4. In your comments, be sure to:
    a) Cite specific parts of the document as evidence.
    b) Separate discussions by section if some parts meet the item and others do not.
@@ -296,9 +334,7 @@ export function getIndividualDocumentReviewPrompt({
   const commentFormat = runtimeContext?.get("commentFormat");
 
   // Build a human-readable list of checklist items (using short sequential IDs)
-  const formattedList = checklistItems
-    .map((item, index) => `ID: ${index + 1} - ${item.content}`)
-    .join("\n");
+  const formattedList = formatReviewChecklistItems(checklistItems);
 
   // デフォルトのフォーマット
   const defaultFormat = `【評価理由・根拠】
@@ -337,6 +373,7 @@ ${actualFormat}
 3. For each checklist item, specify the review sections that should be examined:
    a) Identify the specific document sections reviewed
    b) List the relevant sections within the document part
+   c) If the document part shows page markers (e.g. "Page 3/10") or line numbers, also record the page numbers and line ranges of those sections. Leave them empty when the document does not show them; never guess
 4. In your comments, ensure to:
    a) Cite specific parts of the document as evidence (use section names, chapter titles, page references)
    b) Be comprehensive about what you found in THIS document part
@@ -375,9 +412,7 @@ export function getConsolidateReviewPrompt({
   const evaluationCriteria = runtimeContext?.get("evaluationCriteria");
 
   // Build a human-readable list of checklist items (using short sequential IDs)
-  const formattedList = checklistItems
-    .map((item, index) => `ID: ${index + 1} - ${item.content}`)
-    .join("\n");
+  const formattedList = formatReviewChecklistItems(checklistItems);
 
   // デフォルトのフォーマット
   const defaultFormat = `【評価理由・根拠】
@@ -508,6 +543,7 @@ export function getQaPlanningPrompt({
 }): string {
   const availableDocuments = runtimeContext.get("availableDocuments");
   const checklistInfo = runtimeContext.get("checklistInfo");
+  const conversationHistory = runtimeContext.get("conversationHistory");
   const reviewMode = runtimeContext.get("reviewMode");
 
   const documentList = availableDocuments
@@ -528,8 +564,21 @@ CHECKLIST REVIEW INFORMATION:
 ${checklistInfo}
 
 ${
-  reviewMode === "large"
-    ? `IMPORTANT: Individual Review Results Available
+  conversationHistory
+    ? `CONVERSATION HISTORY:
+The user's question is a follow-up in an ongoing conversation. Previous questions and answers in this conversation (oldest first):
+${conversationHistory}
+
+When planning your research for a follow-up question:
+- Interpret references in the question (e.g., "that section", "the point above") using the conversation history
+- Do not re-investigate information already established in previous answers unless the user asks to verify or expand on it
+- Write research instructions that are fully self-contained, because document researchers cannot see the conversation history
+
+`
+    : ""
+}${
+    reviewMode === "large"
+      ? `IMPORTANT: Individual Review Results Available
 The checklist information above includes detailed individual review results from analyzing specific document sections. These individual results provide:
 - Granular findings from each document part
 - Specific issues or strengths identified in different sections
@@ -542,8 +591,8 @@ When planning your research:
 - The individual results can help you avoid unnecessary investigation of irrelevant documents
 
 `
-    : ""
-}DOCUMENT PROCESSING NOTE:
+      : ""
+  }DOCUMENT PROCESSING NOTE:
 Documents will be analyzed automatically and split into sections if needed for processing. Focus on WHAT information to extract, not HOW to process the documents. Your research instructions should be clear about the specific information needed to answer the user's question.
 
 YOUR TASK:
@@ -699,6 +748,7 @@ export function getQaAnswerPrompt({
 }): string {
   const userQuestion = runtimeContext.get("userQuestion");
   const checklistInfo = runtimeContext.get("checklistInfo");
+  const conversationHistory = runtimeContext.get("conversationHistory");
   const reviewMode = runtimeContext.get("reviewMode");
 
   return `You are a senior document review specialist responsible for synthesizing research findings into comprehensive answers.
@@ -720,7 +770,20 @@ ${userQuestion}
 
 CHECKLIST CONTEXT:
 ${checklistInfo}
-
+${
+  conversationHistory
+    ? `
+CONVERSATION HISTORY:
+The user's question is a follow-up in an ongoing conversation. Previous questions and answers in this conversation (oldest first):
+${conversationHistory}
+
+When answering a follow-up question:
+- Answer the latest question as a continuation of this conversation, resolving references to earlier questions and answers
+- Stay consistent with previous answers; if new findings contradict a previous answer, state the correction explicitly
+- Do not repeat previous answers in full; refer to them briefly only where needed
+`
+    : ""
+}
 YOUR TASK:
 Integrate all research findings and provide a clear, accurate, and comprehensive answer to the user's question.
 
@@ -1,5 +1,6 @@
 import { Agent } from "@mastra/core/agent";
-import { getModel } from "./model";
+import { AI_MODEL_TARGET } from "@/domain/system-setting";
+import { getModelFor } from "./model";
 import { getQaAnswerPrompt } from "./prompts";
 
 /**
@@ -9,5 +10,5 @@ import { getQaAnswerPrompt } from "./prompts";
 export const qaAnswerAgent = new Agent({
   name: "qaAnswerAgent",
   instructions: getQaAnswerPrompt,
-  model: getModel,
+  model: getModelFor(AI_MODEL_TARGET.QA_ANSWER),
 });
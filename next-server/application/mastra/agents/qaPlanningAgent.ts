@@ -1,5 +1,6 @@
 import { Agent } from "@mastra/core/agent";
-import { getModel } from "./model";
+import { AI_MODEL_TARGET } from "@/domain/system-setting";
+import { getModelFor } from "./model";
 import { getQaPlanningPrompt } from "./prompts";
 
 /**
@@ -9,5 +10,5 @@ import { getQaPlanningPrompt } from "./prompts";
 export const qaPlanningAgent = new Agent({
   name: "qaPlanningAgent",
   instructions: getQaPlanningPrompt,
-  model: getModel,
+  model: getModelFor(AI_MODEL_TARGET.QA_PLANNING),
 });
@@ -1,5 +1,6 @@
 import { Agent } from "@mastra/core/agent";
-import { getModel } from "./model";
+import { AI_MODEL_TARGET } from "@/domain/system-setting";
+import { getModelFor } from "./model";
 import { getQaResearchPrompt } from "./prompts";
 
 /**
@@ -9,5 +10,5 @@ import { getQaResearchPrompt } from "./prompts";
 export const qaResearchAgent = new Agent({
   name: "qaResearchAgent",
   instructions: getQaResearchPrompt,
-  model: getModel,
+  model: getModelFor(AI_MODEL_TARGET.QA_RESEARCH),
 });
@@ -1,26 +1,17 @@
 import { Agent } from "@mastra/core/agent";
 import { z } from "zod";
 import { getReviewExecutionPrompt } from "./prompts";
-import { getModel } from "./model";
+import { AI_MODEL_TARGET } from "@/domain/system-setting";
+import { getModelFor } from "./model";
+import { reviewSectionsSchema } from "./types";
 
 /**
  * レビュー実行エージェントの単一結果スキーマ
  */
 export const reviewResultItemSchema = z.object({
   checklistId: z.string().describe("チェック項目のID"),
-  // CoTのようにAIにどのファイルのどのセクションをレビューするべきかを考えさせるための隠しフィールド
-  reviewSections: z
-    .array(
-      z.object({
-        fileName: z.string().describe("file name to review"),
-        sectionNames: z.array(
-          z.string().describe("section name within the file"),
-        ),
-      }),
-    )
-    .describe(
-      "files and sections that should be reviewed for evaluation and commenting",
-    ),
+  // CoTのようにAIにどのファイルのどのセクションをレビューするべきかを考えさせ、根拠として保存するフィールド
+  reviewSections: reviewSectionsSchema,
   comment: z.string().describe("evaluation comment"),
   evaluation: z.string().describe("evaluation label"),
 });
@@ -40,5 +31,5 @@ export type ReviewExecuteOutput = z.infer<typeof reviewExecuteOutputSchema>;
 export const reviewExecuteAgent = new Agent({
   name: "review-execute-agent",
   instructions: getReviewExecutionPrompt,
-  model: getModel,
+  model: getModelFor(AI_MODEL_TARGET.REVIEW_EXECUTE),
 });
@@ -1,5 +1,6 @@
 import { Agent } from "@mastra/core/agent";
-import { getModel } from "./model";
+import { AI_MODEL_TARGET } from "@/domain/system-setting";
+import { getModelFor } from "./model";
 import { z } from "zod";
 import { getTopicChecklistCreationPrompt } from "./prompts";
 
@@ -20,5 +21,5 @@ export type TopicChecklistOutput = z.infer<typeof topicChecklistOutputSchema>;
 export const topicChecklistAgent = new Agent({
   name: "topic-checklist-agent",
   instructions: getTopicChecklistCreationPrompt,
-  model: getModel,
+  model: getModelFor(AI_MODEL_TARGET.TOPIC_CHECKLIST),
 });
@@ -1,7 +1,8 @@
 import { Agent } from "@mastra/core/agent";
 import { z } from "zod";
 import { getTopicExtractionPrompt } from "./prompts";
-import { getModel } from "./model";
+import { AI_MODEL_TARGET } from "@/domain/system-setting";
+import { getModelFor } from "./model";
 
 /**
  * トピック抽出エージェントの出力スキーマ
@@ -28,5 +29,5 @@ export type TopicExtractionOutput = z.infer<typeof topicExtractionOutputSchema>;
 export const topicExtractionAgent = new Agent({
   name: "topic-extraction-agent",
   instructions: getTopicExtractionPrompt,
-  model: getModel,
+  model: getModelFor(AI_MODEL_TARGET.TOPIC_EXTRACTION),
 });
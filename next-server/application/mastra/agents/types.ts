@@ -1,6 +1,7 @@
 // Mastra AgentにてAIモデルを動的に作成するためのRuntimeContext
 // runtimeContextはmodel, tools, promptの設定やworkflowで活用可能
 // https://mastra.ai/ja/docs/agents/dynamic-agents
+import { z } from "zod";
 import type { BaseRuntimeContext } from "../types";
 
 // 再エクスポート（エージェント固有の型と共に使用可能にする）
@@ -43,11 +44,23 @@ export interface EvaluationCriterionItem {
   description: string;
 }
 
+/**
+ * レビュー対象のチェック項目の定義
+ * カテゴリ・重要度・ガイダンスはチェックリストで設定されている場合のみ含まれる
+ */
+export interface ReviewChecklistItem {
+  id: string;
+  content: string;
+  category?: string | null;
+  severity?: "high" | "medium" | "low";
+  guidance?: string | null;
+}
+
 /**
  * レビュー実行エージェントのRuntimeContext型定義
  */
 export type ReviewExecuteAgentRuntimeContext = BaseRuntimeContext & {
-  checklistItems: { id: string; content: string }[];
+  checklistItems: ReviewChecklistItem[];
   additionalInstructions?: string;
   commentFormat?: string;
   evaluationCriteria?: EvaluationCriterionItem[];
@@ -68,7 +81,7 @@ export type ChecklistCategoryAgentRuntimeContext = BaseRuntimeContext & {
  * 大量レビュー時に各ドキュメント（またはドキュメントの一部）をレビューする
  */
 export type IndividualDocumentReviewAgentRuntimeContext = BaseRuntimeContext & {
-  checklistItems: { id: string; content: string }[];
+  checklistItems: ReviewChecklistItem[];
   additionalInstructions?: string;
   commentFormat?: string;
   [key: string]: unknown;
@@ -79,7 +92,7 @@ export type IndividualDocumentReviewAgentRuntimeContext = BaseRuntimeContext & {
  * 個別ドキュメントレビューの結果を統合して最終評価を生成する
  */
 export type ConsolidateReviewAgentRuntimeContext = BaseRuntimeContext & {
-  checklistItems: { id: string; content: string }[];
+  checklistItems: ReviewChecklistItem[];
   additionalInstructions?: string;
   commentFormat?: string;
   evaluationCriteria?: EvaluationCriterionItem[];
@@ -94,6 +107,8 @@ export type ConsolidateReviewAgentRuntimeContext = BaseRuntimeContext & {
 export type QaPlanningAgentRuntimeContext = BaseRuntimeContext & {
   availableDocuments: { id: string; fileName: string }[];
   checklistInfo: string;
+  /** スレッド内の過去の質問と回答（追加の質問でない場合は空文字） */
+  conversationHistory?: string;
   reviewMode: "large" | "small";
   [key: string]: unknown;
 };
@@ -119,6 +134,45 @@ export type QaResearchAgentRuntimeContext = BaseRuntimeContext & {
 export type QaAnswerAgentRuntimeContext = BaseRuntimeContext & {
   userQuestion: string;
   checklistInfo: string;
+  /** スレッド内の過去の質問と回答（追加の質問でない場合は空文字） */
+  conversationHistory?: string;
   reviewMode: "large" | "small";
   [key: string]: unknown;
 };
+
+/**
+ * レビュー根拠セクションのスキーマ
+ * AIにどのファイルのどのセクションをレビューするべきかを考えさせる（CoT）とともに、
+ * レビュー結果の根拠として保存する
+ * ページ番号・行範囲はドキュメント上にページ区切りや行番号が示されている場合のみ出力させる
+ */
+export const reviewSectionSchema = z.object({
+  fileName: z.string().describe("file name to review"),
+  sectionNames: z.array(z.string().describe("section name within the file")),
+  pageNumbers: z
+    .array(z.number().int().describe("page number"))
+    .describe(
+      "page numbers where the sections appear (only when page markers are shown in the document, otherwise empty)",
+    ),
+  lineRanges: z
+    .array(
+      z.object({
+        start: z.number().int().describe("first line number"),
+        end: z.number().int().describe("last line number"),
+      }),
+    )
+    .describe(
+      "line ranges of the sections (only when line numbers are shown in the document, otherwise empty)",
+    ),
+});
+
+/**
+ * レビュー根拠セクション配列のスキーマ
+ */
+export const reviewSectionsSchema = z
+  .array(reviewSectionSchema)
+  .describe(
+    "files and sections that should be reviewed for evaluation and commenting",
+  );
+
+export type ReviewSection = z.infer<typeof reviewSectionSchema>;
@@ -62,6 +62,11 @@ export type {
   ChecklistGenerationWorkflowRuntimeContext,
 } from "./workflows/checklistGeneration";
 
+export {
+  PLUGIN_HOOK_RUNNER_CONTEXT_KEY,
+  DOCUMENT_INDEX_CONTEXT_KEY,
+} from "./workflows/shared";
+
 export { reviewExecutionWorkflow } from "./workflows/reviewExecution";
 export type {
   ReviewExecutionOutput,
@@ -70,6 +75,7 @@ export type {
   EvaluationCriterion,
   ReviewSettingsInput,
   SingleReviewResult,
+  ReviewEvidenceItem,
   ReviewExecutionWorkflowRuntimeContext,
   ReviewType,
   CachedDocument,
@@ -90,6 +96,18 @@ export type {
 
 export { checkWorkflowResult, checkStatuses } from "./lib/workflowUtils";
 
+export {
+  AI_API_RETRY_CONTEXT_KEY,
+  getAiApiRetryMaxAttempts,
+} from "./lib/aiApiRetry";
+export type { AiApiRetryContext, AiApiRetryEvent } from "./lib/aiApiRetry";
+
+export {
+  AI_TOKEN_USAGE_CONTEXT_KEY,
+  AiTokenUsageCollector,
+} from "./lib/aiTokenUsage";
+export type { AiTokenUsageTotals } from "./lib/aiTokenUsage";
+
 export { qaExecutionWorkflow } from "./workflows/qaExecution";
 export type {
   QaExecutionWorkflowInput,
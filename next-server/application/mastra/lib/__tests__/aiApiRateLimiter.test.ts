@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { RuntimeContext } from "@mastra/core/di";
+import {
+  AiApiRateLimiter,
+  acquireAiApiRateLimit,
+  recordAiApiTokenUsage,
+} from "../aiApiRateLimiter";
+import { AI_MODEL_TARGET, AI_PROVIDER_TYPE } from "@/domain/system-setting";
+
+vi.mock("@/lib/server/logger", () => ({
+  getLogger: vi.fn().mockReturnValue({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+describe("aiApiRateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
+    AiApiRateLimiter.resetInstance();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("AiApiRateLimiter", () => {
+    it("リクエスト数の上限までは待機せずに取得できる", async () => {
+      const limiter = new AiApiRateLimiter();
+      const rateLimit = { requestsPerMinute: 2, tokensPerMinute: null };
+
+      await limiter.acquire("hash", rateLimit);
+      await limiter.acquire("hash", rateLimit);
+
+      let acquired = false;
+      const promise = limiter.acquire("hash", rateLimit).then(() => {
+        acquired = true;
+      });
+
+      // 2リクエスト/分 = 30秒で1リクエスト分補充
+      await vi.advanceTimersByTimeAsync(29_999);
+      expect(acquired).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await promise;
+      expect(acquired).toBe(true);
+    });
+
+    it("APIキーハッシュごとに独立して制限する", async () => {
+      const limiter = new AiApiRateLimiter();
+      const rateLimit = { requestsPerMinute: 1, tokensPerMinute: null };
+
+      await limiter.acquire("hash-a", rateLimit);
+      // 別のAPIキーは待機しない
+      await limiter.acquire("hash-b", rateLimit);
+    });
+
+    it("使用トークン数が上限を超えた場合は補充されるまで待機する", async () => {
+      const limiter = new AiApiRateLimiter();
+      const rateLimit = { requestsPerMinute: null, tokensPerMinute: 1000 };
+
+      await limiter.acquire("hash", rateLimit);
+      limiter.recordTokenUsage("hash", 1500);
+
+      let acquired = false;
+      const promise = limiter.acquire("hash", rateLimit).then(() => {
+        acquired = true;
+      });
+
+      // 残量-500から1トークン分まで補充されるのに30.06秒
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(acquired).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(60);
+      await promise;
+      expect(acquired).toBe(true);
+    });
+
+    it("中断された場合は待機を打ち切る", async () => {
+      const limiter = new AiApiRateLimiter();
+      const rateLimit = { requestsPerMinute: 1, tokensPerMinute: null };
+      const controller = new AbortController();
+
+      await limiter.acquire("hash", rateLimit);
+      const promise = limiter.acquire("hash", rateLimit, controller.signal);
+      const assertion = expect(promise).rejects.toBe("cancelled");
+      controller.abort("cancelled");
+
+      await assertion;
+    });
+  });
+
+  describe("acquireAiApiRateLimit / recordAiApiTokenUsage", () => {
+    const createRuntimeContext = (rateLimit?: {
+      requestsPerMinute: number | null;
+      tokensPerMinute: number | null;
+    }) => {
+      const runtimeContext = new RuntimeContext();
+      runtimeContext.set("aiApiKey", "test-api-key");
+      if (rateLimit) {
+        runtimeContext.set("aiApiRateLimit", rateLimit);
+      }
+      return runtimeContext;
+    };
+
+    it("RuntimeContextのAPIキーとレート制限で共有のリミッターを使用する", async () => {
+      const runtimeContext = createRuntimeContext({
+        requestsPerMinute: null,
+        tokensPerMinute: 100,
+      });
+
+      await acquireAiApiRateLimit(runtimeContext);
+      recordAiApiTokenUsage(runtimeContext, { usage: { totalTokens: 200 } });
+
+      let acquired = false;
+      const promise = acquireAiApiRateLimit(runtimeContext).then(() => {
+        acquired = true;
+      });
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(acquired).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(60_000);
+      await promise;
+      expect(acquired).toBe(true);
+    });
+
+    it("エージェントに接続先が割り当てられている場合は接続先のAPIキーで制限する", async () => {
+      const runtimeContext = createRuntimeContext({
+        requestsPerMinute: 1,
+        tokensPerMinute: null,
+      });
+      runtimeContext.set("aiModelEndpoints", {
+        [AI_MODEL_TARGET.CONSOLIDATE_REVIEW]: {
+          providerType: AI_PROVIDER_TYPE.OPENAI_COMPATIBLE,
+          apiKey: "consolidate-api-key",
+          apiUrl: "https://consolidate.example.com",
+          apiModel: "consolidate-model",
+          apiVersion: null,
+        },
+      });
+
+      // 既定のAPIキーと接続先のAPIキーは別のバケット
+      await acquireAiApiRateLimit(runtimeContext);
+      await acquireAiApiRateLimit(runtimeContext, undefined, {
+        modelTarget: AI_MODEL_TARGET.CONSOLIDATE_REVIEW,
+      });
+      // 割り当てのないエージェントは既定のAPIキーのバケットを使用する
+      let defaultAcquired = false;
+      const defaultPromise = acquireAiApiRateLimit(runtimeContext, undefined, {
+        modelTarget: AI_MODEL_TARGET.REVIEW_EXECUTE,
+      }).then(() => {
+        defaultAcquired = true;
+      });
+      let endpointAcquired = false;
+      const endpointPromise = acquireAiApiRateLimit(runtimeContext, undefined, {
+        modelTarget: AI_MODEL_TARGET.CONSOLIDATE_REVIEW,
+      }).then(() => {
+        endpointAcquired = true;
+      });
+
+      await vi.advanceTimersByTimeAsync(59_999);
+      expect(defaultAcquired).toBe(false);
+      expect(endpointAcquired).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await Promise.all([defaultPromise, endpointPromise]);
+    });
+
+    it("APIキーが指定された場合はそのAPIキーで制限する", async () => {
+      const runtimeContext = createRuntimeContext({
+        requestsPerMinute: 1,
+        tokensPerMinute: null,
+      });
+
+      await acquireAiApiRateLimit(runtimeContext);
+      // 既定のAPIキーとは別のバケット
+      await acquireAiApiRateLimit(runtimeContext, undefined, {
+        apiKey: "embedding-api-key",
+      });
+      // 既定のAPIキーと同じ場合は同じバケット
+      let acquired = false;
+      const promise = acquireAiApiRateLimit(runtimeContext, undefined, {
+        apiKey: "test-api-key",
+      }).then(() => {
+        acquired = true;
+      });
+      await vi.advanceTimersByTimeAsync(59_999);
+      expect(acquired).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await promise;
+      // APIキーがnullの場合は制限しない
+      for (let i = 0; i < 3; i++) {
+        await acquireAiApiRateLimit(runtimeContext, undefined, {
+          apiKey: null,
+        });
+      }
+    });
+
+    it("レート制限が未設定の場合は制限しない", async () => {
+      const runtimeContext = createRuntimeContext();
+
+      for (let i = 0; i < 10; i++) {
+        await acquireAiApiRateLimit(runtimeContext);
+      }
+      await acquireAiApiRateLimit(undefined);
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { APICallError, RetryError } from "ai";
+import { RuntimeContext } from "@mastra/core/di";
+import {
+  AI_API_RETRY_CONTEXT_KEY,
+  calculateBackoffDelayMs,
+  getRetryAfterMs,
+  isTransientAiApiError,
+  withAiApiRetry,
+  type AiApiRetryContext,
+} from "../aiApiRetry";
+
+vi.mock("@/lib/server/logger", () => ({
+  getLogger: vi.fn().mockReturnValue({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+/**
+ * テスト用のAPI呼び出しエラーを作成する
+ */
+const createApiCallError = (
+  statusCode: number | undefined,
+  responseHeaders?: Record<string, string>,
+) =>
+  new APICallError({
+    message: `status ${statusCode}`,
+    url: "http://test-api-url",
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders,
+  });
+
+describe("aiApiRetry", () => {
+  describe("isTransientAiApiError", () => {
+    it("429・408・5xxはリトライ対象", () => {
+      expect(isTransientAiApiError(createApiCallError(429))).toBe(true);
+      expect(isTransientAiApiError(createApiCallError(408))).toBe(true);
+      expect(isTransientAiApiError(createApiCallError(500))).toBe(true);
+      expect(isTransientAiApiError(createApiCallError(503))).toBe(true);
+    });
+
+    it("400・401などのクライアントエラーはリトライ対象外", () => {
+      expect(isTransientAiApiError(createApiCallError(400))).toBe(false);
+      expect(isTransientAiApiError(createApiCallError(401))).toBe(false);
+    });
+
+    it("ラップされたエラーの原因からAPI呼び出しエラーを判定する", () => {
+      const wrapped = new Error("mastra error", {
+        cause: createApiCallError(429),
+      });
+      expect(isTransientAiApiError(wrapped)).toBe(true);
+
+      const retryError = new RetryError({
+        message: "retry failed",
+        reason: "maxRetriesExceeded",
+        errors: [createApiCallError(400), createApiCallError(502)],
+      });
+      expect(isTransientAiApiError(retryError)).toBe(true);
+    });
+
+    it("タイムアウト・接続断はリトライ対象", () => {
+      const timeout = new Error("timeout");
+      timeout.name = "TimeoutError";
+      expect(isTransientAiApiError(timeout)).toBe(true);
+
+      const reset = Object.assign(new Error("socket hang up"), {
+        code: "ECONNRESET",
+      });
+      expect(
+        isTransientAiApiError(new Error("fetch failed", { cause: reset })),
+      ).toBe(true);
+    });
+
+    it("通常のエラーはリトライ対象外", () => {
+      expect(isTransientAiApiError(new Error("invalid output"))).toBe(false);
+    });
+  });
+
+  describe("getRetryAfterMs", () => {
+    it("秒数形式のRetry-Afterをミリ秒に変換する", () => {
+      const error = createApiCallError(429, { "Retry-After": "5" });
+      expect(getRetryAfterMs(error)).toBe(5000);
+    });
+
+    it("HTTP日付形式のRetry-Afterから待機時間を計算する", () => {
+      const now = new Date("2024-01-01T00:00:00.000Z");
+      const error = createApiCallError(503, {
+        "retry-after": "Mon, 01 Jan 2024 00:00:10 GMT",
+      });
+      expect(getRetryAfterMs(error, now)).toBe(10000);
+    });
+
+    it("retry-after-msを優先する", () => {
+      const error = createApiCallError(429, {
+        "retry-after-ms": "1500",
+        "retry-after": "5",
+      });
+      expect(getRetryAfterMs(error)).toBe(1500);
+    });
+
+    it("ヘッダーが無い場合はnullを返す", () => {
+      expect(getRetryAfterMs(createApiCallError(429))).toBeNull();
+      expect(getRetryAfterMs(new Error("other"))).toBeNull();
+    });
+  });
+
+  describe("calculateBackoffDelayMs", () => {
+    it("試行回数に応じて指数的に増加し、上限で切り詰める", () => {
+      const random = () => 0.999999;
+      expect(calculateBackoffDelayMs(1, 1000, 60000, random)).toBe(999);
+      expect(calculateBackoffDelayMs(3, 1000, 60000, random)).toBe(3999);
+      expect(calculateBackoffDelayMs(10, 1000, 5000, random)).toBe(4999);
+    });
+
+    it("ジッターにより0から上限までの値になる", () => {
+      expect(calculateBackoffDelayMs(3, 1000, 60000, () => 0)).toBe(0);
+      expect(calculateBackoffDelayMs(3, 1000, 60000, () => 0.5)).toBe(2000);
+    });
+  });
+
+  describe("withAiApiRetry", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      delete process.env.AI_API_RETRY_MAX_ATTEMPTS;
+    });
+
+    it("一時的なエラーの場合はリトライして成功結果を返す", async () => {
+      const operation = vi
+        .fn()
+        .mockRejectedValueOnce(createApiCallError(503))
+        .mockResolvedValueOnce("ok");
+
+      const promise = withAiApiRetry(operation);
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toBe("ok");
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it("リトライ対象外のエラーは即座に失敗する", async () => {
+      const error = createApiCallError(400);
+      const operation = vi.fn().mockRejectedValue(error);
+
+      await expect(withAiApiRetry(operation)).rejects.toBe(error);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it("最大試行回数に達した場合は最後のエラーをスローする", async () => {
+      process.env.AI_API_RETRY_MAX_ATTEMPTS = "2";
+      const error = createApiCallError(429);
+      const operation = vi.fn().mockRejectedValue(error);
+
+      const promise = withAiApiRetry(operation);
+      const assertion = expect(promise).rejects.toBe(error);
+      await vi.runAllTimersAsync();
+
+      await assertion;
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it("Retry-Afterの時間だけ待機してからリトライする", async () => {
+      const operation = vi
+        .fn()
+        .mockRejectedValueOnce(createApiCallError(429, { "retry-after": "3" }))
+        .mockResolvedValueOnce("ok");
+
+      const promise = withAiApiRetry(operation);
+      await vi.advanceTimersByTimeAsync(2999);
+      expect(operation).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(promise).resolves.toBe("ok");
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it("RuntimeContextのリトライ設定の最大試行回数とコールバックを使用する", async () => {
+      const onRetry = vi.fn();
+      const runtimeContext = new RuntimeContext();
+      runtimeContext.set(AI_API_RETRY_CONTEXT_KEY, {
+        maxAttempts: 4,
+        onRetry,
+      } satisfies AiApiRetryContext);
+      const error = createApiCallError(500, { "retry-after": "0" });
+      const operation = vi.fn().mockRejectedValue(error);
+
+      const promise = withAiApiRetry(operation, { runtimeContext });
+      const assertion = expect(promise).rejects.toBe(error);
+      await vi.runAllTimersAsync();
+
+      await assertion;
+      expect(operation).toHaveBeenCalledTimes(4);
+      expect(onRetry).toHaveBeenCalledTimes(3);
+      expect(onRetry).toHaveBeenCalledWith({
+        attempt: 1,
+        maxAttempts: 4,
+        delayMs: 0,
+        statusCode: 500,
+      });
+    });
+
+    it("中断された場合はリトライしない", async () => {
+      const controller = new AbortController();
+      const operation = vi.fn().mockImplementation(async () => {
+        controller.abort();
+        throw createApiCallError(503);
+      });
+
+      await expect(
+        withAiApiRetry(operation, { abortSignal: controller.signal }),
+      ).rejects.toBeInstanceOf(APICallError);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
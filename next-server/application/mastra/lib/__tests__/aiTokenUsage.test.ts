@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { RuntimeContext } from "@mastra/core/di";
+import {
+  AI_TOKEN_USAGE_CONTEXT_KEY,
+  AiTokenUsageCollector,
+  extractAiTokenUsage,
+  recordAiTokenUsage,
+} from "../aiTokenUsage";
+
+describe("aiTokenUsage", () => {
+  describe("extractAiTokenUsage", () => {
+    it("promptTokens/completionTokens形式の使用量を取り出す", () => {
+      const result = extractAiTokenUsage({
+        usage: { promptTokens: 100, completionTokens: 20, totalTokens: 130 },
+      });
+
+      expect(result).toEqual({
+        promptTokens: 100,
+        completionTokens: 20,
+        totalTokens: 130,
+      });
+    });
+
+    it("inputTokens/outputTokens形式の使用量を取り出し、合計がない場合は加算する", () => {
+      const result = extractAiTokenUsage({
+        usage: { inputTokens: 50, outputTokens: 10 },
+      });
+
+      expect(result).toEqual({
+        promptTokens: 50,
+        completionTokens: 10,
+        totalTokens: 60,
+      });
+    });
+
+    it("使用量が含まれない場合はnullを返す", () => {
+      expect(extractAiTokenUsage({ object: {} })).toBeNull();
+      expect(extractAiTokenUsage({ usage: {} })).toBeNull();
+      expect(extractAiTokenUsage(null)).toBeNull();
+    });
+  });
+
+  describe("recordAiTokenUsage", () => {
+    it("RuntimeContextの集計器に使用量を加算する", () => {
+      const collector = new AiTokenUsageCollector();
+      const runtimeContext = new RuntimeContext();
+      runtimeContext.set(AI_TOKEN_USAGE_CONTEXT_KEY, collector);
+
+      recordAiTokenUsage(runtimeContext, {
+        usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120 },
+      });
+      recordAiTokenUsage(runtimeContext, {
+        usage: { inputTokens: 30, outputTokens: 5 },
+      });
+      recordAiTokenUsage(runtimeContext, { object: {} });
+
+      expect(collector.getTotals()).toEqual({
+        requestCount: 2,
+        promptTokens: 130,
+        completionTokens: 25,
+        totalTokens: 155,
+      });
+    });
+
+    it("集計器が設定されていない場合は何もしない", () => {
+      expect(() =>
+        recordAiTokenUsage(new RuntimeContext(), {
+          usage: { promptTokens: 1, completionTokens: 1 },
+        }),
+      ).not.toThrow();
+      expect(() =>
+        recordAiTokenUsage(undefined, {
+          usage: { promptTokens: 1, completionTokens: 1 },
+        }),
+      ).not.toThrow();
+    });
+  });
+});
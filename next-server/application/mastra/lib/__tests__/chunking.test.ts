@@ -0,0 +1,176 @@
+import { describe, it, expect } from "vitest";
+import {
+  estimateTokens,
+  resolveChunkingConfig,
+  shrinkChunkingConfig,
+  planTextChunks,
+  planPageChunks,
+  type ChunkingConfig,
+} from "../chunking";
+import { DEFAULT_CHUNKING_SETTINGS } from "@/domain/reviewSpace";
+
+const baseConfig: ChunkingConfig = {
+  strategy: "characters",
+  chunkSize: null,
+  overlap: 0,
+  maxPagesPerChunk: null,
+  pageOverlap: 0,
+};
+
+describe("estimateTokens", () => {
+  it("ASCII文字は4文字で1トークン、それ以外は1文字で1トークンとして見積もる", () => {
+    expect(estimateTokens("abcdefgh")).toBe(2);
+    expect(estimateTokens("日本語")).toBe(3);
+    expect(estimateTokens("abc日本")).toBe(3);
+  });
+});
+
+describe("resolveChunkingConfig", () => {
+  it("チャンクサイズが自動の場合はコンテキストウィンドウから算出する", () => {
+    const config = resolveChunkingConfig(DEFAULT_CHUNKING_SETTINGS, {
+      model: "gpt-4o",
+      contextWindowTokens: 128000,
+      maxOutputTokens: 16000,
+    });
+
+    expect(config.chunkSize).toBe(56000);
+    expect(config.overlap).toBe(300);
+  });
+
+  it("コンテキストウィンドウが未登録の場合は事前に分割しない", () => {
+    const config = resolveChunkingConfig(DEFAULT_CHUNKING_SETTINGS, null);
+
+    expect(config.chunkSize).toBeNull();
+  });
+
+  it("チャンクサイズが指定されている場合はその値を使用する", () => {
+    const config = resolveChunkingConfig(
+      { ...DEFAULT_CHUNKING_SETTINGS, strategy: "tokens", chunkSize: 4000 },
+      { model: "gpt-4o", contextWindowTokens: 128000, maxOutputTokens: 0 },
+    );
+
+    expect(config.strategy).toBe("tokens");
+    expect(config.chunkSize).toBe(4000);
+  });
+});
+
+describe("shrinkChunkingConfig", () => {
+  it("チャンクサイズと最大ページ数を除数で縮小し、オーバーラップを丸める", () => {
+    const config = shrinkChunkingConfig(
+      {
+        ...baseConfig,
+        chunkSize: 1000,
+        overlap: 300,
+        maxPagesPerChunk: 10,
+        pageOverlap: 3,
+      },
+      4,
+    );
+
+    expect(config.chunkSize).toBe(250);
+    expect(config.overlap).toBe(124);
+    expect(config.maxPagesPerChunk).toBe(2);
+    expect(config.pageOverlap).toBe(0);
+  });
+});
+
+describe("planTextChunks", () => {
+  it("チャンクサイズが未確定の場合は全体を1チャンクとする", () => {
+    const result = planTextChunks("a".repeat(1000), baseConfig);
+
+    expect(result).toEqual([
+      { start: 0, end: 1000, estimatedTokens: 250, heading: null },
+    ]);
+  });
+
+  it("文字数方式では上限文字数ごとにオーバーラップ付きで分割する", () => {
+    const text = "a".repeat(250);
+    const result = planTextChunks(text, {
+      ...baseConfig,
+      chunkSize: 100,
+      overlap: 10,
+    });
+
+    expect(result.map(({ start, end }) => [start, end])).toEqual([
+      [0, 100],
+      [90, 190],
+      [180, 250],
+    ]);
+  });
+
+  it("上限の後半に改行がある場合は改行の直後で切る", () => {
+    const text = `${"a".repeat(80)}\n${"b".repeat(80)}`;
+    const result = planTextChunks(text, { ...baseConfig, chunkSize: 100 });
+
+    expect(result[0]).toMatchObject({ start: 0, end: 81 });
+    expect(result[1]).toMatchObject({ start: 81, end: 161 });
+  });
+
+  it("推定トークン数方式では文字種に応じて分割位置が変わる", () => {
+    const text = `${"a".repeat(400)}${"あ".repeat(200)}`;
+    const result = planTextChunks(text, {
+      ...baseConfig,
+      strategy: "tokens",
+      chunkSize: 150,
+    });
+
+    // ASCII400文字（100トークン）+ 日本語50文字 で1チャンク目が上限に達する
+    expect(result[0]).toMatchObject({
+      start: 0,
+      end: 450,
+      estimatedTokens: 150,
+    });
+    expect(result.every((chunk) => chunk.estimatedTokens <= 150)).toBe(true);
+    expect(result[result.length - 1].end).toBe(text.length);
+  });
+
+  it("見出し・ページ方式では区切りを上限までまとめて分割する", () => {
+    const section = (title: string) => `# ${title}\n${"あ".repeat(40)}\n`;
+    const text = `${section("A")}${section("B")}${section("C")}--- page 2 ---\n${"い".repeat(40)}\n`;
+    const result = planTextChunks(text, {
+      ...baseConfig,
+      strategy: "structure",
+      chunkSize: 100,
+    });
+
+    expect(result.map((chunk) => chunk.heading)).toEqual(["# A", "# C"]);
+    expect(text.slice(result[1].start, result[1].end)).toContain(
+      "--- page 2 ---",
+    );
+    expect(result[result.length - 1].end).toBe(text.length);
+  });
+
+  it("見出し・ページ方式で1区間が上限を超える場合は区間内を分割する", () => {
+    const text = `# 長い章\n${"あ".repeat(250)}`;
+    const result = planTextChunks(text, {
+      ...baseConfig,
+      strategy: "structure",
+      chunkSize: 100,
+    });
+
+    expect(result.length).toBe(3);
+    expect(result.every((chunk) => chunk.heading === "# 長い章")).toBe(true);
+    expect(result[0].start).toBe(0);
+    expect(result[2].end).toBe(text.length);
+  });
+});
+
+describe("planPageChunks", () => {
+  it("最大ページ数が未設定の場合は全体を1チャンクとする", () => {
+    expect(planPageChunks(30, baseConfig)).toEqual([{ start: 0, end: 30 }]);
+  });
+
+  it("最大ページ数ごとにオーバーラップ付きで分割する", () => {
+    const result = planPageChunks(25, {
+      ...baseConfig,
+      maxPagesPerChunk: 10,
+      pageOverlap: 2,
+    });
+
+    expect(result).toEqual([
+      { start: 0, end: 10 },
+      { start: 8, end: 18 },
+      { start: 16, end: 25 },
+    ]);
+  });
+});
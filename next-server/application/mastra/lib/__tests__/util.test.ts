@@ -4,6 +4,7 @@ import {
   DEFAULT_CHUNK_OVERLAP,
   splitTextByCount,
   splitImagesByCount,
+  splitTextIntoSections,
 } from "../util";
 
 describe("makeChunksByCount", () => {
@@ -131,3 +132,43 @@ describe("splitImagesByCount", () => {
     expect(totalItems).toBeGreaterThan(images.length);
   });
 });
+
+describe("splitTextIntoSections", () => {
+  it("見出し行を境界として分割し、見出しを保持する", () => {
+    const text = "前書き\n# 概要\n本文1\n## 詳細\n本文2";
+
+    const result = splitTextIntoSections(text, 1000);
+
+    expect(result.map((s) => s.heading)).toEqual([null, "# 概要", "## 詳細"]);
+    expect(result[1].content).toBe("# 概要\n本文1\n");
+    expect(result.map((s) => text.slice(s.start, s.end))).toEqual(
+      result.map((s) => s.content),
+    );
+  });
+
+  it("上限を超える区間は段落の区切りで分割する", () => {
+    const text = `# 見出し\n${"a".repeat(30)}\n\n${"b".repeat(30)}\n\n${"c".repeat(30)}`;
+
+    const result = splitTextIntoSections(text, 50);
+
+    expect(result).toHaveLength(3);
+    expect(result.every((s) => s.heading === "# 見出し")).toBe(true);
+    expect(result.every((s) => s.content.length <= 50)).toBe(true);
+    expect(result.map((s) => s.content).join("")).toBe(text);
+  });
+
+  it("段落の区切りがない場合は行、行もない場合は文字数で分割する", () => {
+    const lines = splitTextIntoSections("1234\n5678\n9012", 11);
+    expect(lines.map((s) => s.content)).toEqual(["1234\n5678\n", "9012"]);
+
+    const chars = splitTextIntoSections("a".repeat(25), 10);
+    expect(chars.map((s) => s.content.length)).toEqual([10, 10, 5]);
+  });
+
+  it("空白のみの区間は含めない", () => {
+    expect(splitTextIntoSections("\n\n# 見出し\n", 100)).toEqual([
+      { heading: "# 見出し", content: "# 見出し\n", start: 2, end: 8 },
+    ]);
+    expect(splitTextIntoSections("", 100)).toEqual([]);
+  });
+});
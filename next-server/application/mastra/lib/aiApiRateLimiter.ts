@@ -0,0 +1,289 @@
+import type { RuntimeContext } from "@mastra/core/di";
+import { hashApiKey } from "@/domain/aiTask";
+import type { AiModelEndpoint } from "@/application/shared/lib/resolveAiApiConfig";
+import type { AiApiRateLimitDto, AiModelTarget } from "@/domain/system-setting";
+import { getLogger } from "@/lib/server/logger";
+import { sleep } from "./util";
+
+const logger = getLogger();
+
+/** レート制限の単位時間（1分） */
+const WINDOW_MS = 60_000;
+
+/**
+ * トークンバケット
+ * 1分あたりの上限値を容量とし、単位時間で容量分が連続的に補充される
+ * トークン数の制限では実際の使用量を後から差し引くため、残量が負になることがある
+ */
+class TokenBucket {
+  private available: number;
+  private updatedAt: number;
+
+  constructor(
+    private capacity: number,
+    now: number,
+  ) {
+    this.available = capacity;
+    this.updatedAt = now;
+  }
+
+  /**
+   * 容量を変更する（設定変更時）
+   * 残量は新しい容量を超えないように切り詰める
+   */
+  configure(capacity: number, now: number): void {
+    if (capacity === this.capacity) return;
+    this.refill(now);
+    this.capacity = capacity;
+    this.available = Math.min(this.available, capacity);
+  }
+
+  /**
+   * 指定量を取得できるまでの待機時間（ミリ秒）を計算する
+   */
+  getWaitMs(amount: number, now: number): number {
+    this.refill(now);
+    if (this.available >= amount) return 0;
+    return Math.ceil(((amount - this.available) * WINDOW_MS) / this.capacity);
+  }
+
+  /**
+   * 指定量を消費する
+   */
+  consume(amount: number, now: number): void {
+    this.refill(now);
+    this.available -= amount;
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - this.updatedAt);
+    this.available = Math.min(
+      this.capacity,
+      this.available + (elapsed * this.capacity) / WINDOW_MS,
+    );
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * APIキーごとのバケット
+ */
+interface RateLimitBuckets {
+  requests: TokenBucket | null;
+  tokens: TokenBucket | null;
+}
+
+/**
+ * AI APIレートリミッター
+ *
+ * シングルトンパターンで実装。
+ * - APIキーハッシュごとにリクエスト数・トークン数のトークンバケットを保持
+ * - ワーカープール内の全ワーカーとQ&Aで同じバケットを共有する
+ * - 同じAPIキーで異なる上限が指定された場合は最後に指定された上限を使用する
+ *
+ * バケットはプロセス内のメモリに保持するため、上限はプロセス（インスタンス）単位で適用される。
+ * 複数インスタンス構成ではAPIキー全体の呼び出し量は最大で「上限×インスタンス数」となる。
+ */
+export class AiApiRateLimiter {
+  private static instance: AiApiRateLimiter | null = null;
+
+  private buckets: Map<string, RateLimitBuckets> = new Map();
+
+  // テスト用にコンストラクタを公開
+  constructor() {}
+
+  /**
+   * シングルトンインスタンスを取得する
+   */
+  static getInstance(): AiApiRateLimiter {
+    if (!AiApiRateLimiter.instance) {
+      AiApiRateLimiter.instance = new AiApiRateLimiter();
+    }
+    return AiApiRateLimiter.instance;
+  }
+
+  /**
+   * シングルトンインスタンスをリセットする（テスト用）
+   */
+  static resetInstance(): void {
+    AiApiRateLimiter.instance = null;
+  }
+
+  /**
+   * AI APIの呼び出し枠を取得する
+   * 上限に達している場合は枠が空くまで待機する
+   *
+   * @param apiKeyHash APIキーハッシュ
+   * @param rateLimit レート制限
+   * @param abortSignal 中断シグナル（中断時は待機を打ち切る）
+   */
+  async acquire(
+    apiKeyHash: string,
+    rateLimit: AiApiRateLimitDto,
+    abortSignal?: AbortSignal,
+  ): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      const buckets = this.getBuckets(apiKeyHash, rateLimit, now);
+      const waitMs = Math.max(
+        buckets.requests?.getWaitMs(1, now) ?? 0,
+        // トークン数は使用量が事後にしか分からないため、残量がある間は許可する
+        buckets.tokens?.getWaitMs(1, now) ?? 0,
+      );
+
+      if (waitMs === 0) {
+        buckets.requests?.consume(1, now);
+        return;
+      }
+
+      logger.debug(
+        { apiKeyHash, waitMs },
+        "AI APIのレート制限に達したため待機します",
+      );
+      await sleep(waitMs, abortSignal);
+    }
+  }
+
+  /**
+   * 使用したトークン数を記録する
+   *
+   * @param apiKeyHash APIキーハッシュ
+   * @param tokens 使用したトークン数
+   */
+  recordTokenUsage(apiKeyHash: string, tokens: number): void {
+    if (tokens <= 0) return;
+    this.buckets.get(apiKeyHash)?.tokens?.consume(tokens, Date.now());
+  }
+
+  /**
+   * APIキーハッシュのバケットを取得する（存在しない場合は作成）
+   */
+  private getBuckets(
+    apiKeyHash: string,
+    rateLimit: AiApiRateLimitDto,
+    now: number,
+  ): RateLimitBuckets {
+    const current = this.buckets.get(apiKeyHash) ?? {
+      requests: null,
+      tokens: null,
+    };
+    const buckets: RateLimitBuckets = {
+      requests: this.configureBucket(
+        current.requests,
+        rateLimit.requestsPerMinute,
+        now,
+      ),
+      tokens: this.configureBucket(
+        current.tokens,
+        rateLimit.tokensPerMinute,
+        now,
+      ),
+    };
+    this.buckets.set(apiKeyHash, buckets);
+    return buckets;
+  }
+
+  private configureBucket(
+    bucket: TokenBucket | null,
+    capacity: number | null,
+    now: number,
+  ): TokenBucket | null {
+    if (capacity === null) return null;
+    if (!bucket) return new TokenBucket(capacity, now);
+    bucket.configure(capacity, now);
+    return bucket;
+  }
+}
+
+/**
+ * レート制限を適用するAPIキーの指定
+ */
+export interface AiApiRateLimitScope {
+  /** 呼び出すエージェントのモデル割り当て対象（接続先のAPIキーの特定に使用） */
+  modelTarget?: AiModelTarget;
+  /** 呼び出すAPIのAPIキー（埋め込みAPIなどエージェント以外の呼び出しで指定、modelTargetより優先） */
+  apiKey?: string | null;
+}
+
+/**
+ * RuntimeContextからレート制限の対象を取得する
+ * APIキーが指定されている場合はそのAPIキー、
+ * エージェントに接続先が割り当てられている場合はその接続先のAPIキー、
+ * いずれもない場合は既定のAPIキーを対象とする
+ * APIキーまたはレート制限が未設定の場合はnull（制限なし）
+ */
+function getRateLimitTarget(
+  runtimeContext?: RuntimeContext,
+  scope: AiApiRateLimitScope = {},
+): { apiKeyHash: string; rateLimit: AiApiRateLimitDto } | null {
+  const endpoint = scope.modelTarget
+    ? (
+        runtimeContext?.get("aiModelEndpoints") as
+          | Partial<Record<AiModelTarget, AiModelEndpoint>>
+          | undefined
+      )?.[scope.modelTarget]
+    : undefined;
+  const apiKey =
+    scope.apiKey !== undefined
+      ? scope.apiKey
+      : endpoint
+        ? endpoint.apiKey
+        : (runtimeContext?.get("aiApiKey") as string | undefined);
+  const rateLimit = runtimeContext?.get("aiApiRateLimit") as
+    | AiApiRateLimitDto
+    | undefined;
+  if (
+    !apiKey ||
+    !rateLimit ||
+    (rateLimit.requestsPerMinute === null && rateLimit.tokensPerMinute === null)
+  ) {
+    return null;
+  }
+  return { apiKeyHash: hashApiKey(apiKey), rateLimit };
+}
+
+/**
+ * RuntimeContextのAPIキー・レート制限に従ってAI APIの呼び出し枠を取得する
+ * レビュー・チェックリスト生成・Q&Aの全エージェント呼び出しの前に実行する
+ *
+ * @param runtimeContext ワークフローのRuntimeContext
+ * @param abortSignal 中断シグナル
+ * @param scope レート制限を適用するAPIキーの指定（未指定の場合は既定のAPIキー）
+ */
+export async function acquireAiApiRateLimit(
+  runtimeContext?: RuntimeContext,
+  abortSignal?: AbortSignal,
+  scope?: AiApiRateLimitScope,
+): Promise<void> {
+  const target = getRateLimitTarget(runtimeContext, scope);
+  if (!target) return;
+  await AiApiRateLimiter.getInstance().acquire(
+    target.apiKeyHash,
+    target.rateLimit,
+    abortSignal,
+  );
+}
+
+/**
+ * AI API呼び出しの結果から使用トークン数を記録する
+ *
+ * @param runtimeContext ワークフローのRuntimeContext
+ * @param result エージェント呼び出しの結果（usage.totalTokensを参照）
+ * @param scope レート制限を適用するAPIキーの指定（未指定の場合は既定のAPIキー）
+ */
+export function recordAiApiTokenUsage(
+  runtimeContext: RuntimeContext | undefined,
+  result: unknown,
+  scope?: AiApiRateLimitScope,
+): void {
+  const target = getRateLimitTarget(runtimeContext, scope);
+  if (!target || target.rateLimit.tokensPerMinute === null) return;
+  const totalTokens = (result as { usage?: { totalTokens?: unknown } } | null)
+    ?.usage?.totalTokens;
+  if (typeof totalTokens === "number" && Number.isFinite(totalTokens)) {
+    AiApiRateLimiter.getInstance().recordTokenUsage(
+      target.apiKeyHash,
+      totalTokens,
+    );
+  }
+}
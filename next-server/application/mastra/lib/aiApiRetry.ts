@@ -0,0 +1,298 @@
+import { APICallError, RetryError } from "ai";
+import type { RuntimeContext } from "@mastra/core/di";
+import type { AiModelTarget } from "@/domain/system-setting";
+import { getLogger } from "@/lib/server/logger";
+import {
+  acquireAiApiRateLimit,
+  recordAiApiTokenUsage,
+} from "./aiApiRateLimiter";
+import { recordAiTokenUsage } from "./aiTokenUsage";
+import { sleep } from "./util";
+
+const logger = getLogger();
+
+/**
+ * RuntimeContextのキー定数（AI API呼び出しのリトライ設定）
+ * タスク実行時にAiTaskExecutorが設定する。未設定の場合は環境変数の設定で動作する
+ */
+export const AI_API_RETRY_CONTEXT_KEY = "aiApiRetry";
+
+/**
+ * リトライ発生時に通知される情報
+ */
+export interface AiApiRetryEvent {
+  /** 失敗した試行回数（1始まり） */
+  attempt: number;
+  /** 最大試行回数 */
+  maxAttempts: number;
+  /** 次の試行までの待機時間（ミリ秒） */
+  delayMs: number;
+  /** AI APIのHTTPステータスコード（タイムアウト等で取得できない場合はundefined） */
+  statusCode?: number;
+}
+
+/**
+ * RuntimeContextに格納するリトライ設定
+ */
+export interface AiApiRetryContext {
+  /** 1回のエージェント呼び出しあたりの最大試行回数（未指定の場合は環境変数の設定） */
+  maxAttempts?: number;
+  /** リトライ発生時のコールバック（試行回数の記録に使用） */
+  onRetry?: (event: AiApiRetryEvent) => Promise<void> | void;
+}
+
+/**
+ * withAiApiRetryのオプション
+ */
+export interface AiApiRetryOptions {
+  /** ワークフローのRuntimeContext（リトライ設定の取得元） */
+  runtimeContext?: RuntimeContext;
+  /** 中断シグナル（中断時は待機を打ち切りリトライしない） */
+  abortSignal?: AbortSignal;
+  /** ログ出力用の呼び出し元名 */
+  operationName?: string;
+  /** 呼び出すエージェントのモデル割り当て対象（レート制限を適用するAPIキーの特定に使用） */
+  modelTarget?: AiModelTarget;
+  /** 呼び出すAPIのAPIキー（埋め込みAPIなどエージェント以外の呼び出しでレート制限の単位として指定） */
+  apiKey?: string | null;
+}
+
+/**
+ * AI API呼び出しの最大試行回数を取得
+ * 環境変数AI_API_RETRY_MAX_ATTEMPTSで設定可能（デフォルト: 3）
+ */
+export function getAiApiRetryMaxAttempts(): number {
+  const value = parseInt(process.env.AI_API_RETRY_MAX_ATTEMPTS ?? "", 10);
+  return Number.isFinite(value) && value >= 1 ? value : 3;
+}
+
+/**
+ * リトライ待機時間の基準値（ミリ秒）を取得
+ * 環境変数AI_API_RETRY_BASE_DELAY_MSで設定可能（デフォルト: 1000）
+ */
+function getBaseDelayMs(): number {
+  const value = parseInt(process.env.AI_API_RETRY_BASE_DELAY_MS ?? "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : 1000;
+}
+
+/**
+ * リトライ待機時間の上限（ミリ秒）を取得
+ * Retry-Afterヘッダーの値もこの上限で切り詰める
+ * 環境変数AI_API_RETRY_MAX_DELAY_MSで設定可能（デフォルト: 60000）
+ */
+function getMaxDelayMs(): number {
+  const value = parseInt(process.env.AI_API_RETRY_MAX_DELAY_MS ?? "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : 60000;
+}
+
+/**
+ * リトライ対象のネットワークエラーコード
+ */
+const RETRYABLE_ERROR_CODES = new Set([
+  "ETIMEDOUT",
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+  "UND_ERR_SOCKET",
+]);
+
+/**
+ * エラーの原因チェーンを辿る際の最大深さ
+ */
+const MAX_CAUSE_DEPTH = 5;
+
+/**
+ * エラーチェーンからAI APIの呼び出しエラーを探す
+ * MastraErrorやRetryErrorでラップされている場合も取り出す
+ */
+function findApiCallError(error: unknown, depth = 0): APICallError | null {
+  if (depth > MAX_CAUSE_DEPTH || !error) return null;
+  if (APICallError.isInstance(error)) return error;
+  if (RetryError.isInstance(error)) {
+    return findApiCallError(error.lastError, depth + 1);
+  }
+  if (error instanceof Error) {
+    return findApiCallError(error.cause, depth + 1);
+  }
+  return null;
+}
+
+/**
+ * エラーチェーンにタイムアウト・接続断が含まれるかを判定する
+ */
+function isTimeoutError(error: unknown, depth = 0): boolean {
+  if (depth > MAX_CAUSE_DEPTH || !(error instanceof Error)) return false;
+  if (error.name === "TimeoutError") return true;
+  const code = (error as { code?: unknown }).code;
+  if (typeof code === "string" && RETRYABLE_ERROR_CODES.has(code)) {
+    return true;
+  }
+  if (RetryError.isInstance(error)) {
+    return isTimeoutError(error.lastError, depth + 1);
+  }
+  return isTimeoutError(error.cause, depth + 1);
+}
+
+/**
+ * 一時的なAI APIエラー（リトライで回復し得るエラー）かどうかを判定する
+ * - 429（レート制限）・408・5xxのHTTPエラー
+ * - タイムアウト・接続断
+ *
+ * @param error 発生したエラー
+ * @returns リトライ対象の場合はtrue
+ */
+export function isTransientAiApiError(error: unknown): boolean {
+  const apiError = findApiCallError(error);
+  if (apiError) {
+    const { statusCode } = apiError;
+    if (statusCode === undefined) {
+      // ステータスコードが無いのは接続自体に失敗した場合
+      return apiError.isRetryable || isTimeoutError(apiError.cause);
+    }
+    return statusCode === 408 || statusCode === 429 || statusCode >= 500;
+  }
+  return isTimeoutError(error);
+}
+
+/**
+ * Retry-Afterヘッダーから待機時間（ミリ秒）を取得する
+ * 秒数・HTTP日付の両形式と、retry-after-msヘッダーに対応する
+ *
+ * @param error 発生したエラー
+ * @param now 現在日時（テスト用）
+ * @returns 待機時間（ヘッダーが無い・解釈できない場合はnull）
+ */
+export function getRetryAfterMs(
+  error: unknown,
+  now: Date = new Date(),
+): number | null {
+  const headers = findApiCallError(error)?.responseHeaders;
+  if (!headers) return null;
+
+  const lowerHeaders = new Map(
+    Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value]),
+  );
+
+  const retryAfterMs = lowerHeaders.get("retry-after-ms");
+  if (retryAfterMs !== undefined) {
+    const ms = Number(retryAfterMs);
+    if (Number.isFinite(ms) && ms >= 0) return ms;
+  }
+
+  const retryAfter = lowerHeaders.get("retry-after");
+  if (retryAfter === undefined) return null;
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(retryAfter);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now.getTime());
+}
+
+/**
+ * 指数バックオフ（フルジッター）による待機時間を計算する
+ *
+ * @param attempt 失敗した試行回数（1始まり）
+ * @param baseDelayMs 待機時間の基準値
+ * @param maxDelayMs 待機時間の上限
+ * @param random 乱数生成関数（テスト用）
+ * @returns 待機時間（ミリ秒）
+ */
+export function calculateBackoffDelayMs(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  random: () => number = Math.random,
+): number {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.floor(random() * exponential);
+}
+
+/**
+ * AI API呼び出しを一時的なエラー時に自動リトライする
+ * レビュー・チェックリスト生成・Q&Aの各ワークフローのエージェント呼び出しで共通に使用する
+ *
+ * - 429/408/5xx・タイムアウトの場合のみリトライする（入力エラー等は即座に失敗）
+ * - Retry-Afterヘッダーがある場合はその時間だけ待機する
+ * - ない場合は指数バックオフ（フルジッター）で待機する
+ * - 最大試行回数はRuntimeContextのリトライ設定（タスク単位）か環境変数で決まる
+ * - 各試行の前にエージェントの接続先のAPIキー単位でレート制限の枠を取得し、成功時は使用トークン数を記録する
+ * - 成功時はタスク単位のトークン使用量（入力・出力）を集計する
+ *
+ * リトライが二重にならないよう、ラップするエージェント呼び出しでは`maxRetries: 0`を指定してAI SDKのリトライを無効にすること。
+ *
+ * @param operation AI API呼び出し
+ * @param options リトライオプション
+ * @returns AI API呼び出しの結果
+ * @throws 最大試行回数に達した場合やリトライ対象外のエラーの場合は最後のエラー
+ */
+export async function withAiApiRetry<T>(
+  operation: () => Promise<T>,
+  options: AiApiRetryOptions = {},
+): Promise<T> {
+  const { runtimeContext, abortSignal, operationName, modelTarget, apiKey } =
+    options;
+  const rateLimitScope = { modelTarget, apiKey };
+  const retryContext = runtimeContext?.get(AI_API_RETRY_CONTEXT_KEY) as
+    | AiApiRetryContext
+    | undefined;
+  const maxAttempts = retryContext?.maxAttempts ?? getAiApiRetryMaxAttempts();
+  const baseDelayMs = getBaseDelayMs();
+  const maxDelayMs = getMaxDelayMs();
+
+  for (let attempt = 1; ; attempt++) {
+    await acquireAiApiRateLimit(runtimeContext, abortSignal, rateLimitScope);
+    try {
+      const result = await operation();
+      recordAiApiTokenUsage(runtimeContext, result, rateLimitScope);
+      recordAiTokenUsage(runtimeContext, result);
+      return result;
+    } catch (error) {
+      if (
+        attempt >= maxAttempts ||
+        abortSignal?.aborted ||
+        !isTransientAiApiError(error)
+      ) {
+        throw error;
+      }
+
+      const retryAfterMs = getRetryAfterMs(error);
+      const delayMs =
+        retryAfterMs !== null
+          ? Math.min(retryAfterMs, maxDelayMs)
+          : calculateBackoffDelayMs(attempt, baseDelayMs, maxDelayMs);
+      const event: AiApiRetryEvent = {
+        attempt,
+        maxAttempts,
+        delayMs,
+        statusCode: findApiCallError(error)?.statusCode,
+      };
+
+      logger.warn(
+        { operationName, ...event },
+        "AI APIの一時的なエラーのため再試行します",
+      );
+
+      if (retryContext?.onRetry) {
+        try {
+          await retryContext.onRetry(event);
+        } catch (callbackError) {
+          // 記録の失敗でリトライを止めない
+          logger.warn(
+            { err: callbackError, operationName },
+            "AI APIリトライ回数の記録に失敗しました",
+          );
+        }
+      }
+
+      await sleep(delayMs, abortSignal);
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import type { RuntimeContext } from "@mastra/core/di";
+
+/**
+ * RuntimeContextのキー定数（AIトークン使用量の集計先）
+ * タスク実行時にAiTaskExecutorが設定する。未設定の場合は集計しない
+ */
+export const AI_TOKEN_USAGE_CONTEXT_KEY = "aiTokenUsage";
+
+/**
+ * AIトークン使用量の集計値
+ */
+export interface AiTokenUsageTotals {
+  /** エージェント呼び出し回数（使用量を取得できた呼び出しのみ） */
+  requestCount: number;
+  /** 入力トークン数 */
+  promptTokens: number;
+  /** 出力トークン数 */
+  completionTokens: number;
+  /** 合計トークン数 */
+  totalTokens: number;
+}
+
+/**
+ * AIトークン使用量の集計器
+ * 1つのタスク内の全エージェント呼び出しの使用量を合算する
+ */
+export class AiTokenUsageCollector {
+  private totals: AiTokenUsageTotals = {
+    requestCount: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+  };
+
+  /**
+   * エージェント呼び出し1回分の使用量を加算する
+   */
+  add(usage: Omit<AiTokenUsageTotals, "requestCount">): void {
+    this.totals = {
+      requestCount: this.totals.requestCount + 1,
+      promptTokens: this.totals.promptTokens + usage.promptTokens,
+      completionTokens: this.totals.completionTokens + usage.completionTokens,
+      totalTokens: this.totals.totalTokens + usage.totalTokens,
+    };
+  }
+
+  /**
+   * 集計値を取得する
+   */
+  getTotals(): AiTokenUsageTotals {
+    return { ...this.totals };
+  }
+}
+
+/**
+ * 数値として有効なトークン数を取得する
+ */
+function toTokenCount(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+    ? value
+    : null;
+}
+
+/**
+ * エージェント呼び出しの結果からトークン使用量を取り出す
+ * generateLegacy（promptTokens/completionTokens）と
+ * generate（inputTokens/outputTokens）の両形式に対応する
+ *
+ * @param result エージェント呼び出しの結果
+ * @returns 使用量（取得できない場合はnull）
+ */
+export function extractAiTokenUsage(
+  result: unknown,
+): Omit<AiTokenUsageTotals, "requestCount"> | null {
+  const usage = (result as { usage?: Record<string, unknown> } | null)?.usage;
+  if (!usage) return null;
+
+  const promptTokens =
+    toTokenCount(usage.promptTokens) ?? toTokenCount(usage.inputTokens);
+  const completionTokens =
+    toTokenCount(usage.completionTokens) ?? toTokenCount(usage.outputTokens);
+  if (promptTokens === null && completionTokens === null) return null;
+
+  return {
+    promptTokens: promptTokens ?? 0,
+    completionTokens: completionTokens ?? 0,
+    totalTokens:
+      toTokenCount(usage.totalTokens) ??
+      (promptTokens ?? 0) + (completionTokens ?? 0),
+  };
+}
+
+/**
+ * AI API呼び出しの結果からトークン使用量をRuntimeContextの集計器に加算する
+ * レビュー・チェックリスト生成・Q&Aの全エージェント呼び出しの成功時に実行する
+ *
+ * @param runtimeContext ワークフローのRuntimeContext
+ * @param result エージェント呼び出しの結果
+ */
+export function recordAiTokenUsage(
+  runtimeContext: RuntimeContext | undefined,
+  result: unknown,
+): void {
+  const collector = runtimeContext?.get(AI_TOKEN_USAGE_CONTEXT_KEY) as
+    | AiTokenUsageCollector
+    | undefined;
+  if (!collector) return;
+  const usage = extractAiTokenUsage(result);
+  if (usage) {
+    collector.add(usage);
+  }
+}
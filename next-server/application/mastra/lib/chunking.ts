@@ -0,0 +1,405 @@
+import { z } from "zod";
+import {
+  CHUNKING_STRATEGY,
+  type ChunkingSettingsDto,
+} from "@/domain/reviewSpace";
+import type { SystemSetting } from "@/domain/system-setting/SystemSetting";
+import type { ModelContextWindowDto } from "@/domain/system-setting/ModelContextWindows";
+import type { AiApiConfig } from "@/application/shared/lib/resolveAiApiConfig";
+
+/**
+ * コンテキストウィンドウのうち、ドキュメント本文に割り当てる割合
+ * 残りはシステムプロンプト・チェック項目・出力のばらつきに確保する
+ */
+const DOCUMENT_BUDGET_RATIO = 0.5;
+
+/**
+ * 確定済みのドキュメント分割設定のスキーマ
+ * レビューのキュー登録時に、レビュー設定とモデルのコンテキストウィンドウから算出する
+ */
+export const chunkingConfigSchema = z.object({
+  /** 分割方式 */
+  strategy: z.enum([
+    CHUNKING_STRATEGY.CHARACTERS,
+    CHUNKING_STRATEGY.TOKENS,
+    CHUNKING_STRATEGY.STRUCTURE,
+  ]),
+  /** 1チャンクあたりの上限（nullの場合は事前に分割せず、コンテキスト長エラー時のみ分割する） */
+  chunkSize: z.number().nullable(),
+  /** チャンク間のオーバーラップ */
+  overlap: z.number(),
+  /** 画像モードの1チャンクあたりの最大ページ数（nullの場合は事前に分割しない） */
+  maxPagesPerChunk: z.number().nullable(),
+  /** 画像モードのチャンク間のオーバーラップページ数 */
+  pageOverlap: z.number(),
+});
+
+export type ChunkingConfig = z.infer<typeof chunkingConfigSchema>;
+
+/**
+ * 分割したテキストチャンクの範囲
+ */
+export interface TextChunkRange {
+  /** 原文での開始位置 */
+  start: number;
+  /** 原文での終了位置（この位置の文字は含まない） */
+  end: number;
+  /** 推定トークン数 */
+  estimatedTokens: number;
+  /** チャンク先頭の見出し・ページ区切り（structure方式のみ） */
+  heading: string | null;
+}
+
+/**
+ * 分割したページチャンクの範囲
+ */
+export interface PageChunkRange {
+  /** 開始ページのインデックス（0始まり） */
+  start: number;
+  /** 終了ページのインデックス（このページは含まない） */
+  end: number;
+}
+
+/**
+ * 見出し・ページ区切りの行
+ * - Markdownの見出し（# 〜 ######）
+ * - PDFのMarkdown抽出のページ区切り（--- page N ---）
+ * - PDFのテキスト抽出のページ区切り（[Page N/M]）
+ */
+const STRUCTURE_BOUNDARY_PATTERN =
+  /^(?:#{1,6}[ \t]+\S.*|--- page \d+ ---|\[Page \d+\/\d+\])[ \t]*$/gm;
+
+/**
+ * 1文字あたりの推定トークン数
+ * ASCII文字は約4文字で1トークン、それ以外（日本語など）は1文字で約1トークンとして見積もる
+ */
+const charTokens = (code: number): number => (code < 0x80 ? 0.25 : 1);
+
+/**
+ * テキストの推定トークン数を算出する
+ * トークナイザーはモデルごとに異なるため、文字種による概算とする
+ *
+ * @param text 対象のテキスト
+ * @returns 推定トークン数
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (let i = 0; i < text.length; i++) {
+    tokens += charTokens(text.charCodeAt(i));
+  }
+  return Math.ceil(tokens);
+}
+
+/**
+ * 個別ドキュメントレビューで使用するモデルのコンテキストウィンドウ設定を取得する
+ *
+ * @param aiApiConfig 確定済みAI API設定
+ * @param systemSetting システム設定（未設定の場合はnull）
+ * @returns コンテキストウィンドウ設定（モデルが登録されていない場合はnull）
+ */
+export function findReviewModelContextWindow(
+  aiApiConfig: AiApiConfig,
+  systemSetting: SystemSetting | null,
+): ModelContextWindowDto | null {
+  const model =
+    aiApiConfig.modelEndpoints?.individualDocumentReview?.apiModel ??
+    aiApiConfig.apiModel;
+  return systemSetting?.modelContextWindows.find(model) ?? null;
+}
+
+/**
+ * レビュー設定の分割設定を確定する
+ * チャンクサイズが自動（null）の場合は、モデルのコンテキストウィンドウから算出する
+ * コンテキストウィンドウが登録されていない場合は事前に分割しない
+ *
+ * @param settings レビュー設定の分割設定
+ * @param contextWindow レビューに使用するモデルのコンテキストウィンドウ設定
+ * @returns 確定済みの分割設定
+ */
+export function resolveChunkingConfig(
+  settings: ChunkingSettingsDto,
+  contextWindow: ModelContextWindowDto | null,
+): ChunkingConfig {
+  // 文字数方式でも、日本語は1文字で約1トークンとなるためトークン数と同じ値を上限とする
+  const chunkSize =
+    settings.chunkSize ??
+    (contextWindow
+      ? Math.floor(
+          (contextWindow.contextWindowTokens - contextWindow.maxOutputTokens) *
+            DOCUMENT_BUDGET_RATIO,
+        )
+      : null);
+
+  return {
+    strategy: settings.strategy,
+    chunkSize,
+    overlap: clampOverlap(settings.overlap, chunkSize),
+    maxPagesPerChunk: settings.maxPagesPerChunk,
+    pageOverlap: clampOverlap(settings.pageOverlap, settings.maxPagesPerChunk),
+  };
+}
+
+/**
+ * 分割が進むように、オーバーラップをチャンクサイズの半分未満に丸める
+ */
+function clampOverlap(overlap: number, size: number | null): number {
+  if (size === null) {
+    return overlap;
+  }
+  return Math.max(0, Math.min(overlap, Math.ceil(size / 2) - 1));
+}
+
+/**
+ * 分割設定のチャンクサイズを縮小する
+ * コンテキスト長エラーで分割リトライする際に使用する
+ *
+ * @param config 確定済みの分割設定
+ * @param divisor 縮小の除数（リトライ回数に応じて増やす）
+ * @returns 縮小後の分割設定
+ */
+export function shrinkChunkingConfig(
+  config: ChunkingConfig,
+  divisor: number,
+): ChunkingConfig {
+  const chunkSize =
+    config.chunkSize === null
+      ? null
+      : Math.max(1, Math.floor(config.chunkSize / divisor));
+  const maxPagesPerChunk =
+    config.maxPagesPerChunk === null
+      ? null
+      : Math.max(1, Math.floor(config.maxPagesPerChunk / divisor));
+  return {
+    ...config,
+    chunkSize,
+    overlap: clampOverlap(config.overlap, chunkSize),
+    maxPagesPerChunk,
+    pageOverlap: clampOverlap(config.pageOverlap, maxPagesPerChunk),
+  };
+}
+
+/**
+ * 推定トークン数の累積和を作成する
+ * prefix[i]は先頭からi文字目の手前までの推定トークン数
+ */
+function buildTokenPrefix(text: string): Float64Array {
+  const prefix = new Float64Array(text.length + 1);
+  for (let i = 0; i < text.length; i++) {
+    prefix[i + 1] = prefix[i] + charTokens(text.charCodeAt(i));
+  }
+  return prefix;
+}
+
+/**
+ * 指定位置から上限に収まる終了位置を二分探索で求める
+ */
+function findEndWithin(
+  prefix: Float64Array,
+  start: number,
+  limit: number,
+  maxEnd: number,
+): number {
+  let low = start + 1;
+  let high = maxEnd;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (prefix[mid] - prefix[start] <= limit) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * 指定範囲を上限ごとに順に切り出す
+ * 可能であれば改行の直後で切り、次のチャンクはオーバーラップ分だけ前から開始する
+ *
+ * @param text 原文
+ * @param weights 範囲の大きさの累積和（文字数方式はnull）
+ * @param rangeStart 開始位置
+ * @param rangeEnd 終了位置
+ * @param limit 1チャンクあたりの上限
+ * @param overlap オーバーラップ
+ */
+function sweep(
+  text: string,
+  weights: Float64Array | null,
+  rangeStart: number,
+  rangeEnd: number,
+  limit: number,
+  overlap: number,
+): Array<{ start: number; end: number }> {
+  const size = (start: number, end: number) =>
+    weights ? weights[end] - weights[start] : end - start;
+  const ranges: Array<{ start: number; end: number }> = [];
+
+  let start = rangeStart;
+  while (start < rangeEnd) {
+    let end = weights
+      ? findEndWithin(weights, start, limit, rangeEnd)
+      : Math.min(rangeEnd, start + limit);
+    if (end < rangeEnd) {
+      // チャンクの後半に改行があれば、その直後で切る
+      const newline = text.lastIndexOf("\n", end - 1);
+      if (newline + 1 > start && size(start, newline + 1) >= limit / 2) {
+        end = newline + 1;
+      }
+    }
+    ranges.push({ start, end });
+    if (end >= rangeEnd) {
+      break;
+    }
+
+    // オーバーラップ分だけ戻った位置から次のチャンクを開始する（チャンクの半分以上は前進させる）
+    const minNext = start + Math.ceil((end - start) / 2);
+    let next = end;
+    while (next > minNext && size(next - 1, end) <= overlap) {
+      next--;
+    }
+    start = next;
+  }
+  return ranges;
+}
+
+/**
+ * 見出し・ページ区切りで区切ったセグメントを作成する
+ */
+function findStructureSegments(
+  text: string,
+): Array<{ heading: string | null; start: number; end: number }> {
+  const boundaries = [...text.matchAll(STRUCTURE_BOUNDARY_PATTERN)];
+  const segments: Array<{
+    heading: string | null;
+    start: number;
+    end: number;
+  }> = [];
+  if (boundaries.length === 0 || boundaries[0].index > 0) {
+    segments.push({
+      heading: null,
+      start: 0,
+      end: boundaries[0]?.index ?? text.length,
+    });
+  }
+  boundaries.forEach((match, i) => {
+    segments.push({
+      heading: match[0].trim(),
+      start: match.index,
+      end: boundaries[i + 1]?.index ?? text.length,
+    });
+  });
+  return segments;
+}
+
+/**
+ * 分割設定に従ってテキストのチャンク範囲を求める
+ * - characters: 文字数の上限ごとに分割する
+ * - tokens: 推定トークン数の上限ごとに分割する
+ * - structure: 見出し・ページ区切りを単位とし、推定トークン数の上限までまとめる
+ *   （上限を超える区間のみ推定トークン数で分割する）
+ * チャンクサイズが未確定（null）または上限以内の場合は全体を1チャンクとする
+ *
+ * @param text 分割対象のテキスト
+ * @param config 確定済みの分割設定
+ * @returns 原文の出現順に並んだチャンク範囲の配列
+ */
+export function planTextChunks(
+  text: string,
+  config: ChunkingConfig,
+): TextChunkRange[] {
+  const limit = config.chunkSize;
+  const useTokens = config.strategy !== CHUNKING_STRATEGY.CHARACTERS;
+  const prefix = buildTokenPrefix(text);
+  const toRange = (
+    start: number,
+    end: number,
+    heading: string | null = null,
+  ): TextChunkRange => ({
+    start,
+    end,
+    estimatedTokens: Math.ceil(prefix[end] - prefix[start]),
+    heading,
+  });
+
+  const totalSize = useTokens ? prefix[text.length] : text.length;
+  if (limit === null || totalSize <= limit) {
+    return [toRange(0, text.length)];
+  }
+
+  if (config.strategy !== CHUNKING_STRATEGY.STRUCTURE) {
+    return sweep(
+      text,
+      useTokens ? prefix : null,
+      0,
+      text.length,
+      limit,
+      config.overlap,
+    ).map(({ start, end }) => toRange(start, end));
+  }
+
+  // structure: 区切りを上限までまとめる
+  const ranges: TextChunkRange[] = [];
+  let group: { start: number; end: number; heading: string | null } | null =
+    null;
+  for (const segment of findStructureSegments(text)) {
+    if (group && prefix[segment.end] - prefix[group.start] <= limit) {
+      group.end = segment.end;
+      continue;
+    }
+    if (group) {
+      ranges.push(toRange(group.start, group.end, group.heading));
+      group = null;
+    }
+    if (prefix[segment.end] - prefix[segment.start] <= limit) {
+      group = { ...segment };
+      continue;
+    }
+    // 1区間で上限を超える場合は、推定トークン数で分割する
+    for (const { start, end } of sweep(
+      text,
+      prefix,
+      segment.start,
+      segment.end,
+      limit,
+      0,
+    )) {
+      ranges.push(toRange(start, end, segment.heading));
+    }
+  }
+  if (group) {
+    ranges.push(toRange(group.start, group.end, group.heading));
+  }
+
+  return ranges;
+}
+
+/**
+ * 分割設定に従って画像（ページ）のチャンク範囲を求める
+ * 最大ページ数が未設定（null）または最大ページ数以内の場合は全体を1チャンクとする
+ *
+ * @param pageCount 総ページ数
+ * @param config 確定済みの分割設定
+ * @returns ページ順に並んだチャンク範囲の配列
+ */
+export function planPageChunks(
+  pageCount: number,
+  config: ChunkingConfig,
+): PageChunkRange[] {
+  const limit = config.maxPagesPerChunk;
+  if (limit === null || pageCount <= limit) {
+    return [{ start: 0, end: pageCount }];
+  }
+
+  const ranges: PageChunkRange[] = [];
+  let start = 0;
+  while (start < pageCount) {
+    const end = Math.min(pageCount, start + limit);
+    ranges.push({ start, end });
+    if (end >= pageCount) {
+      break;
+    }
+    start = Math.max(end - config.pageOverlap, start + 1);
+  }
+  return ranges;
+}
@@ -127,3 +127,105 @@ export function splitImagesByCount(
   const ranges = makeChunksByCount(images, splitCount, overlapCount);
   return ranges.map((range) => images.slice(range.start, range.end));
 }
+
+/**
+ * 見出し・段落単位で分割したテキストのセクション
+ */
+export interface TextSection {
+  /** セクションが属する見出し行（見出しより前の本文はnull） */
+  heading: string | null;
+  /** セクションの本文（見出し行を含む） */
+  content: string;
+  /** 原文での開始位置 */
+  start: number;
+  /** 原文での終了位置（この位置の文字は含まない） */
+  end: number;
+}
+
+/**
+ * テキストを文書構造に沿ってセクションに分割する関数
+ * - Markdownの見出し行（# 〜 ######）を境界として分割する
+ * - 上限文字数を超える見出し区間は段落（空行）で、段落も超える場合は行・文字数で分割する
+ * - 空白のみの区間は含めない
+ *
+ * @param text 分割対象のテキスト
+ * @param maxChars 1セクションの上限文字数
+ * @returns 原文の出現順に並んだセクションの配列
+ */
+export function splitTextIntoSections(
+  text: string,
+  maxChars: number,
+): TextSection[] {
+  const sections: TextSection[] = [];
+  const limit = Math.max(1, maxChars);
+
+  const pushSection = (heading: string | null, start: number, end: number) => {
+    const content = text.slice(start, end);
+    if (content.trim()) {
+      sections.push({ heading, content, start, end });
+    }
+  };
+
+  // 見出し行の位置で区間を作成（先頭の見出しより前の本文も1区間とする）
+  const headings = [...text.matchAll(/^#{1,6}[ \t]+\S.*$/gm)];
+  const blocks: Array<{ heading: string | null; start: number; end: number }> =
+    [];
+  if (headings.length === 0 || headings[0].index > 0) {
+    blocks.push({
+      heading: null,
+      start: 0,
+      end: headings[0]?.index ?? text.length,
+    });
+  }
+  headings.forEach((match, i) => {
+    blocks.push({
+      heading: match[0].trim(),
+      start: match.index,
+      end: headings[i + 1]?.index ?? text.length,
+    });
+  });
+
+  for (const block of blocks) {
+    // 段落の区切り位置（空行の直後）
+    const breaks = [
+      ...text.slice(block.start, block.end).matchAll(/\n[ \t]*\n/g),
+    ].map((match) => block.start + match.index + match[0].length);
+
+    let pieceStart = block.start;
+    while (block.end - pieceStart > limit) {
+      const pieceLimit = pieceStart + limit;
+      // 上限以内で最後の段落区切り、なければ最後の改行、それもなければ上限で切る
+      let cut = breaks.filter((p) => p > pieceStart && p <= pieceLimit).pop();
+      if (cut === undefined) {
+        const newline = text.lastIndexOf("\n", pieceLimit - 1);
+        cut = newline > pieceStart ? newline + 1 : pieceLimit;
+      }
+      pushSection(block.heading, pieceStart, cut);
+      pieceStart = cut;
+    }
+    pushSection(block.heading, pieceStart, block.end);
+  }
+
+  return sections;
+}
+
+/**
+ * 中断可能な待機
+ */
+export function sleep(ms: number, abortSignal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (abortSignal?.aborted) {
+      reject(abortSignal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortSignal?.reason);
+    };
+    const timer = setTimeout(() => {
+      abortSignal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    abortSignal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -1,3 +1,14 @@
+import {
+  AI_API_RETRY_CONTEXT_KEY,
+  type AiApiRetryContext,
+} from "./lib/aiApiRetry";
+import {
+  AI_TOKEN_USAGE_CONTEXT_KEY,
+  type AiTokenUsageCollector,
+} from "./lib/aiTokenUsage";
+import type { AiApiRateLimitDto, AiModelTarget } from "@/domain/system-setting";
+import type { AiModelEndpoint } from "@/application/shared/lib/resolveAiApiConfig";
+
 /**
  * Mastra共通のRuntimeContext基底型
  * すべてのワークフロー・エージェントのRuntimeContextはこの型を継承する
@@ -14,4 +25,12 @@ export type BaseRuntimeContext = {
   aiApiModel?: string;
   /** 確定済みAPI URL */
   aiApiUrl?: string;
+  /** 確定済みレート制限（APIキー単位、未設定の場合は制限なし） */
+  aiApiRateLimit?: AiApiRateLimitDto;
+  /** 確定済みのエージェント別モデル接続先（割り当てのないエージェントは既定の設定を使用） */
+  aiModelEndpoints?: Partial<Record<AiModelTarget, AiModelEndpoint>>;
+  /** AI API呼び出しのリトライ設定（タスク実行時のみ設定） */
+  [AI_API_RETRY_CONTEXT_KEY]?: AiApiRetryContext;
+  /** AIトークン使用量の集計器（タスク実行時のみ設定） */
+  [AI_TOKEN_USAGE_CONTEXT_KEY]?: AiTokenUsageCollector;
 };
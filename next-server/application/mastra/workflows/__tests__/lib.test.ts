@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { createCombinedMessage } from "../lib";
+import { createCombinedMessage, formatRetrievedSections } from "../lib";
 import type { ExtractedFile } from "../shared/types";
 
 describe("createCombinedMessage", () => {
@@ -203,6 +203,57 @@ describe("createCombinedMessage", () => {
       });
     });
 
+    it("分割された画像ファイルは元ドキュメントのページ番号で表示される", () => {
+      const files: ExtractedFile[] = [
+        {
+          id: "file-1_part2",
+          name: "multipage.pdf (part 2)",
+          type: "application/pdf",
+          processMode: "image",
+          imageData: ["page4image", "page5image"],
+          pageOffset: 3,
+          totalPages: 5,
+        },
+      ];
+
+      const result = createCombinedMessage(files, "Please analyze");
+
+      expect(result[1]).toEqual({
+        type: "text",
+        text: "# multipage.pdf (part 2): Page 4/5",
+      });
+      expect(result[3]).toEqual({
+        type: "text",
+        text: "# multipage.pdf (part 2): Page 5/5",
+      });
+    });
+
+    it("ページ範囲を指定して変換した画像は元ドキュメントのページ番号で表示される", () => {
+      const files: ExtractedFile[] = [
+        {
+          id: "file-1_part2",
+          name: "report.pdf (part 2)",
+          type: "application/pdf",
+          processMode: "image",
+          imageData: ["page7image", "page9image"],
+          pageNumbers: [2, 3, 7, 9],
+          pageOffset: 2,
+          totalPages: 12,
+        },
+      ];
+
+      const result = createCombinedMessage(files, "Please analyze");
+
+      expect(result[1]).toEqual({
+        type: "text",
+        text: "# report.pdf (part 2): Page 7/12",
+      });
+      expect(result[3]).toEqual({
+        type: "text",
+        text: "# report.pdf (part 2): Page 9/12",
+      });
+    });
+
     it("imageDataが空配列の場合、テキストモードとして処理される", () => {
       const files: ExtractedFile[] = [
         {
@@ -335,3 +386,24 @@ describe("createCombinedMessage", () => {
     });
   });
 });
+
+describe("formatRetrievedSections", () => {
+  it("抜粋であることと各セクションの位置・見出しを付けて整形する", () => {
+    const result = formatRetrievedSections(
+      {
+        sections: [
+          { sectionIndex: 0, heading: null, content: "前書き\n" },
+          { sectionIndex: 4, heading: "## 認証", content: "## 認証\n本文\n" },
+        ],
+        totalSections: 8,
+      },
+      "the research content",
+    );
+
+    expect(result).toBe(
+      "[Excerpt: the 2 of 8 sections of this document most relevant to the research content, in document order. Other sections are omitted.]\n\n" +
+        "--- Section 1/8 ---\n前書き\n\n" +
+        "--- Section 5/8 (## 認証) ---\n## 認証\n本文",
+    );
+  });
+});
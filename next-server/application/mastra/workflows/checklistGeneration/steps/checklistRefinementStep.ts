@@ -8,6 +8,8 @@ import {
 import { baseStepOutputSchema } from "../../schema";
 import type { ChecklistGenerationWorkflowRuntimeContext } from "../types";
 import { createRuntimeContext } from "../../../lib/agentUtils";
+import { withAiApiRetry } from "../../../lib/aiApiRetry";
+import { AI_MODEL_TARGET } from "@/domain/system-setting";
 import { normalizeUnknownError, workflowError } from "@/lib/server/error";
 import type { ChecklistRefinementAgentRuntimeContext } from "../../../agents";
 import { getLogger } from "@/lib/server/logger";
@@ -69,6 +71,8 @@ export const checklistRefinementStep = createStep({
       const aiApiKey = typedWorkflowRuntimeContext?.get("aiApiKey");
       const aiApiUrl = typedWorkflowRuntimeContext?.get("aiApiUrl");
       const aiApiModel = typedWorkflowRuntimeContext?.get("aiApiModel");
+      const aiModelEndpoints =
+        typedWorkflowRuntimeContext?.get("aiModelEndpoints");
 
       // これまでにブラッシュアップしたチェックリスト項目を蓄積する配列
       const accumulated: string[] = [];
@@ -88,6 +92,7 @@ export const checklistRefinementStep = createStep({
             aiApiKey,
             aiApiUrl,
             aiApiModel,
+            aiModelEndpoints,
           });
 
         // userプロンプトに全チェックリスト情報を含める
@@ -103,48 +108,57 @@ Please continue refining the remaining items, avoiding duplicates with already r
     : "Please refine these checklist items according to the guidelines."
 }`;
 
-        const refinementResult = await checklistRefinementAgent.generateLegacy(
-          { role: "user", content: userPrompt },
+        const refinementResult = await withAiApiRetry(
+          () =>
+            checklistRefinementAgent.generateLegacy(
+              { role: "user", content: userPrompt },
+              {
+                output: checklistRefinementOutputSchema,
+                runtimeContext,
+                maxRetries: 0,
+                // AIの限界生成トークン数を超えた場合のエラーを回避するための設定
+                experimental_repairText: async (options) => {
+                  isCompleted = false;
+                  const { text } = options;
+                  let repairedText = text;
+                  let deleteLastItemFlag = false;
+                  try {
+                    const lastChar = text.charAt(text.length - 1);
+                    if (lastChar === '"') {
+                      repairedText = text + "]}";
+                    } else if (lastChar === "]") {
+                      repairedText = text + "}";
+                    } else if (lastChar === ",") {
+                      // 最後のカンマを削除してから ]} を追加
+                      repairedText = text.slice(0, -1) + "]}";
+                    } else {
+                      // その他のケースでは強制的に "]} を追加
+                      repairedText = text + '"]}';
+                      deleteLastItemFlag = true;
+                    }
+                    // JSONに変換してみて、エラーが出ないか確かめる
+                    const parsedJson = JSON.parse(repairedText) as {
+                      refinedChecklists: string[];
+                    };
+                    if (deleteLastItemFlag) {
+                      parsedJson.refinedChecklists.pop(); // 最後の項目を削除
+                    }
+                    repairedText = JSON.stringify(parsedJson);
+                  } catch (error) {
+                    logger.error(
+                      { err: error },
+                      "チェックリストブラッシュアップの修正に失敗しました",
+                    );
+                    throw workflowError("WORKFLOW_CHECKLIST_REFINEMENT_FAILED");
+                  }
+                  return repairedText;
+                },
+              },
+            ),
           {
-            output: checklistRefinementOutputSchema,
-            runtimeContext,
-            // AIの限界生成トークン数を超えた場合のエラーを回避するための設定
-            experimental_repairText: async (options) => {
-              isCompleted = false;
-              const { text } = options;
-              let repairedText = text;
-              let deleteLastItemFlag = false;
-              try {
-                const lastChar = text.charAt(text.length - 1);
-                if (lastChar === '"') {
-                  repairedText = text + "]}";
-                } else if (lastChar === "]") {
-                  repairedText = text + "}";
-                } else if (lastChar === ",") {
-                  // 最後のカンマを削除してから ]} を追加
-                  repairedText = text.slice(0, -1) + "]}";
-                } else {
-                  // その他のケースでは強制的に "]} を追加
-                  repairedText = text + '"]}';
-                  deleteLastItemFlag = true;
-                }
-                // JSONに変換してみて、エラーが出ないか確かめる
-                const parsedJson = JSON.parse(repairedText) as {
-                  refinedChecklists: string[];
-                };
-                if (deleteLastItemFlag) {
-                  parsedJson.refinedChecklists.pop(); // 最後の項目を削除
-                }
-                repairedText = JSON.stringify(parsedJson);
-              } catch (error) {
-                logger.error(
-                  { err: error },
-                  "チェックリストブラッシュアップの修正に失敗しました",
-                );
-                throw workflowError("WORKFLOW_CHECKLIST_REFINEMENT_FAILED");
-              }
-              return repairedText;
-            },
+            runtimeContext: workflowRuntimeContext,
+            operationName: "checklistRefinement",
+            modelTarget: AI_MODEL_TARGET.CHECKLIST_REFINEMENT,
           },
         );
 
@@ -13,6 +13,8 @@ import {
 import { extractedFileSchema } from "../../shared";
 import { createCombinedMessage } from "../../lib";
 import { createRuntimeContext } from "../../../lib/agentUtils";
+import { withAiApiRetry } from "../../../lib/aiApiRetry";
+import { AI_MODEL_TARGET } from "@/domain/system-setting";
 import { normalizeUnknownError } from "@/lib/server/error";
 import type { TopicChecklistAgentRuntimeContext } from "../../../agents";
 
@@ -63,6 +65,8 @@ export const topicChecklistCreationStep = createStep({
       const aiApiKey = typedWorkflowRuntimeContext?.get("aiApiKey");
       const aiApiUrl = typedWorkflowRuntimeContext?.get("aiApiUrl");
       const aiApiModel = typedWorkflowRuntimeContext?.get("aiApiModel");
+      const aiModelEndpoints =
+        typedWorkflowRuntimeContext?.get("aiModelEndpoints");
 
       // エージェント用のRuntimeContextを作成
       const runtimeContext =
@@ -73,6 +77,7 @@ export const topicChecklistCreationStep = createStep({
           aiApiKey,
           aiApiUrl,
           aiApiModel,
+          aiModelEndpoints,
         });
 
       // メッセージコンテンツを作成（ドキュメント + トピック情報）
@@ -82,14 +87,23 @@ export const topicChecklistCreationStep = createStep({
       );
 
       // エージェントを実行（generateLegacyを使用）
-      const result = await topicChecklistAgent.generateLegacy(
+      const result = await withAiApiRetry(
+        () =>
+          topicChecklistAgent.generateLegacy(
+            {
+              role: "user",
+              content: messageContent,
+            },
+            {
+              output: topicChecklistOutputSchema,
+              runtimeContext,
+              maxRetries: 0,
+            },
+          ),
         {
-          role: "user",
-          content: messageContent,
-        },
-        {
-          output: topicChecklistOutputSchema,
-          runtimeContext,
+          runtimeContext: workflowRuntimeContext,
+          operationName: "topicChecklistCreation",
+          modelTarget: AI_MODEL_TARGET.TOPIC_CHECKLIST,
         },
       );
 
@@ -13,6 +13,8 @@ import {
 import { extractedFileSchema } from "../../shared";
 import { createCombinedMessage } from "../../lib";
 import { createRuntimeContext } from "../../../lib/agentUtils";
+import { withAiApiRetry } from "../../../lib/aiApiRetry";
+import { AI_MODEL_TARGET } from "@/domain/system-setting";
 import { normalizeUnknownError } from "@/lib/server/error";
 import type { TopicExtractionAgentRuntimeContext } from "../../../agents";
 
@@ -62,6 +64,8 @@ export const topicExtractionStep = createStep({
       const aiApiKey = typedWorkflowRuntimeContext?.get("aiApiKey");
       const aiApiUrl = typedWorkflowRuntimeContext?.get("aiApiUrl");
       const aiApiModel = typedWorkflowRuntimeContext?.get("aiApiModel");
+      const aiModelEndpoints =
+        typedWorkflowRuntimeContext?.get("aiModelEndpoints");
 
       // エージェント用のRuntimeContextを作成
       const runtimeContext =
@@ -71,6 +75,7 @@ export const topicExtractionStep = createStep({
           aiApiKey,
           aiApiUrl,
           aiApiModel,
+          aiModelEndpoints,
         });
 
       // メッセージコンテンツを作成
@@ -80,14 +85,23 @@ export const topicExtractionStep = createStep({
       );
 
       // エージェントを実行（generateLegacyを使用）
-      const result = await topicExtractionAgent.generateLegacy(
+      const result = await withAiApiRetry(
+        () =>
+          topicExtractionAgent.generateLegacy(
+            {
+              role: "user",
+              content: messageContent,
+            },
+            {
+              output: agentOutputSchema,
+              runtimeContext,
+              maxRetries: 0,
+            },
+          ),
         {
-          role: "user",
-          content: messageContent,
-        },
-        {
-          output: agentOutputSchema,
-          runtimeContext,
+          runtimeContext: workflowRuntimeContext,
+          operationName: "topicExtraction",
+          modelTarget: AI_MODEL_TARGET.TOPIC_EXTRACTION,
         },
       );
 
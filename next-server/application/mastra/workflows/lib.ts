@@ -1,4 +1,5 @@
 import type { ExtractedFile } from "./shared/types";
+import type { DocumentRetrievalResult } from "@/application/shared/port/documentIndex";
 
 /**
  * 複数ファイルを統合したメッセージコンテンツを作成する
@@ -36,9 +37,13 @@ export function createCombinedMessage(
       file.imageData.length > 0
     ) {
       // 各ページごとに個別の説明と画像を追加
-      const totalPages = file.imageData.length;
+      // 分割されたドキュメントやページ範囲を指定して変換したドキュメントの場合も元ドキュメントのページ番号を示す（レビュー根拠のページ番号に使用される）
+      const pageOffset = file.pageOffset ?? 0;
+      const totalPages = file.totalPages ?? file.imageData.length;
       for (let pageIndex = 0; pageIndex < file.imageData.length; pageIndex++) {
-        const currentPage = pageIndex + 1;
+        const currentPage =
+          file.pageNumbers?.[pageOffset + pageIndex] ??
+          pageOffset + pageIndex + 1;
 
         // ページ番号を含むテキスト説明を追加
         content.push({
@@ -64,3 +69,22 @@ export function createCombinedMessage(
 
   return content;
 }
+
+/**
+ * 意味検索で取得したセクションをAIに渡すテキストに整形する
+ * 抜粋であることとドキュメント内の位置が分かるよう、各セクションに番号と見出しを付ける
+ * @param result 関連セクションの検索結果
+ * @param purpose セクションを選んだ基準（例: "the checklist items below"）
+ * @returns 整形したテキスト
+ */
+export function formatRetrievedSections(
+  result: DocumentRetrievalResult,
+  purpose: string,
+): string {
+  const header = `[Excerpt: the ${result.sections.length} of ${result.totalSections} sections of this document most relevant to ${purpose}, in document order. Other sections are omitted.]`;
+  const sections = result.sections.map((section) => {
+    const heading = section.heading ? ` (${section.heading})` : "";
+    return `--- Section ${section.sectionIndex + 1}/${result.totalSections}${heading} ---\n${section.content.trim()}`;
+  });
+  return [header, ...sections].join("\n\n");
+}
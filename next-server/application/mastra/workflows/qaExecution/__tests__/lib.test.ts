@@ -4,8 +4,10 @@ import {
   buildPlanningChecklistInfo,
   buildResearchChecklistInfo,
   buildAnswerChecklistInfo,
+  buildConversationHistoryInfo,
+  MAX_CONVERSATION_TURNS,
 } from "../lib";
-import type { ChecklistResultWithIndividual } from "../types";
+import type { ChecklistResultWithIndividual, ConversationTurn } from "../types";
 // チャンク分割関数は @/application/mastra/lib/util.ts を参照
 // テストは application/mastra/lib/__tests__/util.test.ts に移動
 
@@ -280,3 +282,70 @@ describe("buildAnswerChecklistInfo", () => {
     expect(lines.some((line) => line.includes("項目2"))).toBe(true);
   });
 });
+
+describe("buildConversationHistoryInfo", () => {
+  const createTurn = (index: number): ConversationTurn => ({
+    question: `質問${index}`,
+    answer: `回答${index}`,
+    researchSummary: [],
+  });
+
+  it("会話履歴がない場合は空文字を返す", () => {
+    expect(buildConversationHistoryInfo(undefined)).toBe("");
+    expect(buildConversationHistoryInfo([])).toBe("");
+  });
+
+  it("質問・回答・調査結果を古い順に含める", () => {
+    const result = buildConversationHistoryInfo([
+      {
+        question: "最初の質問",
+        answer: "最初の回答",
+        researchSummary: [
+          {
+            documentName: "設計書.pdf",
+            researchContent: "調査内容",
+            researchResult: "調査結果",
+          },
+        ],
+      },
+      createTurn(2),
+    ]);
+
+    expect(result).toContain("User Question: 最初の質問");
+    expect(result).toContain("Answer: 最初の回答");
+    expect(result).toContain("Document: 設計書.pdf");
+    expect(result).toContain("Result: 調査結果");
+    expect(result.indexOf("最初の質問")).toBeLessThan(result.indexOf("質問2"));
+  });
+
+  it("直近の会話のみを含める", () => {
+    const turns = Array.from({ length: MAX_CONVERSATION_TURNS + 2 }, (_, i) =>
+      createTurn(i + 1),
+    );
+
+    const result = buildConversationHistoryInfo(turns);
+
+    expect(result).not.toContain("User Question: 質問1\n");
+    expect(result).not.toContain("User Question: 質問2\n");
+    expect(result).toContain(`User Question: 質問${turns.length}\n`);
+  });
+
+  it("長い調査結果は切り詰める", () => {
+    const result = buildConversationHistoryInfo([
+      {
+        question: "質問",
+        answer: "回答",
+        researchSummary: [
+          {
+            documentName: "設計書.pdf",
+            researchContent: "調査内容",
+            researchResult: "あ".repeat(5000),
+          },
+        ],
+      },
+    ]);
+
+    expect(result).toContain("...");
+    expect(result.length).toBeLessThan(5000);
+  });
+});
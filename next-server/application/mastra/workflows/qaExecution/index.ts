@@ -13,6 +13,7 @@ export type {
   ResearchTask,
   ResearchResult,
   ChecklistResultWithIndividual,
+  ConversationTurn,
 } from "./types";
 
 export {
@@ -23,6 +24,7 @@ export {
   researchTaskSchema,
   researchResultSchema,
   checklistResultWithIndividualSchema,
+  conversationTurnSchema,
 } from "./types";
 
 // ヘルパー関数
@@ -31,6 +33,8 @@ export {
   buildPlanningChecklistInfo,
   buildResearchChecklistInfo,
   buildAnswerChecklistInfo,
+  buildConversationHistoryInfo,
+  MAX_CONVERSATION_TURNS,
 } from "./lib";
 
 // メインワークフロー
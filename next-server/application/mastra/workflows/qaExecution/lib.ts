@@ -2,7 +2,17 @@
  * Q&A実行ワークフローで利用するヘルパー関数
  */
 
-import type { ChecklistResultWithIndividual, ReviewMode } from "./types";
+import type {
+  ChecklistResultWithIndividual,
+  ConversationTurn,
+  ReviewMode,
+} from "./types";
+
+/** プロンプトに含める会話履歴の最大往復数（直近のものから採用） */
+export const MAX_CONVERSATION_TURNS = 5;
+
+/** 会話履歴に含める調査結果1件あたりの最大文字数 */
+const MAX_CONVERSATION_RESEARCH_RESULT_LENGTH = 1000;
 
 /**
  * レビューモードを判定する
@@ -87,6 +97,40 @@ export function buildAnswerChecklistInfo(
     .join("\n");
 }
 
+/**
+ * 会話履歴の情報を構築する
+ * スレッドへの追加の質問で、それまでの質問・回答・調査結果をプロンプトに含めるために使用
+ * トークン数を抑えるため直近の会話のみを対象とし、調査結果は一定の文字数で切り詰める
+ *
+ * @param conversationHistory 会話履歴（古い順）
+ * @returns 会話履歴のテキスト（会話履歴がない場合は空文字）
+ */
+export function buildConversationHistoryInfo(
+  conversationHistory: ConversationTurn[] | undefined,
+): string {
+  if (!conversationHistory || conversationHistory.length === 0) {
+    return "";
+  }
+
+  return conversationHistory
+    .slice(-MAX_CONVERSATION_TURNS)
+    .map((turn, index) => {
+      let info = `[Turn ${index + 1}]\nUser Question: ${turn.question}\nAnswer: ${turn.answer}\n`;
+      if (turn.researchSummary.length > 0) {
+        info += `Research Findings:\n`;
+        turn.researchSummary.forEach((item) => {
+          const result =
+            item.researchResult.length > MAX_CONVERSATION_RESEARCH_RESULT_LENGTH
+              ? `${item.researchResult.slice(0, MAX_CONVERSATION_RESEARCH_RESULT_LENGTH)}...`
+              : item.researchResult;
+          info += `  - Document: ${item.documentName}\n    Research: ${item.researchContent}\n    Result: ${result}\n`;
+        });
+      }
+      return info;
+    })
+    .join("\n---\n");
+}
+
 // チャンク分割関数は @/application/mastra/lib/util.ts を使用すること
 // - makeChunksByCount
 // - splitTextByCount
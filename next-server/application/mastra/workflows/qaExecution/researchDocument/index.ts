@@ -18,6 +18,9 @@ import {
   splitTextByCount,
   splitImagesByCount,
 } from "@/application/mastra/lib/util";
+import { formatRetrievedSections } from "../../lib";
+import { DOCUMENT_INDEX_CONTEXT_KEY } from "../../shared";
+import type { IDocumentIndex } from "@/application/shared/port/documentIndex";
 import { ReviewDocumentCacheRepository } from "@/infrastructure/adapter/db/drizzle/repository/ReviewDocumentCacheRepository";
 import { ReviewCacheHelper } from "@/lib/server/reviewCacheHelper";
 import { getLogger } from "@/lib/server/logger";
@@ -82,6 +85,7 @@ const chunkResearchInnerWorkflowInputSchema = baseStepOutputSchema.extend({
 /**
  * リトライ付きドキュメント調査ワークフロー
  * コンテキスト長エラー時に自動でチャンク数を増やしてリトライする
+ * 意味検索インデックスがある場合、初回は調査内容に関連するセクションのみを調査する
  */
 export const researchDocumentWithRetryWorkflow = createWorkflow({
   id: "researchDocumentWithRetryWorkflow",
@@ -114,7 +118,7 @@ export const researchDocumentWithRetryWorkflow = createWorkflow({
       inputSchema: chunkResearchInnerWorkflowInputSchema,
       outputSchema: chunkResearchInnerWorkflowInputSchema,
     })
-      .map(async ({ inputData }) => {
+      .map(async ({ inputData, runtimeContext, abortSignal }) => {
         const {
           documentCacheId,
           researchContent,
@@ -122,6 +126,7 @@ export const researchDocumentWithRetryWorkflow = createWorkflow({
           totalChunks,
           question,
           checklistResults,
+          retryCount,
         } = inputData;
 
         // ドキュメントキャッシュを取得
@@ -150,21 +155,60 @@ export const researchDocumentWithRetryWorkflow = createWorkflow({
           }
         }
 
-        // ドキュメントをtotalChunks分に分割
+        // 調査するチャンク
         const chunks: Array<{ text?: string; images?: string[] }> = [];
 
-        if (documentCache.processMode === "text" && textContent) {
-          // テキストをチャンク分割
-          const textChunks = splitTextByCount(textContent, totalChunks);
-          textChunks.forEach((chunkText) => {
-            chunks.push({ text: chunkText });
-          });
-        } else if (documentCache.processMode === "image" && imageData) {
-          // 画像配列をチャンク分割
-          const imageChunks = splitImagesByCount(imageData, totalChunks);
-          imageChunks.forEach((chunkImages) => {
-            chunks.push({ images: chunkImages });
-          });
+        // 初回は意味検索インデックスから調査内容に関連するセクションのみを取得する
+        // コンテキスト長エラーでリトライする場合は文字数での分割にフォールバックする
+        const documentIndex = runtimeContext?.get(
+          DOCUMENT_INDEX_CONTEXT_KEY,
+        ) as IDocumentIndex | undefined;
+        if (
+          documentIndex &&
+          retryCount === 0 &&
+          documentCache.processMode === "text" &&
+          textContent
+        ) {
+          try {
+            const retrieval = await documentIndex.retrieve(
+              documentCacheId,
+              [researchContent, question],
+              { runtimeContext, abortSignal },
+            );
+            if (
+              retrieval &&
+              retrieval.sections.length < retrieval.totalSections
+            ) {
+              chunks.push({
+                text: formatRetrievedSections(
+                  retrieval,
+                  "the research content",
+                ),
+              });
+            }
+          } catch (error) {
+            logger.warn(
+              { err: error, documentCacheId },
+              "関連セクションの検索に失敗したため、ドキュメント全体を調査します",
+            );
+          }
+        }
+
+        // 関連セクションを取得できなかった場合はドキュメント全体を分割する
+        if (chunks.length === 0) {
+          if (documentCache.processMode === "text" && textContent) {
+            // テキストをチャンク分割
+            const textChunks = splitTextByCount(textContent, totalChunks);
+            textChunks.forEach((chunkText) => {
+              chunks.push({ text: chunkText });
+            });
+          } else if (documentCache.processMode === "image" && imageData) {
+            // 画像配列をチャンク分割
+            const imageChunks = splitImagesByCount(imageData, totalChunks);
+            imageChunks.forEach((chunkImages) => {
+              chunks.push({ images: chunkImages });
+            });
+          }
         }
 
         // 各チャンクに対する調査タスクを作成
@@ -175,7 +219,7 @@ export const researchDocumentWithRetryWorkflow = createWorkflow({
           reasoning,
           chunkContent: chunk,
           chunkIndex: index,
-          totalChunks,
+          totalChunks: chunks.length,
           question,
           checklistResults,
         })) as z.infer<typeof researchChunkStepInputSchema>[];
@@ -271,11 +315,13 @@ export const researchDocumentWithRetryWorkflow = createWorkflow({
         }
 
         // チャンク情報は削除し、調査結果のみを結合
+        // 関連セクションのみを調査した場合は1チャンクとなるため、実際に調査したチャンク数を使用する
+        const chunkCount = results.length;
         const combinedResult = results
           .filter((result) => result.chunkResult)
           .map(
             (result) =>
-              `Document Name:\n${documentCache.fileName}${initData.totalChunks > 1 ? ` ※(Chunk ${result.chunkIndex! + 1}/${initData.totalChunks})(split into chunks because the full content did not fit into context)` : ""}\nResearch Findings:\n${result.chunkResult}`,
+              `Document Name:\n${documentCache.fileName}${chunkCount > 1 ? ` ※(Chunk ${result.chunkIndex! + 1}/${chunkCount})(split into chunks because the full content did not fit into context)` : ""}\nResearch Findings:\n${result.chunkResult}`,
           )
           .join("\n\n---\n\n");
 
@@ -28,6 +28,9 @@ vi.mock("@/lib/server/logger", () => ({
   }),
 }));
 
+/** ステップの実行引数（テストで使用する項目のみ指定する） */
+type StepExecuteParams = Parameters<typeof planQaResearchStep.execute>[0];
+
 describe("planQaResearchStep", () => {
   // テストデータ
   const testQuestion =
@@ -250,6 +253,52 @@ describe("planQaResearchStep", () => {
       );
     });
 
+    it("会話履歴がある場合はRuntimeContextに会話履歴が設定される", async () => {
+      // Arrange
+      mockGenerateLegacy.mockResolvedValue({
+        object: {
+          tasks: [
+            {
+              reasoning: "理由",
+              documentId: "doc-1",
+              researchContent: "調査内容",
+            },
+          ],
+        },
+      });
+
+      // Act
+      await planQaResearchStep.execute({
+        inputData: {
+          question: testQuestion,
+          availableDocuments: testAvailableDocuments,
+          checklistResults: testChecklistResultsSmall,
+          conversationHistory: [
+            {
+              question: "最初の質問",
+              answer: "最初の回答",
+              researchSummary: [],
+            },
+          ],
+        },
+        mastra: createMastraMock(),
+        runtimeContext: undefined,
+        getStepResult: vi.fn(),
+        getInitData: vi.fn(),
+        suspend: vi.fn(),
+        runId: "test-run-id",
+        bail: createBailMock(),
+      } as unknown as StepExecuteParams);
+
+      // Assert
+      const options = mockGenerateLegacy.mock.calls[0][1];
+      const conversationHistory = options.runtimeContext.get(
+        "conversationHistory",
+      );
+      expect(conversationHistory).toContain("最初の質問");
+      expect(conversationHistory).toContain("最初の回答");
+    });
+
     it("workflowRuntimeContextからemployeeIdが伝播される", async () => {
       // Arrange
       mockGenerateLegacy.mockResolvedValue({
@@ -287,7 +336,9 @@ describe("planQaResearchStep", () => {
       // Assert
       const callArgs = mockGenerateLegacy.mock.calls[0];
       const options = callArgs[1];
-      expect(options.runtimeContext.get("employeeId")).toBe("test-employee-001");
+      expect(options.runtimeContext.get("employeeId")).toBe(
+        "test-employee-001",
+      );
     });
   });
 
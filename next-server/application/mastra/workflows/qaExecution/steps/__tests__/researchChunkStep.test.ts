@@ -276,7 +276,9 @@ describe("researchChunkStep", () => {
       // Assert
       const callArgs = mockGenerateLegacy.mock.calls[0];
       const options = callArgs[1];
-      expect(options.runtimeContext.get("employeeId")).toBe("test-employee-001");
+      expect(options.runtimeContext.get("employeeId")).toBe(
+        "test-employee-001",
+      );
     });
 
     it("大量レビューモードの場合reviewModeがlargeになる", async () => {
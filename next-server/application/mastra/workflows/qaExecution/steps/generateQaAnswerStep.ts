@@ -6,10 +6,17 @@ import {
   type QaExecutionWorkflowRuntimeContext,
   researchResultSchema,
   checklistResultWithIndividualSchema,
+  conversationTurnSchema,
 } from "../types";
-import { judgeReviewMode, buildAnswerChecklistInfo } from "../lib";
+import {
+  judgeReviewMode,
+  buildAnswerChecklistInfo,
+  buildConversationHistoryInfo,
+} from "../lib";
 import type { QaAnswerAgentRuntimeContext } from "@/application/mastra/agents/types";
 import { createRuntimeContext } from "@/application/mastra/lib/agentUtils";
+import { withAiApiRetry } from "@/application/mastra/lib/aiApiRetry";
+import { AI_MODEL_TARGET } from "@/domain/system-setting";
 import type { IEventBroker } from "@/application/shared/port/push/IEventBroker";
 import type { QaAnswerChunkEvent } from "@/application/shared/port/push/QaSseEventTypes";
 import { normalizeUnknownError, workflowError } from "@/lib/server/error";
@@ -24,6 +31,7 @@ export const generateQaAnswerStepInputSchema = z.object({
   question: z.string(),
   checklistResults: z.array(checklistResultWithIndividualSchema),
   researchResults: z.array(researchResultSchema),
+  conversationHistory: z.array(conversationTurnSchema).optional(),
 });
 
 export type GenerateQaAnswerStepInput = z.infer<
@@ -58,7 +66,12 @@ export const generateQaAnswerStep = createStep({
     runtimeContext: workflowRuntimeContext,
   }) => {
     try {
-      const { question, checklistResults, researchResults } = inputData;
+      const {
+        question,
+        checklistResults,
+        researchResults,
+        conversationHistory,
+      } = inputData;
 
       // WorkflowのRuntimeContextから各種設定を取得
       const typedWorkflowRuntimeContext = workflowRuntimeContext as
@@ -67,9 +80,6 @@ export const generateQaAnswerStep = createStep({
       const eventBroker = typedWorkflowRuntimeContext?.get?.("eventBroker") as
         | IEventBroker
         | undefined;
-      const userId = typedWorkflowRuntimeContext?.get?.("userId") as
-        | string
-        | undefined;
       const qaHistoryId = typedWorkflowRuntimeContext?.get?.("qaHistoryId") as
         | string
         | undefined;
@@ -77,6 +87,8 @@ export const generateQaAnswerStep = createStep({
       const aiApiKey = typedWorkflowRuntimeContext?.get("aiApiKey");
       const aiApiUrl = typedWorkflowRuntimeContext?.get("aiApiUrl");
       const aiApiModel = typedWorkflowRuntimeContext?.get("aiApiModel");
+      const aiModelEndpoints =
+        typedWorkflowRuntimeContext?.get("aiModelEndpoints");
 
       // レビューモードを判定
       const reviewMode = judgeReviewMode(checklistResults);
@@ -84,6 +96,10 @@ export const generateQaAnswerStep = createStep({
       // チェックリスト情報の文字列を生成
       const checklistInfo = buildAnswerChecklistInfo(checklistResults);
 
+      // 会話履歴の文字列を生成（スレッドへの追加の質問の場合のみ）
+      const conversationHistoryInfo =
+        buildConversationHistoryInfo(conversationHistory);
+
       // 調査結果を統合
       const researchSummary = researchResults
         .map(
@@ -96,11 +112,13 @@ export const generateQaAnswerStep = createStep({
       const runtimeContext = createRuntimeContext<QaAnswerAgentRuntimeContext>({
         userQuestion: question,
         checklistInfo,
+        conversationHistory: conversationHistoryInfo,
         reviewMode,
         employeeId,
         aiApiKey,
         aiApiUrl,
         aiApiModel,
+        aiModelEndpoints,
       });
 
       const promptText = `User Question: ${question}\n\nResearch Findings:\n${researchSummary}`;
@@ -113,22 +131,31 @@ export const generateQaAnswerStep = createStep({
 
       // ストリーミング対応でAI呼び出し
       let fullAnswer = "";
-      const result = await answerAgent.generateLegacy(promptText, {
-        runtimeContext,
-        onStepFinish: (stepResult) => {
-          // SSEでチャンクを送信
-          if (stepResult.text && eventBroker && userId && qaHistoryId) {
-            const chunkEvent: QaAnswerChunkEvent = {
-              type: "answer_chunk",
-              data: { text: stepResult.text },
-            };
-            eventBroker.publish(userId, `qa:${qaHistoryId}`, chunkEvent);
-          }
-          if (stepResult.text) {
-            fullAnswer += stepResult.text;
-          }
+      const result = await withAiApiRetry(
+        () =>
+          answerAgent.generateLegacy(promptText, {
+            runtimeContext,
+            maxRetries: 0,
+            onStepFinish: (stepResult) => {
+              // SSEでチャンクを送信（Q&A履歴のチャンネルの全購読者に配信）
+              if (stepResult.text && eventBroker && qaHistoryId) {
+                const chunkEvent: QaAnswerChunkEvent = {
+                  type: "answer_chunk",
+                  data: { text: stepResult.text },
+                };
+                eventBroker.broadcast(`qa:${qaHistoryId}`, chunkEvent);
+              }
+              if (stepResult.text) {
+                fullAnswer += stepResult.text;
+              }
+            },
+          }),
+        {
+          runtimeContext: workflowRuntimeContext,
+          operationName: "generateQaAnswer",
+          modelTarget: AI_MODEL_TARGET.QA_ANSWER,
         },
-      });
+      );
 
       return {
         status: "success" as const,
@@ -7,10 +7,17 @@ import {
   researchTaskSchema,
   availableDocumentSchema,
   checklistResultWithIndividualSchema,
+  conversationTurnSchema,
 } from "../types";
-import { judgeReviewMode, buildPlanningChecklistInfo } from "../lib";
+import {
+  judgeReviewMode,
+  buildPlanningChecklistInfo,
+  buildConversationHistoryInfo,
+} from "../lib";
 import type { QaPlanningAgentRuntimeContext } from "@/application/mastra/agents/types";
 import { createRuntimeContext } from "@/application/mastra/lib/agentUtils";
+import { withAiApiRetry } from "@/application/mastra/lib/aiApiRetry";
+import { AI_MODEL_TARGET } from "@/domain/system-setting";
 import { normalizeUnknownError, workflowError } from "@/lib/server/error";
 import { formatMessage } from "@/lib/server/messages";
 import { getLogger } from "@/lib/server/logger";
@@ -24,6 +31,7 @@ export const planQaResearchStepInputSchema = z.object({
   question: z.string(),
   availableDocuments: z.array(availableDocumentSchema),
   checklistResults: z.array(checklistResultWithIndividualSchema),
+  conversationHistory: z.array(conversationTurnSchema).optional(),
 });
 
 export type PlanQaResearchStepInput = z.infer<
@@ -74,7 +82,12 @@ export const planQaResearchStep = createStep({
     runtimeContext: workflowRuntimeContext,
   }) => {
     try {
-      const { question, availableDocuments, checklistResults } = inputData;
+      const {
+        question,
+        availableDocuments,
+        checklistResults,
+        conversationHistory,
+      } = inputData;
 
       // レビューモードを判定
       const reviewMode = judgeReviewMode(checklistResults);
@@ -82,6 +95,10 @@ export const planQaResearchStep = createStep({
       // チェックリスト情報の文字列を生成
       const checklistInfo = buildPlanningChecklistInfo(checklistResults);
 
+      // 会話履歴の文字列を生成（スレッドへの追加の質問の場合のみ）
+      const conversationHistoryInfo =
+        buildConversationHistoryInfo(conversationHistory);
+
       // ワークフローRuntimeContextから確定済みのAI API設定を取得
       const typedWorkflowRuntimeContext = workflowRuntimeContext as
         | RuntimeContext<QaExecutionWorkflowRuntimeContext>
@@ -90,17 +107,21 @@ export const planQaResearchStep = createStep({
       const aiApiKey = typedWorkflowRuntimeContext?.get("aiApiKey");
       const aiApiUrl = typedWorkflowRuntimeContext?.get("aiApiUrl");
       const aiApiModel = typedWorkflowRuntimeContext?.get("aiApiModel");
+      const aiModelEndpoints =
+        typedWorkflowRuntimeContext?.get("aiModelEndpoints");
 
       // RuntimeContext作成
       const runtimeContext =
         createRuntimeContext<QaPlanningAgentRuntimeContext>({
           availableDocuments,
           checklistInfo,
+          conversationHistory: conversationHistoryInfo,
           reviewMode,
           employeeId,
           aiApiKey,
           aiApiUrl,
           aiApiModel,
+          aiModelEndpoints,
         });
 
       // Mastraエージェント経由でAI呼び出し（構造化出力）
@@ -109,10 +130,19 @@ export const planQaResearchStep = createStep({
         throw workflowError("WORKFLOW_AGENT_NOT_FOUND");
       }
 
-      const result = await planningAgent.generateLegacy(question, {
-        runtimeContext,
-        output: researchTasksSchema,
-      });
+      const result = await withAiApiRetry(
+        () =>
+          planningAgent.generateLegacy(question, {
+            runtimeContext,
+            maxRetries: 0,
+            output: researchTasksSchema,
+          }),
+        {
+          runtimeContext: workflowRuntimeContext,
+          operationName: "planQaResearch",
+          modelTarget: AI_MODEL_TARGET.QA_PLANNING,
+        },
+      );
 
       // 構造化出力から調査タスクを取得
       const researchTasks = (result.object?.tasks || []).map((task) => ({
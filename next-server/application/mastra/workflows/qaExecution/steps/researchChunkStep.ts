@@ -9,6 +9,8 @@ import {
 import { judgeReviewMode, buildResearchChecklistInfo } from "../lib";
 import type { QaResearchAgentRuntimeContext } from "@/application/mastra/agents/types";
 import { createRuntimeContext } from "@/application/mastra/lib/agentUtils";
+import { withAiApiRetry } from "@/application/mastra/lib/aiApiRetry";
+import { AI_MODEL_TARGET } from "@/domain/system-setting";
 import { judgeErrorIsContentLengthError } from "@/application/mastra/lib/util";
 import { normalizeUnknownError, workflowError } from "@/lib/server/error";
 import { formatMessage } from "@/lib/server/messages";
@@ -103,6 +105,8 @@ export const researchChunkStep = createStep({
       const aiApiKey = typedWorkflowRuntimeContext?.get("aiApiKey");
       const aiApiUrl = typedWorkflowRuntimeContext?.get("aiApiUrl");
       const aiApiModel = typedWorkflowRuntimeContext?.get("aiApiModel");
+      const aiModelEndpoints =
+        typedWorkflowRuntimeContext?.get("aiModelEndpoints");
 
       // RuntimeContext作成
       const runtimeContext =
@@ -118,6 +122,7 @@ export const researchChunkStep = createStep({
           aiApiKey,
           aiApiUrl,
           aiApiModel,
+          aiModelEndpoints,
         });
 
       // メッセージを作成
@@ -159,13 +164,22 @@ export const researchChunkStep = createStep({
         throw workflowError("WORKFLOW_AGENT_NOT_FOUND");
       }
 
-      const result = await researchAgent.generateLegacy(
+      const result = await withAiApiRetry(
+        () =>
+          researchAgent.generateLegacy(
+            {
+              role: "user",
+              content: messageContent,
+            },
+            {
+              runtimeContext,
+              maxRetries: 0,
+            },
+          ),
         {
-          role: "user",
-          content: messageContent,
-        },
-        {
-          runtimeContext,
+          runtimeContext: workflowRuntimeContext,
+          operationName: "researchChunk",
+          modelTarget: AI_MODEL_TARGET.QA_RESEARCH,
         },
       );
 
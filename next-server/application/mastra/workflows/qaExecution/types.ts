@@ -1,6 +1,7 @@
 import { z } from "zod";
 import type { IEventBroker } from "@/application/shared/port/push/IEventBroker";
 import type { BaseRuntimeContext } from "@/application/mastra/types";
+import type { IDocumentIndex } from "@/application/shared/port/documentIndex";
 
 /**
  * Q&A実行ワークフローのRuntimeContext型定義
@@ -12,6 +13,8 @@ export type QaExecutionWorkflowRuntimeContext = BaseRuntimeContext & {
   userId: string;
   /** Q&A履歴ID（イベント発行用） */
   qaHistoryId: string;
+  /** ドキュメント意味検索インデックス（埋め込みモデルが設定されている場合のみ） */
+  documentIndex?: IDocumentIndex;
 };
 
 /**
@@ -63,6 +66,18 @@ export const researchResultSchema = z.object({
 });
 export type ResearchResult = z.infer<typeof researchResultSchema>;
 
+/**
+ * 会話履歴の1往復（スレッド内の過去の質問と回答）
+ */
+export const conversationTurnSchema = z.object({
+  question: z.string(),
+  answer: z.string(),
+  researchSummary: z.array(
+    researchResultSchema.omit({ documentCacheId: true }),
+  ),
+});
+export type ConversationTurn = z.infer<typeof conversationTurnSchema>;
+
 /**
  * チェックリスト情報（個別レビュー結果含む）
  */
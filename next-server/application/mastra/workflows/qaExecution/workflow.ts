@@ -5,6 +5,7 @@ import {
   QaExecutionWorkflowRuntimeContext,
   checklistResultWithIndividualSchema,
   availableDocumentSchema,
+  conversationTurnSchema,
 } from "./types";
 import { planQaResearchStep } from "./steps/planQaResearchStep";
 import {
@@ -30,6 +31,8 @@ export const qaExecutionWorkflowInputSchema = z.object({
   availableDocuments: z.array(availableDocumentSchema),
   /** チェックリスト結果（個別結果含む） */
   checklistResults: z.array(checklistResultWithIndividualSchema),
+  /** スレッド内の過去の質問と回答（追加の質問の場合のみ） */
+  conversationHistory: z.array(conversationTurnSchema).optional(),
 });
 
 export type QaExecutionWorkflowInput = z.infer<
@@ -49,6 +52,8 @@ export type QaExecutionWorkflowOutput = z.infer<
  * Q&A実行ワークフロー
  * ユーザーの質問に対してドキュメントを調査し、回答を生成する
  *
+ * スレッドへの追加の質問の場合は、会話履歴を調査計画と回答生成に反映する
+ *
  * 処理フロー:
  * 1. planQaResearchStep: 調査計画を作成
  * 2. foreach(researchDocumentWithRetryWorkflow): ドキュメントを並列調査
@@ -144,6 +149,7 @@ export const qaExecutionWorkflow = createWorkflow({
       question: initData.question,
       checklistResults: initData.checklistResults,
       researchResults,
+      conversationHistory: initData.conversationHistory,
     };
   })
   .then(generateQaAnswerStep)
@@ -202,6 +202,73 @@ describe("classifyChecklistStep", () => {
       );
     });
 
+    it("カテゴリ設定済みの項目は設定されたカテゴリごとに分割され、AI分類は呼ばれないこと", async () => {
+      // Arrange
+      const categorizedItems: CheckListItem[] = [
+        { id: "check-1", content: "認証", category: "セキュリティ" },
+        { id: "check-2", content: "応答時間", category: "性能" },
+        { id: "check-3", content: "権限", category: "セキュリティ" },
+        { id: "check-4", content: "暗号化", category: "セキュリティ" },
+        { id: "check-5", content: "未分類項目", category: null },
+      ];
+
+      // Act
+      const result = await classifyChecklistStep.execute(
+        createStepParams({
+          checkListItems: categorizedItems,
+          concurrentReviewItems: 2,
+        }),
+      );
+
+      // Assert
+      expect(result.status).toBe("success");
+      expect(
+        result.chunks?.map((chunk) => chunk.map((item) => item.id)),
+      ).toEqual([
+        ["check-1", "check-3"],
+        ["check-4"],
+        ["check-2"],
+        ["check-5"],
+      ]);
+      expect(mockChecklistCategoryAgentGenerateLegacy).not.toHaveBeenCalled();
+    });
+
+    it("カテゴリ未設定の項目のみAIカテゴリ分類に渡されること", async () => {
+      // Arrange
+      const mixedItems: CheckListItem[] = [
+        { id: "check-1", content: "認証", category: "セキュリティ" },
+        { id: "check-2", content: "項目A" },
+        { id: "check-3", content: "項目B" },
+        { id: "check-4", content: "項目C" },
+      ];
+      mockChecklistCategoryAgentGenerateLegacy.mockResolvedValue({
+        object: {
+          categories: [
+            { name: "A", checklistIds: [1, 3] },
+            { name: "B", checklistIds: [2] },
+          ],
+        },
+      });
+
+      // Act
+      const result = await classifyChecklistStep.execute(
+        createStepParams({
+          checkListItems: mixedItems,
+          concurrentReviewItems: 2,
+        }),
+      );
+
+      // Assert
+      expect(result.status).toBe("success");
+      const prompt = mockChecklistCategoryAgentGenerateLegacy.mock
+        .calls[0][0] as string;
+      expect(prompt).not.toContain("認証");
+      expect(prompt).toContain("ID: 1 - 項目A");
+      expect(
+        result.chunks?.map((chunk) => chunk.map((item) => item.id)),
+      ).toEqual([["check-1"], ["check-2", "check-4"], ["check-3"]]);
+    });
+
     it("空のチェックリストの場合、空のchunksが返されること", async () => {
       // Act
       const result = await classifyChecklistStep.execute(
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { mergeReviewEvidence, toReviewEvidence } from "../evidence";
+
+describe("toReviewEvidence", () => {
+  it("AIのレビューセクションをレビュー根拠に変換する", () => {
+    const evidence = toReviewEvidence([
+      {
+        fileName: "設計書.pdf",
+        sectionNames: ["第2章 概要"],
+        pageNumbers: [3],
+        lineRanges: [],
+      },
+    ]);
+
+    expect(evidence).toEqual([
+      {
+        fileName: "設計書.pdf",
+        sectionNames: ["第2章 概要"],
+        pageNumbers: [3],
+        lineRanges: [],
+      },
+    ]);
+  });
+
+  it("ページ番号・行範囲が欠落している場合は空配列で補完する", () => {
+    const evidence = toReviewEvidence([
+      { fileName: "設計書.docx", sectionNames: ["はじめに"] },
+    ]);
+
+    expect(evidence).toEqual([
+      {
+        fileName: "設計書.docx",
+        sectionNames: ["はじめに"],
+        pageNumbers: [],
+        lineRanges: [],
+      },
+    ]);
+  });
+
+  it("ファイル名を指定した場合は元のファイル名で上書きする", () => {
+    const evidence = toReviewEvidence(
+      [{ fileName: "設計書 (part 1/2)", sectionNames: ["第1章"] }],
+      "設計書.pdf",
+    );
+
+    expect(evidence[0].fileName).toBe("設計書.pdf");
+  });
+
+  it("未定義の場合は空配列を返す", () => {
+    expect(toReviewEvidence(undefined)).toEqual([]);
+  });
+});
+
+describe("mergeReviewEvidence", () => {
+  it("同一ファイルの参照を重複なくまとめる", () => {
+    const evidence = mergeReviewEvidence([
+      {
+        fileName: "main.ts",
+        sectionNames: ["handleRequest"],
+        pageNumbers: [],
+        lineRanges: [{ start: 30, end: 40 }],
+      },
+      {
+        fileName: "main.ts ",
+        sectionNames: ["handleRequest", "validate"],
+        pageNumbers: [],
+        lineRanges: [
+          { start: 10, end: 20 },
+          { start: 30, end: 40 },
+        ],
+      },
+      {
+        fileName: "設計書.pdf",
+        sectionNames: [],
+        pageNumbers: [4, 2, 4],
+        lineRanges: [],
+      },
+    ]);
+
+    expect(evidence).toEqual([
+      {
+        fileName: "main.ts",
+        sectionNames: ["handleRequest", "validate"],
+        pageNumbers: [],
+        lineRanges: [
+          { start: 10, end: 20 },
+          { start: 30, end: 40 },
+        ],
+      },
+      {
+        fileName: "設計書.pdf",
+        sectionNames: [],
+        pageNumbers: [2, 4],
+        lineRanges: [],
+      },
+    ]);
+  });
+
+  it("不正なページ番号・行範囲とファイル名が空の参照を除外する", () => {
+    const evidence = mergeReviewEvidence([
+      {
+        fileName: "設計書.pdf",
+        sectionNames: ["", "第1章"],
+        pageNumbers: [0, -1, 1.5, 2],
+        lineRanges: [
+          { start: 0, end: 5 },
+          { start: 20, end: 10 },
+          { start: 3, end: 3 },
+        ],
+      },
+      {
+        fileName: "",
+        sectionNames: ["第2章"],
+        pageNumbers: [1],
+        lineRanges: [],
+      },
+    ]);
+
+    expect(evidence).toEqual([
+      {
+        fileName: "設計書.pdf",
+        sectionNames: ["第1章"],
+        pageNumbers: [2],
+        lineRanges: [{ start: 3, end: 3 }],
+      },
+    ]);
+  });
+});
@@ -183,6 +183,14 @@ describe("reviewExecutionWorkflow", () => {
           evaluation: "A",
           comment: "セキュリティ要件を満たしています",
           errorMessage: null,
+          evidence: [
+            {
+              fileName: "test.txt",
+              sectionNames: ["intro"],
+              pageNumbers: [],
+              lineRanges: [],
+            },
+          ],
         });
       }
     });
@@ -1362,6 +1370,7 @@ describe("reviewExecutionWorkflow", () => {
           evaluation: "A",
           comment: "キャッシュからレビュー",
           errorMessage: null,
+          evidence: [],
         });
       }
     });
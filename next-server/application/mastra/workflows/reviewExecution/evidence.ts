@@ -0,0 +1,94 @@
+import type { ReviewSection } from "../../agents";
+import type { ReviewEvidenceItem } from "./types";
+
+/**
+ * AIが出力したレビューセクションの形式
+ * ページ番号・行範囲はモックや旧形式の出力で欠落している場合があるため任意とする
+ */
+type ReviewSectionLike = Pick<ReviewSection, "fileName" | "sectionNames"> &
+  Partial<Pick<ReviewSection, "pageNumbers" | "lineRanges">>;
+
+/**
+ * AIが出力したレビューセクションをレビュー根拠に変換する
+ * 不正なページ番号・行範囲を除外し、同一ファイルの参照はまとめる
+ * @param sections AIが出力したレビューセクション
+ * @param fileNameOverride ファイル名を固定する場合に指定（分割ドキュメントのレビュー時は元のファイル名を使用する）
+ */
+export function toReviewEvidence(
+  sections: ReviewSectionLike[] | undefined,
+  fileNameOverride?: string,
+): ReviewEvidenceItem[] {
+  if (!sections) return [];
+
+  return mergeReviewEvidence(
+    sections.map((section) => ({
+      fileName: fileNameOverride ?? section.fileName,
+      sectionNames: section.sectionNames ?? [],
+      pageNumbers: section.pageNumbers ?? [],
+      lineRanges: section.lineRanges ?? [],
+    })),
+  );
+}
+
+/**
+ * 複数のレビュー根拠をファイル単位でまとめる
+ * セクション名・ページ番号・行範囲は重複を除いて結合する
+ */
+export function mergeReviewEvidence(
+  evidence: ReviewEvidenceItem[],
+): ReviewEvidenceItem[] {
+  const byFileName = new Map<string, ReviewEvidenceItem>();
+
+  for (const item of evidence) {
+    const fileName = item.fileName.trim();
+    if (!fileName) continue;
+
+    const existing = byFileName.get(fileName) ?? {
+      fileName,
+      sectionNames: [],
+      pageNumbers: [],
+      lineRanges: [],
+    };
+    byFileName.set(fileName, {
+      fileName,
+      sectionNames: unique([
+        ...existing.sectionNames,
+        ...item.sectionNames.map((name) => name.trim()).filter(Boolean),
+      ]),
+      pageNumbers: unique([
+        ...existing.pageNumbers,
+        ...item.pageNumbers.filter(
+          (page) => Number.isInteger(page) && page > 0,
+        ),
+      ]).sort((a, b) => a - b),
+      lineRanges: uniqueLineRanges([
+        ...existing.lineRanges,
+        ...item.lineRanges.filter(
+          (range) =>
+            Number.isInteger(range.start) &&
+            Number.isInteger(range.end) &&
+            range.start > 0 &&
+            range.start <= range.end,
+        ),
+      ]),
+    });
+  }
+
+  return Array.from(byFileName.values());
+}
+
+const unique = <T>(values: T[]): T[] => Array.from(new Set(values));
+
+const uniqueLineRanges = (
+  ranges: ReviewEvidenceItem["lineRanges"],
+): ReviewEvidenceItem["lineRanges"] => {
+  const seen = new Set<string>();
+  return ranges
+    .filter((range) => {
+      const key = `${range.start}-${range.end}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+};
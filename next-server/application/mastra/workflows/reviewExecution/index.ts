@@ -21,12 +21,16 @@ import {
 import {
   fileProcessingStep,
   extractedFileSchema,
+  PLUGIN_HOOK_RUNNER_CONTEXT_KEY,
   type ExtractedFile,
 } from "../shared";
+import type { IPluginHookRunner } from "@/application/shared/port/plugin";
+import { normalizeUnknownError } from "@/lib/server/error";
 import {
   largeDocumentReviewWorkflow,
   largeDocumentReviewOutputSchema,
 } from "./largeDocumentReview";
+import { chunkingConfigSchema } from "../../lib/chunking";
 
 /**
  * レビュー実行ワークフローの出力スキーマ
@@ -48,6 +52,7 @@ const chunkReviewInputSchema = z.object({
   additionalInstructions: z.string().nullable().optional(),
   commentFormat: z.string().nullable().optional(),
   evaluationCriteria: z.array(evaluationCriterionSchema).optional(),
+  chunkingConfig: chunkingConfigSchema.optional(),
 });
 
 /**
@@ -94,6 +99,7 @@ const chunkReviewWorkflow = createWorkflow({
             additionalInstructions: inputData.additionalInstructions,
             commentFormat: inputData.commentFormat,
             evaluationCriteria: inputData.evaluationCriteria,
+            chunkingConfig: inputData.chunkingConfig,
           };
         })
         .then(largeDocumentReviewWorkflow)
@@ -138,6 +144,7 @@ function convertCachedDocumentsToExtractedFiles(
  *    - fileProcessingStep: バイナリファイルからテキスト抽出/画像Base64変換
  *      ※リトライ時（useCachedDocuments=true）の場合はスキップし、キャッシュを使用
  *    - classifyChecklistStep: チェックリストを分類・分割
+ *    ※プラグインのbeforePromptBuildingフックがある場合はチャンク作成前に適用
  * 2. foreach: 各チェックリストチャンクに対して
  *    - branch: reviewTypeに基づいて分岐
  *      - small: smallDocumentReviewStep
@@ -358,14 +365,69 @@ export const reviewExecutionWorkflow = createWorkflow({
     const reviewType = initialInput.reviewType ?? "small";
     const reviewSettings = initialInput.reviewSettings;
 
+    let files = fileProcessingResult.extractedFiles;
+    let promptChunks = chunks;
+    let additionalInstructions = reviewSettings?.additionalInstructions ?? null;
+
+    // プラグインのbeforePromptBuildingフックを適用
+    // キャッシュには適用前のファイルを保存するため、キャッシュ保存後に実行する
+    const pluginHookRunner = runtimeContext.get(
+      PLUGIN_HOOK_RUNNER_CONTEXT_KEY,
+    ) as IPluginHookRunner | undefined;
+    if (pluginHookRunner?.hasHook("beforePromptBuilding")) {
+      try {
+        const hooked = await pluginHookRunner.runBeforePromptBuilding({
+          checkListItems: chunks.flat(),
+          additionalInstructions,
+          files: files.map((file) => ({
+            name: file.name,
+            textContent: file.textContent ?? null,
+          })),
+        });
+
+        const contentById = new Map(
+          hooked.checkListItems.map((item) => [item.id, item.content]),
+        );
+        promptChunks = chunks
+          .map((chunk) =>
+            chunk
+              .filter((item) => contentById.has(item.id))
+              .map((item) => ({
+                id: item.id,
+                content: contentById.get(item.id)!,
+              })),
+          )
+          .filter((chunk) => chunk.length > 0);
+        files = files.map((file, index) => ({
+          ...file,
+          name: hooked.files[index].name,
+          textContent: hooked.files[index].textContent ?? file.textContent,
+        }));
+        additionalInstructions = hooked.additionalInstructions;
+      } catch (error) {
+        return bail({
+          status: "failed" as const,
+          errorMessage: normalizeUnknownError(error).message,
+        });
+      }
+
+      if (promptChunks.length === 0) {
+        return bail({
+          status: "failed" as const,
+          errorMessage: "チェック項目がありません",
+        });
+      }
+    }
+
     // foreach用の配列を作成（各チャンクにファイル情報とレビュー設定を付加）
-    return chunks.map((chunk) => ({
+    return promptChunks.map((chunk) => ({
       reviewType: reviewType as "small" | "large",
-      files: fileProcessingResult.extractedFiles!,
+      files,
       checkListItems: chunk,
-      additionalInstructions: reviewSettings?.additionalInstructions ?? null,
+      additionalInstructions,
       commentFormat: reviewSettings?.commentFormat ?? null,
       evaluationCriteria: reviewSettings?.evaluationCriteria ?? undefined,
+      chunkingConfig: initialInput.chunkingConfig,
     }));
   })
   // Step 3: 各チャンクをレビュー
@@ -416,6 +478,7 @@ export type {
   EvaluationCriterion,
   ReviewSettingsInput,
   SingleReviewResult,
+  ReviewEvidenceItem,
   ReviewExecutionWorkflowRuntimeContext,
   ReviewType,
   CachedDocument,
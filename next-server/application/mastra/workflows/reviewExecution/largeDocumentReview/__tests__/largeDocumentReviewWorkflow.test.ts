@@ -324,6 +324,133 @@ describe("largeDocumentReviewWorkflow", () => {
     });
   });
 
+  describe("ドキュメント分割設定", () => {
+    const successResult = {
+      finishReason: "stop",
+      object: [
+        { checklistId: 1, reviewSections: [], comment: "コメント1" },
+        { checklistId: 2, reviewSections: [], comment: "コメント2" },
+      ],
+    };
+    const longTextFile = {
+      id: "file-1",
+      name: "long-document.txt",
+      type: "text/plain",
+      processMode: "text" as const,
+      textContent: "A".repeat(10000),
+    };
+
+    beforeEach(() => {
+      mockConsolidateReviewAgentGenerateLegacy.mockResolvedValue({
+        finishReason: "stop",
+        object: [
+          { checklistId: 1, comment: "統合コメント1", evaluation: "A" },
+          { checklistId: 2, comment: "統合コメント2", evaluation: "B" },
+        ],
+      });
+    });
+
+    it("チャンクサイズを超えるドキュメントは事前に分割してレビューすること", async () => {
+      mockIndividualDocumentReviewAgentGenerateLegacy.mockResolvedValue(
+        successResult,
+      );
+
+      const run = await largeDocumentReviewWorkflow.createRunAsync();
+      const result = await run.start({
+        inputData: {
+          files: [longTextFile],
+          checkListItems: testCheckListItems,
+          chunkingConfig: {
+            strategy: "characters",
+            chunkSize: 4000,
+            overlap: 0,
+            maxPagesPerChunk: null,
+            pageOverlap: 0,
+          },
+        } as LargeDocumentReviewInput,
+        runtimeContext: createTestRuntimeContext(),
+      });
+
+      const checkResult = checkWorkflowResult(result);
+      expect(checkResult.status).toBe("success");
+      // 10000文字を4000文字ごとに分割するため3回呼ばれる
+      expect(
+        mockIndividualDocumentReviewAgentGenerateLegacy,
+      ).toHaveBeenCalledTimes(3);
+    });
+
+    it("content_lengthエラー時はチャンクサイズを縮小して分割し直すこと", async () => {
+      let callCount = 0;
+      mockIndividualDocumentReviewAgentGenerateLegacy.mockImplementation(() => {
+        callCount++;
+        if (callCount === 1) {
+          return Promise.resolve({ finishReason: "length", object: null });
+        }
+        return Promise.resolve(successResult);
+      });
+
+      const run = await largeDocumentReviewWorkflow.createRunAsync();
+      const result = await run.start({
+        inputData: {
+          files: [longTextFile],
+          checkListItems: testCheckListItems,
+          chunkingConfig: {
+            strategy: "characters",
+            chunkSize: 6000,
+            overlap: 0,
+            maxPagesPerChunk: null,
+            pageOverlap: 0,
+          },
+        } as LargeDocumentReviewInput,
+        runtimeContext: createTestRuntimeContext(),
+      });
+
+      const checkResult = checkWorkflowResult(result);
+      expect(checkResult.status).toBe("success");
+      // 初回: 6000文字ごとに2分割 → リトライ: 3000文字ごとに4分割
+      expect(
+        mockIndividualDocumentReviewAgentGenerateLegacy,
+      ).toHaveBeenCalledTimes(6);
+    });
+
+    it("画像は最大ページ数ごとに事前に分割してレビューすること", async () => {
+      mockIndividualDocumentReviewAgentGenerateLegacy.mockResolvedValue(
+        successResult,
+      );
+
+      const run = await largeDocumentReviewWorkflow.createRunAsync();
+      const result = await run.start({
+        inputData: {
+          files: [
+            {
+              id: "file-1",
+              name: "many-images.pdf",
+              type: "application/pdf",
+              processMode: "image" as const,
+              imageData: Array(10).fill("base64image"),
+            },
+          ],
+          checkListItems: testCheckListItems,
+          chunkingConfig: {
+            strategy: "characters",
+            chunkSize: null,
+            overlap: 0,
+            maxPagesPerChunk: 4,
+            pageOverlap: 1,
+          },
+        } as LargeDocumentReviewInput,
+        runtimeContext: createTestRuntimeContext(),
+      });
+
+      const checkResult = checkWorkflowResult(result);
+      expect(checkResult.status).toBe("success");
+      // 10ページを4ページごと（1ページ重複）に分割するため3回呼ばれる
+      expect(
+        mockIndividualDocumentReviewAgentGenerateLegacy,
+      ).toHaveBeenCalledTimes(3);
+    });
+  });
+
   describe("異常系", () => {
     it("個別レビューがエラーの場合、ワークフローが失敗すること", async () => {
       // Arrange: 個別レビューがエラー（content_length以外）
@@ -568,4 +695,122 @@ describe("largeDocumentReviewWorkflow", () => {
       }
     });
   });
+
+  describe("意味検索インデックス", () => {
+    const mockRetrieveByFileName = vi.fn();
+
+    // 意味検索インデックスを設定したRuntimeContextを作成するヘルパー関数
+    const createIndexedRuntimeContext = () => {
+      const runtimeContext = createTestRuntimeContext();
+      runtimeContext.set("reviewTargetId", "target-1");
+      runtimeContext.set("documentIndex", {
+        buildIndex: vi.fn(),
+        retrieve: vi.fn(),
+        retrieveByFileName: mockRetrieveByFileName,
+      });
+      return runtimeContext;
+    };
+
+    // 個別レビューに渡されたドキュメント本文を取得するヘルパー関数
+    const getReviewedText = () => {
+      const message = mockIndividualDocumentReviewAgentGenerateLegacy.mock
+        .calls[0][0] as { content: Array<{ text?: string }> };
+      return message.content[1].text;
+    };
+
+    beforeEach(() => {
+      mockIndividualDocumentReviewAgentGenerateLegacy.mockResolvedValue({
+        finishReason: "stop",
+        object: [
+          { checklistId: 1, reviewSections: [], comment: "コメント1" },
+          { checklistId: 2, reviewSections: [], comment: "コメント2" },
+        ],
+      });
+      mockConsolidateReviewAgentGenerateLegacy.mockResolvedValue({
+        finishReason: "stop",
+        object: [
+          { checklistId: 1, comment: "統合コメント1", evaluation: "A" },
+          { checklistId: 2, comment: "統合コメント2", evaluation: "B" },
+        ],
+      });
+    });
+
+    it("チェック項目に関連するセクションのみを個別レビューに渡すこと", async () => {
+      // Arrange
+      mockRetrieveByFileName.mockResolvedValue({
+        sections: [
+          { sectionIndex: 2, heading: "## 認証", content: "認証の内容" },
+        ],
+        totalSections: 10,
+      });
+
+      // Act
+      const run = await largeDocumentReviewWorkflow.createRunAsync();
+      const result = await run.start({
+        inputData: {
+          files: [testTextFiles[0]],
+          checkListItems: testCheckListItems,
+        } as LargeDocumentReviewInput,
+        runtimeContext: createIndexedRuntimeContext(),
+      });
+
+      // Assert
+      expect(checkWorkflowResult(result).status).toBe("success");
+      expect(mockRetrieveByFileName).toHaveBeenCalledWith(
+        "target-1",
+        "document1.txt",
+        testCheckListItems.map((item) => item.content),
+        expect.objectContaining({ runtimeContext: expect.anything() }),
+      );
+      const reviewedText = getReviewedText();
+      expect(reviewedText).toContain(
+        "--- Section 3/10 (## 認証) ---\n認証の内容",
+      );
+      expect(reviewedText).not.toContain("ドキュメント1の内容です。");
+    });
+
+    it("全セクションが関連する場合はドキュメント全体を渡すこと", async () => {
+      // Arrange
+      mockRetrieveByFileName.mockResolvedValue({
+        sections: [{ sectionIndex: 0, heading: null, content: "内容" }],
+        totalSections: 1,
+      });
+
+      // Act
+      const run = await largeDocumentReviewWorkflow.createRunAsync();
+      await run.start({
+        inputData: {
+          files: [testTextFiles[0]],
+          checkListItems: testCheckListItems,
+        } as LargeDocumentReviewInput,
+        runtimeContext: createIndexedRuntimeContext(),
+      });
+
+      // Assert
+      expect(getReviewedText()).toBe(
+        "# document1.txt\nドキュメント1の内容です。",
+      );
+    });
+
+    it("検索に失敗した場合はドキュメント全体をレビューすること", async () => {
+      // Arrange
+      mockRetrieveByFileName.mockRejectedValue(new Error("embedding error"));
+
+      // Act
+      const run = await largeDocumentReviewWorkflow.createRunAsync();
+      const result = await run.start({
+        inputData: {
+          files: [testTextFiles[0]],
+          checkListItems: testCheckListItems,
+        } as LargeDocumentReviewInput,
+        runtimeContext: createIndexedRuntimeContext(),
+      });
+
+      // Assert
+      expect(checkWorkflowResult(result).status).toBe("success");
+      expect(getReviewedText()).toBe(
+        "# document1.txt\nドキュメント1の内容です。",
+      );
+    });
+  });
 });
@@ -1,8 +1,15 @@
 import { createWorkflow } from "@mastra/core/workflows";
 import { z } from "zod";
 import { baseStepOutputSchema } from "../../schema";
-import { extractedFileSchema } from "../../shared";
 import {
+  DOCUMENT_INDEX_CONTEXT_KEY,
+  PLUGIN_HOOK_RUNNER_CONTEXT_KEY,
+  extractedFileSchema,
+  type ExtractedFile,
+} from "../../shared";
+import { formatRetrievedSections } from "../../lib";
+import {
+  type CheckListItem,
   checkListItemSchema,
   evaluationCriterionSchema,
   ReviewExecutionWorkflowRuntimeContext,
@@ -13,6 +20,8 @@ import {
   individualDocumentReviewStep,
   individualDocumentReviewInputSchema,
   individualDocumentReviewOutputSchema,
+  individualDocumentReviewResultSchema,
+  type IndividualDocumentReviewInput,
   type IndividualDocumentReviewResult,
 } from "../steps/individualDocumentReviewStep";
 import {
@@ -20,8 +29,20 @@ import {
   groupReviewResultsByDocument,
 } from "../steps/consolidateReviewStep";
 import { makeChunksByCount, DEFAULT_CHUNK_OVERLAP } from "../../../lib/util";
+import {
+  chunkingConfigSchema,
+  planPageChunks,
+  planTextChunks,
+  shrinkChunkingConfig,
+  type ChunkingConfig,
+} from "../../../lib/chunking";
 import { RuntimeContext } from "@mastra/core/runtime-context";
 import { formatMessage } from "@/lib/server/messages";
+import { getLogger } from "@/lib/server/logger";
+import type { IDocumentIndex } from "@/application/shared/port/documentIndex";
+import type { IPluginHookRunner } from "@/application/shared/port/plugin";
+
+const logger = getLogger();
 
 /**
  * 大量ドキュメントレビューワークフローの入力スキーマ
@@ -37,6 +58,8 @@ export const largeDocumentReviewInputSchema = z.object({
   commentFormat: z.string().nullable().optional(),
   /** 評価基準（オプション） */
   evaluationCriteria: z.array(evaluationCriterionSchema).optional(),
+  /** 確定済みのドキュメント分割設定（未指定の場合はコンテキスト長エラー時のみ等分して分割する） */
+  chunkingConfig: chunkingConfigSchema.optional(),
 });
 
 export type LargeDocumentReviewInput = z.infer<
@@ -73,22 +96,24 @@ const individualDocumentReviewRetryInputSchema = z.object({
   /** エラーメッセージ */
   errorMessage: z.string().optional(),
   /** レビュー結果（成功時） */
-  reviewResults: z
-    .array(
-      z.object({
-        documentId: z.string(),
-        documentName: z.string(),
-        checklistId: z.string(),
-        comment: z.string(),
-      }),
-    )
-    .optional(),
+  reviewResults: z.array(individualDocumentReviewResultSchema).optional(),
+  /** 確定済みのドキュメント分割設定 */
+  chunkingConfig: chunkingConfigSchema.optional(),
 });
 
 type IndividualDocumentReviewRetryInput = z.infer<
   typeof individualDocumentReviewRetryInputSchema
 >;
 
+/**
+ * 個別ドキュメントレビューワークフローの入力スキーマ
+ */
+const individualDocumentReviewWorkflowInputSchema =
+  individualDocumentReviewInputSchema.extend({
+    /** 確定済みのドキュメント分割設定 */
+    chunkingConfig: chunkingConfigSchema.optional(),
+  });
+
 /**
  * 個別ドキュメントレビューワークフローの出力スキーマ
  */
@@ -97,16 +122,7 @@ const individualDocumentReviewWorkflowOutputSchema =
     /** 元のファイル名 */
     originalFileName: z.string(),
     /** レビュー結果 */
-    reviewResults: z
-      .array(
-        z.object({
-          documentId: z.string(),
-          documentName: z.string(),
-          checklistId: z.string(),
-          comment: z.string(),
-        }),
-      )
-      .optional(),
+    reviewResults: z.array(individualDocumentReviewResultSchema).optional(),
   });
 
 type IndividualDocumentReviewWorkflowOutput = z.infer<
@@ -118,23 +134,177 @@ type IndividualDocumentReviewWorkflowOutput = z.infer<
  */
 const MAX_SPLIT_RETRY_COUNT = 5;
 
+/**
+ * ドキュメントを分割設定に従って個別レビューの入力に分割する
+ * - テキスト: 分割方式とチャンクサイズに従って分割する
+ * - 画像: 最大ページ数に従って分割する
+ * 分割設定がない場合・上限が未確定の場合は、除数の数で等分する（分割設定の導入前と同じ動作）
+ * リトライ時に上限を縮小しても1チャンクに収まる場合も、除数の数で等分する
+ *
+ * @param baseInput 分割元の個別レビュー入力
+ * @param chunkingConfig 確定済みのドキュメント分割設定
+ * @param divisor 上限の除数（初回は1、コンテキスト長エラーで分割リトライするごとに増やす）
+ * @returns 分割後の個別レビュー入力（分割対象のデータがない場合は空配列）
+ */
+function splitReviewInput(
+  baseInput: IndividualDocumentReviewInput,
+  chunkingConfig: ChunkingConfig | undefined,
+  divisor: number,
+): IndividualDocumentReviewInput[] {
+  const originalFile = baseInput.file;
+  const config = chunkingConfig
+    ? shrinkChunkingConfig(chunkingConfig, divisor)
+    : undefined;
+  const toParts = (
+    ranges: Array<{ start: number; end: number }>,
+    toContent: (range: {
+      start: number;
+      end: number;
+    }) => Partial<IndividualDocumentReviewInput["file"]>,
+  ): IndividualDocumentReviewInput[] => {
+    if (ranges.length === 1) {
+      return [baseInput];
+    }
+    return ranges.map((range, index) => ({
+      ...baseInput,
+      file: {
+        ...originalFile,
+        id: `${originalFile.id}_part${index + 1}`,
+        name: `${originalFile.name} (part ${index + 1})`,
+        originalName: originalFile.name,
+        ...toContent(range),
+        totalChunks: ranges.length,
+        chunkIndex: index,
+      },
+    }));
+  };
+
+  if (originalFile.textContent) {
+    // テキストドキュメントの分割
+    const text = originalFile.textContent;
+    let ranges: Array<{ start: number; end: number }> =
+      config?.chunkSize != null ? planTextChunks(text, config) : [];
+    if (ranges.length === 0 || (ranges.length === 1 && divisor > 1)) {
+      ranges = makeChunksByCount(
+        text,
+        divisor,
+        config?.overlap ?? DEFAULT_CHUNK_OVERLAP.TEXT_CHARS,
+      );
+    }
+    return toParts(ranges, ({ start, end }) => ({
+      textContent: text.slice(start, end),
+    }));
+  }
+
+  if (originalFile.imageData && originalFile.imageData.length > 0) {
+    // 画像ドキュメントの分割
+    const imageData = originalFile.imageData;
+    let ranges: Array<{ start: number; end: number }> =
+      config?.maxPagesPerChunk != null
+        ? planPageChunks(imageData.length, config)
+        : [];
+    if (ranges.length === 0 || (ranges.length === 1 && divisor > 1)) {
+      ranges = makeChunksByCount(
+        imageData,
+        divisor,
+        config?.pageOverlap ?? DEFAULT_CHUNK_OVERLAP.IMAGE_COUNT,
+      );
+    }
+    return toParts(ranges, ({ start, end }) => ({
+      imageData: imageData.slice(start, end),
+      pageOffset: (originalFile.pageOffset ?? 0) + start,
+      totalPages: originalFile.totalPages ?? imageData.length,
+    }));
+  }
+
+  return [];
+}
+
+/**
+ * 意味検索インデックスがある場合、テキストをチェック項目に関連するセクションのみに絞り込む
+ * インデックスがない場合・全セクションが関連する場合・検索に失敗した場合は元のファイルをそのまま返す
+ *
+ * @param file 抽出済みファイル
+ * @param checkListItems レビューするチェック項目（各項目の内容を検索クエリとする）
+ * @param runtimeContext ワークフローのRuntimeContext
+ * @param abortSignal 中断シグナル
+ * @returns 関連セクションに絞り込んだファイル
+ */
+async function narrowToRelevantSections(
+  file: ExtractedFile,
+  checkListItems: CheckListItem[],
+  runtimeContext:
+    | RuntimeContext<ReviewExecutionWorkflowRuntimeContext>
+    | undefined,
+  abortSignal?: AbortSignal,
+): Promise<ExtractedFile> {
+  const documentIndex = runtimeContext?.get(DOCUMENT_INDEX_CONTEXT_KEY) as
+    | IDocumentIndex
+    | undefined;
+  const reviewTargetId = runtimeContext?.get("reviewTargetId");
+  const pluginHookRunner = runtimeContext?.get(
+    PLUGIN_HOOK_RUNNER_CONTEXT_KEY,
+  ) as IPluginHookRunner | undefined;
+
+  // インデックスは加工前の内容で作成しているため、beforePromptBuildingフックで加工した内容がある場合は使用しない
+  if (
+    !documentIndex ||
+    !reviewTargetId ||
+    file.processMode !== "text" ||
+    !file.textContent ||
+    pluginHookRunner?.hasHook("beforePromptBuilding")
+  ) {
+    return file;
+  }
+
+  try {
+    const result = await documentIndex.retrieveByFileName(
+      reviewTargetId,
+      file.name,
+      checkListItems.map((item) => item.content),
+      { runtimeContext, abortSignal },
+    );
+    if (!result || result.sections.length >= result.totalSections) {
+      return file;
+    }
+    return {
+      ...file,
+      textContent: formatRetrievedSections(
+        result,
+        "the checklist items to review",
+      ),
+    };
+  } catch (error) {
+    logger.warn(
+      { err: error, fileName: file.name },
+      "関連セクションの検索に失敗したため、ドキュメント全体をレビューします",
+    );
+    return file;
+  }
+}
+
 /**
  * 個別ドキュメントレビューワークフロー
- * 個別ドキュメントレビューを実行し、コンテキスト長エラーになった時のみ分割してリトライする
+ * 分割設定の上限に従ってドキュメントを分割して個別ドキュメントレビューを実行し、
+ * コンテキスト長エラーになった場合は上限を縮小して分割し直してリトライする
  */
 const individualDocumentReviewWorkflow = createWorkflow({
   id: "individual-document-review-workflow",
-  inputSchema: individualDocumentReviewInputSchema,
+  inputSchema: individualDocumentReviewWorkflowInputSchema,
   outputSchema: individualDocumentReviewWorkflowOutputSchema,
 })
   .map(async ({ inputData }) => {
+    const { chunkingConfig, ...reviewInput } = inputData;
+    const reviewInputs = splitReviewInput(reviewInput, chunkingConfig, 1);
+
     // dountil用の初期状態を作成
     return {
       originalFile: inputData.file,
-      reviewInputs: [inputData],
+      reviewInputs: reviewInputs.length > 0 ? reviewInputs : [reviewInput],
       retryCount: 0,
       finishReason: "error" as const,
       status: "failed" as const,
+      chunkingConfig,
     } as IndividualDocumentReviewRetryInput;
   })
   .dountil(
@@ -207,71 +377,25 @@ const individualDocumentReviewWorkflow = createWorkflow({
           } as IndividualDocumentReviewRetryInput;
         }
 
-        // ドキュメントを分割してリトライ
-        const splitCount = nextRetryCount + 1;
-        const originalFile = initData.originalFile;
-        const baseInput = initData.reviewInputs[0];
-
-        if (originalFile.textContent) {
-          // テキストドキュメントの分割
-          const text = originalFile.textContent;
-          const ranges = makeChunksByCount(
-            text,
-            splitCount,
-            DEFAULT_CHUNK_OVERLAP.TEXT_CHARS,
-          );
-
-          const newReviewInputs = ranges.map(({ start, end }, index) => ({
-            ...baseInput,
-            file: {
-              ...originalFile,
-              id: `${originalFile.id}_part${index + 1}`,
-              name: `${originalFile.name} (part ${index + 1})`,
-              originalName: originalFile.name,
-              textContent: text.slice(start, end),
-              totalChunks: splitCount,
-              chunkIndex: index,
-            },
-          }));
-
-          return {
-            originalFile: initData.originalFile,
-            reviewInputs: newReviewInputs,
-            retryCount: nextRetryCount,
-            finishReason: "content_length" as const,
-            status: "success" as const,
-          } as IndividualDocumentReviewRetryInput;
-        } else if (
-          originalFile.imageData &&
-          originalFile.imageData.length > 0
-        ) {
-          // 画像ドキュメントの分割
-          const imageData = originalFile.imageData;
-          const ranges = makeChunksByCount(
-            imageData,
-            splitCount,
-            DEFAULT_CHUNK_OVERLAP.IMAGE_COUNT,
-          );
-
-          const newReviewInputs = ranges.map(({ start, end }, index) => ({
-            ...baseInput,
-            file: {
-              ...originalFile,
-              id: `${originalFile.id}_part${index + 1}`,
-              name: `${originalFile.name} (part ${index + 1})`,
-              originalName: originalFile.name,
-              imageData: imageData.slice(start, end),
-              totalChunks: splitCount,
-              chunkIndex: index,
-            },
-          }));
+        // 分割の上限を縮小し、ドキュメントを分割し直してリトライ
+        const baseInput = {
+          ...initData.reviewInputs[0],
+          file: initData.originalFile,
+        };
+        const newReviewInputs = splitReviewInput(
+          baseInput,
+          initData.chunkingConfig,
+          nextRetryCount + 1,
+        );
 
+        if (newReviewInputs.length > 0) {
           return {
             originalFile: initData.originalFile,
             reviewInputs: newReviewInputs,
             retryCount: nextRetryCount,
             finishReason: "content_length" as const,
             status: "success" as const,
+            chunkingConfig: initData.chunkingConfig,
           } as IndividualDocumentReviewRetryInput;
         }
 
@@ -320,15 +444,30 @@ const individualDocumentReviewWorkflow = createWorkflow({
 /**
  * 大量ドキュメントレビューワークフロー
  * 個別ドキュメントレビュー（並列実行） → レビュー結果統合の流れ
+ * 意味検索インデックスがある場合は、チェック項目に関連するセクションのみを個別レビューする
  */
 export const largeDocumentReviewWorkflow = createWorkflow({
   id: "large-document-review-workflow",
   inputSchema: largeDocumentReviewInputSchema,
   outputSchema: largeDocumentReviewOutputSchema,
 })
-  .map(async ({ inputData }) => {
+  .map(async ({ inputData, runtimeContext, abortSignal }) => {
+    // 意味検索インデックスがある場合は、チェック項目に関連するセクションのみをレビューする
+    const files = await Promise.all(
+      inputData.files.map((file) =>
+        narrowToRelevantSections(
+          file,
+          inputData.checkListItems,
+          runtimeContext as
+            | RuntimeContext<ReviewExecutionWorkflowRuntimeContext>
+            | undefined,
+          abortSignal,
+        ),
+      ),
+    );
+
     // 各ファイルに対する個別レビュー入力を作成
-    return inputData.files.map((file) => ({
+    return files.map((file) => ({
       file: {
         ...file,
         originalName: file.name,
@@ -338,6 +477,7 @@ export const largeDocumentReviewWorkflow = createWorkflow({
       checkListItems: inputData.checkListItems,
       additionalInstructions: inputData.additionalInstructions,
       commentFormat: inputData.commentFormat,
+      chunkingConfig: inputData.chunkingConfig,
     }));
   })
   .foreach(individualDocumentReviewWorkflow, { concurrency: 5 })
@@ -207,15 +207,90 @@ describe("consolidateReviewStep", () => {
         evaluation: "A",
         comment: "統合コメント1",
         errorMessage: null,
+        evidence: [],
       });
       expect(result.reviewResults).toContainEqual({
         checkListItemContent: "エラーハンドリングが適切か",
         evaluation: "B",
         comment: "統合コメント2",
         errorMessage: null,
+        evidence: [],
       });
     });
 
+    it("個別レビューのレビュー根拠がチェック項目ごとに統合されること", async () => {
+      // Arrange: 分割された同一ドキュメントの根拠はファイル単位でまとめられる
+      mockConsolidateReviewAgentGenerateLegacy.mockResolvedValue({
+        finishReason: "stop",
+        object: [{ checklistId: 1, comment: "統合コメント1", evaluation: "A" }],
+      });
+
+      // Act
+      const result = await executeStep({
+        documentsWithReviewResults: [
+          {
+            documentId: "doc-1-chunk-0",
+            documentName: "document1_part1.pdf",
+            originalName: "document1.pdf",
+            reviewResults: [
+              {
+                checklistId: "check-1",
+                comment: "パート1のコメント",
+                evidence: [
+                  {
+                    fileName: "document1.pdf",
+                    sectionNames: ["第1章"],
+                    pageNumbers: [2],
+                    lineRanges: [],
+                  },
+                ],
+              },
+            ],
+          },
+          {
+            documentId: "doc-1-chunk-1",
+            documentName: "document1_part2.pdf",
+            originalName: "document1.pdf",
+            reviewResults: [
+              {
+                checklistId: "check-1",
+                comment: "パート2のコメント",
+                evidence: [
+                  {
+                    fileName: "document1.pdf",
+                    sectionNames: ["第3章"],
+                    pageNumbers: [7],
+                    lineRanges: [],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+        checkListItems: [testCheckListItems[0]],
+        evaluationCriteria: testEvaluationCriteria,
+      });
+
+      // Assert
+      expect(result.status).toBe("success");
+      expect(result.reviewResults).toEqual([
+        {
+          checkListItemContent: "セキュリティ要件を満たしているか",
+          evaluation: "A",
+          comment: "統合コメント1",
+          errorMessage: null,
+          evidence: [
+            {
+              fileName: "document1.pdf",
+              sectionNames: ["第1章", "第3章"],
+              pageNumbers: [2, 7],
+              lineRanges: [],
+            },
+          ],
+        },
+      ]);
+    });
+
     it("DB保存コールバックが呼ばれること", async () => {
       // Arrange
       const mockOnReviewResultSaved = vi.fn().mockResolvedValue(undefined);
@@ -134,18 +134,43 @@ describe("individualDocumentReviewStep", () => {
         documentName: "test-document.txt",
         checklistId: "check-1",
         comment: "セキュリティ要件を満たしています",
+        // 根拠のファイル名は元のファイル名で記録される
+        evidence: [
+          {
+            fileName: "test-document.txt",
+            sectionNames: ["intro"],
+            pageNumbers: [],
+            lineRanges: [],
+          },
+        ],
       });
       expect(result.reviewResults).toContainEqual({
         documentId: "file-1",
         documentName: "test-document.txt",
         checklistId: "check-2",
         comment: "エラーハンドリングは適切です",
+        evidence: [
+          {
+            fileName: "test-document.txt",
+            sectionNames: ["error"],
+            pageNumbers: [],
+            lineRanges: [],
+          },
+        ],
       });
       expect(result.reviewResults).toContainEqual({
         documentId: "file-1",
         documentName: "test-document.txt",
         checklistId: "check-3",
         comment: "パフォーマンス要件を満たしています",
+        evidence: [
+          {
+            fileName: "test-document.txt",
+            sectionNames: ["perf"],
+            pageNumbers: [],
+            lineRanges: [],
+          },
+        ],
       });
     });
 
@@ -219,6 +244,8 @@ describe("individualDocumentReviewStep", () => {
 
       // runtimeContextが作成されていることを確認
       expect(options.runtimeContext).toBeDefined();
+      // リトライはwithAiApiRetryで行うため、AI SDKのリトライは無効にする
+      expect(options.maxRetries).toBe(0);
     });
   });
 
@@ -7,10 +7,13 @@ import {
   checklistCategoryOutputSchema,
 } from "../../../agents";
 import { createRuntimeContext } from "../../../lib/agentUtils";
+import { withAiApiRetry } from "../../../lib/aiApiRetry";
+import { AI_MODEL_TARGET } from "@/domain/system-setting";
 import { normalizeUnknownError, workflowError } from "@/lib/server/error";
 import type { ChecklistCategoryAgentRuntimeContext } from "../../../agents";
 import {
   checkListItemSchema,
+  type CheckListItem,
   type ReviewExecutionWorkflowRuntimeContext,
 } from "../types";
 
@@ -68,6 +71,37 @@ function splitChecklistEqually<T>(items: T[], maxSize: number): T[][] {
   return result;
 }
 
+/**
+ * カテゴリ設定済みのチェック項目をカテゴリごとにまとめる
+ * カテゴリは最初に出現した順（チェックリストの表示順）に並べる
+ */
+function groupByStoredCategory(items: CheckListItem[]): {
+  categorizedGroups: CheckListItem[][];
+  uncategorizedItems: CheckListItem[];
+} {
+  const groups = new Map<string, CheckListItem[]>();
+  const uncategorizedItems: CheckListItem[] = [];
+
+  for (const item of items) {
+    const category = item.category?.trim();
+    if (!category) {
+      uncategorizedItems.push(item);
+      continue;
+    }
+    const group = groups.get(category);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(category, [item]);
+    }
+  }
+
+  return {
+    categorizedGroups: Array.from(groups.values()),
+    uncategorizedItems,
+  };
+}
+
 /**
  * デフォルトの最大カテゴリ数
  */
@@ -80,8 +114,9 @@ const DEFAULT_MAX_CATEGORIES = 10;
  * 動作:
  * - concurrentReviewItems未指定または全項目数以上: 分割なし（1チャンク）
  * - concurrentReviewItems = 1: 単純に1件ずつ分割
- * - concurrentReviewItems >= 2: AIカテゴリ分類で意味的に分割
- * - AI分類失敗時: 単純均等分割にフォールバック
+ * - concurrentReviewItems >= 2: カテゴリ設定済みの項目は設定されたカテゴリごとに分割し、
+ *   カテゴリ未設定の項目のみAIカテゴリ分類で意味的に分割
+ * - AI分類失敗時: カテゴリ未設定の項目を単純均等分割にフォールバック
  */
 export const classifyChecklistStep = createStep({
   id: "classify-checklist",
@@ -123,10 +158,28 @@ export const classifyChecklistStep = createStep({
         };
       }
 
-      // chunkSize >= 2 の場合はAIカテゴリ分類を実行
+      // chunkSize >= 2 の場合、カテゴリ設定済みの項目は設定されたカテゴリで分割
+      const { categorizedGroups, uncategorizedItems } =
+        groupByStoredCategory(checkListItems);
+      const categorizedChunks = categorizedGroups.flatMap((group) =>
+        splitChecklistEqually(group, chunkSize),
+      );
+
+      // カテゴリ未設定の項目が1チャンクに収まる場合はAI分類不要
+      if (uncategorizedItems.length <= chunkSize) {
+        return {
+          status: "success",
+          chunks:
+            uncategorizedItems.length > 0
+              ? [...categorizedChunks, uncategorizedItems]
+              : categorizedChunks,
+        };
+      }
+
+      // カテゴリ未設定の項目のみAIカテゴリ分類を実行
       try {
-        const chunks = await classifyWithAI(
-          checkListItems,
+        const uncategorizedChunks = await classifyWithAI(
+          uncategorizedItems,
           chunkSize,
           workflowRuntimeContext as
             | RuntimeContext<ReviewExecutionWorkflowRuntimeContext>
@@ -135,13 +188,16 @@ export const classifyChecklistStep = createStep({
         );
         return {
           status: "success",
-          chunks,
+          chunks: [...categorizedChunks, ...uncategorizedChunks],
         };
       } catch {
         // AI分類失敗時は単純均等分割にフォールバック
         return {
           status: "success",
-          chunks: splitChecklistEqually(checkListItems, chunkSize),
+          chunks: [
+            ...categorizedChunks,
+            ...splitChecklistEqually(uncategorizedItems, chunkSize),
+          ],
         };
       }
     } catch (error) {
@@ -158,16 +214,17 @@ export const classifyChecklistStep = createStep({
  * AIを使用してチェックリストをカテゴリ分類する
  */
 async function classifyWithAI(
-  checkListItems: { id: string; content: string }[],
+  checkListItems: CheckListItem[],
   maxChecklistsPerCategory: number,
   workflowRuntimeContext?: RuntimeContext<ReviewExecutionWorkflowRuntimeContext>,
   abortSignal?: AbortSignal,
-): Promise<{ id: string; content: string }[][]> {
+): Promise<CheckListItem[][]> {
   // workflowのRuntimeContextから確定済みのAI API設定を取得
   const employeeId = workflowRuntimeContext?.get("employeeId");
   const aiApiKey = workflowRuntimeContext?.get("aiApiKey");
   const aiApiUrl = workflowRuntimeContext?.get("aiApiUrl");
   const aiApiModel = workflowRuntimeContext?.get("aiApiModel");
+  const aiModelEndpoints = workflowRuntimeContext?.get("aiModelEndpoints");
 
   // エージェント用のRuntimeContextを作成
   const runtimeContext =
@@ -178,6 +235,7 @@ async function classifyWithAI(
       aiApiKey,
       aiApiUrl,
       aiApiModel,
+      aiModelEndpoints,
     });
 
   // チェックリスト項目をフォーマット（1始まりの連番IDを使用してトークン消費を削減）
@@ -187,12 +245,22 @@ async function classifyWithAI(
 
   try {
     // エージェントを実行
-    const result = await checklistCategoryAgent.generateLegacy(
-      `checklist items:\n${checklistPrompt}`,
+    const result = await withAiApiRetry(
+      () =>
+        checklistCategoryAgent.generateLegacy(
+          `checklist items:\n${checklistPrompt}`,
+          {
+            output: checklistCategoryOutputSchema,
+            runtimeContext,
+            maxRetries: 0,
+            abortSignal,
+          },
+        ),
       {
-        output: checklistCategoryOutputSchema,
-        runtimeContext,
+        runtimeContext: workflowRuntimeContext,
         abortSignal,
+        operationName: "classifyChecklist",
+        modelTarget: AI_MODEL_TARGET.CHECKLIST_CATEGORY,
       },
     );
 
@@ -222,7 +290,7 @@ async function classifyWithAI(
 
     // 重複排除とチャンク分割
     const seen = new Set<number>();
-    const chunks: { id: string; content: string }[][] = [];
+    const chunks: CheckListItem[][] = [];
 
     for (const { checklistIds } of rawCategories) {
       // カテゴリ内の重複排除
@@ -253,10 +321,7 @@ async function classifyWithAI(
               ? checkListItems[index]
               : undefined;
           })
-          .filter(
-            (item): item is { id: string; content: string } =>
-              item !== undefined,
-          );
+          .filter((item): item is CheckListItem => item !== undefined);
 
         if (chunk.length > 0) {
           chunks.push(chunk);
@@ -7,6 +7,8 @@ import {
   createRuntimeContext,
   judgeFinishReason,
 } from "../../../lib/agentUtils";
+import { withAiApiRetry } from "../../../lib/aiApiRetry";
+import { AI_MODEL_TARGET } from "@/domain/system-setting";
 import { normalizeUnknownError, workflowError } from "@/lib/server/error";
 import { formatMessage } from "@/lib/server/messages";
 import type { ConsolidateReviewAgentRuntimeContext } from "../../../agents";
@@ -14,10 +16,13 @@ import {
   checkListItemSchema,
   evaluationCriterionSchema,
   singleReviewResultSchema,
+  reviewEvidenceSchema,
   type ReviewExecutionWorkflowRuntimeContext,
   type SingleReviewResult,
   type IndividualDocumentResult,
+  type ReviewEvidenceItem,
 } from "../types";
+import { mergeReviewEvidence } from "../evidence";
 import type { IndividualDocumentReviewResult } from "./individualDocumentReviewStep";
 
 /**
@@ -35,6 +40,8 @@ export const documentWithReviewResultsSchema = z.object({
     z.object({
       checklistId: z.string(),
       comment: z.string(),
+      /** レビュー根拠 */
+      evidence: z.array(reviewEvidenceSchema).optional(),
     }),
   ),
 });
@@ -93,6 +100,7 @@ export function groupReviewResultsByDocument(
       existing.reviewResults.push({
         checklistId: result.checklistId,
         comment: result.comment,
+        evidence: result.evidence,
       });
     } else {
       documentMap.set(result.documentId, {
@@ -103,6 +111,7 @@ export function groupReviewResultsByDocument(
           {
             checklistId: result.checklistId,
             comment: result.comment,
+            evidence: result.evidence,
           },
         ],
       });
@@ -141,6 +150,8 @@ export const consolidateReviewStep = createStep({
     const aiApiKey = typedWorkflowRuntimeContext?.get("aiApiKey");
     const aiApiUrl = typedWorkflowRuntimeContext?.get("aiApiUrl");
     const aiApiModel = typedWorkflowRuntimeContext?.get("aiApiModel");
+    const aiModelEndpoints =
+      typedWorkflowRuntimeContext?.get("aiModelEndpoints");
     const reviewTargetId = typedWorkflowRuntimeContext?.get("reviewTargetId");
     const onReviewResultSaved = typedWorkflowRuntimeContext?.get(
       "onReviewResultSaved",
@@ -191,6 +202,21 @@ export const consolidateReviewStep = createStep({
         ...new Set(consolidatedInput.map((doc) => doc.originalName)),
       ].join(", ");
 
+      // 統合結果の根拠は、各ドキュメントの個別レビューで参照された箇所をまとめたものとする
+      const evidenceByChecklistId = new Map<string, ReviewEvidenceItem[]>();
+      for (const item of checkListItems) {
+        evidenceByChecklistId.set(
+          item.id,
+          mergeReviewEvidence(
+            documentsWithReviewResults.flatMap((doc) =>
+              doc.reviewResults
+                .filter((result) => result.checklistId === item.id)
+                .flatMap((result) => result.evidence ?? []),
+            ),
+          ),
+        );
+      }
+
       // 最大リトライ回数まで統合レビューを繰り返す
       while (attempt < MAX_RETRY_ATTEMPTS && targetChecklistItems.length > 0) {
         // チェックリストIDとショートIDのマッピングを作成
@@ -246,17 +272,27 @@ Please provide a consolidated review that synthesizes all individual document re
             aiApiKey,
             aiApiUrl,
             aiApiModel,
+            aiModelEndpoints,
           });
 
         // エージェントを実行
-        const result = await consolidateReviewAgent.generateLegacy(
-          {
-            role: "user",
-            content: [{ type: "text", text: consolidationMessage }],
-          },
+        const result = await withAiApiRetry(
+          () =>
+            consolidateReviewAgent.generateLegacy(
+              {
+                role: "user",
+                content: [{ type: "text", text: consolidationMessage }],
+              },
+              {
+                output: dynamicOutputSchema,
+                runtimeContext,
+                maxRetries: 0,
+              },
+            ),
           {
-            output: dynamicOutputSchema,
-            runtimeContext,
+            runtimeContext: workflowRuntimeContext,
+            operationName: "consolidateReview",
+            modelTarget: AI_MODEL_TARGET.CONSOLIDATE_REVIEW,
           },
         );
 
@@ -293,6 +329,7 @@ Please provide a consolidated review that synthesizes all individual document re
                 evaluation: item.evaluation,
                 comment: item.comment,
                 errorMessage: null,
+                evidence: evidenceByChecklistId.get(targetItem.id) ?? [],
               };
               reviewResults.push(reviewResult);
               newResults.push(reviewResult);
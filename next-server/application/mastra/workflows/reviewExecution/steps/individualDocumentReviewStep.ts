@@ -12,14 +12,19 @@ import {
   createRuntimeContext,
   judgeFinishReason,
 } from "../../../lib/agentUtils";
+import { withAiApiRetry } from "../../../lib/aiApiRetry";
+import { AI_MODEL_TARGET } from "@/domain/system-setting";
 import { judgeErrorIsContentLengthError } from "../../../lib/util";
 import { normalizeUnknownError, workflowError } from "@/lib/server/error";
 import { formatMessage } from "@/lib/server/messages";
 import type { IndividualDocumentReviewAgentRuntimeContext } from "../../../agents";
 import {
   checkListItemSchema,
+  reviewEvidenceSchema,
   type ReviewExecutionWorkflowRuntimeContext,
 } from "../types";
+import { reviewSectionsSchema } from "@/application/mastra/agents/types";
+import { toReviewEvidence } from "../evidence";
 
 /**
  * 個別ドキュメントレビュー結果のスキーマ
@@ -34,6 +39,8 @@ export const individualDocumentReviewResultSchema = z.object({
   checklistId: z.string(),
   /** レビューコメント */
   comment: z.string(),
+  /** レビュー根拠 */
+  evidence: z.array(reviewEvidenceSchema).optional(),
 });
 
 export type IndividualDocumentReviewResult = z.infer<
@@ -113,17 +120,15 @@ export const individualDocumentReviewStep = createStep({
     const aiApiKey = typedWorkflowRuntimeContext?.get("aiApiKey");
     const aiApiUrl = typedWorkflowRuntimeContext?.get("aiApiUrl");
     const aiApiModel = typedWorkflowRuntimeContext?.get("aiApiModel");
+    const aiModelEndpoints =
+      typedWorkflowRuntimeContext?.get("aiModelEndpoints");
 
     try {
       // 動的に出力スキーマを作成（チェックリストIDは1始まり連番）
       const dynamicOutputSchema = z.array(
         z.object({
-          // CoTのようにAIにどのファイルのどのセクションをレビューするべきかを考えさせるための隠しフィールド
-          reviewSections: z
-            .array(z.string().describe("section name within the file"))
-            .describe(
-              "sections that should be reviewed for evaluation and commenting",
-            ),
+          // CoTのようにAIにどのセクションをレビューするべきかを考えさせ、根拠として保存するフィールド
+          reviewSections: reviewSectionsSchema,
           checklistId: z.number().describe("checklist item ID"),
           comment: z.string().describe("review comment"),
         }),
@@ -175,6 +180,7 @@ Please provide a thorough review based on the document content provided above.`;
             aiApiKey,
             aiApiUrl,
             aiApiModel,
+            aiModelEndpoints,
           });
 
         // チェックリストリマインダーを追加
@@ -185,15 +191,25 @@ Please provide a thorough review based on the document content provided above.`;
         ];
 
         // エージェントを実行
-        const result = await individualDocumentReviewAgent.generateLegacy(
-          {
-            role: "user",
-            content: messageWithReminder,
-          },
+        const result = await withAiApiRetry(
+          () =>
+            individualDocumentReviewAgent.generateLegacy(
+              {
+                role: "user",
+                content: messageWithReminder,
+              },
+              {
+                output: dynamicOutputSchema,
+                runtimeContext,
+                maxRetries: 0,
+                abortSignal,
+              },
+            ),
           {
-            output: dynamicOutputSchema,
-            runtimeContext,
+            runtimeContext: workflowRuntimeContext,
             abortSignal,
+            operationName: "individualDocumentReview",
+            modelTarget: AI_MODEL_TARGET.INDIVIDUAL_DOCUMENT_REVIEW,
           },
         );
 
@@ -231,6 +247,8 @@ Please provide a thorough review based on the document content provided above.`;
                 documentName: file.name,
                 checklistId: targetItem.id,
                 comment: item.comment,
+                // 分割されたドキュメントでも元のファイル名で根拠を記録する
+                evidence: toReviewEvidence(item.reviewSections, originalName),
               });
             }
           }
@@ -12,6 +12,8 @@ import {
   createRuntimeContext,
   judgeFinishReason,
 } from "../../../lib/agentUtils";
+import { withAiApiRetry } from "../../../lib/aiApiRetry";
+import { AI_MODEL_TARGET } from "@/domain/system-setting";
 import { normalizeUnknownError, workflowError } from "@/lib/server/error";
 import { formatMessage } from "@/lib/server/messages";
 import type { ReviewExecuteAgentRuntimeContext } from "../../../agents";
@@ -22,6 +24,8 @@ import {
   type ReviewExecutionWorkflowRuntimeContext,
   type SingleReviewResult,
 } from "../types";
+import { reviewSectionsSchema } from "@/application/mastra/agents/types";
+import { toReviewEvidence } from "../evidence";
 
 /**
  * 少量ドキュメントレビューステップの入力スキーマ
@@ -86,6 +90,8 @@ export const smallDocumentReviewStep = createStep({
     const aiApiKey = typedWorkflowRuntimeContext?.get("aiApiKey");
     const aiApiUrl = typedWorkflowRuntimeContext?.get("aiApiUrl");
     const aiApiModel = typedWorkflowRuntimeContext?.get("aiApiModel");
+    const aiModelEndpoints =
+      typedWorkflowRuntimeContext?.get("aiModelEndpoints");
     const reviewTargetId = typedWorkflowRuntimeContext?.get("reviewTargetId");
     const onReviewResultSaved = typedWorkflowRuntimeContext?.get(
       "onReviewResultSaved",
@@ -113,18 +119,7 @@ export const smallDocumentReviewStep = createStep({
       const dynamicOutputSchema = z.array(
         z.object({
           checklistId: z.number().describe("Checklist item ID"),
-          reviewSections: z
-            .array(
-              z.object({
-                fileName: z.string().describe("file name to review"),
-                sectionNames: z.array(
-                  z.string().describe("section name within the file"),
-                ),
-              }),
-            )
-            .describe(
-              "files and sections that should be reviewed for evaluation and commenting",
-            ),
+          reviewSections: reviewSectionsSchema,
           comment: z.string().describe("evaluation comment"),
           evaluation: evaluationEnum.describe("evaluation"),
         }),
@@ -162,6 +157,7 @@ Please review the document against the above checklist items.`;
             aiApiKey,
             aiApiUrl,
             aiApiModel,
+            aiModelEndpoints,
           });
 
         // チェックリストリマインダーを追加
@@ -172,15 +168,25 @@ Please review the document against the above checklist items.`;
         ];
 
         // エージェントを実行
-        const result = await reviewExecuteAgent.generateLegacy(
-          {
-            role: "user",
-            content: messageWithReminder,
-          },
+        const result = await withAiApiRetry(
+          () =>
+            reviewExecuteAgent.generateLegacy(
+              {
+                role: "user",
+                content: messageWithReminder,
+              },
+              {
+                output: dynamicOutputSchema,
+                runtimeContext,
+                maxRetries: 0,
+                abortSignal,
+              },
+            ),
           {
-            output: dynamicOutputSchema,
-            runtimeContext,
+            runtimeContext: workflowRuntimeContext,
             abortSignal,
+            operationName: "smallDocumentReview",
+            modelTarget: AI_MODEL_TARGET.REVIEW_EXECUTE,
           },
         );
 
@@ -214,6 +220,7 @@ Please review the document against the above checklist items.`;
                 evaluation: item.evaluation,
                 comment: item.comment,
                 errorMessage: null,
+                evidence: toReviewEvidence(item.reviewSections),
               };
               reviewResults.push(reviewResult);
               newResults.push(reviewResult);
@@ -5,13 +5,24 @@ import {
   ExtractedFile,
 } from "../shared/types";
 import { BaseRuntimeContext } from "../../types";
+import type { IPluginHookRunner } from "@/application/shared/port/plugin";
+import type { IDocumentIndex } from "@/application/shared/port/documentIndex";
+import { CHECK_LIST_ITEM_SEVERITY_VALUES } from "@/domain/checkListItem";
+import { chunkingConfigSchema } from "../../lib/chunking";
 
 /**
  * チェック項目のスキーマ
+ * カテゴリ・重要度・ガイダンスはチェックリスト編集画面で設定された場合のみ含まれる
  */
 export const checkListItemSchema = z.object({
   id: z.string(),
   content: z.string(),
+  /** カテゴリ（設定済みの場合はAI分類を行わずにこの単位でレビューする） */
+  category: z.string().nullable().optional(),
+  /** 重要度 */
+  severity: z.enum(CHECK_LIST_ITEM_SEVERITY_VALUES).optional(),
+  /** レビュアー向けガイダンス・判定例 */
+  guidance: z.string().nullable().optional(),
 });
 
 export type CheckListItem = z.infer<typeof checkListItemSchema>;
@@ -58,6 +69,8 @@ export const triggerSchema = z.object({
   reviewSettings: reviewSettingsInputSchema.optional(),
   /** レビュー種別（デフォルト: small） */
   reviewType: reviewTypeSchema.optional().default("small"),
+  /** 確定済みのドキュメント分割設定（大量レビュー時のみ使用） */
+  chunkingConfig: chunkingConfigSchema.optional(),
 });
 
 export type TriggerInput = z.infer<typeof triggerSchema>;
@@ -131,8 +144,28 @@ export interface ReviewExecutionWorkflowRuntimeContext extends BaseRuntimeContex
   useCachedDocuments?: boolean;
   /** キャッシュされたドキュメント配列（リトライ時） */
   cachedDocuments?: CachedDocument[];
+  /** プラグインフック実行（レビュースペースに有効なプラグインがある場合のみ） */
+  pluginHookRunner?: IPluginHookRunner;
+  /** ドキュメント意味検索インデックス（埋め込みモデルが設定されている場合のみ） */
+  documentIndex?: IDocumentIndex;
 }
 
+/**
+ * レビュー根拠（ファイル単位の参照箇所）
+ */
+export const reviewEvidenceSchema = z.object({
+  /** ファイル名 */
+  fileName: z.string(),
+  /** 参照したセクション名 */
+  sectionNames: z.array(z.string()),
+  /** ページ番号（ドキュメント上で判別できる場合のみ） */
+  pageNumbers: z.array(z.number()),
+  /** 行範囲（ドキュメント上で判別できる場合のみ） */
+  lineRanges: z.array(z.object({ start: z.number(), end: z.number() })),
+});
+
+export type ReviewEvidenceItem = z.infer<typeof reviewEvidenceSchema>;
+
 /**
  * 単一のレビュー結果
  */
@@ -142,6 +175,8 @@ export const singleReviewResultSchema = z.object({
   evaluation: z.string().nullable(),
   comment: z.string().nullable(),
   errorMessage: z.string().nullable(),
+  /** レビュー根拠（エラー時は未設定） */
+  evidence: z.array(reviewEvidenceSchema).optional(),
 });
 
 export type SingleReviewResult = z.infer<typeof singleReviewResultSchema>;
@@ -2,10 +2,16 @@
 export {
   processModeSchema,
   rawUploadFileMetaSchema,
+  renderOptionsSchema,
+  archiveOptionsSchema,
   extractedFileSchema,
   FILE_BUFFERS_CONTEXT_KEY,
+  PLUGIN_HOOK_RUNNER_CONTEXT_KEY,
+  DOCUMENT_INDEX_CONTEXT_KEY,
   type ProcessMode,
   type RawUploadFileMeta,
+  type RenderOptions,
+  type ArchiveOptions,
   type ExtractedFile,
   type FileBufferData,
   type FileBuffersMap,
@@ -1,7 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { RuntimeContext } from "@mastra/core/di";
+import JSZip from "jszip";
 import { fileProcessingStep } from "../fileProcessingStep";
-import { FILE_BUFFERS_CONTEXT_KEY } from "../../types";
+import {
+  FILE_BUFFERS_CONTEXT_KEY,
+  PLUGIN_HOOK_RUNNER_CONTEXT_KEY,
+} from "../../types";
+import type { IPluginHookRunner } from "@/application/shared/port/plugin";
+import { internalError } from "@/lib/server/error";
 import type {
   RawUploadFileMeta,
   FileBuffersMap,
@@ -12,6 +18,16 @@ import type {
 vi.mock("@/infrastructure/adapter/textExtractor", () => ({
   FileTextExtractor: vi.fn().mockImplementation(() => ({
     extract: vi.fn().mockResolvedValue("抽出されたテキスト"),
+    getSupportedExtensions: vi.fn().mockReturnValue([".txt", ".ts"]),
+  })),
+}));
+
+// DocumentRendererをモック（PDFのみ対応として扱う）
+const mockRender = vi.fn();
+vi.mock("@/infrastructure/adapter/documentRenderer", () => ({
+  DocumentRenderer: vi.fn().mockImplementation(() => ({
+    isSupported: vi.fn(async (ext: string) => ext === ".pdf"),
+    render: mockRender,
   })),
 }));
 
@@ -24,6 +40,9 @@ vi.mock("@/lib/server/logger", () => ({
   }),
 }));
 
+/** ステップの実行引数（テストで使用する項目のみ指定する） */
+type StepExecuteParams = Parameters<typeof fileProcessingStep.execute>[0];
+
 describe("fileProcessingStep", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -247,6 +266,309 @@ describe("fileProcessingStep", () => {
     });
   });
 
+  describe("サーバー側の画像変換", () => {
+    const executeWithFile = (
+      fileMeta: Partial<RawUploadFileMeta>,
+      bufferData: FileBufferData,
+    ) => {
+      const fileBuffers: FileBuffersMap = new Map();
+      fileBuffers.set("file-1", bufferData);
+
+      const runtimeContext = new RuntimeContext();
+      runtimeContext.set(FILE_BUFFERS_CONTEXT_KEY, fileBuffers);
+
+      return fileProcessingStep.execute({
+        inputData: {
+          files: [
+            {
+              id: "file-1",
+              name: "test.pdf",
+              type: "application/pdf",
+              size: 100,
+              processMode: "image" as const,
+              ...fileMeta,
+            },
+          ],
+        },
+        runtimeContext,
+        getStepResult: vi.fn(),
+        getInitData: vi.fn(),
+        suspend: vi.fn(),
+        runId: "test-run-id",
+        bail: vi.fn(),
+      } as unknown as StepExecuteParams);
+    };
+
+    it("変換済み画像がないPDFはサーバー側で画像に変換されること", async () => {
+      const pdfBuffer = Buffer.from("元PDFデータ");
+      const onImagesRendered = vi.fn().mockResolvedValue(undefined);
+      const images = [Buffer.from("PNG2"), Buffer.from("PNG4")];
+      mockRender.mockResolvedValueOnce({
+        images,
+        pageNumbers: [2, 4],
+        totalPages: 5,
+      });
+
+      const result = await executeWithFile(
+        { renderOptions: { pageRange: "2,4", scale: 1.5 } },
+        { buffer: pdfBuffer, onImagesRendered },
+      );
+
+      expect(result.status).toBe("success");
+      expect(mockRender).toHaveBeenCalledWith(pdfBuffer, "test.pdf", {
+        pageRange: "2,4",
+        scale: 1.5,
+      });
+      expect(onImagesRendered).toHaveBeenCalledWith(images);
+      expect(result.extractedFiles![0]).toMatchObject({
+        processMode: "image",
+        imageData: [
+          `data:image/png;base64,${Buffer.from("PNG2").toString("base64")}`,
+          `data:image/png;base64,${Buffer.from("PNG4").toString("base64")}`,
+        ],
+        pageNumbers: [2, 4],
+        totalPages: 5,
+      });
+    });
+
+    it("変換済み画像がある場合はサーバー側で変換しないこと", async () => {
+      const result = await executeWithFile(
+        { convertedImageCount: 1 },
+        {
+          buffer: Buffer.from("元PDFデータ"),
+          convertedImageBuffers: [Buffer.from("PNG")],
+        },
+      );
+
+      expect(result.status).toBe("success");
+      expect(mockRender).not.toHaveBeenCalled();
+      expect(result.extractedFiles![0].pageNumbers).toBeUndefined();
+    });
+
+    it("画像変換に対応しない形式は元のバッファを画像として扱うこと", async () => {
+      const result = await executeWithFile(
+        { name: "photo.png", type: "image/png" },
+        { buffer: Buffer.from("PNG") },
+      );
+
+      expect(result.status).toBe("success");
+      expect(mockRender).not.toHaveBeenCalled();
+      expect(result.extractedFiles![0].imageData).toEqual([
+        `data:image/png;base64,${Buffer.from("PNG").toString("base64")}`,
+      ]);
+    });
+
+    it("画像変換に失敗した場合はfailedを返すこと", async () => {
+      mockRender.mockRejectedValueOnce(
+        internalError({
+          expose: true,
+          messageCode: "DOCUMENT_RENDER_FAILED",
+          messageParams: {
+            detail: "画像変換できるページ数の上限（100ページ）を超えています",
+          },
+        }),
+      );
+
+      const result = await executeWithFile({}, { buffer: Buffer.from("PDF") });
+
+      expect(result.status).toBe("failed");
+      expect(result.errorMessage).toContain("test.pdf");
+      expect(result.errorMessage).toContain("ページ数の上限");
+    });
+  });
+
+  describe("アーカイブ", () => {
+    const createZip = async (files: Record<string, string>) => {
+      const zip = new JSZip();
+      for (const [name, content] of Object.entries(files)) {
+        zip.file(name, content);
+      }
+      return zip.generateAsync({ type: "nodebuffer" });
+    };
+
+    const executeWithArchive = (
+      buffer: Buffer,
+      fileMeta: Partial<RawUploadFileMeta> = {},
+    ) => {
+      const fileBuffers: FileBuffersMap = new Map();
+      fileBuffers.set("file-1", { buffer });
+
+      const runtimeContext = new RuntimeContext();
+      runtimeContext.set(FILE_BUFFERS_CONTEXT_KEY, fileBuffers);
+
+      return fileProcessingStep.execute({
+        inputData: {
+          files: [
+            {
+              id: "file-1",
+              name: "src.zip",
+              type: "application/zip",
+              size: buffer.length,
+              processMode: "text" as const,
+              ...fileMeta,
+            },
+          ],
+        },
+        runtimeContext,
+        getStepResult: vi.fn(),
+        getInitData: vi.fn(),
+        suspend: vi.fn(),
+        runId: "test-run-id",
+        bail: vi.fn(),
+      } as unknown as StepExecuteParams);
+    };
+
+    it("アーカイブ内の対応ファイルごとにドキュメントが作成されること", async () => {
+      const buffer = await createZip({
+        "src/b.ts": "export const b = 2;",
+        "src/a.ts": "export const a = 1;",
+        "assets/logo.bin": "binary",
+      });
+
+      const result = await executeWithArchive(buffer);
+
+      expect(result.status).toBe("success");
+      expect(result.extractedFiles).toEqual([
+        {
+          id: "file-1-1",
+          name: "src.zip/src/a.ts",
+          type: "text/plain",
+          processMode: "text",
+          textContent: "抽出されたテキスト",
+        },
+        {
+          id: "file-1-2",
+          name: "src.zip/src/b.ts",
+          type: "text/plain",
+          processMode: "text",
+          textContent: "抽出されたテキスト",
+        },
+      ]);
+    });
+
+    it("対象・除外パターンが適用されること", async () => {
+      const buffer = await createZip({
+        "src/a.ts": "a",
+        "src/a.test.ts": "test",
+        "docs/readme.txt": "readme",
+      });
+
+      const result = await executeWithArchive(buffer, {
+        archiveOptions: {
+          includePatterns: ["src/**"],
+          excludePatterns: ["*.test.ts"],
+        },
+      });
+
+      expect(result.status).toBe("success");
+      expect(result.extractedFiles!.map((f) => f.name)).toEqual([
+        "src.zip/src/a.ts",
+      ]);
+    });
+
+    it("対象のファイルがない場合はfailedを返すこと", async () => {
+      const buffer = await createZip({ "assets/logo.bin": "binary" });
+
+      const result = await executeWithArchive(buffer);
+
+      expect(result.status).toBe("failed");
+      expect(result.errorMessage).toContain(
+        "レビュー対象のファイルがありません",
+      );
+    });
+  });
+
+  describe("プラグインフック", () => {
+    const inputData = {
+      files: [
+        {
+          id: "file-1",
+          name: "main.ts",
+          type: "text/plain",
+          size: 100,
+          processMode: "text" as const,
+        },
+      ],
+    };
+
+    const executeWithRunner = (runner: IPluginHookRunner) => {
+      const fileBuffers: FileBuffersMap = new Map();
+      fileBuffers.set("file-1", { buffer: Buffer.from("const a = 1;") });
+
+      const runtimeContext = new RuntimeContext();
+      runtimeContext.set(FILE_BUFFERS_CONTEXT_KEY, fileBuffers);
+      runtimeContext.set(PLUGIN_HOOK_RUNNER_CONTEXT_KEY, runner);
+
+      return fileProcessingStep.execute({
+        inputData,
+        runtimeContext,
+        getStepResult: vi.fn(),
+        getInitData: vi.fn(),
+        suspend: vi.fn(),
+        runId: "test-run-id",
+        bail: vi.fn(),
+      } as unknown as StepExecuteParams);
+    };
+
+    const createRunner = (
+      overrides: Partial<IPluginHookRunner> = {},
+    ): IPluginHookRunner => ({
+      hasHook: vi.fn().mockReturnValue(true),
+      runBeforeExtraction: vi.fn(async (file) => ({
+        fileName: file.fileName,
+        buffer: file.buffer,
+      })),
+      runAfterExtraction: vi.fn(async (_name, text) => `${text}（加工済み）`),
+      runBeforePromptBuilding: vi.fn(),
+      runAfterResults: vi.fn(),
+      ...overrides,
+    });
+
+    it("beforeExtractionでテキスト化された場合はその内容を採用する", async () => {
+      const runner = createRunner({
+        runBeforeExtraction: vi.fn().mockResolvedValue({
+          fileName: "main.ts",
+          buffer: Buffer.from(""),
+          textContent: "1: const a = 1;",
+        }),
+      });
+
+      const result = await executeWithRunner(runner);
+
+      expect(result.status).toBe("success");
+      expect(result.extractedFiles![0].textContent).toBe(
+        "1: const a = 1;（加工済み）",
+      );
+      expect(runner.runAfterExtraction).toHaveBeenCalledWith(
+        "main.ts",
+        "1: const a = 1;",
+      );
+    });
+
+    it("beforeExtractionでテキスト化されない場合は組み込みの抽出を行う", async () => {
+      const runner = createRunner();
+
+      const result = await executeWithRunner(runner);
+
+      expect(result.extractedFiles![0].textContent).toBe(
+        "抽出されたテキスト（加工済み）",
+      );
+    });
+
+    it("プラグインのエラーはファイル処理の失敗として返す", async () => {
+      const runner = createRunner({
+        runBeforeExtraction: vi
+          .fn()
+          .mockRejectedValue(new Error("plugin failed")),
+      });
+
+      const result = await executeWithRunner(runner);
+
+      expect(result.status).toBe("failed");
+      expect(result.errorMessage).toContain("main.ts");
+    });
+  });
+
   describe("異常系", () => {
     it("RuntimeContextにfileBuffersがない場合failedを返すこと", async () => {
       const runtimeContext = new RuntimeContext();
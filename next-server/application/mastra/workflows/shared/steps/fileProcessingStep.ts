@@ -1,3 +1,4 @@
+import path from "path";
 import { createStep } from "@mastra/core/workflows";
 import type { RuntimeContext } from "@mastra/core/di";
 import { z } from "zod";
@@ -6,13 +7,19 @@ import {
   rawUploadFileMetaSchema,
   extractedFileSchema,
   FILE_BUFFERS_CONTEXT_KEY,
+  PLUGIN_HOOK_RUNNER_CONTEXT_KEY,
   type RawUploadFileMeta,
   type ExtractedFile,
   type FileBuffersMap,
   type FileBufferData,
 } from "../types";
 import { FileTextExtractor } from "@/infrastructure/adapter/textExtractor";
-import { normalizeUnknownError } from "@/lib/server/error";
+import { DocumentRenderer } from "@/infrastructure/adapter/documentRenderer";
+import { ArchiveExtractor } from "@/infrastructure/adapter/archive";
+import type { IDocumentRenderer } from "@/application/shared/port/documentRenderer";
+import type { IArchiveExtractor } from "@/application/shared/port/archive";
+import type { IPluginHookRunner } from "@/application/shared/port/plugin";
+import { internalError, normalizeUnknownError } from "@/lib/server/error";
 import { getLogger } from "@/lib/server/logger";
 
 /**
@@ -37,6 +44,7 @@ export type FileProcessingOutput = z.infer<typeof fileProcessingOutputSchema>;
  */
 interface FileProcessingRuntimeContext {
   [FILE_BUFFERS_CONTEXT_KEY]?: FileBuffersMap;
+  [PLUGIN_HOOK_RUNNER_CONTEXT_KEY]?: IPluginHookRunner;
 }
 
 /**
@@ -45,6 +53,11 @@ interface FileProcessingRuntimeContext {
  *
  * - text mode: FileTextExtractorでテキスト抽出
  * - image mode: BufferからBase64文字列に変換
+ *   変換済み画像がないPDF・Office文書はサーバー側でページごとの画像に変換する
+ * - アーカイブ（ZIP・tar）: 展開し、含まれるファイルごとに別のドキュメントとしてテキスト抽出
+ *
+ * RuntimeContextにプラグインフック実行が設定されている場合、
+ * text modeの抽出前後にbeforeExtraction/afterExtractionフックを適用する
  *
  * このステップはレビュー実行でも再利用可能
  */
@@ -59,6 +72,8 @@ export const fileProcessingStep = createStep({
   }): Promise<FileProcessingOutput> => {
     const logger = getLogger();
     const fileTextExtractor = new FileTextExtractor();
+    const documentRenderer = new DocumentRenderer();
+    const archiveExtractor = new ArchiveExtractor();
 
     try {
       const { files } = inputData;
@@ -79,6 +94,10 @@ export const fileProcessingStep = createStep({
         };
       }
 
+      const pluginHookRunner = typedRuntimeContext?.get(
+        PLUGIN_HOOK_RUNNER_CONTEXT_KEY,
+      ) as IPluginHookRunner | undefined;
+
       const extractedFiles: ExtractedFile[] = [];
 
       for (const fileMeta of files) {
@@ -96,15 +115,28 @@ export const fileProcessingStep = createStep({
         }
 
         try {
-          if (fileMeta.processMode === "image") {
+          if (archiveExtractor.isArchive(fileMeta.name)) {
+            // アーカイブ: 展開したファイルごとにテキスト抽出（処理モードによらない）
+            extractedFiles.push(
+              ...(await processArchive(
+                bufferData,
+                fileMeta,
+                archiveExtractor,
+                fileTextExtractor,
+                pluginHookRunner,
+              )),
+            );
+          } else if (fileMeta.processMode === "image") {
             // 画像モード: Buffer → Base64変換
-            const imageData = processImageMode(bufferData, fileMeta);
+            const { imageData, pageNumbers, totalPages } =
+              await processImageMode(bufferData, fileMeta, documentRenderer);
             extractedFiles.push({
               id: fileMeta.id,
               name: fileMeta.name,
               type: fileMeta.type,
               processMode: "image",
               imageData,
+              ...(pageNumbers && { pageNumbers, totalPages }),
             });
           } else {
             // テキストモード: FileTextExtractorでテキスト抽出
@@ -112,6 +144,7 @@ export const fileProcessingStep = createStep({
               bufferData,
               fileMeta,
               fileTextExtractor,
+              pluginHookRunner,
             );
             extractedFiles.push({
               id: fileMeta.id,
@@ -152,50 +185,154 @@ export const fileProcessingStep = createStep({
   },
 });
 
+/**
+ * 画像モードの処理結果
+ */
+interface ImageModeResult {
+  /** Data URL形式のBase64画像の配列 */
+  imageData: string[];
+  /** 各画像に対応する元ドキュメントのページ番号（サーバー側で変換した場合のみ） */
+  pageNumbers?: number[];
+  /** 元ドキュメントの総ページ数（サーバー側で変換した場合のみ） */
+  totalPages?: number;
+}
+
 /**
  * 画像モードの処理
  * convertedImageBuffersをData URL形式のBase64文字列に変換
  * Electron版と同様にdata:image/png;base64,プレフィックス付きで返す
+ * 変換済み画像がなく、PDF・Office文書の場合はサーバー側で画像に変換する
  */
-function processImageMode(
+async function processImageMode(
   bufferData: FileBufferData,
   fileMeta: RawUploadFileMeta,
-): string[] {
-  const imageData: string[] = [];
+  documentRenderer: IDocumentRenderer,
+): Promise<ImageModeResult> {
+  const toDataUrl = (imageBuffer: Buffer) =>
+    // Data URL形式に変換（AI APIが期待する形式）
+    `data:image/png;base64,${imageBuffer.toString("base64")}`;
 
   if (
     bufferData.convertedImageBuffers &&
     bufferData.convertedImageBuffers.length > 0
   ) {
-    // PDF画像変換済みの場合はconvertedImageBuffersを使用
-    for (const imageBuffer of bufferData.convertedImageBuffers) {
-      // Data URL形式に変換（AI APIが期待する形式）
-      const base64 = imageBuffer.toString("base64");
-      imageData.push(`data:image/png;base64,${base64}`);
-    }
-  } else {
-    // convertedImageBuffersがない場合は元のバッファを使用（単一画像ファイルの場合など）
-    // Data URL形式に変換
-    const base64 = bufferData.buffer.toString("base64");
-    imageData.push(`data:image/png;base64,${base64}`);
+    // 画像変換済みの場合はconvertedImageBuffersを使用
+    return { imageData: bufferData.convertedImageBuffers.map(toDataUrl) };
   }
 
-  return imageData;
+  if (await documentRenderer.isSupported(path.extname(fileMeta.name))) {
+    // PDF・Office文書はサーバー側でページごとの画像に変換
+    const rendered = await documentRenderer.render(
+      bufferData.buffer,
+      fileMeta.name,
+      fileMeta.renderOptions,
+    );
+    await bufferData.onImagesRendered?.(rendered.images);
+    return {
+      imageData: rendered.images.map(toDataUrl),
+      pageNumbers: rendered.pageNumbers,
+      totalPages: rendered.totalPages,
+    };
+  }
+
+  // 上記以外は元のバッファを使用（単一画像ファイルの場合など）
+  return { imageData: [toDataUrl(bufferData.buffer)] };
+}
+
+/**
+ * アーカイブの処理
+ * テキスト抽出に対応した形式のファイルのみを展開し、ファイルごとのドキュメントとして返す
+ * ドキュメント名は「アーカイブ名/アーカイブ内のパス」とする
+ */
+async function processArchive(
+  bufferData: FileBufferData,
+  fileMeta: RawUploadFileMeta,
+  archiveExtractor: IArchiveExtractor,
+  fileTextExtractor: FileTextExtractor,
+  pluginHookRunner?: IPluginHookRunner,
+): Promise<ExtractedFile[]> {
+  const entries = await archiveExtractor.extract(
+    bufferData.buffer,
+    fileMeta.name,
+    {
+      ...fileMeta.archiveOptions,
+      extensions: fileTextExtractor.getSupportedExtensions(),
+    },
+  );
+  if (entries.length === 0) {
+    throw internalError({
+      expose: true,
+      messageCode: "ARCHIVE_NO_TARGET_FILES",
+      messageParams: { fileName: fileMeta.name },
+    });
+  }
+
+  const extractedFiles: ExtractedFile[] = [];
+  for (const [index, entry] of entries.entries()) {
+    const entryMeta: RawUploadFileMeta = {
+      id: `${fileMeta.id}-${index + 1}`,
+      name: `${fileMeta.name}/${entry.path}`,
+      type: "text/plain",
+      size: entry.buffer.length,
+      processMode: "text",
+    };
+    const textContent = await processTextMode(
+      { buffer: entry.buffer },
+      entryMeta,
+      fileTextExtractor,
+      pluginHookRunner,
+    );
+    extractedFiles.push({
+      id: entryMeta.id,
+      name: entryMeta.name,
+      type: entryMeta.type,
+      processMode: "text",
+      textContent,
+    });
+  }
+  return extractedFiles;
 }
 
 /**
  * テキストモードの処理
  * FileTextExtractorでバイナリからテキスト抽出
+ * プラグインがbeforeExtractionでテキスト化した場合は組み込みの抽出を省略する
  */
 async function processTextMode(
   bufferData: FileBufferData,
   fileMeta: RawUploadFileMeta,
   fileTextExtractor: FileTextExtractor,
+  pluginHookRunner?: IPluginHookRunner,
 ): Promise<string> {
-  // FileTextExtractorでテキスト抽出（正規化も含む）
-  const textContent = await fileTextExtractor.extract(
-    bufferData.buffer,
-    fileMeta.name,
-  );
+  let buffer = bufferData.buffer;
+  let fileName = fileMeta.name;
+  let textContent: string | undefined;
+
+  if (pluginHookRunner?.hasHook("beforeExtraction")) {
+    const processed = await pluginHookRunner.runBeforeExtraction({
+      fileName,
+      mimeType: fileMeta.type,
+      buffer,
+    });
+    buffer = processed.buffer;
+    fileName = processed.fileName;
+    textContent = processed.textContent;
+  }
+
+  if (textContent === undefined) {
+    // FileTextExtractorでテキスト抽出（正規化も含む）
+    // AIが見出し・表・ページ番号を根拠として引用できるよう、構造を保持したMarkdown形式で抽出する
+    textContent = await fileTextExtractor.extract(buffer, fileName, {
+      structured: true,
+    });
+  }
+
+  if (pluginHookRunner?.hasHook("afterExtraction")) {
+    textContent = await pluginHookRunner.runAfterExtraction(
+      fileMeta.name,
+      textContent,
+    );
+  }
+
   return textContent;
 }
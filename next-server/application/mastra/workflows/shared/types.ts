@@ -1,4 +1,9 @@
 import { z } from "zod";
+import {
+  MAX_RENDER_SCALE,
+  MIN_RENDER_SCALE,
+  isValidPageRange,
+} from "@/lib/shared/pageRange";
 
 /**
  * ファイルの処理モード
@@ -6,6 +11,33 @@ import { z } from "zod";
 export const processModeSchema = z.enum(["text", "image"]);
 export type ProcessMode = z.infer<typeof processModeSchema>;
 
+/**
+ * サーバー側で画像に変換する際のオプション
+ */
+export const renderOptionsSchema = z.object({
+  /** 変換するページ範囲（例: "1-3,5"、省略時は全ページ） */
+  pageRange: z
+    .string()
+    .refine(isValidPageRange, "ページ範囲の指定が正しくありません")
+    .optional(),
+  /** 解像度の倍率（省略時は2） */
+  scale: z.number().min(MIN_RENDER_SCALE).max(MAX_RENDER_SCALE).optional(),
+});
+
+export type RenderOptions = z.infer<typeof renderOptionsSchema>;
+
+/**
+ * アーカイブを展開する際のオプション
+ */
+export const archiveOptionsSchema = z.object({
+  /** 展開対象とするファイルパスのglobパターン（省略時は対応する全ファイル） */
+  includePatterns: z.array(z.string()).optional(),
+  /** 展開対象から除外するファイルパスのglobパターン */
+  excludePatterns: z.array(z.string()).optional(),
+});
+
+export type ArchiveOptions = z.infer<typeof archiveOptionsSchema>;
+
 /**
  * workflowのinputSchemaに渡すファイルメタデータ
  * Bufferは渡せないため、メタデータのみ
@@ -23,6 +55,10 @@ export const rawUploadFileMetaSchema = z.object({
   processMode: processModeSchema,
   /** 画像変換済みの場合の画像数（PDF画像変換時に設定） */
   convertedImageCount: z.number().optional(),
+  /** サーバー側で画像に変換する際のオプション（画像モードで変換済み画像がない場合に使用） */
+  renderOptions: renderOptionsSchema.optional(),
+  /** アーカイブを展開する際のオプション（アーカイブファイルの場合に使用） */
+  archiveOptions: archiveOptionsSchema.optional(),
 });
 
 export type RawUploadFileMeta = z.infer<typeof rawUploadFileMetaSchema>;
@@ -36,6 +72,11 @@ export interface FileBufferData {
   buffer: Buffer;
   /** PDF画像変換済みの場合のPNG画像バイナリ配列 */
   convertedImageBuffers?: Buffer[];
+  /**
+   * サーバー側で画像に変換した際に呼び出されるコールバック
+   * 変換した画像をキューファイルとして保存するために使用する
+   */
+  onImagesRendered?: (images: Buffer[]) => Promise<void>;
 }
 
 /**
@@ -43,6 +84,18 @@ export interface FileBufferData {
  */
 export const FILE_BUFFERS_CONTEXT_KEY = "fileBuffers";
 
+/**
+ * RuntimeContextのキー定数（プラグインフック実行）
+ * レビュースペースに有効なプラグインがある場合のみ設定される
+ */
+export const PLUGIN_HOOK_RUNNER_CONTEXT_KEY = "pluginHookRunner";
+
+/**
+ * RuntimeContextのキー定数（ドキュメント意味検索インデックス）
+ * 埋め込みモデルが設定されている場合のみ設定される
+ */
+export const DOCUMENT_INDEX_CONTEXT_KEY = "documentIndex";
+
 /**
  * RuntimeContextに格納するfileBuffersの型
  */
@@ -65,6 +118,12 @@ export const extractedFileSchema = z.object({
   textContent: z.string().optional(),
   /** Base64エンコードされた画像データ配列（画像モード時） */
   imageData: z.array(z.string()).optional(),
+  /** 先頭画像のページオフセット（画像を分割した場合に元ドキュメントのページ番号を示すために使用） */
+  pageOffset: z.number().optional(),
+  /** 元ドキュメントの総ページ数（画像を分割した場合に使用） */
+  totalPages: z.number().optional(),
+  /** 各画像に対応する元ドキュメントのページ番号（ページ範囲を指定して変換した場合に設定） */
+  pageNumbers: z.array(z.number()).optional(),
 });
 
 export type ExtractedFile = z.infer<typeof extractedFileSchema>;
@@ -0,0 +1,66 @@
+import { INotificationRepository } from "@/application/shared/port/repository";
+import { NotificationDto } from "@/domain/notification";
+import { UserId } from "@/domain/user";
+
+/** 取得件数のデフォルト値 */
+const DEFAULT_LIMIT = 30;
+
+/**
+ * 通知一覧取得クエリ
+ */
+export interface ListNotificationsQuery {
+  /** 受信者ユーザーID */
+  userId: string;
+  /** 取得件数 */
+  limit?: number;
+  /** 未読の通知のみ取得 */
+  unreadOnly?: boolean;
+  /** 指定日時より後に作成された通知のみ取得（SSEストリームでの差分取得に使用） */
+  createdAfter?: Date;
+}
+
+/**
+ * 通知一覧取得結果
+ */
+export interface ListNotificationsResult {
+  /** 通知一覧（新しい順） */
+  notifications: NotificationDto[];
+  /** 未読件数 */
+  unreadCount: number;
+}
+
+/**
+ * 通知一覧取得サービス
+ * ヘッダーの通知受信箱の表示に使用
+ */
+export class ListNotificationsService {
+  constructor(
+    private readonly notificationRepository: INotificationRepository,
+  ) {}
+
+  /**
+   * 自分宛の通知一覧と未読件数を取得する
+   * @param query 取得クエリ
+   * @returns 通知一覧と未読件数
+   */
+  async execute(
+    query: ListNotificationsQuery,
+  ): Promise<ListNotificationsResult> {
+    const { userId, limit = DEFAULT_LIMIT, unreadOnly, createdAfter } = query;
+    const userIdVo = UserId.reconstruct(userId);
+
+    const [notifications, unreadCount] = await Promise.all([
+      this.notificationRepository.findByUserId(userIdVo, {
+        limit,
+        unreadOnly,
+        createdAfter,
+      }),
+      this.notificationRepository.countUnreadByUserId(userIdVo),
+    ]);
+
+    return {
+      notifications: notifications.map((notification) => notification.toDto()),
+      unreadCount,
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import { INotificationRepository } from "@/application/shared/port/repository";
+import { UserId } from "@/domain/user";
+
+/**
+ * 全通知既読化コマンド（入力DTO）
+ */
+export interface MarkAllNotificationsReadCommand {
+  /** 実行ユーザーID */
+  userId: string;
+}
+
+/**
+ * 全通知既読化サービス
+ * 自分宛の未読通知を全て既読にする
+ */
+export class MarkAllNotificationsReadService {
+  constructor(
+    private readonly notificationRepository: INotificationRepository,
+  ) {}
+
+  /**
+   * 未読通知を全て既読にする
+   * @param command 全通知既読化コマンド
+   */
+  async execute(command: MarkAllNotificationsReadCommand): Promise<void> {
+    await this.notificationRepository.markAllAsReadByUserId(
+      UserId.reconstruct(command.userId),
+      new Date(),
+    );
+  }
+}
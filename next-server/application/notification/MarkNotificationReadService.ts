@@ -0,0 +1,55 @@
+import { INotificationRepository } from "@/application/shared/port/repository";
+import { NotificationDto, NotificationId } from "@/domain/notification";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * 通知既読化コマンド（入力DTO）
+ */
+export interface MarkNotificationReadCommand {
+  /** 通知ID */
+  notificationId: string;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+}
+
+/**
+ * 通知既読化サービス
+ * 自分宛の通知を1件既読にする
+ */
+export class MarkNotificationReadService {
+  constructor(
+    private readonly notificationRepository: INotificationRepository,
+  ) {}
+
+  /**
+   * 通知を既読にする
+   * @param command 既読化コマンド
+   * @returns 既読化後の通知
+   */
+  async execute(
+    command: MarkNotificationReadCommand,
+  ): Promise<NotificationDto> {
+    const { notificationId, userId } = command;
+
+    const notification = await this.notificationRepository.findById(
+      NotificationId.reconstruct(notificationId),
+    );
+    if (!notification) {
+      throw domainValidationError("NOTIFICATION_NOT_FOUND");
+    }
+
+    // 自分宛の通知のみ操作可能
+    if (!notification.isAddressedTo(userId)) {
+      throw domainValidationError("NOTIFICATION_ACCESS_DENIED");
+    }
+
+    if (notification.isRead) {
+      return notification.toDto();
+    }
+
+    const read = notification.markAsRead();
+    await this.notificationRepository.save(read);
+
+    return read.toDto();
+  }
+}
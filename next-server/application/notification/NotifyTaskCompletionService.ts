@@ -0,0 +1,137 @@
+import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
+import {
+  IProjectRepository,
+  INotificationRepository,
+} from "@/application/shared/port/repository";
+import {
+  IEventBroker,
+  NOTIFICATION_EVENT_TYPE,
+  type NotificationSseEvent,
+} from "@/application/shared/port/push";
+import {
+  Notification,
+  NotificationDto,
+  NOTIFICATION_TYPE,
+  NotificationTypeValue,
+} from "@/domain/notification";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { ReviewTargetId } from "@/domain/reviewTarget";
+import { ProjectId } from "@/domain/project";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * 通知種別ごとのタイトル
+ */
+const NOTIFICATION_TITLES: Record<NotificationTypeValue, string> = {
+  [NOTIFICATION_TYPE.REVIEW_COMPLETED]: "レビューが完了しました",
+  [NOTIFICATION_TYPE.REVIEW_FAILED]: "レビューに失敗しました",
+  [NOTIFICATION_TYPE.RETRY_COMPLETED]: "リトライレビューが完了しました",
+  [NOTIFICATION_TYPE.RETRY_FAILED]: "リトライレビューに失敗しました",
+  [NOTIFICATION_TYPE.CHECKLIST_GENERATION_COMPLETED]:
+    "チェックリスト生成が完了しました",
+  [NOTIFICATION_TYPE.CHECKLIST_GENERATION_FAILED]:
+    "チェックリスト生成に失敗しました",
+};
+
+/** 通知本文に含めるエラーメッセージの最大長 */
+const MAX_ERROR_MESSAGE_LENGTH = 500;
+
+/**
+ * タスク完了通知コマンド（入力DTO）
+ */
+export interface NotifyTaskCompletionCommand {
+  /** 通知種別 */
+  type: NotificationTypeValue;
+  /** レビュースペースID（通知先プロジェクトの特定に使用） */
+  reviewSpaceId: string;
+  /** レビュー対象ID（レビュー・リトライタスクの場合のみ） */
+  reviewTargetId?: string;
+  /** エラーメッセージ（失敗時のみ） */
+  errorMessage?: string;
+}
+
+/**
+ * タスク完了通知サービス
+ * 長時間タスクの完了・失敗をプロジェクトの全メンバーに通知する
+ * 通知はメンバーごとに永続化し、接続中のクライアントにはSSEで即時配信する
+ */
+export class NotifyTaskCompletionService {
+  constructor(
+    private readonly notificationRepository: INotificationRepository,
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+    private readonly reviewTargetRepository: IReviewTargetRepository,
+    private readonly projectRepository: IProjectRepository,
+    private readonly eventBroker: IEventBroker,
+  ) {}
+
+  /**
+   * タスク完了通知を作成・配信する
+   * @param command 通知コマンド
+   * @returns 作成された通知（受信者ごと）
+   */
+  async execute(
+    command: NotifyTaskCompletionCommand,
+  ): Promise<NotificationDto[]> {
+    const { type, reviewSpaceId, reviewTargetId, errorMessage } = command;
+
+    // レビュースペースの存在確認
+    const reviewSpace = await this.reviewSpaceRepository.findById(
+      ReviewSpaceId.reconstruct(reviewSpaceId),
+    );
+    if (!reviewSpace) {
+      throw domainValidationError("REVIEW_SPACE_NOT_FOUND");
+    }
+
+    // プロジェクトの存在確認
+    const projectId = ProjectId.reconstruct(reviewSpace.projectId.value);
+    const project = await this.projectRepository.findById(projectId);
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+
+    // 通知本文とリンク先を組み立てる
+    const spacePath = `/projects/${projectId.value}/spaces/${reviewSpaceId}`;
+    const subjects = [reviewSpace.name.value];
+    let linkUrl = `${spacePath}/checklist`;
+
+    if (reviewTargetId) {
+      const reviewTarget = await this.reviewTargetRepository.findById(
+        ReviewTargetId.reconstruct(reviewTargetId),
+      );
+      if (!reviewTarget) {
+        throw domainValidationError("REVIEW_TARGET_NOT_FOUND");
+      }
+      subjects.push(reviewTarget.name.value);
+      linkUrl = `${spacePath}/review/${reviewTargetId}`;
+    }
+
+    const lines = [subjects.join(" / ")];
+    if (errorMessage) {
+      lines.push(errorMessage.slice(0, MAX_ERROR_MESSAGE_LENGTH));
+    }
+    const message = lines.join("\n");
+
+    // プロジェクトメンバーごとに通知を作成
+    const notifications = project.members.map((member) =>
+      Notification.create({
+        userId: member.userId.value,
+        projectId: projectId.value,
+        type,
+        title: NOTIFICATION_TITLES[type],
+        message,
+        linkUrl,
+      }),
+    );
+    await this.notificationRepository.saveMany(notifications);
+
+    // 接続中のクライアントへ配信
+    const dtos = notifications.map((notification) => notification.toDto());
+    for (const dto of dtos) {
+      const event: NotificationSseEvent = { type: "notification", data: dto };
+      this.eventBroker.publish(dto.userId, NOTIFICATION_EVENT_TYPE, event);
+    }
+
+    return dtos;
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ListNotificationsService } from "../ListNotificationsService";
+import type { INotificationRepository } from "@/application/shared/port/repository";
+import { Notification } from "@/domain/notification";
+
+describe("ListNotificationsService", () => {
+  const mockNotificationRepository: INotificationRepository = {
+    findById: vi.fn(),
+    findByUserId: vi.fn(),
+    countUnreadByUserId: vi.fn(),
+    save: vi.fn(),
+    saveMany: vi.fn(),
+    markAllAsReadByUserId: vi.fn(),
+  };
+
+  let service: ListNotificationsService;
+
+  const testUserId = "550e8400-e29b-41d4-a716-446655440001";
+  const testProjectId = "550e8400-e29b-41d4-a716-446655440002";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new ListNotificationsService(mockNotificationRepository);
+  });
+
+  it("通知一覧と未読件数を取得できる", async () => {
+    const notifications = [
+      Notification.create({
+        userId: testUserId,
+        projectId: testProjectId,
+        type: "review_completed",
+        title: "レビューが完了しました",
+        message: "設計書.docx",
+      }),
+    ];
+    vi.mocked(mockNotificationRepository.findByUserId).mockResolvedValue(
+      notifications,
+    );
+    vi.mocked(mockNotificationRepository.countUnreadByUserId).mockResolvedValue(
+      3,
+    );
+
+    const result = await service.execute({ userId: testUserId });
+
+    expect(result.notifications).toHaveLength(1);
+    expect(result.notifications[0].title).toBe("レビューが完了しました");
+    expect(result.unreadCount).toBe(3);
+  });
+
+  it("取得オプションがリポジトリに渡される", async () => {
+    vi.mocked(mockNotificationRepository.findByUserId).mockResolvedValue([]);
+    vi.mocked(mockNotificationRepository.countUnreadByUserId).mockResolvedValue(
+      0,
+    );
+
+    await service.execute({ userId: testUserId, limit: 10, unreadOnly: true });
+
+    const [userId, options] = vi.mocked(mockNotificationRepository.findByUserId)
+      .mock.calls[0];
+    expect(userId.value).toBe(testUserId);
+    expect(options).toEqual({ limit: 10, unreadOnly: true });
+  });
+
+  it("作成日時の下限がリポジトリに渡される", async () => {
+    vi.mocked(mockNotificationRepository.findByUserId).mockResolvedValue([]);
+    vi.mocked(mockNotificationRepository.countUnreadByUserId).mockResolvedValue(
+      0,
+    );
+    const createdAfter = new Date("2026-01-01T00:00:00Z");
+
+    await service.execute({ userId: testUserId, createdAfter });
+
+    const [, options] = vi.mocked(mockNotificationRepository.findByUserId).mock
+      .calls[0];
+    expect(options?.createdAfter).toBe(createdAfter);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { MarkNotificationReadService } from "../MarkNotificationReadService";
+import type { INotificationRepository } from "@/application/shared/port/repository";
+import { Notification } from "@/domain/notification";
+
+describe("MarkNotificationReadService", () => {
+  const mockNotificationRepository: INotificationRepository = {
+    findById: vi.fn(),
+    findByUserId: vi.fn(),
+    countUnreadByUserId: vi.fn(),
+    save: vi.fn(),
+    saveMany: vi.fn(),
+    markAllAsReadByUserId: vi.fn(),
+  };
+
+  let service: MarkNotificationReadService;
+
+  // テスト用データ（有効なUUID v4形式）
+  const testNotificationId = "550e8400-e29b-41d4-a716-446655440001";
+  const testUserId = "550e8400-e29b-41d4-a716-446655440002";
+  const testProjectId = "550e8400-e29b-41d4-a716-446655440003";
+
+  const createNotification = (readAt: Date | null = null) =>
+    Notification.reconstruct({
+      id: testNotificationId,
+      userId: testUserId,
+      projectId: testProjectId,
+      type: "review_failed",
+      title: "レビューに失敗しました",
+      message: "設計書.docx",
+      linkUrl: null,
+      readAt,
+      createdAt: new Date(),
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new MarkNotificationReadService(mockNotificationRepository);
+  });
+
+  describe("正常系", () => {
+    it("未読の通知を既読にして保存する", async () => {
+      vi.mocked(mockNotificationRepository.findById).mockResolvedValue(
+        createNotification(),
+      );
+
+      const result = await service.execute({
+        notificationId: testNotificationId,
+        userId: testUserId,
+      });
+
+      expect(result.isRead).toBe(true);
+      expect(mockNotificationRepository.save).toHaveBeenCalledTimes(1);
+    });
+
+    it("既読済みの通知は保存しない", async () => {
+      vi.mocked(mockNotificationRepository.findById).mockResolvedValue(
+        createNotification(new Date()),
+      );
+
+      const result = await service.execute({
+        notificationId: testNotificationId,
+        userId: testUserId,
+      });
+
+      expect(result.isRead).toBe(true);
+      expect(mockNotificationRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("異常系", () => {
+    it("通知が存在しない場合エラーになる", async () => {
+      vi.mocked(mockNotificationRepository.findById).mockResolvedValue(null);
+
+      await expect(
+        service.execute({
+          notificationId: testNotificationId,
+          userId: testUserId,
+        }),
+      ).rejects.toMatchObject({ messageCode: "NOTIFICATION_NOT_FOUND" });
+    });
+
+    it("他のユーザー宛の通知は既読にできない", async () => {
+      vi.mocked(mockNotificationRepository.findById).mockResolvedValue(
+        createNotification(),
+      );
+
+      await expect(
+        service.execute({
+          notificationId: testNotificationId,
+          userId: "550e8400-e29b-41d4-a716-446655440099",
+        }),
+      ).rejects.toMatchObject({ messageCode: "NOTIFICATION_ACCESS_DENIED" });
+      expect(mockNotificationRepository.save).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NotifyTaskCompletionService } from "../NotifyTaskCompletionService";
+import type { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
+import type { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import type {
+  IProjectRepository,
+  INotificationRepository,
+} from "@/application/shared/port/repository";
+import type { IEventBroker } from "@/application/shared/port/push";
+import { Project } from "@/domain/project";
+import { ReviewSpace } from "@/domain/reviewSpace";
+import { ReviewTarget } from "@/domain/reviewTarget";
+
+describe("NotifyTaskCompletionService", () => {
+  // モックリポジトリ
+  const mockNotificationRepository: INotificationRepository = {
+    findById: vi.fn(),
+    findByUserId: vi.fn(),
+    countUnreadByUserId: vi.fn(),
+    save: vi.fn(),
+    saveMany: vi.fn(),
+    markAllAsReadByUserId: vi.fn(),
+  };
+
+  const mockReviewSpaceRepository: IReviewSpaceRepository = {
+    findById: vi.fn(),
+    findByProjectId: vi.fn(),
+    countByProjectId: vi.fn(),
+    save: vi.fn(),
+    delete: vi.fn(),
+    updateChecklistGenerationError: vi.fn(),
+  };
+
+  const mockReviewTargetRepository: IReviewTargetRepository = {
+    findById: vi.fn(),
+    findByReviewSpaceId: vi.fn(),
+    findByRevisionGroupId: vi.fn(),
+    countByReviewSpaceId: vi.fn(),
+    summarizeByReviewSpaceIds: vi.fn(),
+    save: vi.fn(),
+    saveRevision: vi.fn(),
+    delete: vi.fn(),
+  };
+
+  const mockProjectRepository: IProjectRepository = {
+    findById: vi.fn(),
+    findByMemberId: vi.fn(),
+    countByMemberId: vi.fn(),
+    findAll: vi.fn(),
+    countAll: vi.fn(),
+    save: vi.fn(),
+    delete: vi.fn(),
+  };
+
+  const mockEventBroker: IEventBroker = {
+    subscribe: vi.fn(),
+    subscribeChannel: vi.fn(),
+    unsubscribe: vi.fn(),
+    publish: vi.fn(),
+    broadcast: vi.fn(),
+    unsubscribeAll: vi.fn(),
+  };
+
+  let service: NotifyTaskCompletionService;
+
+  // テスト用データ（有効なUUID v4形式）
+  const testProjectId = "550e8400-e29b-41d4-a716-446655440001";
+  const testReviewSpaceId = "550e8400-e29b-41d4-a716-446655440002";
+  const testReviewTargetId = "550e8400-e29b-41d4-a716-446655440003";
+  const testUserId1 = "550e8400-e29b-41d4-a716-446655440004";
+  const testUserId2 = "550e8400-e29b-41d4-a716-446655440005";
+
+  const now = new Date();
+
+  const testProject = Project.reconstruct({
+    id: testProjectId,
+    name: "テストプロジェクト",
+    description: null,
+    encryptedApiKey: null,
+    members: [
+      { userId: testUserId1, role: "owner", createdAt: now },
+      { userId: testUserId2, role: "owner", createdAt: now },
+    ],
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const testReviewSpace = ReviewSpace.reconstruct({
+    id: testReviewSpaceId,
+    projectId: testProjectId,
+    name: "テストスペース",
+    description: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const testReviewTarget = ReviewTarget.reconstruct({
+    id: testReviewTargetId,
+    reviewSpaceId: testReviewSpaceId,
+    name: "設計書.docx",
+    status: "completed",
+    reviewType: "small",
+    reviewSettings: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(
+      testReviewSpace,
+    );
+    vi.mocked(mockProjectRepository.findById).mockResolvedValue(testProject);
+    vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+      testReviewTarget,
+    );
+    service = new NotifyTaskCompletionService(
+      mockNotificationRepository,
+      mockReviewSpaceRepository,
+      mockReviewTargetRepository,
+      mockProjectRepository,
+      mockEventBroker,
+    );
+  });
+
+  describe("正常系", () => {
+    it("プロジェクトの全メンバーに通知を保存し、SSEで配信する", async () => {
+      const result = await service.execute({
+        type: "review_completed",
+        reviewSpaceId: testReviewSpaceId,
+        reviewTargetId: testReviewTargetId,
+      });
+
+      expect(result.map((n) => n.userId)).toEqual([testUserId1, testUserId2]);
+      expect(mockNotificationRepository.saveMany).toHaveBeenCalledTimes(1);
+      expect(
+        vi.mocked(mockNotificationRepository.saveMany).mock.calls[0][0],
+      ).toHaveLength(2);
+
+      expect(mockEventBroker.publish).toHaveBeenCalledTimes(2);
+      expect(mockEventBroker.publish).toHaveBeenCalledWith(
+        testUserId1,
+        "notification",
+        { type: "notification", data: result[0] },
+      );
+    });
+
+    it("レビュー対象名とレビュー結果画面へのリンクを含む", async () => {
+      const [notification] = await service.execute({
+        type: "review_completed",
+        reviewSpaceId: testReviewSpaceId,
+        reviewTargetId: testReviewTargetId,
+      });
+
+      expect(notification.title).toBe("レビューが完了しました");
+      expect(notification.message).toBe("テストスペース / 設計書.docx");
+      expect(notification.linkUrl).toBe(
+        `/projects/${testProjectId}/spaces/${testReviewSpaceId}/review/${testReviewTargetId}`,
+      );
+      expect(notification.isRead).toBe(false);
+    });
+
+    it("失敗時はエラーメッセージを本文に含める", async () => {
+      const [notification] = await service.execute({
+        type: "retry_failed",
+        reviewSpaceId: testReviewSpaceId,
+        reviewTargetId: testReviewTargetId,
+        errorMessage: "AIとの通信に失敗しました",
+      });
+
+      expect(notification.title).toBe("リトライレビューに失敗しました");
+      expect(notification.message).toBe(
+        "テストスペース / 設計書.docx\nAIとの通信に失敗しました",
+      );
+    });
+
+    it("チェックリスト生成の場合はチェックリスト画面へのリンクになる", async () => {
+      const [notification] = await service.execute({
+        type: "checklist_generation_completed",
+        reviewSpaceId: testReviewSpaceId,
+      });
+
+      expect(mockReviewTargetRepository.findById).not.toHaveBeenCalled();
+      expect(notification.title).toBe("チェックリスト生成が完了しました");
+      expect(notification.message).toBe("テストスペース");
+      expect(notification.linkUrl).toBe(
+        `/projects/${testProjectId}/spaces/${testReviewSpaceId}/checklist`,
+      );
+    });
+  });
+
+  describe("異常系", () => {
+    it("レビュースペースが存在しない場合エラーになる", async () => {
+      vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(null);
+
+      await expect(
+        service.execute({
+          type: "checklist_generation_failed",
+          reviewSpaceId: testReviewSpaceId,
+        }),
+      ).rejects.toMatchObject({ messageCode: "REVIEW_SPACE_NOT_FOUND" });
+      expect(mockNotificationRepository.saveMany).not.toHaveBeenCalled();
+    });
+
+    it("レビュー対象が削除されている場合エラーになる", async () => {
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(null);
+
+      await expect(
+        service.execute({
+          type: "review_failed",
+          reviewSpaceId: testReviewSpaceId,
+          reviewTargetId: testReviewTargetId,
+        }),
+      ).rejects.toMatchObject({ messageCode: "REVIEW_TARGET_NOT_FOUND" });
+      expect(mockEventBroker.publish).not.toHaveBeenCalled();
+    });
+  });
+});
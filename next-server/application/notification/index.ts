@@ -0,0 +1,22 @@
+/**
+ * 通知 アプリケーションサービス
+ * エントリーポイント
+ */
+
+export {
+  NotifyTaskCompletionService,
+  type NotifyTaskCompletionCommand,
+} from "./NotifyTaskCompletionService";
+export {
+  ListNotificationsService,
+  type ListNotificationsQuery,
+  type ListNotificationsResult,
+} from "./ListNotificationsService";
+export {
+  MarkNotificationReadService,
+  type MarkNotificationReadCommand,
+} from "./MarkNotificationReadService";
+export {
+  MarkAllNotificationsReadService,
+  type MarkAllNotificationsReadCommand,
+} from "./MarkAllNotificationsReadService";
@@ -0,0 +1,95 @@
+import {
+  IPersonalAccessTokenRepository,
+  IUserRepository,
+} from "@/application/shared/port/repository";
+import { hashPersonalAccessToken } from "@/domain/personalAccessToken";
+import { AppError } from "@/lib/server/error";
+
+/** 最終使用日時を更新する最小間隔（ステータスのポーリングで毎回書き込まないため） */
+const LAST_USED_AT_UPDATE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * パーソナルアクセストークン認証コマンド（入力DTO）
+ */
+export interface AuthenticatePersonalAccessTokenCommand {
+  /** Authorizationヘッダーで受け取ったトークン文字列 */
+  rawToken: string;
+}
+
+/**
+ * パーソナルアクセストークン認証結果DTO
+ */
+export interface AuthenticatePersonalAccessTokenResult {
+  /** トークンID */
+  tokenId: string;
+  /** 発行ユーザーID（DBのUUID） */
+  userId: string;
+  /** 発行ユーザーの社員ID */
+  employeeId: string;
+  /** 発行ユーザーの表示名 */
+  displayName: string;
+  /** 発行ユーザーの管理者フラグ */
+  isAdmin: boolean;
+  /** アクセスを許可するプロジェクトID一覧 */
+  projectIds: string[];
+}
+
+/**
+ * 無効なトークンのエラー
+ */
+const invalidTokenError = () =>
+  new AppError("UNAUTHORIZED", {
+    expose: true,
+    messageCode: "PERSONAL_ACCESS_TOKEN_INVALID",
+  });
+
+/**
+ * パーソナルアクセストークン認証サービス
+ * REST APIのリクエストを発行ユーザーとして認証する
+ */
+export class AuthenticatePersonalAccessTokenService {
+  constructor(
+    private readonly personalAccessTokenRepository: IPersonalAccessTokenRepository,
+    private readonly userRepository: IUserRepository,
+  ) {}
+
+  /**
+   * トークンを検証し、発行ユーザーの情報を返す
+   * @param command 認証コマンド
+   * @returns 認証結果
+   * @throws 認証エラー - トークンが存在しない・期限切れ・発行ユーザーが存在しない場合
+   */
+  async execute(
+    command: AuthenticatePersonalAccessTokenCommand,
+  ): Promise<AuthenticatePersonalAccessTokenResult> {
+    const now = new Date();
+    const token = await this.personalAccessTokenRepository.findByTokenHash(
+      hashPersonalAccessToken(command.rawToken),
+    );
+    if (!token || token.isExpired(now)) {
+      throw invalidTokenError();
+    }
+
+    const user = await this.userRepository.findById(token.userId);
+    if (!user) {
+      throw invalidTokenError();
+    }
+
+    if (
+      !token.lastUsedAt ||
+      now.getTime() - token.lastUsedAt.getTime() >=
+        LAST_USED_AT_UPDATE_INTERVAL_MS
+    ) {
+      await this.personalAccessTokenRepository.save(token.markAsUsed(now));
+    }
+
+    return {
+      tokenId: token.id.value,
+      userId: user.id.value,
+      employeeId: user.employeeId.value,
+      displayName: user.displayName,
+      isAdmin: user.isAdmin,
+      projectIds: token.projectIds.map((id) => id.value),
+    };
+  }
+}
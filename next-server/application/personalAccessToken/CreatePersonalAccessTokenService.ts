@@ -0,0 +1,90 @@
+import {
+  IPersonalAccessTokenRepository,
+  IProjectRepository,
+} from "@/application/shared/port/repository";
+import { PersonalAccessToken } from "@/domain/personalAccessToken";
+import { ProjectId } from "@/domain/project";
+import { domainValidationError } from "@/lib/server/error";
+import {
+  toPersonalAccessTokenSummary,
+  type PersonalAccessTokenSummaryDto,
+} from "./PersonalAccessTokenSummary";
+
+/** 1日のミリ秒数 */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * パーソナルアクセストークン発行コマンド（入力DTO）
+ */
+export interface CreatePersonalAccessTokenCommand {
+  /** 発行ユーザーID */
+  userId: string;
+  /** トークン名 */
+  name: string;
+  /** アクセスを許可するプロジェクトID一覧 */
+  projectIds: string[];
+  /** 有効日数（nullの場合は無期限） */
+  expiresInDays: number | null;
+}
+
+/**
+ * パーソナルアクセストークン発行結果DTO
+ */
+export interface CreatePersonalAccessTokenResult {
+  /** 発行したトークン */
+  token: PersonalAccessTokenSummaryDto;
+  /** トークン文字列（この結果でのみ返却し、再表示はできない） */
+  rawToken: string;
+}
+
+/**
+ * パーソナルアクセストークン発行サービス
+ * 自分がメンバーであるプロジェクトのみを対象にトークンを発行する
+ */
+export class CreatePersonalAccessTokenService {
+  constructor(
+    private readonly personalAccessTokenRepository: IPersonalAccessTokenRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * トークンを発行する
+   * @param command 発行コマンド
+   * @returns 発行したトークンとトークン文字列
+   */
+  async execute(
+    command: CreatePersonalAccessTokenCommand,
+  ): Promise<CreatePersonalAccessTokenResult> {
+    const { userId, name, projectIds, expiresInDays } = command;
+
+    // 対象プロジェクトのメンバーであることを確認
+    for (const projectId of new Set(projectIds)) {
+      const project = await this.projectRepository.findById(
+        ProjectId.reconstruct(projectId),
+      );
+      if (!project) {
+        throw domainValidationError("PROJECT_NOT_FOUND");
+      }
+      if (!project.hasMember(userId)) {
+        throw domainValidationError("PROJECT_ACCESS_DENIED");
+      }
+    }
+
+    const { personalAccessToken, rawToken } = PersonalAccessToken.create({
+      userId,
+      name,
+      projectIds,
+      expiresAt:
+        expiresInDays !== null
+          ? new Date(Date.now() + expiresInDays * DAY_MS)
+          : null,
+    });
+
+    await this.personalAccessTokenRepository.save(personalAccessToken);
+
+    return {
+      token: toPersonalAccessTokenSummary(personalAccessToken),
+      rawToken,
+    };
+  }
+}
@@ -0,0 +1,38 @@
+import { IPersonalAccessTokenRepository } from "@/application/shared/port/repository";
+import { UserId } from "@/domain/user";
+import {
+  toPersonalAccessTokenSummary,
+  type PersonalAccessTokenSummaryDto,
+} from "./PersonalAccessTokenSummary";
+
+/**
+ * パーソナルアクセストークン一覧取得クエリ
+ */
+export interface ListPersonalAccessTokensQuery {
+  /** 発行ユーザーID */
+  userId: string;
+}
+
+/**
+ * パーソナルアクセストークン一覧取得サービス
+ * 自分が発行したトークンの一覧を取得する
+ */
+export class ListPersonalAccessTokensService {
+  constructor(
+    private readonly personalAccessTokenRepository: IPersonalAccessTokenRepository,
+  ) {}
+
+  /**
+   * 自分が発行したトークン一覧を取得する（新しい順）
+   * @param query 取得クエリ
+   * @returns トークン一覧
+   */
+  async execute(
+    query: ListPersonalAccessTokensQuery,
+  ): Promise<PersonalAccessTokenSummaryDto[]> {
+    const tokens = await this.personalAccessTokenRepository.findByUserId(
+      UserId.reconstruct(query.userId),
+    );
+    return tokens.map((token) => toPersonalAccessTokenSummary(token));
+  }
+}
@@ -0,0 +1,38 @@
+import type { PersonalAccessToken } from "@/domain/personalAccessToken";
+
+/**
+ * パーソナルアクセストークン一覧表示用DTO
+ * トークンハッシュは含めない
+ */
+export interface PersonalAccessTokenSummaryDto {
+  id: string;
+  name: string;
+  /** トークン先頭文字列（識別用） */
+  tokenPrefix: string;
+  /** アクセスを許可するプロジェクトID一覧 */
+  projectIds: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+  /** 有効期限切れかどうか */
+  isExpired: boolean;
+}
+
+/**
+ * トークンエンティティを一覧表示用DTOに変換する
+ */
+export function toPersonalAccessTokenSummary(
+  token: PersonalAccessToken,
+): PersonalAccessTokenSummaryDto {
+  const dto = token.toDto();
+  return {
+    id: dto.id,
+    name: dto.name,
+    tokenPrefix: dto.tokenPrefix,
+    projectIds: dto.projectIds,
+    expiresAt: dto.expiresAt,
+    lastUsedAt: dto.lastUsedAt,
+    createdAt: dto.createdAt,
+    isExpired: token.isExpired(),
+  };
+}
@@ -0,0 +1,44 @@
+import { IPersonalAccessTokenRepository } from "@/application/shared/port/repository";
+import { PersonalAccessTokenId } from "@/domain/personalAccessToken";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * パーソナルアクセストークン無効化コマンド（入力DTO）
+ */
+export interface RevokePersonalAccessTokenCommand {
+  /** トークンID */
+  tokenId: string;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+}
+
+/**
+ * パーソナルアクセストークン無効化サービス
+ * 自分が発行したトークンを削除し、以降のAPI呼び出しを拒否する
+ */
+export class RevokePersonalAccessTokenService {
+  constructor(
+    private readonly personalAccessTokenRepository: IPersonalAccessTokenRepository,
+  ) {}
+
+  /**
+   * トークンを無効化する
+   * @param command 無効化コマンド
+   */
+  async execute(command: RevokePersonalAccessTokenCommand): Promise<void> {
+    const { tokenId, userId } = command;
+    const tokenIdVo = PersonalAccessTokenId.reconstruct(tokenId);
+
+    const token = await this.personalAccessTokenRepository.findById(tokenIdVo);
+    if (!token) {
+      throw domainValidationError("PERSONAL_ACCESS_TOKEN_NOT_FOUND");
+    }
+
+    // 自分が発行したトークンのみ操作可能
+    if (!token.isOwnedBy(userId)) {
+      throw domainValidationError("PERSONAL_ACCESS_TOKEN_ACCESS_DENIED");
+    }
+
+    await this.personalAccessTokenRepository.delete(tokenIdVo);
+  }
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { AuthenticatePersonalAccessTokenService } from "../AuthenticatePersonalAccessTokenService";
+import type {
+  IPersonalAccessTokenRepository,
+  IUserRepository,
+} from "@/application/shared/port/repository";
+import {
+  PersonalAccessToken,
+  hashPersonalAccessToken,
+} from "@/domain/personalAccessToken";
+import { User } from "@/domain/user";
+
+describe("AuthenticatePersonalAccessTokenService", () => {
+  const mockPersonalAccessTokenRepository: IPersonalAccessTokenRepository = {
+    findById: vi.fn(),
+    findByTokenHash: vi.fn(),
+    findByUserId: vi.fn(),
+    save: vi.fn(),
+    delete: vi.fn(),
+  };
+
+  const mockUserRepository: IUserRepository = {
+    findByEmployeeId: vi.fn(),
+    findById: vi.fn(),
+    findByIds: vi.fn(),
+    searchUsers: vi.fn(),
+    countSearchUsers: vi.fn(),
+    save: vi.fn(),
+    findAllAdmins: vi.fn(),
+    countAdmins: vi.fn(),
+    findAll: vi.fn(),
+    countAll: vi.fn(),
+  };
+
+  let service: AuthenticatePersonalAccessTokenService;
+
+  // テスト用の固定日時
+  const fixedDate = new Date("2024-01-01T00:00:00.000Z");
+
+  // テスト用データ（有効なUUID v4形式）
+  const testTokenId = "550e8400-e29b-41d4-a716-446655440001";
+  const testUserId = "550e8400-e29b-41d4-a716-446655440002";
+  const testProjectId = "550e8400-e29b-41d4-a716-446655440003";
+  const rawToken = "rvw_test-token";
+
+  const createToken = (params?: {
+    expiresAt?: Date | null;
+    lastUsedAt?: Date | null;
+  }) =>
+    PersonalAccessToken.reconstruct({
+      id: testTokenId,
+      userId: testUserId,
+      name: "CI",
+      tokenHash: hashPersonalAccessToken(rawToken),
+      tokenPrefix: "rvw_test-tok",
+      projectIds: [testProjectId],
+      expiresAt: params?.expiresAt ?? null,
+      lastUsedAt: params?.lastUsedAt ?? null,
+      createdAt: fixedDate,
+    });
+
+  const testUser = User.reconstruct({
+    id: testUserId,
+    employeeId: "E001",
+    displayName: "テストユーザー",
+    isAdmin: false,
+    createdAt: fixedDate,
+    updatedAt: fixedDate,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(fixedDate);
+    service = new AuthenticatePersonalAccessTokenService(
+      mockPersonalAccessTokenRepository,
+      mockUserRepository,
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("正常系", () => {
+    it("トークンのハッシュで検索し、発行ユーザーと対象プロジェクトを返す", async () => {
+      vi.mocked(
+        mockPersonalAccessTokenRepository.findByTokenHash,
+      ).mockResolvedValue(createToken());
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(testUser);
+
+      const result = await service.execute({ rawToken });
+
+      expect(
+        mockPersonalAccessTokenRepository.findByTokenHash,
+      ).toHaveBeenCalledWith(hashPersonalAccessToken(rawToken));
+      expect(result).toEqual({
+        tokenId: testTokenId,
+        userId: testUserId,
+        employeeId: "E001",
+        displayName: "テストユーザー",
+        isAdmin: false,
+        projectIds: [testProjectId],
+      });
+
+      const saved = vi.mocked(mockPersonalAccessTokenRepository.save).mock
+        .calls[0][0] as PersonalAccessToken;
+      expect(saved.lastUsedAt).toEqual(fixedDate);
+    });
+
+    it("直近に使用されたトークンは最終使用日時を更新しない", async () => {
+      vi.mocked(
+        mockPersonalAccessTokenRepository.findByTokenHash,
+      ).mockResolvedValue(
+        createToken({ lastUsedAt: new Date(fixedDate.getTime() - 30 * 1000) }),
+      );
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(testUser);
+
+      await service.execute({ rawToken });
+
+      expect(mockPersonalAccessTokenRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("異常系", () => {
+    it("トークンが存在しない場合は認証エラーになる", async () => {
+      vi.mocked(
+        mockPersonalAccessTokenRepository.findByTokenHash,
+      ).mockResolvedValue(null);
+
+      await expect(service.execute({ rawToken })).rejects.toMatchObject({
+        errorCode: "UNAUTHORIZED",
+        messageCode: "PERSONAL_ACCESS_TOKEN_INVALID",
+      });
+    });
+
+    it("有効期限切れのトークンは認証エラーになる", async () => {
+      vi.mocked(
+        mockPersonalAccessTokenRepository.findByTokenHash,
+      ).mockResolvedValue(createToken({ expiresAt: fixedDate }));
+
+      await expect(service.execute({ rawToken })).rejects.toMatchObject({
+        errorCode: "UNAUTHORIZED",
+      });
+      expect(mockUserRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it("発行ユーザーが存在しない場合は認証エラーになる", async () => {
+      vi.mocked(
+        mockPersonalAccessTokenRepository.findByTokenHash,
+      ).mockResolvedValue(createToken());
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(null);
+
+      await expect(service.execute({ rawToken })).rejects.toMatchObject({
+        errorCode: "UNAUTHORIZED",
+      });
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { CreatePersonalAccessTokenService } from "../CreatePersonalAccessTokenService";
+import type {
+  IPersonalAccessTokenRepository,
+  IProjectRepository,
+} from "@/application/shared/port/repository";
+import { Project } from "@/domain/project";
+import {
+  PersonalAccessToken,
+  hashPersonalAccessToken,
+} from "@/domain/personalAccessToken";
+
+describe("CreatePersonalAccessTokenService", () => {
+  const mockPersonalAccessTokenRepository: IPersonalAccessTokenRepository = {
+    findById: vi.fn(),
+    findByTokenHash: vi.fn(),
+    findByUserId: vi.fn(),
+    save: vi.fn(),
+    delete: vi.fn(),
+  };
+
+  const mockProjectRepository: IProjectRepository = {
+    findById: vi.fn(),
+    findByMemberId: vi.fn(),
+    countByMemberId: vi.fn(),
+    findAll: vi.fn(),
+    countAll: vi.fn(),
+    save: vi.fn(),
+    delete: vi.fn(),
+  };
+
+  let service: CreatePersonalAccessTokenService;
+
+  // テスト用データ（有効なUUID v4形式）
+  const testUserId = "550e8400-e29b-41d4-a716-446655440001";
+  const otherUserId = "550e8400-e29b-41d4-a716-446655440002";
+  const testProjectId = "550e8400-e29b-41d4-a716-446655440003";
+  const now = new Date();
+
+  const createProject = (memberUserId: string) =>
+    Project.reconstruct({
+      id: testProjectId,
+      name: "テストプロジェクト",
+      description: null,
+      encryptedApiKey: null,
+      members: [{ userId: memberUserId, role: "viewer", createdAt: now }],
+      createdAt: now,
+      updatedAt: now,
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new CreatePersonalAccessTokenService(
+      mockPersonalAccessTokenRepository,
+      mockProjectRepository,
+    );
+  });
+
+  describe("正常系", () => {
+    it("トークンを発行し、ハッシュのみを保存する", async () => {
+      vi.mocked(mockProjectRepository.findById).mockResolvedValue(
+        createProject(testUserId),
+      );
+
+      const result = await service.execute({
+        userId: testUserId,
+        name: "CI",
+        projectIds: [testProjectId],
+        expiresInDays: 30,
+      });
+
+      expect(result.rawToken).toMatch(/^rvw_/);
+      expect(result.token.name).toBe("CI");
+      expect(result.token.projectIds).toEqual([testProjectId]);
+      expect(result.token.expiresAt!.getTime()).toBeGreaterThan(Date.now());
+      expect(result.token).not.toHaveProperty("tokenHash");
+
+      const saved = vi.mocked(mockPersonalAccessTokenRepository.save).mock
+        .calls[0][0] as PersonalAccessToken;
+      expect(saved.tokenHash).toBe(hashPersonalAccessToken(result.rawToken));
+    });
+
+    it("有効日数がnullの場合は無期限のトークンを発行する", async () => {
+      vi.mocked(mockProjectRepository.findById).mockResolvedValue(
+        createProject(testUserId),
+      );
+
+      const result = await service.execute({
+        userId: testUserId,
+        name: "CI",
+        projectIds: [testProjectId],
+        expiresInDays: null,
+      });
+
+      expect(result.token.expiresAt).toBeNull();
+    });
+  });
+
+  describe("異常系", () => {
+    it("プロジェクトが存在しない場合エラーになる", async () => {
+      vi.mocked(mockProjectRepository.findById).mockResolvedValue(null);
+
+      await expect(
+        service.execute({
+          userId: testUserId,
+          name: "CI",
+          projectIds: [testProjectId],
+          expiresInDays: null,
+        }),
+      ).rejects.toMatchObject({ messageCode: "PROJECT_NOT_FOUND" });
+      expect(mockPersonalAccessTokenRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("メンバーでないプロジェクトを指定した場合エラーになる", async () => {
+      vi.mocked(mockProjectRepository.findById).mockResolvedValue(
+        createProject(otherUserId),
+      );
+
+      await expect(
+        service.execute({
+          userId: testUserId,
+          name: "CI",
+          projectIds: [testProjectId],
+          expiresInDays: null,
+        }),
+      ).rejects.toMatchObject({ messageCode: "PROJECT_ACCESS_DENIED" });
+      expect(mockPersonalAccessTokenRepository.save).not.toHaveBeenCalled();
+    });
+  });
+});
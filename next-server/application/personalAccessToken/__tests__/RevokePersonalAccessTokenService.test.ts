@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { RevokePersonalAccessTokenService } from "../RevokePersonalAccessTokenService";
+import type { IPersonalAccessTokenRepository } from "@/application/shared/port/repository";
+import { PersonalAccessToken } from "@/domain/personalAccessToken";
+
+describe("RevokePersonalAccessTokenService", () => {
+  const mockPersonalAccessTokenRepository: IPersonalAccessTokenRepository = {
+    findById: vi.fn(),
+    findByTokenHash: vi.fn(),
+    findByUserId: vi.fn(),
+    save: vi.fn(),
+    delete: vi.fn(),
+  };
+
+  let service: RevokePersonalAccessTokenService;
+
+  // テスト用データ（有効なUUID v4形式）
+  const testTokenId = "550e8400-e29b-41d4-a716-446655440001";
+  const testUserId = "550e8400-e29b-41d4-a716-446655440002";
+  const otherUserId = "550e8400-e29b-41d4-a716-446655440003";
+  const testProjectId = "550e8400-e29b-41d4-a716-446655440004";
+
+  const createToken = () =>
+    PersonalAccessToken.reconstruct({
+      id: testTokenId,
+      userId: testUserId,
+      name: "CI",
+      tokenHash: "hash",
+      tokenPrefix: "rvw_abcdefgh",
+      projectIds: [testProjectId],
+      expiresAt: null,
+      lastUsedAt: null,
+      createdAt: new Date(),
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new RevokePersonalAccessTokenService(
+      mockPersonalAccessTokenRepository,
+    );
+  });
+
+  it("自分が発行したトークンを削除する", async () => {
+    vi.mocked(mockPersonalAccessTokenRepository.findById).mockResolvedValue(
+      createToken(),
+    );
+
+    await service.execute({ tokenId: testTokenId, userId: testUserId });
+
+    expect(mockPersonalAccessTokenRepository.delete).toHaveBeenCalledTimes(1);
+  });
+
+  it("トークンが存在しない場合エラーになる", async () => {
+    vi.mocked(mockPersonalAccessTokenRepository.findById).mockResolvedValue(
+      null,
+    );
+
+    await expect(
+      service.execute({ tokenId: testTokenId, userId: testUserId }),
+    ).rejects.toMatchObject({ messageCode: "PERSONAL_ACCESS_TOKEN_NOT_FOUND" });
+  });
+
+  it("他のユーザーが発行したトークンは削除できない", async () => {
+    vi.mocked(mockPersonalAccessTokenRepository.findById).mockResolvedValue(
+      createToken(),
+    );
+
+    await expect(
+      service.execute({ tokenId: testTokenId, userId: otherUserId }),
+    ).rejects.toMatchObject({
+      messageCode: "PERSONAL_ACCESS_TOKEN_ACCESS_DENIED",
+    });
+    expect(mockPersonalAccessTokenRepository.delete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * パーソナルアクセストークン アプリケーションサービス
+ * エントリーポイント
+ */
+
+export type { PersonalAccessTokenSummaryDto } from "./PersonalAccessTokenSummary";
+export {
+  CreatePersonalAccessTokenService,
+  type CreatePersonalAccessTokenCommand,
+  type CreatePersonalAccessTokenResult,
+} from "./CreatePersonalAccessTokenService";
+export {
+  ListPersonalAccessTokensService,
+  type ListPersonalAccessTokensQuery,
+} from "./ListPersonalAccessTokensService";
+export {
+  RevokePersonalAccessTokenService,
+  type RevokePersonalAccessTokenCommand,
+} from "./RevokePersonalAccessTokenService";
+export {
+  AuthenticatePersonalAccessTokenService,
+  type AuthenticatePersonalAccessTokenCommand,
+  type AuthenticatePersonalAccessTokenResult,
+} from "./AuthenticatePersonalAccessTokenService";
@@ -3,7 +3,8 @@ import {
   IUserRepository,
 } from "@/application/shared/port/repository";
 import { buildUserInfoMap } from "@/application/shared/util";
-import { Project, ProjectDto } from "@/domain/project";
+import { Project, ProjectDto, ProjectMemberInput } from "@/domain/project";
+import type { AiApiRateLimitDto } from "@/domain/system-setting";
 import { UserId } from "@/domain/user";
 import { domainValidationError } from "@/lib/server/error";
 
@@ -17,8 +18,12 @@ export interface CreateProjectCommand {
   description?: string | null;
   /** APIキー（平文） */
   apiKey?: string | null;
-  /** メンバーのユーザID一覧（作成者含む） */
-  memberIds: string[];
+  /** AI APIレート制限（未設定の項目はシステム設定を使用） */
+  aiApiRateLimit?: AiApiRateLimitDto;
+  /** 1か月あたりのAIトークン使用量の上限（未設定の場合は上限なし） */
+  monthlyTokenBudget?: number | null;
+  /** メンバー一覧（作成者含む。オーナーが1人以上必要） */
+  members: ProjectMemberInput[];
 }
 
 /**
@@ -38,14 +43,21 @@ export class CreateProjectService {
    * @throws ドメインバリデーションエラー - 入力が不正な場合
    */
   async execute(command: CreateProjectCommand): Promise<ProjectDto> {
-    const { name, description, apiKey, memberIds } = command;
+    const {
+      name,
+      description,
+      apiKey,
+      aiApiRateLimit,
+      monthlyTokenBudget,
+      members,
+    } = command;
 
     // メンバーのユーザー情報を取得（存在確認）
-    const userIds = memberIds.map((id) => UserId.reconstruct(id));
+    const userIds = members.map((m) => UserId.reconstruct(m.userId));
     const users = await this.userRepository.findByIds(userIds);
 
     // すべてのメンバーが存在するか検証
-    if (users.length !== memberIds.length) {
+    if (users.length !== members.length) {
       throw domainValidationError("PROJECT_MEMBER_USER_NOT_FOUND");
     }
 
@@ -54,7 +66,9 @@ export class CreateProjectService {
       name,
       description,
       apiKey,
-      memberIds,
+      aiApiRateLimit,
+      monthlyTokenBudget,
+      members,
     });
 
     // 保存
@@ -6,8 +6,9 @@ import { IReviewSpaceRepository } from "@/application/shared/port/repository/IRe
 import { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
 import { type IWorkflowRunRegistry } from "@/application/aiTask/WorkflowRunRegistry";
 import { ReviewTargetCleanupHelper } from "@/application/shared/ReviewTargetCleanupHelper";
-import { ProjectId } from "@/domain/project";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
 import { domainValidationError } from "@/lib/server/error";
+import { PluginFileHelper } from "@/lib/server/pluginFileHelper";
 
 /**
  * プロジェクト削除コマンド（入力DTO）
@@ -67,6 +68,14 @@ export class DeleteProjectService {
       throw domainValidationError("PROJECT_ACCESS_DENIED");
     }
 
+    // 権限確認
+    if (
+      !isAdmin &&
+      !project.hasPermission(userId, PROJECT_PERMISSION.MANAGE_PROJECT)
+    ) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
     // カスケードクリーンアップ処理（クリーンアップヘルパーが初期化されている場合のみ）
     if (this.reviewSpaceRepository && this.cleanupHelper) {
       await this.cleanupProject(projectId);
@@ -96,6 +105,9 @@ export class DeleteProjectService {
 
       // チェックリスト生成タスクのクリーンアップ
       await this.cleanupHelper.cleanupChecklistGenerationTask(reviewSpaceId);
+
+      // プラグインスクリプトの削除（プラグインのレコードはカスケード削除される）
+      await PluginFileHelper.deleteReviewSpaceScripts(reviewSpaceId);
     }
   }
 }
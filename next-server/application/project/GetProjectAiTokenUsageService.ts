@@ -0,0 +1,135 @@
+import {
+  IAiTokenUsageRepository,
+  IProjectRepository,
+  AiTokenUsageSumRow,
+} from "@/application/shared/port/repository";
+import { MonthlyTokenBudget, ProjectId } from "@/domain/project";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * プロジェクトAIトークン使用量取得クエリ（入力DTO）
+ */
+export interface GetProjectAiTokenUsageQuery {
+  /** プロジェクトID */
+  projectId: string;
+  /** リクエストユーザID */
+  userId: string;
+  /** 管理者フラグ（管理者の場合はメンバーチェックをスキップ） */
+  isAdmin?: boolean;
+}
+
+/**
+ * 月別のAIトークン使用量DTO
+ */
+export interface MonthlyAiTokenUsageDto extends AiTokenUsageSumRow {
+  /** 集計月（YYYY-MM） */
+  month: string;
+}
+
+/**
+ * タスクタイプ別のAIトークン使用量DTO
+ */
+export interface TaskTypeAiTokenUsageDto extends AiTokenUsageSumRow {
+  taskType: string;
+}
+
+/**
+ * プロジェクトAIトークン使用量DTO
+ */
+export interface ProjectAiTokenUsageDto {
+  /** 月間トークン上限（nullの場合は上限なし） */
+  monthlyTokenBudget: number | null;
+  /** 今月の使用量 */
+  currentMonth: MonthlyAiTokenUsageDto;
+  /** 今月の使用量の上限に対する割合（上限なしの場合はnull） */
+  budgetUsageRate: number | null;
+  /** 今月の使用量が上限に達しているか */
+  isBudgetExceeded: boolean;
+  /** 今月のタスクタイプ別の使用量（合計トークン数の多い順） */
+  byTaskType: TaskTypeAiTokenUsageDto[];
+  /** 直近の月別の使用量（古い順、今月を含む） */
+  monthlyHistory: MonthlyAiTokenUsageDto[];
+}
+
+/**
+ * プロジェクトAIトークン使用量取得サービス
+ * プロジェクト設定画面で今月の使用量・上限と月別の推移を表示するために使用
+ */
+export class GetProjectAiTokenUsageService {
+  /** 月別の推移として返す月数（今月を含む） */
+  private static readonly HISTORY_MONTHS = 6;
+
+  constructor(
+    private readonly aiTokenUsageRepository: IAiTokenUsageRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * プロジェクトAIトークン使用量取得を実行
+   * @param query 取得クエリ
+   * @param now 現在日時（テスト用）
+   * @returns プロジェクトAIトークン使用量DTO
+   * @throws ドメインバリデーションエラー - プロジェクトが存在しない場合、またはアクセス権がない場合
+   */
+  async execute(
+    query: GetProjectAiTokenUsageQuery,
+    now: Date = new Date(),
+  ): Promise<ProjectAiTokenUsageDto> {
+    const { projectId, userId, isAdmin } = query;
+
+    const project = await this.projectRepository.findById(
+      ProjectId.reconstruct(projectId),
+    );
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+
+    // アクセス権の確認（管理者またはメンバーのみ参照可能）
+    if (!isAdmin && !project.hasMember(userId)) {
+      throw domainValidationError("PROJECT_ACCESS_DENIED");
+    }
+
+    // 直近の月別の使用量（古い順）
+    const months = Array.from(
+      { length: GetProjectAiTokenUsageService.HISTORY_MONTHS },
+      (_, i) =>
+        new Date(
+          now.getFullYear(),
+          now.getMonth() -
+            (GetProjectAiTokenUsageService.HISTORY_MONTHS - 1) +
+            i,
+          1,
+        ),
+    );
+    const monthlyHistory = await Promise.all(
+      months.map(async (month) => ({
+        month: MonthlyTokenBudget.periodKey(month),
+        ...(await this.aiTokenUsageRepository.sumByProjectId(
+          project.id,
+          MonthlyTokenBudget.periodStart(month),
+          MonthlyTokenBudget.periodEnd(month),
+        )),
+      })),
+    );
+    const currentMonth = monthlyHistory[monthlyHistory.length - 1];
+
+    const byTaskType = (
+      await this.aiTokenUsageRepository.sumByProjectIdGroupByTaskType(
+        project.id,
+        MonthlyTokenBudget.periodStart(now),
+        MonthlyTokenBudget.periodEnd(now),
+      )
+    ).sort((a, b) => b.totalTokens - a.totalTokens);
+
+    const budget = project.monthlyTokenBudget;
+    return {
+      monthlyTokenBudget: budget.value,
+      currentMonth,
+      budgetUsageRate:
+        budget.value !== null ? currentMonth.totalTokens / budget.value : null,
+      isBudgetExceeded: budget.isExceededBy(currentMonth.totalTokens),
+      byTaskType,
+      monthlyHistory,
+    };
+  }
+}
@@ -3,7 +3,12 @@ import {
   IUserRepository,
 } from "@/application/shared/port/repository";
 import { buildUserInfoMap } from "@/application/shared/util";
-import { ProjectDto, ProjectId } from "@/domain/project";
+import {
+  ProjectDto,
+  ProjectId,
+  ProjectMemberInput,
+  PROJECT_PERMISSION,
+} from "@/domain/project";
 import { UserId } from "@/domain/user";
 import { domainValidationError } from "@/lib/server/error";
 
@@ -15,13 +20,13 @@ export interface UpdateProjectMembersCommand {
   projectId: string;
   /** リクエストユーザID */
   userId: string;
-  /** メンバーのユーザID一覧 */
-  memberIds: string[];
+  /** メンバー一覧（ロール省略時は既存メンバーは現在のロール、新規メンバーは編集者） */
+  members: ProjectMemberInput[];
 }
 
 /**
  * プロジェクトメンバー更新サービス
- * プロジェクトのメンバーリストを同期する
+ * プロジェクトのメンバーリストとロールを同期する（オーナーのみ実行可能）
  */
 export class UpdateProjectMembersService {
   constructor(
@@ -33,10 +38,10 @@ export class UpdateProjectMembersService {
    * プロジェクトメンバー更新を実行
    * @param command 更新コマンド
    * @returns 更新後のプロジェクトDTO
-   * @throws ドメインバリデーションエラー - プロジェクトが存在しない場合、アクセス権がない場合、またはメンバーが空の場合
+   * @throws ドメインバリデーションエラー - プロジェクトが存在しない場合、アクセス権がない場合、メンバーが空の場合、またはオーナーがいなくなる場合
    */
   async execute(command: UpdateProjectMembersCommand): Promise<ProjectDto> {
-    const { projectId, userId, memberIds } = command;
+    const { projectId, userId, members } = command;
 
     // プロジェクトを取得
     let project = await this.projectRepository.findById(
@@ -52,14 +57,19 @@ export class UpdateProjectMembersService {
       throw domainValidationError("PROJECT_ACCESS_DENIED");
     }
 
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.MANAGE_PROJECT)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
     // メンバーを同期
-    project = project.syncMembers(memberIds);
+    project = project.syncMembers(members);
 
     // 保存
     await this.projectRepository.save(project);
 
     // メンバーのユーザー情報を取得
-    const userIds = memberIds.map((id) => UserId.reconstruct(id));
+    const userIds = members.map((m) => UserId.reconstruct(m.userId));
     const users = await this.userRepository.findByIds(userIds);
 
     // ユーザー情報マップを作成
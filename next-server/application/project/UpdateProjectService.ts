@@ -3,7 +3,11 @@ import {
   IUserRepository,
 } from "@/application/shared/port/repository";
 import { buildUserInfoMap } from "@/application/shared/util";
-import { ProjectDto, ProjectId } from "@/domain/project";
+import { ProjectDto, ProjectId, PROJECT_PERMISSION } from "@/domain/project";
+import type {
+  AiApiRateLimitDto,
+  AiModelAssignmentDto,
+} from "@/domain/system-setting";
 import { domainValidationError } from "@/lib/server/error";
 
 /**
@@ -22,6 +26,12 @@ export interface UpdateProjectCommand {
   description?: string | null;
   /** APIキー（更新する場合、平文） */
   apiKey?: string | null;
+  /** AI APIレート制限（更新する場合、未設定の項目はシステム設定を使用） */
+  aiApiRateLimit?: AiApiRateLimitDto;
+  /** 1か月あたりのAIトークン使用量の上限（更新する場合、nullは上限なし） */
+  monthlyTokenBudget?: number | null;
+  /** エージェント別モデル割り当て（更新する場合、全体を置き換える） */
+  aiModelAssignments?: Record<string, AiModelAssignmentDto>;
 }
 
 /**
@@ -41,7 +51,17 @@ export class UpdateProjectService {
    * @throws ドメインバリデーションエラー - プロジェクトが存在しない場合、またはアクセス権がない場合
    */
   async execute(command: UpdateProjectCommand): Promise<ProjectDto> {
-    const { projectId, userId, isAdmin, name, description, apiKey } = command;
+    const {
+      projectId,
+      userId,
+      isAdmin,
+      name,
+      description,
+      apiKey,
+      aiApiRateLimit,
+      monthlyTokenBudget,
+      aiModelAssignments,
+    } = command;
 
     // プロジェクトを取得
     let project = await this.projectRepository.findById(
@@ -57,6 +77,14 @@ export class UpdateProjectService {
       throw domainValidationError("PROJECT_ACCESS_DENIED");
     }
 
+    // 権限確認
+    if (
+      !isAdmin &&
+      !project.hasPermission(userId, PROJECT_PERMISSION.MANAGE_PROJECT)
+    ) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
     // 各フィールドを更新
     if (name !== undefined) {
       project = project.updateName(name);
@@ -70,6 +98,18 @@ export class UpdateProjectService {
       project = project.updateApiKey(apiKey);
     }
 
+    if (aiApiRateLimit !== undefined) {
+      project = project.updateAiApiRateLimit(aiApiRateLimit);
+    }
+
+    if (monthlyTokenBudget !== undefined) {
+      project = project.updateMonthlyTokenBudget(monthlyTokenBudget);
+    }
+
+    if (aiModelAssignments !== undefined) {
+      project = project.updateAiModelAssignments(aiModelAssignments);
+    }
+
     // 保存
     await this.projectRepository.save(project);
 
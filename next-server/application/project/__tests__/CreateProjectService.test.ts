@@ -25,6 +25,8 @@ describe("CreateProjectService", () => {
       findById: vi.fn(),
       findByMemberId: vi.fn(),
       countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
       save: vi.fn(),
       delete: vi.fn(),
     };
@@ -56,7 +58,7 @@ describe("CreateProjectService", () => {
         name: "テストプロジェクト",
         description: "テスト説明",
         apiKey: "sk-test123",
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId, role: "owner" }],
       });
 
       expect(result.name).toBe("テストプロジェクト");
@@ -69,7 +71,7 @@ describe("CreateProjectService", () => {
     it("説明とAPIキーなしでプロジェクトを作成できる", async () => {
       const result = await service.execute({
         name: "テストプロジェクト",
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId, role: "owner" }],
       });
 
       expect(result.name).toBe("テストプロジェクト");
@@ -99,7 +101,10 @@ describe("CreateProjectService", () => {
 
       const result = await service.execute({
         name: "テストプロジェクト",
-        memberIds: [validMemberId, memberId2],
+        members: [
+          { userId: validMemberId, role: "owner" },
+          { userId: memberId2 },
+        ],
       });
 
       expect(result.members).toHaveLength(2);
@@ -110,7 +115,7 @@ describe("CreateProjectService", () => {
         name: "テストプロジェクト",
         description: "テスト説明",
         apiKey: "sk-test123",
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId, role: "owner" }],
       });
 
       expect(mockProjectRepository.save).toHaveBeenCalledWith(
@@ -134,7 +139,7 @@ describe("CreateProjectService", () => {
 
       const result = await service.execute({
         name: "テストプロジェクト",
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId, role: "owner" }],
       });
 
       expect(result.members[0].displayName).toBe("マッピングテストユーザー");
@@ -147,7 +152,7 @@ describe("CreateProjectService", () => {
       await expect(
         service.execute({
           name: "",
-          memberIds: [validMemberId],
+          members: [{ userId: validMemberId, role: "owner" }],
         }),
       ).rejects.toMatchObject({ messageCode: "PROJECT_NAME_EMPTY" });
     });
@@ -156,7 +161,7 @@ describe("CreateProjectService", () => {
       await expect(
         service.execute({
           name: "テストプロジェクト",
-          memberIds: [],
+          members: [],
         }),
       ).rejects.toMatchObject({ messageCode: "PROJECT_MEMBER_USER_NOT_FOUND" });
     });
@@ -169,7 +174,7 @@ describe("CreateProjectService", () => {
       await expect(
         service.execute({
           name: "テストプロジェクト",
-          memberIds: [validMemberId],
+          members: [{ userId: validMemberId, role: "owner" }],
         }),
       ).rejects.toThrow("DB Error");
     });
@@ -13,6 +13,7 @@ import { ReviewTarget } from "@/domain/reviewTarget";
 import { AiTask } from "@/domain/aiTask";
 import { TaskFileHelper } from "@/lib/server/taskFileHelper";
 import { ReviewCacheHelper } from "@/lib/server/reviewCacheHelper";
+import { PluginFileHelper } from "@/lib/server/pluginFileHelper";
 
 // 暗号化関数をモック
 vi.mock("@/lib/server/encryption", () => ({
@@ -34,6 +35,13 @@ vi.mock("@/lib/server/reviewCacheHelper", () => ({
   },
 }));
 
+// PluginFileHelperのモック
+vi.mock("@/lib/server/pluginFileHelper", () => ({
+  PluginFileHelper: {
+    deleteReviewSpaceScripts: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
 // ロガーのモック
 vi.mock("@/lib/server/logger", () => ({
   getLogger: vi.fn().mockReturnValue({
@@ -59,7 +67,7 @@ describe("DeleteProjectService", () => {
       name: "テストプロジェクト",
       description: null,
       encryptedApiKey: null,
-      members: [{ userId: validMemberId, createdAt: now }],
+      members: [{ userId: validMemberId, role: "owner", createdAt: now }],
       createdAt: now,
       updatedAt: now,
     });
@@ -70,6 +78,8 @@ describe("DeleteProjectService", () => {
       findById: vi.fn(),
       findByMemberId: vi.fn(),
       countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
       save: vi.fn(),
       delete: vi.fn(),
     };
@@ -165,6 +175,10 @@ describe("DeleteProjectService", () => {
         updatedAt: now,
         startedAt: null,
         completedAt: null,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        deliveryCount: 0,
+        aiApiRetryCount: 0,
         fileMetadata: [],
       });
 
@@ -186,8 +200,11 @@ describe("DeleteProjectService", () => {
       mockReviewTargetRepository = {
         findById: vi.fn(),
         findByReviewSpaceId: vi.fn().mockResolvedValue([mockReviewTarget]),
+        findByRevisionGroupId: vi.fn(),
         countByReviewSpaceId: vi.fn(),
+        summarizeByReviewSpaceIds: vi.fn(),
         save: vi.fn(),
+        saveRevision: vi.fn(),
         delete: vi.fn(),
       };
 
@@ -198,6 +215,10 @@ describe("DeleteProjectService", () => {
         findDistinctApiKeyHashesInQueue: vi.fn(),
         countQueuedByApiKeyHash: vi.fn(),
         dequeueNextTask: vi.fn(),
+        renewLease: vi.fn(),
+        incrementAiApiRetryCount: vi.fn(),
+        requeueExpiredLeases: vi.fn(),
+        findLeaseExpiredTasks: vi.fn(),
         save: vi.fn(),
         delete: vi.fn(),
         deleteByStatus: vi.fn(),
@@ -325,6 +346,39 @@ describe("DeleteProjectService", () => {
       );
     });
 
+    it("プロジェクト削除時に全レビュースペースのプラグインスクリプトが削除される", async () => {
+      const reviewSpace2Id = "723e4567-e89b-12d3-a456-426614174006";
+      const mockReviewSpace2 = ReviewSpace.reconstruct({
+        id: reviewSpace2Id,
+        projectId: validProjectId,
+        name: "テストスペース2",
+        description: null,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      vi.mocked(mockProjectRepository.findById).mockResolvedValue(
+        createMockProject(),
+      );
+      vi.mocked(mockReviewSpaceRepository.findByProjectId).mockResolvedValue([
+        mockReviewSpace,
+        mockReviewSpace2,
+      ]);
+
+      await serviceWithCleanup.execute({
+        projectId: validProjectId,
+        userId: validMemberId,
+      });
+
+      expect(PluginFileHelper.deleteReviewSpaceScripts).toHaveBeenCalledWith(
+        validReviewSpaceId,
+      );
+      expect(PluginFileHelper.deleteReviewSpaceScripts).toHaveBeenCalledWith(
+        reviewSpace2Id,
+      );
+      expect(mockProjectRepository.delete).toHaveBeenCalledTimes(1);
+    });
+
     it("クリーンアップエラーが発生しても削除処理は続行される", async () => {
       vi.mocked(mockProjectRepository.findById).mockResolvedValue(
         createMockProject(),
@@ -380,6 +434,10 @@ describe("DeleteProjectService", () => {
         updatedAt: now,
         startedAt: now,
         completedAt: null,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        deliveryCount: 0,
+        aiApiRetryCount: 0,
         fileMetadata: [],
       });
 
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GetProjectAiTokenUsageService } from "../GetProjectAiTokenUsageService";
+import type {
+  IAiTokenUsageRepository,
+  IProjectRepository,
+} from "@/application/shared/port/repository";
+import { Project } from "@/domain/project";
+
+describe("GetProjectAiTokenUsageService", () => {
+  let mockAiTokenUsageRepository: IAiTokenUsageRepository;
+  let mockProjectRepository: IProjectRepository;
+  let service: GetProjectAiTokenUsageService;
+
+  const validProjectId = "323e4567-e89b-12d3-a456-426614174002";
+  const validMemberId = "123e4567-e89b-12d3-a456-426614174000";
+  const nonMemberId = "223e4567-e89b-12d3-a456-426614174001";
+  const now = new Date(2024, 2, 10);
+
+  const createMockProject = (monthlyTokenBudget: number | null) =>
+    Project.reconstruct({
+      id: validProjectId,
+      name: "テストプロジェクト",
+      description: null,
+      encryptedApiKey: null,
+      monthlyTokenBudget,
+      members: [{ userId: validMemberId, role: "owner", createdAt: now }],
+      createdAt: now,
+      updatedAt: now,
+    });
+
+  const sum = (totalTokens: number) => ({
+    requestCount: totalTokens > 0 ? 1 : 0,
+    promptTokens: totalTokens,
+    completionTokens: 0,
+    totalTokens,
+  });
+
+  beforeEach(() => {
+    mockAiTokenUsageRepository = {
+      save: vi.fn(),
+      sumByProjectId: vi.fn((_projectId, from: Date) =>
+        // 今月（2024-03）のみ800トークン、前月は200トークン
+        Promise.resolve(
+          sum(from.getMonth() === 2 ? 800 : from.getMonth() === 1 ? 200 : 0),
+        ),
+      ),
+      sumByProjectIdGroupByTaskType: vi.fn().mockResolvedValue([
+        { taskType: "qa_execution", ...sum(100) },
+        { taskType: "small_review", ...sum(700) },
+      ]),
+      sumGroupByProject: vi.fn(),
+    };
+    mockProjectRepository = {
+      findById: vi.fn(),
+      findByMemberId: vi.fn(),
+      countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+    service = new GetProjectAiTokenUsageService(
+      mockAiTokenUsageRepository,
+      mockProjectRepository,
+    );
+  });
+
+  it("今月の使用量と上限に対する割合、内訳、月別の推移を取得できる", async () => {
+    vi.mocked(mockProjectRepository.findById).mockResolvedValue(
+      createMockProject(1000),
+    );
+
+    const result = await service.execute(
+      { projectId: validProjectId, userId: validMemberId },
+      now,
+    );
+
+    expect(result.monthlyTokenBudget).toBe(1000);
+    expect(result.currentMonth).toEqual({ month: "2024-03", ...sum(800) });
+    expect(result.budgetUsageRate).toBeCloseTo(0.8);
+    expect(result.isBudgetExceeded).toBe(false);
+    expect(result.byTaskType.map((r) => r.taskType)).toEqual([
+      "small_review",
+      "qa_execution",
+    ]);
+    expect(result.monthlyHistory.map((m) => m.month)).toEqual([
+      "2023-10",
+      "2023-11",
+      "2023-12",
+      "2024-01",
+      "2024-02",
+      "2024-03",
+    ]);
+    expect(result.monthlyHistory[4].totalTokens).toBe(200);
+  });
+
+  it("上限に達している場合はisBudgetExceededがtrueになる", async () => {
+    vi.mocked(mockProjectRepository.findById).mockResolvedValue(
+      createMockProject(800),
+    );
+
+    const result = await service.execute(
+      { projectId: validProjectId, userId: validMemberId },
+      now,
+    );
+
+    expect(result.isBudgetExceeded).toBe(true);
+  });
+
+  it("上限が設定されていない場合は割合がnullになる", async () => {
+    vi.mocked(mockProjectRepository.findById).mockResolvedValue(
+      createMockProject(null),
+    );
+
+    const result = await service.execute(
+      { projectId: validProjectId, userId: validMemberId },
+      now,
+    );
+
+    expect(result.monthlyTokenBudget).toBeNull();
+    expect(result.budgetUsageRate).toBeNull();
+    expect(result.isBudgetExceeded).toBe(false);
+  });
+
+  it("メンバーでない場合はエラーをスローする", async () => {
+    vi.mocked(mockProjectRepository.findById).mockResolvedValue(
+      createMockProject(null),
+    );
+
+    await expect(
+      service.execute({ projectId: validProjectId, userId: nonMemberId }, now),
+    ).rejects.toMatchObject({ messageCode: "PROJECT_ACCESS_DENIED" });
+  });
+
+  it("管理者はメンバーでなくても取得できる", async () => {
+    vi.mocked(mockProjectRepository.findById).mockResolvedValue(
+      createMockProject(null),
+    );
+
+    await expect(
+      service.execute(
+        { projectId: validProjectId, userId: nonMemberId, isAdmin: true },
+        now,
+      ),
+    ).resolves.toBeDefined();
+  });
+
+  it("プロジェクトが存在しない場合はエラーをスローする", async () => {
+    vi.mocked(mockProjectRepository.findById).mockResolvedValue(null);
+
+    await expect(
+      service.execute(
+        { projectId: validProjectId, userId: validMemberId },
+        now,
+      ),
+    ).rejects.toMatchObject({ messageCode: "PROJECT_NOT_FOUND" });
+  });
+});
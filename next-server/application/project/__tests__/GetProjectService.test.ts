@@ -29,7 +29,7 @@ describe("GetProjectService", () => {
       name: "テストプロジェクト",
       description: "テスト説明",
       encryptedApiKey: "encrypted_key",
-      members: [{ userId: validMemberId, createdAt: now }],
+      members: [{ userId: validMemberId, role: "owner", createdAt: now }],
       createdAt: now,
       updatedAt: now,
     });
@@ -40,6 +40,8 @@ describe("GetProjectService", () => {
       findById: vi.fn(),
       findByMemberId: vi.fn(),
       countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
       save: vi.fn(),
       delete: vi.fn(),
     };
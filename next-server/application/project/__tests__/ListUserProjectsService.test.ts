@@ -27,7 +27,7 @@ describe("ListUserProjectsService", () => {
       name,
       description: null,
       encryptedApiKey: null,
-      members: [{ userId: validMemberId, createdAt: now }],
+      members: [{ userId: validMemberId, role: "owner", createdAt: now }],
       createdAt: now,
       updatedAt: now,
     });
@@ -38,6 +38,8 @@ describe("ListUserProjectsService", () => {
       findById: vi.fn(),
       findByMemberId: vi.fn(),
       countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
       save: vi.fn(),
       delete: vi.fn(),
     };
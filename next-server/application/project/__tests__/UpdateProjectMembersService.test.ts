@@ -29,8 +29,10 @@ describe("UpdateProjectMembersService", () => {
       name: "テストプロジェクト",
       description: "テスト説明",
       encryptedApiKey: null,
-      members: memberIds.map((userId) => ({
+      // 先頭のメンバーをオーナー、それ以外を編集者とする
+      members: memberIds.map((userId, index) => ({
         userId,
+        role: index === 0 ? "owner" : "editor",
         createdAt: new Date(),
       })),
       createdAt: new Date(),
@@ -56,6 +58,8 @@ describe("UpdateProjectMembersService", () => {
       findById: vi.fn(),
       findByMemberId: vi.fn(),
       countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
       save: vi.fn(),
       delete: vi.fn(),
     };
@@ -85,7 +89,7 @@ describe("UpdateProjectMembersService", () => {
       const result = await service.execute({
         projectId: validProjectId,
         userId: validMemberId,
-        memberIds: [validMemberId, validMemberId2],
+        members: [{ userId: validMemberId }, { userId: validMemberId2 }],
       });
 
       expect(result.members).toHaveLength(2);
@@ -102,7 +106,7 @@ describe("UpdateProjectMembersService", () => {
       const result = await service.execute({
         projectId: validProjectId,
         userId: validMemberId,
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId }],
       });
 
       expect(result.members).toHaveLength(1);
@@ -120,7 +124,7 @@ describe("UpdateProjectMembersService", () => {
       const result = await service.execute({
         projectId: validProjectId,
         userId: validMemberId,
-        memberIds: [validMemberId, validMemberId3],
+        members: [{ userId: validMemberId }, { userId: validMemberId3 }],
       });
 
       expect(result.members).toHaveLength(2);
@@ -130,6 +134,29 @@ describe("UpdateProjectMembersService", () => {
       expect(memberUserIds).not.toContain(validMemberId2);
     });
 
+    it("メンバーのロールを変更できる", async () => {
+      const mockProject = createMockProject([validMemberId, validMemberId2]);
+      vi.mocked(mockProjectRepository.findById).mockResolvedValue(mockProject);
+      vi.mocked(mockUserRepository.findByIds).mockResolvedValue([
+        createMockUser(validMemberId, "EMP001", "テストユーザー1"),
+        createMockUser(validMemberId2, "EMP002", "テストユーザー2"),
+      ]);
+
+      const result = await service.execute({
+        projectId: validProjectId,
+        userId: validMemberId,
+        members: [
+          { userId: validMemberId },
+          { userId: validMemberId2, role: "viewer" },
+        ],
+      });
+
+      expect(result.members.map((m) => [m.userId, m.role])).toEqual([
+        [validMemberId, "owner"],
+        [validMemberId2, "viewer"],
+      ]);
+    });
+
     it("ユーザ情報が正しくマッピングされる", async () => {
       const mockProject = createMockProject([validMemberId]);
       vi.mocked(mockProjectRepository.findById).mockResolvedValue(mockProject);
@@ -140,7 +167,7 @@ describe("UpdateProjectMembersService", () => {
       const result = await service.execute({
         projectId: validProjectId,
         userId: validMemberId,
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId }],
       });
 
       expect(result.members[0].displayName).toBe("山田太郎");
@@ -156,7 +183,7 @@ describe("UpdateProjectMembersService", () => {
         service.execute({
           projectId: validProjectId,
           userId: validMemberId,
-          memberIds: [validMemberId],
+          members: [{ userId: validMemberId }],
         }),
       ).rejects.toMatchObject({ messageCode: "PROJECT_NOT_FOUND" });
     });
@@ -169,11 +196,41 @@ describe("UpdateProjectMembersService", () => {
         service.execute({
           projectId: validProjectId,
           userId: validMemberId2, // メンバーでないユーザ
-          memberIds: [validMemberId],
+          members: [{ userId: validMemberId }],
         }),
       ).rejects.toMatchObject({ messageCode: "PROJECT_ACCESS_DENIED" });
     });
 
+    it("オーナー以外のメンバーが更新した場合はエラー", async () => {
+      const mockProject = createMockProject([validMemberId, validMemberId2]);
+      vi.mocked(mockProjectRepository.findById).mockResolvedValue(mockProject);
+
+      await expect(
+        service.execute({
+          projectId: validProjectId,
+          userId: validMemberId2, // 編集者
+          members: [{ userId: validMemberId }, { userId: validMemberId2 }],
+        }),
+      ).rejects.toMatchObject({ messageCode: "PROJECT_PERMISSION_DENIED" });
+      expect(mockProjectRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("オーナーがいなくなる場合はエラー", async () => {
+      const mockProject = createMockProject([validMemberId, validMemberId2]);
+      vi.mocked(mockProjectRepository.findById).mockResolvedValue(mockProject);
+
+      await expect(
+        service.execute({
+          projectId: validProjectId,
+          userId: validMemberId,
+          members: [
+            { userId: validMemberId, role: "editor" },
+            { userId: validMemberId2 },
+          ],
+        }),
+      ).rejects.toMatchObject({ messageCode: "PROJECT_OWNER_REQUIRED" });
+    });
+
     it("メンバーリストが空の場合はエラー", async () => {
       const mockProject = createMockProject([validMemberId]);
       vi.mocked(mockProjectRepository.findById).mockResolvedValue(mockProject);
@@ -182,7 +239,7 @@ describe("UpdateProjectMembersService", () => {
         service.execute({
           projectId: validProjectId,
           userId: validMemberId,
-          memberIds: [], // 空のメンバーリスト
+          members: [], // 空のメンバーリスト
         }),
       ).rejects.toMatchObject({ messageCode: "PROJECT_MEMBER_REQUIRED" });
     });
@@ -198,7 +255,7 @@ describe("UpdateProjectMembersService", () => {
         service.execute({
           projectId: validProjectId,
           userId: validMemberId,
-          memberIds: [validMemberId],
+          members: [{ userId: validMemberId }],
         }),
       ).rejects.toThrow("DB Error");
     });
@@ -214,7 +271,7 @@ describe("UpdateProjectMembersService", () => {
         service.execute({
           projectId: validProjectId,
           userId: validMemberId,
-          memberIds: [validMemberId],
+          members: [{ userId: validMemberId }],
         }),
       ).rejects.toThrow("User Fetch Error");
     });
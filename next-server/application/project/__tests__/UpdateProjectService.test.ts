@@ -29,7 +29,7 @@ describe("UpdateProjectService", () => {
       name: "元の名前",
       description: "元の説明",
       encryptedApiKey: null,
-      members: [{ userId: validMemberId, createdAt: now }],
+      members: [{ userId: validMemberId, role: "owner", createdAt: now }],
       createdAt: now,
       updatedAt: now,
     });
@@ -40,6 +40,8 @@ describe("UpdateProjectService", () => {
       findById: vi.fn(),
       findByMemberId: vi.fn(),
       countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
       save: vi.fn(),
       delete: vi.fn(),
     };
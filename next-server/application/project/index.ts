@@ -5,6 +5,14 @@ export type { CreateProjectCommand } from "./CreateProjectService";
 export { GetProjectService } from "./GetProjectService";
 export type { GetProjectQuery } from "./GetProjectService";
 
+export { GetProjectAiTokenUsageService } from "./GetProjectAiTokenUsageService";
+export type {
+  GetProjectAiTokenUsageQuery,
+  ProjectAiTokenUsageDto,
+  MonthlyAiTokenUsageDto,
+  TaskTypeAiTokenUsageDto,
+} from "./GetProjectAiTokenUsageService";
+
 export { ListUserProjectsService } from "./ListUserProjectsService";
 export type {
   ListUserProjectsQuery,
@@ -1,13 +1,31 @@
 import { IQaHistoryRepository } from "@/application/shared/port/repository/IQaHistoryRepository";
 import { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
 import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
-import { IProjectRepository } from "@/application/shared/port/repository";
-import { QaHistory, Question, CheckListItemContent } from "@/domain/qaHistory";
+import {
+  IProjectRepository,
+  ISystemSettingRepository,
+} from "@/application/shared/port/repository";
+import {
+  QaHistory,
+  QaHistoryId,
+  Question,
+  CheckListItemContent,
+} from "@/domain/qaHistory";
 import { ReviewTargetId } from "@/domain/reviewTarget";
 import { ReviewSpaceId } from "@/domain/reviewSpace";
-import { ProjectId } from "@/domain/project";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
 import { UserId } from "@/domain/user";
 import { domainValidationError } from "@/lib/server/error";
+import { getLogger } from "@/lib/server/logger";
+import { AI_TASK_TYPE } from "@/domain/aiTask";
+import { AiTaskQueueService } from "@/application/aiTask/AiTaskQueueService";
+import { getAiTaskBootstrap } from "@/application/aiTask";
+import type { QaExecutionTaskPayload } from "@/application/aiTask";
+import { resolveAiApiConfig } from "@/application/shared/lib/resolveAiApiConfig";
+import { assertAiTokenBudget } from "@/application/shared/lib/assertAiTokenBudget";
+import type { IAiTokenUsageRepository } from "@/application/shared/port/repository/IAiTokenUsageRepository";
+
+const logger = getLogger();
 
 /**
  * Q&A実行コマンド（入力DTO）
@@ -17,10 +35,17 @@ export interface ExecuteQaCommand {
   reviewTargetId: string;
   /** 質問内容 */
   question: string;
-  /** 選択されたチェックリスト項目の内容（複数） */
+  /**
+   * 選択されたチェックリスト項目の内容（複数）
+   * スレッドへの追加の質問で未選択の場合は、直前の質問の項目を引き継ぐ
+   */
   checklistItemContents: string[];
+  /** 続けて質問するスレッドのID（新しいスレッドを開始する場合は未指定） */
+  threadId?: string;
   /** 実行ユーザーID */
   userId: string;
+  /** 社員ID（Keycloakのpreferred_username） */
+  employeeId: string;
 }
 
 /**
@@ -29,14 +54,19 @@ export interface ExecuteQaCommand {
 export interface ExecuteQaResult {
   /** Q&A履歴ID */
   qaHistoryId: string;
+  /** 所属スレッドID */
+  threadId: string;
+  /** 質問対象のチェックリスト項目の内容（引き継いだ項目を含む） */
+  checklistItemContents: string[];
 }
 
 /**
  * Q&A実行サービス
- * レビュー結果に対する質問を処理し、Q&A履歴を作成する
+ * レビュー結果に対する質問を受け付け、Q&A履歴を作成してAIタスクキューに登録する
  *
- * 注意: このサービスはQ&A履歴の作成のみを行い、ワークフローの実行は行わない。
- * ワークフローはSSE接続確立後にStartQaWorkflowServiceによって開始される。
+ * 注意: このサービスはワークフローの実行は行わない。
+ * ワークフローはワーカーがタスクを取得した時点でRunQaWorkflowServiceによって実行されるため、
+ * SSE接続が切断されても処理は継続し、再接続したクライアントは進捗を再取得できる。
  */
 export class ExecuteQaService {
   constructor(
@@ -44,26 +74,30 @@ export class ExecuteQaService {
     private readonly reviewTargetRepository: IReviewTargetRepository,
     private readonly reviewSpaceRepository: IReviewSpaceRepository,
     private readonly projectRepository: IProjectRepository,
+    private readonly systemSettingRepository: ISystemSettingRepository,
+    private readonly aiTaskQueueService: AiTaskQueueService,
+    private readonly aiTokenUsageRepository?: IAiTokenUsageRepository,
   ) {}
 
   /**
    * Q&Aを実行
-   * Q&A履歴をpending状態で作成する。
-   * ワークフローの実行はSSE接続確立後にStartQaWorkflowServiceが行う。
+   * Q&A履歴をpending状態で作成し、Q&A実行タスクをキューに登録する。
    *
    * @param command 実行コマンド
    * @returns Q&A履歴ID
    */
   async execute(command: ExecuteQaCommand): Promise<ExecuteQaResult> {
-    const { reviewTargetId, question, checklistItemContents, userId } = command;
+    const { reviewTargetId, question, threadId, userId, employeeId } = command;
+    let checklistItemContents = command.checklistItemContents ?? [];
 
-    // チェックリスト項目が選択されていることを確認
-    if (!checklistItemContents || checklistItemContents.length === 0) {
+    // チェックリスト項目が選択されていることを確認（スレッドへの追加の質問では引き継ぎ可能）
+    if (!threadId && checklistItemContents.length === 0) {
       throw domainValidationError("QA_HISTORY_CHECKLIST_ITEM_CONTENT_EMPTY");
     }
 
-    // レビュー対象の存在確認と権限チェック
     const reviewTargetIdVo = ReviewTargetId.reconstruct(reviewTargetId);
+
+    // レビュー対象の存在確認と権限チェック
     const reviewTarget =
       await this.reviewTargetRepository.findById(reviewTargetIdVo);
     if (!reviewTarget) {
@@ -91,9 +125,46 @@ export class ExecuteQaService {
       throw domainValidationError("REVIEW_TARGET_ACCESS_DENIED");
     }
 
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.EXECUTE_QA)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
+    // 月間トークン上限の確認
+    await assertAiTokenBudget(project, this.aiTokenUsageRepository);
+
+    // スレッドへの追加の質問の場合はスレッドの状態を確認し、チェックリスト項目を引き継ぐ
+    if (threadId) {
+      const thread = await this.qaHistoryRepository.findByThreadId(
+        QaHistoryId.reconstruct(threadId),
+      );
+      if (
+        thread.length === 0 ||
+        !thread[0].reviewTargetId.equals(reviewTargetIdVo)
+      ) {
+        throw domainValidationError("QA_HISTORY_THREAD_NOT_FOUND");
+      }
+      if (thread.some((h) => h.isPending() || h.isProcessing())) {
+        throw domainValidationError("QA_HISTORY_THREAD_IN_PROGRESS");
+      }
+      // 未選択の場合は直前の質問のチェックリスト項目を引き継ぐ
+      if (checklistItemContents.length === 0) {
+        checklistItemContents =
+          thread[thread.length - 1].checkListItemContent.toItems();
+      }
+    }
+
+    // API設定を取得（プロジェクト設定 > 管理者設定 > 環境変数）
+    const systemSetting = await this.systemSettingRepository.find();
+    const aiApiConfig = resolveAiApiConfig(
+      project.encryptedApiKey,
+      systemSetting,
+      project.aiApiRateLimit,
+      project.aiModelAssignments,
+    );
+
     // Q&A履歴エンティティを作成して保存（pending状態で開始）
     // 複数のチェックリスト項目はJSON配列として保存
-    // ワークフローはSSE接続確立後に開始される
     const qaHistory = QaHistory.create({
       reviewTargetId: reviewTargetIdVo,
       userId: UserId.reconstruct(userId),
@@ -101,11 +172,42 @@ export class ExecuteQaService {
       checkListItemContent: CheckListItemContent.create(
         JSON.stringify(checklistItemContents),
       ),
+      threadId: threadId ? QaHistoryId.reconstruct(threadId) : undefined,
     });
     await this.qaHistoryRepository.save(qaHistory);
 
+    // キューにタスクを登録
+    const payload: QaExecutionTaskPayload = {
+      qaHistoryId: qaHistory.id.value,
+      reviewTargetId,
+      reviewSpaceId: reviewSpace.id.value,
+      userId,
+      employeeId,
+      aiApiConfig,
+    };
+    const enqueueResult = await this.aiTaskQueueService.enqueueTask({
+      taskType: AI_TASK_TYPE.QA_EXECUTION,
+      apiKey: aiApiConfig.apiKey,
+      payload: payload as unknown as Record<string, unknown>,
+    });
+
+    // ワーカーを開始（まだ開始されていない場合）
+    const bootstrap = getAiTaskBootstrap();
+    await bootstrap.startWorkersForApiKeyHash(enqueueResult.apiKeyHash);
+
+    logger.info(
+      {
+        qaHistoryId: qaHistory.id.value,
+        taskId: enqueueResult.taskId,
+        queueLength: enqueueResult.queueLength,
+      },
+      "Q&Aタスクをキューに登録しました",
+    );
+
     return {
       qaHistoryId: qaHistory.id.value,
+      threadId: qaHistory.threadId.value,
+      checklistItemContents,
     };
   }
 }
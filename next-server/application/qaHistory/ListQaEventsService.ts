@@ -0,0 +1,105 @@
+import { IQaHistoryRepository } from "@/application/shared/port/repository/IQaHistoryRepository";
+import { IQaHistoryEventRepository } from "@/application/shared/port/repository/IQaHistoryEventRepository";
+import type {
+  QaSseEvent,
+  QaSseEventWithSequence,
+} from "@/application/shared/port/push/QaSseEventTypes";
+import { QaHistory, QaHistoryId } from "@/domain/qaHistory";
+
+/**
+ * Q&Aイベント取得コマンド（入力DTO）
+ */
+export interface ListQaEventsCommand {
+  /** Q&A履歴ID */
+  qaHistoryId: string;
+  /** 送信済みイベントの最後の発行順（0の場合は全イベントを取得） */
+  afterSequence: number;
+}
+
+/**
+ * Q&Aイベント取得結果
+ */
+export interface ListQaEventsResult {
+  /** 記録済みのイベント（発行順の昇順） */
+  events: QaSseEventWithSequence[];
+  /**
+   * Q&A履歴から復元した終了イベント
+   * Q&Aが終了しているが終了イベントが記録されていない場合のみ設定される
+   * （管理者による強制停止や、イベント記録導入前のQ&A履歴など）
+   */
+  terminalEvent: QaSseEvent | null;
+  /** Q&A処理が終了しているか（以降のイベントは発行されない） */
+  isFinished: boolean;
+}
+
+/**
+ * Q&Aイベント取得サービス
+ * SSEに接続・再接続したクライアントへ再送するため、記録済みのQ&Aイベントを取得する
+ * 権限チェックは呼び出し元（SSE接続時）で行う
+ */
+export class ListQaEventsService {
+  constructor(
+    private readonly qaHistoryRepository: IQaHistoryRepository,
+    private readonly qaHistoryEventRepository: IQaHistoryEventRepository,
+  ) {}
+
+  /**
+   * 指定した発行順より後に記録されたイベントを取得
+   * @param command 取得コマンド
+   * @returns 記録済みイベントと終了状態
+   */
+  async execute(command: ListQaEventsCommand): Promise<ListQaEventsResult> {
+    const qaHistoryId = QaHistoryId.reconstruct(command.qaHistoryId);
+    const recorded = await this.qaHistoryEventRepository.findByQaHistoryId(
+      qaHistoryId,
+      command.afterSequence,
+    );
+
+    const events = recorded.map(
+      (event) =>
+        ({
+          ...event.toEvent(),
+          sequence: event.sequence,
+        }) as QaSseEventWithSequence,
+    );
+
+    if (recorded.some((event) => event.isTerminal())) {
+      return { events, terminalEvent: null, isFinished: true };
+    }
+
+    // 終了イベントが記録されていない場合はQ&A履歴のステータスで終了を判定する
+    const qaHistory = await this.qaHistoryRepository.findById(qaHistoryId);
+    const terminalEvent = qaHistory ? this.toTerminalEvent(qaHistory) : null;
+
+    return {
+      events,
+      terminalEvent,
+      isFinished: !qaHistory || terminalEvent !== null,
+    };
+  }
+
+  /**
+   * 終了済みのQ&A履歴から終了イベントを作成する
+   * 処理待ち・処理中の場合はnullを返す
+   */
+  private toTerminalEvent(qaHistory: QaHistory): QaSseEvent | null {
+    if (qaHistory.isCompleted()) {
+      return {
+        type: "complete",
+        data: {
+          answer: qaHistory.answer?.value ?? "",
+          researchSummary: [...(qaHistory.researchSummary?.items ?? [])],
+        },
+      };
+    }
+    if (qaHistory.isError()) {
+      return {
+        type: "error",
+        data: {
+          message: qaHistory.errorMessage ?? "予期せぬエラーが発生しました",
+        },
+      };
+    }
+    return null;
+  }
+}
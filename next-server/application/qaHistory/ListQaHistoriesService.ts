@@ -40,6 +40,8 @@ export interface QaHistoryDto {
   question: string;
   /** チェックリスト項目の内容 */
   checklistItemContent: string;
+  /** 所属スレッドID（スレッドの最初のQ&A履歴ID） */
+  threadId: string;
   /** 回答 */
   answer: string | null;
   /** 調査サマリー（JSON文字列） */
@@ -136,6 +138,7 @@ export class ListQaHistoriesService {
         userDisplayName: userNameMap.get(qaHistory.userId.value) ?? "",
         question: qaHistory.question.value,
         checklistItemContent: qaHistory.checkListItemContent.value,
+        threadId: qaHistory.threadId.value,
         answer: qaHistory.answer?.value ?? null,
         researchSummary: qaHistory.researchSummary
           ? JSON.stringify(qaHistory.researchSummary.toJson())
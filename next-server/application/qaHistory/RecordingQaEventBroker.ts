@@ -0,0 +1,101 @@
+import { IEventBroker } from "@/application/shared/port/push/IEventBroker";
+import { IQaHistoryEventRepository } from "@/application/shared/port/repository/IQaHistoryEventRepository";
+import type {
+  QaSseEvent,
+  QaSseEventWithSequence,
+} from "@/application/shared/port/push/QaSseEventTypes";
+import { QaHistoryEvent, QaHistoryId } from "@/domain/qaHistory";
+import { getLogger } from "@/lib/server/logger";
+
+const logger = getLogger();
+
+/**
+ * Q&Aイベントを記録するイベントブローカー
+ * Q&A履歴のチャンネルに発行されたイベントを発行順にDBへ記録してからブロードキャストする
+ * SSEに再接続したクライアントは記録済みのイベントを再送することで処理状況を復元できる
+ *
+ * イベントの記録は非同期に行われるため、ワークフロー終了時にflushで記録の完了を待つこと
+ */
+export class RecordingQaEventBroker implements IEventBroker {
+  private readonly channel: string;
+  private sequence: number;
+  private pending: Promise<void> = Promise.resolve();
+
+  /**
+   * @param delegate 実際にイベントを配信するイベントブローカー
+   * @param qaHistoryEventRepository Q&A履歴イベントリポジトリ
+   * @param qaHistoryId 記録対象のQ&A履歴ID
+   * @param latestSequence 記録済みイベントの最後の発行順（再実行時は前回の続きから採番する）
+   */
+  constructor(
+    private readonly delegate: IEventBroker,
+    private readonly qaHistoryEventRepository: IQaHistoryEventRepository,
+    private readonly qaHistoryId: QaHistoryId,
+    latestSequence: number,
+  ) {
+    this.channel = `qa:${qaHistoryId.value}`;
+    this.sequence = latestSequence;
+  }
+
+  subscribe(
+    userId: string,
+    eventType: string,
+    callback: (data: unknown) => void,
+  ): string {
+    return this.delegate.subscribe(userId, eventType, callback);
+  }
+
+  subscribeChannel(channel: string, callback: (data: unknown) => void): string {
+    return this.delegate.subscribeChannel(channel, callback);
+  }
+
+  unsubscribe(subscriptionId: string): void {
+    this.delegate.unsubscribe(subscriptionId);
+  }
+
+  publish(userId: string, eventType: string, data: unknown): void {
+    this.delegate.publish(userId, eventType, data);
+  }
+
+  /**
+   * チャンネルにイベントをブロードキャストする
+   * 記録対象のQ&A履歴のチャンネルの場合は、発行順を採番してDBに記録した後に配信する
+   * 記録は発行順に直列で行い、配信されたイベントより前のイベントが全て記録済みであることを保証する
+   */
+  broadcast(channel: string, data: unknown): void {
+    if (channel !== this.channel) {
+      this.delegate.broadcast(channel, data);
+      return;
+    }
+
+    const event = data as QaSseEvent;
+    const sequence = ++this.sequence;
+    const eventWithSequence: QaSseEventWithSequence = { ...event, sequence };
+
+    this.pending = this.pending.then(async () => {
+      try {
+        await this.qaHistoryEventRepository.append(
+          QaHistoryEvent.create(this.qaHistoryId, sequence, event),
+        );
+      } catch (error) {
+        // 記録に失敗しても接続中のクライアントへの配信は継続する
+        logger.warn(
+          { err: error, qaHistoryId: this.qaHistoryId.value, sequence },
+          "Q&Aイベントの記録に失敗しました",
+        );
+      }
+      this.delegate.broadcast(channel, eventWithSequence);
+    });
+  }
+
+  unsubscribeAll(userId: string): void {
+    this.delegate.unsubscribeAll(userId);
+  }
+
+  /**
+   * 記録待ちのイベントが全て記録・配信されるまで待機する
+   */
+  async flush(): Promise<void> {
+    await this.pending;
+  }
+}
@@ -0,0 +1,411 @@
+import { IQaHistoryRepository } from "@/application/shared/port/repository/IQaHistoryRepository";
+import { IQaHistoryEventRepository } from "@/application/shared/port/repository/IQaHistoryEventRepository";
+import { IReviewResultRepository } from "@/application/shared/port/repository/IReviewResultRepository";
+import { IReviewDocumentCacheRepository } from "@/application/shared/port/repository/IReviewDocumentCacheRepository";
+import { ILargeDocumentResultCacheRepository } from "@/application/shared/port/repository/ILargeDocumentResultCacheRepository";
+import { IEventBroker } from "@/application/shared/port/push/IEventBroker";
+import type { IWorkflowRunRegistry } from "@/application/aiTask/WorkflowRunRegistry";
+import type { IDocumentIndex } from "@/application/shared/port/documentIndex";
+import {
+  QaHistory,
+  QaHistoryId,
+  Answer,
+  ResearchSummary,
+  QaStatus,
+} from "@/domain/qaHistory";
+import { getLogger } from "@/lib/server/logger";
+import { RuntimeContext } from "@mastra/core/di";
+import type {
+  QaCompleteEvent,
+  QaErrorEvent,
+  QaWorkflowStartEvent,
+} from "@/application/shared/port/push/QaSseEventTypes";
+import {
+  qaExecutionWorkflow,
+  type AvailableDocument,
+  type ChecklistResultWithIndividual,
+  type ConversationTurn,
+  type QaExecutionWorkflowRuntimeContext,
+  type QaExecutionWorkflowOutput,
+  type ResearchResult,
+} from "@/application/mastra/workflows/qaExecution";
+import { DOCUMENT_INDEX_CONTEXT_KEY } from "@/application/mastra/workflows/shared/types";
+import { checkWorkflowResult } from "@/application/mastra/lib/workflowUtils";
+import {
+  AI_API_RETRY_CONTEXT_KEY,
+  type AiApiRetryContext,
+} from "@/application/mastra/lib/aiApiRetry";
+import {
+  AI_TOKEN_USAGE_CONTEXT_KEY,
+  type AiTokenUsageCollector,
+} from "@/application/mastra/lib/aiTokenUsage";
+import type { AiApiConfig } from "@/application/shared/lib/resolveAiApiConfig";
+import type { PublishWebhookEventService } from "@/application/webhook/PublishWebhookEventService";
+import { WEBHOOK_EVENT } from "@/domain/webhook";
+import { RecordingQaEventBroker } from "./RecordingQaEventBroker";
+
+const logger = getLogger();
+
+/**
+ * Q&Aワークフロー実行コマンド（入力DTO）
+ */
+export interface RunQaWorkflowCommand {
+  /** 実行するAIタスクID（ワークフローのキャンセルに使用） */
+  taskId: string;
+  /** Q&A履歴ID */
+  qaHistoryId: string;
+  /** レビュースペースID */
+  reviewSpaceId: string;
+  /** 質問したユーザーID（DBのUUID） */
+  userId: string;
+  /** 社員ID（Keycloakのpreferred_username） */
+  employeeId: string;
+  /** 確定済みAI API設定 */
+  aiApiConfig: AiApiConfig;
+  /** AI API呼び出しのリトライ設定 */
+  aiApiRetryContext?: AiApiRetryContext;
+  /** AIトークン使用量の集計器 */
+  aiTokenUsage?: AiTokenUsageCollector;
+}
+
+/**
+ * Q&Aワークフロー実行結果
+ */
+export interface RunQaWorkflowResult {
+  /** 成功フラグ */
+  success: boolean;
+  /** エラーメッセージ（失敗時） */
+  errorMessage?: string;
+}
+
+/**
+ * Q&Aワークフロー実行サービス
+ * AIタスクキューのワーカーから呼び出され、Q&Aワークフローを完了まで実行する
+ * 処理中に発行した進捗イベントはDBに記録し、SSEに再接続したクライアントへ再送できるようにする
+ */
+export class RunQaWorkflowService {
+  constructor(
+    private readonly qaHistoryRepository: IQaHistoryRepository,
+    private readonly qaHistoryEventRepository: IQaHistoryEventRepository,
+    private readonly reviewResultRepository: IReviewResultRepository,
+    private readonly reviewDocumentCacheRepository: IReviewDocumentCacheRepository,
+    private readonly largeDocumentResultCacheRepository: ILargeDocumentResultCacheRepository,
+    private readonly eventBroker: IEventBroker,
+    private readonly workflowRunRegistry?: IWorkflowRunRegistry,
+    private readonly webhookEventPublisher?: PublishWebhookEventService,
+    private readonly documentIndex?: IDocumentIndex,
+  ) {}
+
+  /**
+   * Q&Aワークフローを実行
+   * ワークフローの失敗はQ&A履歴にエラーとして記録し、実行結果として返す
+   * @param command 実行コマンド
+   * @returns 実行結果
+   */
+  async execute(command: RunQaWorkflowCommand): Promise<RunQaWorkflowResult> {
+    const qaHistoryId = QaHistoryId.reconstruct(command.qaHistoryId);
+    const qaHistory = await this.qaHistoryRepository.findById(qaHistoryId);
+
+    if (!qaHistory) {
+      return { success: false, errorMessage: "Q&A履歴が見つかりません" };
+    }
+
+    // 既に完了・エラーの場合はスキップ（完了直後にタスクが再配信された場合など）
+    if (qaHistory.isCompleted() || qaHistory.isError()) {
+      logger.info(
+        { qaHistoryId: command.qaHistoryId },
+        "Q&Aは既に終了しているためワークフローを実行しません",
+      );
+      return { success: true };
+    }
+
+    // ステータスをprocessingに更新
+    await this.qaHistoryRepository.updateStatus(
+      qaHistoryId,
+      QaStatus.processing(),
+    );
+
+    // 進捗イベントを記録するブローカー（再実行時は前回の続きから採番する）
+    const latestSequence =
+      await this.qaHistoryEventRepository.findLatestSequence(qaHistoryId);
+    const eventBroker = new RecordingQaEventBroker(
+      this.eventBroker,
+      this.qaHistoryEventRepository,
+      qaHistoryId,
+      latestSequence,
+    );
+    const channel = `qa:${qaHistoryId.value}`;
+
+    const workflowStartEvent: QaWorkflowStartEvent = {
+      type: "workflow_start",
+      data: { message: "質問を分析しています..." },
+    };
+    eventBroker.broadcast(channel, workflowStartEvent);
+
+    try {
+      const { answer, researchSummaryItems } = await this.runWorkflow(
+        command,
+        qaHistory,
+        eventBroker,
+      );
+
+      // Q&A履歴を更新
+      await this.qaHistoryRepository.updateAnswer(
+        qaHistoryId,
+        Answer.create(answer),
+        ResearchSummary.create(researchSummaryItems),
+      );
+
+      // 完了イベントをブロードキャスト（全購読者に配信）
+      const completeEvent: QaCompleteEvent = {
+        type: "complete",
+        data: {
+          answer,
+          researchSummary: researchSummaryItems,
+        },
+      };
+      eventBroker.broadcast(channel, completeEvent);
+      await eventBroker.flush();
+
+      // 回答生成を外部システムに通知（失敗してもQ&Aの結果には影響させない）
+      if (this.webhookEventPublisher) {
+        await this.webhookEventPublisher
+          .execute({
+            event: WEBHOOK_EVENT.QA_ANSWERED,
+            reviewSpaceId: command.reviewSpaceId,
+            data: {
+              reviewTargetId: qaHistory.reviewTargetId.value,
+              qaHistoryId: qaHistoryId.value,
+              question: qaHistory.question.value,
+              answer,
+            },
+          })
+          .catch((error) => {
+            logger.warn(
+              { err: error, qaHistoryId: qaHistoryId.value },
+              "Webhookイベントの発行に失敗しました",
+            );
+          });
+      }
+
+      return { success: true };
+    } catch (error) {
+      logger.error(
+        { err: error, qaHistoryId: qaHistoryId.value },
+        "Q&Aワークフロー実行中にエラーが発生しました",
+      );
+
+      // エラーを記録
+      const errorMessage =
+        error instanceof Error ? error.message : "予期せぬエラーが発生しました";
+      await this.qaHistoryRepository.updateError(qaHistoryId, errorMessage);
+
+      // エラーイベントをブロードキャスト（全購読者に配信）
+      const errorEvent: QaErrorEvent = {
+        type: "error",
+        data: {
+          message: errorMessage,
+        },
+      };
+      eventBroker.broadcast(channel, errorEvent);
+      await eventBroker.flush();
+
+      return { success: false, errorMessage };
+    }
+  }
+
+  /**
+   * Q&Aワークフローを実行し、回答と調査サマリーを返す
+   * @throws ワークフローが失敗した場合
+   */
+  private async runWorkflow(
+    command: RunQaWorkflowCommand,
+    qaHistory: QaHistory,
+    eventBroker: IEventBroker,
+  ): Promise<{
+    answer: string;
+    researchSummaryItems: Array<{
+      documentName: string;
+      researchContent: string;
+      researchResult: string;
+    }>;
+  }> {
+    const reviewTargetId = qaHistory.reviewTargetId;
+
+    // 選択されたチェックリスト項目をパース（JSON配列）
+    const selectedChecklistItemContents =
+      qaHistory.checkListItemContent.toItems();
+
+    // レビュー結果を取得（選択されたチェック項目のみフィルタリング）
+    const allReviewResults =
+      await this.reviewResultRepository.findByReviewTargetId(reviewTargetId);
+    const reviewResults = allReviewResults.filter((r) =>
+      selectedChecklistItemContents.includes(r.checkListItemContent),
+    );
+
+    // 大量レビューの個別結果を取得（選択されたチェック項目のみ）
+    const largeDocumentResults =
+      await this.largeDocumentResultCacheRepository.findChecklistResultsWithIndividualResults(
+        reviewTargetId,
+        selectedChecklistItemContents,
+      );
+
+    // チェックリスト結果と個別結果のマップを作成
+    const individualResultsMap = new Map<
+      string,
+      Array<{
+        documentId: string;
+        comment: string;
+        individualFileName: string;
+      }>
+    >();
+    for (const result of largeDocumentResults) {
+      individualResultsMap.set(
+        result.checklistItemContent,
+        result.individualResults,
+      );
+    }
+
+    // チェックリスト結果を構築
+    const checklistResults: ChecklistResultWithIndividual[] = reviewResults.map(
+      (result) => ({
+        checklistResult: {
+          id: result.id.value,
+          content: result.checkListItemContent,
+          evaluation: result.evaluation?.value ?? null,
+          comment: result.comment?.value ?? null,
+        },
+        // 大量レビューの個別結果がある場合はここに含める
+        individualResults: individualResultsMap.get(
+          result.checkListItemContent,
+        ),
+      }),
+    );
+
+    // ドキュメントキャッシュを取得
+    const documentCaches =
+      await this.reviewDocumentCacheRepository.findByReviewTargetId(
+        reviewTargetId,
+      );
+
+    // 利用可能なドキュメントリストを構築
+    const availableDocuments: AvailableDocument[] = documentCaches.map(
+      (cache) => ({
+        id: cache.id.value,
+        fileName: cache.fileName,
+      }),
+    );
+
+    // スレッドへの追加の質問の場合は会話履歴を取得
+    const conversationHistory = await this.buildConversationHistory(qaHistory);
+
+    // RuntimeContext作成（確定済みのAI API設定を設定）
+    const runtimeContext =
+      new RuntimeContext<QaExecutionWorkflowRuntimeContext>();
+    runtimeContext.set("eventBroker", eventBroker);
+    runtimeContext.set("userId", command.userId);
+    runtimeContext.set("employeeId", command.employeeId);
+    runtimeContext.set("qaHistoryId", command.qaHistoryId);
+    runtimeContext.set("aiApiKey", command.aiApiConfig.apiKey);
+    runtimeContext.set("aiApiUrl", command.aiApiConfig.apiUrl);
+    runtimeContext.set("aiApiModel", command.aiApiConfig.apiModel);
+    runtimeContext.set("aiApiRateLimit", command.aiApiConfig.rateLimit);
+    runtimeContext.set("aiModelEndpoints", command.aiApiConfig.modelEndpoints);
+    if (command.aiApiRetryContext) {
+      runtimeContext.set(AI_API_RETRY_CONTEXT_KEY, command.aiApiRetryContext);
+    }
+    if (command.aiTokenUsage) {
+      runtimeContext.set(AI_TOKEN_USAGE_CONTEXT_KEY, command.aiTokenUsage);
+    }
+    // ドキュメント調査で質問に関連するセクションのみを送るため、意味検索インデックスを設定
+    if (this.documentIndex) {
+      runtimeContext.set(DOCUMENT_INDEX_CONTEXT_KEY, this.documentIndex);
+    }
+
+    // ワークフローを実行
+    const run = await qaExecutionWorkflow.createRunAsync();
+
+    // ワークフロー実行をレジストリに登録（キャンセル可能にするため）
+    if (this.workflowRunRegistry) {
+      this.workflowRunRegistry.register(command.taskId, run);
+    }
+
+    let workflowResult;
+    try {
+      workflowResult = await run.start({
+        inputData: {
+          question: qaHistory.question.value,
+          availableDocuments,
+          checklistResults,
+          conversationHistory,
+        },
+        runtimeContext,
+      });
+    } finally {
+      // ワークフロー実行をレジストリから解除
+      if (this.workflowRunRegistry) {
+        this.workflowRunRegistry.deregister(command.taskId);
+      }
+    }
+
+    // ワークフロー結果を確認
+    const result = checkWorkflowResult(workflowResult);
+
+    if (result.status !== "success") {
+      throw new Error(result.errorMessage || "Q&A処理に失敗しました");
+    }
+
+    // ワークフローの出力を取得（型ナローイングのためstatusをチェック）
+    if (workflowResult.status !== "success") {
+      throw new Error("Q&A処理に失敗しました");
+    }
+
+    const output = workflowResult.result as
+      | QaExecutionWorkflowOutput
+      | undefined;
+
+    if (!output || output.status === "failed" || !output.answer) {
+      throw new Error(output?.errorMessage || "回答の生成に失敗しました");
+    }
+
+    const researchSummaryItems = (output.researchSummary || []).map(
+      (r: ResearchResult) => ({
+        documentName: r.documentName,
+        researchContent: r.researchContent,
+        researchResult: r.researchResult,
+      }),
+    );
+
+    return { answer: output.answer, researchSummaryItems };
+  }
+
+  /**
+   * スレッド内でこの質問より前に回答済みの質問と回答を会話履歴として取得する
+   * スレッドの最初の質問の場合は空配列を返す
+   */
+  private async buildConversationHistory(
+    qaHistory: QaHistory,
+  ): Promise<ConversationTurn[]> {
+    if (qaHistory.isThreadRoot()) {
+      return [];
+    }
+
+    const thread = await this.qaHistoryRepository.findByThreadId(
+      qaHistory.threadId,
+    );
+
+    return thread
+      .filter(
+        (turn) =>
+          !turn.equals(qaHistory) &&
+          turn.createdAt < qaHistory.createdAt &&
+          turn.isCompleted() &&
+          turn.answer,
+      )
+      .map((turn) => ({
+        question: turn.question.value,
+        answer: turn.answer!.value,
+        researchSummary: [...(turn.researchSummary?.items ?? [])],
+      }));
+  }
+}
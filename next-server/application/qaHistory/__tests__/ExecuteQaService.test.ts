@@ -3,10 +3,50 @@ import { ExecuteQaService } from "../ExecuteQaService";
 import type { IQaHistoryRepository } from "@/application/shared/port/repository/IQaHistoryRepository";
 import type { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
 import type { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
-import type { IProjectRepository } from "@/application/shared/port/repository";
-import { ReviewTargetId } from "@/domain/reviewTarget";
-import { ReviewSpaceId } from "@/domain/reviewSpace";
-import { ProjectId } from "@/domain/project";
+import type {
+  IProjectRepository,
+  ISystemSettingRepository,
+} from "@/application/shared/port/repository";
+import { AiTaskQueueService } from "@/application/aiTask/AiTaskQueueService";
+import { ReviewTargetId, type ReviewTarget } from "@/domain/reviewTarget";
+import { ReviewSpaceId, type ReviewSpace } from "@/domain/reviewSpace";
+import { ProjectId, type Project } from "@/domain/project";
+import { AI_TASK_TYPE } from "@/domain/aiTask";
+import {
+  QaHistory,
+  QaHistoryId,
+  Question,
+  Answer,
+  CheckListItemContent,
+  ResearchSummary,
+  QaStatus,
+} from "@/domain/qaHistory";
+import { UserId } from "@/domain/user";
+
+// vi.hoisted()でモック関数を定義（テスト間の分離のため）
+const { mockResolveAiApiConfig, mockStartWorkersForApiKeyHash } = vi.hoisted(
+  () => ({
+    mockResolveAiApiConfig: vi.fn(),
+    mockStartWorkersForApiKeyHash: vi.fn(),
+  }),
+);
+
+// resolveAiApiConfigのモック
+vi.mock("@/application/shared/lib/resolveAiApiConfig", () => ({
+  resolveAiApiConfig: mockResolveAiApiConfig,
+}));
+
+// AiTaskQueueServiceのモック
+vi.mock("@/application/aiTask/AiTaskQueueService", () => ({
+  AiTaskQueueService: vi.fn(),
+}));
+
+// AiTaskBootstrapのモック
+vi.mock("@/application/aiTask", () => ({
+  getAiTaskBootstrap: vi.fn(() => ({
+    startWorkersForApiKeyHash: mockStartWorkersForApiKeyHash,
+  })),
+}));
 
 describe("ExecuteQaService", () => {
   // モックリポジトリ
@@ -14,10 +54,13 @@ describe("ExecuteQaService", () => {
   let mockReviewTargetRepository: IReviewTargetRepository;
   let mockReviewSpaceRepository: IReviewSpaceRepository;
   let mockProjectRepository: IProjectRepository;
+  let mockSystemSettingRepository: ISystemSettingRepository;
+  let mockEnqueueTask: ReturnType<typeof vi.fn>;
   let service: ExecuteQaService;
 
   // テストデータ
   const testUserId = "550e8400-e29b-41d4-a716-446655440001";
+  const testEmployeeId = "test-employee-001";
   const testReviewTargetId = "550e8400-e29b-41d4-a716-446655440002";
   const testReviewSpaceId = "550e8400-e29b-41d4-a716-446655440003";
   const testProjectId = "550e8400-e29b-41d4-a716-446655440004";
@@ -36,6 +79,7 @@ describe("ExecuteQaService", () => {
   const createMockProject = (memberIds: string[]) => ({
     id: ProjectId.reconstruct(testProjectId),
     hasMember: vi.fn((userId: string) => memberIds.includes(userId)),
+    hasPermission: vi.fn((userId: string) => memberIds.includes(userId)),
   });
 
   beforeEach(() => {
@@ -48,6 +92,8 @@ describe("ExecuteQaService", () => {
       updateAnswer: vi.fn(),
       updateError: vi.fn(),
       updateStatus: vi.fn(),
+      findByThreadId: vi.fn(),
+      findOrphaned: vi.fn(),
       delete: vi.fn(),
       deleteByReviewTargetId: vi.fn(),
     };
@@ -72,11 +118,30 @@ describe("ExecuteQaService", () => {
       delete: vi.fn(),
     } as unknown as IProjectRepository;
 
+    mockSystemSettingRepository = {
+      find: vi.fn().mockResolvedValue(null),
+      save: vi.fn(),
+    };
+
+    mockResolveAiApiConfig.mockReturnValue({
+      apiKey: "test-api-key",
+      apiUrl: "https://api.example.com",
+      apiModel: "test-model",
+    });
+
+    mockEnqueueTask = vi.fn().mockResolvedValue({
+      taskId: "task-123",
+      apiKeyHash: "hash-123",
+      queueLength: 1,
+    });
+
     service = new ExecuteQaService(
       mockQaHistoryRepository,
       mockReviewTargetRepository,
       mockReviewSpaceRepository,
       mockProjectRepository,
+      mockSystemSettingRepository,
+      { enqueueTask: mockEnqueueTask } as unknown as AiTaskQueueService,
     );
   });
 
@@ -99,6 +164,7 @@ describe("ExecuteQaService", () => {
         question: "テスト質問",
         checklistItemContents: ["チェック項目内容"],
         userId: testUserId,
+        employeeId: testEmployeeId,
       });
 
       // Assert
@@ -110,7 +176,7 @@ describe("ExecuteQaService", () => {
       expect(mockQaHistoryRepository.save).toHaveBeenCalledTimes(1);
     });
 
-    it("Q&A履歴がpending状態で保存される（ワークフローはSSE接続後に開始される）", async () => {
+    it("Q&A履歴がpending状態で保存される（ワークフローはワーカーが実行する）", async () => {
       // Arrange
       vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
         createMockReviewTarget() as any,
@@ -128,6 +194,7 @@ describe("ExecuteQaService", () => {
         question: "テスト質問",
         checklistItemContents: ["チェック項目内容"],
         userId: testUserId,
+        employeeId: testEmployeeId,
       });
 
       // Assert
@@ -143,6 +210,47 @@ describe("ExecuteQaService", () => {
       expect(savedQaHistory.errorMessage).toBeNull();
     });
 
+    it("Q&A実行タスクをキューに登録し、ワーカーを開始する", async () => {
+      // Arrange
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+        createMockReviewTarget() as unknown as ReviewTarget,
+      );
+      vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(
+        createMockReviewSpace() as unknown as ReviewSpace,
+      );
+      vi.mocked(mockProjectRepository.findById).mockResolvedValue(
+        createMockProject([testUserId]) as unknown as Project,
+      );
+
+      // Act
+      const result = await service.execute({
+        reviewTargetId: testReviewTargetId,
+        question: "テスト質問",
+        checklistItemContents: ["チェック項目内容"],
+        userId: testUserId,
+        employeeId: testEmployeeId,
+      });
+
+      // Assert
+      expect(mockEnqueueTask).toHaveBeenCalledWith({
+        taskType: AI_TASK_TYPE.QA_EXECUTION,
+        apiKey: "test-api-key",
+        payload: {
+          qaHistoryId: result.qaHistoryId,
+          reviewTargetId: testReviewTargetId,
+          reviewSpaceId: testReviewSpaceId,
+          userId: testUserId,
+          employeeId: testEmployeeId,
+          aiApiConfig: {
+            apiKey: "test-api-key",
+            apiUrl: "https://api.example.com",
+            apiModel: "test-model",
+          },
+        },
+      });
+      expect(mockStartWorkersForApiKeyHash).toHaveBeenCalledWith("hash-123");
+    });
+
     it("複数のチェック項目をJSON配列として保存する", async () => {
       // Arrange
       vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
@@ -167,6 +275,7 @@ describe("ExecuteQaService", () => {
         question: "テスト質問",
         checklistItemContents,
         userId: testUserId,
+        employeeId: testEmployeeId,
       });
 
       // Assert
@@ -199,6 +308,7 @@ describe("ExecuteQaService", () => {
         question: "テスト質問",
         checklistItemContents,
         userId: testUserId,
+        employeeId: testEmployeeId,
       });
 
       // Assert
@@ -212,6 +322,162 @@ describe("ExecuteQaService", () => {
     });
   });
 
+  describe("スレッドへの追加の質問", () => {
+    const testThreadId = "550e8400-e29b-41d4-a716-446655440010";
+
+    const createThreadQaHistory = (
+      status: "pending" | "processing" | "completed" | "error",
+      reviewTargetId = testReviewTargetId,
+    ) =>
+      QaHistory.reconstruct({
+        id: QaHistoryId.reconstruct(testThreadId),
+        reviewTargetId: ReviewTargetId.reconstruct(reviewTargetId),
+        userId: UserId.reconstruct(testUserId),
+        question: Question.create("最初の質問"),
+        checkListItemContent: CheckListItemContent.create(
+          JSON.stringify(["チェック項目1", "チェック項目2"]),
+        ),
+        threadId: QaHistoryId.reconstruct(testThreadId),
+        answer: status === "completed" ? Answer.create("最初の回答") : null,
+        researchSummary:
+          status === "completed" ? ResearchSummary.create([]) : null,
+        status: QaStatus.create(status),
+        errorMessage: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+    beforeEach(() => {
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+        createMockReviewTarget() as unknown as ReviewTarget,
+      );
+      vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(
+        createMockReviewSpace() as unknown as ReviewSpace,
+      );
+      vi.mocked(mockProjectRepository.findById).mockResolvedValue(
+        createMockProject([testUserId]) as unknown as Project,
+      );
+    });
+
+    it("スレッドに属するQ&A履歴として保存され、未選択のチェック項目は直前の質問から引き継ぐ", async () => {
+      // Arrange
+      vi.mocked(mockQaHistoryRepository.findByThreadId).mockResolvedValue([
+        createThreadQaHistory("completed"),
+      ]);
+
+      // Act
+      const result = await service.execute({
+        reviewTargetId: testReviewTargetId,
+        question: "追加の質問",
+        checklistItemContents: [],
+        threadId: testThreadId,
+        userId: testUserId,
+        employeeId: testEmployeeId,
+      });
+
+      // Assert
+      const savedQaHistory = vi.mocked(mockQaHistoryRepository.save).mock
+        .calls[0][0];
+      expect(savedQaHistory.threadId.value).toBe(testThreadId);
+      expect(savedQaHistory.isThreadRoot()).toBe(false);
+      expect(savedQaHistory.checkListItemContent.toItems()).toEqual([
+        "チェック項目1",
+        "チェック項目2",
+      ]);
+      expect(result).toEqual({
+        qaHistoryId: savedQaHistory.id.value,
+        threadId: testThreadId,
+        checklistItemContents: ["チェック項目1", "チェック項目2"],
+      });
+    });
+
+    it("チェック項目を選択した場合は選択した項目で質問する", async () => {
+      // Arrange
+      vi.mocked(mockQaHistoryRepository.findByThreadId).mockResolvedValue([
+        createThreadQaHistory("completed"),
+      ]);
+
+      // Act
+      await service.execute({
+        reviewTargetId: testReviewTargetId,
+        question: "追加の質問",
+        checklistItemContents: ["チェック項目3"],
+        threadId: testThreadId,
+        userId: testUserId,
+        employeeId: testEmployeeId,
+      });
+
+      // Assert
+      const savedQaHistory = vi.mocked(mockQaHistoryRepository.save).mock
+        .calls[0][0];
+      expect(savedQaHistory.checkListItemContent.toItems()).toEqual([
+        "チェック項目3",
+      ]);
+    });
+
+    it("スレッドが存在しない場合はエラーを投げる", async () => {
+      // Arrange
+      vi.mocked(mockQaHistoryRepository.findByThreadId).mockResolvedValue([]);
+
+      // Act & Assert
+      await expect(
+        service.execute({
+          reviewTargetId: testReviewTargetId,
+          question: "追加の質問",
+          checklistItemContents: [],
+          threadId: testThreadId,
+          userId: testUserId,
+          employeeId: testEmployeeId,
+        }),
+      ).rejects.toMatchObject({ messageCode: "QA_HISTORY_THREAD_NOT_FOUND" });
+      expect(mockQaHistoryRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("別のレビュー対象のスレッドの場合はエラーを投げる", async () => {
+      // Arrange
+      vi.mocked(mockQaHistoryRepository.findByThreadId).mockResolvedValue([
+        createThreadQaHistory(
+          "completed",
+          "550e8400-e29b-41d4-a716-446655440099",
+        ),
+      ]);
+
+      // Act & Assert
+      await expect(
+        service.execute({
+          reviewTargetId: testReviewTargetId,
+          question: "追加の質問",
+          checklistItemContents: [],
+          threadId: testThreadId,
+          userId: testUserId,
+          employeeId: testEmployeeId,
+        }),
+      ).rejects.toMatchObject({ messageCode: "QA_HISTORY_THREAD_NOT_FOUND" });
+    });
+
+    it("スレッド内に回答中の質問がある場合はエラーを投げる", async () => {
+      // Arrange
+      vi.mocked(mockQaHistoryRepository.findByThreadId).mockResolvedValue([
+        createThreadQaHistory("processing"),
+      ]);
+
+      // Act & Assert
+      await expect(
+        service.execute({
+          reviewTargetId: testReviewTargetId,
+          question: "追加の質問",
+          checklistItemContents: [],
+          threadId: testThreadId,
+          userId: testUserId,
+          employeeId: testEmployeeId,
+        }),
+      ).rejects.toMatchObject({
+        messageCode: "QA_HISTORY_THREAD_IN_PROGRESS",
+      });
+      expect(mockEnqueueTask).not.toHaveBeenCalled();
+    });
+  });
+
   describe("異常系", () => {
     it("チェック項目内容が空配列の場合はエラーを投げる", async () => {
       // 権限チェック前にチェックリスト項目の検証が行われることを確認
@@ -222,6 +488,7 @@ describe("ExecuteQaService", () => {
           question: "テスト質問",
           checklistItemContents: [],
           userId: testUserId,
+          employeeId: testEmployeeId,
         }),
       ).rejects.toMatchObject({
         messageCode: "QA_HISTORY_CHECKLIST_ITEM_CONTENT_EMPTY",
@@ -242,6 +509,7 @@ describe("ExecuteQaService", () => {
           question: "テスト質問",
           checklistItemContents: ["チェック項目内容"],
           userId: testUserId,
+          employeeId: testEmployeeId,
         }),
       ).rejects.toMatchObject({ messageCode: "REVIEW_TARGET_NOT_FOUND" });
     });
@@ -260,6 +528,7 @@ describe("ExecuteQaService", () => {
           question: "テスト質問",
           checklistItemContents: ["チェック項目内容"],
           userId: testUserId,
+          employeeId: testEmployeeId,
         }),
       ).rejects.toMatchObject({ messageCode: "REVIEW_SPACE_NOT_FOUND" });
     });
@@ -281,6 +550,7 @@ describe("ExecuteQaService", () => {
           question: "テスト質問",
           checklistItemContents: ["チェック項目内容"],
           userId: testUserId,
+          employeeId: testEmployeeId,
         }),
       ).rejects.toMatchObject({ messageCode: "PROJECT_NOT_FOUND" });
     });
@@ -304,6 +574,7 @@ describe("ExecuteQaService", () => {
           question: "テスト質問",
           checklistItemContents: ["チェック項目内容"],
           userId: testUserId,
+          employeeId: testEmployeeId,
         }),
       ).rejects.toMatchObject({ messageCode: "REVIEW_TARGET_ACCESS_DENIED" });
     });
@@ -327,11 +598,13 @@ describe("ExecuteQaService", () => {
           question: "",
           checklistItemContents: ["チェック項目内容"],
           userId: testUserId,
+          employeeId: testEmployeeId,
         }),
       ).rejects.toThrow();
 
-      // Q&A履歴が保存されないことを確認
+      // Q&A履歴が保存されず、タスクも登録されないことを確認
       expect(mockQaHistoryRepository.save).not.toHaveBeenCalled();
+      expect(mockEnqueueTask).not.toHaveBeenCalled();
     });
 
     it("質問が空白のみの場合はエラーを投げる", async () => {
@@ -353,6 +626,7 @@ describe("ExecuteQaService", () => {
           question: "   ",
           checklistItemContents: ["チェック項目内容"],
           userId: testUserId,
+          employeeId: testEmployeeId,
         }),
       ).rejects.toThrow();
     });
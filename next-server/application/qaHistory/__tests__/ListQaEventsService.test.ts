@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ListQaEventsService } from "../ListQaEventsService";
+import type { IQaHistoryRepository } from "@/application/shared/port/repository/IQaHistoryRepository";
+import type { IQaHistoryEventRepository } from "@/application/shared/port/repository/IQaHistoryEventRepository";
+import {
+  QaHistory,
+  QaHistoryEvent,
+  QaHistoryId,
+  Question,
+  Answer,
+  CheckListItemContent,
+  ResearchSummary,
+  QaStatus,
+} from "@/domain/qaHistory";
+import { ReviewTargetId } from "@/domain/reviewTarget";
+import { UserId } from "@/domain/user";
+
+describe("ListQaEventsService", () => {
+  const testQaHistoryId = "550e8400-e29b-41d4-a716-446655440010";
+  const testReviewTargetId = "550e8400-e29b-41d4-a716-446655440002";
+  const testUserId = "550e8400-e29b-41d4-a716-446655440001";
+
+  let mockQaHistoryRepository: IQaHistoryRepository;
+  let mockQaHistoryEventRepository: IQaHistoryEventRepository;
+  let service: ListQaEventsService;
+
+  const createEvent = (
+    sequence: number,
+    type: string,
+    data: Record<string, unknown> = {},
+  ) =>
+    QaHistoryEvent.reconstruct({
+      qaHistoryId: testQaHistoryId,
+      sequence,
+      type,
+      data,
+      createdAt: new Date(),
+    });
+
+  const createQaHistory = (params: {
+    status: "pending" | "processing" | "completed" | "error";
+    answer?: string;
+    errorMessage?: string;
+  }) =>
+    QaHistory.reconstruct({
+      id: QaHistoryId.reconstruct(testQaHistoryId),
+      reviewTargetId: ReviewTargetId.reconstruct(testReviewTargetId),
+      userId: UserId.reconstruct(testUserId),
+      question: Question.create("テスト質問"),
+      checkListItemContent: CheckListItemContent.create(
+        JSON.stringify(["チェック項目"]),
+      ),
+      threadId: QaHistoryId.reconstruct(testQaHistoryId),
+      answer: params.answer ? Answer.create(params.answer) : null,
+      researchSummary: params.answer ? ResearchSummary.create([]) : null,
+      status: QaStatus.reconstruct(params.status),
+      errorMessage: params.errorMessage ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockQaHistoryRepository = {
+      findById: vi.fn(),
+      findByReviewTargetId: vi.fn(),
+      save: vi.fn(),
+      updateAnswer: vi.fn(),
+      updateError: vi.fn(),
+      updateStatus: vi.fn(),
+      delete: vi.fn(),
+      deleteByReviewTargetId: vi.fn(),
+      findByThreadId: vi.fn(),
+      findOrphaned: vi.fn(),
+    };
+
+    mockQaHistoryEventRepository = {
+      append: vi.fn(),
+      findByQaHistoryId: vi.fn(),
+      findLatestSequence: vi.fn(),
+    };
+
+    service = new ListQaEventsService(
+      mockQaHistoryRepository,
+      mockQaHistoryEventRepository,
+    );
+  });
+
+  it("指定した発行順より後のイベントを発行順付きで返す", async () => {
+    // Arrange
+    vi.mocked(mockQaHistoryEventRepository.findByQaHistoryId).mockResolvedValue(
+      [
+        createEvent(3, "research_progress", { documentName: "doc" }),
+        createEvent(4, "answer_chunk", { text: "回答" }),
+      ],
+    );
+    vi.mocked(mockQaHistoryRepository.findById).mockResolvedValue(
+      createQaHistory({ status: "processing" }),
+    );
+
+    // Act
+    const result = await service.execute({
+      qaHistoryId: testQaHistoryId,
+      afterSequence: 2,
+    });
+
+    // Assert
+    expect(mockQaHistoryEventRepository.findByQaHistoryId).toHaveBeenCalledWith(
+      expect.objectContaining({ value: testQaHistoryId }),
+      2,
+    );
+    expect(result.events).toEqual([
+      {
+        type: "research_progress",
+        data: { documentName: "doc" },
+        sequence: 3,
+      },
+      { type: "answer_chunk", data: { text: "回答" }, sequence: 4 },
+    ]);
+    expect(result.terminalEvent).toBeNull();
+    expect(result.isFinished).toBe(false);
+  });
+
+  it("終了イベントが記録されている場合はQ&A履歴を参照せずに終了とする", async () => {
+    // Arrange
+    vi.mocked(mockQaHistoryEventRepository.findByQaHistoryId).mockResolvedValue(
+      [createEvent(5, "complete", { answer: "回答", researchSummary: [] })],
+    );
+
+    // Act
+    const result = await service.execute({
+      qaHistoryId: testQaHistoryId,
+      afterSequence: 4,
+    });
+
+    // Assert
+    expect(result.isFinished).toBe(true);
+    expect(result.terminalEvent).toBeNull();
+    expect(mockQaHistoryRepository.findById).not.toHaveBeenCalled();
+  });
+
+  it("完了済みで終了イベントが記録されていない場合はQ&A履歴から完了イベントを作成する", async () => {
+    // Arrange
+    vi.mocked(mockQaHistoryEventRepository.findByQaHistoryId).mockResolvedValue(
+      [],
+    );
+    vi.mocked(mockQaHistoryRepository.findById).mockResolvedValue(
+      createQaHistory({ status: "completed", answer: "保存済みの回答" }),
+    );
+
+    // Act
+    const result = await service.execute({
+      qaHistoryId: testQaHistoryId,
+      afterSequence: 0,
+    });
+
+    // Assert
+    expect(result.isFinished).toBe(true);
+    expect(result.terminalEvent).toEqual({
+      type: "complete",
+      data: { answer: "保存済みの回答", researchSummary: [] },
+    });
+  });
+
+  it("エラーで終了イベントが記録されていない場合はQ&A履歴からエラーイベントを作成する", async () => {
+    // Arrange（管理者による強制停止など）
+    vi.mocked(mockQaHistoryEventRepository.findByQaHistoryId).mockResolvedValue(
+      [],
+    );
+    vi.mocked(mockQaHistoryRepository.findById).mockResolvedValue(
+      createQaHistory({ status: "error", errorMessage: "強制停止されました" }),
+    );
+
+    // Act
+    const result = await service.execute({
+      qaHistoryId: testQaHistoryId,
+      afterSequence: 0,
+    });
+
+    // Assert
+    expect(result.isFinished).toBe(true);
+    expect(result.terminalEvent).toEqual({
+      type: "error",
+      data: { message: "強制停止されました" },
+    });
+  });
+
+  it("Q&A履歴が削除されている場合は終了とする", async () => {
+    // Arrange
+    vi.mocked(mockQaHistoryEventRepository.findByQaHistoryId).mockResolvedValue(
+      [],
+    );
+    vi.mocked(mockQaHistoryRepository.findById).mockResolvedValue(null);
+
+    // Act
+    const result = await service.execute({
+      qaHistoryId: testQaHistoryId,
+      afterSequence: 0,
+    });
+
+    // Assert
+    expect(result.isFinished).toBe(true);
+    expect(result.terminalEvent).toBeNull();
+  });
+});
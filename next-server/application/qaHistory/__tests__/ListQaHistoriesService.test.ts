@@ -65,6 +65,7 @@ describe("ListQaHistoriesService", () => {
       userId: UserId.reconstruct(testUserId),
       question: Question.create("テスト質問"),
       checkListItemContent: CheckListItemContent.create("チェック項目内容"),
+      threadId: QaHistoryId.reconstruct(testQaHistoryId),
       answer: options?.answer ? Answer.create(options.answer) : null,
       researchSummary: options?.researchSummary
         ? ResearchSummary.create(options.researchSummary)
@@ -91,6 +92,8 @@ describe("ListQaHistoriesService", () => {
       updateStatus: vi.fn(),
       delete: vi.fn(),
       deleteByReviewTargetId: vi.fn(),
+      findByThreadId: vi.fn(),
+      findOrphaned: vi.fn(),
     };
 
     mockReviewTargetRepository = {
@@ -184,6 +187,7 @@ describe("ListQaHistoriesService", () => {
       expect(item.userDisplayName).toBe(testUserDisplayName);
       expect(item.question).toBe("テスト質問");
       expect(item.checklistItemContent).toBe("チェック項目内容");
+      expect(item.threadId).toBe(testQaHistoryId);
       expect(item.answer).toBe("テスト回答");
       expect(item.status).toBe("completed");
       expect(item.errorMessage).toBeNull();
@@ -338,6 +342,7 @@ describe("ListQaHistoriesService", () => {
         checkListItemContent: CheckListItemContent.create(
           JSON.stringify(multipleItems),
         ),
+        threadId: QaHistoryId.reconstruct(testQaHistoryId),
         answer: Answer.create("複数項目への回答"),
         researchSummary: null,
         status: QaStatus.completed(),
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { RecordingQaEventBroker } from "../RecordingQaEventBroker";
+import type { IEventBroker } from "@/application/shared/port/push/IEventBroker";
+import type { IQaHistoryEventRepository } from "@/application/shared/port/repository/IQaHistoryEventRepository";
+import { QaHistoryEvent, QaHistoryId } from "@/domain/qaHistory";
+
+// loggerのモック
+vi.mock("@/lib/server/logger", () => ({
+  getLogger: vi.fn().mockReturnValue({
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+describe("RecordingQaEventBroker", () => {
+  const testQaHistoryId = "550e8400-e29b-41d4-a716-446655440010";
+  const channel = `qa:${testQaHistoryId}`;
+
+  let mockDelegate: IEventBroker;
+  let mockQaHistoryEventRepository: IQaHistoryEventRepository;
+
+  const createBroker = (latestSequence = 0) =>
+    new RecordingQaEventBroker(
+      mockDelegate,
+      mockQaHistoryEventRepository,
+      QaHistoryId.reconstruct(testQaHistoryId),
+      latestSequence,
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockDelegate = {
+      subscribe: vi.fn().mockReturnValue("subscription-id"),
+      subscribeChannel: vi.fn().mockReturnValue("subscription-id"),
+      unsubscribe: vi.fn(),
+      publish: vi.fn(),
+      broadcast: vi.fn(),
+      unsubscribeAll: vi.fn(),
+    };
+
+    mockQaHistoryEventRepository = {
+      append: vi.fn().mockResolvedValue(undefined),
+      findByQaHistoryId: vi.fn(),
+      findLatestSequence: vi.fn(),
+    };
+  });
+
+  describe("broadcast", () => {
+    it("Q&A履歴のチャンネルのイベントは発行順を採番して記録後に配信される", async () => {
+      // Arrange
+      const broker = createBroker();
+
+      // Act
+      broker.broadcast(channel, {
+        type: "workflow_start",
+        data: { message: "開始" },
+      });
+      broker.broadcast(channel, {
+        type: "answer_chunk",
+        data: { text: "回答" },
+      });
+      await broker.flush();
+
+      // Assert
+      const appended = vi
+        .mocked(mockQaHistoryEventRepository.append)
+        .mock.calls.map((call) => call[0] as QaHistoryEvent);
+      expect(appended.map((e) => [e.sequence, e.type])).toEqual([
+        [1, "workflow_start"],
+        [2, "answer_chunk"],
+      ]);
+      expect(mockDelegate.broadcast).toHaveBeenNthCalledWith(1, channel, {
+        type: "workflow_start",
+        data: { message: "開始" },
+        sequence: 1,
+      });
+      expect(mockDelegate.broadcast).toHaveBeenNthCalledWith(2, channel, {
+        type: "answer_chunk",
+        data: { text: "回答" },
+        sequence: 2,
+      });
+    });
+
+    it("記録が完了するまで配信されない", async () => {
+      // Arrange
+      let resolveAppend: () => void = () => {};
+      vi.mocked(mockQaHistoryEventRepository.append).mockReturnValue(
+        new Promise<void>((resolve) => {
+          resolveAppend = resolve;
+        }),
+      );
+      const broker = createBroker();
+
+      // Act
+      broker.broadcast(channel, {
+        type: "workflow_start",
+        data: { message: "開始" },
+      });
+      await Promise.resolve();
+
+      // Assert
+      expect(mockDelegate.broadcast).not.toHaveBeenCalled();
+
+      resolveAppend();
+      await broker.flush();
+      expect(mockDelegate.broadcast).toHaveBeenCalledTimes(1);
+    });
+
+    it("記録済みの発行順の続きから採番される", async () => {
+      // Arrange
+      const broker = createBroker(7);
+
+      // Act
+      broker.broadcast(channel, {
+        type: "workflow_start",
+        data: { message: "開始" },
+      });
+      await broker.flush();
+
+      // Assert
+      expect(mockDelegate.broadcast).toHaveBeenCalledWith(
+        channel,
+        expect.objectContaining({ sequence: 8 }),
+      );
+    });
+
+    it("記録に失敗しても配信は継続される", async () => {
+      // Arrange
+      vi.mocked(mockQaHistoryEventRepository.append).mockRejectedValue(
+        new Error("DB error"),
+      );
+      const broker = createBroker();
+
+      // Act
+      broker.broadcast(channel, {
+        type: "error",
+        data: { message: "エラー" },
+      });
+      await broker.flush();
+
+      // Assert
+      expect(mockDelegate.broadcast).toHaveBeenCalledWith(
+        channel,
+        expect.objectContaining({ type: "error", sequence: 1 }),
+      );
+    });
+
+    it("他のチャンネルのイベントは記録せずにそのまま配信される", async () => {
+      // Arrange
+      const broker = createBroker();
+      const data = { type: "other", data: {} };
+
+      // Act
+      broker.broadcast("qa:other-id", data);
+      await broker.flush();
+
+      // Assert
+      expect(mockQaHistoryEventRepository.append).not.toHaveBeenCalled();
+      expect(mockDelegate.broadcast).toHaveBeenCalledWith("qa:other-id", data);
+    });
+  });
+
+  describe("その他のメソッド", () => {
+    it("購読・個別配信は委譲先のブローカーに委譲される", () => {
+      // Arrange
+      const broker = createBroker();
+      const callback = vi.fn();
+
+      // Act
+      const subscriptionId = broker.subscribeChannel(channel, callback);
+      broker.publish("user-1", "event", { value: 1 });
+      broker.unsubscribe(subscriptionId);
+
+      // Assert
+      expect(mockDelegate.subscribeChannel).toHaveBeenCalledWith(
+        channel,
+        callback,
+      );
+      expect(mockDelegate.publish).toHaveBeenCalledWith("user-1", "event", {
+        value: 1,
+      });
+      expect(mockDelegate.unsubscribe).toHaveBeenCalledWith("subscription-id");
+    });
+  });
+});
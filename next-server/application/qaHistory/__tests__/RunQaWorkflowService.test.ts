@@ -0,0 +1,661 @@
+/**
+ * RunQaWorkflowService テスト
+ *
+ * このテストは、AIタスクキューのワーカーから呼び出されるQ&Aワークフロー実行サービスの動作を検証します。
+ *
+ * テスト対象:
+ * - pending/processing状態のQ&A履歴でワークフローが実行されること
+ * - 完了・エラー状態の場合は実行されないこと（タスクの再配信対策）
+ * - 発行したイベントが発行順を採番して記録されること
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  RunQaWorkflowService,
+  type RunQaWorkflowCommand,
+} from "../RunQaWorkflowService";
+import type { IQaHistoryRepository } from "@/application/shared/port/repository/IQaHistoryRepository";
+import type { IQaHistoryEventRepository } from "@/application/shared/port/repository/IQaHistoryEventRepository";
+import type { IReviewResultRepository } from "@/application/shared/port/repository/IReviewResultRepository";
+import type { IReviewDocumentCacheRepository } from "@/application/shared/port/repository/IReviewDocumentCacheRepository";
+import type { ILargeDocumentResultCacheRepository } from "@/application/shared/port/repository/ILargeDocumentResultCacheRepository";
+import type { IEventBroker } from "@/application/shared/port/push/IEventBroker";
+import type { IDocumentIndex } from "@/application/shared/port/documentIndex";
+import type { IWorkflowRunRegistry } from "@/application/aiTask/WorkflowRunRegistry";
+import {
+  ReviewTargetId,
+  ReviewDocumentCache,
+  ReviewDocumentCacheId,
+} from "@/domain/reviewTarget";
+import type { ReviewResult } from "@/domain/reviewResult";
+import {
+  QaHistory,
+  QaHistoryEvent,
+  QaHistoryId,
+  Question,
+  Answer,
+  CheckListItemContent,
+  ResearchSummary,
+  QaStatus,
+} from "@/domain/qaHistory";
+import { UserId } from "@/domain/user";
+
+// ワークフローのモック（vi.hoistedでモック変数をhoistする）
+const { mockWorkflowStart, mockCreateRunAsync, mockCheckWorkflowResult } =
+  vi.hoisted(() => {
+    const mockWorkflowStart = vi.fn();
+    const mockCreateRunAsync = vi.fn().mockResolvedValue({
+      start: mockWorkflowStart,
+    });
+    const mockCheckWorkflowResult = vi
+      .fn()
+      .mockReturnValue({ status: "success" });
+    return {
+      mockWorkflowStart,
+      mockCreateRunAsync,
+      mockCheckWorkflowResult,
+    };
+  });
+
+vi.mock("@/application/mastra/workflows/qaExecution", () => ({
+  qaExecutionWorkflow: {
+    createRunAsync: mockCreateRunAsync,
+  },
+}));
+
+// loggerのモック
+vi.mock("@/lib/server/logger", () => ({
+  getLogger: vi.fn().mockReturnValue({
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+// checkWorkflowResultのモック
+vi.mock("@/application/mastra/lib/workflowUtils", () => ({
+  checkWorkflowResult: mockCheckWorkflowResult,
+}));
+
+describe("RunQaWorkflowService", () => {
+  // モックリポジトリ
+  let mockQaHistoryRepository: IQaHistoryRepository;
+  let mockQaHistoryEventRepository: IQaHistoryEventRepository;
+  let mockReviewResultRepository: IReviewResultRepository;
+  let mockReviewDocumentCacheRepository: IReviewDocumentCacheRepository;
+  let mockLargeDocumentResultCacheRepository: ILargeDocumentResultCacheRepository;
+  let mockEventBroker: IEventBroker;
+  let mockWorkflowRunRegistry: IWorkflowRunRegistry;
+  let service: RunQaWorkflowService;
+
+  // テストデータ
+  const testUserId = "550e8400-e29b-41d4-a716-446655440001";
+  const testEmployeeId = "test-employee-001";
+  const testReviewTargetId = "550e8400-e29b-41d4-a716-446655440002";
+  const testReviewSpaceId = "550e8400-e29b-41d4-a716-446655440003";
+  const testQaHistoryId = "550e8400-e29b-41d4-a716-446655440010";
+  const testDocumentCacheId1 = "550e8400-e29b-41d4-a716-446655440020";
+  const testTaskId = "550e8400-e29b-41d4-a716-446655440040";
+
+  const createCommand = (): RunQaWorkflowCommand => ({
+    taskId: testTaskId,
+    qaHistoryId: testQaHistoryId,
+    reviewSpaceId: testReviewSpaceId,
+    userId: testUserId,
+    employeeId: testEmployeeId,
+    aiApiConfig: {
+      apiKey: "test-api-key",
+      apiUrl: "https://api.example.com",
+      apiModel: "test-model",
+    },
+  });
+
+  // モックエンティティ作成ヘルパー
+  const createMockQaHistory = (
+    status: "pending" | "processing" | "completed" | "error",
+    options: {
+      id?: string;
+      threadId?: string;
+      question?: string;
+      answer?: string;
+      createdAt?: Date;
+    } = {},
+  ) =>
+    QaHistory.reconstruct({
+      id: QaHistoryId.reconstruct(options.id ?? testQaHistoryId),
+      reviewTargetId: ReviewTargetId.reconstruct(testReviewTargetId),
+      userId: UserId.reconstruct(testUserId),
+      question: Question.create(options.question ?? "テスト質問"),
+      checkListItemContent: CheckListItemContent.create(
+        JSON.stringify(["チェック項目内容"]),
+      ),
+      threadId: QaHistoryId.reconstruct(
+        options.threadId ?? options.id ?? testQaHistoryId,
+      ),
+      answer: options.answer ? Answer.create(options.answer) : null,
+      researchSummary: options.answer
+        ? ResearchSummary.create([
+            {
+              documentName: "テストドキュメント.docx",
+              researchContent: "調査内容",
+              researchResult: "調査結果",
+            },
+          ])
+        : null,
+      status: QaStatus.create(status),
+      errorMessage: null,
+      createdAt: options.createdAt ?? new Date("2026-01-01T00:10:00Z"),
+      updatedAt: options.createdAt ?? new Date("2026-01-01T00:10:00Z"),
+    });
+
+  const createMockReviewResults = () =>
+    [
+      {
+        id: { value: "550e8400-e29b-41d4-a716-446655440030" },
+        checkListItemContent: "チェック項目内容",
+        evaluation: { value: "A" },
+        comment: { value: "コメント" },
+      },
+    ] as unknown as ReviewResult[];
+
+  const createMockDocumentCaches = () =>
+    [
+      {
+        id: ReviewDocumentCacheId.reconstruct(testDocumentCacheId1),
+        fileName: "テストドキュメント.docx",
+      },
+    ] as unknown as ReviewDocumentCache[];
+
+  /**
+   * ワークフローの入力データ取得に使うリポジトリのモックを設定
+   */
+  const setupWorkflowInputs = () => {
+    vi.mocked(
+      mockReviewResultRepository.findByReviewTargetId,
+    ).mockResolvedValue(createMockReviewResults());
+    vi.mocked(
+      mockReviewDocumentCacheRepository.findByReviewTargetId,
+    ).mockResolvedValue(createMockDocumentCaches());
+    vi.mocked(
+      mockLargeDocumentResultCacheRepository.findChecklistResultsWithIndividualResults,
+    ).mockResolvedValue([]);
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    // mockCreateRunAsyncの戻り値を再設定
+    mockCreateRunAsync.mockResolvedValue({
+      start: mockWorkflowStart,
+    });
+
+    // checkWorkflowResultをデフォルトで成功に設定
+    mockCheckWorkflowResult.mockReturnValue({ status: "success" });
+
+    mockWorkflowStart.mockResolvedValue({
+      status: "success",
+      result: {
+        status: "success",
+        answer: "回答です",
+        researchSummary: [],
+      },
+    });
+
+    mockQaHistoryRepository = {
+      findById: vi.fn(),
+      findByReviewTargetId: vi.fn(),
+      save: vi.fn(),
+      updateAnswer: vi.fn(),
+      updateError: vi.fn(),
+      updateStatus: vi.fn(),
+      delete: vi.fn(),
+      deleteByReviewTargetId: vi.fn(),
+      findByThreadId: vi.fn(),
+      findOrphaned: vi.fn(),
+    };
+
+    mockQaHistoryEventRepository = {
+      append: vi.fn().mockResolvedValue(undefined),
+      findByQaHistoryId: vi.fn(),
+      findLatestSequence: vi.fn().mockResolvedValue(0),
+    };
+
+    mockReviewResultRepository = {
+      findByReviewTargetId: vi.fn(),
+      save: vi.fn(),
+    } as unknown as IReviewResultRepository;
+
+    mockReviewDocumentCacheRepository = {
+      findById: vi.fn(),
+      findByReviewTargetId: vi.fn(),
+      save: vi.fn(),
+    } as unknown as IReviewDocumentCacheRepository;
+
+    mockLargeDocumentResultCacheRepository = {
+      saveMany: vi.fn(),
+      findByReviewDocumentCacheId: vi.fn(),
+      findChecklistResultsWithIndividualResults: vi.fn(),
+      deleteByReviewTargetId: vi.fn(),
+    } as unknown as ILargeDocumentResultCacheRepository;
+
+    mockEventBroker = {
+      subscribe: vi.fn(),
+      subscribeChannel: vi.fn(),
+      unsubscribe: vi.fn(),
+      publish: vi.fn(),
+      broadcast: vi.fn(),
+      unsubscribeAll: vi.fn(),
+    };
+
+    mockWorkflowRunRegistry = {
+      register: vi.fn(),
+      deregister: vi.fn(),
+      cancel: vi.fn(),
+    } as unknown as IWorkflowRunRegistry;
+
+    service = new RunQaWorkflowService(
+      mockQaHistoryRepository,
+      mockQaHistoryEventRepository,
+      mockReviewResultRepository,
+      mockReviewDocumentCacheRepository,
+      mockLargeDocumentResultCacheRepository,
+      mockEventBroker,
+      mockWorkflowRunRegistry,
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("execute", () => {
+    it("pending状態のQ&A履歴でワークフローが実行され、回答が保存される", async () => {
+      // Arrange
+      vi.mocked(mockQaHistoryRepository.findById).mockResolvedValue(
+        createMockQaHistory("pending"),
+      );
+      setupWorkflowInputs();
+
+      // Act
+      const result = await service.execute(createCommand());
+
+      // Assert
+      expect(result.success).toBe(true);
+
+      // ステータスがprocessingに更新されたことを確認
+      expect(mockQaHistoryRepository.updateStatus).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ value: "processing" }),
+      );
+
+      // ワークフロー入力データの検証
+      expect(mockWorkflowStart).toHaveBeenCalledTimes(1);
+      expect(mockWorkflowStart).toHaveBeenCalledWith(
+        expect.objectContaining({
+          inputData: expect.objectContaining({
+            question: "テスト質問",
+            availableDocuments: expect.arrayContaining([
+              expect.objectContaining({
+                id: testDocumentCacheId1,
+                fileName: "テストドキュメント.docx",
+              }),
+            ]),
+            checklistResults: expect.arrayContaining([
+              expect.objectContaining({
+                checklistResult: expect.objectContaining({
+                  content: "チェック項目内容",
+                }),
+              }),
+            ]),
+          }),
+        }),
+      );
+
+      // 回答が保存されたことを確認
+      expect(mockQaHistoryRepository.updateAnswer).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ value: "回答です" }),
+        expect.anything(),
+      );
+    });
+
+    it("RuntimeContextに確定済みのAI API設定が設定される", async () => {
+      // Arrange
+      vi.mocked(mockQaHistoryRepository.findById).mockResolvedValue(
+        createMockQaHistory("pending"),
+      );
+      setupWorkflowInputs();
+
+      // Act
+      await service.execute(createCommand());
+
+      // Assert
+      const runtimeContext = mockWorkflowStart.mock.calls[0][0].runtimeContext;
+      expect(runtimeContext.get("aiApiKey")).toBe("test-api-key");
+      expect(runtimeContext.get("aiApiUrl")).toBe("https://api.example.com");
+      expect(runtimeContext.get("aiApiModel")).toBe("test-model");
+      expect(runtimeContext.get("userId")).toBe(testUserId);
+      expect(runtimeContext.get("employeeId")).toBe(testEmployeeId);
+      expect(runtimeContext.get("qaHistoryId")).toBe(testQaHistoryId);
+    });
+
+    it("意味検索インデックスがある場合、RuntimeContextに設定される", async () => {
+      // Arrange
+      vi.mocked(mockQaHistoryRepository.findById).mockResolvedValue(
+        createMockQaHistory("pending"),
+      );
+      setupWorkflowInputs();
+      const mockDocumentIndex: IDocumentIndex = {
+        buildIndex: vi.fn(),
+        retrieve: vi.fn(),
+        retrieveByFileName: vi.fn(),
+      };
+      const serviceWithIndex = new RunQaWorkflowService(
+        mockQaHistoryRepository,
+        mockQaHistoryEventRepository,
+        mockReviewResultRepository,
+        mockReviewDocumentCacheRepository,
+        mockLargeDocumentResultCacheRepository,
+        mockEventBroker,
+        mockWorkflowRunRegistry,
+        undefined,
+        mockDocumentIndex,
+      );
+
+      // Act
+      await serviceWithIndex.execute(createCommand());
+
+      // Assert
+      const runtimeContext = mockWorkflowStart.mock.calls[0][0].runtimeContext;
+      expect(runtimeContext.get("documentIndex")).toBe(mockDocumentIndex);
+    });
+
+    it("ワークフロー実行中はタスクIDでレジストリに登録される", async () => {
+      // Arrange
+      vi.mocked(mockQaHistoryRepository.findById).mockResolvedValue(
+        createMockQaHistory("pending"),
+      );
+      setupWorkflowInputs();
+
+      // Act
+      await service.execute(createCommand());
+
+      // Assert
+      expect(mockWorkflowRunRegistry.register).toHaveBeenCalledWith(
+        testTaskId,
+        expect.anything(),
+      );
+      expect(mockWorkflowRunRegistry.deregister).toHaveBeenCalledWith(
+        testTaskId,
+      );
+    });
+
+    it("発行したイベントが発行順を採番して記録・配信される", async () => {
+      // Arrange
+      vi.mocked(mockQaHistoryRepository.findById).mockResolvedValue(
+        createMockQaHistory("pending"),
+      );
+      setupWorkflowInputs();
+
+      // Act
+      await service.execute(createCommand());
+
+      // Assert - workflow_startとcompleteが記録されたことを確認
+      const appended = vi
+        .mocked(mockQaHistoryEventRepository.append)
+        .mock.calls.map((call) => call[0] as QaHistoryEvent);
+      expect(appended.map((e) => [e.sequence, e.type])).toEqual([
+        [1, "workflow_start"],
+        [2, "complete"],
+      ]);
+
+      // Assert - 発行順付きで配信されたことを確認
+      expect(mockEventBroker.broadcast).toHaveBeenNthCalledWith(
+        1,
+        `qa:${testQaHistoryId}`,
+        expect.objectContaining({ type: "workflow_start", sequence: 1 }),
+      );
+      expect(mockEventBroker.broadcast).toHaveBeenNthCalledWith(
+        2,
+        `qa:${testQaHistoryId}`,
+        expect.objectContaining({
+          type: "complete",
+          sequence: 2,
+          data: expect.objectContaining({ answer: "回答です" }),
+        }),
+      );
+    });
+
+    it("processing状態のQ&A履歴は前回の続きから採番して再実行される", async () => {
+      // Arrange（リース期限切れでタスクが再配信された場合）
+      vi.mocked(mockQaHistoryRepository.findById).mockResolvedValue(
+        createMockQaHistory("processing"),
+      );
+      vi.mocked(
+        mockQaHistoryEventRepository.findLatestSequence,
+      ).mockResolvedValue(5);
+      setupWorkflowInputs();
+
+      // Act
+      const result = await service.execute(createCommand());
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(mockWorkflowStart).toHaveBeenCalledTimes(1);
+      expect(mockEventBroker.broadcast).toHaveBeenNthCalledWith(
+        1,
+        `qa:${testQaHistoryId}`,
+        expect.objectContaining({ type: "workflow_start", sequence: 6 }),
+      );
+    });
+
+    it("completed状態のQ&A履歴では何もしない", async () => {
+      // Arrange
+      vi.mocked(mockQaHistoryRepository.findById).mockResolvedValue(
+        createMockQaHistory("completed"),
+      );
+
+      // Act
+      const result = await service.execute(createCommand());
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(mockQaHistoryRepository.updateStatus).not.toHaveBeenCalled();
+      expect(mockWorkflowStart).not.toHaveBeenCalled();
+      expect(mockEventBroker.broadcast).not.toHaveBeenCalled();
+    });
+
+    it("error状態のQ&A履歴では何もしない", async () => {
+      // Arrange
+      vi.mocked(mockQaHistoryRepository.findById).mockResolvedValue(
+        createMockQaHistory("error"),
+      );
+
+      // Act
+      const result = await service.execute(createCommand());
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(mockQaHistoryRepository.updateStatus).not.toHaveBeenCalled();
+      expect(mockWorkflowStart).not.toHaveBeenCalled();
+    });
+
+    it("Q&A履歴が見つからない場合は失敗を返す", async () => {
+      // Arrange
+      vi.mocked(mockQaHistoryRepository.findById).mockResolvedValue(null);
+
+      // Act
+      const result = await service.execute(createCommand());
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        errorMessage: "Q&A履歴が見つかりません",
+      });
+      expect(mockWorkflowStart).not.toHaveBeenCalled();
+    });
+
+    it("ワークフロー失敗時にエラーがDB記録され、エラーイベントが発行される", async () => {
+      // Arrange
+      vi.mocked(mockQaHistoryRepository.findById).mockResolvedValue(
+        createMockQaHistory("pending"),
+      );
+      setupWorkflowInputs();
+
+      // checkWorkflowResultがエラーを返すようモック
+      mockCheckWorkflowResult.mockReturnValue({
+        status: "failed",
+        errorMessage: "ワークフローエラー",
+      });
+
+      // Act
+      const result = await service.execute(createCommand());
+
+      // Assert - 失敗結果が返されることを確認
+      expect(result).toEqual({
+        success: false,
+        errorMessage: "ワークフローエラー",
+      });
+
+      // Assert - エラーがDBに記録されたことを確認
+      expect(mockQaHistoryRepository.updateError).toHaveBeenCalledTimes(1);
+      expect(mockQaHistoryRepository.updateError).toHaveBeenCalledWith(
+        expect.anything(),
+        "ワークフローエラー",
+      );
+
+      // Assert - エラーイベントがブロードキャストされたことを確認
+      expect(mockEventBroker.broadcast).toHaveBeenCalledWith(
+        `qa:${testQaHistoryId}`,
+        expect.objectContaining({
+          type: "error",
+          data: expect.objectContaining({
+            message: "ワークフローエラー",
+          }),
+        }),
+      );
+    });
+
+    it("大量レビュー結果がある場合、個別結果がワークフローに渡される", async () => {
+      // Arrange
+      vi.mocked(mockQaHistoryRepository.findById).mockResolvedValue(
+        createMockQaHistory("pending"),
+      );
+      setupWorkflowInputs();
+
+      // 大量レビュー結果をモック
+      vi.mocked(
+        mockLargeDocumentResultCacheRepository.findChecklistResultsWithIndividualResults,
+      ).mockResolvedValue([
+        {
+          checklistItemContent: "チェック項目内容",
+          evaluation: "B",
+          comment: "総合コメント",
+          individualResults: [
+            {
+              documentId: "doc-1",
+              comment: "個別コメント",
+              individualFileName: "part1.docx",
+            },
+          ],
+        },
+      ]);
+
+      // Act
+      await service.execute(createCommand());
+
+      // Assert - 個別結果がchecklistResultsに含まれることを確認
+      expect(mockWorkflowStart).toHaveBeenCalledWith(
+        expect.objectContaining({
+          inputData: expect.objectContaining({
+            checklistResults: expect.arrayContaining([
+              expect.objectContaining({
+                individualResults: expect.arrayContaining([
+                  expect.objectContaining({
+                    documentId: "doc-1",
+                    comment: "個別コメント",
+                    individualFileName: "part1.docx",
+                  }),
+                ]),
+              }),
+            ]),
+          }),
+        }),
+      );
+    });
+
+    it("スレッドの最初の質問では会話履歴を取得しない", async () => {
+      // Arrange
+      vi.mocked(mockQaHistoryRepository.findById).mockResolvedValue(
+        createMockQaHistory("pending"),
+      );
+      setupWorkflowInputs();
+
+      // Act
+      await service.execute(createCommand());
+
+      // Assert
+      expect(mockQaHistoryRepository.findByThreadId).not.toHaveBeenCalled();
+      expect(
+        mockWorkflowStart.mock.calls[0][0].inputData.conversationHistory,
+      ).toEqual([]);
+    });
+
+    it("スレッドへの追加の質問では、それより前の回答済みの質問が会話履歴として渡される", async () => {
+      // Arrange
+      const rootId = "550e8400-e29b-41d4-a716-446655440050";
+      const failedId = "550e8400-e29b-41d4-a716-446655440051";
+      const followUp = createMockQaHistory("pending", {
+        threadId: rootId,
+        question: "追加の質問",
+        createdAt: new Date("2026-01-01T00:10:00Z"),
+      });
+      vi.mocked(mockQaHistoryRepository.findById).mockResolvedValue(followUp);
+      vi.mocked(mockQaHistoryRepository.findByThreadId).mockResolvedValue([
+        createMockQaHistory("completed", {
+          id: rootId,
+          question: "最初の質問",
+          answer: "最初の回答",
+          createdAt: new Date("2026-01-01T00:00:00Z"),
+        }),
+        createMockQaHistory("error", {
+          id: failedId,
+          threadId: rootId,
+          question: "失敗した質問",
+          createdAt: new Date("2026-01-01T00:05:00Z"),
+        }),
+        followUp,
+      ]);
+      setupWorkflowInputs();
+
+      // Act
+      await service.execute(createCommand());
+
+      // Assert
+      expect(mockQaHistoryRepository.findByThreadId).toHaveBeenCalledWith(
+        expect.objectContaining({ value: rootId }),
+      );
+      expect(mockWorkflowStart).toHaveBeenCalledWith(
+        expect.objectContaining({
+          inputData: expect.objectContaining({
+            question: "追加の質問",
+            conversationHistory: [
+              {
+                question: "最初の質問",
+                answer: "最初の回答",
+                researchSummary: [
+                  {
+                    documentName: "テストドキュメント.docx",
+                    researchContent: "調査内容",
+                    researchResult: "調査結果",
+                  },
+                ],
+              },
+            ],
+          }),
+        }),
+      );
+    });
+  });
+});
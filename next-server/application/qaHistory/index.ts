@@ -8,7 +8,19 @@ export {
   type ExecuteQaResult,
 } from "./ExecuteQaService";
 
-export { StartQaWorkflowService } from "./StartQaWorkflowService";
+export {
+  RunQaWorkflowService,
+  type RunQaWorkflowCommand,
+  type RunQaWorkflowResult,
+} from "./RunQaWorkflowService";
+
+export { RecordingQaEventBroker } from "./RecordingQaEventBroker";
+
+export {
+  ListQaEventsService,
+  type ListQaEventsCommand,
+  type ListQaEventsResult,
+} from "./ListQaEventsService";
 
 export {
   ListQaHistoriesService,
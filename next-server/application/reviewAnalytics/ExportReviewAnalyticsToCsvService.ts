@@ -0,0 +1,185 @@
+import { AI_TASK_TYPE, type AiTaskTypeValue } from "@/domain/aiTask";
+import { CsvParser } from "@/lib/shared/CsvParser";
+import {
+  GetReviewAnalyticsService,
+  type GetReviewAnalyticsCommand,
+  type ReviewAnalyticsDto,
+} from "./GetReviewAnalyticsService";
+
+/**
+ * CSV出力する集計表
+ * checklistItems: チェック項目ごとの評定分布
+ * dailyTrends: 日別推移
+ * taskDurations: タスクタイプごとの所要時間
+ * qaTopics: Q&Aでよく質問されるチェック項目
+ */
+export const REVIEW_ANALYTICS_CSV_SECTIONS = [
+  "checklistItems",
+  "dailyTrends",
+  "taskDurations",
+  "qaTopics",
+] as const;
+
+export type ReviewAnalyticsCsvSection =
+  (typeof REVIEW_ANALYTICS_CSV_SECTIONS)[number];
+
+/**
+ * レビュー分析CSV出力コマンド（入力DTO）
+ */
+export interface ExportReviewAnalyticsToCsvCommand extends GetReviewAnalyticsCommand {
+  /** 出力する集計表 */
+  section: ReviewAnalyticsCsvSection;
+}
+
+/**
+ * レビュー分析CSV出力結果DTO
+ */
+export interface ExportReviewAnalyticsToCsvResult {
+  /** CSVコンテンツ（UTF-8 with BOM） */
+  csvContent: string;
+  /** 出力された行数（ヘッダーを除く） */
+  exportedCount: number;
+}
+
+/**
+ * レビュー分析CSV出力サービス
+ * レビュー分析の集計表を1つ選んでCSV形式で出力する
+ */
+export class ExportReviewAnalyticsToCsvService {
+  // UTF-8 BOM（Excelで正しく開けるように）
+  private static readonly UTF8_BOM = "\uFEFF";
+  // タスクタイプの表示ラベル
+  private static readonly TASK_TYPE_LABELS: Record<AiTaskTypeValue, string> = {
+    [AI_TASK_TYPE.SMALL_REVIEW]: "レビュー（少量）",
+    [AI_TASK_TYPE.LARGE_REVIEW]: "レビュー（大量）",
+    [AI_TASK_TYPE.CHECKLIST_GENERATION]: "チェックリスト生成",
+    [AI_TASK_TYPE.QA_EXECUTION]: "Q&A",
+  };
+
+  constructor(
+    private readonly getReviewAnalyticsService: GetReviewAnalyticsService,
+  ) {}
+
+  /**
+   * レビュー分析CSV出力を実行
+   * @param command 出力コマンド
+   * @returns CSV出力結果
+   */
+  async execute(
+    command: ExportReviewAnalyticsToCsvCommand,
+  ): Promise<ExportReviewAnalyticsToCsvResult> {
+    const { section, ...query } = command;
+    const analytics = await this.getReviewAnalyticsService.execute(query);
+
+    const rows = this.buildRows(section, analytics);
+    const csvLines = rows.map((row) =>
+      row.map((cell) => CsvParser.escapeField(cell)).join(","),
+    );
+
+    return {
+      csvContent:
+        ExportReviewAnalyticsToCsvService.UTF8_BOM + csvLines.join("\n"),
+      exportedCount: rows.length - 1,
+    };
+  }
+
+  /**
+   * 集計表のヘッダー行・データ行を生成
+   */
+  private buildRows(
+    section: ReviewAnalyticsCsvSection,
+    analytics: ReviewAnalyticsDto,
+  ): string[][] {
+    switch (section) {
+      case "checklistItems":
+        return [
+          [
+            "チェック項目",
+            "結果数",
+            ...analytics.evaluationLabels,
+            "エラー",
+            "不適合数",
+            "不適合率(%)",
+          ],
+          ...analytics.checklistItems.map((item) => [
+            item.checkListItemContent,
+            String(item.resultCount),
+            ...analytics.evaluationLabels.map((label) =>
+              String(item.evaluationCounts[label] ?? 0),
+            ),
+            String(item.errorCount),
+            String(item.nonconformingCount),
+            formatPercent(item.nonconformingRate),
+          ]),
+        ];
+      case "dailyTrends":
+        return [
+          [
+            "日付",
+            "レビュー対象数",
+            "レビュー結果数",
+            "エラー数",
+            "AIタスク数",
+            "失敗タスク数",
+          ],
+          ...analytics.dailyTrends.map((daily) => [
+            daily.date,
+            String(daily.reviewTargetCount),
+            String(daily.resultCount),
+            String(daily.errorResultCount),
+            String(daily.taskCount),
+            String(daily.failedTaskCount),
+          ]),
+        ];
+      case "taskDurations":
+        return [
+          [
+            "タスク種別",
+            "件数",
+            "失敗数",
+            "失敗率(%)",
+            "平均待ち時間(秒)",
+            "最大待ち時間(秒)",
+            "平均実行時間(秒)",
+            "最大実行時間(秒)",
+          ],
+          ...analytics.taskDurations.map((task) => [
+            ExportReviewAnalyticsToCsvService.TASK_TYPE_LABELS[
+              task.taskType as AiTaskTypeValue
+            ] ?? task.taskType,
+            String(task.taskCount),
+            String(task.failedTaskCount),
+            formatPercent(
+              task.taskCount > 0 ? task.failedTaskCount / task.taskCount : null,
+            ),
+            formatSeconds(task.avgWaitMs),
+            formatSeconds(task.maxWaitMs),
+            formatSeconds(task.avgExecutionMs),
+            formatSeconds(task.maxExecutionMs),
+          ]),
+        ];
+      case "qaTopics":
+        return [
+          ["チェック項目", "質問数"],
+          ...analytics.qaTopics.map((topic) => [
+            topic.checkListItemContent,
+            String(topic.count),
+          ]),
+        ];
+    }
+  }
+}
+
+/**
+ * 割合をパーセント表記（小数第1位まで）に変換する
+ */
+function formatPercent(rate: number | null): string {
+  return rate === null ? "" : (rate * 100).toFixed(1);
+}
+
+/**
+ * ミリ秒を秒（小数第1位まで）に変換する
+ */
+function formatSeconds(ms: number | null): string {
+  return ms === null ? "" : (ms / 1000).toFixed(1);
+}
@@ -0,0 +1,381 @@
+import {
+  IProjectRepository,
+  IReviewAnalyticsRepository,
+  IReviewSpaceRepository,
+  ReviewAnalyticsScope,
+  TaskDurationStatRow,
+} from "@/application/shared/port/repository";
+import { ProjectId } from "@/domain/project";
+import { CheckListItemContent as QaCheckListItemContent } from "@/domain/qaHistory";
+import { ReviewSpace, ReviewSpaceId } from "@/domain/reviewSpace";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * レビュー分析取得コマンド（入力DTO）
+ */
+export interface GetReviewAnalyticsCommand {
+  /** プロジェクトID */
+  projectId: string;
+  /** レビュースペースID（省略時はプロジェクト全体を集計） */
+  reviewSpaceId?: string;
+  /** 集計期間の開始日時（この日時を含む） */
+  from: Date;
+  /** 集計期間の終了日時（この日時を含まない） */
+  to: Date;
+  /** 日別集計に使用するタイムゾーン（IANA形式） */
+  timeZone: string;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+}
+
+/**
+ * 集計サマリーDTO
+ */
+export interface ReviewAnalyticsSummaryDto {
+  /** レビュー対象数 */
+  reviewTargetCount: number;
+  /** レビュー結果数（エラーを含む） */
+  resultCount: number;
+  /** エラーのレビュー結果数 */
+  errorResultCount: number;
+  /** 評価対象外（-）とエラーを除いたレビュー結果数 */
+  evaluatedCount: number;
+  /** 不適合（最上位以外の評定）のレビュー結果数 */
+  nonconformingCount: number;
+  /** 終了したAIタスク数 */
+  taskCount: number;
+  /** 失敗したAIタスク数 */
+  failedTaskCount: number;
+  /** Q&Aの質問数 */
+  qaCount: number;
+}
+
+/**
+ * チェック項目ごとの評定分布DTO
+ */
+export interface ChecklistItemAnalyticsDto {
+  /** チェック項目の内容（レビュー実行時点のスナップショット） */
+  checkListItemContent: string;
+  /** レビュー結果数（エラーを含む） */
+  resultCount: number;
+  /** 評定ごとのレビュー結果数 */
+  evaluationCounts: Record<string, number>;
+  /** エラーのレビュー結果数 */
+  errorCount: number;
+  /** 不適合のレビュー結果数 */
+  nonconformingCount: number;
+  /** 不適合率（評価対象外とエラーを除いたレビュー結果に占める割合、対象がない場合はnull） */
+  nonconformingRate: number | null;
+}
+
+/**
+ * 日別推移DTO
+ */
+export interface DailyTrendDto {
+  /** 日付（YYYY-MM-DD） */
+  date: string;
+  reviewTargetCount: number;
+  resultCount: number;
+  errorResultCount: number;
+  taskCount: number;
+  failedTaskCount: number;
+}
+
+/**
+ * タスクタイプごとの所要時間DTO
+ */
+export type TaskDurationDto = TaskDurationStatRow;
+
+/**
+ * Q&Aでよく質問されるチェック項目DTO
+ */
+export interface QaTopicDto {
+  checkListItemContent: string;
+  /** 質問数 */
+  count: number;
+}
+
+/**
+ * レビュー分析DTO
+ */
+export interface ReviewAnalyticsDto {
+  /** 評定ラベル（評定基準の順序） */
+  evaluationLabels: string[];
+  summary: ReviewAnalyticsSummaryDto;
+  /** チェック項目ごとの評定分布（不適合数の多い順） */
+  checklistItems: ChecklistItemAnalyticsDto[];
+  /** 日別推移（集計期間のすべての日を含む） */
+  dailyTrends: DailyTrendDto[];
+  /** タスクタイプごとの所要時間 */
+  taskDurations: TaskDurationDto[];
+  /** Q&Aでよく質問されるチェック項目（質問数の多い順） */
+  qaTopics: QaTopicDto[];
+}
+
+/**
+ * 評価対象外を表す評定ラベル（不適合の判定対象にしない）
+ */
+const NOT_APPLICABLE_LABEL = "-";
+
+/**
+ * レビュー分析取得サービス
+ * レビュースペースまたはプロジェクト全体のレビュー結果・AIタスク実行履歴・Q&A履歴を集計する
+ *
+ * - 評定はレビュアーの上書きを反映した最終評定で集計する
+ * - 不適合は、レビュースペースの評定基準で最上位の評定・評価対象外（-）以外の評定とみなす
+ */
+export class GetReviewAnalyticsService {
+  /** 集計期間の上限（日） */
+  static readonly MAX_RANGE_DAYS = 366;
+  /** Q&Aでよく質問されるチェック項目の取得件数 */
+  private static readonly MAX_QA_TOPICS = 20;
+
+  constructor(
+    private readonly reviewAnalyticsRepository: IReviewAnalyticsRepository,
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * レビュー分析を取得
+   * @param command 取得コマンド
+   * @returns レビュー分析DTO
+   * @throws ドメインバリデーションエラー - 集計期間が不正な場合、プロジェクト・レビュースペースが存在しない、またはアクセス権がない場合
+   */
+  async execute(
+    command: GetReviewAnalyticsCommand,
+  ): Promise<ReviewAnalyticsDto> {
+    const { from, to, timeZone, userId } = command;
+
+    // 集計期間の検証
+    const rangeMs = to.getTime() - from.getTime();
+    if (
+      !(rangeMs > 0) ||
+      rangeMs > GetReviewAnalyticsService.MAX_RANGE_DAYS * 24 * 60 * 60 * 1000
+    ) {
+      throw domainValidationError("REVIEW_ANALYTICS_DATE_RANGE_INVALID");
+    }
+
+    // プロジェクトの存在確認
+    const projectId = ProjectId.reconstruct(command.projectId);
+    const project = await this.projectRepository.findById(projectId);
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+
+    // プロジェクトへのアクセス権確認
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("PROJECT_ACCESS_DENIED");
+    }
+
+    // 集計対象のレビュースペース（評定基準の取得に使用）
+    let reviewSpaces: ReviewSpace[];
+    let reviewSpaceId: ReviewSpaceId | undefined;
+    if (command.reviewSpaceId) {
+      reviewSpaceId = ReviewSpaceId.reconstruct(command.reviewSpaceId);
+      const reviewSpace =
+        await this.reviewSpaceRepository.findById(reviewSpaceId);
+      if (!reviewSpace || !reviewSpace.projectId.equals(projectId)) {
+        throw domainValidationError("REVIEW_SPACE_NOT_FOUND");
+      }
+      reviewSpaces = [reviewSpace];
+    } else {
+      reviewSpaces =
+        await this.reviewSpaceRepository.findByProjectId(projectId);
+    }
+
+    const scope: ReviewAnalyticsScope = {
+      projectId,
+      reviewSpaceId,
+      from,
+      to,
+      timeZone,
+    };
+    const [
+      evaluationRows,
+      dailyReviewRows,
+      dailyTaskRows,
+      taskDurations,
+      qaRows,
+    ] = await Promise.all([
+      this.reviewAnalyticsRepository.countEvaluations(scope),
+      this.reviewAnalyticsRepository.countDailyReviews(scope),
+      this.reviewAnalyticsRepository.countDailyTasks(scope),
+      this.reviewAnalyticsRepository.aggregateTaskDurations(scope),
+      this.reviewAnalyticsRepository.countQaTopics(scope),
+    ]);
+
+    // 評定ラベルの並び順（レビュースペースの評定基準の順序）と、レビュースペースごとの最上位の評定
+    const evaluationLabels: string[] = [];
+    const bestLabels = new Map<string, string | undefined>();
+    for (const reviewSpace of reviewSpaces) {
+      const labels = reviewSpace.defaultReviewSettings.evaluationCriteria.items
+        .map((item) => item.label)
+        .filter((label) => label !== NOT_APPLICABLE_LABEL);
+      bestLabels.set(reviewSpace.id.value, labels[0]);
+      for (const label of labels) {
+        if (!evaluationLabels.includes(label)) evaluationLabels.push(label);
+      }
+    }
+
+    // チェック項目ごとの評定分布
+    const itemMap = new Map<string, ChecklistItemAnalyticsDto>();
+    const evaluatedCounts = new Map<string, number>();
+    for (const row of evaluationRows) {
+      const item = itemMap.get(row.checkListItemContent) ?? {
+        checkListItemContent: row.checkListItemContent,
+        resultCount: 0,
+        evaluationCounts: {},
+        errorCount: 0,
+        nonconformingCount: 0,
+        nonconformingRate: null,
+      };
+      itemMap.set(row.checkListItemContent, item);
+
+      item.resultCount += row.count;
+      if (row.isError || row.evaluation === null) {
+        item.errorCount += row.count;
+        continue;
+      }
+
+      item.evaluationCounts[row.evaluation] =
+        (item.evaluationCounts[row.evaluation] ?? 0) + row.count;
+      if (row.evaluation === NOT_APPLICABLE_LABEL) {
+        continue;
+      }
+      if (!evaluationLabels.includes(row.evaluation)) {
+        // レビュー対象ごとに変更された評定基準のラベル
+        evaluationLabels.push(row.evaluation);
+      }
+      evaluatedCounts.set(
+        row.checkListItemContent,
+        (evaluatedCounts.get(row.checkListItemContent) ?? 0) + row.count,
+      );
+      const bestLabel = bestLabels.get(row.reviewSpaceId);
+      if (bestLabel !== undefined && row.evaluation !== bestLabel) {
+        item.nonconformingCount += row.count;
+      }
+    }
+    if (evaluationRows.some((row) => row.evaluation === NOT_APPLICABLE_LABEL)) {
+      evaluationLabels.push(NOT_APPLICABLE_LABEL);
+    }
+
+    const checklistItems = Array.from(itemMap.values())
+      .map((item) => {
+        const evaluated = evaluatedCounts.get(item.checkListItemContent) ?? 0;
+        return {
+          ...item,
+          nonconformingRate:
+            evaluated > 0 ? item.nonconformingCount / evaluated : null,
+        };
+      })
+      .sort(
+        (a, b) =>
+          b.nonconformingCount - a.nonconformingCount ||
+          (b.nonconformingRate ?? 0) - (a.nonconformingRate ?? 0) ||
+          b.errorCount - a.errorCount ||
+          a.checkListItemContent.localeCompare(b.checkListItemContent),
+      );
+
+    // 日別推移（件数のない日も含める）
+    const dailyTrends = new Map<string, DailyTrendDto>(
+      GetReviewAnalyticsService.listDates(from, to, timeZone).map((date) => [
+        date,
+        {
+          date,
+          reviewTargetCount: 0,
+          resultCount: 0,
+          errorResultCount: 0,
+          taskCount: 0,
+          failedTaskCount: 0,
+        },
+      ]),
+    );
+    for (const row of dailyReviewRows) {
+      const daily = dailyTrends.get(row.date);
+      if (!daily) continue;
+      daily.reviewTargetCount = row.reviewTargetCount;
+      daily.resultCount = row.resultCount;
+      daily.errorResultCount = row.errorResultCount;
+    }
+    for (const row of dailyTaskRows) {
+      const daily = dailyTrends.get(row.date);
+      if (!daily) continue;
+      daily.taskCount = row.taskCount;
+      daily.failedTaskCount = row.failedTaskCount;
+    }
+
+    // Q&Aの対象チェック項目（複数項目を対象にした質問は各項目に計上する）
+    const qaTopicMap = new Map<string, number>();
+    let qaCount = 0;
+    for (const row of qaRows) {
+      qaCount += row.count;
+      for (const content of QaCheckListItemContent.reconstruct(
+        row.checkListItemContent,
+      ).toItems()) {
+        qaTopicMap.set(content, (qaTopicMap.get(content) ?? 0) + row.count);
+      }
+    }
+    const qaTopics = Array.from(
+      qaTopicMap,
+      ([checkListItemContent, count]) => ({
+        checkListItemContent,
+        count,
+      }),
+    )
+      .sort(
+        (a, b) =>
+          b.count - a.count ||
+          a.checkListItemContent.localeCompare(b.checkListItemContent),
+      )
+      .slice(0, GetReviewAnalyticsService.MAX_QA_TOPICS);
+
+    const trends = Array.from(dailyTrends.values());
+    return {
+      evaluationLabels,
+      summary: {
+        reviewTargetCount: sum(trends, (d) => d.reviewTargetCount),
+        resultCount: sum(checklistItems, (i) => i.resultCount),
+        errorResultCount: sum(checklistItems, (i) => i.errorCount),
+        evaluatedCount: sum(Array.from(evaluatedCounts.values()), (c) => c),
+        nonconformingCount: sum(checklistItems, (i) => i.nonconformingCount),
+        taskCount: sum(taskDurations, (t) => t.taskCount),
+        failedTaskCount: sum(taskDurations, (t) => t.failedTaskCount),
+        qaCount,
+      },
+      checklistItems,
+      dailyTrends: trends,
+      taskDurations,
+      qaTopics,
+    };
+  }
+
+  /**
+   * 集計期間に含まれる日付（指定タイムゾーンのYYYY-MM-DD）を昇順で列挙する
+   */
+  private static listDates(from: Date, to: Date, timeZone: string): string[] {
+    const format = new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    });
+    const dates = new Set<string>();
+    // 夏時間で1日の長さが変わっても取りこぼさないよう1時間刻みで走査する
+    for (
+      let time = from.getTime();
+      time < to.getTime();
+      time += 60 * 60 * 1000
+    ) {
+      dates.add(format.format(new Date(time)));
+    }
+    return Array.from(dates);
+  }
+}
+
+/**
+ * 配列の要素から取り出した値を合計する
+ */
+function sum<T>(items: T[], selector: (item: T) => number): number {
+  return items.reduce((total, item) => total + selector(item), 0);
+}
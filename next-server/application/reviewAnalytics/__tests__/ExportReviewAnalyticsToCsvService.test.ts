@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from "vitest";
+import { ExportReviewAnalyticsToCsvService } from "../ExportReviewAnalyticsToCsvService";
+import type {
+  GetReviewAnalyticsService,
+  ReviewAnalyticsDto,
+} from "../GetReviewAnalyticsService";
+
+describe("ExportReviewAnalyticsToCsvService", () => {
+  const analytics: ReviewAnalyticsDto = {
+    evaluationLabels: ["A", "B", "C", "-"],
+    summary: {
+      reviewTargetCount: 1,
+      resultCount: 5,
+      errorResultCount: 1,
+      evaluatedCount: 3,
+      nonconformingCount: 1,
+      taskCount: 4,
+      failedTaskCount: 1,
+      qaCount: 2,
+    },
+    checklistItems: [
+      {
+        checkListItemContent: "目次があるか, 章番号があるか",
+        resultCount: 5,
+        evaluationCounts: { A: 2, C: 1, "-": 1 },
+        errorCount: 1,
+        nonconformingCount: 1,
+        nonconformingRate: 1 / 3,
+      },
+    ],
+    dailyTrends: [],
+    taskDurations: [
+      {
+        taskType: "small_review",
+        taskCount: 4,
+        failedTaskCount: 1,
+        avgWaitMs: 1500,
+        maxWaitMs: 3000,
+        avgExecutionMs: 60000,
+        maxExecutionMs: null,
+      },
+    ],
+    qaTopics: [],
+  };
+
+  const command = {
+    projectId: "123e4567-e89b-12d3-a456-426614174000",
+    from: new Date("2024-01-01T00:00:00Z"),
+    to: new Date("2024-01-04T00:00:00Z"),
+    timeZone: "UTC",
+    userId: "423e4567-e89b-12d3-a456-426614174003",
+  };
+
+  const createService = () => {
+    const getReviewAnalyticsService = {
+      execute: vi.fn().mockResolvedValue(analytics),
+    } as unknown as GetReviewAnalyticsService;
+    return {
+      getReviewAnalyticsService,
+      service: new ExportReviewAnalyticsToCsvService(getReviewAnalyticsService),
+    };
+  };
+
+  it("チェック項目ごとの評定分布を評定ラベルの列順で出力する", async () => {
+    const { getReviewAnalyticsService, service } = createService();
+
+    const result = await service.execute({
+      ...command,
+      section: "checklistItems",
+    });
+
+    expect(getReviewAnalyticsService.execute).toHaveBeenCalledWith(command);
+    expect(result.csvContent.startsWith("\uFEFF")).toBe(true);
+    expect(result.csvContent.slice(1).split("\n")).toEqual([
+      "チェック項目,結果数,A,B,C,-,エラー,不適合数,不適合率(%)",
+      '"目次があるか, 章番号があるか",5,2,0,1,1,1,1,33.3',
+    ]);
+    expect(result.exportedCount).toBe(1);
+  });
+
+  it("AIタスクの所要時間を秒単位で出力する", async () => {
+    const { service } = createService();
+
+    const result = await service.execute({
+      ...command,
+      section: "taskDurations",
+    });
+
+    expect(result.csvContent.slice(1).split("\n")).toEqual([
+      "タスク種別,件数,失敗数,失敗率(%),平均待ち時間(秒),最大待ち時間(秒),平均実行時間(秒),最大実行時間(秒)",
+      "レビュー（少量）,4,1,25.0,1.5,3.0,60.0,",
+    ]);
+  });
+
+  it("データがない集計表はヘッダーのみを出力する", async () => {
+    const { service } = createService();
+
+    const result = await service.execute({ ...command, section: "qaTopics" });
+
+    expect(result.csvContent).toBe("\uFEFFチェック項目,質問数");
+    expect(result.exportedCount).toBe(0);
+  });
+});
@@ -0,0 +1,311 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GetReviewAnalyticsService } from "../GetReviewAnalyticsService";
+import type {
+  IProjectRepository,
+  IReviewAnalyticsRepository,
+  IReviewSpaceRepository,
+} from "@/application/shared/port/repository";
+import { Project } from "@/domain/project";
+import { ReviewSpace } from "@/domain/reviewSpace";
+
+// 暗号化関数をモック
+vi.mock("@/lib/server/encryption", () => ({
+  encrypt: vi.fn((text: string) => `encrypted_${text}`),
+  decrypt: vi.fn((text: string) => text.replace("encrypted_", "")),
+}));
+
+describe("GetReviewAnalyticsService", () => {
+  let mockReviewAnalyticsRepository: IReviewAnalyticsRepository;
+  let mockReviewSpaceRepository: IReviewSpaceRepository;
+  let mockProjectRepository: IProjectRepository;
+  let service: GetReviewAnalyticsService;
+
+  const validProjectId = "123e4567-e89b-12d3-a456-426614174000";
+  const validReviewSpaceId = "223e4567-e89b-12d3-a456-426614174001";
+  const otherReviewSpaceId = "223e4567-e89b-12d3-a456-426614174002";
+  const validUserId = "423e4567-e89b-12d3-a456-426614174003";
+  const otherUserId = "423e4567-e89b-12d3-a456-426614174004";
+
+  const mockProject = Project.reconstruct({
+    id: validProjectId,
+    name: "テストプロジェクト",
+    description: "テスト説明",
+    encryptedApiKey: null,
+    members: [{ userId: validUserId, role: "owner", createdAt: new Date() }],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const mockReviewSpace = ReviewSpace.reconstruct({
+    id: validReviewSpaceId,
+    projectId: validProjectId,
+    name: "テストスペース",
+    description: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  // 評定基準を変更したレビュースペース（最上位の評定が「適合」）
+  const customReviewSpace = ReviewSpace.reconstruct({
+    id: otherReviewSpaceId,
+    projectId: validProjectId,
+    name: "独自基準のスペース",
+    description: null,
+    defaultReviewSettings: {
+      evaluationCriteria: [
+        { label: "適合", description: "満たしている" },
+        { label: "不適合", description: "満たしていない" },
+      ],
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  // 2024-01-01〜2024-01-03（UTC）
+  const baseCommand = {
+    projectId: validProjectId,
+    from: new Date("2024-01-01T00:00:00Z"),
+    to: new Date("2024-01-04T00:00:00Z"),
+    timeZone: "UTC",
+    userId: validUserId,
+  };
+
+  beforeEach(() => {
+    mockReviewAnalyticsRepository = {
+      countEvaluations: vi.fn().mockResolvedValue([]),
+      countDailyReviews: vi.fn().mockResolvedValue([]),
+      countDailyTasks: vi.fn().mockResolvedValue([]),
+      aggregateTaskDurations: vi.fn().mockResolvedValue([]),
+      countQaTopics: vi.fn().mockResolvedValue([]),
+    };
+    mockReviewSpaceRepository = {
+      findById: vi.fn().mockResolvedValue(mockReviewSpace),
+      findByProjectId: vi
+        .fn()
+        .mockResolvedValue([mockReviewSpace, customReviewSpace]),
+      countByProjectId: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+      updateChecklistGenerationError: vi.fn(),
+    };
+    mockProjectRepository = {
+      findById: vi.fn().mockResolvedValue(mockProject),
+      findByMemberId: vi.fn(),
+      countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+    service = new GetReviewAnalyticsService(
+      mockReviewAnalyticsRepository,
+      mockReviewSpaceRepository,
+      mockProjectRepository,
+    );
+  });
+
+  it("チェック項目ごとの評定分布を集計し、レビュースペースの評定基準で不適合を判定する", async () => {
+    vi.mocked(mockReviewAnalyticsRepository.countEvaluations).mockResolvedValue(
+      [
+        {
+          reviewSpaceId: validReviewSpaceId,
+          checkListItemContent: "目次があるか",
+          evaluation: "A",
+          isError: false,
+          count: 3,
+        },
+        {
+          reviewSpaceId: validReviewSpaceId,
+          checkListItemContent: "目次があるか",
+          evaluation: "C",
+          isError: false,
+          count: 1,
+        },
+        {
+          reviewSpaceId: validReviewSpaceId,
+          checkListItemContent: "目次があるか",
+          evaluation: "-",
+          isError: false,
+          count: 2,
+        },
+        {
+          reviewSpaceId: otherReviewSpaceId,
+          checkListItemContent: "用語が統一されているか",
+          evaluation: "不適合",
+          isError: false,
+          count: 2,
+        },
+        {
+          reviewSpaceId: otherReviewSpaceId,
+          checkListItemContent: "用語が統一されているか",
+          evaluation: null,
+          isError: true,
+          count: 1,
+        },
+      ],
+    );
+
+    const result = await service.execute(baseCommand);
+
+    expect(result.evaluationLabels).toEqual([
+      "A",
+      "B",
+      "C",
+      "適合",
+      "不適合",
+      "-",
+    ]);
+    // 不適合数の多い順
+    expect(result.checklistItems).toEqual([
+      {
+        checkListItemContent: "用語が統一されているか",
+        resultCount: 3,
+        evaluationCounts: { 不適合: 2 },
+        errorCount: 1,
+        nonconformingCount: 2,
+        nonconformingRate: 1,
+      },
+      {
+        checkListItemContent: "目次があるか",
+        resultCount: 6,
+        evaluationCounts: { A: 3, C: 1, "-": 2 },
+        errorCount: 0,
+        nonconformingCount: 1,
+        nonconformingRate: 0.25,
+      },
+    ]);
+    expect(result.summary).toMatchObject({
+      resultCount: 9,
+      errorResultCount: 1,
+      evaluatedCount: 6,
+      nonconformingCount: 3,
+    });
+  });
+
+  it("日別推移は件数のない日も含めて集計期間のすべての日を返す", async () => {
+    vi.mocked(
+      mockReviewAnalyticsRepository.countDailyReviews,
+    ).mockResolvedValue([
+      {
+        date: "2024-01-02",
+        reviewTargetCount: 2,
+        resultCount: 10,
+        errorResultCount: 1,
+      },
+    ]);
+    vi.mocked(mockReviewAnalyticsRepository.countDailyTasks).mockResolvedValue([
+      { date: "2024-01-03", taskCount: 3, failedTaskCount: 1 },
+    ]);
+
+    const result = await service.execute(baseCommand);
+
+    expect(result.dailyTrends).toEqual([
+      {
+        date: "2024-01-01",
+        reviewTargetCount: 0,
+        resultCount: 0,
+        errorResultCount: 0,
+        taskCount: 0,
+        failedTaskCount: 0,
+      },
+      {
+        date: "2024-01-02",
+        reviewTargetCount: 2,
+        resultCount: 10,
+        errorResultCount: 1,
+        taskCount: 0,
+        failedTaskCount: 0,
+      },
+      {
+        date: "2024-01-03",
+        reviewTargetCount: 0,
+        resultCount: 0,
+        errorResultCount: 0,
+        taskCount: 3,
+        failedTaskCount: 1,
+      },
+    ]);
+    expect(result.summary.reviewTargetCount).toBe(2);
+  });
+
+  it("複数のチェック項目を対象にしたQ&Aは各項目に計上する", async () => {
+    vi.mocked(mockReviewAnalyticsRepository.countQaTopics).mockResolvedValue([
+      {
+        checkListItemContent: JSON.stringify([
+          "目次があるか",
+          "図表に番号があるか",
+        ]),
+        count: 2,
+      },
+      // 旧形式（単一の文字列）
+      { checkListItemContent: "目次があるか", count: 1 },
+    ]);
+
+    const result = await service.execute(baseCommand);
+
+    expect(result.qaTopics).toEqual([
+      { checkListItemContent: "目次があるか", count: 3 },
+      { checkListItemContent: "図表に番号があるか", count: 2 },
+    ]);
+    expect(result.summary.qaCount).toBe(3);
+  });
+
+  it("レビュースペースを指定した場合はそのレビュースペースのみを集計する", async () => {
+    await service.execute({
+      ...baseCommand,
+      reviewSpaceId: validReviewSpaceId,
+    });
+
+    expect(mockReviewSpaceRepository.findByProjectId).not.toHaveBeenCalled();
+    const scope = vi.mocked(mockReviewAnalyticsRepository.countEvaluations).mock
+      .calls[0][0];
+    expect(scope.reviewSpaceId?.value).toBe(validReviewSpaceId);
+    expect(scope.timeZone).toBe("UTC");
+  });
+
+  it("別のプロジェクトのレビュースペースは指定できない", async () => {
+    vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(
+      ReviewSpace.reconstruct({
+        id: validReviewSpaceId,
+        projectId: "123e4567-e89b-12d3-a456-426614174099",
+        name: "別プロジェクトのスペース",
+        description: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }),
+    );
+
+    await expect(
+      service.execute({ ...baseCommand, reviewSpaceId: validReviewSpaceId }),
+    ).rejects.toMatchObject({ messageCode: "REVIEW_SPACE_NOT_FOUND" });
+  });
+
+  it("プロジェクトのメンバーでない場合はエラー", async () => {
+    await expect(
+      service.execute({ ...baseCommand, userId: otherUserId }),
+    ).rejects.toMatchObject({ messageCode: "PROJECT_ACCESS_DENIED" });
+    expect(
+      mockReviewAnalyticsRepository.countEvaluations,
+    ).not.toHaveBeenCalled();
+  });
+
+  it("集計期間が不正な場合はエラー", async () => {
+    await expect(
+      service.execute({
+        ...baseCommand,
+        from: baseCommand.to,
+        to: baseCommand.from,
+      }),
+    ).rejects.toMatchObject({
+      messageCode: "REVIEW_ANALYTICS_DATE_RANGE_INVALID",
+    });
+    await expect(
+      service.execute({
+        ...baseCommand,
+        to: new Date("2025-01-03T00:00:00Z"),
+      }),
+    ).rejects.toMatchObject({
+      messageCode: "REVIEW_ANALYTICS_DATE_RANGE_INVALID",
+    });
+  });
+});
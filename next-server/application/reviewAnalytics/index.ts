@@ -0,0 +1,17 @@
+export {
+  GetReviewAnalyticsService,
+  type GetReviewAnalyticsCommand,
+  type ReviewAnalyticsDto,
+  type ReviewAnalyticsSummaryDto,
+  type ChecklistItemAnalyticsDto,
+  type DailyTrendDto,
+  type TaskDurationDto,
+  type QaTopicDto,
+} from "./GetReviewAnalyticsService";
+export {
+  ExportReviewAnalyticsToCsvService,
+  REVIEW_ANALYTICS_CSV_SECTIONS,
+  type ReviewAnalyticsCsvSection,
+  type ExportReviewAnalyticsToCsvCommand,
+  type ExportReviewAnalyticsToCsvResult,
+} from "./ExportReviewAnalyticsToCsvService";
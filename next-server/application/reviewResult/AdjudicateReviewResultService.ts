@@ -0,0 +1,112 @@
+import { IReviewResultRepository } from "@/application/shared/port/repository/IReviewResultRepository";
+import { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
+import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import { IProjectRepository } from "@/application/shared/port/repository";
+import { ReviewResultDto, ReviewResultId } from "@/domain/reviewResult";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { ReviewTargetId } from "@/domain/reviewTarget";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * レビュー結果判定コマンド（入力DTO）
+ */
+export interface AdjudicateReviewResultCommand {
+  /** レビュー結果ID */
+  reviewResultId: string;
+  /** レビュアーによる評定（nullの場合はAIの評定を採用） */
+  evaluation: string | null;
+  /** レビュアーによるコメント（nullの場合はAIのコメントを採用） */
+  comment: string | null;
+  /** 対応状況（accepted / disputed / fixed） */
+  disposition: string;
+  /** 実行ユーザーID（権限確認・判定者として記録） */
+  userId: string;
+}
+
+/**
+ * レビュー結果判定サービス
+ * AIのレビュー結果に対してレビュアーが評定・コメントを上書きし、対応状況を記録する
+ */
+export class AdjudicateReviewResultService {
+  constructor(
+    private readonly reviewResultRepository: IReviewResultRepository,
+    private readonly reviewTargetRepository: IReviewTargetRepository,
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * レビュー結果の判定を実行
+   * @param command 判定コマンド
+   * @returns 判定後のレビュー結果
+   */
+  async execute(
+    command: AdjudicateReviewResultCommand,
+  ): Promise<ReviewResultDto> {
+    const { reviewResultId, evaluation, comment, disposition, userId } =
+      command;
+
+    // レビュー結果の存在確認
+    const reviewResult = await this.reviewResultRepository.findById(
+      ReviewResultId.reconstruct(reviewResultId),
+    );
+    if (!reviewResult) {
+      throw domainValidationError("REVIEW_RESULT_NOT_FOUND");
+    }
+
+    // レビュー対象の存在確認
+    const reviewTarget = await this.reviewTargetRepository.findById(
+      ReviewTargetId.reconstruct(reviewResult.reviewTargetId.value),
+    );
+    if (!reviewTarget) {
+      throw domainValidationError("REVIEW_TARGET_NOT_FOUND");
+    }
+
+    // レビュースペースの存在確認
+    const reviewSpace = await this.reviewSpaceRepository.findById(
+      ReviewSpaceId.reconstruct(reviewTarget.reviewSpaceId.value),
+    );
+    if (!reviewSpace) {
+      throw domainValidationError("REVIEW_SPACE_NOT_FOUND");
+    }
+
+    // プロジェクトの存在確認
+    const projectId = ProjectId.reconstruct(reviewSpace.projectId.value);
+    const project = await this.projectRepository.findById(projectId);
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+
+    // プロジェクトへのアクセス権確認
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("REVIEW_TARGET_ACCESS_DENIED");
+    }
+
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.ADJUDICATE_REVIEW)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
+    // 承認済みのレビュー対象は変更不可
+    if (reviewTarget.isSignedOff()) {
+      throw domainValidationError("REVIEW_TARGET_SIGNED_OFF_LOCKED");
+    }
+
+    // 評定は実行時の評価基準に含まれるラベルのみ許可する
+    const criteria = reviewTarget.reviewSettings?.evaluationCriteria;
+    if (evaluation && criteria && !criteria.hasLabel(evaluation.trim())) {
+      throw domainValidationError("REVIEW_RESULT_EVALUATION_NOT_IN_CRITERIA");
+    }
+
+    const adjudicated = reviewResult.adjudicate({
+      evaluation,
+      comment,
+      disposition,
+      userId,
+    });
+    await this.reviewResultRepository.save(adjudicated);
+
+    return adjudicated.toDto();
+  }
+}
@@ -1,11 +1,20 @@
 import { IReviewResultRepository } from "@/application/shared/port/repository/IReviewResultRepository";
 import { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
 import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
-import { IProjectRepository } from "@/application/shared/port/repository";
-import { ReviewResult } from "@/domain/reviewResult";
+import {
+  IProjectRepository,
+  IUserRepository,
+} from "@/application/shared/port/repository";
+import {
+  ReviewResult,
+  REVIEW_DISPOSITION,
+  type ReviewDispositionValue,
+} from "@/domain/reviewResult";
 import { ProjectId } from "@/domain/project";
 import { ReviewSpaceId } from "@/domain/reviewSpace";
 import { ReviewTargetId } from "@/domain/reviewTarget";
+import { UserId } from "@/domain/user";
+import { buildUserNameMap } from "@/application/shared/util";
 import { domainValidationError, internalError } from "@/lib/server/error";
 import { CsvParser } from "@/lib/shared/CsvParser";
 
@@ -38,12 +47,22 @@ export class ExportReviewResultsToCsvService {
   private static readonly UTF8_BOM = "\uFEFF";
   // 取得上限（メモリ保護）
   private static readonly MAX_ITEMS = 10000;
+  // 対応状況の表示ラベル
+  private static readonly DISPOSITION_LABELS: Record<
+    ReviewDispositionValue,
+    string
+  > = {
+    [REVIEW_DISPOSITION.ACCEPTED]: "承認",
+    [REVIEW_DISPOSITION.DISPUTED]: "異議あり",
+    [REVIEW_DISPOSITION.FIXED]: "修正済み",
+  };
 
   constructor(
     private readonly reviewResultRepository: IReviewResultRepository,
     private readonly reviewTargetRepository: IReviewTargetRepository,
     private readonly reviewSpaceRepository: IReviewSpaceRepository,
     private readonly projectRepository: IProjectRepository,
+    private readonly userRepository: IUserRepository,
   ) {}
 
   /**
@@ -111,8 +130,23 @@ export class ExportReviewResultsToCsvService {
     const results =
       await this.reviewResultRepository.findByReviewTargetId(reviewTargetIdVo);
 
+    // 判定者の表示名を取得
+    const reviewerIds = new Set<string>();
+    for (const result of results) {
+      const reviewedBy = result.adjudication?.reviewedBy;
+      if (reviewedBy) reviewerIds.add(reviewedBy.value);
+    }
+    const userNameMap =
+      reviewerIds.size > 0
+        ? buildUserNameMap(
+            await this.userRepository.findByIds(
+              Array.from(reviewerIds).map((id) => UserId.reconstruct(id)),
+            ),
+          )
+        : new Map<string, string>();
+
     // CSV生成
-    const csvContent = this.generateCsv(results);
+    const csvContent = this.generateCsv(results, userNameMap);
 
     return {
       csvContent,
@@ -122,12 +156,27 @@ export class ExportReviewResultsToCsvService {
 
   /**
    * レビュー結果リストからCSVコンテンツを生成
+   * AIの評定・コメントとレビュアー判定後の最終評定・コメントを併記する
    * @param results レビュー結果リスト
+   * @param userNameMap ユーザID→表示名のマップ
    * @returns UTF-8 BOM付きCSVコンテンツ
    */
-  private generateCsv(results: ReviewResult[]): string {
+  private generateCsv(
+    results: ReviewResult[],
+    userNameMap: Map<string, string>,
+  ): string {
     // ヘッダー行
-    const header = ["チェック項目", "評定", "コメント"];
+    const header = [
+      "チェック項目",
+      "AI評定",
+      "AIコメント",
+      "根拠",
+      "最終評定",
+      "最終コメント",
+      "対応状況",
+      "確認者",
+      "確認日時",
+    ];
     const rows: string[][] = [header];
 
     // データ行
@@ -138,12 +187,31 @@ export class ExportReviewResultsToCsvService {
           result.checkListItemContent,
           "エラー",
           result.errorMessage || "",
+          "",
+          "",
+          "",
+          "",
+          "",
+          "",
         ]);
       } else {
+        const adjudication = result.adjudication;
         rows.push([
           result.checkListItemContent,
           result.evaluation.value || "",
           result.comment.value || "",
+          result.evidence.toString(),
+          result.finalEvaluation || "",
+          result.finalComment || "",
+          adjudication
+            ? ExportReviewResultsToCsvService.DISPOSITION_LABELS[
+                adjudication.disposition.value
+              ]
+            : "",
+          adjudication?.reviewedBy
+            ? (userNameMap.get(adjudication.reviewedBy.value) ?? "")
+            : "",
+          adjudication ? adjudication.reviewedAt.toISOString() : "",
         ]);
       }
     }
@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  AdjudicateReviewResultService,
+  type AdjudicateReviewResultCommand,
+} from "../AdjudicateReviewResultService";
+import type { IReviewResultRepository } from "@/application/shared/port/repository/IReviewResultRepository";
+import type { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
+import type { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import type { IProjectRepository } from "@/application/shared/port/repository";
+import { Project } from "@/domain/project";
+import { ReviewSpace } from "@/domain/reviewSpace";
+import { DEFAULT_EVALUATION_CRITERIA } from "@/domain/reviewSpace/EvaluationCriteria";
+import { ReviewTarget } from "@/domain/reviewTarget";
+import { ReviewResult } from "@/domain/reviewResult";
+
+describe("AdjudicateReviewResultService", () => {
+  // モックリポジトリ
+  const mockReviewResultRepository: IReviewResultRepository = {
+    findById: vi.fn(),
+    findByReviewTargetId: vi.fn(),
+    countByReviewTargetId: vi.fn(),
+    save: vi.fn(),
+    saveMany: vi.fn(),
+    delete: vi.fn(),
+    deleteByReviewTargetId: vi.fn(),
+  };
+
+  const mockReviewTargetRepository: IReviewTargetRepository = {
+    findById: vi.fn(),
+    findByReviewSpaceId: vi.fn(),
+    findByRevisionGroupId: vi.fn(),
+    countByReviewSpaceId: vi.fn(),
+    summarizeByReviewSpaceIds: vi.fn(),
+    save: vi.fn(),
+    saveRevision: vi.fn(),
+    delete: vi.fn(),
+  };
+
+  const mockReviewSpaceRepository: IReviewSpaceRepository = {
+    findById: vi.fn(),
+    findByProjectId: vi.fn(),
+    countByProjectId: vi.fn(),
+    save: vi.fn(),
+    delete: vi.fn(),
+    updateChecklistGenerationError: vi.fn(),
+  };
+
+  const mockProjectRepository: IProjectRepository = {
+    findById: vi.fn(),
+    findByMemberId: vi.fn(),
+    countByMemberId: vi.fn(),
+    findAll: vi.fn(),
+    countAll: vi.fn(),
+    save: vi.fn(),
+    delete: vi.fn(),
+  };
+
+  let service: AdjudicateReviewResultService;
+
+  // テスト用データ（有効なUUID v4形式）
+  const testProjectId = "550e8400-e29b-41d4-a716-446655440001";
+  const testReviewSpaceId = "550e8400-e29b-41d4-a716-446655440002";
+  const testUserId = "550e8400-e29b-41d4-a716-446655440003";
+  const testReviewTargetId = "550e8400-e29b-41d4-a716-446655440004";
+  const testReviewResultId = "550e8400-e29b-41d4-a716-446655440005";
+
+  const now = new Date();
+
+  const testProject = Project.reconstruct({
+    id: testProjectId,
+    name: "テストプロジェクト",
+    description: null,
+    encryptedApiKey: null,
+    members: [{ userId: testUserId, role: "owner", createdAt: now }],
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const testReviewSpace = ReviewSpace.reconstruct({
+    id: testReviewSpaceId,
+    projectId: testProjectId,
+    name: "テストスペース",
+    description: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const createTestReviewTarget = (signedOff = false) =>
+    ReviewTarget.reconstruct({
+      id: testReviewTargetId,
+      reviewSpaceId: testReviewSpaceId,
+      name: "テストレビュー対象",
+      status: "completed",
+      reviewType: "small",
+      reviewSettings: {
+        additionalInstructions: null,
+        concurrentReviewItems: 1,
+        commentFormat: null,
+        evaluationCriteria: DEFAULT_EVALUATION_CRITERIA,
+      },
+      signedOffBy: signedOff ? testUserId : null,
+      signedOffAt: signedOff ? now : null,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+  const testReviewResult = ReviewResult.reconstruct({
+    id: testReviewResultId,
+    reviewTargetId: testReviewTargetId,
+    checkListItemContent: "セキュリティ要件を満たしているか",
+    evaluation: "A",
+    comment: "問題ありません",
+    errorMessage: null,
+    evidence: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const baseCommand: AdjudicateReviewResultCommand = {
+    reviewResultId: testReviewResultId,
+    evaluation: DEFAULT_EVALUATION_CRITERIA[2].label,
+    comment: "要件の記載が不足しています",
+    disposition: "disputed",
+    userId: testUserId,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mockReviewResultRepository.findById).mockResolvedValue(
+      testReviewResult,
+    );
+    vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+      createTestReviewTarget(),
+    );
+    vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(
+      testReviewSpace,
+    );
+    vi.mocked(mockProjectRepository.findById).mockResolvedValue(testProject);
+    service = new AdjudicateReviewResultService(
+      mockReviewResultRepository,
+      mockReviewTargetRepository,
+      mockReviewSpaceRepository,
+      mockProjectRepository,
+    );
+  });
+
+  describe("正常系", () => {
+    it("レビュアーの判定を保存し、最終評定が上書きされる", async () => {
+      const result = await service.execute(baseCommand);
+
+      expect(mockReviewResultRepository.save).toHaveBeenCalledTimes(1);
+      const saved = vi.mocked(mockReviewResultRepository.save).mock.calls[0][0];
+      expect(saved.adjudication?.disposition.value).toBe("disputed");
+      expect(saved.adjudication?.reviewedBy?.value).toBe(testUserId);
+
+      expect(result.evaluation).toBe("A");
+      expect(result.finalEvaluation).toBe(DEFAULT_EVALUATION_CRITERIA[2].label);
+      expect(result.finalComment).toBe("要件の記載が不足しています");
+    });
+
+    it("評定・コメントを上書きせずに承認できる", async () => {
+      const result = await service.execute({
+        ...baseCommand,
+        evaluation: null,
+        comment: null,
+        disposition: "accepted",
+      });
+
+      expect(result.adjudication?.disposition).toBe("accepted");
+      expect(result.finalEvaluation).toBe("A");
+      expect(result.finalComment).toBe("問題ありません");
+    });
+  });
+
+  describe("異常系", () => {
+    it("レビュー結果が存在しない場合エラーになる", async () => {
+      vi.mocked(mockReviewResultRepository.findById).mockResolvedValue(null);
+
+      await expect(service.execute(baseCommand)).rejects.toMatchObject({
+        messageCode: "REVIEW_RESULT_NOT_FOUND",
+      });
+    });
+
+    it("アクセス権がない場合エラーになる", async () => {
+      await expect(
+        service.execute({
+          ...baseCommand,
+          userId: "550e8400-e29b-41d4-a716-446655440099",
+        }),
+      ).rejects.toMatchObject({
+        messageCode: "REVIEW_TARGET_ACCESS_DENIED",
+      });
+      expect(mockReviewResultRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("閲覧者の場合エラーになる", async () => {
+      vi.mocked(mockProjectRepository.findById).mockResolvedValue(
+        Project.reconstruct({
+          id: testProjectId,
+          name: "テストプロジェクト",
+          description: null,
+          encryptedApiKey: null,
+          members: [{ userId: testUserId, role: "viewer", createdAt: now }],
+          createdAt: now,
+          updatedAt: now,
+        }),
+      );
+
+      await expect(service.execute(baseCommand)).rejects.toMatchObject({
+        messageCode: "PROJECT_PERMISSION_DENIED",
+      });
+      expect(mockReviewResultRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("承認済みのレビュー対象の場合エラーになる", async () => {
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+        createTestReviewTarget(true),
+      );
+
+      await expect(service.execute(baseCommand)).rejects.toMatchObject({
+        messageCode: "REVIEW_TARGET_SIGNED_OFF_LOCKED",
+      });
+      expect(mockReviewResultRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("評価基準に含まれない評定の場合エラーになる", async () => {
+      await expect(
+        service.execute({ ...baseCommand, evaluation: "Z" }),
+      ).rejects.toMatchObject({
+        messageCode: "REVIEW_RESULT_EVALUATION_NOT_IN_CRITERIA",
+      });
+      expect(mockReviewResultRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("不正な対応状況の場合エラーになる", async () => {
+      await expect(
+        service.execute({ ...baseCommand, disposition: "rejected" }),
+      ).rejects.toMatchObject({
+        messageCode: "REVIEW_RESULT_DISPOSITION_INVALID",
+      });
+    });
+  });
+});
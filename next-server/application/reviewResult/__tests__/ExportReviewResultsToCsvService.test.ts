@@ -3,7 +3,10 @@ import { ExportReviewResultsToCsvService } from "../ExportReviewResultsToCsvServ
 import { IReviewResultRepository } from "@/application/shared/port/repository/IReviewResultRepository";
 import { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
 import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
-import { IProjectRepository } from "@/application/shared/port/repository";
+import {
+  IProjectRepository,
+  IUserRepository,
+} from "@/application/shared/port/repository";
 import { Project } from "@/domain/project";
 import { ReviewSpace } from "@/domain/reviewSpace";
 import { ReviewTarget } from "@/domain/reviewTarget";
@@ -20,6 +23,7 @@ describe("ExportReviewResultsToCsvService", () => {
   let mockReviewTargetRepository: IReviewTargetRepository;
   let mockReviewSpaceRepository: IReviewSpaceRepository;
   let mockProjectRepository: IProjectRepository;
+  let mockUserRepository: IUserRepository;
   let service: ExportReviewResultsToCsvService;
 
   const validProjectId = "123e4567-e89b-12d3-a456-426614174000";
@@ -32,7 +36,7 @@ describe("ExportReviewResultsToCsvService", () => {
     name: "テストプロジェクト",
     description: "テスト説明",
     encryptedApiKey: null,
-    members: [{ userId: validUserId, createdAt: new Date() }],
+    members: [{ userId: validUserId, role: "owner", createdAt: new Date() }],
     createdAt: new Date(),
     updatedAt: new Date(),
   });
@@ -69,6 +73,7 @@ describe("ExportReviewResultsToCsvService", () => {
       evaluation,
       comment,
       errorMessage: null,
+      evidence: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     });
@@ -85,6 +90,7 @@ describe("ExportReviewResultsToCsvService", () => {
       evaluation: null,
       comment: null,
       errorMessage,
+      evidence: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     });
@@ -103,8 +109,11 @@ describe("ExportReviewResultsToCsvService", () => {
     mockReviewTargetRepository = {
       findById: vi.fn().mockResolvedValue(mockReviewTarget),
       findByReviewSpaceId: vi.fn(),
+      findByRevisionGroupId: vi.fn(),
       countByReviewSpaceId: vi.fn(),
+      summarizeByReviewSpaceIds: vi.fn(),
       save: vi.fn(),
+      saveRevision: vi.fn(),
       delete: vi.fn(),
     };
     mockReviewSpaceRepository = {
@@ -119,14 +128,29 @@ describe("ExportReviewResultsToCsvService", () => {
       findById: vi.fn().mockResolvedValue(mockProject),
       findByMemberId: vi.fn(),
       countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
       save: vi.fn(),
       delete: vi.fn(),
     };
+    mockUserRepository = {
+      findById: vi.fn(),
+      findByIds: vi.fn().mockResolvedValue([
+        {
+          id: { value: validUserId },
+          displayName: "確認 太郎",
+          employeeId: { value: "EMP001" },
+        },
+      ]),
+      findByEmployeeId: vi.fn(),
+      save: vi.fn(),
+    } as unknown as IUserRepository;
     service = new ExportReviewResultsToCsvService(
       mockReviewResultRepository,
       mockReviewTargetRepository,
       mockReviewSpaceRepository,
       mockProjectRepository,
+      mockUserRepository,
     );
   });
 
@@ -152,11 +176,11 @@ describe("ExportReviewResultsToCsvService", () => {
       expect(result.exportedCount).toBe(3);
       // UTF-8 BOM + ヘッダー行 + データ行
       expect(result.csvContent).toBe(
-        "\uFEFFチェック項目,評定,コメント\nチェック項目1,A,コメント1\nチェック項目2,B,コメント2\nチェック項目3,C,コメント3",
+        "\uFEFFチェック項目,AI評定,AIコメント,根拠,最終評定,最終コメント,対応状況,確認者,確認日時\nチェック項目1,A,コメント1,,A,コメント1,,,\nチェック項目2,B,コメント2,,B,コメント2,,,\nチェック項目3,C,コメント3,,C,コメント3,,,",
       );
     });
 
-    it("ヘッダー行が含まれる（チェック項目,評定,コメント）", async () => {
+    it("ヘッダー行にAIの評定と最終評定の列が含まれる", async () => {
       const mockResults = [
         createMockReviewResultSuccess("項目1", "A", "コメント"),
       ];
@@ -174,7 +198,9 @@ describe("ExportReviewResultsToCsvService", () => {
 
       const lines = result.csvContent.split("\n");
       // BOMを除いたヘッダー行
-      expect(lines[0]).toBe("\uFEFFチェック項目,評定,コメント");
+      expect(lines[0]).toBe(
+        "\uFEFFチェック項目,AI評定,AIコメント,根拠,最終評定,最終コメント,対応状況,確認者,確認日時",
+      );
     });
 
     it("エラーレビュー結果が正しく出力される（評定=エラー、コメント=エラーメッセージ）", async () => {
@@ -199,7 +225,7 @@ describe("ExportReviewResultsToCsvService", () => {
 
       expect(result.csvContent).toContain("正常項目,A,正常コメント");
       expect(result.csvContent).toContain(
-        "エラー項目,エラー,レビュー処理中にエラーが発生しました",
+        "エラー項目,エラー,レビュー処理中にエラーが発生しました,",
       );
     });
 
@@ -326,7 +352,7 @@ describe("ExportReviewResultsToCsvService", () => {
 
       expect(result.exportedCount).toBe(1);
       expect(result.csvContent).toBe(
-        "\uFEFFチェック項目,評定,コメント\n単一項目,A,単一コメント",
+        "\uFEFFチェック項目,AI評定,AIコメント,根拠,最終評定,最終コメント,対応状況,確認者,確認日時\n単一項目,A,単一コメント,,A,単一コメント,,,",
       );
     });
 
@@ -339,6 +365,7 @@ describe("ExportReviewResultsToCsvService", () => {
           evaluation: null,
           comment: null,
           errorMessage: null,
+          evidence: null,
           createdAt: new Date(),
           updatedAt: new Date(),
         }),
@@ -356,8 +383,115 @@ describe("ExportReviewResultsToCsvService", () => {
       });
 
       expect(result.csvContent).toBe(
-        "\uFEFFチェック項目,評定,コメント\n空の項目,,",
+        "\uFEFFチェック項目,AI評定,AIコメント,根拠,最終評定,最終コメント,対応状況,確認者,確認日時\n空の項目,,,,,,,,",
+      );
+    });
+
+    it("レビュー根拠が参照箇所ごとに改行区切りで出力される", async () => {
+      const mockResults = [
+        ReviewResult.reconstruct({
+          id: crypto.randomUUID(),
+          reviewTargetId: validReviewTargetId,
+          checkListItemContent: "根拠あり項目",
+          evaluation: "A",
+          comment: "問題なし",
+          errorMessage: null,
+          evidence: [
+            {
+              fileName: "設計書.pdf",
+              sectionNames: ["第2章 概要", "2.1 目的"],
+              pageNumbers: [3, 4],
+              lineRanges: [],
+            },
+            {
+              fileName: "main.ts",
+              sectionNames: [],
+              pageNumbers: [],
+              lineRanges: [{ start: 10, end: 20 }],
+            },
+          ],
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }),
+      ];
+      vi.mocked(
+        mockReviewResultRepository.countByReviewTargetId,
+      ).mockResolvedValue(1);
+      vi.mocked(
+        mockReviewResultRepository.findByReviewTargetId,
+      ).mockResolvedValue(mockResults);
+
+      const result = await service.execute({
+        reviewTargetId: validReviewTargetId,
+        userId: validUserId,
+      });
+
+      expect(result.csvContent).toBe(
+        '\uFEFFチェック項目,AI評定,AIコメント,根拠,最終評定,最終コメント,対応状況,確認者,確認日時\n根拠あり項目,A,問題なし,"設計書.pdf - 第2章 概要, 2.1 目的 (p.3, p.4)\nmain.ts (L10-20)",A,問題なし,,,',
+      );
+    });
+
+    it("レビュアー判定がある場合は最終評定・対応状況・確認者が出力される", async () => {
+      const reviewedAt = new Date("2026-01-15T09:30:00.000Z");
+      const mockResults = [
+        ReviewResult.reconstruct({
+          id: crypto.randomUUID(),
+          reviewTargetId: validReviewTargetId,
+          checkListItemContent: "判定済み項目",
+          evaluation: "A",
+          comment: "問題なし",
+          errorMessage: null,
+          evidence: null,
+          adjudication: {
+            evaluation: "C",
+            comment: "記載漏れあり",
+            disposition: "disputed",
+            reviewedBy: validUserId,
+            reviewedAt,
+          },
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }),
+        ReviewResult.reconstruct({
+          id: crypto.randomUUID(),
+          reviewTargetId: validReviewTargetId,
+          checkListItemContent: "承認済み項目",
+          evaluation: "B",
+          comment: "軽微な指摘",
+          errorMessage: null,
+          evidence: null,
+          adjudication: {
+            evaluation: null,
+            comment: null,
+            disposition: "accepted",
+            reviewedBy: null,
+            reviewedAt,
+          },
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }),
+      ];
+      vi.mocked(
+        mockReviewResultRepository.countByReviewTargetId,
+      ).mockResolvedValue(2);
+      vi.mocked(
+        mockReviewResultRepository.findByReviewTargetId,
+      ).mockResolvedValue(mockResults);
+
+      const result = await service.execute({
+        reviewTargetId: validReviewTargetId,
+        userId: validUserId,
+      });
+
+      const lines = result.csvContent.split("\n");
+      expect(lines[1]).toBe(
+        "判定済み項目,A,問題なし,,C,記載漏れあり,異議あり,確認 太郎,2026-01-15T09:30:00.000Z",
+      );
+      // 上書きなしの場合はAIの評定・コメントが最終値になる
+      expect(lines[2]).toBe(
+        "承認済み項目,B,軽微な指摘,,B,軽微な指摘,承認,,2026-01-15T09:30:00.000Z",
       );
+      expect(mockUserRepository.findByIds).toHaveBeenCalledTimes(1);
     });
 
     it("上限件数（10000件）ちょうどでもエクスポートできる", async () => {
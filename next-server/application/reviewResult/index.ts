@@ -3,3 +3,7 @@ export {
   type ExportReviewResultsToCsvCommand,
   type ExportReviewResultsToCsvResult,
 } from "./ExportReviewResultsToCsvService";
+export {
+  AdjudicateReviewResultService,
+  type AdjudicateReviewResultCommand,
+} from "./AdjudicateReviewResultService";
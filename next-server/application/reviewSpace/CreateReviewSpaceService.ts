@@ -1,6 +1,12 @@
-import { IProjectRepository } from "@/application/shared/port/repository";
+import {
+  IChecklistTemplateRepository,
+  IProjectRepository,
+} from "@/application/shared/port/repository";
+import { ICheckListItemRepository } from "@/application/shared/port/repository/ICheckListItemRepository";
 import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
-import { ProjectId } from "@/domain/project";
+import { CheckListItem } from "@/domain/checkListItem";
+import { ChecklistTemplateId } from "@/domain/checklistTemplate";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
 import {
   ReviewSpace,
   ReviewSpaceDto,
@@ -22,16 +28,21 @@ export interface CreateReviewSpaceCommand {
   userId: string;
   /** デフォルトのレビュー設定 */
   defaultReviewSettings?: ReviewSettingsProps | null;
+  /** チェックリストのコピー元テンプレートID（指定時は最新バージョンにリンクする） */
+  checklistTemplateId?: string | null;
 }
 
 /**
  * レビュースペース作成サービス
  * 新規レビュースペースを作成する
+ * テンプレートを指定した場合は最新バージョンのチェック項目をコピーし、テンプレートにリンクする
  */
 export class CreateReviewSpaceService {
   constructor(
     private readonly reviewSpaceRepository: IReviewSpaceRepository,
     private readonly projectRepository: IProjectRepository,
+    private readonly checklistTemplateRepository: IChecklistTemplateRepository,
+    private readonly checkListItemRepository: ICheckListItemRepository,
   ) {}
 
   /**
@@ -41,8 +52,14 @@ export class CreateReviewSpaceService {
    * @throws ドメインバリデーションエラー - 入力が不正な場合
    */
   async execute(command: CreateReviewSpaceCommand): Promise<ReviewSpaceDto> {
-    const { projectId, name, description, userId, defaultReviewSettings } =
-      command;
+    const {
+      projectId,
+      name,
+      description,
+      userId,
+      defaultReviewSettings,
+      checklistTemplateId,
+    } = command;
 
     // プロジェクトの存在確認
     const projectIdVo = ProjectId.reconstruct(projectId);
@@ -56,16 +73,57 @@ export class CreateReviewSpaceService {
       throw domainValidationError("PROJECT_ACCESS_DENIED");
     }
 
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.EDIT_REVIEW_SPACE)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
     // レビュースペースを作成
-    const reviewSpace = ReviewSpace.create({
+    let reviewSpace = ReviewSpace.create({
       projectId,
       name,
       description,
       defaultReviewSettings,
     });
 
-    // 保存
+    if (!checklistTemplateId) {
+      await this.reviewSpaceRepository.save(reviewSpace);
+      return reviewSpace.toDto();
+    }
+
+    // テンプレートの最新バージョンを取得
+    const template = await this.checklistTemplateRepository.findById(
+      ChecklistTemplateId.reconstruct(checklistTemplateId),
+    );
+    if (!template || !template.isAvailableTo(projectId)) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_NOT_FOUND");
+    }
+    const version = await this.checklistTemplateRepository.findVersion(
+      template.id,
+      template.latestVersion,
+    );
+    if (!version) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_VERSION_NOT_FOUND");
+    }
+
+    // テンプレートにリンクして保存し、チェック項目をコピーする
+    reviewSpace = reviewSpace.linkChecklistTemplate(
+      template.id.value,
+      version.version,
+    );
     await this.reviewSpaceRepository.save(reviewSpace);
+    await this.checkListItemRepository.bulkInsert(
+      version.items.map((item, index) =>
+        CheckListItem.create({
+          reviewSpaceId: reviewSpace.id.value,
+          content: item.content.value,
+          category: item.category.value,
+          displayOrder: index,
+          severity: item.severity.value,
+          guidance: item.guidance.value,
+        }),
+      ),
+    );
 
     return reviewSpace.toDto();
   }
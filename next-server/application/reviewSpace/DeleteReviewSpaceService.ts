@@ -7,7 +7,9 @@ import { IReviewTargetRepository } from "@/application/shared/port/repository/IR
 import { type IWorkflowRunRegistry } from "@/application/aiTask/WorkflowRunRegistry";
 import { ReviewTargetCleanupHelper } from "@/application/shared/ReviewTargetCleanupHelper";
 import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { PROJECT_PERMISSION } from "@/domain/project";
 import { domainValidationError } from "@/lib/server/error";
+import { PluginFileHelper } from "@/lib/server/pluginFileHelper";
 
 /**
  * レビュースペース削除コマンド（入力DTO）
@@ -17,6 +19,8 @@ export interface DeleteReviewSpaceCommand {
   reviewSpaceId: string;
   /** 実行ユーザーID（権限確認用） */
   userId: string;
+  /** 管理者フラグ（管理者の場合はメンバーチェックをスキップ） */
+  isAdmin?: boolean;
 }
 
 /**
@@ -49,7 +53,7 @@ export class DeleteReviewSpaceService {
    * @throws ドメインバリデーションエラー - レビュースペースが存在しない、またはアクセス権がない場合
    */
   async execute(command: DeleteReviewSpaceCommand): Promise<void> {
-    const { reviewSpaceId, userId } = command;
+    const { reviewSpaceId, userId, isAdmin } = command;
 
     // レビュースペースの存在確認
     const reviewSpaceIdVo = ReviewSpaceId.reconstruct(reviewSpaceId);
@@ -67,18 +71,29 @@ export class DeleteReviewSpaceService {
       throw domainValidationError("PROJECT_NOT_FOUND");
     }
 
-    // プロジェクトへのアクセス権確認
-    if (!project.hasMember(userId)) {
+    // プロジェクトへのアクセス権確認（管理者またはメンバーのみ削除可能）
+    if (!isAdmin && !project.hasMember(userId)) {
       throw domainValidationError("PROJECT_ACCESS_DENIED");
     }
 
+    // 権限確認
+    if (
+      !isAdmin &&
+      !project.hasPermission(userId, PROJECT_PERMISSION.EDIT_REVIEW_SPACE)
+    ) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
     // カスケードクリーンアップ処理（クリーンアップヘルパーが初期化されている場合のみ）
     if (this.cleanupHelper) {
       await this.cleanupHelper.cleanupReviewTargets(reviewSpaceId);
       await this.cleanupHelper.cleanupChecklistGenerationTask(reviewSpaceId);
     }
 
-    // 削除
+    // 削除（プラグインのレコードはカスケード削除される）
     await this.reviewSpaceRepository.delete(reviewSpaceIdVo);
+
+    // プラグインスクリプトの削除
+    await PluginFileHelper.deleteReviewSpaceScripts(reviewSpaceId);
   }
 }
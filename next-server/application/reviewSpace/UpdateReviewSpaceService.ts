@@ -5,6 +5,7 @@ import {
   ReviewSpaceId,
   ReviewSettingsProps,
 } from "@/domain/reviewSpace";
+import { PROJECT_PERMISSION } from "@/domain/project";
 import { domainValidationError } from "@/lib/server/error";
 
 /**
@@ -64,6 +65,11 @@ export class UpdateReviewSpaceService {
       throw domainValidationError("PROJECT_ACCESS_DENIED");
     }
 
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.EDIT_REVIEW_SPACE)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
     // 更新処理
     let updatedReviewSpace = reviewSpace;
 
@@ -75,10 +81,13 @@ export class UpdateReviewSpaceService {
       updatedReviewSpace = updatedReviewSpace.updateDescription(description);
     }
 
-    // レビュー設定の更新
-    updatedReviewSpace = updatedReviewSpace.updateDefaultReviewSettings(
-      defaultReviewSettings,
-    );
+    // レビュー設定の更新（分割設定の指定がない場合は現在の設定を引き継ぐ）
+    updatedReviewSpace = updatedReviewSpace.updateDefaultReviewSettings({
+      ...defaultReviewSettings,
+      chunking:
+        defaultReviewSettings.chunking ??
+        reviewSpace.defaultReviewSettings.chunking.toDto(),
+    });
 
     // 保存
     await this.reviewSpaceRepository.save(updatedReviewSpace);
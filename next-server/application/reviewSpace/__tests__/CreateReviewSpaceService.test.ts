@@ -1,7 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { CreateReviewSpaceService } from "../CreateReviewSpaceService";
 import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
-import { IProjectRepository } from "@/application/shared/port/repository";
+import {
+  IChecklistTemplateRepository,
+  IProjectRepository,
+} from "@/application/shared/port/repository";
+import { ICheckListItemRepository } from "@/application/shared/port/repository/ICheckListItemRepository";
+import { ChecklistTemplate } from "@/domain/checklistTemplate";
 import { Project } from "@/domain/project";
 import {
   DEFAULT_EVALUATION_CRITERIA,
@@ -18,6 +23,8 @@ vi.mock("@/lib/server/encryption", () => ({
 describe("CreateReviewSpaceService", () => {
   let mockReviewSpaceRepository: IReviewSpaceRepository;
   let mockProjectRepository: IProjectRepository;
+  let mockChecklistTemplateRepository: IChecklistTemplateRepository;
+  let mockCheckListItemRepository: ICheckListItemRepository;
   let service: CreateReviewSpaceService;
 
   const validProjectId = "123e4567-e89b-12d3-a456-426614174000";
@@ -28,7 +35,7 @@ describe("CreateReviewSpaceService", () => {
     name: "テストプロジェクト",
     description: "テスト説明",
     encryptedApiKey: null,
-    members: [{ userId: validUserId, createdAt: new Date() }],
+    members: [{ userId: validUserId, role: "owner", createdAt: new Date() }],
     createdAt: new Date(),
     updatedAt: new Date(),
   });
@@ -45,12 +52,37 @@ describe("CreateReviewSpaceService", () => {
       findById: vi.fn().mockResolvedValue(mockProject),
       findByMemberId: vi.fn(),
       countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+    mockChecklistTemplateRepository = {
+      findById: vi.fn(),
+      findAvailableToProject: vi.fn(),
+      findGlobal: vi.fn(),
+      findVersion: vi.fn(),
+      findVersions: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+    mockCheckListItemRepository = {
+      findById: vi.fn(),
+      findByIds: vi.fn(),
+      findByReviewSpaceId: vi.fn(),
+      countByReviewSpaceId: vi.fn(),
       save: vi.fn(),
+      bulkSave: vi.fn(),
+      bulkInsert: vi.fn(),
       delete: vi.fn(),
+      deleteMany: vi.fn(),
+      deleteByReviewSpaceId: vi.fn(),
     };
     service = new CreateReviewSpaceService(
       mockReviewSpaceRepository,
       mockProjectRepository,
+      mockChecklistTemplateRepository,
+      mockCheckListItemRepository,
     );
   });
 
@@ -144,6 +176,49 @@ describe("CreateReviewSpaceService", () => {
         }),
       );
     });
+    it("テンプレートを指定すると最新バージョンのチェック項目をコピーしてリンクする", async () => {
+      const { template, version } = ChecklistTemplate.create({
+        projectId: null,
+        name: "共通テンプレート",
+        items: [
+          { content: "項目1", category: "セキュリティ", severity: "high" },
+          { content: "項目2" },
+        ],
+        publishedBy: validUserId,
+      });
+      vi.mocked(mockChecklistTemplateRepository.findById).mockResolvedValue(
+        template,
+      );
+      vi.mocked(mockChecklistTemplateRepository.findVersion).mockResolvedValue(
+        version,
+      );
+
+      const result = await service.execute({
+        projectId: validProjectId,
+        name: "テンプレートから作成",
+        userId: validUserId,
+        checklistTemplateId: template.id.value,
+      });
+
+      expect(result.checklistTemplateId).toBe(template.id.value);
+      expect(result.checklistTemplateVersion).toBe(1);
+      const insertedItems = vi.mocked(mockCheckListItemRepository.bulkInsert)
+        .mock.calls[0][0];
+      expect(insertedItems.map((item) => item.toDto())).toEqual([
+        expect.objectContaining({
+          content: "項目1",
+          category: "セキュリティ",
+          severity: "high",
+          displayOrder: 0,
+        }),
+        expect.objectContaining({
+          content: "項目2",
+          category: null,
+          severity: "medium",
+          displayOrder: 1,
+        }),
+      ]);
+    });
   });
 
   describe("異常系", () => {
@@ -159,6 +234,28 @@ describe("CreateReviewSpaceService", () => {
       ).rejects.toMatchObject({ messageCode: "PROJECT_NOT_FOUND" });
     });
 
+    it("他のプロジェクトのテンプレートは指定できない", async () => {
+      const { template } = ChecklistTemplate.create({
+        projectId: "423e4567-e89b-12d3-a456-426614174003",
+        name: "他プロジェクトのテンプレート",
+        items: [{ content: "項目1" }],
+        publishedBy: validUserId,
+      });
+      vi.mocked(mockChecklistTemplateRepository.findById).mockResolvedValue(
+        template,
+      );
+
+      await expect(
+        service.execute({
+          projectId: validProjectId,
+          name: "テストスペース",
+          userId: validUserId,
+          checklistTemplateId: template.id.value,
+        }),
+      ).rejects.toMatchObject({ messageCode: "CHECKLIST_TEMPLATE_NOT_FOUND" });
+      expect(mockReviewSpaceRepository.save).not.toHaveBeenCalled();
+    });
+
     it("プロジェクトにアクセス権がない場合はエラー", async () => {
       const otherUserId = "323e4567-e89b-12d3-a456-426614174002";
 
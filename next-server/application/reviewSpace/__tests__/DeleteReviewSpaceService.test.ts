@@ -13,6 +13,7 @@ import { ReviewTarget } from "@/domain/reviewTarget";
 import { AiTask } from "@/domain/aiTask";
 import { TaskFileHelper } from "@/lib/server/taskFileHelper";
 import { ReviewCacheHelper } from "@/lib/server/reviewCacheHelper";
+import { PluginFileHelper } from "@/lib/server/pluginFileHelper";
 
 // 暗号化関数をモック
 vi.mock("@/lib/server/encryption", () => ({
@@ -34,6 +35,13 @@ vi.mock("@/lib/server/reviewCacheHelper", () => ({
   },
 }));
 
+// PluginFileHelperのモック
+vi.mock("@/lib/server/pluginFileHelper", () => ({
+  PluginFileHelper: {
+    deleteReviewSpaceScripts: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
 // ロガーのモック
 vi.mock("@/lib/server/logger", () => ({
   getLogger: vi.fn().mockReturnValue({
@@ -58,7 +66,7 @@ describe("DeleteReviewSpaceService", () => {
     name: "テストプロジェクト",
     description: "テスト説明",
     encryptedApiKey: null,
-    members: [{ userId: validUserId, createdAt: new Date() }],
+    members: [{ userId: validUserId, role: "owner", createdAt: new Date() }],
     createdAt: new Date(),
     updatedAt: new Date(),
   });
@@ -84,6 +92,8 @@ describe("DeleteReviewSpaceService", () => {
       findById: vi.fn().mockResolvedValue(mockProject),
       findByMemberId: vi.fn(),
       countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
       save: vi.fn(),
       delete: vi.fn(),
     };
@@ -107,6 +117,29 @@ describe("DeleteReviewSpaceService", () => {
         }),
       );
     });
+
+    it("レビュースペースのプラグインスクリプトが削除される", async () => {
+      await service.execute({
+        reviewSpaceId: validReviewSpaceId,
+        userId: validUserId,
+      });
+
+      expect(PluginFileHelper.deleteReviewSpaceScripts).toHaveBeenCalledWith(
+        validReviewSpaceId,
+      );
+    });
+
+    it("管理者はメンバーでなくても削除できる", async () => {
+      const otherUserId = "423e4567-e89b-12d3-a456-426614174003";
+
+      await service.execute({
+        reviewSpaceId: validReviewSpaceId,
+        userId: otherUserId,
+        isAdmin: true,
+      });
+
+      expect(mockReviewSpaceRepository.delete).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe("異常系", () => {
@@ -143,6 +176,30 @@ describe("DeleteReviewSpaceService", () => {
       ).rejects.toMatchObject({ messageCode: "PROJECT_ACCESS_DENIED" });
     });
 
+    it("レビュースペースの編集権限がないロールの場合はエラー", async () => {
+      vi.mocked(mockProjectRepository.findById).mockResolvedValue(
+        Project.reconstruct({
+          id: validProjectId,
+          name: "テストプロジェクト",
+          description: null,
+          encryptedApiKey: null,
+          members: [
+            { userId: validUserId, role: "viewer", createdAt: new Date() },
+          ],
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }),
+      );
+
+      await expect(
+        service.execute({
+          reviewSpaceId: validReviewSpaceId,
+          userId: validUserId,
+        }),
+      ).rejects.toMatchObject({ messageCode: "PROJECT_PERMISSION_DENIED" });
+      expect(mockReviewSpaceRepository.delete).not.toHaveBeenCalled();
+    });
+
     it("リポジトリでエラーが発生した場合はスロー", async () => {
       vi.mocked(mockReviewSpaceRepository.delete).mockRejectedValue(
         new Error("DB Error"),
@@ -186,6 +243,10 @@ describe("DeleteReviewSpaceService", () => {
         updatedAt: now,
         startedAt: null,
         completedAt: null,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        deliveryCount: 0,
+        aiApiRetryCount: 0,
         fileMetadata: [],
       });
 
@@ -198,8 +259,11 @@ describe("DeleteReviewSpaceService", () => {
       mockReviewTargetRepository = {
         findById: vi.fn(),
         findByReviewSpaceId: vi.fn().mockResolvedValue([mockReviewTarget]),
+        findByRevisionGroupId: vi.fn(),
         countByReviewSpaceId: vi.fn(),
+        summarizeByReviewSpaceIds: vi.fn(),
         save: vi.fn(),
+        saveRevision: vi.fn(),
         delete: vi.fn(),
       };
 
@@ -210,6 +274,10 @@ describe("DeleteReviewSpaceService", () => {
         findDistinctApiKeyHashesInQueue: vi.fn(),
         countQueuedByApiKeyHash: vi.fn(),
         dequeueNextTask: vi.fn(),
+        renewLease: vi.fn(),
+        incrementAiApiRetryCount: vi.fn(),
+        requeueExpiredLeases: vi.fn(),
+        findLeaseExpiredTasks: vi.fn(),
         save: vi.fn(),
         delete: vi.fn(),
         deleteByStatus: vi.fn(),
@@ -312,6 +380,10 @@ describe("DeleteReviewSpaceService", () => {
         updatedAt: now,
         startedAt: now,
         completedAt: null,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        deliveryCount: 0,
+        aiApiRetryCount: 0,
         fileMetadata: [],
       });
 
@@ -0,0 +1,74 @@
+import {
+  IProjectRepository,
+  IReviewSpacePluginRepository,
+} from "@/application/shared/port/repository";
+import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import { ReviewSpacePluginId } from "@/domain/reviewSpacePlugin";
+import { PROJECT_PERMISSION } from "@/domain/project";
+import { domainValidationError } from "@/lib/server/error";
+import { PluginFileHelper } from "@/lib/server/pluginFileHelper";
+
+/**
+ * プラグイン削除コマンド（入力DTO）
+ */
+export interface DeleteReviewSpacePluginCommand {
+  /** プラグインID */
+  pluginId: string;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+}
+
+/**
+ * プラグイン削除サービス
+ * プラグインの登録とスクリプトファイルを削除する
+ */
+export class DeleteReviewSpacePluginService {
+  constructor(
+    private readonly reviewSpacePluginRepository: IReviewSpacePluginRepository,
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * プラグイン削除を実行
+   * @param command 削除コマンド
+   * @throws ドメインバリデーションエラー - プラグインが存在しない、またはアクセス権がない場合
+   */
+  async execute(command: DeleteReviewSpacePluginCommand): Promise<void> {
+    const { pluginId, userId } = command;
+
+    // プラグインの存在確認
+    const pluginIdVo = ReviewSpacePluginId.reconstruct(pluginId);
+    const plugin = await this.reviewSpacePluginRepository.findById(pluginIdVo);
+    if (!plugin) {
+      throw domainValidationError("REVIEW_SPACE_PLUGIN_NOT_FOUND");
+    }
+
+    // レビュースペースの存在確認
+    const reviewSpace = await this.reviewSpaceRepository.findById(
+      plugin.reviewSpaceId,
+    );
+    if (!reviewSpace) {
+      throw domainValidationError("REVIEW_SPACE_NOT_FOUND");
+    }
+
+    // プロジェクトへのアクセス権確認
+    const project = await this.projectRepository.findById(
+      reviewSpace.projectId,
+    );
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("PROJECT_ACCESS_DENIED");
+    }
+
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.EDIT_REVIEW_SPACE)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
+    await this.reviewSpacePluginRepository.delete(pluginIdVo);
+    await PluginFileHelper.deleteScript(plugin.scriptPath);
+  }
+}
@@ -0,0 +1,67 @@
+import {
+  IProjectRepository,
+  IReviewSpacePluginRepository,
+} from "@/application/shared/port/repository";
+import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { ReviewSpacePluginDto } from "@/domain/reviewSpacePlugin";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * プラグイン一覧取得クエリ（入力DTO）
+ */
+export interface ListReviewSpacePluginsQuery {
+  /** レビュースペースID */
+  reviewSpaceId: string;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+}
+
+/**
+ * プラグイン一覧取得サービス
+ * レビュースペースに登録されたプラグインを登録順に取得する
+ */
+export class ListReviewSpacePluginsService {
+  constructor(
+    private readonly reviewSpacePluginRepository: IReviewSpacePluginRepository,
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * プラグイン一覧取得を実行
+   * @param query 取得クエリ
+   * @returns プラグインDTOの配列
+   * @throws ドメインバリデーションエラー - レビュースペースが存在しない、またはアクセス権がない場合
+   */
+  async execute(
+    query: ListReviewSpacePluginsQuery,
+  ): Promise<ReviewSpacePluginDto[]> {
+    const { reviewSpaceId, userId } = query;
+
+    // レビュースペースの存在確認
+    const reviewSpaceIdVo = ReviewSpaceId.reconstruct(reviewSpaceId);
+    const reviewSpace =
+      await this.reviewSpaceRepository.findById(reviewSpaceIdVo);
+    if (!reviewSpace) {
+      throw domainValidationError("REVIEW_SPACE_NOT_FOUND");
+    }
+
+    // プロジェクトへのアクセス権確認
+    const project = await this.projectRepository.findById(
+      reviewSpace.projectId,
+    );
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("PROJECT_ACCESS_DENIED");
+    }
+
+    const plugins =
+      await this.reviewSpacePluginRepository.findByReviewSpaceId(
+        reviewSpaceIdVo,
+      );
+    return plugins.map((plugin) => plugin.toDto());
+  }
+}
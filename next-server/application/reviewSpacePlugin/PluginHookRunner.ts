@@ -0,0 +1,325 @@
+import type {
+  IPluginHookRunner,
+  IPluginSandbox,
+  PluginProcessedFile,
+  BeforeExtractionHookInput,
+  BeforeExtractionHookOutput,
+  AfterExtractionHookOutput,
+  BeforePromptBuildingHookInput,
+  BeforePromptBuildingHookOutput,
+  AfterResultsHookOutput,
+  PluginReviewResult,
+} from "@/application/shared/port/plugin";
+import {
+  PLUGIN_HOOK_POINT,
+  type PluginHookPointValue,
+  type ReviewSpacePlugin,
+} from "@/domain/reviewSpacePlugin";
+import { internalError } from "@/lib/server/error";
+import { getLogger } from "@/lib/server/logger";
+
+const logger = getLogger();
+
+/**
+ * 実行対象のプラグイン（エンティティとスクリプト本文）
+ */
+export interface LoadedPlugin {
+  plugin: ReviewSpacePlugin;
+  script: string;
+}
+
+/**
+ * プラグインフック実行クラス
+ * 有効なプラグインを登録順に連鎖実行し、前のプラグインの出力を次のプラグインの入力とする
+ * プラグインの実行失敗・タイムアウト・不正な出力はプラグイン名を含むエラーとして送出する
+ */
+export class PluginHookRunner implements IPluginHookRunner {
+  constructor(
+    private readonly plugins: LoadedPlugin[],
+    private readonly sandbox: IPluginSandbox,
+  ) {}
+
+  /**
+   * 指定フックを持つ有効なプラグインが存在するか
+   */
+  hasHook(hookPoint: PluginHookPointValue): boolean {
+    return this.pluginsFor(hookPoint).length > 0;
+  }
+
+  /**
+   * テキスト抽出前のファイルを加工する
+   * 拡張子を宣言しているプラグインは、該当するファイルにのみ適用される
+   * いずれかのプラグインがtextContentを返した時点で後続のプラグインは呼び出さない
+   */
+  async runBeforeExtraction(file: {
+    fileName: string;
+    mimeType: string;
+    buffer: Buffer;
+  }): Promise<PluginProcessedFile> {
+    let current: PluginProcessedFile = {
+      fileName: file.fileName,
+      buffer: file.buffer,
+    };
+
+    for (const loaded of this.pluginsFor(PLUGIN_HOOK_POINT.BEFORE_EXTRACTION)) {
+      if (!loaded.plugin.handlesFile(current.fileName)) {
+        continue;
+      }
+
+      const input: BeforeExtractionHookInput = {
+        fileName: current.fileName,
+        mimeType: file.mimeType,
+        contentBase64: current.buffer.toString("base64"),
+        contentText: current.buffer.toString("utf-8"),
+      };
+      const output = (await this.invoke(
+        loaded,
+        PLUGIN_HOOK_POINT.BEFORE_EXTRACTION,
+        input,
+      )) as BeforeExtractionHookOutput | null;
+      if (!output) {
+        continue;
+      }
+
+      this.assertOutput(
+        loaded,
+        PLUGIN_HOOK_POINT.BEFORE_EXTRACTION,
+        isOptionalString(output.fileName) &&
+          isOptionalString(output.contentBase64) &&
+          isOptionalString(output.textContent),
+      );
+
+      current = {
+        fileName: output.fileName || current.fileName,
+        buffer:
+          output.contentBase64 !== undefined
+            ? Buffer.from(output.contentBase64, "base64")
+            : current.buffer,
+      };
+
+      if (output.textContent !== undefined) {
+        return { ...current, textContent: output.textContent };
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * 抽出済みテキストを加工する
+   */
+  async runAfterExtraction(
+    fileName: string,
+    textContent: string,
+  ): Promise<string> {
+    let current = textContent;
+
+    for (const loaded of this.pluginsFor(PLUGIN_HOOK_POINT.AFTER_EXTRACTION)) {
+      const output = (await this.invoke(
+        loaded,
+        PLUGIN_HOOK_POINT.AFTER_EXTRACTION,
+        { fileName, textContent: current },
+      )) as AfterExtractionHookOutput | null;
+      if (!output) {
+        continue;
+      }
+
+      this.assertOutput(
+        loaded,
+        PLUGIN_HOOK_POINT.AFTER_EXTRACTION,
+        isOptionalString(output.textContent),
+      );
+      current = output.textContent ?? current;
+    }
+
+    return current;
+  }
+
+  /**
+   * プロンプト構築前の入力を加工する
+   * チェック項目は内容の変更・除外のみ可能（新規追加は不可）
+   * ドキュメントは件数を変えずに名前・テキストのみ変更可能
+   */
+  async runBeforePromptBuilding(
+    input: BeforePromptBuildingHookInput,
+  ): Promise<BeforePromptBuildingHookInput> {
+    let current = input;
+
+    for (const loaded of this.pluginsFor(
+      PLUGIN_HOOK_POINT.BEFORE_PROMPT_BUILDING,
+    )) {
+      const output = (await this.invoke(
+        loaded,
+        PLUGIN_HOOK_POINT.BEFORE_PROMPT_BUILDING,
+        current,
+      )) as BeforePromptBuildingHookOutput | null;
+      if (!output) {
+        continue;
+      }
+
+      const knownIds = new Set(current.checkListItems.map((item) => item.id));
+      const validCheckListItems =
+        output.checkListItems === undefined ||
+        (Array.isArray(output.checkListItems) &&
+          output.checkListItems.every(
+            (item) =>
+              typeof item?.content === "string" && knownIds.has(item.id),
+          ));
+      const validFiles =
+        output.files === undefined ||
+        (Array.isArray(output.files) &&
+          output.files.length === current.files.length &&
+          output.files.every(
+            (f) =>
+              typeof f?.name === "string" &&
+              (f.textContent === null || typeof f.textContent === "string"),
+          ));
+      const validInstructions =
+        output.additionalInstructions === undefined ||
+        output.additionalInstructions === null ||
+        typeof output.additionalInstructions === "string";
+      this.assertOutput(
+        loaded,
+        PLUGIN_HOOK_POINT.BEFORE_PROMPT_BUILDING,
+        validCheckListItems && validFiles && validInstructions,
+      );
+
+      current = {
+        checkListItems: (output.checkListItems ?? current.checkListItems).map(
+          (item) => ({ id: item.id, content: item.content }),
+        ),
+        additionalInstructions:
+          output.additionalInstructions !== undefined
+            ? output.additionalInstructions
+            : current.additionalInstructions,
+        files: (output.files ?? current.files).map((f) => ({
+          name: f.name,
+          textContent: f.textContent,
+        })),
+      };
+    }
+
+    return current;
+  }
+
+  /**
+   * 保存前のレビュー結果を加工する
+   * 評価・コメント・エラーの変更と結果の除外のみ可能（チェック項目の追加は不可）
+   */
+  async runAfterResults(
+    results: PluginReviewResult[],
+  ): Promise<PluginReviewResult[]> {
+    let current = results;
+
+    for (const loaded of this.pluginsFor(PLUGIN_HOOK_POINT.AFTER_RESULTS)) {
+      const output = (await this.invoke(
+        loaded,
+        PLUGIN_HOOK_POINT.AFTER_RESULTS,
+        { results: current },
+      )) as AfterResultsHookOutput | null;
+      if (!output || output.results === undefined) {
+        continue;
+      }
+
+      const knownContents = new Set(current.map((r) => r.checkListItemContent));
+      this.assertOutput(
+        loaded,
+        PLUGIN_HOOK_POINT.AFTER_RESULTS,
+        Array.isArray(output.results) &&
+          output.results.every(
+            (r) =>
+              typeof r?.checkListItemContent === "string" &&
+              knownContents.has(r.checkListItemContent) &&
+              isNullableString(r.evaluation) &&
+              isNullableString(r.comment) &&
+              isNullableString(r.errorMessage),
+          ),
+      );
+
+      current = output.results.map((r) => ({
+        checkListItemContent: r.checkListItemContent,
+        evaluation: r.evaluation ?? null,
+        comment: r.comment ?? null,
+        errorMessage: r.errorMessage ?? null,
+      }));
+    }
+
+    return current;
+  }
+
+  /**
+   * 指定フックを持つプラグインを取得する
+   */
+  private pluginsFor(hookPoint: PluginHookPointValue): LoadedPlugin[] {
+    return this.plugins.filter((loaded) => loaded.plugin.hasHook(hookPoint));
+  }
+
+  /**
+   * サンドボックスでフックを実行し、失敗時はエラーを送出する
+   */
+  private async invoke(
+    loaded: LoadedPlugin,
+    hookPoint: PluginHookPointValue,
+    input: unknown,
+  ): Promise<unknown> {
+    const { plugin, script } = loaded;
+    const result = await this.sandbox.invoke(script, hookPoint, input, {
+      timeoutMs: plugin.timeoutMs,
+    });
+
+    if (result.status === "timeout") {
+      logger.warn(
+        { pluginId: plugin.id.value, hookPoint, timeoutMs: plugin.timeoutMs },
+        "プラグインの実行がタイムアウトしました",
+      );
+      throw internalError({
+        expose: true,
+        messageCode: "PLUGIN_EXECUTION_TIMEOUT",
+        messageParams: { pluginName: plugin.name, hookPoint },
+      });
+    }
+    if (result.status === "error") {
+      logger.warn(
+        { pluginId: plugin.id.value, hookPoint, detail: result.errorMessage },
+        "プラグインの実行に失敗しました",
+      );
+      throw internalError({
+        expose: true,
+        messageCode: "PLUGIN_EXECUTION_FAILED",
+        messageParams: {
+          pluginName: plugin.name,
+          hookPoint,
+          detail: result.errorMessage,
+        },
+      });
+    }
+
+    return result.output;
+  }
+
+  /**
+   * フックの出力形式を検証する
+   */
+  private assertOutput(
+    loaded: LoadedPlugin,
+    hookPoint: PluginHookPointValue,
+    valid: boolean,
+  ): void {
+    if (valid) return;
+    throw internalError({
+      expose: true,
+      messageCode: "PLUGIN_EXECUTION_FAILED",
+      messageParams: {
+        pluginName: loaded.plugin.name,
+        hookPoint,
+        detail: "戻り値の形式が不正です",
+      },
+    });
+  }
+}
+
+const isOptionalString = (value: unknown): boolean =>
+  value === undefined || typeof value === "string";
+
+const isNullableString = (value: unknown): boolean =>
+  value === undefined || value === null || typeof value === "string";
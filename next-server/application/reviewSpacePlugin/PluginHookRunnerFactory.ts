@@ -0,0 +1,55 @@
+import type { IReviewSpacePluginRepository } from "@/application/shared/port/repository";
+import type {
+  IPluginHookRunner,
+  IPluginSandbox,
+} from "@/application/shared/port/plugin";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { PluginFileHelper } from "@/lib/server/pluginFileHelper";
+import { internalError } from "@/lib/server/error";
+import { PluginHookRunner, type LoadedPlugin } from "./PluginHookRunner";
+
+/**
+ * プラグインフック実行クラスのファクトリ
+ * レビュースペースの有効なプラグインとスクリプトを読み込んでランナーを生成する
+ */
+export class PluginHookRunnerFactory {
+  constructor(
+    private readonly reviewSpacePluginRepository: IReviewSpacePluginRepository,
+    private readonly sandbox: IPluginSandbox,
+  ) {}
+
+  /**
+   * レビュースペース用のランナーを生成する
+   * @param reviewSpaceId レビュースペースID
+   * @returns ランナー（有効なプラグインが存在しない場合はnull）
+   * @throws スクリプトの読み込みに失敗した場合
+   */
+  async createForReviewSpace(
+    reviewSpaceId: string,
+  ): Promise<IPluginHookRunner | null> {
+    const plugins = await this.reviewSpacePluginRepository.findByReviewSpaceId(
+      ReviewSpaceId.reconstruct(reviewSpaceId),
+      { enabledOnly: true },
+    );
+    if (plugins.length === 0) {
+      return null;
+    }
+
+    const loaded: LoadedPlugin[] = [];
+    for (const plugin of plugins) {
+      try {
+        const script = await PluginFileHelper.loadScript(plugin.scriptPath);
+        loaded.push({ plugin, script });
+      } catch (error) {
+        throw internalError({
+          expose: true,
+          messageCode: "REVIEW_SPACE_PLUGIN_LOAD_FAILED",
+          messageParams: { detail: plugin.name },
+          cause: error,
+        });
+      }
+    }
+
+    return new PluginHookRunner(loaded, this.sandbox);
+  }
+}
@@ -0,0 +1,96 @@
+import {
+  IProjectRepository,
+  IReviewSpacePluginRepository,
+} from "@/application/shared/port/repository";
+import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import {
+  ReviewSpacePluginDto,
+  ReviewSpacePluginId,
+} from "@/domain/reviewSpacePlugin";
+import { PROJECT_PERMISSION } from "@/domain/project";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * プラグイン更新コマンド（入力DTO）
+ */
+export interface UpdateReviewSpacePluginCommand {
+  /** プラグインID */
+  pluginId: string;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+  /** 有効フラグ（更新する場合のみ指定） */
+  isEnabled?: boolean;
+  /** タイムアウト（ミリ秒、更新する場合のみ指定） */
+  timeoutMs?: number;
+}
+
+/**
+ * プラグイン更新サービス
+ * プラグインの有効/無効やタイムアウトを更新する
+ */
+export class UpdateReviewSpacePluginService {
+  constructor(
+    private readonly reviewSpacePluginRepository: IReviewSpacePluginRepository,
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * プラグイン更新を実行
+   * @param command 更新コマンド
+   * @returns 更新後のプラグインDTO
+   * @throws ドメインバリデーションエラー - プラグインが存在しない、またはアクセス権がない場合
+   */
+  async execute(
+    command: UpdateReviewSpacePluginCommand,
+  ): Promise<ReviewSpacePluginDto> {
+    const { pluginId, userId, isEnabled, timeoutMs } = command;
+
+    // プラグインの存在確認
+    const plugin = await this.reviewSpacePluginRepository.findById(
+      ReviewSpacePluginId.reconstruct(pluginId),
+    );
+    if (!plugin) {
+      throw domainValidationError("REVIEW_SPACE_PLUGIN_NOT_FOUND");
+    }
+
+    // レビュースペースの存在確認
+    const reviewSpace = await this.reviewSpaceRepository.findById(
+      plugin.reviewSpaceId,
+    );
+    if (!reviewSpace) {
+      throw domainValidationError("REVIEW_SPACE_NOT_FOUND");
+    }
+
+    // プロジェクトへのアクセス権確認
+    const project = await this.projectRepository.findById(
+      reviewSpace.projectId,
+    );
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("PROJECT_ACCESS_DENIED");
+    }
+
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.EDIT_REVIEW_SPACE)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
+    // 更新処理
+    let updatedPlugin = plugin;
+
+    if (isEnabled !== undefined) {
+      updatedPlugin = updatedPlugin.updateEnabled(isEnabled);
+    }
+
+    if (timeoutMs !== undefined) {
+      updatedPlugin = updatedPlugin.updateTimeout(timeoutMs);
+    }
+
+    await this.reviewSpacePluginRepository.save(updatedPlugin);
+
+    return updatedPlugin.toDto();
+  }
+}
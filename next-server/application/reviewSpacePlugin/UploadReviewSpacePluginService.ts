@@ -0,0 +1,154 @@
+import {
+  IProjectRepository,
+  IReviewSpacePluginRepository,
+} from "@/application/shared/port/repository";
+import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import type { IPluginSandbox } from "@/application/shared/port/plugin";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import {
+  ReviewSpacePlugin,
+  ReviewSpacePluginDto,
+  DEFAULT_PLUGIN_TIMEOUT_MS,
+} from "@/domain/reviewSpacePlugin";
+import { PROJECT_PERMISSION } from "@/domain/project";
+import { domainValidationError, internalError } from "@/lib/server/error";
+import { PluginFileHelper } from "@/lib/server/pluginFileHelper";
+import { getLogger } from "@/lib/server/logger";
+
+const logger = getLogger();
+
+/**
+ * プラグインスクリプトのサイズ上限（バイト）
+ */
+export const MAX_PLUGIN_SCRIPT_SIZE = 1024 * 1024;
+
+/**
+ * プラグイン登録コマンド（入力DTO）
+ */
+export interface UploadReviewSpacePluginCommand {
+  /** レビュースペースID */
+  reviewSpaceId: string;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+  /** アップロードされたファイル名 */
+  fileName: string;
+  /** スクリプト本文 */
+  script: string;
+  /** タイムアウト（ミリ秒、省略時はデフォルト値） */
+  timeoutMs?: number;
+}
+
+/**
+ * プラグイン登録サービス
+ * アップロードされたJSファイルをサンドボックスで読み込み、
+ * 宣言されたフック・拡張子を取得してレビュースペースに登録する
+ */
+export class UploadReviewSpacePluginService {
+  constructor(
+    private readonly reviewSpacePluginRepository: IReviewSpacePluginRepository,
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+    private readonly projectRepository: IProjectRepository,
+    private readonly sandbox: IPluginSandbox,
+  ) {}
+
+  /**
+   * プラグイン登録を実行
+   * @param command 登録コマンド
+   * @returns 登録したプラグインDTO
+   * @throws ドメインバリデーションエラー - アクセス権がない、またはスクリプトが不正な場合
+   */
+  async execute(
+    command: UploadReviewSpacePluginCommand,
+  ): Promise<ReviewSpacePluginDto> {
+    const { reviewSpaceId, userId, fileName, script, timeoutMs } = command;
+
+    // レビュースペースの存在確認
+    const reviewSpace = await this.reviewSpaceRepository.findById(
+      ReviewSpaceId.reconstruct(reviewSpaceId),
+    );
+    if (!reviewSpace) {
+      throw domainValidationError("REVIEW_SPACE_NOT_FOUND");
+    }
+
+    // プロジェクトへのアクセス権確認
+    const project = await this.projectRepository.findById(
+      reviewSpace.projectId,
+    );
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("PROJECT_ACCESS_DENIED");
+    }
+
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.EDIT_REVIEW_SPACE)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
+    // ファイルの検証
+    if (!fileName.toLowerCase().endsWith(".js")) {
+      throw domainValidationError("REVIEW_SPACE_PLUGIN_FILE_INVALID");
+    }
+    const scriptSize = Buffer.byteLength(script, "utf-8");
+    if (scriptSize > MAX_PLUGIN_SCRIPT_SIZE) {
+      throw internalError({
+        expose: true,
+        messageCode: "REVIEW_SPACE_PLUGIN_FILE_TOO_LARGE",
+        messageParams: { maxSize: "1MB" },
+      });
+    }
+
+    // サンドボックスで読み込み、宣言内容を取得
+    const inspected = await this.sandbox.inspect(script, {
+      timeoutMs: timeoutMs ?? DEFAULT_PLUGIN_TIMEOUT_MS,
+    });
+    if (inspected.status !== "success") {
+      throw internalError({
+        expose: true,
+        messageCode: "REVIEW_SPACE_PLUGIN_LOAD_FAILED",
+        messageParams: {
+          detail:
+            inspected.status === "timeout"
+              ? "タイムアウトしました"
+              : inspected.errorMessage,
+        },
+      });
+    }
+    const manifest = inspected.output;
+
+    const plugin = ReviewSpacePlugin.create({
+      reviewSpaceId,
+      name: manifest.name?.trim() || fileName.replace(/\.js$/i, ""),
+      hookPoints: manifest.hookPoints,
+      extensions: manifest.extensions,
+      timeoutMs,
+      scriptSize,
+    });
+
+    // スクリプトを保存してから登録
+    const scriptPath = await PluginFileHelper.saveScript(
+      reviewSpaceId,
+      plugin.id.value,
+      script,
+    );
+    const savedPlugin = plugin.withScriptPath(scriptPath);
+    try {
+      await this.reviewSpacePluginRepository.save(savedPlugin);
+    } catch (error) {
+      await PluginFileHelper.deleteScript(scriptPath);
+      throw error;
+    }
+
+    logger.info(
+      {
+        reviewSpaceId,
+        pluginId: savedPlugin.id.value,
+        hookPoints: manifest.hookPoints,
+      },
+      "プラグインを登録しました",
+    );
+
+    return savedPlugin.toDto();
+  }
+}
@@ -0,0 +1,285 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PluginHookRunner, type LoadedPlugin } from "../PluginHookRunner";
+import type { IPluginSandbox } from "@/application/shared/port/plugin";
+import { ReviewSpacePlugin } from "@/domain/reviewSpacePlugin";
+
+// ロガーのモック
+vi.mock("@/lib/server/logger", () => ({
+  getLogger: vi.fn().mockReturnValue({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+describe("PluginHookRunner", () => {
+  const validReviewSpaceId = "323e4567-e89b-12d3-a456-426614174002";
+  let mockSandbox: IPluginSandbox;
+
+  const loadPlugin = (
+    name: string,
+    hookPoints: string[],
+    extensions: string[] = [],
+  ): LoadedPlugin => ({
+    plugin: ReviewSpacePlugin.create({
+      reviewSpaceId: validReviewSpaceId,
+      name,
+      hookPoints,
+      extensions,
+      scriptSize: 10,
+    }),
+    script: `// ${name}`,
+  });
+
+  beforeEach(() => {
+    mockSandbox = {
+      inspect: vi.fn(),
+      invoke: vi.fn(),
+    };
+  });
+
+  describe("hasHook", () => {
+    it("フックを持つプラグインが存在するか判定できる", () => {
+      const runner = new PluginHookRunner(
+        [loadPlugin("a", ["afterResults"])],
+        mockSandbox,
+      );
+
+      expect(runner.hasHook("afterResults")).toBe(true);
+      expect(runner.hasHook("beforeExtraction")).toBe(false);
+    });
+  });
+
+  describe("runBeforeExtraction", () => {
+    const file = {
+      fileName: "main.ts",
+      mimeType: "text/plain",
+      buffer: Buffer.from("const a = 1;"),
+    };
+
+    it("textContentを返したプラグインの結果を採用し、後続を呼び出さない", async () => {
+      vi.mocked(mockSandbox.invoke).mockResolvedValueOnce({
+        status: "success",
+        output: { textContent: "1: const a = 1;" },
+      });
+      const runner = new PluginHookRunner(
+        [
+          loadPlugin("first", ["beforeExtraction"], [".ts"]),
+          loadPlugin("second", ["beforeExtraction"]),
+        ],
+        mockSandbox,
+      );
+
+      const result = await runner.runBeforeExtraction(file);
+
+      expect(result.textContent).toBe("1: const a = 1;");
+      expect(mockSandbox.invoke).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(mockSandbox.invoke).mock.calls[0][2]).toMatchObject({
+        fileName: "main.ts",
+        contentText: "const a = 1;",
+        contentBase64: file.buffer.toString("base64"),
+      });
+    });
+
+    it("拡張子が対象外のプラグインは呼び出さない", async () => {
+      const runner = new PluginHookRunner(
+        [loadPlugin("py", ["beforeExtraction"], [".py"])],
+        mockSandbox,
+      );
+
+      const result = await runner.runBeforeExtraction(file);
+
+      expect(result).toEqual({ fileName: "main.ts", buffer: file.buffer });
+      expect(mockSandbox.invoke).not.toHaveBeenCalled();
+    });
+
+    it("ファイル名・内容の差し替えを反映する", async () => {
+      vi.mocked(mockSandbox.invoke).mockResolvedValueOnce({
+        status: "success",
+        output: {
+          fileName: "main.txt",
+          contentBase64: Buffer.from("converted").toString("base64"),
+        },
+      });
+      const runner = new PluginHookRunner(
+        [loadPlugin("rename", ["beforeExtraction"])],
+        mockSandbox,
+      );
+
+      const result = await runner.runBeforeExtraction(file);
+
+      expect(result.fileName).toBe("main.txt");
+      expect(result.buffer.toString()).toBe("converted");
+      expect(result.textContent).toBeUndefined();
+    });
+  });
+
+  describe("runAfterExtraction", () => {
+    it("複数プラグインを登録順に連鎖実行する", async () => {
+      vi.mocked(mockSandbox.invoke)
+        .mockResolvedValueOnce({
+          status: "success",
+          output: { textContent: "step1" },
+        })
+        .mockResolvedValueOnce({ status: "success", output: null });
+      const runner = new PluginHookRunner(
+        [
+          loadPlugin("first", ["afterExtraction"]),
+          loadPlugin("second", ["afterExtraction"]),
+        ],
+        mockSandbox,
+      );
+
+      const result = await runner.runAfterExtraction("doc.pdf", "original");
+
+      expect(result).toBe("step1");
+      expect(vi.mocked(mockSandbox.invoke).mock.calls[1][2]).toEqual({
+        fileName: "doc.pdf",
+        textContent: "step1",
+      });
+    });
+
+    it("タイムアウト時はプラグイン名を含むエラーを送出する", async () => {
+      vi.mocked(mockSandbox.invoke).mockResolvedValue({ status: "timeout" });
+      const runner = new PluginHookRunner(
+        [loadPlugin("slow", ["afterExtraction"])],
+        mockSandbox,
+      );
+
+      await expect(
+        runner.runAfterExtraction("doc.pdf", "text"),
+      ).rejects.toMatchObject({
+        messageCode: "PLUGIN_EXECUTION_TIMEOUT",
+        messageParams: { pluginName: "slow", hookPoint: "afterExtraction" },
+      });
+    });
+
+    it("実行エラー時はプラグイン名を含むエラーを送出する", async () => {
+      vi.mocked(mockSandbox.invoke).mockResolvedValue({
+        status: "error",
+        errorMessage: "boom",
+      });
+      const runner = new PluginHookRunner(
+        [loadPlugin("broken", ["afterExtraction"])],
+        mockSandbox,
+      );
+
+      await expect(
+        runner.runAfterExtraction("doc.pdf", "text"),
+      ).rejects.toMatchObject({
+        messageCode: "PLUGIN_EXECUTION_FAILED",
+        messageParams: { pluginName: "broken", detail: "boom" },
+      });
+    });
+
+    it("戻り値の形式が不正な場合はエラーを送出する", async () => {
+      vi.mocked(mockSandbox.invoke).mockResolvedValue({
+        status: "success",
+        output: { textContent: 123 },
+      });
+      const runner = new PluginHookRunner(
+        [loadPlugin("invalid", ["afterExtraction"])],
+        mockSandbox,
+      );
+
+      await expect(
+        runner.runAfterExtraction("doc.pdf", "text"),
+      ).rejects.toMatchObject({ messageCode: "PLUGIN_EXECUTION_FAILED" });
+    });
+  });
+
+  describe("runBeforePromptBuilding", () => {
+    const input = {
+      checkListItems: [
+        { id: "1", content: "項目1" },
+        { id: "2", content: "項目2" },
+      ],
+      additionalInstructions: null,
+      files: [{ name: "doc.txt", textContent: "本文" }],
+    };
+
+    it("返却したフィールドのみ上書きする", async () => {
+      vi.mocked(mockSandbox.invoke).mockResolvedValue({
+        status: "success",
+        output: { additionalInstructions: "社内規約に従うこと" },
+      });
+      const runner = new PluginHookRunner(
+        [loadPlugin("prompt", ["beforePromptBuilding"])],
+        mockSandbox,
+      );
+
+      const result = await runner.runBeforePromptBuilding(input);
+
+      expect(result).toEqual({
+        ...input,
+        additionalInstructions: "社内規約に従うこと",
+      });
+    });
+
+    it("未知のチェック項目IDを返した場合はエラー", async () => {
+      vi.mocked(mockSandbox.invoke).mockResolvedValue({
+        status: "success",
+        output: { checkListItems: [{ id: "999", content: "追加項目" }] },
+      });
+      const runner = new PluginHookRunner(
+        [loadPlugin("prompt", ["beforePromptBuilding"])],
+        mockSandbox,
+      );
+
+      await expect(runner.runBeforePromptBuilding(input)).rejects.toMatchObject(
+        { messageCode: "PLUGIN_EXECUTION_FAILED" },
+      );
+    });
+  });
+
+  describe("runAfterResults", () => {
+    const results = [
+      {
+        checkListItemContent: "項目1",
+        evaluation: "A",
+        comment: "問題なし",
+        errorMessage: null,
+      },
+    ];
+
+    it("レビュー結果を加工できる", async () => {
+      vi.mocked(mockSandbox.invoke).mockResolvedValue({
+        status: "success",
+        output: {
+          results: [{ checkListItemContent: "項目1", evaluation: "B" }],
+        },
+      });
+      const runner = new PluginHookRunner(
+        [loadPlugin("result", ["afterResults"])],
+        mockSandbox,
+      );
+
+      const result = await runner.runAfterResults(results);
+
+      expect(result).toEqual([
+        {
+          checkListItemContent: "項目1",
+          evaluation: "B",
+          comment: null,
+          errorMessage: null,
+        },
+      ]);
+    });
+
+    it("入力にないチェック項目の結果を返した場合はエラー", async () => {
+      vi.mocked(mockSandbox.invoke).mockResolvedValue({
+        status: "success",
+        output: { results: [{ checkListItemContent: "存在しない項目" }] },
+      });
+      const runner = new PluginHookRunner(
+        [loadPlugin("result", ["afterResults"])],
+        mockSandbox,
+      );
+
+      await expect(runner.runAfterResults(results)).rejects.toMatchObject({
+        messageCode: "PLUGIN_EXECUTION_FAILED",
+      });
+    });
+  });
+});
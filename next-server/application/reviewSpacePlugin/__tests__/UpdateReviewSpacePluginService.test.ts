@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { UpdateReviewSpacePluginService } from "../UpdateReviewSpacePluginService";
+import type {
+  IProjectRepository,
+  IReviewSpacePluginRepository,
+} from "@/application/shared/port/repository";
+import type { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import { Project } from "@/domain/project";
+import { ReviewSpace } from "@/domain/reviewSpace";
+import { ReviewSpacePlugin } from "@/domain/reviewSpacePlugin";
+
+// 暗号化関数をモック
+vi.mock("@/lib/server/encryption", () => ({
+  encrypt: vi.fn((text: string) => `encrypted_${text}`),
+  decrypt: vi.fn((text: string) => text.replace("encrypted_", "")),
+}));
+
+describe("UpdateReviewSpacePluginService", () => {
+  let mockPluginRepository: IReviewSpacePluginRepository;
+  let mockReviewSpaceRepository: IReviewSpaceRepository;
+  let mockProjectRepository: IProjectRepository;
+  let service: UpdateReviewSpacePluginService;
+
+  const validProjectId = "123e4567-e89b-12d3-a456-426614174000";
+  const validUserId = "223e4567-e89b-12d3-a456-426614174001";
+  const validReviewSpaceId = "323e4567-e89b-12d3-a456-426614174002";
+  const validPluginId = "423e4567-e89b-12d3-a456-426614174003";
+
+  const mockProject = Project.reconstruct({
+    id: validProjectId,
+    name: "テストプロジェクト",
+    description: null,
+    encryptedApiKey: null,
+    members: [{ userId: validUserId, role: "owner", createdAt: new Date() }],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const mockReviewSpace = ReviewSpace.reconstruct({
+    id: validReviewSpaceId,
+    projectId: validProjectId,
+    name: "設計書レビュー",
+    description: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const mockPlugin = ReviewSpacePlugin.reconstruct({
+    id: validPluginId,
+    reviewSpaceId: validReviewSpaceId,
+    name: "整形プラグイン",
+    hookPoints: ["afterExtraction"],
+    extensions: [],
+    timeoutMs: 10000,
+    isEnabled: true,
+    scriptPath: "/plugins/space/plugin.js",
+    scriptSize: 100,
+    createdAt: new Date("2024-01-01"),
+    updatedAt: new Date("2024-01-01"),
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPluginRepository = {
+      findById: vi.fn().mockResolvedValue(mockPlugin),
+      findByReviewSpaceId: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+    mockReviewSpaceRepository = {
+      findById: vi.fn().mockResolvedValue(mockReviewSpace),
+      findByProjectId: vi.fn(),
+      countByProjectId: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+      updateChecklistGenerationError: vi.fn(),
+    };
+    mockProjectRepository = {
+      findById: vi.fn().mockResolvedValue(mockProject),
+      findByMemberId: vi.fn(),
+      countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+    service = new UpdateReviewSpacePluginService(
+      mockPluginRepository,
+      mockReviewSpaceRepository,
+      mockProjectRepository,
+    );
+  });
+
+  describe("正常系", () => {
+    it("プラグインを無効化できる", async () => {
+      const result = await service.execute({
+        pluginId: validPluginId,
+        userId: validUserId,
+        isEnabled: false,
+      });
+
+      expect(result.isEnabled).toBe(false);
+      expect(mockPluginRepository.save).toHaveBeenCalledTimes(1);
+    });
+
+    it("タイムアウトを更新できる", async () => {
+      const result = await service.execute({
+        pluginId: validPluginId,
+        userId: validUserId,
+        timeoutMs: 5000,
+      });
+
+      expect(result.timeoutMs).toBe(5000);
+      expect(result.isEnabled).toBe(true);
+    });
+  });
+
+  describe("異常系", () => {
+    it("存在しないプラグインの場合はエラー", async () => {
+      vi.mocked(mockPluginRepository.findById).mockResolvedValue(null);
+
+      await expect(
+        service.execute({
+          pluginId: validPluginId,
+          userId: validUserId,
+          isEnabled: false,
+        }),
+      ).rejects.toMatchObject({ messageCode: "REVIEW_SPACE_PLUGIN_NOT_FOUND" });
+    });
+
+    it("プロジェクトにアクセス権がない場合はエラー", async () => {
+      await expect(
+        service.execute({
+          pluginId: validPluginId,
+          userId: "999e4567-e89b-12d3-a456-426614174999",
+          isEnabled: false,
+        }),
+      ).rejects.toMatchObject({ messageCode: "PROJECT_ACCESS_DENIED" });
+      expect(mockPluginRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("範囲外のタイムアウトはエラー", async () => {
+      await expect(
+        service.execute({
+          pluginId: validPluginId,
+          userId: validUserId,
+          timeoutMs: 0,
+        }),
+      ).rejects.toMatchObject({
+        messageCode: "REVIEW_SPACE_PLUGIN_TIMEOUT_INVALID",
+      });
+    });
+  });
+});
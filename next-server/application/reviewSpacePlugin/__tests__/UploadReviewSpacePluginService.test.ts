@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { UploadReviewSpacePluginService } from "../UploadReviewSpacePluginService";
+import type {
+  IProjectRepository,
+  IReviewSpacePluginRepository,
+} from "@/application/shared/port/repository";
+import type { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import type { IPluginSandbox } from "@/application/shared/port/plugin";
+import { Project } from "@/domain/project";
+import { ReviewSpace } from "@/domain/reviewSpace";
+import { PluginFileHelper } from "@/lib/server/pluginFileHelper";
+
+// 暗号化関数をモック
+vi.mock("@/lib/server/encryption", () => ({
+  encrypt: vi.fn((text: string) => `encrypted_${text}`),
+  decrypt: vi.fn((text: string) => text.replace("encrypted_", "")),
+}));
+
+// PluginFileHelperのモック
+vi.mock("@/lib/server/pluginFileHelper", () => ({
+  PluginFileHelper: {
+    saveScript: vi.fn().mockResolvedValue("/plugins/space/plugin.js"),
+    deleteScript: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+// ロガーのモック
+vi.mock("@/lib/server/logger", () => ({
+  getLogger: vi.fn().mockReturnValue({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+describe("UploadReviewSpacePluginService", () => {
+  let mockPluginRepository: IReviewSpacePluginRepository;
+  let mockReviewSpaceRepository: IReviewSpaceRepository;
+  let mockProjectRepository: IProjectRepository;
+  let mockSandbox: IPluginSandbox;
+  let service: UploadReviewSpacePluginService;
+
+  const validProjectId = "123e4567-e89b-12d3-a456-426614174000";
+  const validUserId = "223e4567-e89b-12d3-a456-426614174001";
+  const validReviewSpaceId = "323e4567-e89b-12d3-a456-426614174002";
+  const script = "module.exports = { hooks: { afterExtraction() {} } };";
+
+  const mockProject = Project.reconstruct({
+    id: validProjectId,
+    name: "テストプロジェクト",
+    description: null,
+    encryptedApiKey: null,
+    members: [{ userId: validUserId, role: "owner", createdAt: new Date() }],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const mockReviewSpace = ReviewSpace.reconstruct({
+    id: validReviewSpaceId,
+    projectId: validProjectId,
+    name: "設計書レビュー",
+    description: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPluginRepository = {
+      findById: vi.fn(),
+      findByReviewSpaceId: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+    mockReviewSpaceRepository = {
+      findById: vi.fn().mockResolvedValue(mockReviewSpace),
+      findByProjectId: vi.fn(),
+      countByProjectId: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+      updateChecklistGenerationError: vi.fn(),
+    };
+    mockProjectRepository = {
+      findById: vi.fn().mockResolvedValue(mockProject),
+      findByMemberId: vi.fn(),
+      countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+    mockSandbox = {
+      inspect: vi.fn().mockResolvedValue({
+        status: "success",
+        output: {
+          name: "整形プラグイン",
+          hookPoints: ["afterExtraction"],
+          extensions: [],
+        },
+      }),
+      invoke: vi.fn(),
+    };
+    service = new UploadReviewSpacePluginService(
+      mockPluginRepository,
+      mockReviewSpaceRepository,
+      mockProjectRepository,
+      mockSandbox,
+    );
+  });
+
+  describe("正常系", () => {
+    it("スクリプトを読み込んでプラグインを登録できる", async () => {
+      const result = await service.execute({
+        reviewSpaceId: validReviewSpaceId,
+        userId: validUserId,
+        fileName: "format.js",
+        script,
+      });
+
+      expect(result.name).toBe("整形プラグイン");
+      expect(result.hookPoints).toEqual(["afterExtraction"]);
+      expect(result.isEnabled).toBe(true);
+      expect(PluginFileHelper.saveScript).toHaveBeenCalledWith(
+        validReviewSpaceId,
+        result.id,
+        script,
+      );
+      const saved = vi.mocked(mockPluginRepository.save).mock.calls[0][0];
+      expect(saved.scriptPath).toBe("/plugins/space/plugin.js");
+    });
+
+    it("名前が宣言されていない場合はファイル名を使用する", async () => {
+      vi.mocked(mockSandbox.inspect).mockResolvedValue({
+        status: "success",
+        output: { name: null, hookPoints: ["afterResults"], extensions: [] },
+      });
+
+      const result = await service.execute({
+        reviewSpaceId: validReviewSpaceId,
+        userId: validUserId,
+        fileName: "my-plugin.js",
+        script,
+      });
+
+      expect(result.name).toBe("my-plugin");
+    });
+  });
+
+  describe("異常系", () => {
+    it("プロジェクトにアクセス権がない場合はエラー", async () => {
+      await expect(
+        service.execute({
+          reviewSpaceId: validReviewSpaceId,
+          userId: "999e4567-e89b-12d3-a456-426614174999",
+          fileName: "format.js",
+          script,
+        }),
+      ).rejects.toMatchObject({ messageCode: "PROJECT_ACCESS_DENIED" });
+    });
+
+    it("JSファイル以外はエラー", async () => {
+      await expect(
+        service.execute({
+          reviewSpaceId: validReviewSpaceId,
+          userId: validUserId,
+          fileName: "format.ts",
+          script,
+        }),
+      ).rejects.toMatchObject({
+        messageCode: "REVIEW_SPACE_PLUGIN_FILE_INVALID",
+      });
+    });
+
+    it("スクリプトの読み込みに失敗した場合はエラー", async () => {
+      vi.mocked(mockSandbox.inspect).mockResolvedValue({
+        status: "error",
+        errorMessage: "SyntaxError",
+      });
+
+      await expect(
+        service.execute({
+          reviewSpaceId: validReviewSpaceId,
+          userId: validUserId,
+          fileName: "format.js",
+          script,
+        }),
+      ).rejects.toMatchObject({
+        messageCode: "REVIEW_SPACE_PLUGIN_LOAD_FAILED",
+      });
+      expect(PluginFileHelper.saveScript).not.toHaveBeenCalled();
+    });
+
+    it("フックが定義されていない場合はエラー", async () => {
+      vi.mocked(mockSandbox.inspect).mockResolvedValue({
+        status: "success",
+        output: { name: null, hookPoints: [], extensions: [] },
+      });
+
+      await expect(
+        service.execute({
+          reviewSpaceId: validReviewSpaceId,
+          userId: validUserId,
+          fileName: "format.js",
+          script,
+        }),
+      ).rejects.toMatchObject({ messageCode: "REVIEW_SPACE_PLUGIN_NO_HOOKS" });
+    });
+
+    it("DB保存に失敗した場合は保存済みスクリプトを削除する", async () => {
+      vi.mocked(mockPluginRepository.save).mockRejectedValue(
+        new Error("DB error"),
+      );
+
+      await expect(
+        service.execute({
+          reviewSpaceId: validReviewSpaceId,
+          userId: validUserId,
+          fileName: "format.js",
+          script,
+        }),
+      ).rejects.toThrow("DB error");
+      expect(PluginFileHelper.deleteScript).toHaveBeenCalledWith(
+        "/plugins/space/plugin.js",
+      );
+    });
+  });
+});
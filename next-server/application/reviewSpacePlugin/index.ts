@@ -0,0 +1,27 @@
+/**
+ * レビュースペースプラグイン アプリケーションサービス
+ * エントリーポイント
+ */
+
+// サービス
+export {
+  UploadReviewSpacePluginService,
+  MAX_PLUGIN_SCRIPT_SIZE,
+  type UploadReviewSpacePluginCommand,
+} from "./UploadReviewSpacePluginService";
+export {
+  ListReviewSpacePluginsService,
+  type ListReviewSpacePluginsQuery,
+} from "./ListReviewSpacePluginsService";
+export {
+  UpdateReviewSpacePluginService,
+  type UpdateReviewSpacePluginCommand,
+} from "./UpdateReviewSpacePluginService";
+export {
+  DeleteReviewSpacePluginService,
+  type DeleteReviewSpacePluginCommand,
+} from "./DeleteReviewSpacePluginService";
+
+// フック実行
+export { PluginHookRunner, type LoadedPlugin } from "./PluginHookRunner";
+export { PluginHookRunnerFactory } from "./PluginHookRunnerFactory";
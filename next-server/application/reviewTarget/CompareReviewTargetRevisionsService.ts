@@ -0,0 +1,131 @@
+import { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
+import { IReviewResultRepository } from "@/application/shared/port/repository/IReviewResultRepository";
+import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import { IProjectRepository } from "@/application/shared/port/repository";
+import { ReviewTargetId } from "@/domain/reviewTarget";
+import { ReviewSpaceId, EvaluationCriteria } from "@/domain/reviewSpace";
+import { ProjectId } from "@/domain/project";
+import {
+  ReviewRevisionComparison,
+  type ReviewRevisionComparisonDto,
+} from "@/domain/reviewResult";
+import { domainValidationError } from "@/lib/server/error";
+import type { ReviewTargetRevisionDto } from "./ListReviewTargetRevisionsService";
+
+/**
+ * レビュー対象リビジョン比較コマンド（入力DTO）
+ */
+export interface CompareReviewTargetRevisionsCommand {
+  /** 比較元（古い側）のレビュー対象ID */
+  baseReviewTargetId: string;
+  /** 比較先（新しい側）のレビュー対象ID */
+  compareReviewTargetId: string;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+}
+
+/**
+ * レビュー対象リビジョン比較結果DTO
+ */
+export interface CompareReviewTargetRevisionsResult {
+  /** 比較元リビジョン */
+  base: ReviewTargetRevisionDto;
+  /** 比較先リビジョン */
+  compare: ReviewTargetRevisionDto;
+  /** チェック項目ごとの比較結果 */
+  comparison: ReviewRevisionComparisonDto;
+}
+
+/**
+ * レビュー対象リビジョン比較サービス
+ * 同じリビジョングループに属する2つのレビュー対象のレビュー結果を比較する
+ * 評定の優劣は比較先リビジョンのレビュー設定の評定基準で判定する
+ */
+export class CompareReviewTargetRevisionsService {
+  constructor(
+    private readonly reviewTargetRepository: IReviewTargetRepository,
+    private readonly reviewResultRepository: IReviewResultRepository,
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * リビジョンを比較
+   * @param command 比較コマンド
+   * @returns 比較結果
+   */
+  async execute(
+    command: CompareReviewTargetRevisionsCommand,
+  ): Promise<CompareReviewTargetRevisionsResult> {
+    const { baseReviewTargetId, compareReviewTargetId, userId } = command;
+
+    // レビュー対象の取得
+    const baseTargetId = ReviewTargetId.reconstruct(baseReviewTargetId);
+    const compareTargetId = ReviewTargetId.reconstruct(compareReviewTargetId);
+    const [baseTarget, compareTarget] = await Promise.all([
+      this.reviewTargetRepository.findById(baseTargetId),
+      this.reviewTargetRepository.findById(compareTargetId),
+    ]);
+    if (!baseTarget || !compareTarget) {
+      throw domainValidationError("REVIEW_TARGET_NOT_FOUND");
+    }
+
+    // 同じレビュー対象のリビジョン同士であることを確認
+    if (!baseTarget.isRevisionOf(compareTarget)) {
+      throw domainValidationError("REVIEW_TARGET_REVISION_MISMATCH");
+    }
+
+    // レビュースペースの存在確認（同じリビジョングループは同じレビュースペースに属する）
+    const reviewSpace = await this.reviewSpaceRepository.findById(
+      ReviewSpaceId.reconstruct(compareTarget.reviewSpaceId.value),
+    );
+    if (!reviewSpace) {
+      throw domainValidationError("REVIEW_SPACE_NOT_FOUND");
+    }
+
+    // プロジェクトの存在確認
+    const project = await this.projectRepository.findById(
+      ProjectId.reconstruct(reviewSpace.projectId.value),
+    );
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+
+    // プロジェクトへのアクセス権確認
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("REVIEW_TARGET_ACCESS_DENIED");
+    }
+
+    // レビュー結果の取得
+    const [baseResults, compareResults] = await Promise.all([
+      this.reviewResultRepository.findByReviewTargetId(baseTargetId),
+      this.reviewResultRepository.findByReviewTargetId(compareTargetId),
+    ]);
+
+    const comparison = ReviewRevisionComparison.compare({
+      baseResults,
+      compareResults,
+      evaluationCriteria:
+        compareTarget.reviewSettings?.evaluationCriteria ??
+        EvaluationCriteria.createDefault(),
+    });
+
+    return {
+      base: {
+        id: baseTarget.id.value,
+        name: baseTarget.name.value,
+        revision: baseTarget.revision,
+        status: baseTarget.status.value,
+        createdAt: baseTarget.createdAt,
+      },
+      compare: {
+        id: compareTarget.id.value,
+        name: compareTarget.name.value,
+        revision: compareTarget.revision,
+        status: compareTarget.status.value,
+        createdAt: compareTarget.createdAt,
+      },
+      comparison: comparison.toDto(),
+    };
+  }
+}
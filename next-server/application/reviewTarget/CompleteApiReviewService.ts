@@ -2,7 +2,7 @@ import { IReviewTargetRepository } from "@/application/shared/port/repository/IR
 import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
 import { IProjectRepository } from "@/application/shared/port/repository";
 import { ReviewTargetId } from "@/domain/reviewTarget";
-import { ProjectId } from "@/domain/project";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
 import { domainValidationError, internalError } from "@/lib/server/error";
 
 /**
@@ -88,6 +88,11 @@ export class CompleteApiReviewService {
       throw domainValidationError("PROJECT_ACCESS_DENIED");
     }
 
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.EXECUTE_REVIEW)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
     // ステータスを更新
     let updatedTarget;
     if (hasError) {
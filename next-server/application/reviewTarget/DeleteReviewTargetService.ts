@@ -7,7 +7,7 @@ import {
 import { type IWorkflowRunRegistry } from "@/application/aiTask/WorkflowRunRegistry";
 import { ReviewTargetId } from "@/domain/reviewTarget";
 import { ReviewSpaceId } from "@/domain/reviewSpace";
-import { ProjectId } from "@/domain/project";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
 import { domainValidationError } from "@/lib/server/error";
 import { TaskFileHelper } from "@/lib/server/taskFileHelper";
 import { ReviewCacheHelper } from "@/lib/server/reviewCacheHelper";
@@ -74,6 +74,11 @@ export class DeleteReviewTargetService {
       throw domainValidationError("REVIEW_TARGET_ACCESS_DENIED");
     }
 
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.EXECUTE_REVIEW)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
     // レビュー対象に紐づくAIタスクを検索し、ワークフローキャンセル・ファイル削除を行う
     const aiTask =
       await this.aiTaskRepository.findByReviewTargetId(reviewTargetId);
@@ -5,9 +5,17 @@ import {
   IProjectRepository,
   ISystemSettingRepository,
 } from "@/application/shared/port/repository";
-import { ReviewTarget } from "@/domain/reviewTarget";
-import { ReviewSpaceId } from "@/domain/reviewSpace";
-import { ProjectId } from "@/domain/project";
+import {
+  ReviewTarget,
+  ReviewTargetId,
+  type CreateReviewTargetRevisionParams,
+} from "@/domain/reviewTarget";
+import {
+  ReviewSpaceId,
+  ChunkingSettings,
+  type ChunkingSettingsDto,
+} from "@/domain/reviewSpace";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
 import { domainValidationError, internalError } from "@/lib/server/error";
 import { getLogger } from "@/lib/server/logger";
 import { AI_TASK_TYPE } from "@/domain/aiTask";
@@ -24,6 +32,15 @@ import type {
 } from "@/application/mastra";
 import type { ReviewTaskPayload } from "@/application/aiTask";
 import { resolveAiApiConfig } from "@/application/shared/lib/resolveAiApiConfig";
+import {
+  findReviewModelContextWindow,
+  resolveChunkingConfig,
+} from "@/application/mastra/lib/chunking";
+import { assertAiTokenBudget } from "@/application/shared/lib/assertAiTokenBudget";
+import type { IAiTokenUsageRepository } from "@/application/shared/port/repository/IAiTokenUsageRepository";
+import type { PublishWebhookEventService } from "@/application/webhook/PublishWebhookEventService";
+import { WEBHOOK_EVENT } from "@/domain/webhook";
+import { isArchiveFileName } from "@/lib/shared/sourceCode";
 
 const logger = getLogger();
 
@@ -39,6 +56,8 @@ export interface ReviewSettingsCommand {
   commentFormat?: string | null;
   /** 評価基準 */
   evaluationCriteria?: EvaluationCriterion[];
+  /** ドキュメント分割設定（未指定の場合はレビュースペースの既定値を使用） */
+  chunking?: Partial<ChunkingSettingsDto>;
 }
 
 /**
@@ -61,6 +80,8 @@ export interface ExecuteReviewCommand {
   reviewSettings?: ReviewSettingsCommand;
   /** レビュー種別（デフォルト: small） */
   reviewType?: ReviewType;
+  /** 前リビジョンのレビュー対象ID（指定時は新しいリビジョンとして登録する） */
+  previousReviewTargetId?: string;
 }
 
 /**
@@ -89,6 +110,8 @@ export class ExecuteReviewService {
     private readonly projectRepository: IProjectRepository,
     private readonly systemSettingRepository: ISystemSettingRepository,
     private readonly aiTaskQueueService: AiTaskQueueService,
+    private readonly webhookEventPublisher?: PublishWebhookEventService,
+    private readonly aiTokenUsageRepository?: IAiTokenUsageRepository,
   ) {}
 
   /**
@@ -105,9 +128,16 @@ export class ExecuteReviewService {
       files,
       fileBuffers,
       reviewSettings,
-      reviewType = "small",
+      previousReviewTargetId,
     } = command;
 
+    // アーカイブは展開したファイルごとに個別レビューして統合するため、大量レビューで実行する
+    const reviewType: ReviewType = files.some((file) =>
+      isArchiveFileName(file.name),
+    )
+      ? "large"
+      : (command.reviewType ?? "small");
+
     // 入力バリデーション
     if (files.length === 0) {
       throw internalError({
@@ -136,6 +166,14 @@ export class ExecuteReviewService {
       throw domainValidationError("PROJECT_ACCESS_DENIED");
     }
 
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.EXECUTE_REVIEW)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
+    // 月間トークン上限の確認
+    await assertAiTokenBudget(project, this.aiTokenUsageRepository);
+
     // チェックリスト項目の取得
     const checkListItems =
       await this.checkListItemRepository.findByReviewSpaceId(reviewSpaceIdVo);
@@ -146,9 +184,13 @@ export class ExecuteReviewService {
       });
     }
 
+    // ドキュメント分割設定（未指定の場合はレビュースペースの既定値）
+    const chunkingSettings = reviewSettings?.chunking
+      ? ChunkingSettings.create(reviewSettings.chunking)
+      : reviewSpace.defaultReviewSettings.chunking;
+
     // レビュー対象エンティティを作成
-    const reviewTarget = ReviewTarget.create({
-      reviewSpaceId,
+    const reviewTargetParams: CreateReviewTargetRevisionParams = {
       name,
       reviewSettings: reviewSettings
         ? {
@@ -157,24 +199,49 @@ export class ExecuteReviewService {
             concurrentReviewItems: reviewSettings.concurrentReviewItems,
             commentFormat: reviewSettings.commentFormat ?? null,
             evaluationCriteria: reviewSettings.evaluationCriteria,
+            chunking: chunkingSettings.toDto(),
           }
         : null,
       reviewType,
-    });
+    };
+    const reviewTarget = previousReviewTargetId
+      ? await this.createRevision(
+          previousReviewTargetId,
+          reviewSpaceId,
+          reviewTargetParams,
+        )
+      : ReviewTarget.create({ reviewSpaceId, ...reviewTargetParams });
 
     // ステータスをqueuedに遷移
-    const queuedTarget = reviewTarget.toQueued();
+    let queuedTarget = reviewTarget.toQueued();
 
     // レビュー対象をDBに保存（ステータス: queued）
-    await this.reviewTargetRepository.save(queuedTarget);
+    // 新しいリビジョンは同時に登録されても番号が重複しないよう、保存時に採番し直す
+    if (previousReviewTargetId) {
+      queuedTarget =
+        await this.reviewTargetRepository.saveRevision(queuedTarget);
+    } else {
+      await this.reviewTargetRepository.save(queuedTarget);
+    }
 
     // API設定を取得（プロジェクト設定 > 管理者設定 > 環境変数）
     const systemSetting = await this.systemSettingRepository.find();
     const aiApiConfig = resolveAiApiConfig(
       project.encryptedApiKey,
       systemSetting,
+      project.aiApiRateLimit,
+      project.aiModelAssignments,
     );
 
+    // 大量レビューの分割設定を確定（チャンクサイズが自動の場合はモデルのコンテキストウィンドウから算出）
+    const chunkingConfig =
+      reviewType === "large"
+        ? resolveChunkingConfig(
+            chunkingSettings.toDto(),
+            findReviewModelContextWindow(aiApiConfig, systemSetting),
+          )
+        : undefined;
+
     // ファイルバッファをFileInfoCommand配列に変換
     const fileCommands: FileInfoCommand[] = [];
     for (const file of files) {
@@ -187,16 +254,20 @@ export class ExecuteReviewService {
         continue;
       }
 
-      // 画像モードの場合は変換済み画像のみを使用、テキストモードの場合は元ファイルを使用
+      // 画像モードで変換済み画像がある場合は変換済み画像のみを使用、それ以外は元ファイルを使用
       const processMode = file.processMode ?? "text";
+      const hasConvertedImages =
+        processMode === "image" &&
+        (bufferData.convertedImageBuffers?.length ?? 0) > 0;
       fileCommands.push({
         fileId: file.id,
         fileName: file.name,
         fileSize: file.size,
         mimeType: file.type,
         processMode,
-        // テキストモード: 元ファイルのバッファ、画像モード: 空バッファ
-        buffer: processMode === "text" ? bufferData.buffer : Buffer.alloc(0),
+        // 変換済み画像がある場合は空バッファ、それ以外は元ファイルのバッファ
+        // （変換済み画像がない画像モードのファイルはサーバー側で画像に変換する）
+        buffer: hasConvertedImages ? Buffer.alloc(0) : bufferData.buffer,
         // 画像モードの場合のみ変換済み画像を設定
         convertedImageBuffers:
           processMode === "image"
@@ -209,6 +280,9 @@ export class ExecuteReviewService {
     const checkListItemsForPayload = checkListItems.map((item) => ({
       id: item.id.value,
       content: item.content.value,
+      category: item.category.value,
+      severity: item.severity.value,
+      guidance: item.guidance.value,
     }));
 
     // タスクペイロードを作成
@@ -230,6 +304,7 @@ export class ExecuteReviewService {
         : undefined,
       reviewType,
       aiApiConfig,
+      chunkingConfig,
     };
 
     // タスクタイプを決定
@@ -260,10 +335,60 @@ export class ExecuteReviewService {
       "レビュータスクをキューに登録しました",
     );
 
+    // キュー登録を外部システムに通知（失敗してもレビュー実行は継続する）
+    if (this.webhookEventPublisher) {
+      await this.webhookEventPublisher
+        .execute({
+          event: WEBHOOK_EVENT.REVIEW_QUEUED,
+          reviewSpaceId,
+          data: {
+            reviewTargetId: queuedTarget.id.value,
+            isRetry: false,
+            queueLength: enqueueResult.queueLength,
+          },
+        })
+        .catch((error) => {
+          logger.warn(
+            { err: error, reviewTargetId: queuedTarget.id.value },
+            "Webhookイベントの発行に失敗しました",
+          );
+        });
+    }
+
     return {
       reviewTargetId: queuedTarget.id.value,
       status: queuedTarget.status.value,
       queueLength: enqueueResult.queueLength,
     };
   }
+
+  /**
+   * 前リビジョンのレビュー対象から新しいリビジョンを作成する
+   * リビジョン番号は同じリビジョングループの最新リビジョンの次の番号とする（同時登録に備えて保存時に採番し直す）
+   */
+  private async createRevision(
+    previousReviewTargetId: string,
+    reviewSpaceId: string,
+    params: CreateReviewTargetRevisionParams,
+  ): Promise<ReviewTarget> {
+    const previousTarget = await this.reviewTargetRepository.findById(
+      ReviewTargetId.reconstruct(previousReviewTargetId),
+    );
+    if (
+      !previousTarget ||
+      previousTarget.reviewSpaceId.value !== reviewSpaceId
+    ) {
+      throw domainValidationError("REVIEW_TARGET_NOT_FOUND");
+    }
+
+    const revisions = await this.reviewTargetRepository.findByRevisionGroupId(
+      previousTarget.revisionGroupId,
+    );
+    const latestRevision = revisions.reduce(
+      (latest, target) => (target.revision > latest.revision ? target : latest),
+      previousTarget,
+    );
+
+    return ReviewTarget.createRevision(latestRevision, params);
+  }
 }
@@ -1,10 +1,20 @@
 import { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
 import { IReviewResultRepository } from "@/application/shared/port/repository/IReviewResultRepository";
 import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
-import { IProjectRepository } from "@/application/shared/port/repository";
+import { IAiTaskRepository } from "@/application/shared/port/repository/IAiTaskRepository";
+import {
+  IProjectRepository,
+  IUserRepository,
+} from "@/application/shared/port/repository";
 import { ReviewTargetId } from "@/domain/reviewTarget";
 import { ReviewSpaceId } from "@/domain/reviewSpace";
 import { ProjectId } from "@/domain/project";
+import type {
+  ReviewEvidenceReference,
+  ReviewDispositionValue,
+} from "@/domain/reviewResult";
+import { UserId } from "@/domain/user";
+import { buildUserNameMap } from "@/application/shared/util";
 import { domainValidationError } from "@/lib/server/error";
 import type { EvaluationCriterion } from "@/application/mastra";
 
@@ -18,6 +28,32 @@ export interface GetReviewTargetCommand {
   userId: string;
 }
 
+/**
+ * レビュアー判定DTO
+ */
+export interface ReviewAdjudicationDto {
+  /** レビュアーによる評定（nullの場合はAIの評定を採用） */
+  evaluation: string | null;
+  /** レビュアーによるコメント（nullの場合はAIのコメントを採用） */
+  comment: string | null;
+  /** 対応状況 */
+  disposition: ReviewDispositionValue;
+  /** 判定したユーザの表示名（ユーザ削除後はnull） */
+  reviewedByName: string | null;
+  /** 判定日時 */
+  reviewedAt: Date;
+}
+
+/**
+ * 承認情報DTO
+ */
+export interface ReviewSignOffDto {
+  /** 承認したユーザの表示名（ユーザ削除後はnull） */
+  signedOffByName: string | null;
+  /** 承認日時 */
+  signedOffAt: Date;
+}
+
 /**
  * レビュー結果DTO
  */
@@ -32,6 +68,14 @@ export interface ReviewResultDto {
   comment: string | null;
   /** エラーメッセージ */
   errorMessage: string | null;
+  /** レビュー根拠（AIが参照したドキュメント上の箇所） */
+  evidence: ReviewEvidenceReference[];
+  /** レビュアー判定（未判定の場合はnull） */
+  adjudication: ReviewAdjudicationDto | null;
+  /** 最終評定（レビュアーの上書きがあればその値、なければAIの評定） */
+  finalEvaluation: string | null;
+  /** 最終コメント（レビュアーの上書きがあればその値、なければAIのコメント） */
+  finalComment: string | null;
   /** 作成日時 */
   createdAt: Date;
 }
@@ -66,6 +110,10 @@ export interface GetReviewTargetResult {
   reviewSettings: ReviewSettingsDto | null;
   /** レビュー結果一覧 */
   reviewResults: ReviewResultDto[];
+  /** 承認情報（未承認の場合はnull） */
+  signOff: ReviewSignOffDto | null;
+  /** 実行中のレビュータスクでのAI API自動リトライ回数（タスクがない場合は0） */
+  aiApiRetryCount: number;
   /** 作成日時 */
   createdAt: Date;
   /** 更新日時 */
@@ -81,6 +129,8 @@ export class GetReviewTargetService {
     private readonly reviewResultRepository: IReviewResultRepository,
     private readonly reviewSpaceRepository: IReviewSpaceRepository,
     private readonly projectRepository: IProjectRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly aiTaskRepository?: IAiTaskRepository,
   ) {}
 
   /**
@@ -127,6 +177,35 @@ export class GetReviewTargetService {
     const reviewResults =
       await this.reviewResultRepository.findByReviewTargetId(reviewTargetIdVo);
 
+    // 判定者・承認者の表示名を取得
+    const userIds = new Set<string>();
+    for (const r of reviewResults) {
+      const reviewedBy = r.adjudication?.reviewedBy;
+      if (reviewedBy) userIds.add(reviewedBy.value);
+    }
+    if (reviewTarget.signedOffBy) {
+      userIds.add(reviewTarget.signedOffBy.value);
+    }
+    const userNameMap =
+      userIds.size > 0
+        ? buildUserNameMap(
+            await this.userRepository.findByIds(
+              Array.from(userIds).map((id) => UserId.reconstruct(id)),
+            ),
+          )
+        : new Map<string, string>();
+
+    // レビュー実行中はタスクのAI APIリトライ回数を取得
+    let aiApiRetryCount = 0;
+    if (
+      this.aiTaskRepository &&
+      (reviewTarget.status.isQueued() || reviewTarget.status.isReviewing())
+    ) {
+      const task =
+        await this.aiTaskRepository.findByReviewTargetId(reviewTargetId);
+      aiApiRetryCount = task?.aiApiRetryCount ?? 0;
+    }
+
     return {
       id: reviewTarget.id.value,
       reviewSpaceId: reviewTarget.reviewSpaceId.value,
@@ -139,8 +218,31 @@ export class GetReviewTargetService {
         evaluation: r.evaluation?.value ?? null,
         comment: r.comment?.value ?? null,
         errorMessage: r.errorMessage,
+        evidence: r.evidence.value,
+        adjudication: r.adjudication
+          ? {
+              evaluation: r.adjudication.evaluation.value,
+              comment: r.adjudication.comment.value,
+              disposition: r.adjudication.disposition.value,
+              reviewedByName: r.adjudication.reviewedBy
+                ? (userNameMap.get(r.adjudication.reviewedBy.value) ?? null)
+                : null,
+              reviewedAt: r.adjudication.reviewedAt,
+            }
+          : null,
+        finalEvaluation: r.finalEvaluation,
+        finalComment: r.finalComment,
         createdAt: r.createdAt,
       })),
+      signOff: reviewTarget.signedOffAt
+        ? {
+            signedOffByName: reviewTarget.signedOffBy
+              ? (userNameMap.get(reviewTarget.signedOffBy.value) ?? null)
+              : null,
+            signedOffAt: reviewTarget.signedOffAt,
+          }
+        : null,
+      aiApiRetryCount,
       createdAt: reviewTarget.createdAt,
       updatedAt: reviewTarget.updatedAt,
     };
@@ -0,0 +1,107 @@
+import { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
+import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import { IProjectRepository } from "@/application/shared/port/repository";
+import { ReviewTargetId } from "@/domain/reviewTarget";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { ProjectId } from "@/domain/project";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * レビュー対象リビジョン一覧取得コマンド（入力DTO）
+ */
+export interface ListReviewTargetRevisionsCommand {
+  /** レビュー対象ID（リビジョングループ内のいずれか） */
+  reviewTargetId: string;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+}
+
+/**
+ * レビュー対象リビジョンDTO
+ */
+export interface ReviewTargetRevisionDto {
+  /** レビュー対象ID */
+  id: string;
+  /** レビュー対象名 */
+  name: string;
+  /** リビジョン番号 */
+  revision: number;
+  /** ステータス */
+  status: string;
+  /** 作成日時 */
+  createdAt: Date;
+}
+
+/**
+ * レビュー対象リビジョン一覧取得結果DTO
+ */
+export interface ListReviewTargetRevisionsResult {
+  /** リビジョン一覧（リビジョン番号昇順） */
+  revisions: ReviewTargetRevisionDto[];
+}
+
+/**
+ * レビュー対象リビジョン一覧取得サービス
+ * 指定されたレビュー対象と同じリビジョングループに属するレビュー対象を取得する
+ */
+export class ListReviewTargetRevisionsService {
+  constructor(
+    private readonly reviewTargetRepository: IReviewTargetRepository,
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * リビジョン一覧を取得
+   * @param command 取得コマンド
+   * @returns リビジョン一覧
+   */
+  async execute(
+    command: ListReviewTargetRevisionsCommand,
+  ): Promise<ListReviewTargetRevisionsResult> {
+    const { reviewTargetId, userId } = command;
+
+    // レビュー対象の取得
+    const reviewTarget = await this.reviewTargetRepository.findById(
+      ReviewTargetId.reconstruct(reviewTargetId),
+    );
+    if (!reviewTarget) {
+      throw domainValidationError("REVIEW_TARGET_NOT_FOUND");
+    }
+
+    // レビュースペースの存在確認
+    const reviewSpace = await this.reviewSpaceRepository.findById(
+      ReviewSpaceId.reconstruct(reviewTarget.reviewSpaceId.value),
+    );
+    if (!reviewSpace) {
+      throw domainValidationError("REVIEW_SPACE_NOT_FOUND");
+    }
+
+    // プロジェクトの存在確認
+    const project = await this.projectRepository.findById(
+      ProjectId.reconstruct(reviewSpace.projectId.value),
+    );
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+
+    // プロジェクトへのアクセス権確認
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("REVIEW_TARGET_ACCESS_DENIED");
+    }
+
+    const revisions = await this.reviewTargetRepository.findByRevisionGroupId(
+      reviewTarget.revisionGroupId,
+    );
+
+    return {
+      revisions: revisions.map((r) => ({
+        id: r.id.value,
+        name: r.name.value,
+        revision: r.revision,
+        status: r.status.value,
+        createdAt: r.createdAt,
+      })),
+    };
+  }
+}
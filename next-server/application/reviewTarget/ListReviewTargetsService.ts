@@ -27,6 +27,8 @@ export interface ReviewTargetListItemDto {
   name: string;
   /** ステータス */
   status: string;
+  /** リビジョン番号 */
+  revision: number;
   /** 作成日時 */
   createdAt: Date;
   /** 更新日時 */
@@ -97,6 +99,7 @@ export class ListReviewTargetsService {
         id: r.id.value,
         name: r.name.value,
         status: r.status.value,
+        revision: r.revision,
         createdAt: r.createdAt,
         updatedAt: r.updatedAt,
       })),
@@ -0,0 +1,302 @@
+import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import {
+  IProjectRepository,
+  ISystemSettingRepository,
+} from "@/application/shared/port/repository";
+import type { IFileTextExtractor } from "@/application/shared/port/textExtractor";
+import type {
+  ArchiveExtractOptions,
+  IArchiveExtractor,
+} from "@/application/shared/port/archive";
+import {
+  ReviewSpaceId,
+  ChunkingSettings,
+  type ChunkingSettingsDto,
+  type ChunkingStrategy,
+} from "@/domain/reviewSpace";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
+import { domainValidationError, internalError } from "@/lib/server/error";
+import { resolveAiApiConfig } from "@/application/shared/lib/resolveAiApiConfig";
+import {
+  estimateTokens,
+  findReviewModelContextWindow,
+  planPageChunks,
+  planTextChunks,
+  resolveChunkingConfig,
+  type ChunkingConfig,
+} from "@/application/mastra/lib/chunking";
+
+/**
+ * チャンク先頭の抜粋の最大文字数
+ */
+const EXCERPT_MAX_CHARS = 80;
+
+/**
+ * プレビュー対象ファイル
+ */
+export interface PreviewDocumentFileCommand {
+  /** ファイル名 */
+  name: string;
+  /** 処理モード */
+  processMode: "text" | "image";
+  /** ファイルのバイナリデータ（画像モードでは不要） */
+  buffer: Buffer | null;
+  /** 画像モードのページ数（変換済み画像の枚数。サーバー側で変換する場合はnull） */
+  pageCount: number | null;
+  /** アーカイブを展開する際のオプション */
+  archiveOptions?: Pick<
+    ArchiveExtractOptions,
+    "includePatterns" | "excludePatterns"
+  >;
+}
+
+/**
+ * ドキュメント分割プレビューコマンド
+ */
+export interface PreviewDocumentChunksCommand {
+  /** レビュースペースID */
+  reviewSpaceId: string;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+  /** プレビュー対象ファイル */
+  files: PreviewDocumentFileCommand[];
+  /** ドキュメント分割設定（未指定の場合はレビュースペースの既定値を使用） */
+  chunking?: Partial<ChunkingSettingsDto>;
+}
+
+/**
+ * チャンクのプレビューDTO
+ */
+export interface DocumentChunkPreviewDto {
+  /** 開始位置（テキストは文字位置、画像はページ番号。いずれも1始まり） */
+  start: number;
+  /** 終了位置（この位置を含む） */
+  end: number;
+  /** 推定トークン数（画像の場合はnull） */
+  estimatedTokens: number | null;
+  /** チャンク先頭の見出し・ページ区切り（structure方式のテキストのみ） */
+  heading: string | null;
+  /** チャンク先頭の抜粋（画像の場合はnull） */
+  excerpt: string | null;
+}
+
+/**
+ * ドキュメントごとの分割プレビューDTO
+ */
+export interface DocumentChunksPreviewDto {
+  /** ファイル名（アーカイブ内のファイルは「アーカイブ名/パス」） */
+  fileName: string;
+  /** 処理モード */
+  processMode: "text" | "image";
+  /** 文字数（画像の場合はnull） */
+  totalChars: number | null;
+  /** 推定トークン数（画像の場合はnull） */
+  estimatedTokens: number | null;
+  /** ページ数（テキスト、またはページ数が不明な画像の場合はnull） */
+  pageCount: number | null;
+  /** チャンク一覧（ページ数が不明な画像の場合は空） */
+  chunks: DocumentChunkPreviewDto[];
+}
+
+/**
+ * ドキュメント分割プレビュー結果DTO
+ */
+export interface PreviewDocumentChunksResult {
+  /** 分割方式 */
+  strategy: ChunkingStrategy;
+  /** 確定したチャンクサイズ（nullの場合は事前に分割しない） */
+  chunkSize: number | null;
+  /** 画像モードの1チャンクあたりの最大ページ数 */
+  maxPagesPerChunk: number | null;
+  /** 個別レビューに使用するモデル */
+  model: string;
+  /** モデルのコンテキストウィンドウ（登録されていない場合はnull） */
+  contextWindowTokens: number | null;
+  /** ドキュメントごとの分割結果 */
+  documents: DocumentChunksPreviewDto[];
+}
+
+/**
+ * ドキュメント分割プレビューサービス
+ * 大量レビューの実行前に、ドキュメントがどのように分割されるかを確認する
+ * テキストの抽出はレビュー実行時と同じく構造を保持したMarkdown形式で行う（プラグインのフックは適用しない）
+ */
+export class PreviewDocumentChunksService {
+  constructor(
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+    private readonly projectRepository: IProjectRepository,
+    private readonly systemSettingRepository: ISystemSettingRepository,
+    private readonly fileTextExtractor: IFileTextExtractor,
+    private readonly archiveExtractor: IArchiveExtractor,
+  ) {}
+
+  /**
+   * ドキュメントの分割結果をプレビューする
+   * @param command プレビューコマンド
+   * @returns ドキュメントごとの分割結果
+   * @throws ドメインバリデーションエラー - レビュースペースが存在しない、権限がない、分割設定が不正な場合
+   */
+  async execute(
+    command: PreviewDocumentChunksCommand,
+  ): Promise<PreviewDocumentChunksResult> {
+    const { reviewSpaceId, userId, files, chunking } = command;
+
+    if (files.length === 0) {
+      throw internalError({
+        expose: true,
+        messageCode: "REVIEW_EXECUTION_NO_FILES",
+      });
+    }
+
+    // レビュースペースの存在確認
+    const reviewSpace = await this.reviewSpaceRepository.findById(
+      ReviewSpaceId.reconstruct(reviewSpaceId),
+    );
+    if (!reviewSpace) {
+      throw domainValidationError("REVIEW_SPACE_NOT_FOUND");
+    }
+
+    // プロジェクトの存在確認
+    const project = await this.projectRepository.findById(
+      ProjectId.reconstruct(reviewSpace.projectId.value),
+    );
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+
+    // プロジェクトへのアクセス権確認
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("PROJECT_ACCESS_DENIED");
+    }
+
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.EXECUTE_REVIEW)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
+    // 分割設定を確定（レビュー実行時と同じ手順）
+    const chunkingSettings = chunking
+      ? ChunkingSettings.create(chunking)
+      : reviewSpace.defaultReviewSettings.chunking;
+    const systemSetting = await this.systemSettingRepository.find();
+    const aiApiConfig = resolveAiApiConfig(
+      project.encryptedApiKey,
+      systemSetting,
+      project.aiApiRateLimit,
+      project.aiModelAssignments,
+    );
+    const contextWindow = findReviewModelContextWindow(
+      aiApiConfig,
+      systemSetting,
+    );
+    const config = resolveChunkingConfig(
+      chunkingSettings.toDto(),
+      contextWindow,
+    );
+
+    const documents: DocumentChunksPreviewDto[] = [];
+    for (const file of files) {
+      if (file.processMode === "image") {
+        documents.push(this.previewImage(file.name, file.pageCount, config));
+        continue;
+      }
+      if (!file.buffer) {
+        throw domainValidationError("VALIDATION_ERROR");
+      }
+
+      if (this.archiveExtractor.isArchive(file.name)) {
+        // アーカイブは展開したファイルごとに分割する
+        const entries = await this.archiveExtractor.extract(
+          file.buffer,
+          file.name,
+          {
+            ...file.archiveOptions,
+            extensions: this.fileTextExtractor.getSupportedExtensions(),
+          },
+        );
+        for (const entry of entries) {
+          const fileName = `${file.name}/${entry.path}`;
+          const text = await this.fileTextExtractor.extract(
+            entry.buffer,
+            fileName,
+            { structured: true },
+          );
+          documents.push(this.previewText(fileName, text, config));
+        }
+        continue;
+      }
+
+      const text = await this.fileTextExtractor.extract(
+        file.buffer,
+        file.name,
+        { structured: true },
+      );
+      documents.push(this.previewText(file.name, text, config));
+    }
+
+    return {
+      strategy: config.strategy,
+      chunkSize: config.chunkSize,
+      maxPagesPerChunk: config.maxPagesPerChunk,
+      model:
+        aiApiConfig.modelEndpoints?.individualDocumentReview?.apiModel ??
+        aiApiConfig.apiModel,
+      contextWindowTokens: contextWindow?.contextWindowTokens ?? null,
+      documents,
+    };
+  }
+
+  /**
+   * テキストの分割結果を作成する
+   */
+  private previewText(
+    fileName: string,
+    text: string,
+    config: ChunkingConfig,
+  ): DocumentChunksPreviewDto {
+    return {
+      fileName,
+      processMode: "text",
+      totalChars: text.length,
+      estimatedTokens: estimateTokens(text),
+      pageCount: null,
+      chunks: planTextChunks(text, config).map((chunk) => ({
+        start: chunk.start + 1,
+        end: chunk.end,
+        estimatedTokens: chunk.estimatedTokens,
+        heading: chunk.heading,
+        excerpt: text
+          .slice(chunk.start, chunk.start + EXCERPT_MAX_CHARS)
+          .replace(/\s+/g, " ")
+          .trim(),
+      })),
+    };
+  }
+
+  /**
+   * 画像の分割結果を作成する
+   */
+  private previewImage(
+    fileName: string,
+    pageCount: number | null,
+    config: ChunkingConfig,
+  ): DocumentChunksPreviewDto {
+    return {
+      fileName,
+      processMode: "image",
+      totalChars: null,
+      estimatedTokens: null,
+      pageCount,
+      chunks:
+        pageCount === null
+          ? []
+          : planPageChunks(pageCount, config).map((chunk) => ({
+              start: chunk.start + 1,
+              end: chunk.end,
+              estimatedTokens: null,
+              heading: null,
+              excerpt: null,
+            })),
+    };
+  }
+}
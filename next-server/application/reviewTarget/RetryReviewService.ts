@@ -10,13 +10,25 @@ import {
 import { AiTaskQueueService } from "@/application/aiTask/AiTaskQueueService";
 import { getAiTaskBootstrap } from "@/application/aiTask";
 import { ReviewTargetId, ReviewType } from "@/domain/reviewTarget";
-import { ProjectId } from "@/domain/project";
+import { ChunkingSettings } from "@/domain/reviewSpace";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
 import { AI_TASK_TYPE } from "@/domain/aiTask";
 import { domainValidationError, internalError } from "@/lib/server/error";
 import type { ReviewSettingsCommand } from "./ExecuteReviewService";
 import type { ReviewTaskPayload } from "@/application/aiTask/AiTaskExecutor";
 import type { ReviewType as WorkflowReviewType } from "@/application/mastra";
 import { resolveAiApiConfig } from "@/application/shared/lib/resolveAiApiConfig";
+import {
+  findReviewModelContextWindow,
+  resolveChunkingConfig,
+} from "@/application/mastra/lib/chunking";
+import { assertAiTokenBudget } from "@/application/shared/lib/assertAiTokenBudget";
+import type { IAiTokenUsageRepository } from "@/application/shared/port/repository/IAiTokenUsageRepository";
+import type { PublishWebhookEventService } from "@/application/webhook/PublishWebhookEventService";
+import { WEBHOOK_EVENT } from "@/domain/webhook";
+import { getLogger } from "@/lib/server/logger";
+
+const logger = getLogger();
 
 /**
  * リトライ範囲
@@ -71,6 +83,8 @@ export class RetryReviewService {
     private readonly reviewDocumentCacheRepository: IReviewDocumentCacheRepository,
     private readonly systemSettingRepository: ISystemSettingRepository,
     private readonly aiTaskQueueService: AiTaskQueueService,
+    private readonly webhookEventPublisher?: PublishWebhookEventService,
+    private readonly aiTokenUsageRepository?: IAiTokenUsageRepository,
   ) {}
 
   /**
@@ -122,6 +136,14 @@ export class RetryReviewService {
       throw domainValidationError("PROJECT_ACCESS_DENIED");
     }
 
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.EXECUTE_REVIEW)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
+    // 月間トークン上限の確認
+    await assertAiTokenBudget(project, this.aiTokenUsageRepository);
+
     // ドキュメントキャッシュの存在確認
     const documentCaches =
       await this.reviewDocumentCacheRepository.findByReviewTargetId(
@@ -142,7 +164,7 @@ export class RetryReviewService {
       await this.reviewResultRepository.findByReviewTargetId(reviewTargetIdVo);
 
     // 対象チェックリストと削除対象結果を決定
-    let targetCheckListItems: Array<{ id: string; content: string }>;
+    let targetCheckListItems: ReviewTaskPayload["checkListItems"];
     let resultsToDeleteIds: string[];
 
     if (retryScope === "failed") {
@@ -166,6 +188,9 @@ export class RetryReviewService {
         targetCheckListItems = currentCheckListItems.map((item) => ({
           id: item.id.value,
           content: item.content.value,
+          category: item.category.value,
+          severity: item.severity.value,
+          guidance: item.guidance.value,
         }));
       } else {
         // 前回のチェックリスト（スナップショット）を使用
@@ -197,13 +222,30 @@ export class RetryReviewService {
     const effectiveSettings =
       reviewSettings ?? reviewTarget.reviewSettings?.toDto() ?? null;
 
+    // ドキュメント分割設定を決定（指定がなければ前回の設定、前回の設定もなければレビュースペースの既定値）
+    const chunkingSettings = reviewSettings?.chunking
+      ? ChunkingSettings.create(reviewSettings.chunking)
+      : (reviewTarget.reviewSettings?.chunking ??
+        reviewSpace.defaultReviewSettings.chunking);
+
     // API設定を取得（プロジェクト設定 > 管理者設定 > 環境変数）
     const systemSetting = await this.systemSettingRepository.find();
     const aiApiConfig = resolveAiApiConfig(
       project.encryptedApiKey,
       systemSetting,
+      project.aiApiRateLimit,
+      project.aiModelAssignments,
     );
 
+    // 大量レビューの分割設定を確定（チャンクサイズが自動の場合はモデルのコンテキストウィンドウから算出）
+    const chunkingConfig =
+      effectiveReviewType === "large"
+        ? resolveChunkingConfig(
+            chunkingSettings.toDto(),
+            findReviewModelContextWindow(aiApiConfig, systemSetting),
+          )
+        : undefined;
+
     // ステータスをqueuedに更新
     let updatedTarget = reviewTarget.prepareForRetry();
 
@@ -230,6 +272,7 @@ export class RetryReviewService {
           reviewSettings.commentFormat ?? baseSettings?.commentFormat ?? null,
         evaluationCriteria:
           reviewSettings.evaluationCriteria ?? baseSettings?.evaluationCriteria,
+        chunking: chunkingSettings.toDto(),
       });
       updatedTarget = updatedTarget.withUpdatedSettings(newSettings);
     }
@@ -261,6 +304,7 @@ export class RetryReviewService {
         : undefined,
       reviewType: effectiveReviewType as "small" | "large",
       aiApiConfig,
+      chunkingConfig,
       // リトライ用フラグ
       isRetry: true,
       retryScope,
@@ -279,6 +323,26 @@ export class RetryReviewService {
     const aiTaskBootstrap = getAiTaskBootstrap();
     await aiTaskBootstrap.startWorkersForApiKeyHash(enqueueResult.apiKeyHash);
 
+    // キュー登録を外部システムに通知（失敗してもリトライは継続する）
+    if (this.webhookEventPublisher) {
+      await this.webhookEventPublisher
+        .execute({
+          event: WEBHOOK_EVENT.REVIEW_QUEUED,
+          reviewSpaceId: payload.reviewSpaceId,
+          data: {
+            reviewTargetId,
+            isRetry: true,
+            queueLength: enqueueResult.queueLength,
+          },
+        })
+        .catch((error) => {
+          logger.warn(
+            { err: error, reviewTargetId },
+            "Webhookイベントの発行に失敗しました",
+          );
+        });
+    }
+
     return {
       reviewTargetId: updatedTarget.id.value,
       status: "queued",
@@ -0,0 +1,217 @@
+import type {
+  DocumentIndexOptions,
+  DocumentRetrievalResult,
+  IDocumentIndex,
+} from "@/application/shared/port/documentIndex";
+import type { IEmbeddingProvider } from "@/application/shared/port/embedding";
+import type {
+  IReviewDocumentCacheRepository,
+  IReviewDocumentChunkRepository,
+} from "@/application/shared/port/repository";
+import { splitTextIntoSections } from "@/application/mastra/lib/util";
+import { withAiApiRetry } from "@/application/mastra/lib/aiApiRetry";
+import { ReviewTargetId } from "@/domain/reviewTarget";
+
+/**
+ * インデックス作成時の1セクションの上限文字数を取得
+ * 環境変数DOCUMENT_INDEX_SECTION_MAX_CHARSで設定可能（デフォルト: 2000）
+ */
+export const getDocumentIndexSectionMaxChars = (): number => {
+  const maxChars = parseInt(
+    process.env.DOCUMENT_INDEX_SECTION_MAX_CHARS || "2000",
+    10,
+  );
+  return isNaN(maxChars) || maxChars < 1 ? 2000 : maxChars;
+};
+
+/**
+ * 検索クエリ1件あたりに取得するセクション数を取得
+ * 環境変数DOCUMENT_RETRIEVAL_TOP_Kで設定可能（デフォルト: 5）
+ */
+export const getDocumentRetrievalTopK = (): number => {
+  const topK = parseInt(process.env.DOCUMENT_RETRIEVAL_TOP_K || "5", 10);
+  return isNaN(topK) || topK < 1 ? 5 : topK;
+};
+
+/**
+ * 2つのベクトルのコサイン類似度を計算する
+ * 次元数が異なる・ゼロベクトルの場合は0を返す
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * レビュードキュメントの意味検索インデックス
+ * テキストモードのドキュメントキャッシュを見出し・段落単位のセクションに分割して埋め込みベクトルをDBに保存し、
+ * 検索時はクエリとのコサイン類似度が高いセクションを返す
+ */
+export class ReviewDocumentIndex implements IDocumentIndex {
+  constructor(
+    private readonly reviewDocumentChunkRepository: IReviewDocumentChunkRepository,
+    private readonly reviewDocumentCacheRepository: IReviewDocumentCacheRepository,
+    private readonly embeddingProvider: IEmbeddingProvider,
+  ) {}
+
+  /**
+   * ドキュメントのインデックスを作成（既存のインデックスは置き換える）
+   */
+  async buildIndex(
+    reviewDocumentCacheId: string,
+    textContent: string,
+    options?: DocumentIndexOptions,
+  ): Promise<void> {
+    const sections = splitTextIntoSections(
+      textContent,
+      getDocumentIndexSectionMaxChars(),
+    );
+
+    // 見出しで分割されたセクションも見出しの内容で検索できるよう、見出しを付けてベクトル化する
+    const embeddings =
+      sections.length > 0
+        ? await this.embed(
+            sections.map((section) =>
+              section.heading && !section.content.startsWith(section.heading)
+                ? `${section.heading}\n${section.content}`
+                : section.content,
+            ),
+            options,
+          )
+        : [];
+
+    await this.reviewDocumentChunkRepository.replaceByReviewDocumentCacheId(
+      reviewDocumentCacheId,
+      sections.map((section, index) => ({
+        reviewDocumentCacheId,
+        chunkIndex: index,
+        heading: section.heading,
+        content: section.content,
+        embedding: embeddings[index],
+        embeddingModel: this.embeddingProvider.modelId,
+      })),
+    );
+  }
+
+  /**
+   * 検索クエリごとに関連度の高いセクションを取得し、まとめて返す
+   * 別の埋め込みモデルで作成したインデックスは比較できないため、インデックスなしとして扱う
+   */
+  async retrieve(
+    reviewDocumentCacheId: string,
+    queries: string[],
+    options?: DocumentIndexOptions,
+  ): Promise<DocumentRetrievalResult | null> {
+    const chunks =
+      await this.reviewDocumentChunkRepository.findByReviewDocumentCacheId(
+        reviewDocumentCacheId,
+      );
+    if (
+      chunks.length === 0 ||
+      queries.length === 0 ||
+      chunks.some(
+        (chunk) => chunk.embeddingModel !== this.embeddingProvider.modelId,
+      )
+    ) {
+      return null;
+    }
+
+    const topK = getDocumentRetrievalTopK();
+    const queryEmbeddings = await this.embed(queries, options);
+
+    const selected = new Set<number>();
+    for (const queryEmbedding of queryEmbeddings) {
+      chunks
+        .map((chunk) => ({
+          chunkIndex: chunk.chunkIndex,
+          score: cosineSimilarity(queryEmbedding, chunk.embedding),
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK)
+        .forEach(({ chunkIndex }) => selected.add(chunkIndex));
+    }
+
+    return {
+      sections: chunks
+        .filter((chunk) => selected.has(chunk.chunkIndex))
+        .map((chunk) => ({
+          sectionIndex: chunk.chunkIndex,
+          heading: chunk.heading,
+          content: chunk.content,
+        })),
+      totalSections: chunks.length,
+    };
+  }
+
+  /**
+   * レビュー対象のファイル名でドキュメントを特定して関連セクションを取得する
+   */
+  async retrieveByFileName(
+    reviewTargetId: string,
+    fileName: string,
+    queries: string[],
+    options?: DocumentIndexOptions,
+  ): Promise<DocumentRetrievalResult | null> {
+    const caches =
+      await this.reviewDocumentCacheRepository.findByReviewTargetId(
+        ReviewTargetId.reconstruct(reviewTargetId),
+      );
+    const cache = caches.find((c) => c.fileName === fileName && c.isTextMode());
+    return cache ? this.retrieve(cache.id.value, queries, options) : null;
+  }
+
+  /**
+   * テキストの埋め込みベクトルを生成する
+   * 1回の呼び出しの上限ごとに分割し、エージェント呼び出しと同じくリトライ・レート制限・トークン使用量の集計を適用する
+   */
+  private async embed(
+    texts: string[],
+    options?: DocumentIndexOptions,
+  ): Promise<number[][]> {
+    const { maxTextsPerCall, apiKey } = this.embeddingProvider;
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += maxTextsPerCall) {
+      const result = await withAiApiRetry(
+        async () => {
+          const { embeddings, tokens } = await this.embeddingProvider.embed(
+            texts.slice(i, i + maxTextsPerCall),
+            { abortSignal: options?.abortSignal },
+          );
+          // 埋め込みは入力トークンのみ
+          return {
+            embeddings,
+            usage:
+              tokens !== null
+                ? {
+                    promptTokens: tokens,
+                    completionTokens: 0,
+                    totalTokens: tokens,
+                  }
+                : undefined,
+          };
+        },
+        {
+          runtimeContext: options?.runtimeContext,
+          abortSignal: options?.abortSignal,
+          operationName: "embedDocumentSections",
+          apiKey,
+        },
+      );
+      embeddings.push(...result.embeddings);
+    }
+    return embeddings;
+  }
+}
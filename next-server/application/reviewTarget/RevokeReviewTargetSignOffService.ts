@@ -0,0 +1,80 @@
+import { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
+import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import { IProjectRepository } from "@/application/shared/port/repository";
+import { ReviewTargetDto, ReviewTargetId } from "@/domain/reviewTarget";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * レビュー対象承認取消コマンド（入力DTO）
+ */
+export interface RevokeReviewTargetSignOffCommand {
+  /** レビュー対象ID */
+  reviewTargetId: string;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+}
+
+/**
+ * レビュー対象承認取消サービス
+ * 承認を取り消し、レビュー結果の判定やリトライを再度行えるようにする
+ */
+export class RevokeReviewTargetSignOffService {
+  constructor(
+    private readonly reviewTargetRepository: IReviewTargetRepository,
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * レビュー対象の承認を取り消す
+   * @param command 承認取消コマンド
+   * @returns 承認取消後のレビュー対象
+   */
+  async execute(
+    command: RevokeReviewTargetSignOffCommand,
+  ): Promise<ReviewTargetDto> {
+    const { reviewTargetId, userId } = command;
+
+    // レビュー対象の取得
+    const reviewTargetIdVo = ReviewTargetId.reconstruct(reviewTargetId);
+    const reviewTarget =
+      await this.reviewTargetRepository.findById(reviewTargetIdVo);
+    if (!reviewTarget) {
+      throw domainValidationError("REVIEW_TARGET_NOT_FOUND");
+    }
+
+    // レビュースペースの存在確認
+    const reviewSpaceIdVo = ReviewSpaceId.reconstruct(
+      reviewTarget.reviewSpaceId.value,
+    );
+    const reviewSpace =
+      await this.reviewSpaceRepository.findById(reviewSpaceIdVo);
+    if (!reviewSpace) {
+      throw domainValidationError("REVIEW_SPACE_NOT_FOUND");
+    }
+
+    // プロジェクトの存在確認
+    const projectId = ProjectId.reconstruct(reviewSpace.projectId.value);
+    const project = await this.projectRepository.findById(projectId);
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+
+    // プロジェクトへのアクセス権確認
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("REVIEW_TARGET_ACCESS_DENIED");
+    }
+
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.ADJUDICATE_REVIEW)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
+    const revoked = reviewTarget.revokeSignOff();
+    await this.reviewTargetRepository.save(revoked);
+
+    return revoked.toDto();
+  }
+}
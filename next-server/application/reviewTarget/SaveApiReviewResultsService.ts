@@ -4,7 +4,7 @@ import { IReviewSpaceRepository } from "@/application/shared/port/repository/IRe
 import { IProjectRepository } from "@/application/shared/port/repository";
 import { ReviewTargetId } from "@/domain/reviewTarget";
 import { ReviewResult } from "@/domain/reviewResult";
-import { ProjectId } from "@/domain/project";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
 import { domainValidationError, internalError } from "@/lib/server/error";
 
 /**
@@ -114,6 +114,11 @@ export class SaveApiReviewResultsService {
       throw domainValidationError("PROJECT_ACCESS_DENIED");
     }
 
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.EXECUTE_REVIEW)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
     // 結果がない場合はエラー
     if (results.length === 0) {
       throw internalError({
@@ -0,0 +1,90 @@
+import { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
+import { IReviewResultRepository } from "@/application/shared/port/repository/IReviewResultRepository";
+import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import { IProjectRepository } from "@/application/shared/port/repository";
+import { ReviewTargetDto, ReviewTargetId } from "@/domain/reviewTarget";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * レビュー対象承認コマンド（入力DTO）
+ */
+export interface SignOffReviewTargetCommand {
+  /** レビュー対象ID */
+  reviewTargetId: string;
+  /** 実行ユーザーID（権限確認・承認者として記録） */
+  userId: string;
+}
+
+/**
+ * レビュー対象承認サービス
+ * レビュアーがレビュー結果全体を確認し、最終判定として承認（サインオフ）する
+ */
+export class SignOffReviewTargetService {
+  constructor(
+    private readonly reviewTargetRepository: IReviewTargetRepository,
+    private readonly reviewResultRepository: IReviewResultRepository,
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * レビュー対象を承認
+   * @param command 承認コマンド
+   * @returns 承認後のレビュー対象
+   */
+  async execute(command: SignOffReviewTargetCommand): Promise<ReviewTargetDto> {
+    const { reviewTargetId, userId } = command;
+
+    // レビュー対象の取得
+    const reviewTargetIdVo = ReviewTargetId.reconstruct(reviewTargetId);
+    const reviewTarget =
+      await this.reviewTargetRepository.findById(reviewTargetIdVo);
+    if (!reviewTarget) {
+      throw domainValidationError("REVIEW_TARGET_NOT_FOUND");
+    }
+
+    // レビュースペースの存在確認
+    const reviewSpaceIdVo = ReviewSpaceId.reconstruct(
+      reviewTarget.reviewSpaceId.value,
+    );
+    const reviewSpace =
+      await this.reviewSpaceRepository.findById(reviewSpaceIdVo);
+    if (!reviewSpace) {
+      throw domainValidationError("REVIEW_SPACE_NOT_FOUND");
+    }
+
+    // プロジェクトの存在確認
+    const projectId = ProjectId.reconstruct(reviewSpace.projectId.value);
+    const project = await this.projectRepository.findById(projectId);
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+
+    // プロジェクトへのアクセス権確認
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("REVIEW_TARGET_ACCESS_DENIED");
+    }
+
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.ADJUDICATE_REVIEW)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
+    // 異議ありのレビュー結果が残っている場合は承認不可
+    const reviewResults =
+      await this.reviewResultRepository.findByReviewTargetId(reviewTargetIdVo);
+    const hasDisputed = reviewResults.some(
+      (result) => result.adjudication?.disposition.isDisputed() ?? false,
+    );
+    if (hasDisputed) {
+      throw domainValidationError("REVIEW_TARGET_SIGN_OFF_HAS_DISPUTED");
+    }
+
+    const signedOff = reviewTarget.signOff(userId);
+    await this.reviewTargetRepository.save(signedOff);
+
+    return signedOff.toDto();
+  }
+}
@@ -4,7 +4,8 @@ import { IReviewSpaceRepository } from "@/application/shared/port/repository/IRe
 import { IProjectRepository } from "@/application/shared/port/repository";
 import { ReviewTarget } from "@/domain/reviewTarget";
 import { ReviewSpaceId } from "@/domain/reviewSpace";
-import { ProjectId } from "@/domain/project";
+import type { CheckListItemSeverityValue } from "@/domain/checkListItem";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
 import { domainValidationError, internalError } from "@/lib/server/error";
 import type { EvaluationCriterion } from "@/application/mastra";
 
@@ -44,6 +45,12 @@ export interface CheckListItemDto {
   id: string;
   /** チェック項目内容 */
   content: string;
+  /** カテゴリ */
+  category: string | null;
+  /** 重要度 */
+  severity: CheckListItemSeverityValue;
+  /** レビュアー向けガイダンス・判定例 */
+  guidance: string | null;
 }
 
 /**
@@ -102,6 +109,11 @@ export class StartApiReviewService {
       throw domainValidationError("PROJECT_ACCESS_DENIED");
     }
 
+    // 権限確認
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.EXECUTE_REVIEW)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
     // チェックリスト項目の取得
     const checkListItems =
       await this.checkListItemRepository.findByReviewSpaceId(reviewSpaceIdVo);
@@ -139,6 +151,9 @@ export class StartApiReviewService {
       (item) => ({
         id: item.id.value,
         content: item.content.value,
+        category: item.category.value,
+        severity: item.severity.value,
+        guidance: item.guidance.value,
       }),
     );
 
@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  CompareReviewTargetRevisionsService,
+  type CompareReviewTargetRevisionsCommand,
+} from "../CompareReviewTargetRevisionsService";
+import type { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
+import type { IReviewResultRepository } from "@/application/shared/port/repository/IReviewResultRepository";
+import type { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import type { IProjectRepository } from "@/application/shared/port/repository";
+import { ReviewSpace } from "@/domain/reviewSpace";
+import { Project } from "@/domain/project";
+import { ReviewTarget, ReviewTargetId } from "@/domain/reviewTarget";
+import { ReviewResult } from "@/domain/reviewResult";
+
+describe("CompareReviewTargetRevisionsService", () => {
+  // モックリポジトリ
+  const mockReviewTargetRepository: IReviewTargetRepository = {
+    findById: vi.fn(),
+    findByReviewSpaceId: vi.fn(),
+    findByRevisionGroupId: vi.fn(),
+    countByReviewSpaceId: vi.fn(),
+    summarizeByReviewSpaceIds: vi.fn(),
+    save: vi.fn(),
+    saveRevision: vi.fn(),
+    delete: vi.fn(),
+  };
+
+  const mockReviewResultRepository: IReviewResultRepository = {
+    findById: vi.fn(),
+    findByReviewTargetId: vi.fn(),
+    countByReviewTargetId: vi.fn(),
+    save: vi.fn(),
+    saveMany: vi.fn(),
+    delete: vi.fn(),
+    deleteByReviewTargetId: vi.fn(),
+  };
+
+  const mockReviewSpaceRepository: IReviewSpaceRepository = {
+    findById: vi.fn(),
+    findByProjectId: vi.fn(),
+    countByProjectId: vi.fn(),
+    save: vi.fn(),
+    delete: vi.fn(),
+    updateChecklistGenerationError: vi.fn(),
+  };
+
+  const mockProjectRepository: IProjectRepository = {
+    findById: vi.fn(),
+    findByMemberId: vi.fn(),
+    countByMemberId: vi.fn(),
+    findAll: vi.fn(),
+    countAll: vi.fn(),
+    save: vi.fn(),
+    delete: vi.fn(),
+  };
+
+  let service: CompareReviewTargetRevisionsService;
+
+  // テスト用データ（有効なUUID v4形式）
+  const testProjectId = "550e8400-e29b-41d4-a716-446655440001";
+  const testReviewSpaceId = "550e8400-e29b-41d4-a716-446655440002";
+  const testUserId = "550e8400-e29b-41d4-a716-446655440003";
+  const testBaseTargetId = "550e8400-e29b-41d4-a716-446655440004";
+  const testCompareTargetId = "550e8400-e29b-41d4-a716-446655440005";
+  const testOtherTargetId = "550e8400-e29b-41d4-a716-446655440006";
+
+  const now = new Date();
+
+  const testProject = Project.reconstruct({
+    id: testProjectId,
+    name: "テストプロジェクト",
+    description: null,
+    encryptedApiKey: null,
+    members: [{ userId: testUserId, role: "owner", createdAt: now }],
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const testReviewSpace = ReviewSpace.reconstruct({
+    id: testReviewSpaceId,
+    projectId: testProjectId,
+    name: "テストスペース",
+    description: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const createTestReviewTarget = (
+    id: string,
+    revisionGroupId: string,
+    revision: number,
+  ) =>
+    ReviewTarget.reconstruct({
+      id,
+      reviewSpaceId: testReviewSpaceId,
+      revisionGroupId,
+      revision,
+      name: "基本設計書",
+      status: "completed",
+      reviewType: "small",
+      reviewSettings: null,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+  const targets = new Map([
+    [
+      testBaseTargetId,
+      createTestReviewTarget(testBaseTargetId, testBaseTargetId, 1),
+    ],
+    [
+      testCompareTargetId,
+      createTestReviewTarget(testCompareTargetId, testBaseTargetId, 2),
+    ],
+    [
+      testOtherTargetId,
+      createTestReviewTarget(testOtherTargetId, testOtherTargetId, 1),
+    ],
+  ]);
+
+  const results = new Map([
+    [
+      testBaseTargetId,
+      [
+        ReviewResult.createSuccess({
+          reviewTargetId: testBaseTargetId,
+          checkListItemContent: "目次があるか",
+          evaluation: "C",
+          comment: "目次がありません",
+        }),
+      ],
+    ],
+    [
+      testCompareTargetId,
+      [
+        ReviewResult.createSuccess({
+          reviewTargetId: testCompareTargetId,
+          checkListItemContent: "目次があるか",
+          evaluation: "A",
+          comment: "目次があります",
+        }),
+      ],
+    ],
+  ]);
+
+  const command: CompareReviewTargetRevisionsCommand = {
+    baseReviewTargetId: testBaseTargetId,
+    compareReviewTargetId: testCompareTargetId,
+    userId: testUserId,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mockReviewTargetRepository.findById).mockImplementation(
+      async (id: ReviewTargetId) => targets.get(id.value) ?? null,
+    );
+    vi.mocked(
+      mockReviewResultRepository.findByReviewTargetId,
+    ).mockImplementation(
+      async (id: ReviewTargetId) => results.get(id.value) ?? [],
+    );
+    vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(
+      testReviewSpace,
+    );
+    vi.mocked(mockProjectRepository.findById).mockResolvedValue(testProject);
+    service = new CompareReviewTargetRevisionsService(
+      mockReviewTargetRepository,
+      mockReviewResultRepository,
+      mockReviewSpaceRepository,
+      mockProjectRepository,
+    );
+  });
+
+  describe("正常系", () => {
+    it("2つのリビジョンのレビュー結果を比較できる", async () => {
+      const result = await service.execute(command);
+
+      expect(result.base).toMatchObject({ id: testBaseTargetId, revision: 1 });
+      expect(result.compare).toMatchObject({
+        id: testCompareTargetId,
+        revision: 2,
+      });
+      expect(result.comparison.items).toEqual([
+        {
+          checkListItemContent: "目次があるか",
+          status: "improved",
+          baseEvaluation: "C",
+          compareEvaluation: "A",
+          baseComment: "目次がありません",
+          compareComment: "目次があります",
+          commentChanged: true,
+        },
+      ]);
+      expect(result.comparison.summary.improved).toBe(1);
+    });
+  });
+
+  describe("異常系", () => {
+    it("レビュー対象が存在しない場合はエラーになる", async () => {
+      await expect(
+        service.execute({
+          ...command,
+          compareReviewTargetId: "550e8400-e29b-41d4-a716-446655440099",
+        }),
+      ).rejects.toMatchObject({ messageCode: "REVIEW_TARGET_NOT_FOUND" });
+    });
+
+    it("異なるレビュー対象のリビジョン同士は比較できない", async () => {
+      await expect(
+        service.execute({
+          ...command,
+          compareReviewTargetId: testOtherTargetId,
+        }),
+      ).rejects.toMatchObject({
+        messageCode: "REVIEW_TARGET_REVISION_MISMATCH",
+      });
+      expect(
+        mockReviewResultRepository.findByReviewTargetId,
+      ).not.toHaveBeenCalled();
+    });
+
+    it("プロジェクトのメンバーでない場合はエラーになる", async () => {
+      await expect(
+        service.execute({
+          ...command,
+          userId: "550e8400-e29b-41d4-a716-446655440098",
+        }),
+      ).rejects.toMatchObject({ messageCode: "REVIEW_TARGET_ACCESS_DENIED" });
+    });
+  });
+});
@@ -15,8 +15,11 @@ describe("CompleteApiReviewService", () => {
   const mockReviewTargetRepository: IReviewTargetRepository = {
     findById: vi.fn(),
     findByReviewSpaceId: vi.fn(),
+    findByRevisionGroupId: vi.fn(),
     countByReviewSpaceId: vi.fn(),
+    summarizeByReviewSpaceIds: vi.fn(),
     save: vi.fn(),
+    saveRevision: vi.fn(),
     delete: vi.fn(),
   };
 
@@ -32,6 +35,8 @@ describe("CompleteApiReviewService", () => {
     findById: vi.fn(),
     findByMemberId: vi.fn(),
     countByMemberId: vi.fn(),
+    findAll: vi.fn(),
+    countAll: vi.fn(),
     save: vi.fn(),
     delete: vi.fn(),
   };
@@ -49,7 +54,7 @@ describe("CompleteApiReviewService", () => {
     name: "テストプロジェクト",
     description: null,
     encryptedApiKey: null,
-    members: [{ userId: testUserId, createdAt: new Date() }],
+    members: [{ userId: testUserId, role: "owner", createdAt: new Date() }],
     createdAt: new Date(),
     updatedAt: new Date(),
   });
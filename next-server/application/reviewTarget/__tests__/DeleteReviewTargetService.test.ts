@@ -46,8 +46,11 @@ describe("DeleteReviewTargetService", () => {
   const mockReviewTargetRepository: IReviewTargetRepository = {
     findById: vi.fn(),
     findByReviewSpaceId: vi.fn(),
+    findByRevisionGroupId: vi.fn(),
     countByReviewSpaceId: vi.fn(),
+    summarizeByReviewSpaceIds: vi.fn(),
     save: vi.fn(),
+    saveRevision: vi.fn(),
     delete: vi.fn(),
   };
 
@@ -63,6 +66,8 @@ describe("DeleteReviewTargetService", () => {
     findById: vi.fn(),
     findByMemberId: vi.fn(),
     countByMemberId: vi.fn(),
+    findAll: vi.fn(),
+    countAll: vi.fn(),
     save: vi.fn(),
     delete: vi.fn(),
   };
@@ -74,6 +79,10 @@ describe("DeleteReviewTargetService", () => {
     findDistinctApiKeyHashesInQueue: vi.fn(),
     countQueuedByApiKeyHash: vi.fn(),
     dequeueNextTask: vi.fn(),
+    renewLease: vi.fn(),
+    incrementAiApiRetryCount: vi.fn(),
+    requeueExpiredLeases: vi.fn(),
+    findLeaseExpiredTasks: vi.fn(),
     save: vi.fn(),
     delete: vi.fn(),
     deleteByStatus: vi.fn(),
@@ -98,7 +107,7 @@ describe("DeleteReviewTargetService", () => {
     name: "テストプロジェクト",
     description: null,
     encryptedApiKey: null,
-    members: [{ userId: testUserId, createdAt: now }],
+    members: [{ userId: testUserId, role: "owner", createdAt: now }],
     createdAt: now,
     updatedAt: now,
   });
@@ -139,6 +148,10 @@ describe("DeleteReviewTargetService", () => {
       updatedAt: now,
       startedAt: null,
       completedAt: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      deliveryCount: 0,
+      aiApiRetryCount: 0,
       fileMetadata: [],
     });
 
@@ -407,6 +420,10 @@ describe("DeleteReviewTargetService", () => {
         updatedAt: now,
         startedAt: now,
         completedAt: null,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        deliveryCount: 0,
+        aiApiRetryCount: 0,
         fileMetadata: [],
       });
 
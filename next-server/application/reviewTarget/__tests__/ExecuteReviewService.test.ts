@@ -7,6 +7,7 @@ import type { IReviewTargetRepository } from "@/application/shared/port/reposito
 import type { ICheckListItemRepository } from "@/application/shared/port/repository/ICheckListItemRepository";
 import type { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
 import type {
+  IAiTokenUsageRepository,
   IProjectRepository,
   ISystemSettingRepository,
 } from "@/application/shared/port/repository";
@@ -14,6 +15,8 @@ import { AiTaskQueueService } from "@/application/aiTask/AiTaskQueueService";
 import { ReviewSpace } from "@/domain/reviewSpace";
 import { Project } from "@/domain/project";
 import { CheckListItem } from "@/domain/checkListItem";
+import { ReviewTarget } from "@/domain/reviewTarget";
+import { SystemSetting } from "@/domain/system-setting";
 import { AI_TASK_TYPE } from "@/domain/aiTask";
 import type { RawUploadFileMeta, FileBuffersMap } from "@/application/mastra";
 
@@ -49,8 +52,11 @@ describe("ExecuteReviewService", () => {
   const mockReviewTargetRepository: IReviewTargetRepository = {
     findById: vi.fn(),
     findByReviewSpaceId: vi.fn(),
+    findByRevisionGroupId: vi.fn(),
     countByReviewSpaceId: vi.fn(),
+    summarizeByReviewSpaceIds: vi.fn(),
     save: vi.fn(),
+    saveRevision: vi.fn(),
     delete: vi.fn(),
   };
 
@@ -79,6 +85,8 @@ describe("ExecuteReviewService", () => {
     findById: vi.fn(),
     findByMemberId: vi.fn(),
     countByMemberId: vi.fn(),
+    findAll: vi.fn(),
+    countAll: vi.fn(),
     save: vi.fn(),
     delete: vi.fn(),
   };
@@ -119,7 +127,7 @@ describe("ExecuteReviewService", () => {
     name: "テストプロジェクト",
     description: null,
     encryptedApiKey: null,
-    members: [{ userId: testUserId, createdAt: new Date() }],
+    members: [{ userId: testUserId, role: "owner", createdAt: new Date() }],
     createdAt: new Date(),
     updatedAt: new Date(),
   });
@@ -138,6 +146,10 @@ describe("ExecuteReviewService", () => {
       id: testCheckListItemId1,
       reviewSpaceId: testReviewSpaceId,
       content: "チェック項目1",
+      category: null,
+      displayOrder: 0,
+      severity: "medium",
+      guidance: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     }),
@@ -145,6 +157,10 @@ describe("ExecuteReviewService", () => {
       id: testCheckListItemId2,
       reviewSpaceId: testReviewSpaceId,
       content: "チェック項目2",
+      category: null,
+      displayOrder: 0,
+      severity: "medium",
+      guidance: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     }),
@@ -271,6 +287,44 @@ describe("ExecuteReviewService", () => {
       );
     });
 
+    it("アーカイブを含む場合は大量レビューとしてタスクが登録される", async () => {
+      vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(
+        testReviewSpace,
+      );
+      vi.mocked(mockProjectRepository.findById).mockResolvedValue(testProject);
+      vi.mocked(
+        mockCheckListItemRepository.findByReviewSpaceId,
+      ).mockResolvedValue(testCheckListItems);
+
+      const command: ExecuteReviewCommand = {
+        reviewSpaceId: testReviewSpaceId,
+        name: "テストレビュー",
+        userId: testUserId,
+        employeeId: testEmployeeId,
+        files: [
+          {
+            id: "file-1",
+            name: "src.zip",
+            type: "application/zip",
+            size: 1000,
+            processMode: "text",
+            archiveOptions: { excludePatterns: ["*.test.ts"] },
+          },
+        ],
+        fileBuffers: createTestFileBuffers(),
+        reviewType: "small",
+      };
+
+      await service.execute(command);
+
+      const enqueueCall = mockEnqueueTask.mock.calls[0][0];
+      expect(enqueueCall.taskType).toBe(AI_TASK_TYPE.LARGE_REVIEW);
+      expect(enqueueCall.payload.reviewType).toBe("large");
+      expect(enqueueCall.payload.files[0].archiveOptions).toEqual({
+        excludePatterns: ["*.test.ts"],
+      });
+    });
+
     it("レビュー設定付きでタスクが登録される", async () => {
       vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(
         testReviewSpace,
@@ -314,6 +368,177 @@ describe("ExecuteReviewService", () => {
         ],
       });
     });
+
+    it("大量レビューの場合、モデルのコンテキストウィンドウから分割設定を確定する", async () => {
+      vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(
+        testReviewSpace,
+      );
+      vi.mocked(mockProjectRepository.findById).mockResolvedValue(testProject);
+      vi.mocked(
+        mockCheckListItemRepository.findByReviewSpaceId,
+      ).mockResolvedValue(testCheckListItems);
+      vi.mocked(mockSystemSettingRepository.find).mockResolvedValue(
+        SystemSetting.create({
+          apiKey: null,
+          apiUrl: null,
+          apiModel: null,
+          modelContextWindows: [
+            {
+              model: "test-model",
+              contextWindowTokens: 32000,
+              maxOutputTokens: 4000,
+            },
+          ],
+        }),
+      );
+
+      await service.execute({
+        reviewSpaceId: testReviewSpaceId,
+        name: "テストレビュー",
+        userId: testUserId,
+        employeeId: testEmployeeId,
+        files: testFiles,
+        fileBuffers: createTestFileBuffers(),
+        reviewType: "large",
+        reviewSettings: {
+          chunking: { strategy: "tokens", overlap: 200 },
+        },
+      });
+
+      const enqueueCall = mockEnqueueTask.mock.calls[0][0];
+      expect(enqueueCall.payload.chunkingConfig).toEqual({
+        strategy: "tokens",
+        chunkSize: 14000,
+        overlap: 200,
+        maxPagesPerChunk: null,
+        pageOverlap: 3,
+      });
+    });
+  });
+
+  describe("リビジョン", () => {
+    const testPreviousTargetId = "550e8400-e29b-41d4-a716-446655440007";
+    const testLatestTargetId = "550e8400-e29b-41d4-a716-446655440008";
+
+    const createTestReviewTarget = (
+      id: string,
+      revision: number,
+      reviewSpaceId = testReviewSpaceId,
+    ) =>
+      ReviewTarget.reconstruct({
+        id,
+        reviewSpaceId,
+        revisionGroupId: testPreviousTargetId,
+        revision,
+        name: "基本設計書",
+        status: "completed",
+        reviewType: "small",
+        reviewSettings: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+    beforeEach(() => {
+      vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(
+        testReviewSpace,
+      );
+      vi.mocked(mockProjectRepository.findById).mockResolvedValue(testProject);
+      vi.mocked(
+        mockCheckListItemRepository.findByReviewSpaceId,
+      ).mockResolvedValue(testCheckListItems);
+    });
+
+    it("前リビジョンを指定すると最新リビジョンの次のリビジョンとして登録される", async () => {
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+        createTestReviewTarget(testPreviousTargetId, 1),
+      );
+      vi.mocked(
+        mockReviewTargetRepository.findByRevisionGroupId,
+      ).mockResolvedValue([
+        createTestReviewTarget(testPreviousTargetId, 1),
+        createTestReviewTarget(testLatestTargetId, 2),
+      ]);
+
+      vi.mocked(mockReviewTargetRepository.saveRevision).mockImplementation(
+        async (target) => target,
+      );
+
+      await service.execute({
+        reviewSpaceId: testReviewSpaceId,
+        name: "基本設計書（修正版）",
+        userId: testUserId,
+        employeeId: testEmployeeId,
+        files: testFiles,
+        fileBuffers: createTestFileBuffers(),
+        previousReviewTargetId: testPreviousTargetId,
+      });
+
+      const savedTarget = vi.mocked(mockReviewTargetRepository.saveRevision)
+        .mock.calls[0][0];
+      expect(savedTarget.revisionGroupId.value).toBe(testPreviousTargetId);
+      expect(savedTarget.revision).toBe(3);
+      expect(savedTarget.name.value).toBe("基本設計書（修正版）");
+      expect(mockReviewTargetRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("保存時に採番し直されたリビジョンのレビュー対象でタスクを登録する", async () => {
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+        createTestReviewTarget(testPreviousTargetId, 1),
+      );
+      vi.mocked(
+        mockReviewTargetRepository.findByRevisionGroupId,
+      ).mockResolvedValue([createTestReviewTarget(testPreviousTargetId, 1)]);
+      // 同時に登録された別のリビジョンがあり、保存時にリビジョン3として採番された
+      const renumberedTarget = createTestReviewTarget(
+        testLatestTargetId,
+        3,
+      ).toQueued();
+      vi.mocked(mockReviewTargetRepository.saveRevision).mockResolvedValue(
+        renumberedTarget,
+      );
+
+      const result = await service.execute({
+        reviewSpaceId: testReviewSpaceId,
+        name: "基本設計書（修正版）",
+        userId: testUserId,
+        employeeId: testEmployeeId,
+        files: testFiles,
+        fileBuffers: createTestFileBuffers(),
+        previousReviewTargetId: testPreviousTargetId,
+      });
+
+      expect(result.reviewTargetId).toBe(testLatestTargetId);
+      expect(mockEnqueueTask).toHaveBeenCalledWith(
+        expect.objectContaining({
+          payload: expect.objectContaining({
+            reviewTargetId: testLatestTargetId,
+          }),
+        }),
+      );
+    });
+
+    it("前リビジョンが別のレビュースペースに属する場合エラーになる", async () => {
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+        createTestReviewTarget(
+          testPreviousTargetId,
+          1,
+          "550e8400-e29b-41d4-a716-446655440099",
+        ),
+      );
+
+      await expect(
+        service.execute({
+          reviewSpaceId: testReviewSpaceId,
+          name: "基本設計書",
+          userId: testUserId,
+          employeeId: testEmployeeId,
+          files: testFiles,
+          fileBuffers: createTestFileBuffers(),
+          previousReviewTargetId: testPreviousTargetId,
+        }),
+      ).rejects.toMatchObject({ messageCode: "REVIEW_TARGET_NOT_FOUND" });
+      expect(mockReviewTargetRepository.save).not.toHaveBeenCalled();
+    });
   });
 
   describe("異常系 - 入力バリデーション", () => {
@@ -483,4 +708,76 @@ describe("ExecuteReviewService", () => {
       });
     });
   });
+
+  describe("月間トークン上限", () => {
+    const budgetProject = Project.reconstruct({
+      id: testProjectId,
+      name: "テストプロジェクト",
+      description: null,
+      encryptedApiKey: null,
+      monthlyTokenBudget: 1000,
+      members: [{ userId: testUserId, role: "owner", createdAt: new Date() }],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    const createServiceWithUsage = (totalTokens: number) => {
+      const mockAiTokenUsageRepository: IAiTokenUsageRepository = {
+        save: vi.fn(),
+        sumByProjectId: vi.fn().mockResolvedValue({
+          requestCount: 1,
+          promptTokens: totalTokens,
+          completionTokens: 0,
+          totalTokens,
+        }),
+        sumByProjectIdGroupByTaskType: vi.fn(),
+        sumGroupByProject: vi.fn(),
+      };
+      return new ExecuteReviewService(
+        mockReviewTargetRepository,
+        mockCheckListItemRepository,
+        mockReviewSpaceRepository,
+        mockProjectRepository,
+        mockSystemSettingRepository,
+        mockAiTaskQueueService as unknown as AiTaskQueueService,
+        undefined,
+        mockAiTokenUsageRepository,
+      );
+    };
+
+    const command = (): ExecuteReviewCommand => ({
+      reviewSpaceId: testReviewSpaceId,
+      name: "テストレビュー",
+      userId: testUserId,
+      employeeId: testEmployeeId,
+      files: testFiles,
+      fileBuffers: createTestFileBuffers(),
+    });
+
+    beforeEach(() => {
+      vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(
+        testReviewSpace,
+      );
+      vi.mocked(mockProjectRepository.findById).mockResolvedValue(
+        budgetProject,
+      );
+      vi.mocked(
+        mockCheckListItemRepository.findByReviewSpaceId,
+      ).mockResolvedValue(testCheckListItems);
+    });
+
+    it("今月の使用量が上限に達している場合はキューに登録せずエラーになる", async () => {
+      await expect(
+        createServiceWithUsage(1000).execute(command()),
+      ).rejects.toMatchObject({ messageCode: "AI_TOKEN_BUDGET_EXCEEDED" });
+      expect(mockEnqueueTask).not.toHaveBeenCalled();
+      expect(mockReviewTargetRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("今月の使用量が上限未満の場合はキューに登録される", async () => {
+      await createServiceWithUsage(999).execute(command());
+
+      expect(mockEnqueueTask).toHaveBeenCalledTimes(1);
+    });
+  });
 });
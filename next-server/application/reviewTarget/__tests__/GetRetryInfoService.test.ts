@@ -27,8 +27,11 @@ const TEST_USER_ID = randomUUID();
 const createMockReviewTargetRepository = (): IReviewTargetRepository => ({
   findById: vi.fn(),
   findByReviewSpaceId: vi.fn(),
+  findByRevisionGroupId: vi.fn(),
   countByReviewSpaceId: vi.fn(),
+  summarizeByReviewSpaceIds: vi.fn(),
   save: vi.fn(),
+  saveRevision: vi.fn(),
   delete: vi.fn(),
 });
 
@@ -76,6 +79,8 @@ const createMockProjectRepository = (): IProjectRepository => ({
   findById: vi.fn(),
   findByMemberId: vi.fn(),
   countByMemberId: vi.fn(),
+  findAll: vi.fn(),
+  countAll: vi.fn(),
   save: vi.fn(),
   delete: vi.fn(),
 });
@@ -104,7 +109,7 @@ describe("GetRetryInfoService", () => {
     name: "テストプロジェクト",
     description: null,
     encryptedApiKey: null,
-    members: [{ userId: TEST_USER_ID, createdAt: new Date() }],
+    members: [{ userId: TEST_USER_ID, role: "owner", createdAt: new Date() }],
     createdAt: new Date(),
     updatedAt: new Date(),
   });
@@ -172,6 +177,7 @@ describe("GetRetryInfoService", () => {
         evaluation: null,
         comment: null,
         errorMessage: options.errorMessage,
+        evidence: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       });
@@ -183,6 +189,7 @@ describe("GetRetryInfoService", () => {
       evaluation: options.evaluation ?? "A",
       comment: options.comment ?? "コメント",
       errorMessage: null,
+      evidence: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     });
@@ -210,6 +217,10 @@ describe("GetRetryInfoService", () => {
       id: randomUUID(),
       reviewSpaceId: TEST_SPACE_ID,
       content,
+      category: null,
+      displayOrder: 0,
+      severity: "medium",
+      guidance: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     });
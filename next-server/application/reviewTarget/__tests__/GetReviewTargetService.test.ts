@@ -6,20 +6,29 @@ import {
 import type { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
 import type { IReviewResultRepository } from "@/application/shared/port/repository/IReviewResultRepository";
 import type { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
-import type { IProjectRepository } from "@/application/shared/port/repository";
+import type { IAiTaskRepository } from "@/application/shared/port/repository/IAiTaskRepository";
+import type {
+  IProjectRepository,
+  IUserRepository,
+} from "@/application/shared/port/repository";
 import { ReviewSpace } from "@/domain/reviewSpace";
 import { Project } from "@/domain/project";
 import { ReviewTarget } from "@/domain/reviewTarget";
 import { ReviewResult } from "@/domain/reviewResult";
+import { User } from "@/domain/user";
 import { DEFAULT_EVALUATION_CRITERIA } from "@/domain/reviewSpace/EvaluationCriteria";
+import { AiTask, AI_TASK_STATUS, AI_TASK_TYPE } from "@/domain/aiTask";
 
 describe("GetReviewTargetService", () => {
   // モックリポジトリ
   const mockReviewTargetRepository: IReviewTargetRepository = {
     findById: vi.fn(),
     findByReviewSpaceId: vi.fn(),
+    findByRevisionGroupId: vi.fn(),
     countByReviewSpaceId: vi.fn(),
+    summarizeByReviewSpaceIds: vi.fn(),
     save: vi.fn(),
+    saveRevision: vi.fn(),
     delete: vi.fn(),
   };
 
@@ -45,10 +54,19 @@ describe("GetReviewTargetService", () => {
     findById: vi.fn(),
     findByMemberId: vi.fn(),
     countByMemberId: vi.fn(),
+    findAll: vi.fn(),
+    countAll: vi.fn(),
     save: vi.fn(),
     delete: vi.fn(),
   };
 
+  const mockUserRepository = {
+    findById: vi.fn(),
+    findByIds: vi.fn(),
+    findByEmployeeId: vi.fn(),
+    save: vi.fn(),
+  } as unknown as IUserRepository;
+
   let service: GetReviewTargetService;
 
   // テスト用データ（有効なUUID v4形式）
@@ -68,7 +86,7 @@ describe("GetReviewTargetService", () => {
     name: "テストプロジェクト",
     description: null,
     encryptedApiKey: null,
-    members: [{ userId: testUserId, createdAt: now }],
+    members: [{ userId: testUserId, role: "owner", createdAt: now }],
     createdAt: now,
     updatedAt: now,
   });
@@ -106,6 +124,7 @@ describe("GetReviewTargetService", () => {
       evaluation: "A",
       comment: "問題ありません",
       errorMessage: null,
+      evidence: null,
       createdAt: now,
       updatedAt: now,
     }),
@@ -116,6 +135,7 @@ describe("GetReviewTargetService", () => {
       evaluation: "B",
       comment: "一部改善が必要",
       errorMessage: null,
+      evidence: null,
       createdAt: now,
       updatedAt: now,
     }),
@@ -128,6 +148,7 @@ describe("GetReviewTargetService", () => {
       mockReviewResultRepository,
       mockReviewSpaceRepository,
       mockProjectRepository,
+      mockUserRepository,
     );
   });
 
@@ -161,6 +182,11 @@ describe("GetReviewTargetService", () => {
       expect(result.reviewResults).toHaveLength(2);
       expect(result.reviewResults[0].evaluation).toBe("A");
       expect(result.reviewResults[1].evaluation).toBe("B");
+      expect(result.reviewResults[0].adjudication).toBeNull();
+      expect(result.reviewResults[0].finalEvaluation).toBe("A");
+      expect(result.signOff).toBeNull();
+      // 判定者・承認者がいない場合はユーザを取得しない
+      expect(mockUserRepository.findByIds).not.toHaveBeenCalled();
       expect(result.createdAt).toBe(now);
       expect(result.updatedAt).toBe(now);
     });
@@ -228,6 +254,154 @@ describe("GetReviewTargetService", () => {
       expect(result.reviewSettings).toBeNull();
       expect(result.reviewResults).toHaveLength(0);
     });
+
+    it("レビュアー判定と承認情報を表示名付きで取得できる", async () => {
+      const reviewerId = "550e8400-e29b-41d4-a716-446655440009";
+      const signedOffAt = new Date("2024-02-01T00:00:00Z");
+      const signedOffTarget = ReviewTarget.reconstruct({
+        id: testReviewTargetId,
+        reviewSpaceId: testReviewSpaceId,
+        name: "承認済みレビュー",
+        status: "completed",
+        reviewType: "small",
+        reviewSettings: null,
+        signedOffBy: testUserId,
+        signedOffAt,
+        createdAt: now,
+        updatedAt: now,
+      });
+      const adjudicatedResult = ReviewResult.reconstruct({
+        id: testReviewResultId1,
+        reviewTargetId: testReviewTargetId,
+        checkListItemContent: "セキュリティ要件を満たしているか",
+        evaluation: "A",
+        comment: "問題ありません",
+        errorMessage: null,
+        evidence: null,
+        adjudication: {
+          evaluation: "C",
+          comment: null,
+          disposition: "fixed",
+          reviewedBy: reviewerId,
+          reviewedAt: now,
+        },
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+        signedOffTarget,
+      );
+      vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(
+        testReviewSpace,
+      );
+      vi.mocked(mockProjectRepository.findById).mockResolvedValue(testProject);
+      vi.mocked(
+        mockReviewResultRepository.findByReviewTargetId,
+      ).mockResolvedValue([adjudicatedResult]);
+      vi.mocked(mockUserRepository.findByIds).mockResolvedValue([
+        User.reconstruct({
+          id: reviewerId,
+          employeeId: "EMP001",
+          displayName: "確認 太郎",
+          isAdmin: false,
+          createdAt: now,
+          updatedAt: now,
+        }),
+        User.reconstruct({
+          id: testUserId,
+          employeeId: "EMP002",
+          displayName: "承認 花子",
+          isAdmin: false,
+          createdAt: now,
+          updatedAt: now,
+        }),
+      ]);
+
+      const result = await service.execute({
+        reviewTargetId: testReviewTargetId,
+        userId: testUserId,
+      });
+
+      expect(result.reviewResults[0].evaluation).toBe("A");
+      expect(result.reviewResults[0].finalEvaluation).toBe("C");
+      expect(result.reviewResults[0].finalComment).toBe("問題ありません");
+      expect(result.reviewResults[0].adjudication).toEqual({
+        evaluation: "C",
+        comment: null,
+        disposition: "fixed",
+        reviewedByName: "確認 太郎",
+        reviewedAt: now,
+      });
+      expect(result.signOff).toEqual({
+        signedOffByName: "承認 花子",
+        signedOffAt,
+      });
+      expect(mockUserRepository.findByIds).toHaveBeenCalledTimes(1);
+    });
+
+    it("レビュー実行中の場合はタスクのAI APIリトライ回数を取得できる", async () => {
+      const reviewingTarget = ReviewTarget.reconstruct({
+        id: testReviewTargetId,
+        reviewSpaceId: testReviewSpaceId,
+        name: "実行中レビュー",
+        status: "reviewing",
+        reviewType: "small",
+        reviewSettings: null,
+        createdAt: now,
+        updatedAt: now,
+      });
+      const reviewTask = AiTask.reconstruct({
+        id: "550e8400-e29b-41d4-a716-446655440009",
+        taskType: AI_TASK_TYPE.SMALL_REVIEW,
+        status: AI_TASK_STATUS.PROCESSING,
+        apiKeyHash: "test_hash",
+        priority: 5,
+        payload: { reviewTargetId: testReviewTargetId },
+        errorMessage: null,
+        createdAt: now,
+        updatedAt: now,
+        startedAt: now,
+        completedAt: null,
+        leaseOwner: "worker-1",
+        leaseExpiresAt: now,
+        deliveryCount: 1,
+        aiApiRetryCount: 3,
+        fileMetadata: [],
+      });
+      const mockAiTaskRepository = {
+        findByReviewTargetId: vi.fn().mockResolvedValue(reviewTask),
+      } as unknown as IAiTaskRepository;
+      const serviceWithTask = new GetReviewTargetService(
+        mockReviewTargetRepository,
+        mockReviewResultRepository,
+        mockReviewSpaceRepository,
+        mockProjectRepository,
+        mockUserRepository,
+        mockAiTaskRepository,
+      );
+
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+        reviewingTarget,
+      );
+      vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(
+        testReviewSpace,
+      );
+      vi.mocked(mockProjectRepository.findById).mockResolvedValue(testProject);
+      vi.mocked(
+        mockReviewResultRepository.findByReviewTargetId,
+      ).mockResolvedValue([]);
+
+      const result = await serviceWithTask.execute({
+        reviewTargetId: testReviewTargetId,
+        userId: testUserId,
+      });
+
+      expect(result.aiApiRetryCount).toBe(3);
+      expect(mockAiTaskRepository.findByReviewTargetId).toHaveBeenCalledWith(
+        testReviewTargetId,
+      );
+    });
   });
 
   describe("異常系", () => {
@@ -0,0 +1,262 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { randomUUID } from "crypto";
+import { PreviewDocumentChunksService } from "../PreviewDocumentChunksService";
+import type { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import type {
+  IProjectRepository,
+  ISystemSettingRepository,
+} from "@/application/shared/port/repository";
+import type { IFileTextExtractor } from "@/application/shared/port/textExtractor";
+import type { IArchiveExtractor } from "@/application/shared/port/archive";
+import { ReviewSpace } from "@/domain/reviewSpace";
+import { Project } from "@/domain/project";
+import { SystemSetting } from "@/domain/system-setting";
+
+// resolveAiApiConfigのモック
+vi.mock("@/application/shared/lib/resolveAiApiConfig", () => ({
+  resolveAiApiConfig: vi.fn().mockReturnValue({
+    apiKey: "test-api-key",
+    apiUrl: "https://api.example.com",
+    apiModel: "test-model",
+  }),
+}));
+
+const TEST_SPACE_ID = randomUUID();
+const TEST_PROJECT_ID = randomUUID();
+const TEST_USER_ID = randomUUID();
+const OTHER_USER_ID = randomUUID();
+
+describe("PreviewDocumentChunksService", () => {
+  const testReviewSpace = ReviewSpace.reconstruct({
+    id: TEST_SPACE_ID,
+    projectId: TEST_PROJECT_ID,
+    name: "テストスペース",
+    description: null,
+    defaultReviewSettings: {
+      chunking: { strategy: "characters", chunkSize: 1000, overlap: 0 },
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const testProject = Project.reconstruct({
+    id: TEST_PROJECT_ID,
+    name: "テストプロジェクト",
+    description: null,
+    encryptedApiKey: null,
+    members: [{ userId: TEST_USER_ID, role: "owner", createdAt: new Date() }],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const mockReviewSpaceRepository: IReviewSpaceRepository = {
+    findById: vi.fn(),
+    findByProjectId: vi.fn(),
+    countByProjectId: vi.fn(),
+    save: vi.fn(),
+    delete: vi.fn(),
+    updateChecklistGenerationError: vi.fn(),
+  };
+  const mockProjectRepository: IProjectRepository = {
+    findById: vi.fn(),
+    findByMemberId: vi.fn(),
+    countByMemberId: vi.fn(),
+    findAll: vi.fn(),
+    countAll: vi.fn(),
+    save: vi.fn(),
+    delete: vi.fn(),
+  };
+  const mockSystemSettingRepository: ISystemSettingRepository = {
+    find: vi.fn(),
+    save: vi.fn(),
+  };
+  const mockFileTextExtractor: IFileTextExtractor = {
+    extract: vi.fn(),
+    getAvailableStrategies: vi.fn(),
+    isSupported: vi.fn(),
+    getSupportedExtensions: vi.fn().mockReturnValue([".txt", ".md"]),
+  };
+  const mockArchiveExtractor: IArchiveExtractor = {
+    extract: vi.fn(),
+    isArchive: vi.fn((fileName: string) => fileName.endsWith(".zip")),
+  };
+
+  let service: PreviewDocumentChunksService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(
+      testReviewSpace,
+    );
+    vi.mocked(mockProjectRepository.findById).mockResolvedValue(testProject);
+    vi.mocked(mockSystemSettingRepository.find).mockResolvedValue(null);
+
+    service = new PreviewDocumentChunksService(
+      mockReviewSpaceRepository,
+      mockProjectRepository,
+      mockSystemSettingRepository,
+      mockFileTextExtractor,
+      mockArchiveExtractor,
+    );
+  });
+
+  it("レビュースペースの分割設定でテキストの分割結果を返す", async () => {
+    vi.mocked(mockFileTextExtractor.extract).mockResolvedValue(
+      "あ".repeat(2500),
+    );
+
+    const result = await service.execute({
+      reviewSpaceId: TEST_SPACE_ID,
+      userId: TEST_USER_ID,
+      files: [
+        {
+          name: "設計書.docx",
+          processMode: "text",
+          buffer: Buffer.from("dummy"),
+          pageCount: null,
+        },
+      ],
+    });
+
+    expect(mockFileTextExtractor.extract).toHaveBeenCalledWith(
+      expect.any(Buffer),
+      "設計書.docx",
+      { structured: true },
+    );
+    expect(result.chunkSize).toBe(1000);
+    expect(result.model).toBe("test-model");
+    expect(result.documents[0]).toMatchObject({
+      fileName: "設計書.docx",
+      totalChars: 2500,
+      estimatedTokens: 2500,
+    });
+    expect(
+      result.documents[0].chunks.map(({ start, end }) => [start, end]),
+    ).toEqual([
+      [1, 1000],
+      [1001, 2000],
+      [2001, 2500],
+    ]);
+  });
+
+  it("チャンクサイズが自動の場合はモデルのコンテキストウィンドウから算出する", async () => {
+    vi.mocked(mockSystemSettingRepository.find).mockResolvedValue(
+      SystemSetting.create({
+        apiKey: null,
+        apiUrl: null,
+        apiModel: null,
+        modelContextWindows: [
+          {
+            model: "test-model",
+            contextWindowTokens: 8000,
+            maxOutputTokens: 0,
+          },
+        ],
+      }),
+    );
+    vi.mocked(mockFileTextExtractor.extract).mockResolvedValue("テキスト");
+
+    const result = await service.execute({
+      reviewSpaceId: TEST_SPACE_ID,
+      userId: TEST_USER_ID,
+      files: [
+        {
+          name: "a.txt",
+          processMode: "text",
+          buffer: Buffer.from("dummy"),
+          pageCount: null,
+        },
+      ],
+      chunking: { strategy: "tokens", chunkSize: null },
+    });
+
+    expect(result.strategy).toBe("tokens");
+    expect(result.chunkSize).toBe(4000);
+    expect(result.contextWindowTokens).toBe(8000);
+  });
+
+  it("アーカイブは展開したファイルごと、画像はページ単位で分割結果を返す", async () => {
+    vi.mocked(mockArchiveExtractor.extract).mockResolvedValue([
+      { path: "docs/a.md", buffer: Buffer.from("a") },
+      { path: "docs/b.md", buffer: Buffer.from("b") },
+    ]);
+    vi.mocked(mockFileTextExtractor.extract).mockResolvedValue("本文");
+
+    const result = await service.execute({
+      reviewSpaceId: TEST_SPACE_ID,
+      userId: TEST_USER_ID,
+      files: [
+        {
+          name: "src.zip",
+          processMode: "text",
+          buffer: Buffer.from("zip"),
+          pageCount: null,
+          archiveOptions: { excludePatterns: ["*.log"] },
+        },
+        {
+          name: "図面.pdf",
+          processMode: "image",
+          buffer: null,
+          pageCount: 12,
+        },
+      ],
+      chunking: { maxPagesPerChunk: 5, pageOverlap: 1 },
+    });
+
+    expect(mockArchiveExtractor.extract).toHaveBeenCalledWith(
+      expect.any(Buffer),
+      "src.zip",
+      { excludePatterns: ["*.log"], extensions: [".txt", ".md"] },
+    );
+    expect(result.documents.map((doc) => doc.fileName)).toEqual([
+      "src.zip/docs/a.md",
+      "src.zip/docs/b.md",
+      "図面.pdf",
+    ]);
+    expect(
+      result.documents[2].chunks.map(({ start, end }) => [start, end]),
+    ).toEqual([
+      [1, 5],
+      [5, 9],
+      [9, 12],
+    ]);
+  });
+
+  it("プロジェクトメンバーでない場合はエラー", async () => {
+    await expect(
+      service.execute({
+        reviewSpaceId: TEST_SPACE_ID,
+        userId: OTHER_USER_ID,
+        files: [
+          {
+            name: "a.txt",
+            processMode: "text",
+            buffer: Buffer.from("dummy"),
+            pageCount: null,
+          },
+        ],
+      }),
+    ).rejects.toMatchObject({ messageCode: "PROJECT_ACCESS_DENIED" });
+    expect(mockFileTextExtractor.extract).not.toHaveBeenCalled();
+  });
+
+  it("分割設定が不正な場合はエラー", async () => {
+    await expect(
+      service.execute({
+        reviewSpaceId: TEST_SPACE_ID,
+        userId: TEST_USER_ID,
+        files: [
+          {
+            name: "a.txt",
+            processMode: "text",
+            buffer: Buffer.from("dummy"),
+            pageCount: null,
+          },
+        ],
+        chunking: { chunkSize: 10 },
+      }),
+    ).rejects.toMatchObject({
+      messageCode: "REVIEW_SETTINGS_CHUNKING_INVALID",
+    });
+  });
+});
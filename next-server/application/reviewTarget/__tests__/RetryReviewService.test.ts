@@ -53,8 +53,11 @@ describe("RetryReviewService", () => {
   const mockReviewTargetRepository: IReviewTargetRepository = {
     findById: vi.fn(),
     findByReviewSpaceId: vi.fn(),
+    findByRevisionGroupId: vi.fn(),
     countByReviewSpaceId: vi.fn(),
+    summarizeByReviewSpaceIds: vi.fn(),
     save: vi.fn(),
+    saveRevision: vi.fn(),
     delete: vi.fn(),
   };
 
@@ -93,6 +96,8 @@ describe("RetryReviewService", () => {
     findById: vi.fn(),
     findByMemberId: vi.fn(),
     countByMemberId: vi.fn(),
+    findAll: vi.fn(),
+    countAll: vi.fn(),
     save: vi.fn(),
     delete: vi.fn(),
   };
@@ -144,7 +149,7 @@ describe("RetryReviewService", () => {
     name: "テストプロジェクト",
     description: null,
     encryptedApiKey: null,
-    members: [{ userId: testUserId, createdAt: new Date() }],
+    members: [{ userId: testUserId, role: "owner", createdAt: new Date() }],
     createdAt: new Date(),
     updatedAt: new Date(),
   });
@@ -163,6 +168,10 @@ describe("RetryReviewService", () => {
       id: testCheckListItemId1,
       reviewSpaceId: testReviewSpaceId,
       content: "チェック項目1",
+      category: null,
+      displayOrder: 0,
+      severity: "medium",
+      guidance: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     }),
@@ -170,6 +179,10 @@ describe("RetryReviewService", () => {
       id: testCheckListItemId2,
       reviewSpaceId: testReviewSpaceId,
       content: "チェック項目2",
+      category: null,
+      displayOrder: 0,
+      severity: "medium",
+      guidance: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     }),
@@ -218,6 +231,7 @@ describe("RetryReviewService", () => {
       evaluation: "A",
       comment: "問題ありません",
       errorMessage: null,
+      evidence: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     }),
@@ -228,6 +242,7 @@ describe("RetryReviewService", () => {
       evaluation: null,
       comment: null,
       errorMessage: "AI処理エラー",
+      evidence: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     }),
@@ -655,6 +670,7 @@ describe("RetryReviewService", () => {
           evaluation: "A",
           comment: "問題ありません",
           errorMessage: null,
+          evidence: null,
           createdAt: new Date(),
           updatedAt: new Date(),
         }),
@@ -665,6 +681,7 @@ describe("RetryReviewService", () => {
           evaluation: "A",
           comment: "問題ありません",
           errorMessage: null,
+          evidence: null,
           createdAt: new Date(),
           updatedAt: new Date(),
         }),
@@ -0,0 +1,270 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { randomUUID } from "crypto";
+import { APICallError } from "ai";
+import { RuntimeContext } from "@mastra/core/di";
+import { ReviewDocumentIndex, cosineSimilarity } from "../ReviewDocumentIndex";
+import type {
+  IReviewDocumentCacheRepository,
+  IReviewDocumentChunkRepository,
+  ReviewDocumentChunk,
+} from "@/application/shared/port/repository";
+import type { IEmbeddingProvider } from "@/application/shared/port/embedding";
+import { ReviewDocumentCache } from "@/domain/reviewTarget";
+import {
+  AI_TOKEN_USAGE_CONTEXT_KEY,
+  AiTokenUsageCollector,
+} from "@/application/mastra/lib/aiTokenUsage";
+
+// テスト用のUUID
+const TEST_TARGET_ID = randomUUID();
+const TEST_CACHE_ID = randomUUID();
+
+// モックリポジトリの作成
+const createMockChunkRepository = (): IReviewDocumentChunkRepository => ({
+  replaceByReviewDocumentCacheId: vi.fn(),
+  findByReviewDocumentCacheId: vi.fn(),
+});
+
+const createMockReviewDocumentCacheRepository =
+  (): IReviewDocumentCacheRepository => ({
+    findById: vi.fn(),
+    findByReviewTargetId: vi.fn(),
+    save: vi.fn(),
+    saveMany: vi.fn(),
+    deleteByReviewTargetId: vi.fn(),
+  });
+
+/**
+ * テキストの先頭文字に応じた単位ベクトルを返す埋め込みのモック
+ * a: [1,0,0] / b: [0,1,0] / それ以外: [0,0,1]
+ */
+const createMockEmbeddingProvider = (): IEmbeddingProvider => ({
+  modelId: "test-embedding",
+  apiKey: "embedding-api-key",
+  maxTextsPerCall: 2,
+  embed: vi.fn(async (texts: string[]) => ({
+    embeddings: texts.map((text) => {
+      const key = text.replace(/^#+\s*/, "")[0];
+      return key === "a" ? [1, 0, 0] : key === "b" ? [0, 1, 0] : [0, 0, 1];
+    }),
+    tokens: texts.length * 10,
+  })),
+});
+
+// テスト用のチャンクを作成
+const createChunk = (
+  chunkIndex: number,
+  content: string,
+  embedding: number[],
+): ReviewDocumentChunk => ({
+  reviewDocumentCacheId: TEST_CACHE_ID,
+  chunkIndex,
+  heading: null,
+  content,
+  embedding,
+  embeddingModel: "test-embedding",
+});
+
+describe("ReviewDocumentIndex", () => {
+  let chunkRepository: IReviewDocumentChunkRepository;
+  let cacheRepository: IReviewDocumentCacheRepository;
+  let embeddingProvider: IEmbeddingProvider;
+  let documentIndex: ReviewDocumentIndex;
+
+  beforeEach(() => {
+    chunkRepository = createMockChunkRepository();
+    cacheRepository = createMockReviewDocumentCacheRepository();
+    embeddingProvider = createMockEmbeddingProvider();
+    documentIndex = new ReviewDocumentIndex(
+      chunkRepository,
+      cacheRepository,
+      embeddingProvider,
+    );
+  });
+
+  afterEach(() => {
+    delete process.env.DOCUMENT_RETRIEVAL_TOP_K;
+  });
+
+  describe("buildIndex", () => {
+    it("見出しごとのセクションを埋め込みベクトルと共に保存する", async () => {
+      await documentIndex.buildIndex(
+        TEST_CACHE_ID,
+        "# a章\nalpha\n# b章\nbeta",
+      );
+
+      expect(
+        chunkRepository.replaceByReviewDocumentCacheId,
+      ).toHaveBeenCalledWith(TEST_CACHE_ID, [
+        {
+          reviewDocumentCacheId: TEST_CACHE_ID,
+          chunkIndex: 0,
+          heading: "# a章",
+          content: "# a章\nalpha\n",
+          embedding: [1, 0, 0],
+          embeddingModel: "test-embedding",
+        },
+        {
+          reviewDocumentCacheId: TEST_CACHE_ID,
+          chunkIndex: 1,
+          heading: "# b章",
+          content: "# b章\nbeta",
+          embedding: [0, 1, 0],
+          embeddingModel: "test-embedding",
+        },
+      ]);
+    });
+
+    it("1回の呼び出しの上限ごとに分割し、使用トークン数をRuntimeContextに集計する", async () => {
+      const tokenUsage = new AiTokenUsageCollector();
+      const runtimeContext = new RuntimeContext();
+      runtimeContext.set(AI_TOKEN_USAGE_CONTEXT_KEY, tokenUsage);
+
+      await documentIndex.buildIndex(
+        TEST_CACHE_ID,
+        "# a章\nalpha\n# b章\nbeta\n# c章\ngamma",
+        { runtimeContext },
+      );
+
+      expect(embeddingProvider.embed).toHaveBeenCalledTimes(2);
+      expect(vi.mocked(embeddingProvider.embed).mock.calls[1][0]).toEqual([
+        "# c章\ngamma",
+      ]);
+      expect(tokenUsage.getTotals()).toEqual({
+        requestCount: 2,
+        promptTokens: 30,
+        completionTokens: 0,
+        totalTokens: 30,
+      });
+    });
+
+    it("埋め込みAPIの一時的なエラーはリトライする", async () => {
+      vi.mocked(embeddingProvider.embed).mockRejectedValueOnce(
+        new APICallError({
+          message: "Too Many Requests",
+          url: "https://api.example.com/v1/embeddings",
+          requestBodyValues: {},
+          statusCode: 429,
+          responseHeaders: { "retry-after": "0" },
+        }),
+      );
+
+      await documentIndex.buildIndex(TEST_CACHE_ID, "alpha");
+
+      expect(embeddingProvider.embed).toHaveBeenCalledTimes(2);
+      expect(
+        chunkRepository.replaceByReviewDocumentCacheId,
+      ).toHaveBeenCalledWith(TEST_CACHE_ID, [
+        expect.objectContaining({ embedding: [1, 0, 0] }),
+      ]);
+    });
+
+    it("空のテキストの場合は埋め込みを生成せず既存のインデックスを削除する", async () => {
+      await documentIndex.buildIndex(TEST_CACHE_ID, "  \n");
+
+      expect(embeddingProvider.embed).not.toHaveBeenCalled();
+      expect(
+        chunkRepository.replaceByReviewDocumentCacheId,
+      ).toHaveBeenCalledWith(TEST_CACHE_ID, []);
+    });
+  });
+
+  describe("retrieve", () => {
+    it("クエリごとに類似度の高いセクションを取得し、ドキュメント順に返す", async () => {
+      process.env.DOCUMENT_RETRIEVAL_TOP_K = "1";
+      vi.mocked(chunkRepository.findByReviewDocumentCacheId).mockResolvedValue([
+        createChunk(0, "b-section", [0, 1, 0]),
+        createChunk(1, "c-section", [0, 0, 1]),
+        createChunk(2, "a-section", [0.9, 0.1, 0]),
+      ]);
+
+      const result = await documentIndex.retrieve(TEST_CACHE_ID, [
+        "a-query",
+        "b-query",
+      ]);
+
+      expect(result).toEqual({
+        sections: [
+          { sectionIndex: 0, heading: null, content: "b-section" },
+          { sectionIndex: 2, heading: null, content: "a-section" },
+        ],
+        totalSections: 3,
+      });
+    });
+
+    it("インデックスがない場合はnullを返す", async () => {
+      vi.mocked(chunkRepository.findByReviewDocumentCacheId).mockResolvedValue(
+        [],
+      );
+
+      const result = await documentIndex.retrieve(TEST_CACHE_ID, ["a"]);
+
+      expect(result).toBeNull();
+      expect(embeddingProvider.embed).not.toHaveBeenCalled();
+    });
+
+    it("別の埋め込みモデルで作成したインデックスは使用しない", async () => {
+      vi.mocked(chunkRepository.findByReviewDocumentCacheId).mockResolvedValue([
+        { ...createChunk(0, "a", [1, 0, 0]), embeddingModel: "old-model" },
+      ]);
+
+      const result = await documentIndex.retrieve(TEST_CACHE_ID, ["a"]);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe("retrieveByFileName", () => {
+    it("ファイル名が一致するテキストモードのキャッシュから検索する", async () => {
+      const cache = ReviewDocumentCache.reconstruct({
+        id: TEST_CACHE_ID,
+        reviewTargetId: TEST_TARGET_ID,
+        fileName: "spec.md",
+        processMode: "text",
+        cachePath: "/cache/spec.txt",
+        createdAt: new Date(),
+      });
+      vi.mocked(cacheRepository.findByReviewTargetId).mockResolvedValue([
+        cache,
+      ]);
+      vi.mocked(chunkRepository.findByReviewDocumentCacheId).mockResolvedValue([
+        createChunk(0, "a", [1, 0, 0]),
+      ]);
+
+      const result = await documentIndex.retrieveByFileName(
+        TEST_TARGET_ID,
+        "spec.md",
+        ["a"],
+      );
+
+      expect(chunkRepository.findByReviewDocumentCacheId).toHaveBeenCalledWith(
+        TEST_CACHE_ID,
+      );
+      expect(result?.sections).toHaveLength(1);
+    });
+
+    it("一致するキャッシュがない場合はnullを返す", async () => {
+      vi.mocked(cacheRepository.findByReviewTargetId).mockResolvedValue([]);
+
+      const result = await documentIndex.retrieveByFileName(
+        TEST_TARGET_ID,
+        "spec.md",
+        ["a"],
+      );
+
+      expect(result).toBeNull();
+    });
+  });
+});
+
+describe("cosineSimilarity", () => {
+  it("同じ向きのベクトルは1、直交するベクトルは0を返す", () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+  });
+
+  it("次元数が異なる場合・ゼロベクトルの場合は0を返す", () => {
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  RevokeReviewTargetSignOffService,
+  type RevokeReviewTargetSignOffCommand,
+} from "../RevokeReviewTargetSignOffService";
+import type { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
+import type { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import type { IProjectRepository } from "@/application/shared/port/repository";
+import { ReviewSpace } from "@/domain/reviewSpace";
+import { Project } from "@/domain/project";
+import { ReviewTarget } from "@/domain/reviewTarget";
+
+describe("RevokeReviewTargetSignOffService", () => {
+  // モックリポジトリ
+  const mockReviewTargetRepository: IReviewTargetRepository = {
+    findById: vi.fn(),
+    findByReviewSpaceId: vi.fn(),
+    findByRevisionGroupId: vi.fn(),
+    countByReviewSpaceId: vi.fn(),
+    summarizeByReviewSpaceIds: vi.fn(),
+    save: vi.fn(),
+    saveRevision: vi.fn(),
+    delete: vi.fn(),
+  };
+
+  const mockReviewSpaceRepository: IReviewSpaceRepository = {
+    findById: vi.fn(),
+    findByProjectId: vi.fn(),
+    countByProjectId: vi.fn(),
+    save: vi.fn(),
+    delete: vi.fn(),
+    updateChecklistGenerationError: vi.fn(),
+  };
+
+  const mockProjectRepository: IProjectRepository = {
+    findById: vi.fn(),
+    findByMemberId: vi.fn(),
+    countByMemberId: vi.fn(),
+    findAll: vi.fn(),
+    countAll: vi.fn(),
+    save: vi.fn(),
+    delete: vi.fn(),
+  };
+
+  let service: RevokeReviewTargetSignOffService;
+
+  // テスト用データ（有効なUUID v4形式）
+  const testProjectId = "550e8400-e29b-41d4-a716-446655440001";
+  const testReviewSpaceId = "550e8400-e29b-41d4-a716-446655440002";
+  const testUserId = "550e8400-e29b-41d4-a716-446655440003";
+  const testReviewTargetId = "550e8400-e29b-41d4-a716-446655440004";
+
+  const now = new Date();
+
+  const testProject = Project.reconstruct({
+    id: testProjectId,
+    name: "テストプロジェクト",
+    description: null,
+    encryptedApiKey: null,
+    members: [{ userId: testUserId, role: "owner", createdAt: now }],
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const testReviewSpace = ReviewSpace.reconstruct({
+    id: testReviewSpaceId,
+    projectId: testProjectId,
+    name: "テストスペース",
+    description: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const createTestReviewTarget = (status: string, signedOff = false) =>
+    ReviewTarget.reconstruct({
+      id: testReviewTargetId,
+      reviewSpaceId: testReviewSpaceId,
+      name: "テストレビュー対象",
+      status,
+      reviewType: "small",
+      reviewSettings: null,
+      signedOffBy: signedOff ? testUserId : null,
+      signedOffAt: signedOff ? now : null,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+  const command: RevokeReviewTargetSignOffCommand = {
+    reviewTargetId: testReviewTargetId,
+    userId: testUserId,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+      createTestReviewTarget("completed", true),
+    );
+    vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(
+      testReviewSpace,
+    );
+    vi.mocked(mockProjectRepository.findById).mockResolvedValue(testProject);
+    service = new RevokeReviewTargetSignOffService(
+      mockReviewTargetRepository,
+      mockReviewSpaceRepository,
+      mockProjectRepository,
+    );
+  });
+
+  describe("正常系", () => {
+    it("承認済みのレビュー対象の承認を取り消せる", async () => {
+      const result = await service.execute(command);
+
+      expect(result.signedOffBy).toBeNull();
+      expect(result.signedOffAt).toBeNull();
+      expect(mockReviewTargetRepository.save).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("異常系", () => {
+    it("未承認のレビュー対象の場合エラーになる", async () => {
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+        createTestReviewTarget("completed"),
+      );
+
+      await expect(service.execute(command)).rejects.toMatchObject({
+        messageCode: "REVIEW_TARGET_NOT_SIGNED_OFF",
+      });
+      expect(mockReviewTargetRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("アクセス権がない場合エラーになる", async () => {
+      await expect(
+        service.execute({
+          ...command,
+          userId: "550e8400-e29b-41d4-a716-446655440099",
+        }),
+      ).rejects.toMatchObject({
+        messageCode: "REVIEW_TARGET_ACCESS_DENIED",
+      });
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  SignOffReviewTargetService,
+  type SignOffReviewTargetCommand,
+} from "../SignOffReviewTargetService";
+import type { IReviewTargetRepository } from "@/application/shared/port/repository/IReviewTargetRepository";
+import type { IReviewResultRepository } from "@/application/shared/port/repository/IReviewResultRepository";
+import type { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import type { IProjectRepository } from "@/application/shared/port/repository";
+import { ReviewSpace } from "@/domain/reviewSpace";
+import { Project } from "@/domain/project";
+import { ReviewTarget } from "@/domain/reviewTarget";
+import { ReviewResult } from "@/domain/reviewResult";
+
+describe("SignOffReviewTargetService", () => {
+  // モックリポジトリ
+  const mockReviewTargetRepository: IReviewTargetRepository = {
+    findById: vi.fn(),
+    findByReviewSpaceId: vi.fn(),
+    findByRevisionGroupId: vi.fn(),
+    countByReviewSpaceId: vi.fn(),
+    summarizeByReviewSpaceIds: vi.fn(),
+    save: vi.fn(),
+    saveRevision: vi.fn(),
+    delete: vi.fn(),
+  };
+
+  const mockReviewResultRepository: IReviewResultRepository = {
+    findById: vi.fn(),
+    findByReviewTargetId: vi.fn(),
+    countByReviewTargetId: vi.fn(),
+    save: vi.fn(),
+    saveMany: vi.fn(),
+    delete: vi.fn(),
+    deleteByReviewTargetId: vi.fn(),
+  };
+
+  const mockReviewSpaceRepository: IReviewSpaceRepository = {
+    findById: vi.fn(),
+    findByProjectId: vi.fn(),
+    countByProjectId: vi.fn(),
+    save: vi.fn(),
+    delete: vi.fn(),
+    updateChecklistGenerationError: vi.fn(),
+  };
+
+  const mockProjectRepository: IProjectRepository = {
+    findById: vi.fn(),
+    findByMemberId: vi.fn(),
+    countByMemberId: vi.fn(),
+    findAll: vi.fn(),
+    countAll: vi.fn(),
+    save: vi.fn(),
+    delete: vi.fn(),
+  };
+
+  let service: SignOffReviewTargetService;
+
+  // テスト用データ（有効なUUID v4形式）
+  const testProjectId = "550e8400-e29b-41d4-a716-446655440001";
+  const testReviewSpaceId = "550e8400-e29b-41d4-a716-446655440002";
+  const testUserId = "550e8400-e29b-41d4-a716-446655440003";
+  const testReviewTargetId = "550e8400-e29b-41d4-a716-446655440004";
+
+  const now = new Date();
+
+  const testProject = Project.reconstruct({
+    id: testProjectId,
+    name: "テストプロジェクト",
+    description: null,
+    encryptedApiKey: null,
+    members: [{ userId: testUserId, role: "owner", createdAt: now }],
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const testReviewSpace = ReviewSpace.reconstruct({
+    id: testReviewSpaceId,
+    projectId: testProjectId,
+    name: "テストスペース",
+    description: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const createTestReviewTarget = (status: string, signedOff = false) =>
+    ReviewTarget.reconstruct({
+      id: testReviewTargetId,
+      reviewSpaceId: testReviewSpaceId,
+      name: "テストレビュー対象",
+      status,
+      reviewType: "small",
+      reviewSettings: null,
+      signedOffBy: signedOff ? testUserId : null,
+      signedOffAt: signedOff ? now : null,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+  const createTestReviewResult = (disposition: string | null) =>
+    ReviewResult.reconstruct({
+      id: crypto.randomUUID(),
+      reviewTargetId: testReviewTargetId,
+      checkListItemContent: "セキュリティ要件を満たしているか",
+      evaluation: "A",
+      comment: "問題ありません",
+      errorMessage: null,
+      evidence: null,
+      adjudication: disposition
+        ? {
+            evaluation: null,
+            comment: null,
+            disposition,
+            reviewedBy: testUserId,
+            reviewedAt: now,
+          }
+        : null,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+  const command: SignOffReviewTargetCommand = {
+    reviewTargetId: testReviewTargetId,
+    userId: testUserId,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+      createTestReviewTarget("completed"),
+    );
+    vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(
+      testReviewSpace,
+    );
+    vi.mocked(mockProjectRepository.findById).mockResolvedValue(testProject);
+    vi.mocked(
+      mockReviewResultRepository.findByReviewTargetId,
+    ).mockResolvedValue([
+      createTestReviewResult("accepted"),
+      createTestReviewResult(null),
+    ]);
+    service = new SignOffReviewTargetService(
+      mockReviewTargetRepository,
+      mockReviewResultRepository,
+      mockReviewSpaceRepository,
+      mockProjectRepository,
+    );
+  });
+
+  describe("正常系", () => {
+    it("レビュー完了済みのレビュー対象を承認できる", async () => {
+      const result = await service.execute(command);
+
+      expect(result.signedOffBy).toBe(testUserId);
+      expect(result.signedOffAt).toBeInstanceOf(Date);
+      expect(mockReviewTargetRepository.save).toHaveBeenCalledTimes(1);
+      const saved = vi.mocked(mockReviewTargetRepository.save).mock.calls[0][0];
+      expect(saved.isSignedOff()).toBe(true);
+    });
+  });
+
+  describe("異常系", () => {
+    it("レビュー対象が存在しない場合エラーになる", async () => {
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(null);
+
+      await expect(service.execute(command)).rejects.toMatchObject({
+        messageCode: "REVIEW_TARGET_NOT_FOUND",
+      });
+    });
+
+    it("アクセス権がない場合エラーになる", async () => {
+      await expect(
+        service.execute({
+          ...command,
+          userId: "550e8400-e29b-41d4-a716-446655440099",
+        }),
+      ).rejects.toMatchObject({
+        messageCode: "REVIEW_TARGET_ACCESS_DENIED",
+      });
+    });
+
+    it("異議ありのレビュー結果が残っている場合エラーになる", async () => {
+      vi.mocked(
+        mockReviewResultRepository.findByReviewTargetId,
+      ).mockResolvedValue([
+        createTestReviewResult("accepted"),
+        createTestReviewResult("disputed"),
+      ]);
+
+      await expect(service.execute(command)).rejects.toMatchObject({
+        messageCode: "REVIEW_TARGET_SIGN_OFF_HAS_DISPUTED",
+      });
+      expect(mockReviewTargetRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("レビューが完了していない場合エラーになる", async () => {
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+        createTestReviewTarget("reviewing"),
+      );
+
+      await expect(service.execute(command)).rejects.toMatchObject({
+        messageCode: "REVIEW_TARGET_SIGN_OFF_NOT_COMPLETED",
+      });
+    });
+
+    it("既に承認済みの場合エラーになる", async () => {
+      vi.mocked(mockReviewTargetRepository.findById).mockResolvedValue(
+        createTestReviewTarget("completed", true),
+      );
+
+      await expect(service.execute(command)).rejects.toMatchObject({
+        messageCode: "REVIEW_TARGET_ALREADY_SIGNED_OFF",
+      });
+    });
+  });
+});
@@ -17,8 +17,11 @@ describe("StartApiReviewService", () => {
   const mockReviewTargetRepository: IReviewTargetRepository = {
     findById: vi.fn(),
     findByReviewSpaceId: vi.fn(),
+    findByRevisionGroupId: vi.fn(),
     countByReviewSpaceId: vi.fn(),
+    summarizeByReviewSpaceIds: vi.fn(),
     save: vi.fn(),
+    saveRevision: vi.fn(),
     delete: vi.fn(),
   };
 
@@ -47,6 +50,8 @@ describe("StartApiReviewService", () => {
     findById: vi.fn(),
     findByMemberId: vi.fn(),
     countByMemberId: vi.fn(),
+    findAll: vi.fn(),
+    countAll: vi.fn(),
     save: vi.fn(),
     delete: vi.fn(),
   };
@@ -65,7 +70,7 @@ describe("StartApiReviewService", () => {
     name: "テストプロジェクト",
     description: null,
     encryptedApiKey: null,
-    members: [{ userId: testUserId, createdAt: new Date() }],
+    members: [{ userId: testUserId, role: "owner", createdAt: new Date() }],
     createdAt: new Date(),
     updatedAt: new Date(),
   });
@@ -84,6 +89,10 @@ describe("StartApiReviewService", () => {
       id: testCheckListItemId1,
       reviewSpaceId: testReviewSpaceId,
       content: "チェック項目1",
+      category: null,
+      displayOrder: 0,
+      severity: "medium",
+      guidance: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     }),
@@ -91,6 +100,10 @@ describe("StartApiReviewService", () => {
       id: testCheckListItemId2,
       reviewSpaceId: testReviewSpaceId,
       content: "チェック項目2",
+      category: null,
+      displayOrder: 0,
+      severity: "medium",
+      guidance: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     }),
@@ -31,6 +31,7 @@ export function createReviewResultSavedCallback(
           checkListItemContent: result.checkListItemContent,
           evaluation: result.evaluation ?? "",
           comment: result.comment ?? "",
+          evidence: result.evidence,
         });
       }
       entities.push(entity);
@@ -13,6 +13,8 @@ export type {
   GetReviewTargetResult,
   ReviewResultDto,
   ReviewSettingsDto,
+  ReviewAdjudicationDto,
+  ReviewSignOffDto,
 } from "./GetReviewTargetService";
 
 export { ListReviewTargetsService } from "./ListReviewTargetsService";
@@ -22,12 +24,36 @@ export type {
   ReviewTargetListItemDto,
 } from "./ListReviewTargetsService";
 
+export { ListReviewTargetRevisionsService } from "./ListReviewTargetRevisionsService";
+export type {
+  ListReviewTargetRevisionsCommand,
+  ListReviewTargetRevisionsResult,
+  ReviewTargetRevisionDto,
+} from "./ListReviewTargetRevisionsService";
+
+export { CompareReviewTargetRevisionsService } from "./CompareReviewTargetRevisionsService";
+export type {
+  CompareReviewTargetRevisionsCommand,
+  CompareReviewTargetRevisionsResult,
+} from "./CompareReviewTargetRevisionsService";
+
 export { DeleteReviewTargetService } from "./DeleteReviewTargetService";
 export type { DeleteReviewTargetCommand } from "./DeleteReviewTargetService";
 
+export { PreviewDocumentChunksService } from "./PreviewDocumentChunksService";
+export type {
+  PreviewDocumentChunksCommand,
+  PreviewDocumentChunksResult,
+  PreviewDocumentFileCommand,
+  DocumentChunksPreviewDto,
+  DocumentChunkPreviewDto,
+} from "./PreviewDocumentChunksService";
+
 export { GetRetryInfoService } from "./GetRetryInfoService";
 export type { GetRetryInfoCommand, RetryInfoDto } from "./GetRetryInfoService";
 
+export { ReviewDocumentIndex } from "./ReviewDocumentIndex";
+
 export { RetryReviewService } from "./RetryReviewService";
 export type {
   RetryReviewCommand,
@@ -35,6 +61,12 @@ export type {
   RetryScope,
 } from "./RetryReviewService";
 
+export { SignOffReviewTargetService } from "./SignOffReviewTargetService";
+export type { SignOffReviewTargetCommand } from "./SignOffReviewTargetService";
+
+export { RevokeReviewTargetSignOffService } from "./RevokeReviewTargetSignOffService";
+export type { RevokeReviewTargetSignOffCommand } from "./RevokeReviewTargetSignOffService";
+
 // 外部APIレビュー関連
 export { StartApiReviewService } from "./StartApiReviewService";
 export type {
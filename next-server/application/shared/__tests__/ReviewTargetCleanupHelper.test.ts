@@ -66,6 +66,10 @@ describe("ReviewTargetCleanupHelper", () => {
       updatedAt: now,
       startedAt: status === "processing" ? now : null,
       completedAt: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      deliveryCount: 0,
+      aiApiRetryCount: 0,
       fileMetadata: [],
     });
 
@@ -82,6 +86,10 @@ describe("ReviewTargetCleanupHelper", () => {
       updatedAt: now,
       startedAt: status === "processing" ? now : null,
       completedAt: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      deliveryCount: 0,
+      aiApiRetryCount: 0,
       fileMetadata: [],
     });
 
@@ -100,8 +108,11 @@ describe("ReviewTargetCleanupHelper", () => {
       findByReviewSpaceId: vi
         .fn()
         .mockResolvedValue([createTestReviewTarget()]),
+      findByRevisionGroupId: vi.fn(),
       countByReviewSpaceId: vi.fn(),
+      summarizeByReviewSpaceIds: vi.fn(),
       save: vi.fn(),
+      saveRevision: vi.fn(),
       delete: vi.fn(),
     };
 
@@ -112,6 +123,10 @@ describe("ReviewTargetCleanupHelper", () => {
       findDistinctApiKeyHashesInQueue: vi.fn(),
       countQueuedByApiKeyHash: vi.fn(),
       dequeueNextTask: vi.fn(),
+      renewLease: vi.fn(),
+      incrementAiApiRetryCount: vi.fn(),
+      requeueExpiredLeases: vi.fn(),
+      findLeaseExpiredTasks: vi.fn(),
       save: vi.fn(),
       delete: vi.fn(),
       deleteByStatus: vi.fn(),
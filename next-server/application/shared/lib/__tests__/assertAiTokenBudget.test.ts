@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { assertAiTokenBudget } from "../assertAiTokenBudget";
+import type { IAiTokenUsageRepository } from "@/application/shared/port/repository";
+import { Project } from "@/domain/project";
+
+describe("assertAiTokenBudget", () => {
+  let mockAiTokenUsageRepository: IAiTokenUsageRepository;
+
+  const now = new Date(2024, 5, 15);
+
+  const createProject = (monthlyTokenBudget: number | null) =>
+    Project.reconstruct({
+      id: "123e4567-e89b-12d3-a456-426614174000",
+      name: "テストプロジェクト",
+      description: null,
+      encryptedApiKey: null,
+      monthlyTokenBudget,
+      members: [
+        {
+          userId: "223e4567-e89b-12d3-a456-426614174001",
+          role: "owner",
+          createdAt: now,
+        },
+      ],
+      createdAt: now,
+      updatedAt: now,
+    });
+
+  const mockUsage = (totalTokens: number) =>
+    vi.mocked(mockAiTokenUsageRepository.sumByProjectId).mockResolvedValue({
+      requestCount: 1,
+      promptTokens: totalTokens,
+      completionTokens: 0,
+      totalTokens,
+    });
+
+  beforeEach(() => {
+    mockAiTokenUsageRepository = {
+      save: vi.fn(),
+      sumByProjectId: vi.fn(),
+      sumByProjectIdGroupByTaskType: vi.fn(),
+      sumGroupByProject: vi.fn(),
+    };
+  });
+
+  it("今月の使用量が上限未満の場合はエラーをスローしない", async () => {
+    mockUsage(999);
+
+    await expect(
+      assertAiTokenBudget(createProject(1000), mockAiTokenUsageRepository, now),
+    ).resolves.toBeUndefined();
+    expect(mockAiTokenUsageRepository.sumByProjectId).toHaveBeenCalledWith(
+      expect.anything(),
+      new Date(2024, 5, 1),
+      new Date(2024, 6, 1),
+    );
+  });
+
+  it("今月の使用量が上限に達している場合はエラーをスローする", async () => {
+    mockUsage(1000);
+
+    await expect(
+      assertAiTokenBudget(createProject(1000), mockAiTokenUsageRepository, now),
+    ).rejects.toMatchObject({ messageCode: "AI_TOKEN_BUDGET_EXCEEDED" });
+  });
+
+  it("上限が設定されていない場合は使用量を確認しない", async () => {
+    await assertAiTokenBudget(
+      createProject(null),
+      mockAiTokenUsageRepository,
+      now,
+    );
+
+    expect(mockAiTokenUsageRepository.sumByProjectId).not.toHaveBeenCalled();
+  });
+
+  it("リポジトリが指定されていない場合は確認しない", async () => {
+    await expect(
+      assertAiTokenBudget(createProject(1), undefined, now),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -2,6 +2,8 @@ import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { resolveAiApiConfig, AiApiConfig } from "../resolveAiApiConfig";
 import { EncryptedApiKey } from "@/domain/project/EncryptedApiKey";
 import { SystemSetting } from "@/domain/system-setting/SystemSetting";
+import { AiApiRateLimit } from "@/domain/system-setting/AiApiRateLimit";
+import { AiModelAssignments } from "@/domain/system-setting/AiModelAssignments";
 
 // 暗号化のテストのために環境変数を設定（64 hex文字 = 32バイト）
 vi.stubEnv(
@@ -18,6 +20,8 @@ describe("resolveAiApiConfig", () => {
     delete process.env.AI_API_KEY;
     delete process.env.AI_API_URL;
     delete process.env.AI_API_MODEL;
+    delete process.env.AI_API_RATE_LIMIT_RPM;
+    delete process.env.AI_API_RATE_LIMIT_TPM;
   });
 
   afterEach(() => {
@@ -198,6 +202,70 @@ describe("resolveAiApiConfig", () => {
     });
   });
 
+  describe("レート制限の優先順位判定", () => {
+    it("項目ごとにプロジェクト設定 > システム設定 > 環境変数の順で解決される", () => {
+      // Arrange
+      process.env.AI_API_RATE_LIMIT_RPM = "10";
+      process.env.AI_API_RATE_LIMIT_TPM = "5000";
+      const systemSetting = SystemSetting.create({
+        apiKey: "system-api-key",
+        apiUrl: "https://api.example.com",
+        apiModel: "gpt-4",
+        rateLimit: { requestsPerMinute: 60 },
+      });
+      const projectRateLimit = AiApiRateLimit.create({ requestsPerMinute: 30 });
+
+      // Act
+      const result = resolveAiApiConfig(null, systemSetting, projectRateLimit);
+
+      // Assert
+      expect(result.rateLimit).toEqual({
+        requestsPerMinute: 30,
+        tokensPerMinute: 5000,
+      });
+    });
+
+    it("プロジェクト設定がない場合はシステム設定を使用する", () => {
+      // Arrange
+      process.env.AI_API_RATE_LIMIT_RPM = "10";
+      const systemSetting = SystemSetting.create({
+        apiKey: "system-api-key",
+        apiUrl: "https://api.example.com",
+        apiModel: "gpt-4",
+        rateLimit: { requestsPerMinute: 60, tokensPerMinute: 100000 },
+      });
+
+      // Act
+      const result = resolveAiApiConfig(null, systemSetting);
+
+      // Assert
+      expect(result.rateLimit).toEqual({
+        requestsPerMinute: 60,
+        tokensPerMinute: 100000,
+      });
+    });
+
+    it("不正な環境変数は制限なしとして扱う", () => {
+      // Arrange
+      process.env.AI_API_RATE_LIMIT_RPM = "abc";
+      process.env.AI_API_RATE_LIMIT_TPM = "0";
+      const systemSetting = SystemSetting.create({
+        apiKey: "system-api-key",
+        apiUrl: "https://api.example.com",
+        apiModel: "gpt-4",
+      });
+
+      // Act
+      const result = resolveAiApiConfig(null, systemSetting);
+
+      // Assert
+      expect(result.rateLimit).toEqual({
+        requestsPerMinute: null,
+        tokensPerMinute: null,
+      });
+    });
+  });
+
   describe("正常系の完全な設定", () => {
     it("全ての値が正しく解決される", () => {
       // Arrange
@@ -216,6 +284,8 @@ describe("resolveAiApiConfig", () => {
         apiKey: "project-api-key",
         apiUrl: "https://api.example.com",
         apiModel: "gpt-4",
+        rateLimit: { requestsPerMinute: null, tokensPerMinute: null },
+        modelEndpoints: {},
       });
     });
 
@@ -240,4 +310,132 @@ describe("resolveAiApiConfig", () => {
       expect(result).toHaveProperty("apiModel");
     });
   });
+
+  describe("エージェント別モデル", () => {
+    const createSystemSetting = () =>
+      SystemSetting.create({
+        apiKey: "system-api-key",
+        apiUrl: "https://api.example.com",
+        apiModel: "gpt-4",
+        aiProviders: [
+          {
+            id: "azure-east",
+            name: "Azure",
+            type: "azure_openai",
+            apiUrl: "https://example.openai.azure.com",
+            apiKey: "azure-key",
+            apiVersion: "2024-10-21",
+          },
+          {
+            id: "local",
+            name: "Ollama",
+            type: "ollama",
+            apiUrl: "http://localhost:11434/v1",
+            apiKey: null,
+          },
+        ],
+        aiModelAssignments: {
+          checklistCategory: { providerId: "local", model: "llama3" },
+          consolidateReview: { providerId: "azure-east", model: "gpt-4o" },
+        },
+      });
+
+    it("システム設定の割り当てからエージェント別の接続先を解決する", () => {
+      // Act
+      const result = resolveAiApiConfig(null, createSystemSetting());
+
+      // Assert
+      expect(result.modelEndpoints).toEqual({
+        checklistCategory: {
+          providerType: "ollama",
+          apiKey: null,
+          apiUrl: "http://localhost:11434/v1",
+          apiModel: "llama3",
+          apiVersion: null,
+        },
+        consolidateReview: {
+          providerType: "azure_openai",
+          apiKey: "azure-key",
+          apiUrl: "https://example.openai.azure.com",
+          apiModel: "gpt-4o",
+          apiVersion: "2024-10-21",
+        },
+      });
+    });
+
+    it("プロジェクトの割り当てがシステム設定より優先される", () => {
+      // Arrange
+      const projectAssignments = AiModelAssignments.create({
+        checklistCategory: { providerId: null, model: "gpt-4o-mini" },
+      });
+
+      // Act
+      const result = resolveAiApiConfig(
+        EncryptedApiKey.fromPlainText("project-api-key"),
+        createSystemSetting(),
+        null,
+        projectAssignments,
+      );
+
+      // Assert
+      // プロバイダー未指定の場合は既定の接続先（プロジェクトのAPIキー）でモデルのみ切り替える
+      expect(result.modelEndpoints?.checklistCategory).toEqual({
+        providerType: "openai_compatible",
+        apiKey: "project-api-key",
+        apiUrl: "https://api.example.com",
+        apiModel: "gpt-4o-mini",
+        apiVersion: null,
+      });
+      expect(result.modelEndpoints?.consolidateReview?.apiModel).toBe("gpt-4o");
+    });
+
+    it("割り当てたプロバイダーが存在しない場合はエラー", () => {
+      // Arrange
+      const projectAssignments = AiModelAssignments.create({
+        qaAnswer: { providerId: "deleted", model: "gpt-4o" },
+      });
+
+      // Act & Assert
+      expect(() =>
+        resolveAiApiConfig(
+          null,
+          createSystemSetting(),
+          null,
+          projectAssignments,
+        ),
+      ).toThrow(
+        expect.objectContaining({
+          messageCode: "AI_CONFIG_PROVIDER_NOT_FOUND",
+        }),
+      );
+    });
+
+    it("APIキーが必要なプロバイダーにAPIキーがない場合はエラー", () => {
+      // Arrange
+      const systemSetting = SystemSetting.create({
+        apiKey: "system-api-key",
+        apiUrl: "https://api.example.com",
+        apiModel: "gpt-4",
+        aiProviders: [
+          {
+            id: "other",
+            name: "Other",
+            type: "openai_compatible",
+            apiUrl: "https://other.example.com/v1",
+            apiKey: null,
+          },
+        ],
+        aiModelAssignments: {
+          qaAnswer: { providerId: "other", model: "gpt-4o" },
+        },
+      });
+
+      // Act & Assert
+      expect(() => resolveAiApiConfig(null, systemSetting)).toThrow(
+        expect.objectContaining({
+          messageCode: "AI_CONFIG_API_KEY_MISSING",
+        }),
+      );
+    });
+  });
 });
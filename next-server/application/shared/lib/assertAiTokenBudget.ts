@@ -0,0 +1,32 @@
+import type { IAiTokenUsageRepository } from "@/application/shared/port/repository/IAiTokenUsageRepository";
+import { MonthlyTokenBudget, Project } from "@/domain/project";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * プロジェクトの今月のAIトークン使用量が月間トークン上限に達していないことを確認する
+ * AIタスクのキュー登録前に実行し、上限に達している場合は新しいタスクを開始させない
+ * （実行中のタスクは上限を超えても中断しない）
+ *
+ * @param project 課金対象のプロジェクト
+ * @param aiTokenUsageRepository トークン使用量リポジトリ（未指定の場合は確認しない）
+ * @param now 現在日時（テスト用）
+ * @throws ドメインバリデーションエラー（AI_TOKEN_BUDGET_EXCEEDED）- 上限に達している場合
+ */
+export async function assertAiTokenBudget(
+  project: Project,
+  aiTokenUsageRepository?: IAiTokenUsageRepository,
+  now: Date = new Date(),
+): Promise<void> {
+  if (!aiTokenUsageRepository || !project.monthlyTokenBudget.isLimited()) {
+    return;
+  }
+
+  const { totalTokens } = await aiTokenUsageRepository.sumByProjectId(
+    project.id,
+    MonthlyTokenBudget.periodStart(now),
+    MonthlyTokenBudget.periodEnd(now),
+  );
+  if (project.monthlyTokenBudget.isExceededBy(totalTokens)) {
+    throw domainValidationError("AI_TOKEN_BUDGET_EXCEEDED");
+  }
+}
@@ -1,7 +1,37 @@
 import { EncryptedApiKey } from "@/domain/project/EncryptedApiKey";
 import { SystemSetting } from "@/domain/system-setting/SystemSetting";
+import {
+  AiApiRateLimit,
+  type AiApiRateLimitDto,
+} from "@/domain/system-setting/AiApiRateLimit";
+import {
+  AI_PROVIDER_TYPE,
+  type AiProviderType,
+} from "@/domain/system-setting/AiProvider";
+import {
+  AiModelAssignments,
+  AI_MODEL_TARGET,
+  type AiModelTarget,
+} from "@/domain/system-setting/AiModelAssignments";
 import { aiConfigError } from "@/lib/server/error";
 
+/**
+ * エージェント別のモデル接続先
+ * モデル割り当てとAIプロバイダーから確定した接続情報
+ */
+export interface AiModelEndpoint {
+  /** プロバイダー種別 */
+  providerType: AiProviderType;
+  /** APIキー（ローカルサーバーなどキー不要の場合はnull） */
+  apiKey: string | null;
+  /** API URL */
+  apiUrl: string;
+  /** モデル名（Azure形式の場合はデプロイメント名） */
+  apiModel: string;
+  /** APIバージョン（Azure形式のみ） */
+  apiVersion: string | null;
+}
+
 /**
  * AI API設定
  * キューイング時点で確定した最終的なAPI設定を保持
@@ -13,20 +43,56 @@ export interface AiApiConfig {
   apiUrl: string;
   /** 確定済みAPIモデル名 */
   apiModel: string;
+  /**
+   * 確定済みレート制限（APIキー単位）
+   * レート制限導入前にキューイングされたタスクでは未設定
+   */
+  rateLimit?: AiApiRateLimitDto;
+  /**
+   * エージェント別のモデル接続先（割り当てのないエージェントは既定の設定を使用）
+   * エージェント別モデル導入前にキューイングされたタスクでは未設定
+   */
+  modelEndpoints?: Partial<Record<AiModelTarget, AiModelEndpoint>>;
+}
+
+/**
+ * 環境変数からレート制限値を取得する
+ * 未設定・不正な値の場合はnull（制限なし）
+ */
+function parseRateLimitEnv(value: string | undefined): number | null {
+  const parsed = parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed >= 1 ? parsed : null;
+}
+
+/**
+ * 環境変数のレート制限を取得する
+ * 環境変数AI_API_RATE_LIMIT_RPM・AI_API_RATE_LIMIT_TPMで設定可能（デフォルト: 制限なし）
+ */
+function getEnvRateLimit(): AiApiRateLimit {
+  return AiApiRateLimit.reconstruct({
+    requestsPerMinute: parseRateLimitEnv(process.env.AI_API_RATE_LIMIT_RPM),
+    tokensPerMinute: parseRateLimitEnv(process.env.AI_API_RATE_LIMIT_TPM),
+  });
 }
 
 /**
  * AI API設定を解決する
  * 優先順位: プロジェクト設定 > 管理者設定 > 環境変数
+ * レート制限は項目（リクエスト数・トークン数）ごとに優先順位を判定する
  *
  * @param projectEncryptedApiKey プロジェクトレベルの暗号化APIキー（オプション）
  * @param systemSetting システム設定（管理者設定）（オプション）
+ * @param projectRateLimit プロジェクトレベルのレート制限（オプション）
+ * @param projectModelAssignments プロジェクトレベルのエージェント別モデル割り当て（オプション）
  * @returns 確定済みのAI API設定
- * @throws aiConfigError APIキー、URL、モデルのいずれかが欠落している場合
+ * @throws aiConfigError APIキー、URL、モデルのいずれかが欠落している場合、
+ *   割り当てたAIプロバイダーが存在しない場合
  */
 export function resolveAiApiConfig(
   projectEncryptedApiKey?: EncryptedApiKey | null,
   systemSetting?: SystemSetting | null,
+  projectRateLimit?: AiApiRateLimit | null,
+  projectModelAssignments?: AiModelAssignments | null,
 ): AiApiConfig {
   const systemDto = systemSetting?.toDto();
 
@@ -53,9 +119,56 @@ export function resolveAiApiConfig(
     throw aiConfigError("AI_CONFIG_API_MODEL_MISSING");
   }
 
+  // レート制限: プロジェクト設定 > システム設定 > 環境変数（項目ごと）
+  const rateLimit = (projectRateLimit ?? AiApiRateLimit.unlimited())
+    .withFallback(systemSetting?.rateLimit ?? AiApiRateLimit.unlimited())
+    .withFallback(getEnvRateLimit());
+
+  // エージェント別モデル: プロジェクト設定 > システム設定（エージェントごと）
+  const modelAssignments = (
+    projectModelAssignments ?? AiModelAssignments.empty()
+  ).withFallback(
+    systemSetting?.aiModelAssignments ?? AiModelAssignments.empty(),
+  );
+  const modelEndpoints: Partial<Record<AiModelTarget, AiModelEndpoint>> = {};
+  for (const target of Object.values(AI_MODEL_TARGET)) {
+    const assignment = modelAssignments.get(target);
+    if (!assignment) continue;
+
+    // プロバイダー未指定の場合は既定の接続先でモデルのみ切り替える
+    if (assignment.providerId === null) {
+      modelEndpoints[target] = {
+        providerType: AI_PROVIDER_TYPE.OPENAI_COMPATIBLE,
+        apiKey,
+        apiUrl,
+        apiModel: assignment.model,
+        apiVersion: null,
+      };
+      continue;
+    }
+
+    const provider = systemSetting?.findAiProvider(assignment.providerId);
+    if (!provider) {
+      throw aiConfigError("AI_CONFIG_PROVIDER_NOT_FOUND");
+    }
+    const providerDto = provider.toDto();
+    if (!providerDto.apiKey && providerDto.type !== AI_PROVIDER_TYPE.OLLAMA) {
+      throw aiConfigError("AI_CONFIG_API_KEY_MISSING");
+    }
+    modelEndpoints[target] = {
+      providerType: providerDto.type,
+      apiKey: providerDto.apiKey,
+      apiUrl: providerDto.apiUrl,
+      apiModel: assignment.model,
+      apiVersion: providerDto.apiVersion,
+    };
+  }
+
   return {
     apiKey,
     apiUrl,
     apiModel,
+    rateLimit: rateLimit.toDto(),
+    modelEndpoints,
   };
 }
@@ -0,0 +1,48 @@
+/**
+ * アーカイブ展開オプション
+ */
+export interface ArchiveExtractOptions {
+  /** 展開対象とするファイルパスのglobパターン（省略時は全ファイル） */
+  includePatterns?: string[];
+  /** 展開対象から除外するファイルパスのglobパターン */
+  excludePatterns?: string[];
+  /** 展開対象とする拡張子（省略時は全ファイル） */
+  extensions?: string[];
+}
+
+/**
+ * アーカイブ内のファイル
+ */
+export interface ArchiveEntry {
+  /** アーカイブ内のパス（区切り文字は"/"） */
+  path: string;
+  /** ファイルのバイナリデータ */
+  buffer: Buffer;
+}
+
+/**
+ * アーカイブ展開インターフェース
+ * ZIP・tar形式のアーカイブをサーバー側で展開する
+ */
+export interface IArchiveExtractor {
+  /**
+   * アーカイブを展開し、対象のファイルをパス順に返す
+   * ファイル数・展開後サイズの上限を超える場合はエラーとする
+   * @param buffer アーカイブのバイナリデータ
+   * @param fileName ファイル名（形式の判定に使用）
+   * @param options 展開オプション
+   * @returns 展開したファイルの配列
+   */
+  extract(
+    buffer: Buffer,
+    fileName: string,
+    options?: ArchiveExtractOptions,
+  ): Promise<ArchiveEntry[]>;
+
+  /**
+   * 対応しているアーカイブ形式かどうかを判定
+   * @param fileName ファイル名
+   * @returns 対応している場合true
+   */
+  isArchive(fileName: string): boolean;
+}
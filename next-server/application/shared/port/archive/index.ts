@@ -0,0 +1,8 @@
+// アーカイブ展開ポート
+// アプリケーション層のインターフェース定義
+
+export type {
+  ArchiveEntry,
+  ArchiveExtractOptions,
+  IArchiveExtractor,
+} from "./IArchiveExtractor";
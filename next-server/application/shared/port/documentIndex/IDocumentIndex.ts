@@ -0,0 +1,84 @@
+import type { RuntimeContext } from "@mastra/core/di";
+
+/**
+ * インデックス操作のオプション
+ */
+export interface DocumentIndexOptions {
+  /**
+   * ワークフローのRuntimeContext
+   * 埋め込みAPIの呼び出しにAI APIのリトライ・レート制限・トークン使用量の集計を適用するために使用する
+   */
+  runtimeContext?: RuntimeContext;
+  /** 中断シグナル */
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * 検索で取得したドキュメントのセクション
+ */
+export interface RetrievedSection {
+  /** ドキュメント内でのセクションの順番（0から始まる） */
+  sectionIndex: number;
+  /** セクションが属する見出し行 */
+  heading: string | null;
+  /** セクションの本文 */
+  content: string;
+}
+
+/**
+ * ドキュメントの関連セクション検索結果
+ */
+export interface DocumentRetrievalResult {
+  /** 関連するセクション（ドキュメント内の出現順） */
+  sections: RetrievedSection[];
+  /** ドキュメントの総セクション数 */
+  totalSections: number;
+}
+
+/**
+ * ドキュメントの意味検索インデックスインターフェース
+ * テキストモードのドキュメントキャッシュをセクションに分割して埋め込みベクトルを保存し、
+ * チェック項目や質問に関連するセクションのみを取得できるようにする
+ * ワークフローからはRuntimeContext経由で利用する
+ */
+export interface IDocumentIndex {
+  /**
+   * ドキュメントのインデックスを作成（既存のインデックスは置き換える）
+   * @param reviewDocumentCacheId ドキュメントキャッシュID
+   * @param textContent ドキュメントのテキスト
+   * @param options インデックス操作のオプション
+   */
+  buildIndex(
+    reviewDocumentCacheId: string,
+    textContent: string,
+    options?: DocumentIndexOptions,
+  ): Promise<void>;
+
+  /**
+   * 検索クエリごとに関連度の高いセクションを取得し、まとめて返す
+   * @param reviewDocumentCacheId ドキュメントキャッシュID
+   * @param queries 検索クエリ（チェック項目の内容や調査内容）
+   * @param options インデックス操作のオプション
+   * @returns 検索結果、インデックスがない場合はnull
+   */
+  retrieve(
+    reviewDocumentCacheId: string,
+    queries: string[],
+    options?: DocumentIndexOptions,
+  ): Promise<DocumentRetrievalResult | null>;
+
+  /**
+   * レビュー対象のファイル名でドキュメントを特定して関連セクションを取得する
+   * @param reviewTargetId レビュー対象ID
+   * @param fileName ファイル名
+   * @param queries 検索クエリ
+   * @param options インデックス操作のオプション
+   * @returns 検索結果、インデックスがない場合はnull
+   */
+  retrieveByFileName(
+    reviewTargetId: string,
+    fileName: string,
+    queries: string[],
+    options?: DocumentIndexOptions,
+  ): Promise<DocumentRetrievalResult | null>;
+}
@@ -0,0 +1,9 @@
+// ドキュメント意味検索インデックスポート
+// アプリケーション層のインターフェース定義
+
+export type {
+  DocumentIndexOptions,
+  DocumentRetrievalResult,
+  IDocumentIndex,
+  RetrievedSection,
+} from "./IDocumentIndex";
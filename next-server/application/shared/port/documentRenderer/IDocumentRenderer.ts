@@ -0,0 +1,55 @@
+/**
+ * ドキュメント画像変換オプション
+ */
+export interface DocumentRenderOptions {
+  /** 変換するページ範囲（例: "1-3,5"、省略時は全ページ） */
+  pageRange?: string;
+  /** 解像度の倍率（省略時は2） */
+  scale?: number;
+}
+
+/**
+ * ドキュメント画像変換結果
+ */
+export interface DocumentRenderResult {
+  /** ページごとのPNG画像 */
+  images: Buffer[];
+  /** 各画像に対応する元ドキュメントのページ番号（1始まり） */
+  pageNumbers: number[];
+  /** 元ドキュメントの総ページ数 */
+  totalPages: number;
+}
+
+/**
+ * ドキュメント画像変換インターフェース
+ * PDF・Office文書をサーバー側でページごとの画像に変換する
+ */
+export interface IDocumentRenderer {
+  /**
+   * ドキュメントをページごとのPNG画像に変換
+   * @param buffer ファイルのバイナリデータ
+   * @param fileName ファイル名（拡張子の判定に使用）
+   * @param options 変換オプション
+   * @returns 変換結果
+   */
+  render(
+    buffer: Buffer,
+    fileName: string,
+    options?: DocumentRenderOptions,
+  ): Promise<DocumentRenderResult>;
+
+  /**
+   * 画像変換に対応している拡張子かどうかを判定
+   * Office文書は変換ツールがインストールされている場合のみ対応とする
+   * @param extension 拡張子（例: '.pdf'）
+   * @returns 対応している場合true
+   */
+  isSupported(extension: string): Promise<boolean>;
+
+  /**
+   * 画像変換に対応している拡張子一覧を取得
+   * Office文書の拡張子は変換ツールがインストールされている場合のみ含める
+   * @returns 対応している拡張子の配列
+   */
+  getSupportedExtensions(): Promise<string[]>;
+}
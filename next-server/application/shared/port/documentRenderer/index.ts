@@ -0,0 +1,8 @@
+// ドキュメント画像変換ポート
+// アプリケーション層のインターフェース定義
+
+export type {
+  DocumentRenderOptions,
+  DocumentRenderResult,
+  IDocumentRenderer,
+} from "./IDocumentRenderer";
@@ -0,0 +1,48 @@
+/**
+ * 埋め込みベクトル生成オプション
+ */
+export interface EmbedOptions {
+  /** 中断シグナル */
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * 埋め込みベクトル生成結果
+ */
+export interface EmbedResult {
+  /** 入力と同じ順序の埋め込みベクトルの配列 */
+  embeddings: number[][];
+  /** 使用した入力トークン数（APIが返さない場合はnull） */
+  tokens: number | null;
+}
+
+/**
+ * 埋め込みベクトル生成インターフェース
+ * ドキュメントのセクションや検索クエリを意味検索用のベクトルに変換する
+ */
+export interface IEmbeddingProvider {
+  /**
+   * 使用する埋め込みモデルの識別子
+   * 異なるモデルで作成したベクトルは比較できないため、インデックスにも記録する
+   */
+  readonly modelId: string;
+
+  /**
+   * 埋め込みAPIのAPIキー（レート制限の単位として使用、未設定の場合はnull）
+   */
+  readonly apiKey: string | null;
+
+  /**
+   * 1回の呼び出しで変換できるテキスト数の上限
+   */
+  readonly maxTextsPerCall: number;
+
+  /**
+   * テキストの埋め込みベクトルを生成（1回のAPI呼び出し）
+   * リトライ・レート制限を呼び出し単位で適用するため、上限を超える場合の分割は呼び出し元で行う
+   * @param texts 変換するテキストの配列（maxTextsPerCall件まで）
+   * @param options 生成オプション
+   * @returns 埋め込みベクトルと使用トークン数
+   */
+  embed(texts: string[], options?: EmbedOptions): Promise<EmbedResult>;
+}
@@ -0,0 +1,8 @@
+// 埋め込みベクトル生成ポート
+// アプリケーション層のインターフェース定義
+
+export type {
+  EmbedOptions,
+  EmbedResult,
+  IEmbeddingProvider,
+} from "./IEmbeddingProvider";
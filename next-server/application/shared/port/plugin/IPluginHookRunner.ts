@@ -0,0 +1,53 @@
+import type { PluginHookPointValue } from "@/domain/reviewSpacePlugin";
+import type {
+  BeforePromptBuildingHookInput,
+  PluginReviewResult,
+} from "./PluginHookTypes";
+
+/**
+ * beforeExtraction適用後のファイル
+ */
+export interface PluginProcessedFile {
+  fileName: string;
+  buffer: Buffer;
+  /** プラグインがテキスト化した場合の内容（組み込み抽出を省略する） */
+  textContent?: string;
+}
+
+/**
+ * プラグインフック実行インターフェース
+ * レビュースペースの有効なプラグインを登録順に連鎖実行する
+ * ワークフローからはRuntimeContext経由で利用する
+ */
+export interface IPluginHookRunner {
+  /**
+   * 指定フックを持つ有効なプラグインが存在するか
+   */
+  hasHook(hookPoint: PluginHookPointValue): boolean;
+
+  /**
+   * テキスト抽出前のファイルを加工する（テキストモードのファイルのみ対象）
+   */
+  runBeforeExtraction(file: {
+    fileName: string;
+    mimeType: string;
+    buffer: Buffer;
+  }): Promise<PluginProcessedFile>;
+
+  /**
+   * 抽出済みテキストを加工する
+   */
+  runAfterExtraction(fileName: string, textContent: string): Promise<string>;
+
+  /**
+   * プロンプト構築前の入力を加工する
+   */
+  runBeforePromptBuilding(
+    input: BeforePromptBuildingHookInput,
+  ): Promise<BeforePromptBuildingHookInput>;
+
+  /**
+   * 保存前のレビュー結果を加工する
+   */
+  runAfterResults(results: PluginReviewResult[]): Promise<PluginReviewResult[]>;
+}
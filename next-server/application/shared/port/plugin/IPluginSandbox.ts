@@ -0,0 +1,62 @@
+import type { PluginHookPointValue } from "@/domain/reviewSpacePlugin";
+
+/**
+ * プラグインスクリプトから読み取った宣言内容
+ */
+export interface PluginManifest {
+  /** プラグインが宣言した名前（未宣言の場合はnull） */
+  name: string | null;
+  /** 関数として定義されているフックポイント */
+  hookPoints: PluginHookPointValue[];
+  /** beforeExtractionで処理対象とする拡張子 */
+  extensions: string[];
+}
+
+/**
+ * サンドボックス実行オプション
+ */
+export interface PluginSandboxOptions {
+  /** 実行タイムアウト（ミリ秒） */
+  timeoutMs: number;
+}
+
+/**
+ * サンドボックス実行結果
+ * プラグイン起因のエラーは例外ではなく結果として返す
+ */
+export type PluginSandboxResult<T> =
+  | { status: "success"; output: T }
+  | { status: "timeout" }
+  | { status: "error"; errorMessage: string };
+
+/**
+ * プラグインサンドボックスインターフェース
+ * 信頼できないプラグインスクリプトをホストから隔離して実行する
+ * 入出力はJSONシリアライズ可能な値のみを受け渡す
+ */
+export interface IPluginSandbox {
+  /**
+   * スクリプトを読み込み、宣言内容を取得する
+   * @param script プラグインスクリプト
+   * @param options 実行オプション
+   */
+  inspect(
+    script: string,
+    options: PluginSandboxOptions,
+  ): Promise<PluginSandboxResult<PluginManifest>>;
+
+  /**
+   * 指定フックを実行する
+   * フックが戻り値を返さなかった場合、outputはnullとなる
+   * @param script プラグインスクリプト
+   * @param hookPoint 実行するフックポイント
+   * @param input フックへの入力
+   * @param options 実行オプション
+   */
+  invoke(
+    script: string,
+    hookPoint: PluginHookPointValue,
+    input: unknown,
+    options: PluginSandboxOptions,
+  ): Promise<PluginSandboxResult<unknown>>;
+}
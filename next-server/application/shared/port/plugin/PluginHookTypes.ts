@@ -0,0 +1,84 @@
+/**
+ * プラグインフックの入出力型定義
+ * プラグインにはJSONで受け渡されるため、バイナリはBase64文字列で表現する
+ */
+
+/**
+ * beforeExtractionフック入力
+ */
+export interface BeforeExtractionHookInput {
+  fileName: string;
+  mimeType: string;
+  /** ファイル内容（Base64） */
+  contentBase64: string;
+  /** ファイル内容をUTF-8として解釈した文字列（ソースコード等のテキスト向け） */
+  contentText: string;
+}
+
+/**
+ * beforeExtractionフック出力
+ * textContentを返した場合、組み込みのテキスト抽出は行わずその内容を採用する
+ */
+export interface BeforeExtractionHookOutput {
+  fileName?: string;
+  contentBase64?: string;
+  textContent?: string;
+}
+
+/**
+ * afterExtractionフック入力
+ */
+export interface AfterExtractionHookInput {
+  fileName: string;
+  textContent: string;
+}
+
+/**
+ * afterExtractionフック出力
+ */
+export interface AfterExtractionHookOutput {
+  textContent?: string;
+}
+
+/**
+ * beforePromptBuildingフック入力
+ */
+export interface BeforePromptBuildingHookInput {
+  checkListItems: { id: string; content: string }[];
+  additionalInstructions: string | null;
+  files: { name: string; textContent: string | null }[];
+}
+
+/**
+ * beforePromptBuildingフック出力
+ * 返却したフィールドのみ上書きされる（チェック項目のidは変更不可）
+ */
+export interface BeforePromptBuildingHookOutput {
+  checkListItems?: { id: string; content: string }[];
+  additionalInstructions?: string | null;
+  files?: { name: string; textContent: string | null }[];
+}
+
+/**
+ * afterResultsフックで扱うレビュー結果
+ */
+export interface PluginReviewResult {
+  checkListItemContent: string;
+  evaluation: string | null;
+  comment: string | null;
+  errorMessage: string | null;
+}
+
+/**
+ * afterResultsフック入力
+ */
+export interface AfterResultsHookInput {
+  results: PluginReviewResult[];
+}
+
+/**
+ * afterResultsフック出力
+ */
+export interface AfterResultsHookOutput {
+  results?: PluginReviewResult[];
+}
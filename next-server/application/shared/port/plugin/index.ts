@@ -0,0 +1,21 @@
+export type {
+  IPluginSandbox,
+  PluginManifest,
+  PluginSandboxOptions,
+  PluginSandboxResult,
+} from "./IPluginSandbox";
+export type {
+  IPluginHookRunner,
+  PluginProcessedFile,
+} from "./IPluginHookRunner";
+export type {
+  BeforeExtractionHookInput,
+  BeforeExtractionHookOutput,
+  AfterExtractionHookInput,
+  AfterExtractionHookOutput,
+  BeforePromptBuildingHookInput,
+  BeforePromptBuildingHookOutput,
+  PluginReviewResult,
+  AfterResultsHookInput,
+  AfterResultsHookOutput,
+} from "./PluginHookTypes";
@@ -0,0 +1,24 @@
+import type { NotificationDto } from "@/domain/notification";
+
+/**
+ * 通知SSEイベントの型定義
+ * 長時間タスクの完了・失敗通知を受信者ごとにリアルタイム配信する
+ */
+
+/**
+ * 通知イベントのイベントタイプ（IEventBroker.publish/subscribeで使用）
+ */
+export const NOTIFICATION_EVENT_TYPE = "notification";
+
+/**
+ * 通知作成イベント
+ */
+export interface NotificationCreatedEvent {
+  type: "notification";
+  data: NotificationDto;
+}
+
+/**
+ * 通知SSEイベント
+ */
+export type NotificationSseEvent = NotificationCreatedEvent;
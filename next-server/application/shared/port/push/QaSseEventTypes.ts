@@ -1,6 +1,7 @@
 /**
  * Q&A SSEイベントの型定義
  * シンプルなSSE形式でQ&A処理の進捗をリアルタイム通知する
+ * 発行されたイベントはDBに記録され、SSEに再接続したクライアントへ再送される
  */
 
 /**
@@ -79,7 +80,8 @@ export interface QaErrorEvent {
 
 /**
  * ワークフロー開始イベント
- * SSE接続確立後、ワークフロー開始直前に発行される
+ * AIタスクのワーカーがワークフローを開始する直前に発行される
+ * 再実行時も発行されるため、クライアントはこのイベントを受信したら表示をリセットする
  */
 export interface QaWorkflowStartEvent {
   type: "workflow_start";
@@ -99,3 +101,12 @@ export type QaSseEvent =
   | QaAnswerChunkEvent
   | QaCompleteEvent
   | QaErrorEvent;
+
+/**
+ * 発行順付きQ&A SSEイベント
+ * SSEで送信する際は、再送時の重複排除のためQ&A履歴内での発行順を付与する
+ */
+export type QaSseEventWithSequence = QaSseEvent & {
+  /** Q&A履歴内での発行順（1始まり） */
+  sequence: number;
+};
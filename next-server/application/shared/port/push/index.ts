@@ -8,3 +8,8 @@ export type {
   QaErrorEvent,
   QaResearchTask,
 } from "./QaSseEventTypes";
+export { NOTIFICATION_EVENT_TYPE } from "./NotificationSseEventTypes";
+export type {
+  NotificationSseEvent,
+  NotificationCreatedEvent,
+} from "./NotificationSseEventTypes";
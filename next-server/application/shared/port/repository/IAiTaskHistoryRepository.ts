@@ -0,0 +1,12 @@
+import { AiTaskHistory } from "@/domain/aiTask";
+
+/**
+ * AIタスク実行履歴リポジトリインターフェース
+ */
+export interface IAiTaskHistoryRepository {
+  /**
+   * 実行履歴を保存（同じタスクIDの履歴が存在する場合は上書き）
+   * @param history 実行履歴エンティティ
+   */
+  save(history: AiTaskHistory): Promise<void>;
+}
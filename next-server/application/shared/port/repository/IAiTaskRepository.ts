@@ -58,12 +58,51 @@ export interface IAiTaskRepository {
   countQueuedByApiKeyHash(apiKeyHash: string): Promise<number>;
 
   /**
-   * 次のタスクを取得して処理中に遷移（原子性保証）
+   * 次のタスクを取得してリースを付与し、処理中に遷移（原子性保証）
    * SELECT FOR UPDATE SKIP LOCKEDを使用して排他制御
    * @param apiKeyHash APIキーハッシュ
+   * @param workerId リースを取得するワーカーID
+   * @param leaseDurationMs リース期間（ミリ秒）
    * @returns タスクエンティティ（キューが空の場合はnull）
    */
-  dequeueNextTask(apiKeyHash: string): Promise<AiTask | null>;
+  dequeueNextTask(
+    apiKeyHash: string,
+    workerId: string,
+    leaseDurationMs: number,
+  ): Promise<AiTask | null>;
+
+  /**
+   * リースを延長する（ハートビート）
+   * @param id タスクID
+   * @param workerId リースを保持しているワーカーID
+   * @param leaseDurationMs 延長後のリース期間（ミリ秒）
+   * @returns 延長できた場合true（タスクが削除された・リースが他ワーカーに移った場合はfalse）
+   */
+  renewLease(
+    id: AiTaskId,
+    workerId: string,
+    leaseDurationMs: number,
+  ): Promise<boolean>;
+
+  /**
+   * AI API呼び出しの自動リトライ回数を加算する
+   * @param id タスクID
+   */
+  incrementAiApiRetryCount(id: AiTaskId): Promise<void>;
+
+  /**
+   * リース期限切れの処理中タスクをキューに戻す（再配信）
+   * 配信回数が上限に達したタスクは対象外
+   * @param maxDeliveryCount 最大配信回数
+   * @returns キューに戻したタスクエンティティの配列
+   */
+  requeueExpiredLeases(maxDeliveryCount: number): Promise<AiTask[]>;
+
+  /**
+   * リース期限切れの処理中タスクを検索
+   * @returns タスクエンティティの配列
+   */
+  findLeaseExpiredTasks(): Promise<AiTask[]>;
 
   /**
    * タスクを保存（新規作成または更新）
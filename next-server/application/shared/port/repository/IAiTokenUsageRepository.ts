@@ -0,0 +1,66 @@
+import { AiTokenUsage } from "@/domain/aiTask";
+import { ProjectId } from "@/domain/project";
+
+/**
+ * トークン使用量の合計
+ */
+export interface AiTokenUsageSumRow {
+  /** エージェント呼び出し回数 */
+  requestCount: number;
+  /** 入力トークン数 */
+  promptTokens: number;
+  /** 出力トークン数 */
+  completionTokens: number;
+  /** 合計トークン数 */
+  totalTokens: number;
+}
+
+/**
+ * タスクタイプごとのトークン使用量の合計
+ */
+export interface AiTokenUsageByTaskTypeRow extends AiTokenUsageSumRow {
+  taskType: string;
+}
+
+/**
+ * プロジェクトごとのトークン使用量の合計
+ */
+export interface AiTokenUsageByProjectRow extends AiTokenUsageSumRow {
+  projectId: string;
+}
+
+/**
+ * AIトークン使用量リポジトリインターフェース
+ * 集計期間はいずれも from 以上 to 未満
+ */
+export interface IAiTokenUsageRepository {
+  /**
+   * トークン使用量を保存
+   * 同じタスクIDの使用量が存在する場合（リース期限切れによる再実行）は加算する
+   * @param usage トークン使用量エンティティ
+   */
+  save(usage: AiTokenUsage): Promise<void>;
+
+  /**
+   * プロジェクトのトークン使用量の合計を取得
+   */
+  sumByProjectId(
+    projectId: ProjectId,
+    from: Date,
+    to: Date,
+  ): Promise<AiTokenUsageSumRow>;
+
+  /**
+   * プロジェクトのトークン使用量をタスクタイプごとに合計
+   */
+  sumByProjectIdGroupByTaskType(
+    projectId: ProjectId,
+    from: Date,
+    to: Date,
+  ): Promise<AiTokenUsageByTaskTypeRow[]>;
+
+  /**
+   * 全プロジェクトのトークン使用量をプロジェクトごとに合計（使用量のあるプロジェクトのみ）
+   */
+  sumGroupByProject(from: Date, to: Date): Promise<AiTokenUsageByProjectRow[]>;
+}
@@ -0,0 +1,70 @@
+import {
+  ChecklistTemplate,
+  ChecklistTemplateId,
+  ChecklistTemplateVersion,
+} from "@/domain/checklistTemplate";
+import { ProjectId } from "@/domain/project";
+
+/**
+ * チェックリストテンプレートリポジトリインターフェース
+ * インフラ層で実装される
+ */
+export interface IChecklistTemplateRepository {
+  /**
+   * IDでテンプレートを取得
+   * @param id テンプレートID
+   * @returns テンプレートエンティティ（存在しない場合はnull）
+   */
+  findById(id: ChecklistTemplateId): Promise<ChecklistTemplate | null>;
+
+  /**
+   * プロジェクトで利用できるテンプレートを取得（名前の昇順）
+   * 全社共通テンプレートとプロジェクトのテンプレートを含む
+   * @param projectId プロジェクトID
+   * @returns テンプレートエンティティの配列
+   */
+  findAvailableToProject(projectId: ProjectId): Promise<ChecklistTemplate[]>;
+
+  /**
+   * 全社共通テンプレートを取得（名前の昇順）
+   * @returns テンプレートエンティティの配列
+   */
+  findGlobal(): Promise<ChecklistTemplate[]>;
+
+  /**
+   * テンプレートの指定バージョンを取得
+   * @param templateId テンプレートID
+   * @param version バージョン
+   * @returns バージョンエンティティ（存在しない場合はnull）
+   */
+  findVersion(
+    templateId: ChecklistTemplateId,
+    version: number,
+  ): Promise<ChecklistTemplateVersion | null>;
+
+  /**
+   * テンプレートの全バージョンを取得（バージョンの降順）
+   * @param templateId テンプレートID
+   * @returns バージョンエンティティの配列
+   */
+  findVersions(
+    templateId: ChecklistTemplateId,
+  ): Promise<ChecklistTemplateVersion[]>;
+
+  /**
+   * テンプレートを保存（新規作成または更新）
+   * 新しいバージョンを指定した場合は同一トランザクションで保存する
+   * @param template テンプレートエンティティ
+   * @param version 新しく公開したバージョン
+   */
+  save(
+    template: ChecklistTemplate,
+    version?: ChecklistTemplateVersion,
+  ): Promise<void>;
+
+  /**
+   * テンプレートを削除（全バージョンも削除され、リンクしていたレビュースペースはリンク解除される）
+   * @param id テンプレートID
+   */
+  delete(id: ChecklistTemplateId): Promise<void>;
+}
@@ -0,0 +1,64 @@
+import { Notification, NotificationId } from "@/domain/notification";
+import { UserId } from "@/domain/user";
+
+/**
+ * 通知取得オプション
+ */
+export interface FindNotificationsOptions {
+  /** 取得件数 */
+  limit?: number;
+  /** 未読の通知のみ取得 */
+  unreadOnly?: boolean;
+  /** 指定日時より後に作成された通知のみ取得 */
+  createdAfter?: Date;
+}
+
+/**
+ * 通知リポジトリインターフェース
+ * インフラ層で実装される
+ */
+export interface INotificationRepository {
+  /**
+   * IDで通知を取得
+   * @param id 通知ID
+   * @returns 通知エンティティ（存在しない場合はnull）
+   */
+  findById(id: NotificationId): Promise<Notification | null>;
+
+  /**
+   * 受信者の通知一覧を取得（作成日時の降順）
+   * @param userId 受信者ユーザーID
+   * @param options 取得オプション
+   * @returns 通知エンティティの配列
+   */
+  findByUserId(
+    userId: UserId,
+    options?: FindNotificationsOptions,
+  ): Promise<Notification[]>;
+
+  /**
+   * 受信者の未読通知数をカウント
+   * @param userId 受信者ユーザーID
+   * @returns 未読件数
+   */
+  countUnreadByUserId(userId: UserId): Promise<number>;
+
+  /**
+   * 通知を保存（新規作成または既読状態の更新）
+   * @param notification 通知エンティティ
+   */
+  save(notification: Notification): Promise<void>;
+
+  /**
+   * 複数の通知を一括で新規作成
+   * @param notifications 通知エンティティの配列
+   */
+  saveMany(notifications: Notification[]): Promise<void>;
+
+  /**
+   * 受信者の未読通知を全て既読にする
+   * @param userId 受信者ユーザーID
+   * @param readAt 既読日時
+   */
+  markAllAsReadByUserId(userId: UserId, readAt: Date): Promise<void>;
+}
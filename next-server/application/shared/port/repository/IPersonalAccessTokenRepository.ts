@@ -0,0 +1,44 @@
+import {
+  PersonalAccessToken,
+  PersonalAccessTokenId,
+} from "@/domain/personalAccessToken";
+import { UserId } from "@/domain/user";
+
+/**
+ * パーソナルアクセストークンリポジトリインターフェース
+ * インフラ層で実装される
+ */
+export interface IPersonalAccessTokenRepository {
+  /**
+   * IDでトークンを取得
+   * @param id トークンID
+   * @returns トークンエンティティ（存在しない場合はnull）
+   */
+  findById(id: PersonalAccessTokenId): Promise<PersonalAccessToken | null>;
+
+  /**
+   * トークンハッシュでトークンを取得
+   * @param tokenHash トークン文字列のSHA-256ハッシュ
+   * @returns トークンエンティティ（存在しない場合はnull）
+   */
+  findByTokenHash(tokenHash: string): Promise<PersonalAccessToken | null>;
+
+  /**
+   * ユーザーが発行したトークン一覧を取得（作成日時の降順）
+   * @param userId 発行ユーザーID
+   * @returns トークンエンティティの配列
+   */
+  findByUserId(userId: UserId): Promise<PersonalAccessToken[]>;
+
+  /**
+   * トークンを保存（新規作成または最終使用日時の更新）
+   * @param token トークンエンティティ
+   */
+  save(token: PersonalAccessToken): Promise<void>;
+
+  /**
+   * トークンを削除
+   * @param id トークンID
+   */
+  delete(id: PersonalAccessTokenId): Promise<void>;
+}
@@ -44,6 +44,20 @@ export interface IProjectRepository {
    */
   countByMemberId(userId: UserId, search?: string): Promise<number>;
 
+  /**
+   * 全プロジェクト一覧を検索（管理者用）
+   * @param options 検索オプション
+   * @returns プロジェクトエンティティの配列（更新日時降順）
+   */
+  findAll(options?: FindProjectsOptions): Promise<Project[]>;
+
+  /**
+   * 全プロジェクト数をカウント（管理者用）
+   * @param search 検索キーワード
+   * @returns プロジェクト数
+   */
+  countAll(search?: string): Promise<number>;
+
   /**
    * プロジェクトを保存（新規作成または更新）
    * @param project プロジェクトエンティティ
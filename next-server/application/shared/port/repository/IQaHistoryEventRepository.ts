@@ -0,0 +1,31 @@
+import { QaHistoryEvent, QaHistoryId } from "@/domain/qaHistory";
+
+/**
+ * Q&A履歴イベントリポジトリインターフェース
+ */
+export interface IQaHistoryEventRepository {
+  /**
+   * イベントを追加する
+   * 同じQ&A履歴・発行順のイベントが既に存在する場合はエラーとなる
+   * @param event Q&A履歴イベントエンティティ
+   */
+  append(event: QaHistoryEvent): Promise<void>;
+
+  /**
+   * Q&A履歴のイベントを発行順に取得する
+   * @param qaHistoryId Q&A履歴ID
+   * @param afterSequence 指定した場合、この発行順より後のイベントのみ取得する
+   * @returns Q&A履歴イベント一覧（発行順の昇順）
+   */
+  findByQaHistoryId(
+    qaHistoryId: QaHistoryId,
+    afterSequence?: number,
+  ): Promise<QaHistoryEvent[]>;
+
+  /**
+   * Q&A履歴の最後のイベントの発行順を取得する
+   * @param qaHistoryId Q&A履歴ID
+   * @returns 最後の発行順（イベントが存在しない場合は0）
+   */
+  findLatestSequence(qaHistoryId: QaHistoryId): Promise<number>;
+}
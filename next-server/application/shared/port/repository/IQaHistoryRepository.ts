@@ -49,6 +49,21 @@ export interface IQaHistoryRepository {
     options?: FindQaHistoriesOptions,
   ): Promise<FindQaHistoriesResult>;
 
+  /**
+   * スレッドに属するQ&A履歴を検索
+   * @param threadId スレッドID（スレッドの最初のQ&A履歴ID）
+   * @returns Q&A履歴一覧（作成日時の昇順）
+   */
+  findByThreadId(threadId: QaHistoryId): Promise<QaHistory[]>;
+
+  /**
+   * 処理待ち・処理中のまま、実行するAIタスクが存在しないQ&A履歴を検索
+   * ワーカーの異常終了やタスク登録の失敗により取り残されたQ&A履歴の復旧に使用する
+   * @param updatedBefore この日時より前から更新されていないQ&A履歴のみ対象とする
+   * @returns Q&A履歴一覧
+   */
+  findOrphaned(updatedBefore: Date): Promise<QaHistory[]>;
+
   /**
    * Q&A履歴を保存（新規作成）
    * @param qaHistory Q&A履歴エンティティ
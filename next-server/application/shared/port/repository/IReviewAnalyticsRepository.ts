@@ -0,0 +1,126 @@
+import { ProjectId } from "@/domain/project";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+
+/**
+ * レビュー分析の集計範囲
+ */
+export interface ReviewAnalyticsScope {
+  /** 集計対象のプロジェクトID */
+  projectId: ProjectId;
+  /** 集計対象のレビュースペースID（省略時はプロジェクト全体） */
+  reviewSpaceId?: ReviewSpaceId;
+  /** 集計期間の開始日時（この日時を含む） */
+  from: Date;
+  /** 集計期間の終了日時（この日時を含まない） */
+  to: Date;
+  /** 日別集計に使用するタイムゾーン（IANA形式） */
+  timeZone: string;
+}
+
+/**
+ * チェック項目・評定ごとのレビュー結果件数
+ */
+export interface EvaluationCountRow {
+  reviewSpaceId: string;
+  /** チェック項目の内容（レビュー実行時点のスナップショット） */
+  checkListItemContent: string;
+  /** 最終評定（レビュアーの上書きを反映、エラーの場合はnull） */
+  evaluation: string | null;
+  /** エラーのレビュー結果か */
+  isError: boolean;
+  count: number;
+}
+
+/**
+ * 日別のレビュー件数
+ */
+export interface DailyReviewCountRow {
+  /** 日付（YYYY-MM-DD） */
+  date: string;
+  /** 作成されたレビュー対象数 */
+  reviewTargetCount: number;
+  /** 作成されたレビュー結果数 */
+  resultCount: number;
+  /** エラーのレビュー結果数 */
+  errorResultCount: number;
+}
+
+/**
+ * 日別のAIタスク件数
+ */
+export interface DailyTaskCountRow {
+  /** 日付（YYYY-MM-DD） */
+  date: string;
+  /** 終了したタスク数 */
+  taskCount: number;
+  /** 失敗したタスク数 */
+  failedTaskCount: number;
+}
+
+/**
+ * タスクタイプごとの所要時間統計
+ */
+export interface TaskDurationStatRow {
+  taskType: string;
+  /** 終了したタスク数 */
+  taskCount: number;
+  /** 失敗したタスク数 */
+  failedTaskCount: number;
+  /** 平均キュー待ち時間（ミリ秒、処理開始したタスクがない場合はnull） */
+  avgWaitMs: number | null;
+  /** 最大キュー待ち時間（ミリ秒） */
+  maxWaitMs: number | null;
+  /** 平均実行時間（ミリ秒） */
+  avgExecutionMs: number | null;
+  /** 最大実行時間（ミリ秒） */
+  maxExecutionMs: number | null;
+}
+
+/**
+ * Q&Aの対象チェック項目ごとの質問件数
+ */
+export interface QaTopicCountRow {
+  /** Q&A履歴に保存されたチェック項目内容（JSON配列文字列または単一の文字列） */
+  checkListItemContent: string;
+  count: number;
+}
+
+/**
+ * レビュー分析リポジトリインターフェース
+ * レビュー結果・AIタスク実行履歴・Q&A履歴を集計する読み取り専用リポジトリ
+ */
+export interface IReviewAnalyticsRepository {
+  /**
+   * チェック項目・評定ごとのレビュー結果件数を集計
+   * @param scope 集計範囲
+   */
+  countEvaluations(scope: ReviewAnalyticsScope): Promise<EvaluationCountRow[]>;
+
+  /**
+   * 日別のレビュー対象数・レビュー結果数を集計（件数のある日のみ）
+   * @param scope 集計範囲
+   */
+  countDailyReviews(
+    scope: ReviewAnalyticsScope,
+  ): Promise<DailyReviewCountRow[]>;
+
+  /**
+   * 日別の終了したAIタスク数を集計（件数のある日のみ）
+   * @param scope 集計範囲
+   */
+  countDailyTasks(scope: ReviewAnalyticsScope): Promise<DailyTaskCountRow[]>;
+
+  /**
+   * タスクタイプごとのキュー待ち時間・実行時間を集計
+   * @param scope 集計範囲
+   */
+  aggregateTaskDurations(
+    scope: ReviewAnalyticsScope,
+  ): Promise<TaskDurationStatRow[]>;
+
+  /**
+   * Q&Aの対象チェック項目ごとの質問件数を集計
+   * @param scope 集計範囲
+   */
+  countQaTopics(scope: ReviewAnalyticsScope): Promise<QaTopicCountRow[]>;
+}
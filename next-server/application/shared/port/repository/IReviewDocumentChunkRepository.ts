@@ -0,0 +1,36 @@
+/**
+ * レビュードキュメントのセクションと埋め込みベクトル
+ * 意味検索インデックスの1レコード
+ */
+export interface ReviewDocumentChunk {
+  reviewDocumentCacheId: string;
+  chunkIndex: number;
+  heading: string | null;
+  content: string;
+  embedding: number[];
+  embeddingModel: string;
+}
+
+/**
+ * レビュードキュメントチャンクリポジトリインターフェース
+ */
+export interface IReviewDocumentChunkRepository {
+  /**
+   * ドキュメントキャッシュのチャンクを全て置き換える
+   * @param reviewDocumentCacheId ドキュメントキャッシュID
+   * @param chunks 保存するチャンクの配列
+   */
+  replaceByReviewDocumentCacheId(
+    reviewDocumentCacheId: string,
+    chunks: ReviewDocumentChunk[],
+  ): Promise<void>;
+
+  /**
+   * ドキュメントキャッシュIDでチャンク一覧を取得
+   * @param reviewDocumentCacheId ドキュメントキャッシュID
+   * @returns チャンク番号順のチャンク配列
+   */
+  findByReviewDocumentCacheId(
+    reviewDocumentCacheId: string,
+  ): Promise<ReviewDocumentChunk[]>;
+}
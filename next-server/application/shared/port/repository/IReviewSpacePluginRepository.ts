@@ -0,0 +1,41 @@
+import {
+  ReviewSpacePlugin,
+  ReviewSpacePluginId,
+} from "@/domain/reviewSpacePlugin";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+
+/**
+ * レビュースペースプラグインリポジトリインターフェース
+ * インフラ層で実装される
+ */
+export interface IReviewSpacePluginRepository {
+  /**
+   * IDでプラグインを取得
+   * @param id プラグインID
+   * @returns プラグインエンティティ（存在しない場合はnull）
+   */
+  findById(id: ReviewSpacePluginId): Promise<ReviewSpacePlugin | null>;
+
+  /**
+   * レビュースペースに登録されたプラグインを取得（登録日時の昇順）
+   * @param reviewSpaceId レビュースペースID
+   * @param options.enabledOnly 有効なプラグインのみ取得する場合はtrue
+   * @returns プラグインエンティティの配列
+   */
+  findByReviewSpaceId(
+    reviewSpaceId: ReviewSpaceId,
+    options?: { enabledOnly?: boolean },
+  ): Promise<ReviewSpacePlugin[]>;
+
+  /**
+   * プラグインを保存（新規作成または更新）
+   * @param plugin プラグインエンティティ
+   */
+  save(plugin: ReviewSpacePlugin): Promise<void>;
+
+  /**
+   * プラグインを削除
+   * @param id プラグインID
+   */
+  delete(id: ReviewSpacePluginId): Promise<void>;
+}
@@ -13,6 +13,19 @@ export interface FindReviewTargetsOptions {
   status?: string;
 }
 
+/**
+ * レビュースペースごとのレビュー対象の集計
+ */
+export interface ReviewTargetSpaceSummaryRow {
+  reviewSpaceId: string;
+  /** レビュー対象数 */
+  reviewTargetCount: number;
+  /** レビュー対象の更新日時の最大値 */
+  lastUpdatedAt: Date;
+  /** 作成日時の新しい順のレビュー対象ID（recentIdLimit件まで） */
+  recentReviewTargetIds: string[];
+}
+
 /**
  * レビュー対象リポジトリインターフェース
  */
@@ -35,6 +48,15 @@ export interface IReviewTargetRepository {
     options?: FindReviewTargetsOptions,
   ): Promise<ReviewTarget[]>;
 
+  /**
+   * リビジョングループに属するレビュー対象を検索
+   * @param revisionGroupId リビジョングループID
+   * @returns レビュー対象エンティティの配列（リビジョン番号昇順）
+   */
+  findByRevisionGroupId(
+    revisionGroupId: ReviewTargetId,
+  ): Promise<ReviewTarget[]>;
+
   /**
    * レビュースペースIDでレビュー対象数をカウント
    * @param reviewSpaceId レビュースペースID
@@ -42,12 +64,32 @@ export interface IReviewTargetRepository {
    */
   countByReviewSpaceId(reviewSpaceId: ReviewSpaceId): Promise<number>;
 
+  /**
+   * 複数のレビュースペースのレビュー対象をスペースごとに集計
+   * @param reviewSpaceIds レビュースペースIDの配列
+   * @param recentIdLimit スペースごとに返すレビュー対象IDの上限
+   * @returns スペースごとの集計（レビュー対象のないスペースは含まない）
+   */
+  summarizeByReviewSpaceIds(
+    reviewSpaceIds: ReviewSpaceId[],
+    recentIdLimit: number,
+  ): Promise<ReviewTargetSpaceSummaryRow[]>;
+
   /**
    * レビュー対象を保存（新規作成または更新）
    * @param reviewTarget レビュー対象エンティティ
    */
   save(reviewTarget: ReviewTarget): Promise<void>;
 
+  /**
+   * 新しいリビジョンのレビュー対象を登録
+   * 同時に登録されてもリビジョン番号が重複しないよう、リビジョングループをロックして
+   * 最新リビジョンの次の番号を採番し直してから登録する
+   * @param reviewTarget 新しいリビジョンのレビュー対象エンティティ
+   * @returns 採番後のレビュー対象エンティティ
+   */
+  saveRevision(reviewTarget: ReviewTarget): Promise<ReviewTarget>;
+
   /**
    * レビュー対象を削除
    * @param id レビュー対象ID
@@ -0,0 +1,54 @@
+import {
+  WebhookDelivery,
+  WebhookDeliveryId,
+  WebhookId,
+} from "@/domain/webhook";
+
+/**
+ * Webhook配信リポジトリインターフェース
+ * インフラ層で実装される
+ */
+export interface IWebhookDeliveryRepository {
+  /**
+   * IDで配信を取得
+   * @param id 配信ID
+   * @returns 配信エンティティ（存在しない場合はnull）
+   */
+  findById(id: WebhookDeliveryId): Promise<WebhookDelivery | null>;
+
+  /**
+   * Webhookの配信記録を取得（作成日時の降順）
+   * @param webhookId WebhookID
+   * @param limit 取得件数
+   * @returns 配信エンティティの配列
+   */
+  findByWebhookId(
+    webhookId: WebhookId,
+    limit: number,
+  ): Promise<WebhookDelivery[]>;
+
+  /**
+   * 送信予定日時を過ぎた送信待ちの配信を取得し、送信中として確保する（原子性保証）
+   * 確保した配信の次回送信予定日時をリース期間だけ先送りし、
+   * 他のインスタンスが同じ配信を同時に送信しないようにする
+   * @param limit 取得件数
+   * @param leaseDurationMs リース期間（ミリ秒）
+   * @returns 確保した配信エンティティの配列
+   */
+  claimDueDeliveries(
+    limit: number,
+    leaseDurationMs: number,
+  ): Promise<WebhookDelivery[]>;
+
+  /**
+   * 配信を保存（新規作成または送信結果の更新）
+   * @param delivery 配信エンティティ
+   */
+  save(delivery: WebhookDelivery): Promise<void>;
+
+  /**
+   * 複数の配信を一括で新規作成
+   * @param deliveries 配信エンティティの配列
+   */
+  saveMany(deliveries: WebhookDelivery[]): Promise<void>;
+}
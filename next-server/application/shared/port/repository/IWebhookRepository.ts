@@ -0,0 +1,39 @@
+import { Webhook, WebhookId } from "@/domain/webhook";
+import { ProjectId } from "@/domain/project";
+
+/**
+ * Webhookリポジトリインターフェース
+ * インフラ層で実装される
+ */
+export interface IWebhookRepository {
+  /**
+   * IDでWebhookを取得
+   * @param id WebhookID
+   * @returns Webhookエンティティ（存在しない場合はnull）
+   */
+  findById(id: WebhookId): Promise<Webhook | null>;
+
+  /**
+   * プロジェクトに登録されたWebhookを取得（登録日時の昇順）
+   * レビュースペース単位で登録されたWebhookも含む
+   * @param projectId プロジェクトID
+   * @param options.enabledOnly 有効なWebhookのみ取得する場合はtrue
+   * @returns Webhookエンティティの配列
+   */
+  findByProjectId(
+    projectId: ProjectId,
+    options?: { enabledOnly?: boolean },
+  ): Promise<Webhook[]>;
+
+  /**
+   * Webhookを保存（新規作成または更新）
+   * @param webhook Webhookエンティティ
+   */
+  save(webhook: Webhook): Promise<void>;
+
+  /**
+   * Webhookを削除（配信記録も削除される）
+   * @param id WebhookID
+   */
+  delete(id: WebhookId): Promise<void>;
+}
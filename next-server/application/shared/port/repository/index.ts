@@ -19,23 +19,54 @@ export type {
 export type {
   IReviewTargetRepository,
   FindReviewTargetsOptions,
+  ReviewTargetSpaceSummaryRow,
 } from "./IReviewTargetRepository";
 export type { IReviewResultRepository } from "./IReviewResultRepository";
 export type { IReviewDocumentCacheRepository } from "./IReviewDocumentCacheRepository";
+export type {
+  IReviewDocumentChunkRepository,
+  ReviewDocumentChunk,
+} from "./IReviewDocumentChunkRepository";
 export type {
   IAiTaskRepository,
   FindAiTasksOptions,
 } from "./IAiTaskRepository";
 export type { IAiTaskFileMetadataRepository } from "./IAiTaskFileMetadataRepository";
+export type { IAiTaskHistoryRepository } from "./IAiTaskHistoryRepository";
+export type {
+  IAiTokenUsageRepository,
+  AiTokenUsageSumRow,
+  AiTokenUsageByTaskTypeRow,
+  AiTokenUsageByProjectRow,
+} from "./IAiTokenUsageRepository";
 export type { ICheckListItemRepository } from "./ICheckListItemRepository";
 export type {
   IQaHistoryRepository,
   FindQaHistoriesOptions,
   FindQaHistoriesResult,
 } from "./IQaHistoryRepository";
+export type { IQaHistoryEventRepository } from "./IQaHistoryEventRepository";
 export type {
   ILargeDocumentResultCacheRepository,
   LargeDocumentResultCache,
   NewLargeDocumentResultCache,
   ChecklistResultWithIndividualResults,
 } from "./ILargeDocumentResultCacheRepository";
+export type { IReviewSpacePluginRepository } from "./IReviewSpacePluginRepository";
+export type {
+  INotificationRepository,
+  FindNotificationsOptions,
+} from "./INotificationRepository";
+export type { IPersonalAccessTokenRepository } from "./IPersonalAccessTokenRepository";
+export type { IWebhookRepository } from "./IWebhookRepository";
+export type { IWebhookDeliveryRepository } from "./IWebhookDeliveryRepository";
+export type { IChecklistTemplateRepository } from "./IChecklistTemplateRepository";
+export type {
+  IReviewAnalyticsRepository,
+  ReviewAnalyticsScope,
+  EvaluationCountRow,
+  DailyReviewCountRow,
+  DailyTaskCountRow,
+  TaskDurationStatRow,
+  QaTopicCountRow,
+} from "./IReviewAnalyticsRepository";
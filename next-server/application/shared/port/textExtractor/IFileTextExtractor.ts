@@ -8,7 +8,12 @@ import type { TextExtractorType } from "./TextExtractorType";
 export interface FileTextExtractorOptions extends TextExtractorOptions {
   /** 使用する抽出方式（省略時はデフォルト） */
   strategyType?: TextExtractorType;
-  /** 抽出後の正規化を行うか（デフォルト: true） */
+  /**
+   * 見出し・表・ページ区切りを保持するMarkdown形式の抽出方式を優先するか（デフォルト: false）
+   * strategyTypeを指定した場合は無視される
+   */
+  structured?: boolean;
+  /** 抽出後の正規化を行うか（デフォルト: true。ソースコードは空白を保持するためfalse） */
   normalize?: boolean;
   /** 正規化オプション（normalizeがtrueの場合に適用） */
   normalizerOptions?: Partial<TextNormalizerOptions>;
@@ -45,4 +50,10 @@ export interface IFileTextExtractor {
    * @returns サポートされている場合true
    */
   isSupported(extension: string): boolean;
+
+  /**
+   * サポートされている拡張子の一覧を取得
+   * @returns サポートされている拡張子の配列
+   */
+  getSupportedExtensions(): string[];
 }
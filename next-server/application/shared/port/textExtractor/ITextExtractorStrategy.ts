@@ -1,5 +1,18 @@
 import type { TextExtractorType } from "./TextExtractorType";
 
+/**
+ * 抽出テキストのセクション（見出し）
+ * 構造を保持する抽出方式でのみ出力される
+ */
+export interface TextExtractionSection {
+  /** 見出しレベル（1が最上位） */
+  level: number;
+  /** 見出しテキスト */
+  title: string;
+  /** 見出しが含まれるページ番号またはスライド番号（1始まり、不明な場合は省略） */
+  page?: number;
+}
+
 /**
  * テキスト抽出結果
  */
@@ -18,6 +31,8 @@ export interface TextExtractionResult {
     extractedLength: number;
     /** 警告メッセージ（オプション） */
     warnings?: string[];
+    /** セクション構成（構造を保持する抽出方式の場合のみ） */
+    outline?: TextExtractionSection[];
   };
 }
 
@@ -28,6 +43,8 @@ export interface TextExtractionResult {
 export interface TextExtractorOptions {
   /** エンコーディング（デフォルト: utf-8） */
   encoding?: string;
+  /** 元のファイル名（ソースコードの言語判定などに使用） */
+  fileName?: string;
 }
 
 /**
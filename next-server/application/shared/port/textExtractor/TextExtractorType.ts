@@ -12,4 +12,9 @@ export type TextExtractorType =
   | "unpdf" // PDFテキスト抽出（unpdfライブラリ使用）- 推奨
   | "pdf-ocr" // 将来追加: OCRサービス
   | "docx-mammoth" // Word文書（mammothライブラリ使用）
-  | "pptx-officeparser"; // PowerPoint文書（officeparserライブラリ使用）
+  | "pptx-officeparser" // PowerPoint文書（officeparserライブラリ使用）
+  | "docx-markdown" // Word文書のMarkdown変換（見出し・表を保持）
+  | "pdf-markdown" // PDFのページ区切り付き抽出（しおりから見出しを取得）
+  | "pptx-markdown" // PowerPointのスライド単位Markdown変換（ノートを含む）
+  | "xlsx-markdown" // Excelのシート単位Markdown表変換
+  | "source-code"; // ソースコードの行番号付きコードブロック変換
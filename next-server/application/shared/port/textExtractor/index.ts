@@ -4,6 +4,7 @@
 export type { TextExtractorType } from "./TextExtractorType";
 export type {
   TextExtractionResult,
+  TextExtractionSection,
   TextExtractorOptions,
   ITextExtractorStrategy,
 } from "./ITextExtractorStrategy";
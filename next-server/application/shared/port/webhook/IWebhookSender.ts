@@ -0,0 +1,33 @@
+/**
+ * Webhook送信リクエスト
+ */
+export interface WebhookSendRequest {
+  /** 送信先URL */
+  url: string;
+  /** 送信ボディ（JSON文字列） */
+  body: string;
+  /** 追加のリクエストヘッダー（署名・イベント種別など） */
+  headers: Record<string, string>;
+  /** タイムアウト（ミリ秒） */
+  timeoutMs: number;
+}
+
+/**
+ * Webhook送信結果
+ * 送信先起因のエラー（接続失敗・タイムアウト・2xx以外の応答）は例外ではなく結果として返す
+ */
+export type WebhookSendResult =
+  | { status: "success"; statusCode: number }
+  | { status: "error"; statusCode: number | null; errorMessage: string };
+
+/**
+ * Webhook送信インターフェース
+ * 外部システムへHTTP POSTでイベントを送信する
+ */
+export interface IWebhookSender {
+  /**
+   * Webhookを送信する
+   * @param request 送信リクエスト
+   */
+  send(request: WebhookSendRequest): Promise<WebhookSendResult>;
+}
@@ -0,0 +1,5 @@
+export type {
+  IWebhookSender,
+  WebhookSendRequest,
+  WebhookSendResult,
+} from "./IWebhookSender";
@@ -1,5 +1,11 @@
 import { ISystemSettingRepository } from "@/application/shared/port/repository";
-import { SystemSettingDto } from "@/domain/system-setting";
+import {
+  AiApiRateLimitDto,
+  AiModelAssignmentsDto,
+  AiProviderSummaryDto,
+  ModelContextWindowDto,
+  SystemSettingDto,
+} from "@/domain/system-setting";
 
 /**
  * システム設定取得結果DTO
@@ -12,6 +18,14 @@ export interface GetSystemSettingResultDto {
   apiUrl: string | null;
   /** AI APIのモデル名 */
   apiModel: string | null;
+  /** AI APIのレート制限 */
+  rateLimit: AiApiRateLimitDto;
+  /** 登録済みAIプロバイダー（APIキーは返さない） */
+  aiProviders: AiProviderSummaryDto[];
+  /** エージェント別モデル割り当て（システム全体の既定値） */
+  aiModelAssignments: AiModelAssignmentsDto;
+  /** モデル別コンテキストウィンドウ（大量レビューのチャンクサイズ自動算出に使用） */
+  modelContextWindows: ModelContextWindowDto[];
   /** 更新日時 */
   updatedAt: Date | null;
 }
@@ -37,6 +51,10 @@ export class GetSystemSettingService {
         hasApiKey: false,
         apiUrl: null,
         apiModel: null,
+        rateLimit: { requestsPerMinute: null, tokensPerMinute: null },
+        aiProviders: [],
+        aiModelAssignments: {},
+        modelContextWindows: [],
         updatedAt: null,
       };
     }
@@ -46,6 +64,12 @@ export class GetSystemSettingService {
       hasApiKey: dto.apiKey !== null,
       apiUrl: dto.apiUrl,
       apiModel: dto.apiModel,
+      rateLimit: dto.rateLimit,
+      aiProviders: setting.aiProviders.map((provider) =>
+        provider.toSummaryDto(),
+      ),
+      aiModelAssignments: dto.aiModelAssignments,
+      modelContextWindows: dto.modelContextWindows,
       updatedAt: dto.updatedAt,
     };
   }
@@ -0,0 +1,52 @@
+import { ISystemSettingRepository } from "@/application/shared/port/repository";
+import { AiModelAssignmentsDto, AiProviderType } from "@/domain/system-setting";
+
+/**
+ * AIプロバイダー選択肢DTO
+ * 接続先のURLやAPIキーは含めない
+ */
+export interface AiProviderOptionDto {
+  id: string;
+  name: string;
+  type: AiProviderType;
+}
+
+/**
+ * AIプロバイダー一覧取得結果DTO
+ */
+export interface ListAiProvidersResultDto {
+  /** 登録済みAIプロバイダー */
+  providers: AiProviderOptionDto[];
+  /** システム全体のエージェント別モデル割り当て（プロジェクトで割り当てがない場合に使用） */
+  defaultAssignments: AiModelAssignmentsDto;
+}
+
+/**
+ * AIプロバイダー一覧取得サービス
+ * プロジェクト設定でのエージェント別モデル選択に使用
+ */
+export class ListAiProvidersService {
+  constructor(
+    private readonly systemSettingRepository: ISystemSettingRepository,
+  ) {}
+
+  /**
+   * 登録済みAIプロバイダーとシステム全体のモデル割り当てを取得する
+   * @returns AIプロバイダー一覧（システム設定が存在しない場合は空）
+   */
+  async execute(): Promise<ListAiProvidersResultDto> {
+    const setting = await this.systemSettingRepository.find();
+
+    if (!setting) {
+      return { providers: [], defaultAssignments: {} };
+    }
+
+    return {
+      providers: setting.aiProviders.map((provider) => {
+        const { id, name, type } = provider.toSummaryDto();
+        return { id, name, type };
+      }),
+      defaultAssignments: setting.aiModelAssignments.toDto(),
+    };
+  }
+}
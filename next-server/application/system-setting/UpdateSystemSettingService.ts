@@ -1,5 +1,13 @@
 import { ISystemSettingRepository } from "@/application/shared/port/repository";
-import { SystemSetting } from "@/domain/system-setting";
+import {
+  AiApiRateLimitDto,
+  AiModelAssignmentDto,
+  AiModelAssignmentsDto,
+  AiProviderSummaryDto,
+  CreateAiProviderParams,
+  ModelContextWindowDto,
+  SystemSetting,
+} from "@/domain/system-setting";
 
 /**
  * システム設定更新コマンド
@@ -11,6 +19,17 @@ export interface UpdateSystemSettingCommand {
   apiUrl: string | null;
   /** AI APIのモデル名 */
   apiModel: string | null;
+  /** AI APIのレート制限（省略時は変更しない、項目がnullの場合は制限なし） */
+  rateLimit?: AiApiRateLimitDto;
+  /**
+   * AIプロバイダー一覧（省略時は変更しない、指定した場合は全体を置き換える）
+   * APIキーがnullのプロバイダーは同じIDの既存プロバイダーのAPIキーを引き継ぐ
+   */
+  aiProviders?: CreateAiProviderParams[];
+  /** エージェント別モデル割り当て（省略時は変更しない、指定した場合は全体を置き換える） */
+  aiModelAssignments?: Record<string, AiModelAssignmentDto>;
+  /** モデル別コンテキストウィンドウ（省略時は変更しない、指定した場合は全体を置き換える） */
+  modelContextWindows?: ModelContextWindowDto[];
 }
 
 /**
@@ -23,6 +42,14 @@ export interface UpdateSystemSettingResultDto {
   apiUrl: string | null;
   /** AI APIのモデル名 */
   apiModel: string | null;
+  /** AI APIのレート制限 */
+  rateLimit: AiApiRateLimitDto;
+  /** 登録済みAIプロバイダー（APIキーは返さない） */
+  aiProviders: AiProviderSummaryDto[];
+  /** エージェント別モデル割り当て */
+  aiModelAssignments: AiModelAssignmentsDto;
+  /** モデル別コンテキストウィンドウ */
+  modelContextWindows: ModelContextWindowDto[];
   /** 更新日時 */
   updatedAt: Date;
 }
@@ -44,7 +71,15 @@ export class UpdateSystemSettingService {
   async execute(
     command: UpdateSystemSettingCommand,
   ): Promise<UpdateSystemSettingResultDto> {
-    const { apiKey, apiUrl, apiModel } = command;
+    const {
+      apiKey,
+      apiUrl,
+      apiModel,
+      rateLimit,
+      aiProviders,
+      aiModelAssignments,
+      modelContextWindows,
+    } = command;
 
     // 既存の設定を取得
     const existingSetting = await this.systemSettingRepository.find();
@@ -56,6 +91,10 @@ export class UpdateSystemSettingService {
         apiKey,
         apiUrl,
         apiModel,
+        rateLimit,
+        aiProviders,
+        aiModelAssignments,
+        modelContextWindows,
       });
     } else {
       // 新規作成
@@ -63,6 +102,10 @@ export class UpdateSystemSettingService {
         apiKey,
         apiUrl,
         apiModel,
+        rateLimit,
+        aiProviders,
+        aiModelAssignments,
+        modelContextWindows,
       });
     }
 
@@ -73,6 +116,12 @@ export class UpdateSystemSettingService {
       hasApiKey: dto.apiKey !== null,
       apiUrl: dto.apiUrl,
       apiModel: dto.apiModel,
+      rateLimit: dto.rateLimit,
+      aiProviders: setting.aiProviders.map((provider) =>
+        provider.toSummaryDto(),
+      ),
+      aiModelAssignments: dto.aiModelAssignments,
+      modelContextWindows: dto.modelContextWindows,
       updatedAt: dto.updatedAt,
     };
   }
@@ -60,6 +60,7 @@ describe("GetSystemSettingService", () => {
       expect(result.hasApiKey).toBe(false);
       expect(result.apiUrl).toBeNull();
       expect(result.apiModel).toBeNull();
+      expect(result.modelContextWindows).toEqual([]);
       expect(result.updatedAt).toBeNull();
     });
 
@@ -106,5 +106,81 @@ describe("UpdateSystemSettingService", () => {
       expect(result.apiModel).toBe("gpt-3.5");
       expect(mockSystemSettingRepository.save).toHaveBeenCalledTimes(1);
     });
+
+    it("レート制限を更新できる", async () => {
+      // Arrange
+      const existingSetting = SystemSetting.create({
+        apiKey: "sk-old-api-key",
+        apiUrl: "https://api.old.com",
+        apiModel: "gpt-3.5",
+      });
+      const command: UpdateSystemSettingCommand = {
+        apiKey: null,
+        apiUrl: null,
+        apiModel: null,
+        rateLimit: { requestsPerMinute: 60, tokensPerMinute: null },
+      };
+      vi.mocked(mockSystemSettingRepository.find).mockResolvedValue(
+        existingSetting,
+      );
+      vi.mocked(mockSystemSettingRepository.save).mockResolvedValue(undefined);
+
+      // Act
+      const result = await updateSystemSettingService.execute(command);
+
+      // Assert
+      expect(result.rateLimit).toEqual({
+        requestsPerMinute: 60,
+        tokensPerMinute: null,
+      });
+      const saved = vi.mocked(mockSystemSettingRepository.save).mock
+        .calls[0][0];
+      expect(saved.rateLimit.requestsPerMinute).toBe(60);
+    });
+
+    it("モデル別コンテキストウィンドウを更新できる（省略時は既存値を保持する）", async () => {
+      // Arrange
+      const existingSetting = SystemSetting.create({
+        apiKey: "sk-old-api-key",
+        apiUrl: "https://api.old.com",
+        apiModel: "gpt-4o",
+      });
+      vi.mocked(mockSystemSettingRepository.find).mockResolvedValue(
+        existingSetting,
+      );
+      vi.mocked(mockSystemSettingRepository.save).mockResolvedValue(undefined);
+
+      // Act
+      const result = await updateSystemSettingService.execute({
+        apiKey: null,
+        apiUrl: null,
+        apiModel: null,
+        modelContextWindows: [
+          {
+            model: "gpt-4o",
+            contextWindowTokens: 128000,
+            maxOutputTokens: 16384,
+          },
+        ],
+      });
+
+      // Assert
+      expect(result.modelContextWindows).toEqual([
+        {
+          model: "gpt-4o",
+          contextWindowTokens: 128000,
+          maxOutputTokens: 16384,
+        },
+      ]);
+      const saved = vi.mocked(mockSystemSettingRepository.save).mock
+        .calls[0][0];
+      vi.mocked(mockSystemSettingRepository.find).mockResolvedValue(saved);
+      const kept = await updateSystemSettingService.execute({
+        apiKey: null,
+        apiUrl: "https://api.new.com",
+        apiModel: null,
+      });
+      expect(kept.modelContextWindows).toHaveLength(1);
+    });
   });
 });
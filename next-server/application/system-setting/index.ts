@@ -7,3 +7,8 @@ export {
   type UpdateSystemSettingCommand,
   type UpdateSystemSettingResultDto,
 } from "./UpdateSystemSettingService";
+export {
+  ListAiProvidersService,
+  type AiProviderOptionDto,
+  type ListAiProvidersResultDto,
+} from "./ListAiProvidersService";
@@ -0,0 +1,94 @@
+import {
+  IProjectRepository,
+  IWebhookRepository,
+} from "@/application/shared/port/repository";
+import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { Webhook, WebhookDto } from "@/domain/webhook";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * Webhook登録コマンド（入力DTO）
+ */
+export interface CreateWebhookCommand {
+  /** プロジェクトID */
+  projectId: string;
+  /** 対象レビュースペースID（nullの場合はプロジェクト全体） */
+  reviewSpaceId: string | null;
+  /** Webhook名 */
+  name: string;
+  /** 送信先URL */
+  url: string;
+  /** 購読イベント */
+  events: string[];
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+}
+
+/**
+ * Webhook登録結果DTO
+ */
+export interface CreateWebhookResult {
+  /** 登録したWebhook */
+  webhook: WebhookDto;
+  /** 署名シークレット（この結果でのみ返却し、再表示はできない） */
+  secret: string;
+}
+
+/**
+ * Webhook登録サービス
+ * プロジェクトの管理権限を持つメンバーのみ登録できる
+ */
+export class CreateWebhookService {
+  constructor(
+    private readonly webhookRepository: IWebhookRepository,
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * Webhookを登録する
+   * @param command 登録コマンド
+   * @returns 登録したWebhookと署名シークレット
+   * @throws ドメインバリデーションエラー - プロジェクト・レビュースペースが存在しない、または権限がない場合
+   */
+  async execute(command: CreateWebhookCommand): Promise<CreateWebhookResult> {
+    const { projectId, reviewSpaceId, name, url, events, userId } = command;
+
+    // プロジェクトの存在確認と権限チェック
+    const project = await this.projectRepository.findById(
+      ProjectId.reconstruct(projectId),
+    );
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("PROJECT_ACCESS_DENIED");
+    }
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.MANAGE_PROJECT)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
+    // 対象レビュースペースがプロジェクトに属することを確認
+    if (reviewSpaceId) {
+      const reviewSpace = await this.reviewSpaceRepository.findById(
+        ReviewSpaceId.reconstruct(reviewSpaceId),
+      );
+      if (!reviewSpace || reviewSpace.projectId.value !== projectId) {
+        throw domainValidationError("REVIEW_SPACE_NOT_FOUND");
+      }
+    }
+
+    const { webhook, secret } = Webhook.create({
+      projectId,
+      reviewSpaceId,
+      name,
+      url,
+      events,
+    });
+    await this.webhookRepository.save(webhook);
+
+    return { webhook: webhook.toDto(), secret };
+  }
+}
@@ -0,0 +1,57 @@
+import {
+  IProjectRepository,
+  IWebhookRepository,
+} from "@/application/shared/port/repository";
+import { PROJECT_PERMISSION } from "@/domain/project";
+import { WebhookId } from "@/domain/webhook";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * Webhook削除コマンド（入力DTO）
+ */
+export interface DeleteWebhookCommand {
+  /** WebhookID */
+  webhookId: string;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+}
+
+/**
+ * Webhook削除サービス
+ * Webhookと配信記録を削除する（送信待ちの配信も送信されなくなる）
+ */
+export class DeleteWebhookService {
+  constructor(
+    private readonly webhookRepository: IWebhookRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * Webhook削除を実行
+   * @param command 削除コマンド
+   * @throws ドメインバリデーションエラー - Webhookが存在しない、または権限がない場合
+   */
+  async execute(command: DeleteWebhookCommand): Promise<void> {
+    const { webhookId, userId } = command;
+
+    const webhookIdVo = WebhookId.reconstruct(webhookId);
+    const webhook = await this.webhookRepository.findById(webhookIdVo);
+    if (!webhook) {
+      throw domainValidationError("WEBHOOK_NOT_FOUND");
+    }
+
+    // プロジェクトの管理権限を確認
+    const project = await this.projectRepository.findById(webhook.projectId);
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("PROJECT_ACCESS_DENIED");
+    }
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.MANAGE_PROJECT)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
+    await this.webhookRepository.delete(webhookIdVo);
+  }
+}
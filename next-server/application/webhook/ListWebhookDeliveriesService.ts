@@ -0,0 +1,71 @@
+import {
+  IProjectRepository,
+  IWebhookDeliveryRepository,
+  IWebhookRepository,
+} from "@/application/shared/port/repository";
+import { PROJECT_PERMISSION } from "@/domain/project";
+import { WebhookDeliveryDto, WebhookId } from "@/domain/webhook";
+import { domainValidationError } from "@/lib/server/error";
+
+/** 取得件数のデフォルト値 */
+const DEFAULT_LIMIT = 20;
+
+/**
+ * Webhook配信記録一覧取得クエリ（入力DTO）
+ */
+export interface ListWebhookDeliveriesQuery {
+  /** WebhookID */
+  webhookId: string;
+  /** 取得件数 */
+  limit?: number;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+}
+
+/**
+ * Webhook配信記録一覧取得サービス
+ * Webhookの配信ログを新しい順に取得する
+ */
+export class ListWebhookDeliveriesService {
+  constructor(
+    private readonly webhookDeliveryRepository: IWebhookDeliveryRepository,
+    private readonly webhookRepository: IWebhookRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * 配信記録一覧取得を実行
+   * @param query 取得クエリ
+   * @returns 配信DTOの配列
+   * @throws ドメインバリデーションエラー - Webhookが存在しない、または権限がない場合
+   */
+  async execute(
+    query: ListWebhookDeliveriesQuery,
+  ): Promise<WebhookDeliveryDto[]> {
+    const { webhookId, limit = DEFAULT_LIMIT, userId } = query;
+
+    const webhookIdVo = WebhookId.reconstruct(webhookId);
+    const webhook = await this.webhookRepository.findById(webhookIdVo);
+    if (!webhook) {
+      throw domainValidationError("WEBHOOK_NOT_FOUND");
+    }
+
+    // プロジェクトの管理権限を確認
+    const project = await this.projectRepository.findById(webhook.projectId);
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("PROJECT_ACCESS_DENIED");
+    }
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.MANAGE_PROJECT)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
+    const deliveries = await this.webhookDeliveryRepository.findByWebhookId(
+      webhookIdVo,
+      limit,
+    );
+    return deliveries.map((delivery) => delivery.toDto());
+  }
+}
@@ -0,0 +1,54 @@
+import {
+  IProjectRepository,
+  IWebhookRepository,
+} from "@/application/shared/port/repository";
+import { ProjectId, PROJECT_PERMISSION } from "@/domain/project";
+import { WebhookDto } from "@/domain/webhook";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * Webhook一覧取得クエリ（入力DTO）
+ */
+export interface ListWebhooksQuery {
+  /** プロジェクトID */
+  projectId: string;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+}
+
+/**
+ * Webhook一覧取得サービス
+ * プロジェクトに登録されたWebhookを登録順に取得する
+ * 送信先URLを含むため、プロジェクトの管理権限を持つメンバーのみ取得できる
+ */
+export class ListWebhooksService {
+  constructor(
+    private readonly webhookRepository: IWebhookRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * Webhook一覧取得を実行
+   * @param query 取得クエリ
+   * @returns WebhookDTOの配列
+   * @throws ドメインバリデーションエラー - プロジェクトが存在しない、または権限がない場合
+   */
+  async execute(query: ListWebhooksQuery): Promise<WebhookDto[]> {
+    const { projectId, userId } = query;
+
+    const projectIdVo = ProjectId.reconstruct(projectId);
+    const project = await this.projectRepository.findById(projectIdVo);
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("PROJECT_ACCESS_DENIED");
+    }
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.MANAGE_PROJECT)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
+    const webhooks = await this.webhookRepository.findByProjectId(projectIdVo);
+    return webhooks.map((webhook) => webhook.toDto());
+  }
+}
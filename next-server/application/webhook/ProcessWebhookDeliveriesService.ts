@@ -0,0 +1,137 @@
+import {
+  IWebhookDeliveryRepository,
+  IWebhookRepository,
+} from "@/application/shared/port/repository";
+import type { IWebhookSender } from "@/application/shared/port/webhook";
+import { WebhookDelivery } from "@/domain/webhook";
+import { normalizeUnknownError } from "@/lib/server/error";
+import { getLogger } from "@/lib/server/logger";
+
+const logger = getLogger();
+
+/** 1回の処理で送信する配信の最大数 */
+const BATCH_SIZE = 10;
+
+/** 送信中の配信を他のインスタンスが再取得しないよう確保する時間の余裕（ミリ秒） */
+const CLAIM_LEASE_MARGIN_MS = 30000;
+
+/**
+ * 配信1件あたりの最大試行回数を取得
+ * 環境変数WEBHOOK_DELIVERY_MAX_ATTEMPTSで設定可能（デフォルト: 5）
+ */
+export const getWebhookDeliveryMaxAttempts = (): number => {
+  const attempts = parseInt(
+    process.env.WEBHOOK_DELIVERY_MAX_ATTEMPTS || "5",
+    10,
+  );
+  return isNaN(attempts) || attempts < 1 ? 5 : attempts;
+};
+
+/**
+ * 送信タイムアウトを取得（ミリ秒）
+ * 環境変数WEBHOOK_DELIVERY_TIMEOUT_MSで設定可能（デフォルト: 10000ms）
+ */
+export const getWebhookDeliveryTimeoutMs = (): number => {
+  const timeout = parseInt(
+    process.env.WEBHOOK_DELIVERY_TIMEOUT_MS || "10000",
+    10,
+  );
+  return isNaN(timeout) || timeout < 1000 ? 10000 : timeout;
+};
+
+/**
+ * Webhook配信処理サービス
+ * 送信予定日時を過ぎた送信待ちの配信を確保し、署名付きでHTTP POSTする
+ * 送信結果は配信ログに記録し、失敗した配信は指数バックオフで再試行する
+ */
+export class ProcessWebhookDeliveriesService {
+  constructor(
+    private readonly webhookDeliveryRepository: IWebhookDeliveryRepository,
+    private readonly webhookRepository: IWebhookRepository,
+    private readonly webhookSender: IWebhookSender,
+  ) {}
+
+  /**
+   * 送信待ちの配信を処理する
+   * @returns 処理した配信の件数
+   */
+  async execute(): Promise<number> {
+    const timeoutMs = getWebhookDeliveryTimeoutMs();
+    const deliveries = await this.webhookDeliveryRepository.claimDueDeliveries(
+      BATCH_SIZE,
+      timeoutMs + CLAIM_LEASE_MARGIN_MS,
+    );
+
+    await Promise.all(
+      deliveries.map((delivery) =>
+        this.deliver(delivery, timeoutMs).catch((error) => {
+          logger.error(
+            {
+              err: normalizeUnknownError(error),
+              deliveryId: delivery.id.value,
+            },
+            "Webhook配信の処理中にエラーが発生しました",
+          );
+        }),
+      ),
+    );
+
+    return deliveries.length;
+  }
+
+  /**
+   * 配信を1件送信し、結果を記録する
+   */
+  private async deliver(
+    delivery: WebhookDelivery,
+    timeoutMs: number,
+  ): Promise<void> {
+    const webhook = await this.webhookRepository.findById(delivery.webhookId);
+    if (!webhook) {
+      // Webhookの削除時に配信記録も削除されるため、記録は不要
+      return;
+    }
+    if (!webhook.isEnabled) {
+      await this.webhookDeliveryRepository.save(
+        delivery.abandon("Webhookが無効化されているため送信を中止しました"),
+      );
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const result = await this.webhookSender.send({
+      url: webhook.url,
+      body,
+      headers: {
+        "X-Webhook-Event": delivery.event.value,
+        "X-Webhook-Delivery": delivery.id.value,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": webhook.sign(body, timestamp),
+      },
+      timeoutMs,
+    });
+
+    const recorded =
+      result.status === "success"
+        ? delivery.recordSuccess(result.statusCode)
+        : delivery.recordFailure({
+            statusCode: result.statusCode,
+            errorMessage: result.errorMessage,
+            maxAttempts: getWebhookDeliveryMaxAttempts(),
+          });
+    await this.webhookDeliveryRepository.save(recorded);
+
+    logger.info(
+      {
+        deliveryId: delivery.id.value,
+        webhookId: webhook.id.value,
+        event: delivery.event.value,
+        status: recorded.status,
+        statusCode: recorded.lastStatusCode,
+        attemptCount: recorded.attemptCount,
+      },
+      "Webhookを送信しました",
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import {
+  IWebhookDeliveryRepository,
+  IWebhookRepository,
+} from "@/application/shared/port/repository";
+import { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import {
+  WebhookDelivery,
+  WebhookDeliveryDto,
+  WebhookEventValue,
+} from "@/domain/webhook";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * Webhookイベント発行コマンド（入力DTO）
+ */
+export interface PublishWebhookEventCommand {
+  /** イベント種別 */
+  event: WebhookEventValue;
+  /** イベントが発生したレビュースペースID（送信先Webhookの特定に使用） */
+  reviewSpaceId: string;
+  /** イベント固有のデータ（ペイロードのdataに格納する） */
+  data: Record<string, unknown>;
+}
+
+/**
+ * Webhookイベント発行サービス
+ * イベントを購読しているWebhookごとに配信を作成し、送信キューに登録する
+ * 実際の送信はProcessWebhookDeliveriesServiceが非同期に行うため、呼び出し元の処理を待たせない
+ */
+export class PublishWebhookEventService {
+  constructor(
+    private readonly webhookRepository: IWebhookRepository,
+    private readonly webhookDeliveryRepository: IWebhookDeliveryRepository,
+    private readonly reviewSpaceRepository: IReviewSpaceRepository,
+  ) {}
+
+  /**
+   * イベントを発行する
+   * @param command 発行コマンド
+   * @returns 作成された配信（購読しているWebhookがない場合は空配列）
+   * @throws ドメインバリデーションエラー - レビュースペースが存在しない場合
+   */
+  async execute(
+    command: PublishWebhookEventCommand,
+  ): Promise<WebhookDeliveryDto[]> {
+    const { event, reviewSpaceId, data } = command;
+
+    const reviewSpace = await this.reviewSpaceRepository.findById(
+      ReviewSpaceId.reconstruct(reviewSpaceId),
+    );
+    if (!reviewSpace) {
+      throw domainValidationError("REVIEW_SPACE_NOT_FOUND");
+    }
+
+    // イベントを購読している有効なWebhookを特定
+    const webhooks = await this.webhookRepository.findByProjectId(
+      reviewSpace.projectId,
+      { enabledOnly: true },
+    );
+    const subscribers = webhooks.filter((webhook) =>
+      webhook.subscribes(event, reviewSpaceId),
+    );
+    if (subscribers.length === 0) {
+      return [];
+    }
+
+    const payload = {
+      event,
+      occurredAt: new Date().toISOString(),
+      projectId: reviewSpace.projectId.value,
+      reviewSpaceId,
+      data,
+    };
+    const deliveries = subscribers.map((webhook) =>
+      WebhookDelivery.create({
+        webhookId: webhook.id.value,
+        event,
+        payload,
+      }),
+    );
+    await this.webhookDeliveryRepository.saveMany(deliveries);
+
+    return deliveries.map((delivery) => delivery.toDto());
+  }
+}
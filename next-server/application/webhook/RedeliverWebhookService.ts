@@ -0,0 +1,70 @@
+import {
+  IProjectRepository,
+  IWebhookDeliveryRepository,
+  IWebhookRepository,
+} from "@/application/shared/port/repository";
+import { PROJECT_PERMISSION } from "@/domain/project";
+import { WebhookDeliveryDto, WebhookDeliveryId } from "@/domain/webhook";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * Webhook再送信コマンド（入力DTO）
+ */
+export interface RedeliverWebhookCommand {
+  /** 再送信する配信ID */
+  deliveryId: string;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+}
+
+/**
+ * Webhook再送信サービス
+ * 過去の配信と同じイベント・ペイロードで新しい配信を作成し、送信キューに登録する
+ * 元の配信記録は配信ログとしてそのまま残す
+ */
+export class RedeliverWebhookService {
+  constructor(
+    private readonly webhookDeliveryRepository: IWebhookDeliveryRepository,
+    private readonly webhookRepository: IWebhookRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * 再送信を実行
+   * @param command 再送信コマンド
+   * @returns 作成した配信
+   * @throws ドメインバリデーションエラー - 配信・Webhookが存在しない、または権限がない場合
+   */
+  async execute(command: RedeliverWebhookCommand): Promise<WebhookDeliveryDto> {
+    const { deliveryId, userId } = command;
+
+    const delivery = await this.webhookDeliveryRepository.findById(
+      WebhookDeliveryId.reconstruct(deliveryId),
+    );
+    if (!delivery) {
+      throw domainValidationError("WEBHOOK_DELIVERY_NOT_FOUND");
+    }
+
+    const webhook = await this.webhookRepository.findById(delivery.webhookId);
+    if (!webhook) {
+      throw domainValidationError("WEBHOOK_NOT_FOUND");
+    }
+
+    // プロジェクトの管理権限を確認
+    const project = await this.projectRepository.findById(webhook.projectId);
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("PROJECT_ACCESS_DENIED");
+    }
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.MANAGE_PROJECT)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
+    const redelivery = delivery.redeliver();
+    await this.webhookDeliveryRepository.save(redelivery);
+
+    return redelivery.toDto();
+  }
+}
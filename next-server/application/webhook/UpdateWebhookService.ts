@@ -0,0 +1,71 @@
+import {
+  IProjectRepository,
+  IWebhookRepository,
+} from "@/application/shared/port/repository";
+import { PROJECT_PERMISSION } from "@/domain/project";
+import { WebhookDto, WebhookId } from "@/domain/webhook";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * Webhook更新コマンド（入力DTO）
+ * 指定した項目のみ更新する
+ */
+export interface UpdateWebhookCommand {
+  /** WebhookID */
+  webhookId: string;
+  /** Webhook名 */
+  name?: string;
+  /** 送信先URL */
+  url?: string;
+  /** 購読イベント */
+  events?: string[];
+  /** 有効フラグ */
+  isEnabled?: boolean;
+  /** 実行ユーザーID（権限確認用） */
+  userId: string;
+}
+
+/**
+ * Webhook更新サービス
+ * 名前・送信先URL・購読イベント・有効状態を変更する
+ */
+export class UpdateWebhookService {
+  constructor(
+    private readonly webhookRepository: IWebhookRepository,
+    private readonly projectRepository: IProjectRepository,
+  ) {}
+
+  /**
+   * Webhook更新を実行
+   * @param command 更新コマンド
+   * @returns 更新後のWebhook
+   * @throws ドメインバリデーションエラー - Webhookが存在しない、または権限がない場合
+   */
+  async execute(command: UpdateWebhookCommand): Promise<WebhookDto> {
+    const { webhookId, userId, ...params } = command;
+
+    const webhook = await this.webhookRepository.findById(
+      WebhookId.reconstruct(webhookId),
+    );
+    if (!webhook) {
+      throw domainValidationError("WEBHOOK_NOT_FOUND");
+    }
+
+    // プロジェクトの管理権限を確認
+    const project = await this.projectRepository.findById(webhook.projectId);
+    if (!project) {
+      throw domainValidationError("PROJECT_NOT_FOUND");
+    }
+    if (!project.hasMember(userId)) {
+      throw domainValidationError("PROJECT_ACCESS_DENIED");
+    }
+    if (!project.hasPermission(userId, PROJECT_PERMISSION.MANAGE_PROJECT)) {
+      throw domainValidationError("PROJECT_PERMISSION_DENIED");
+    }
+
+    const updated = webhook.update(params);
+    await this.webhookRepository.save(updated);
+
+    return updated.toDto();
+  }
+}
@@ -0,0 +1,111 @@
+import {
+  WebhookRepository,
+  WebhookDeliveryRepository,
+} from "@/infrastructure/adapter/db/drizzle/repository";
+import { HttpWebhookSender } from "@/infrastructure/adapter/webhook";
+import { getLogger } from "@/lib/server/logger";
+import { ProcessWebhookDeliveriesService } from "./ProcessWebhookDeliveriesService";
+
+const logger = getLogger();
+
+/**
+ * 送信待ちの配信を確認する間隔を取得（ミリ秒）
+ * 環境変数WEBHOOK_DELIVERY_POLL_INTERVAL_MSで設定可能（デフォルト: 5000ms）
+ */
+const getPollIntervalMs = (): number => {
+  const interval = parseInt(
+    process.env.WEBHOOK_DELIVERY_POLL_INTERVAL_MS || "5000",
+    10,
+  );
+  return isNaN(interval) || interval < 1000 ? 5000 : interval;
+};
+
+/**
+ * Webhook配信ワーカー
+ * サーバ起動時に開始し、送信待ちの配信を定期的に送信する
+ * 複数インスタンスで同一DBを共有しても、配信の確保はDB側で排他制御される
+ */
+export class WebhookDeliveryWorker {
+  private static instance: WebhookDeliveryWorker | null = null;
+  private service: ProcessWebhookDeliveriesService | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private isProcessing: boolean = false;
+
+  private constructor() {}
+
+  /**
+   * シングルトンインスタンスを取得
+   */
+  static getInstance(): WebhookDeliveryWorker {
+    if (!WebhookDeliveryWorker.instance) {
+      WebhookDeliveryWorker.instance = new WebhookDeliveryWorker();
+    }
+    return WebhookDeliveryWorker.instance;
+  }
+
+  /**
+   * ワーカーを開始する
+   */
+  start(): void {
+    if (this.pollTimer) {
+      logger.warn("Webhook配信ワーカーは既に開始されています");
+      return;
+    }
+
+    this.service = new ProcessWebhookDeliveriesService(
+      new WebhookDeliveryRepository(),
+      new WebhookRepository(),
+      new HttpWebhookSender(),
+    );
+    this.pollTimer = setInterval(() => {
+      this.processDueDeliveries().catch((error) => {
+        logger.error(
+          { err: error },
+          "Webhook配信の処理中にエラーが発生しました",
+        );
+      });
+    }, getPollIntervalMs());
+    // ポーリングのみでプロセスが終了できなくならないようにする
+    this.pollTimer.unref?.();
+
+    logger.info("Webhook配信ワーカーを開始しました");
+  }
+
+  /**
+   * 送信待ちの配信がなくなるまで処理する
+   * 前回の処理が終わっていない場合は何もしない
+   */
+  async processDueDeliveries(): Promise<void> {
+    if (!this.service || this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      while ((await this.service.execute()) > 0) {
+        // 送信予定日時を過ぎた配信が残っている間は続けて処理する
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * ワーカーを停止する
+   */
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+      logger.info("Webhook配信ワーカーを停止しました");
+    }
+    this.service = null;
+  }
+}
+
+/**
+ * Webhook配信ワーカーのシングルトンインスタンスを取得
+ */
+export function getWebhookDeliveryWorker(): WebhookDeliveryWorker {
+  return WebhookDeliveryWorker.getInstance();
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { CreateWebhookService } from "../CreateWebhookService";
+import type {
+  IProjectRepository,
+  IWebhookRepository,
+} from "@/application/shared/port/repository";
+import type { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import { Project } from "@/domain/project";
+import { ReviewSpace } from "@/domain/reviewSpace";
+import { Webhook, WEBHOOK_EVENT } from "@/domain/webhook";
+
+// 暗号化関数をモック
+vi.mock("@/lib/server/encryption", () => ({
+  encrypt: vi.fn((text: string) => `encrypted_${text}`),
+  decrypt: vi.fn((text: string) => text.replace("encrypted_", "")),
+}));
+
+describe("CreateWebhookService", () => {
+  let mockWebhookRepository: IWebhookRepository;
+  let mockReviewSpaceRepository: IReviewSpaceRepository;
+  let mockProjectRepository: IProjectRepository;
+  let service: CreateWebhookService;
+
+  const validProjectId = "123e4567-e89b-12d3-a456-426614174000";
+  const ownerUserId = "223e4567-e89b-12d3-a456-426614174001";
+  const editorUserId = "223e4567-e89b-12d3-a456-426614174002";
+  const validReviewSpaceId = "323e4567-e89b-12d3-a456-426614174002";
+  const otherProjectId = "523e4567-e89b-12d3-a456-426614174004";
+
+  const mockProject = Project.reconstruct({
+    id: validProjectId,
+    name: "テストプロジェクト",
+    description: null,
+    encryptedApiKey: null,
+    members: [
+      { userId: ownerUserId, role: "owner", createdAt: new Date() },
+      { userId: editorUserId, role: "editor", createdAt: new Date() },
+    ],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const createReviewSpace = (projectId: string) =>
+    ReviewSpace.reconstruct({
+      id: validReviewSpaceId,
+      projectId,
+      name: "設計書レビュー",
+      description: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+  const baseCommand = {
+    projectId: validProjectId,
+    reviewSpaceId: null,
+    name: "CI通知",
+    url: "https://example.com/hook",
+    events: [WEBHOOK_EVENT.REVIEW_COMPLETED],
+    userId: ownerUserId,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockWebhookRepository = {
+      findById: vi.fn(),
+      findByProjectId: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+    mockReviewSpaceRepository = {
+      findById: vi.fn().mockResolvedValue(createReviewSpace(validProjectId)),
+      findByProjectId: vi.fn(),
+      countByProjectId: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+      updateChecklistGenerationError: vi.fn(),
+    };
+    mockProjectRepository = {
+      findById: vi.fn().mockResolvedValue(mockProject),
+      findByMemberId: vi.fn(),
+      countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+    service = new CreateWebhookService(
+      mockWebhookRepository,
+      mockReviewSpaceRepository,
+      mockProjectRepository,
+    );
+  });
+
+  describe("正常系", () => {
+    it("Webhookを登録し、署名シークレットを一度だけ返却する", async () => {
+      const result = await service.execute(baseCommand);
+
+      expect(result.secret).toMatch(/^whsec_/);
+      expect(result.webhook.name).toBe("CI通知");
+      expect(result.webhook.reviewSpaceId).toBeNull();
+      expect(result.webhook).not.toHaveProperty("encryptedSecret");
+
+      const saved = vi.mocked(mockWebhookRepository.save).mock
+        .calls[0][0] as Webhook;
+      expect(saved.encryptedSecret).toBe(`encrypted_${result.secret}`);
+    });
+
+    it("レビュースペースを対象に登録できる", async () => {
+      const result = await service.execute({
+        ...baseCommand,
+        reviewSpaceId: validReviewSpaceId,
+      });
+
+      expect(result.webhook.reviewSpaceId).toBe(validReviewSpaceId);
+    });
+  });
+
+  describe("異常系", () => {
+    it("オーナー以外は登録できない", async () => {
+      await expect(
+        service.execute({ ...baseCommand, userId: editorUserId }),
+      ).rejects.toMatchObject({ messageCode: "PROJECT_PERMISSION_DENIED" });
+      expect(mockWebhookRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("別プロジェクトのレビュースペースは指定できない", async () => {
+      vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(
+        createReviewSpace(otherProjectId),
+      );
+
+      await expect(
+        service.execute({ ...baseCommand, reviewSpaceId: validReviewSpaceId }),
+      ).rejects.toMatchObject({ messageCode: "REVIEW_SPACE_NOT_FOUND" });
+    });
+
+    it("不正なURLの場合はエラー", async () => {
+      await expect(
+        service.execute({ ...baseCommand, url: "javascript:alert(1)" }),
+      ).rejects.toMatchObject({ messageCode: "WEBHOOK_URL_INVALID" });
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createHmac } from "crypto";
+import { ProcessWebhookDeliveriesService } from "../ProcessWebhookDeliveriesService";
+import type {
+  IWebhookDeliveryRepository,
+  IWebhookRepository,
+} from "@/application/shared/port/repository";
+import type { IWebhookSender } from "@/application/shared/port/webhook";
+import {
+  Webhook,
+  WebhookDelivery,
+  WEBHOOK_DELIVERY_STATUS,
+  WEBHOOK_EVENT,
+} from "@/domain/webhook";
+
+// 暗号化関数をモック
+vi.mock("@/lib/server/encryption", () => ({
+  encrypt: vi.fn((text: string) => `encrypted_${text}`),
+  decrypt: vi.fn((text: string) => text.replace("encrypted_", "")),
+}));
+
+describe("ProcessWebhookDeliveriesService", () => {
+  let mockWebhookRepository: IWebhookRepository;
+  let mockWebhookDeliveryRepository: IWebhookDeliveryRepository;
+  let mockWebhookSender: IWebhookSender;
+  let service: ProcessWebhookDeliveriesService;
+
+  const validWebhookId = "723e4567-e89b-12d3-a456-426614174001";
+  const secret = "whsec_test";
+
+  const createWebhook = (isEnabled = true) =>
+    Webhook.reconstruct({
+      id: validWebhookId,
+      projectId: "123e4567-e89b-12d3-a456-426614174000",
+      reviewSpaceId: null,
+      name: "CI通知",
+      url: "https://example.com/hook",
+      events: [WEBHOOK_EVENT.REVIEW_COMPLETED],
+      encryptedSecret: `encrypted_${secret}`,
+      isEnabled,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+  const delivery = WebhookDelivery.create({
+    webhookId: validWebhookId,
+    event: WEBHOOK_EVENT.REVIEW_COMPLETED,
+    payload: { event: WEBHOOK_EVENT.REVIEW_COMPLETED, data: {} },
+  });
+
+  const savedDelivery = () =>
+    vi.mocked(mockWebhookDeliveryRepository.save).mock
+      .calls[0][0] as WebhookDelivery;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockWebhookRepository = {
+      findById: vi.fn().mockResolvedValue(createWebhook()),
+      findByProjectId: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+    mockWebhookDeliveryRepository = {
+      findById: vi.fn(),
+      findByWebhookId: vi.fn(),
+      claimDueDeliveries: vi.fn().mockResolvedValue([delivery]),
+      save: vi.fn(),
+      saveMany: vi.fn(),
+    };
+    mockWebhookSender = {
+      send: vi.fn().mockResolvedValue({ status: "success", statusCode: 200 }),
+    };
+    service = new ProcessWebhookDeliveriesService(
+      mockWebhookDeliveryRepository,
+      mockWebhookRepository,
+      mockWebhookSender,
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("署名付きで送信し、成功を記録する", async () => {
+    const processed = await service.execute();
+
+    expect(processed).toBe(1);
+    const request = vi.mocked(mockWebhookSender.send).mock.calls[0][0];
+    expect(request.url).toBe("https://example.com/hook");
+    expect(request.headers["X-Webhook-Event"]).toBe(
+      WEBHOOK_EVENT.REVIEW_COMPLETED,
+    );
+    expect(request.headers["X-Webhook-Delivery"]).toBe(delivery.id.value);
+
+    // 受信側と同じ手順で署名を検証できること
+    const timestamp = request.headers["X-Webhook-Timestamp"];
+    const expected = createHmac("sha256", secret)
+      .update(`${timestamp}.${request.body}`)
+      .digest("hex");
+    expect(request.headers["X-Webhook-Signature"]).toBe(`sha256=${expected}`);
+
+    expect(savedDelivery().status).toBe(WEBHOOK_DELIVERY_STATUS.SUCCEEDED);
+    expect(savedDelivery().lastStatusCode).toBe(200);
+  });
+
+  it("送信に失敗した場合は再試行待ちとして記録する", async () => {
+    vi.mocked(mockWebhookSender.send).mockResolvedValue({
+      status: "error",
+      statusCode: 503,
+      errorMessage: "HTTP 503",
+    });
+
+    await service.execute();
+
+    expect(savedDelivery().status).toBe(WEBHOOK_DELIVERY_STATUS.PENDING);
+    expect(savedDelivery().attemptCount).toBe(1);
+    expect(savedDelivery().lastError).toBe("HTTP 503");
+  });
+
+  it("最大試行回数に達した場合は失敗として確定する", async () => {
+    vi.stubEnv("WEBHOOK_DELIVERY_MAX_ATTEMPTS", "1");
+    vi.mocked(mockWebhookSender.send).mockResolvedValue({
+      status: "error",
+      statusCode: null,
+      errorMessage: "接続エラー",
+    });
+
+    await service.execute();
+
+    expect(savedDelivery().status).toBe(WEBHOOK_DELIVERY_STATUS.FAILED);
+  });
+
+  it("無効化されたWebhookの配信は送信せずに中止する", async () => {
+    vi.mocked(mockWebhookRepository.findById).mockResolvedValue(
+      createWebhook(false),
+    );
+
+    await service.execute();
+
+    expect(mockWebhookSender.send).not.toHaveBeenCalled();
+    expect(savedDelivery().status).toBe(WEBHOOK_DELIVERY_STATUS.FAILED);
+  });
+
+  it("送信待ちの配信がない場合は何もしない", async () => {
+    vi.mocked(
+      mockWebhookDeliveryRepository.claimDueDeliveries,
+    ).mockResolvedValue([]);
+
+    expect(await service.execute()).toBe(0);
+    expect(mockWebhookSender.send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PublishWebhookEventService } from "../PublishWebhookEventService";
+import type {
+  IWebhookDeliveryRepository,
+  IWebhookRepository,
+} from "@/application/shared/port/repository";
+import type { IReviewSpaceRepository } from "@/application/shared/port/repository/IReviewSpaceRepository";
+import { ReviewSpace } from "@/domain/reviewSpace";
+import { Webhook, WebhookDelivery, WEBHOOK_EVENT } from "@/domain/webhook";
+
+describe("PublishWebhookEventService", () => {
+  let mockWebhookRepository: IWebhookRepository;
+  let mockWebhookDeliveryRepository: IWebhookDeliveryRepository;
+  let mockReviewSpaceRepository: IReviewSpaceRepository;
+  let service: PublishWebhookEventService;
+
+  const validProjectId = "123e4567-e89b-12d3-a456-426614174000";
+  const validReviewSpaceId = "323e4567-e89b-12d3-a456-426614174002";
+  const otherReviewSpaceId = "323e4567-e89b-12d3-a456-426614174003";
+  const reviewTargetId = "623e4567-e89b-12d3-a456-426614174005";
+
+  const mockReviewSpace = ReviewSpace.reconstruct({
+    id: validReviewSpaceId,
+    projectId: validProjectId,
+    name: "設計書レビュー",
+    description: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const createWebhook = (
+    id: string,
+    events: string[],
+    reviewSpaceId: string | null = null,
+  ) =>
+    Webhook.reconstruct({
+      id,
+      projectId: validProjectId,
+      reviewSpaceId,
+      name: "CI通知",
+      url: "https://example.com/hook",
+      events,
+      encryptedSecret: "encrypted_whsec_test",
+      isEnabled: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockWebhookRepository = {
+      findById: vi.fn(),
+      findByProjectId: vi.fn().mockResolvedValue([]),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+    mockWebhookDeliveryRepository = {
+      findById: vi.fn(),
+      findByWebhookId: vi.fn(),
+      claimDueDeliveries: vi.fn(),
+      save: vi.fn(),
+      saveMany: vi.fn(),
+    };
+    mockReviewSpaceRepository = {
+      findById: vi.fn().mockResolvedValue(mockReviewSpace),
+      findByProjectId: vi.fn(),
+      countByProjectId: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+      updateChecklistGenerationError: vi.fn(),
+    };
+    service = new PublishWebhookEventService(
+      mockWebhookRepository,
+      mockWebhookDeliveryRepository,
+      mockReviewSpaceRepository,
+    );
+  });
+
+  it("イベントを購読しているWebhookごとに配信を作成する", async () => {
+    vi.mocked(mockWebhookRepository.findByProjectId).mockResolvedValue([
+      createWebhook("723e4567-e89b-12d3-a456-426614174001", [
+        WEBHOOK_EVENT.REVIEW_COMPLETED,
+      ]),
+      createWebhook(
+        "723e4567-e89b-12d3-a456-426614174002",
+        [WEBHOOK_EVENT.REVIEW_COMPLETED],
+        validReviewSpaceId,
+      ),
+      // 購読していないイベント
+      createWebhook("723e4567-e89b-12d3-a456-426614174003", [
+        WEBHOOK_EVENT.QA_ANSWERED,
+      ]),
+      // 別のレビュースペースが対象
+      createWebhook(
+        "723e4567-e89b-12d3-a456-426614174004",
+        [WEBHOOK_EVENT.REVIEW_COMPLETED],
+        otherReviewSpaceId,
+      ),
+    ]);
+
+    const result = await service.execute({
+      event: WEBHOOK_EVENT.REVIEW_COMPLETED,
+      reviewSpaceId: validReviewSpaceId,
+      data: { reviewTargetId },
+    });
+
+    expect(result.map((d) => d.webhookId)).toEqual([
+      "723e4567-e89b-12d3-a456-426614174001",
+      "723e4567-e89b-12d3-a456-426614174002",
+    ]);
+    expect(result[0].payload).toMatchObject({
+      event: WEBHOOK_EVENT.REVIEW_COMPLETED,
+      projectId: validProjectId,
+      reviewSpaceId: validReviewSpaceId,
+      data: { reviewTargetId },
+    });
+    const saved = vi.mocked(mockWebhookDeliveryRepository.saveMany).mock
+      .calls[0][0] as WebhookDelivery[];
+    expect(saved).toHaveLength(2);
+    expect(saved.every((d) => d.isPending())).toBe(true);
+  });
+
+  it("購読しているWebhookがない場合は配信を作成しない", async () => {
+    const result = await service.execute({
+      event: WEBHOOK_EVENT.REVIEW_COMPLETED,
+      reviewSpaceId: validReviewSpaceId,
+      data: { reviewTargetId },
+    });
+
+    expect(result).toEqual([]);
+    expect(mockWebhookDeliveryRepository.saveMany).not.toHaveBeenCalled();
+  });
+
+  it("レビュースペースが存在しない場合はエラー", async () => {
+    vi.mocked(mockReviewSpaceRepository.findById).mockResolvedValue(null);
+
+    await expect(
+      service.execute({
+        event: WEBHOOK_EVENT.REVIEW_COMPLETED,
+        reviewSpaceId: validReviewSpaceId,
+        data: { reviewTargetId },
+      }),
+    ).rejects.toMatchObject({ messageCode: "REVIEW_SPACE_NOT_FOUND" });
+  });
+});
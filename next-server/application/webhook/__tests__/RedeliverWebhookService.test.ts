@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { RedeliverWebhookService } from "../RedeliverWebhookService";
+import type {
+  IProjectRepository,
+  IWebhookDeliveryRepository,
+  IWebhookRepository,
+} from "@/application/shared/port/repository";
+import { Project } from "@/domain/project";
+import {
+  Webhook,
+  WebhookDelivery,
+  WEBHOOK_DELIVERY_STATUS,
+  WEBHOOK_EVENT,
+} from "@/domain/webhook";
+
+describe("RedeliverWebhookService", () => {
+  let mockWebhookRepository: IWebhookRepository;
+  let mockWebhookDeliveryRepository: IWebhookDeliveryRepository;
+  let mockProjectRepository: IProjectRepository;
+  let service: RedeliverWebhookService;
+
+  const validProjectId = "123e4567-e89b-12d3-a456-426614174000";
+  const ownerUserId = "223e4567-e89b-12d3-a456-426614174001";
+  const viewerUserId = "223e4567-e89b-12d3-a456-426614174002";
+  const validWebhookId = "723e4567-e89b-12d3-a456-426614174001";
+
+  const mockProject = Project.reconstruct({
+    id: validProjectId,
+    name: "テストプロジェクト",
+    description: null,
+    encryptedApiKey: null,
+    members: [
+      { userId: ownerUserId, role: "owner", createdAt: new Date() },
+      { userId: viewerUserId, role: "viewer", createdAt: new Date() },
+    ],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const mockWebhook = Webhook.reconstruct({
+    id: validWebhookId,
+    projectId: validProjectId,
+    reviewSpaceId: null,
+    name: "CI通知",
+    url: "https://example.com/hook",
+    events: [WEBHOOK_EVENT.REVIEW_FAILED],
+    encryptedSecret: "encrypted_whsec_test",
+    isEnabled: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const failedDelivery = WebhookDelivery.create({
+    webhookId: validWebhookId,
+    event: WEBHOOK_EVENT.REVIEW_FAILED,
+    payload: { event: WEBHOOK_EVENT.REVIEW_FAILED, data: {} },
+  }).recordFailure({
+    statusCode: 500,
+    errorMessage: "HTTP 500",
+    maxAttempts: 1,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockWebhookRepository = {
+      findById: vi.fn().mockResolvedValue(mockWebhook),
+      findByProjectId: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+    mockWebhookDeliveryRepository = {
+      findById: vi.fn().mockResolvedValue(failedDelivery),
+      findByWebhookId: vi.fn(),
+      claimDueDeliveries: vi.fn(),
+      save: vi.fn(),
+      saveMany: vi.fn(),
+    };
+    mockProjectRepository = {
+      findById: vi.fn().mockResolvedValue(mockProject),
+      findByMemberId: vi.fn(),
+      countByMemberId: vi.fn(),
+      findAll: vi.fn(),
+      countAll: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+    service = new RedeliverWebhookService(
+      mockWebhookDeliveryRepository,
+      mockWebhookRepository,
+      mockProjectRepository,
+    );
+  });
+
+  it("同じペイロードで新しい配信を送信待ちとして登録する", async () => {
+    const result = await service.execute({
+      deliveryId: failedDelivery.id.value,
+      userId: ownerUserId,
+    });
+
+    expect(result.id).not.toBe(failedDelivery.id.value);
+    expect(result.status).toBe(WEBHOOK_DELIVERY_STATUS.PENDING);
+    expect(result.payload).toEqual(failedDelivery.payload);
+    expect(mockWebhookDeliveryRepository.save).toHaveBeenCalledTimes(1);
+  });
+
+  it("配信が存在しない場合はエラー", async () => {
+    vi.mocked(mockWebhookDeliveryRepository.findById).mockResolvedValue(null);
+
+    await expect(
+      service.execute({
+        deliveryId: failedDelivery.id.value,
+        userId: ownerUserId,
+      }),
+    ).rejects.toMatchObject({ messageCode: "WEBHOOK_DELIVERY_NOT_FOUND" });
+  });
+
+  it("管理権限がない場合はエラー", async () => {
+    await expect(
+      service.execute({
+        deliveryId: failedDelivery.id.value,
+        userId: viewerUserId,
+      }),
+    ).rejects.toMatchObject({ messageCode: "PROJECT_PERMISSION_DENIED" });
+    expect(mockWebhookDeliveryRepository.save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Webhook アプリケーションサービス
+ * エントリーポイント
+ */
+
+// 設定管理
+export {
+  CreateWebhookService,
+  type CreateWebhookCommand,
+  type CreateWebhookResult,
+} from "./CreateWebhookService";
+export {
+  ListWebhooksService,
+  type ListWebhooksQuery,
+} from "./ListWebhooksService";
+export {
+  UpdateWebhookService,
+  type UpdateWebhookCommand,
+} from "./UpdateWebhookService";
+export {
+  DeleteWebhookService,
+  type DeleteWebhookCommand,
+} from "./DeleteWebhookService";
+
+// 配信ログ
+export {
+  ListWebhookDeliveriesService,
+  type ListWebhookDeliveriesQuery,
+} from "./ListWebhookDeliveriesService";
+export {
+  RedeliverWebhookService,
+  type RedeliverWebhookCommand,
+} from "./RedeliverWebhookService";
+
+// イベント発行・送信
+export {
+  PublishWebhookEventService,
+  type PublishWebhookEventCommand,
+} from "./PublishWebhookEventService";
+export {
+  ProcessWebhookDeliveriesService,
+  getWebhookDeliveryMaxAttempts,
+  getWebhookDeliveryTimeoutMs,
+} from "./ProcessWebhookDeliveriesService";
+export {
+  WebhookDeliveryWorker,
+  getWebhookDeliveryWorker,
+} from "./WebhookDeliveryWorker";
@@ -0,0 +1,369 @@
+"use client";
+
+import { useState } from "react";
+import { useAction } from "next-safe-action/hooks";
+import {
+  ChevronDown,
+  ChevronRight,
+  Library,
+  Loader2,
+  Pencil,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { ChecklistTemplateDetailDto } from "@/application/checklistTemplate";
+import type { ChecklistTemplateDto } from "@/domain/checklistTemplate";
+import { CHECK_LIST_ITEM_SEVERITY_LABELS } from "@/domain/checkListItem";
+import { extractServerErrorMessage } from "@/hooks";
+import { showError, showSuccess, getMessage } from "@/lib/client";
+import {
+  getChecklistTemplateAction,
+  updateChecklistTemplateAction,
+  deleteChecklistTemplateAction,
+} from "@/app/(space)/projects/[projectId]/settings/actions";
+
+/**
+ * 日時を表示用にフォーマットする
+ */
+function formatDate(value: Date): string {
+  return new Date(value).toLocaleString("ja-JP");
+}
+
+interface ChecklistTemplateLibraryProps {
+  templates: ChecklistTemplateDto[];
+  /** 名前の変更・削除ができるテンプレートか */
+  canManage: (template: ChecklistTemplateDto) => boolean;
+  /** テンプレートがない場合のメッセージ */
+  emptyMessage: string;
+}
+
+/**
+ * チェックリストテンプレート一覧
+ * バージョン履歴・チェック項目の確認と、テンプレート名・説明の変更、削除を担当
+ */
+export function ChecklistTemplateLibrary({
+  templates: initialTemplates,
+  canManage,
+  emptyMessage,
+}: ChecklistTemplateLibraryProps) {
+  const [templates, setTemplates] = useState(initialTemplates);
+  const [expandedTemplateId, setExpandedTemplateId] = useState<string | null>(
+    null,
+  );
+  const [detail, setDetail] = useState<ChecklistTemplateDetailDto | null>(null);
+  const [editTarget, setEditTarget] = useState<ChecklistTemplateDto | null>(
+    null,
+  );
+  const [editName, setEditName] = useState("");
+  const [editDescription, setEditDescription] = useState("");
+  const [deleteTarget, setDeleteTarget] = useState<ChecklistTemplateDto | null>(
+    null,
+  );
+
+  const { execute: loadDetail, isPending: isLoadingDetail } = useAction(
+    getChecklistTemplateAction,
+    {
+      onSuccess: ({ data }) => {
+        if (data) {
+          setDetail(data);
+        }
+      },
+      onError: ({ error: actionError }) => {
+        showError(
+          extractServerErrorMessage(
+            actionError,
+            "テンプレートの取得に失敗しました",
+          ),
+        );
+      },
+    },
+  );
+
+  const { execute: updateTemplate, isPending: isUpdating } = useAction(
+    updateChecklistTemplateAction,
+    {
+      onSuccess: ({ data }) => {
+        if (data) {
+          setTemplates((prev) =>
+            prev.map((t) => (t.id === data.id ? data : t)),
+          );
+          setEditTarget(null);
+          showSuccess(getMessage("SUCCESS_CHECKLIST_TEMPLATE_UPDATED"));
+        }
+      },
+      onError: ({ error: actionError }) => {
+        showError(
+          extractServerErrorMessage(
+            actionError,
+            "テンプレートの更新に失敗しました",
+          ),
+        );
+      },
+    },
+  );
+
+  const { execute: deleteTemplate, isPending: isDeleting } = useAction(
+    deleteChecklistTemplateAction,
+    {
+      onSuccess: ({ input }) => {
+        setTemplates((prev) => prev.filter((t) => t.id !== input.templateId));
+        if (expandedTemplateId === input.templateId) {
+          setExpandedTemplateId(null);
+        }
+        setDeleteTarget(null);
+        showSuccess(getMessage("SUCCESS_CHECKLIST_TEMPLATE_DELETED"));
+      },
+      onError: ({ error: actionError }) => {
+        setDeleteTarget(null);
+        showError(
+          extractServerErrorMessage(
+            actionError,
+            "テンプレートの削除に失敗しました",
+          ),
+        );
+      },
+    },
+  );
+
+  const toggleDetail = (templateId: string) => {
+    if (expandedTemplateId === templateId) {
+      setExpandedTemplateId(null);
+      return;
+    }
+    setExpandedTemplateId(templateId);
+    setDetail(null);
+    loadDetail({ templateId });
+  };
+
+  const startEdit = (template: ChecklistTemplateDto) => {
+    setEditTarget(template);
+    setEditName(template.name);
+    setEditDescription(template.description ?? "");
+  };
+
+  const selectedVersion =
+    detail?.versions.find((v) => v.version === detail.version) ?? null;
+
+  if (templates.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 py-4 text-center">{emptyMessage}</p>
+    );
+  }
+
+  return (
+    <>
+      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+        {templates.map((template) => (
+          <li key={template.id} className="p-4">
+            {editTarget?.id === template.id ? (
+              <div className="space-y-2">
+                <Input
+                  aria-label="テンプレート名"
+                  value={editName}
+                  maxLength={100}
+                  onChange={(e) => setEditName(e.target.value)}
+                />
+                <Textarea
+                  aria-label="テンプレートの説明"
+                  value={editDescription}
+                  maxLength={1000}
+                  rows={2}
+                  onChange={(e) => setEditDescription(e.target.value)}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setEditTarget(null)}
+                    disabled={isUpdating}
+                  >
+                    キャンセル
+                  </Button>
+                  <Button
+                    size="sm"
+                    disabled={!editName.trim() || isUpdating}
+                    onClick={() =>
+                      updateTemplate({
+                        templateId: template.id,
+                        name: editName.trim(),
+                        description: editDescription.trim() || null,
+                      })
+                    }
+                  >
+                    保存
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                <div className="flex items-start gap-3 flex-1 min-w-0">
+                  <Library className="h-5 w-5 text-gray-400 mt-0.5 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">
+                      {template.name}
+                      <span className="ml-2 text-xs text-gray-500">
+                        v{template.latestVersion}
+                      </span>
+                      {template.projectId === null && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded bg-gray-100 text-gray-600">
+                          全社共通
+                        </span>
+                      )}
+                    </p>
+                    {template.description && (
+                      <p className="text-xs text-gray-500 whitespace-pre-wrap">
+                        {template.description}
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      更新日時: {formatDate(template.updatedAt)}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => toggleDetail(template.id)}
+                  >
+                    {expandedTemplateId === template.id ? (
+                      <ChevronDown className="h-4 w-4 mr-1" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4 mr-1" />
+                    )}
+                    履歴と項目
+                  </Button>
+                  {canManage(template) && (
+                    <>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        aria-label="編集"
+                        onClick={() => startEdit(template)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        aria-label="削除"
+                        onClick={() => setDeleteTarget(template)}
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* バージョン履歴とチェック項目 */}
+            {expandedTemplateId === template.id && (
+              <div className="mt-4 border border-gray-200 rounded-lg p-3 space-y-3">
+                {isLoadingDetail || !detail ? (
+                  <div className="flex items-center justify-center py-4 text-sm text-gray-500">
+                    <Loader2 className="animate-spin h-4 w-4 mr-2" />
+                    読み込み中...
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex items-center gap-2">
+                      <label
+                        htmlFor={`template-version-${template.id}`}
+                        className="text-xs text-gray-600"
+                      >
+                        バージョン
+                      </label>
+                      <select
+                        id={`template-version-${template.id}`}
+                        className="rounded-md border border-gray-300 px-2 py-1 text-xs"
+                        value={detail.version}
+                        onChange={(e) =>
+                          loadDetail({
+                            templateId: template.id,
+                            version: Number(e.target.value),
+                          })
+                        }
+                      >
+                        {detail.versions.map((v) => (
+                          <option key={v.version} value={v.version}>
+                            v{v.version}（{formatDate(v.createdAt)}・
+                            {v.itemCount}項目）
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    {selectedVersion?.changeNote && (
+                      <p className="text-xs text-gray-600 whitespace-pre-wrap">
+                        変更内容: {selectedVersion.changeNote}
+                      </p>
+                    )}
+                    <ol className="list-decimal list-inside space-y-1 text-sm text-gray-900">
+                      {detail.items.map((item, index) => (
+                        <li key={index}>
+                          <span className="whitespace-pre-wrap">
+                            {item.content}
+                          </span>
+                          <span className="ml-2 text-xs text-gray-500">
+                            [{item.category ?? "カテゴリなし"} / 重要度:{" "}
+                            {CHECK_LIST_ITEM_SEVERITY_LABELS[item.severity]}]
+                          </span>
+                        </li>
+                      ))}
+                    </ol>
+                  </>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {/* 削除確認ダイアログ */}
+      <AlertDialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>テンプレートを削除しますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              「{deleteTarget?.name}
+              」と全てのバージョンを削除します。リンクしているレビュースペースのチェックリストはそのまま残ります。この操作は取り消せません。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>
+              キャンセル
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                deleteTarget && deleteTemplate({ templateId: deleteTarget.id })
+              }
+              disabled={isDeleting}
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+            >
+              削除する
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
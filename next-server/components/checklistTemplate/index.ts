@@ -0,0 +1 @@
+export { ChecklistTemplateLibrary } from "./ChecklistTemplateLibrary";
@@ -1,10 +1,11 @@
 import Link from "next/link";
 import { UserMenu } from "./UserMenu";
 import { AdminLink } from "./AdminLink";
+import { NotificationBell } from "./NotificationBell";
 
 /**
  * アプリケーションヘッダー
- * ロゴとユーザーメニューを表示
+ * ロゴ、通知、ユーザーメニューを表示
  */
 export function Header() {
   return (
@@ -23,6 +24,7 @@ export function Header() {
           {/* Right: User Menu */}
           <div className="flex items-center gap-3">
             <AdminLink />
+            <NotificationBell />
             <UserMenu />
           </div>
         </div>
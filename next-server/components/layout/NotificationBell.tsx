@@ -0,0 +1,212 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { useAction } from "next-safe-action/hooks";
+import { Bell, CheckCheck, CircleAlert, CircleCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useSseSubscription } from "@/lib/client/useSseSubscription";
+import { showInfo } from "@/lib/client";
+import type { NotificationSseEvent } from "@/application/shared/port/push/NotificationSseEventTypes";
+import type { NotificationDto } from "@/domain/notification";
+import {
+  listMyNotificationsAction,
+  markNotificationReadAction,
+  markAllNotificationsReadAction,
+} from "./actions";
+
+/** 受信箱に表示する通知の最大件数 */
+const MAX_DISPLAY_COUNT = 30;
+
+/** 失敗を表す通知種別 */
+const FAILURE_TYPES: NotificationDto["type"][] = [
+  "review_failed",
+  "retry_failed",
+  "checklist_generation_failed",
+];
+
+/**
+ * 日時フォーマット
+ */
+function formatDateTime(date: Date | string): string {
+  return new Date(date).toLocaleString("ja-JP", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * 通知ベルコンポーネント
+ * 長時間タスクの完了・失敗通知の受信箱を表示する
+ * 通知はSSEでリアルタイムに受信し、未読状態はDBに保持されるためリロード後も維持される
+ */
+export function NotificationBell() {
+  const router = useRouter();
+  const { status } = useSession();
+  const [notifications, setNotifications] = useState<NotificationDto[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const { execute: executeList } = useAction(listMyNotificationsAction, {
+    onSuccess: ({ data }) => {
+      if (data) {
+        setNotifications(data.notifications);
+        setUnreadCount(data.unreadCount);
+      }
+    },
+  });
+
+  const { execute: executeMarkRead } = useAction(markNotificationReadAction);
+
+  const { execute: executeMarkAllRead, isExecuting: isMarkingAllRead } =
+    useAction(markAllNotificationsReadAction, {
+      onSuccess: () => {
+        setNotifications((prev) =>
+          prev.map((n) => (n.isRead ? n : { ...n, isRead: true })),
+        );
+        setUnreadCount(0);
+      },
+    });
+
+  // 初回表示時に受信箱を取得
+  useEffect(() => {
+    if (status === "authenticated") {
+      executeList({ limit: MAX_DISPLAY_COUNT });
+    }
+  }, [status, executeList]);
+
+  // 通知受信時のハンドラー
+  const handleSseEvent = useCallback(
+    (event: NotificationSseEvent) => {
+      if (event.type !== "notification") {
+        return;
+      }
+      setNotifications((prev) =>
+        [event.data, ...prev].slice(0, MAX_DISPLAY_COUNT),
+      );
+      setUnreadCount((prev) => prev + 1);
+      showInfo(event.data.title);
+      // 表示中の画面にタスク結果を反映する
+      router.refresh();
+    },
+    [router],
+  );
+
+  useSseSubscription<NotificationSseEvent>({
+    url: "/api/sse/notifications",
+    onEvent: handleSseEvent,
+    autoConnect: status === "authenticated",
+  });
+
+  // 通知選択時のハンドラー
+  const handleSelect = (notification: NotificationDto) => {
+    if (!notification.isRead) {
+      executeMarkRead({ notificationId: notification.id });
+      setNotifications((prev) =>
+        prev.map((n) =>
+          n.id === notification.id ? { ...n, isRead: true } : n,
+        ),
+      );
+      setUnreadCount((prev) => Math.max(0, prev - 1));
+    }
+    if (notification.linkUrl) {
+      router.push(notification.linkUrl);
+    }
+  };
+
+  if (status !== "authenticated") {
+    return null;
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative text-gray-600"
+          aria-label={unreadCount > 0 ? `通知（未読${unreadCount}件）` : "通知"}
+        >
+          <Bell className="size-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4 text-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>通知</DropdownMenuLabel>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs text-gray-600"
+            onClick={() => executeMarkAllRead()}
+            disabled={unreadCount === 0 || isMarkingAllRead}
+          >
+            <CheckCheck className="size-3.5" />
+            すべて既読にする
+          </Button>
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-gray-500">
+            通知はありません
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => {
+              const isFailure = FAILURE_TYPES.includes(notification.type);
+              return (
+                <DropdownMenuItem
+                  key={notification.id}
+                  onClick={() => handleSelect(notification)}
+                  className={`items-start gap-2 ${
+                    notification.isRead ? "" : "bg-blue-50"
+                  }`}
+                >
+                  {isFailure ? (
+                    <CircleAlert className="size-4 mt-0.5 text-red-500" />
+                  ) : (
+                    <CircleCheck className="size-4 mt-0.5 text-green-600" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p
+                      className={`text-sm ${
+                        notification.isRead
+                          ? "text-gray-700"
+                          : "font-medium text-gray-900"
+                      }`}
+                    >
+                      {notification.title}
+                    </p>
+                    {notification.message && (
+                      <p className="text-xs text-gray-500 whitespace-pre-wrap line-clamp-3">
+                        {notification.message}
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-400 mt-0.5">
+                      {formatDateTime(notification.createdAt)}
+                    </p>
+                  </div>
+                </DropdownMenuItem>
+              );
+            })}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,7 +1,8 @@
 "use client";
 
+import Link from "next/link";
 import { useSession, signOut } from "next-auth/react";
-import { ChevronDown, LogOut } from "lucide-react";
+import { ChevronDown, KeyRound, LogOut } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Avatar } from "@/components/ui/Avatar";
 import {
@@ -15,7 +16,7 @@ import {
 
 /**
  * ユーザーメニューコンポーネント
- * アバター、ユーザー情報、ドロップダウンメニュー（ログアウト等）を表示
+ * アバター、ユーザー情報、ドロップダウンメニュー（アクセストークン管理・ログアウト等）を表示
  */
 export function UserMenu() {
   const { data: session, status } = useSession();
@@ -65,6 +66,13 @@ export function UserMenu() {
           </DropdownMenuLabel>
           <DropdownMenuSeparator />
         </div>
+        {/* Access Tokens */}
+        <DropdownMenuItem asChild>
+          <Link href="/access-tokens">
+            <KeyRound className="size-4" />
+            アクセストークン
+          </Link>
+        </DropdownMenuItem>
         {/* Logout Option */}
         <DropdownMenuItem onClick={() => signOut({ callbackUrl: "/" })}>
           <LogOut className="size-4" />
@@ -0,0 +1,60 @@
+"use server";
+
+import { z } from "zod";
+import { authenticatedAction } from "@/lib/server/baseAction";
+import { NotificationRepository } from "@/infrastructure/adapter/db";
+import {
+  ListNotificationsService,
+  MarkNotificationReadService,
+  MarkAllNotificationsReadService,
+} from "@/application/notification";
+
+/**
+ * 自分宛の通知一覧取得アクション
+ */
+const listMyNotificationsSchema = z.object({
+  limit: z.number().min(1).max(100).optional(),
+  unreadOnly: z.boolean().optional(),
+});
+
+export const listMyNotificationsAction = authenticatedAction
+  .schema(listMyNotificationsSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const repository = new NotificationRepository();
+    const service = new ListNotificationsService(repository);
+    return service.execute({
+      userId: ctx.auth.userId,
+      limit: parsedInput.limit,
+      unreadOnly: parsedInput.unreadOnly,
+    });
+  });
+
+/**
+ * 通知既読化アクション
+ */
+const markNotificationReadSchema = z.object({
+  notificationId: z.string().uuid(),
+});
+
+export const markNotificationReadAction = authenticatedAction
+  .schema(markNotificationReadSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const repository = new NotificationRepository();
+    const service = new MarkNotificationReadService(repository);
+    return service.execute({
+      notificationId: parsedInput.notificationId,
+      userId: ctx.auth.userId,
+    });
+  });
+
+/**
+ * 全通知既読化アクション
+ */
+export const markAllNotificationsReadAction = authenticatedAction.action(
+  async ({ ctx }) => {
+    const repository = new NotificationRepository();
+    const service = new MarkAllNotificationsReadService(repository);
+    await service.execute({ userId: ctx.auth.userId });
+    return { success: true };
+  },
+);
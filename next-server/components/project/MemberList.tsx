@@ -5,14 +5,24 @@ import { Button } from "@/components/ui/button";
 import { Avatar } from "@/components/ui/Avatar";
 import { Badge } from "@/components/ui/badge";
 import { UserDto } from "@/domain/user";
+import type { ProjectMemberRoleValue } from "@/domain/project";
+import { MemberRoleSelect } from "./MemberRoleSelect";
+import { PROJECT_MEMBER_ROLE_LABELS } from "./memberRole";
+
+/**
+ * ロール付きメンバー
+ */
+export type MemberWithRole = UserDto & { role?: ProjectMemberRoleValue };
 
 export interface MemberListProps {
   /** メンバーリスト */
-  members: UserDto[];
+  members: MemberWithRole[];
   /** 現在のユーザーID */
   currentUserId: string;
   /** メンバー削除ハンドラ */
   onRemove?: (userId: string) => void;
+  /** ロール変更ハンドラ（指定時はロールを編集可能） */
+  onRoleChange?: (userId: string, role: ProjectMemberRoleValue) => void;
   /** 読み取り専用モード */
   readOnly?: boolean;
 }
@@ -25,6 +35,7 @@ export function MemberList({
   members,
   currentUserId,
   onRemove,
+  onRoleChange,
   readOnly = false,
 }: MemberListProps) {
   return (
@@ -58,6 +69,18 @@ export function MemberList({
                   自分
                 </Badge>
               )}
+              {member.role &&
+                (!readOnly && onRoleChange ? (
+                  <MemberRoleSelect
+                    value={member.role}
+                    onChange={(role) => onRoleChange(member.id, role)}
+                    ariaLabel={`${member.displayName}のロール`}
+                  />
+                ) : (
+                  <Badge variant="outline">
+                    {PROJECT_MEMBER_ROLE_LABELS[member.role]}
+                  </Badge>
+                ))}
               {!readOnly && !isSelf && onRemove && (
                 <Button
                   type="button"
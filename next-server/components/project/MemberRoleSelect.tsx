@@ -0,0 +1,67 @@
+"use client";
+
+import { ChevronDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { ProjectMemberRoleValue } from "@/domain/project";
+import {
+  PROJECT_MEMBER_ROLE_LABELS,
+  PROJECT_MEMBER_ROLE_OPTIONS,
+} from "./memberRole";
+
+export interface MemberRoleSelectProps {
+  /** 選択中のロール */
+  value: ProjectMemberRoleValue;
+  /** ロール変更ハンドラ */
+  onChange: (role: ProjectMemberRoleValue) => void;
+  /** 無効化 */
+  disabled?: boolean;
+  /** アクセシブルネーム */
+  ariaLabel?: string;
+}
+
+/**
+ * メンバーロール選択コンポーネント
+ */
+export function MemberRoleSelect({
+  value,
+  onChange,
+  disabled = false,
+  ariaLabel = "ロール",
+}: MemberRoleSelectProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          aria-label={ariaLabel}
+          className="min-w-[7rem] justify-between"
+        >
+          {PROJECT_MEMBER_ROLE_LABELS[value]}
+          <ChevronDown className="size-4 text-gray-400" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-36">
+        <DropdownMenuRadioGroup
+          value={value}
+          onValueChange={(v) => onChange(v as ProjectMemberRoleValue)}
+        >
+          {PROJECT_MEMBER_ROLE_OPTIONS.map((role) => (
+            <DropdownMenuRadioItem key={role} value={role}>
+              {PROJECT_MEMBER_ROLE_LABELS[role]}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -14,6 +14,11 @@ import { Input } from "@/components/ui/input";
 import { Avatar } from "@/components/ui/Avatar";
 import { Checkbox } from "@/components/ui/checkbox";
 import { UserDto } from "@/domain/user";
+import {
+  PROJECT_MEMBER_ROLE,
+  type ProjectMemberRoleValue,
+} from "@/domain/project";
+import { MemberRoleSelect } from "./MemberRoleSelect";
 import { searchUsersAction } from "@/app/(project)/projects/actions";
 import { useAction } from "next-safe-action/hooks";
 
@@ -22,8 +27,8 @@ export interface MemberSearchModalProps {
   isOpen: boolean;
   /** モーダルを閉じるハンドラ */
   onClose: () => void;
-  /** 選択確定ハンドラ */
-  onConfirm: (selectedUsers: UserDto[]) => void;
+  /** 選択確定ハンドラ（roleは新たに追加するメンバーに割り当てるロール） */
+  onConfirm: (selectedUsers: UserDto[], role: ProjectMemberRoleValue) => void;
   /** 初期選択済みユーザー */
   initialSelected?: UserDto[];
   /** 除外するユーザーID（自分自身など） */
@@ -50,6 +55,9 @@ export function MemberSearchModal({
   const [totalCount, setTotalCount] = useState(0);
   const [hasSearched, setHasSearched] = useState(false);
   const [searchError, setSearchError] = useState<string | null>(null);
+  const [newMemberRole, setNewMemberRole] = useState<ProjectMemberRoleValue>(
+    PROJECT_MEMBER_ROLE.EDITOR,
+  );
   const limit = 10;
 
   const { execute: searchUsers, isPending: isSearching } = useAction(
@@ -96,6 +104,7 @@ export function MemberSearchModal({
       setHasSearched(false);
       setCurrentPage(1);
       setSearchError(null);
+      setNewMemberRole(PROJECT_MEMBER_ROLE.EDITOR);
     }
   }, [isOpen, initialSelected, excludeUserIds]);
 
@@ -135,7 +144,7 @@ export function MemberSearchModal({
 
   // 確定
   const handleConfirm = () => {
-    onConfirm(Array.from(selectedUsers.values()));
+    onConfirm(Array.from(selectedUsers.values()), newMemberRole);
     onClose();
   };
 
@@ -279,6 +288,16 @@ export function MemberSearchModal({
           </div>
         )}
 
+        {/* New Member Role */}
+        <div className="flex items-center justify-end gap-3 mt-4">
+          <p className="text-sm text-gray-600">追加するメンバーのロール</p>
+          <MemberRoleSelect
+            value={newMemberRole}
+            onChange={setNewMemberRole}
+            ariaLabel="追加するメンバーのロール"
+          />
+        </div>
+
         {/* Actions */}
         <DialogFooter className="mt-6 pt-4 border-t border-gray-200">
           <Button type="button" variant="outline" onClick={onClose}>
@@ -11,6 +11,17 @@ import { Textarea } from "@/components/ui/textarea";
 import { MemberSearchModal } from "./MemberSearchModal";
 import { MemberList } from "./MemberList";
 import { UserDto } from "@/domain/user";
+import {
+  PROJECT_MEMBER_ROLE,
+  type ProjectMemberRoleValue,
+} from "@/domain/project";
+import type { AiApiRateLimitDto } from "@/domain/system-setting";
+
+// レート制限・月間トークン上限（空欄または1以上の整数）
+const limitSchema = z
+  .string()
+  .regex(/^([1-9][0-9]*)?$/, "1以上の整数で入力してください")
+  .optional();
 
 // バリデーションスキーマ
 const projectFormSchema = z.object({
@@ -23,15 +34,25 @@ const projectFormSchema = z.object({
     .max(1000, "説明は1000文字以内で入力してください")
     .optional(),
   apiKey: z.string().optional(),
+  rateLimitRequestsPerMinute: limitSchema,
+  rateLimitTokensPerMinute: limitSchema,
+  monthlyTokenBudget: limitSchema,
 });
 
 export type ProjectFormSchemaData = z.infer<typeof projectFormSchema>;
 
+/**
+ * フォームで編集するメンバー（ロール付き）
+ */
+export type ProjectFormMember = UserDto & { role: ProjectMemberRoleValue };
+
 export interface ProjectFormData {
   name: string;
   description: string;
   apiKey: string | null; // nullは「変更なし」を意味する
-  members: UserDto[];
+  aiApiRateLimit: AiApiRateLimitDto; // nullの項目はシステム設定を使用
+  monthlyTokenBudget: number | null; // nullは上限なし
+  members: ProjectFormMember[];
 }
 
 export interface ProjectFormProps {
@@ -47,6 +68,8 @@ export interface ProjectFormProps {
   isSubmitting?: boolean;
   /** 送信ボタンのラベル */
   submitLabel?: string;
+  /** メンバー・ロールを編集できるか（オーナー以外はfalse） */
+  canManageMembers?: boolean;
 }
 
 /**
@@ -59,6 +82,7 @@ export function ProjectForm({
   onCancel,
   isSubmitting = false,
   submitLabel = "プロジェクトを作成",
+  canManageMembers = true,
 }: ProjectFormProps) {
   const [showApiKey, setShowApiKey] = useState(false);
   // APIキーが変更されたかを追跡
@@ -66,8 +90,10 @@ export function ProjectForm({
   // APIキー設定有無の判定
   const hasApiKey = initialData?.hasApiKey ?? false;
   // membersは配列なのでuseStateで別管理
-  const [members, setMembers] = useState<UserDto[]>(
-    initialData?.members ?? [currentUser],
+  const [members, setMembers] = useState<ProjectFormMember[]>(
+    initialData?.members ?? [
+      { ...currentUser, role: PROJECT_MEMBER_ROLE.OWNER },
+    ],
   );
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [membersError, setMembersError] = useState<string | null>(null);
@@ -82,6 +108,11 @@ export function ProjectForm({
       name: initialData?.name ?? "",
       description: initialData?.description ?? "",
       apiKey: initialData?.apiKey ?? "",
+      rateLimitRequestsPerMinute:
+        initialData?.aiApiRateLimit?.requestsPerMinute?.toString() ?? "",
+      rateLimitTokensPerMinute:
+        initialData?.aiApiRateLimit?.tokensPerMinute?.toString() ?? "",
+      monthlyTokenBudget: initialData?.monthlyTokenBudget?.toString() ?? "",
     },
   });
 
@@ -92,6 +123,10 @@ export function ProjectForm({
       setMembersError("メンバーは少なくとも1名必要です");
       return;
     }
+    if (!members.some((m) => m.role === PROJECT_MEMBER_ROLE.OWNER)) {
+      setMembersError("オーナーは少なくとも1名必要です");
+      return;
+    }
     setMembersError(null);
 
     // APIキーは変更された場合のみ送信、空文字の場合はnull
@@ -103,6 +138,17 @@ export function ProjectForm({
       name: data.name.trim(),
       description: data.description?.trim() ?? "",
       apiKey: apiKeyToSubmit,
+      aiApiRateLimit: {
+        requestsPerMinute: data.rateLimitRequestsPerMinute
+          ? Number(data.rateLimitRequestsPerMinute)
+          : null,
+        tokensPerMinute: data.rateLimitTokensPerMinute
+          ? Number(data.rateLimitTokensPerMinute)
+          : null,
+      },
+      monthlyTokenBudget: data.monthlyTokenBudget
+        ? Number(data.monthlyTokenBudget)
+        : null,
       members,
     });
   };
@@ -112,14 +158,36 @@ export function ProjectForm({
     setMembers((prev) => prev.filter((m) => m.id !== userId));
   };
 
+  // メンバーのロール変更
+  const handleRoleChange = (userId: string, role: ProjectMemberRoleValue) => {
+    setMembers((prev) =>
+      prev.map((m) => (m.id === userId ? { ...m, role } : m)),
+    );
+    setMembersError(null);
+  };
+
   // メンバー検索モーダルで確定
-  const handleMemberConfirm = (selectedUsers: UserDto[]) => {
+  const handleMemberConfirm = (
+    selectedUsers: UserDto[],
+    role: ProjectMemberRoleValue,
+  ) => {
+    // 既存メンバーは現在のロールを保持し、新規メンバーには選択したロールを割り当てる
+    const currentRoles = new Map(members.map((m) => [m.id, m.role]));
+    const withRoles = selectedUsers.map((u) => ({
+      ...u,
+      role: currentRoles.get(u.id) ?? role,
+    }));
+
     // 自分は常に含める
     const hasSelf = selectedUsers.some((u) => u.id === currentUser.id);
     if (hasSelf) {
-      setMembers(selectedUsers);
+      setMembers(withRoles);
     } else {
-      setMembers([currentUser, ...selectedUsers]);
+      const self = members.find((m) => m.id === currentUser.id) ?? {
+        ...currentUser,
+        role: PROJECT_MEMBER_ROLE.OWNER,
+      };
+      setMembers([self, ...withRoles]);
     }
     setMembersError(null);
   };
@@ -270,6 +338,91 @@ export function ProjectForm({
                 APIキーは安全に保管されます
               </p>
             </div>
+
+            {/* レート制限入力 */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label
+                  htmlFor="rateLimitRequestsPerMinute"
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
+                  リクエスト数上限（1分あたり）{" "}
+                  <span className="text-gray-400 text-xs">(任意)</span>
+                </label>
+                <Input
+                  id="rateLimitRequestsPerMinute"
+                  type="number"
+                  min={1}
+                  step={1}
+                  {...register("rateLimitRequestsPerMinute")}
+                  className="h-11"
+                  placeholder="システム設定に従う"
+                  disabled={isSubmitting}
+                />
+                {errors.rateLimitRequestsPerMinute && (
+                  <p className="mt-1 text-sm text-red-500">
+                    {errors.rateLimitRequestsPerMinute.message}
+                  </p>
+                )}
+              </div>
+              <div>
+                <label
+                  htmlFor="rateLimitTokensPerMinute"
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
+                  トークン数上限（1分あたり）{" "}
+                  <span className="text-gray-400 text-xs">(任意)</span>
+                </label>
+                <Input
+                  id="rateLimitTokensPerMinute"
+                  type="number"
+                  min={1}
+                  step={1}
+                  {...register("rateLimitTokensPerMinute")}
+                  className="h-11"
+                  placeholder="システム設定に従う"
+                  disabled={isSubmitting}
+                />
+                {errors.rateLimitTokensPerMinute && (
+                  <p className="mt-1 text-sm text-red-500">
+                    {errors.rateLimitTokensPerMinute.message}
+                  </p>
+                )}
+              </div>
+              <p className="text-sm text-gray-500 sm:col-span-2">
+                このプロジェクトのAI
+                API呼び出しに適用するAPIキー単位のレート制限です。空欄の場合はシステム設定に従います
+              </p>
+            </div>
+
+            {/* 月間トークン上限入力 */}
+            <div>
+              <label
+                htmlFor="monthlyTokenBudget"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                月間トークン上限{" "}
+                <span className="text-gray-400 text-xs">(任意)</span>
+              </label>
+              <Input
+                id="monthlyTokenBudget"
+                type="number"
+                min={1}
+                step={1}
+                {...register("monthlyTokenBudget")}
+                className="h-11"
+                placeholder="上限なし"
+                disabled={isSubmitting}
+              />
+              {errors.monthlyTokenBudget && (
+                <p className="mt-1 text-sm text-red-500">
+                  {errors.monthlyTokenBudget.message}
+                </p>
+              )}
+              <p className="mt-1 text-sm text-gray-500">
+                今月のAIトークン使用量がこの上限に達すると、新しいレビュー・チェックリスト生成・Q&Aを開始できなくなります
+              </p>
+            </div>
           </div>
         </div>
 
@@ -286,7 +439,9 @@ export function ProjectForm({
 
           <div className="space-y-4 ml-11">
             <p className="text-sm text-gray-600">
-              プロジェクトに参加するメンバーを追加してください。デフォルトで自身が選択されています。
+              {canManageMembers
+                ? "プロジェクトに参加するメンバーとロールを設定してください。デフォルトで自身がオーナーとして選択されています。"
+                : "メンバーとロールの変更はオーナーのみ行えます。"}
             </p>
 
             {membersError && (
@@ -294,26 +449,30 @@ export function ProjectForm({
             )}
 
             {/* メンバー追加ボタン */}
-            <Button
-              type="button"
-              variant="outline"
-              onClick={() => setIsModalOpen(true)}
-              className="h-10"
-              disabled={isSubmitting}
-            >
-              <Plus className="size-5" />
-              メンバーを追加
-            </Button>
+            {canManageMembers && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsModalOpen(true)}
+                className="h-10"
+                disabled={isSubmitting}
+              >
+                <Plus className="size-5" />
+                メンバーを追加
+              </Button>
+            )}
 
             {/* メンバー一覧 */}
             <MemberList
               members={members}
               currentUserId={currentUser.id}
               onRemove={handleRemoveMember}
+              onRoleChange={handleRoleChange}
+              readOnly={!canManageMembers}
             />
 
             {/* 追加メンバーの空状態 */}
-            {members.length <= 1 && (
+            {canManageMembers && members.length <= 1 && (
               <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
                 <Users className="mx-auto size-12 text-gray-400" />
                 <p className="mt-2 text-sm text-gray-500">
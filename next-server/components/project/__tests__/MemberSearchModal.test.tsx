@@ -180,7 +180,7 @@ describe("MemberSearchModal", () => {
       const confirmButton = screen.getByText("選択を確定");
       await user.click(confirmButton);
 
-      expect(onConfirm).toHaveBeenCalledWith(initialSelected);
+      expect(onConfirm).toHaveBeenCalledWith(initialSelected, "editor");
       expect(onClose).toHaveBeenCalledTimes(1);
     });
   });
@@ -51,7 +51,7 @@ describe("ProjectForm", () => {
         name: "テストプロジェクト",
         description: "テストの説明",
         apiKey: "sk-test",
-        members: [currentUser],
+        members: [{ ...currentUser, role: "owner" }],
       };
 
       render(<ProjectForm {...defaultProps} initialData={initialData} />);
@@ -153,12 +153,65 @@ describe("ProjectForm", () => {
           name: "テストプロジェクト",
           description: "",
           apiKey: null, // APIキーは変更されていないのでnull
-          members: [currentUser],
+          aiApiRateLimit: { requestsPerMinute: null, tokensPerMinute: null },
+          monthlyTokenBudget: null,
+          members: [{ ...currentUser, role: "owner" }],
         });
       });
     });
   });
 
+  describe("メンバーロール", () => {
+    it("作成時は自分がオーナーとして表示される", () => {
+      render(<ProjectForm {...defaultProps} />);
+
+      expect(
+        screen.getByRole("button", { name: "現在のユーザーのロール" }),
+      ).toHaveTextContent("オーナー");
+    });
+
+    it("オーナーがいない場合は送信できない", async () => {
+      const user = userEvent.setup();
+      const onSubmit = vi.fn();
+      render(
+        <ProjectForm
+          {...defaultProps}
+          onSubmit={onSubmit}
+          initialData={{
+            name: "既存プロジェクト",
+            members: [{ ...currentUser, role: "editor" }],
+          }}
+        />,
+      );
+
+      await user.click(screen.getByText("プロジェクトを作成"));
+
+      expect(
+        await screen.findByText("オーナーは少なくとも1名必要です"),
+      ).toBeInTheDocument();
+      expect(onSubmit).not.toHaveBeenCalled();
+    });
+
+    it("メンバー管理権限がない場合はロールを編集できない", () => {
+      render(
+        <ProjectForm
+          {...defaultProps}
+          canManageMembers={false}
+          initialData={{
+            name: "既存プロジェクト",
+            members: [{ ...currentUser, role: "reviewer" }],
+          }}
+        />,
+      );
+
+      expect(screen.queryByText("メンバーを追加")).not.toBeInTheDocument();
+      expect(
+        screen.queryByRole("button", { name: "現在のユーザーのロール" }),
+      ).not.toBeInTheDocument();
+      expect(screen.getByText("レビュアー")).toBeInTheDocument();
+    });
+  });
+
   describe("キャンセル", () => {
     it("キャンセルボタンをクリックするとonCancelが呼ばれる", async () => {
       const user = userEvent.setup();
@@ -255,7 +308,7 @@ describe("ProjectForm", () => {
         name: "既存プロジェクト",
         description: "説明",
         apiKey: "", // APIキーの実際の値は渡さない
-        members: [currentUser],
+        members: [{ ...currentUser, role: "owner" }],
         hasApiKey: true,
       };
 
@@ -373,7 +426,7 @@ describe("ProjectForm", () => {
         name: "既存プロジェクト",
         description: "説明",
         apiKey: "",
-        members: [currentUser],
+        members: [{ ...currentUser, role: "owner" }],
         hasApiKey: false,
       };
 
@@ -402,6 +455,43 @@ describe("ProjectForm", () => {
         expect(apiKeyInput).toBeInTheDocument();
       });
     });
+
+    describe("レート制限", () => {
+      it("既存のレート制限が表示され、変更した値が渡される", async () => {
+        const user = userEvent.setup();
+        const onSubmit = vi.fn();
+        render(
+          <ProjectForm
+            {...defaultProps}
+            initialData={{
+              name: "既存プロジェクト",
+              members: [{ ...currentUser, role: "owner" }],
+              aiApiRateLimit: { requestsPerMinute: 60, tokensPerMinute: null },
+            }}
+            onSubmit={onSubmit}
+          />,
+        );
+
+        const requestsInput = screen.getByLabelText(
+          /リクエスト数上限/,
+        ) as HTMLInputElement;
+        expect(requestsInput.value).toBe("60");
+
+        await user.type(screen.getByLabelText(/トークン数上限/), "100000");
+        await user.click(screen.getByText("プロジェクトを作成"));
+
+        await waitFor(() => {
+          expect(onSubmit).toHaveBeenCalledWith(
+            expect.objectContaining({
+              aiApiRateLimit: {
+                requestsPerMinute: 60,
+                tokensPerMinute: 100000,
+              },
+            }),
+          );
+        });
+      });
+    });
   });
 
   describe("異常系", () => {
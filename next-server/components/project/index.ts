@@ -2,10 +2,21 @@ export { ProjectCard } from "./ProjectCard";
 export type { ProjectCardProps } from "./ProjectCard";
 
 export { ProjectForm } from "./ProjectForm";
-export type { ProjectFormProps, ProjectFormData } from "./ProjectForm";
+export type {
+  ProjectFormProps,
+  ProjectFormData,
+  ProjectFormMember,
+} from "./ProjectForm";
 
 export { MemberList } from "./MemberList";
-export type { MemberListProps } from "./MemberList";
+export type { MemberListProps, MemberWithRole } from "./MemberList";
+
+export { MemberRoleSelect } from "./MemberRoleSelect";
+export type { MemberRoleSelectProps } from "./MemberRoleSelect";
+export {
+  PROJECT_MEMBER_ROLE_LABELS,
+  PROJECT_MEMBER_ROLE_OPTIONS,
+} from "./memberRole";
 
 export { MemberSearchModal } from "./MemberSearchModal";
 export type { MemberSearchModalProps } from "./MemberSearchModal";
@@ -0,0 +1,27 @@
+import {
+  PROJECT_MEMBER_ROLE,
+  type ProjectMemberRoleValue,
+} from "@/domain/project";
+
+/**
+ * ロールの表示名
+ */
+export const PROJECT_MEMBER_ROLE_LABELS: Record<
+  ProjectMemberRoleValue,
+  string
+> = {
+  [PROJECT_MEMBER_ROLE.OWNER]: "オーナー",
+  [PROJECT_MEMBER_ROLE.EDITOR]: "編集者",
+  [PROJECT_MEMBER_ROLE.REVIEWER]: "レビュアー",
+  [PROJECT_MEMBER_ROLE.VIEWER]: "閲覧者",
+};
+
+/**
+ * ロール選択肢（権限の強い順）
+ */
+export const PROJECT_MEMBER_ROLE_OPTIONS: ProjectMemberRoleValue[] = [
+  PROJECT_MEMBER_ROLE.OWNER,
+  PROJECT_MEMBER_ROLE.EDITOR,
+  PROJECT_MEMBER_ROLE.REVIEWER,
+  PROJECT_MEMBER_ROLE.VIEWER,
+];
@@ -4,6 +4,11 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { EvaluationCriteriaEditor } from "./EvaluationCriteriaEditor";
+import {
+  CHUNKING_STRATEGY_LABELS,
+  type ChunkingSettingsDto,
+  type ChunkingStrategy,
+} from "@/domain/reviewSpace";
 
 /**
  * 評価基準項目
@@ -21,6 +26,14 @@ export interface ReviewSettingsValue {
   concurrentReviewItems: number;
   commentFormat: string;
   evaluationCriteria: EvaluationCriterionItem[];
+  chunking: ChunkingSettingsDto;
+}
+
+/**
+ * 数値入力の値を変換する（空欄の場合はnull）
+ */
+function toNullableNumber(value: string): number | null {
+  return value ? Number(value) : null;
 }
 
 /**
@@ -34,7 +47,7 @@ export interface ReviewSettingsEditorProps {
 
 /**
  * レビュー設定エディタコンポーネント
- * 追加指示、同時レビュー項目数、コメントフォーマット、評価基準を編集できる
+ * 追加指示、同時レビュー項目数、コメントフォーマット、評価基準、ドキュメント分割設定を編集できる
  */
 export function ReviewSettingsEditor({
   value,
@@ -52,6 +65,11 @@ export function ReviewSettingsEditor({
     });
   };
 
+  // 分割設定の更新のヘルパー関数
+  const updateChunking = (patch: Partial<ChunkingSettingsDto>) => {
+    updateField("chunking", { ...value.chunking, ...patch });
+  };
+
   return (
     <div className="space-y-6">
       {/* 追加指示 */}
@@ -128,6 +146,105 @@ export function ReviewSettingsEditor({
           onChange={(criteria) => updateField("evaluationCriteria", criteria)}
         />
       </div>
+
+      {/* ドキュメント分割 */}
+      <div className="space-y-3">
+        <Label>ドキュメント分割（大量レビュー）</Label>
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor="chunkingStrategy" className="text-xs text-gray-600">
+              分割方式
+            </Label>
+            <select
+              id="chunkingStrategy"
+              className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              value={value.chunking.strategy}
+              onChange={(e) =>
+                updateChunking({
+                  strategy: e.target.value as ChunkingStrategy,
+                })
+              }
+              disabled={disabled}
+            >
+              {(
+                Object.entries(CHUNKING_STRATEGY_LABELS) as [
+                  ChunkingStrategy,
+                  string,
+                ][]
+              ).map(([strategy, label]) => (
+                <option key={strategy} value={strategy}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="chunkSize" className="text-xs text-gray-600">
+              チャンクサイズ
+            </Label>
+            <Input
+              id="chunkSize"
+              type="number"
+              min={500}
+              value={value.chunking.chunkSize ?? ""}
+              onChange={(e) =>
+                updateChunking({ chunkSize: toNullableNumber(e.target.value) })
+              }
+              placeholder="自動"
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="chunkOverlap" className="text-xs text-gray-600">
+              オーバーラップ
+            </Label>
+            <Input
+              id="chunkOverlap"
+              type="number"
+              min={0}
+              value={value.chunking.overlap}
+              onChange={(e) =>
+                updateChunking({ overlap: Number(e.target.value) || 0 })
+              }
+              disabled={disabled || value.chunking.strategy === "structure"}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="maxPagesPerChunk" className="text-xs text-gray-600">
+              画像モードの最大ページ数 / オーバーラップページ数
+            </Label>
+            <div className="flex gap-2">
+              <Input
+                id="maxPagesPerChunk"
+                type="number"
+                min={1}
+                max={500}
+                value={value.chunking.maxPagesPerChunk ?? ""}
+                onChange={(e) =>
+                  updateChunking({
+                    maxPagesPerChunk: toNullableNumber(e.target.value),
+                  })
+                }
+                placeholder="分割しない"
+                disabled={disabled}
+              />
+              <Input
+                aria-label="オーバーラップページ数"
+                type="number"
+                min={0}
+                value={value.chunking.pageOverlap}
+                onChange={(e) =>
+                  updateChunking({ pageOverlap: Number(e.target.value) || 0 })
+                }
+                disabled={disabled}
+              />
+            </div>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          チャンクサイズは文字数方式では文字数、それ以外では推定トークン数です。空欄の場合はモデルのコンテキストウィンドウから自動で算出します
+        </p>
+      </div>
     </div>
   );
 }
@@ -22,6 +22,7 @@ import {
   DEFAULT_EVALUATION_CRITERIA,
   DEFAULT_CONCURRENT_REVIEW_ITEMS,
   DEFAULT_COMMENT_FORMAT,
+  DEFAULT_CHUNKING_SETTINGS,
 } from "@/domain/reviewSpace";
 
 // 評定項目のスキーマ
@@ -59,6 +60,28 @@ const reviewSpaceFormSchema = z.object({
     .array(evaluationItemSchema)
     .min(1, "評定基準は1つ以上必要です")
     .max(10, "評定基準は10項目以内で設定してください"),
+  chunking: z.object({
+    strategy: z.enum(["characters", "tokens", "structure"]),
+    chunkSize: z
+      .number()
+      .int("チャンクサイズは整数で入力してください")
+      .min(500, "チャンクサイズは500以上の値を入力してください")
+      .nullable(),
+    overlap: z
+      .number()
+      .int()
+      .min(0, "オーバーラップは0以上の値を入力してください"),
+    maxPagesPerChunk: z
+      .number()
+      .int("最大ページ数は整数で入力してください")
+      .min(1, "最大ページ数は1以上の値を入力してください")
+      .max(500, "最大ページ数は500以下の値を入力してください")
+      .nullable(),
+    pageOverlap: z
+      .number()
+      .int()
+      .min(0, "オーバーラップページ数は0以上の値を入力してください"),
+  }),
 });
 
 export type ReviewSpaceFormData = z.infer<typeof reviewSpaceFormSchema>;
@@ -103,6 +126,7 @@ export function ReviewSpaceForm({
       evaluationCriteria: defaultValues?.evaluationCriteria ?? [
         ...DEFAULT_EVALUATION_CRITERIA,
       ],
+      chunking: defaultValues?.chunking ?? { ...DEFAULT_CHUNKING_SETTINGS },
     },
   });
 
@@ -112,6 +136,7 @@ export function ReviewSpaceForm({
     concurrentReviewItems: watch("concurrentReviewItems"),
     commentFormat: watch("commentFormat"),
     evaluationCriteria: watch("evaluationCriteria"),
+    chunking: watch("chunking"),
   };
 
   // レビュー設定の変更ハンドラー
@@ -121,6 +146,7 @@ export function ReviewSpaceForm({
       setValue("concurrentReviewItems", value.concurrentReviewItems);
       setValue("commentFormat", value.commentFormat);
       setValue("evaluationCriteria", value.evaluationCriteria);
+      setValue("chunking", value.chunking);
     },
     [setValue],
   );
@@ -131,6 +157,10 @@ export function ReviewSpaceForm({
     errors.concurrentReviewItems?.message,
     errors.commentFormat?.message,
     errors.evaluationCriteria?.message,
+    errors.chunking?.chunkSize?.message,
+    errors.chunking?.overlap?.message,
+    errors.chunking?.maxPagesPerChunk?.message,
+    errors.chunking?.pageOverlap?.message,
   ].filter(Boolean);
 
   return (
@@ -5,12 +5,14 @@ import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { DEFAULT_RENDER_SCALE, isValidPageRange } from "@/lib/shared/pageRange";
 import {
   UploadedFile,
+  RenderOptions,
   SUPPORTED_FILE_EXTENSIONS,
   formatFileSize,
   getFileExtension,
-  isPdfFile,
 } from "./types";
 import {
   Upload,
@@ -39,6 +41,10 @@ export interface FileUploadAreaProps {
   onFilesChange: (files: UploadedFile[]) => void;
   /** PDF画像変換機能を表示するか */
   showImageConversion?: boolean;
+  /** 画像変換を選択できるファイル形式（省略時はPDFのみ） */
+  imageConvertibleFormats?: string[];
+  /** 画像変換時のページ範囲・解像度の指定欄を表示するか（サーバー側で画像に変換する場合） */
+  showRenderOptions?: boolean;
   /** 複数選択モードを有効にするか */
   enableMultiSelect?: boolean;
   /** 無効状態 */
@@ -70,26 +76,44 @@ const getFileIcon = (file: UploadedFile) => {
   }
 };
 
+/**
+ * 画像変換を選択できるファイル形式の既定値
+ * レンダーごとに配列が作り直されないようモジュールで保持する
+ */
+const DEFAULT_IMAGE_CONVERTIBLE_FORMATS = [".pdf"];
+
+/**
+ * 画像変換時の解像度の選択肢
+ */
+const RENDER_SCALE_OPTIONS = [
+  { value: 1, label: "標準（1倍）" },
+  { value: 1.5, label: "やや高（1.5倍）" },
+  { value: 2, label: "高（2倍）" },
+  { value: 3, label: "最高（3倍）" },
+];
+
 /**
  * 処理モードセレクターコンポーネント
  */
 interface ProcessModeSelectorProps {
   file: UploadedFile;
+  /** 画像変換を選択できるファイルか */
+  isConvertible: boolean;
   disabled?: boolean;
   onModeChange: (fileId: string, willConvertToImage: boolean) => void;
 }
 
 const ProcessModeSelector: React.FC<ProcessModeSelectorProps> = ({
   file,
+  isConvertible,
   disabled = false,
   onModeChange,
 }) => {
-  const isPdf = isPdfFile(file.file);
   const isImageMode = file.willConvertToImage === true;
   const isProcessing = file.status === "processing";
 
-  // 非PDFファイルはテキスト抽出固定（disabled）
-  const isDisabled = disabled || !isPdf || isProcessing;
+  // 画像変換できないファイルはテキスト抽出固定（disabled）
+  const isDisabled = disabled || !isConvertible || isProcessing;
 
   return (
     <div
@@ -132,6 +156,87 @@ const ProcessModeSelector: React.FC<ProcessModeSelectorProps> = ({
   );
 };
 
+/**
+ * 画像変換オプション入力コンポーネント
+ * サーバー側で画像に変換する際のページ範囲と解像度を指定する
+ */
+interface RenderOptionsInputProps {
+  file: UploadedFile;
+  disabled?: boolean;
+  onChange: (fileId: string, renderOptions: RenderOptions) => void;
+}
+
+const RenderOptionsInput: React.FC<RenderOptionsInputProps> = ({
+  file,
+  disabled = false,
+  onChange,
+}) => {
+  const pageRange = file.renderOptions?.pageRange ?? "";
+  const scale = file.renderOptions?.scale ?? DEFAULT_RENDER_SCALE;
+  const isPageRangeValid = isValidPageRange(pageRange);
+
+  return (
+    <div className="mt-3 flex flex-wrap items-start gap-4 pl-13">
+      <div className="space-y-1">
+        <label
+          htmlFor={`page-range-${file.id}`}
+          className="block text-xs font-medium text-gray-700"
+        >
+          ページ範囲
+        </label>
+        <Input
+          id={`page-range-${file.id}`}
+          value={pageRange}
+          placeholder="例: 1-3,5（空欄で全ページ）"
+          onChange={(e) =>
+            onChange(file.id, {
+              ...file.renderOptions,
+              pageRange: e.target.value,
+            })
+          }
+          disabled={disabled}
+          aria-invalid={!isPageRangeValid}
+          className={cn(
+            "h-8 w-56 text-sm",
+            !isPageRangeValid && "border-red-500",
+          )}
+        />
+        {!isPageRangeValid && (
+          <p className="text-xs text-red-600">
+            ページ範囲は「1-3,5」「10-」の形式で指定してください
+          </p>
+        )}
+      </div>
+      <div className="space-y-1">
+        <label
+          htmlFor={`render-scale-${file.id}`}
+          className="block text-xs font-medium text-gray-700"
+        >
+          解像度
+        </label>
+        <select
+          id={`render-scale-${file.id}`}
+          className="block rounded-md border border-gray-300 px-3 py-1.5 text-sm"
+          value={scale}
+          onChange={(e) =>
+            onChange(file.id, {
+              ...file.renderOptions,
+              scale: Number(e.target.value),
+            })
+          }
+          disabled={disabled}
+        >
+          {RENDER_SCALE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
 /**
  * ステータスバッジを取得（エラー時のみ表示）
  */
@@ -168,6 +273,8 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
   files,
   onFilesChange,
   showImageConversion = true,
+  imageConvertibleFormats = DEFAULT_IMAGE_CONVERTIBLE_FORMATS,
+  showRenderOptions = false,
   enableMultiSelect = false,
   disabled = false,
   className,
@@ -180,6 +287,13 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
   // 最後に選択したファイルのインデックス（Shift+クリック用）
   const lastSelectedIndex = useRef<number | null>(null);
 
+  // 画像変換を選択できるファイルかどうか
+  const isConvertible = useCallback(
+    (file: File) =>
+      imageConvertibleFormats.includes(getFileExtension(file.name)),
+    [imageConvertibleFormats],
+  );
+
   // ドラッグオーバー時の処理
   const handleDragOver = useCallback(
     (e: React.DragEvent) => {
@@ -212,7 +326,15 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
       processFiles(droppedFiles);
     },
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [disabled, files, maxFiles, maxFileSize, acceptedFormats, onFilesChange],
+    [
+      disabled,
+      files,
+      maxFiles,
+      maxFileSize,
+      acceptedFormats,
+      onFilesChange,
+      isConvertible,
+    ],
   );
 
   // ファイル選択時の処理
@@ -225,7 +347,15 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
       e.target.value = "";
     },
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [disabled, files, maxFiles, maxFileSize, acceptedFormats, onFilesChange],
+    [
+      disabled,
+      files,
+      maxFiles,
+      maxFileSize,
+      acceptedFormats,
+      onFilesChange,
+      isConvertible,
+    ],
   );
 
   // ファイルを処理してstateに追加
@@ -265,9 +395,9 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
         size: file.size,
         type: file.type,
         status: "pending" as const,
-        processMode: isPdfFile(file) ? undefined : ("text" as const),
-        // PDFファイルはデフォルトでテキスト抽出（画像変換しない）
-        willConvertToImage: isPdfFile(file) ? false : undefined,
+        processMode: isConvertible(file) ? undefined : ("text" as const),
+        // 画像変換できるファイルはデフォルトでテキスト抽出（画像変換しない）
+        willConvertToImage: isConvertible(file) ? false : undefined,
       }));
 
     if (processedFiles.length > 0) {
@@ -298,13 +428,23 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
     [files, onFilesChange],
   );
 
+  // 画像変換オプション変更
+  const handleRenderOptionsChange = useCallback(
+    (fileId: string, renderOptions: RenderOptions) => {
+      onFilesChange(
+        files.map((f) => (f.id === fileId ? { ...f, renderOptions } : f)),
+      );
+    },
+    [files, onFilesChange],
+  );
+
   // 複数選択のトグル（Shift+クリック対応）
   const handleSelectToggle = useCallback(
     (fileId: string, index: number, shiftKey: boolean) => {
-      // PDFファイルのみを対象にしたインデックスリストを作成
-      const pdfFileIndices = files
+      // 画像変換できるファイルのみを対象にしたインデックスリストを作成
+      const convertibleFileIndices = files
         .map((f, i) => ({ file: f, index: i }))
-        .filter(({ file }) => isPdfFile(file.file));
+        .filter(({ file }) => isConvertible(file.file));
 
       setSelectedFileIds((prev) => {
         const next = new Set(prev);
@@ -314,8 +454,8 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
           const start = Math.min(lastSelectedIndex.current, index);
           const end = Math.max(lastSelectedIndex.current, index);
 
-          // start〜endの範囲内のPDFファイルを全て選択
-          pdfFileIndices.forEach(({ file, index: fileIndex }) => {
+          // start〜endの範囲内の画像変換できるファイルを全て選択
+          convertibleFileIndices.forEach(({ file, index: fileIndex }) => {
             if (fileIndex >= start && fileIndex <= end) {
               next.add(file.id);
             }
@@ -334,22 +474,22 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
 
       lastSelectedIndex.current = index;
     },
-    [files],
+    [files, isConvertible],
   );
 
-  // 一括処理モード変更（選択されたPDFのみ）
+  // 一括処理モード変更（選択された画像変換できるファイルのみ）
   const handleBatchModeChange = useCallback(
     (willConvertToImage: boolean) => {
       onFilesChange(
         files.map((f) =>
-          selectedFileIds.has(f.id) && isPdfFile(f.file)
+          selectedFileIds.has(f.id) && isConvertible(f.file)
             ? { ...f, willConvertToImage }
             : f,
         ),
       );
       setSelectedFileIds(new Set());
     },
-    [files, selectedFileIds, onFilesChange],
+    [files, selectedFileIds, onFilesChange, isConvertible],
   );
 
   // 選択解除
@@ -364,12 +504,19 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
     }
   };
 
-  // 選択中のPDFファイル数
-  const selectedPdfCount = Array.from(selectedFileIds).filter((id) => {
+  // 選択中の画像変換できるファイル数
+  const selectedConvertibleCount = Array.from(selectedFileIds).filter((id) => {
     const file = files.find((f) => f.id === id);
-    return file && isPdfFile(file.file);
+    return file && isConvertible(file.file);
   }).length;
 
+  // 一括操作ツールバーに表示するファイルの呼び方（PDFのみ画像変換できる場合はPDF）
+  const convertibleLabel =
+    imageConvertibleFormats.length === 1 &&
+    imageConvertibleFormats[0] === ".pdf"
+      ? "PDF"
+      : "ファイル";
+
   // accept属性の値を生成
   const acceptValue = acceptedFormats.join(",");
 
@@ -422,43 +569,45 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
         </p>
       </div>
 
-      {/* 一括操作ツールバー（PDFが1件以上選択時に表示） */}
-      {enableMultiSelect && showImageConversion && selectedPdfCount > 0 && (
-        <div className="flex items-center justify-between bg-purple-50 border border-purple-200 rounded-lg px-4 py-2">
-          <span className="text-sm text-purple-800 font-medium">
-            {selectedPdfCount}件のPDFを選択中
-          </span>
-          <div className="flex items-center gap-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => handleBatchModeChange(false)}
-              disabled={disabled}
-              className="text-purple-700 border-purple-300 hover:bg-purple-100"
-            >
-              一括: テキスト抽出
-            </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => handleBatchModeChange(true)}
-              disabled={disabled}
-              className="text-purple-700 border-purple-300 hover:bg-purple-100"
-            >
-              一括: 画像変換
-            </Button>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={handleClearSelection}
-              disabled={disabled}
-              className="text-gray-600"
-            >
-              選択解除
-            </Button>
+      {/* 一括操作ツールバー（画像変換できるファイルが1件以上選択時に表示） */}
+      {enableMultiSelect &&
+        showImageConversion &&
+        selectedConvertibleCount > 0 && (
+          <div className="flex items-center justify-between bg-purple-50 border border-purple-200 rounded-lg px-4 py-2">
+            <span className="text-sm text-purple-800 font-medium">
+              {selectedConvertibleCount}件の{convertibleLabel}を選択中
+            </span>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleBatchModeChange(false)}
+                disabled={disabled}
+                className="text-purple-700 border-purple-300 hover:bg-purple-100"
+              >
+                一括: テキスト抽出
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleBatchModeChange(true)}
+                disabled={disabled}
+                className="text-purple-700 border-purple-300 hover:bg-purple-100"
+              >
+                一括: 画像変換
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleClearSelection}
+                disabled={disabled}
+                className="text-gray-600"
+              >
+                選択解除
+              </Button>
+            </div>
           </div>
-        </div>
-      )}
+        )}
 
       {/* アップロードファイル一覧 */}
       {files.length > 0 && (
@@ -480,7 +629,7 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
                   {/* 複数選択チェックボックス（Shift+クリック範囲選択対応） */}
                   {enableMultiSelect &&
                     showImageConversion &&
-                    isPdfFile(file.file) && (
+                    isConvertible(file.file) && (
                       <Checkbox
                         checked={selectedFileIds.has(file.id)}
                         onCheckedChange={() => {}}
@@ -516,6 +665,7 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
                   {showImageConversion && file.status !== "error" && (
                     <ProcessModeSelector
                       file={file}
+                      isConvertible={isConvertible(file.file)}
                       disabled={disabled}
                       onModeChange={handleModeChange}
                     />
@@ -533,6 +683,18 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
                   </Button>
                 </div>
               </div>
+
+              {/* 画像変換オプション（ページ範囲・解像度） */}
+              {showImageConversion &&
+                showRenderOptions &&
+                file.willConvertToImage === true &&
+                file.status !== "error" && (
+                  <RenderOptionsInput
+                    file={file}
+                    disabled={disabled || file.status === "processing"}
+                    onChange={handleRenderOptionsChange}
+                  />
+                )}
             </div>
           ))}
         </div>
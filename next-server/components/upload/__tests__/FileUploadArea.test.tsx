@@ -312,6 +312,100 @@ describe("FileUploadArea", () => {
       const updatedFiles = mockOnFilesChange.mock.calls[0][0];
       expect(updatedFiles[0].willConvertToImage).toBe(true);
     });
+
+    it("imageConvertibleFormatsに含まれるOffice文書は画像変換を選択できる", () => {
+      const files: UploadedFile[] = [
+        createUploadedFile({
+          id: "1",
+          name: "slides.pptx",
+          type: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+          status: "complete",
+          willConvertToImage: false,
+        }),
+      ];
+
+      render(
+        <FileUploadArea
+          {...defaultProps}
+          files={files}
+          imageConvertibleFormats={[".pdf", ".pptx"]}
+        />,
+      );
+
+      expect(screen.getByText("画像変換")).not.toBeDisabled();
+    });
+  });
+
+  describe("画像変換オプション", () => {
+    const imageModePdf = (renderOptions?: UploadedFile["renderOptions"]) =>
+      createUploadedFile({
+        id: "test-pdf-1",
+        name: "document.pdf",
+        type: "application/pdf",
+        status: "complete",
+        willConvertToImage: true,
+        renderOptions,
+      });
+
+    it("showRenderOptions=trueの場合、画像変換するファイルにページ範囲と解像度が表示される", () => {
+      render(
+        <FileUploadArea
+          {...defaultProps}
+          files={[imageModePdf()]}
+          showRenderOptions={true}
+        />,
+      );
+
+      expect(screen.getByLabelText("ページ範囲")).toBeInTheDocument();
+      expect(screen.getByLabelText("解像度")).toHaveValue("2");
+    });
+
+    it("showRenderOptionsを指定しない場合は表示されない", () => {
+      render(<FileUploadArea {...defaultProps} files={[imageModePdf()]} />);
+
+      expect(screen.queryByLabelText("ページ範囲")).not.toBeInTheDocument();
+    });
+
+    it("ページ範囲と解像度を変更するとonFilesChangeが呼ばれる", () => {
+      render(
+        <FileUploadArea
+          {...defaultProps}
+          files={[imageModePdf({ scale: 2 })]}
+          showRenderOptions={true}
+        />,
+      );
+
+      fireEvent.change(screen.getByLabelText("ページ範囲"), {
+        target: { value: "1-3" },
+      });
+      expect(mockOnFilesChange.mock.calls[0][0][0].renderOptions).toEqual({
+        scale: 2,
+        pageRange: "1-3",
+      });
+
+      fireEvent.change(screen.getByLabelText("解像度"), {
+        target: { value: "3" },
+      });
+      expect(mockOnFilesChange.mock.calls[1][0][0].renderOptions).toEqual({
+        scale: 3,
+      });
+    });
+
+    it("ページ範囲の書式が正しくない場合はエラーが表示される", () => {
+      render(
+        <FileUploadArea
+          {...defaultProps}
+          files={[imageModePdf({ pageRange: "5-1" })]}
+          showRenderOptions={true}
+        />,
+      );
+
+      expect(
+        screen.getByText(
+          "ページ範囲は「1-3,5」「10-」の形式で指定してください",
+        ),
+      ).toBeInTheDocument();
+    });
   });
 
   describe("複数選択と一括操作", () => {
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { applyImageConvertibleFormats, UploadedFile } from "../types";
+
+// テスト用のアップロードファイル
+const createUploadedFile = (
+  name: string,
+  partial: Partial<UploadedFile> = {},
+): UploadedFile => ({
+  id: `test-${name}`,
+  file: new File([""], name),
+  name,
+  size: 1024,
+  type: "",
+  status: "complete",
+  ...partial,
+});
+
+describe("applyImageConvertibleFormats", () => {
+  it("画像変換できなくなったファイルは画像変換の選択を解除してテキスト抽出にする", () => {
+    const files = [
+      createUploadedFile("slides.pptx", {
+        willConvertToImage: true,
+        renderOptions: { pageRange: "1-3", scale: 2 },
+      }),
+    ];
+
+    const result = applyImageConvertibleFormats(files, [".pdf"]);
+
+    expect(result[0]).toMatchObject({
+      processMode: "text",
+      willConvertToImage: undefined,
+      renderOptions: undefined,
+    });
+  });
+
+  it("引き続き画像変換できるファイルは選択状態を保持する", () => {
+    const files = [
+      createUploadedFile("design.pdf", { willConvertToImage: true }),
+      createUploadedFile("memo.txt", { processMode: "text" }),
+    ];
+
+    const result = applyImageConvertibleFormats(files, [".pdf"]);
+
+    expect(result).toEqual(files);
+  });
+
+  it("新たに画像変換できるようになったファイルはテキスト抽出を初期値として選択できるようにする", () => {
+    const files = [createUploadedFile("spec.docx", { processMode: "text" })];
+
+    const result = applyImageConvertibleFormats(files, [".pdf", ".docx"]);
+
+    expect(result[0]).toMatchObject({
+      processMode: undefined,
+      willConvertToImage: false,
+    });
+  });
+});
@@ -4,6 +4,7 @@ export type {
   UploadedFile,
   UploadFileStatus,
   ProcessMode,
+  RenderOptions,
   SupportedFileExtension,
 } from "./types";
 export {
@@ -13,4 +14,5 @@ export {
   getFileExtension,
   getFileTypeFromExtension,
   isPdfFile,
+  applyImageConvertibleFormats,
 } from "./types";
@@ -10,6 +10,16 @@ export type UploadFileStatus = "pending" | "processing" | "complete" | "error";
  */
 export type ProcessMode = "text" | "image";
 
+/**
+ * サーバー側で画像に変換する際のオプション
+ */
+export interface RenderOptions {
+  /** 変換するページ範囲（例: "1-3,5"、空欄の場合は全ページ） */
+  pageRange?: string;
+  /** 解像度の倍率 */
+  scale?: number;
+}
+
 /**
  * アップロードされたファイルの情報
  */
@@ -34,6 +44,8 @@ export interface UploadedFile {
   willConvertToImage?: boolean;
   /** PDF画像変換後のPNGファイル配列（FormData送信用） */
   convertedImages?: File[];
+  /** サーバー側で画像に変換する際のオプション */
+  renderOptions?: RenderOptions;
 }
 
 /**
@@ -96,6 +108,33 @@ export const isPdfFile = (file: File): boolean => {
   );
 };
 
+/**
+ * 画像変換を選択できるファイル形式の変更に合わせて、ファイルの画像変換の選択状態を更新
+ * - 画像変換できなくなったファイルは選択を解除してテキスト抽出にする
+ * - 新たに画像変換できるようになったファイルはテキスト抽出を初期値として選択できるようにする
+ */
+export const applyImageConvertibleFormats = (
+  files: UploadedFile[],
+  imageConvertibleFormats: string[],
+): UploadedFile[] =>
+  files.map((file) => {
+    const isConvertible = imageConvertibleFormats.includes(
+      getFileExtension(file.name),
+    );
+    if (!isConvertible && file.willConvertToImage !== undefined) {
+      return {
+        ...file,
+        processMode: "text",
+        willConvertToImage: undefined,
+        renderOptions: undefined,
+      };
+    }
+    if (isConvertible && file.willConvertToImage === undefined) {
+      return { ...file, processMode: undefined, willConvertToImage: false };
+    }
+    return file;
+  });
+
 /**
  * ファイルサイズをフォーマット
  */
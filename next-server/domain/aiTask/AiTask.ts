@@ -39,6 +39,10 @@ export interface ReconstructAiTaskParams {
   updatedAt: Date;
   startedAt: Date | null;
   completedAt: Date | null;
+  leaseOwner: string | null;
+  leaseExpiresAt: Date | null;
+  deliveryCount: number;
+  aiApiRetryCount: number;
   fileMetadata: ReconstructAiTaskFileMetadataParams[];
 }
 
@@ -57,13 +61,21 @@ export interface AiTaskDto {
   updatedAt: Date;
   startedAt: Date | null;
   completedAt: Date | null;
+  /** リースを保持しているワーカーID（処理中のみ） */
+  leaseOwner: string | null;
+  /** リース有効期限（処理中のみ） */
+  leaseExpiresAt: Date | null;
+  /** 配信回数 */
+  deliveryCount: number;
+  /** AI API呼び出しの一時的なエラーによる自動リトライ回数（全配信の累計） */
+  aiApiRetryCount: number;
   fileMetadata: AiTaskFileMetadataDto[];
 }
 
 /**
  * APIキーをSHA-256でハッシュ化する
  */
-function hashApiKey(apiKey: string): string {
+export function hashApiKey(apiKey: string): string {
   return createHash("sha256").update(apiKey).digest("hex");
 }
 
@@ -83,6 +95,10 @@ export class AiTask {
   private readonly _updatedAt: Date;
   private readonly _startedAt: Date | null;
   private readonly _completedAt: Date | null;
+  private readonly _leaseOwner: string | null;
+  private readonly _leaseExpiresAt: Date | null;
+  private readonly _deliveryCount: number;
+  private readonly _aiApiRetryCount: number;
   private readonly _fileMetadata: AiTaskFileMetadata[];
 
   private constructor(
@@ -97,6 +113,10 @@ export class AiTask {
     updatedAt: Date,
     startedAt: Date | null,
     completedAt: Date | null,
+    leaseOwner: string | null,
+    leaseExpiresAt: Date | null,
+    deliveryCount: number,
+    aiApiRetryCount: number,
     fileMetadata: AiTaskFileMetadata[],
   ) {
     this._id = id;
@@ -110,6 +130,10 @@ export class AiTask {
     this._updatedAt = updatedAt;
     this._startedAt = startedAt;
     this._completedAt = completedAt;
+    this._leaseOwner = leaseOwner;
+    this._leaseExpiresAt = leaseExpiresAt;
+    this._deliveryCount = deliveryCount;
+    this._aiApiRetryCount = aiApiRetryCount;
     this._fileMetadata = fileMetadata;
   }
 
@@ -133,6 +157,10 @@ export class AiTask {
       now, // updatedAt
       null, // startedAt
       null, // completedAt
+      null, // leaseOwner
+      null, // leaseExpiresAt
+      0, // deliveryCount
+      0, // aiApiRetryCount
       params.fileMetadata ?? [],
     );
   }
@@ -156,6 +184,10 @@ export class AiTask {
       params.updatedAt,
       params.startedAt,
       params.completedAt,
+      params.leaseOwner,
+      params.leaseExpiresAt,
+      params.deliveryCount,
+      params.aiApiRetryCount,
       fileMetadata,
     );
   }
@@ -163,8 +195,10 @@ export class AiTask {
   /**
    * 処理中に遷移する
    * queued → processing
+   * @param workerId リースを取得するワーカーID
+   * @param leaseDurationMs リース期間（ミリ秒）
    */
-  startProcessing(): AiTask {
+  startProcessing(workerId: string, leaseDurationMs: number): AiTask {
     const newStatus = this._status.toProcessing();
     const now = new Date();
     return new AiTask(
@@ -179,6 +213,10 @@ export class AiTask {
       now, // updatedAt
       now, // startedAt
       this._completedAt,
+      workerId, // leaseOwner
+      new Date(now.getTime() + leaseDurationMs), // leaseExpiresAt
+      this._deliveryCount + 1,
+      this._aiApiRetryCount,
       this._fileMetadata,
     );
   }
@@ -202,6 +240,10 @@ export class AiTask {
       now, // updatedAt
       this._startedAt,
       now, // completedAt
+      null, // leaseOwner
+      null, // leaseExpiresAt
+      this._deliveryCount,
+      this._aiApiRetryCount,
       this._fileMetadata,
     );
   }
@@ -225,6 +267,10 @@ export class AiTask {
       now, // updatedAt
       this._startedAt,
       now, // completedAt
+      null, // leaseOwner
+      null, // leaseExpiresAt
+      this._deliveryCount,
+      this._aiApiRetryCount,
       this._fileMetadata,
     );
   }
@@ -274,10 +320,47 @@ export class AiTask {
     return this._completedAt;
   }
 
+  get leaseOwner(): string | null {
+    return this._leaseOwner;
+  }
+
+  get leaseExpiresAt(): Date | null {
+    return this._leaseExpiresAt;
+  }
+
+  get deliveryCount(): number {
+    return this._deliveryCount;
+  }
+
+  get aiApiRetryCount(): number {
+    return this._aiApiRetryCount;
+  }
+
   get fileMetadata(): AiTaskFileMetadata[] {
     return this._fileMetadata;
   }
 
+  /**
+   * 指定したワーカーがリースを保持しているか
+   */
+  isLeasedBy(workerId: string): boolean {
+    return this._leaseOwner === workerId;
+  }
+
+  /**
+   * リースが期限切れかどうか
+   * 処理中でリース期限が未設定の場合も期限切れとして扱う
+   */
+  isLeaseExpired(now: Date = new Date()): boolean {
+    if (!this._status.isProcessing()) {
+      return false;
+    }
+    return (
+      this._leaseExpiresAt === null ||
+      this._leaseExpiresAt.getTime() <= now.getTime()
+    );
+  }
+
   /**
    * DTOに変換
    */
@@ -294,6 +377,10 @@ export class AiTask {
       updatedAt: this._updatedAt,
       startedAt: this._startedAt,
       completedAt: this._completedAt,
+      leaseOwner: this._leaseOwner,
+      leaseExpiresAt: this._leaseExpiresAt,
+      deliveryCount: this._deliveryCount,
+      aiApiRetryCount: this._aiApiRetryCount,
       fileMetadata: this._fileMetadata.map((fm) => fm.toDto()),
     };
   }
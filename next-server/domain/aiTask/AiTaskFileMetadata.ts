@@ -147,6 +147,23 @@ export class AiTaskFileMetadata {
     );
   }
 
+  /**
+   * 変換済み画像の枚数を設定した新しいインスタンスを返す
+   */
+  withConvertedImageCount(convertedImageCount: number): AiTaskFileMetadata {
+    return new AiTaskFileMetadata(
+      this._id,
+      this._taskId,
+      this._fileName,
+      this._filePath,
+      this._fileSize,
+      this._mimeType,
+      this._processMode,
+      convertedImageCount,
+      this._createdAt,
+    );
+  }
+
   /**
    * タスクIDを設定した新しいインスタンスを返す
    */
@@ -0,0 +1,198 @@
+import { domainValidationError } from "@/lib/server/error";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { ReviewTargetId } from "@/domain/reviewTarget";
+import type { AiTask } from "./AiTask";
+import { AiTaskId } from "./AiTaskId";
+import { AiTaskStatus } from "./AiTaskStatus";
+import { AiTaskType } from "./AiTaskType";
+
+/**
+ * AIタスク実行履歴復元パラメータ
+ */
+export interface ReconstructAiTaskHistoryParams {
+  taskId: string;
+  taskType: string;
+  status: string;
+  reviewSpaceId: string;
+  reviewTargetId: string | null;
+  errorMessage: string | null;
+  queuedAt: Date;
+  startedAt: Date | null;
+  completedAt: Date;
+}
+
+/**
+ * AIタスク実行履歴DTO
+ */
+export interface AiTaskHistoryDto {
+  taskId: string;
+  taskType: string;
+  status: string;
+  reviewSpaceId: string;
+  reviewTargetId: string | null;
+  errorMessage: string | null;
+  queuedAt: Date;
+  startedAt: Date | null;
+  completedAt: Date;
+}
+
+/**
+ * AIタスク実行履歴エンティティ
+ * 完了・失敗したAIタスクのキュー待ち時間・実行時間を分析用に保持する
+ * （AIタスクは終了時に削除されるため、終了時点のスナップショットとして記録する）
+ */
+export class AiTaskHistory {
+  private readonly _taskId: AiTaskId;
+  private readonly _taskType: AiTaskType;
+  private readonly _status: AiTaskStatus;
+  private readonly _reviewSpaceId: ReviewSpaceId;
+  private readonly _reviewTargetId: ReviewTargetId | null;
+  private readonly _errorMessage: string | null;
+  private readonly _queuedAt: Date;
+  private readonly _startedAt: Date | null;
+  private readonly _completedAt: Date;
+
+  private constructor(
+    taskId: AiTaskId,
+    taskType: AiTaskType,
+    status: AiTaskStatus,
+    reviewSpaceId: ReviewSpaceId,
+    reviewTargetId: ReviewTargetId | null,
+    errorMessage: string | null,
+    queuedAt: Date,
+    startedAt: Date | null,
+    completedAt: Date,
+  ) {
+    this._taskId = taskId;
+    this._taskType = taskType;
+    this._status = status;
+    this._reviewSpaceId = reviewSpaceId;
+    this._reviewTargetId = reviewTargetId;
+    this._errorMessage = errorMessage;
+    this._queuedAt = queuedAt;
+    this._startedAt = startedAt;
+    this._completedAt = completedAt;
+  }
+
+  /**
+   * 完了・失敗に遷移したAIタスクから実行履歴を作成する
+   * レビュースペースID・レビュー対象IDはペイロードから取得する
+   * @throws ドメインバリデーションエラー - タスクが終了していない場合、ペイロードのIDが不正な場合
+   */
+  static fromTask(task: AiTask): AiTaskHistory {
+    if (
+      !(task.status.isCompleted() || task.status.isFailed()) ||
+      !task.completedAt
+    ) {
+      throw domainValidationError("AI_TASK_HISTORY_NOT_FINISHED");
+    }
+
+    const { reviewSpaceId, reviewTargetId } = task.payload;
+    return new AiTaskHistory(
+      task.id,
+      task.taskType,
+      task.status,
+      ReviewSpaceId.reconstruct(String(reviewSpaceId ?? "")),
+      typeof reviewTargetId === "string"
+        ? ReviewTargetId.reconstruct(reviewTargetId)
+        : null,
+      task.errorMessage,
+      task.createdAt,
+      task.startedAt,
+      task.completedAt,
+    );
+  }
+
+  /**
+   * DBから復元する
+   */
+  static reconstruct(params: ReconstructAiTaskHistoryParams): AiTaskHistory {
+    return new AiTaskHistory(
+      AiTaskId.reconstruct(params.taskId),
+      AiTaskType.reconstruct(params.taskType),
+      AiTaskStatus.reconstruct(params.status),
+      ReviewSpaceId.reconstruct(params.reviewSpaceId),
+      params.reviewTargetId
+        ? ReviewTargetId.reconstruct(params.reviewTargetId)
+        : null,
+      params.errorMessage,
+      params.queuedAt,
+      params.startedAt,
+      params.completedAt,
+    );
+  }
+
+  /**
+   * キュー待ち時間（ミリ秒）
+   * 処理開始前に失敗した場合はnull
+   */
+  get waitDurationMs(): number | null {
+    return this._startedAt
+      ? this._startedAt.getTime() - this._queuedAt.getTime()
+      : null;
+  }
+
+  /**
+   * 実行時間（ミリ秒）
+   * 処理開始前に失敗した場合はnull
+   */
+  get executionDurationMs(): number | null {
+    return this._startedAt
+      ? this._completedAt.getTime() - this._startedAt.getTime()
+      : null;
+  }
+
+  /**
+   * DTOに変換する
+   */
+  toDto(): AiTaskHistoryDto {
+    return {
+      taskId: this._taskId.value,
+      taskType: this._taskType.value,
+      status: this._status.value,
+      reviewSpaceId: this._reviewSpaceId.value,
+      reviewTargetId: this._reviewTargetId?.value ?? null,
+      errorMessage: this._errorMessage,
+      queuedAt: this._queuedAt,
+      startedAt: this._startedAt,
+      completedAt: this._completedAt,
+    };
+  }
+
+  // Getters
+  get taskId(): AiTaskId {
+    return this._taskId;
+  }
+
+  get taskType(): AiTaskType {
+    return this._taskType;
+  }
+
+  get status(): AiTaskStatus {
+    return this._status;
+  }
+
+  get reviewSpaceId(): ReviewSpaceId {
+    return this._reviewSpaceId;
+  }
+
+  get reviewTargetId(): ReviewTargetId | null {
+    return this._reviewTargetId;
+  }
+
+  get errorMessage(): string | null {
+    return this._errorMessage;
+  }
+
+  get queuedAt(): Date {
+    return this._queuedAt;
+  }
+
+  get startedAt(): Date | null {
+    return this._startedAt;
+  }
+
+  get completedAt(): Date {
+    return this._completedAt;
+  }
+}
@@ -7,13 +7,14 @@ export const AI_TASK_TYPE = {
   SMALL_REVIEW: "small_review",
   LARGE_REVIEW: "large_review",
   CHECKLIST_GENERATION: "checklist_generation",
+  QA_EXECUTION: "qa_execution",
 } as const;
 
 export type AiTaskTypeValue = (typeof AI_TASK_TYPE)[keyof typeof AI_TASK_TYPE];
 
 /**
  * AIタスクタイプ値オブジェクト
- * 少量レビュー、大量レビュー、チェックリスト生成を区別する
+ * 少量レビュー、大量レビュー、チェックリスト生成、Q&A実行を区別する
  */
 export class AiTaskType {
   private readonly _value: AiTaskTypeValue;
@@ -79,6 +80,13 @@ export class AiTaskType {
     return this._value === AI_TASK_TYPE.CHECKLIST_GENERATION;
   }
 
+  /**
+   * Q&A実行かどうか
+   */
+  isQaExecution(): boolean {
+    return this._value === AI_TASK_TYPE.QA_EXECUTION;
+  }
+
   /**
    * レビュー系タスクかどうか
    */
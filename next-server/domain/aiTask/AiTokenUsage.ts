@@ -0,0 +1,142 @@
+import { ProjectId } from "@/domain/project";
+import { QaHistoryId } from "@/domain/qaHistory";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { ReviewTargetId } from "@/domain/reviewTarget";
+import { AiTaskId } from "./AiTaskId";
+import { AiTaskType } from "./AiTaskType";
+
+/**
+ * AIトークン使用量作成パラメータ
+ */
+export interface CreateAiTokenUsageParams {
+  taskId: string;
+  taskType: string;
+  projectId: string;
+  reviewSpaceId: string;
+  reviewTargetId?: string | null;
+  qaHistoryId?: string | null;
+  model: string;
+  requestCount: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * AIトークン使用量エンティティ
+ * AIタスク1件で行ったエージェント呼び出しのトークン使用量を表現する
+ * プロジェクトの月間トークン上限の判定と使用量の集計に使用する
+ */
+export class AiTokenUsage {
+  private readonly _taskId: AiTaskId;
+  private readonly _taskType: AiTaskType;
+  private readonly _projectId: ProjectId;
+  private readonly _reviewSpaceId: ReviewSpaceId;
+  private readonly _reviewTargetId: ReviewTargetId | null;
+  private readonly _qaHistoryId: QaHistoryId | null;
+  private readonly _model: string;
+  private readonly _requestCount: number;
+  private readonly _promptTokens: number;
+  private readonly _completionTokens: number;
+  private readonly _totalTokens: number;
+  private readonly _createdAt: Date;
+
+  private constructor(
+    taskId: AiTaskId,
+    taskType: AiTaskType,
+    projectId: ProjectId,
+    reviewSpaceId: ReviewSpaceId,
+    reviewTargetId: ReviewTargetId | null,
+    qaHistoryId: QaHistoryId | null,
+    model: string,
+    requestCount: number,
+    promptTokens: number,
+    completionTokens: number,
+    totalTokens: number,
+    createdAt: Date,
+  ) {
+    this._taskId = taskId;
+    this._taskType = taskType;
+    this._projectId = projectId;
+    this._reviewSpaceId = reviewSpaceId;
+    this._reviewTargetId = reviewTargetId;
+    this._qaHistoryId = qaHistoryId;
+    this._model = model;
+    this._requestCount = requestCount;
+    this._promptTokens = promptTokens;
+    this._completionTokens = completionTokens;
+    this._totalTokens = totalTokens;
+    this._createdAt = createdAt;
+  }
+
+  /**
+   * タスク終了時のトークン使用量を作成する
+   */
+  static create(params: CreateAiTokenUsageParams): AiTokenUsage {
+    return new AiTokenUsage(
+      AiTaskId.reconstruct(params.taskId),
+      AiTaskType.reconstruct(params.taskType),
+      ProjectId.reconstruct(params.projectId),
+      ReviewSpaceId.reconstruct(params.reviewSpaceId),
+      params.reviewTargetId
+        ? ReviewTargetId.reconstruct(params.reviewTargetId)
+        : null,
+      params.qaHistoryId ? QaHistoryId.reconstruct(params.qaHistoryId) : null,
+      params.model,
+      params.requestCount,
+      params.promptTokens,
+      params.completionTokens,
+      params.totalTokens,
+      new Date(),
+    );
+  }
+
+  // Getters
+  get taskId(): AiTaskId {
+    return this._taskId;
+  }
+
+  get taskType(): AiTaskType {
+    return this._taskType;
+  }
+
+  get projectId(): ProjectId {
+    return this._projectId;
+  }
+
+  get reviewSpaceId(): ReviewSpaceId {
+    return this._reviewSpaceId;
+  }
+
+  get reviewTargetId(): ReviewTargetId | null {
+    return this._reviewTargetId;
+  }
+
+  get qaHistoryId(): QaHistoryId | null {
+    return this._qaHistoryId;
+  }
+
+  get model(): string {
+    return this._model;
+  }
+
+  get requestCount(): number {
+    return this._requestCount;
+  }
+
+  get promptTokens(): number {
+    return this._promptTokens;
+  }
+
+  get completionTokens(): number {
+    return this._completionTokens;
+  }
+
+  get totalTokens(): number {
+    return this._totalTokens;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+}
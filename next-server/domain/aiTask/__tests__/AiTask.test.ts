@@ -16,6 +16,8 @@ describe("AiTask", () => {
   };
 
   const mockDate = new Date("2024-01-15T10:00:00Z");
+  const workerId = "worker-1";
+  const leaseDurationMs = 60000;
 
   beforeEach(() => {
     vi.useFakeTimers();
@@ -94,6 +96,10 @@ describe("AiTask", () => {
           updatedAt: new Date("2024-01-10T12:00:00Z"),
           startedAt: new Date("2024-01-10T11:00:00Z"),
           completedAt: null,
+          leaseOwner: "worker-1",
+          leaseExpiresAt: new Date("2024-01-10T11:01:00Z"),
+          deliveryCount: 1,
+          aiApiRetryCount: 0,
           fileMetadata: [],
         };
 
@@ -120,6 +126,10 @@ describe("AiTask", () => {
           updatedAt: new Date("2024-01-10T10:00:00Z"),
           startedAt: null,
           completedAt: null,
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          deliveryCount: 0,
+          aiApiRetryCount: 0,
           fileMetadata: [
             {
               id: "660e8400-e29b-41d4-a716-446655440001",
@@ -146,15 +156,39 @@ describe("AiTask", () => {
     describe("状態遷移", () => {
       it("startProcessing()でqueued → processingに遷移する", () => {
         const task = AiTask.create(baseCreateParams);
-        const processingTask = task.startProcessing();
+        const processingTask = task.startProcessing(workerId, leaseDurationMs);
 
         expect(processingTask.status.value).toBe(AI_TASK_STATUS.PROCESSING);
         expect(processingTask.startedAt).toEqual(mockDate);
       });
 
+      it("startProcessing()でリースを取得し配信回数を加算する", () => {
+        const task = AiTask.create(baseCreateParams);
+        const processingTask = task.startProcessing(workerId, leaseDurationMs);
+
+        expect(processingTask.leaseOwner).toBe(workerId);
+        expect(processingTask.leaseExpiresAt).toEqual(
+          new Date(mockDate.getTime() + leaseDurationMs),
+        );
+        expect(processingTask.deliveryCount).toBe(1);
+        expect(processingTask.isLeasedBy(workerId)).toBe(true);
+        expect(processingTask.isLeasedBy("worker-2")).toBe(false);
+      });
+
+      it("completeWithSuccess()でリースを解放する", () => {
+        const task = AiTask.create(baseCreateParams);
+        const completedTask = task
+          .startProcessing(workerId, leaseDurationMs)
+          .completeWithSuccess();
+
+        expect(completedTask.leaseOwner).toBeNull();
+        expect(completedTask.leaseExpiresAt).toBeNull();
+        expect(completedTask.deliveryCount).toBe(1);
+      });
+
       it("completeWithSuccess()でprocessing → completedに遷移する", () => {
         const task = AiTask.create(baseCreateParams);
-        const processingTask = task.startProcessing();
+        const processingTask = task.startProcessing(workerId, leaseDurationMs);
         const completedTask = processingTask.completeWithSuccess();
 
         expect(completedTask.status.value).toBe(AI_TASK_STATUS.COMPLETED);
@@ -164,7 +198,7 @@ describe("AiTask", () => {
 
       it("failWithError()でprocessing → failedに遷移する", () => {
         const task = AiTask.create(baseCreateParams);
-        const processingTask = task.startProcessing();
+        const processingTask = task.startProcessing(workerId, leaseDurationMs);
         const failedTask = processingTask.failWithError(
           "API rate limit exceeded",
         );
@@ -194,6 +228,34 @@ describe("AiTask", () => {
       });
     });
 
+    describe("isLeaseExpired", () => {
+      it("リース期限内の場合はfalseを返す", () => {
+        const task = AiTask.create(baseCreateParams).startProcessing(
+          workerId,
+          leaseDurationMs,
+        );
+
+        expect(task.isLeaseExpired()).toBe(false);
+      });
+
+      it("リース期限を過ぎた場合はtrueを返す", () => {
+        const task = AiTask.create(baseCreateParams).startProcessing(
+          workerId,
+          leaseDurationMs,
+        );
+
+        expect(
+          task.isLeaseExpired(new Date(mockDate.getTime() + leaseDurationMs)),
+        ).toBe(true);
+      });
+
+      it("キュー待機中の場合はfalseを返す", () => {
+        const task = AiTask.create(baseCreateParams);
+
+        expect(task.isLeaseExpired()).toBe(false);
+      });
+    });
+
     describe("toDto", () => {
       it("DTOに変換できる", () => {
         const task = AiTask.create(baseCreateParams);
@@ -210,6 +272,10 @@ describe("AiTask", () => {
         expect(dto.updatedAt).toEqual(mockDate);
         expect(dto.startedAt).toBeNull();
         expect(dto.completedAt).toBeNull();
+        expect(dto.leaseOwner).toBeNull();
+        expect(dto.leaseExpiresAt).toBeNull();
+        expect(dto.deliveryCount).toBe(0);
+        expect(dto.aiApiRetryCount).toBe(0);
         expect(dto.fileMetadata).toEqual([]);
       });
 
@@ -234,7 +300,7 @@ describe("AiTask", () => {
     describe("不変性", () => {
       it("状態遷移後も元のインスタンスは変更されない", () => {
         const task = AiTask.create(baseCreateParams);
-        const processingTask = task.startProcessing();
+        const processingTask = task.startProcessing(workerId, leaseDurationMs);
 
         expect(task.status.value).toBe(AI_TASK_STATUS.QUEUED);
         expect(processingTask.status.value).toBe(AI_TASK_STATUS.PROCESSING);
@@ -242,7 +308,7 @@ describe("AiTask", () => {
 
       it("IDは状態遷移後も同じ", () => {
         const task = AiTask.create(baseCreateParams);
-        const processingTask = task.startProcessing();
+        const processingTask = task.startProcessing(workerId, leaseDurationMs);
         const completedTask = processingTask.completeWithSuccess();
 
         expect(task.id.value).toBe(processingTask.id.value);
@@ -267,23 +333,33 @@ describe("AiTask", () => {
 
       it("processing状態からstartProcessing()でエラーをスローする", () => {
         const task = AiTask.create(baseCreateParams);
-        const processingTask = task.startProcessing();
+        const processingTask = task.startProcessing(workerId, leaseDurationMs);
 
-        expect(() => processingTask.startProcessing()).toThrow();
+        expect(() =>
+          processingTask.startProcessing(workerId, leaseDurationMs),
+        ).toThrow();
       });
 
       it("completed状態からstartProcessing()でエラーをスローする", () => {
         const task = AiTask.create(baseCreateParams);
-        const completedTask = task.startProcessing().completeWithSuccess();
+        const completedTask = task
+          .startProcessing(workerId, leaseDurationMs)
+          .completeWithSuccess();
 
-        expect(() => completedTask.startProcessing()).toThrow();
+        expect(() =>
+          completedTask.startProcessing(workerId, leaseDurationMs),
+        ).toThrow();
       });
 
       it("failed状態からstartProcessing()でエラーをスローする", () => {
         const task = AiTask.create(baseCreateParams);
-        const failedTask = task.startProcessing().failWithError("error");
+        const failedTask = task
+          .startProcessing(workerId, leaseDurationMs)
+          .failWithError("error");
 
-        expect(() => failedTask.startProcessing()).toThrow();
+        expect(() =>
+          failedTask.startProcessing(workerId, leaseDurationMs),
+        ).toThrow();
       });
     });
 
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import { AiTask } from "../AiTask";
+import { AiTaskHistory } from "../AiTaskHistory";
+
+describe("AiTaskHistory", () => {
+  const reviewSpaceId = "550e8400-e29b-41d4-a716-446655440001";
+  const reviewTargetId = "550e8400-e29b-41d4-a716-446655440002";
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-15T10:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const processingTask = (payload: Record<string, unknown>) => {
+    const task = AiTask.create({
+      taskType: "small_review",
+      apiKey: "test-api-key-12345",
+      payload,
+    });
+    // キュー待ち30秒
+    vi.setSystemTime(new Date("2024-01-15T10:00:30Z"));
+    const processing = task.startProcessing("worker-1", 60000);
+    // 実行2分
+    vi.setSystemTime(new Date("2024-01-15T10:02:30Z"));
+    return processing;
+  };
+
+  describe("fromTask", () => {
+    it("完了したタスクからキュー待ち時間・実行時間を算出する", () => {
+      const task = processingTask({
+        reviewSpaceId,
+        reviewTargetId,
+      }).completeWithSuccess();
+
+      const history = AiTaskHistory.fromTask(task);
+
+      expect(history.taskId.value).toBe(task.id.value);
+      expect(history.status.value).toBe("completed");
+      expect(history.reviewSpaceId.value).toBe(reviewSpaceId);
+      expect(history.reviewTargetId?.value).toBe(reviewTargetId);
+      expect(history.waitDurationMs).toBe(30_000);
+      expect(history.executionDurationMs).toBe(120_000);
+    });
+
+    it("レビュー対象を持たないタスクはレビュー対象IDをnullとする", () => {
+      const task = processingTask({ reviewSpaceId }).failWithError("失敗");
+
+      const history = AiTaskHistory.fromTask(task);
+
+      expect(history.reviewTargetId).toBeNull();
+      expect(history.errorMessage).toBe("失敗");
+    });
+
+    it("終了していないタスクは記録できない", () => {
+      const task = processingTask({ reviewSpaceId, reviewTargetId });
+
+      expect(() => AiTaskHistory.fromTask(task)).toThrow();
+    });
+
+    it("ペイロードにレビュースペースIDがない場合はエラー", () => {
+      const task = processingTask({ reviewTargetId }).completeWithSuccess();
+
+      expect(() => AiTaskHistory.fromTask(task)).toThrow();
+    });
+  });
+
+  describe("reconstruct", () => {
+    it("処理開始前に失敗した場合は所要時間をnullとする", () => {
+      const history = AiTaskHistory.reconstruct({
+        taskId: "550e8400-e29b-41d4-a716-446655440003",
+        taskType: "qa_execution",
+        status: "failed",
+        reviewSpaceId,
+        reviewTargetId: null,
+        errorMessage: "失敗",
+        queuedAt: new Date("2024-01-15T10:00:00Z"),
+        startedAt: null,
+        completedAt: new Date("2024-01-15T10:05:00Z"),
+      });
+
+      expect(history.waitDurationMs).toBeNull();
+      expect(history.executionDurationMs).toBeNull();
+    });
+  });
+});
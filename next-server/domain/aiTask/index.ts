@@ -1,5 +1,5 @@
 // エンティティ
-export { AiTask, AI_TASK_TYPE, AI_TASK_STATUS } from "./AiTask";
+export { AiTask, AI_TASK_TYPE, AI_TASK_STATUS, hashApiKey } from "./AiTask";
 export type {
   CreateAiTaskParams,
   ReconstructAiTaskParams,
@@ -14,6 +14,15 @@ export type {
   ProcessMode,
 } from "./AiTaskFileMetadata";
 
+export { AiTaskHistory } from "./AiTaskHistory";
+export type {
+  ReconstructAiTaskHistoryParams,
+  AiTaskHistoryDto,
+} from "./AiTaskHistory";
+
+export { AiTokenUsage } from "./AiTokenUsage";
+export type { CreateAiTokenUsageParams } from "./AiTokenUsage";
+
 // 値オブジェクト
 export { AiTaskId } from "./AiTaskId";
 export { AiTaskFileMetadataId } from "./AiTaskFileMetadataId";
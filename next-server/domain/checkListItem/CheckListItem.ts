@@ -1,6 +1,13 @@
 import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { domainValidationError } from "@/lib/server/error";
 import { CheckListItemId } from "./CheckListItemId";
 import { CheckListItemContent } from "./CheckListItemContent";
+import { CheckListItemCategory } from "./CheckListItemCategory";
+import {
+  CheckListItemSeverity,
+  type CheckListItemSeverityValue,
+} from "./CheckListItemSeverity";
+import { CheckListItemGuidance } from "./CheckListItemGuidance";
 
 /**
  * チェック項目DTO
@@ -10,6 +17,10 @@ export interface CheckListItemDto {
   id: string;
   reviewSpaceId: string;
   content: string;
+  category: string | null;
+  displayOrder: number;
+  severity: CheckListItemSeverityValue;
+  guidance: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -20,6 +31,10 @@ export interface CheckListItemDto {
 export interface CheckListItemListItemDto {
   id: string;
   content: string;
+  category: string | null;
+  displayOrder: number;
+  severity: CheckListItemSeverityValue;
+  guidance: string | null;
 }
 
 /**
@@ -28,6 +43,14 @@ export interface CheckListItemListItemDto {
 export interface CreateCheckListItemParams {
   reviewSpaceId: string;
   content: string;
+  /** カテゴリ（未指定の場合はなし） */
+  category?: string | null;
+  /** 表示順（未指定の場合は0） */
+  displayOrder?: number;
+  /** 重要度（未指定の場合は中） */
+  severity?: string | null;
+  /** レビューガイダンス（未指定の場合はなし） */
+  guidance?: string | null;
 }
 
 /**
@@ -37,6 +60,10 @@ export interface ReconstructCheckListItemParams {
   id: string;
   reviewSpaceId: string;
   content: string;
+  category: string | null;
+  displayOrder: number;
+  severity: string;
+  guidance: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -49,6 +76,10 @@ export class CheckListItem {
   private readonly _id: CheckListItemId;
   private readonly _reviewSpaceId: ReviewSpaceId;
   private readonly _content: CheckListItemContent;
+  private readonly _category: CheckListItemCategory;
+  private readonly _displayOrder: number;
+  private readonly _severity: CheckListItemSeverity;
+  private readonly _guidance: CheckListItemGuidance;
   private readonly _createdAt: Date;
   private readonly _updatedAt: Date;
 
@@ -56,12 +87,20 @@ export class CheckListItem {
     id: CheckListItemId,
     reviewSpaceId: ReviewSpaceId,
     content: CheckListItemContent,
+    category: CheckListItemCategory,
+    displayOrder: number,
+    severity: CheckListItemSeverity,
+    guidance: CheckListItemGuidance,
     createdAt: Date,
     updatedAt: Date,
   ) {
     this._id = id;
     this._reviewSpaceId = reviewSpaceId;
     this._content = content;
+    this._category = category;
+    this._displayOrder = displayOrder;
+    this._severity = severity;
+    this._guidance = guidance;
     this._createdAt = createdAt;
     this._updatedAt = updatedAt;
   }
@@ -71,13 +110,20 @@ export class CheckListItem {
    * @throws ドメインバリデーションエラー - バリデーション失敗時
    */
   static create(params: CreateCheckListItemParams): CheckListItem {
-    const { reviewSpaceId, content } = params;
+    const { reviewSpaceId, content, displayOrder = 0 } = params;
+    CheckListItem.validateDisplayOrder(displayOrder);
     const now = new Date();
 
     return new CheckListItem(
       CheckListItemId.create(),
       ReviewSpaceId.reconstruct(reviewSpaceId),
       CheckListItemContent.create(content),
+      CheckListItemCategory.create(params.category),
+      displayOrder,
+      params.severity
+        ? CheckListItemSeverity.create(params.severity)
+        : CheckListItemSeverity.default(),
+      CheckListItemGuidance.create(params.guidance),
       now,
       now,
     );
@@ -91,11 +137,25 @@ export class CheckListItem {
       CheckListItemId.reconstruct(params.id),
       ReviewSpaceId.reconstruct(params.reviewSpaceId),
       CheckListItemContent.reconstruct(params.content),
+      CheckListItemCategory.reconstruct(params.category),
+      params.displayOrder,
+      CheckListItemSeverity.reconstruct(params.severity),
+      CheckListItemGuidance.reconstruct(params.guidance),
       params.createdAt,
       params.updatedAt,
     );
   }
 
+  /**
+   * 表示順の検証
+   * @throws ドメインバリデーションエラー - 0以上の整数でない場合
+   */
+  private static validateDisplayOrder(displayOrder: number): void {
+    if (!Number.isInteger(displayOrder) || displayOrder < 0) {
+      throw domainValidationError("CHECK_LIST_ITEM_DISPLAY_ORDER_INVALID");
+    }
+  }
+
   /**
    * チェック項目内容を更新する
    * 新しいCheckListItemインスタンスを返す（不変性を保持）
@@ -105,6 +165,10 @@ export class CheckListItem {
       this._id,
       this._reviewSpaceId,
       CheckListItemContent.create(newContent),
+      this._category,
+      this._displayOrder,
+      this._severity,
+      this._guidance,
       this._createdAt,
       new Date(),
     );
@@ -118,6 +182,10 @@ export class CheckListItem {
       id: this._id.value,
       reviewSpaceId: this._reviewSpaceId.value,
       content: this._content.value,
+      category: this._category.value,
+      displayOrder: this._displayOrder,
+      severity: this._severity.value,
+      guidance: this._guidance.value,
       createdAt: this._createdAt,
       updatedAt: this._updatedAt,
     };
@@ -130,6 +198,10 @@ export class CheckListItem {
     return {
       id: this._id.value,
       content: this._content.value,
+      category: this._category.value,
+      displayOrder: this._displayOrder,
+      severity: this._severity.value,
+      guidance: this._guidance.value,
     };
   }
 
@@ -146,6 +218,22 @@ export class CheckListItem {
     return this._content;
   }
 
+  get category(): CheckListItemCategory {
+    return this._category;
+  }
+
+  get displayOrder(): number {
+    return this._displayOrder;
+  }
+
+  get severity(): CheckListItemSeverity {
+    return this._severity;
+  }
+
+  get guidance(): CheckListItemGuidance {
+    return this._guidance;
+  }
+
   get createdAt(): Date {
     return this._createdAt;
   }
@@ -0,0 +1,70 @@
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * チェック項目カテゴリ値オブジェクト
+ * チェック項目の分類（任意、最大100文字）
+ */
+export class CheckListItemCategory {
+  private static readonly MAX_LENGTH = 100;
+  private readonly _value: string | null;
+
+  private constructor(value: string | null) {
+    this._value = value;
+  }
+
+  /**
+   * 新規チェック項目カテゴリを生成する
+   * @throws ドメインバリデーションエラー - 100文字超過の場合
+   */
+  static create(value: string | null | undefined): CheckListItemCategory {
+    const normalizedValue = value?.trim() || null;
+    CheckListItemCategory.validate(normalizedValue);
+    return new CheckListItemCategory(normalizedValue);
+  }
+
+  /**
+   * 既存の文字列から復元する
+   * DBからの復元時に使用（バリデーション済みのため検証なし）
+   */
+  static reconstruct(value: string | null): CheckListItemCategory {
+    return new CheckListItemCategory(value);
+  }
+
+  /**
+   * チェック項目カテゴリの検証
+   * @throws ドメインバリデーションエラー - カテゴリが100文字超過の場合
+   */
+  private static validate(value: string | null): void {
+    if (value && value.length > CheckListItemCategory.MAX_LENGTH) {
+      throw domainValidationError("CHECK_LIST_ITEM_CATEGORY_TOO_LONG");
+    }
+  }
+
+  /**
+   * チェック項目カテゴリを取得
+   */
+  get value(): string | null {
+    return this._value;
+  }
+
+  /**
+   * 値が設定されているか確認
+   */
+  hasValue(): boolean {
+    return this._value !== null;
+  }
+
+  /**
+   * 等価性の比較
+   */
+  equals(other: CheckListItemCategory): boolean {
+    return this._value === other._value;
+  }
+
+  /**
+   * 文字列表現
+   */
+  toString(): string {
+    return this._value ?? "";
+  }
+}
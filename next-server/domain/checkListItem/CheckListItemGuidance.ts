@@ -0,0 +1,70 @@
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * チェック項目レビューガイダンス値オブジェクト
+ * レビュー時の判断基準や具体例などの補足説明（任意、最大2000文字）
+ */
+export class CheckListItemGuidance {
+  private static readonly MAX_LENGTH = 2000;
+  private readonly _value: string | null;
+
+  private constructor(value: string | null) {
+    this._value = value;
+  }
+
+  /**
+   * 新規レビューガイダンスを生成する
+   * @throws ドメインバリデーションエラー - 2000文字超過の場合
+   */
+  static create(value: string | null | undefined): CheckListItemGuidance {
+    const normalizedValue = value?.trim() || null;
+    CheckListItemGuidance.validate(normalizedValue);
+    return new CheckListItemGuidance(normalizedValue);
+  }
+
+  /**
+   * 既存の文字列から復元する
+   * DBからの復元時に使用（バリデーション済みのため検証なし）
+   */
+  static reconstruct(value: string | null): CheckListItemGuidance {
+    return new CheckListItemGuidance(value);
+  }
+
+  /**
+   * レビューガイダンスの検証
+   * @throws ドメインバリデーションエラー - 2000文字超過の場合
+   */
+  private static validate(value: string | null): void {
+    if (value && value.length > CheckListItemGuidance.MAX_LENGTH) {
+      throw domainValidationError("CHECK_LIST_ITEM_GUIDANCE_TOO_LONG");
+    }
+  }
+
+  /**
+   * レビューガイダンスを取得
+   */
+  get value(): string | null {
+    return this._value;
+  }
+
+  /**
+   * 値が設定されているか確認
+   */
+  hasValue(): boolean {
+    return this._value !== null;
+  }
+
+  /**
+   * 等価性の比較
+   */
+  equals(other: CheckListItemGuidance): boolean {
+    return this._value === other._value;
+  }
+
+  /**
+   * 文字列表現
+   */
+  toString(): string {
+    return this._value ?? "";
+  }
+}
@@ -0,0 +1,123 @@
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * チェック項目重要度の有効な値
+ */
+export const CHECK_LIST_ITEM_SEVERITY_VALUES = [
+  "high",
+  "medium",
+  "low",
+] as const;
+export type CheckListItemSeverityValue =
+  (typeof CHECK_LIST_ITEM_SEVERITY_VALUES)[number];
+
+/**
+ * チェック項目重要度の表示ラベル
+ */
+export const CHECK_LIST_ITEM_SEVERITY_LABELS: Record<
+  CheckListItemSeverityValue,
+  string
+> = {
+  high: "高",
+  medium: "中",
+  low: "低",
+};
+
+/**
+ * チェック項目重要度ごとの重み
+ * 値が大きいほど重要度が高い
+ */
+const SEVERITY_WEIGHTS: Record<CheckListItemSeverityValue, number> = {
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+/**
+ * チェック項目重要度値オブジェクト
+ * チェック項目を満たさない場合の影響の大きさを表す
+ */
+export class CheckListItemSeverity {
+  private readonly _value: CheckListItemSeverityValue;
+
+  private constructor(value: CheckListItemSeverityValue) {
+    this._value = value;
+  }
+
+  /**
+   * チェック項目重要度を作成する
+   * 値または表示ラベル（高・中・低）を受け付ける
+   * @throws ドメインバリデーションエラー - 無効な重要度の場合
+   */
+  static create(value: string): CheckListItemSeverity {
+    const normalizedValue = CheckListItemSeverity.normalize(value);
+    if (!normalizedValue) {
+      throw domainValidationError("CHECK_LIST_ITEM_SEVERITY_INVALID");
+    }
+    return new CheckListItemSeverity(normalizedValue);
+  }
+
+  /**
+   * 既存の重要度文字列から復元する（DBから読み込み時など）
+   * バリデーションは行わない（既に保存されているデータは信頼する）
+   */
+  static reconstruct(value: string): CheckListItemSeverity {
+    return new CheckListItemSeverity(value as CheckListItemSeverityValue);
+  }
+
+  /**
+   * 標準の重要度（中）を生成
+   */
+  static default(): CheckListItemSeverity {
+    return new CheckListItemSeverity("medium");
+  }
+
+  /**
+   * 値または表示ラベルを重要度の値に変換する
+   * 該当しない場合はnullを返す
+   */
+  private static normalize(value: string): CheckListItemSeverityValue | null {
+    const trimmed = value.trim().toLowerCase();
+    const matched = CHECK_LIST_ITEM_SEVERITY_VALUES.find(
+      (severity) =>
+        severity === trimmed ||
+        CHECK_LIST_ITEM_SEVERITY_LABELS[severity] === trimmed,
+    );
+    return matched ?? null;
+  }
+
+  /**
+   * 重要度文字列を取得
+   */
+  get value(): CheckListItemSeverityValue {
+    return this._value;
+  }
+
+  /**
+   * 表示ラベルを取得
+   */
+  get label(): string {
+    return CHECK_LIST_ITEM_SEVERITY_LABELS[this._value];
+  }
+
+  /**
+   * 重みを取得（高: 3、中: 2、低: 1）
+   */
+  get weight(): number {
+    return SEVERITY_WEIGHTS[this._value];
+  }
+
+  /**
+   * 等価性の比較
+   */
+  equals(other: CheckListItemSeverity): boolean {
+    return this._value === other._value;
+  }
+
+  /**
+   * 文字列表現
+   */
+  toString(): string {
+    return this._value;
+  }
+}
@@ -35,6 +35,37 @@ describe("CheckListItem", () => {
       });
     });
 
+    describe("create（構造化属性）", () => {
+      it("属性を省略した場合はデフォルト値で生成される", () => {
+        const checkListItem = CheckListItem.create({
+          reviewSpaceId: validReviewSpaceId,
+          content: "テスト項目",
+        });
+
+        expect(checkListItem.category.value).toBeNull();
+        expect(checkListItem.displayOrder).toBe(0);
+        expect(checkListItem.severity.value).toBe("medium");
+        expect(checkListItem.guidance.value).toBeNull();
+      });
+
+      it("カテゴリ・表示順・重要度・ガイダンスを指定して生成できる", () => {
+        const checkListItem = CheckListItem.create({
+          reviewSpaceId: validReviewSpaceId,
+          content: "テスト項目",
+          category: "セキュリティ",
+          displayOrder: 3,
+          severity: "high",
+          guidance: "認証処理の有無を確認する",
+        });
+
+        expect(checkListItem.category.value).toBe("セキュリティ");
+        expect(checkListItem.displayOrder).toBe(3);
+        expect(checkListItem.severity.value).toBe("high");
+        expect(checkListItem.severity.weight).toBe(3);
+        expect(checkListItem.guidance.value).toBe("認証処理の有無を確認する");
+      });
+    });
+
     describe("reconstruct", () => {
       it("DBからチェック項目を復元できる", () => {
         const id = "223e4567-e89b-12d3-a456-426614174001";
@@ -45,6 +76,10 @@ describe("CheckListItem", () => {
           id,
           reviewSpaceId: validReviewSpaceId,
           content: "復元項目",
+          category: null,
+          displayOrder: 0,
+          severity: "medium",
+          guidance: null,
           createdAt,
           updatedAt,
         });
@@ -111,6 +146,10 @@ describe("CheckListItem", () => {
         expect(dto.id).toBe(checkListItem.id.value);
         expect(dto.reviewSpaceId).toBe(validReviewSpaceId);
         expect(dto.content).toBe("DTOテスト");
+        expect(dto.category).toBeNull();
+        expect(dto.displayOrder).toBe(0);
+        expect(dto.severity).toBe("medium");
+        expect(dto.guidance).toBeNull();
         expect(dto.createdAt).toBeInstanceOf(Date);
         expect(dto.updatedAt).toBeInstanceOf(Date);
       });
@@ -150,6 +189,26 @@ describe("CheckListItem", () => {
           }),
         ).toThrow();
       });
+
+      it("負の表示順の場合はエラーをスローする", () => {
+        expect(() =>
+          CheckListItem.create({
+            reviewSpaceId: validReviewSpaceId,
+            content: "テスト",
+            displayOrder: -1,
+          }),
+        ).toThrow();
+      });
+
+      it("不正な重要度の場合はエラーをスローする", () => {
+        expect(() =>
+          CheckListItem.create({
+            reviewSpaceId: validReviewSpaceId,
+            content: "テスト",
+            severity: "critical",
+          }),
+        ).toThrow();
+      });
     });
 
     describe("updateContent", () => {
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { CheckListItemCategory } from "../CheckListItemCategory";
+
+describe("CheckListItemCategory", () => {
+  describe("正常系", () => {
+    describe("create", () => {
+      it("有効な値でカテゴリを生成できる", () => {
+        const category = CheckListItemCategory.create("セキュリティ");
+
+        expect(category.value).toBe("セキュリティ");
+        expect(category.hasValue()).toBe(true);
+      });
+
+      it("前後の空白は除去される", () => {
+        const category = CheckListItemCategory.create("  性能  ");
+
+        expect(category.value).toBe("性能");
+      });
+
+      it("空文字列やnullの場合は未分類として生成される", () => {
+        expect(CheckListItemCategory.create("").value).toBeNull();
+        expect(CheckListItemCategory.create("   ").value).toBeNull();
+        expect(CheckListItemCategory.create(null).hasValue()).toBe(false);
+      });
+
+      it("100文字のカテゴリを生成できる", () => {
+        const category = CheckListItemCategory.create("あ".repeat(100));
+
+        expect(category.value).toHaveLength(100);
+      });
+    });
+  });
+
+  describe("異常系", () => {
+    describe("create", () => {
+      it("100文字を超える場合はエラーをスローする", () => {
+        expect(() => CheckListItemCategory.create("あ".repeat(101))).toThrow();
+      });
+    });
+  });
+});
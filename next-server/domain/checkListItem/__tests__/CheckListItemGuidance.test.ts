@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { CheckListItemGuidance } from "../CheckListItemGuidance";
+
+describe("CheckListItemGuidance", () => {
+  describe("正常系", () => {
+    describe("create", () => {
+      it("有効な値でガイダンスを生成できる", () => {
+        const guidance = CheckListItemGuidance.create(
+          "例: パスワードが平文で保存されていないこと",
+        );
+
+        expect(guidance.value).toBe(
+          "例: パスワードが平文で保存されていないこと",
+        );
+        expect(guidance.hasValue()).toBe(true);
+      });
+
+      it("空文字列やnullの場合はガイダンスなしとして生成される", () => {
+        expect(CheckListItemGuidance.create("").value).toBeNull();
+        expect(CheckListItemGuidance.create(undefined).hasValue()).toBe(false);
+      });
+    });
+  });
+
+  describe("異常系", () => {
+    describe("create", () => {
+      it("2000文字を超える場合はエラーをスローする", () => {
+        expect(() => CheckListItemGuidance.create("あ".repeat(2001))).toThrow();
+      });
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { CheckListItemSeverity } from "../CheckListItemSeverity";
+
+describe("CheckListItemSeverity", () => {
+  describe("正常系", () => {
+    describe("create", () => {
+      it("値から重要度を生成できる", () => {
+        const severity = CheckListItemSeverity.create("high");
+
+        expect(severity.value).toBe("high");
+        expect(severity.label).toBe("高");
+        expect(severity.weight).toBe(3);
+      });
+
+      it("表示ラベルから重要度を生成できる", () => {
+        const severity = CheckListItemSeverity.create("低");
+
+        expect(severity.value).toBe("low");
+        expect(severity.weight).toBe(1);
+      });
+
+      it("前後の空白と大文字小文字を無視して生成できる", () => {
+        const severity = CheckListItemSeverity.create("  Medium ");
+
+        expect(severity.value).toBe("medium");
+      });
+    });
+
+    describe("default", () => {
+      it("デフォルトの重要度は中である", () => {
+        const severity = CheckListItemSeverity.default();
+
+        expect(severity.value).toBe("medium");
+        expect(severity.weight).toBe(2);
+      });
+    });
+
+    describe("equals", () => {
+      it("同じ値を持つCheckListItemSeverityは等しい", () => {
+        const severity1 = CheckListItemSeverity.create("high");
+        const severity2 = CheckListItemSeverity.create("高");
+
+        expect(severity1.equals(severity2)).toBe(true);
+      });
+
+      it("異なる値を持つCheckListItemSeverityは等しくない", () => {
+        const severity1 = CheckListItemSeverity.create("high");
+        const severity2 = CheckListItemSeverity.create("low");
+
+        expect(severity1.equals(severity2)).toBe(false);
+      });
+    });
+  });
+
+  describe("異常系", () => {
+    describe("create", () => {
+      it("未定義の値の場合はエラーをスローする", () => {
+        expect(() => CheckListItemSeverity.create("critical")).toThrow();
+      });
+
+      it("空文字列の場合はエラーをスローする", () => {
+        expect(() => CheckListItemSeverity.create("")).toThrow();
+      });
+    });
+  });
+});
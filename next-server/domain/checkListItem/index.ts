@@ -1,5 +1,13 @@
 export { CheckListItemId } from "./CheckListItemId";
 export { CheckListItemContent } from "./CheckListItemContent";
+export { CheckListItemCategory } from "./CheckListItemCategory";
+export {
+  CheckListItemSeverity,
+  CHECK_LIST_ITEM_SEVERITY_VALUES,
+  CHECK_LIST_ITEM_SEVERITY_LABELS,
+  type CheckListItemSeverityValue,
+} from "./CheckListItemSeverity";
+export { CheckListItemGuidance } from "./CheckListItemGuidance";
 export {
   CheckListItem,
   type CheckListItemDto,
@@ -0,0 +1,300 @@
+import { ProjectId } from "@/domain/project";
+import { domainValidationError } from "@/lib/server/error";
+import { ChecklistTemplateId } from "./ChecklistTemplateId";
+import { ChecklistTemplateVersion } from "./ChecklistTemplateVersion";
+import type { CreateChecklistTemplateItemParams } from "./ChecklistTemplateItem";
+
+/**
+ * チェックリストテンプレートDTO
+ */
+export interface ChecklistTemplateDto {
+  id: string;
+  /** 所属プロジェクトID（nullの場合は全社共通テンプレート） */
+  projectId: string | null;
+  name: string;
+  description: string | null;
+  /** 最新バージョン */
+  latestVersion: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * チェックリストテンプレート作成パラメータ
+ */
+export interface CreateChecklistTemplateParams {
+  projectId: string | null;
+  name: string;
+  description?: string | null;
+  /** 最初のバージョンのチェック項目 */
+  items: CreateChecklistTemplateItemParams[];
+  changeNote?: string | null;
+  publishedBy: string | null;
+}
+
+/**
+ * 新しいバージョンの公開パラメータ
+ */
+export interface PublishChecklistTemplateVersionParams {
+  items: CreateChecklistTemplateItemParams[];
+  changeNote?: string | null;
+  publishedBy: string | null;
+}
+
+/**
+ * チェックリストテンプレート更新パラメータ
+ * 指定した項目のみ更新する
+ */
+export interface UpdateChecklistTemplateParams {
+  name?: string;
+  description?: string | null;
+}
+
+/**
+ * チェックリストテンプレート復元パラメータ（DB復元用）
+ */
+export interface ReconstructChecklistTemplateParams {
+  id: string;
+  projectId: string | null;
+  name: string;
+  description: string | null;
+  latestVersion: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * チェックリストテンプレートエンティティ（集約ルート）
+ * 複数のレビュースペースで再利用する標準チェックリストを表す
+ * - プロジェクトIDがnullの場合は全社共通テンプレート（管理者のみ管理可能）
+ * - チェック項目はバージョンごとのスナップショットとして保持し、変更時は新しいバージョンを公開する
+ */
+export class ChecklistTemplate {
+  private static readonly MAX_NAME_LENGTH = 100;
+  private static readonly MAX_DESCRIPTION_LENGTH = 1000;
+
+  private readonly _id: ChecklistTemplateId;
+  private readonly _projectId: ProjectId | null;
+  private readonly _name: string;
+  private readonly _description: string | null;
+  private readonly _latestVersion: number;
+  private readonly _createdAt: Date;
+  private readonly _updatedAt: Date;
+
+  private constructor(
+    id: ChecklistTemplateId,
+    projectId: ProjectId | null,
+    name: string,
+    description: string | null,
+    latestVersion: number,
+    createdAt: Date,
+    updatedAt: Date,
+  ) {
+    this._id = id;
+    this._projectId = projectId;
+    this._name = name;
+    this._description = description;
+    this._latestVersion = latestVersion;
+    this._createdAt = createdAt;
+    this._updatedAt = updatedAt;
+  }
+
+  /**
+   * 新規テンプレートを作成し、最初のバージョン（v1）を公開する
+   * @throws ドメインバリデーションエラー - バリデーション失敗時
+   */
+  static create(params: CreateChecklistTemplateParams): {
+    template: ChecklistTemplate;
+    version: ChecklistTemplateVersion;
+  } {
+    const name = params.name?.trim() ?? "";
+    ChecklistTemplate.validateName(name);
+    const description = params.description?.trim() || null;
+    ChecklistTemplate.validateDescription(description);
+
+    const now = new Date();
+    const template = new ChecklistTemplate(
+      ChecklistTemplateId.create(),
+      params.projectId ? ProjectId.reconstruct(params.projectId) : null,
+      name,
+      description,
+      1,
+      now,
+      now,
+    );
+    const version = ChecklistTemplateVersion.create({
+      templateId: template.id.value,
+      version: 1,
+      items: params.items,
+      changeNote: params.changeNote,
+      publishedBy: params.publishedBy,
+    });
+
+    return { template, version };
+  }
+
+  /**
+   * DBから取得したデータからテンプレートを復元する
+   */
+  static reconstruct(
+    params: ReconstructChecklistTemplateParams,
+  ): ChecklistTemplate {
+    return new ChecklistTemplate(
+      ChecklistTemplateId.reconstruct(params.id),
+      params.projectId ? ProjectId.reconstruct(params.projectId) : null,
+      params.name,
+      params.description,
+      params.latestVersion,
+      params.createdAt,
+      params.updatedAt,
+    );
+  }
+
+  /**
+   * テンプレート名の検証
+   */
+  private static validateName(name: string): void {
+    if (!name) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_NAME_EMPTY");
+    }
+    if (name.length > ChecklistTemplate.MAX_NAME_LENGTH) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_NAME_TOO_LONG");
+    }
+  }
+
+  /**
+   * テンプレート説明の検証
+   */
+  private static validateDescription(description: string | null): void {
+    if (
+      description &&
+      description.length > ChecklistTemplate.MAX_DESCRIPTION_LENGTH
+    ) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_DESCRIPTION_TOO_LONG");
+    }
+  }
+
+  /**
+   * 新しいバージョンを公開する
+   * 最新バージョンを1つ進めた新しいインスタンスと公開したバージョンを返す（不変性を保持）
+   * @throws ドメインバリデーションエラー - バリデーション失敗時
+   */
+  publishVersion(params: PublishChecklistTemplateVersionParams): {
+    template: ChecklistTemplate;
+    version: ChecklistTemplateVersion;
+  } {
+    const nextVersion = this._latestVersion + 1;
+    const version = ChecklistTemplateVersion.create({
+      templateId: this._id.value,
+      version: nextVersion,
+      items: params.items,
+      changeNote: params.changeNote,
+      publishedBy: params.publishedBy,
+    });
+    const template = new ChecklistTemplate(
+      this._id,
+      this._projectId,
+      this._name,
+      this._description,
+      nextVersion,
+      this._createdAt,
+      new Date(),
+    );
+
+    return { template, version };
+  }
+
+  /**
+   * テンプレート名・説明を更新する
+   * 新しいインスタンスを返す（不変性を保持）
+   * @throws ドメインバリデーションエラー - バリデーション失敗時
+   */
+  update(params: UpdateChecklistTemplateParams): ChecklistTemplate {
+    let name = this._name;
+    if (params.name !== undefined) {
+      name = params.name.trim();
+      ChecklistTemplate.validateName(name);
+    }
+    let description = this._description;
+    if (params.description !== undefined) {
+      description = params.description?.trim() || null;
+      ChecklistTemplate.validateDescription(description);
+    }
+
+    return new ChecklistTemplate(
+      this._id,
+      this._projectId,
+      name,
+      description,
+      this._latestVersion,
+      this._createdAt,
+      new Date(),
+    );
+  }
+
+  /**
+   * 全社共通テンプレートかどうか
+   */
+  isGlobal(): boolean {
+    return this._projectId === null;
+  }
+
+  /**
+   * 指定したプロジェクトで利用できるか
+   * 全社共通テンプレートは全てのプロジェクトで利用できる
+   */
+  isAvailableTo(projectId: string): boolean {
+    return this._projectId === null || this._projectId.value === projectId;
+  }
+
+  /**
+   * 指定したバージョンより新しいバージョンが公開されているか
+   */
+  hasNewerVersionThan(version: number): boolean {
+    return this._latestVersion > version;
+  }
+
+  /**
+   * DTOに変換する
+   */
+  toDto(): ChecklistTemplateDto {
+    return {
+      id: this._id.value,
+      projectId: this._projectId?.value ?? null,
+      name: this._name,
+      description: this._description,
+      latestVersion: this._latestVersion,
+      createdAt: this._createdAt,
+      updatedAt: this._updatedAt,
+    };
+  }
+
+  // ゲッター
+  get id(): ChecklistTemplateId {
+    return this._id;
+  }
+
+  get projectId(): ProjectId | null {
+    return this._projectId;
+  }
+
+  get name(): string {
+    return this._name;
+  }
+
+  get description(): string | null {
+    return this._description;
+  }
+
+  get latestVersion(): number {
+    return this._latestVersion;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this._updatedAt;
+  }
+}
@@ -0,0 +1,147 @@
+import type { ChecklistTemplateItemDto } from "./ChecklistTemplateItem";
+
+/**
+ * 属性が変更されたテンプレート項目
+ */
+export interface ChecklistTemplateItemChangeDto {
+  /** レビュースペースの現在の項目 */
+  before: ChecklistTemplateItemDto;
+  /** テンプレートの最新バージョンの項目 */
+  after: ChecklistTemplateItemDto;
+}
+
+/**
+ * テンプレート差分DTO
+ */
+export interface ChecklistTemplateDiffDto {
+  /** レビュースペースに追加される項目 */
+  added: ChecklistTemplateItemDto[];
+  /** レビュースペースから削除される項目 */
+  removed: ChecklistTemplateItemDto[];
+  /** カテゴリ・重要度・ガイダンスが更新される項目 */
+  changed: ChecklistTemplateItemChangeDto[];
+}
+
+/**
+ * 差分計算パラメータ
+ */
+export interface ComputeChecklistTemplateDiffParams {
+  /** レビュースペースの現在のチェック項目 */
+  currentItems: ChecklistTemplateItemDto[];
+  /** 前回取り込んだバージョンの項目（未リンクの場合は空） */
+  baseItems: ChecklistTemplateItemDto[];
+  /** テンプレートの最新バージョンの項目 */
+  latestItems: ChecklistTemplateItemDto[];
+}
+
+/**
+ * 同一項目か判定するためのキー（チェック項目内容）
+ */
+const toKey = (item: ChecklistTemplateItemDto): string => item.content.trim();
+
+/**
+ * テンプレート差分値オブジェクト
+ * テンプレートの最新バージョンをレビュースペースのチェックリストに取り込む際の変更内容を表す
+ *
+ * 項目はチェック項目内容で対応付ける
+ * - 追加: 最新バージョンにあり、レビュースペースにない項目
+ * - 削除: 前回取り込んだバージョンにあり最新バージョンで削除された項目（レビュースペース独自の項目は削除しない）
+ * - 更新: 両方にあり、カテゴリ・重要度・ガイダンスが異なる項目
+ */
+export class ChecklistTemplateDiff {
+  private readonly _added: ChecklistTemplateItemDto[];
+  private readonly _removed: ChecklistTemplateItemDto[];
+  private readonly _changed: ChecklistTemplateItemChangeDto[];
+
+  private constructor(
+    added: ChecklistTemplateItemDto[],
+    removed: ChecklistTemplateItemDto[],
+    changed: ChecklistTemplateItemChangeDto[],
+  ) {
+    this._added = added;
+    this._removed = removed;
+    this._changed = changed;
+  }
+
+  /**
+   * 差分を計算する
+   */
+  static compute(
+    params: ComputeChecklistTemplateDiffParams,
+  ): ChecklistTemplateDiff {
+    const { currentItems, baseItems, latestItems } = params;
+
+    // 最新バージョンの項目（同一内容の項目が複数ある場合は先頭を採用）
+    const latestByKey = new Map<string, ChecklistTemplateItemDto>();
+    for (const item of latestItems) {
+      if (!latestByKey.has(toKey(item))) {
+        latestByKey.set(toKey(item), item);
+      }
+    }
+    const currentKeys = new Set(currentItems.map(toKey));
+    const baseKeys = new Set(baseItems.map(toKey));
+
+    const added = Array.from(latestByKey.values()).filter(
+      (item) => !currentKeys.has(toKey(item)),
+    );
+    const removed = currentItems.filter(
+      (item) => baseKeys.has(toKey(item)) && !latestByKey.has(toKey(item)),
+    );
+    const changed: ChecklistTemplateItemChangeDto[] = [];
+    for (const item of currentItems) {
+      const latest = latestByKey.get(toKey(item));
+      if (
+        latest &&
+        (latest.category !== item.category ||
+          latest.severity !== item.severity ||
+          latest.guidance !== item.guidance)
+      ) {
+        changed.push({ before: item, after: latest });
+      }
+    }
+
+    return new ChecklistTemplateDiff(added, removed, changed);
+  }
+
+  /**
+   * 差分を適用したチェック項目の一覧を返す
+   * 既存の項目は現在の並び順を維持し、追加される項目は末尾にテンプレートの順序で追加する
+   * @param currentItems 差分計算に使用したレビュースペースの現在のチェック項目
+   */
+  applyTo(
+    currentItems: ChecklistTemplateItemDto[],
+  ): ChecklistTemplateItemDto[] {
+    const removedKeys = new Set(this._removed.map(toKey));
+    const changedByKey = new Map(
+      this._changed.map((change) => [toKey(change.before), change.after]),
+    );
+
+    const kept = currentItems
+      .filter((item) => !removedKeys.has(toKey(item)))
+      .map((item) => changedByKey.get(toKey(item)) ?? item);
+
+    return [...kept, ...this._added];
+  }
+
+  /**
+   * 変更があるか
+   */
+  hasChanges(): boolean {
+    return (
+      this._added.length > 0 ||
+      this._removed.length > 0 ||
+      this._changed.length > 0
+    );
+  }
+
+  /**
+   * DTOに変換する
+   */
+  toDto(): ChecklistTemplateDiffDto {
+    return {
+      added: [...this._added],
+      removed: [...this._removed],
+      changed: [...this._changed],
+    };
+  }
+}
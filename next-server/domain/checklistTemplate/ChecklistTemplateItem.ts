@@ -0,0 +1,123 @@
+import {
+  CheckListItemContent,
+  CheckListItemCategory,
+  CheckListItemSeverity,
+  CheckListItemGuidance,
+  type CheckListItem,
+  type CheckListItemSeverityValue,
+} from "@/domain/checkListItem";
+
+/**
+ * テンプレート項目DTO
+ * テンプレートのバージョンごとに保持するチェック項目の内容
+ */
+export interface ChecklistTemplateItemDto {
+  content: string;
+  category: string | null;
+  severity: CheckListItemSeverityValue;
+  guidance: string | null;
+}
+
+/**
+ * テンプレート項目作成パラメータ
+ */
+export interface CreateChecklistTemplateItemParams {
+  content: string;
+  category?: string | null;
+  severity?: string | null;
+  guidance?: string | null;
+}
+
+/**
+ * テンプレート項目値オブジェクト
+ * チェック項目と同じ検証ルールで内容・カテゴリ・重要度・ガイダンスを保持する
+ * テンプレート項目は並び順（配列の順序）とチェック項目内容で識別する
+ */
+export class ChecklistTemplateItem {
+  private readonly _content: CheckListItemContent;
+  private readonly _category: CheckListItemCategory;
+  private readonly _severity: CheckListItemSeverity;
+  private readonly _guidance: CheckListItemGuidance;
+
+  private constructor(
+    content: CheckListItemContent,
+    category: CheckListItemCategory,
+    severity: CheckListItemSeverity,
+    guidance: CheckListItemGuidance,
+  ) {
+    this._content = content;
+    this._category = category;
+    this._severity = severity;
+    this._guidance = guidance;
+  }
+
+  /**
+   * 新規テンプレート項目を作成する
+   * @throws ドメインバリデーションエラー - バリデーション失敗時
+   */
+  static create(
+    params: CreateChecklistTemplateItemParams,
+  ): ChecklistTemplateItem {
+    return new ChecklistTemplateItem(
+      CheckListItemContent.create(params.content),
+      CheckListItemCategory.create(params.category),
+      params.severity
+        ? CheckListItemSeverity.create(params.severity)
+        : CheckListItemSeverity.default(),
+      CheckListItemGuidance.create(params.guidance),
+    );
+  }
+
+  /**
+   * DBに保存されたJSONから復元する
+   */
+  static reconstruct(dto: ChecklistTemplateItemDto): ChecklistTemplateItem {
+    return new ChecklistTemplateItem(
+      CheckListItemContent.reconstruct(dto.content),
+      CheckListItemCategory.reconstruct(dto.category),
+      CheckListItemSeverity.reconstruct(dto.severity),
+      CheckListItemGuidance.reconstruct(dto.guidance),
+    );
+  }
+
+  /**
+   * レビュースペースのチェック項目から作成する
+   */
+  static fromCheckListItem(item: CheckListItem): ChecklistTemplateItem {
+    return new ChecklistTemplateItem(
+      item.content,
+      item.category,
+      item.severity,
+      item.guidance,
+    );
+  }
+
+  /**
+   * DTOに変換する
+   */
+  toDto(): ChecklistTemplateItemDto {
+    return {
+      content: this._content.value,
+      category: this._category.value,
+      severity: this._severity.value,
+      guidance: this._guidance.value,
+    };
+  }
+
+  // ゲッター
+  get content(): CheckListItemContent {
+    return this._content;
+  }
+
+  get category(): CheckListItemCategory {
+    return this._category;
+  }
+
+  get severity(): CheckListItemSeverity {
+    return this._severity;
+  }
+
+  get guidance(): CheckListItemGuidance {
+    return this._guidance;
+  }
+}
@@ -0,0 +1,186 @@
+import { UserId } from "@/domain/user";
+import { domainValidationError } from "@/lib/server/error";
+import { ChecklistTemplateId } from "./ChecklistTemplateId";
+import {
+  ChecklistTemplateItem,
+  type ChecklistTemplateItemDto,
+  type CreateChecklistTemplateItemParams,
+} from "./ChecklistTemplateItem";
+
+/**
+ * テンプレートバージョンDTO
+ */
+export interface ChecklistTemplateVersionDto {
+  templateId: string;
+  version: number;
+  items: ChecklistTemplateItemDto[];
+  /** 変更内容のメモ */
+  changeNote: string | null;
+  /** 公開したユーザーID（ユーザー削除後はnull） */
+  publishedBy: string | null;
+  createdAt: Date;
+}
+
+/**
+ * テンプレートバージョン一覧用DTO（項目を含まない）
+ */
+export interface ChecklistTemplateVersionSummaryDto {
+  version: number;
+  itemCount: number;
+  changeNote: string | null;
+  publishedBy: string | null;
+  createdAt: Date;
+}
+
+/**
+ * テンプレートバージョン作成パラメータ
+ */
+export interface CreateChecklistTemplateVersionParams {
+  templateId: string;
+  version: number;
+  items: CreateChecklistTemplateItemParams[];
+  changeNote?: string | null;
+  publishedBy: string | null;
+}
+
+/**
+ * テンプレートバージョン復元パラメータ（DB復元用）
+ */
+export interface ReconstructChecklistTemplateVersionParams {
+  templateId: string;
+  version: number;
+  items: ChecklistTemplateItemDto[];
+  changeNote: string | null;
+  publishedBy: string | null;
+  createdAt: Date;
+}
+
+/**
+ * テンプレートバージョンエンティティ
+ * 公開時点のチェック項目のスナップショットを保持する（公開後は変更しない）
+ */
+export class ChecklistTemplateVersion {
+  private static readonly MAX_CHANGE_NOTE_LENGTH = 1000;
+
+  private readonly _templateId: ChecklistTemplateId;
+  private readonly _version: number;
+  private readonly _items: ChecklistTemplateItem[];
+  private readonly _changeNote: string | null;
+  private readonly _publishedBy: UserId | null;
+  private readonly _createdAt: Date;
+
+  private constructor(
+    templateId: ChecklistTemplateId,
+    version: number,
+    items: ChecklistTemplateItem[],
+    changeNote: string | null,
+    publishedBy: UserId | null,
+    createdAt: Date,
+  ) {
+    this._templateId = templateId;
+    this._version = version;
+    this._items = items;
+    this._changeNote = changeNote;
+    this._publishedBy = publishedBy;
+    this._createdAt = createdAt;
+  }
+
+  /**
+   * 新規バージョンを作成する
+   * @throws ドメインバリデーションエラー - バリデーション失敗時
+   */
+  static create(
+    params: CreateChecklistTemplateVersionParams,
+  ): ChecklistTemplateVersion {
+    if (!Number.isInteger(params.version) || params.version < 1) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_VERSION_INVALID");
+    }
+    if (params.items.length === 0) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_ITEMS_EMPTY");
+    }
+    const changeNote = params.changeNote?.trim() || null;
+    if (
+      changeNote &&
+      changeNote.length > ChecklistTemplateVersion.MAX_CHANGE_NOTE_LENGTH
+    ) {
+      throw domainValidationError("CHECKLIST_TEMPLATE_CHANGE_NOTE_TOO_LONG");
+    }
+
+    return new ChecklistTemplateVersion(
+      ChecklistTemplateId.reconstruct(params.templateId),
+      params.version,
+      params.items.map((item) => ChecklistTemplateItem.create(item)),
+      changeNote,
+      params.publishedBy ? UserId.reconstruct(params.publishedBy) : null,
+      new Date(),
+    );
+  }
+
+  /**
+   * DBから取得したデータからバージョンを復元する
+   */
+  static reconstruct(
+    params: ReconstructChecklistTemplateVersionParams,
+  ): ChecklistTemplateVersion {
+    return new ChecklistTemplateVersion(
+      ChecklistTemplateId.reconstruct(params.templateId),
+      params.version,
+      params.items.map((item) => ChecklistTemplateItem.reconstruct(item)),
+      params.changeNote,
+      params.publishedBy ? UserId.reconstruct(params.publishedBy) : null,
+      params.createdAt,
+    );
+  }
+
+  /**
+   * DTOに変換する
+   */
+  toDto(): ChecklistTemplateVersionDto {
+    return {
+      templateId: this._templateId.value,
+      version: this._version,
+      items: this._items.map((item) => item.toDto()),
+      changeNote: this._changeNote,
+      publishedBy: this._publishedBy?.value ?? null,
+      createdAt: this._createdAt,
+    };
+  }
+
+  /**
+   * 一覧用DTOに変換する
+   */
+  toSummaryDto(): ChecklistTemplateVersionSummaryDto {
+    return {
+      version: this._version,
+      itemCount: this._items.length,
+      changeNote: this._changeNote,
+      publishedBy: this._publishedBy?.value ?? null,
+      createdAt: this._createdAt,
+    };
+  }
+
+  // ゲッター
+  get templateId(): ChecklistTemplateId {
+    return this._templateId;
+  }
+
+  get version(): number {
+    return this._version;
+  }
+
+  get items(): ChecklistTemplateItem[] {
+    return [...this._items];
+  }
+
+  get changeNote(): string | null {
+    return this._changeNote;
+  }
+
+  get publishedBy(): UserId | null {
+    return this._publishedBy;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+}
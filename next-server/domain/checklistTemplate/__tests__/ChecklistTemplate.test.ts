@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import { ChecklistTemplate } from "../index";
+
+describe("ChecklistTemplate", () => {
+  // テスト用データ（有効なUUID v4形式）
+  const testProjectId = "550e8400-e29b-41d4-a716-446655440001";
+  const otherProjectId = "550e8400-e29b-41d4-a716-446655440002";
+  const testUserId = "550e8400-e29b-41d4-a716-446655440003";
+
+  const createTemplate = (projectId: string | null = testProjectId) =>
+    ChecklistTemplate.create({
+      projectId,
+      name: "  設計書標準  ",
+      description: "設計書レビューの標準チェックリスト",
+      items: [
+        { content: "認証方式が記載されているか", severity: "high" },
+        { content: "用語が統一されているか", category: "表記" },
+      ],
+      changeNote: "初版",
+      publishedBy: testUserId,
+    });
+
+  describe("create", () => {
+    it("テンプレートと最初のバージョン（v1）を作成する", () => {
+      const { template, version } = createTemplate();
+
+      expect(template.name).toBe("設計書標準");
+      expect(template.latestVersion).toBe(1);
+      expect(version.templateId.equals(template.id)).toBe(true);
+      expect(version.version).toBe(1);
+      expect(version.changeNote).toBe("初版");
+      expect(version.publishedBy?.value).toBe(testUserId);
+      expect(version.toDto().items).toEqual([
+        {
+          content: "認証方式が記載されているか",
+          category: null,
+          severity: "high",
+          guidance: null,
+        },
+        {
+          content: "用語が統一されているか",
+          category: "表記",
+          severity: "medium",
+          guidance: null,
+        },
+      ]);
+    });
+
+    it("名前が空の場合はエラー", () => {
+      expect(() =>
+        ChecklistTemplate.create({
+          projectId: testProjectId,
+          name: "  ",
+          items: [{ content: "項目" }],
+          publishedBy: testUserId,
+        }),
+      ).toThrow();
+    });
+
+    it("名前が100文字を超える場合はエラー", () => {
+      expect(() =>
+        ChecklistTemplate.create({
+          projectId: testProjectId,
+          name: "あ".repeat(101),
+          items: [{ content: "項目" }],
+          publishedBy: testUserId,
+        }),
+      ).toThrow();
+    });
+
+    it("チェック項目がない場合はエラー", () => {
+      expect(() =>
+        ChecklistTemplate.create({
+          projectId: testProjectId,
+          name: "空のテンプレート",
+          items: [],
+          publishedBy: testUserId,
+        }),
+      ).toThrow();
+    });
+
+    it("不正な重要度の項目がある場合はエラー", () => {
+      expect(() =>
+        ChecklistTemplate.create({
+          projectId: testProjectId,
+          name: "テンプレート",
+          items: [{ content: "項目", severity: "critical" }],
+          publishedBy: testUserId,
+        }),
+      ).toThrow();
+    });
+  });
+
+  describe("publishVersion", () => {
+    it("最新バージョンを1つ進めた新しいバージョンを公開する", () => {
+      const { template } = createTemplate();
+
+      const { template: published, version } = template.publishVersion({
+        items: [{ content: "新しい項目" }],
+        publishedBy: null,
+      });
+
+      expect(published.latestVersion).toBe(2);
+      expect(version.version).toBe(2);
+      expect(version.publishedBy).toBeNull();
+      expect(template.latestVersion).toBe(1);
+      expect(published.hasNewerVersionThan(1)).toBe(true);
+      expect(published.hasNewerVersionThan(2)).toBe(false);
+    });
+  });
+
+  describe("update", () => {
+    it("指定した項目のみ更新する", () => {
+      const { template } = createTemplate();
+
+      const updated = template.update({ description: null });
+
+      expect(updated.name).toBe("設計書標準");
+      expect(updated.description).toBeNull();
+      expect(updated.latestVersion).toBe(1);
+    });
+  });
+
+  describe("isAvailableTo", () => {
+    it("プロジェクトのテンプレートは所属プロジェクトでのみ利用できる", () => {
+      const { template } = createTemplate();
+
+      expect(template.isGlobal()).toBe(false);
+      expect(template.isAvailableTo(testProjectId)).toBe(true);
+      expect(template.isAvailableTo(otherProjectId)).toBe(false);
+    });
+
+    it("全社共通テンプレートは全てのプロジェクトで利用できる", () => {
+      const { template } = createTemplate(null);
+
+      expect(template.isGlobal()).toBe(true);
+      expect(template.isAvailableTo(otherProjectId)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { ChecklistTemplateDiff, type ChecklistTemplateItemDto } from "../index";
+
+/**
+ * テスト用の項目を作成する
+ */
+const item = (
+  content: string,
+  attributes: Partial<Omit<ChecklistTemplateItemDto, "content">> = {},
+): ChecklistTemplateItemDto => ({
+  content,
+  category: null,
+  severity: "medium",
+  guidance: null,
+  ...attributes,
+});
+
+describe("ChecklistTemplateDiff", () => {
+  describe("compute", () => {
+    it("未リンクの場合はテンプレートの項目を追加し、既存の項目は削除しない", () => {
+      const diff = ChecklistTemplateDiff.compute({
+        currentItems: [item("独自の項目"), item("共通の項目")],
+        baseItems: [],
+        latestItems: [item("共通の項目"), item("テンプレートの項目")],
+      });
+
+      expect(diff.toDto()).toEqual({
+        added: [item("テンプレートの項目")],
+        removed: [],
+        changed: [],
+      });
+      expect(diff.hasChanges()).toBe(true);
+    });
+
+    it("前回取り込んだバージョンから削除された項目のみ削除する", () => {
+      const diff = ChecklistTemplateDiff.compute({
+        currentItems: [
+          item("残る項目"),
+          item("削除された項目"),
+          item("独自の項目"),
+        ],
+        baseItems: [item("残る項目"), item("削除された項目")],
+        latestItems: [item("残る項目")],
+      });
+
+      expect(diff.toDto().removed).toEqual([item("削除された項目")]);
+    });
+
+    it("カテゴリ・重要度・ガイダンスが異なる項目を更新対象とする", () => {
+      const diff = ChecklistTemplateDiff.compute({
+        currentItems: [item("項目A"), item("項目B")],
+        baseItems: [item("項目A"), item("項目B")],
+        latestItems: [
+          item("項目A", { severity: "high", guidance: "根拠を確認する" }),
+          item("項目B"),
+        ],
+      });
+
+      expect(diff.toDto().changed).toEqual([
+        {
+          before: item("項目A"),
+          after: item("項目A", {
+            severity: "high",
+            guidance: "根拠を確認する",
+          }),
+        },
+      ]);
+    });
+
+    it("前後の空白の違いは同一項目として扱う", () => {
+      const diff = ChecklistTemplateDiff.compute({
+        currentItems: [item("項目A ")],
+        baseItems: [item("項目A")],
+        latestItems: [item("項目A")],
+      });
+
+      expect(diff.hasChanges()).toBe(false);
+    });
+  });
+
+  describe("applyTo", () => {
+    it("既存項目の並び順を維持し、追加項目を末尾に追加する", () => {
+      const currentItems = [
+        item("独自の項目"),
+        item("削除された項目"),
+        item("更新される項目"),
+      ];
+      const diff = ChecklistTemplateDiff.compute({
+        currentItems,
+        baseItems: [item("削除された項目"), item("更新される項目")],
+        latestItems: [
+          item("追加された項目"),
+          item("更新される項目", { category: "セキュリティ" }),
+        ],
+      });
+
+      expect(diff.applyTo(currentItems)).toEqual([
+        item("独自の項目"),
+        item("更新される項目", { category: "セキュリティ" }),
+        item("追加された項目"),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,27 @@
+export { ChecklistTemplateId } from "./ChecklistTemplateId";
+export {
+  ChecklistTemplateItem,
+  type ChecklistTemplateItemDto,
+  type CreateChecklistTemplateItemParams,
+} from "./ChecklistTemplateItem";
+export {
+  ChecklistTemplateVersion,
+  type ChecklistTemplateVersionDto,
+  type ChecklistTemplateVersionSummaryDto,
+  type CreateChecklistTemplateVersionParams,
+  type ReconstructChecklistTemplateVersionParams,
+} from "./ChecklistTemplateVersion";
+export {
+  ChecklistTemplate,
+  type ChecklistTemplateDto,
+  type CreateChecklistTemplateParams,
+  type PublishChecklistTemplateVersionParams,
+  type UpdateChecklistTemplateParams,
+  type ReconstructChecklistTemplateParams,
+} from "./ChecklistTemplate";
+export {
+  ChecklistTemplateDiff,
+  type ChecklistTemplateDiffDto,
+  type ChecklistTemplateItemChangeDto,
+  type ComputeChecklistTemplateDiffParams,
+} from "./ChecklistTemplateDiff";
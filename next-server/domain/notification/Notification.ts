@@ -0,0 +1,257 @@
+import { UserId } from "@/domain/user";
+import { ProjectId } from "@/domain/project";
+import { domainValidationError } from "@/lib/server/error";
+import { NotificationId } from "./NotificationId";
+import { NotificationType, NotificationTypeValue } from "./NotificationType";
+
+/**
+ * 通知DTO
+ * アプリケーション層への出力用
+ */
+export interface NotificationDto {
+  id: string;
+  userId: string;
+  projectId: string;
+  type: NotificationTypeValue;
+  title: string;
+  message: string;
+  linkUrl: string | null;
+  isRead: boolean;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * 通知作成用パラメータ
+ */
+export interface CreateNotificationParams {
+  userId: string;
+  projectId: string;
+  type: string;
+  title: string;
+  message: string;
+  linkUrl?: string | null;
+}
+
+/**
+ * 通知復元用パラメータ（DB復元用）
+ */
+export interface ReconstructNotificationParams {
+  id: string;
+  userId: string;
+  projectId: string;
+  type: string;
+  title: string;
+  message: string;
+  linkUrl: string | null;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+/** タイトルの最大長 */
+const MAX_TITLE_LENGTH = 255;
+
+/** メッセージの最大長 */
+const MAX_MESSAGE_LENGTH = 2000;
+
+/**
+ * 通知エンティティ
+ * 長時間タスクの完了・失敗を受信者（プロジェクトメンバー）ごとに保持する
+ */
+export class Notification {
+  private readonly _id: NotificationId;
+  private readonly _userId: UserId;
+  private readonly _projectId: ProjectId;
+  private readonly _type: NotificationType;
+  private readonly _title: string;
+  private readonly _message: string;
+  private readonly _linkUrl: string | null;
+  private readonly _readAt: Date | null;
+  private readonly _createdAt: Date;
+
+  private constructor(
+    id: NotificationId,
+    userId: UserId,
+    projectId: ProjectId,
+    type: NotificationType,
+    title: string,
+    message: string,
+    linkUrl: string | null,
+    readAt: Date | null,
+    createdAt: Date,
+  ) {
+    this._id = id;
+    this._userId = userId;
+    this._projectId = projectId;
+    this._type = type;
+    this._title = title;
+    this._message = message;
+    this._linkUrl = linkUrl;
+    this._readAt = readAt;
+    this._createdAt = createdAt;
+  }
+
+  /**
+   * 新規通知を作成する
+   * @throws ドメインバリデーションエラー - バリデーション失敗時
+   */
+  static create(params: CreateNotificationParams): Notification {
+    const { userId, projectId, type, title, message, linkUrl = null } = params;
+
+    // バリデーション
+    Notification.validateTitle(title);
+    Notification.validateMessage(message);
+
+    return new Notification(
+      NotificationId.create(),
+      UserId.reconstruct(userId),
+      ProjectId.reconstruct(projectId),
+      NotificationType.create(type),
+      title.trim(),
+      message.trim(),
+      linkUrl,
+      null,
+      new Date(),
+    );
+  }
+
+  /**
+   * DBから取得したデータから通知を復元する
+   */
+  static reconstruct(params: ReconstructNotificationParams): Notification {
+    const {
+      id,
+      userId,
+      projectId,
+      type,
+      title,
+      message,
+      linkUrl,
+      readAt,
+      createdAt,
+    } = params;
+
+    return new Notification(
+      NotificationId.reconstruct(id),
+      UserId.reconstruct(userId),
+      ProjectId.reconstruct(projectId),
+      NotificationType.reconstruct(type),
+      title,
+      message,
+      linkUrl,
+      readAt,
+      createdAt,
+    );
+  }
+
+  /**
+   * タイトルのバリデーション
+   * @throws ドメインバリデーションエラー - タイトルが不正な場合
+   */
+  private static validateTitle(title: string): void {
+    if (!title || !title.trim()) {
+      throw domainValidationError("NOTIFICATION_TITLE_EMPTY");
+    }
+    if (title.length > MAX_TITLE_LENGTH) {
+      throw domainValidationError("NOTIFICATION_TITLE_TOO_LONG");
+    }
+  }
+
+  /**
+   * メッセージのバリデーション
+   * @throws ドメインバリデーションエラー - メッセージが長すぎる場合
+   */
+  private static validateMessage(message: string): void {
+    if (message.length > MAX_MESSAGE_LENGTH) {
+      throw domainValidationError("NOTIFICATION_MESSAGE_TOO_LONG");
+    }
+  }
+
+  /**
+   * 既読にする
+   * 既読済みの場合は既読日時を維持する
+   * 新しいインスタンスを返す（不変性を保持）
+   */
+  markAsRead(): Notification {
+    if (this._readAt) {
+      return this;
+    }
+    return new Notification(
+      this._id,
+      this._userId,
+      this._projectId,
+      this._type,
+      this._title,
+      this._message,
+      this._linkUrl,
+      new Date(),
+      this._createdAt,
+    );
+  }
+
+  /**
+   * 指定ユーザー宛の通知かどうか
+   */
+  isAddressedTo(userId: string): boolean {
+    return this._userId.value === userId;
+  }
+
+  /**
+   * DTOに変換する
+   */
+  toDto(): NotificationDto {
+    return {
+      id: this._id.value,
+      userId: this._userId.value,
+      projectId: this._projectId.value,
+      type: this._type.value,
+      title: this._title,
+      message: this._message,
+      linkUrl: this._linkUrl,
+      isRead: this.isRead,
+      readAt: this._readAt,
+      createdAt: this._createdAt,
+    };
+  }
+
+  // ゲッター
+  get id(): NotificationId {
+    return this._id;
+  }
+
+  get userId(): UserId {
+    return this._userId;
+  }
+
+  get projectId(): ProjectId {
+    return this._projectId;
+  }
+
+  get type(): NotificationType {
+    return this._type;
+  }
+
+  get title(): string {
+    return this._title;
+  }
+
+  get message(): string {
+    return this._message;
+  }
+
+  get linkUrl(): string | null {
+    return this._linkUrl;
+  }
+
+  get readAt(): Date | null {
+    return this._readAt;
+  }
+
+  get isRead(): boolean {
+    return this._readAt !== null;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+}
@@ -0,0 +1,100 @@
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * 通知種別定数
+ */
+export const NOTIFICATION_TYPE = {
+  /** レビュー完了 */
+  REVIEW_COMPLETED: "review_completed",
+  /** レビュー失敗 */
+  REVIEW_FAILED: "review_failed",
+  /** リトライレビュー完了 */
+  RETRY_COMPLETED: "retry_completed",
+  /** リトライレビュー失敗 */
+  RETRY_FAILED: "retry_failed",
+  /** チェックリスト生成完了 */
+  CHECKLIST_GENERATION_COMPLETED: "checklist_generation_completed",
+  /** チェックリスト生成失敗 */
+  CHECKLIST_GENERATION_FAILED: "checklist_generation_failed",
+} as const;
+
+export type NotificationTypeValue =
+  (typeof NOTIFICATION_TYPE)[keyof typeof NOTIFICATION_TYPE];
+
+/**
+ * 失敗を表す通知種別
+ */
+const FAILURE_TYPES: readonly NotificationTypeValue[] = [
+  NOTIFICATION_TYPE.REVIEW_FAILED,
+  NOTIFICATION_TYPE.RETRY_FAILED,
+  NOTIFICATION_TYPE.CHECKLIST_GENERATION_FAILED,
+];
+
+/**
+ * 通知種別値オブジェクト
+ * どの長時間タスクがどう終了したかを表す
+ */
+export class NotificationType {
+  private readonly _value: NotificationTypeValue;
+
+  private constructor(value: NotificationTypeValue) {
+    this._value = value;
+  }
+
+  /**
+   * 新規通知種別を生成する
+   * @throws ドメインバリデーションエラー - 通知種別が不正な場合
+   */
+  static create(value: string): NotificationType {
+    NotificationType.validate(value);
+    return new NotificationType(value as NotificationTypeValue);
+  }
+
+  /**
+   * 既存の通知種別文字列から復元する
+   * @throws ドメインバリデーションエラー - 通知種別が不正な場合
+   */
+  static reconstruct(value: string): NotificationType {
+    NotificationType.validate(value);
+    return new NotificationType(value as NotificationTypeValue);
+  }
+
+  /**
+   * 通知種別値の検証
+   * @throws ドメインバリデーションエラー - 通知種別が不正な場合
+   */
+  private static validate(value: string): void {
+    const validValues = Object.values(NOTIFICATION_TYPE);
+    if (!validValues.includes(value as NotificationTypeValue)) {
+      throw domainValidationError("NOTIFICATION_TYPE_INVALID");
+    }
+  }
+
+  /**
+   * 通知種別値を取得
+   */
+  get value(): NotificationTypeValue {
+    return this._value;
+  }
+
+  /**
+   * タスクの失敗を表す通知かどうか
+   */
+  isFailure(): boolean {
+    return FAILURE_TYPES.includes(this._value);
+  }
+
+  /**
+   * 等価性の比較
+   */
+  equals(other: NotificationType): boolean {
+    return this._value === other._value;
+  }
+
+  /**
+   * 文字列表現
+   */
+  toString(): string {
+    return this._value;
+  }
+}
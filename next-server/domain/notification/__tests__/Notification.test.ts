@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { Notification } from "../Notification";
+
+describe("Notification", () => {
+  // テスト用の固定日時
+  const fixedDate = new Date("2024-01-01T00:00:00.000Z");
+
+  // テスト用データ（有効なUUID v4形式）
+  const testUserId = "550e8400-e29b-41d4-a716-446655440001";
+  const testProjectId = "550e8400-e29b-41d4-a716-446655440002";
+  const testNotificationId = "550e8400-e29b-41d4-a716-446655440003";
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(fixedDate);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("create", () => {
+    it("有効なデータで未読の通知を作成できる", () => {
+      const notification = Notification.create({
+        userId: testUserId,
+        projectId: testProjectId,
+        type: "review_completed",
+        title: "  レビューが完了しました  ",
+        message: "設計書.docx",
+        linkUrl: "/projects/p/spaces/s/review/t",
+      });
+
+      expect(notification.id.value).toBeDefined();
+      expect(notification.userId.value).toBe(testUserId);
+      expect(notification.projectId.value).toBe(testProjectId);
+      expect(notification.type.value).toBe("review_completed");
+      expect(notification.title).toBe("レビューが完了しました");
+      expect(notification.linkUrl).toBe("/projects/p/spaces/s/review/t");
+      expect(notification.isRead).toBe(false);
+      expect(notification.readAt).toBeNull();
+      expect(notification.createdAt).toEqual(fixedDate);
+    });
+
+    it("リンクURLを省略した場合はnullになる", () => {
+      const notification = Notification.create({
+        userId: testUserId,
+        projectId: testProjectId,
+        type: "checklist_generation_failed",
+        title: "チェックリスト生成に失敗しました",
+        message: "",
+      });
+
+      expect(notification.linkUrl).toBeNull();
+      expect(notification.type.isFailure()).toBe(true);
+    });
+
+    it("タイトルが空の場合はエラーをスローする", () => {
+      expect(() =>
+        Notification.create({
+          userId: testUserId,
+          projectId: testProjectId,
+          type: "review_completed",
+          title: "   ",
+          message: "",
+        }),
+      ).toThrow();
+    });
+
+    it("不正な通知種別の場合はエラーをスローする", () => {
+      expect(() =>
+        Notification.create({
+          userId: testUserId,
+          projectId: testProjectId,
+          type: "unknown",
+          title: "タイトル",
+          message: "",
+        }),
+      ).toThrow();
+    });
+
+    it("メッセージが長すぎる場合はエラーをスローする", () => {
+      expect(() =>
+        Notification.create({
+          userId: testUserId,
+          projectId: testProjectId,
+          type: "review_failed",
+          title: "タイトル",
+          message: "a".repeat(2001),
+        }),
+      ).toThrow();
+    });
+  });
+
+  describe("markAsRead", () => {
+    const createUnread = () =>
+      Notification.reconstruct({
+        id: testNotificationId,
+        userId: testUserId,
+        projectId: testProjectId,
+        type: "retry_completed",
+        title: "リトライレビューが完了しました",
+        message: "設計書.docx",
+        linkUrl: null,
+        readAt: null,
+        createdAt: fixedDate,
+      });
+
+    it("既読日時が設定された新しいインスタンスを返す", () => {
+      const unread = createUnread();
+      const readDate = new Date("2024-01-02T00:00:00.000Z");
+      vi.setSystemTime(readDate);
+
+      const read = unread.markAsRead();
+
+      expect(read).not.toBe(unread);
+      expect(read.isRead).toBe(true);
+      expect(read.readAt).toEqual(readDate);
+      expect(unread.isRead).toBe(false);
+    });
+
+    it("既読済みの場合は既読日時を維持する", () => {
+      const read = createUnread().markAsRead();
+      vi.setSystemTime(new Date("2024-02-01T00:00:00.000Z"));
+
+      expect(read.markAsRead().readAt).toEqual(fixedDate);
+    });
+  });
+
+  describe("isAddressedTo", () => {
+    it("受信者のユーザーIDと一致する場合のみtrueを返す", () => {
+      const notification = Notification.create({
+        userId: testUserId,
+        projectId: testProjectId,
+        type: "review_completed",
+        title: "レビューが完了しました",
+        message: "",
+      });
+
+      expect(notification.isAddressedTo(testUserId)).toBe(true);
+      expect(
+        notification.isAddressedTo("550e8400-e29b-41d4-a716-446655440099"),
+      ).toBe(false);
+    });
+  });
+
+  describe("toDto", () => {
+    it("DTOに変換できる", () => {
+      const dto = Notification.reconstruct({
+        id: testNotificationId,
+        userId: testUserId,
+        projectId: testProjectId,
+        type: "review_failed",
+        title: "レビューに失敗しました",
+        message: "APIエラー",
+        linkUrl: "/projects/p",
+        readAt: fixedDate,
+        createdAt: fixedDate,
+      }).toDto();
+
+      expect(dto).toEqual({
+        id: testNotificationId,
+        userId: testUserId,
+        projectId: testProjectId,
+        type: "review_failed",
+        title: "レビューに失敗しました",
+        message: "APIエラー",
+        linkUrl: "/projects/p",
+        isRead: true,
+        readAt: fixedDate,
+        createdAt: fixedDate,
+      });
+    });
+  });
+});
@@ -0,0 +1,13 @@
+export {
+  Notification,
+  type NotificationDto,
+  type CreateNotificationParams,
+  type ReconstructNotificationParams,
+} from "./Notification";
+
+export { NotificationId } from "./NotificationId";
+export {
+  NotificationType,
+  NOTIFICATION_TYPE,
+  type NotificationTypeValue,
+} from "./NotificationType";
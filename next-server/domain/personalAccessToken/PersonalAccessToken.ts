@@ -0,0 +1,268 @@
+import { createHash, randomBytes } from "crypto";
+import { UserId } from "@/domain/user";
+import { ProjectId } from "@/domain/project";
+import { domainValidationError } from "@/lib/server/error";
+import { PersonalAccessTokenId } from "./PersonalAccessTokenId";
+
+/**
+ * パーソナルアクセストークンDTO
+ * アプリケーション層への出力用
+ */
+export interface PersonalAccessTokenDto {
+  id: string;
+  userId: string;
+  name: string;
+  tokenHash: string;
+  /** 一覧で識別するためのトークン先頭文字列 */
+  tokenPrefix: string;
+  /** アクセスを許可するプロジェクトID一覧 */
+  projectIds: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * パーソナルアクセストークン作成用パラメータ
+ */
+export interface CreatePersonalAccessTokenParams {
+  userId: string;
+  name: string;
+  projectIds: string[];
+  /** 有効期限（nullの場合は無期限） */
+  expiresAt?: Date | null;
+}
+
+/**
+ * パーソナルアクセストークン復元用パラメータ（DB復元用）
+ */
+export interface ReconstructPersonalAccessTokenParams {
+  id: string;
+  userId: string;
+  name: string;
+  tokenHash: string;
+  tokenPrefix: string;
+  projectIds: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+/** トークン名の最大長 */
+const MAX_NAME_LENGTH = 100;
+
+/** トークン文字列の接頭辞（漏洩時にトークンと判別しやすくするため） */
+export const PERSONAL_ACCESS_TOKEN_PREFIX = "rvw_";
+
+/** 一覧表示用に保持するトークン先頭の文字数 */
+const TOKEN_PREFIX_LENGTH = 12;
+
+/**
+ * トークン文字列をSHA-256でハッシュ化する
+ */
+export function hashPersonalAccessToken(rawToken: string): string {
+  return createHash("sha256").update(rawToken).digest("hex");
+}
+
+/**
+ * パーソナルアクセストークンエンティティ
+ * CIなどの外部システムからREST APIを呼び出すためのユーザー単位のトークン
+ * トークン文字列はハッシュのみを保持し、アクセス可能なプロジェクトを限定する
+ */
+export class PersonalAccessToken {
+  private readonly _id: PersonalAccessTokenId;
+  private readonly _userId: UserId;
+  private readonly _name: string;
+  private readonly _tokenHash: string;
+  private readonly _tokenPrefix: string;
+  private readonly _projectIds: ProjectId[];
+  private readonly _expiresAt: Date | null;
+  private readonly _lastUsedAt: Date | null;
+  private readonly _createdAt: Date;
+
+  private constructor(
+    id: PersonalAccessTokenId,
+    userId: UserId,
+    name: string,
+    tokenHash: string,
+    tokenPrefix: string,
+    projectIds: ProjectId[],
+    expiresAt: Date | null,
+    lastUsedAt: Date | null,
+    createdAt: Date,
+  ) {
+    this._id = id;
+    this._userId = userId;
+    this._name = name;
+    this._tokenHash = tokenHash;
+    this._tokenPrefix = tokenPrefix;
+    this._projectIds = projectIds;
+    this._expiresAt = expiresAt;
+    this._lastUsedAt = lastUsedAt;
+    this._createdAt = createdAt;
+  }
+
+  /**
+   * 新規トークンを発行する
+   * トークン文字列は発行時にのみ返却し、エンティティにはハッシュのみを保持する
+   * @throws ドメインバリデーションエラー - バリデーション失敗時
+   */
+  static create(params: CreatePersonalAccessTokenParams): {
+    personalAccessToken: PersonalAccessToken;
+    rawToken: string;
+  } {
+    const { userId, name, projectIds, expiresAt = null } = params;
+    const now = new Date();
+
+    // バリデーション
+    PersonalAccessToken.validateName(name);
+    if (projectIds.length === 0) {
+      throw domainValidationError("PERSONAL_ACCESS_TOKEN_PROJECTS_EMPTY");
+    }
+    if (expiresAt && expiresAt.getTime() <= now.getTime()) {
+      throw domainValidationError("PERSONAL_ACCESS_TOKEN_EXPIRES_AT_INVALID");
+    }
+
+    const rawToken = `${PERSONAL_ACCESS_TOKEN_PREFIX}${randomBytes(30).toString("base64url")}`;
+    const personalAccessToken = new PersonalAccessToken(
+      PersonalAccessTokenId.create(),
+      UserId.reconstruct(userId),
+      name.trim(),
+      hashPersonalAccessToken(rawToken),
+      rawToken.slice(0, TOKEN_PREFIX_LENGTH),
+      [...new Set(projectIds)].map((id) => ProjectId.reconstruct(id)),
+      expiresAt,
+      null,
+      now,
+    );
+
+    return { personalAccessToken, rawToken };
+  }
+
+  /**
+   * DBから取得したデータからトークンを復元する
+   */
+  static reconstruct(
+    params: ReconstructPersonalAccessTokenParams,
+  ): PersonalAccessToken {
+    return new PersonalAccessToken(
+      PersonalAccessTokenId.reconstruct(params.id),
+      UserId.reconstruct(params.userId),
+      params.name,
+      params.tokenHash,
+      params.tokenPrefix,
+      params.projectIds.map((id) => ProjectId.reconstruct(id)),
+      params.expiresAt,
+      params.lastUsedAt,
+      params.createdAt,
+    );
+  }
+
+  /**
+   * トークン名のバリデーション
+   * @throws ドメインバリデーションエラー - トークン名が不正な場合
+   */
+  private static validateName(name: string): void {
+    if (!name || !name.trim()) {
+      throw domainValidationError("PERSONAL_ACCESS_TOKEN_NAME_EMPTY");
+    }
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      throw domainValidationError("PERSONAL_ACCESS_TOKEN_NAME_TOO_LONG");
+    }
+  }
+
+  /**
+   * 使用日時を記録する
+   * 新しいインスタンスを返す（不変性を保持）
+   */
+  markAsUsed(usedAt: Date = new Date()): PersonalAccessToken {
+    return new PersonalAccessToken(
+      this._id,
+      this._userId,
+      this._name,
+      this._tokenHash,
+      this._tokenPrefix,
+      this._projectIds,
+      this._expiresAt,
+      usedAt,
+      this._createdAt,
+    );
+  }
+
+  /**
+   * 指定ユーザーが発行したトークンかどうか
+   */
+  isOwnedBy(userId: string): boolean {
+    return this._userId.value === userId;
+  }
+
+  /**
+   * 有効期限切れかどうか
+   */
+  isExpired(now: Date = new Date()): boolean {
+    return (
+      this._expiresAt !== null && this._expiresAt.getTime() <= now.getTime()
+    );
+  }
+
+  /**
+   * 指定プロジェクトへのアクセスが許可されているかどうか
+   */
+  canAccessProject(projectId: string): boolean {
+    return this._projectIds.some((id) => id.value === projectId);
+  }
+
+  /**
+   * DTOに変換する
+   */
+  toDto(): PersonalAccessTokenDto {
+    return {
+      id: this._id.value,
+      userId: this._userId.value,
+      name: this._name,
+      tokenHash: this._tokenHash,
+      tokenPrefix: this._tokenPrefix,
+      projectIds: this._projectIds.map((id) => id.value),
+      expiresAt: this._expiresAt,
+      lastUsedAt: this._lastUsedAt,
+      createdAt: this._createdAt,
+    };
+  }
+
+  // ゲッター
+  get id(): PersonalAccessTokenId {
+    return this._id;
+  }
+
+  get userId(): UserId {
+    return this._userId;
+  }
+
+  get name(): string {
+    return this._name;
+  }
+
+  get tokenHash(): string {
+    return this._tokenHash;
+  }
+
+  get tokenPrefix(): string {
+    return this._tokenPrefix;
+  }
+
+  get projectIds(): ProjectId[] {
+    return this._projectIds;
+  }
+
+  get expiresAt(): Date | null {
+    return this._expiresAt;
+  }
+
+  get lastUsedAt(): Date | null {
+    return this._lastUsedAt;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+}
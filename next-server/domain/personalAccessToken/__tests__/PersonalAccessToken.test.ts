@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  PersonalAccessToken,
+  PERSONAL_ACCESS_TOKEN_PREFIX,
+  hashPersonalAccessToken,
+} from "../PersonalAccessToken";
+
+describe("PersonalAccessToken", () => {
+  // テスト用の固定日時
+  const fixedDate = new Date("2024-01-01T00:00:00.000Z");
+
+  // テスト用データ（有効なUUID v4形式）
+  const testUserId = "550e8400-e29b-41d4-a716-446655440001";
+  const testProjectId = "550e8400-e29b-41d4-a716-446655440002";
+  const otherProjectId = "550e8400-e29b-41d4-a716-446655440003";
+  const testTokenId = "550e8400-e29b-41d4-a716-446655440004";
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(fixedDate);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const reconstructToken = (expiresAt: Date | null = null) =>
+    PersonalAccessToken.reconstruct({
+      id: testTokenId,
+      userId: testUserId,
+      name: "CI",
+      tokenHash: "hash",
+      tokenPrefix: "rvw_abcdefgh",
+      projectIds: [testProjectId],
+      expiresAt,
+      lastUsedAt: null,
+      createdAt: fixedDate,
+    });
+
+  describe("create", () => {
+    it("トークン文字列を発行し、ハッシュのみを保持する", () => {
+      const { personalAccessToken, rawToken } = PersonalAccessToken.create({
+        userId: testUserId,
+        name: "  CIパイプライン  ",
+        projectIds: [testProjectId, testProjectId, otherProjectId],
+      });
+
+      expect(rawToken.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)).toBe(true);
+      expect(personalAccessToken.name).toBe("CIパイプライン");
+      expect(personalAccessToken.tokenHash).toBe(
+        hashPersonalAccessToken(rawToken),
+      );
+      expect(personalAccessToken.tokenHash).not.toContain(rawToken);
+      expect(rawToken.startsWith(personalAccessToken.tokenPrefix)).toBe(true);
+      expect(personalAccessToken.toDto().projectIds).toEqual([
+        testProjectId,
+        otherProjectId,
+      ]);
+      expect(personalAccessToken.expiresAt).toBeNull();
+      expect(personalAccessToken.lastUsedAt).toBeNull();
+      expect(personalAccessToken.createdAt).toEqual(fixedDate);
+    });
+
+    it("発行ごとに異なるトークン文字列を生成する", () => {
+      const params = {
+        userId: testUserId,
+        name: "CI",
+        projectIds: [testProjectId],
+      };
+      const first = PersonalAccessToken.create(params);
+      const second = PersonalAccessToken.create(params);
+
+      expect(first.rawToken).not.toBe(second.rawToken);
+    });
+
+    it("トークン名が空の場合はエラーをスローする", () => {
+      expect(() =>
+        PersonalAccessToken.create({
+          userId: testUserId,
+          name: "   ",
+          projectIds: [testProjectId],
+        }),
+      ).toThrow(
+        expect.objectContaining({
+          messageCode: "PERSONAL_ACCESS_TOKEN_NAME_EMPTY",
+        }),
+      );
+    });
+
+    it("トークン名が長すぎる場合はエラーをスローする", () => {
+      expect(() =>
+        PersonalAccessToken.create({
+          userId: testUserId,
+          name: "a".repeat(101),
+          projectIds: [testProjectId],
+        }),
+      ).toThrow(
+        expect.objectContaining({
+          messageCode: "PERSONAL_ACCESS_TOKEN_NAME_TOO_LONG",
+        }),
+      );
+    });
+
+    it("プロジェクトが指定されていない場合はエラーをスローする", () => {
+      expect(() =>
+        PersonalAccessToken.create({
+          userId: testUserId,
+          name: "CI",
+          projectIds: [],
+        }),
+      ).toThrow(
+        expect.objectContaining({
+          messageCode: "PERSONAL_ACCESS_TOKEN_PROJECTS_EMPTY",
+        }),
+      );
+    });
+
+    it("有効期限が過去の場合はエラーをスローする", () => {
+      expect(() =>
+        PersonalAccessToken.create({
+          userId: testUserId,
+          name: "CI",
+          projectIds: [testProjectId],
+          expiresAt: new Date("2023-12-31T00:00:00.000Z"),
+        }),
+      ).toThrow(
+        expect.objectContaining({
+          messageCode: "PERSONAL_ACCESS_TOKEN_EXPIRES_AT_INVALID",
+        }),
+      );
+    });
+  });
+
+  describe("isExpired", () => {
+    it("有効期限が未設定の場合は期限切れにならない", () => {
+      expect(reconstructToken().isExpired()).toBe(false);
+    });
+
+    it("有効期限を過ぎた場合は期限切れになる", () => {
+      const token = reconstructToken(new Date("2024-01-02T00:00:00.000Z"));
+
+      expect(token.isExpired()).toBe(false);
+      expect(token.isExpired(new Date("2024-01-02T00:00:00.000Z"))).toBe(true);
+    });
+  });
+
+  describe("canAccessProject / isOwnedBy", () => {
+    it("許可されたプロジェクトのみアクセスできる", () => {
+      const token = reconstructToken();
+
+      expect(token.canAccessProject(testProjectId)).toBe(true);
+      expect(token.canAccessProject(otherProjectId)).toBe(false);
+    });
+
+    it("発行したユーザーを判定できる", () => {
+      const token = reconstructToken();
+
+      expect(token.isOwnedBy(testUserId)).toBe(true);
+      expect(token.isOwnedBy(testProjectId)).toBe(false);
+    });
+  });
+
+  describe("markAsUsed", () => {
+    it("使用日時を記録した新しいインスタンスを返す", () => {
+      const token = reconstructToken();
+      const usedAt = new Date("2024-01-01T12:00:00.000Z");
+
+      const used = token.markAsUsed(usedAt);
+
+      expect(used.lastUsedAt).toEqual(usedAt);
+      expect(token.lastUsedAt).toBeNull();
+    });
+  });
+});
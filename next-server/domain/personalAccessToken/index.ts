@@ -0,0 +1,10 @@
+export {
+  PersonalAccessToken,
+  PERSONAL_ACCESS_TOKEN_PREFIX,
+  hashPersonalAccessToken,
+  type PersonalAccessTokenDto,
+  type CreatePersonalAccessTokenParams,
+  type ReconstructPersonalAccessTokenParams,
+} from "./PersonalAccessToken";
+
+export { PersonalAccessTokenId } from "./PersonalAccessTokenId";
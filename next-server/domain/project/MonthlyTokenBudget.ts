@@ -0,0 +1,82 @@
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * 月間トークン上限値オブジェクト
+ * プロジェクトが1か月（暦月）に使用できるAIトークン数の上限を表現
+ * 未設定（null）の場合は上限なし
+ */
+export class MonthlyTokenBudget {
+  private readonly _value: number | null;
+
+  private constructor(value: number | null) {
+    this._value = value;
+  }
+
+  /**
+   * 新規月間トークン上限を作成する
+   * @throws ドメインバリデーションエラー - 1以上の整数でない場合
+   */
+  static create(value: number | null | undefined): MonthlyTokenBudget {
+    const budget = value ?? null;
+    if (budget !== null && (!Number.isInteger(budget) || budget < 1)) {
+      throw domainValidationError("PROJECT_MONTHLY_TOKEN_BUDGET_INVALID");
+    }
+    return new MonthlyTokenBudget(budget);
+  }
+
+  /**
+   * DBから復元する
+   */
+  static reconstruct(value: number | null | undefined): MonthlyTokenBudget {
+    return new MonthlyTokenBudget(value ?? null);
+  }
+
+  /**
+   * 上限なしの月間トークン上限を作成する
+   */
+  static unlimited(): MonthlyTokenBudget {
+    return new MonthlyTokenBudget(null);
+  }
+
+  /**
+   * 集計期間（指定日時を含む暦月）の開始日時を返す
+   * 暦月はサーバーのタイムゾーンで判定する
+   */
+  static periodStart(now: Date = new Date()): Date {
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  }
+
+  /**
+   * 集計期間（指定日時を含む暦月）の終了日時（翌月の開始日時）を返す
+   */
+  static periodEnd(now: Date = new Date()): Date {
+    return new Date(now.getFullYear(), now.getMonth() + 1, 1);
+  }
+
+  /**
+   * 集計期間（指定日時を含む暦月）のキー（YYYY-MM）を返す
+   */
+  static periodKey(now: Date = new Date()): string {
+    const month = String(now.getMonth() + 1).padStart(2, "0");
+    return `${now.getFullYear()}-${month}`;
+  }
+
+  /**
+   * 上限が設定されているかどうか
+   */
+  isLimited(): boolean {
+    return this._value !== null;
+  }
+
+  /**
+   * 指定した使用量で上限に達しているかどうか
+   * @param usedTokens 今月の使用トークン数
+   */
+  isExceededBy(usedTokens: number): boolean {
+    return this._value !== null && usedTokens >= this._value;
+  }
+
+  get value(): number | null {
+    return this._value;
+  }
+}
@@ -3,7 +3,22 @@ import { ProjectId } from "./ProjectId";
 import { ProjectName } from "./ProjectName";
 import { ProjectDescription } from "./ProjectDescription";
 import { EncryptedApiKey } from "./EncryptedApiKey";
+import {
+  AiApiRateLimit,
+  type AiApiRateLimitDto,
+} from "@/domain/system-setting/AiApiRateLimit";
+import {
+  AiModelAssignments,
+  type AiModelAssignmentDto,
+  type AiModelAssignmentsDto,
+} from "@/domain/system-setting/AiModelAssignments";
+import { MonthlyTokenBudget } from "./MonthlyTokenBudget";
 import { ProjectMember } from "./ProjectMember";
+import {
+  type ProjectMemberRoleValue,
+  type ProjectPermission,
+  ProjectMemberRole,
+} from "./ProjectMemberRole";
 import { domainValidationError } from "@/lib/server/error";
 
 /**
@@ -15,6 +30,12 @@ export interface ProjectDto {
   name: string;
   description: string | null;
   hasApiKey: boolean;
+  /** プロジェクト単位のAI APIレート制限（未設定の項目はシステム設定を使用） */
+  aiApiRateLimit: AiApiRateLimitDto;
+  /** 1か月あたりのAIトークン使用量の上限（nullの場合は上限なし） */
+  monthlyTokenBudget: number | null;
+  /** エージェント別モデル割り当て（割り当てのないエージェントはシステム設定を使用） */
+  aiModelAssignments: AiModelAssignmentsDto;
   members: ProjectMemberDto[];
   createdAt: Date;
   updatedAt: Date;
@@ -27,6 +48,7 @@ export interface ProjectMemberDto {
   userId: string;
   employeeId: string;
   displayName: string;
+  role: ProjectMemberRoleValue;
   createdAt: Date;
 }
 
@@ -59,6 +81,16 @@ export interface ProjectListItemDto {
   updatedAt: string;
 }
 
+/**
+ * プロジェクトメンバー指定
+ * 作成・メンバー同期時の入力として使用
+ */
+export interface ProjectMemberInput {
+  userId: string;
+  /** ロール（省略時は既存メンバーなら現在のロール、新規メンバーなら編集者） */
+  role?: string;
+}
+
 /**
  * プロジェクト作成パラメータ
  */
@@ -66,7 +98,9 @@ export interface CreateProjectParams {
   name: string;
   description?: string | null;
   apiKey?: string | null;
-  memberIds: string[];
+  aiApiRateLimit?: Partial<AiApiRateLimitDto>;
+  monthlyTokenBudget?: number | null;
+  members: ProjectMemberInput[];
 }
 
 /**
@@ -77,7 +111,15 @@ export interface ReconstructProjectParams {
   name: string;
   description: string | null;
   encryptedApiKey: string | null;
-  members: { userId: string; createdAt: Date }[];
+  /** 1分あたりの最大リクエスト数（未指定の場合は上書きなし） */
+  rateLimitRequestsPerMinute?: number | null;
+  /** 1分あたりの最大トークン数（未指定の場合は上書きなし） */
+  rateLimitTokensPerMinute?: number | null;
+  /** 1か月あたりのAIトークン使用量の上限（未指定の場合は上限なし） */
+  monthlyTokenBudget?: number | null;
+  /** エージェント別モデル割り当て（未指定の場合は割り当てなし） */
+  aiModelAssignments?: AiModelAssignmentsDto | null;
+  members: { userId: string; role: string; createdAt: Date }[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -91,6 +133,9 @@ export class Project {
   private readonly _name: ProjectName;
   private readonly _description: ProjectDescription;
   private readonly _encryptedApiKey: EncryptedApiKey;
+  private readonly _aiApiRateLimit: AiApiRateLimit;
+  private readonly _monthlyTokenBudget: MonthlyTokenBudget;
+  private readonly _aiModelAssignments: AiModelAssignments;
   private readonly _members: ProjectMember[];
   private readonly _createdAt: Date;
   private readonly _updatedAt: Date;
@@ -100,6 +145,9 @@ export class Project {
     name: ProjectName,
     description: ProjectDescription,
     encryptedApiKey: EncryptedApiKey,
+    aiApiRateLimit: AiApiRateLimit,
+    monthlyTokenBudget: MonthlyTokenBudget,
+    aiModelAssignments: AiModelAssignments,
     members: ProjectMember[],
     createdAt: Date,
     updatedAt: Date,
@@ -108,6 +156,9 @@ export class Project {
     this._name = name;
     this._description = description;
     this._encryptedApiKey = encryptedApiKey;
+    this._aiApiRateLimit = aiApiRateLimit;
+    this._monthlyTokenBudget = monthlyTokenBudget;
+    this._aiModelAssignments = aiModelAssignments;
     this._members = members;
     this._createdAt = createdAt;
     this._updatedAt = updatedAt;
@@ -118,21 +169,30 @@ export class Project {
    * @throws ドメインバリデーションエラー - バリデーション失敗時
    */
   static create(params: CreateProjectParams): Project {
-    const { name, description, apiKey, memberIds } = params;
+    const { name, description, apiKey, aiApiRateLimit, monthlyTokenBudget } =
+      params;
 
     // メンバーが1人以上必要
-    if (!memberIds || memberIds.length === 0) {
+    if (!params.members || params.members.length === 0) {
       throw domainValidationError("PROJECT_MEMBER_REQUIRED");
     }
 
     const now = new Date();
-    const members = memberIds.map((userId) => ProjectMember.create({ userId }));
+    const members = params.members.map((m) =>
+      ProjectMember.create({ userId: m.userId, role: m.role }),
+    );
+    Project.assertHasOwner(members);
 
     return new Project(
       ProjectId.create(),
       ProjectName.create(name),
       ProjectDescription.create(description),
       EncryptedApiKey.fromPlainText(apiKey),
+      aiApiRateLimit
+        ? AiApiRateLimit.create(aiApiRateLimit)
+        : AiApiRateLimit.unlimited(),
+      MonthlyTokenBudget.create(monthlyTokenBudget),
+      AiModelAssignments.empty(),
       members,
       now,
       now,
@@ -146,6 +206,7 @@ export class Project {
     const members = params.members.map((m) =>
       ProjectMember.reconstruct({
         userId: m.userId,
+        role: m.role,
         createdAt: m.createdAt,
       }),
     );
@@ -155,6 +216,12 @@ export class Project {
       ProjectName.reconstruct(params.name),
       ProjectDescription.reconstruct(params.description),
       EncryptedApiKey.reconstruct(params.encryptedApiKey),
+      AiApiRateLimit.reconstruct({
+        requestsPerMinute: params.rateLimitRequestsPerMinute,
+        tokensPerMinute: params.rateLimitTokensPerMinute,
+      }),
+      MonthlyTokenBudget.reconstruct(params.monthlyTokenBudget),
+      AiModelAssignments.reconstruct(params.aiModelAssignments),
       members,
       params.createdAt,
       params.updatedAt,
@@ -171,6 +238,9 @@ export class Project {
       ProjectName.create(newName),
       this._description,
       this._encryptedApiKey,
+      this._aiApiRateLimit,
+      this._monthlyTokenBudget,
+      this._aiModelAssignments,
       this._members,
       this._createdAt,
       new Date(),
@@ -187,6 +257,9 @@ export class Project {
       this._name,
       ProjectDescription.create(newDescription),
       this._encryptedApiKey,
+      this._aiApiRateLimit,
+      this._monthlyTokenBudget,
+      this._aiModelAssignments,
       this._members,
       this._createdAt,
       new Date(),
@@ -203,6 +276,72 @@ export class Project {
       this._name,
       this._description,
       EncryptedApiKey.fromPlainText(newApiKey),
+      this._aiApiRateLimit,
+      this._monthlyTokenBudget,
+      this._aiModelAssignments,
+      this._members,
+      this._createdAt,
+      new Date(),
+    );
+  }
+
+  /**
+   * AI APIレート制限を更新する
+   * 新しいProjectインスタンスを返す（不変性を保持）
+   * @throws ドメインバリデーションエラー - 1以上の整数でない場合
+   */
+  updateAiApiRateLimit(rateLimit: Partial<AiApiRateLimitDto>): Project {
+    return new Project(
+      this._id,
+      this._name,
+      this._description,
+      this._encryptedApiKey,
+      AiApiRateLimit.create(rateLimit),
+      this._monthlyTokenBudget,
+      this._aiModelAssignments,
+      this._members,
+      this._createdAt,
+      new Date(),
+    );
+  }
+
+  /**
+   * 月間トークン上限を更新する
+   * 新しいProjectインスタンスを返す（不変性を保持）
+   * @throws ドメインバリデーションエラー - 1以上の整数でない場合
+   */
+  updateMonthlyTokenBudget(budget: number | null): Project {
+    return new Project(
+      this._id,
+      this._name,
+      this._description,
+      this._encryptedApiKey,
+      this._aiApiRateLimit,
+      MonthlyTokenBudget.create(budget),
+      this._aiModelAssignments,
+      this._members,
+      this._createdAt,
+      new Date(),
+    );
+  }
+
+  /**
+   * エージェント別モデル割り当てを更新する
+   * 新しいProjectインスタンスを返す（不変性を保持）
+   * プロバイダーの存在確認はAI API設定の解決時に行う
+   * @throws ドメインバリデーションエラー - 割り当てが不正な場合
+   */
+  updateAiModelAssignments(
+    assignments: Record<string, AiModelAssignmentDto | undefined>,
+  ): Project {
+    return new Project(
+      this._id,
+      this._name,
+      this._description,
+      this._encryptedApiKey,
+      this._aiApiRateLimit,
+      this._monthlyTokenBudget,
+      AiModelAssignments.create(assignments),
       this._members,
       this._createdAt,
       new Date(),
@@ -211,17 +350,16 @@ export class Project {
 
   /**
    * メンバーを追加する
+   * @param role ロール（省略時は編集者）
    * @throws ドメインバリデーションエラー - 既に存在する場合
    */
-  addMember(userId: string): Project {
-    const userIdVo = UserId.reconstruct(userId);
-
+  addMember(userId: string, role?: string): Project {
     // 既にメンバーかどうか確認
     if (this.hasMember(userId)) {
       throw domainValidationError("PROJECT_MEMBER_ALREADY_EXISTS");
     }
 
-    const newMember = ProjectMember.create({ userId });
+    const newMember = ProjectMember.create({ userId, role });
     const newMembers = [...this._members, newMember];
 
     return new Project(
@@ -229,6 +367,9 @@ export class Project {
       this._name,
       this._description,
       this._encryptedApiKey,
+      this._aiApiRateLimit,
+      this._monthlyTokenBudget,
+      this._aiModelAssignments,
       newMembers,
       this._createdAt,
       new Date(),
@@ -237,7 +378,7 @@ export class Project {
 
   /**
    * メンバーを削除する
-   * @throws ドメインバリデーションエラー - メンバーが見つからない場合、または最後の1人の場合
+   * @throws ドメインバリデーションエラー - メンバーが見つからない場合、最後の1人の場合、またはオーナーがいなくなる場合
    */
   removeMember(userId: string): Project {
     const userIdVo = UserId.reconstruct(userId);
@@ -253,12 +394,16 @@ export class Project {
     }
 
     const newMembers = this._members.filter((m) => !m.hasUserId(userIdVo));
+    Project.assertHasOwner(newMembers);
 
     return new Project(
       this._id,
       this._name,
       this._description,
       this._encryptedApiKey,
+      this._aiApiRateLimit,
+      this._monthlyTokenBudget,
+      this._aiModelAssignments,
       newMembers,
       this._createdAt,
       new Date(),
@@ -266,11 +411,11 @@ export class Project {
   }
 
   /**
-   * メンバーリストを同期する（追加・削除を一括で行う）
-   * @throws ドメインバリデーションエラー - メンバーが空の場合
+   * メンバーリストを同期する（追加・削除・ロール変更を一括で行う）
+   * @throws ドメインバリデーションエラー - メンバーが空の場合、またはオーナーがいなくなる場合
    */
-  syncMembers(memberIds: string[]): Project {
-    if (!memberIds || memberIds.length === 0) {
+  syncMembers(members: ProjectMemberInput[]): Project {
+    if (!members || members.length === 0) {
       throw domainValidationError("PROJECT_MEMBER_REQUIRED");
     }
 
@@ -281,19 +426,25 @@ export class Project {
     }
 
     // 新しいメンバーリストを作成
-    const newMembers = memberIds.map((userId) => {
+    const newMembers = members.map(({ userId, role }) => {
       const existing = existingMembersMap.get(userId);
       if (existing) {
-        return existing;
+        return role && role !== existing.role.value
+          ? existing.changeRole(role)
+          : existing;
       }
-      return ProjectMember.create({ userId });
+      return ProjectMember.create({ userId, role });
     });
+    Project.assertHasOwner(newMembers);
 
     return new Project(
       this._id,
       this._name,
       this._description,
       this._encryptedApiKey,
+      this._aiApiRateLimit,
+      this._monthlyTokenBudget,
+      this._aiModelAssignments,
       newMembers,
       this._createdAt,
       new Date(),
@@ -308,6 +459,33 @@ export class Project {
     return this._members.some((m) => m.hasUserId(userIdVo));
   }
 
+  /**
+   * 指定ユーザのロールを取得する
+   * @returns メンバーでない場合はnull
+   */
+  getMemberRole(userId: string): ProjectMemberRole | null {
+    const userIdVo = UserId.reconstruct(userId);
+    return this._members.find((m) => m.hasUserId(userIdVo))?.role ?? null;
+  }
+
+  /**
+   * 指定ユーザが権限を持つか確認
+   * メンバーでない場合は常にfalse
+   */
+  hasPermission(userId: string, permission: ProjectPermission): boolean {
+    return this.getMemberRole(userId)?.can(permission) ?? false;
+  }
+
+  /**
+   * オーナーが1人以上いることを検証する
+   * @throws ドメインバリデーションエラー - オーナーがいない場合
+   */
+  private static assertHasOwner(members: ProjectMember[]): void {
+    if (!members.some((m) => m.role.isOwner())) {
+      throw domainValidationError("PROJECT_OWNER_REQUIRED");
+    }
+  }
+
   /**
    * DTOに変換する
    * @param userInfoMap ユーザIDとユーザ情報（displayName, employeeId）のマップ
@@ -322,12 +500,16 @@ export class Project {
       name: this._name.value,
       description: this._description.value,
       hasApiKey: this._encryptedApiKey.hasValue(),
+      aiApiRateLimit: this._aiApiRateLimit.toDto(),
+      monthlyTokenBudget: this._monthlyTokenBudget.value,
+      aiModelAssignments: this._aiModelAssignments.toDto(),
       members: this._members.map((m) => {
         const userInfo = userInfoMap.get(m.userId.value) ?? defaultUserInfo;
         return {
           userId: m.userId.value,
           employeeId: userInfo.employeeId,
           displayName: userInfo.displayName,
+          role: m.role.value,
           createdAt: m.createdAt,
         };
       }),
@@ -375,6 +557,18 @@ export class Project {
     return this._encryptedApiKey;
   }
 
+  get aiApiRateLimit(): AiApiRateLimit {
+    return this._aiApiRateLimit;
+  }
+
+  get monthlyTokenBudget(): MonthlyTokenBudget {
+    return this._monthlyTokenBudget;
+  }
+
+  get aiModelAssignments(): AiModelAssignments {
+    return this._aiModelAssignments;
+  }
+
   get members(): ProjectMember[] {
     return [...this._members];
   }
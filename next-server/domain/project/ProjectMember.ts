@@ -1,10 +1,13 @@
 import { UserId } from "@/domain/user";
+import { ProjectMemberRole } from "./ProjectMemberRole";
 
 /**
  * プロジェクトメンバー作成パラメータ
  */
 export interface CreateProjectMemberParams {
   userId: string;
+  /** ロール（省略時は編集者） */
+  role?: string;
 }
 
 /**
@@ -12,6 +15,7 @@ export interface CreateProjectMemberParams {
  */
 export interface ReconstructProjectMemberParams {
   userId: string;
+  role: string;
   createdAt: Date;
 }
 
@@ -21,10 +25,16 @@ export interface ReconstructProjectMemberParams {
  */
 export class ProjectMember {
   private readonly _userId: UserId;
+  private readonly _role: ProjectMemberRole;
   private readonly _createdAt: Date;
 
-  private constructor(userId: UserId, createdAt: Date) {
+  private constructor(
+    userId: UserId,
+    role: ProjectMemberRole,
+    createdAt: Date,
+  ) {
     this._userId = userId;
+    this._role = role;
     this._createdAt = createdAt;
   }
 
@@ -32,7 +42,13 @@ export class ProjectMember {
    * 新規メンバーを作成する
    */
   static create(params: CreateProjectMemberParams): ProjectMember {
-    return new ProjectMember(UserId.reconstruct(params.userId), new Date());
+    return new ProjectMember(
+      UserId.reconstruct(params.userId),
+      params.role
+        ? ProjectMemberRole.create(params.role)
+        : ProjectMemberRole.editor(),
+      new Date(),
+    );
   }
 
   /**
@@ -41,10 +57,24 @@ export class ProjectMember {
   static reconstruct(params: ReconstructProjectMemberParams): ProjectMember {
     return new ProjectMember(
       UserId.reconstruct(params.userId),
+      ProjectMemberRole.reconstruct(params.role),
       params.createdAt,
     );
   }
 
+  /**
+   * ロールを変更する
+   * 新しいProjectMemberインスタンスを返す（不変性を保持）
+   * @throws ドメインバリデーションエラー - ロールが不正な場合
+   */
+  changeRole(role: string): ProjectMember {
+    return new ProjectMember(
+      this._userId,
+      ProjectMemberRole.create(role),
+      this._createdAt,
+    );
+  }
+
   /**
    * ユーザIDを取得
    */
@@ -52,6 +82,13 @@ export class ProjectMember {
     return this._userId;
   }
 
+  /**
+   * ロールを取得
+   */
+  get role(): ProjectMemberRole {
+    return this._role;
+  }
+
   /**
    * メンバー追加日時を取得
    */
@@ -0,0 +1,155 @@
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * プロジェクトメンバーロール定数
+ */
+export const PROJECT_MEMBER_ROLE = {
+  /** オーナー：プロジェクト設定・メンバー管理を含むすべての操作が可能 */
+  OWNER: "owner",
+  /** 編集者：レビュースペース・チェックリストの編集とレビュー実行が可能 */
+  EDITOR: "editor",
+  /** レビュアー：レビュー結果の判定・承認とQ&Aが可能 */
+  REVIEWER: "reviewer",
+  /** 閲覧者：閲覧のみ可能 */
+  VIEWER: "viewer",
+} as const;
+
+export type ProjectMemberRoleValue =
+  (typeof PROJECT_MEMBER_ROLE)[keyof typeof PROJECT_MEMBER_ROLE];
+
+/**
+ * プロジェクト権限定数
+ */
+export const PROJECT_PERMISSION = {
+  /** プロジェクト・レビュースペース・レビュー結果の閲覧 */
+  VIEW: "view",
+  /** プロジェクト設定（名前・説明・APIキー）の変更、メンバー管理、プロジェクト削除 */
+  MANAGE_PROJECT: "manage_project",
+  /** レビュースペース・プラグインの作成・変更・削除 */
+  EDIT_REVIEW_SPACE: "edit_review_space",
+  /** チェックリストの編集・インポート・AI生成 */
+  EDIT_CHECKLIST: "edit_checklist",
+  /** レビューの実行・リトライ・レビュー対象の削除 */
+  EXECUTE_REVIEW: "execute_review",
+  /** レビュー結果の判定・承認 */
+  ADJUDICATE_REVIEW: "adjudicate_review",
+  /** Q&Aの実行 */
+  EXECUTE_QA: "execute_qa",
+} as const;
+
+export type ProjectPermission =
+  (typeof PROJECT_PERMISSION)[keyof typeof PROJECT_PERMISSION];
+
+/**
+ * ロールごとに許可される権限
+ */
+const ROLE_PERMISSIONS: Record<
+  ProjectMemberRoleValue,
+  readonly ProjectPermission[]
+> = {
+  [PROJECT_MEMBER_ROLE.OWNER]: Object.values(PROJECT_PERMISSION),
+  [PROJECT_MEMBER_ROLE.EDITOR]: [
+    PROJECT_PERMISSION.VIEW,
+    PROJECT_PERMISSION.EDIT_REVIEW_SPACE,
+    PROJECT_PERMISSION.EDIT_CHECKLIST,
+    PROJECT_PERMISSION.EXECUTE_REVIEW,
+    PROJECT_PERMISSION.ADJUDICATE_REVIEW,
+    PROJECT_PERMISSION.EXECUTE_QA,
+  ],
+  [PROJECT_MEMBER_ROLE.REVIEWER]: [
+    PROJECT_PERMISSION.VIEW,
+    PROJECT_PERMISSION.ADJUDICATE_REVIEW,
+    PROJECT_PERMISSION.EXECUTE_QA,
+  ],
+  [PROJECT_MEMBER_ROLE.VIEWER]: [PROJECT_PERMISSION.VIEW],
+};
+
+/**
+ * プロジェクトメンバーロール値オブジェクト
+ * メンバーがプロジェクト内で実行できる操作を表す
+ */
+export class ProjectMemberRole {
+  private readonly _value: ProjectMemberRoleValue;
+
+  private constructor(value: ProjectMemberRoleValue) {
+    this._value = value;
+  }
+
+  /**
+   * 新規ロールを生成する
+   * @throws ドメインバリデーションエラー - ロールが不正な場合
+   */
+  static create(value: string): ProjectMemberRole {
+    ProjectMemberRole.validate(value);
+    return new ProjectMemberRole(value as ProjectMemberRoleValue);
+  }
+
+  /**
+   * 既存のロール文字列から復元する
+   * @throws ドメインバリデーションエラー - ロールが不正な場合
+   */
+  static reconstruct(value: string): ProjectMemberRole {
+    ProjectMemberRole.validate(value);
+    return new ProjectMemberRole(value as ProjectMemberRoleValue);
+  }
+
+  /**
+   * オーナーロールを生成する
+   */
+  static owner(): ProjectMemberRole {
+    return new ProjectMemberRole(PROJECT_MEMBER_ROLE.OWNER);
+  }
+
+  /**
+   * 編集者ロールを生成する（新規メンバーのデフォルト）
+   */
+  static editor(): ProjectMemberRole {
+    return new ProjectMemberRole(PROJECT_MEMBER_ROLE.EDITOR);
+  }
+
+  /**
+   * ロール値の検証
+   * @throws ドメインバリデーションエラー - ロールが不正な場合
+   */
+  private static validate(value: string): void {
+    const validValues = Object.values(PROJECT_MEMBER_ROLE);
+    if (!validValues.includes(value as ProjectMemberRoleValue)) {
+      throw domainValidationError("PROJECT_MEMBER_ROLE_INVALID");
+    }
+  }
+
+  /**
+   * ロール値を取得
+   */
+  get value(): ProjectMemberRoleValue {
+    return this._value;
+  }
+
+  /**
+   * オーナーかどうか
+   */
+  isOwner(): boolean {
+    return this._value === PROJECT_MEMBER_ROLE.OWNER;
+  }
+
+  /**
+   * 指定した権限を持つかどうか
+   */
+  can(permission: ProjectPermission): boolean {
+    return ROLE_PERMISSIONS[this._value].includes(permission);
+  }
+
+  /**
+   * 等価性の比較
+   */
+  equals(other: ProjectMemberRole): boolean {
+    return this._value === other._value;
+  }
+
+  /**
+   * 文字列表現
+   */
+  toString(): string {
+    return this._value;
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { MonthlyTokenBudget } from "../MonthlyTokenBudget";
+
+describe("MonthlyTokenBudget", () => {
+  describe("create", () => {
+    it("1以上の整数で上限を生成できる", () => {
+      const budget = MonthlyTokenBudget.create(100000);
+
+      expect(budget.value).toBe(100000);
+      expect(budget.isLimited()).toBe(true);
+    });
+
+    it("nullまたは未指定の場合は上限なし", () => {
+      expect(MonthlyTokenBudget.create(null).isLimited()).toBe(false);
+      expect(MonthlyTokenBudget.create(undefined).value).toBeNull();
+    });
+
+    it("0以下の場合はエラーをスローする", () => {
+      expect(() => MonthlyTokenBudget.create(0)).toThrow();
+      expect(() => MonthlyTokenBudget.create(-1)).toThrow();
+    });
+
+    it("整数でない場合はエラーをスローする", () => {
+      expect(() => MonthlyTokenBudget.create(1.5)).toThrow();
+    });
+  });
+
+  describe("isExceededBy", () => {
+    it("使用量が上限以上の場合はtrueを返す", () => {
+      const budget = MonthlyTokenBudget.create(1000);
+
+      expect(budget.isExceededBy(999)).toBe(false);
+      expect(budget.isExceededBy(1000)).toBe(true);
+      expect(budget.isExceededBy(1001)).toBe(true);
+    });
+
+    it("上限なしの場合は常にfalseを返す", () => {
+      expect(MonthlyTokenBudget.unlimited().isExceededBy(10 ** 12)).toBe(false);
+    });
+  });
+
+  describe("集計期間", () => {
+    const now = new Date(2024, 11, 15, 10, 30);
+
+    it("指定日時を含む暦月の開始日時と翌月の開始日時を返す", () => {
+      expect(MonthlyTokenBudget.periodStart(now)).toEqual(
+        new Date(2024, 11, 1),
+      );
+      expect(MonthlyTokenBudget.periodEnd(now)).toEqual(new Date(2025, 0, 1));
+    });
+
+    it("集計期間のキーをYYYY-MM形式で返す", () => {
+      expect(MonthlyTokenBudget.periodKey(now)).toBe("2024-12");
+      expect(MonthlyTokenBudget.periodKey(new Date(2025, 0, 31))).toBe(
+        "2025-01",
+      );
+    });
+  });
+});
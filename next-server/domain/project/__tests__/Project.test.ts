@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from "vitest";
 import { Project, UserInfo } from "../Project";
+import { PROJECT_PERMISSION } from "../ProjectMemberRole";
 
 // 暗号化関数をモック
 vi.mock("@/lib/server/encryption", () => ({
@@ -17,7 +18,7 @@ describe("Project", () => {
         name: "テストプロジェクト",
         description: "テスト説明",
         apiKey: "sk-test123",
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId, role: "owner" }],
       });
 
       expect(project.name.value).toBe("テストプロジェクト");
@@ -30,7 +31,7 @@ describe("Project", () => {
     it("説明とAPIキーなしでプロジェクトを作成できる", () => {
       const project = Project.create({
         name: "テストプロジェクト",
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId, role: "owner" }],
       });
 
       expect(project.name.value).toBe("テストプロジェクト");
@@ -41,7 +42,10 @@ describe("Project", () => {
     it("複数のメンバーでプロジェクトを作成できる", () => {
       const project = Project.create({
         name: "テストプロジェクト",
-        memberIds: [validMemberId, validMemberId2],
+        members: [
+          { userId: validMemberId, role: "owner" },
+          { userId: validMemberId2 },
+        ],
       });
 
       expect(project.members).toHaveLength(2);
@@ -51,16 +55,42 @@ describe("Project", () => {
       expect(() =>
         Project.create({
           name: "テストプロジェクト",
-          memberIds: [],
+          members: [],
         }),
       ).toThrow();
     });
 
+    it("ロール未指定のメンバーは編集者になる", () => {
+      const project = Project.create({
+        name: "テストプロジェクト",
+        members: [
+          { userId: validMemberId, role: "owner" },
+          { userId: validMemberId2 },
+        ],
+      });
+
+      expect(project.members.map((m) => m.role.value)).toEqual([
+        "owner",
+        "editor",
+      ]);
+    });
+
+    it("オーナーがいない場合はエラーをスローする", () => {
+      expect(() =>
+        Project.create({
+          name: "テストプロジェクト",
+          members: [{ userId: validMemberId, role: "editor" }],
+        }),
+      ).toThrow(
+        expect.objectContaining({ messageCode: "PROJECT_OWNER_REQUIRED" }),
+      );
+    });
+
     it("プロジェクト名が空の場合はエラーをスローする", () => {
       expect(() =>
         Project.create({
           name: "",
-          memberIds: [validMemberId],
+          members: [{ userId: validMemberId, role: "owner" }],
         }),
       ).toThrow();
     });
@@ -74,7 +104,7 @@ describe("Project", () => {
         name: "復元プロジェクト",
         description: "復元説明",
         encryptedApiKey: "encrypted_key",
-        members: [{ userId: validMemberId, createdAt: now }],
+        members: [{ userId: validMemberId, role: "owner", createdAt: now }],
         createdAt: now,
         updatedAt: now,
       });
@@ -91,7 +121,7 @@ describe("Project", () => {
     it("プロジェクト名を更新できる", () => {
       const project = Project.create({
         name: "元の名前",
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId, role: "owner" }],
       });
 
       const updated = project.updateName("新しい名前");
@@ -109,7 +139,7 @@ describe("Project", () => {
       const project = Project.create({
         name: "テスト",
         description: "元の説明",
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId, role: "owner" }],
       });
 
       const updated = project.updateDescription("新しい説明");
@@ -121,7 +151,7 @@ describe("Project", () => {
       const project = Project.create({
         name: "テスト",
         description: "元の説明",
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId, role: "owner" }],
       });
 
       const updated = project.updateDescription(null);
@@ -134,7 +164,7 @@ describe("Project", () => {
     it("APIキーを更新できる", () => {
       const project = Project.create({
         name: "テスト",
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId, role: "owner" }],
       });
 
       const updated = project.updateApiKey("new-api-key");
@@ -146,7 +176,7 @@ describe("Project", () => {
       const project = Project.create({
         name: "テスト",
         apiKey: "old-key",
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId, role: "owner" }],
       });
 
       const updated = project.updateApiKey(null);
@@ -155,11 +185,66 @@ describe("Project", () => {
     });
   });
 
+  describe("updateMonthlyTokenBudget", () => {
+    it("月間トークン上限を設定・解除できる", () => {
+      const project = Project.create({
+        name: "テスト",
+        members: [{ userId: validMemberId, role: "owner" }],
+      });
+      expect(project.monthlyTokenBudget.isLimited()).toBe(false);
+
+      const limited = project.updateMonthlyTokenBudget(500000);
+      expect(limited.monthlyTokenBudget.value).toBe(500000);
+
+      const unlimited = limited.updateMonthlyTokenBudget(null);
+      expect(unlimited.monthlyTokenBudget.isLimited()).toBe(false);
+    });
+
+    it("1未満の上限を指定した場合はエラーをスローする", () => {
+      const project = Project.create({
+        name: "テスト",
+        members: [{ userId: validMemberId, role: "owner" }],
+      });
+
+      expect(() => project.updateMonthlyTokenBudget(0)).toThrow();
+    });
+  });
+
+  describe("updateAiModelAssignments", () => {
+    it("エージェント別モデル割り当てを設定できる", () => {
+      const project = Project.create({
+        name: "テスト",
+        members: [{ userId: validMemberId, role: "owner" }],
+      });
+      expect(project.aiModelAssignments.toDto()).toEqual({});
+
+      const updated = project.updateAiModelAssignments({
+        checklistCategory: { providerId: null, model: "gpt-4o-mini" },
+      });
+      expect(updated.aiModelAssignments.toDto()).toEqual({
+        checklistCategory: { providerId: null, model: "gpt-4o-mini" },
+      });
+    });
+
+    it("存在しないエージェントを指定した場合はエラーをスローする", () => {
+      const project = Project.create({
+        name: "テスト",
+        members: [{ userId: validMemberId, role: "owner" }],
+      });
+
+      expect(() =>
+        project.updateAiModelAssignments({
+          unknown: { providerId: null, model: "gpt-4o" },
+        }),
+      ).toThrow();
+    });
+  });
+
   describe("addMember", () => {
     it("メンバーを追加できる", () => {
       const project = Project.create({
         name: "テスト",
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId, role: "owner" }],
       });
 
       const updated = project.addMember(validMemberId2);
@@ -171,7 +256,7 @@ describe("Project", () => {
     it("既に存在するメンバーを追加するとエラー", () => {
       const project = Project.create({
         name: "テスト",
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId, role: "owner" }],
       });
 
       expect(() => project.addMember(validMemberId)).toThrow();
@@ -182,7 +267,10 @@ describe("Project", () => {
     it("メンバーを削除できる", () => {
       const project = Project.create({
         name: "テスト",
-        memberIds: [validMemberId, validMemberId2],
+        members: [
+          { userId: validMemberId, role: "owner" },
+          { userId: validMemberId2 },
+        ],
       });
 
       const updated = project.removeMember(validMemberId2);
@@ -194,7 +282,7 @@ describe("Project", () => {
     it("存在しないメンバーを削除するとエラー", () => {
       const project = Project.create({
         name: "テスト",
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId, role: "owner" }],
       });
 
       expect(() => project.removeMember(validMemberId2)).toThrow();
@@ -203,21 +291,40 @@ describe("Project", () => {
     it("最後の1人を削除するとエラー", () => {
       const project = Project.create({
         name: "テスト",
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId, role: "owner" }],
       });
 
       expect(() => project.removeMember(validMemberId)).toThrow();
     });
   });
 
+  describe("removeMember（オーナー）", () => {
+    it("最後のオーナーを削除するとエラー", () => {
+      const project = Project.create({
+        name: "テスト",
+        members: [
+          { userId: validMemberId, role: "owner" },
+          { userId: validMemberId2 },
+        ],
+      });
+
+      expect(() => project.removeMember(validMemberId)).toThrow(
+        expect.objectContaining({ messageCode: "PROJECT_OWNER_REQUIRED" }),
+      );
+    });
+  });
+
   describe("syncMembers", () => {
     it("メンバーを同期できる", () => {
       const project = Project.create({
         name: "テスト",
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId, role: "owner" }],
       });
 
-      const updated = project.syncMembers([validMemberId, validMemberId2]);
+      const updated = project.syncMembers([
+        { userId: validMemberId },
+        { userId: validMemberId2 },
+      ]);
 
       expect(updated.members).toHaveLength(2);
     });
@@ -229,12 +336,15 @@ describe("Project", () => {
         name: "テスト",
         description: null,
         encryptedApiKey: null,
-        members: [{ userId: validMemberId, createdAt: now }],
+        members: [{ userId: validMemberId, role: "owner", createdAt: now }],
         createdAt: now,
         updatedAt: now,
       });
 
-      const updated = project.syncMembers([validMemberId, validMemberId2]);
+      const updated = project.syncMembers([
+        { userId: validMemberId },
+        { userId: validMemberId2 },
+      ]);
 
       const existingMember = updated.members.find(
         (m) => m.userId.value === validMemberId,
@@ -242,10 +352,42 @@ describe("Project", () => {
       expect(existingMember?.createdAt.getTime()).toBe(now.getTime());
     });
 
+    it("ロールを変更でき、未指定の既存メンバーはロールを保持する", () => {
+      const project = Project.create({
+        name: "テスト",
+        members: [
+          { userId: validMemberId, role: "owner" },
+          { userId: validMemberId2, role: "reviewer" },
+        ],
+      });
+
+      const updated = project.syncMembers([
+        { userId: validMemberId },
+        { userId: validMemberId2, role: "viewer" },
+      ]);
+
+      expect(updated.getMemberRole(validMemberId)?.value).toBe("owner");
+      expect(updated.getMemberRole(validMemberId2)?.value).toBe("viewer");
+    });
+
+    it("オーナーがいなくなる同期はエラー", () => {
+      const project = Project.create({
+        name: "テスト",
+        members: [
+          { userId: validMemberId, role: "owner" },
+          { userId: validMemberId2 },
+        ],
+      });
+
+      expect(() => project.syncMembers([{ userId: validMemberId2 }])).toThrow(
+        expect.objectContaining({ messageCode: "PROJECT_OWNER_REQUIRED" }),
+      );
+    });
+
     it("空のメンバーリストで同期するとエラー", () => {
       const project = Project.create({
         name: "テスト",
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId, role: "owner" }],
       });
 
       expect(() => project.syncMembers([])).toThrow();
@@ -256,7 +398,7 @@ describe("Project", () => {
     it("メンバーが存在する場合はtrueを返す", () => {
       const project = Project.create({
         name: "テスト",
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId, role: "owner" }],
       });
 
       expect(project.hasMember(validMemberId)).toBe(true);
@@ -265,20 +407,54 @@ describe("Project", () => {
     it("メンバーが存在しない場合はfalseを返す", () => {
       const project = Project.create({
         name: "テスト",
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId, role: "owner" }],
       });
 
       expect(project.hasMember(validMemberId2)).toBe(false);
     });
   });
 
+  describe("hasPermission", () => {
+    const project = Project.create({
+      name: "テスト",
+      members: [
+        { userId: validMemberId, role: "owner" },
+        { userId: validMemberId2, role: "viewer" },
+      ],
+    });
+
+    it("ロールに応じた権限を判定する", () => {
+      expect(
+        project.hasPermission(validMemberId, PROJECT_PERMISSION.MANAGE_PROJECT),
+      ).toBe(true);
+      expect(
+        project.hasPermission(validMemberId2, PROJECT_PERMISSION.VIEW),
+      ).toBe(true);
+      expect(
+        project.hasPermission(
+          validMemberId2,
+          PROJECT_PERMISSION.EDIT_CHECKLIST,
+        ),
+      ).toBe(false);
+    });
+
+    it("メンバーでない場合はfalseを返す", () => {
+      expect(
+        project.hasPermission(
+          "423e4567-e89b-12d3-a456-426614174003",
+          PROJECT_PERMISSION.VIEW,
+        ),
+      ).toBe(false);
+    });
+  });
+
   describe("toDto", () => {
     it("DTOに変換できる", () => {
       const project = Project.create({
         name: "テスト",
         description: "説明",
         apiKey: "key",
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId, role: "owner" }],
       });
 
       const userInfoMap = new Map<string, UserInfo>();
@@ -296,12 +472,13 @@ describe("Project", () => {
       expect(dto.members[0].userId).toBe(validMemberId);
       expect(dto.members[0].displayName).toBe("テストユーザー");
       expect(dto.members[0].employeeId).toBe("EMP001");
+      expect(dto.members[0].role).toBe("owner");
     });
 
     it("ユーザ情報がない場合はデフォルト値を使用する", () => {
       const project = Project.create({
         name: "テスト",
-        memberIds: [validMemberId],
+        members: [{ userId: validMemberId, role: "owner" }],
       });
 
       const userInfoMap = new Map<string, UserInfo>();
@@ -317,7 +494,10 @@ describe("Project", () => {
       const project = Project.create({
         name: "テスト",
         description: "説明",
-        memberIds: [validMemberId, validMemberId2],
+        members: [
+          { userId: validMemberId, role: "owner" },
+          { userId: validMemberId2 },
+        ],
       });
 
       const userNameMap = new Map<string, string>();
@@ -343,7 +523,10 @@ describe("Project", () => {
       ];
       const project = Project.create({
         name: "テスト",
-        memberIds,
+        members: memberIds.map((userId, i) => ({
+          userId,
+          role: i === 0 ? "owner" : "editor",
+        })),
       });
 
       const userNameMap = new Map<string, string>();
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import {
+  ProjectMemberRole,
+  PROJECT_PERMISSION,
+  PROJECT_MEMBER_ROLE,
+} from "../ProjectMemberRole";
+
+describe("ProjectMemberRole", () => {
+  describe("create", () => {
+    it("有効なロールを生成できる", () => {
+      const role = ProjectMemberRole.create("reviewer");
+
+      expect(role.value).toBe(PROJECT_MEMBER_ROLE.REVIEWER);
+    });
+
+    it("不正なロールの場合はエラーをスローする", () => {
+      expect(() => ProjectMemberRole.create("admin")).toThrow(
+        expect.objectContaining({ messageCode: "PROJECT_MEMBER_ROLE_INVALID" }),
+      );
+    });
+  });
+
+  describe("can", () => {
+    it("オーナーはすべての権限を持つ", () => {
+      const role = ProjectMemberRole.owner();
+
+      for (const permission of Object.values(PROJECT_PERMISSION)) {
+        expect(role.can(permission)).toBe(true);
+      }
+    });
+
+    it("編集者はプロジェクト管理以外の権限を持つ", () => {
+      const role = ProjectMemberRole.editor();
+
+      expect(role.can(PROJECT_PERMISSION.MANAGE_PROJECT)).toBe(false);
+      expect(role.can(PROJECT_PERMISSION.EDIT_REVIEW_SPACE)).toBe(true);
+      expect(role.can(PROJECT_PERMISSION.EDIT_CHECKLIST)).toBe(true);
+      expect(role.can(PROJECT_PERMISSION.EXECUTE_REVIEW)).toBe(true);
+    });
+
+    it("レビュアーは判定・Q&Aのみ可能", () => {
+      const role = ProjectMemberRole.create("reviewer");
+
+      expect(role.can(PROJECT_PERMISSION.ADJUDICATE_REVIEW)).toBe(true);
+      expect(role.can(PROJECT_PERMISSION.EXECUTE_QA)).toBe(true);
+      expect(role.can(PROJECT_PERMISSION.EXECUTE_REVIEW)).toBe(false);
+      expect(role.can(PROJECT_PERMISSION.EDIT_CHECKLIST)).toBe(false);
+    });
+
+    it("閲覧者は閲覧のみ可能", () => {
+      const role = ProjectMemberRole.create("viewer");
+
+      expect(role.can(PROJECT_PERMISSION.VIEW)).toBe(true);
+      expect(role.can(PROJECT_PERMISSION.ADJUDICATE_REVIEW)).toBe(false);
+      expect(role.can(PROJECT_PERMISSION.EXECUTE_QA)).toBe(false);
+    });
+  });
+
+  describe("isOwner", () => {
+    it("オーナーの場合のみtrueを返す", () => {
+      expect(ProjectMemberRole.owner().isOwner()).toBe(true);
+      expect(ProjectMemberRole.editor().isOwner()).toBe(false);
+    });
+  });
+});
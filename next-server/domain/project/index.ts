@@ -3,6 +3,17 @@ export { ProjectId } from "./ProjectId";
 export { ProjectName } from "./ProjectName";
 export { ProjectDescription } from "./ProjectDescription";
 export { EncryptedApiKey } from "./EncryptedApiKey";
+export { MonthlyTokenBudget } from "./MonthlyTokenBudget";
+
+export {
+  ProjectMemberRole,
+  PROJECT_MEMBER_ROLE,
+  PROJECT_PERMISSION,
+} from "./ProjectMemberRole";
+export type {
+  ProjectMemberRoleValue,
+  ProjectPermission,
+} from "./ProjectMemberRole";
 
 // エンティティ
 export { ProjectMember } from "./ProjectMember";
@@ -17,6 +28,8 @@ export type {
   ProjectDto,
   ProjectMemberDto,
   ProjectListItemDto,
+  MemberPreviewDto,
+  ProjectMemberInput,
   CreateProjectParams,
   ReconstructProjectParams,
   UserInfo,
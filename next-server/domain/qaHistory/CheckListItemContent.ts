@@ -66,6 +66,22 @@ export class CheckListItemContent {
     return this._value;
   }
 
+  /**
+   * チェック項目内容の一覧を取得
+   * JSON配列形式でない場合（単一のチェック項目）は1件の配列として返す
+   */
+  toItems(): string[] {
+    try {
+      const parsed = JSON.parse(this._value);
+      if (Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // JSON配列形式でない場合は単一のチェック項目として扱う
+    }
+    return [this._value];
+  }
+
   /**
    * 等価性の比較
    */
@@ -10,6 +10,7 @@ import { UserId } from "../user/UserId";
 /**
  * Q&A履歴エンティティ
  * レビュー結果に対するQ&Aの履歴を表す
+ * 追加の質問は最初の質問と同じスレッドに属し、それまでの会話を踏まえて回答される
  */
 export class QaHistory {
   private constructor(
@@ -18,6 +19,7 @@ export class QaHistory {
     private readonly _userId: UserId,
     private readonly _question: Question,
     private readonly _checkListItemContent: CheckListItemContent,
+    private readonly _threadId: QaHistoryId,
     private _answer: Answer | null,
     private _researchSummary: ResearchSummary | null,
     private _status: QaStatus,
@@ -28,21 +30,25 @@ export class QaHistory {
 
   /**
    * 新規Q&A履歴を作成する（保留中ステータス）
-   * SSE接続確立後にワークフローが開始される
+   * AIタスクキューのワーカーがタスクを取得した時点でワークフローが開始される
+   * スレッドIDを指定しない場合は新しいスレッドの最初の質問となる
    */
   static create(params: {
     reviewTargetId: ReviewTargetId;
     userId: UserId;
     question: Question;
     checkListItemContent: CheckListItemContent;
+    threadId?: QaHistoryId;
   }): QaHistory {
     const now = new Date();
+    const id = QaHistoryId.create();
     return new QaHistory(
-      QaHistoryId.create(),
+      id,
       params.reviewTargetId,
       params.userId,
       params.question,
       params.checkListItemContent,
+      params.threadId ?? id,
       null,
       null,
       QaStatus.pending(),
@@ -61,6 +67,7 @@ export class QaHistory {
     userId: UserId;
     question: Question;
     checkListItemContent: CheckListItemContent;
+    threadId: QaHistoryId;
     answer: Answer | null;
     researchSummary: ResearchSummary | null;
     status: QaStatus;
@@ -74,6 +81,7 @@ export class QaHistory {
       params.userId,
       params.question,
       params.checkListItemContent,
+      params.threadId,
       params.answer,
       params.researchSummary,
       params.status,
@@ -137,6 +145,13 @@ export class QaHistory {
     return this._checkListItemContent;
   }
 
+  /**
+   * 所属スレッドID（スレッドの最初のQ&A履歴ID）
+   */
+  get threadId(): QaHistoryId {
+    return this._threadId;
+  }
+
   get answer(): Answer | null {
     return this._answer;
   }
@@ -163,6 +178,13 @@ export class QaHistory {
 
   // ======== Query methods ========
 
+  /**
+   * スレッドの最初の質問かどうか
+   */
+  isThreadRoot(): boolean {
+    return this._id.equals(this._threadId);
+  }
+
   /**
    * 保留中かどうか（ワークフロー開始待ち）
    */
@@ -0,0 +1,100 @@
+import { QaHistoryId } from "./QaHistoryId";
+
+/**
+ * Q&A処理の終了を表すイベント種別
+ */
+const TERMINAL_EVENT_TYPES = ["complete", "error"];
+
+/**
+ * Q&A履歴イベント復元パラメータ（DB復元用）
+ */
+export interface ReconstructQaHistoryEventParams {
+  qaHistoryId: string;
+  sequence: number;
+  type: string;
+  data: Record<string, unknown>;
+  createdAt: Date;
+}
+
+/**
+ * Q&A履歴イベントエンティティ
+ * Q&A処理中に発行された進捗イベント（調査進捗・回答チャンク等）の記録を表す
+ * Q&A履歴内の発行順（sequence）で並べて再送することで、再接続したクライアントが処理状況を復元できる
+ */
+export class QaHistoryEvent {
+  private constructor(
+    private readonly _qaHistoryId: QaHistoryId,
+    private readonly _sequence: number,
+    private readonly _type: string,
+    private readonly _data: Record<string, unknown>,
+    private readonly _createdAt: Date,
+  ) {}
+
+  /**
+   * 新規イベントを作成する
+   * @param qaHistoryId Q&A履歴ID
+   * @param sequence Q&A履歴内での発行順（1始まり）
+   * @param event イベント種別とデータ
+   */
+  static create(
+    qaHistoryId: QaHistoryId,
+    sequence: number,
+    event: { type: string; data: Record<string, unknown> },
+  ): QaHistoryEvent {
+    return new QaHistoryEvent(
+      qaHistoryId,
+      sequence,
+      event.type,
+      event.data,
+      new Date(),
+    );
+  }
+
+  /**
+   * DBから取得したデータからイベントを復元する
+   */
+  static reconstruct(params: ReconstructQaHistoryEventParams): QaHistoryEvent {
+    return new QaHistoryEvent(
+      QaHistoryId.reconstruct(params.qaHistoryId),
+      params.sequence,
+      params.type,
+      params.data,
+      params.createdAt,
+    );
+  }
+
+  /**
+   * Q&A処理の終了（完了・エラー）を表すイベントかどうか
+   */
+  isTerminal(): boolean {
+    return TERMINAL_EVENT_TYPES.includes(this._type);
+  }
+
+  /**
+   * SSEで送信する形式に変換する
+   */
+  toEvent(): { type: string; data: Record<string, unknown> } {
+    return { type: this._type, data: this._data };
+  }
+
+  // ゲッター
+  get qaHistoryId(): QaHistoryId {
+    return this._qaHistoryId;
+  }
+
+  get sequence(): number {
+    return this._sequence;
+  }
+
+  get type(): string {
+    return this._type;
+  }
+
+  get data(): Record<string, unknown> {
+    return this._data;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+}
@@ -263,6 +263,20 @@ describe("CheckListItemContent", () => {
       expect(() => CheckListItemContent.create("[invalid json")).toThrow();
     });
   });
+
+  describe("toItems", () => {
+    it("JSON配列形式の場合はチェック項目の一覧を返す", () => {
+      const content = CheckListItemContent.create(
+        JSON.stringify(["項目1", "項目2"]),
+      );
+      expect(content.toItems()).toEqual(["項目1", "項目2"]);
+    });
+
+    it("JSON配列形式でない場合は1件の配列として返す", () => {
+      const content = CheckListItemContent.create("単一の項目");
+      expect(content.toItems()).toEqual(["単一の項目"]);
+    });
+  });
 });
 
 describe("QaHistory", () => {
@@ -287,6 +301,28 @@ describe("QaHistory", () => {
       expect(qaHistory.researchSummary).toBeNull();
       expect(qaHistory.errorMessage).toBeNull();
     });
+
+    it("スレッドIDを指定しない場合は新しいスレッドの最初の質問になる", () => {
+      const qaHistory = createTestQaHistory();
+
+      expect(qaHistory.threadId.equals(qaHistory.id)).toBe(true);
+      expect(qaHistory.isThreadRoot()).toBe(true);
+    });
+
+    it("スレッドIDを指定すると既存スレッドへの追加の質問になる", () => {
+      const root = createTestQaHistory();
+
+      const followUp = QaHistory.create({
+        reviewTargetId: root.reviewTargetId,
+        userId: UserId.create(),
+        question: Question.create("追加の質問"),
+        checkListItemContent: CheckListItemContent.create("テストチェック項目"),
+        threadId: root.threadId,
+      });
+
+      expect(followUp.threadId.equals(root.id)).toBe(true);
+      expect(followUp.isThreadRoot()).toBe(false);
+    });
   });
 
   describe("startProcessing", () => {
@@ -319,6 +355,7 @@ describe("QaHistory", () => {
         userId: UserId.create(),
         question: Question.create("質問"),
         checkListItemContent: CheckListItemContent.create("チェック項目"),
+        threadId: QaHistoryId.create(),
         answer: Answer.create("回答"),
         researchSummary: ResearchSummary.create([
           {
@@ -380,6 +417,7 @@ describe("QaHistory", () => {
         userId: UserId.create(),
         question: Question.create("質問1"),
         checkListItemContent: CheckListItemContent.create("チェック項目1"),
+        threadId: id,
         answer: null,
         researchSummary: null,
         status: QaStatus.processing(),
@@ -393,6 +431,7 @@ describe("QaHistory", () => {
         userId: UserId.create(),
         question: Question.create("質問2"),
         checkListItemContent: CheckListItemContent.create("チェック項目2"),
+        threadId: id,
         answer: null,
         researchSummary: null,
         status: QaStatus.processing(),
@@ -472,6 +511,7 @@ describe("QaHistory", () => {
         userId: UserId.create(),
         question: Question.create("質問"),
         checkListItemContent: CheckListItemContent.create("チェック項目"),
+        threadId: QaHistoryId.create(),
         answer: Answer.create("回答"),
         researchSummary: ResearchSummary.empty(),
         status: QaStatus.completed(),
@@ -493,6 +533,7 @@ describe("QaHistory", () => {
         userId: UserId.create(),
         question: Question.create("質問"),
         checkListItemContent: CheckListItemContent.create("チェック項目"),
+        threadId: QaHistoryId.create(),
         answer: null,
         researchSummary: null,
         status: QaStatus.error(),
@@ -1,5 +1,9 @@
 // エンティティ
 export { QaHistory } from "./QaHistory";
+export {
+  QaHistoryEvent,
+  type ReconstructQaHistoryEventParams,
+} from "./QaHistoryEvent";
 
 // 値オブジェクト
 export { QaHistoryId } from "./QaHistoryId";
@@ -0,0 +1,147 @@
+import { UserId } from "@/domain/user";
+import { domainValidationError } from "@/lib/server/error";
+import { Evaluation } from "./Evaluation";
+import { ReviewComment } from "./ReviewComment";
+import {
+  ReviewDisposition,
+  type ReviewDispositionValue,
+} from "./ReviewDisposition";
+
+/**
+ * レビュアー判定作成パラメータ
+ */
+export interface CreateReviewAdjudicationParams {
+  /** レビュアーによる評定（nullの場合はAIの評定を採用） */
+  evaluation: string | null;
+  /** レビュアーによるコメント（nullの場合はAIのコメントを採用） */
+  comment: string | null;
+  /** 対応状況 */
+  disposition: string;
+  /** 判定したユーザID */
+  reviewedBy: string;
+}
+
+/**
+ * レビュアー判定復元パラメータ
+ */
+export interface ReconstructReviewAdjudicationParams {
+  evaluation: string | null;
+  comment: string | null;
+  disposition: string;
+  /** 判定したユーザID（ユーザ削除後はnull） */
+  reviewedBy: string | null;
+  reviewedAt: Date;
+}
+
+/**
+ * レビュアー判定DTO
+ */
+export interface ReviewAdjudicationDto {
+  evaluation: string | null;
+  comment: string | null;
+  disposition: ReviewDispositionValue;
+  reviewedBy: string | null;
+  reviewedAt: Date;
+}
+
+/**
+ * レビュアー判定値オブジェクト
+ * AIのレビュー結果に対する人による評定・コメントの上書きと対応状況
+ */
+export class ReviewAdjudication {
+  private static readonly COMMENT_MAX_LENGTH = 2000;
+
+  private readonly _evaluation: Evaluation;
+  private readonly _comment: ReviewComment;
+  private readonly _disposition: ReviewDisposition;
+  private readonly _reviewedBy: UserId | null;
+  private readonly _reviewedAt: Date;
+
+  private constructor(
+    evaluation: Evaluation,
+    comment: ReviewComment,
+    disposition: ReviewDisposition,
+    reviewedBy: UserId | null,
+    reviewedAt: Date,
+  ) {
+    this._evaluation = evaluation;
+    this._comment = comment;
+    this._disposition = disposition;
+    this._reviewedBy = reviewedBy;
+    this._reviewedAt = reviewedAt;
+  }
+
+  /**
+   * 新規レビュアー判定を生成する
+   * 空文字の評定・コメントは上書きなし（null）として扱う
+   * @throws ドメインバリデーションエラー - バリデーション失敗時
+   */
+  static create(params: CreateReviewAdjudicationParams): ReviewAdjudication {
+    const evaluation = params.evaluation?.trim() || null;
+    const comment = params.comment?.trim() || null;
+
+    if (
+      comment !== null &&
+      comment.length > ReviewAdjudication.COMMENT_MAX_LENGTH
+    ) {
+      throw domainValidationError("REVIEW_RESULT_HUMAN_COMMENT_TOO_LONG");
+    }
+
+    return new ReviewAdjudication(
+      Evaluation.create(evaluation),
+      ReviewComment.create(comment),
+      ReviewDisposition.create(params.disposition),
+      UserId.reconstruct(params.reviewedBy),
+      new Date(),
+    );
+  }
+
+  /**
+   * DBから取得したデータからレビュアー判定を復元する
+   */
+  static reconstruct(
+    params: ReconstructReviewAdjudicationParams,
+  ): ReviewAdjudication {
+    return new ReviewAdjudication(
+      Evaluation.reconstruct(params.evaluation),
+      ReviewComment.reconstruct(params.comment),
+      ReviewDisposition.reconstruct(params.disposition),
+      params.reviewedBy ? UserId.reconstruct(params.reviewedBy) : null,
+      params.reviewedAt,
+    );
+  }
+
+  /**
+   * DTOに変換する
+   */
+  toDto(): ReviewAdjudicationDto {
+    return {
+      evaluation: this._evaluation.value,
+      comment: this._comment.value,
+      disposition: this._disposition.value,
+      reviewedBy: this._reviewedBy?.value ?? null,
+      reviewedAt: this._reviewedAt,
+    };
+  }
+
+  // ゲッター
+  get evaluation(): Evaluation {
+    return this._evaluation;
+  }
+
+  get comment(): ReviewComment {
+    return this._comment;
+  }
+
+  get disposition(): ReviewDisposition {
+    return this._disposition;
+  }
+
+  get reviewedBy(): UserId | null {
+    return this._reviewedBy;
+  }
+
+  get reviewedAt(): Date {
+    return this._reviewedAt;
+  }
+}
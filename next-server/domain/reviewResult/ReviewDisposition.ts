@@ -0,0 +1,85 @@
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * 対応状況定数
+ */
+export const REVIEW_DISPOSITION = {
+  /** AIの判定を承認 */
+  ACCEPTED: "accepted",
+  /** AIの判定に異議あり */
+  DISPUTED: "disputed",
+  /** 指摘事項をドキュメント側で修正済み */
+  FIXED: "fixed",
+} as const;
+
+export type ReviewDispositionValue =
+  (typeof REVIEW_DISPOSITION)[keyof typeof REVIEW_DISPOSITION];
+
+/**
+ * 対応状況値オブジェクト
+ * レビュアーがAIのレビュー結果をどう扱ったかを表す
+ */
+export class ReviewDisposition {
+  private readonly _value: ReviewDispositionValue;
+
+  private constructor(value: ReviewDispositionValue) {
+    this._value = value;
+  }
+
+  /**
+   * 新規対応状況を生成する
+   * @throws ドメインバリデーションエラー - 対応状況が不正な場合
+   */
+  static create(value: string): ReviewDisposition {
+    ReviewDisposition.validate(value);
+    return new ReviewDisposition(value as ReviewDispositionValue);
+  }
+
+  /**
+   * 既存の対応状況文字列から復元する
+   * @throws ドメインバリデーションエラー - 対応状況が不正な場合
+   */
+  static reconstruct(value: string): ReviewDisposition {
+    ReviewDisposition.validate(value);
+    return new ReviewDisposition(value as ReviewDispositionValue);
+  }
+
+  /**
+   * 対応状況値の検証
+   * @throws ドメインバリデーションエラー - 対応状況が不正な場合
+   */
+  private static validate(value: string): void {
+    const validValues = Object.values(REVIEW_DISPOSITION);
+    if (!validValues.includes(value as ReviewDispositionValue)) {
+      throw domainValidationError("REVIEW_RESULT_DISPOSITION_INVALID");
+    }
+  }
+
+  /**
+   * 対応状況値を取得
+   */
+  get value(): ReviewDispositionValue {
+    return this._value;
+  }
+
+  /**
+   * 異議ありかどうか
+   */
+  isDisputed(): boolean {
+    return this._value === REVIEW_DISPOSITION.DISPUTED;
+  }
+
+  /**
+   * 等価性の比較
+   */
+  equals(other: ReviewDisposition): boolean {
+    return this._value === other._value;
+  }
+
+  /**
+   * 文字列表現
+   */
+  toString(): string {
+    return this._value;
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * レビュー根拠の参照箇所（ファイル単位）
+ */
+export interface ReviewEvidenceReference {
+  /** ファイル名 */
+  fileName: string;
+  /** 参照したセクション名 */
+  sectionNames: string[];
+  /** ページ番号（抽出時に判別できた場合のみ） */
+  pageNumbers: number[];
+  /** 行範囲（抽出時に判別できた場合のみ） */
+  lineRanges: { start: number; end: number }[];
+}
+
+/**
+ * レビュー根拠値オブジェクト
+ * AIが評価・コメントの根拠としたドキュメント上の参照箇所
+ */
+export class ReviewEvidence {
+  private readonly _references: ReviewEvidenceReference[];
+
+  private constructor(references: ReviewEvidenceReference[]) {
+    this._references = references;
+  }
+
+  /**
+   * 新規レビュー根拠を生成する
+   * ファイル名が空の参照は除外する
+   */
+  static create(references: ReviewEvidenceReference[]): ReviewEvidence {
+    return new ReviewEvidence(
+      references
+        .filter((ref) => ref.fileName.trim().length > 0)
+        .map((ref) => ({
+          fileName: ref.fileName,
+          sectionNames: [...ref.sectionNames],
+          pageNumbers: [...ref.pageNumbers],
+          lineRanges: ref.lineRanges.map(({ start, end }) => ({ start, end })),
+        })),
+    );
+  }
+
+  /**
+   * 既存のレビュー根拠から復元する
+   * DBからの復元時に使用（根拠保存前のレビュー結果はnullのため空として扱う）
+   */
+  static reconstruct(
+    references: ReviewEvidenceReference[] | null,
+  ): ReviewEvidence {
+    return new ReviewEvidence(references ?? []);
+  }
+
+  /**
+   * 参照箇所の一覧を取得
+   */
+  get value(): ReviewEvidenceReference[] {
+    return this._references;
+  }
+
+  /**
+   * 根拠が設定されているかどうか
+   */
+  hasValue(): boolean {
+    return this._references.length > 0;
+  }
+
+  /**
+   * 文字列表現
+   * 例: "設計書.pdf - 第2章 概要, 2.1 目的 (p.3, p.4 / L10-20)"
+   */
+  toString(): string {
+    return this._references
+      .map((ref) => {
+        const sections =
+          ref.sectionNames.length > 0
+            ? ` - ${ref.sectionNames.join(", ")}`
+            : "";
+        const anchors = [
+          ref.pageNumbers.map((page) => `p.${page}`).join(", "),
+          ref.lineRanges
+            .map(({ start, end }) =>
+              start === end ? `L${start}` : `L${start}-${end}`,
+            )
+            .join(", "),
+        ].filter(Boolean);
+        const anchorText =
+          anchors.length > 0 ? ` (${anchors.join(" / ")})` : "";
+        return `${ref.fileName}${sections}${anchorText}`;
+      })
+      .join("\n");
+  }
+}
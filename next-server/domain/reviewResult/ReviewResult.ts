@@ -2,6 +2,12 @@ import { ReviewTargetId } from "@/domain/reviewTarget";
 import { ReviewResultId } from "./ReviewResultId";
 import { Evaluation } from "./Evaluation";
 import { ReviewComment } from "./ReviewComment";
+import { ReviewEvidence, type ReviewEvidenceReference } from "./ReviewEvidence";
+import {
+  ReviewAdjudication,
+  type ReconstructReviewAdjudicationParams,
+  type ReviewAdjudicationDto,
+} from "./ReviewAdjudication";
 
 /**
  * レビュー結果作成パラメータ（成功時）
@@ -12,6 +18,8 @@ export interface CreateReviewResultSuccessParams {
   checkListItemContent: string;
   evaluation: string;
   comment: string;
+  /** レビュー根拠（AIが参照したドキュメント上の箇所） */
+  evidence?: ReviewEvidenceReference[];
 }
 
 /**
@@ -24,6 +32,20 @@ export interface CreateReviewResultErrorParams {
   errorMessage: string;
 }
 
+/**
+ * レビュアー判定パラメータ
+ */
+export interface AdjudicateReviewResultParams {
+  /** レビュアーによる評定（nullの場合はAIの評定を採用） */
+  evaluation: string | null;
+  /** レビュアーによるコメント（nullの場合はAIのコメントを採用） */
+  comment: string | null;
+  /** 対応状況 */
+  disposition: string;
+  /** 判定したユーザID */
+  userId: string;
+}
+
 /**
  * レビュー結果復元パラメータ
  */
@@ -35,6 +57,10 @@ export interface ReconstructReviewResultParams {
   evaluation: string | null;
   comment: string | null;
   errorMessage: string | null;
+  /** レビュー根拠（根拠保存前のレビュー結果はnull） */
+  evidence: ReviewEvidenceReference[] | null;
+  /** レビュアー判定（未判定の場合はnull） */
+  adjudication?: ReconstructReviewAdjudicationParams | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -50,13 +76,21 @@ export interface ReviewResultDto {
   evaluation: string | null;
   comment: string | null;
   errorMessage: string | null;
+  /** レビュー根拠（AIが参照したドキュメント上の箇所） */
+  evidence: ReviewEvidenceReference[];
+  /** レビュアー判定（未判定の場合はnull） */
+  adjudication: ReviewAdjudicationDto | null;
+  /** 最終評定（レビュアーの上書きがあればその値、なければAIの評定） */
+  finalEvaluation: string | null;
+  /** 最終コメント（レビュアーの上書きがあればその値、なければAIのコメント） */
+  finalComment: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
 /**
  * レビュー結果エンティティ
- * 1つのチェック項目に対するAIレビュー結果を表す
+ * 1つのチェック項目に対するAIレビュー結果と、それに対するレビュアーの判定を表す
  */
 export class ReviewResult {
   private readonly _id: ReviewResultId;
@@ -66,6 +100,8 @@ export class ReviewResult {
   private readonly _evaluation: Evaluation;
   private readonly _comment: ReviewComment;
   private readonly _errorMessage: string | null;
+  private readonly _evidence: ReviewEvidence;
+  private readonly _adjudication: ReviewAdjudication | null;
   private readonly _createdAt: Date;
   private readonly _updatedAt: Date;
 
@@ -76,6 +112,8 @@ export class ReviewResult {
     evaluation: Evaluation,
     comment: ReviewComment,
     errorMessage: string | null,
+    evidence: ReviewEvidence,
+    adjudication: ReviewAdjudication | null,
     createdAt: Date,
     updatedAt: Date,
   ) {
@@ -85,6 +123,8 @@ export class ReviewResult {
     this._evaluation = evaluation;
     this._comment = comment;
     this._errorMessage = errorMessage;
+    this._evidence = evidence;
+    this._adjudication = adjudication;
     this._createdAt = createdAt;
     this._updatedAt = updatedAt;
   }
@@ -94,8 +134,13 @@ export class ReviewResult {
    * @throws ドメインバリデーションエラー - バリデーション失敗時
    */
   static createSuccess(params: CreateReviewResultSuccessParams): ReviewResult {
-    const { reviewTargetId, checkListItemContent, evaluation, comment } =
-      params;
+    const {
+      reviewTargetId,
+      checkListItemContent,
+      evaluation,
+      comment,
+      evidence,
+    } = params;
     const now = new Date();
 
     return new ReviewResult(
@@ -105,6 +150,8 @@ export class ReviewResult {
       Evaluation.create(evaluation),
       ReviewComment.create(comment),
       null, // エラーなし
+      ReviewEvidence.create(evidence ?? []),
+      null, // 未判定
       now,
       now,
     );
@@ -125,6 +172,8 @@ export class ReviewResult {
       Evaluation.create(null),
       ReviewComment.create(null),
       errorMessage,
+      ReviewEvidence.create([]),
+      null, // 未判定
       now,
       now,
     );
@@ -141,6 +190,10 @@ export class ReviewResult {
       Evaluation.reconstruct(params.evaluation),
       ReviewComment.reconstruct(params.comment),
       params.errorMessage,
+      ReviewEvidence.reconstruct(params.evidence),
+      params.adjudication
+        ? ReviewAdjudication.reconstruct(params.adjudication)
+        : null,
       params.createdAt,
       params.updatedAt,
     );
@@ -160,6 +213,55 @@ export class ReviewResult {
     return this._errorMessage !== null;
   }
 
+  /**
+   * レビュアーの判定を記録する
+   * 既存の判定は上書きされる
+   * 新しいReviewResultインスタンスを返す（不変性を保持）
+   * @throws ドメインバリデーションエラー - バリデーション失敗時
+   */
+  adjudicate(params: AdjudicateReviewResultParams): ReviewResult {
+    return new ReviewResult(
+      this._id,
+      this._reviewTargetId,
+      this._checkListItemContent,
+      this._evaluation,
+      this._comment,
+      this._errorMessage,
+      this._evidence,
+      ReviewAdjudication.create({
+        evaluation: params.evaluation,
+        comment: params.comment,
+        disposition: params.disposition,
+        reviewedBy: params.userId,
+      }),
+      this._createdAt,
+      new Date(),
+    );
+  }
+
+  /**
+   * レビュアーが判定済みかどうか
+   */
+  isAdjudicated(): boolean {
+    return this._adjudication !== null;
+  }
+
+  /**
+   * 最終評定を取得する
+   * レビュアーが評定を上書きしていればその値、なければAIの評定
+   */
+  get finalEvaluation(): string | null {
+    return this._adjudication?.evaluation.value ?? this._evaluation.value;
+  }
+
+  /**
+   * 最終コメントを取得する
+   * レビュアーがコメントを上書きしていればその値、なければAIのコメント
+   */
+  get finalComment(): string | null {
+    return this._adjudication?.comment.value ?? this._comment.value;
+  }
+
   /**
    * DTOに変換する
    */
@@ -171,6 +273,10 @@ export class ReviewResult {
       evaluation: this._evaluation.value,
       comment: this._comment.value,
       errorMessage: this._errorMessage,
+      evidence: this._evidence.value,
+      adjudication: this._adjudication?.toDto() ?? null,
+      finalEvaluation: this.finalEvaluation,
+      finalComment: this.finalComment,
       createdAt: this._createdAt,
       updatedAt: this._updatedAt,
     };
@@ -202,6 +308,14 @@ export class ReviewResult {
     return this._errorMessage;
   }
 
+  get evidence(): ReviewEvidence {
+    return this._evidence;
+  }
+
+  get adjudication(): ReviewAdjudication | null {
+    return this._adjudication;
+  }
+
   get createdAt(): Date {
     return this._createdAt;
   }
@@ -0,0 +1,198 @@
+import type { EvaluationCriteria } from "@/domain/reviewSpace";
+import type { ReviewResult } from "./ReviewResult";
+
+/**
+ * リビジョン比較ステータス定数
+ */
+export const REVISION_COMPARISON_STATUS = {
+  /** 評定が改善した */
+  IMPROVED: "improved",
+  /** 評定が悪化した */
+  REGRESSED: "regressed",
+  /** 評定が変わらない */
+  UNCHANGED: "unchanged",
+  /** 評定が変わったが優劣を比較できない（評価対象外・エラー等） */
+  CHANGED: "changed",
+  /** 比較先のリビジョンにのみ存在する */
+  ADDED: "added",
+  /** 比較元のリビジョンにのみ存在する */
+  REMOVED: "removed",
+} as const;
+
+export type RevisionComparisonStatusValue =
+  (typeof REVISION_COMPARISON_STATUS)[keyof typeof REVISION_COMPARISON_STATUS];
+
+/**
+ * チェック項目ごとの比較結果DTO
+ */
+export interface ReviewRevisionComparisonItemDto {
+  /** チェック項目の内容（レビュー実行時点のスナップショット） */
+  checkListItemContent: string;
+  status: RevisionComparisonStatusValue;
+  /** 比較元リビジョンの最終評定（比較元に存在しない場合はnull） */
+  baseEvaluation: string | null;
+  /** 比較先リビジョンの最終評定（比較先に存在しない場合はnull） */
+  compareEvaluation: string | null;
+  /** 比較元リビジョンの最終コメント */
+  baseComment: string | null;
+  /** 比較先リビジョンの最終コメント */
+  compareComment: string | null;
+  /** コメントが変わったか */
+  commentChanged: boolean;
+}
+
+/**
+ * リビジョン比較DTO
+ */
+export interface ReviewRevisionComparisonDto {
+  items: ReviewRevisionComparisonItemDto[];
+  /** ステータスごとの件数 */
+  summary: Record<RevisionComparisonStatusValue, number>;
+}
+
+/**
+ * リビジョン比較パラメータ
+ */
+export interface CompareReviewRevisionsParams {
+  /** 比較元（古い側）リビジョンのレビュー結果 */
+  baseResults: ReviewResult[];
+  /** 比較先（新しい側）リビジョンのレビュー結果 */
+  compareResults: ReviewResult[];
+  /** 評定の優劣を判定する評定基準（上位の項目ほど良い評定とみなす） */
+  evaluationCriteria: EvaluationCriteria;
+}
+
+/**
+ * 評価対象外を表す評定ラベル（優劣の比較対象にしない）
+ */
+const NOT_APPLICABLE_LABEL = "-";
+
+/**
+ * リビジョン比較値オブジェクト
+ * 同じレビュー対象の2つのリビジョンのレビュー結果を、チェック項目ごとに比較する
+ *
+ * - レビュー結果はチェック項目内容のスナップショットで対応付ける（同じ内容が複数ある場合は出現順に対応付ける）
+ * - 評定はレビュアーの上書きを反映した最終評定で比較する
+ */
+export class ReviewRevisionComparison {
+  private readonly _items: ReviewRevisionComparisonItemDto[];
+
+  private constructor(items: ReviewRevisionComparisonItemDto[]) {
+    this._items = items;
+  }
+
+  /**
+   * 2つのリビジョンのレビュー結果を比較する
+   * 比較先リビジョンの並び順に並べ、比較元にのみ存在する項目は末尾に追加する
+   */
+  static compare(
+    params: CompareReviewRevisionsParams,
+  ): ReviewRevisionComparison {
+    const { baseResults, compareResults, evaluationCriteria } = params;
+
+    const ranks = new Map<string, number>();
+    evaluationCriteria.items.forEach((item, index) => {
+      if (item.label !== NOT_APPLICABLE_LABEL) {
+        ranks.set(item.label, index);
+      }
+    });
+
+    // 比較元のレビュー結果をチェック項目内容ごとに出現順で保持
+    const baseByContent = new Map<string, ReviewResult[]>();
+    for (const result of baseResults) {
+      const queue = baseByContent.get(result.checkListItemContent) ?? [];
+      queue.push(result);
+      baseByContent.set(result.checkListItemContent, queue);
+    }
+
+    const items: ReviewRevisionComparisonItemDto[] = [];
+    for (const result of compareResults) {
+      const base = baseByContent.get(result.checkListItemContent)?.shift();
+      items.push(
+        base
+          ? ReviewRevisionComparison.compareItem(base, result, ranks)
+          : {
+              checkListItemContent: result.checkListItemContent,
+              status: REVISION_COMPARISON_STATUS.ADDED,
+              baseEvaluation: null,
+              compareEvaluation: result.finalEvaluation,
+              baseComment: null,
+              compareComment: result.finalComment,
+              commentChanged: false,
+            },
+      );
+    }
+
+    for (const queue of baseByContent.values()) {
+      for (const base of queue) {
+        items.push({
+          checkListItemContent: base.checkListItemContent,
+          status: REVISION_COMPARISON_STATUS.REMOVED,
+          baseEvaluation: base.finalEvaluation,
+          compareEvaluation: null,
+          baseComment: base.finalComment,
+          compareComment: null,
+          commentChanged: false,
+        });
+      }
+    }
+
+    return new ReviewRevisionComparison(items);
+  }
+
+  /**
+   * 両方のリビジョンに存在するチェック項目の評定・コメントを比較する
+   */
+  private static compareItem(
+    base: ReviewResult,
+    compare: ReviewResult,
+    ranks: Map<string, number>,
+  ): ReviewRevisionComparisonItemDto {
+    const baseEvaluation = base.finalEvaluation;
+    const compareEvaluation = compare.finalEvaluation;
+
+    let status: RevisionComparisonStatusValue =
+      REVISION_COMPARISON_STATUS.CHANGED;
+    const baseRank =
+      baseEvaluation !== null ? ranks.get(baseEvaluation) : undefined;
+    const compareRank =
+      compareEvaluation !== null ? ranks.get(compareEvaluation) : undefined;
+    if (baseEvaluation === compareEvaluation) {
+      status = REVISION_COMPARISON_STATUS.UNCHANGED;
+    } else if (baseRank !== undefined && compareRank !== undefined) {
+      status =
+        compareRank < baseRank
+          ? REVISION_COMPARISON_STATUS.IMPROVED
+          : REVISION_COMPARISON_STATUS.REGRESSED;
+    }
+
+    return {
+      checkListItemContent: compare.checkListItemContent,
+      status,
+      baseEvaluation,
+      compareEvaluation,
+      baseComment: base.finalComment,
+      compareComment: compare.finalComment,
+      commentChanged:
+        (base.finalComment ?? "") !== (compare.finalComment ?? ""),
+    };
+  }
+
+  /**
+   * DTOに変換する
+   */
+  toDto(): ReviewRevisionComparisonDto {
+    const summary = Object.fromEntries(
+      Object.values(REVISION_COMPARISON_STATUS).map((status) => [status, 0]),
+    ) as Record<RevisionComparisonStatusValue, number>;
+    for (const item of this._items) {
+      summary[item.status] += 1;
+    }
+
+    return { items: [...this._items], summary };
+  }
+
+  get items(): ReviewRevisionComparisonItemDto[] {
+    return [...this._items];
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { ReviewDisposition, REVIEW_DISPOSITION } from "../ReviewDisposition";
+
+describe("ReviewDisposition", () => {
+  describe("正常系", () => {
+    describe("create", () => {
+      it.each([
+        REVIEW_DISPOSITION.ACCEPTED,
+        REVIEW_DISPOSITION.DISPUTED,
+        REVIEW_DISPOSITION.FIXED,
+      ])("%sで生成できる", (value) => {
+        const disposition = ReviewDisposition.create(value);
+
+        expect(disposition.value).toBe(value);
+        expect(disposition.toString()).toBe(value);
+      });
+    });
+
+    describe("reconstruct", () => {
+      it("対応状況を復元できる", () => {
+        const disposition = ReviewDisposition.reconstruct("fixed");
+
+        expect(disposition.value).toBe(REVIEW_DISPOSITION.FIXED);
+      });
+    });
+
+    describe("isDisputed", () => {
+      it("disputedのときのみtrueを返す", () => {
+        expect(ReviewDisposition.create("disputed").isDisputed()).toBe(true);
+        expect(ReviewDisposition.create("accepted").isDisputed()).toBe(false);
+        expect(ReviewDisposition.create("fixed").isDisputed()).toBe(false);
+      });
+    });
+
+    describe("equals", () => {
+      it("同じ値の場合はtrueを返す", () => {
+        const a = ReviewDisposition.create("accepted");
+        const b = ReviewDisposition.reconstruct("accepted");
+
+        expect(a.equals(b)).toBe(true);
+      });
+
+      it("異なる値の場合はfalseを返す", () => {
+        const a = ReviewDisposition.create("accepted");
+        const b = ReviewDisposition.create("fixed");
+
+        expect(a.equals(b)).toBe(false);
+      });
+    });
+  });
+
+  describe("異常系", () => {
+    it("不正な値の場合はエラーをスローする", () => {
+      expect(() => ReviewDisposition.create("rejected")).toThrow();
+      expect(() => ReviewDisposition.reconstruct("")).toThrow();
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { ReviewEvidence, ReviewEvidenceReference } from "../ReviewEvidence";
+
+describe("ReviewEvidence", () => {
+  // テスト用の参照箇所
+  const pdfReference: ReviewEvidenceReference = {
+    fileName: "設計書.pdf",
+    sectionNames: ["第2章 概要", "2.1 目的"],
+    pageNumbers: [3, 4],
+    lineRanges: [],
+  };
+  const sourceReference: ReviewEvidenceReference = {
+    fileName: "main.ts",
+    sectionNames: ["handleRequest"],
+    pageNumbers: [],
+    lineRanges: [
+      { start: 10, end: 20 },
+      { start: 42, end: 42 },
+    ],
+  };
+
+  describe("正常系", () => {
+    describe("create", () => {
+      it("参照箇所の一覧からレビュー根拠を生成できる", () => {
+        const evidence = ReviewEvidence.create([pdfReference, sourceReference]);
+
+        expect(evidence.value).toEqual([pdfReference, sourceReference]);
+        expect(evidence.hasValue()).toBe(true);
+      });
+
+      it("ファイル名が空の参照は除外される", () => {
+        const evidence = ReviewEvidence.create([
+          pdfReference,
+          { ...sourceReference, fileName: "  " },
+        ]);
+
+        expect(evidence.value).toEqual([pdfReference]);
+      });
+
+      it("入力配列を変更しても生成済みの根拠に影響しない", () => {
+        const reference: ReviewEvidenceReference = {
+          ...pdfReference,
+          sectionNames: [...pdfReference.sectionNames],
+        };
+        const evidence = ReviewEvidence.create([reference]);
+
+        reference.sectionNames.push("第3章");
+
+        expect(evidence.value[0].sectionNames).toEqual([
+          "第2章 概要",
+          "2.1 目的",
+        ]);
+      });
+
+      it("空配列の場合は根拠なしとなる", () => {
+        const evidence = ReviewEvidence.create([]);
+
+        expect(evidence.value).toEqual([]);
+        expect(evidence.hasValue()).toBe(false);
+      });
+    });
+
+    describe("reconstruct", () => {
+      it("DBの値から復元できる", () => {
+        const evidence = ReviewEvidence.reconstruct([pdfReference]);
+
+        expect(evidence.value).toEqual([pdfReference]);
+      });
+
+      it("nullの場合は根拠なしとして復元される", () => {
+        const evidence = ReviewEvidence.reconstruct(null);
+
+        expect(evidence.value).toEqual([]);
+        expect(evidence.hasValue()).toBe(false);
+      });
+    });
+
+    describe("toString", () => {
+      it("参照箇所ごとに改行区切りで文字列化される", () => {
+        const evidence = ReviewEvidence.create([pdfReference, sourceReference]);
+
+        expect(evidence.toString()).toBe(
+          "設計書.pdf - 第2章 概要, 2.1 目的 (p.3, p.4)\nmain.ts - handleRequest (L10-20, L42)",
+        );
+      });
+
+      it("ページと行範囲の両方がある場合はスラッシュで区切られる", () => {
+        const evidence = ReviewEvidence.create([
+          {
+            fileName: "仕様書.pdf",
+            sectionNames: [],
+            pageNumbers: [5],
+            lineRanges: [{ start: 1, end: 3 }],
+          },
+        ]);
+
+        expect(evidence.toString()).toBe("仕様書.pdf (p.5 / L1-3)");
+      });
+
+      it("根拠なしの場合は空文字を返す", () => {
+        expect(ReviewEvidence.reconstruct(null).toString()).toBe("");
+      });
+    });
+  });
+});
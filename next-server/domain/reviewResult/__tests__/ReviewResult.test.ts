@@ -40,6 +40,43 @@ describe("ReviewResult", () => {
         expect(result.comment.value).toBe("");
         expect(result.errorMessage).toBeNull();
       });
+
+      it("レビュー根拠付きで成功結果を作成できる", () => {
+        const result = ReviewResult.createSuccess({
+          reviewTargetId: testReviewTargetId,
+          checkListItemContent: testCheckListItemContent,
+          evaluation: "A",
+          comment: "問題ありません",
+          evidence: [
+            {
+              fileName: "設計書.pdf",
+              sectionNames: ["第1章 目次"],
+              pageNumbers: [1],
+              lineRanges: [],
+            },
+          ],
+        });
+
+        expect(result.evidence.value).toEqual([
+          {
+            fileName: "設計書.pdf",
+            sectionNames: ["第1章 目次"],
+            pageNumbers: [1],
+            lineRanges: [],
+          },
+        ]);
+      });
+
+      it("レビュー根拠を省略した場合は根拠なしとなる", () => {
+        const result = ReviewResult.createSuccess({
+          reviewTargetId: testReviewTargetId,
+          checkListItemContent: testCheckListItemContent,
+          evaluation: "A",
+          comment: "問題ありません",
+        });
+
+        expect(result.evidence.hasValue()).toBe(false);
+      });
     });
 
     describe("createError", () => {
@@ -74,6 +111,7 @@ describe("ReviewResult", () => {
           evaluation: "B",
           comment: "一部改善が必要です",
           errorMessage: null,
+          evidence: null,
           createdAt: now,
           updatedAt: now,
         });
@@ -97,6 +135,7 @@ describe("ReviewResult", () => {
           evaluation: null,
           comment: null,
           errorMessage: "トークン上限到達",
+          evidence: null,
           createdAt: now,
           updatedAt: now,
         });
@@ -106,6 +145,37 @@ describe("ReviewResult", () => {
         expect(result.comment.value).toBeNull();
         expect(result.errorMessage).toBe("トークン上限到達");
       });
+
+      it("レビュー根拠をDBから復元できる", () => {
+        const now = new Date();
+        const result = ReviewResult.reconstruct({
+          id: testReviewResultId,
+          reviewTargetId: testReviewTargetId,
+          checkListItemContent: testCheckListItemContent,
+          evaluation: "A",
+          comment: "問題ありません",
+          errorMessage: null,
+          evidence: [
+            {
+              fileName: "main.ts",
+              sectionNames: [],
+              pageNumbers: [],
+              lineRanges: [{ start: 10, end: 20 }],
+            },
+          ],
+          createdAt: now,
+          updatedAt: now,
+        });
+
+        expect(result.evidence.value).toEqual([
+          {
+            fileName: "main.ts",
+            sectionNames: [],
+            pageNumbers: [],
+            lineRanges: [{ start: 10, end: 20 }],
+          },
+        ]);
+      });
     });
 
     describe("isSuccess", () => {
@@ -190,6 +260,7 @@ describe("ReviewResult", () => {
         expect(dto.evaluation).toBeNull();
         expect(dto.comment).toBeNull();
         expect(dto.errorMessage).toBe("処理失敗");
+        expect(dto.evidence).toEqual([]);
       });
     });
 
@@ -203,6 +274,7 @@ describe("ReviewResult", () => {
           evaluation: "C",
           comment: "要改善",
           errorMessage: null,
+          evidence: null,
           createdAt: now,
           updatedAt: now,
         });
@@ -217,6 +289,126 @@ describe("ReviewResult", () => {
         expect(result.updatedAt).toBe(now);
       });
     });
+
+    describe("adjudicate", () => {
+      const testUserId = "550e8400-e29b-41d4-a716-446655440004";
+
+      it("レビュアーの評定・コメントで最終値が上書きされる", () => {
+        const result = ReviewResult.createSuccess({
+          reviewTargetId: testReviewTargetId,
+          checkListItemContent: testCheckListItemContent,
+          evaluation: "A",
+          comment: "問題ありません",
+        });
+
+        const adjudicated = result.adjudicate({
+          evaluation: "C",
+          comment: "目次が古い",
+          disposition: "disputed",
+          userId: testUserId,
+        });
+
+        expect(adjudicated.isAdjudicated()).toBe(true);
+        // AIの評定・コメントは保持される
+        expect(adjudicated.evaluation.value).toBe("A");
+        expect(adjudicated.comment.value).toBe("問題ありません");
+        expect(adjudicated.finalEvaluation).toBe("C");
+        expect(adjudicated.finalComment).toBe("目次が古い");
+        expect(adjudicated.adjudication?.disposition.isDisputed()).toBe(true);
+        expect(adjudicated.adjudication?.reviewedBy?.value).toBe(testUserId);
+        expect(result.isAdjudicated()).toBe(false);
+      });
+
+      it("上書きしない場合はAIの評定・コメントが最終値になる", () => {
+        const result = ReviewResult.createSuccess({
+          reviewTargetId: testReviewTargetId,
+          checkListItemContent: testCheckListItemContent,
+          evaluation: "B",
+          comment: "軽微な指摘",
+        });
+
+        const adjudicated = result.adjudicate({
+          evaluation: "",
+          comment: null,
+          disposition: "accepted",
+          userId: testUserId,
+        });
+
+        expect(adjudicated.finalEvaluation).toBe("B");
+        expect(adjudicated.finalComment).toBe("軽微な指摘");
+        expect(adjudicated.toDto().adjudication).toEqual(
+          expect.objectContaining({
+            evaluation: null,
+            comment: null,
+            disposition: "accepted",
+            reviewedBy: testUserId,
+          }),
+        );
+      });
+
+      it("判定結果を復元できる", () => {
+        const reviewedAt = new Date("2024-01-01T00:00:00Z");
+        const result = ReviewResult.reconstruct({
+          id: testReviewResultId,
+          reviewTargetId: testReviewTargetId,
+          checkListItemContent: testCheckListItemContent,
+          evaluation: "A",
+          comment: "問題ありません",
+          errorMessage: null,
+          evidence: null,
+          adjudication: {
+            evaluation: null,
+            comment: "修正を確認",
+            disposition: "fixed",
+            reviewedBy: null,
+            reviewedAt,
+          },
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        });
+
+        expect(result.adjudication?.disposition.value).toBe("fixed");
+        expect(result.adjudication?.reviewedBy).toBeNull();
+        expect(result.adjudication?.reviewedAt).toBe(reviewedAt);
+        expect(result.finalComment).toBe("修正を確認");
+      });
+
+      it("不正な対応状況の場合はエラーをスローする", () => {
+        const result = ReviewResult.createSuccess({
+          reviewTargetId: testReviewTargetId,
+          checkListItemContent: testCheckListItemContent,
+          evaluation: "A",
+          comment: "問題ありません",
+        });
+
+        expect(() =>
+          result.adjudicate({
+            evaluation: null,
+            comment: null,
+            disposition: "unknown",
+            userId: testUserId,
+          }),
+        ).toThrow();
+      });
+
+      it("コメントが2000文字を超える場合はエラーをスローする", () => {
+        const result = ReviewResult.createSuccess({
+          reviewTargetId: testReviewTargetId,
+          checkListItemContent: testCheckListItemContent,
+          evaluation: "A",
+          comment: "問題ありません",
+        });
+
+        expect(() =>
+          result.adjudicate({
+            evaluation: null,
+            comment: "あ".repeat(2001),
+            disposition: "accepted",
+            userId: testUserId,
+          }),
+        ).toThrow();
+      });
+    });
   });
 
   describe("境界値テスト", () => {
@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { ReviewResult } from "../ReviewResult";
+import { ReviewRevisionComparison } from "../ReviewRevisionComparison";
+import { EvaluationCriteria } from "@/domain/reviewSpace";
+
+describe("ReviewRevisionComparison", () => {
+  const baseTargetId = "550e8400-e29b-41d4-a716-446655440001";
+  const compareTargetId = "550e8400-e29b-41d4-a716-446655440002";
+  const evaluationCriteria = EvaluationCriteria.createDefault();
+
+  const success = (
+    reviewTargetId: string,
+    checkListItemContent: string,
+    evaluation: string,
+    comment = "コメント",
+  ) =>
+    ReviewResult.createSuccess({
+      reviewTargetId,
+      checkListItemContent,
+      evaluation,
+      comment,
+    });
+
+  describe("compare", () => {
+    it("評定基準の順序で改善・悪化・変化なしを判定する", () => {
+      const comparison = ReviewRevisionComparison.compare({
+        baseResults: [
+          success(baseTargetId, "目次があるか", "C"),
+          success(baseTargetId, "用語が統一されているか", "A"),
+          success(baseTargetId, "図表に番号があるか", "B", "番号なし"),
+        ],
+        compareResults: [
+          success(compareTargetId, "目次があるか", "A"),
+          success(compareTargetId, "用語が統一されているか", "B"),
+          success(compareTargetId, "図表に番号があるか", "B", "一部番号なし"),
+        ],
+        evaluationCriteria,
+      });
+
+      expect(
+        comparison.items.map((item) => [item.status, item.commentChanged]),
+      ).toEqual([
+        ["improved", false],
+        ["regressed", false],
+        ["unchanged", true],
+      ]);
+    });
+
+    it("評価対象外への変更は優劣を比較しない", () => {
+      const comparison = ReviewRevisionComparison.compare({
+        baseResults: [success(baseTargetId, "目次があるか", "C")],
+        compareResults: [success(compareTargetId, "目次があるか", "-")],
+        evaluationCriteria,
+      });
+
+      expect(comparison.items[0].status).toBe("changed");
+    });
+
+    it("レビュアーが上書きした評定で比較する", () => {
+      const adjudicated = success(baseTargetId, "目次があるか", "A").adjudicate(
+        {
+          evaluation: "C",
+          comment: null,
+          disposition: "disputed",
+          userId: "550e8400-e29b-41d4-a716-446655440003",
+        },
+      );
+
+      const comparison = ReviewRevisionComparison.compare({
+        baseResults: [adjudicated],
+        compareResults: [success(compareTargetId, "目次があるか", "B")],
+        evaluationCriteria,
+      });
+
+      expect(comparison.items[0]).toMatchObject({
+        status: "improved",
+        baseEvaluation: "C",
+        compareEvaluation: "B",
+      });
+    });
+
+    it("片方のリビジョンにのみ存在する項目を追加・削除として扱い、削除は末尾に並べる", () => {
+      const comparison = ReviewRevisionComparison.compare({
+        baseResults: [
+          success(baseTargetId, "旧項目", "A"),
+          success(baseTargetId, "共通項目", "A"),
+        ],
+        compareResults: [
+          success(compareTargetId, "共通項目", "A", "コメント"),
+          success(compareTargetId, "新項目", "B"),
+        ],
+        evaluationCriteria,
+      });
+
+      expect(
+        comparison.items.map((item) => [
+          item.checkListItemContent,
+          item.status,
+        ]),
+      ).toEqual([
+        ["共通項目", "unchanged"],
+        ["新項目", "added"],
+        ["旧項目", "removed"],
+      ]);
+      expect(comparison.toDto().summary).toEqual({
+        improved: 0,
+        regressed: 0,
+        unchanged: 1,
+        changed: 0,
+        added: 1,
+        removed: 1,
+      });
+    });
+
+    it("同じ内容のチェック項目は出現順に対応付ける", () => {
+      const comparison = ReviewRevisionComparison.compare({
+        baseResults: [
+          success(baseTargetId, "重複項目", "C"),
+          success(baseTargetId, "重複項目", "A"),
+        ],
+        compareResults: [
+          success(compareTargetId, "重複項目", "B"),
+          success(compareTargetId, "重複項目", "A"),
+        ],
+        evaluationCriteria,
+      });
+
+      expect(comparison.items.map((item) => item.status)).toEqual([
+        "improved",
+        "unchanged",
+      ]);
+    });
+  });
+});
@@ -1,10 +1,31 @@
 export { ReviewResultId } from "./ReviewResultId";
 export { Evaluation } from "./Evaluation";
 export { ReviewComment } from "./ReviewComment";
+export { ReviewEvidence, type ReviewEvidenceReference } from "./ReviewEvidence";
+export {
+  ReviewDisposition,
+  REVIEW_DISPOSITION,
+  type ReviewDispositionValue,
+} from "./ReviewDisposition";
+export {
+  ReviewAdjudication,
+  type CreateReviewAdjudicationParams,
+  type ReconstructReviewAdjudicationParams,
+  type ReviewAdjudicationDto,
+} from "./ReviewAdjudication";
 export {
   ReviewResult,
   type CreateReviewResultSuccessParams,
   type CreateReviewResultErrorParams,
+  type AdjudicateReviewResultParams,
   type ReconstructReviewResultParams,
   type ReviewResultDto,
 } from "./ReviewResult";
+export {
+  ReviewRevisionComparison,
+  REVISION_COMPARISON_STATUS,
+  type RevisionComparisonStatusValue,
+  type ReviewRevisionComparisonItemDto,
+  type ReviewRevisionComparisonDto,
+  type CompareReviewRevisionsParams,
+} from "./ReviewRevisionComparison";
@@ -0,0 +1,170 @@
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * 大量レビュー時のドキュメント分割方式
+ */
+export const CHUNKING_STRATEGY = {
+  /** 文字数で分割 */
+  CHARACTERS: "characters",
+  /** 推定トークン数で分割 */
+  TOKENS: "tokens",
+  /** 見出し・ページの区切りで分割（推定トークン数の上限まで区切りをまとめる） */
+  STRUCTURE: "structure",
+} as const;
+
+export type ChunkingStrategy =
+  (typeof CHUNKING_STRATEGY)[keyof typeof CHUNKING_STRATEGY];
+
+/**
+ * 分割方式の表示ラベル
+ */
+export const CHUNKING_STRATEGY_LABELS: Record<ChunkingStrategy, string> = {
+  characters: "文字数",
+  tokens: "推定トークン数",
+  structure: "見出し・ページ",
+};
+
+/**
+ * ドキュメント分割設定のDTO
+ */
+export interface ChunkingSettingsDto {
+  /** 分割方式 */
+  strategy: ChunkingStrategy;
+  /**
+   * 1チャンクあたりの上限（charactersは文字数、tokens・structureは推定トークン数）
+   * nullの場合はモデルのコンテキストウィンドウから自動で算出する
+   */
+  chunkSize: number | null;
+  /** チャンク間のオーバーラップ（charactersは文字数、tokensは推定トークン数。structureでは使用しない） */
+  overlap: number;
+  /** 画像モードの1チャンクあたりの最大ページ数（nullの場合は分割しない） */
+  maxPagesPerChunk: number | null;
+  /** 画像モードのチャンク間のオーバーラップページ数 */
+  pageOverlap: number;
+}
+
+/**
+ * ドキュメント分割設定のデフォルト値
+ * チャンクサイズ・ページ数は自動とし、オーバーラップは従来の分割リトライと同じ値とする
+ */
+export const DEFAULT_CHUNKING_SETTINGS: ChunkingSettingsDto = {
+  strategy: CHUNKING_STRATEGY.CHARACTERS,
+  chunkSize: null,
+  overlap: 300,
+  maxPagesPerChunk: null,
+  pageOverlap: 3,
+};
+
+/**
+ * ドキュメント分割設定値オブジェクト
+ * 大量レビューでドキュメントをAIのコンテキストウィンドウに収まる単位に分割する方法を管理
+ */
+export class ChunkingSettings {
+  private static readonly MIN_CHUNK_SIZE = 500;
+  private static readonly MAX_CHUNK_SIZE = 2_000_000;
+  private static readonly MAX_PAGES_PER_CHUNK = 500;
+
+  private constructor(private readonly settings: ChunkingSettingsDto) {}
+
+  /**
+   * 新規ドキュメント分割設定を生成する
+   * 省略した項目はデフォルト値を使用する
+   * @throws ドメインバリデーションエラー - 設定値が不正な場合
+   */
+  static create(props: Partial<ChunkingSettingsDto>): ChunkingSettings {
+    const settings: ChunkingSettingsDto = {
+      strategy: props.strategy ?? DEFAULT_CHUNKING_SETTINGS.strategy,
+      chunkSize:
+        props.chunkSize === undefined
+          ? DEFAULT_CHUNKING_SETTINGS.chunkSize
+          : props.chunkSize,
+      overlap: props.overlap ?? DEFAULT_CHUNKING_SETTINGS.overlap,
+      maxPagesPerChunk:
+        props.maxPagesPerChunk === undefined
+          ? DEFAULT_CHUNKING_SETTINGS.maxPagesPerChunk
+          : props.maxPagesPerChunk,
+      pageOverlap: props.pageOverlap ?? DEFAULT_CHUNKING_SETTINGS.pageOverlap,
+    };
+    ChunkingSettings.validate(settings);
+    return new ChunkingSettings(settings);
+  }
+
+  /**
+   * デフォルトのドキュメント分割設定を生成する
+   */
+  static createDefault(): ChunkingSettings {
+    return new ChunkingSettings({ ...DEFAULT_CHUNKING_SETTINGS });
+  }
+
+  /**
+   * 既存データから復元する
+   * 分割設定の導入前に保存されたデータはデフォルト値で補完する
+   */
+  static reconstruct(
+    props: Partial<ChunkingSettingsDto> | null | undefined,
+  ): ChunkingSettings {
+    return new ChunkingSettings({ ...DEFAULT_CHUNKING_SETTINGS, ...props });
+  }
+
+  /**
+   * 設定値の検証
+   */
+  private static validate(settings: ChunkingSettingsDto): void {
+    const { strategy, chunkSize, overlap, maxPagesPerChunk, pageOverlap } =
+      settings;
+    const isValid =
+      (Object.values(CHUNKING_STRATEGY) as string[]).includes(strategy) &&
+      (chunkSize === null ||
+        (Number.isInteger(chunkSize) &&
+          chunkSize >= ChunkingSettings.MIN_CHUNK_SIZE &&
+          chunkSize <= ChunkingSettings.MAX_CHUNK_SIZE)) &&
+      Number.isInteger(overlap) &&
+      overlap >= 0 &&
+      // オーバーラップはチャンクサイズの半分未満とする（分割が進まなくなるのを防ぐ）
+      (chunkSize === null || overlap * 2 < chunkSize) &&
+      (maxPagesPerChunk === null ||
+        (Number.isInteger(maxPagesPerChunk) &&
+          maxPagesPerChunk >= 1 &&
+          maxPagesPerChunk <= ChunkingSettings.MAX_PAGES_PER_CHUNK)) &&
+      Number.isInteger(pageOverlap) &&
+      pageOverlap >= 0 &&
+      (maxPagesPerChunk === null || pageOverlap < maxPagesPerChunk);
+    if (!isValid) {
+      throw domainValidationError("REVIEW_SETTINGS_CHUNKING_INVALID");
+    }
+  }
+
+  /**
+   * 分割方式を取得
+   */
+  get strategy(): ChunkingStrategy {
+    return this.settings.strategy;
+  }
+
+  /**
+   * 1チャンクあたりの上限を取得（nullの場合は自動）
+   */
+  get chunkSize(): number | null {
+    return this.settings.chunkSize;
+  }
+
+  /**
+   * DTOに変換する
+   */
+  toDto(): ChunkingSettingsDto {
+    return { ...this.settings };
+  }
+
+  /**
+   * 等価性の比較
+   */
+  equals(other: ChunkingSettings): boolean {
+    return (
+      this.settings.strategy === other.settings.strategy &&
+      this.settings.chunkSize === other.settings.chunkSize &&
+      this.settings.overlap === other.settings.overlap &&
+      this.settings.maxPagesPerChunk === other.settings.maxPagesPerChunk &&
+      this.settings.pageOverlap === other.settings.pageOverlap
+    );
+  }
+}
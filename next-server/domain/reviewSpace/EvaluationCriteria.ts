@@ -98,6 +98,13 @@ export class EvaluationCriteria {
     return [...this._items];
   }
 
+  /**
+   * 指定したラベルが評定項目に含まれるかどうか
+   */
+  hasLabel(label: string): boolean {
+    return this._items.some((item) => item.label === label);
+  }
+
   /**
    * JSON形式に変換
    */
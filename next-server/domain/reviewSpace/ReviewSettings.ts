@@ -4,6 +4,7 @@ import {
   DEFAULT_EVALUATION_CRITERIA,
 } from "./EvaluationCriteria";
 import { EvaluationItemProps } from "./EvaluationItem";
+import { ChunkingSettings, ChunkingSettingsDto } from "./ChunkingSettings";
 
 /**
  * 同時レビュー項目数のデフォルト値
@@ -27,6 +28,7 @@ export interface ReviewSettingsProps {
   concurrentReviewItems?: number | null;
   commentFormat?: string | null;
   evaluationCriteria?: EvaluationItemProps[] | null;
+  chunking?: Partial<ChunkingSettingsDto> | null;
 }
 
 /**
@@ -37,6 +39,7 @@ export interface ReviewSettingsDto {
   concurrentReviewItems: number;
   commentFormat: string;
   evaluationCriteria: EvaluationItemProps[];
+  chunking: ChunkingSettingsDto;
 }
 
 /**
@@ -53,17 +56,20 @@ export class ReviewSettings {
   private readonly _concurrentReviewItems: number;
   private readonly _commentFormat: string;
   private readonly _evaluationCriteria: EvaluationCriteria;
+  private readonly _chunking: ChunkingSettings;
 
   private constructor(
     additionalInstructions: string | null,
     concurrentReviewItems: number,
     commentFormat: string,
     evaluationCriteria: EvaluationCriteria,
+    chunking: ChunkingSettings,
   ) {
     this._additionalInstructions = additionalInstructions;
     this._concurrentReviewItems = concurrentReviewItems;
     this._commentFormat = commentFormat;
     this._evaluationCriteria = evaluationCriteria;
+    this._chunking = chunking;
   }
 
   /**
@@ -84,20 +90,22 @@ export class ReviewSettings {
     ReviewSettings.validateConcurrentReviewItems(concurrentReviewItems);
     ReviewSettings.validateCommentFormat(commentFormat);
 
-    // 評定基準の生成
+    // 評定基準・分割設定の生成
     const criteria = EvaluationCriteria.create(evaluationCriteria);
+    const chunking = ChunkingSettings.create(props.chunking ?? {});
 
     return new ReviewSettings(
       additionalInstructions,
       concurrentReviewItems,
       commentFormat,
       criteria,
+      chunking,
     );
   }
 
   /**
    * デフォルトのレビュー設定を生成する
-   * 同時レビュー項目数、コメントフォーマット、評定基準にデフォルト値を設定
+   * 同時レビュー項目数、コメントフォーマット、評定基準、分割設定にデフォルト値を設定
    */
   static createDefault(): ReviewSettings {
     return new ReviewSettings(
@@ -105,6 +113,7 @@ export class ReviewSettings {
       DEFAULT_CONCURRENT_REVIEW_ITEMS,
       DEFAULT_COMMENT_FORMAT,
       EvaluationCriteria.create(DEFAULT_EVALUATION_CRITERIA),
+      ChunkingSettings.createDefault(),
     );
   }
 
@@ -122,12 +131,14 @@ export class ReviewSettings {
       props.evaluationCriteria ?? DEFAULT_EVALUATION_CRITERIA;
 
     const criteria = EvaluationCriteria.reconstruct(evaluationCriteria);
+    const chunking = ChunkingSettings.reconstruct(props.chunking);
 
     return new ReviewSettings(
       additionalInstructions,
       concurrentReviewItems,
       commentFormat,
       criteria,
+      chunking,
     );
   }
 
@@ -197,6 +208,13 @@ export class ReviewSettings {
     return this._evaluationCriteria;
   }
 
+  /**
+   * ドキュメント分割設定を取得
+   */
+  get chunking(): ChunkingSettings {
+    return this._chunking;
+  }
+
   /**
    * DTOに変換する
    */
@@ -206,6 +224,7 @@ export class ReviewSettings {
       concurrentReviewItems: this._concurrentReviewItems,
       commentFormat: this._commentFormat,
       evaluationCriteria: this._evaluationCriteria.toJSON(),
+      chunking: this._chunking.toDto(),
     };
   }
 
@@ -220,7 +239,10 @@ export class ReviewSettings {
       return false;
     if (this._commentFormat !== other._commentFormat) return false;
 
-    // 評定基準の比較
-    return this._evaluationCriteria.equals(other._evaluationCriteria);
+    // 評定基準・分割設定の比較
+    return (
+      this._evaluationCriteria.equals(other._evaluationCriteria) &&
+      this._chunking.equals(other._chunking)
+    );
   }
 }
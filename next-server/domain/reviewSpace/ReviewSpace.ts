@@ -1,4 +1,5 @@
 import { ProjectId } from "@/domain/project";
+import { ChecklistTemplateId } from "@/domain/checklistTemplate";
 import { ReviewSpaceId } from "./ReviewSpaceId";
 import { ReviewSpaceName } from "./ReviewSpaceName";
 import { ReviewSpaceDescription } from "./ReviewSpaceDescription";
@@ -22,6 +23,10 @@ export interface ReviewSpaceDto {
   updatedAt: Date;
   /** チェックリスト生成エラーメッセージ（最新のエラーのみ保持） */
   checklistGenerationError: string | null;
+  /** リンクしているチェックリストテンプレートID */
+  checklistTemplateId: string | null;
+  /** 最後に取り込んだテンプレートのバージョン */
+  checklistTemplateVersion: number | null;
 }
 
 /**
@@ -57,6 +62,10 @@ export interface ReconstructReviewSpaceParams {
   updatedAt: Date;
   /** チェックリスト生成エラーメッセージ */
   checklistGenerationError?: string | null;
+  /** リンクしているチェックリストテンプレートID */
+  checklistTemplateId?: string | null;
+  /** 最後に取り込んだテンプレートのバージョン */
+  checklistTemplateVersion?: number | null;
 }
 
 /**
@@ -72,6 +81,8 @@ export class ReviewSpace {
   private readonly _createdAt: Date;
   private readonly _updatedAt: Date;
   private readonly _checklistGenerationError: string | null;
+  private readonly _checklistTemplateId: ChecklistTemplateId | null;
+  private readonly _checklistTemplateVersion: number | null;
 
   private constructor(
     id: ReviewSpaceId,
@@ -82,6 +93,8 @@ export class ReviewSpace {
     createdAt: Date,
     updatedAt: Date,
     checklistGenerationError: string | null = null,
+    checklistTemplateId: ChecklistTemplateId | null = null,
+    checklistTemplateVersion: number | null = null,
   ) {
     this._id = id;
     this._projectId = projectId;
@@ -91,6 +104,8 @@ export class ReviewSpace {
     this._createdAt = createdAt;
     this._updatedAt = updatedAt;
     this._checklistGenerationError = checklistGenerationError;
+    this._checklistTemplateId = checklistTemplateId;
+    this._checklistTemplateVersion = checklistTemplateVersion;
   }
 
   /**
@@ -135,6 +150,13 @@ export class ReviewSpace {
       params.createdAt,
       params.updatedAt,
       params.checklistGenerationError ?? null,
+      params.checklistTemplateId
+        ? ChecklistTemplateId.reconstruct(params.checklistTemplateId)
+        : null,
+      // テンプレート削除時はIDのみnullになるため、バージョンも合わせて破棄する
+      params.checklistTemplateId
+        ? (params.checklistTemplateVersion ?? null)
+        : null,
     );
   }
 
@@ -152,6 +174,8 @@ export class ReviewSpace {
       this._createdAt,
       new Date(),
       this._checklistGenerationError,
+      this._checklistTemplateId,
+      this._checklistTemplateVersion,
     );
   }
 
@@ -169,6 +193,8 @@ export class ReviewSpace {
       this._createdAt,
       new Date(),
       this._checklistGenerationError,
+      this._checklistTemplateId,
+      this._checklistTemplateVersion,
     );
   }
 
@@ -188,6 +214,8 @@ export class ReviewSpace {
       this._createdAt,
       new Date(),
       this._checklistGenerationError,
+      this._checklistTemplateId,
+      this._checklistTemplateVersion,
     );
   }
 
@@ -205,6 +233,8 @@ export class ReviewSpace {
       this._createdAt,
       this._updatedAt,
       errorMessage,
+      this._checklistTemplateId,
+      this._checklistTemplateVersion,
     );
   }
 
@@ -222,6 +252,47 @@ export class ReviewSpace {
       this._createdAt,
       this._updatedAt,
       null,
+      this._checklistTemplateId,
+      this._checklistTemplateVersion,
+    );
+  }
+
+  /**
+   * チェックリストテンプレートにリンクし、取り込んだバージョンを記録する
+   * 新しいReviewSpaceインスタンスを返す（不変性を保持）
+   */
+  linkChecklistTemplate(templateId: string, version: number): ReviewSpace {
+    return new ReviewSpace(
+      this._id,
+      this._projectId,
+      this._name,
+      this._description,
+      this._defaultReviewSettings,
+      this._createdAt,
+      new Date(),
+      this._checklistGenerationError,
+      ChecklistTemplateId.reconstruct(templateId),
+      version,
+    );
+  }
+
+  /**
+   * チェックリストテンプレートとのリンクを解除する
+   * チェック項目はそのまま残る
+   * 新しいReviewSpaceインスタンスを返す（不変性を保持）
+   */
+  unlinkChecklistTemplate(): ReviewSpace {
+    return new ReviewSpace(
+      this._id,
+      this._projectId,
+      this._name,
+      this._description,
+      this._defaultReviewSettings,
+      this._createdAt,
+      new Date(),
+      this._checklistGenerationError,
+      null,
+      null,
     );
   }
 
@@ -238,6 +309,8 @@ export class ReviewSpace {
       createdAt: this._createdAt,
       updatedAt: this._updatedAt,
       checklistGenerationError: this._checklistGenerationError,
+      checklistTemplateId: this._checklistTemplateId?.value ?? null,
+      checklistTemplateVersion: this._checklistTemplateVersion,
     };
   }
 
@@ -285,4 +358,12 @@ export class ReviewSpace {
   get checklistGenerationError(): string | null {
     return this._checklistGenerationError;
   }
+
+  get checklistTemplateId(): ChecklistTemplateId | null {
+    return this._checklistTemplateId;
+  }
+
+  get checklistTemplateVersion(): number | null {
+    return this._checklistTemplateVersion;
+  }
 }
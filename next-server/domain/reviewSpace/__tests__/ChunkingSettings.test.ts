@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  ChunkingSettings,
+  CHUNKING_STRATEGY,
+  DEFAULT_CHUNKING_SETTINGS,
+} from "../ChunkingSettings";
+
+describe("ChunkingSettings", () => {
+  describe("正常系", () => {
+    it("省略した項目はデフォルト値で補完される", () => {
+      const settings = ChunkingSettings.create({
+        strategy: CHUNKING_STRATEGY.TOKENS,
+        chunkSize: 8000,
+      });
+
+      expect(settings.toDto()).toEqual({
+        ...DEFAULT_CHUNKING_SETTINGS,
+        strategy: "tokens",
+        chunkSize: 8000,
+      });
+    });
+
+    it("チャンクサイズ・最大ページ数にnull（自動）を指定できる", () => {
+      const settings = ChunkingSettings.create({
+        chunkSize: null,
+        maxPagesPerChunk: null,
+      });
+
+      expect(settings.chunkSize).toBeNull();
+      expect(settings.toDto().maxPagesPerChunk).toBeNull();
+    });
+
+    it("分割設定の導入前のデータはデフォルト値で復元される", () => {
+      const settings = ChunkingSettings.reconstruct(undefined);
+
+      expect(settings.equals(ChunkingSettings.createDefault())).toBe(true);
+    });
+
+    it("設定値が異なる場合は等価ではない", () => {
+      const a = ChunkingSettings.create({ pageOverlap: 1 });
+      const b = ChunkingSettings.create({ pageOverlap: 2 });
+
+      expect(a.equals(b)).toBe(false);
+    });
+  });
+
+  describe("異常系", () => {
+    it.each([
+      ["不明な分割方式", { strategy: "paragraph" as never }],
+      ["チャンクサイズが下限未満", { chunkSize: 499 }],
+      [
+        "オーバーラップがチャンクサイズの半分以上",
+        { chunkSize: 1000, overlap: 500 },
+      ],
+      ["オーバーラップが負の値", { overlap: -1 }],
+      ["最大ページ数が0", { maxPagesPerChunk: 0 }],
+      [
+        "ページのオーバーラップが最大ページ数以上",
+        { maxPagesPerChunk: 3, pageOverlap: 3 },
+      ],
+    ])("%sの場合はエラーをスローする", (_, props) => {
+      expect(() => ChunkingSettings.create(props)).toThrow(
+        expect.objectContaining({
+          messageCode: "REVIEW_SETTINGS_CHUNKING_INVALID",
+        }),
+      );
+    });
+  });
+});
@@ -111,6 +111,20 @@ describe("EvaluationCriteria", () => {
         expect(criteria1.equals(criteria2)).toBe(false);
       });
     });
+
+    describe("hasLabel", () => {
+      it("評価基準に含まれるラベルの場合はtrueを返す", () => {
+        const criteria = EvaluationCriteria.create(validItems);
+
+        expect(criteria.hasLabel(validItems[0].label)).toBe(true);
+      });
+
+      it("評価基準に含まれないラベルの場合はfalseを返す", () => {
+        const criteria = EvaluationCriteria.create(validItems);
+
+        expect(criteria.hasLabel("存在しない評定")).toBe(false);
+      });
+    });
   });
 
   describe("異常系", () => {
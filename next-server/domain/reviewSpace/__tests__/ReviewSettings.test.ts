@@ -6,6 +6,7 @@ import {
   DEFAULT_COMMENT_FORMAT,
 } from "../ReviewSettings";
 import { DEFAULT_EVALUATION_CRITERIA } from "../EvaluationCriteria";
+import { DEFAULT_CHUNKING_SETTINGS } from "../ChunkingSettings";
 
 describe("ReviewSettings", () => {
   // テスト用の有効なレビュー設定
@@ -157,6 +158,20 @@ describe("ReviewSettings", () => {
         expect(dto.concurrentReviewItems).toBe(DEFAULT_CONCURRENT_REVIEW_ITEMS);
         expect(dto.commentFormat).toBe(DEFAULT_COMMENT_FORMAT);
         expect(dto.evaluationCriteria.length).toBe(4);
+        expect(dto.chunking).toEqual(DEFAULT_CHUNKING_SETTINGS);
+      });
+
+      it("ドキュメント分割設定をDTOに含める", () => {
+        const settings = ReviewSettings.create({
+          ...validProps,
+          chunking: { strategy: "structure", chunkSize: 16000 },
+        });
+
+        expect(settings.toDto().chunking).toEqual({
+          ...DEFAULT_CHUNKING_SETTINGS,
+          strategy: "structure",
+          chunkSize: 16000,
+        });
       });
     });
 
@@ -207,6 +222,14 @@ describe("ReviewSettings", () => {
         ).toThrow();
       });
 
+      it("ドキュメント分割設定が不正な場合はエラーをスローする", () => {
+        expect(() =>
+          ReviewSettings.create({
+            chunking: { chunkSize: 100 },
+          }),
+        ).toThrow();
+      });
+
       it("同時レビュー項目数が負の値の場合はエラーをスローする", () => {
         expect(() =>
           ReviewSettings.create({
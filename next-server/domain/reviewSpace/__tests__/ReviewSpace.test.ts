@@ -443,6 +443,55 @@ describe("ReviewSpace", () => {
         expect(updated.checklistGenerationError).toBe("保持されるエラー");
       });
     });
+
+    describe("linkChecklistTemplate / unlinkChecklistTemplate", () => {
+      const templateId = "323e4567-e89b-12d3-a456-426614174002";
+
+      it("テンプレートのバージョンにリンクした新しいインスタンスを返す", () => {
+        const reviewSpace = ReviewSpace.create({
+          projectId: validProjectId,
+          name: "テスト",
+        });
+
+        const linked = reviewSpace.linkChecklistTemplate(templateId, 2);
+
+        expect(linked.checklistTemplateId?.value).toBe(templateId);
+        expect(linked.checklistTemplateVersion).toBe(2);
+        expect(linked.toDto()).toMatchObject({
+          checklistTemplateId: templateId,
+          checklistTemplateVersion: 2,
+        });
+        expect(reviewSpace.checklistTemplateId).toBeNull();
+      });
+
+      it("リンクを解除するとテンプレートIDとバージョンがnullになる", () => {
+        const reviewSpace = ReviewSpace.create({
+          projectId: validProjectId,
+          name: "テスト",
+        }).linkChecklistTemplate(templateId, 1);
+
+        const unlinked = reviewSpace.unlinkChecklistTemplate();
+
+        expect(unlinked.checklistTemplateId).toBeNull();
+        expect(unlinked.checklistTemplateVersion).toBeNull();
+      });
+
+      it("テンプレート削除でIDのみnullになった場合はバージョンも復元しない", () => {
+        const reviewSpace = ReviewSpace.reconstruct({
+          id: "423e4567-e89b-12d3-a456-426614174003",
+          projectId: validProjectId,
+          name: "テスト",
+          description: null,
+          defaultReviewSettings: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          checklistTemplateId: null,
+          checklistTemplateVersion: 3,
+        });
+
+        expect(reviewSpace.checklistTemplateVersion).toBeNull();
+      });
+    });
   });
 
   describe("異常系", () => {
@@ -6,6 +6,14 @@ export {
   EvaluationCriteria,
   DEFAULT_EVALUATION_CRITERIA,
 } from "./EvaluationCriteria";
+export {
+  ChunkingSettings,
+  CHUNKING_STRATEGY,
+  CHUNKING_STRATEGY_LABELS,
+  DEFAULT_CHUNKING_SETTINGS,
+  type ChunkingStrategy,
+  type ChunkingSettingsDto,
+} from "./ChunkingSettings";
 export {
   ReviewSettings,
   type ReviewSettingsProps,
@@ -0,0 +1,88 @@
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * プラグインフックポイント定数
+ * - beforeExtraction: テキスト抽出前（バイナリの差し替え、独自形式のテキスト化）
+ * - afterExtraction: テキスト抽出後（抽出テキストの加工）
+ * - beforePromptBuilding: プロンプト構築前（チェック項目・追加指示・ドキュメントの加工）
+ * - afterResults: レビュー結果保存前（レビュー結果の加工）
+ */
+export const PLUGIN_HOOK_POINT = {
+  BEFORE_EXTRACTION: "beforeExtraction",
+  AFTER_EXTRACTION: "afterExtraction",
+  BEFORE_PROMPT_BUILDING: "beforePromptBuilding",
+  AFTER_RESULTS: "afterResults",
+} as const;
+
+export type PluginHookPointValue =
+  (typeof PLUGIN_HOOK_POINT)[keyof typeof PLUGIN_HOOK_POINT];
+
+/**
+ * プラグインフックポイント値オブジェクト
+ * プラグインが処理に介入するタイミングを表す
+ */
+export class PluginHookPoint {
+  private readonly _value: PluginHookPointValue;
+
+  private constructor(value: PluginHookPointValue) {
+    this._value = value;
+  }
+
+  /**
+   * 新規フックポイントを生成する
+   * @throws ドメインバリデーションエラー - フックポイントが不正な場合
+   */
+  static create(value: string): PluginHookPoint {
+    PluginHookPoint.validate(value);
+    return new PluginHookPoint(value as PluginHookPointValue);
+  }
+
+  /**
+   * 既存のフックポイント文字列から復元する
+   * @throws ドメインバリデーションエラー - フックポイントが不正な場合
+   */
+  static reconstruct(value: string): PluginHookPoint {
+    PluginHookPoint.validate(value);
+    return new PluginHookPoint(value as PluginHookPointValue);
+  }
+
+  /**
+   * 文字列がフックポイントとして有効か判定する
+   */
+  static isValid(value: string): value is PluginHookPointValue {
+    return Object.values(PLUGIN_HOOK_POINT).includes(
+      value as PluginHookPointValue,
+    );
+  }
+
+  /**
+   * フックポイント値の検証
+   * @throws ドメインバリデーションエラー - フックポイントが不正な場合
+   */
+  private static validate(value: string): void {
+    if (!PluginHookPoint.isValid(value)) {
+      throw domainValidationError("REVIEW_SPACE_PLUGIN_HOOK_POINT_INVALID");
+    }
+  }
+
+  /**
+   * フックポイント値を取得
+   */
+  get value(): PluginHookPointValue {
+    return this._value;
+  }
+
+  /**
+   * 等価性の比較
+   */
+  equals(other: PluginHookPoint): boolean {
+    return this._value === other._value;
+  }
+
+  /**
+   * 文字列表現
+   */
+  toString(): string {
+    return this._value;
+  }
+}
@@ -0,0 +1,360 @@
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { domainValidationError } from "@/lib/server/error";
+import { ReviewSpacePluginId } from "./ReviewSpacePluginId";
+import { PluginHookPoint, PluginHookPointValue } from "./PluginHookPoint";
+
+/**
+ * プラグイン実行タイムアウトのデフォルト値（ミリ秒）
+ */
+export const DEFAULT_PLUGIN_TIMEOUT_MS = 10000;
+
+/**
+ * レビュースペースプラグインDTO
+ * アプリケーション層への出力用（スクリプトの保存先パスは含めない）
+ */
+export interface ReviewSpacePluginDto {
+  id: string;
+  reviewSpaceId: string;
+  name: string;
+  hookPoints: PluginHookPointValue[];
+  extensions: string[];
+  timeoutMs: number;
+  isEnabled: boolean;
+  scriptSize: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * レビュースペースプラグイン作成パラメータ
+ * 注: スクリプトの保存先パスはファイル保存後に設定される
+ */
+export interface CreateReviewSpacePluginParams {
+  reviewSpaceId: string;
+  name: string;
+  hookPoints: string[];
+  extensions?: string[];
+  timeoutMs?: number;
+  scriptSize: number;
+}
+
+/**
+ * レビュースペースプラグイン復元パラメータ
+ */
+export interface ReconstructReviewSpacePluginParams {
+  id: string;
+  reviewSpaceId: string;
+  name: string;
+  hookPoints: string[];
+  extensions: string[];
+  timeoutMs: number;
+  isEnabled: boolean;
+  scriptPath: string;
+  scriptSize: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * レビュースペースプラグインエンティティ
+ * レビュースペースにアップロードされた単一JSファイルのプラグインを表す
+ * 登録されたフックポイントでレビュー対象の前処理・後処理を行う
+ */
+export class ReviewSpacePlugin {
+  private static readonly MAX_NAME_LENGTH = 100;
+  private static readonly MAX_EXTENSIONS = 50;
+  private static readonly MIN_TIMEOUT_MS = 100;
+  private static readonly MAX_TIMEOUT_MS = 60000;
+
+  private readonly _id: ReviewSpacePluginId;
+  private readonly _reviewSpaceId: ReviewSpaceId;
+  private readonly _name: string;
+  private readonly _hookPoints: PluginHookPoint[];
+  private readonly _extensions: string[];
+  private readonly _timeoutMs: number;
+  private readonly _isEnabled: boolean;
+  private readonly _scriptPath: string;
+  private readonly _scriptSize: number;
+  private readonly _createdAt: Date;
+  private readonly _updatedAt: Date;
+
+  private constructor(
+    id: ReviewSpacePluginId,
+    reviewSpaceId: ReviewSpaceId,
+    name: string,
+    hookPoints: PluginHookPoint[],
+    extensions: string[],
+    timeoutMs: number,
+    isEnabled: boolean,
+    scriptPath: string,
+    scriptSize: number,
+    createdAt: Date,
+    updatedAt: Date,
+  ) {
+    this._id = id;
+    this._reviewSpaceId = reviewSpaceId;
+    this._name = name;
+    this._hookPoints = hookPoints;
+    this._extensions = extensions;
+    this._timeoutMs = timeoutMs;
+    this._isEnabled = isEnabled;
+    this._scriptPath = scriptPath;
+    this._scriptSize = scriptSize;
+    this._createdAt = createdAt;
+    this._updatedAt = updatedAt;
+  }
+
+  /**
+   * 新規プラグインを作成する
+   * 作成直後は有効状態となる
+   * @throws ドメインバリデーションエラー - バリデーション失敗時
+   */
+  static create(params: CreateReviewSpacePluginParams): ReviewSpacePlugin {
+    const name = params.name?.trim() ?? "";
+    ReviewSpacePlugin.validateName(name);
+
+    const hookPoints = ReviewSpacePlugin.toHookPoints(params.hookPoints);
+    if (hookPoints.length === 0) {
+      throw domainValidationError("REVIEW_SPACE_PLUGIN_NO_HOOKS");
+    }
+
+    const extensions = ReviewSpacePlugin.normalizeExtensions(
+      params.extensions ?? [],
+    );
+
+    const timeoutMs = params.timeoutMs ?? DEFAULT_PLUGIN_TIMEOUT_MS;
+    ReviewSpacePlugin.validateTimeout(timeoutMs);
+
+    const now = new Date();
+    return new ReviewSpacePlugin(
+      ReviewSpacePluginId.create(),
+      ReviewSpaceId.reconstruct(params.reviewSpaceId),
+      name,
+      hookPoints,
+      extensions,
+      timeoutMs,
+      true,
+      "", // スクリプトパスは保存後に設定
+      params.scriptSize,
+      now,
+      now,
+    );
+  }
+
+  /**
+   * DBから取得したデータからプラグインを復元する
+   */
+  static reconstruct(
+    params: ReconstructReviewSpacePluginParams,
+  ): ReviewSpacePlugin {
+    return new ReviewSpacePlugin(
+      ReviewSpacePluginId.reconstruct(params.id),
+      ReviewSpaceId.reconstruct(params.reviewSpaceId),
+      params.name,
+      params.hookPoints.map((hp) => PluginHookPoint.reconstruct(hp)),
+      params.extensions,
+      params.timeoutMs,
+      params.isEnabled,
+      params.scriptPath,
+      params.scriptSize,
+      params.createdAt,
+      params.updatedAt,
+    );
+  }
+
+  /**
+   * プラグイン名の検証
+   */
+  private static validateName(name: string): void {
+    if (!name) {
+      throw domainValidationError("REVIEW_SPACE_PLUGIN_NAME_EMPTY");
+    }
+    if (name.length > ReviewSpacePlugin.MAX_NAME_LENGTH) {
+      throw domainValidationError("REVIEW_SPACE_PLUGIN_NAME_TOO_LONG");
+    }
+  }
+
+  /**
+   * タイムアウト値の検証
+   */
+  private static validateTimeout(timeoutMs: number): void {
+    if (
+      !Number.isInteger(timeoutMs) ||
+      timeoutMs < ReviewSpacePlugin.MIN_TIMEOUT_MS ||
+      timeoutMs > ReviewSpacePlugin.MAX_TIMEOUT_MS
+    ) {
+      throw domainValidationError("REVIEW_SPACE_PLUGIN_TIMEOUT_INVALID");
+    }
+  }
+
+  /**
+   * フックポイント文字列を値オブジェクトに変換する（重複は除外）
+   */
+  private static toHookPoints(values: string[]): PluginHookPoint[] {
+    const unique = Array.from(new Set(values));
+    return unique.map((value) => PluginHookPoint.create(value));
+  }
+
+  /**
+   * 拡張子を正規化する（小文字化・先頭ドット付与・重複除外）
+   */
+  private static normalizeExtensions(values: string[]): string[] {
+    const normalized = new Set<string>();
+    for (const value of values) {
+      const trimmed = value.trim().toLowerCase();
+      if (!trimmed) continue;
+      const ext = trimmed.startsWith(".") ? trimmed : `.${trimmed}`;
+      if (!/^\.[a-z0-9_+-]+(\.[a-z0-9_+-]+)*$/.test(ext)) {
+        throw domainValidationError("REVIEW_SPACE_PLUGIN_EXTENSION_INVALID");
+      }
+      normalized.add(ext);
+    }
+    if (normalized.size > ReviewSpacePlugin.MAX_EXTENSIONS) {
+      throw domainValidationError("REVIEW_SPACE_PLUGIN_EXTENSION_INVALID");
+    }
+    return Array.from(normalized);
+  }
+
+  /**
+   * スクリプト保存先パスを設定した新しいインスタンスを返す
+   */
+  withScriptPath(scriptPath: string): ReviewSpacePlugin {
+    return new ReviewSpacePlugin(
+      this._id,
+      this._reviewSpaceId,
+      this._name,
+      this._hookPoints,
+      this._extensions,
+      this._timeoutMs,
+      this._isEnabled,
+      scriptPath,
+      this._scriptSize,
+      this._createdAt,
+      this._updatedAt,
+    );
+  }
+
+  /**
+   * 有効/無効を切り替える
+   * 新しいインスタンスを返す（不変性を保持）
+   */
+  updateEnabled(isEnabled: boolean): ReviewSpacePlugin {
+    return new ReviewSpacePlugin(
+      this._id,
+      this._reviewSpaceId,
+      this._name,
+      this._hookPoints,
+      this._extensions,
+      this._timeoutMs,
+      isEnabled,
+      this._scriptPath,
+      this._scriptSize,
+      this._createdAt,
+      new Date(),
+    );
+  }
+
+  /**
+   * タイムアウトを更新する
+   * 新しいインスタンスを返す（不変性を保持）
+   * @throws ドメインバリデーションエラー - タイムアウト値が不正な場合
+   */
+  updateTimeout(timeoutMs: number): ReviewSpacePlugin {
+    ReviewSpacePlugin.validateTimeout(timeoutMs);
+    return new ReviewSpacePlugin(
+      this._id,
+      this._reviewSpaceId,
+      this._name,
+      this._hookPoints,
+      this._extensions,
+      timeoutMs,
+      this._isEnabled,
+      this._scriptPath,
+      this._scriptSize,
+      this._createdAt,
+      new Date(),
+    );
+  }
+
+  /**
+   * 指定したフックポイントに登録されているか
+   */
+  hasHook(hookPoint: PluginHookPointValue): boolean {
+    return this._hookPoints.some((hp) => hp.value === hookPoint);
+  }
+
+  /**
+   * 指定したファイル名をbeforeExtractionで処理対象とするか
+   * 拡張子が宣言されていない場合は全ファイルを対象とする
+   */
+  handlesFile(fileName: string): boolean {
+    if (this._extensions.length === 0) {
+      return true;
+    }
+    const lower = fileName.toLowerCase();
+    return this._extensions.some((ext) => lower.endsWith(ext));
+  }
+
+  /**
+   * DTOに変換する
+   */
+  toDto(): ReviewSpacePluginDto {
+    return {
+      id: this._id.value,
+      reviewSpaceId: this._reviewSpaceId.value,
+      name: this._name,
+      hookPoints: this._hookPoints.map((hp) => hp.value),
+      extensions: [...this._extensions],
+      timeoutMs: this._timeoutMs,
+      isEnabled: this._isEnabled,
+      scriptSize: this._scriptSize,
+      createdAt: this._createdAt,
+      updatedAt: this._updatedAt,
+    };
+  }
+
+  // ゲッター
+  get id(): ReviewSpacePluginId {
+    return this._id;
+  }
+
+  get reviewSpaceId(): ReviewSpaceId {
+    return this._reviewSpaceId;
+  }
+
+  get name(): string {
+    return this._name;
+  }
+
+  get hookPoints(): PluginHookPoint[] {
+    return [...this._hookPoints];
+  }
+
+  get extensions(): string[] {
+    return [...this._extensions];
+  }
+
+  get timeoutMs(): number {
+    return this._timeoutMs;
+  }
+
+  get isEnabled(): boolean {
+    return this._isEnabled;
+  }
+
+  get scriptPath(): string {
+    return this._scriptPath;
+  }
+
+  get scriptSize(): number {
+    return this._scriptSize;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this._updatedAt;
+  }
+}
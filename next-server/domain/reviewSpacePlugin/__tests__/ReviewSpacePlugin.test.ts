@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  ReviewSpacePlugin,
+  DEFAULT_PLUGIN_TIMEOUT_MS,
+} from "../ReviewSpacePlugin";
+import { PLUGIN_HOOK_POINT } from "../PluginHookPoint";
+
+describe("ReviewSpacePlugin", () => {
+  const validReviewSpaceId = "123e4567-e89b-12d3-a456-426614174000";
+  const fixedDate = new Date("2024-01-01T00:00:00.000Z");
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(fixedDate);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createPlugin = () =>
+    ReviewSpacePlugin.create({
+      reviewSpaceId: validReviewSpaceId,
+      name: "ソースコード変換",
+      hookPoints: [PLUGIN_HOOK_POINT.BEFORE_EXTRACTION],
+      extensions: ["ts", ".PY"],
+      scriptSize: 1024,
+    });
+
+  describe("create", () => {
+    it("有効なデータでプラグインを作成できる", () => {
+      const plugin = createPlugin();
+
+      expect(plugin.id.value).toBeDefined();
+      expect(plugin.reviewSpaceId.value).toBe(validReviewSpaceId);
+      expect(plugin.name).toBe("ソースコード変換");
+      expect(plugin.hookPoints.map((hp) => hp.value)).toEqual([
+        "beforeExtraction",
+      ]);
+      expect(plugin.timeoutMs).toBe(DEFAULT_PLUGIN_TIMEOUT_MS);
+      expect(plugin.isEnabled).toBe(true);
+      expect(plugin.scriptPath).toBe("");
+      expect(plugin.scriptSize).toBe(1024);
+      expect(plugin.createdAt).toEqual(fixedDate);
+    });
+
+    it("拡張子が小文字・ドット付きに正規化される", () => {
+      const plugin = createPlugin();
+
+      expect(plugin.extensions).toEqual([".ts", ".py"]);
+    });
+
+    it("重複したフックポイントは1つにまとめられる", () => {
+      const plugin = ReviewSpacePlugin.create({
+        reviewSpaceId: validReviewSpaceId,
+        name: "plugin",
+        hookPoints: ["afterResults", "afterResults"],
+        scriptSize: 10,
+      });
+
+      expect(plugin.hookPoints).toHaveLength(1);
+    });
+
+    it("フックポイントが空の場合はエラー", () => {
+      expect(() =>
+        ReviewSpacePlugin.create({
+          reviewSpaceId: validReviewSpaceId,
+          name: "plugin",
+          hookPoints: [],
+          scriptSize: 10,
+        }),
+      ).toThrow();
+    });
+
+    it("未知のフックポイントはエラー", () => {
+      expect(() =>
+        ReviewSpacePlugin.create({
+          reviewSpaceId: validReviewSpaceId,
+          name: "plugin",
+          hookPoints: ["onSomething"],
+          scriptSize: 10,
+        }),
+      ).toThrow();
+    });
+
+    it("名前が空の場合はエラー", () => {
+      expect(() =>
+        ReviewSpacePlugin.create({
+          reviewSpaceId: validReviewSpaceId,
+          name: "   ",
+          hookPoints: ["afterResults"],
+          scriptSize: 10,
+        }),
+      ).toThrow();
+    });
+
+    it("不正な拡張子はエラー", () => {
+      expect(() =>
+        ReviewSpacePlugin.create({
+          reviewSpaceId: validReviewSpaceId,
+          name: "plugin",
+          hookPoints: ["beforeExtraction"],
+          extensions: ["../etc"],
+          scriptSize: 10,
+        }),
+      ).toThrow();
+    });
+
+    it("範囲外のタイムアウトはエラー", () => {
+      expect(() =>
+        ReviewSpacePlugin.create({
+          reviewSpaceId: validReviewSpaceId,
+          name: "plugin",
+          hookPoints: ["afterResults"],
+          timeoutMs: 50,
+          scriptSize: 10,
+        }),
+      ).toThrow();
+    });
+  });
+
+  describe("更新系メソッド", () => {
+    it("withScriptPathでスクリプトパスを設定できる", () => {
+      const plugin = createPlugin().withScriptPath("/tmp/plugin.js");
+
+      expect(plugin.scriptPath).toBe("/tmp/plugin.js");
+    });
+
+    it("updateEnabledで無効化した新しいインスタンスを返す", () => {
+      const plugin = createPlugin();
+      vi.setSystemTime(new Date("2024-01-02T00:00:00.000Z"));
+      const disabled = plugin.updateEnabled(false);
+
+      expect(plugin.isEnabled).toBe(true);
+      expect(disabled.isEnabled).toBe(false);
+      expect(disabled.updatedAt).toEqual(new Date("2024-01-02T00:00:00.000Z"));
+    });
+
+    it("updateTimeoutでタイムアウトを更新できる", () => {
+      const plugin = createPlugin().updateTimeout(30000);
+
+      expect(plugin.timeoutMs).toBe(30000);
+    });
+
+    it("updateTimeoutに範囲外の値を渡すとエラー", () => {
+      expect(() => createPlugin().updateTimeout(60001)).toThrow();
+    });
+  });
+
+  describe("判定メソッド", () => {
+    it("hasHookで登録済みフックを判定できる", () => {
+      const plugin = createPlugin();
+
+      expect(plugin.hasHook("beforeExtraction")).toBe(true);
+      expect(plugin.hasHook("afterResults")).toBe(false);
+    });
+
+    it("handlesFileで宣言済み拡張子のみ対象と判定する", () => {
+      const plugin = createPlugin();
+
+      expect(plugin.handlesFile("src/Main.TS")).toBe(true);
+      expect(plugin.handlesFile("doc.pdf")).toBe(false);
+    });
+
+    it("拡張子未宣言の場合は全ファイルを対象とする", () => {
+      const plugin = ReviewSpacePlugin.create({
+        reviewSpaceId: validReviewSpaceId,
+        name: "plugin",
+        hookPoints: ["beforeExtraction"],
+        scriptSize: 10,
+      });
+
+      expect(plugin.handlesFile("doc.pdf")).toBe(true);
+    });
+  });
+
+  describe("toDto", () => {
+    it("スクリプトパスを含まないDTOに変換する", () => {
+      const dto = createPlugin().withScriptPath("/tmp/plugin.js").toDto();
+
+      expect(dto).toEqual({
+        id: expect.any(String),
+        reviewSpaceId: validReviewSpaceId,
+        name: "ソースコード変換",
+        hookPoints: ["beforeExtraction"],
+        extensions: [".ts", ".py"],
+        timeoutMs: DEFAULT_PLUGIN_TIMEOUT_MS,
+        isEnabled: true,
+        scriptSize: 1024,
+        createdAt: fixedDate,
+        updatedAt: fixedDate,
+      });
+    });
+  });
+});
@@ -0,0 +1,13 @@
+export { ReviewSpacePluginId } from "./ReviewSpacePluginId";
+export {
+  PluginHookPoint,
+  PLUGIN_HOOK_POINT,
+  type PluginHookPointValue,
+} from "./PluginHookPoint";
+export {
+  ReviewSpacePlugin,
+  DEFAULT_PLUGIN_TIMEOUT_MS,
+  type ReviewSpacePluginDto,
+  type CreateReviewSpacePluginParams,
+  type ReconstructReviewSpacePluginParams,
+} from "./ReviewSpacePlugin";
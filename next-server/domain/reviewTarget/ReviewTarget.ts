@@ -1,4 +1,6 @@
 import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { UserId } from "@/domain/user";
+import { domainValidationError } from "@/lib/server/error";
 import {
   ReviewSettings,
   ReviewSettingsDto,
@@ -22,6 +24,15 @@ export interface CreateReviewTargetParams {
   reviewType?: string | null;
 }
 
+/**
+ * リビジョン作成パラメータ
+ * レビュースペースとリビジョングループは前のリビジョンから引き継ぐ
+ */
+export type CreateReviewTargetRevisionParams = Omit<
+  CreateReviewTargetParams,
+  "reviewSpaceId"
+>;
+
 /**
  * レビュー対象復元パラメータ
  */
@@ -32,6 +43,14 @@ export interface ReconstructReviewTargetParams {
   status: string;
   reviewSettings: ReviewSettingsProps | null;
   reviewType: string | null;
+  /** リビジョングループID（省略時は自身のIDで、単独のレビュー対象として扱う） */
+  revisionGroupId?: string | null;
+  /** リビジョン番号（省略時は1） */
+  revision?: number | null;
+  /** 承認したユーザID（未承認またはユーザ削除後はnull） */
+  signedOffBy?: string | null;
+  /** 承認日時（未承認の場合はnull） */
+  signedOffAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -42,10 +61,16 @@ export interface ReconstructReviewTargetParams {
 export interface ReviewTargetDto {
   id: string;
   reviewSpaceId: string;
+  /** リビジョングループID（最初のリビジョンのレビュー対象ID） */
+  revisionGroupId: string;
+  /** リビジョン番号（1始まり） */
+  revision: number;
   name: string;
   status: ReviewTargetStatusType;
   reviewSettings: ReviewSettingsDto | null;
   reviewType: ReviewTypeValue | null;
+  signedOffBy: string | null;
+  signedOffAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -56,6 +81,8 @@ export interface ReviewTargetDto {
 export interface ReviewTargetListItemDto {
   id: string;
   name: string;
+  /** リビジョン番号（1始まり） */
+  revision: number;
   status: ReviewTargetStatusType;
   createdAt: Date;
   updatedAt: Date;
@@ -64,33 +91,50 @@ export interface ReviewTargetListItemDto {
 /**
  * レビュー対象エンティティ
  * AIレビューの対象となるドキュメント群を表す
+ *
+ * 修正したドキュメントを再レビューする場合は、前のリビジョンと同じリビジョングループに
+ * 新しいリビジョンとしてレビュー対象を作成する（前のリビジョンのレビュー結果はそのまま残す）
  */
 export class ReviewTarget {
   private readonly _id: ReviewTargetId;
   private readonly _reviewSpaceId: ReviewSpaceId;
+  /** リビジョングループID（最初のリビジョンのレビュー対象ID） */
+  private readonly _revisionGroupId: ReviewTargetId;
+  /** リビジョン番号（1始まり） */
+  private readonly _revision: number;
   private readonly _name: ReviewTargetName;
   private readonly _status: ReviewTargetStatus;
   private readonly _reviewSettings: ReviewSettings | null;
   private readonly _reviewType: ReviewType | null;
+  private readonly _signedOffBy: UserId | null;
+  private readonly _signedOffAt: Date | null;
   private readonly _createdAt: Date;
   private readonly _updatedAt: Date;
 
   private constructor(
     id: ReviewTargetId,
     reviewSpaceId: ReviewSpaceId,
+    revisionGroupId: ReviewTargetId,
+    revision: number,
     name: ReviewTargetName,
     status: ReviewTargetStatus,
     reviewSettings: ReviewSettings | null,
     reviewType: ReviewType | null,
+    signedOffBy: UserId | null,
+    signedOffAt: Date | null,
     createdAt: Date,
     updatedAt: Date,
   ) {
     this._id = id;
     this._reviewSpaceId = reviewSpaceId;
+    this._revisionGroupId = revisionGroupId;
+    this._revision = revision;
     this._name = name;
     this._status = status;
     this._reviewSettings = reviewSettings;
     this._reviewType = reviewType;
+    this._signedOffBy = signedOffBy;
+    this._signedOffAt = signedOffAt;
     this._createdAt = createdAt;
     this._updatedAt = updatedAt;
   }
@@ -111,18 +155,55 @@ export class ReviewTarget {
     // レビュー種別の生成（nullの場合はnullを維持）
     const type = reviewType ? ReviewType.create(reviewType) : null;
 
+    // 最初のリビジョンは自身のIDをリビジョングループIDとする
+    const id = ReviewTargetId.create();
+
     return new ReviewTarget(
-      ReviewTargetId.create(),
+      id,
       ReviewSpaceId.reconstruct(reviewSpaceId),
+      id,
+      1,
       ReviewTargetName.create(name),
       ReviewTargetStatus.create(), // 初期状態はpending
       settings,
       type,
+      null, // 未承認
+      null,
       now,
       now,
     );
   }
 
+  /**
+   * 前のリビジョンに続く新しいリビジョンを作成する
+   * 呼び出し側はリビジョングループ内の最新リビジョンを渡すこと
+   * @throws ドメインバリデーションエラー - バリデーション失敗時
+   */
+  static createRevision(
+    latestRevision: ReviewTarget,
+    params: CreateReviewTargetRevisionParams,
+  ): ReviewTarget {
+    const target = ReviewTarget.create({
+      ...params,
+      reviewSpaceId: latestRevision.reviewSpaceId.value,
+    });
+
+    return new ReviewTarget(
+      target._id,
+      target._reviewSpaceId,
+      latestRevision._revisionGroupId,
+      latestRevision._revision + 1,
+      target._name,
+      target._status,
+      target._reviewSettings,
+      target._reviewType,
+      null,
+      null,
+      target._createdAt,
+      target._updatedAt,
+    );
+  }
+
   /**
    * DBから取得したデータからレビュー対象を復元する
    */
@@ -140,10 +221,14 @@ export class ReviewTarget {
     return new ReviewTarget(
       ReviewTargetId.reconstruct(params.id),
       ReviewSpaceId.reconstruct(params.reviewSpaceId),
+      ReviewTargetId.reconstruct(params.revisionGroupId ?? params.id),
+      params.revision ?? 1,
       ReviewTargetName.reconstruct(params.name),
       ReviewTargetStatus.reconstruct(params.status),
       settings,
       type,
+      params.signedOffBy ? UserId.reconstruct(params.signedOffBy) : null,
+      params.signedOffAt ?? null,
       params.createdAt,
       params.updatedAt,
     );
@@ -158,10 +243,14 @@ export class ReviewTarget {
     return new ReviewTarget(
       this._id,
       this._reviewSpaceId,
+      this._revisionGroupId,
+      this._revision,
       this._name,
       this._status.toQueued(),
       this._reviewSettings,
       this._reviewType,
+      this._signedOffBy,
+      this._signedOffAt,
       this._createdAt,
       new Date(),
     );
@@ -176,10 +265,14 @@ export class ReviewTarget {
     return new ReviewTarget(
       this._id,
       this._reviewSpaceId,
+      this._revisionGroupId,
+      this._revision,
       this._name,
       this._status.toReviewing(),
       this._reviewSettings,
       this._reviewType,
+      this._signedOffBy,
+      this._signedOffAt,
       this._createdAt,
       new Date(),
     );
@@ -194,10 +287,14 @@ export class ReviewTarget {
     return new ReviewTarget(
       this._id,
       this._reviewSpaceId,
+      this._revisionGroupId,
+      this._revision,
       this._name,
       this._status.toCompleted(),
       this._reviewSettings,
       this._reviewType,
+      this._signedOffBy,
+      this._signedOffAt,
       this._createdAt,
       new Date(),
     );
@@ -212,10 +309,14 @@ export class ReviewTarget {
     return new ReviewTarget(
       this._id,
       this._reviewSpaceId,
+      this._revisionGroupId,
+      this._revision,
       this._name,
       this._status.toError(),
       this._reviewSettings,
       this._reviewType,
+      this._signedOffBy,
+      this._signedOffAt,
       this._createdAt,
       new Date(),
     );
@@ -234,6 +335,7 @@ export class ReviewTarget {
    * - completedまたはerror状態かつレビュー実行中でない場合にリトライ可能
    * - ただし、外部API呼び出しレビュー（reviewType=api）の場合はリトライ不可
    *   （ドキュメントキャッシュが保存されないため）
+   * - 承認済みの場合もリトライ不可（承認後の結果を保護するため）
    */
   canRetry(): boolean {
     // 外部API呼び出しレビューの場合はリトライ不可
@@ -241,6 +343,11 @@ export class ReviewTarget {
       return false;
     }
 
+    // 承認済みの場合は承認を取り消すまでリトライ不可
+    if (this.isSignedOff()) {
+      return false;
+    }
+
     return (
       (this._status.isCompleted() || this._status.isError()) &&
       !this._status.isReviewing()
@@ -257,10 +364,84 @@ export class ReviewTarget {
     return new ReviewTarget(
       this._id,
       this._reviewSpaceId,
+      this._revisionGroupId,
+      this._revision,
       this._name,
       this._status.toQueued(),
       this._reviewSettings,
       this._reviewType,
+      this._signedOffBy,
+      this._signedOffAt,
+      this._createdAt,
+      new Date(),
+    );
+  }
+
+  /**
+   * 同じリビジョングループに属するか（同一ドキュメントの別リビジョンか）
+   */
+  isRevisionOf(other: ReviewTarget): boolean {
+    return this._revisionGroupId.equals(other._revisionGroupId);
+  }
+
+  /**
+   * 承認済みかどうか
+   */
+  isSignedOff(): boolean {
+    return this._signedOffAt !== null;
+  }
+
+  /**
+   * レビュー結果を承認する（サインオフ）
+   * 新しいReviewTargetインスタンスを返す（不変性を保持）
+   * @throws ドメインバリデーションエラー - 既に承認済み、またはレビューが完了していない場合
+   */
+  signOff(userId: string): ReviewTarget {
+    if (this.isSignedOff()) {
+      throw domainValidationError("REVIEW_TARGET_ALREADY_SIGNED_OFF");
+    }
+    if (!this._status.isCompleted()) {
+      throw domainValidationError("REVIEW_TARGET_SIGN_OFF_NOT_COMPLETED");
+    }
+
+    const now = new Date();
+    return new ReviewTarget(
+      this._id,
+      this._reviewSpaceId,
+      this._revisionGroupId,
+      this._revision,
+      this._name,
+      this._status,
+      this._reviewSettings,
+      this._reviewType,
+      UserId.reconstruct(userId),
+      now,
+      this._createdAt,
+      now,
+    );
+  }
+
+  /**
+   * 承認を取り消す
+   * 新しいReviewTargetインスタンスを返す（不変性を保持）
+   * @throws ドメインバリデーションエラー - 承認されていない場合
+   */
+  revokeSignOff(): ReviewTarget {
+    if (!this.isSignedOff()) {
+      throw domainValidationError("REVIEW_TARGET_NOT_SIGNED_OFF");
+    }
+
+    return new ReviewTarget(
+      this._id,
+      this._reviewSpaceId,
+      this._revisionGroupId,
+      this._revision,
+      this._name,
+      this._status,
+      this._reviewSettings,
+      this._reviewType,
+      null,
+      null,
       this._createdAt,
       new Date(),
     );
@@ -273,10 +454,14 @@ export class ReviewTarget {
     return new ReviewTarget(
       this._id,
       this._reviewSpaceId,
+      this._revisionGroupId,
+      this._revision,
       this._name,
       this._status,
       settings,
       this._reviewType,
+      this._signedOffBy,
+      this._signedOffAt,
       this._createdAt,
       new Date(),
     );
@@ -289,10 +474,14 @@ export class ReviewTarget {
     return new ReviewTarget(
       this._id,
       this._reviewSpaceId,
+      this._revisionGroupId,
+      this._revision,
       this._name,
       this._status,
       this._reviewSettings,
       reviewType,
+      this._signedOffBy,
+      this._signedOffAt,
       this._createdAt,
       new Date(),
     );
@@ -305,10 +494,14 @@ export class ReviewTarget {
     return {
       id: this._id.value,
       reviewSpaceId: this._reviewSpaceId.value,
+      revisionGroupId: this._revisionGroupId.value,
+      revision: this._revision,
       name: this._name.value,
       status: this._status.value,
       reviewSettings: this._reviewSettings?.toDto() ?? null,
       reviewType: this._reviewType?.value ?? null,
+      signedOffBy: this._signedOffBy?.value ?? null,
+      signedOffAt: this._signedOffAt,
       createdAt: this._createdAt,
       updatedAt: this._updatedAt,
     };
@@ -321,6 +514,7 @@ export class ReviewTarget {
     return {
       id: this._id.value,
       name: this._name.value,
+      revision: this._revision,
       status: this._status.value,
       createdAt: this._createdAt,
       updatedAt: this._updatedAt,
@@ -336,6 +530,14 @@ export class ReviewTarget {
     return this._reviewSpaceId;
   }
 
+  get revisionGroupId(): ReviewTargetId {
+    return this._revisionGroupId;
+  }
+
+  get revision(): number {
+    return this._revision;
+  }
+
   get name(): ReviewTargetName {
     return this._name;
   }
@@ -352,6 +554,14 @@ export class ReviewTarget {
     return this._reviewType;
   }
 
+  get signedOffBy(): UserId | null {
+    return this._signedOffBy;
+  }
+
+  get signedOffAt(): Date | null {
+    return this._signedOffAt;
+  }
+
   get createdAt(): Date {
     return this._createdAt;
   }
@@ -414,6 +414,145 @@ describe("ReviewTarget", () => {
       });
     });
 
+    describe("signOff / revokeSignOff", () => {
+      const testUserId = "550e8400-e29b-41d4-a716-446655440003";
+
+      it("completed状態のレビュー対象を承認できる", () => {
+        const completedTarget = ReviewTarget.create({
+          reviewSpaceId: testReviewSpaceId,
+          name: "テストレビュー対象",
+        })
+          .toQueued()
+          .startReviewing()
+          .completeReview();
+
+        const signedOff = completedTarget.signOff(testUserId);
+
+        expect(signedOff.isSignedOff()).toBe(true);
+        expect(signedOff.signedOffBy?.value).toBe(testUserId);
+        expect(signedOff.signedOffAt).toBeInstanceOf(Date);
+        expect(signedOff.toDto().signedOffBy).toBe(testUserId);
+        // 元のインスタンスは変更されない
+        expect(completedTarget.isSignedOff()).toBe(false);
+      });
+
+      it("承認済みのレビュー対象はリトライ不可（false）", () => {
+        const signedOff = ReviewTarget.create({
+          reviewSpaceId: testReviewSpaceId,
+          name: "テストレビュー対象",
+        })
+          .toQueued()
+          .startReviewing()
+          .completeReview()
+          .signOff(testUserId);
+
+        expect(signedOff.canRetry()).toBe(false);
+      });
+
+      it("承認を取り消すと未承認に戻りリトライ可能になる", () => {
+        const revoked = ReviewTarget.create({
+          reviewSpaceId: testReviewSpaceId,
+          name: "テストレビュー対象",
+        })
+          .toQueued()
+          .startReviewing()
+          .completeReview()
+          .signOff(testUserId)
+          .revokeSignOff();
+
+        expect(revoked.isSignedOff()).toBe(false);
+        expect(revoked.signedOffBy).toBeNull();
+        expect(revoked.signedOffAt).toBeNull();
+        expect(revoked.canRetry()).toBe(true);
+      });
+
+      it("承認情報を復元できる", () => {
+        const signedOffAt = new Date("2024-01-01T00:00:00Z");
+        const reviewTarget = ReviewTarget.reconstruct({
+          id: testReviewTargetId,
+          reviewSpaceId: testReviewSpaceId,
+          name: "承認済み",
+          status: REVIEW_TARGET_STATUS.COMPLETED,
+          reviewSettings: null,
+          reviewType: null,
+          signedOffBy: testUserId,
+          signedOffAt,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        });
+
+        expect(reviewTarget.isSignedOff()).toBe(true);
+        expect(reviewTarget.signedOffAt).toBe(signedOffAt);
+      });
+    });
+
+    describe("リビジョン", () => {
+      it("新規作成したレビュー対象は自身をリビジョングループとする第1版になる", () => {
+        const reviewTarget = ReviewTarget.create({
+          reviewSpaceId: testReviewSpaceId,
+          name: "設計書",
+        });
+
+        expect(reviewTarget.revision).toBe(1);
+        expect(reviewTarget.revisionGroupId.equals(reviewTarget.id)).toBe(true);
+      });
+
+      it("リビジョン情報なしで復元した場合は第1版として扱う", () => {
+        const reviewTarget = ReviewTarget.reconstruct({
+          id: testReviewTargetId,
+          reviewSpaceId: testReviewSpaceId,
+          name: "設計書",
+          status: "completed",
+          reviewSettings: null,
+          reviewType: "small",
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        });
+
+        expect(reviewTarget.revision).toBe(1);
+        expect(reviewTarget.revisionGroupId.value).toBe(testReviewTargetId);
+      });
+
+      it("createRevision()で同じリビジョングループの次の版を作成できる", () => {
+        const first = ReviewTarget.create({
+          reviewSpaceId: testReviewSpaceId,
+          name: "設計書",
+        })
+          .toQueued()
+          .startReviewing()
+          .completeReview()
+          .signOff("550e8400-e29b-41d4-a716-446655440003");
+
+        const second = ReviewTarget.createRevision(first, {
+          name: "設計書（修正版）",
+          reviewSettings: testReviewSettings,
+          reviewType: "small",
+        });
+
+        expect(second.id.equals(first.id)).toBe(false);
+        expect(second.reviewSpaceId.value).toBe(testReviewSpaceId);
+        expect(second.revisionGroupId.equals(first.id)).toBe(true);
+        expect(second.revision).toBe(2);
+        expect(second.name.value).toBe("設計書（修正版）");
+        expect(second.status.isPending()).toBe(true);
+        expect(second.isSignedOff()).toBe(false);
+        expect(second.isRevisionOf(first)).toBe(true);
+      });
+
+      it("別のリビジョングループのレビュー対象はisRevisionOf()がfalse", () => {
+        const first = ReviewTarget.create({
+          reviewSpaceId: testReviewSpaceId,
+          name: "設計書",
+        });
+        const other = ReviewTarget.create({
+          reviewSpaceId: testReviewSpaceId,
+          name: "別の設計書",
+        });
+
+        expect(other.isRevisionOf(first)).toBe(false);
+      });
+    });
+
     describe("toDto", () => {
       it("DTOに変換できる", () => {
         const reviewTarget = ReviewTarget.create({
@@ -536,5 +675,40 @@ describe("ReviewTarget", () => {
         expect(() => completedTarget.markAsError()).toThrow();
       });
     });
+
+    describe("承認", () => {
+      const testUserId = "550e8400-e29b-41d4-a716-446655440003";
+
+      it("completed以外の状態では承認できない", () => {
+        const reviewTarget = ReviewTarget.create({
+          reviewSpaceId: testReviewSpaceId,
+          name: "テストレビュー対象",
+        });
+
+        expect(() => reviewTarget.signOff(testUserId)).toThrow();
+      });
+
+      it("承認済みのレビュー対象は再度承認できない", () => {
+        const signedOff = ReviewTarget.create({
+          reviewSpaceId: testReviewSpaceId,
+          name: "テストレビュー対象",
+        })
+          .toQueued()
+          .startReviewing()
+          .completeReview()
+          .signOff(testUserId);
+
+        expect(() => signedOff.signOff(testUserId)).toThrow();
+      });
+
+      it("未承認のレビュー対象は承認を取り消せない", () => {
+        const reviewTarget = ReviewTarget.create({
+          reviewSpaceId: testReviewSpaceId,
+          name: "テストレビュー対象",
+        });
+
+        expect(() => reviewTarget.revokeSignOff()).toThrow();
+      });
+    });
   });
 });
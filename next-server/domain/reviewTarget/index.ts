@@ -8,6 +8,7 @@ export {
 export {
   ReviewTarget,
   type CreateReviewTargetParams,
+  type CreateReviewTargetRevisionParams,
   type ReconstructReviewTargetParams,
   type ReviewTargetDto,
   type ReviewTargetListItemDto,
@@ -0,0 +1,104 @@
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * AI APIレート制限DTO
+ */
+export interface AiApiRateLimitDto {
+  /** 1分あたりの最大リクエスト数（nullの場合は制限なし・上位設定を使用） */
+  requestsPerMinute: number | null;
+  /** 1分あたりの最大トークン数（nullの場合は制限なし・上位設定を使用） */
+  tokensPerMinute: number | null;
+}
+
+/**
+ * AI APIレート制限値オブジェクト
+ * APIキー単位で適用する1分あたりのリクエスト数・トークン数の上限を表現
+ * 各項目は独立しており、未設定（null）の項目は上位の設定（プロジェクト > システム > 環境変数）を使用する
+ */
+export class AiApiRateLimit {
+  private readonly _requestsPerMinute: number | null;
+  private readonly _tokensPerMinute: number | null;
+
+  private constructor(
+    requestsPerMinute: number | null,
+    tokensPerMinute: number | null,
+  ) {
+    this._requestsPerMinute = requestsPerMinute;
+    this._tokensPerMinute = tokensPerMinute;
+  }
+
+  /**
+   * 新規レート制限を作成する
+   * @throws ドメインバリデーションエラー - 1以上の整数でない場合
+   */
+  static create(params: Partial<AiApiRateLimitDto>): AiApiRateLimit {
+    const requestsPerMinute = params.requestsPerMinute ?? null;
+    const tokensPerMinute = params.tokensPerMinute ?? null;
+    AiApiRateLimit.assertValidLimit(requestsPerMinute);
+    AiApiRateLimit.assertValidLimit(tokensPerMinute);
+    return new AiApiRateLimit(requestsPerMinute, tokensPerMinute);
+  }
+
+  /**
+   * DBから復元する
+   */
+  static reconstruct(params: Partial<AiApiRateLimitDto>): AiApiRateLimit {
+    return new AiApiRateLimit(
+      params.requestsPerMinute ?? null,
+      params.tokensPerMinute ?? null,
+    );
+  }
+
+  /**
+   * 制限なしのレート制限を作成する
+   */
+  static unlimited(): AiApiRateLimit {
+    return new AiApiRateLimit(null, null);
+  }
+
+  /**
+   * 未設定の項目を指定したレート制限の値で補完する
+   * @param fallback 補完に使用する上位の設定
+   */
+  withFallback(fallback: AiApiRateLimit): AiApiRateLimit {
+    return new AiApiRateLimit(
+      this._requestsPerMinute ?? fallback._requestsPerMinute,
+      this._tokensPerMinute ?? fallback._tokensPerMinute,
+    );
+  }
+
+  /**
+   * いずれの項目も設定されていないかどうか
+   */
+  isUnlimited(): boolean {
+    return this._requestsPerMinute === null && this._tokensPerMinute === null;
+  }
+
+  /**
+   * DTOに変換する
+   */
+  toDto(): AiApiRateLimitDto {
+    return {
+      requestsPerMinute: this._requestsPerMinute,
+      tokensPerMinute: this._tokensPerMinute,
+    };
+  }
+
+  get requestsPerMinute(): number | null {
+    return this._requestsPerMinute;
+  }
+
+  get tokensPerMinute(): number | null {
+    return this._tokensPerMinute;
+  }
+
+  /**
+   * 制限値を検証する
+   * @throws ドメインバリデーションエラー - 1以上の整数でない場合
+   */
+  private static assertValidLimit(value: number | null): void {
+    if (value !== null && (!Number.isInteger(value) || value < 1)) {
+      throw domainValidationError("AI_API_RATE_LIMIT_INVALID");
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * モデルを割り当てる対象（AIエージェント）
+ * 用途に応じて安価なモデル・高性能なモデルを使い分けるために使用する
+ */
+export const AI_MODEL_TARGET = {
+  /** 少量レビュー */
+  REVIEW_EXECUTE: "reviewExecute",
+  /** 大量レビュー（ドキュメント個別レビュー） */
+  INDIVIDUAL_DOCUMENT_REVIEW: "individualDocumentReview",
+  /** 大量レビュー（レビュー結果の統合） */
+  CONSOLIDATE_REVIEW: "consolidateReview",
+  /** チェックリストのカテゴリ分類 */
+  CHECKLIST_CATEGORY: "checklistCategory",
+  /** チェックリスト生成（トピック抽出） */
+  TOPIC_EXTRACTION: "topicExtraction",
+  /** チェックリスト生成（トピック別チェックリスト作成） */
+  TOPIC_CHECKLIST: "topicChecklist",
+  /** チェックリスト生成（ブラッシュアップ） */
+  CHECKLIST_REFINEMENT: "checklistRefinement",
+  /** Q&A（調査計画） */
+  QA_PLANNING: "qaPlanning",
+  /** Q&A（ドキュメント調査） */
+  QA_RESEARCH: "qaResearch",
+  /** Q&A（回答生成） */
+  QA_ANSWER: "qaAnswer",
+} as const;
+
+export type AiModelTarget =
+  (typeof AI_MODEL_TARGET)[keyof typeof AI_MODEL_TARGET];
+
+/**
+ * モデル割り当て対象の表示ラベル
+ */
+export const AI_MODEL_TARGET_LABELS: Record<AiModelTarget, string> = {
+  reviewExecute: "レビュー（少量ドキュメント）",
+  individualDocumentReview: "レビュー（大量ドキュメント・個別）",
+  consolidateReview: "レビュー（大量ドキュメント・統合）",
+  checklistCategory: "チェックリストのカテゴリ分類",
+  topicExtraction: "チェックリスト生成（トピック抽出）",
+  topicChecklist: "チェックリスト生成（項目作成）",
+  checklistRefinement: "チェックリスト生成（ブラッシュアップ）",
+  qaPlanning: "Q&A（調査計画）",
+  qaResearch: "Q&A（ドキュメント調査）",
+  qaAnswer: "Q&A（回答生成）",
+};
+
+/**
+ * エージェントへのモデル割り当てDTO
+ */
+export interface AiModelAssignmentDto {
+  /** AIプロバイダーID（nullの場合は既定のAPI設定の接続先を使用） */
+  providerId: string | null;
+  /** モデル名（Azure形式の場合はデプロイメント名） */
+  model: string;
+}
+
+/**
+ * エージェント別モデル割り当てDTO（割り当てのないエージェントは上位の設定を使用）
+ */
+export type AiModelAssignmentsDto = Partial<
+  Record<AiModelTarget, AiModelAssignmentDto>
+>;
+
+/**
+ * エージェント別モデル割り当て値オブジェクト
+ * 割り当てのないエージェントは上位の設定（プロジェクト > システム > 既定のAPI設定）を使用する
+ */
+export class AiModelAssignments {
+  private static readonly MAX_MODEL_LENGTH = 255;
+
+  private constructor(private readonly assignments: AiModelAssignmentsDto) {}
+
+  /**
+   * 新規エージェント別モデル割り当てを作成する
+   * @throws ドメインバリデーションエラー - 対象のエージェントまたはモデル名が不正な場合
+   */
+  static create(
+    assignments: Record<string, AiModelAssignmentDto | undefined>,
+  ): AiModelAssignments {
+    const result: AiModelAssignmentsDto = {};
+    for (const [target, assignment] of Object.entries(assignments)) {
+      if (!assignment) {
+        continue;
+      }
+      const model = assignment.model.trim();
+      if (
+        !AiModelAssignments.isTarget(target) ||
+        model.length === 0 ||
+        model.length > AiModelAssignments.MAX_MODEL_LENGTH
+      ) {
+        throw domainValidationError("AI_MODEL_ASSIGNMENT_INVALID");
+      }
+      result[target] = { providerId: assignment.providerId || null, model };
+    }
+    return new AiModelAssignments(result);
+  }
+
+  /**
+   * DBから復元する
+   */
+  static reconstruct(
+    assignments: AiModelAssignmentsDto | null | undefined,
+  ): AiModelAssignments {
+    return new AiModelAssignments({ ...(assignments ?? {}) });
+  }
+
+  /**
+   * 割り当てなしを作成する
+   */
+  static empty(): AiModelAssignments {
+    return new AiModelAssignments({});
+  }
+
+  /**
+   * 割り当てのないエージェントを指定した割り当てで補完する
+   * @param fallback 補完に使用する上位の設定
+   */
+  withFallback(fallback: AiModelAssignments): AiModelAssignments {
+    return new AiModelAssignments({
+      ...fallback.assignments,
+      ...this.assignments,
+    });
+  }
+
+  /**
+   * 指定したエージェントの割り当てを取得する
+   */
+  get(target: AiModelTarget): AiModelAssignmentDto | null {
+    return this.assignments[target] ?? null;
+  }
+
+  /**
+   * 割り当てで使用しているAIプロバイダーIDの一覧
+   */
+  providerIds(): string[] {
+    return Object.values(this.assignments).flatMap((assignment) =>
+      assignment?.providerId ? [assignment.providerId] : [],
+    );
+  }
+
+  /**
+   * DTOに変換する
+   */
+  toDto(): AiModelAssignmentsDto {
+    return { ...this.assignments };
+  }
+
+  private static isTarget(value: string): value is AiModelTarget {
+    return (Object.values(AI_MODEL_TARGET) as string[]).includes(value);
+  }
+}
@@ -0,0 +1,186 @@
+import { encrypt, decrypt } from "@/lib/server/encryption";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * AIプロバイダー種別
+ * - openai_compatible: OpenAI互換API（/chat/completions）
+ * - azure_openai: Azure形式のデプロイメント（URLにデプロイメント名、api-versionクエリ、api-keyヘッダー）
+ * - ollama: Ollamaなどのローカルサーバー（OpenAI互換API、APIキー不要）
+ */
+export const AI_PROVIDER_TYPE = {
+  OPENAI_COMPATIBLE: "openai_compatible",
+  AZURE_OPENAI: "azure_openai",
+  OLLAMA: "ollama",
+} as const;
+
+export type AiProviderType =
+  (typeof AI_PROVIDER_TYPE)[keyof typeof AI_PROVIDER_TYPE];
+
+/**
+ * AIプロバイダー種別の表示ラベル
+ */
+export const AI_PROVIDER_TYPE_LABELS: Record<AiProviderType, string> = {
+  openai_compatible: "OpenAI互換",
+  azure_openai: "Azure OpenAI",
+  ollama: "Ollama（ローカル）",
+};
+
+/**
+ * AIプロバイダーDTO（APIキーは復号化済み、内部利用のみ）
+ */
+export interface AiProviderDto {
+  id: string;
+  name: string;
+  type: AiProviderType;
+  apiUrl: string;
+  apiKey: string | null;
+  apiVersion: string | null;
+}
+
+/**
+ * AIプロバイダー概要DTO（APIキーを含まない、画面表示用）
+ */
+export interface AiProviderSummaryDto {
+  id: string;
+  name: string;
+  type: AiProviderType;
+  apiUrl: string;
+  apiVersion: string | null;
+  hasApiKey: boolean;
+}
+
+/**
+ * AIプロバイダー作成パラメータ
+ */
+export interface CreateAiProviderParams {
+  /** プロバイダーID（英小文字・数字・ハイフン・アンダースコア） */
+  id: string;
+  /** 表示名 */
+  name: string;
+  type: string;
+  apiUrl: string;
+  /** 平文のAPIキー（nullの場合はAPIキーなし） */
+  apiKey: string | null;
+  /** APIバージョン（Azure形式の場合は必須） */
+  apiVersion?: string | null;
+}
+
+/**
+ * AIプロバイダー永続化用の値（JSONBに保存する形式）
+ */
+export interface AiProviderProps {
+  id: string;
+  name: string;
+  type: AiProviderType;
+  apiUrl: string;
+  encryptedApiKey: string | null;
+  apiVersion: string | null;
+}
+
+/**
+ * AIプロバイダー値オブジェクト
+ * システム設定に登録するAI APIの接続先を表現
+ * エージェント別モデルの割り当てでIDを指定して使用する
+ */
+export class AiProvider {
+  private static readonly ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,49}$/;
+  private static readonly MAX_NAME_LENGTH = 100;
+
+  private constructor(private readonly props: AiProviderProps) {}
+
+  /**
+   * 新規AIプロバイダーを作成する
+   * @throws ドメインバリデーションエラー - ID・名前・種別・URLが不正な場合、Azure形式でAPIバージョンがない場合
+   */
+  static create(params: CreateAiProviderParams): AiProvider {
+    const name = params.name.trim();
+    const apiUrl = params.apiUrl.trim();
+    const apiVersion = params.apiVersion?.trim() || null;
+    if (
+      !AiProvider.ID_PATTERN.test(params.id) ||
+      name.length === 0 ||
+      name.length > AiProvider.MAX_NAME_LENGTH ||
+      !AiProvider.isProviderType(params.type) ||
+      !AiProvider.isHttpUrl(apiUrl)
+    ) {
+      throw domainValidationError("AI_PROVIDER_INVALID");
+    }
+    if (params.type === AI_PROVIDER_TYPE.AZURE_OPENAI && !apiVersion) {
+      throw domainValidationError("AI_PROVIDER_API_VERSION_REQUIRED");
+    }
+
+    return new AiProvider({
+      id: params.id,
+      name,
+      type: params.type,
+      apiUrl,
+      encryptedApiKey: params.apiKey ? encrypt(params.apiKey) : null,
+      apiVersion,
+    });
+  }
+
+  /**
+   * DBから復元する
+   */
+  static reconstruct(props: AiProviderProps): AiProvider {
+    return new AiProvider({ ...props });
+  }
+
+  /**
+   * 指定したプロバイダーのAPIキーを引き継ぐ
+   * 画面からAPIキーを再入力せずに設定を更新する場合に使用する
+   */
+  withApiKeyOf(existing: AiProvider): AiProvider {
+    return new AiProvider({
+      ...this.props,
+      encryptedApiKey: existing.props.encryptedApiKey,
+    });
+  }
+
+  /**
+   * 永続化用の値に変換する
+   */
+  toProps(): AiProviderProps {
+    return { ...this.props };
+  }
+
+  /**
+   * DTOに変換する（APIキーは復号化）
+   */
+  toDto(): AiProviderDto {
+    const { encryptedApiKey, ...rest } = this.props;
+    return {
+      ...rest,
+      apiKey: encryptedApiKey ? decrypt(encryptedApiKey) : null,
+    };
+  }
+
+  /**
+   * 概要DTOに変換する（APIキーは含めない）
+   */
+  toSummaryDto(): AiProviderSummaryDto {
+    const { encryptedApiKey, ...rest } = this.props;
+    return { ...rest, hasApiKey: encryptedApiKey !== null };
+  }
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get type(): AiProviderType {
+    return this.props.type;
+  }
+
+  private static isProviderType(value: string): value is AiProviderType {
+    return (Object.values(AI_PROVIDER_TYPE) as string[]).includes(value);
+  }
+
+  private static isHttpUrl(value: string): boolean {
+    try {
+      const url = new URL(value);
+      return url.protocol === "http:" || url.protocol === "https:";
+    } catch {
+      return false;
+    }
+  }
+}
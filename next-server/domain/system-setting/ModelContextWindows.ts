@@ -0,0 +1,85 @@
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * モデルのコンテキストウィンドウ設定DTO
+ */
+export interface ModelContextWindowDto {
+  /** モデル名（Azure形式の場合はデプロイメント名） */
+  model: string;
+  /** コンテキストウィンドウのトークン数（入力と出力の合計） */
+  contextWindowTokens: number;
+  /** 出力に確保するトークン数 */
+  maxOutputTokens: number;
+}
+
+/**
+ * モデル別コンテキストウィンドウ値オブジェクト
+ * 大量レビューのチャンクサイズを自動で算出する際に使用する
+ */
+export class ModelContextWindows {
+  private static readonly MAX_MODEL_LENGTH = 255;
+  private static readonly MIN_CONTEXT_WINDOW_TOKENS = 1_000;
+  private static readonly MAX_CONTEXT_WINDOW_TOKENS = 10_000_000;
+
+  private constructor(private readonly profiles: ModelContextWindowDto[]) {}
+
+  /**
+   * 新規モデル別コンテキストウィンドウを作成する
+   * @throws ドメインバリデーションエラー - 設定値が不正な場合、モデル名が重複している場合
+   */
+  static create(profiles: ModelContextWindowDto[]): ModelContextWindows {
+    const result = profiles.map((profile) => {
+      const model = profile.model.trim();
+      const { contextWindowTokens, maxOutputTokens } = profile;
+      if (
+        model.length === 0 ||
+        model.length > ModelContextWindows.MAX_MODEL_LENGTH ||
+        !Number.isInteger(contextWindowTokens) ||
+        contextWindowTokens < ModelContextWindows.MIN_CONTEXT_WINDOW_TOKENS ||
+        contextWindowTokens > ModelContextWindows.MAX_CONTEXT_WINDOW_TOKENS ||
+        !Number.isInteger(maxOutputTokens) ||
+        maxOutputTokens < 0 ||
+        maxOutputTokens >= contextWindowTokens
+      ) {
+        throw domainValidationError("MODEL_CONTEXT_WINDOW_INVALID");
+      }
+      return { model, contextWindowTokens, maxOutputTokens };
+    });
+
+    const models = new Set(result.map((profile) => profile.model));
+    if (models.size !== result.length) {
+      throw domainValidationError("MODEL_CONTEXT_WINDOW_DUPLICATED");
+    }
+    return new ModelContextWindows(result);
+  }
+
+  /**
+   * DBから復元する
+   */
+  static reconstruct(
+    profiles: ModelContextWindowDto[] | null | undefined,
+  ): ModelContextWindows {
+    return new ModelContextWindows([...(profiles ?? [])]);
+  }
+
+  /**
+   * 設定なしを作成する
+   */
+  static empty(): ModelContextWindows {
+    return new ModelContextWindows([]);
+  }
+
+  /**
+   * 指定したモデルのコンテキストウィンドウを取得する
+   */
+  find(model: string): ModelContextWindowDto | null {
+    return this.profiles.find((profile) => profile.model === model) ?? null;
+  }
+
+  /**
+   * DTOに変換する
+   */
+  toDto(): ModelContextWindowDto[] {
+    return this.profiles.map((profile) => ({ ...profile }));
+  }
+}
@@ -1,4 +1,21 @@
 import { encrypt, decrypt } from "@/lib/server/encryption";
+import { domainValidationError } from "@/lib/server/error";
+import { AiApiRateLimit, AiApiRateLimitDto } from "./AiApiRateLimit";
+import {
+  AiProvider,
+  AiProviderDto,
+  AiProviderProps,
+  CreateAiProviderParams,
+} from "./AiProvider";
+import {
+  AiModelAssignments,
+  AiModelAssignmentDto,
+  AiModelAssignmentsDto,
+} from "./AiModelAssignments";
+import {
+  ModelContextWindows,
+  ModelContextWindowDto,
+} from "./ModelContextWindows";
 
 /**
  * システム設定DTO
@@ -11,6 +28,14 @@ export interface SystemSettingDto {
   apiUrl: string | null;
   /** AI APIのモデル名 */
   apiModel: string | null;
+  /** AI APIのレート制限（APIキー単位） */
+  rateLimit: AiApiRateLimitDto;
+  /** 登録済みAIプロバイダー（APIキーは復号化済み） */
+  aiProviders: AiProviderDto[];
+  /** エージェント別モデル割り当て（システム全体の既定値） */
+  aiModelAssignments: AiModelAssignmentsDto;
+  /** モデル別コンテキストウィンドウ */
+  modelContextWindows: ModelContextWindowDto[];
   /** 更新日時 */
   updatedAt: Date;
 }
@@ -25,6 +50,17 @@ export interface CreateSystemSettingParams {
   apiUrl: string | null;
   /** AI APIのモデル名 */
   apiModel: string | null;
+  /** AI APIのレート制限（省略時は既存値を保持、新規作成時は制限なし） */
+  rateLimit?: Partial<AiApiRateLimitDto>;
+  /**
+   * AIプロバイダー一覧（省略時は既存値を保持、新規作成時はなし）
+   * APIキーがnullのプロバイダーは同じIDの既存プロバイダーのAPIキーを引き継ぐ
+   */
+  aiProviders?: CreateAiProviderParams[];
+  /** エージェント別モデル割り当て（省略時は既存値を保持、新規作成時はなし） */
+  aiModelAssignments?: Record<string, AiModelAssignmentDto | undefined>;
+  /** モデル別コンテキストウィンドウ（省略時は既存値を保持、新規作成時はなし） */
+  modelContextWindows?: ModelContextWindowDto[];
 }
 
 /**
@@ -37,6 +73,16 @@ export interface ReconstructSystemSettingParams {
   apiUrl: string | null;
   /** AI APIのモデル名 */
   apiModel: string | null;
+  /** 1分あたりの最大リクエスト数 */
+  rateLimitRequestsPerMinute: number | null;
+  /** 1分あたりの最大トークン数 */
+  rateLimitTokensPerMinute: number | null;
+  /** AIプロバイダー一覧（APIキーは暗号化済み） */
+  aiProviders: AiProviderProps[];
+  /** エージェント別モデル割り当て */
+  aiModelAssignments: AiModelAssignmentsDto;
+  /** モデル別コンテキストウィンドウ */
+  modelContextWindows: ModelContextWindowDto[];
   /** 更新日時 */
   updatedAt: Date;
 }
@@ -44,7 +90,9 @@ export interface ReconstructSystemSettingParams {
 /**
  * システム設定エンティティ
  * シングルトンパターン - システム全体で1つのみ存在
- * AI API設定（APIキー、URL、モデル名）を管理
+ * AI API設定（APIキー、URL、モデル名、レート制限）を管理
+ * 既定のAPI設定に加えて、追加のAIプロバイダーとエージェント別モデル割り当てを管理
+ * 大量レビューのチャンクサイズ算出に使用するモデル別コンテキストウィンドウを管理
  */
 export class SystemSetting {
   /** シングルトンID（常に1） */
@@ -53,63 +101,150 @@ export class SystemSetting {
   private readonly _encryptedApiKey: string | null;
   private readonly _apiUrl: string | null;
   private readonly _apiModel: string | null;
+  private readonly _rateLimit: AiApiRateLimit;
+  private readonly _aiProviders: AiProvider[];
+  private readonly _aiModelAssignments: AiModelAssignments;
+  private readonly _modelContextWindows: ModelContextWindows;
   private readonly _updatedAt: Date;
 
   private constructor(
     encryptedApiKey: string | null,
     apiUrl: string | null,
     apiModel: string | null,
+    rateLimit: AiApiRateLimit,
+    aiProviders: AiProvider[],
+    aiModelAssignments: AiModelAssignments,
+    modelContextWindows: ModelContextWindows,
     updatedAt: Date,
   ) {
     this._encryptedApiKey = encryptedApiKey;
     this._apiUrl = apiUrl;
     this._apiModel = apiModel;
+    this._rateLimit = rateLimit;
+    this._aiProviders = aiProviders;
+    this._aiModelAssignments = aiModelAssignments;
+    this._modelContextWindows = modelContextWindows;
     this._updatedAt = updatedAt;
   }
 
   /**
    * 新規システム設定を作成する
+   * @throws ドメインバリデーションエラー - レート制限・AIプロバイダー・モデル割り当て・コンテキストウィンドウが不正な場合
    */
   static create(params: CreateSystemSettingParams): SystemSetting {
-    const { apiKey, apiUrl, apiModel } = params;
+    const { apiKey, apiUrl, apiModel, rateLimit } = params;
 
     // APIキーを暗号化
     const encryptedApiKey = apiKey ? encrypt(apiKey) : null;
 
-    return new SystemSetting(encryptedApiKey, apiUrl, apiModel, new Date());
+    const aiProviders = SystemSetting.createAiProviders(
+      params.aiProviders ?? [],
+      [],
+    );
+    const aiModelAssignments = SystemSetting.createAiModelAssignments(
+      params.aiModelAssignments ?? {},
+      aiProviders,
+    );
+
+    return new SystemSetting(
+      encryptedApiKey,
+      apiUrl,
+      apiModel,
+      rateLimit ? AiApiRateLimit.create(rateLimit) : AiApiRateLimit.unlimited(),
+      aiProviders,
+      aiModelAssignments,
+      ModelContextWindows.create(params.modelContextWindows ?? []),
+      new Date(),
+    );
   }
 
   /**
    * DBから取得したデータからシステム設定を復元する
    */
   static reconstruct(params: ReconstructSystemSettingParams): SystemSetting {
-    const { encryptedApiKey, apiUrl, apiModel, updatedAt } = params;
+    const {
+      encryptedApiKey,
+      apiUrl,
+      apiModel,
+      rateLimitRequestsPerMinute,
+      rateLimitTokensPerMinute,
+      aiProviders,
+      aiModelAssignments,
+      modelContextWindows,
+      updatedAt,
+    } = params;
 
-    return new SystemSetting(encryptedApiKey, apiUrl, apiModel, updatedAt);
+    return new SystemSetting(
+      encryptedApiKey,
+      apiUrl,
+      apiModel,
+      AiApiRateLimit.reconstruct({
+        requestsPerMinute: rateLimitRequestsPerMinute,
+        tokensPerMinute: rateLimitTokensPerMinute,
+      }),
+      aiProviders.map((provider) => AiProvider.reconstruct(provider)),
+      AiModelAssignments.reconstruct(aiModelAssignments),
+      ModelContextWindows.reconstruct(modelContextWindows),
+      updatedAt,
+    );
   }
 
   /**
    * システム設定を更新する
    * 新しいインスタンスを返す（不変性を保持）
    * nullを渡した項目は既存値を保持する
+   * レート制限は指定した場合のみ置き換える（項目をnullにすると制限なし）
+   * AIプロバイダー・モデル割り当て・コンテキストウィンドウは指定した場合のみ置き換える
+   * @throws ドメインバリデーションエラー - レート制限・AIプロバイダー・モデル割り当て・コンテキストウィンドウが不正な場合
    */
   update(params: CreateSystemSettingParams): SystemSetting {
-    const { apiKey, apiUrl, apiModel } = params;
+    const { apiKey, apiUrl, apiModel, rateLimit } = params;
 
     // nullの場合は既存値を保持する
     const newEncryptedApiKey =
       apiKey !== null ? encrypt(apiKey) : this._encryptedApiKey;
     const newApiUrl = apiUrl !== null ? apiUrl : this._apiUrl;
     const newApiModel = apiModel !== null ? apiModel : this._apiModel;
+    const newRateLimit = rateLimit
+      ? AiApiRateLimit.create(rateLimit)
+      : this._rateLimit;
+    const newAiProviders = params.aiProviders
+      ? SystemSetting.createAiProviders(params.aiProviders, this._aiProviders)
+      : this._aiProviders;
+    const newAiModelAssignments = params.aiModelAssignments
+      ? SystemSetting.createAiModelAssignments(
+          params.aiModelAssignments,
+          newAiProviders,
+        )
+      : SystemSetting.validateAiModelAssignments(
+          this._aiModelAssignments,
+          newAiProviders,
+        );
+    const newModelContextWindows = params.modelContextWindows
+      ? ModelContextWindows.create(params.modelContextWindows)
+      : this._modelContextWindows;
 
     return new SystemSetting(
       newEncryptedApiKey,
       newApiUrl,
       newApiModel,
+      newRateLimit,
+      newAiProviders,
+      newAiModelAssignments,
+      newModelContextWindows,
       new Date(),
     );
   }
 
+  /**
+   * 指定したIDのAIプロバイダーを取得する
+   */
+  findAiProvider(providerId: string): AiProvider | null {
+    return (
+      this._aiProviders.find((provider) => provider.id === providerId) ?? null
+    );
+  }
+
   /**
    * 設定が有効かどうか（全項目が設定されているか）
    */
@@ -129,6 +264,10 @@ export class SystemSetting {
       apiKey: this._encryptedApiKey ? decrypt(this._encryptedApiKey) : null,
       apiUrl: this._apiUrl,
       apiModel: this._apiModel,
+      rateLimit: this._rateLimit.toDto(),
+      aiProviders: this._aiProviders.map((provider) => provider.toDto()),
+      aiModelAssignments: this._aiModelAssignments.toDto(),
+      modelContextWindows: this._modelContextWindows.toDto(),
       updatedAt: this._updatedAt,
     };
   }
@@ -150,6 +289,22 @@ export class SystemSetting {
     return this._apiModel;
   }
 
+  get rateLimit(): AiApiRateLimit {
+    return this._rateLimit;
+  }
+
+  get aiProviders(): AiProvider[] {
+    return [...this._aiProviders];
+  }
+
+  get aiModelAssignments(): AiModelAssignments {
+    return this._aiModelAssignments;
+  }
+
+  get modelContextWindows(): ModelContextWindows {
+    return this._modelContextWindows;
+  }
+
   get updatedAt(): Date {
     return this._updatedAt;
   }
@@ -163,4 +318,55 @@ export class SystemSetting {
     }
     return decrypt(this._encryptedApiKey);
   }
+
+  /**
+   * AIプロバイダー一覧を作成する
+   * APIキーが指定されていないプロバイダーは同じIDの既存プロバイダーのAPIキーを引き継ぐ
+   * @throws ドメインバリデーションエラー - プロバイダーが不正な場合、IDが重複している場合
+   */
+  private static createAiProviders(
+    params: CreateAiProviderParams[],
+    existing: AiProvider[],
+  ): AiProvider[] {
+    const ids = new Set(params.map((provider) => provider.id));
+    if (ids.size !== params.length) {
+      throw domainValidationError("AI_PROVIDER_ID_DUPLICATED");
+    }
+    return params.map((providerParams) => {
+      const provider = AiProvider.create(providerParams);
+      const current = existing.find((p) => p.id === providerParams.id);
+      return providerParams.apiKey === null && current
+        ? provider.withApiKeyOf(current)
+        : provider;
+    });
+  }
+
+  /**
+   * エージェント別モデル割り当てを作成する
+   * @throws ドメインバリデーションエラー - 割り当てが不正な場合、存在しないプロバイダーを指定した場合
+   */
+  private static createAiModelAssignments(
+    assignments: Record<string, AiModelAssignmentDto | undefined>,
+    aiProviders: AiProvider[],
+  ): AiModelAssignments {
+    return SystemSetting.validateAiModelAssignments(
+      AiModelAssignments.create(assignments),
+      aiProviders,
+    );
+  }
+
+  /**
+   * モデル割り当てが登録済みのプロバイダーのみを参照していることを検証する
+   * @throws ドメインバリデーションエラー - 存在しないプロバイダーを指定した場合
+   */
+  private static validateAiModelAssignments(
+    assignments: AiModelAssignments,
+    aiProviders: AiProvider[],
+  ): AiModelAssignments {
+    const ids = new Set(aiProviders.map((provider) => provider.id));
+    if (assignments.providerIds().some((id) => !ids.has(id))) {
+      throw domainValidationError("AI_MODEL_ASSIGNMENT_PROVIDER_NOT_FOUND");
+    }
+    return assignments;
+  }
 }
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { AiApiRateLimit } from "../AiApiRateLimit";
+
+describe("AiApiRateLimit", () => {
+  describe("create", () => {
+    it("1以上の整数で作成できる", () => {
+      const rateLimit = AiApiRateLimit.create({
+        requestsPerMinute: 60,
+        tokensPerMinute: 100000,
+      });
+
+      expect(rateLimit.requestsPerMinute).toBe(60);
+      expect(rateLimit.tokensPerMinute).toBe(100000);
+    });
+
+    it("省略した項目はnullになる", () => {
+      const rateLimit = AiApiRateLimit.create({ requestsPerMinute: 10 });
+
+      expect(rateLimit.tokensPerMinute).toBeNull();
+      expect(rateLimit.isUnlimited()).toBe(false);
+    });
+
+    it.each([0, -1, 1.5, Number.NaN])(
+      "不正な値（%s）の場合はエラーをスローする",
+      (value) => {
+        expect(() => AiApiRateLimit.create({ tokensPerMinute: value })).toThrow(
+          expect.objectContaining({
+            messageCode: "AI_API_RATE_LIMIT_INVALID",
+          }),
+        );
+      },
+    );
+  });
+
+  describe("withFallback", () => {
+    it("未設定の項目のみ上位の設定で補完する", () => {
+      const project = AiApiRateLimit.create({ requestsPerMinute: 10 });
+      const system = AiApiRateLimit.create({
+        requestsPerMinute: 60,
+        tokensPerMinute: 100000,
+      });
+
+      expect(project.withFallback(system).toDto()).toEqual({
+        requestsPerMinute: 10,
+        tokensPerMinute: 100000,
+      });
+    });
+
+    it("どちらも未設定の場合は制限なし", () => {
+      const result = AiApiRateLimit.unlimited().withFallback(
+        AiApiRateLimit.unlimited(),
+      );
+
+      expect(result.isUnlimited()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { AiModelAssignments, AI_MODEL_TARGET } from "../AiModelAssignments";
+
+describe("AiModelAssignments", () => {
+  describe("create", () => {
+    it("エージェントごとの割り当てを作成できる", () => {
+      const assignments = AiModelAssignments.create({
+        checklistCategory: { providerId: null, model: " gpt-4o-mini " },
+        consolidateReview: { providerId: "azure-east", model: "gpt-4o" },
+      });
+
+      expect(assignments.get(AI_MODEL_TARGET.CHECKLIST_CATEGORY)).toEqual({
+        providerId: null,
+        model: "gpt-4o-mini",
+      });
+      expect(assignments.get(AI_MODEL_TARGET.CONSOLIDATE_REVIEW)).toEqual({
+        providerId: "azure-east",
+        model: "gpt-4o",
+      });
+      expect(assignments.get(AI_MODEL_TARGET.QA_ANSWER)).toBeNull();
+    });
+
+    it("空文字のプロバイダーIDは既定の接続先として扱う", () => {
+      const assignments = AiModelAssignments.create({
+        qaAnswer: { providerId: "", model: "gpt-4o" },
+      });
+
+      expect(assignments.get(AI_MODEL_TARGET.QA_ANSWER)?.providerId).toBeNull();
+    });
+
+    it("存在しないエージェントを指定した場合はエラー", () => {
+      expect(() =>
+        AiModelAssignments.create({
+          unknownAgent: { providerId: null, model: "gpt-4o" },
+        }),
+      ).toThrow(
+        expect.objectContaining({ messageCode: "AI_MODEL_ASSIGNMENT_INVALID" }),
+      );
+    });
+
+    it("モデル名が空の場合はエラー", () => {
+      expect(() =>
+        AiModelAssignments.create({
+          qaAnswer: { providerId: null, model: "  " },
+        }),
+      ).toThrow(
+        expect.objectContaining({ messageCode: "AI_MODEL_ASSIGNMENT_INVALID" }),
+      );
+    });
+  });
+
+  describe("withFallback", () => {
+    it("割り当てのないエージェントのみ補完する", () => {
+      const project = AiModelAssignments.create({
+        qaAnswer: { providerId: null, model: "project-model" },
+      });
+      const system = AiModelAssignments.create({
+        qaAnswer: { providerId: null, model: "system-model" },
+        qaPlanning: { providerId: "local", model: "llama3" },
+      });
+
+      const merged = project.withFallback(system);
+
+      expect(merged.toDto()).toEqual({
+        qaAnswer: { providerId: null, model: "project-model" },
+        qaPlanning: { providerId: "local", model: "llama3" },
+      });
+    });
+  });
+
+  describe("providerIds", () => {
+    it("割り当てで使用しているプロバイダーIDを返す", () => {
+      const assignments = AiModelAssignments.reconstruct({
+        qaAnswer: { providerId: null, model: "gpt-4o" },
+        qaPlanning: { providerId: "local", model: "llama3" },
+      });
+
+      expect(assignments.providerIds()).toEqual(["local"]);
+    });
+  });
+
+  describe("reconstruct", () => {
+    it("nullの場合は割り当てなしとして復元する", () => {
+      expect(AiModelAssignments.reconstruct(null).toDto()).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from "vitest";
+import { AiProvider, AI_PROVIDER_TYPE } from "../AiProvider";
+
+// 暗号化関数をモック
+vi.mock("@/lib/server/encryption", () => ({
+  encrypt: vi.fn((text: string) => `encrypted_${text}`),
+  decrypt: vi.fn((text: string) => text.replace("encrypted_", "")),
+}));
+
+describe("AiProvider", () => {
+  const validParams = {
+    id: "azure-east",
+    name: "Azure（東日本）",
+    type: AI_PROVIDER_TYPE.AZURE_OPENAI,
+    apiUrl: "https://example.openai.azure.com",
+    apiKey: "azure-key",
+    apiVersion: "2024-10-21",
+  };
+
+  describe("create", () => {
+    it("有効なデータでAIプロバイダーを作成できる（APIキーは暗号化される）", () => {
+      const provider = AiProvider.create(validParams);
+
+      expect(provider.id).toBe("azure-east");
+      expect(provider.type).toBe("azure_openai");
+      expect(provider.toProps()).toEqual({
+        id: "azure-east",
+        name: "Azure（東日本）",
+        type: "azure_openai",
+        apiUrl: "https://example.openai.azure.com",
+        encryptedApiKey: "encrypted_azure-key",
+        apiVersion: "2024-10-21",
+      });
+    });
+
+    it("APIキーなしのローカルサーバーを作成できる", () => {
+      const provider = AiProvider.create({
+        id: "local",
+        name: "Ollama",
+        type: AI_PROVIDER_TYPE.OLLAMA,
+        apiUrl: "http://localhost:11434/v1",
+        apiKey: null,
+      });
+
+      expect(provider.toDto().apiKey).toBeNull();
+      expect(provider.toDto().apiVersion).toBeNull();
+    });
+
+    it.each([
+      ["IDに大文字を含む", { id: "Azure" }],
+      ["IDが空", { id: "" }],
+      ["名前が空白のみ", { name: "  " }],
+      ["名前が100文字を超える", { name: "a".repeat(101) }],
+      ["種別が不正", { type: "anthropic" }],
+      ["URLがhttp(s)でない", { apiUrl: "ftp://example.com" }],
+      ["URLが不正", { apiUrl: "not-a-url" }],
+    ])("%sの場合はエラー", (_, override) => {
+      expect(() => AiProvider.create({ ...validParams, ...override })).toThrow(
+        expect.objectContaining({ messageCode: "AI_PROVIDER_INVALID" }),
+      );
+    });
+
+    it("Azure形式でAPIバージョンがない場合はエラー", () => {
+      expect(() =>
+        AiProvider.create({ ...validParams, apiVersion: " " }),
+      ).toThrow(
+        expect.objectContaining({
+          messageCode: "AI_PROVIDER_API_VERSION_REQUIRED",
+        }),
+      );
+    });
+  });
+
+  describe("withApiKeyOf", () => {
+    it("既存プロバイダーのAPIキーを引き継ぐ", () => {
+      const existing = AiProvider.create(validParams);
+      const updated = AiProvider.create({
+        ...validParams,
+        name: "Azure（西日本）",
+        apiKey: null,
+      }).withApiKeyOf(existing);
+
+      expect(updated.toDto()).toEqual(
+        expect.objectContaining({
+          name: "Azure（西日本）",
+          apiKey: "azure-key",
+        }),
+      );
+    });
+  });
+
+  describe("toSummaryDto", () => {
+    it("APIキーを含まずに設定有無のみを返す", () => {
+      const summary = AiProvider.create(validParams).toSummaryDto();
+
+      expect(summary).toEqual({
+        id: "azure-east",
+        name: "Azure（東日本）",
+        type: "azure_openai",
+        apiUrl: "https://example.openai.azure.com",
+        apiVersion: "2024-10-21",
+        hasApiKey: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { ModelContextWindows } from "../ModelContextWindows";
+
+describe("ModelContextWindows", () => {
+  describe("create", () => {
+    it("モデルごとのコンテキストウィンドウを作成できる", () => {
+      const profiles = ModelContextWindows.create([
+        {
+          model: " gpt-4o ",
+          contextWindowTokens: 128000,
+          maxOutputTokens: 16384,
+        },
+        { model: "llama3", contextWindowTokens: 8192, maxOutputTokens: 2048 },
+      ]);
+
+      expect(profiles.find("gpt-4o")).toEqual({
+        model: "gpt-4o",
+        contextWindowTokens: 128000,
+        maxOutputTokens: 16384,
+      });
+      expect(profiles.find("unknown")).toBeNull();
+    });
+
+    it("出力トークン数がコンテキストウィンドウ以上の場合はエラー", () => {
+      expect(() =>
+        ModelContextWindows.create([
+          { model: "gpt-4o", contextWindowTokens: 8192, maxOutputTokens: 8192 },
+        ]),
+      ).toThrow(
+        expect.objectContaining({
+          messageCode: "MODEL_CONTEXT_WINDOW_INVALID",
+        }),
+      );
+    });
+
+    it("コンテキストウィンドウが下限未満の場合はエラー", () => {
+      expect(() =>
+        ModelContextWindows.create([
+          { model: "gpt-4o", contextWindowTokens: 999, maxOutputTokens: 0 },
+        ]),
+      ).toThrow(
+        expect.objectContaining({
+          messageCode: "MODEL_CONTEXT_WINDOW_INVALID",
+        }),
+      );
+    });
+
+    it("モデル名が重複している場合はエラー", () => {
+      expect(() =>
+        ModelContextWindows.create([
+          { model: "gpt-4o", contextWindowTokens: 128000, maxOutputTokens: 0 },
+          { model: "gpt-4o ", contextWindowTokens: 64000, maxOutputTokens: 0 },
+        ]),
+      ).toThrow(
+        expect.objectContaining({
+          messageCode: "MODEL_CONTEXT_WINDOW_DUPLICATED",
+        }),
+      );
+    });
+  });
+
+  describe("reconstruct", () => {
+    it("未設定の場合は空として復元する", () => {
+      expect(ModelContextWindows.reconstruct(null).toDto()).toEqual([]);
+    });
+  });
+});
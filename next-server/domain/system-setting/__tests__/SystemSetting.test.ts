@@ -64,6 +64,11 @@ describe("SystemSetting", () => {
         encryptedApiKey: "encrypted_test-api-key",
         apiUrl: "https://api.example.com",
         apiModel: "gpt-4",
+        rateLimitRequestsPerMinute: 60,
+        rateLimitTokensPerMinute: null,
+        aiProviders: [],
+        aiModelAssignments: {},
+        modelContextWindows: [],
         updatedAt,
       });
 
@@ -71,6 +76,8 @@ describe("SystemSetting", () => {
       expect(setting.encryptedApiKey).toBe("encrypted_test-api-key");
       expect(setting.apiUrl).toBe("https://api.example.com");
       expect(setting.apiModel).toBe("gpt-4");
+      expect(setting.rateLimit.requestsPerMinute).toBe(60);
+      expect(setting.rateLimit.tokensPerMinute).toBeNull();
       expect(setting.updatedAt).toEqual(updatedAt);
     });
   });
@@ -179,6 +186,55 @@ describe("SystemSetting", () => {
       expect(updatedSetting.apiUrl).toBe("");
       expect(updatedSetting.apiModel).toBe("");
     });
+
+    it("レート制限を指定した場合のみ置き換える", () => {
+      const setting = SystemSetting.create({
+        apiKey: null,
+        apiUrl: null,
+        apiModel: null,
+        rateLimit: { requestsPerMinute: 60, tokensPerMinute: 100000 },
+      });
+
+      const kept = setting.update({
+        apiKey: null,
+        apiUrl: null,
+        apiModel: null,
+      });
+      expect(kept.rateLimit.toDto()).toEqual({
+        requestsPerMinute: 60,
+        tokensPerMinute: 100000,
+      });
+
+      const replaced = setting.update({
+        apiKey: null,
+        apiUrl: null,
+        apiModel: null,
+        rateLimit: { requestsPerMinute: 30, tokensPerMinute: null },
+      });
+      expect(replaced.rateLimit.toDto()).toEqual({
+        requestsPerMinute: 30,
+        tokensPerMinute: null,
+      });
+    });
+
+    it("不正なレート制限の場合はエラーをスローする", () => {
+      const setting = SystemSetting.create({
+        apiKey: null,
+        apiUrl: null,
+        apiModel: null,
+      });
+
+      expect(() =>
+        setting.update({
+          apiKey: null,
+          apiUrl: null,
+          apiModel: null,
+          rateLimit: { requestsPerMinute: 0 },
+        }),
+      ).toThrow(
+        expect.objectContaining({ messageCode: "AI_API_RATE_LIMIT_INVALID" }),
+      );
+    });
   });
 
   describe("isConfigured", () => {
@@ -237,6 +293,10 @@ describe("SystemSetting", () => {
         apiKey: "test-api-key",
         apiUrl: "https://api.example.com",
         apiModel: "gpt-4",
+        rateLimit: { requestsPerMinute: null, tokensPerMinute: null },
+        aiProviders: [],
+        aiModelAssignments: {},
+        modelContextWindows: [],
         updatedAt: fixedDate,
       });
     });
@@ -254,6 +314,170 @@ describe("SystemSetting", () => {
     });
   });
 
+  describe("AIプロバイダー・モデル割り当て", () => {
+    const localProvider = {
+      id: "local",
+      name: "Ollama",
+      type: "ollama",
+      apiUrl: "http://localhost:11434/v1",
+      apiKey: null,
+    };
+    const azureProvider = {
+      id: "azure-east",
+      name: "Azure",
+      type: "azure_openai",
+      apiUrl: "https://example.openai.azure.com",
+      apiKey: "azure-key",
+      apiVersion: "2024-10-21",
+    };
+
+    const createSetting = () =>
+      SystemSetting.create({
+        apiKey: "test-api-key",
+        apiUrl: "https://api.example.com",
+        apiModel: "gpt-4",
+        aiProviders: [localProvider, azureProvider],
+        aiModelAssignments: {
+          checklistCategory: { providerId: "local", model: "llama3" },
+          consolidateReview: { providerId: "azure-east", model: "gpt-4o" },
+        },
+      });
+
+    it("AIプロバイダーとモデル割り当てを設定できる", () => {
+      const setting = createSetting();
+
+      expect(setting.aiProviders.map((p) => p.id)).toEqual([
+        "local",
+        "azure-east",
+      ]);
+      expect(setting.findAiProvider("azure-east")?.toDto().apiKey).toBe(
+        "azure-key",
+      );
+      expect(setting.findAiProvider("unknown")).toBeNull();
+      expect(setting.toDto().aiModelAssignments).toEqual({
+        checklistCategory: { providerId: "local", model: "llama3" },
+        consolidateReview: { providerId: "azure-east", model: "gpt-4o" },
+      });
+    });
+
+    it("プロバイダーIDが重複している場合はエラー", () => {
+      expect(() =>
+        SystemSetting.create({
+          apiKey: null,
+          apiUrl: null,
+          apiModel: null,
+          aiProviders: [localProvider, { ...localProvider, name: "重複" }],
+        }),
+      ).toThrow(
+        expect.objectContaining({ messageCode: "AI_PROVIDER_ID_DUPLICATED" }),
+      );
+    });
+
+    it("存在しないプロバイダーを割り当てた場合はエラー", () => {
+      expect(() =>
+        SystemSetting.create({
+          apiKey: null,
+          apiUrl: null,
+          apiModel: null,
+          aiProviders: [localProvider],
+          aiModelAssignments: {
+            qaAnswer: { providerId: "azure-east", model: "gpt-4o" },
+          },
+        }),
+      ).toThrow(
+        expect.objectContaining({
+          messageCode: "AI_MODEL_ASSIGNMENT_PROVIDER_NOT_FOUND",
+        }),
+      );
+    });
+
+    it("更新時に省略した場合は既存のプロバイダーと割り当てを保持する", () => {
+      const updated = createSetting().update({
+        apiKey: null,
+        apiUrl: null,
+        apiModel: "gpt-4o",
+      });
+
+      expect(updated.aiProviders).toHaveLength(2);
+      expect(updated.aiModelAssignments.toDto()).toEqual(
+        createSetting().aiModelAssignments.toDto(),
+      );
+    });
+
+    it("更新時にAPIキーを省略したプロバイダーは既存のAPIキーを引き継ぐ", () => {
+      const updated = createSetting().update({
+        apiKey: null,
+        apiUrl: null,
+        apiModel: null,
+        aiProviders: [
+          { ...azureProvider, name: "Azure（更新）", apiKey: null },
+        ],
+        aiModelAssignments: {},
+      });
+
+      expect(updated.findAiProvider("azure-east")?.toDto()).toEqual(
+        expect.objectContaining({ name: "Azure（更新）", apiKey: "azure-key" }),
+      );
+    });
+
+    it("割り当て中のプロバイダーを削除した場合はエラー", () => {
+      expect(() =>
+        createSetting().update({
+          apiKey: null,
+          apiUrl: null,
+          apiModel: null,
+          aiProviders: [azureProvider],
+        }),
+      ).toThrow(
+        expect.objectContaining({
+          messageCode: "AI_MODEL_ASSIGNMENT_PROVIDER_NOT_FOUND",
+        }),
+      );
+    });
+  });
+
+  describe("モデル別コンテキストウィンドウ", () => {
+    const gpt4o = {
+      model: "gpt-4o",
+      contextWindowTokens: 128000,
+      maxOutputTokens: 16384,
+    };
+
+    it("コンテキストウィンドウを設定し、更新時に省略した場合は保持する", () => {
+      const setting = SystemSetting.create({
+        apiKey: null,
+        apiUrl: null,
+        apiModel: null,
+        modelContextWindows: [gpt4o],
+      });
+
+      const updated = setting.update({
+        apiKey: null,
+        apiUrl: null,
+        apiModel: "gpt-4o",
+      });
+
+      expect(updated.modelContextWindows.find("gpt-4o")).toEqual(gpt4o);
+      expect(updated.toDto().modelContextWindows).toEqual([gpt4o]);
+    });
+
+    it("更新時に指定した場合は置き換える", () => {
+      const updated = SystemSetting.create({
+        apiKey: null,
+        apiUrl: null,
+        apiModel: null,
+        modelContextWindows: [gpt4o],
+      }).update({
+        apiKey: null,
+        apiUrl: null,
+        apiModel: null,
+        modelContextWindows: [],
+      });
+
+      expect(updated.modelContextWindows.find("gpt-4o")).toBeNull();
+    });
+  });
+
   describe("decryptApiKey", () => {
     it("暗号化されたAPIキーを復号できる", () => {
       const setting = SystemSetting.create({
@@ -4,3 +4,26 @@ export {
   type CreateSystemSettingParams,
   type ReconstructSystemSettingParams,
 } from "./SystemSetting";
+export { AiApiRateLimit, type AiApiRateLimitDto } from "./AiApiRateLimit";
+export {
+  AiProvider,
+  AI_PROVIDER_TYPE,
+  AI_PROVIDER_TYPE_LABELS,
+  type AiProviderType,
+  type AiProviderDto,
+  type AiProviderSummaryDto,
+  type AiProviderProps,
+  type CreateAiProviderParams,
+} from "./AiProvider";
+export {
+  AiModelAssignments,
+  AI_MODEL_TARGET,
+  AI_MODEL_TARGET_LABELS,
+  type AiModelTarget,
+  type AiModelAssignmentDto,
+  type AiModelAssignmentsDto,
+} from "./AiModelAssignments";
+export {
+  ModelContextWindows,
+  type ModelContextWindowDto,
+} from "./ModelContextWindows";
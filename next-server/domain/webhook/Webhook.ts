@@ -0,0 +1,325 @@
+import { createHmac, randomBytes } from "crypto";
+import { ProjectId } from "@/domain/project";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { encrypt, decrypt } from "@/lib/server/encryption";
+import { domainValidationError } from "@/lib/server/error";
+import { WebhookId } from "./WebhookId";
+import { WebhookEvent, WebhookEventValue } from "./WebhookEvent";
+
+/**
+ * Webhook DTO
+ * アプリケーション層への出力用（署名シークレットは含めない）
+ */
+export interface WebhookDto {
+  id: string;
+  projectId: string;
+  /** 対象レビュースペースID（nullの場合はプロジェクト全体） */
+  reviewSpaceId: string | null;
+  name: string;
+  url: string;
+  events: WebhookEventValue[];
+  isEnabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Webhook作成パラメータ
+ */
+export interface CreateWebhookParams {
+  projectId: string;
+  reviewSpaceId?: string | null;
+  name: string;
+  url: string;
+  events: string[];
+}
+
+/**
+ * Webhook更新パラメータ
+ * 指定した項目のみ更新する
+ */
+export interface UpdateWebhookParams {
+  name?: string;
+  url?: string;
+  events?: string[];
+  isEnabled?: boolean;
+}
+
+/**
+ * Webhook復元パラメータ（DB復元用）
+ */
+export interface ReconstructWebhookParams {
+  id: string;
+  projectId: string;
+  reviewSpaceId: string | null;
+  name: string;
+  url: string;
+  events: string[];
+  encryptedSecret: string;
+  isEnabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** 署名シークレットの接頭辞 */
+export const WEBHOOK_SECRET_PREFIX = "whsec_";
+
+/**
+ * Webhookエンティティ
+ * レビュー・チェックリスト生成・Q&Aのライフサイクルイベントを外部システムへ送信する宛先を表す
+ * 送信するペイロードは登録時に発行した署名シークレットでHMAC-SHA256署名する
+ */
+export class Webhook {
+  private static readonly MAX_NAME_LENGTH = 100;
+  private static readonly MAX_URL_LENGTH = 2048;
+
+  private readonly _id: WebhookId;
+  private readonly _projectId: ProjectId;
+  private readonly _reviewSpaceId: ReviewSpaceId | null;
+  private readonly _name: string;
+  private readonly _url: string;
+  private readonly _events: WebhookEvent[];
+  private readonly _encryptedSecret: string;
+  private readonly _isEnabled: boolean;
+  private readonly _createdAt: Date;
+  private readonly _updatedAt: Date;
+
+  private constructor(
+    id: WebhookId,
+    projectId: ProjectId,
+    reviewSpaceId: ReviewSpaceId | null,
+    name: string,
+    url: string,
+    events: WebhookEvent[],
+    encryptedSecret: string,
+    isEnabled: boolean,
+    createdAt: Date,
+    updatedAt: Date,
+  ) {
+    this._id = id;
+    this._projectId = projectId;
+    this._reviewSpaceId = reviewSpaceId;
+    this._name = name;
+    this._url = url;
+    this._events = events;
+    this._encryptedSecret = encryptedSecret;
+    this._isEnabled = isEnabled;
+    this._createdAt = createdAt;
+    this._updatedAt = updatedAt;
+  }
+
+  /**
+   * 新規Webhookを登録する
+   * 署名シークレットは登録時にのみ平文で返却し、エンティティには暗号化して保持する
+   * @throws ドメインバリデーションエラー - バリデーション失敗時
+   */
+  static create(params: CreateWebhookParams): {
+    webhook: Webhook;
+    secret: string;
+  } {
+    const name = params.name?.trim() ?? "";
+    Webhook.validateName(name);
+    const url = params.url?.trim() ?? "";
+    Webhook.validateUrl(url);
+    const events = Webhook.toEvents(params.events);
+
+    const secret = `${WEBHOOK_SECRET_PREFIX}${randomBytes(24).toString("base64url")}`;
+    const now = new Date();
+    const webhook = new Webhook(
+      WebhookId.create(),
+      ProjectId.reconstruct(params.projectId),
+      params.reviewSpaceId
+        ? ReviewSpaceId.reconstruct(params.reviewSpaceId)
+        : null,
+      name,
+      url,
+      events,
+      encrypt(secret),
+      true,
+      now,
+      now,
+    );
+
+    return { webhook, secret };
+  }
+
+  /**
+   * DBから取得したデータからWebhookを復元する
+   */
+  static reconstruct(params: ReconstructWebhookParams): Webhook {
+    return new Webhook(
+      WebhookId.reconstruct(params.id),
+      ProjectId.reconstruct(params.projectId),
+      params.reviewSpaceId
+        ? ReviewSpaceId.reconstruct(params.reviewSpaceId)
+        : null,
+      params.name,
+      params.url,
+      params.events.map((event) => WebhookEvent.reconstruct(event)),
+      params.encryptedSecret,
+      params.isEnabled,
+      params.createdAt,
+      params.updatedAt,
+    );
+  }
+
+  /**
+   * Webhook名の検証
+   */
+  private static validateName(name: string): void {
+    if (!name) {
+      throw domainValidationError("WEBHOOK_NAME_EMPTY");
+    }
+    if (name.length > Webhook.MAX_NAME_LENGTH) {
+      throw domainValidationError("WEBHOOK_NAME_TOO_LONG");
+    }
+  }
+
+  /**
+   * 送信先URLの検証（http/httpsのみ許可）
+   */
+  private static validateUrl(url: string): void {
+    if (!url || url.length > Webhook.MAX_URL_LENGTH) {
+      throw domainValidationError("WEBHOOK_URL_INVALID");
+    }
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw domainValidationError("WEBHOOK_URL_INVALID");
+    }
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      throw domainValidationError("WEBHOOK_URL_INVALID");
+    }
+  }
+
+  /**
+   * イベント文字列を値オブジェクトに変換する（重複は除外）
+   */
+  private static toEvents(values: string[]): WebhookEvent[] {
+    const unique = Array.from(new Set(values));
+    if (unique.length === 0) {
+      throw domainValidationError("WEBHOOK_EVENTS_EMPTY");
+    }
+    return unique.map((value) => WebhookEvent.create(value));
+  }
+
+  /**
+   * 名前・送信先URL・購読イベント・有効状態を更新する
+   * 新しいインスタンスを返す（不変性を保持）
+   * @throws ドメインバリデーションエラー - バリデーション失敗時
+   */
+  update(params: UpdateWebhookParams): Webhook {
+    let name = this._name;
+    if (params.name !== undefined) {
+      name = params.name.trim();
+      Webhook.validateName(name);
+    }
+    let url = this._url;
+    if (params.url !== undefined) {
+      url = params.url.trim();
+      Webhook.validateUrl(url);
+    }
+    const events =
+      params.events !== undefined
+        ? Webhook.toEvents(params.events)
+        : this._events;
+
+    return new Webhook(
+      this._id,
+      this._projectId,
+      this._reviewSpaceId,
+      name,
+      url,
+      events,
+      this._encryptedSecret,
+      params.isEnabled ?? this._isEnabled,
+      this._createdAt,
+      new Date(),
+    );
+  }
+
+  /**
+   * 指定したレビュースペースのイベントを受信するか
+   * 無効化されている場合・購読していないイベントの場合は受信しない
+   */
+  subscribes(event: WebhookEventValue, reviewSpaceId: string): boolean {
+    if (!this._isEnabled) {
+      return false;
+    }
+    if (this._reviewSpaceId && this._reviewSpaceId.value !== reviewSpaceId) {
+      return false;
+    }
+    return this._events.some((e) => e.value === event);
+  }
+
+  /**
+   * 送信ボディに対する署名を作成する
+   * 署名対象は「タイムスタンプ（UNIX秒）.ボディ」で、受信側でリプレイ攻撃を検知できるようにする
+   * @returns "sha256=<16進数のHMAC>" 形式の署名
+   */
+  sign(body: string, timestamp: number): string {
+    const hmac = createHmac("sha256", decrypt(this._encryptedSecret))
+      .update(`${timestamp}.${body}`)
+      .digest("hex");
+    return `sha256=${hmac}`;
+  }
+
+  /**
+   * DTOに変換する
+   */
+  toDto(): WebhookDto {
+    return {
+      id: this._id.value,
+      projectId: this._projectId.value,
+      reviewSpaceId: this._reviewSpaceId?.value ?? null,
+      name: this._name,
+      url: this._url,
+      events: this._events.map((e) => e.value),
+      isEnabled: this._isEnabled,
+      createdAt: this._createdAt,
+      updatedAt: this._updatedAt,
+    };
+  }
+
+  // ゲッター
+  get id(): WebhookId {
+    return this._id;
+  }
+
+  get projectId(): ProjectId {
+    return this._projectId;
+  }
+
+  get reviewSpaceId(): ReviewSpaceId | null {
+    return this._reviewSpaceId;
+  }
+
+  get name(): string {
+    return this._name;
+  }
+
+  get url(): string {
+    return this._url;
+  }
+
+  get events(): WebhookEvent[] {
+    return [...this._events];
+  }
+
+  get encryptedSecret(): string {
+    return this._encryptedSecret;
+  }
+
+  get isEnabled(): boolean {
+    return this._isEnabled;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this._updatedAt;
+  }
+}
@@ -0,0 +1,341 @@
+import { WebhookId } from "./WebhookId";
+import { WebhookDeliveryId } from "./WebhookDeliveryId";
+import { WebhookEvent, WebhookEventValue } from "./WebhookEvent";
+
+/**
+ * Webhook配信ステータス定数
+ */
+export const WEBHOOK_DELIVERY_STATUS = {
+  /** 送信待ち（初回送信前・再試行待ち） */
+  PENDING: "pending",
+  /** 送信成功（2xx応答） */
+  SUCCEEDED: "succeeded",
+  /** 再試行回数の上限に達して失敗 */
+  FAILED: "failed",
+} as const;
+
+export type WebhookDeliveryStatusValue =
+  (typeof WEBHOOK_DELIVERY_STATUS)[keyof typeof WEBHOOK_DELIVERY_STATUS];
+
+/** 再試行間隔の初期値（ミリ秒） */
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+/** 再試行間隔の上限（ミリ秒） */
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/** 記録するエラーメッセージの最大長 */
+const MAX_ERROR_MESSAGE_LENGTH = 1000;
+
+/**
+ * 送信試行回数に応じた再試行までの待機時間を計算する
+ * 30秒から倍々に延ばし、1時間で頭打ちにする
+ * @param attemptCount 失敗した送信の通算試行回数（1以上）
+ */
+export function calculateWebhookRetryDelayMs(attemptCount: number): number {
+  const exponent = Math.max(0, attemptCount - 1);
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** exponent, RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Webhook配信DTO
+ * アプリケーション層への出力用
+ */
+export interface WebhookDeliveryDto {
+  id: string;
+  webhookId: string;
+  event: WebhookEventValue;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatusValue;
+  attemptCount: number;
+  /** 次回送信予定日時（送信待ち以外はnull） */
+  nextAttemptAt: Date | null;
+  /** 直近の応答ステータスコード（接続失敗時はnull） */
+  lastStatusCode: number | null;
+  /** 直近の失敗理由 */
+  lastError: string | null;
+  lastAttemptedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Webhook配信作成パラメータ
+ */
+export interface CreateWebhookDeliveryParams {
+  webhookId: string;
+  event: string;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Webhook配信の送信失敗記録パラメータ
+ */
+export interface RecordWebhookDeliveryFailureParams {
+  /** 応答ステータスコード（接続失敗・タイムアウト時はnull） */
+  statusCode: number | null;
+  errorMessage: string;
+  /** 最大試行回数（到達した場合は失敗として確定する） */
+  maxAttempts: number;
+  attemptedAt?: Date;
+}
+
+/**
+ * Webhook配信復元パラメータ（DB復元用）
+ */
+export interface ReconstructWebhookDeliveryParams {
+  id: string;
+  webhookId: string;
+  event: string;
+  payload: Record<string, unknown>;
+  status: string;
+  attemptCount: number;
+  nextAttemptAt: Date | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  lastAttemptedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Webhook配信エンティティ
+ * 1イベント・1Webhookあたりの送信記録（配信ログ）を表す
+ * 送信に失敗した場合は指数バックオフで再試行し、上限に達すると失敗として確定する
+ */
+export class WebhookDelivery {
+  private readonly _id: WebhookDeliveryId;
+  private readonly _webhookId: WebhookId;
+  private readonly _event: WebhookEvent;
+  private readonly _payload: Record<string, unknown>;
+  private readonly _status: WebhookDeliveryStatusValue;
+  private readonly _attemptCount: number;
+  private readonly _nextAttemptAt: Date | null;
+  private readonly _lastStatusCode: number | null;
+  private readonly _lastError: string | null;
+  private readonly _lastAttemptedAt: Date | null;
+  private readonly _createdAt: Date;
+
+  private constructor(
+    id: WebhookDeliveryId,
+    webhookId: WebhookId,
+    event: WebhookEvent,
+    payload: Record<string, unknown>,
+    status: WebhookDeliveryStatusValue,
+    attemptCount: number,
+    nextAttemptAt: Date | null,
+    lastStatusCode: number | null,
+    lastError: string | null,
+    lastAttemptedAt: Date | null,
+    createdAt: Date,
+  ) {
+    this._id = id;
+    this._webhookId = webhookId;
+    this._event = event;
+    this._payload = payload;
+    this._status = status;
+    this._attemptCount = attemptCount;
+    this._nextAttemptAt = nextAttemptAt;
+    this._lastStatusCode = lastStatusCode;
+    this._lastError = lastError;
+    this._lastAttemptedAt = lastAttemptedAt;
+    this._createdAt = createdAt;
+  }
+
+  /**
+   * 新規配信を作成する
+   * 作成直後は送信待ちとなり、すぐに送信対象となる
+   * @throws ドメインバリデーションエラー - イベントが不正な場合
+   */
+  static create(params: CreateWebhookDeliveryParams): WebhookDelivery {
+    const now = new Date();
+    return new WebhookDelivery(
+      WebhookDeliveryId.create(),
+      WebhookId.reconstruct(params.webhookId),
+      WebhookEvent.create(params.event),
+      params.payload,
+      WEBHOOK_DELIVERY_STATUS.PENDING,
+      0,
+      now,
+      null,
+      null,
+      null,
+      now,
+    );
+  }
+
+  /**
+   * DBから取得したデータから配信を復元する
+   */
+  static reconstruct(
+    params: ReconstructWebhookDeliveryParams,
+  ): WebhookDelivery {
+    return new WebhookDelivery(
+      WebhookDeliveryId.reconstruct(params.id),
+      WebhookId.reconstruct(params.webhookId),
+      WebhookEvent.reconstruct(params.event),
+      params.payload,
+      params.status as WebhookDeliveryStatusValue,
+      params.attemptCount,
+      params.nextAttemptAt,
+      params.lastStatusCode,
+      params.lastError,
+      params.lastAttemptedAt,
+      params.createdAt,
+    );
+  }
+
+  /**
+   * 送信成功を記録する
+   * 新しいインスタンスを返す（不変性を保持）
+   */
+  recordSuccess(
+    statusCode: number,
+    attemptedAt: Date = new Date(),
+  ): WebhookDelivery {
+    return new WebhookDelivery(
+      this._id,
+      this._webhookId,
+      this._event,
+      this._payload,
+      WEBHOOK_DELIVERY_STATUS.SUCCEEDED,
+      this._attemptCount + 1,
+      null,
+      statusCode,
+      null,
+      attemptedAt,
+      this._createdAt,
+    );
+  }
+
+  /**
+   * 送信失敗を記録する
+   * 最大試行回数に達していなければ、バックオフ後に再試行するよう送信待ちに戻す
+   * 新しいインスタンスを返す（不変性を保持）
+   */
+  recordFailure(params: RecordWebhookDeliveryFailureParams): WebhookDelivery {
+    const attemptedAt = params.attemptedAt ?? new Date();
+    const attemptCount = this._attemptCount + 1;
+    const canRetry = attemptCount < params.maxAttempts;
+
+    return new WebhookDelivery(
+      this._id,
+      this._webhookId,
+      this._event,
+      this._payload,
+      canRetry
+        ? WEBHOOK_DELIVERY_STATUS.PENDING
+        : WEBHOOK_DELIVERY_STATUS.FAILED,
+      attemptCount,
+      canRetry
+        ? new Date(
+            attemptedAt.getTime() + calculateWebhookRetryDelayMs(attemptCount),
+          )
+        : null,
+      params.statusCode,
+      params.errorMessage.slice(0, MAX_ERROR_MESSAGE_LENGTH),
+      attemptedAt,
+      this._createdAt,
+    );
+  }
+
+  /**
+   * 再試行せずに失敗として確定する（Webhookの削除・無効化時など）
+   * 新しいインスタンスを返す（不変性を保持）
+   */
+  abandon(errorMessage: string): WebhookDelivery {
+    return new WebhookDelivery(
+      this._id,
+      this._webhookId,
+      this._event,
+      this._payload,
+      WEBHOOK_DELIVERY_STATUS.FAILED,
+      this._attemptCount,
+      null,
+      this._lastStatusCode,
+      errorMessage.slice(0, MAX_ERROR_MESSAGE_LENGTH),
+      this._lastAttemptedAt,
+      this._createdAt,
+    );
+  }
+
+  /**
+   * 同じイベント・ペイロードで再送信用の新しい配信を作成する
+   * 元の配信記録はそのまま残す
+   */
+  redeliver(): WebhookDelivery {
+    return WebhookDelivery.create({
+      webhookId: this._webhookId.value,
+      event: this._event.value,
+      payload: this._payload,
+    });
+  }
+
+  /**
+   * 送信待ちかどうか
+   */
+  isPending(): boolean {
+    return this._status === WEBHOOK_DELIVERY_STATUS.PENDING;
+  }
+
+  /**
+   * DTOに変換する
+   */
+  toDto(): WebhookDeliveryDto {
+    return {
+      id: this._id.value,
+      webhookId: this._webhookId.value,
+      event: this._event.value,
+      payload: this._payload,
+      status: this._status,
+      attemptCount: this._attemptCount,
+      nextAttemptAt: this._nextAttemptAt,
+      lastStatusCode: this._lastStatusCode,
+      lastError: this._lastError,
+      lastAttemptedAt: this._lastAttemptedAt,
+      createdAt: this._createdAt,
+    };
+  }
+
+  // ゲッター
+  get id(): WebhookDeliveryId {
+    return this._id;
+  }
+
+  get webhookId(): WebhookId {
+    return this._webhookId;
+  }
+
+  get event(): WebhookEvent {
+    return this._event;
+  }
+
+  get payload(): Record<string, unknown> {
+    return this._payload;
+  }
+
+  get status(): WebhookDeliveryStatusValue {
+    return this._status;
+  }
+
+  get attemptCount(): number {
+    return this._attemptCount;
+  }
+
+  get nextAttemptAt(): Date | null {
+    return this._nextAttemptAt;
+  }
+
+  get lastStatusCode(): number | null {
+    return this._lastStatusCode;
+  }
+
+  get lastError(): string | null {
+    return this._lastError;
+  }
+
+  get lastAttemptedAt(): Date | null {
+    return this._lastAttemptedAt;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+}
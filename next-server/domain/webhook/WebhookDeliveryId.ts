@@ -0,0 +1,43 @@
+import { validate as uuidValidate, v4 as uuidv4 } from "uuid";
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * Webhook配信ID値オブジェクト
+ * UUIDで一意に識別
+ */
+export class WebhookDeliveryId {
+  private readonly _value: string;
+
+  private constructor(value: string) {
+    this._value = value;
+  }
+
+  /**
+   * 新規IDを生成する
+   */
+  static create(): WebhookDeliveryId {
+    return new WebhookDeliveryId(uuidv4());
+  }
+
+  /**
+   * 文字列からIDを復元する
+   * @throws ドメインバリデーションエラー - 無効なUUID形式の場合
+   */
+  static reconstruct(value: string): WebhookDeliveryId {
+    if (!uuidValidate(value)) {
+      throw domainValidationError("WEBHOOK_DELIVERY_ID_INVALID_FORMAT");
+    }
+    return new WebhookDeliveryId(value);
+  }
+
+  get value(): string {
+    return this._value;
+  }
+
+  /**
+   * 等価性の比較
+   */
+  equals(other: WebhookDeliveryId): boolean {
+    return this._value === other._value;
+  }
+}
@@ -0,0 +1,90 @@
+import { domainValidationError } from "@/lib/server/error";
+
+/**
+ * Webhookイベント定数
+ */
+export const WEBHOOK_EVENT = {
+  /** レビューがキューに登録された（リトライを含む） */
+  REVIEW_QUEUED: "review.queued",
+  /** レビューの実行が開始された */
+  REVIEW_STARTED: "review.started",
+  /** レビューが完了した */
+  REVIEW_COMPLETED: "review.completed",
+  /** レビューが失敗した */
+  REVIEW_FAILED: "review.failed",
+  /** チェックリストのAI生成が完了した */
+  CHECKLIST_GENERATED: "checklist.generated",
+  /** Q&Aの回答が生成された */
+  QA_ANSWERED: "qa.answered",
+} as const;
+
+export type WebhookEventValue =
+  (typeof WEBHOOK_EVENT)[keyof typeof WEBHOOK_EVENT];
+
+/**
+ * Webhookイベント値オブジェクト
+ * 外部システムへ通知するライフサイクルイベントを表す
+ */
+export class WebhookEvent {
+  private readonly _value: WebhookEventValue;
+
+  private constructor(value: WebhookEventValue) {
+    this._value = value;
+  }
+
+  /**
+   * 新規イベントを生成する
+   * @throws ドメインバリデーションエラー - イベントが不正な場合
+   */
+  static create(value: string): WebhookEvent {
+    WebhookEvent.validate(value);
+    return new WebhookEvent(value as WebhookEventValue);
+  }
+
+  /**
+   * 既存のイベント文字列から復元する
+   * @throws ドメインバリデーションエラー - イベントが不正な場合
+   */
+  static reconstruct(value: string): WebhookEvent {
+    WebhookEvent.validate(value);
+    return new WebhookEvent(value as WebhookEventValue);
+  }
+
+  /**
+   * 文字列がイベントとして有効か判定する
+   */
+  static isValid(value: string): value is WebhookEventValue {
+    return Object.values(WEBHOOK_EVENT).includes(value as WebhookEventValue);
+  }
+
+  /**
+   * イベント値の検証
+   * @throws ドメインバリデーションエラー - イベントが不正な場合
+   */
+  private static validate(value: string): void {
+    if (!WebhookEvent.isValid(value)) {
+      throw domainValidationError("WEBHOOK_EVENT_INVALID");
+    }
+  }
+
+  /**
+   * イベント値を取得
+   */
+  get value(): WebhookEventValue {
+    return this._value;
+  }
+
+  /**
+   * 等価性の比較
+   */
+  equals(other: WebhookEvent): boolean {
+    return this._value === other._value;
+  }
+
+  /**
+   * 文字列表現
+   */
+  toString(): string {
+    return this._value;
+  }
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from "vitest";
+import { createHmac } from "crypto";
+import { Webhook, WEBHOOK_EVENT, WEBHOOK_SECRET_PREFIX } from "../index";
+
+// 暗号化関数をモック
+vi.mock("@/lib/server/encryption", () => ({
+  encrypt: vi.fn((text: string) => `encrypted_${text}`),
+  decrypt: vi.fn((text: string) => text.replace("encrypted_", "")),
+}));
+
+describe("Webhook", () => {
+  // テスト用データ（有効なUUID v4形式）
+  const testProjectId = "550e8400-e29b-41d4-a716-446655440001";
+  const testReviewSpaceId = "550e8400-e29b-41d4-a716-446655440002";
+  const otherReviewSpaceId = "550e8400-e29b-41d4-a716-446655440003";
+
+  const createWebhook = (reviewSpaceId: string | null = null) =>
+    Webhook.create({
+      projectId: testProjectId,
+      reviewSpaceId,
+      name: "CI通知",
+      url: "https://example.com/hook",
+      events: [WEBHOOK_EVENT.REVIEW_COMPLETED, WEBHOOK_EVENT.REVIEW_FAILED],
+    });
+
+  describe("create", () => {
+    it("署名シークレットを発行し、暗号化して保持する", () => {
+      const { webhook, secret } = createWebhook();
+
+      expect(secret.startsWith(WEBHOOK_SECRET_PREFIX)).toBe(true);
+      expect(webhook.encryptedSecret).toBe(`encrypted_${secret}`);
+      expect(webhook.isEnabled).toBe(true);
+      expect(webhook.toDto()).not.toHaveProperty("encryptedSecret");
+    });
+
+    it("重複したイベントは1つにまとめる", () => {
+      const { webhook } = Webhook.create({
+        projectId: testProjectId,
+        name: "CI通知",
+        url: "https://example.com/hook",
+        events: [WEBHOOK_EVENT.QA_ANSWERED, WEBHOOK_EVENT.QA_ANSWERED],
+      });
+
+      expect(webhook.toDto().events).toEqual([WEBHOOK_EVENT.QA_ANSWERED]);
+    });
+
+    it("名前が空の場合はエラー", () => {
+      expect(() =>
+        Webhook.create({
+          projectId: testProjectId,
+          name: "  ",
+          url: "https://example.com/hook",
+          events: [WEBHOOK_EVENT.QA_ANSWERED],
+        }),
+      ).toThrow();
+    });
+
+    it("http/https以外のURLはエラー", () => {
+      expect(() =>
+        Webhook.create({
+          projectId: testProjectId,
+          name: "CI通知",
+          url: "ftp://example.com/hook",
+          events: [WEBHOOK_EVENT.QA_ANSWERED],
+        }),
+      ).toThrow();
+    });
+
+    it("イベントが空、または不正な場合はエラー", () => {
+      expect(() =>
+        Webhook.create({
+          projectId: testProjectId,
+          name: "CI通知",
+          url: "https://example.com/hook",
+          events: [],
+        }),
+      ).toThrow();
+      expect(() =>
+        Webhook.create({
+          projectId: testProjectId,
+          name: "CI通知",
+          url: "https://example.com/hook",
+          events: ["review.unknown"],
+        }),
+      ).toThrow();
+    });
+  });
+
+  describe("update", () => {
+    it("指定した項目のみ更新し、シークレットは維持する", () => {
+      const { webhook } = createWebhook();
+
+      const updated = webhook.update({ isEnabled: false });
+
+      expect(updated.isEnabled).toBe(false);
+      expect(updated.name).toBe("CI通知");
+      expect(updated.encryptedSecret).toBe(webhook.encryptedSecret);
+      expect(webhook.isEnabled).toBe(true);
+    });
+  });
+
+  describe("subscribes", () => {
+    it("プロジェクト全体のWebhookは全レビュースペースの購読イベントを受信する", () => {
+      const { webhook } = createWebhook();
+
+      expect(
+        webhook.subscribes(WEBHOOK_EVENT.REVIEW_COMPLETED, otherReviewSpaceId),
+      ).toBe(true);
+      expect(
+        webhook.subscribes(WEBHOOK_EVENT.QA_ANSWERED, otherReviewSpaceId),
+      ).toBe(false);
+    });
+
+    it("レビュースペース指定のWebhookは対象スペースのイベントのみ受信する", () => {
+      const { webhook } = createWebhook(testReviewSpaceId);
+
+      expect(
+        webhook.subscribes(WEBHOOK_EVENT.REVIEW_COMPLETED, testReviewSpaceId),
+      ).toBe(true);
+      expect(
+        webhook.subscribes(WEBHOOK_EVENT.REVIEW_COMPLETED, otherReviewSpaceId),
+      ).toBe(false);
+    });
+
+    it("無効化されたWebhookは受信しない", () => {
+      const { webhook } = createWebhook();
+
+      expect(
+        webhook
+          .update({ isEnabled: false })
+          .subscribes(WEBHOOK_EVENT.REVIEW_COMPLETED, testReviewSpaceId),
+      ).toBe(false);
+    });
+  });
+
+  describe("sign", () => {
+    it("タイムスタンプとボディをシークレットでHMAC-SHA256署名する", () => {
+      const { webhook, secret } = createWebhook();
+      const body = JSON.stringify({ event: "review.completed" });
+
+      const signature = webhook.sign(body, 1700000000);
+
+      const expected = createHmac("sha256", secret)
+        .update(`1700000000.${body}`)
+        .digest("hex");
+      expect(signature).toBe(`sha256=${expected}`);
+    });
+  });
+});
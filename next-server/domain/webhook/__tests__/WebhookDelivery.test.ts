@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  WebhookDelivery,
+  WEBHOOK_DELIVERY_STATUS,
+  WEBHOOK_EVENT,
+  calculateWebhookRetryDelayMs,
+} from "../index";
+
+describe("WebhookDelivery", () => {
+  // テスト用の固定日時
+  const fixedDate = new Date("2024-01-01T00:00:00.000Z");
+  const testWebhookId = "550e8400-e29b-41d4-a716-446655440001";
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(fixedDate);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createDelivery = () =>
+    WebhookDelivery.create({
+      webhookId: testWebhookId,
+      event: WEBHOOK_EVENT.REVIEW_COMPLETED,
+      payload: { event: WEBHOOK_EVENT.REVIEW_COMPLETED },
+    });
+
+  describe("calculateWebhookRetryDelayMs", () => {
+    it("30秒から倍々に延ばし、1時間で頭打ちにする", () => {
+      expect(calculateWebhookRetryDelayMs(1)).toBe(30 * 1000);
+      expect(calculateWebhookRetryDelayMs(2)).toBe(60 * 1000);
+      expect(calculateWebhookRetryDelayMs(3)).toBe(120 * 1000);
+      expect(calculateWebhookRetryDelayMs(20)).toBe(60 * 60 * 1000);
+    });
+  });
+
+  describe("create", () => {
+    it("送信待ちとして作成され、すぐに送信対象となる", () => {
+      const delivery = createDelivery();
+
+      expect(delivery.status).toBe(WEBHOOK_DELIVERY_STATUS.PENDING);
+      expect(delivery.attemptCount).toBe(0);
+      expect(delivery.nextAttemptAt).toEqual(fixedDate);
+    });
+  });
+
+  describe("recordSuccess", () => {
+    it("成功として確定し、次回送信予定をクリアする", () => {
+      const delivery = createDelivery().recordSuccess(204);
+
+      expect(delivery.status).toBe(WEBHOOK_DELIVERY_STATUS.SUCCEEDED);
+      expect(delivery.attemptCount).toBe(1);
+      expect(delivery.lastStatusCode).toBe(204);
+      expect(delivery.nextAttemptAt).toBeNull();
+    });
+  });
+
+  describe("recordFailure", () => {
+    it("上限未満ならバックオフ後に再試行するよう送信待ちに戻す", () => {
+      const delivery = createDelivery().recordFailure({
+        statusCode: 500,
+        errorMessage: "HTTP 500",
+        maxAttempts: 3,
+      });
+
+      expect(delivery.status).toBe(WEBHOOK_DELIVERY_STATUS.PENDING);
+      expect(delivery.attemptCount).toBe(1);
+      expect(delivery.lastStatusCode).toBe(500);
+      expect(delivery.lastError).toBe("HTTP 500");
+      expect(delivery.nextAttemptAt).toEqual(
+        new Date(fixedDate.getTime() + 30 * 1000),
+      );
+    });
+
+    it("上限に達した場合は失敗として確定する", () => {
+      const delivery = createDelivery()
+        .recordFailure({
+          statusCode: null,
+          errorMessage: "接続エラー",
+          maxAttempts: 2,
+        })
+        .recordFailure({
+          statusCode: null,
+          errorMessage: "接続エラー",
+          maxAttempts: 2,
+        });
+
+      expect(delivery.status).toBe(WEBHOOK_DELIVERY_STATUS.FAILED);
+      expect(delivery.attemptCount).toBe(2);
+      expect(delivery.nextAttemptAt).toBeNull();
+    });
+  });
+
+  describe("redeliver", () => {
+    it("同じペイロードで新しい送信待ちの配信を作成する", () => {
+      const failed = createDelivery().abandon("Webhookが無効化されています");
+
+      const redelivery = failed.redeliver();
+
+      expect(redelivery.id.value).not.toBe(failed.id.value);
+      expect(redelivery.status).toBe(WEBHOOK_DELIVERY_STATUS.PENDING);
+      expect(redelivery.attemptCount).toBe(0);
+      expect(redelivery.payload).toEqual(failed.payload);
+      expect(failed.status).toBe(WEBHOOK_DELIVERY_STATUS.FAILED);
+    });
+  });
+});
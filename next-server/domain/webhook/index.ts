@@ -0,0 +1,25 @@
+export { WebhookId } from "./WebhookId";
+export { WebhookDeliveryId } from "./WebhookDeliveryId";
+export {
+  WebhookEvent,
+  WEBHOOK_EVENT,
+  type WebhookEventValue,
+} from "./WebhookEvent";
+export {
+  Webhook,
+  WEBHOOK_SECRET_PREFIX,
+  type WebhookDto,
+  type CreateWebhookParams,
+  type UpdateWebhookParams,
+  type ReconstructWebhookParams,
+} from "./Webhook";
+export {
+  WebhookDelivery,
+  WEBHOOK_DELIVERY_STATUS,
+  calculateWebhookRetryDelayMs,
+  type WebhookDeliveryStatusValue,
+  type WebhookDeliveryDto,
+  type CreateWebhookDeliveryParams,
+  type RecordWebhookDeliveryFailureParams,
+  type ReconstructWebhookDeliveryParams,
+} from "./WebhookDelivery";
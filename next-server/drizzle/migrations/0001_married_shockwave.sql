@@ -0,0 +1,16 @@
+CREATE TABLE "review_space_plugins" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"review_space_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"hook_points" jsonb NOT NULL,
+	"extensions" jsonb NOT NULL,
+	"timeout_ms" integer DEFAULT 10000 NOT NULL,
+	"is_enabled" boolean DEFAULT true NOT NULL,
+	"script_path" text NOT NULL,
+	"script_size" integer NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "review_space_plugins" ADD CONSTRAINT "review_space_plugins_review_space_id_review_spaces_id_fk" FOREIGN KEY ("review_space_id") REFERENCES "public"."review_spaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_review_space_plugins_review_space_id" ON "review_space_plugins" USING btree ("review_space_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "review_results" ADD COLUMN "evidence" jsonb;
\ No newline at end of file
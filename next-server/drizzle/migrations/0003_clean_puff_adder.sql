@@ -0,0 +1,9 @@
+ALTER TABLE "review_results" ADD COLUMN "human_evaluation" varchar(20);--> statement-breakpoint
+ALTER TABLE "review_results" ADD COLUMN "human_comment" text;--> statement-breakpoint
+ALTER TABLE "review_results" ADD COLUMN "disposition" varchar(20);--> statement-breakpoint
+ALTER TABLE "review_results" ADD COLUMN "reviewed_by" uuid;--> statement-breakpoint
+ALTER TABLE "review_results" ADD COLUMN "reviewed_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "review_targets" ADD COLUMN "signed_off_by" uuid;--> statement-breakpoint
+ALTER TABLE "review_targets" ADD COLUMN "signed_off_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "review_results" ADD CONSTRAINT "review_results_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "review_targets" ADD CONSTRAINT "review_targets_signed_off_by_users_id_fk" FOREIGN KEY ("signed_off_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "project_members" ADD COLUMN "role" varchar(20) DEFAULT 'editor' NOT NULL;--> statement-breakpoint
+-- 既存プロジェクトは最初に登録されたメンバーをオーナーとする
+UPDATE "project_members" SET "role" = 'owner' WHERE ("project_id", "created_at", "user_id") IN (SELECT DISTINCT ON ("project_id") "project_id", "created_at", "user_id" FROM "project_members" ORDER BY "project_id", "created_at", "user_id");
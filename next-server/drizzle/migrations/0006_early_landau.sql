@@ -0,0 +1,4 @@
+ALTER TABLE "ai_tasks" ADD COLUMN "lease_owner" varchar(100);--> statement-breakpoint
+ALTER TABLE "ai_tasks" ADD COLUMN "lease_expires_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "ai_tasks" ADD COLUMN "delivery_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE INDEX "idx_ai_tasks_lease_expires_at" ON "ai_tasks" USING btree ("status","lease_expires_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "ai_tasks" ADD COLUMN "ai_api_retry_count" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "projects" ADD COLUMN "rate_limit_requests_per_minute" integer;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "rate_limit_tokens_per_minute" integer;--> statement-breakpoint
+ALTER TABLE "system_settings" ADD COLUMN "rate_limit_requests_per_minute" integer;--> statement-breakpoint
+ALTER TABLE "system_settings" ADD COLUMN "rate_limit_tokens_per_minute" integer;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "personal_access_token_projects" (
+	"token_id" uuid NOT NULL,
+	"project_id" uuid NOT NULL,
+	CONSTRAINT "personal_access_token_projects_token_id_project_id_pk" PRIMARY KEY("token_id","project_id")
+);
+--> statement-breakpoint
+CREATE TABLE "personal_access_tokens" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"token_hash" varchar(64) NOT NULL,
+	"token_prefix" varchar(20) NOT NULL,
+	"expires_at" timestamp with time zone,
+	"last_used_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "personal_access_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "personal_access_token_projects" ADD CONSTRAINT "personal_access_token_projects_token_id_personal_access_tokens_id_fk" FOREIGN KEY ("token_id") REFERENCES "public"."personal_access_tokens"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "personal_access_token_projects" ADD CONSTRAINT "personal_access_token_projects_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "personal_access_tokens" ADD CONSTRAINT "personal_access_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_personal_access_tokens_user_id" ON "personal_access_tokens" USING btree ("user_id");
\ No newline at end of file
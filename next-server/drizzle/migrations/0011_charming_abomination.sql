@@ -0,0 +1,10 @@
+CREATE TABLE "qa_history_events" (
+	"qa_history_id" uuid NOT NULL,
+	"sequence" integer NOT NULL,
+	"type" varchar(50) NOT NULL,
+	"data" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "qa_history_events_qa_history_id_sequence_pk" PRIMARY KEY("qa_history_id","sequence")
+);
+--> statement-breakpoint
+ALTER TABLE "qa_history_events" ADD CONSTRAINT "qa_history_events_qa_history_id_qa_histories_id_fk" FOREIGN KEY ("qa_history_id") REFERENCES "public"."qa_histories"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "qa_histories" ADD COLUMN "thread_id" uuid;--> statement-breakpoint
+UPDATE "qa_histories" SET "thread_id" = "id" WHERE "thread_id" IS NULL;--> statement-breakpoint
+ALTER TABLE "qa_histories" ALTER COLUMN "thread_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "qa_histories" ADD CONSTRAINT "qa_histories_thread_id_qa_histories_id_fk" FOREIGN KEY ("thread_id") REFERENCES "public"."qa_histories"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_qa_histories_thread_id" ON "qa_histories" USING btree ("thread_id");
@@ -0,0 +1,6 @@
+ALTER TABLE "check_list_items" ADD COLUMN "category" varchar(100);--> statement-breakpoint
+ALTER TABLE "check_list_items" ADD COLUMN "display_order" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "check_list_items" ADD COLUMN "severity" varchar(20) DEFAULT 'medium' NOT NULL;--> statement-breakpoint
+ALTER TABLE "check_list_items" ADD COLUMN "guidance" text;--> statement-breakpoint
+UPDATE "check_list_items" SET "display_order" = "ordered"."row_number" - 1 FROM (SELECT "id", ROW_NUMBER() OVER (PARTITION BY "review_space_id" ORDER BY "created_at", "id") AS "row_number" FROM "check_list_items") AS "ordered" WHERE "check_list_items"."id" = "ordered"."id";--> statement-breakpoint
+CREATE INDEX "idx_check_list_items_review_space_id_display_order" ON "check_list_items" USING btree ("review_space_id","display_order");
\ No newline at end of file
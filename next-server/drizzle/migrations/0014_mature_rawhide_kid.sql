@@ -0,0 +1,28 @@
+CREATE TABLE "checklist_template_versions" (
+	"template_id" uuid NOT NULL,
+	"version" integer NOT NULL,
+	"items" jsonb NOT NULL,
+	"change_note" text,
+	"published_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "checklist_template_versions_template_id_version_pk" PRIMARY KEY("template_id","version")
+);
+--> statement-breakpoint
+CREATE TABLE "checklist_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid,
+	"name" varchar(100) NOT NULL,
+	"description" text,
+	"latest_version" integer NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "review_spaces" ADD COLUMN "checklist_template_id" uuid;--> statement-breakpoint
+ALTER TABLE "review_spaces" ADD COLUMN "checklist_template_version" integer;--> statement-breakpoint
+ALTER TABLE "checklist_template_versions" ADD CONSTRAINT "checklist_template_versions_template_id_checklist_templates_id_fk" FOREIGN KEY ("template_id") REFERENCES "public"."checklist_templates"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "checklist_template_versions" ADD CONSTRAINT "checklist_template_versions_published_by_users_id_fk" FOREIGN KEY ("published_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "checklist_templates" ADD CONSTRAINT "checklist_templates_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_checklist_templates_project_id" ON "checklist_templates" USING btree ("project_id");--> statement-breakpoint
+ALTER TABLE "review_spaces" ADD CONSTRAINT "review_spaces_checklist_template_id_checklist_templates_id_fk" FOREIGN KEY ("checklist_template_id") REFERENCES "public"."checklist_templates"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_review_spaces_checklist_template_id" ON "review_spaces" USING btree ("checklist_template_id");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "review_targets" ADD COLUMN "revision_group_id" uuid;--> statement-breakpoint
+ALTER TABLE "review_targets" ADD COLUMN "revision" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+CREATE INDEX "idx_review_targets_revision_group_id" ON "review_targets" USING btree ("revision_group_id");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "ai_task_histories" (
+	"task_id" uuid PRIMARY KEY NOT NULL,
+	"task_type" varchar(50) NOT NULL,
+	"status" varchar(20) NOT NULL,
+	"review_space_id" uuid NOT NULL,
+	"review_target_id" uuid,
+	"error_message" text,
+	"queued_at" timestamp with time zone NOT NULL,
+	"started_at" timestamp with time zone,
+	"completed_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ai_task_histories" ADD CONSTRAINT "ai_task_histories_review_space_id_review_spaces_id_fk" FOREIGN KEY ("review_space_id") REFERENCES "public"."review_spaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_ai_task_histories_review_space_id_completed_at" ON "ai_task_histories" USING btree ("review_space_id","completed_at");
\ No newline at end of file
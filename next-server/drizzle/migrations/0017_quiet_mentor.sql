@@ -0,0 +1,18 @@
+CREATE TABLE "ai_token_usages" (
+	"task_id" uuid PRIMARY KEY NOT NULL,
+	"project_id" uuid NOT NULL,
+	"review_space_id" uuid NOT NULL,
+	"review_target_id" uuid,
+	"qa_history_id" uuid,
+	"task_type" varchar(50) NOT NULL,
+	"model" varchar(255) NOT NULL,
+	"request_count" integer NOT NULL,
+	"prompt_tokens" integer NOT NULL,
+	"completion_tokens" integer NOT NULL,
+	"total_tokens" integer NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "monthly_token_budget" integer;--> statement-breakpoint
+ALTER TABLE "ai_token_usages" ADD CONSTRAINT "ai_token_usages_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_ai_token_usages_project_id_created_at" ON "ai_token_usages" USING btree ("project_id","created_at");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "projects" ADD COLUMN "ai_model_assignments" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "system_settings" ADD COLUMN "ai_providers" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "system_settings" ADD COLUMN "ai_model_assignments" jsonb DEFAULT '{}'::jsonb NOT NULL;
\ No newline at end of file
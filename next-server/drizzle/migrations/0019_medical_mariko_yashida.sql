@@ -0,0 +1,13 @@
+CREATE TABLE "review_document_chunks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"review_document_cache_id" uuid NOT NULL,
+	"chunk_index" integer NOT NULL,
+	"heading" text,
+	"content" text NOT NULL,
+	"embedding" real[] NOT NULL,
+	"embedding_model" varchar(255) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "review_document_chunks" ADD CONSTRAINT "review_document_chunks_review_document_cache_id_review_document_caches_id_fk" FOREIGN KEY ("review_document_cache_id") REFERENCES "public"."review_document_caches"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_review_document_chunks_cache_chunk" ON "review_document_chunks" USING btree ("review_document_cache_id","chunk_index");
\ No newline at end of file
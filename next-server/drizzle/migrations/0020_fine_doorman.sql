@@ -0,0 +1 @@
+ALTER TABLE "system_settings" ADD COLUMN "model_context_windows" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
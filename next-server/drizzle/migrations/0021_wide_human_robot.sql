@@ -0,0 +1,3 @@
+DROP INDEX "idx_review_targets_revision_group_id";--> statement-breakpoint
+UPDATE "review_targets" SET "revision" = "renumbered"."revision" FROM (SELECT "duplicates"."id", "group_max"."max_revision" + ROW_NUMBER() OVER (PARTITION BY "duplicates"."revision_group_id" ORDER BY "duplicates"."created_at", "duplicates"."id") AS "revision" FROM (SELECT "id", "revision_group_id", "created_at", ROW_NUMBER() OVER (PARTITION BY "revision_group_id", "revision" ORDER BY "created_at", "id") AS "duplicate_index" FROM "review_targets" WHERE "revision_group_id" IS NOT NULL) AS "duplicates" INNER JOIN (SELECT "revision_group_id", MAX("revision") AS "max_revision" FROM "review_targets" WHERE "revision_group_id" IS NOT NULL GROUP BY "revision_group_id") AS "group_max" ON "group_max"."revision_group_id" = "duplicates"."revision_group_id" WHERE "duplicates"."duplicate_index" > 1) AS "renumbered" WHERE "review_targets"."id" = "renumbered"."id";--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_review_targets_revision_group_revision" ON "review_targets" USING btree ("revision_group_id","revision");
\ No newline at end of file
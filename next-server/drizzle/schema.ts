@@ -10,6 +10,8 @@ import {
   jsonb,
   integer,
   boolean,
+  real,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 
 /**
@@ -54,6 +56,17 @@ export const projects = pgTable("projects", {
   description: text("description"),
   /** AES-256で暗号化されたAPIキー */
   encryptedApiKey: text("encrypted_api_key"),
+  /** 1分あたりの最大リクエスト数（NULLの場合はシステム設定を使用） */
+  rateLimitRequestsPerMinute: integer("rate_limit_requests_per_minute"),
+  /** 1分あたりの最大トークン数（NULLの場合はシステム設定を使用） */
+  rateLimitTokensPerMinute: integer("rate_limit_tokens_per_minute"),
+  /** 1か月あたりのAIトークン使用量の上限（NULLの場合は上限なし） */
+  monthlyTokenBudget: integer("monthly_token_budget"),
+  /**
+   * エージェント別モデル割り当て（JSON形式、割り当てのないエージェントはシステム設定を使用）
+   * 構造: { [target: string]: { providerId: string | null, model: string } }
+   */
+  aiModelAssignments: jsonb("ai_model_assignments").notNull().default({}),
   /** レコード作成日時 */
   createdAt: timestamp("created_at", { withTimezone: true })
     .notNull()
@@ -85,6 +98,8 @@ export const projectMembers = pgTable(
     userId: uuid("user_id")
       .notNull()
       .references(() => users.id, { onDelete: "cascade" }),
+    /** ロール（owner, editor, reviewer, viewer） */
+    role: varchar("role", { length: 20 }).notNull().default("editor"),
     /** メンバー追加日時 */
     createdAt: timestamp("created_at", { withTimezone: true })
       .notNull()
@@ -125,7 +140,8 @@ export const reviewSpaces = pgTable(
      *   additionalInstructions: string | null,
      *   concurrentReviewItems: number,
      *   commentFormat: string,
-     *   evaluationCriteria: EvaluationItemProps[]
+     *   evaluationCriteria: EvaluationItemProps[],
+     *   chunking: ChunkingSettingsDto
      * }
      */
     defaultReviewSettings: jsonb("default_review_settings").notNull(),
@@ -142,8 +158,20 @@ export const reviewSpaces = pgTable(
      * 最新のエラーのみ保持（生成成功時にクリアされる）
      */
     checklistGenerationError: text("checklist_generation_error"),
+    /** リンクしているチェックリストテンプレートID（FK、テンプレート削除時はNULL） */
+    checklistTemplateId: uuid("checklist_template_id").references(
+      () => checklistTemplates.id,
+      { onDelete: "set null" },
+    ),
+    /** 最後に取り込んだチェックリストテンプレートのバージョン */
+    checklistTemplateVersion: integer("checklist_template_version"),
   },
-  (table) => [index("idx_review_spaces_project_id").on(table.projectId)],
+  (table) => [
+    index("idx_review_spaces_project_id").on(table.projectId),
+    index("idx_review_spaces_checklist_template_id").on(
+      table.checklistTemplateId,
+    ),
+  ],
 );
 
 /**
@@ -167,6 +195,14 @@ export const checkListItems = pgTable(
       .references(() => reviewSpaces.id, { onDelete: "cascade" }),
     /** チェック項目内容（最大2000文字） */
     content: text("content").notNull(),
+    /** カテゴリ（最大100文字、未分類の場合はNULL） */
+    category: varchar("category", { length: 100 }),
+    /** レビュースペース内での表示順（昇順） */
+    displayOrder: integer("display_order").notNull().default(0),
+    /** 重要度: high, medium, low */
+    severity: varchar("severity", { length: 20 }).notNull().default("medium"),
+    /** レビューガイダンス（判断基準や具体例、最大2000文字） */
+    guidance: text("guidance"),
     /** レコード作成日時 */
     createdAt: timestamp("created_at", { withTimezone: true })
       .notNull()
@@ -178,6 +214,10 @@ export const checkListItems = pgTable(
   },
   (table) => [
     index("idx_check_list_items_review_space_id").on(table.reviewSpaceId),
+    index("idx_check_list_items_review_space_id_display_order").on(
+      table.reviewSpaceId,
+      table.displayOrder,
+    ),
   ],
 );
 
@@ -213,7 +253,8 @@ export const reviewTargets = pgTable(
      *   additionalInstructions: string | null,
      *   concurrentReviewItems: number,
      *   commentFormat: string,
-     *   evaluationCriteria: EvaluationItemProps[]
+     *   evaluationCriteria: EvaluationItemProps[],
+     *   chunking: ChunkingSettingsDto
      * }
      */
     reviewSettings: jsonb("review_settings"),
@@ -222,6 +263,20 @@ export const reviewTargets = pgTable(
      * リトライ時に必要な情報として保存
      */
     reviewType: varchar("review_type", { length: 10 }),
+    /**
+     * リビジョングループID（最初のリビジョンのレビュー対象ID）
+     * 同じドキュメントの修正版を同じグループにまとめる
+     * リビジョン管理に対応する前のレビュー対象はnull（自身のみのグループとして扱う）
+     */
+    revisionGroupId: uuid("revision_group_id"),
+    /** リビジョン番号（1始まり） */
+    revision: integer("revision").notNull().default(1),
+    /** 承認したユーザID（FK、未承認の場合はnull） */
+    signedOffBy: uuid("signed_off_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    /** 承認日時（未承認の場合はnull） */
+    signedOffAt: timestamp("signed_off_at", { withTimezone: true }),
     /** レコード作成日時 */
     createdAt: timestamp("created_at", { withTimezone: true })
       .notNull()
@@ -234,6 +289,11 @@ export const reviewTargets = pgTable(
   (table) => [
     index("idx_review_targets_review_space_id").on(table.reviewSpaceId),
     index("idx_review_targets_status").on(table.status),
+    // 同じリビジョングループ内でリビジョン番号が重複しないようにする
+    uniqueIndex("idx_review_targets_revision_group_revision").on(
+      table.revisionGroupId,
+      table.revision,
+    ),
   ],
 );
 
@@ -271,6 +331,33 @@ export const reviewResults = pgTable(
     comment: text("comment"),
     /** エラーメッセージ（レビュー失敗時） */
     errorMessage: text("error_message"),
+    /**
+     * レビュー根拠（JSON形式）
+     * 構造: [{ fileName: string, sectionNames: string[], pageNumbers: number[], lineRanges: { start: number, end: number }[] }]
+     * 根拠保存に対応する前のレビュー結果はnull
+     */
+    evidence: jsonb("evidence"),
+    /**
+     * レビュアーによる評定の上書き（最大20文字）
+     * nullの場合はAIの評定を採用
+     */
+    humanEvaluation: varchar("human_evaluation", { length: 20 }),
+    /**
+     * レビュアーによるコメントの上書き
+     * nullの場合はAIのコメントを採用
+     */
+    humanComment: text("human_comment"),
+    /**
+     * 対応状況
+     * accepted: 承認, disputed: 異議あり, fixed: 修正済み, null: 未判定
+     */
+    disposition: varchar("disposition", { length: 20 }),
+    /** 判定したユーザID（FK） */
+    reviewedBy: uuid("reviewed_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    /** 判定日時 */
+    reviewedAt: timestamp("reviewed_at", { withTimezone: true }),
     /** レコード作成日時 */
     createdAt: timestamp("created_at", { withTimezone: true })
       .notNull()
@@ -349,6 +436,7 @@ export const aiTasks = pgTable(
      * small_review: 少量レビュー
      * large_review: 大量レビュー
      * checklist_generation: チェックリスト生成
+     * qa_execution: Q&A実行
      */
     taskType: varchar("task_type", { length: 50 }).notNull(),
     /**
@@ -388,6 +476,20 @@ export const aiTasks = pgTable(
     startedAt: timestamp("started_at", { withTimezone: true }),
     /** 処理完了日時（成功/失敗どちらでも設定） */
     completedAt: timestamp("completed_at", { withTimezone: true }),
+    /**
+     * リースを保持しているワーカーID（処理中のみ設定）
+     * 複数インスタンスで同一タスクを重複実行しないために使用
+     */
+    leaseOwner: varchar("lease_owner", { length: 100 }),
+    /**
+     * リース有効期限（処理中のみ設定）
+     * ワーカーのハートビートで延長され、期限切れのタスクは再配信される
+     */
+    leaseExpiresAt: timestamp("lease_expires_at", { withTimezone: true }),
+    /** 配信回数（デキューされるたびに加算） */
+    deliveryCount: integer("delivery_count").notNull().default(0),
+    /** AI API呼び出しの一時的なエラーによる自動リトライ回数（全配信の累計） */
+    aiApiRetryCount: integer("ai_api_retry_count").notNull().default(0),
   },
   (table) => [
     // キュー取得時のインデックス（status + api_key_hash + priority）
@@ -398,6 +500,11 @@ export const aiTasks = pgTable(
     ),
     // ステータス別のインデックス
     index("idx_ai_tasks_status").on(table.status),
+    // リース期限切れタスクの検出用インデックス
+    index("idx_ai_tasks_lease_expires_at").on(
+      table.status,
+      table.leaseExpiresAt,
+    ),
   ],
 );
 
@@ -456,6 +563,102 @@ export type AiTaskFileMetadataDbEntity = typeof aiTaskFileMetadata.$inferSelect;
 export type NewAiTaskFileMetadataDbEntity =
   typeof aiTaskFileMetadata.$inferInsert;
 
+/**
+ * ai_task_historiesテーブル
+ * 完了・失敗したAIタスクの実行履歴（ai_tasksは終了時に削除されるため、分析用に保持する）
+ */
+export const aiTaskHistories = pgTable(
+  "ai_task_histories",
+  {
+    /** 元のタスクID（PK、ai_tasksは削除済みのためFKなし） */
+    taskId: uuid("task_id").primaryKey(),
+    /** タスクタイプ */
+    taskType: varchar("task_type", { length: 50 }).notNull(),
+    /**
+     * 終了ステータス
+     * completed: 完了
+     * failed: 失敗
+     */
+    status: varchar("status", { length: 20 }).notNull(),
+    /** 対象のレビュースペースID（FK） */
+    reviewSpaceId: uuid("review_space_id")
+      .notNull()
+      .references(() => reviewSpaces.id, { onDelete: "cascade" }),
+    /** 対象のレビュー対象ID（レビュー・Q&Aのみ、レビュー対象削除後も履歴は残すためFKなし） */
+    reviewTargetId: uuid("review_target_id"),
+    /** エラーメッセージ（失敗時） */
+    errorMessage: text("error_message"),
+    /** キュー登録日時 */
+    queuedAt: timestamp("queued_at", { withTimezone: true }).notNull(),
+    /** 処理開始日時（処理開始前に失敗した場合はnull） */
+    startedAt: timestamp("started_at", { withTimezone: true }),
+    /** 終了日時 */
+    completedAt: timestamp("completed_at", { withTimezone: true }).notNull(),
+  },
+  (table) => [
+    index("idx_ai_task_histories_review_space_id_completed_at").on(
+      table.reviewSpaceId,
+      table.completedAt,
+    ),
+  ],
+);
+
+/**
+ * AIタスク実行履歴テーブルの型定義
+ */
+export type AiTaskHistoryDbEntity = typeof aiTaskHistories.$inferSelect;
+export type NewAiTaskHistoryDbEntity = typeof aiTaskHistories.$inferInsert;
+
+/**
+ * AIトークン使用量テーブル
+ * AIタスク1件ごとのエージェント呼び出しのトークン使用量を記録する
+ */
+export const aiTokenUsages = pgTable(
+  "ai_token_usages",
+  {
+    /** 元のタスクID（PK、ai_tasksは削除済みのためFKなし） */
+    taskId: uuid("task_id").primaryKey(),
+    /** 課金対象のプロジェクトID（FK） */
+    projectId: uuid("project_id")
+      .notNull()
+      .references(() => projects.id, { onDelete: "cascade" }),
+    /** 対象のレビュースペースID（レビュースペース削除後も使用量は残すためFKなし） */
+    reviewSpaceId: uuid("review_space_id").notNull(),
+    /** 対象のレビュー対象ID（レビュー・Q&Aのみ） */
+    reviewTargetId: uuid("review_target_id"),
+    /** 対象のQ&A履歴ID（Q&Aのみ） */
+    qaHistoryId: uuid("qa_history_id"),
+    /** タスクタイプ */
+    taskType: varchar("task_type", { length: 50 }).notNull(),
+    /** 使用したAIモデル名 */
+    model: varchar("model", { length: 255 }).notNull(),
+    /** エージェント呼び出し回数 */
+    requestCount: integer("request_count").notNull(),
+    /** 入力トークン数 */
+    promptTokens: integer("prompt_tokens").notNull(),
+    /** 出力トークン数 */
+    completionTokens: integer("completion_tokens").notNull(),
+    /** 合計トークン数 */
+    totalTokens: integer("total_tokens").notNull(),
+    /** レコード作成日時（タスク終了日時） */
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("idx_ai_token_usages_project_id_created_at").on(
+      table.projectId,
+      table.createdAt,
+    ),
+  ],
+);
+
+/**
+ * AIトークン使用量テーブルの型定義
+ */
+export type AiTokenUsageDbEntity = typeof aiTokenUsages.$inferSelect;
+export type NewAiTokenUsageDbEntity = typeof aiTokenUsages.$inferInsert;
+
 /**
  * qa_historiesテーブル
  * レビュー結果に対するQ&A履歴を管理
@@ -480,6 +683,13 @@ export const qaHistories = pgTable(
      * @メンションで選択されたチェック項目の内容
      */
     checkListItemContent: text("check_list_item_content").notNull(),
+    /**
+     * 所属スレッドID（スレッドの最初のQ&A履歴ID）
+     * スレッドの最初の質問の場合は自身のIDが設定される
+     */
+    threadId: uuid("thread_id")
+      .notNull()
+      .references((): AnyPgColumn => qaHistories.id, { onDelete: "cascade" }),
     /** AIによる回答（ストリーミング完了後に保存） */
     answer: text("answer"),
     /**
@@ -489,7 +699,7 @@ export const qaHistories = pgTable(
     researchSummary: jsonb("research_summary"),
     /**
      * Q&Aステータス
-     * processing: 処理中, completed: 完了, error: エラー
+     * pending: 処理待ち, processing: 処理中, completed: 完了, error: エラー
      */
     status: varchar("status", { length: 20 }).notNull().default("processing"),
     /** エラーメッセージ（エラー時） */
@@ -507,6 +717,7 @@ export const qaHistories = pgTable(
     index("idx_qa_histories_review_target_id").on(table.reviewTargetId),
     index("idx_qa_histories_user_id").on(table.userId),
     index("idx_qa_histories_created_at").on(table.createdAt),
+    index("idx_qa_histories_thread_id").on(table.threadId),
   ],
 );
 
@@ -516,6 +727,41 @@ export const qaHistories = pgTable(
 export type QaHistoryDbEntity = typeof qaHistories.$inferSelect;
 export type NewQaHistoryDbEntity = typeof qaHistories.$inferInsert;
 
+/**
+ * qa_history_eventsテーブル
+ * Q&A処理中に発行された進捗イベント（調査進捗・回答チャンク等）を発行順に記録
+ * SSEに再接続したクライアントや別インスタンスのクライアントへの再送に使用
+ */
+export const qaHistoryEvents = pgTable(
+  "qa_history_events",
+  {
+    /** Q&A履歴ID（FK） */
+    qaHistoryId: uuid("qa_history_id")
+      .notNull()
+      .references(() => qaHistories.id, { onDelete: "cascade" }),
+    /** Q&A履歴内での発行順（1始まり） */
+    sequence: integer("sequence").notNull(),
+    /**
+     * イベント種別
+     * workflow_start | research_start | research_progress | answer_chunk | complete | error
+     */
+    type: varchar("type", { length: 50 }).notNull(),
+    /** イベントデータ（JSON形式） */
+    data: jsonb("data").notNull(),
+    /** レコード作成日時 */
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.qaHistoryId, table.sequence] })],
+);
+
+/**
+ * Q&A履歴イベントテーブルの型定義
+ */
+export type QaHistoryEventDbEntity = typeof qaHistoryEvents.$inferSelect;
+export type NewQaHistoryEventDbEntity = typeof qaHistoryEvents.$inferInsert;
+
 /**
  * large_document_result_cachesテーブル
  * 大量レビュー時の個別ドキュメントレビュー結果をキャッシュ
@@ -563,6 +809,51 @@ export type LargeDocumentResultCacheDbEntity =
 export type NewLargeDocumentResultCacheDbEntity =
   typeof largeDocumentResultCaches.$inferInsert;
 
+/**
+ * review_document_chunksテーブル
+ * テキストモードのドキュメントキャッシュをセクションに分割し、意味検索用の埋め込みベクトルを保存
+ * 大量レビュー・Q&Aでチェック項目や質問に関連するセクションのみをAIに送るために使用
+ */
+export const reviewDocumentChunks = pgTable(
+  "review_document_chunks",
+  {
+    /** チャンクID（PK） */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** 所属レビュードキュメントキャッシュID（FK） */
+    reviewDocumentCacheId: uuid("review_document_cache_id")
+      .notNull()
+      .references(() => reviewDocumentCaches.id, { onDelete: "cascade" }),
+    /** ドキュメント内でのチャンクの順番（0から始まる） */
+    chunkIndex: integer("chunk_index").notNull(),
+    /** チャンクが属する見出し行 */
+    heading: text("heading"),
+    /** チャンクの本文 */
+    content: text("content").notNull(),
+    /** 埋め込みベクトル */
+    embedding: real("embedding").array().notNull(),
+    /** 埋め込みベクトルを生成したモデル */
+    embeddingModel: varchar("embedding_model", { length: 255 }).notNull(),
+    /** レコード作成日時 */
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("idx_review_document_chunks_cache_chunk").on(
+      table.reviewDocumentCacheId,
+      table.chunkIndex,
+    ),
+  ],
+);
+
+/**
+ * レビュードキュメントチャンクテーブルの型定義
+ */
+export type ReviewDocumentChunkDbEntity =
+  typeof reviewDocumentChunks.$inferSelect;
+export type NewReviewDocumentChunkDbEntity =
+  typeof reviewDocumentChunks.$inferInsert;
+
 /**
  * system_settingsテーブル
  * システム全体の設定を管理（シングルトン、常に1レコード）
@@ -588,6 +879,32 @@ export const systemSettings = pgTable("system_settings", {
    * 環境変数のAI_API_MODELを上書きする
    */
   apiModel: varchar("api_model", { length: 255 }),
+  /**
+   * 1分あたりの最大リクエスト数（APIキー単位）
+   * 環境変数のAI_API_RATE_LIMIT_RPMを上書きする
+   */
+  rateLimitRequestsPerMinute: integer("rate_limit_requests_per_minute"),
+  /**
+   * 1分あたりの最大トークン数（APIキー単位）
+   * 環境変数のAI_API_RATE_LIMIT_TPMを上書きする
+   */
+  rateLimitTokensPerMinute: integer("rate_limit_tokens_per_minute"),
+  /**
+   * AIプロバイダー一覧（JSON形式）
+   * 構造: { id: string, name: string, type: "openai_compatible" | "azure_openai" | "ollama",
+   *         apiUrl: string, encryptedApiKey: string | null, apiVersion: string | null }[]
+   */
+  aiProviders: jsonb("ai_providers").notNull().default([]),
+  /**
+   * エージェント別モデル割り当て（JSON形式、システム全体の既定値）
+   * 構造: { [target: string]: { providerId: string | null, model: string } }
+   */
+  aiModelAssignments: jsonb("ai_model_assignments").notNull().default({}),
+  /**
+   * モデル別コンテキストウィンドウ（JSON形式、大量レビューのチャンクサイズ自動算出に使用）
+   * 構造: { model: string, contextWindowTokens: number, maxOutputTokens: number }[]
+   */
+  modelContextWindows: jsonb("model_context_windows").notNull().default([]),
   /** レコード更新日時 */
   updatedAt: timestamp("updated_at", { withTimezone: true })
     .notNull()
@@ -642,3 +959,366 @@ export type SystemNotificationDbEntity =
   typeof systemNotifications.$inferSelect;
 export type NewSystemNotificationDbEntity =
   typeof systemNotifications.$inferInsert;
+
+/**
+ * review_space_pluginsテーブル
+ * レビュースペースに登録されたプラグイン（単一JSファイル）を管理
+ * スクリプト実体はサーバ内ディレクトリに保存
+ */
+export const reviewSpacePlugins = pgTable(
+  "review_space_plugins",
+  {
+    /** プラグインID（PK） */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** 所属レビュースペースID（FK） */
+    reviewSpaceId: uuid("review_space_id")
+      .notNull()
+      .references(() => reviewSpaces.id, { onDelete: "cascade" }),
+    /** プラグイン名 */
+    name: varchar("name", { length: 100 }).notNull(),
+    /**
+     * 登録フックポイント（JSON形式）
+     * 構造: ("beforeExtraction" | "afterExtraction" | "beforePromptBuilding" | "afterResults")[]
+     */
+    hookPoints: jsonb("hook_points").notNull(),
+    /**
+     * beforeExtractionで処理対象とする拡張子（JSON形式）
+     * 構造: string[]（例: [".ts", ".py"]）。空の場合は全ファイルが対象
+     */
+    extensions: jsonb("extensions").notNull(),
+    /** 1回のフック実行あたりのタイムアウト（ミリ秒） */
+    timeoutMs: integer("timeout_ms").notNull().default(10000),
+    /**
+     * 有効フラグ
+     * falseの場合はレビュー実行時に呼び出されない
+     */
+    isEnabled: boolean("is_enabled").notNull().default(true),
+    /** スクリプト保存パス（サーバ内） */
+    scriptPath: text("script_path").notNull(),
+    /** スクリプトサイズ（バイト） */
+    scriptSize: integer("script_size").notNull(),
+    /** レコード作成日時 */
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    /** レコード更新日時 */
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("idx_review_space_plugins_review_space_id").on(table.reviewSpaceId),
+  ],
+);
+
+/**
+ * レビュースペースプラグインテーブルの型定義
+ */
+export type ReviewSpacePluginDbEntity = typeof reviewSpacePlugins.$inferSelect;
+export type NewReviewSpacePluginDbEntity =
+  typeof reviewSpacePlugins.$inferInsert;
+
+/**
+ * notificationsテーブル
+ * 長時間タスク（レビュー・リトライ・チェックリスト生成）の完了・失敗通知を管理
+ * 受信者（プロジェクトメンバー）ごとに1レコード
+ */
+export const notifications = pgTable(
+  "notifications",
+  {
+    /** 通知ID（PK） */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** 受信者ユーザーID（FK） */
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    /** 通知元プロジェクトID（FK） */
+    projectId: uuid("project_id")
+      .notNull()
+      .references(() => projects.id, { onDelete: "cascade" }),
+    /**
+     * 通知種別
+     * review_completed | review_failed | retry_completed | retry_failed
+     * | checklist_generation_completed | checklist_generation_failed
+     */
+    type: varchar("type", { length: 50 }).notNull(),
+    /** 通知タイトル */
+    title: varchar("title", { length: 255 }).notNull(),
+    /** 通知本文 */
+    message: text("message").notNull(),
+    /** 遷移先URL（アプリ内パス） */
+    linkUrl: text("link_url"),
+    /** 既読日時（未読の場合はNULL） */
+    readAt: timestamp("read_at", { withTimezone: true }),
+    /** レコード作成日時 */
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("idx_notifications_user_id_created_at").on(
+      table.userId,
+      table.createdAt,
+    ),
+  ],
+);
+
+/**
+ * 通知テーブルの型定義
+ */
+export type NotificationDbEntity = typeof notifications.$inferSelect;
+export type NewNotificationDbEntity = typeof notifications.$inferInsert;
+
+/**
+ * personal_access_tokensテーブル
+ * REST API（/api/v1）の認証に使用するユーザー単位のアクセストークンを管理
+ * トークン文字列は保存せず、SHA-256ハッシュのみを保持する
+ */
+export const personalAccessTokens = pgTable(
+  "personal_access_tokens",
+  {
+    /** トークンID（PK） */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** 発行ユーザーID（FK） */
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    /** トークン名（用途の識別用） */
+    name: varchar("name", { length: 100 }).notNull(),
+    /** トークン文字列のSHA-256ハッシュ */
+    tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+    /** トークン先頭文字列（一覧表示用） */
+    tokenPrefix: varchar("token_prefix", { length: 20 }).notNull(),
+    /** 有効期限（NULLの場合は無期限） */
+    expiresAt: timestamp("expires_at", { withTimezone: true }),
+    /** 最終使用日時 */
+    lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+    /** レコード作成日時 */
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [index("idx_personal_access_tokens_user_id").on(table.userId)],
+);
+
+/**
+ * パーソナルアクセストークンテーブルの型定義
+ */
+export type PersonalAccessTokenDbEntity =
+  typeof personalAccessTokens.$inferSelect;
+export type NewPersonalAccessTokenDbEntity =
+  typeof personalAccessTokens.$inferInsert;
+
+/**
+ * personal_access_token_projectsテーブル
+ * パーソナルアクセストークンでアクセスを許可するプロジェクトを管理
+ */
+export const personalAccessTokenProjects = pgTable(
+  "personal_access_token_projects",
+  {
+    /** トークンID（FK） */
+    tokenId: uuid("token_id")
+      .notNull()
+      .references(() => personalAccessTokens.id, { onDelete: "cascade" }),
+    /** プロジェクトID（FK） */
+    projectId: uuid("project_id")
+      .notNull()
+      .references(() => projects.id, { onDelete: "cascade" }),
+  },
+  (table) => [primaryKey({ columns: [table.tokenId, table.projectId] })],
+);
+
+/**
+ * パーソナルアクセストークン対象プロジェクトテーブルの型定義
+ */
+export type PersonalAccessTokenProjectDbEntity =
+  typeof personalAccessTokenProjects.$inferSelect;
+export type NewPersonalAccessTokenProjectDbEntity =
+  typeof personalAccessTokenProjects.$inferInsert;
+
+/**
+ * webhooksテーブル
+ * レビュー・チェックリスト生成・Q&Aのライフサイクルイベントを送信する外部システムの宛先を管理
+ * レビュースペースを指定した場合は、そのレビュースペースのイベントのみ送信する
+ */
+export const webhooks = pgTable(
+  "webhooks",
+  {
+    /** WebhookID（PK） */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** 所属プロジェクトID（FK） */
+    projectId: uuid("project_id")
+      .notNull()
+      .references(() => projects.id, { onDelete: "cascade" }),
+    /** 対象レビュースペースID（FK、NULLの場合はプロジェクト全体） */
+    reviewSpaceId: uuid("review_space_id").references(() => reviewSpaces.id, {
+      onDelete: "cascade",
+    }),
+    /** Webhook名 */
+    name: varchar("name", { length: 100 }).notNull(),
+    /** 送信先URL */
+    url: text("url").notNull(),
+    /**
+     * 購読イベント（JSON形式）
+     * 構造: ("review.queued" | "review.started" | "review.completed" | "review.failed"
+     *   | "checklist.generated" | "qa.answered")[]
+     */
+    events: jsonb("events").notNull(),
+    /** 署名シークレット（AES-256-GCMで暗号化） */
+    encryptedSecret: text("encrypted_secret").notNull(),
+    /** 有効フラグ（falseの場合はイベントを送信しない） */
+    isEnabled: boolean("is_enabled").notNull().default(true),
+    /** レコード作成日時 */
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    /** レコード更新日時 */
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [index("idx_webhooks_project_id").on(table.projectId)],
+);
+
+/**
+ * Webhookテーブルの型定義
+ */
+export type WebhookDbEntity = typeof webhooks.$inferSelect;
+export type NewWebhookDbEntity = typeof webhooks.$inferInsert;
+
+/**
+ * webhook_deliveriesテーブル
+ * Webhookの配信ログ（1イベント・1Webhookあたり1レコード）を管理
+ * 送信に失敗した配信は指数バックオフで再試行する
+ */
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    /** 配信ID（PK） */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** WebhookID（FK） */
+    webhookId: uuid("webhook_id")
+      .notNull()
+      .references(() => webhooks.id, { onDelete: "cascade" }),
+    /** イベント種別 */
+    event: varchar("event", { length: 50 }).notNull(),
+    /** 送信ペイロード（JSON形式） */
+    payload: jsonb("payload").notNull(),
+    /** 配信ステータス（pending | succeeded | failed） */
+    status: varchar("status", { length: 20 }).notNull(),
+    /** 送信試行回数 */
+    attemptCount: integer("attempt_count").notNull().default(0),
+    /** 次回送信予定日時（送信待ち以外はNULL） */
+    nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }),
+    /** 直近の応答ステータスコード（接続失敗時はNULL） */
+    lastStatusCode: integer("last_status_code"),
+    /** 直近の失敗理由 */
+    lastError: text("last_error"),
+    /** 直近の送信試行日時 */
+    lastAttemptedAt: timestamp("last_attempted_at", { withTimezone: true }),
+    /** レコード作成日時 */
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("idx_webhook_deliveries_webhook_id_created_at").on(
+      table.webhookId,
+      table.createdAt,
+    ),
+    index("idx_webhook_deliveries_status_next_attempt_at").on(
+      table.status,
+      table.nextAttemptAt,
+    ),
+  ],
+);
+
+/**
+ * Webhook配信テーブルの型定義
+ */
+export type WebhookDeliveryDbEntity = typeof webhookDeliveries.$inferSelect;
+export type NewWebhookDeliveryDbEntity = typeof webhookDeliveries.$inferInsert;
+
+/**
+ * checklist_templatesテーブル
+ * 複数のレビュースペースで再利用するチェックリストテンプレートを管理
+ * project_idがNULLの場合は全社共通テンプレート
+ */
+export const checklistTemplates = pgTable(
+  "checklist_templates",
+  {
+    /** テンプレートID（PK） */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** 所属プロジェクトID（FK、NULLの場合は全社共通） */
+    projectId: uuid("project_id").references(() => projects.id, {
+      onDelete: "cascade",
+    }),
+    /** テンプレート名 */
+    name: varchar("name", { length: 100 }).notNull(),
+    /** テンプレート説明 */
+    description: text("description"),
+    /** 最新バージョン */
+    latestVersion: integer("latest_version").notNull(),
+    /** レコード作成日時 */
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    /** レコード更新日時 */
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [index("idx_checklist_templates_project_id").on(table.projectId)],
+);
+
+/**
+ * チェックリストテンプレートテーブルの型定義
+ */
+export type ChecklistTemplateDbEntity = typeof checklistTemplates.$inferSelect;
+export type NewChecklistTemplateDbEntity =
+  typeof checklistTemplates.$inferInsert;
+
+/**
+ * checklist_template_versionsテーブル
+ * テンプレートのバージョンごとのチェック項目のスナップショットを管理（公開後は変更しない）
+ */
+export const checklistTemplateVersions = pgTable(
+  "checklist_template_versions",
+  {
+    /** テンプレートID（FK） */
+    templateId: uuid("template_id")
+      .notNull()
+      .references(() => checklistTemplates.id, { onDelete: "cascade" }),
+    /** バージョン（1始まり） */
+    version: integer("version").notNull(),
+    /**
+     * チェック項目（JSON形式）
+     * 構造: {
+     *   content: string,
+     *   category: string | null,
+     *   severity: "high" | "medium" | "low",
+     *   guidance: string | null
+     * }[]
+     */
+    items: jsonb("items").notNull(),
+    /** 変更内容のメモ */
+    changeNote: text("change_note"),
+    /** 公開したユーザーID（FK、ユーザー削除時はNULL） */
+    publishedBy: uuid("published_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    /** レコード作成日時 */
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.templateId, table.version] })],
+);
+
+/**
+ * チェックリストテンプレートバージョンテーブルの型定義
+ */
+export type ChecklistTemplateVersionDbEntity =
+  typeof checklistTemplateVersions.$inferSelect;
+export type NewChecklistTemplateVersionDbEntity =
+  typeof checklistTemplateVersions.$inferInsert;
@@ -0,0 +1,317 @@
+import path from "path";
+import { promisify } from "util";
+import zlib from "zlib";
+import JSZip from "jszip";
+import type {
+  ArchiveEntry,
+  ArchiveExtractOptions,
+  IArchiveExtractor,
+} from "@/application/shared/port/archive";
+import { isArchiveFileName } from "@/lib/shared/sourceCode";
+import { internalError } from "@/lib/server/error";
+import { matchesGlob } from "./globPattern";
+
+const gunzipAsync = promisify(zlib.gunzip);
+
+/**
+ * 利用者に原因を示すアーカイブ展開エラーを作成する
+ */
+const archiveError = (detail: string) =>
+  internalError({
+    expose: true,
+    messageCode: "ARCHIVE_EXTRACTION_FAILED",
+    messageParams: { detail },
+  });
+
+/**
+ * 1アーカイブから展開できる最大ファイル数を取得
+ * 環境変数ARCHIVE_MAX_FILESで設定可能（デフォルト: 200）
+ */
+export const getArchiveMaxFiles = (): number => {
+  const maxFiles = parseInt(process.env.ARCHIVE_MAX_FILES || "200", 10);
+  return isNaN(maxFiles) || maxFiles < 1 ? 200 : maxFiles;
+};
+
+/**
+ * 1アーカイブから展開できる合計サイズの上限を取得（バイト）
+ * 環境変数ARCHIVE_MAX_EXTRACTED_SIZE_MBで設定可能（デフォルト: 100MB）
+ */
+export const getArchiveMaxExtractedBytes = (): number => {
+  const sizeMb = parseInt(
+    process.env.ARCHIVE_MAX_EXTRACTED_SIZE_MB || "100",
+    10,
+  );
+  return (isNaN(sizeMb) || sizeMb < 1 ? 100 : sizeMb) * 1024 * 1024;
+};
+
+/**
+ * tarのブロックサイズ
+ */
+const TAR_BLOCK_SIZE = 512;
+
+/**
+ * アーカイブ内のファイル候補
+ * 内容の展開は対象として選ばれたファイルのみ行う
+ */
+interface ArchiveFileCandidate {
+  path: string;
+  read: (remainingBytes: number) => Promise<Buffer>;
+}
+
+/**
+ * ZIP・tar（gzip圧縮を含む）アーカイブの展開
+ * 展開はメモリ上で行い、ファイルシステムには書き出さない
+ * ファイル数と展開後の合計サイズに上限を設け、圧縮爆弾などによるリソース枯渇を防ぐ
+ */
+export class ArchiveExtractor implements IArchiveExtractor {
+  /**
+   * 対応しているアーカイブ形式かどうかを判定
+   */
+  isArchive(fileName: string): boolean {
+    return isArchiveFileName(fileName);
+  }
+
+  /**
+   * アーカイブを展開し、対象のファイルをパス順に返す
+   */
+  async extract(
+    buffer: Buffer,
+    fileName: string,
+    options?: ArchiveExtractOptions,
+  ): Promise<ArchiveEntry[]> {
+    const maxFiles = getArchiveMaxFiles();
+    const maxBytes = getArchiveMaxExtractedBytes();
+
+    const candidates = (await this.listFiles(buffer, fileName, maxBytes))
+      .map((candidate) => ({
+        ...candidate,
+        path: candidate.path.replace(/\\/g, "/").replace(/^(\.?\/)+/, ""),
+      }))
+      .filter((candidate) => this.isTarget(candidate.path, options))
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    if (candidates.length > maxFiles) {
+      throw archiveError(
+        `展開できるファイル数の上限（${maxFiles}件）を超えています（${candidates.length}件）。対象・除外パターンで絞り込んでください`,
+      );
+    }
+
+    const entries: ArchiveEntry[] = [];
+    let totalBytes = 0;
+    for (const candidate of candidates) {
+      const content = await candidate.read(maxBytes - totalBytes);
+      totalBytes += content.length;
+      entries.push({ path: candidate.path, buffer: content });
+    }
+    return entries;
+  }
+
+  /**
+   * 形式に応じてアーカイブ内のファイル一覧を取得
+   */
+  private async listFiles(
+    buffer: Buffer,
+    fileName: string,
+    maxBytes: number,
+  ): Promise<ArchiveFileCandidate[]> {
+    const lowerName = fileName.toLowerCase();
+    if (lowerName.endsWith(".zip")) {
+      return this.listZipFiles(buffer);
+    }
+    if (lowerName.endsWith(".tar")) {
+      return this.listTarFiles(buffer);
+    }
+    if (lowerName.endsWith(".tgz") || lowerName.endsWith(".tar.gz")) {
+      let tarBuffer: Buffer;
+      try {
+        tarBuffer = await gunzipAsync(buffer, { maxOutputLength: maxBytes });
+      } catch (error) {
+        if (error instanceof RangeError) {
+          throw this.sizeLimitError(maxBytes);
+        }
+        throw archiveError("gzipの展開に失敗しました");
+      }
+      return this.listTarFiles(tarBuffer);
+    }
+    throw archiveError(
+      `対応していないアーカイブ形式です: ${path.basename(fileName)}`,
+    );
+  }
+
+  /**
+   * ZIPアーカイブ内のファイル一覧を取得
+   * 内容は読み込み時にストリームで展開し、上限を超えた時点で中断する
+   */
+  private async listZipFiles(buffer: Buffer): Promise<ArchiveFileCandidate[]> {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(buffer);
+    } catch {
+      throw archiveError("ZIPファイルの読み込みに失敗しました");
+    }
+
+    return Object.values(zip.files)
+      .filter((file) => !file.dir)
+      .map((file) => ({
+        path: file.name,
+        read: (remainingBytes: number) =>
+          new Promise<Buffer>((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            let size = 0;
+            const stream = file.nodeStream("nodebuffer");
+            stream
+              .on("data", (chunk: Buffer) => {
+                size += chunk.length;
+                if (size > remainingBytes) {
+                  // 上限を超えた時点で展開を中断する
+                  stream.pause();
+                  stream.removeAllListeners();
+                  reject(this.sizeLimitError());
+                  return;
+                }
+                chunks.push(chunk);
+              })
+              .on("error", () =>
+                reject(archiveError(`${file.name}の展開に失敗しました`)),
+              )
+              .on("end", () => resolve(Buffer.concat(chunks)));
+          }),
+      }));
+  }
+
+  /**
+   * tarアーカイブ内のファイル一覧を取得
+   * 通常ファイルのみを対象とし、長いパス名（pax・GNU形式）に対応する
+   */
+  private listTarFiles(buffer: Buffer): ArchiveFileCandidate[] {
+    const files: ArchiveFileCandidate[] = [];
+    let offset = 0;
+    let longName: string | undefined;
+
+    while (offset + TAR_BLOCK_SIZE <= buffer.length) {
+      const header = buffer.subarray(offset, offset + TAR_BLOCK_SIZE);
+      // 終端ブロック（全て0）
+      if (header.every((byte) => byte === 0)) {
+        break;
+      }
+
+      const size = parseInt(readTarString(header, 124, 12) || "0", 8);
+      if (isNaN(size)) {
+        throw archiveError("tarファイルの形式が正しくありません");
+      }
+      const typeFlag = String.fromCharCode(header[156]);
+      const dataStart = offset + TAR_BLOCK_SIZE;
+      const data = buffer.subarray(dataStart, dataStart + size);
+      offset = dataStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+      if (typeFlag === "L") {
+        // GNU形式の長いパス名（次のエントリに適用）
+        longName = data.toString("utf-8").replace(/\0[\s\S]*$/, "");
+        continue;
+      }
+      if (typeFlag === "x") {
+        // pax形式の拡張ヘッダー（次のエントリに適用）
+        longName = parsePaxPath(data) ?? longName;
+        continue;
+      }
+
+      const prefix = readTarString(header, 345, 155);
+      const name =
+        longName ??
+        (prefix
+          ? `${prefix}/${readTarString(header, 0, 100)}`
+          : readTarString(header, 0, 100));
+      longName = undefined;
+
+      // 通常ファイル以外（ディレクトリ・リンクなど）は対象外
+      if (typeFlag !== "0" && typeFlag !== "\0") {
+        continue;
+      }
+
+      files.push({
+        path: name,
+        read: async (remainingBytes: number) => {
+          if (data.length > remainingBytes) {
+            throw this.sizeLimitError();
+          }
+          return Buffer.from(data);
+        },
+      });
+    }
+
+    return files;
+  }
+
+  /**
+   * 展開対象のファイルかどうかを判定
+   * macOSのリソースフォークなど、アーカイブ作成時に付与される不要なファイルは除外する
+   */
+  private isTarget(
+    normalizedPath: string,
+    options?: ArchiveExtractOptions,
+  ): boolean {
+    const segments = normalizedPath.split("/");
+    if (
+      segments.includes("__MACOSX") ||
+      segments.includes("..") ||
+      path.posix.basename(normalizedPath).startsWith("._")
+    ) {
+      return false;
+    }
+
+    if (
+      options?.extensions &&
+      !options.extensions.includes(path.extname(normalizedPath).toLowerCase())
+    ) {
+      return false;
+    }
+
+    const includePatterns = options?.includePatterns?.filter((p) => p.trim());
+    if (
+      includePatterns &&
+      includePatterns.length > 0 &&
+      !includePatterns.some((pattern) => matchesGlob(normalizedPath, pattern))
+    ) {
+      return false;
+    }
+
+    return !(options?.excludePatterns ?? []).some((pattern) =>
+      matchesGlob(normalizedPath, pattern),
+    );
+  }
+
+  /**
+   * 展開後サイズの上限超過エラーを作成
+   */
+  private sizeLimitError(maxBytes = getArchiveMaxExtractedBytes()) {
+    return archiveError(
+      `展開後の合計サイズが上限（${Math.floor(maxBytes / 1024 / 1024)}MB）を超えています。対象・除外パターンで絞り込んでください`,
+    );
+  }
+}
+
+/**
+ * tarヘッダーからNUL終端の文字列を読み取る
+ */
+function readTarString(header: Buffer, start: number, length: number): string {
+  const field = header.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field
+    .subarray(0, end === -1 ? field.length : end)
+    .toString("utf-8")
+    .trim();
+}
+
+/**
+ * pax拡張ヘッダーからパス名を取得する
+ * 各レコードは "<長さ> <キー>=<値>\n" の形式
+ */
+function parsePaxPath(data: Buffer): string | undefined {
+  for (const record of data.toString("utf-8").split("\n")) {
+    const match = /^\d+ path=(.*)$/.exec(record);
+    if (match) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,190 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach } from "vitest";
+import zlib from "zlib";
+import JSZip from "jszip";
+import { ArchiveExtractor } from "../ArchiveExtractor";
+import { matchesGlob } from "../globPattern";
+
+/**
+ * テスト用のZIPファイルを作成するヘルパー関数
+ */
+async function createZip(files: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) {
+    zip.file(name, content);
+  }
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+/**
+ * テスト用のtarファイル（ustar形式）を作成するヘルパー関数
+ */
+function createTar(
+  files: { name: string; content?: string; type?: string }[],
+): Buffer {
+  const blocks: Buffer[] = [];
+  for (const file of files) {
+    const data = Buffer.from(file.content ?? "");
+    const header = Buffer.alloc(512);
+    header.write(file.name, 0, 100);
+    header.write("0000644\0", 100);
+    header.write(data.length.toString(8).padStart(11, "0") + "\0", 124);
+    header.write(file.type ?? "0", 156);
+    header.write("ustar\0", 257);
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return Buffer.concat(blocks);
+}
+
+describe("ArchiveExtractor", () => {
+  const extractor = new ArchiveExtractor();
+
+  afterEach(() => {
+    delete process.env.ARCHIVE_MAX_FILES;
+    delete process.env.ARCHIVE_MAX_EXTRACTED_SIZE_MB;
+  });
+
+  describe("isArchive", () => {
+    it("ZIP・tar・tar.gzをアーカイブとして判定する", () => {
+      expect(extractor.isArchive("src.zip")).toBe(true);
+      expect(extractor.isArchive("src.tar")).toBe(true);
+      expect(extractor.isArchive("src.tgz")).toBe(true);
+      expect(extractor.isArchive("src.tar.gz")).toBe(true);
+      expect(extractor.isArchive("main.ts")).toBe(false);
+    });
+  });
+
+  describe("extract", () => {
+    it("ZIPのファイルをパス順に展開する", async () => {
+      const buffer = await createZip({
+        "src/b.ts": "b",
+        "src/a.ts": "a",
+        "src/empty/": "",
+      });
+
+      const entries = await extractor.extract(buffer, "src.zip");
+
+      expect(entries.map((e) => e.path)).toEqual(["src/a.ts", "src/b.ts"]);
+      expect(entries[0].buffer.toString()).toBe("a");
+    });
+
+    it("tarの通常ファイルのみを展開する", async () => {
+      const buffer = createTar([
+        { name: "src/", type: "5" },
+        { name: "src/main.py", content: "print('hello')" },
+        { name: "src/link.py", type: "2" },
+      ]);
+
+      const entries = await extractor.extract(buffer, "src.tar");
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0].path).toBe("src/main.py");
+      expect(entries[0].buffer.toString()).toBe("print('hello')");
+    });
+
+    it("gzip圧縮されたtarを展開する", async () => {
+      const buffer = zlib.gzipSync(
+        createTar([{ name: "./lib/util.go", content: "package lib" }]),
+      );
+
+      const entries = await extractor.extract(buffer, "src.tar.gz");
+
+      expect(entries.map((e) => e.path)).toEqual(["lib/util.go"]);
+    });
+
+    it("拡張子・対象パターン・除外パターンで絞り込む", async () => {
+      const buffer = await createZip({
+        "src/a.ts": "a",
+        "src/a.test.ts": "test",
+        "src/logo.png": "png",
+        "node_modules/pkg/index.ts": "pkg",
+        "scripts/build.ts": "build",
+      });
+
+      const entries = await extractor.extract(buffer, "src.zip", {
+        extensions: [".ts"],
+        includePatterns: ["src/**", "node_modules"],
+        excludePatterns: ["*.test.ts", "node_modules/"],
+      });
+
+      expect(entries.map((e) => e.path)).toEqual(["src/a.ts"]);
+    });
+
+    it("macOSが付与するリソースフォークは展開しない", async () => {
+      const buffer = await createZip({
+        "src/a.ts": "a",
+        "__MACOSX/src/._a.ts": "fork",
+      });
+
+      const entries = await extractor.extract(buffer, "src.zip");
+
+      expect(entries.map((e) => e.path)).toEqual(["src/a.ts"]);
+    });
+
+    it("ファイル数が上限を超える場合はエラーになる", async () => {
+      process.env.ARCHIVE_MAX_FILES = "2";
+      const buffer = await createZip({ "a.ts": "a", "b.ts": "b", "c.ts": "c" });
+
+      await expect(extractor.extract(buffer, "src.zip")).rejects.toMatchObject({
+        messageCode: "ARCHIVE_EXTRACTION_FAILED",
+      });
+    });
+
+    it("展開後の合計サイズが上限を超える場合はエラーになる", async () => {
+      process.env.ARCHIVE_MAX_EXTRACTED_SIZE_MB = "1";
+      const buffer = await createZip({
+        "a.txt": "a".repeat(600 * 1024),
+        "b.txt": "b".repeat(600 * 1024),
+      });
+
+      await expect(extractor.extract(buffer, "src.zip")).rejects.toMatchObject({
+        messageCode: "ARCHIVE_EXTRACTION_FAILED",
+      });
+    });
+
+    it("展開後のtarが上限を超えるgzipはエラーになる", async () => {
+      process.env.ARCHIVE_MAX_EXTRACTED_SIZE_MB = "1";
+      const buffer = zlib.gzipSync(
+        createTar([{ name: "big.txt", content: "a".repeat(2 * 1024 * 1024) }]),
+      );
+
+      await expect(extractor.extract(buffer, "src.tgz")).rejects.toMatchObject({
+        messageCode: "ARCHIVE_EXTRACTION_FAILED",
+      });
+    });
+
+    it("壊れたZIPはエラーになる", async () => {
+      await expect(
+        extractor.extract(Buffer.from("not a zip"), "src.zip"),
+      ).rejects.toMatchObject({ messageCode: "ARCHIVE_EXTRACTION_FAILED" });
+    });
+  });
+});
+
+describe("matchesGlob", () => {
+  it("*はディレクトリを跨がず、**はディレクトリを跨いで一致する", () => {
+    expect(matchesGlob("src/a.ts", "src/*.ts")).toBe(true);
+    expect(matchesGlob("src/lib/a.ts", "src/*.ts")).toBe(false);
+    expect(matchesGlob("src/lib/a.ts", "src/**/*.ts")).toBe(true);
+    expect(matchesGlob("src/a.ts", "src/**/*.ts")).toBe(true);
+  });
+
+  it("/を含まないパターンはいずれかのディレクトリ名・ファイル名に一致する", () => {
+    expect(matchesGlob("src/a.test.ts", "*.test.ts")).toBe(true);
+    expect(matchesGlob("app/node_modules/pkg/index.js", "node_modules")).toBe(
+      true,
+    );
+  });
+
+  it("ディレクトリに一致した場合は配下のファイルも一致する", () => {
+    expect(matchesGlob("src/lib/a.ts", "src/lib")).toBe(true);
+    expect(matchesGlob("src/library/a.ts", "src/lib")).toBe(false);
+  });
+
+  it("{a,b}と?に対応する", () => {
+    expect(matchesGlob("src/a.tsx", "**/*.{ts,tsx}")).toBe(true);
+    expect(matchesGlob("src/a.js", "**/*.{ts,tsx}")).toBe(false);
+    expect(matchesGlob("v1.txt", "v?.txt")).toBe(true);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * globパターンを正規表現に変換する
+ * - `**` : ディレクトリを跨いで任意の文字列（`**\/` は0個以上のディレクトリ）
+ * - `*`  : "/"以外の任意の文字列
+ * - `?`  : "/"以外の任意の1文字
+ * - `{a,b}` : いずれかに一致
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        i++;
+        if (pattern[i + 1] === "/") {
+          i++;
+          source += "(?:.*/)?";
+        } else {
+          source += ".*";
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      braceDepth++;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * ファイルパスがglobパターンに一致するかを判定する
+ * .gitignoreと同様に、"/"を含まないパターンはいずれかのディレクトリ名・ファイル名に一致すればよく、
+ * ディレクトリに一致した場合は配下の全ファイルが一致したものとみなす
+ * @param filePath 判定するファイルパス（区切り文字は"/"）
+ * @param pattern globパターン（例: "src/**\/*.ts", "*.test.ts", "node_modules"）
+ */
+export function matchesGlob(filePath: string, pattern: string): boolean {
+  const normalizedPattern = pattern
+    .trim()
+    .replace(/^\.?\//, "")
+    .replace(/\/+$/, "");
+  if (!normalizedPattern) {
+    return false;
+  }
+
+  const regex = globToRegExp(normalizedPattern);
+  const segments = filePath.split("/");
+
+  if (!normalizedPattern.includes("/")) {
+    return segments.some((segment) => regex.test(segment));
+  }
+
+  // パス自身または親ディレクトリのいずれかに一致するか
+  return segments.some((_, index) =>
+    regex.test(segments.slice(0, index + 1).join("/")),
+  );
+}
@@ -0,0 +1,4 @@
+// アーカイブ展開インフラ層
+// アプリケーション層インターフェースの実装
+
+export { ArchiveExtractor } from "./ArchiveExtractor";
@@ -0,0 +1,40 @@
+import { IAiTaskHistoryRepository } from "@/application/shared/port/repository/IAiTaskHistoryRepository";
+import { AiTaskHistory } from "@/domain/aiTask";
+import { db } from "../index";
+import { aiTaskHistories } from "@/drizzle/schema";
+
+/**
+ * AIタスク実行履歴リポジトリ実装
+ * Drizzle ORMを使用してPostgreSQLと通信
+ */
+export class AiTaskHistoryRepository implements IAiTaskHistoryRepository {
+  /**
+   * 実行履歴を保存（同じタスクIDの履歴が存在する場合は上書き）
+   */
+  async save(history: AiTaskHistory): Promise<void> {
+    const data = {
+      taskId: history.taskId.value,
+      taskType: history.taskType.value,
+      status: history.status.value,
+      reviewSpaceId: history.reviewSpaceId.value,
+      reviewTargetId: history.reviewTargetId?.value ?? null,
+      errorMessage: history.errorMessage,
+      queuedAt: history.queuedAt,
+      startedAt: history.startedAt,
+      completedAt: history.completedAt,
+    };
+
+    await db
+      .insert(aiTaskHistories)
+      .values(data)
+      .onConflictDoUpdate({
+        target: aiTaskHistories.taskId,
+        set: {
+          status: data.status,
+          errorMessage: data.errorMessage,
+          startedAt: data.startedAt,
+          completedAt: data.completedAt,
+        },
+      });
+  }
+}
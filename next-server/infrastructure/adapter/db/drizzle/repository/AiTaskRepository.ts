@@ -1,4 +1,4 @@
-import { eq, desc, sql, and } from "drizzle-orm";
+import { eq, desc, sql, and, or, isNull, lt, lte } from "drizzle-orm";
 import {
   IAiTaskRepository,
   FindAiTasksOptions,
@@ -76,6 +76,10 @@ export class AiTaskRepository implements IAiTaskRepository {
       updatedAt: row.updatedAt,
       startedAt: row.startedAt,
       completedAt: row.completedAt,
+      leaseOwner: row.leaseOwner,
+      leaseExpiresAt: row.leaseExpiresAt,
+      deliveryCount: row.deliveryCount,
+      aiApiRetryCount: row.aiApiRetryCount,
       fileMetadata: AiTaskRepository.mapFileMetadataRows(fileMetadataRows),
     });
   }
@@ -118,6 +122,10 @@ export class AiTaskRepository implements IAiTaskRepository {
           updatedAt: row.updatedAt,
           startedAt: row.startedAt,
           completedAt: row.completedAt,
+          leaseOwner: row.leaseOwner,
+          leaseExpiresAt: row.leaseExpiresAt,
+          deliveryCount: row.deliveryCount,
+          aiApiRetryCount: row.aiApiRetryCount,
           fileMetadata: AiTaskRepository.mapFileMetadataRows(fileMetadataRows),
         }),
       );
@@ -167,6 +175,10 @@ export class AiTaskRepository implements IAiTaskRepository {
           updatedAt: row.updatedAt,
           startedAt: row.startedAt,
           completedAt: row.completedAt,
+          leaseOwner: row.leaseOwner,
+          leaseExpiresAt: row.leaseExpiresAt,
+          deliveryCount: row.deliveryCount,
+          aiApiRetryCount: row.aiApiRetryCount,
           fileMetadata: AiTaskRepository.mapFileMetadataRows(fileMetadataRows),
         }),
       );
@@ -207,18 +219,23 @@ export class AiTaskRepository implements IAiTaskRepository {
   }
 
   /**
-   * 次のタスクを取得して処理中に遷移（原子性保証）
+   * 次のタスクを取得してリースを付与し、処理中に遷移（原子性保証）
    * SELECT FOR UPDATE SKIP LOCKEDを使用して排他制御
    * 優先度降順 → 作成日時昇順でソート
    */
-  async dequeueNextTask(apiKeyHash: string): Promise<AiTask | null> {
+  async dequeueNextTask(
+    apiKeyHash: string,
+    workerId: string,
+    leaseDurationMs: number,
+  ): Promise<AiTask | null> {
     const now = new Date();
+    const leaseExpiresAt = new Date(now.getTime() + leaseDurationMs);
 
     // トランザクション内で排他的にタスクを取得して更新
     const result = await db.transaction(async (tx) => {
-      // FOR UPDATE SKIP LOCKEDを使用して、他のワーカーがロック中の行をスキップ
+      // FOR UPDATE SKIP LOCKEDを使用して、他のワーカー（他インスタンスを含む）がロック中の行をスキップ
       const taskRows = await tx.execute(sql`
-        SELECT * FROM ${aiTasks}
+        SELECT ${aiTasks.id} FROM ${aiTasks}
         WHERE ${aiTasks.apiKeyHash} = ${apiKeyHash}
           AND ${aiTasks.status} = ${AI_TASK_STATUS.QUEUED}
         ORDER BY ${aiTasks.priority} DESC, ${aiTasks.createdAt} ASC
@@ -230,29 +247,21 @@ export class AiTaskRepository implements IAiTaskRepository {
         return null;
       }
 
-      const row = taskRows.rows[0] as {
-        id: string;
-        task_type: string;
-        status: string;
-        api_key_hash: string;
-        priority: number;
-        payload: Record<string, unknown>;
-        error_message: string | null;
-        created_at: Date;
-        updated_at: Date;
-        started_at: Date | null;
-        completed_at: Date | null;
-      };
-
-      // 処理中に更新
-      await tx
+      const { id } = taskRows.rows[0] as { id: string };
+
+      // 処理中に更新し、リースを付与
+      const [row] = await tx
         .update(aiTasks)
         .set({
           status: AI_TASK_STATUS.PROCESSING,
           startedAt: now,
           updatedAt: now,
+          leaseOwner: workerId,
+          leaseExpiresAt,
+          deliveryCount: sql`${aiTasks.deliveryCount} + 1`,
         })
-        .where(eq(aiTasks.id, row.id));
+        .where(eq(aiTasks.id, id))
+        .returning();
 
       // ファイルメタデータを取得
       const fileMetadataRows = await tx
@@ -262,16 +271,20 @@ export class AiTaskRepository implements IAiTaskRepository {
 
       return AiTask.reconstruct({
         id: row.id,
-        taskType: row.task_type,
-        status: AI_TASK_STATUS.PROCESSING, // 更新後のステータスを返す
-        apiKeyHash: row.api_key_hash,
+        taskType: row.taskType,
+        status: row.status,
+        apiKeyHash: row.apiKeyHash,
         priority: row.priority,
-        payload: row.payload,
-        errorMessage: row.error_message,
-        createdAt: row.created_at,
-        updatedAt: now,
-        startedAt: now,
-        completedAt: row.completed_at,
+        payload: row.payload as Record<string, unknown>,
+        errorMessage: row.errorMessage,
+        createdAt: row.createdAt,
+        updatedAt: row.updatedAt,
+        startedAt: row.startedAt,
+        completedAt: row.completedAt,
+        leaseOwner: row.leaseOwner,
+        leaseExpiresAt: row.leaseExpiresAt,
+        deliveryCount: row.deliveryCount,
+        aiApiRetryCount: row.aiApiRetryCount,
         fileMetadata: AiTaskRepository.mapFileMetadataRows(fileMetadataRows),
       });
     });
@@ -279,6 +292,147 @@ export class AiTaskRepository implements IAiTaskRepository {
     return result;
   }
 
+  /**
+   * リースを延長する（ハートビート）
+   * 指定ワーカーがリースを保持している処理中タスクのみ更新する
+   */
+  async renewLease(
+    id: AiTaskId,
+    workerId: string,
+    leaseDurationMs: number,
+  ): Promise<boolean> {
+    const now = new Date();
+
+    const result = await db
+      .update(aiTasks)
+      .set({
+        leaseExpiresAt: new Date(now.getTime() + leaseDurationMs),
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(aiTasks.id, id.value),
+          eq(aiTasks.status, AI_TASK_STATUS.PROCESSING),
+          eq(aiTasks.leaseOwner, workerId),
+        ),
+      )
+      .returning({ id: aiTasks.id });
+
+    return result.length > 0;
+  }
+
+  /**
+   * AI API呼び出しの自動リトライ回数を加算する
+   * 実行中のワーカーから並行して呼ばれるため、DB上で加算する
+   */
+  async incrementAiApiRetryCount(id: AiTaskId): Promise<void> {
+    await db
+      .update(aiTasks)
+      .set({
+        aiApiRetryCount: sql`${aiTasks.aiApiRetryCount} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(eq(aiTasks.id, id.value));
+  }
+
+  /**
+   * リース期限切れの処理中タスクをキューに戻す（再配信）
+   * UPDATE文の行ロックにより、複数インスタンスから同時に実行しても二重に戻されることはない
+   */
+  async requeueExpiredLeases(maxDeliveryCount: number): Promise<AiTask[]> {
+    const now = new Date();
+
+    const result = await db
+      .update(aiTasks)
+      .set({
+        status: AI_TASK_STATUS.QUEUED,
+        startedAt: null,
+        updatedAt: now,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+      })
+      .where(
+        and(
+          eq(aiTasks.status, AI_TASK_STATUS.PROCESSING),
+          or(isNull(aiTasks.leaseExpiresAt), lte(aiTasks.leaseExpiresAt, now)),
+          lt(aiTasks.deliveryCount, maxDeliveryCount),
+        ),
+      )
+      .returning();
+
+    // キューに戻したタスクはデキュー時にファイルメタデータを含めて再取得されるため、ここでは取得しない
+    return result.map((row) =>
+      AiTask.reconstruct({
+        id: row.id,
+        taskType: row.taskType,
+        status: row.status,
+        apiKeyHash: row.apiKeyHash,
+        priority: row.priority,
+        payload: row.payload as Record<string, unknown>,
+        errorMessage: row.errorMessage,
+        createdAt: row.createdAt,
+        updatedAt: row.updatedAt,
+        startedAt: row.startedAt,
+        completedAt: row.completedAt,
+        leaseOwner: row.leaseOwner,
+        leaseExpiresAt: row.leaseExpiresAt,
+        deliveryCount: row.deliveryCount,
+        aiApiRetryCount: row.aiApiRetryCount,
+        fileMetadata: [],
+      }),
+    );
+  }
+
+  /**
+   * リース期限切れの処理中タスクを検索
+   */
+  async findLeaseExpiredTasks(): Promise<AiTask[]> {
+    const now = new Date();
+
+    const result = await db
+      .select()
+      .from(aiTasks)
+      .where(
+        and(
+          eq(aiTasks.status, AI_TASK_STATUS.PROCESSING),
+          or(isNull(aiTasks.leaseExpiresAt), lte(aiTasks.leaseExpiresAt, now)),
+        ),
+      )
+      .orderBy(aiTasks.createdAt);
+
+    // 各タスクのファイルメタデータを取得
+    const tasks: AiTask[] = [];
+    for (const row of result) {
+      const fileMetadataRows = await db
+        .select()
+        .from(aiTaskFileMetadata)
+        .where(eq(aiTaskFileMetadata.taskId, row.id));
+
+      tasks.push(
+        AiTask.reconstruct({
+          id: row.id,
+          taskType: row.taskType,
+          status: row.status,
+          apiKeyHash: row.apiKeyHash,
+          priority: row.priority,
+          payload: row.payload as Record<string, unknown>,
+          errorMessage: row.errorMessage,
+          createdAt: row.createdAt,
+          updatedAt: row.updatedAt,
+          startedAt: row.startedAt,
+          completedAt: row.completedAt,
+          leaseOwner: row.leaseOwner,
+          leaseExpiresAt: row.leaseExpiresAt,
+          deliveryCount: row.deliveryCount,
+          aiApiRetryCount: row.aiApiRetryCount,
+          fileMetadata: AiTaskRepository.mapFileMetadataRows(fileMetadataRows),
+        }),
+      );
+    }
+
+    return tasks;
+  }
+
   /**
    * タスクを保存（新規作成または更新）
    */
@@ -295,6 +449,10 @@ export class AiTaskRepository implements IAiTaskRepository {
       updatedAt: task.updatedAt,
       startedAt: task.startedAt,
       completedAt: task.completedAt,
+      leaseOwner: task.leaseOwner,
+      leaseExpiresAt: task.leaseExpiresAt,
+      deliveryCount: task.deliveryCount,
+      aiApiRetryCount: task.aiApiRetryCount,
     };
 
     await db.transaction(async (tx) => {
@@ -313,6 +471,10 @@ export class AiTaskRepository implements IAiTaskRepository {
             updatedAt: data.updatedAt,
             startedAt: data.startedAt,
             completedAt: data.completedAt,
+            leaseOwner: data.leaseOwner,
+            leaseExpiresAt: data.leaseExpiresAt,
+            deliveryCount: data.deliveryCount,
+            // aiApiRetryCountは実行中に加算されるため、incrementAiApiRetryCountでのみ更新する
           },
         });
 
@@ -401,6 +563,10 @@ export class AiTaskRepository implements IAiTaskRepository {
       updatedAt: row.updatedAt,
       startedAt: row.startedAt,
       completedAt: row.completedAt,
+      leaseOwner: row.leaseOwner,
+      leaseExpiresAt: row.leaseExpiresAt,
+      deliveryCount: row.deliveryCount,
+      aiApiRetryCount: row.aiApiRetryCount,
       fileMetadata: AiTaskRepository.mapFileMetadataRows(fileMetadataRows),
     });
   }
@@ -458,6 +624,10 @@ export class AiTaskRepository implements IAiTaskRepository {
       updatedAt: row.updatedAt,
       startedAt: row.startedAt,
       completedAt: row.completedAt,
+      leaseOwner: row.leaseOwner,
+      leaseExpiresAt: row.leaseExpiresAt,
+      deliveryCount: row.deliveryCount,
+      aiApiRetryCount: row.aiApiRetryCount,
       fileMetadata: AiTaskRepository.mapFileMetadataRows(fileMetadataRows),
     });
   }
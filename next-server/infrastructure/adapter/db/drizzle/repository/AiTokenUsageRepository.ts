@@ -0,0 +1,146 @@
+import { and, eq, gte, lt, sql, type SQL } from "drizzle-orm";
+import {
+  IAiTokenUsageRepository,
+  AiTokenUsageSumRow,
+  AiTokenUsageByTaskTypeRow,
+  AiTokenUsageByProjectRow,
+} from "@/application/shared/port/repository/IAiTokenUsageRepository";
+import { AiTokenUsage } from "@/domain/aiTask";
+import { ProjectId } from "@/domain/project";
+import { db } from "../index";
+import { aiTokenUsages } from "@/drizzle/schema";
+
+/**
+ * 合計値のSELECT句
+ */
+const sumColumns = {
+  requestCount: sql<number>`coalesce(sum(${aiTokenUsages.requestCount}), 0)`,
+  promptTokens: sql<number>`coalesce(sum(${aiTokenUsages.promptTokens}), 0)`,
+  completionTokens: sql<number>`coalesce(sum(${aiTokenUsages.completionTokens}), 0)`,
+  totalTokens: sql<number>`coalesce(sum(${aiTokenUsages.totalTokens}), 0)`,
+};
+
+/**
+ * 合計値を数値に変換する（PostgreSQLのsumはbigint/numericを文字列で返すため）
+ */
+function toSumRow(row: {
+  requestCount: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}): AiTokenUsageSumRow {
+  return {
+    requestCount: Number(row.requestCount),
+    promptTokens: Number(row.promptTokens),
+    completionTokens: Number(row.completionTokens),
+    totalTokens: Number(row.totalTokens),
+  };
+}
+
+/**
+ * AIトークン使用量リポジトリ実装
+ * Drizzle ORMを使用してPostgreSQLと通信
+ */
+export class AiTokenUsageRepository implements IAiTokenUsageRepository {
+  /**
+   * トークン使用量を保存
+   * 同じタスクIDの使用量が存在する場合は加算する
+   */
+  async save(usage: AiTokenUsage): Promise<void> {
+    await db
+      .insert(aiTokenUsages)
+      .values({
+        taskId: usage.taskId.value,
+        projectId: usage.projectId.value,
+        reviewSpaceId: usage.reviewSpaceId.value,
+        reviewTargetId: usage.reviewTargetId?.value ?? null,
+        qaHistoryId: usage.qaHistoryId?.value ?? null,
+        taskType: usage.taskType.value,
+        model: usage.model,
+        requestCount: usage.requestCount,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        totalTokens: usage.totalTokens,
+        createdAt: usage.createdAt,
+      })
+      .onConflictDoUpdate({
+        target: aiTokenUsages.taskId,
+        set: {
+          requestCount: sql`${aiTokenUsages.requestCount} + excluded.request_count`,
+          promptTokens: sql`${aiTokenUsages.promptTokens} + excluded.prompt_tokens`,
+          completionTokens: sql`${aiTokenUsages.completionTokens} + excluded.completion_tokens`,
+          totalTokens: sql`${aiTokenUsages.totalTokens} + excluded.total_tokens`,
+          createdAt: usage.createdAt,
+        },
+      });
+  }
+
+  /**
+   * プロジェクトのトークン使用量の合計を取得
+   */
+  async sumByProjectId(
+    projectId: ProjectId,
+    from: Date,
+    to: Date,
+  ): Promise<AiTokenUsageSumRow> {
+    const [row] = await db
+      .select(sumColumns)
+      .from(aiTokenUsages)
+      .where(
+        and(
+          eq(aiTokenUsages.projectId, projectId.value),
+          this.buildPeriodCondition(from, to),
+        ),
+      );
+
+    return toSumRow(row);
+  }
+
+  /**
+   * プロジェクトのトークン使用量をタスクタイプごとに合計
+   */
+  async sumByProjectIdGroupByTaskType(
+    projectId: ProjectId,
+    from: Date,
+    to: Date,
+  ): Promise<AiTokenUsageByTaskTypeRow[]> {
+    const rows = await db
+      .select({ taskType: aiTokenUsages.taskType, ...sumColumns })
+      .from(aiTokenUsages)
+      .where(
+        and(
+          eq(aiTokenUsages.projectId, projectId.value),
+          this.buildPeriodCondition(from, to),
+        ),
+      )
+      .groupBy(aiTokenUsages.taskType);
+
+    return rows.map((row) => ({ taskType: row.taskType, ...toSumRow(row) }));
+  }
+
+  /**
+   * 全プロジェクトのトークン使用量をプロジェクトごとに合計
+   */
+  async sumGroupByProject(
+    from: Date,
+    to: Date,
+  ): Promise<AiTokenUsageByProjectRow[]> {
+    const rows = await db
+      .select({ projectId: aiTokenUsages.projectId, ...sumColumns })
+      .from(aiTokenUsages)
+      .where(this.buildPeriodCondition(from, to))
+      .groupBy(aiTokenUsages.projectId);
+
+    return rows.map((row) => ({ projectId: row.projectId, ...toSumRow(row) }));
+  }
+
+  /**
+   * 集計期間の条件（from 以上 to 未満）
+   */
+  private buildPeriodCondition(from: Date, to: Date): SQL | undefined {
+    return and(
+      gte(aiTokenUsages.createdAt, from),
+      lt(aiTokenUsages.createdAt, to),
+    );
+  }
+}
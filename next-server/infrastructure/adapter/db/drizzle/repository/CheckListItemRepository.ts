@@ -6,7 +6,11 @@ import {
 import { CheckListItem, CheckListItemId } from "@/domain/checkListItem";
 import { ReviewSpaceId } from "@/domain/reviewSpace";
 import { db } from "../index";
-import { checkListItems } from "@/drizzle/schema";
+import {
+  checkListItems,
+  type CheckListItemDbEntity,
+  type NewCheckListItemDbEntity,
+} from "@/drizzle/schema";
 
 /**
  * チェック項目リポジトリ実装
@@ -27,14 +31,7 @@ export class CheckListItemRepository implements ICheckListItemRepository {
       return null;
     }
 
-    const row = result[0];
-    return CheckListItem.reconstruct({
-      id: row.id,
-      reviewSpaceId: row.reviewSpaceId,
-      content: row.content,
-      createdAt: row.createdAt,
-      updatedAt: row.updatedAt,
-    });
+    return this.toEntity(result[0]);
   }
 
   /**
@@ -51,15 +48,7 @@ export class CheckListItemRepository implements ICheckListItemRepository {
       .from(checkListItems)
       .where(inArray(checkListItems.id, idValues));
 
-    return result.map((row) =>
-      CheckListItem.reconstruct({
-        id: row.id,
-        reviewSpaceId: row.reviewSpaceId,
-        content: row.content,
-        createdAt: row.createdAt,
-        updatedAt: row.updatedAt,
-      }),
-    );
+    return result.map((row) => this.toEntity(row));
   }
 
   /**
@@ -75,19 +64,11 @@ export class CheckListItemRepository implements ICheckListItemRepository {
       .select()
       .from(checkListItems)
       .where(eq(checkListItems.reviewSpaceId, reviewSpaceId.value))
-      .orderBy(asc(checkListItems.createdAt))
+      .orderBy(asc(checkListItems.displayOrder), asc(checkListItems.createdAt))
       .limit(limit)
       .offset(offset);
 
-    return result.map((row) =>
-      CheckListItem.reconstruct({
-        id: row.id,
-        reviewSpaceId: row.reviewSpaceId,
-        content: row.content,
-        createdAt: row.createdAt,
-        updatedAt: row.updatedAt,
-      }),
-    );
+    return result.map((row) => this.toEntity(row));
   }
 
   /**
@@ -106,13 +87,7 @@ export class CheckListItemRepository implements ICheckListItemRepository {
    * チェック項目を保存（新規作成または更新）
    */
   async save(item: CheckListItem): Promise<void> {
-    const data = {
-      id: item.id.value,
-      reviewSpaceId: item.reviewSpaceId.value,
-      content: item.content.value,
-      createdAt: item.createdAt,
-      updatedAt: item.updatedAt,
-    };
+    const data = this.toDbEntity(item);
 
     await db
       .insert(checkListItems)
@@ -121,6 +96,10 @@ export class CheckListItemRepository implements ICheckListItemRepository {
         target: checkListItems.id,
         set: {
           content: data.content,
+          category: data.category,
+          displayOrder: data.displayOrder,
+          severity: data.severity,
+          guidance: data.guidance,
           updatedAt: data.updatedAt,
         },
       });
@@ -142,13 +121,7 @@ export class CheckListItemRepository implements ICheckListItemRepository {
 
       // 新しいチェック項目を挿入
       if (items.length > 0) {
-        const data = items.map((item) => ({
-          id: item.id.value,
-          reviewSpaceId: item.reviewSpaceId.value,
-          content: item.content.value,
-          createdAt: item.createdAt,
-          updatedAt: item.updatedAt,
-        }));
+        const data = items.map((item) => this.toDbEntity(item));
 
         await tx.insert(checkListItems).values(data);
       }
@@ -157,21 +130,41 @@ export class CheckListItemRepository implements ICheckListItemRepository {
 
   /**
    * チェック項目を一括追加（既存項目は保持）
+   * 表示順は既存項目の最大値に続けて採番する
    */
   async bulkInsert(items: CheckListItem[]): Promise<void> {
     if (items.length === 0) {
       return;
     }
 
-    const data = items.map((item) => ({
-      id: item.id.value,
-      reviewSpaceId: item.reviewSpaceId.value,
-      content: item.content.value,
-      createdAt: item.createdAt,
-      updatedAt: item.updatedAt,
-    }));
-
-    await db.insert(checkListItems).values(data);
+    await db.transaction(async (tx) => {
+      // レビュースペースごとの既存項目の表示順の最大値を取得
+      const reviewSpaceIds = Array.from(
+        new Set(items.map((item) => item.reviewSpaceId.value)),
+      );
+      const maxOrders = await tx
+        .select({
+          reviewSpaceId: checkListItems.reviewSpaceId,
+          maxDisplayOrder: sql<number>`max(${checkListItems.displayOrder})`,
+        })
+        .from(checkListItems)
+        .where(inArray(checkListItems.reviewSpaceId, reviewSpaceIds))
+        .groupBy(checkListItems.reviewSpaceId);
+      const orderOffsets = new Map(
+        maxOrders.map((row) => [
+          row.reviewSpaceId,
+          Number(row.maxDisplayOrder) + 1,
+        ]),
+      );
+
+      const data = items.map((item) => ({
+        ...this.toDbEntity(item),
+        displayOrder:
+          (orderOffsets.get(item.reviewSpaceId.value) ?? 0) + item.displayOrder,
+      }));
+
+      await tx.insert(checkListItems).values(data);
+    });
   }
 
   /**
@@ -201,4 +194,38 @@ export class CheckListItemRepository implements ICheckListItemRepository {
       .delete(checkListItems)
       .where(eq(checkListItems.reviewSpaceId, reviewSpaceId.value));
   }
+
+  /**
+   * DBレコードからエンティティに変換
+   */
+  private toEntity(row: CheckListItemDbEntity): CheckListItem {
+    return CheckListItem.reconstruct({
+      id: row.id,
+      reviewSpaceId: row.reviewSpaceId,
+      content: row.content,
+      category: row.category,
+      displayOrder: row.displayOrder,
+      severity: row.severity,
+      guidance: row.guidance,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    });
+  }
+
+  /**
+   * エンティティからDBレコードに変換
+   */
+  private toDbEntity(item: CheckListItem): NewCheckListItemDbEntity {
+    return {
+      id: item.id.value,
+      reviewSpaceId: item.reviewSpaceId.value,
+      content: item.content.value,
+      category: item.category.value,
+      displayOrder: item.displayOrder,
+      severity: item.severity.value,
+      guidance: item.guidance.value,
+      createdAt: item.createdAt,
+      updatedAt: item.updatedAt,
+    };
+  }
 }
@@ -0,0 +1,197 @@
+import { eq, or, isNull, asc, desc, and } from "drizzle-orm";
+import { IChecklistTemplateRepository } from "@/application/shared/port/repository";
+import {
+  ChecklistTemplate,
+  ChecklistTemplateId,
+  ChecklistTemplateVersion,
+  type ChecklistTemplateItemDto,
+} from "@/domain/checklistTemplate";
+import { ProjectId } from "@/domain/project";
+import { db } from "../index";
+import {
+  checklistTemplates,
+  checklistTemplateVersions,
+  type ChecklistTemplateDbEntity,
+  type ChecklistTemplateVersionDbEntity,
+} from "@/drizzle/schema";
+
+/**
+ * チェックリストテンプレートリポジトリ実装
+ * Drizzle ORMを使用してPostgreSQLと通信
+ */
+export class ChecklistTemplateRepository implements IChecklistTemplateRepository {
+  /**
+   * IDでテンプレートを取得
+   */
+  async findById(id: ChecklistTemplateId): Promise<ChecklistTemplate | null> {
+    const result = await db
+      .select()
+      .from(checklistTemplates)
+      .where(eq(checklistTemplates.id, id.value))
+      .limit(1);
+
+    if (result.length === 0) {
+      return null;
+    }
+
+    return this.toDomainEntity(result[0]);
+  }
+
+  /**
+   * プロジェクトで利用できるテンプレートを取得（名前の昇順）
+   */
+  async findAvailableToProject(
+    projectId: ProjectId,
+  ): Promise<ChecklistTemplate[]> {
+    const result = await db
+      .select()
+      .from(checklistTemplates)
+      .where(
+        or(
+          isNull(checklistTemplates.projectId),
+          eq(checklistTemplates.projectId, projectId.value),
+        ),
+      )
+      .orderBy(asc(checklistTemplates.name));
+
+    return result.map((row) => this.toDomainEntity(row));
+  }
+
+  /**
+   * 全社共通テンプレートを取得（名前の昇順）
+   */
+  async findGlobal(): Promise<ChecklistTemplate[]> {
+    const result = await db
+      .select()
+      .from(checklistTemplates)
+      .where(isNull(checklistTemplates.projectId))
+      .orderBy(asc(checklistTemplates.name));
+
+    return result.map((row) => this.toDomainEntity(row));
+  }
+
+  /**
+   * テンプレートの指定バージョンを取得
+   */
+  async findVersion(
+    templateId: ChecklistTemplateId,
+    version: number,
+  ): Promise<ChecklistTemplateVersion | null> {
+    const result = await db
+      .select()
+      .from(checklistTemplateVersions)
+      .where(
+        and(
+          eq(checklistTemplateVersions.templateId, templateId.value),
+          eq(checklistTemplateVersions.version, version),
+        ),
+      )
+      .limit(1);
+
+    if (result.length === 0) {
+      return null;
+    }
+
+    return this.toVersionEntity(result[0]);
+  }
+
+  /**
+   * テンプレートの全バージョンを取得（バージョンの降順）
+   */
+  async findVersions(
+    templateId: ChecklistTemplateId,
+  ): Promise<ChecklistTemplateVersion[]> {
+    const result = await db
+      .select()
+      .from(checklistTemplateVersions)
+      .where(eq(checklistTemplateVersions.templateId, templateId.value))
+      .orderBy(desc(checklistTemplateVersions.version));
+
+    return result.map((row) => this.toVersionEntity(row));
+  }
+
+  /**
+   * テンプレートを保存（新規作成または更新）
+   */
+  async save(
+    template: ChecklistTemplate,
+    version?: ChecklistTemplateVersion,
+  ): Promise<void> {
+    const dto = template.toDto();
+
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(checklistTemplates)
+        .values({
+          id: dto.id,
+          projectId: dto.projectId,
+          name: dto.name,
+          description: dto.description,
+          latestVersion: dto.latestVersion,
+          createdAt: dto.createdAt,
+          updatedAt: dto.updatedAt,
+        })
+        .onConflictDoUpdate({
+          target: checklistTemplates.id,
+          set: {
+            name: dto.name,
+            description: dto.description,
+            latestVersion: dto.latestVersion,
+            updatedAt: dto.updatedAt,
+          },
+        });
+
+      if (version) {
+        const versionDto = version.toDto();
+        await tx.insert(checklistTemplateVersions).values({
+          templateId: versionDto.templateId,
+          version: versionDto.version,
+          items: versionDto.items,
+          changeNote: versionDto.changeNote,
+          publishedBy: versionDto.publishedBy,
+          createdAt: versionDto.createdAt,
+        });
+      }
+    });
+  }
+
+  /**
+   * テンプレートを削除
+   */
+  async delete(id: ChecklistTemplateId): Promise<void> {
+    await db
+      .delete(checklistTemplates)
+      .where(eq(checklistTemplates.id, id.value));
+  }
+
+  /**
+   * DBエンティティからドメインエンティティに変換
+   */
+  private toDomainEntity(row: ChecklistTemplateDbEntity): ChecklistTemplate {
+    return ChecklistTemplate.reconstruct({
+      id: row.id,
+      projectId: row.projectId,
+      name: row.name,
+      description: row.description,
+      latestVersion: row.latestVersion,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    });
+  }
+
+  /**
+   * DBエンティティからバージョンエンティティに変換
+   */
+  private toVersionEntity(
+    row: ChecklistTemplateVersionDbEntity,
+  ): ChecklistTemplateVersion {
+    return ChecklistTemplateVersion.reconstruct({
+      templateId: row.templateId,
+      version: row.version,
+      items: row.items as ChecklistTemplateItemDto[],
+      changeNote: row.changeNote,
+      publishedBy: row.publishedBy,
+      createdAt: row.createdAt,
+    });
+  }
+}
@@ -0,0 +1,161 @@
+import { eq, and, isNull, desc, gt, sql } from "drizzle-orm";
+import {
+  INotificationRepository,
+  FindNotificationsOptions,
+} from "@/application/shared/port/repository";
+import { Notification, NotificationId } from "@/domain/notification";
+import { UserId } from "@/domain/user";
+import { db } from "../index";
+import { notifications, NotificationDbEntity } from "@/drizzle/schema";
+
+/**
+ * 通知リポジトリ実装
+ * Drizzle ORMを使用してPostgreSQLと通信
+ */
+export class NotificationRepository implements INotificationRepository {
+  /**
+   * IDで通知を取得
+   */
+  async findById(id: NotificationId): Promise<Notification | null> {
+    const result = await db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.id, id.value))
+      .limit(1);
+
+    if (result.length === 0) {
+      return null;
+    }
+
+    return this.toDomainEntity(result[0]);
+  }
+
+  /**
+   * 受信者の通知一覧を取得（作成日時の降順）
+   */
+  async findByUserId(
+    userId: UserId,
+    options?: FindNotificationsOptions,
+  ): Promise<Notification[]> {
+    const { limit = 50, unreadOnly = false, createdAfter } = options ?? {};
+
+    const conditions = [eq(notifications.userId, userId.value)];
+    if (unreadOnly) {
+      conditions.push(isNull(notifications.readAt));
+    }
+    if (createdAfter) {
+      conditions.push(gt(notifications.createdAt, createdAfter));
+    }
+
+    const result = await db
+      .select()
+      .from(notifications)
+      .where(and(...conditions))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+
+    return result.map((row) => this.toDomainEntity(row));
+  }
+
+  /**
+   * 受信者の未読通知数をカウント
+   */
+  async countUnreadByUserId(userId: UserId): Promise<number> {
+    const result = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.userId, userId.value),
+          isNull(notifications.readAt),
+        ),
+      );
+
+    return Number(result[0]?.count ?? 0);
+  }
+
+  /**
+   * 通知を保存（新規作成または既読状態の更新）
+   */
+  async save(notification: Notification): Promise<void> {
+    const dto = notification.toDto();
+
+    await db
+      .insert(notifications)
+      .values({
+        id: dto.id,
+        userId: dto.userId,
+        projectId: dto.projectId,
+        type: dto.type,
+        title: dto.title,
+        message: dto.message,
+        linkUrl: dto.linkUrl,
+        readAt: dto.readAt,
+        createdAt: dto.createdAt,
+      })
+      .onConflictDoUpdate({
+        target: notifications.id,
+        set: {
+          readAt: dto.readAt,
+        },
+      });
+  }
+
+  /**
+   * 複数の通知を一括で新規作成
+   */
+  async saveMany(items: Notification[]): Promise<void> {
+    if (items.length === 0) {
+      return;
+    }
+
+    await db.insert(notifications).values(
+      items.map((notification) => {
+        const dto = notification.toDto();
+        return {
+          id: dto.id,
+          userId: dto.userId,
+          projectId: dto.projectId,
+          type: dto.type,
+          title: dto.title,
+          message: dto.message,
+          linkUrl: dto.linkUrl,
+          readAt: dto.readAt,
+          createdAt: dto.createdAt,
+        };
+      }),
+    );
+  }
+
+  /**
+   * 受信者の未読通知を全て既読にする
+   */
+  async markAllAsReadByUserId(userId: UserId, readAt: Date): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt })
+      .where(
+        and(
+          eq(notifications.userId, userId.value),
+          isNull(notifications.readAt),
+        ),
+      );
+  }
+
+  /**
+   * DBエンティティからドメインエンティティに変換
+   */
+  private toDomainEntity(row: NotificationDbEntity): Notification {
+    return Notification.reconstruct({
+      id: row.id,
+      userId: row.userId,
+      projectId: row.projectId,
+      type: row.type,
+      title: row.title,
+      message: row.message,
+      linkUrl: row.linkUrl,
+      readAt: row.readAt,
+      createdAt: row.createdAt,
+    });
+  }
+}
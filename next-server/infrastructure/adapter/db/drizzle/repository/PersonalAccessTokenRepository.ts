@@ -0,0 +1,156 @@
+import { eq, desc, inArray } from "drizzle-orm";
+import { IPersonalAccessTokenRepository } from "@/application/shared/port/repository";
+import {
+  PersonalAccessToken,
+  PersonalAccessTokenId,
+} from "@/domain/personalAccessToken";
+import { UserId } from "@/domain/user";
+import { db } from "../index";
+import {
+  personalAccessTokens,
+  personalAccessTokenProjects,
+  PersonalAccessTokenDbEntity,
+} from "@/drizzle/schema";
+
+/**
+ * パーソナルアクセストークンリポジトリ実装
+ * Drizzle ORMを使用してPostgreSQLと通信
+ */
+export class PersonalAccessTokenRepository implements IPersonalAccessTokenRepository {
+  /**
+   * IDでトークンを取得
+   */
+  async findById(
+    id: PersonalAccessTokenId,
+  ): Promise<PersonalAccessToken | null> {
+    const result = await db
+      .select()
+      .from(personalAccessTokens)
+      .where(eq(personalAccessTokens.id, id.value))
+      .limit(1);
+
+    const [token] = await this.toDomainEntities(result);
+    return token ?? null;
+  }
+
+  /**
+   * トークンハッシュでトークンを取得
+   */
+  async findByTokenHash(
+    tokenHash: string,
+  ): Promise<PersonalAccessToken | null> {
+    const result = await db
+      .select()
+      .from(personalAccessTokens)
+      .where(eq(personalAccessTokens.tokenHash, tokenHash))
+      .limit(1);
+
+    const [token] = await this.toDomainEntities(result);
+    return token ?? null;
+  }
+
+  /**
+   * ユーザーが発行したトークン一覧を取得（作成日時の降順）
+   */
+  async findByUserId(userId: UserId): Promise<PersonalAccessToken[]> {
+    const result = await db
+      .select()
+      .from(personalAccessTokens)
+      .where(eq(personalAccessTokens.userId, userId.value))
+      .orderBy(desc(personalAccessTokens.createdAt));
+
+    return this.toDomainEntities(result);
+  }
+
+  /**
+   * トークンを保存（新規作成または最終使用日時の更新）
+   * 対象プロジェクトは発行後に変更されないため、新規作成時のみ登録する
+   */
+  async save(token: PersonalAccessToken): Promise<void> {
+    const dto = token.toDto();
+
+    const inserted = await db
+      .insert(personalAccessTokens)
+      .values({
+        id: dto.id,
+        userId: dto.userId,
+        name: dto.name,
+        tokenHash: dto.tokenHash,
+        tokenPrefix: dto.tokenPrefix,
+        expiresAt: dto.expiresAt,
+        lastUsedAt: dto.lastUsedAt,
+        createdAt: dto.createdAt,
+      })
+      .onConflictDoNothing({ target: personalAccessTokens.id })
+      .returning({ id: personalAccessTokens.id });
+
+    if (inserted.length === 0) {
+      await db
+        .update(personalAccessTokens)
+        .set({ lastUsedAt: dto.lastUsedAt })
+        .where(eq(personalAccessTokens.id, dto.id));
+      return;
+    }
+
+    if (dto.projectIds.length > 0) {
+      await db.insert(personalAccessTokenProjects).values(
+        dto.projectIds.map((projectId) => ({
+          tokenId: dto.id,
+          projectId,
+        })),
+      );
+    }
+  }
+
+  /**
+   * トークンを削除（対象プロジェクトはカスケード削除）
+   */
+  async delete(id: PersonalAccessTokenId): Promise<void> {
+    await db
+      .delete(personalAccessTokens)
+      .where(eq(personalAccessTokens.id, id.value));
+  }
+
+  /**
+   * トークン行に対象プロジェクトを付与してエンティティに変換する
+   */
+  private async toDomainEntities(
+    rows: PersonalAccessTokenDbEntity[],
+  ): Promise<PersonalAccessToken[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const projectRows = await db
+      .select()
+      .from(personalAccessTokenProjects)
+      .where(
+        inArray(
+          personalAccessTokenProjects.tokenId,
+          rows.map((row) => row.id),
+        ),
+      );
+
+    // 対象プロジェクトをトークンIDでグループ化
+    const projectIdsByTokenId = new Map<string, string[]>();
+    for (const row of projectRows) {
+      const projectIds = projectIdsByTokenId.get(row.tokenId) ?? [];
+      projectIds.push(row.projectId);
+      projectIdsByTokenId.set(row.tokenId, projectIds);
+    }
+
+    return rows.map((row) =>
+      PersonalAccessToken.reconstruct({
+        id: row.id,
+        userId: row.userId,
+        name: row.name,
+        tokenHash: row.tokenHash,
+        tokenPrefix: row.tokenPrefix,
+        projectIds: projectIdsByTokenId.get(row.id) ?? [],
+        expiresAt: row.expiresAt,
+        lastUsedAt: row.lastUsedAt,
+        createdAt: row.createdAt,
+      }),
+    );
+  }
+}
@@ -1,9 +1,10 @@
-import { eq, like, or, desc, sql, inArray } from "drizzle-orm";
+import { eq, like, or, desc, sql, inArray, ilike } from "drizzle-orm";
 import {
   IProjectRepository,
   FindProjectsOptions,
 } from "@/application/shared/port/repository";
 import { Project, ProjectId } from "@/domain/project";
+import type { AiModelAssignmentsDto } from "@/domain/system-setting";
 import { UserId } from "@/domain/user";
 import { db } from "../index";
 import { projects, projectMembers, users } from "@/drizzle/schema";
@@ -41,8 +42,13 @@ export class ProjectRepository implements IProjectRepository {
       name: project.name,
       description: project.description,
       encryptedApiKey: project.encryptedApiKey,
+      rateLimitRequestsPerMinute: project.rateLimitRequestsPerMinute,
+      rateLimitTokensPerMinute: project.rateLimitTokensPerMinute,
+      monthlyTokenBudget: project.monthlyTokenBudget,
+      aiModelAssignments: project.aiModelAssignments as AiModelAssignmentsDto,
       members: membersResult.map((m) => ({
         userId: m.userId,
+        role: m.role,
         createdAt: m.createdAt,
       })),
       createdAt: project.createdAt,
@@ -79,39 +85,7 @@ export class ProjectRepository implements IProjectRepository {
       .limit(limit)
       .offset(offset);
 
-    // 各プロジェクトのメンバーを取得
-    const projectIds = projectsResult.map((p) => p.id);
-    if (projectIds.length === 0) {
-      return [];
-    }
-
-    const membersResult = await db
-      .select()
-      .from(projectMembers)
-      .where(inArray(projectMembers.projectId, projectIds));
-
-    // メンバーをプロジェクトIDでグループ化
-    const membersByProjectId = new Map<
-      string,
-      { userId: string; createdAt: Date }[]
-    >();
-    for (const m of membersResult) {
-      const members = membersByProjectId.get(m.projectId) ?? [];
-      members.push({ userId: m.userId, createdAt: m.createdAt });
-      membersByProjectId.set(m.projectId, members);
-    }
-
-    return projectsResult.map((p) =>
-      Project.reconstruct({
-        id: p.id,
-        name: p.name,
-        description: p.description,
-        encryptedApiKey: p.encryptedApiKey,
-        members: membersByProjectId.get(p.id) ?? [],
-        createdAt: p.createdAt,
-        updatedAt: p.updatedAt,
-      }),
-    );
+    return this.toDomainEntitiesWithMembers(projectsResult);
   }
 
   /**
@@ -136,6 +110,34 @@ export class ProjectRepository implements IProjectRepository {
     return Number(result[0]?.count ?? 0);
   }
 
+  /**
+   * 全プロジェクト一覧を検索（管理者用）
+   */
+  async findAll(options?: FindProjectsOptions): Promise<Project[]> {
+    const { search, limit = 100, offset = 0 } = options ?? {};
+
+    const projectsResult = await db
+      .select()
+      .from(projects)
+      .where(search ? ilike(projects.name, `%${search}%`) : undefined)
+      .orderBy(desc(projects.updatedAt))
+      .limit(limit)
+      .offset(offset);
+
+    return this.toDomainEntitiesWithMembers(projectsResult);
+  }
+
+  /**
+   * 全プロジェクト数をカウント（管理者用）
+   */
+  async countAll(search?: string): Promise<number> {
+    const result = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(projects)
+      .where(search ? ilike(projects.name, `%${search}%`) : undefined);
+    return Number(result[0]?.count ?? 0);
+  }
+
   /**
    * プロジェクトを保存（新規作成または更新）
    */
@@ -145,6 +147,10 @@ export class ProjectRepository implements IProjectRepository {
       name: project.name.value,
       description: project.description.value,
       encryptedApiKey: project.encryptedApiKey.encryptedValue,
+      rateLimitRequestsPerMinute: project.aiApiRateLimit.requestsPerMinute,
+      rateLimitTokensPerMinute: project.aiApiRateLimit.tokensPerMinute,
+      monthlyTokenBudget: project.monthlyTokenBudget.value,
+      aiModelAssignments: project.aiModelAssignments.toDto(),
       createdAt: project.createdAt,
       updatedAt: project.updatedAt,
     };
@@ -159,6 +165,10 @@ export class ProjectRepository implements IProjectRepository {
           name: projectData.name,
           description: projectData.description,
           encryptedApiKey: projectData.encryptedApiKey,
+          rateLimitRequestsPerMinute: projectData.rateLimitRequestsPerMinute,
+          rateLimitTokensPerMinute: projectData.rateLimitTokensPerMinute,
+          monthlyTokenBudget: projectData.monthlyTokenBudget,
+          aiModelAssignments: projectData.aiModelAssignments,
           updatedAt: projectData.updatedAt,
         },
       });
@@ -175,6 +185,7 @@ export class ProjectRepository implements IProjectRepository {
         project.members.map((m) => ({
           projectId: project.id.value,
           userId: m.userId.value,
+          role: m.role.value,
           createdAt: m.createdAt,
         })),
       );
@@ -188,4 +199,49 @@ export class ProjectRepository implements IProjectRepository {
     // CASCADE削除なのでプロジェクトを削除するだけでメンバーも削除される
     await db.delete(projects).where(eq(projects.id, id.value));
   }
+
+  /**
+   * プロジェクト行にメンバー情報を付与してエンティティに変換する
+   */
+  private async toDomainEntitiesWithMembers(
+    projectsResult: (typeof projects.$inferSelect)[],
+  ): Promise<Project[]> {
+    // 各プロジェクトのメンバーを取得
+    const projectIds = projectsResult.map((p) => p.id);
+    if (projectIds.length === 0) {
+      return [];
+    }
+
+    const membersResult = await db
+      .select()
+      .from(projectMembers)
+      .where(inArray(projectMembers.projectId, projectIds));
+
+    // メンバーをプロジェクトIDでグループ化
+    const membersByProjectId = new Map<
+      string,
+      { userId: string; role: string; createdAt: Date }[]
+    >();
+    for (const m of membersResult) {
+      const members = membersByProjectId.get(m.projectId) ?? [];
+      members.push({ userId: m.userId, role: m.role, createdAt: m.createdAt });
+      membersByProjectId.set(m.projectId, members);
+    }
+
+    return projectsResult.map((p) =>
+      Project.reconstruct({
+        id: p.id,
+        name: p.name,
+        description: p.description,
+        encryptedApiKey: p.encryptedApiKey,
+        rateLimitRequestsPerMinute: p.rateLimitRequestsPerMinute,
+        rateLimitTokensPerMinute: p.rateLimitTokensPerMinute,
+        monthlyTokenBudget: p.monthlyTokenBudget,
+        aiModelAssignments: p.aiModelAssignments as AiModelAssignmentsDto,
+        members: membersByProjectId.get(p.id) ?? [],
+        createdAt: p.createdAt,
+        updatedAt: p.updatedAt,
+      }),
+    );
+  }
 }
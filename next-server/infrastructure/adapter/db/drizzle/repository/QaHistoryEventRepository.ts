@@ -0,0 +1,70 @@
+import { and, asc, eq, gt, max } from "drizzle-orm";
+import { IQaHistoryEventRepository } from "@/application/shared/port/repository";
+import { QaHistoryEvent, QaHistoryId } from "@/domain/qaHistory";
+import { db } from "../index";
+import { qaHistoryEvents, type QaHistoryEventDbEntity } from "@/drizzle/schema";
+
+/**
+ * Q&A履歴イベントリポジトリ実装
+ * Drizzle ORMを使用してPostgreSQLと通信
+ */
+export class QaHistoryEventRepository implements IQaHistoryEventRepository {
+  /**
+   * イベントを追加
+   */
+  async append(event: QaHistoryEvent): Promise<void> {
+    await db.insert(qaHistoryEvents).values({
+      qaHistoryId: event.qaHistoryId.value,
+      sequence: event.sequence,
+      type: event.type,
+      data: event.data,
+      createdAt: event.createdAt,
+    });
+  }
+
+  /**
+   * Q&A履歴のイベントを発行順に取得
+   */
+  async findByQaHistoryId(
+    qaHistoryId: QaHistoryId,
+    afterSequence?: number,
+  ): Promise<QaHistoryEvent[]> {
+    const conditions = [eq(qaHistoryEvents.qaHistoryId, qaHistoryId.value)];
+    if (afterSequence !== undefined) {
+      conditions.push(gt(qaHistoryEvents.sequence, afterSequence));
+    }
+
+    const result = await db
+      .select()
+      .from(qaHistoryEvents)
+      .where(and(...conditions))
+      .orderBy(asc(qaHistoryEvents.sequence));
+
+    return result.map((row) => this.toDomainEntity(row));
+  }
+
+  /**
+   * Q&A履歴の最後のイベントの発行順を取得
+   */
+  async findLatestSequence(qaHistoryId: QaHistoryId): Promise<number> {
+    const result = await db
+      .select({ latest: max(qaHistoryEvents.sequence) })
+      .from(qaHistoryEvents)
+      .where(eq(qaHistoryEvents.qaHistoryId, qaHistoryId.value));
+
+    return result[0]?.latest ?? 0;
+  }
+
+  /**
+   * DBレコードからドメインエンティティに変換
+   */
+  private toDomainEntity(row: QaHistoryEventDbEntity): QaHistoryEvent {
+    return QaHistoryEvent.reconstruct({
+      qaHistoryId: row.qaHistoryId,
+      sequence: row.sequence,
+      type: row.type,
+      data: row.data as Record<string, unknown>,
+      createdAt: row.createdAt,
+    });
+  }
+}
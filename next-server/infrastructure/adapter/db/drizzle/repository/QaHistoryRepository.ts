@@ -1,4 +1,4 @@
-import { eq, sql, desc } from "drizzle-orm";
+import { and, asc, eq, inArray, lt, notExists, sql, desc } from "drizzle-orm";
 import {
   IQaHistoryRepository,
   FindQaHistoriesOptions,
@@ -16,7 +16,8 @@ import {
 } from "@/domain/qaHistory";
 import { UserId } from "@/domain/user/UserId";
 import { db } from "../index";
-import { qaHistories } from "@/drizzle/schema";
+import { aiTasks, qaHistories } from "@/drizzle/schema";
+import { AI_TASK_TYPE } from "@/domain/aiTask";
 
 /**
  * Q&A履歴リポジトリ実装
@@ -71,6 +72,47 @@ export class QaHistoryRepository implements IQaHistoryRepository {
     return { items, total };
   }
 
+  /**
+   * スレッドに属するQ&A履歴を検索
+   */
+  async findByThreadId(threadId: QaHistoryId): Promise<QaHistory[]> {
+    const result = await db
+      .select()
+      .from(qaHistories)
+      .where(eq(qaHistories.threadId, threadId.value))
+      .orderBy(asc(qaHistories.createdAt));
+
+    return result.map((row) => this.toEntity(row));
+  }
+
+  /**
+   * 処理待ち・処理中のまま、実行するAIタスクが存在しないQ&A履歴を検索
+   */
+  async findOrphaned(updatedBefore: Date): Promise<QaHistory[]> {
+    const result = await db
+      .select()
+      .from(qaHistories)
+      .where(
+        and(
+          inArray(qaHistories.status, ["pending", "processing"]),
+          lt(qaHistories.updatedAt, updatedBefore),
+          notExists(
+            db
+              .select({ id: aiTasks.id })
+              .from(aiTasks)
+              .where(
+                and(
+                  eq(aiTasks.taskType, AI_TASK_TYPE.QA_EXECUTION),
+                  sql`${aiTasks.payload}->>'qaHistoryId' = ${qaHistories.id}::text`,
+                ),
+              ),
+          ),
+        ),
+      );
+
+    return result.map((row) => this.toEntity(row));
+  }
+
   /**
    * Q&A履歴を保存（新規作成）
    */
@@ -81,6 +123,7 @@ export class QaHistoryRepository implements IQaHistoryRepository {
       userId: qaHistory.userId.value,
       question: qaHistory.question.value,
       checkListItemContent: qaHistory.checkListItemContent.value,
+      threadId: qaHistory.threadId.value,
       answer: qaHistory.answer?.value ?? null,
       researchSummary: qaHistory.researchSummary?.toJson() ?? null,
       status: qaHistory.status.value,
@@ -167,6 +210,7 @@ export class QaHistoryRepository implements IQaHistoryRepository {
       checkListItemContent: CheckListItemContent.reconstruct(
         row.checkListItemContent,
       ),
+      threadId: QaHistoryId.reconstruct(row.threadId),
       answer: row.answer ? Answer.reconstruct(row.answer) : null,
       researchSummary: row.researchSummary
         ? ResearchSummary.fromJson(row.researchSummary)
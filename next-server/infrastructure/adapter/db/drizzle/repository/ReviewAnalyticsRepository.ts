@@ -0,0 +1,282 @@
+import { and, eq, gte, lt, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import {
+  IReviewAnalyticsRepository,
+  ReviewAnalyticsScope,
+  EvaluationCountRow,
+  DailyReviewCountRow,
+  DailyTaskCountRow,
+  TaskDurationStatRow,
+  QaTopicCountRow,
+} from "@/application/shared/port/repository/IReviewAnalyticsRepository";
+import { db } from "../index";
+import {
+  aiTaskHistories,
+  qaHistories,
+  reviewResults,
+  reviewSpaces,
+  reviewTargets,
+} from "@/drizzle/schema";
+
+/**
+ * レビュー分析リポジトリ実装
+ * Drizzle ORMを使用してPostgreSQLで集計する
+ */
+export class ReviewAnalyticsRepository implements IReviewAnalyticsRepository {
+  /**
+   * チェック項目・評定ごとのレビュー結果件数を集計
+   */
+  async countEvaluations(
+    scope: ReviewAnalyticsScope,
+  ): Promise<EvaluationCountRow[]> {
+    const finalEvaluation = sql<
+      string | null
+    >`coalesce(${reviewResults.humanEvaluation}, ${reviewResults.evaluation})`;
+    const isError = sql<boolean>`${reviewResults.errorMessage} is not null`;
+
+    const rows = await db
+      .select({
+        reviewSpaceId: reviewTargets.reviewSpaceId,
+        checkListItemContent: reviewResults.checkListItemContent,
+        evaluation: finalEvaluation,
+        isError,
+        count: sql<number>`count(*)`,
+      })
+      .from(reviewResults)
+      .innerJoin(
+        reviewTargets,
+        eq(reviewResults.reviewTargetId, reviewTargets.id),
+      )
+      .innerJoin(reviewSpaces, eq(reviewTargets.reviewSpaceId, reviewSpaces.id))
+      .where(
+        this.buildScopeCondition(
+          scope,
+          reviewTargets.reviewSpaceId,
+          reviewResults.createdAt,
+        ),
+      )
+      .groupBy(
+        reviewTargets.reviewSpaceId,
+        reviewResults.checkListItemContent,
+        finalEvaluation,
+        isError,
+      );
+
+    return rows.map((row) => ({
+      reviewSpaceId: row.reviewSpaceId,
+      checkListItemContent: row.checkListItemContent,
+      evaluation: row.evaluation,
+      isError: Boolean(row.isError),
+      count: Number(row.count),
+    }));
+  }
+
+  /**
+   * 日別のレビュー対象数・レビュー結果数を集計
+   * レビュー対象は作成日、レビュー結果は作成日で集計する
+   */
+  async countDailyReviews(
+    scope: ReviewAnalyticsScope,
+  ): Promise<DailyReviewCountRow[]> {
+    const targetRows = await db
+      .select({
+        date: this.toLocalDate(reviewTargets.createdAt, scope.timeZone),
+        count: sql<number>`count(*)`,
+      })
+      .from(reviewTargets)
+      .innerJoin(reviewSpaces, eq(reviewTargets.reviewSpaceId, reviewSpaces.id))
+      .where(
+        this.buildScopeCondition(
+          scope,
+          reviewTargets.reviewSpaceId,
+          reviewTargets.createdAt,
+        ),
+      )
+      // タイムゾーンがパラメータとしてバインドされるため、列番号でグループ化する
+      .groupBy(sql`1`);
+
+    const resultRows = await db
+      .select({
+        date: this.toLocalDate(reviewResults.createdAt, scope.timeZone),
+        count: sql<number>`count(*)`,
+        errorCount: sql<number>`count(${reviewResults.errorMessage})`,
+      })
+      .from(reviewResults)
+      .innerJoin(
+        reviewTargets,
+        eq(reviewResults.reviewTargetId, reviewTargets.id),
+      )
+      .innerJoin(reviewSpaces, eq(reviewTargets.reviewSpaceId, reviewSpaces.id))
+      .where(
+        this.buildScopeCondition(
+          scope,
+          reviewTargets.reviewSpaceId,
+          reviewResults.createdAt,
+        ),
+      )
+      .groupBy(sql`1`);
+
+    const byDate = new Map<string, DailyReviewCountRow>();
+    const getRow = (date: string) => {
+      const row = byDate.get(date) ?? {
+        date,
+        reviewTargetCount: 0,
+        resultCount: 0,
+        errorResultCount: 0,
+      };
+      byDate.set(date, row);
+      return row;
+    };
+    for (const row of targetRows) {
+      getRow(row.date).reviewTargetCount = Number(row.count);
+    }
+    for (const row of resultRows) {
+      const daily = getRow(row.date);
+      daily.resultCount = Number(row.count);
+      daily.errorResultCount = Number(row.errorCount);
+    }
+
+    return Array.from(byDate.values()).sort((a, b) =>
+      a.date.localeCompare(b.date),
+    );
+  }
+
+  /**
+   * 日別の終了したAIタスク数を集計（終了日時で集計）
+   */
+  async countDailyTasks(
+    scope: ReviewAnalyticsScope,
+  ): Promise<DailyTaskCountRow[]> {
+    const rows = await db
+      .select({
+        date: this.toLocalDate(aiTaskHistories.completedAt, scope.timeZone),
+        taskCount: sql<number>`count(*)`,
+        failedTaskCount: sql<number>`count(*) filter (where ${aiTaskHistories.status} = 'failed')`,
+      })
+      .from(aiTaskHistories)
+      .innerJoin(
+        reviewSpaces,
+        eq(aiTaskHistories.reviewSpaceId, reviewSpaces.id),
+      )
+      .where(
+        this.buildScopeCondition(
+          scope,
+          aiTaskHistories.reviewSpaceId,
+          aiTaskHistories.completedAt,
+        ),
+      )
+      .groupBy(sql`1`)
+      .orderBy(sql`1`);
+
+    return rows.map((row) => ({
+      date: row.date,
+      taskCount: Number(row.taskCount),
+      failedTaskCount: Number(row.failedTaskCount),
+    }));
+  }
+
+  /**
+   * タスクタイプごとのキュー待ち時間・実行時間を集計（終了日時で集計）
+   * 処理開始前に失敗したタスクは所要時間の集計から除外する
+   */
+  async aggregateTaskDurations(
+    scope: ReviewAnalyticsScope,
+  ): Promise<TaskDurationStatRow[]> {
+    const waitMs = sql`extract(epoch from (${aiTaskHistories.startedAt} - ${aiTaskHistories.queuedAt})) * 1000`;
+    const executionMs = sql`extract(epoch from (${aiTaskHistories.completedAt} - ${aiTaskHistories.startedAt})) * 1000`;
+
+    const rows = await db
+      .select({
+        taskType: aiTaskHistories.taskType,
+        taskCount: sql<number>`count(*)`,
+        failedTaskCount: sql<number>`count(*) filter (where ${aiTaskHistories.status} = 'failed')`,
+        avgWaitMs: sql<number | null>`avg(${waitMs})`,
+        maxWaitMs: sql<number | null>`max(${waitMs})`,
+        avgExecutionMs: sql<number | null>`avg(${executionMs})`,
+        maxExecutionMs: sql<number | null>`max(${executionMs})`,
+      })
+      .from(aiTaskHistories)
+      .innerJoin(
+        reviewSpaces,
+        eq(aiTaskHistories.reviewSpaceId, reviewSpaces.id),
+      )
+      .where(
+        this.buildScopeCondition(
+          scope,
+          aiTaskHistories.reviewSpaceId,
+          aiTaskHistories.completedAt,
+        ),
+      )
+      .groupBy(aiTaskHistories.taskType)
+      .orderBy(aiTaskHistories.taskType);
+
+    const toMs = (value: number | string | null) =>
+      value === null ? null : Math.round(Number(value));
+
+    return rows.map((row) => ({
+      taskType: row.taskType,
+      taskCount: Number(row.taskCount),
+      failedTaskCount: Number(row.failedTaskCount),
+      avgWaitMs: toMs(row.avgWaitMs),
+      maxWaitMs: toMs(row.maxWaitMs),
+      avgExecutionMs: toMs(row.avgExecutionMs),
+      maxExecutionMs: toMs(row.maxExecutionMs),
+    }));
+  }
+
+  /**
+   * Q&Aの対象チェック項目ごとの質問件数を集計（質問日時で集計）
+   */
+  async countQaTopics(scope: ReviewAnalyticsScope): Promise<QaTopicCountRow[]> {
+    const rows = await db
+      .select({
+        checkListItemContent: qaHistories.checkListItemContent,
+        count: sql<number>`count(*)`,
+      })
+      .from(qaHistories)
+      .innerJoin(
+        reviewTargets,
+        eq(qaHistories.reviewTargetId, reviewTargets.id),
+      )
+      .innerJoin(reviewSpaces, eq(reviewTargets.reviewSpaceId, reviewSpaces.id))
+      .where(
+        this.buildScopeCondition(
+          scope,
+          reviewTargets.reviewSpaceId,
+          qaHistories.createdAt,
+        ),
+      )
+      .groupBy(qaHistories.checkListItemContent);
+
+    return rows.map((row) => ({
+      checkListItemContent: row.checkListItemContent,
+      count: Number(row.count),
+    }));
+  }
+
+  /**
+   * 集計範囲の条件を構築
+   * reviewSpacesテーブルが結合されている前提で、プロジェクト・レビュースペース・期間で絞り込む
+   */
+  private buildScopeCondition(
+    scope: ReviewAnalyticsScope,
+    reviewSpaceIdColumn: AnyPgColumn,
+    dateColumn: AnyPgColumn,
+  ): SQL | undefined {
+    return and(
+      eq(reviewSpaces.projectId, scope.projectId.value),
+      scope.reviewSpaceId
+        ? eq(reviewSpaceIdColumn, scope.reviewSpaceId.value)
+        : undefined,
+      gte(dateColumn, scope.from),
+      lt(dateColumn, scope.to),
+    );
+  }
+
+  /**
+   * 日時列を指定タイムゾーンの日付文字列（YYYY-MM-DD）に変換するSQL
+   */
+  private toLocalDate(column: AnyPgColumn, timeZone: string): SQL<string> {
+    return sql<string>`to_char(${column} at time zone ${timeZone}, 'YYYY-MM-DD')`;
+  }
+}
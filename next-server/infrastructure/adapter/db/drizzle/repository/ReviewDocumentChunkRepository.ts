@@ -0,0 +1,69 @@
+import { asc, eq } from "drizzle-orm";
+import {
+  IReviewDocumentChunkRepository,
+  ReviewDocumentChunk,
+} from "@/application/shared/port/repository/IReviewDocumentChunkRepository";
+import { db } from "../index";
+import { reviewDocumentChunks } from "@/drizzle/schema";
+
+/**
+ * レビュードキュメントチャンクリポジトリ実装
+ * Drizzle ORMを使用してPostgreSQLと通信
+ * 埋め込みベクトルはreal[]として保存し、類似度の計算はアプリケーション側で行う
+ */
+export class ReviewDocumentChunkRepository implements IReviewDocumentChunkRepository {
+  /**
+   * ドキュメントキャッシュのチャンクを全て置き換える
+   */
+  async replaceByReviewDocumentCacheId(
+    reviewDocumentCacheId: string,
+    chunks: ReviewDocumentChunk[],
+  ): Promise<void> {
+    await db.transaction(async (tx) => {
+      // 既存のチャンクを全て削除
+      await tx
+        .delete(reviewDocumentChunks)
+        .where(
+          eq(reviewDocumentChunks.reviewDocumentCacheId, reviewDocumentCacheId),
+        );
+
+      // 新しいチャンクを挿入
+      if (chunks.length > 0) {
+        await tx.insert(reviewDocumentChunks).values(
+          chunks.map((chunk) => ({
+            reviewDocumentCacheId,
+            chunkIndex: chunk.chunkIndex,
+            heading: chunk.heading,
+            content: chunk.content,
+            embedding: chunk.embedding,
+            embeddingModel: chunk.embeddingModel,
+          })),
+        );
+      }
+    });
+  }
+
+  /**
+   * ドキュメントキャッシュIDでチャンク一覧を取得
+   */
+  async findByReviewDocumentCacheId(
+    reviewDocumentCacheId: string,
+  ): Promise<ReviewDocumentChunk[]> {
+    const result = await db
+      .select()
+      .from(reviewDocumentChunks)
+      .where(
+        eq(reviewDocumentChunks.reviewDocumentCacheId, reviewDocumentCacheId),
+      )
+      .orderBy(asc(reviewDocumentChunks.chunkIndex));
+
+    return result.map((row) => ({
+      reviewDocumentCacheId: row.reviewDocumentCacheId,
+      chunkIndex: row.chunkIndex,
+      heading: row.heading,
+      content: row.content,
+      embedding: row.embedding,
+      embeddingModel: row.embeddingModel,
+    }));
+  }
+}
@@ -1,7 +1,12 @@
 import { eq, sql } from "drizzle-orm";
 import { IReviewResultRepository } from "@/application/shared/port/repository/IReviewResultRepository";
 import { ReviewTargetId } from "@/domain/reviewTarget";
-import { ReviewResult, ReviewResultId } from "@/domain/reviewResult";
+import {
+  ReviewResult,
+  ReviewResultId,
+  type ReviewEvidenceReference,
+  type ReconstructReviewAdjudicationParams,
+} from "@/domain/reviewResult";
 import { db } from "../index";
 import { reviewResults } from "@/drizzle/schema";
 
@@ -32,6 +37,8 @@ export class ReviewResultRepository implements IReviewResultRepository {
       evaluation: row.evaluation,
       comment: row.comment,
       errorMessage: row.errorMessage,
+      evidence: row.evidence as ReviewEvidenceReference[] | null,
+      adjudication: this.toAdjudicationParams(row),
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
     });
@@ -56,6 +63,8 @@ export class ReviewResultRepository implements IReviewResultRepository {
         evaluation: row.evaluation,
         comment: row.comment,
         errorMessage: row.errorMessage,
+        evidence: row.evidence as ReviewEvidenceReference[] | null,
+        adjudication: this.toAdjudicationParams(row),
         createdAt: row.createdAt,
         updatedAt: row.updatedAt,
       }),
@@ -85,6 +94,8 @@ export class ReviewResultRepository implements IReviewResultRepository {
       evaluation: reviewResult.evaluation.value,
       comment: reviewResult.comment.value,
       errorMessage: reviewResult.errorMessage,
+      evidence: reviewResult.evidence.value,
+      ...this.toAdjudicationColumns(reviewResult),
       createdAt: reviewResult.createdAt,
       updatedAt: reviewResult.updatedAt,
     };
@@ -98,6 +109,12 @@ export class ReviewResultRepository implements IReviewResultRepository {
           evaluation: data.evaluation,
           comment: data.comment,
           errorMessage: data.errorMessage,
+          evidence: data.evidence,
+          humanEvaluation: data.humanEvaluation,
+          humanComment: data.humanComment,
+          disposition: data.disposition,
+          reviewedBy: data.reviewedBy,
+          reviewedAt: data.reviewedAt,
           updatedAt: data.updatedAt,
         },
       });
@@ -116,6 +133,8 @@ export class ReviewResultRepository implements IReviewResultRepository {
       evaluation: reviewResult.evaluation.value,
       comment: reviewResult.comment.value,
       errorMessage: reviewResult.errorMessage,
+      evidence: reviewResult.evidence.value,
+      ...this.toAdjudicationColumns(reviewResult),
       createdAt: reviewResult.createdAt,
       updatedAt: reviewResult.updatedAt,
     }));
@@ -129,11 +148,50 @@ export class ReviewResultRepository implements IReviewResultRepository {
           evaluation: sql`EXCLUDED.evaluation`,
           comment: sql`EXCLUDED.comment`,
           errorMessage: sql`EXCLUDED.error_message`,
+          evidence: sql`EXCLUDED.evidence`,
+          humanEvaluation: sql`EXCLUDED.human_evaluation`,
+          humanComment: sql`EXCLUDED.human_comment`,
+          disposition: sql`EXCLUDED.disposition`,
+          reviewedBy: sql`EXCLUDED.reviewed_by`,
+          reviewedAt: sql`EXCLUDED.reviewed_at`,
           updatedAt: sql`EXCLUDED.updated_at`,
         },
       });
   }
 
+  /**
+   * DBの行からレビュアー判定の復元パラメータを生成
+   * 対応状況が未設定の場合は未判定（null）とする
+   */
+  private toAdjudicationParams(
+    row: typeof reviewResults.$inferSelect,
+  ): ReconstructReviewAdjudicationParams | null {
+    if (!row.disposition || !row.reviewedAt) {
+      return null;
+    }
+    return {
+      evaluation: row.humanEvaluation,
+      comment: row.humanComment,
+      disposition: row.disposition,
+      reviewedBy: row.reviewedBy,
+      reviewedAt: row.reviewedAt,
+    };
+  }
+
+  /**
+   * レビュアー判定を保存用のカラム値に変換
+   */
+  private toAdjudicationColumns(reviewResult: ReviewResult) {
+    const adjudication = reviewResult.adjudication;
+    return {
+      humanEvaluation: adjudication?.evaluation.value ?? null,
+      humanComment: adjudication?.comment.value ?? null,
+      disposition: adjudication?.disposition.value ?? null,
+      reviewedBy: adjudication?.reviewedBy?.value ?? null,
+      reviewedAt: adjudication?.reviewedAt ?? null,
+    };
+  }
+
   /**
    * レビュー結果を削除
    */
@@ -0,0 +1,122 @@
+import { eq, and, asc } from "drizzle-orm";
+import { IReviewSpacePluginRepository } from "@/application/shared/port/repository";
+import {
+  ReviewSpacePlugin,
+  ReviewSpacePluginId,
+} from "@/domain/reviewSpacePlugin";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { db } from "../index";
+import {
+  reviewSpacePlugins,
+  type ReviewSpacePluginDbEntity,
+} from "@/drizzle/schema";
+
+/**
+ * レビュースペースプラグインリポジトリ実装
+ * Drizzle ORMを使用してPostgreSQLと通信
+ */
+export class ReviewSpacePluginRepository implements IReviewSpacePluginRepository {
+  /**
+   * IDでプラグインを取得
+   */
+  async findById(id: ReviewSpacePluginId): Promise<ReviewSpacePlugin | null> {
+    const result = await db
+      .select()
+      .from(reviewSpacePlugins)
+      .where(eq(reviewSpacePlugins.id, id.value))
+      .limit(1);
+
+    if (result.length === 0) {
+      return null;
+    }
+
+    return this.toDomainEntity(result[0]);
+  }
+
+  /**
+   * レビュースペースに登録されたプラグインを取得（登録日時の昇順）
+   */
+  async findByReviewSpaceId(
+    reviewSpaceId: ReviewSpaceId,
+    options?: { enabledOnly?: boolean },
+  ): Promise<ReviewSpacePlugin[]> {
+    const conditions = [
+      eq(reviewSpacePlugins.reviewSpaceId, reviewSpaceId.value),
+    ];
+    if (options?.enabledOnly) {
+      conditions.push(eq(reviewSpacePlugins.isEnabled, true));
+    }
+
+    const result = await db
+      .select()
+      .from(reviewSpacePlugins)
+      .where(and(...conditions))
+      .orderBy(asc(reviewSpacePlugins.createdAt));
+
+    return result.map((row) => this.toDomainEntity(row));
+  }
+
+  /**
+   * プラグインを保存（新規作成または更新）
+   */
+  async save(plugin: ReviewSpacePlugin): Promise<void> {
+    const dto = plugin.toDto();
+
+    await db
+      .insert(reviewSpacePlugins)
+      .values({
+        id: dto.id,
+        reviewSpaceId: dto.reviewSpaceId,
+        name: dto.name,
+        hookPoints: dto.hookPoints,
+        extensions: dto.extensions,
+        timeoutMs: dto.timeoutMs,
+        isEnabled: dto.isEnabled,
+        scriptPath: plugin.scriptPath,
+        scriptSize: dto.scriptSize,
+        createdAt: dto.createdAt,
+        updatedAt: dto.updatedAt,
+      })
+      .onConflictDoUpdate({
+        target: reviewSpacePlugins.id,
+        set: {
+          name: dto.name,
+          hookPoints: dto.hookPoints,
+          extensions: dto.extensions,
+          timeoutMs: dto.timeoutMs,
+          isEnabled: dto.isEnabled,
+          scriptPath: plugin.scriptPath,
+          scriptSize: dto.scriptSize,
+          updatedAt: dto.updatedAt,
+        },
+      });
+  }
+
+  /**
+   * プラグインを削除
+   */
+  async delete(id: ReviewSpacePluginId): Promise<void> {
+    await db
+      .delete(reviewSpacePlugins)
+      .where(eq(reviewSpacePlugins.id, id.value));
+  }
+
+  /**
+   * DBエンティティからドメインエンティティに変換
+   */
+  private toDomainEntity(row: ReviewSpacePluginDbEntity): ReviewSpacePlugin {
+    return ReviewSpacePlugin.reconstruct({
+      id: row.id,
+      reviewSpaceId: row.reviewSpaceId,
+      name: row.name,
+      hookPoints: row.hookPoints as string[],
+      extensions: row.extensions as string[],
+      timeoutMs: row.timeoutMs,
+      isEnabled: row.isEnabled,
+      scriptPath: row.scriptPath,
+      scriptSize: row.scriptSize,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    });
+  }
+}
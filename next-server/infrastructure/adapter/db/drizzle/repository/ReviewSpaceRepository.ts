@@ -41,6 +41,8 @@ export class ReviewSpaceRepository implements IReviewSpaceRepository {
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
       checklistGenerationError: row.checklistGenerationError,
+      checklistTemplateId: row.checklistTemplateId,
+      checklistTemplateVersion: row.checklistTemplateVersion,
     });
   }
 
@@ -76,6 +78,8 @@ export class ReviewSpaceRepository implements IReviewSpaceRepository {
         createdAt: row.createdAt,
         updatedAt: row.updatedAt,
         checklistGenerationError: row.checklistGenerationError,
+        checklistTemplateId: row.checklistTemplateId,
+        checklistTemplateVersion: row.checklistTemplateVersion,
       }),
     );
   }
@@ -109,6 +113,8 @@ export class ReviewSpaceRepository implements IReviewSpaceRepository {
       name: reviewSpace.name.value,
       description: reviewSpace.description.value,
       defaultReviewSettings: reviewSpace.defaultReviewSettings.toDto(),
+      checklistTemplateId: reviewSpace.checklistTemplateId?.value ?? null,
+      checklistTemplateVersion: reviewSpace.checklistTemplateVersion,
       createdAt: reviewSpace.createdAt,
       updatedAt: reviewSpace.updatedAt,
     };
@@ -122,6 +128,8 @@ export class ReviewSpaceRepository implements IReviewSpaceRepository {
           name: data.name,
           description: data.description,
           defaultReviewSettings: data.defaultReviewSettings,
+          checklistTemplateId: data.checklistTemplateId,
+          checklistTemplateVersion: data.checklistTemplateVersion,
           updatedAt: data.updatedAt,
         },
       });
@@ -1,7 +1,8 @@
-import { eq, desc, sql } from "drizzle-orm";
+import { eq, desc, asc, or, sql, inArray } from "drizzle-orm";
 import {
   IReviewTargetRepository,
   FindReviewTargetsOptions,
+  ReviewTargetSpaceSummaryRow,
 } from "@/application/shared/port/repository/IReviewTargetRepository";
 import { ReviewSpaceId, ReviewSettingsProps } from "@/domain/reviewSpace";
 import { ReviewTarget, ReviewTargetId } from "@/domain/reviewTarget";
@@ -35,6 +36,10 @@ export class ReviewTargetRepository implements IReviewTargetRepository {
       status: row.status,
       reviewSettings: row.reviewSettings as ReviewSettingsProps | null,
       reviewType: row.reviewType,
+      revisionGroupId: row.revisionGroupId,
+      revision: row.revision,
+      signedOffBy: row.signedOffBy,
+      signedOffAt: row.signedOffAt,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
     });
@@ -70,6 +75,46 @@ export class ReviewTargetRepository implements IReviewTargetRepository {
         status: row.status,
         reviewSettings: row.reviewSettings as ReviewSettingsProps | null,
         reviewType: row.reviewType,
+        revisionGroupId: row.revisionGroupId,
+        revision: row.revision,
+        signedOffBy: row.signedOffBy,
+        signedOffAt: row.signedOffAt,
+        createdAt: row.createdAt,
+        updatedAt: row.updatedAt,
+      }),
+    );
+  }
+
+  /**
+   * リビジョングループに属するレビュー対象を検索
+   * リビジョン管理に対応する前のレビュー対象はrevision_group_idがnullのため、IDでも一致させる
+   */
+  async findByRevisionGroupId(
+    revisionGroupId: ReviewTargetId,
+  ): Promise<ReviewTarget[]> {
+    const result = await db
+      .select()
+      .from(reviewTargets)
+      .where(
+        or(
+          eq(reviewTargets.revisionGroupId, revisionGroupId.value),
+          eq(reviewTargets.id, revisionGroupId.value),
+        ),
+      )
+      .orderBy(asc(reviewTargets.revision));
+
+    return result.map((row) =>
+      ReviewTarget.reconstruct({
+        id: row.id,
+        reviewSpaceId: row.reviewSpaceId,
+        name: row.name,
+        status: row.status,
+        reviewSettings: row.reviewSettings as ReviewSettingsProps | null,
+        reviewType: row.reviewType,
+        revisionGroupId: row.revisionGroupId,
+        revision: row.revision,
+        signedOffBy: row.signedOffBy,
+        signedOffAt: row.signedOffAt,
         createdAt: row.createdAt,
         updatedAt: row.updatedAt,
       }),
@@ -88,6 +133,45 @@ export class ReviewTargetRepository implements IReviewTargetRepository {
     return Number(result[0]?.count ?? 0);
   }
 
+  /**
+   * 複数のレビュースペースのレビュー対象をスペースごとに集計
+   */
+  async summarizeByReviewSpaceIds(
+    reviewSpaceIds: ReviewSpaceId[],
+    recentIdLimit: number,
+  ): Promise<ReviewTargetSpaceSummaryRow[]> {
+    if (reviewSpaceIds.length === 0) {
+      return [];
+    }
+
+    const rows = await db
+      .select({
+        reviewSpaceId: reviewTargets.reviewSpaceId,
+        count: sql<number>`count(*)`,
+        lastUpdatedAt: sql<Date>`max(${reviewTargets.updatedAt})`.mapWith(
+          reviewTargets.updatedAt,
+        ),
+        recentReviewTargetIds: sql<
+          string[]
+        >`(array_agg(${reviewTargets.id}::text order by ${reviewTargets.createdAt} desc))[1:${recentIdLimit}]`,
+      })
+      .from(reviewTargets)
+      .where(
+        inArray(
+          reviewTargets.reviewSpaceId,
+          reviewSpaceIds.map((id) => id.value),
+        ),
+      )
+      .groupBy(reviewTargets.reviewSpaceId);
+
+    return rows.map((row) => ({
+      reviewSpaceId: row.reviewSpaceId,
+      reviewTargetCount: Number(row.count),
+      lastUpdatedAt: row.lastUpdatedAt,
+      recentReviewTargetIds: row.recentReviewTargetIds,
+    }));
+  }
+
   /**
    * レビュー対象を保存（新規作成または更新）
    */
@@ -99,6 +183,10 @@ export class ReviewTargetRepository implements IReviewTargetRepository {
       status: reviewTarget.status.value,
       reviewSettings: reviewTarget.reviewSettings?.toDto() ?? null,
       reviewType: reviewTarget.reviewType?.value ?? null,
+      revisionGroupId: reviewTarget.revisionGroupId.value,
+      revision: reviewTarget.revision,
+      signedOffBy: reviewTarget.signedOffBy?.value ?? null,
+      signedOffAt: reviewTarget.signedOffAt,
       createdAt: reviewTarget.createdAt,
       updatedAt: reviewTarget.updatedAt,
     };
@@ -113,11 +201,72 @@ export class ReviewTargetRepository implements IReviewTargetRepository {
           status: data.status,
           reviewSettings: data.reviewSettings,
           reviewType: data.reviewType,
+          signedOffBy: data.signedOffBy,
+          signedOffAt: data.signedOffAt,
           updatedAt: data.updatedAt,
         },
       });
   }
 
+  /**
+   * 新しいリビジョンのレビュー対象を登録
+   * リビジョングループ単位のアドバイザリロックで同時登録を直列化し、ロック下で採番する
+   */
+  async saveRevision(reviewTarget: ReviewTarget): Promise<ReviewTarget> {
+    const revisionGroupId = reviewTarget.revisionGroupId.value;
+
+    const row = await db.transaction(async (tx) => {
+      await tx.execute(
+        sql`select pg_advisory_xact_lock(hashtext(${revisionGroupId}))`,
+      );
+
+      // リビジョン管理に対応する前のレビュー対象はrevision_group_idがnullのため、IDでも一致させる
+      const [latest] = await tx
+        .select({ maxRevision: sql<number>`max(${reviewTargets.revision})` })
+        .from(reviewTargets)
+        .where(
+          or(
+            eq(reviewTargets.revisionGroupId, revisionGroupId),
+            eq(reviewTargets.id, revisionGroupId),
+          ),
+        );
+
+      const [inserted] = await tx
+        .insert(reviewTargets)
+        .values({
+          id: reviewTarget.id.value,
+          reviewSpaceId: reviewTarget.reviewSpaceId.value,
+          name: reviewTarget.name.value,
+          status: reviewTarget.status.value,
+          reviewSettings: reviewTarget.reviewSettings?.toDto() ?? null,
+          reviewType: reviewTarget.reviewType?.value ?? null,
+          revisionGroupId,
+          revision: Number(latest?.maxRevision ?? 0) + 1,
+          signedOffBy: reviewTarget.signedOffBy?.value ?? null,
+          signedOffAt: reviewTarget.signedOffAt,
+          createdAt: reviewTarget.createdAt,
+          updatedAt: reviewTarget.updatedAt,
+        })
+        .returning();
+      return inserted;
+    });
+
+    return ReviewTarget.reconstruct({
+      id: row.id,
+      reviewSpaceId: row.reviewSpaceId,
+      name: row.name,
+      status: row.status,
+      reviewSettings: row.reviewSettings as ReviewSettingsProps | null,
+      reviewType: row.reviewType,
+      revisionGroupId: row.revisionGroupId,
+      revision: row.revision,
+      signedOffBy: row.signedOffBy,
+      signedOffAt: row.signedOffAt,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    });
+  }
+
   /**
    * レビュー対象を削除
    */
@@ -1,6 +1,11 @@
 import { eq } from "drizzle-orm";
 import { ISystemSettingRepository } from "@/application/shared/port/repository";
-import { SystemSetting } from "@/domain/system-setting";
+import {
+  SystemSetting,
+  type AiProviderProps,
+  type AiModelAssignmentsDto,
+  type ModelContextWindowDto,
+} from "@/domain/system-setting";
 import { db } from "../index";
 import { systemSettings } from "@/drizzle/schema";
 
@@ -29,6 +34,11 @@ export class SystemSettingRepository implements ISystemSettingRepository {
       encryptedApiKey: row.encryptedApiKey,
       apiUrl: row.apiUrl,
       apiModel: row.apiModel,
+      rateLimitRequestsPerMinute: row.rateLimitRequestsPerMinute,
+      rateLimitTokensPerMinute: row.rateLimitTokensPerMinute,
+      aiProviders: row.aiProviders as AiProviderProps[],
+      aiModelAssignments: row.aiModelAssignments as AiModelAssignmentsDto,
+      modelContextWindows: row.modelContextWindows as ModelContextWindowDto[],
       updatedAt: row.updatedAt,
     });
   }
@@ -38,6 +48,11 @@ export class SystemSettingRepository implements ISystemSettingRepository {
    */
   async save(setting: SystemSetting): Promise<void> {
     const dto = setting.toDto();
+    const aiProviders = setting.aiProviders.map((provider) =>
+      provider.toProps(),
+    );
+    const aiModelAssignments = setting.aiModelAssignments.toDto();
+    const modelContextWindows = setting.modelContextWindows.toDto();
 
     await db
       .insert(systemSettings)
@@ -46,6 +61,11 @@ export class SystemSettingRepository implements ISystemSettingRepository {
         encryptedApiKey: setting.encryptedApiKey,
         apiUrl: dto.apiUrl,
         apiModel: dto.apiModel,
+        rateLimitRequestsPerMinute: dto.rateLimit.requestsPerMinute,
+        rateLimitTokensPerMinute: dto.rateLimit.tokensPerMinute,
+        aiProviders,
+        aiModelAssignments,
+        modelContextWindows,
         updatedAt: dto.updatedAt,
       })
       .onConflictDoUpdate({
@@ -54,6 +74,11 @@ export class SystemSettingRepository implements ISystemSettingRepository {
           encryptedApiKey: setting.encryptedApiKey,
           apiUrl: dto.apiUrl,
           apiModel: dto.apiModel,
+          rateLimitRequestsPerMinute: dto.rateLimit.requestsPerMinute,
+          rateLimitTokensPerMinute: dto.rateLimit.tokensPerMinute,
+          aiProviders,
+          aiModelAssignments,
+          modelContextWindows,
           updatedAt: dto.updatedAt,
         },
       });
@@ -0,0 +1,169 @@
+import { eq, desc, sql } from "drizzle-orm";
+import { IWebhookDeliveryRepository } from "@/application/shared/port/repository";
+import {
+  WebhookDelivery,
+  WebhookDeliveryId,
+  WebhookId,
+  WEBHOOK_DELIVERY_STATUS,
+} from "@/domain/webhook";
+import { db } from "../index";
+import {
+  webhookDeliveries,
+  type WebhookDeliveryDbEntity,
+} from "@/drizzle/schema";
+
+/**
+ * Webhook配信リポジトリ実装
+ * Drizzle ORMを使用してPostgreSQLと通信
+ */
+export class WebhookDeliveryRepository implements IWebhookDeliveryRepository {
+  /**
+   * IDで配信を取得
+   */
+  async findById(id: WebhookDeliveryId): Promise<WebhookDelivery | null> {
+    const result = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.id, id.value))
+      .limit(1);
+
+    if (result.length === 0) {
+      return null;
+    }
+
+    return this.toDomainEntity(result[0]);
+  }
+
+  /**
+   * Webhookの配信記録を取得（作成日時の降順）
+   */
+  async findByWebhookId(
+    webhookId: WebhookId,
+    limit: number,
+  ): Promise<WebhookDelivery[]> {
+    const result = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId.value))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+
+    return result.map((row) => this.toDomainEntity(row));
+  }
+
+  /**
+   * 送信予定日時を過ぎた送信待ちの配信を取得し、送信中として確保する（原子性保証）
+   * SELECT FOR UPDATE SKIP LOCKEDを使用して排他制御
+   * 次回送信予定日時の昇順でソート
+   */
+  async claimDueDeliveries(
+    limit: number,
+    leaseDurationMs: number,
+  ): Promise<WebhookDelivery[]> {
+    const now = new Date();
+    const leaseExpiresAt = new Date(now.getTime() + leaseDurationMs);
+
+    return db.transaction(async (tx) => {
+      // FOR UPDATE SKIP LOCKEDを使用して、他のインスタンスがロック中の行をスキップ
+      const deliveryRows = await tx.execute(sql`
+        SELECT ${webhookDeliveries.id} FROM ${webhookDeliveries}
+        WHERE ${webhookDeliveries.status} = ${WEBHOOK_DELIVERY_STATUS.PENDING}
+          AND ${webhookDeliveries.nextAttemptAt} <= ${now}
+        ORDER BY ${webhookDeliveries.nextAttemptAt} ASC
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      `);
+
+      const ids = (deliveryRows.rows as { id: string }[]).map((r) => r.id);
+      const claimed: WebhookDelivery[] = [];
+
+      // 送信中に他のインスタンスが再取得しないよう、次回送信予定日時をリース期間だけ先送りする
+      for (const id of ids) {
+        const [row] = await tx
+          .update(webhookDeliveries)
+          .set({ nextAttemptAt: leaseExpiresAt })
+          .where(eq(webhookDeliveries.id, id))
+          .returning();
+        if (row) {
+          claimed.push(this.toDomainEntity(row));
+        }
+      }
+
+      return claimed;
+    });
+  }
+
+  /**
+   * 配信を保存（新規作成または送信結果の更新）
+   */
+  async save(delivery: WebhookDelivery): Promise<void> {
+    const values = this.toDbValues(delivery);
+
+    await db
+      .insert(webhookDeliveries)
+      .values(values)
+      .onConflictDoUpdate({
+        target: webhookDeliveries.id,
+        set: {
+          status: values.status,
+          attemptCount: values.attemptCount,
+          nextAttemptAt: values.nextAttemptAt,
+          lastStatusCode: values.lastStatusCode,
+          lastError: values.lastError,
+          lastAttemptedAt: values.lastAttemptedAt,
+        },
+      });
+  }
+
+  /**
+   * 複数の配信を一括で新規作成
+   */
+  async saveMany(deliveries: WebhookDelivery[]): Promise<void> {
+    if (deliveries.length === 0) {
+      return;
+    }
+
+    await db
+      .insert(webhookDeliveries)
+      .values(deliveries.map((delivery) => this.toDbValues(delivery)));
+  }
+
+  /**
+   * ドメインエンティティからDB保存用の値に変換
+   */
+  private toDbValues(delivery: WebhookDelivery) {
+    const dto = delivery.toDto();
+    return {
+      id: dto.id,
+      webhookId: dto.webhookId,
+      event: dto.event,
+      payload: dto.payload,
+      status: dto.status,
+      attemptCount: dto.attemptCount,
+      nextAttemptAt: dto.nextAttemptAt,
+      lastStatusCode: dto.lastStatusCode,
+      lastError: dto.lastError,
+      lastAttemptedAt: dto.lastAttemptedAt,
+      createdAt: dto.createdAt,
+    };
+  }
+
+  /**
+   * DBエンティティからドメインエンティティに変換
+   */
+  private toDomainEntity(row: WebhookDeliveryDbEntity): WebhookDelivery {
+    return WebhookDelivery.reconstruct({
+      id: row.id,
+      webhookId: row.webhookId,
+      event: row.event,
+      payload: row.payload as Record<string, unknown>,
+      status: row.status,
+      attemptCount: row.attemptCount,
+      nextAttemptAt: row.nextAttemptAt,
+      lastStatusCode: row.lastStatusCode,
+      lastError: row.lastError,
+      lastAttemptedAt: row.lastAttemptedAt,
+      createdAt: row.createdAt,
+    });
+  }
+}
@@ -0,0 +1,107 @@
+import { eq, and, asc } from "drizzle-orm";
+import { IWebhookRepository } from "@/application/shared/port/repository";
+import { Webhook, WebhookId } from "@/domain/webhook";
+import { ProjectId } from "@/domain/project";
+import { db } from "../index";
+import { webhooks, type WebhookDbEntity } from "@/drizzle/schema";
+
+/**
+ * Webhookリポジトリ実装
+ * Drizzle ORMを使用してPostgreSQLと通信
+ */
+export class WebhookRepository implements IWebhookRepository {
+  /**
+   * IDでWebhookを取得
+   */
+  async findById(id: WebhookId): Promise<Webhook | null> {
+    const result = await db
+      .select()
+      .from(webhooks)
+      .where(eq(webhooks.id, id.value))
+      .limit(1);
+
+    if (result.length === 0) {
+      return null;
+    }
+
+    return this.toDomainEntity(result[0]);
+  }
+
+  /**
+   * プロジェクトに登録されたWebhookを取得（登録日時の昇順）
+   */
+  async findByProjectId(
+    projectId: ProjectId,
+    options?: { enabledOnly?: boolean },
+  ): Promise<Webhook[]> {
+    const conditions = [eq(webhooks.projectId, projectId.value)];
+    if (options?.enabledOnly) {
+      conditions.push(eq(webhooks.isEnabled, true));
+    }
+
+    const result = await db
+      .select()
+      .from(webhooks)
+      .where(and(...conditions))
+      .orderBy(asc(webhooks.createdAt));
+
+    return result.map((row) => this.toDomainEntity(row));
+  }
+
+  /**
+   * Webhookを保存（新規作成または更新）
+   */
+  async save(webhook: Webhook): Promise<void> {
+    const dto = webhook.toDto();
+
+    await db
+      .insert(webhooks)
+      .values({
+        id: dto.id,
+        projectId: dto.projectId,
+        reviewSpaceId: dto.reviewSpaceId,
+        name: dto.name,
+        url: dto.url,
+        events: dto.events,
+        encryptedSecret: webhook.encryptedSecret,
+        isEnabled: dto.isEnabled,
+        createdAt: dto.createdAt,
+        updatedAt: dto.updatedAt,
+      })
+      .onConflictDoUpdate({
+        target: webhooks.id,
+        set: {
+          name: dto.name,
+          url: dto.url,
+          events: dto.events,
+          isEnabled: dto.isEnabled,
+          updatedAt: dto.updatedAt,
+        },
+      });
+  }
+
+  /**
+   * Webhookを削除
+   */
+  async delete(id: WebhookId): Promise<void> {
+    await db.delete(webhooks).where(eq(webhooks.id, id.value));
+  }
+
+  /**
+   * DBエンティティからドメインエンティティに変換
+   */
+  private toDomainEntity(row: WebhookDbEntity): Webhook {
+    return Webhook.reconstruct({
+      id: row.id,
+      projectId: row.projectId,
+      reviewSpaceId: row.reviewSpaceId,
+      name: row.name,
+      url: row.url,
+      events: row.events as string[],
+      encryptedSecret: row.encryptedSecret,
+      isEnabled: row.isEnabled,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    });
+  }
+}
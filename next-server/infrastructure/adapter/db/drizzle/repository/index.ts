@@ -5,9 +5,20 @@ export { ReviewTargetRepository } from "./ReviewTargetRepository";
 export { ReviewResultRepository } from "./ReviewResultRepository";
 export { CheckListItemRepository } from "./CheckListItemRepository";
 export { ReviewDocumentCacheRepository } from "./ReviewDocumentCacheRepository";
+export { ReviewDocumentChunkRepository } from "./ReviewDocumentChunkRepository";
 export { AiTaskRepository } from "./AiTaskRepository";
 export { AiTaskFileMetadataRepository } from "./AiTaskFileMetadataRepository";
+export { AiTaskHistoryRepository } from "./AiTaskHistoryRepository";
+export { AiTokenUsageRepository } from "./AiTokenUsageRepository";
 export { QaHistoryRepository } from "./QaHistoryRepository";
+export { QaHistoryEventRepository } from "./QaHistoryEventRepository";
 export { LargeDocumentResultCacheRepository } from "./LargeDocumentResultCacheRepository";
 export { SystemSettingRepository } from "./SystemSettingRepository";
 export { SystemNotificationRepository } from "./SystemNotificationRepository";
+export { ReviewSpacePluginRepository } from "./ReviewSpacePluginRepository";
+export { NotificationRepository } from "./NotificationRepository";
+export { PersonalAccessTokenRepository } from "./PersonalAccessTokenRepository";
+export { WebhookRepository } from "./WebhookRepository";
+export { WebhookDeliveryRepository } from "./WebhookDeliveryRepository";
+export { ChecklistTemplateRepository } from "./ChecklistTemplateRepository";
+export { ReviewAnalyticsRepository } from "./ReviewAnalyticsRepository";
@@ -7,10 +7,21 @@ export {
   ReviewResultRepository,
   CheckListItemRepository,
   ReviewDocumentCacheRepository,
+  ReviewDocumentChunkRepository,
   AiTaskRepository,
   AiTaskFileMetadataRepository,
+  AiTaskHistoryRepository,
+  AiTokenUsageRepository,
   QaHistoryRepository,
+  QaHistoryEventRepository,
   LargeDocumentResultCacheRepository,
   SystemSettingRepository,
   SystemNotificationRepository,
+  ReviewSpacePluginRepository,
+  NotificationRepository,
+  PersonalAccessTokenRepository,
+  WebhookRepository,
+  WebhookDeliveryRepository,
+  ChecklistTemplateRepository,
+  ReviewAnalyticsRepository,
 } from "./drizzle/repository";
@@ -0,0 +1,126 @@
+import path from "path";
+import {
+  createIsomorphicCanvasFactory,
+  getDocumentProxy,
+  renderPageAsImage,
+} from "unpdf";
+import type {
+  DocumentRenderOptions,
+  DocumentRenderResult,
+  IDocumentRenderer,
+} from "@/application/shared/port/documentRenderer";
+import {
+  DEFAULT_RENDER_SCALE,
+  MAX_RENDER_SCALE,
+  MIN_RENDER_SCALE,
+  parsePageRange,
+} from "@/lib/shared/pageRange";
+import { internalError } from "@/lib/server/error";
+import { OfficeDocumentConverter } from "./OfficeDocumentConverter";
+
+/**
+ * 描画に使用するcanvas実装の読み込み
+ */
+const canvasImport = () => import("@napi-rs/canvas");
+
+/**
+ * 利用者に原因を示す画像変換エラーを作成する
+ */
+const renderError = (detail: string) =>
+  internalError({
+    expose: true,
+    messageCode: "DOCUMENT_RENDER_FAILED",
+    messageParams: { detail },
+  });
+
+/**
+ * 1ファイルあたりに画像変換できる最大ページ数を取得
+ * 環境変数DOCUMENT_RENDER_MAX_PAGESで設定可能（デフォルト: 100）
+ */
+export const getDocumentRenderMaxPages = (): number => {
+  const maxPages = parseInt(process.env.DOCUMENT_RENDER_MAX_PAGES || "100", 10);
+  return isNaN(maxPages) || maxPages < 1 ? 100 : maxPages;
+};
+
+/**
+ * サーバー側でのドキュメント画像変換の実装
+ * PDFはunpdf（pdf.js）と@napi-rs/canvasでページごとにPNGへ描画する
+ * Office文書はLibreOfficeでPDFに変換してから描画する
+ */
+export class DocumentRenderer implements IDocumentRenderer {
+  constructor(
+    private readonly officeConverter: OfficeDocumentConverter = new OfficeDocumentConverter(),
+  ) {}
+
+  async isSupported(extension: string): Promise<boolean> {
+    const ext = extension.toLowerCase();
+    if (ext === ".pdf") {
+      return true;
+    }
+    if (!this.officeConverter.getSupportedExtensions().includes(ext)) {
+      return false;
+    }
+    return this.officeConverter.isAvailable();
+  }
+
+  async getSupportedExtensions(): Promise<string[]> {
+    return (await this.officeConverter.isAvailable())
+      ? [".pdf", ...this.officeConverter.getSupportedExtensions()]
+      : [".pdf"];
+  }
+
+  async render(
+    buffer: Buffer,
+    fileName: string,
+    options?: DocumentRenderOptions,
+  ): Promise<DocumentRenderResult> {
+    const ext = path.extname(fileName).toLowerCase();
+    if (!(await this.isSupported(ext))) {
+      throw renderError(`画像変換に対応していないファイル形式です: ${ext}`);
+    }
+
+    const pdfBuffer =
+      ext === ".pdf"
+        ? buffer
+        : await this.officeConverter.convertToPdf(buffer, fileName);
+
+    // ページの描画にはcanvasが必要なため、canvasの生成方法を指定して読み込む
+    const pdf = await getDocumentProxy(new Uint8Array(pdfBuffer), {
+      CanvasFactory: await createIsomorphicCanvasFactory(canvasImport),
+    });
+    try {
+      const totalPages = pdf.numPages;
+      const pageNumbers = parsePageRange(options?.pageRange, totalPages);
+      if (pageNumbers.length === 0) {
+        throw renderError(
+          `指定されたページ範囲に該当するページがありません（総ページ数: ${totalPages}）`,
+        );
+      }
+
+      const maxPages = getDocumentRenderMaxPages();
+      if (pageNumbers.length > maxPages) {
+        throw renderError(
+          `画像変換できるページ数の上限（${maxPages}ページ）を超えています。ページ範囲を指定してください`,
+        );
+      }
+
+      const scale = Math.min(
+        Math.max(options?.scale ?? DEFAULT_RENDER_SCALE, MIN_RENDER_SCALE),
+        MAX_RENDER_SCALE,
+      );
+
+      const images: Buffer[] = [];
+      for (const pageNumber of pageNumbers) {
+        const image = await renderPageAsImage(pdf, pageNumber, {
+          canvasImport,
+          scale,
+        });
+        images.push(Buffer.from(image));
+      }
+
+      return { images, pageNumbers, totalPages };
+    } finally {
+      await pdf.destroy();
+    }
+  }
+}
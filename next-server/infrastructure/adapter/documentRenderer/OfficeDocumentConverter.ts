@@ -0,0 +1,123 @@
+import { execFile } from "child_process";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Office文書をPDFに変換するコマンドを取得
+ * 環境変数OFFICE_CONVERTER_PATHで設定可能（デフォルト: soffice）
+ */
+export const getOfficeConverterPath = (): string => {
+  return process.env.OFFICE_CONVERTER_PATH || "soffice";
+};
+
+/**
+ * Office文書の変換タイムアウトを取得（ミリ秒）
+ * 環境変数OFFICE_CONVERTER_TIMEOUT_MSで設定可能（デフォルト: 120000ms）
+ */
+export const getOfficeConverterTimeoutMs = (): number => {
+  const timeout = parseInt(
+    process.env.OFFICE_CONVERTER_TIMEOUT_MS || "120000",
+    10,
+  );
+  return isNaN(timeout) || timeout < 1000 ? 120000 : timeout;
+};
+
+/**
+ * 変換ツールの有無を確認する際のタイムアウト（ミリ秒）
+ */
+const AVAILABILITY_CHECK_TIMEOUT_MS = 10000;
+
+/**
+ * LibreOfficeによるOffice文書のPDF変換
+ * サーバーにLibreOfficeがインストールされている場合のみ利用できる
+ * 変換ごとに一時ディレクトリとユーザープロファイルを作成し、同時実行時の競合を避ける
+ */
+export class OfficeDocumentConverter {
+  /** 変換ツールの有無の確認結果（プロセス内で1度だけ確認する） */
+  private static availability: Promise<boolean> | null = null;
+
+  /**
+   * 変換に対応する拡張子を返す
+   */
+  getSupportedExtensions(): string[] {
+    return [
+      ".docx",
+      ".doc",
+      ".pptx",
+      ".ppt",
+      ".xlsx",
+      ".xls",
+      ".odt",
+      ".odp",
+      ".ods",
+    ];
+  }
+
+  /**
+   * 変換ツールが利用可能かどうかを確認する
+   * @returns コマンドを実行できた場合true
+   */
+  isAvailable(): Promise<boolean> {
+    if (!OfficeDocumentConverter.availability) {
+      OfficeDocumentConverter.availability = execFileAsync(
+        getOfficeConverterPath(),
+        ["--version"],
+        { timeout: AVAILABILITY_CHECK_TIMEOUT_MS },
+      ).then(
+        () => true,
+        () => false,
+      );
+    }
+    return OfficeDocumentConverter.availability;
+  }
+
+  /**
+   * Office文書をPDFに変換する
+   * @param buffer ファイルのバイナリデータ
+   * @param fileName ファイル名（拡張子の判定に使用）
+   * @returns PDFのバイナリデータ
+   * @throws 変換ツールの実行に失敗した場合
+   */
+  async convertToPdf(buffer: Buffer, fileName: string): Promise<Buffer> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "office-convert-"));
+    const inputPath = path.join(
+      workDir,
+      `input${path.extname(fileName).toLowerCase()}`,
+    );
+
+    try {
+      await fs.writeFile(inputPath, buffer);
+      try {
+        await execFileAsync(
+          getOfficeConverterPath(),
+          [
+            `-env:UserInstallation=${pathToFileURL(path.join(workDir, "profile")).href}`,
+            "--headless",
+            "--convert-to",
+            "pdf",
+            "--outdir",
+            workDir,
+            inputPath,
+          ],
+          { timeout: getOfficeConverterTimeoutMs() },
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Office文書のPDF変換に失敗しました: ${message}`);
+      }
+
+      try {
+        return await fs.readFile(path.join(workDir, "input.pdf"));
+      } catch {
+        throw new Error("Office文書のPDF変換結果が見つかりませんでした");
+      }
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { DocumentRenderer } from "../DocumentRenderer";
+import type { OfficeDocumentConverter } from "../OfficeDocumentConverter";
+
+// モック用の関数
+const mockGetDocumentProxy = vi.fn();
+const mockRenderPageAsImage = vi.fn();
+
+// unpdfのモック
+vi.mock("unpdf", () => ({
+  getDocumentProxy: (data: Uint8Array) => mockGetDocumentProxy(data),
+  createIsomorphicCanvasFactory: vi.fn().mockResolvedValue(class {}),
+  renderPageAsImage: (
+    pdf: unknown,
+    pageNumber: number,
+    options: { scale?: number },
+  ) => mockRenderPageAsImage(pdf, pageNumber, options),
+}));
+
+/**
+ * テスト用のPDFドキュメントプロキシを作成するヘルパー関数
+ */
+function createMockPdf(numPages: number) {
+  return { numPages, destroy: vi.fn().mockResolvedValue(undefined) };
+}
+
+/**
+ * テスト用のOffice文書変換を作成するヘルパー関数
+ */
+function createMockConverter(available: boolean) {
+  return {
+    getSupportedExtensions: () => [".docx", ".pptx", ".xlsx"],
+    isAvailable: vi.fn().mockResolvedValue(available),
+    convertToPdf: vi.fn().mockResolvedValue(Buffer.from("converted pdf")),
+  } as unknown as OfficeDocumentConverter & {
+    isAvailable: ReturnType<typeof vi.fn>;
+    convertToPdf: ReturnType<typeof vi.fn>;
+  };
+}
+
+describe("DocumentRenderer", () => {
+  const originalMaxPages = process.env.DOCUMENT_RENDER_MAX_PAGES;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRenderPageAsImage.mockImplementation(
+      async (_pdf: unknown, pageNumber: number) =>
+        new TextEncoder().encode(`page${pageNumber}`).buffer,
+    );
+  });
+
+  afterEach(() => {
+    if (originalMaxPages === undefined) {
+      delete process.env.DOCUMENT_RENDER_MAX_PAGES;
+    } else {
+      process.env.DOCUMENT_RENDER_MAX_PAGES = originalMaxPages;
+    }
+  });
+
+  describe("isSupported", () => {
+    it("PDFは常に対応する", async () => {
+      const renderer = new DocumentRenderer(createMockConverter(false));
+      expect(await renderer.isSupported(".pdf")).toBe(true);
+      expect(await renderer.isSupported(".PDF")).toBe(true);
+    });
+
+    it("Office文書は変換ツールがある場合のみ対応する", async () => {
+      expect(
+        await new DocumentRenderer(createMockConverter(true)).isSupported(
+          ".pptx",
+        ),
+      ).toBe(true);
+      expect(
+        await new DocumentRenderer(createMockConverter(false)).isSupported(
+          ".pptx",
+        ),
+      ).toBe(false);
+    });
+
+    it("画像変換の対象外の形式は対応しない", async () => {
+      const renderer = new DocumentRenderer(createMockConverter(true));
+      expect(await renderer.isSupported(".txt")).toBe(false);
+    });
+  });
+
+  describe("getSupportedExtensions", () => {
+    it("変換ツールがある場合はOffice文書の拡張子も返す", async () => {
+      const renderer = new DocumentRenderer(createMockConverter(true));
+      expect(await renderer.getSupportedExtensions()).toEqual([
+        ".pdf",
+        ".docx",
+        ".pptx",
+        ".xlsx",
+      ]);
+    });
+
+    it("変換ツールがない場合はPDFのみを返す", async () => {
+      const renderer = new DocumentRenderer(createMockConverter(false));
+      expect(await renderer.getSupportedExtensions()).toEqual([".pdf"]);
+    });
+  });
+
+  describe("render", () => {
+    it("PDFの全ページを画像に変換する", async () => {
+      const mockPdf = createMockPdf(3);
+      mockGetDocumentProxy.mockResolvedValueOnce(mockPdf);
+      const renderer = new DocumentRenderer(createMockConverter(false));
+
+      const result = await renderer.render(Buffer.from("pdf"), "doc.pdf");
+
+      expect(result.totalPages).toBe(3);
+      expect(result.pageNumbers).toEqual([1, 2, 3]);
+      expect(result.images.map((image) => image.toString())).toEqual([
+        "page1",
+        "page2",
+        "page3",
+      ]);
+      expect(mockRenderPageAsImage).toHaveBeenCalledWith(
+        mockPdf,
+        1,
+        expect.objectContaining({ scale: 2 }),
+      );
+      expect(mockPdf.destroy).toHaveBeenCalled();
+    });
+
+    it("ページ範囲と解像度を指定して変換する", async () => {
+      mockGetDocumentProxy.mockResolvedValueOnce(createMockPdf(10));
+      const renderer = new DocumentRenderer(createMockConverter(false));
+
+      const result = await renderer.render(Buffer.from("pdf"), "doc.pdf", {
+        pageRange: "2-3,9-",
+        scale: 1.5,
+      });
+
+      expect(result.pageNumbers).toEqual([2, 3, 9, 10]);
+      expect(result.images).toHaveLength(4);
+      expect(result.totalPages).toBe(10);
+      expect(mockRenderPageAsImage).toHaveBeenCalledWith(
+        expect.anything(),
+        9,
+        expect.objectContaining({ scale: 1.5 }),
+      );
+    });
+
+    it("解像度は上限・下限の範囲に収める", async () => {
+      mockGetDocumentProxy.mockResolvedValueOnce(createMockPdf(1));
+      const renderer = new DocumentRenderer(createMockConverter(false));
+
+      await renderer.render(Buffer.from("pdf"), "doc.pdf", { scale: 10 });
+
+      expect(mockRenderPageAsImage).toHaveBeenCalledWith(
+        expect.anything(),
+        1,
+        expect.objectContaining({ scale: 3 }),
+      );
+    });
+
+    it("Office文書はPDFに変換してから画像に変換する", async () => {
+      mockGetDocumentProxy.mockResolvedValueOnce(createMockPdf(2));
+      const converter = createMockConverter(true);
+      const renderer = new DocumentRenderer(converter);
+      const buffer = Buffer.from("pptx");
+
+      const result = await renderer.render(buffer, "slides.pptx");
+
+      expect(converter.convertToPdf).toHaveBeenCalledWith(
+        buffer,
+        "slides.pptx",
+      );
+      expect(mockGetDocumentProxy).toHaveBeenCalledWith(
+        new Uint8Array(Buffer.from("converted pdf")),
+      );
+      expect(result.pageNumbers).toEqual([1, 2]);
+    });
+
+    it("対応していない形式の場合はエラーになる", async () => {
+      const renderer = new DocumentRenderer(createMockConverter(false));
+
+      await expect(
+        renderer.render(Buffer.from("docx"), "doc.docx"),
+      ).rejects.toThrow("画像変換に対応していないファイル形式です: .docx");
+      expect(mockGetDocumentProxy).not.toHaveBeenCalled();
+    });
+
+    it("ページ範囲に該当するページがない場合はエラーになる", async () => {
+      const mockPdf = createMockPdf(3);
+      mockGetDocumentProxy.mockResolvedValueOnce(mockPdf);
+      const renderer = new DocumentRenderer(createMockConverter(false));
+
+      await expect(
+        renderer.render(Buffer.from("pdf"), "doc.pdf", { pageRange: "5-" }),
+      ).rejects.toThrow("指定されたページ範囲に該当するページがありません");
+      expect(mockPdf.destroy).toHaveBeenCalled();
+    });
+
+    it("最大ページ数を超える場合はエラーになる", async () => {
+      process.env.DOCUMENT_RENDER_MAX_PAGES = "2";
+      mockGetDocumentProxy.mockResolvedValueOnce(createMockPdf(3));
+      const renderer = new DocumentRenderer(createMockConverter(false));
+
+      await expect(
+        renderer.render(Buffer.from("pdf"), "doc.pdf"),
+      ).rejects.toThrow(
+        "画像変換できるページ数の上限（2ページ）を超えています",
+      );
+      expect(mockRenderPageAsImage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,78 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { OfficeDocumentConverter } from "../OfficeDocumentConverter";
+
+describe("OfficeDocumentConverter", () => {
+  const originalPath = process.env.OFFICE_CONVERTER_PATH;
+  let scriptDir: string;
+
+  beforeAll(async () => {
+    scriptDir = await fs.mkdtemp(path.join(os.tmpdir(), "converter-test-"));
+
+    // LibreOfficeの代わりに、入力ファイルの内容に接頭辞を付けてPDFとして出力するスクリプト
+    await fs.writeFile(
+      path.join(scriptDir, "fake-soffice"),
+      [
+        "#!/bin/sh",
+        'for arg; do last="$arg"; done',
+        'while [ "$#" -gt 0 ]; do',
+        '  if [ "$1" = "--outdir" ]; then outdir="$2"; fi',
+        "  shift",
+        "done",
+        'base=$(basename "$last")',
+        '{ printf "PDF:"; cat "$last"; } > "$outdir/${base%.*}.pdf"',
+      ].join("\n"),
+      { mode: 0o755 },
+    );
+    await fs.writeFile(
+      path.join(scriptDir, "failing-soffice"),
+      "#!/bin/sh\nexit 1\n",
+      {
+        mode: 0o755,
+      },
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(scriptDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    if (originalPath === undefined) {
+      delete process.env.OFFICE_CONVERTER_PATH;
+    } else {
+      process.env.OFFICE_CONVERTER_PATH = originalPath;
+    }
+  });
+
+  it("変換ツールの出力したPDFを返す", async () => {
+    process.env.OFFICE_CONVERTER_PATH = path.join(scriptDir, "fake-soffice");
+    const converter = new OfficeDocumentConverter();
+
+    const pdf = await converter.convertToPdf(
+      Buffer.from("slides"),
+      "発表資料.PPTX",
+    );
+
+    expect(pdf.toString()).toBe("PDF:slides");
+  });
+
+  it("変換ツールが失敗した場合はエラーになる", async () => {
+    process.env.OFFICE_CONVERTER_PATH = path.join(scriptDir, "failing-soffice");
+    const converter = new OfficeDocumentConverter();
+
+    await expect(
+      converter.convertToPdf(Buffer.from("doc"), "doc.docx"),
+    ).rejects.toThrow("Office文書のPDF変換に失敗しました");
+  });
+
+  it("Word・PowerPoint・Excel形式に対応する", () => {
+    const converter = new OfficeDocumentConverter();
+    expect(converter.getSupportedExtensions()).toEqual(
+      expect.arrayContaining([".docx", ".pptx", ".xlsx"]),
+    );
+  });
+});
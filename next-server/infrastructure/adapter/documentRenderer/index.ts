@@ -0,0 +1,5 @@
+// ドキュメント画像変換インフラ層
+// アプリケーション層インターフェースの実装
+
+export { DocumentRenderer } from "./DocumentRenderer";
+export { OfficeDocumentConverter } from "./OfficeDocumentConverter";
@@ -0,0 +1,89 @@
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import type {
+  EmbedOptions,
+  EmbedResult,
+  IEmbeddingProvider,
+} from "@/application/shared/port/embedding";
+
+/**
+ * 1回のAPI呼び出しで送信するテキスト数の上限
+ */
+const EMBEDDING_BATCH_SIZE = 64;
+
+/**
+ * 埋め込みAPIの接続設定
+ */
+export interface EmbeddingApiConfig {
+  /** APIのベースURL（例: https://api.openai.com/v1） */
+  apiUrl: string;
+  /** APIキー（Ollamaなどのローカルサーバーでは省略可） */
+  apiKey?: string;
+  /** 埋め込みモデル名 */
+  model: string;
+}
+
+/**
+ * 環境変数から埋め込みAPIの接続設定を取得
+ * EMBEDDING_API_MODELが未設定の場合は意味検索を使用しない（null）
+ * URL・APIキーは未設定の場合AI_API_URL・AI_API_KEYを使用する
+ */
+export const getEmbeddingApiConfig = (): EmbeddingApiConfig | null => {
+  const model = process.env.EMBEDDING_API_MODEL;
+  const apiUrl = process.env.EMBEDDING_API_URL || process.env.AI_API_URL;
+  if (!model || !apiUrl) {
+    return null;
+  }
+  return {
+    apiUrl,
+    apiKey: process.env.EMBEDDING_API_KEY || process.env.AI_API_KEY,
+    model,
+  };
+};
+
+/**
+ * OpenAI互換APIによる埋め込みベクトル生成
+ * OpenAI・Ollama・vLLMなど、/embeddingsエンドポイントを持つサーバーに対応する
+ */
+export class OpenAICompatibleEmbeddingProvider implements IEmbeddingProvider {
+  readonly modelId: string;
+  readonly apiKey: string | null;
+  readonly maxTextsPerCall: number;
+  private readonly model;
+
+  constructor(config: EmbeddingApiConfig) {
+    this.modelId = config.model;
+    this.apiKey = config.apiKey ?? null;
+    this.model = createOpenAICompatible({
+      name: "openAICompatibleEmbedding",
+      apiKey: config.apiKey,
+      baseURL: config.apiUrl,
+    }).textEmbeddingModel(config.model);
+    this.maxTextsPerCall = Math.min(
+      EMBEDDING_BATCH_SIZE,
+      this.model.maxEmbeddingsPerCall ?? EMBEDDING_BATCH_SIZE,
+    );
+  }
+
+  /**
+   * テキストの埋め込みベクトルを生成
+   */
+  async embed(texts: string[], options?: EmbedOptions): Promise<EmbedResult> {
+    const result = await this.model.doEmbed({
+      values: texts,
+      abortSignal: options?.abortSignal,
+    });
+    return {
+      embeddings: result.embeddings,
+      tokens: result.usage?.tokens ?? null,
+    };
+  }
+}
+
+/**
+ * 環境変数の設定から埋め込みベクトル生成を作成する
+ * @returns 埋め込みベクトル生成、未設定の場合はnull
+ */
+export function createEmbeddingProvider(): IEmbeddingProvider | null {
+  const config = getEmbeddingApiConfig();
+  return config ? new OpenAICompatibleEmbeddingProvider(config) : null;
+}
@@ -0,0 +1,81 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  OpenAICompatibleEmbeddingProvider,
+  createEmbeddingProvider,
+  getEmbeddingApiConfig,
+} from "../OpenAICompatibleEmbeddingProvider";
+
+describe("getEmbeddingApiConfig", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("EMBEDDING_API_MODELが未設定の場合はnullを返す", () => {
+    vi.stubEnv("EMBEDDING_API_MODEL", "");
+    vi.stubEnv("EMBEDDING_API_URL", "http://localhost:11434/v1");
+
+    expect(getEmbeddingApiConfig()).toBeNull();
+    expect(createEmbeddingProvider()).toBeNull();
+  });
+
+  it("URL・APIキーが未設定の場合はAI_API_URL・AI_API_KEYを使用する", () => {
+    vi.stubEnv("EMBEDDING_API_MODEL", "text-embedding-3-small");
+    vi.stubEnv("EMBEDDING_API_URL", "");
+    vi.stubEnv("EMBEDDING_API_KEY", "");
+    vi.stubEnv("AI_API_URL", "https://api.example.com/v1");
+    vi.stubEnv("AI_API_KEY", "ai-key");
+
+    expect(getEmbeddingApiConfig()).toEqual({
+      apiUrl: "https://api.example.com/v1",
+      apiKey: "ai-key",
+      model: "text-embedding-3-small",
+    });
+  });
+});
+
+describe("OpenAICompatibleEmbeddingProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("埋め込みAPIを呼び出し、入力順のベクトルと使用トークン数を返す", async () => {
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string) as { input: string[] };
+      return new Response(
+        JSON.stringify({
+          data: body.input.map((text, index) => ({
+            index,
+            embedding: [text.length, index],
+          })),
+          usage: { prompt_tokens: 12 },
+        }),
+        { status: 200, headers: { "Content-Type": "application/json" } },
+      );
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = new OpenAICompatibleEmbeddingProvider({
+      apiUrl: "https://api.example.com/v1",
+      apiKey: "test-key",
+      model: "text-embedding-3-small",
+    });
+
+    const result = await provider.embed(["x", "xx"]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      "https://api.example.com/v1/embeddings",
+    );
+    expect(result).toEqual({
+      embeddings: [
+        [1, 0],
+        [2, 1],
+      ],
+      tokens: 12,
+    });
+    expect(provider.modelId).toBe("text-embedding-3-small");
+    expect(provider.apiKey).toBe("test-key");
+    expect(provider.maxTextsPerCall).toBe(64);
+  });
+});
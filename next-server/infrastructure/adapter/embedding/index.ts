@@ -0,0 +1,9 @@
+// 埋め込みベクトル生成インフラ層
+// アプリケーション層インターフェースの実装
+
+export {
+  OpenAICompatibleEmbeddingProvider,
+  createEmbeddingProvider,
+  getEmbeddingApiConfig,
+} from "./OpenAICompatibleEmbeddingProvider";
+export type { EmbeddingApiConfig } from "./OpenAICompatibleEmbeddingProvider";
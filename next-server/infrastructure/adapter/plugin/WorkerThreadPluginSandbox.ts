@@ -0,0 +1,239 @@
+import { Worker } from "worker_threads";
+import type {
+  IPluginSandbox,
+  PluginManifest,
+  PluginSandboxOptions,
+  PluginSandboxResult,
+} from "@/application/shared/port/plugin";
+import {
+  PluginHookPoint,
+  type PluginHookPointValue,
+} from "@/domain/reviewSpacePlugin";
+import { getLogger } from "@/lib/server/logger";
+
+const logger = getLogger();
+
+/**
+ * ワーカーのヒープ上限（MB）
+ * プラグインが巨大なデータを生成してホストを圧迫することを防ぐ
+ */
+const WORKER_MAX_OLD_GENERATION_SIZE_MB = 256;
+
+/**
+ * ワーカー起動にかかる時間の猶予（ミリ秒）
+ * プラグイン自体のタイムアウトにこの値を加えた時間でワーカーを強制終了する
+ */
+const WORKER_STARTUP_GRACE_MS = 1000;
+
+/**
+ * ワーカー内で実行するスクリプト
+ * - プラグインはnullプロトタイプのvmコンテキストで評価し、require/process等のホストオブジェクトを渡さない
+ * - eval/new Functionによる動的コード生成は禁止する
+ * - 入出力はJSON文字列（プリミティブ）のみでやり取りし、ホスト側オブジェクトへの参照を持ち込ませない
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("worker_threads");
+const vm = require("vm");
+
+const { script, mode, hookPoint, inputJson, timeoutMs } = workerData;
+
+const run = async () => {
+  const context = vm.createContext(Object.create(null), {
+    codeGeneration: { strings: false, wasm: false },
+  });
+  const loader = new vm.Script(
+    "(function () {\\n" +
+      "  const module = { exports: {} };\\n" +
+      "  (function (module, exports) {\\n" +
+      script +
+      "\\n  })(module, module.exports);\\n" +
+      "  globalThis.__plugin = module.exports;\\n" +
+      "})();",
+    { filename: "plugin.js" },
+  );
+  loader.runInContext(context, { timeout: timeoutMs });
+
+  if (mode === "inspect") {
+    return vm.runInContext(
+      "(function () {\\n" +
+        "  const p = globalThis.__plugin || {};\\n" +
+        "  const hooks = p.hooks && typeof p.hooks === 'object' ? p.hooks : {};\\n" +
+        "  return JSON.stringify({\\n" +
+        "    name: typeof p.name === 'string' ? p.name : null,\\n" +
+        "    hookPoints: Object.keys(hooks).filter(function (k) { return typeof hooks[k] === 'function'; }),\\n" +
+        "    extensions: Array.isArray(p.extensions) ? p.extensions.filter(function (e) { return typeof e === 'string'; }) : [],\\n" +
+        "  });\\n" +
+        "})()",
+      context,
+      { timeout: timeoutMs },
+    );
+  }
+
+  context.__hookPoint = hookPoint;
+  context.__input = inputJson;
+  return await vm.runInContext(
+    "(async function () {\\n" +
+      "  const p = globalThis.__plugin || {};\\n" +
+      "  const hook = p.hooks ? p.hooks[globalThis.__hookPoint] : undefined;\\n" +
+      "  if (typeof hook !== 'function') return 'null';\\n" +
+      "  const result = await hook(JSON.parse(globalThis.__input));\\n" +
+      "  return JSON.stringify(result === undefined ? null : result);\\n" +
+      "})()",
+    context,
+    { timeout: timeoutMs },
+  );
+};
+
+run().then(
+  (outputJson) => parentPort.postMessage({ status: "success", outputJson: String(outputJson) }),
+  (error) => {
+    if (error && error.code === "ERR_SCRIPT_EXECUTION_TIMEOUT") {
+      parentPort.postMessage({ status: "timeout" });
+      return;
+    }
+    parentPort.postMessage({
+      status: "error",
+      errorMessage: error && typeof error.message === "string" ? error.message : String(error),
+    });
+  },
+);
+`;
+
+interface WorkerResponse {
+  status: "success" | "error" | "timeout";
+  outputJson?: string;
+  errorMessage?: string;
+}
+
+/**
+ * worker_threadsとvmを用いたプラグインサンドボックス実装
+ * 1回の実行ごとにワーカーを起動し、タイムアウト時はワーカーごと強制終了する
+ * （vmのtimeoutは同期処理のみが対象のため、非同期処理の無限待ちもワーカー終了で打ち切る）
+ */
+export class WorkerThreadPluginSandbox implements IPluginSandbox {
+  /**
+   * スクリプトを読み込み、宣言内容を取得する
+   */
+  async inspect(
+    script: string,
+    options: PluginSandboxOptions,
+  ): Promise<PluginSandboxResult<PluginManifest>> {
+    const result = await this.runWorker(script, "inspect", null, null, options);
+    if (result.status !== "success") {
+      return result;
+    }
+
+    const raw = result.output as {
+      name: string | null;
+      hookPoints: string[];
+      extensions: string[];
+    };
+    return {
+      status: "success",
+      output: {
+        name: raw.name,
+        // 未知のキーはフックとして扱わない
+        hookPoints: raw.hookPoints.filter((hp): hp is PluginHookPointValue =>
+          PluginHookPoint.isValid(hp),
+        ),
+        extensions: raw.extensions,
+      },
+    };
+  }
+
+  /**
+   * 指定フックを実行する
+   */
+  async invoke(
+    script: string,
+    hookPoint: PluginHookPointValue,
+    input: unknown,
+    options: PluginSandboxOptions,
+  ): Promise<PluginSandboxResult<unknown>> {
+    return this.runWorker(
+      script,
+      "invoke",
+      hookPoint,
+      JSON.stringify(input),
+      options,
+    );
+  }
+
+  /**
+   * ワーカーを起動して結果を待つ
+   */
+  private runWorker(
+    script: string,
+    mode: "inspect" | "invoke",
+    hookPoint: PluginHookPointValue | null,
+    inputJson: string | null,
+    options: PluginSandboxOptions,
+  ): Promise<PluginSandboxResult<unknown>> {
+    return new Promise((resolve) => {
+      let settled = false;
+      const worker = new Worker(WORKER_SOURCE, {
+        eval: true,
+        workerData: {
+          script,
+          mode,
+          hookPoint,
+          inputJson,
+          timeoutMs: options.timeoutMs,
+        },
+        resourceLimits: {
+          maxOldGenerationSizeMb: WORKER_MAX_OLD_GENERATION_SIZE_MB,
+        },
+        stdout: true,
+        stderr: true,
+      });
+
+      const settle = (result: PluginSandboxResult<unknown>) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        worker.terminate().catch((error) => {
+          logger.warn({ err: error }, "プラグインワーカーの終了に失敗しました");
+        });
+        resolve(result);
+      };
+
+      const timer = setTimeout(() => {
+        settle({ status: "timeout" });
+      }, options.timeoutMs + WORKER_STARTUP_GRACE_MS);
+
+      worker.on("message", (message: WorkerResponse) => {
+        if (message.status === "timeout") {
+          settle({ status: "timeout" });
+          return;
+        }
+        if (message.status === "error") {
+          settle({
+            status: "error",
+            errorMessage: message.errorMessage ?? "unknown error",
+          });
+          return;
+        }
+        try {
+          settle({
+            status: "success",
+            output: JSON.parse(message.outputJson ?? "null"),
+          });
+        } catch {
+          settle({ status: "error", errorMessage: "invalid plugin output" });
+        }
+      });
+
+      worker.on("error", (error) => {
+        settle({ status: "error", errorMessage: error.message });
+      });
+
+      // 結果を返さずに終了した場合（解決されないPromiseを返した等）
+      worker.on("exit", (code) => {
+        settle({
+          status: "error",
+          errorMessage: `plugin finished without result (exit code: ${code})`,
+        });
+      });
+    });
+  }
+}
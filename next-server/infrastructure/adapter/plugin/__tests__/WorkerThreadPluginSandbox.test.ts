@@ -0,0 +1,191 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from "vitest";
+import { WorkerThreadPluginSandbox } from "../WorkerThreadPluginSandbox";
+
+vi.mock("@/lib/server/logger", () => ({
+  getLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+describe("WorkerThreadPluginSandbox", () => {
+  const sandbox = new WorkerThreadPluginSandbox();
+  const options = { timeoutMs: 2000 };
+
+  const upperCasePlugin = `
+    module.exports = {
+      name: "upper",
+      extensions: [".src"],
+      hooks: {
+        afterExtraction(input) {
+          return { textContent: input.textContent.toUpperCase() };
+        },
+        async afterResults(input) {
+          return { results: input.results.slice(0, 1) };
+        },
+        unknownHook() {},
+      },
+    };
+  `;
+
+  describe("inspect", () => {
+    it("プラグインの宣言内容を取得できる", async () => {
+      const result = await sandbox.inspect(upperCasePlugin, options);
+
+      expect(result).toEqual({
+        status: "success",
+        output: {
+          name: "upper",
+          hookPoints: ["afterExtraction", "afterResults"],
+          extensions: [".src"],
+        },
+      });
+    });
+
+    it("構文エラーのスクリプトはerrorを返す", async () => {
+      const result = await sandbox.inspect("module.exports = {", options);
+
+      expect(result.status).toBe("error");
+    });
+  });
+
+  describe("invoke", () => {
+    it("同期フックの戻り値を取得できる", async () => {
+      const result = await sandbox.invoke(
+        upperCasePlugin,
+        "afterExtraction",
+        { fileName: "a.src", textContent: "abc" },
+        options,
+      );
+
+      expect(result).toEqual({
+        status: "success",
+        output: { textContent: "ABC" },
+      });
+    });
+
+    it("非同期フックの戻り値を取得できる", async () => {
+      const result = await sandbox.invoke(
+        upperCasePlugin,
+        "afterResults",
+        { results: [{ a: 1 }, { a: 2 }] },
+        options,
+      );
+
+      expect(result).toEqual({
+        status: "success",
+        output: { results: [{ a: 1 }] },
+      });
+    });
+
+    it("未定義のフックはnullを返す", async () => {
+      const result = await sandbox.invoke(
+        upperCasePlugin,
+        "beforeExtraction",
+        {},
+        options,
+      );
+
+      expect(result).toEqual({ status: "success", output: null });
+    });
+
+    it("同期的な無限ループはタイムアウトする", async () => {
+      const script = `module.exports = { hooks: { afterExtraction() { while (true) {} } } };`;
+
+      const result = await sandbox.invoke(
+        script,
+        "afterExtraction",
+        {},
+        { timeoutMs: 200 },
+      );
+
+      expect(result).toEqual({ status: "timeout" });
+    });
+
+    it("非同期の無限ループはタイムアウトする", async () => {
+      const script = `module.exports = { hooks: { async afterExtraction() { while (true) { await null; } } } };`;
+
+      const result = await sandbox.invoke(
+        script,
+        "afterExtraction",
+        {},
+        { timeoutMs: 200 },
+      );
+
+      expect(result).toEqual({ status: "timeout" });
+    });
+
+    it("解決しないPromiseはerrorを返す", async () => {
+      const script = `module.exports = { hooks: { afterExtraction() { return new Promise(() => {}); } } };`;
+
+      const result = await sandbox.invoke(
+        script,
+        "afterExtraction",
+        {},
+        { timeoutMs: 200 },
+      );
+
+      expect(result.status).toBe("error");
+    });
+
+    it("フック内の例外はerrorとして返す", async () => {
+      const script = `module.exports = { hooks: { afterExtraction() { throw new Error("boom"); } } };`;
+
+      const result = await sandbox.invoke(
+        script,
+        "afterExtraction",
+        {},
+        options,
+      );
+
+      expect(result).toEqual({ status: "error", errorMessage: "boom" });
+    });
+  });
+
+  describe("隔離", () => {
+    it("require/processにアクセスできない", async () => {
+      const script = `module.exports = { hooks: { afterExtraction() {
+        return {
+          require: typeof require,
+          process: typeof process,
+          globalProcess: typeof globalThis.process,
+        };
+      } } };`;
+
+      const result = await sandbox.invoke(
+        script,
+        "afterExtraction",
+        {},
+        options,
+      );
+
+      expect(result).toEqual({
+        status: "success",
+        output: {
+          require: "undefined",
+          process: "undefined",
+          globalProcess: "undefined",
+        },
+      });
+    });
+
+    it("コンストラクタ経由でホストのprocessを取得できない", async () => {
+      const script = `module.exports = { hooks: { afterExtraction(input) {
+        const F = input.constructor.constructor;
+        return { value: F("return typeof process")() };
+      } } };`;
+
+      const result = await sandbox.invoke(
+        script,
+        "afterExtraction",
+        {},
+        options,
+      );
+
+      expect(result.status).toBe("error");
+    });
+  });
+});
@@ -0,0 +1 @@
+export { WorkerThreadPluginSandbox } from "./WorkerThreadPluginSandbox";
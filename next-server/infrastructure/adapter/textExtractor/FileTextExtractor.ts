@@ -8,6 +8,13 @@ import type {
 import { TextExtractorStrategyFactory } from "./TextExtractorStrategyFactory";
 import { TextNormalizer } from "./TextNormalizer";
 
+/**
+ * 空白・インデントに意味があるため、デフォルトでは正規化しない抽出方式
+ */
+const WHITESPACE_SENSITIVE_STRATEGIES: ReadonlySet<TextExtractorType> = new Set(
+  ["source-code"],
+);
+
 /**
  * ファイルテキスト抽出オーケストレーター
  * 拡張子に応じた抽出戦略の選択と正規化を行う
@@ -38,10 +45,12 @@ export class FileTextExtractor implements IFileTextExtractor {
   ): Promise<string> {
     const extension = path.extname(fileName).toLowerCase();
 
-    // 戦略を取得
+    // 戦略を取得（抽出方式の指定 > 構造保持の指定 > デフォルトの順に優先）
     const strategy = options?.strategyType
       ? this.factory.getStrategyByType(extension, options.strategyType)
-      : this.factory.getStrategy(extension);
+      : options?.structured
+        ? this.factory.getStructuredStrategy(extension)
+        : this.factory.getStrategy(extension);
 
     if (!strategy) {
       throw new Error(`サポートされていないファイル形式です: ${extension}`);
@@ -50,10 +59,13 @@ export class FileTextExtractor implements IFileTextExtractor {
     // 抽出実行
     const result = await strategy.extract(buffer, {
       encoding: options?.encoding,
+      fileName,
     });
 
-    // 正規化を適用するかどうか（デフォルトでtrue）
-    const shouldNormalize = options?.normalize !== false;
+    // 正規化を適用するかどうか（デフォルトでtrue、ソースコードはfalse）
+    const shouldNormalize =
+      options?.normalize ??
+      !WHITESPACE_SENSITIVE_STRATEGIES.has(result.metadata.strategyUsed);
 
     if (shouldNormalize) {
       return this.normalizer.normalize(
@@ -82,4 +94,12 @@ export class FileTextExtractor implements IFileTextExtractor {
   isSupported(extension: string): boolean {
     return this.factory.isSupported(extension);
   }
+
+  /**
+   * サポートされている拡張子の一覧を取得
+   * @returns サポートされている拡張子の配列
+   */
+  getSupportedExtensions(): string[] {
+    return this.factory.getSupportedExtensions();
+  }
 }
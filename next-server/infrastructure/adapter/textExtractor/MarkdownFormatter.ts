@@ -0,0 +1,394 @@
+import type { TextExtractionSection } from "@/application/shared/port/textExtractor";
+
+/**
+ * HTML要素ノード
+ */
+interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+/**
+ * HTMLノード（テキストは文字列で表現）
+ */
+type HtmlNode = HtmlElement | string;
+
+/**
+ * HTMLからMarkdownへの変換結果
+ */
+export interface HtmlToMarkdownResult {
+  /** Markdownテキスト */
+  markdown: string;
+  /** 見出しから生成したセクション構成 */
+  outline: TextExtractionSection[];
+}
+
+/**
+ * 子要素を持たない要素
+ */
+const VOID_TAGS = new Set(["br", "img", "hr", "col", "input", "meta", "link"]);
+
+/**
+ * 見出し要素とレベルの対応
+ */
+const HEADING_LEVELS: Record<string, number> = {
+  h1: 1,
+  h2: 2,
+  h3: 3,
+  h4: 4,
+  h5: 5,
+  h6: 6,
+};
+
+/**
+ * 文字参照の対応表
+ */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Markdown整形のためのユーティリティクラス
+ * 構造を保持するテキスト抽出戦略で共通して使用する
+ */
+export class MarkdownFormatter {
+  /**
+   * 2次元配列をMarkdownの表に変換する
+   * 先頭行を見出し行として扱い、列数は最も長い行に揃える
+   * @param rows 行ごとのセル配列
+   * @returns Markdownの表（行がない場合は空文字）
+   */
+  public static table(rows: string[][]): string {
+    if (rows.length === 0) {
+      return "";
+    }
+
+    const columnCount = Math.max(1, ...rows.map((row) => row.length));
+    const toLine = (row: string[]) => {
+      const cells = Array.from({ length: columnCount }, (_, i) =>
+        this.escapeTableCell(row[i] ?? ""),
+      );
+      return `| ${cells.join(" | ")} |`;
+    };
+
+    const [header, ...body] = rows;
+    return [
+      toLine(header),
+      `|${" --- |".repeat(columnCount)}`,
+      ...body.map(toLine),
+    ].join("\n");
+  }
+
+  /**
+   * 表のセルとして使用できるようにエスケープする
+   * パイプ文字をエスケープし、セル内改行は<br>に置き換える
+   * @param text セルのテキスト
+   * @returns エスケープ済みのテキスト
+   */
+  public static escapeTableCell(text: string): string {
+    return text
+      .replace(/\r\n?/g, "\n")
+      .trim()
+      .replace(/\|/g, "\\|")
+      .replace(/\n+/g, "<br>");
+  }
+
+  /**
+   * XML/HTMLの文字参照をデコードする
+   * @param text デコード対象のテキスト
+   * @returns デコード済みのテキスト
+   */
+  public static decodeEntities(text: string): string {
+    return text.replace(
+      /&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g,
+      (match, entity: string) => {
+        if (entity.startsWith("#x")) {
+          return String.fromCodePoint(parseInt(entity.slice(2), 16));
+        }
+        if (entity.startsWith("#")) {
+          return String.fromCodePoint(parseInt(entity.slice(1), 10));
+        }
+        return NAMED_ENTITIES[entity] ?? match;
+      },
+    );
+  }
+
+  /**
+   * HTMLをMarkdownに変換する
+   * mammothが出力するHTML（見出し・段落・リスト・表・強調・リンク）を対象とする
+   * 画像は本文に含めない
+   * @param html 変換対象のHTML
+   * @returns Markdownテキストと見出しから生成したセクション構成
+   */
+  public static htmlToMarkdown(html: string): HtmlToMarkdownResult {
+    const outline: TextExtractionSection[] = [];
+    const blocks = this.renderBlocks(this.parseHtml(html), outline, 0);
+    return { markdown: blocks.join("\n\n"), outline };
+  }
+
+  /**
+   * HTMLをノードの木構造に変換する
+   */
+  private static parseHtml(html: string): HtmlNode[] {
+    const root: HtmlElement = { tag: "#root", attrs: {}, children: [] };
+    const stack: HtmlElement[] = [root];
+    const tokenPattern = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>|([^<]+)|</g;
+
+    for (const match of html.matchAll(tokenPattern)) {
+      const [token, closing, tagName, rawAttrs, text] = match;
+      const current = stack[stack.length - 1];
+
+      if (text !== undefined || tagName === undefined) {
+        current.children.push(this.decodeEntities(text ?? token));
+        continue;
+      }
+
+      const tag = tagName.toLowerCase();
+      if (closing) {
+        // 対応する開始タグまで閉じる（閉じ忘れのタグも合わせて閉じる）
+        const index = stack.map((el) => el.tag).lastIndexOf(tag);
+        if (index > 0) {
+          stack.length = index;
+        }
+        continue;
+      }
+
+      const element: HtmlElement = {
+        tag,
+        attrs: this.parseAttributes(rawAttrs),
+        children: [],
+      };
+      current.children.push(element);
+      if (!VOID_TAGS.has(tag) && !rawAttrs.trimEnd().endsWith("/")) {
+        stack.push(element);
+      }
+    }
+
+    return root.children;
+  }
+
+  /**
+   * 属性文字列を解析する
+   */
+  private static parseAttributes(rawAttrs: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    for (const match of rawAttrs.matchAll(/([a-zA-Z_:-]+)\s*=\s*"([^"]*)"/g)) {
+      attrs[match[1].toLowerCase()] = this.decodeEntities(match[2]);
+    }
+    return attrs;
+  }
+
+  /**
+   * ブロック要素の並びをMarkdownのブロック配列に変換する
+   */
+  private static renderBlocks(
+    nodes: HtmlNode[],
+    outline: TextExtractionSection[],
+    listDepth: number,
+  ): string[] {
+    const blocks: string[] = [];
+    let inlineNodes: HtmlNode[] = [];
+
+    // ブロック要素の間にあるインライン要素を段落としてまとめる
+    const flushInline = () => {
+      const text = this.renderInline(inlineNodes).trim();
+      if (text) {
+        blocks.push(text);
+      }
+      inlineNodes = [];
+    };
+
+    for (const node of nodes) {
+      if (typeof node === "string" || !this.isBlock(node.tag)) {
+        inlineNodes.push(node);
+        continue;
+      }
+
+      flushInline();
+      const block = this.renderBlock(node, outline, listDepth);
+      if (block) {
+        blocks.push(block);
+      }
+    }
+    flushInline();
+
+    return blocks;
+  }
+
+  /**
+   * ブロック要素をMarkdownに変換する
+   */
+  private static renderBlock(
+    element: HtmlElement,
+    outline: TextExtractionSection[],
+    listDepth: number,
+  ): string {
+    const headingLevel = HEADING_LEVELS[element.tag];
+    if (headingLevel) {
+      const title = this.renderInline(element.children).trim();
+      if (!title) {
+        return "";
+      }
+      outline.push({ level: headingLevel, title });
+      return `${"#".repeat(headingLevel)} ${title}`;
+    }
+
+    switch (element.tag) {
+      case "ul":
+      case "ol":
+        return this.renderList(element, outline, listDepth);
+      case "table":
+        return this.table(this.collectTableRows(element));
+      case "hr":
+        return "---";
+      default:
+        return this.renderBlocks(element.children, outline, listDepth).join(
+          "\n\n",
+        );
+    }
+  }
+
+  /**
+   * リストをMarkdownに変換する（入れ子のリストはインデントする）
+   */
+  private static renderList(
+    list: HtmlElement,
+    outline: TextExtractionSection[],
+    listDepth: number,
+  ): string {
+    const indent = "  ".repeat(listDepth);
+    const lines: string[] = [];
+    let number = 1;
+
+    for (const item of list.children) {
+      if (typeof item === "string" || item.tag !== "li") {
+        continue;
+      }
+
+      const marker = list.tag === "ol" ? `${number++}.` : "-";
+      const nested = item.children.filter(
+        (child): child is HtmlElement =>
+          typeof child !== "string" &&
+          (child.tag === "ul" || child.tag === "ol"),
+      );
+      const content = item.children.filter(
+        (child) => typeof child === "string" || !nested.includes(child),
+      );
+      const text = this.renderBlocks(content, outline, listDepth + 1)
+        .join(" ")
+        .replace(/\n+/g, " ");
+
+      lines.push(`${indent}${marker} ${text}`.trimEnd());
+      for (const child of nested) {
+        lines.push(this.renderList(child, outline, listDepth + 1));
+      }
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * 表要素から行ごとのセル配列を収集する
+   */
+  private static collectTableRows(table: HtmlElement): string[][] {
+    const rows: string[][] = [];
+
+    const visit = (nodes: HtmlNode[]) => {
+      for (const node of nodes) {
+        if (typeof node === "string") {
+          continue;
+        }
+        if (node.tag === "tr") {
+          rows.push(
+            node.children
+              .filter(
+                (cell): cell is HtmlElement =>
+                  typeof cell !== "string" &&
+                  (cell.tag === "td" || cell.tag === "th"),
+              )
+              .map((cell) =>
+                this.renderBlocks(cell.children, [], 0).join("\n"),
+              ),
+          );
+        } else if (node.tag !== "table") {
+          // thead/tbody/tfootを辿る（入れ子の表は外側のセルとして扱われる）
+          visit(node.children);
+        }
+      }
+    };
+    visit(table.children);
+
+    return rows;
+  }
+
+  /**
+   * インライン要素の並びをMarkdownに変換する
+   */
+  private static renderInline(nodes: HtmlNode[]): string {
+    return nodes
+      .map((node) => {
+        if (typeof node === "string") {
+          return node.replace(/[ \t\r\n]+/g, " ");
+        }
+
+        const text = this.renderInline(node.children);
+        switch (node.tag) {
+          case "br":
+            return "\n";
+          case "img":
+            return "";
+          case "strong":
+          case "b":
+            return text.trim() ? `**${text.trim()}**` : text;
+          case "em":
+          case "i":
+            return text.trim() ? `*${text.trim()}*` : text;
+          case "s":
+          case "del":
+            return text.trim() ? `~~${text.trim()}~~` : text;
+          case "a": {
+            const href = node.attrs.href;
+            // 文書内アンカーへのリンクはテキストのみ残す
+            return href && !href.startsWith("#") && text.trim()
+              ? `[${text.trim()}](${href})`
+              : text;
+          }
+          default:
+            return text;
+        }
+      })
+      .join("")
+      .replace(/ *\n */g, "\n");
+  }
+
+  /**
+   * ブロック要素かどうかを判定する
+   */
+  private static isBlock(tag: string): boolean {
+    return (
+      tag in HEADING_LEVELS ||
+      [
+        "p",
+        "div",
+        "ul",
+        "ol",
+        "table",
+        "blockquote",
+        "hr",
+        "pre",
+        "section",
+        "article",
+        "li",
+        "tr",
+        "td",
+        "th",
+      ].includes(tag)
+    );
+  }
+}
@@ -8,6 +8,12 @@ import { XlsxSheetJsStrategy } from "./strategies/XlsxSheetJsStrategy";
 import { DocxExtractorStrategy } from "./strategies/DocxExtractorStrategy";
 import { PptxExtractorStrategy } from "./strategies/PptxExtractorStrategy";
 import { PdfExtractorStrategy } from "./strategies/PdfExtractorStrategy";
+import { DocxMarkdownStrategy } from "./strategies/DocxMarkdownStrategy";
+import { PdfMarkdownStrategy } from "./strategies/PdfMarkdownStrategy";
+import { PptxMarkdownStrategy } from "./strategies/PptxMarkdownStrategy";
+import { XlsxMarkdownStrategy } from "./strategies/XlsxMarkdownStrategy";
+import { SourceCodeExtractorStrategy } from "./strategies/SourceCodeExtractorStrategy";
+import { SOURCE_CODE_EXTENSIONS } from "@/lib/shared/sourceCode";
 
 /**
  * 拡張子ごとのデフォルト戦略マッピング
@@ -20,6 +26,22 @@ const DEFAULT_STRATEGY_MAP: Record<string, TextExtractorType> = {
   ".docx": "docx-mammoth",
   ".pptx": "pptx-officeparser",
   ".pdf": "unpdf",
+  // ソースコードは拡張子ごとの言語タグ付きで抽出する
+  ...Object.fromEntries(
+    SOURCE_CODE_EXTENSIONS.map((ext) => [ext, "source-code" as const]),
+  ),
+};
+
+/**
+ * 拡張子ごとの構造保持（Markdown形式）戦略マッピング
+ * 定義のない拡張子はデフォルト戦略を使用する
+ */
+const STRUCTURED_STRATEGY_MAP: Record<string, TextExtractorType> = {
+  ".xlsx": "xlsx-markdown",
+  ".xls": "xlsx-markdown",
+  ".docx": "docx-markdown",
+  ".pptx": "pptx-markdown",
+  ".pdf": "pdf-markdown",
 };
 
 /**
@@ -44,6 +66,11 @@ export class TextExtractorStrategyFactory {
     this.registerStrategy(new DocxExtractorStrategy());
     this.registerStrategy(new PptxExtractorStrategy());
     this.registerStrategy(new PdfExtractorStrategy());
+    this.registerStrategy(new DocxMarkdownStrategy());
+    this.registerStrategy(new PdfMarkdownStrategy());
+    this.registerStrategy(new PptxMarkdownStrategy());
+    this.registerStrategy(new XlsxMarkdownStrategy());
+    this.registerStrategy(new SourceCodeExtractorStrategy());
   }
 
   /**
@@ -70,6 +97,21 @@ export class TextExtractorStrategyFactory {
     return this.strategies.get(defaultType);
   }
 
+  /**
+   * 拡張子から構造保持（Markdown形式）の戦略を取得
+   * 構造保持の戦略がない拡張子はデフォルト戦略を返す
+   * @param extension 拡張子（例: '.docx'）
+   * @returns 戦略インスタンス、サポートされていない場合はundefined
+   */
+  getStructuredStrategy(extension: string): ITextExtractorStrategy | undefined {
+    const structuredType = STRUCTURED_STRATEGY_MAP[extension.toLowerCase()];
+    const strategy = structuredType
+      ? this.strategies.get(structuredType)
+      : undefined;
+
+    return strategy ?? this.getStrategy(extension);
+  }
+
   /**
    * 拡張子と戦略タイプを指定して戦略を取得
    * @param extension 拡張子（例: '.xlsx'）
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from "vitest";
+import { DocxMarkdownStrategy } from "../strategies/DocxMarkdownStrategy";
+import mammoth from "mammoth";
+
+// mammothをモック
+vi.mock("mammoth", () => ({
+  default: {
+    convertToHtml: vi.fn(),
+  },
+}));
+
+describe("DocxMarkdownStrategy", () => {
+  const strategy = new DocxMarkdownStrategy();
+
+  describe("getSupportedExtensions", () => {
+    it(".docxを返す", () => {
+      expect(strategy.getSupportedExtensions()).toEqual([".docx"]);
+    });
+  });
+
+  describe("getStrategyType", () => {
+    it("docx-markdownを返す", () => {
+      expect(strategy.getStrategyType()).toBe("docx-markdown");
+    });
+  });
+
+  describe("正常系", () => {
+    it("Word文書を見出し・表を保持したMarkdownに変換する", async () => {
+      vi.mocked(mammoth.convertToHtml).mockResolvedValueOnce({
+        value:
+          "<h1>設計書</h1><p>本書の目的</p><h2>画面一覧</h2>" +
+          "<table><tr><td><p>画面ID</p></td><td><p>画面名</p></td></tr>" +
+          "<tr><td><p>S001</p></td><td><p>ログイン</p></td></tr></table>",
+        messages: [],
+      });
+
+      const buffer = Buffer.from("dummy docx content");
+      const result = await strategy.extract(buffer);
+
+      expect(result.content).toBe(
+        "# 設計書\n\n本書の目的\n\n## 画面一覧\n\n" +
+          "| 画面ID | 画面名 |\n| --- | --- |\n| S001 | ログイン |",
+      );
+      expect(result.metadata.fileType).toBe("docx");
+      expect(result.metadata.strategyUsed).toBe("docx-markdown");
+      expect(result.metadata.originalSize).toBe(buffer.length);
+      expect(result.metadata.extractedLength).toBe(result.content.length);
+      expect(result.metadata.outline).toEqual([
+        { level: 1, title: "設計書" },
+        { level: 2, title: "画面一覧" },
+      ]);
+      expect(result.metadata.warnings).toBeUndefined();
+    });
+
+    it("警告メッセージがある場合メタデータに含める", async () => {
+      const mockWarning = "Unrecognised paragraph style: Custom";
+      vi.mocked(mammoth.convertToHtml).mockResolvedValueOnce({
+        value: "<p>テスト内容</p>",
+        messages: [{ type: "warning", message: mockWarning }],
+      });
+
+      const result = await strategy.extract(Buffer.from("dummy"));
+
+      expect(result.content).toBe("テスト内容");
+      expect(result.metadata.warnings).toEqual([mockWarning]);
+    });
+  });
+
+  describe("異常系", () => {
+    it("mammothがエラーを投げた場合エラーを伝搬する", async () => {
+      vi.mocked(mammoth.convertToHtml).mockRejectedValueOnce(
+        new Error("Invalid DOCX file"),
+      );
+
+      await expect(strategy.extract(Buffer.from("invalid"))).rejects.toThrow(
+        "Invalid DOCX file",
+      );
+    });
+  });
+});
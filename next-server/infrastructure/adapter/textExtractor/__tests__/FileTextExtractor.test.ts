@@ -153,6 +153,49 @@ describe("FileTextExtractor", () => {
         expect(result).toContain("項目1,");
         expect(result).toContain("項目2,");
       });
+
+      it("structured指定時はMarkdown形式の抽出方式を使用する", async () => {
+        const buffer = createTestExcelBuffer([
+          {
+            name: "一覧",
+            data: [
+              ["項目", "内容"],
+              ["項目1", "確認事項"],
+            ],
+          },
+        ]);
+
+        const result = await extractor.extract(buffer, "test.xlsx", {
+          structured: true,
+        });
+
+        expect(result).toContain("## Sheet: 一覧");
+        expect(result).toContain("| 項目 | 内容 |");
+        expect(result).toContain("| 項目1 | 確認事項 |");
+      });
+
+      it("構造保持の抽出方式がない拡張子はstructured指定時もデフォルトを使用する", async () => {
+        const buffer = Buffer.from("項目1\n項目2", "utf-8");
+
+        const result = await extractor.extract(buffer, "test.txt", {
+          structured: true,
+        });
+
+        expect(result).toBe("項目1\n項目2");
+      });
+
+      it("strategyTypeの指定はstructuredより優先される", async () => {
+        const buffer = createTestExcelBuffer([
+          { name: "Sheet1", data: [["項目1"]] },
+        ]);
+
+        const result = await extractor.extract(buffer, "test.xlsx", {
+          strategyType: "xlsx-sheetjs",
+          structured: true,
+        });
+
+        expect(result).toContain("#sheet:Sheet1");
+      });
     });
 
     describe("正規化", () => {
@@ -176,6 +219,17 @@ describe("FileTextExtractor", () => {
         expect(result).toContain("項目2");
         expect(result).not.toContain("\u0000");
       });
+
+      it("ソースコードはインデントを保持するため正規化しない", async () => {
+        const content = "if (a) {\n    return    1;\n}";
+        const buffer = Buffer.from(content, "utf-8");
+
+        const result = await extractor.extract(buffer, "src/main.ts");
+
+        expect(result).toBe(
+          "```typescript\n1 | if (a) {\n2 |     return    1;\n3 | }\n```",
+        );
+      });
     });
 
     describe("エラーケース", () => {
@@ -211,6 +265,19 @@ describe("FileTextExtractor", () => {
     it(".xlsxの利用可能な戦略を返す", () => {
       const strategies = extractor.getAvailableStrategies(".xlsx");
       expect(strategies).toContain("xlsx-sheetjs");
+      expect(strategies).toContain("xlsx-markdown");
+    });
+
+    it(".docx・.pdf・.pptxのMarkdown形式の戦略を返す", () => {
+      expect(extractor.getAvailableStrategies(".docx")).toContain(
+        "docx-markdown",
+      );
+      expect(extractor.getAvailableStrategies(".pdf")).toContain(
+        "pdf-markdown",
+      );
+      expect(extractor.getAvailableStrategies(".pptx")).toContain(
+        "pptx-markdown",
+      );
     });
 
     it("サポートされていない拡張子は空配列を返す", () => {
@@ -253,5 +320,11 @@ describe("FileTextExtractor", () => {
     it(".pptxをサポートしている", () => {
       expect(extractor.isSupported(".pptx")).toBe(true);
     });
+
+    it("ソースコードの拡張子をサポートしている", () => {
+      expect(extractor.isSupported(".ts")).toBe(true);
+      expect(extractor.isSupported(".py")).toBe(true);
+      expect(extractor.isSupported(".java")).toBe(true);
+    });
   });
 });
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import { MarkdownFormatter } from "../MarkdownFormatter";
+
+describe("MarkdownFormatter", () => {
+  describe("table", () => {
+    it("先頭行を見出し行としたMarkdownの表を作成する", () => {
+      const result = MarkdownFormatter.table([
+        ["項目", "内容"],
+        ["項目1", "確認事項"],
+      ]);
+
+      expect(result).toBe(
+        "| 項目 | 内容 |\n| --- | --- |\n| 項目1 | 確認事項 |",
+      );
+    });
+
+    it("列数を最も長い行に揃える", () => {
+      const result = MarkdownFormatter.table([["A"], ["1", "2"]]);
+
+      expect(result).toBe("| A |  |\n| --- | --- |\n| 1 | 2 |");
+    });
+
+    it("パイプ文字とセル内改行をエスケープする", () => {
+      const result = MarkdownFormatter.table([["A|B", "1行目\n2行目"]]);
+
+      expect(result).toContain("| A\\|B | 1行目<br>2行目 |");
+    });
+
+    it("行がない場合は空文字を返す", () => {
+      expect(MarkdownFormatter.table([])).toBe("");
+    });
+  });
+
+  describe("decodeEntities", () => {
+    it("名前付き文字参照と数値文字参照をデコードする", () => {
+      expect(
+        MarkdownFormatter.decodeEntities("&lt;A&gt; &amp; &#12354;&#x3044;"),
+      ).toBe("<A> & あい");
+    });
+
+    it("未知の文字参照はそのまま残す", () => {
+      expect(MarkdownFormatter.decodeEntities("&unknown;")).toBe("&unknown;");
+    });
+  });
+
+  describe("htmlToMarkdown", () => {
+    it("見出しをMarkdownの見出しに変換しセクション構成を生成する", () => {
+      const result = MarkdownFormatter.htmlToMarkdown(
+        "<h1>第1章 概要</h1><p>これは概要です。</p><h2>1.1 目的</h2><p>目的です。</p>",
+      );
+
+      expect(result.markdown).toBe(
+        "# 第1章 概要\n\nこれは概要です。\n\n## 1.1 目的\n\n目的です。",
+      );
+      expect(result.outline).toEqual([
+        { level: 1, title: "第1章 概要" },
+        { level: 2, title: "1.1 目的" },
+      ]);
+    });
+
+    it("表をMarkdownの表に変換する", () => {
+      const result = MarkdownFormatter.htmlToMarkdown(
+        "<table><thead><tr><th><p>項目</p></th><th><p>内容</p></th></tr></thead>" +
+          "<tbody><tr><td><p>項目1</p></td><td><p>段落1</p><p>段落2</p></td></tr></tbody></table>",
+      );
+
+      expect(result.markdown).toBe(
+        "| 項目 | 内容 |\n| --- | --- |\n| 項目1 | 段落1<br>段落2 |",
+      );
+    });
+
+    it("入れ子のリストをインデント付きで変換する", () => {
+      const result = MarkdownFormatter.htmlToMarkdown(
+        "<ul><li>項目1<ol><li>詳細A</li><li>詳細B</li></ol></li><li>項目2</li></ul>",
+      );
+
+      expect(result.markdown).toBe("- 項目1\n  1. 詳細A\n  2. 詳細B\n- 項目2");
+    });
+
+    it("強調・リンクを変換し、文書内アンカーと画像は除外する", () => {
+      const result = MarkdownFormatter.htmlToMarkdown(
+        '<p><strong>重要</strong>な<em>注意</em>点は<a href="https://example.com">こちら</a>' +
+          '<a id="_Toc1"></a><a href="#_Toc1">目次</a><img src="data:image/png;base64,AAAA" /></p>',
+      );
+
+      expect(result.markdown).toBe(
+        "**重要**な*注意*点は[こちら](https://example.com)目次",
+      );
+    });
+
+    it("改行要素を改行に変換し文字参照をデコードする", () => {
+      const result = MarkdownFormatter.htmlToMarkdown(
+        "<p>1行目<br />2行目 &amp; &lt;注記&gt;</p>",
+      );
+
+      expect(result.markdown).toBe("1行目\n2行目 & <注記>");
+    });
+
+    it("空のHTMLは空文字を返す", () => {
+      const result = MarkdownFormatter.htmlToMarkdown("");
+
+      expect(result.markdown).toBe("");
+      expect(result.outline).toEqual([]);
+    });
+  });
+});
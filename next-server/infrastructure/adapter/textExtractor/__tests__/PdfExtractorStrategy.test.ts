@@ -106,6 +106,10 @@ describe("PdfExtractorStrategy", () => {
       expect(result.content).toContain("これは詳細です。");
       // ページ間が空行で区切られている
       expect(result.content).toContain("\n\n");
+      // 各ページの先頭にページ区切りが付与される
+      expect(result.content).toBe(
+        "[Page 1/2]\n第1章 概要\nこれは概要です。\n\n[Page 2/2]\n第2章 詳細\nこれは詳細です。",
+      );
     });
 
     it("箇条書きを含むPDFを処理する", async () => {
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PdfMarkdownStrategy } from "../strategies/PdfMarkdownStrategy";
+
+// モック用の関数
+const mockGetDocumentProxy = vi.fn();
+const mockExtractText = vi.fn();
+
+// unpdfのモック
+vi.mock("unpdf", () => ({
+  getDocumentProxy: (data: Uint8Array) => mockGetDocumentProxy(data),
+  extractText: (pdf: unknown, options: unknown) =>
+    mockExtractText(pdf, options),
+}));
+
+/**
+ * テスト用のPDFドキュメントプロキシを作成するヘルパー関数
+ */
+function createMockPdf(outline: unknown[] | null = null) {
+  return {
+    getOutline: vi.fn().mockResolvedValue(outline),
+    getDestination: vi.fn(),
+    getPageIndex: vi.fn(),
+  };
+}
+
+describe("PdfMarkdownStrategy", () => {
+  const strategy = new PdfMarkdownStrategy();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("getSupportedExtensions", () => {
+    it(".pdfを返す", () => {
+      expect(strategy.getSupportedExtensions()).toEqual([".pdf"]);
+    });
+  });
+
+  describe("getStrategyType", () => {
+    it("pdf-markdownを返す", () => {
+      expect(strategy.getStrategyType()).toBe("pdf-markdown");
+    });
+  });
+
+  describe("正常系", () => {
+    it("ページごとに区切りを付与して抽出する", async () => {
+      const mockPdf = createMockPdf();
+      mockGetDocumentProxy.mockResolvedValueOnce(mockPdf);
+      mockExtractText.mockResolvedValueOnce({
+        text: ["1ページ目の内容\n", "2ページ目の内容"],
+        totalPages: 2,
+      });
+
+      const buffer = Buffer.from("dummy pdf content");
+      const result = await strategy.extract(buffer);
+
+      expect(result.content).toBe(
+        "--- page 1 ---\n1ページ目の内容\n\n--- page 2 ---\n2ページ目の内容",
+      );
+      expect(result.metadata.fileType).toBe("pdf");
+      expect(result.metadata.strategyUsed).toBe("pdf-markdown");
+      expect(result.metadata.originalSize).toBe(buffer.length);
+      expect(result.metadata.extractedLength).toBe(result.content.length);
+      expect(result.metadata.outline).toEqual([]);
+      expect(mockExtractText).toHaveBeenCalledWith(mockPdf, {
+        mergePages: false,
+      });
+    });
+
+    it("1ページのみの場合も区切りを付与する", async () => {
+      mockGetDocumentProxy.mockResolvedValueOnce(createMockPdf());
+      mockExtractText.mockResolvedValueOnce({
+        text: ["単一ページ"],
+        totalPages: 1,
+      });
+
+      const result = await strategy.extract(Buffer.from("dummy"));
+
+      expect(result.content).toBe("--- page 1 ---\n単一ページ");
+    });
+
+    it("しおりから見出しとページ番号のセクション構成を生成する", async () => {
+      const chapter1Ref = { num: 10, gen: 0 };
+      const mockPdf = createMockPdf([
+        {
+          title: "第1章 概要",
+          dest: [chapter1Ref, { name: "XYZ" }],
+          items: [{ title: "1.1 目的", dest: "section-1-1", items: [] }],
+        },
+        { title: "第2章 詳細", dest: [2, { name: "Fit" }], items: [] },
+        { title: "付録", dest: null, items: [] },
+      ]);
+      mockPdf.getPageIndex.mockResolvedValueOnce(0);
+      mockPdf.getDestination.mockResolvedValueOnce([
+        { num: 11, gen: 0 },
+        { name: "XYZ" },
+      ]);
+      mockPdf.getPageIndex.mockResolvedValueOnce(1);
+      mockGetDocumentProxy.mockResolvedValueOnce(mockPdf);
+      mockExtractText.mockResolvedValueOnce({
+        text: ["p1", "p2", "p3"],
+        totalPages: 3,
+      });
+
+      const result = await strategy.extract(Buffer.from("dummy"));
+
+      expect(result.metadata.outline).toEqual([
+        { level: 1, title: "第1章 概要", page: 1 },
+        { level: 2, title: "1.1 目的", page: 2 },
+        { level: 1, title: "第2章 詳細", page: 3 },
+        { level: 1, title: "付録" },
+      ]);
+      expect(mockPdf.getPageIndex).toHaveBeenCalledWith(chapter1Ref);
+      expect(mockPdf.getDestination).toHaveBeenCalledWith("section-1-1");
+    });
+
+    it("しおりの取得に失敗した場合は警告を記録して本文を返す", async () => {
+      const mockPdf = createMockPdf();
+      mockPdf.getOutline.mockRejectedValueOnce(new Error("broken outline"));
+      mockGetDocumentProxy.mockResolvedValueOnce(mockPdf);
+      mockExtractText.mockResolvedValueOnce({ text: ["本文"], totalPages: 1 });
+
+      const result = await strategy.extract(Buffer.from("dummy"));
+
+      expect(result.content).toBe("--- page 1 ---\n本文");
+      expect(result.metadata.outline).toEqual([]);
+      expect(result.metadata.warnings).toEqual([
+        "PDFのしおりを取得できませんでした: broken outline",
+      ]);
+    });
+  });
+
+  describe("異常系", () => {
+    it("unpdfがエラーを投げた場合エラーを伝搬する", async () => {
+      mockGetDocumentProxy.mockRejectedValueOnce(new Error("Invalid PDF"));
+
+      await expect(strategy.extract(Buffer.from("invalid"))).rejects.toThrow(
+        "Invalid PDF",
+      );
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import { PptxMarkdownStrategy } from "../strategies/PptxMarkdownStrategy";
+
+const REL_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+/**
+ * テスト用スライドの定義
+ */
+interface TestSlide {
+  /** ZIP内のスライド番号（ファイル名の番号） */
+  fileNumber: number;
+  /** p:spTree内のXML */
+  shapes: string;
+  /** ノートの本文段落 */
+  notes?: string[];
+}
+
+/**
+ * 図形のXMLを作成するヘルパー関数
+ */
+function shape(paragraphs: string[], placeholderType?: string): string {
+  const ph = placeholderType
+    ? `<p:nvSpPr><p:nvPr><p:ph type="${placeholderType}"/></p:nvPr></p:nvSpPr>`
+    : "<p:nvSpPr><p:nvPr/></p:nvSpPr>";
+  return `<p:sp>${ph}<p:txBody>${paragraphs.join("")}</p:txBody></p:sp>`;
+}
+
+/**
+ * 段落のXMLを作成するヘルパー関数
+ */
+function paragraph(text: string, level = 0): string {
+  const pPr = level > 0 ? `<a:pPr lvl="${level}"/>` : "";
+  return `<a:p>${pPr}<a:r><a:t>${text}</a:t></a:r></a:p>`;
+}
+
+/**
+ * テスト用のPowerPointファイルバッファを作成するヘルパー関数
+ * presentation.xmlの並び順（配列順）がスライドの表示順になる
+ */
+async function createTestPptxBuffer(slides: TestSlide[]): Promise<Buffer> {
+  const zip = new JSZip();
+
+  zip.file(
+    "ppt/presentation.xml",
+    `<p:presentation xmlns:r="${REL_NS}"><p:sldIdLst>` +
+      slides
+        .map((s, i) => `<p:sldId id="${256 + i}" r:id="rId${s.fileNumber}"/>`)
+        .join("") +
+      "</p:sldIdLst></p:presentation>",
+  );
+  zip.file(
+    "ppt/_rels/presentation.xml.rels",
+    "<Relationships>" +
+      slides
+        .map(
+          (s) =>
+            `<Relationship Id="rId${s.fileNumber}" Type="${REL_NS}/slide" Target="slides/slide${s.fileNumber}.xml"/>`,
+        )
+        .join("") +
+      "</Relationships>",
+  );
+
+  for (const slide of slides) {
+    zip.file(
+      `ppt/slides/slide${slide.fileNumber}.xml`,
+      `<p:sld><p:cSld><p:spTree>${slide.shapes}</p:spTree></p:cSld></p:sld>`,
+    );
+
+    if (slide.notes) {
+      zip.file(
+        `ppt/slides/_rels/slide${slide.fileNumber}.xml.rels`,
+        `<Relationships><Relationship Id="rId2" Type="${REL_NS}/notesSlide" Target="../notesSlides/notesSlide${slide.fileNumber}.xml"/></Relationships>`,
+      );
+      zip.file(
+        `ppt/notesSlides/notesSlide${slide.fileNumber}.xml`,
+        "<p:notes><p:cSld><p:spTree>" +
+          shape([paragraph("スライドイメージ")], "sldImg") +
+          shape(
+            slide.notes.map((note) => paragraph(note)),
+            "body",
+          ) +
+          shape([paragraph(String(slide.fileNumber))], "sldNum") +
+          "</p:spTree></p:cSld></p:notes>",
+      );
+    }
+  }
+
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
+describe("PptxMarkdownStrategy", () => {
+  const strategy = new PptxMarkdownStrategy();
+
+  describe("getSupportedExtensions", () => {
+    it(".pptxを返す", () => {
+      expect(strategy.getSupportedExtensions()).toEqual([".pptx"]);
+    });
+  });
+
+  describe("getStrategyType", () => {
+    it("pptx-markdownを返す", () => {
+      expect(strategy.getStrategyType()).toBe("pptx-markdown");
+    });
+  });
+
+  describe("正常系", () => {
+    it("スライドごとにタイトル付きのセクションとして抽出する", async () => {
+      const buffer = await createTestPptxBuffer([
+        {
+          fileNumber: 1,
+          shapes:
+            shape([paragraph("システム概要")], "ctrTitle") +
+            shape([paragraph("2024年度 &amp; 次期計画")], "subTitle"),
+        },
+        {
+          fileNumber: 2,
+          shapes:
+            shape([paragraph("課題")], "title") +
+            shape([
+              paragraph("性能"),
+              paragraph("応答時間", 1),
+              paragraph("運用"),
+            ]),
+        },
+      ]);
+
+      const result = await strategy.extract(buffer);
+
+      expect(result.content).toBe(
+        "## Slide 1: システム概要\n\n2024年度 & 次期計画\n\n" +
+          "## Slide 2: 課題\n\n- 性能\n  - 応答時間\n- 運用",
+      );
+      expect(result.metadata.fileType).toBe("pptx");
+      expect(result.metadata.strategyUsed).toBe("pptx-markdown");
+      expect(result.metadata.originalSize).toBe(buffer.length);
+      expect(result.metadata.extractedLength).toBe(result.content.length);
+      expect(result.metadata.outline).toEqual([
+        { level: 2, title: "システム概要", page: 1 },
+        { level: 2, title: "課題", page: 2 },
+      ]);
+    });
+
+    it("発表者ノートをスライドのセクション末尾に出力する", async () => {
+      const buffer = await createTestPptxBuffer([
+        {
+          fileNumber: 1,
+          shapes: shape([paragraph("まとめ")], "title"),
+          notes: ["補足説明です。"],
+        },
+      ]);
+
+      const result = await strategy.extract(buffer);
+
+      expect(result.content).toBe(
+        "## Slide 1: まとめ\n\n### Speaker notes\n\n補足説明です。",
+      );
+      expect(result.content).not.toContain("スライドイメージ");
+    });
+
+    it("presentation.xmlの表示順でスライド番号を付与する", async () => {
+      const buffer = await createTestPptxBuffer([
+        { fileNumber: 2, shapes: shape([paragraph("先頭")], "title") },
+        { fileNumber: 1, shapes: shape([paragraph("2枚目")], "title") },
+      ]);
+
+      const result = await strategy.extract(buffer);
+
+      expect(result.metadata.outline).toEqual([
+        { level: 2, title: "先頭", page: 1 },
+        { level: 2, title: "2枚目", page: 2 },
+      ]);
+    });
+
+    it("表をMarkdownの表に変換する", async () => {
+      const cell = (text: string) =>
+        `<a:tc><a:txBody>${paragraph(text)}</a:txBody></a:tc>`;
+      const buffer = await createTestPptxBuffer([
+        {
+          fileNumber: 1,
+          shapes:
+            "<p:graphicFrame><a:graphic><a:graphicData><a:tbl>" +
+            `<a:tr>${cell("項目")}${cell("値")}</a:tr>` +
+            `<a:tr>${cell("件数")}${cell("10")}</a:tr>` +
+            "</a:tbl></a:graphicData></a:graphic></p:graphicFrame>",
+        },
+      ]);
+
+      const result = await strategy.extract(buffer);
+
+      expect(result.content).toBe(
+        "## Slide 1\n\n| 項目 | 値 |\n| --- | --- |\n| 件数 | 10 |",
+      );
+      expect(result.metadata.outline).toEqual([
+        { level: 2, title: "Slide 1", page: 1 },
+      ]);
+    });
+  });
+
+  describe("異常系", () => {
+    it("ZIP形式でない場合エラーを投げる", async () => {
+      await expect(
+        strategy.extract(Buffer.from("invalid content")),
+      ).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { SourceCodeExtractorStrategy } from "../strategies/SourceCodeExtractorStrategy";
+
+describe("SourceCodeExtractorStrategy", () => {
+  const strategy = new SourceCodeExtractorStrategy();
+
+  describe("getSupportedExtensions", () => {
+    it("主要なソースコードの拡張子を含む", () => {
+      expect(strategy.getSupportedExtensions()).toEqual(
+        expect.arrayContaining([".ts", ".py", ".java", ".go", ".sql"]),
+      );
+    });
+  });
+
+  describe("getStrategyType", () => {
+    it("source-codeを返す", () => {
+      expect(strategy.getStrategyType()).toBe("source-code");
+    });
+  });
+
+  describe("extract", () => {
+    it("言語タグ付きのコードブロックに行番号を付けて出力する", async () => {
+      const source = "def hello():\n    print('hello')\n";
+
+      const result = await strategy.extract(Buffer.from(source), {
+        fileName: "src/main.py",
+      });
+
+      expect(result.content).toBe(
+        "```python\n1 | def hello():\n2 |     print('hello')\n```",
+      );
+      expect(result.metadata.fileType).toBe("python");
+      expect(result.metadata.strategyUsed).toBe("source-code");
+    });
+
+    it("行番号の桁を揃える", async () => {
+      const source = Array.from({ length: 10 }, (_, i) => `line${i}`).join(
+        "\n",
+      );
+
+      const result = await strategy.extract(Buffer.from(source), {
+        fileName: "a.ts",
+      });
+
+      expect(result.content).toContain("\n 1 | line0\n");
+      expect(result.content).toContain("\n10 | line9\n");
+    });
+
+    it("CRLF改行とBOMを除去する", async () => {
+      const result = await strategy.extract(Buffer.from("﻿a\r\nb", "utf-8"), {
+        fileName: "a.js",
+      });
+
+      expect(result.content).toBe("```javascript\n1 | a\n2 | b\n```");
+    });
+
+    it("コード内のバッククォートより長いフェンスで囲む", async () => {
+      const result = await strategy.extract(
+        Buffer.from("const md = `\n```\n`;"),
+        { fileName: "a.ts" },
+      );
+
+      expect(result.content.startsWith("````typescript\n")).toBe(true);
+      expect(result.content.endsWith("\n````")).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import { XlsxMarkdownStrategy } from "../strategies/XlsxMarkdownStrategy";
+
+/**
+ * テスト用のExcelファイルバッファを作成するヘルパー関数
+ */
+function createTestExcelBuffer(
+  sheets: { name: string; data: (string | number)[][] }[],
+): Buffer {
+  const workbook = XLSX.utils.book_new();
+
+  for (const sheet of sheets) {
+    const worksheet = XLSX.utils.aoa_to_sheet(sheet.data);
+    XLSX.utils.book_append_sheet(workbook, worksheet, sheet.name);
+  }
+
+  return Buffer.from(
+    XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }),
+  );
+}
+
+describe("XlsxMarkdownStrategy", () => {
+  const strategy = new XlsxMarkdownStrategy();
+
+  describe("getSupportedExtensions", () => {
+    it(".xlsxと.xlsを返す", () => {
+      expect(strategy.getSupportedExtensions()).toEqual([".xlsx", ".xls"]);
+    });
+  });
+
+  describe("getStrategyType", () => {
+    it("xlsx-markdownを返す", () => {
+      expect(strategy.getStrategyType()).toBe("xlsx-markdown");
+    });
+  });
+
+  describe("extract", () => {
+    it("シートごとに見出し付きのMarkdownの表として抽出する", async () => {
+      const buffer = createTestExcelBuffer([
+        {
+          name: "画面一覧",
+          data: [
+            ["画面ID", "画面名"],
+            ["S001", "ログイン"],
+          ],
+        },
+        { name: "帳票一覧", data: [["帳票ID"], ["R001"]] },
+      ]);
+
+      const result = await strategy.extract(buffer);
+
+      expect(result.content).toBe(
+        "## Sheet: 画面一覧\n\n| 画面ID | 画面名 |\n| --- | --- |\n| S001 | ログイン |\n\n" +
+          "## Sheet: 帳票一覧\n\n| 帳票ID |\n| --- |\n| R001 |",
+      );
+      expect(result.metadata.fileType).toBe("xlsx");
+      expect(result.metadata.strategyUsed).toBe("xlsx-markdown");
+      expect(result.metadata.extractedLength).toBe(result.content.length);
+      expect(result.metadata.outline).toEqual([
+        { level: 2, title: "画面一覧" },
+        { level: 2, title: "帳票一覧" },
+      ]);
+    });
+
+    it("空行と末尾の空列を除外する", async () => {
+      const buffer = createTestExcelBuffer([
+        {
+          name: "Sheet1",
+          data: [
+            ["項目", "", ""],
+            ["", "", ""],
+            ["項目1", "", ""],
+          ],
+        },
+      ]);
+
+      const result = await strategy.extract(buffer);
+
+      expect(result.content).toBe(
+        "## Sheet: Sheet1\n\n| 項目 |\n| --- |\n| 項目1 |",
+      );
+    });
+
+    it("数値セルを文字列として出力する", async () => {
+      const buffer = createTestExcelBuffer([
+        {
+          name: "Sheet1",
+          data: [
+            ["番号", "件数"],
+            [1, 20],
+          ],
+        },
+      ]);
+
+      const result = await strategy.extract(buffer);
+
+      expect(result.content).toContain("| 1 | 20 |");
+    });
+
+    it("空のシートは見出しのみを出力する", async () => {
+      const buffer = createTestExcelBuffer([{ name: "空", data: [] }]);
+
+      const result = await strategy.extract(buffer);
+
+      expect(result.content).toBe("## Sheet: 空");
+    });
+  });
+});
@@ -4,8 +4,14 @@
 export { FileTextExtractor } from "./FileTextExtractor";
 export { TextNormalizer } from "./TextNormalizer";
 export { TextExtractorStrategyFactory } from "./TextExtractorStrategyFactory";
+export { MarkdownFormatter } from "./MarkdownFormatter";
 
 // 各戦略
 export { TxtExtractorStrategy } from "./strategies/TxtExtractorStrategy";
 export { CsvExtractorStrategy } from "./strategies/CsvExtractorStrategy";
 export { XlsxSheetJsStrategy } from "./strategies/XlsxSheetJsStrategy";
+export { DocxMarkdownStrategy } from "./strategies/DocxMarkdownStrategy";
+export { PdfMarkdownStrategy } from "./strategies/PdfMarkdownStrategy";
+export { PptxMarkdownStrategy } from "./strategies/PptxMarkdownStrategy";
+export { XlsxMarkdownStrategy } from "./strategies/XlsxMarkdownStrategy";
+export { SourceCodeExtractorStrategy } from "./strategies/SourceCodeExtractorStrategy";
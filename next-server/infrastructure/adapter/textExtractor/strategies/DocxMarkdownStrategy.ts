@@ -0,0 +1,61 @@
+import mammoth from "mammoth";
+import type {
+  ITextExtractorStrategy,
+  TextExtractionResult,
+  TextExtractorOptions,
+  TextExtractorType,
+} from "@/application/shared/port/textExtractor";
+import { MarkdownFormatter } from "../MarkdownFormatter";
+
+/**
+ * Word文書（.docx）のMarkdown抽出戦略
+ * mammothでHTMLに変換した後、見出し・リスト・表を保持したMarkdownに変換する
+ * 見出しからセクション構成を生成する
+ */
+export class DocxMarkdownStrategy implements ITextExtractorStrategy {
+  /**
+   * サポートする拡張子を返す
+   */
+  getSupportedExtensions(): string[] {
+    return [".docx"];
+  }
+
+  /**
+   * 戦略の識別子を返す
+   */
+  getStrategyType(): TextExtractorType {
+    return "docx-markdown";
+  }
+
+  /**
+   * テキスト抽出を実行
+   * @param buffer ファイルのバイナリデータ
+   * @param _options 抽出オプション（未使用）
+   * @returns 抽出結果
+   */
+  async extract(
+    buffer: Buffer,
+    _options?: TextExtractorOptions,
+  ): Promise<TextExtractionResult> {
+    // mammothでdocxからHTMLに変換（見出し・表の構造を保持するため）
+    const result = await mammoth.convertToHtml({ buffer });
+    const { markdown: content, outline } = MarkdownFormatter.htmlToMarkdown(
+      result.value,
+    );
+
+    return {
+      content,
+      metadata: {
+        fileType: "docx",
+        strategyUsed: this.getStrategyType(),
+        originalSize: buffer.length,
+        extractedLength: content.length,
+        outline,
+        // 警告メッセージがあれば記録
+        ...(result.messages.length > 0 && {
+          warnings: result.messages.map((m) => m.message),
+        }),
+      },
+    };
+  }
+}
@@ -43,7 +43,14 @@ export class PdfExtractorStrategy implements ITextExtractorStrategy {
     const { text } = await extractText(pdf, { mergePages: false });
 
     // ページ間を空行で連結
-    const content = Array.isArray(text) ? text.join("\n\n") : text;
+    // 複数ページの場合はページ区切りを付与し、レビュー根拠のページ番号をAIが特定できるようにする
+    const content = Array.isArray(text)
+      ? text.length > 1
+        ? text
+            .map((page, index) => `[Page ${index + 1}/${text.length}]\n${page}`)
+            .join("\n\n")
+        : text.join("\n\n")
+      : text;
 
     return {
       content,
@@ -0,0 +1,138 @@
+import { extractText, getDocumentProxy } from "unpdf";
+import type {
+  ITextExtractorStrategy,
+  TextExtractionResult,
+  TextExtractionSection,
+  TextExtractorOptions,
+  TextExtractorType,
+} from "@/application/shared/port/textExtractor";
+
+type PdfDocument = Awaited<ReturnType<typeof getDocumentProxy>>;
+
+/**
+ * PDFのしおり（アウトライン）の項目
+ */
+interface PdfOutlineNode {
+  title: string;
+  dest: string | unknown[] | null;
+  items: PdfOutlineNode[];
+}
+
+/**
+ * PDF文書（.pdf）のページ区切り付き抽出戦略
+ * unpdfライブラリを使用してページごとにテキストを抽出し、「--- page N ---」の区切りを付与する
+ * PDFのしおりがある場合は見出しとページ番号からセクション構成を生成する
+ */
+export class PdfMarkdownStrategy implements ITextExtractorStrategy {
+  /**
+   * サポートする拡張子を返す
+   */
+  getSupportedExtensions(): string[] {
+    return [".pdf"];
+  }
+
+  /**
+   * 戦略の識別子を返す
+   */
+  getStrategyType(): TextExtractorType {
+    return "pdf-markdown";
+  }
+
+  /**
+   * テキスト抽出を実行
+   * @param buffer ファイルのバイナリデータ
+   * @param _options 抽出オプション（未使用）
+   * @returns 抽出結果
+   */
+  async extract(
+    buffer: Buffer,
+    _options?: TextExtractorOptions,
+  ): Promise<TextExtractionResult> {
+    // PDFドキュメントプロキシを取得
+    const pdf = await getDocumentProxy(new Uint8Array(buffer));
+
+    // ページごとにテキストを抽出（mergePages: falseでページ配列を取得）
+    const { text } = await extractText(pdf, { mergePages: false });
+    const pages = Array.isArray(text) ? text : [text];
+
+    // 1ページのみの場合も区切りを付与し、レビュー根拠のページ番号を常に特定できるようにする
+    const content = pages
+      .map((page, index) => `--- page ${index + 1} ---\n${page.trim()}`)
+      .join("\n\n");
+
+    // しおりの取得に失敗しても本文の抽出結果は返す
+    const warnings: string[] = [];
+    let outline: TextExtractionSection[] = [];
+    try {
+      outline = await this.buildOutline(pdf);
+    } catch (error) {
+      warnings.push(
+        `PDFのしおりを取得できませんでした: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    return {
+      content,
+      metadata: {
+        fileType: "pdf",
+        strategyUsed: this.getStrategyType(),
+        originalSize: buffer.length,
+        extractedLength: content.length,
+        outline,
+        ...(warnings.length > 0 && { warnings }),
+      },
+    };
+  }
+
+  /**
+   * PDFのしおりからセクション構成を生成する
+   */
+  private async buildOutline(
+    pdf: PdfDocument,
+  ): Promise<TextExtractionSection[]> {
+    const nodes = ((await pdf.getOutline()) ?? []) as PdfOutlineNode[];
+    const sections: TextExtractionSection[] = [];
+
+    const visit = async (items: PdfOutlineNode[], level: number) => {
+      for (const item of items) {
+        const title = item.title.trim();
+        if (title) {
+          const page = await this.resolvePageNumber(pdf, item.dest);
+          sections.push({
+            level,
+            title,
+            ...(page !== undefined && { page }),
+          });
+        }
+        await visit(item.items ?? [], level + 1);
+      }
+    };
+    await visit(nodes, 1);
+
+    return sections;
+  }
+
+  /**
+   * しおりの参照先からページ番号（1始まり）を解決する
+   * 解決できない場合はundefinedを返す
+   */
+  private async resolvePageNumber(
+    pdf: PdfDocument,
+    dest: PdfOutlineNode["dest"],
+  ): Promise<number | undefined> {
+    const explicitDest =
+      typeof dest === "string" ? await pdf.getDestination(dest) : dest;
+    const target = explicitDest?.[0];
+
+    if (typeof target === "number") {
+      return target + 1;
+    }
+    if (target && typeof target === "object" && "num" in target) {
+      const pageIndex = await pdf.getPageIndex(
+        target as { num: number; gen: number },
+      );
+      return pageIndex + 1;
+    }
+    return undefined;
+  }
+}
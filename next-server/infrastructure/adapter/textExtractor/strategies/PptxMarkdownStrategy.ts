@@ -0,0 +1,304 @@
+import JSZip from "jszip";
+import path from "path";
+import type {
+  ITextExtractorStrategy,
+  TextExtractionResult,
+  TextExtractionSection,
+  TextExtractorOptions,
+  TextExtractorType,
+} from "@/application/shared/port/textExtractor";
+import { MarkdownFormatter } from "../MarkdownFormatter";
+
+/**
+ * スライドから抽出した内容
+ */
+interface SlideContent {
+  title: string | null;
+  body: string[];
+}
+
+/**
+ * タイトルとして扱うプレースホルダーの種別
+ */
+const TITLE_PLACEHOLDER_TYPES = ["title", "ctrTitle"];
+
+/**
+ * ノートの関係（Relationship）の種別
+ */
+const NOTES_SLIDE_RELATIONSHIP_TYPE =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships/notesSlide";
+
+/**
+ * PowerPoint文書（.pptx）のMarkdown抽出戦略
+ * pptx（ZIP）内のスライドXMLを直接読み取り、スライドごとに「## Slide N: タイトル」のセクションを出力する
+ * 箇条書きの階層と表を保持し、発表者ノートはスライドのセクション末尾に出力する
+ */
+export class PptxMarkdownStrategy implements ITextExtractorStrategy {
+  /**
+   * サポートする拡張子を返す
+   */
+  getSupportedExtensions(): string[] {
+    return [".pptx"];
+  }
+
+  /**
+   * 戦略の識別子を返す
+   */
+  getStrategyType(): TextExtractorType {
+    return "pptx-markdown";
+  }
+
+  /**
+   * テキスト抽出を実行
+   * @param buffer ファイルのバイナリデータ
+   * @param _options 抽出オプション（未使用）
+   * @returns 抽出結果
+   */
+  async extract(
+    buffer: Buffer,
+    _options?: TextExtractorOptions,
+  ): Promise<TextExtractionResult> {
+    const zip = await JSZip.loadAsync(buffer);
+    const slidePaths = await this.resolveSlidePaths(zip);
+
+    const parts: string[] = [];
+    const outline: TextExtractionSection[] = [];
+
+    for (const [index, slidePath] of slidePaths.entries()) {
+      const slideNumber = index + 1;
+      const slideXml = await zip.file(slidePath)?.async("string");
+      if (slideXml === undefined) continue;
+
+      const slide = this.parseSlide(slideXml);
+      const title = slide.title ?? `Slide ${slideNumber}`;
+      outline.push({ level: 2, title, page: slideNumber });
+
+      const section = [
+        slide.title
+          ? `## Slide ${slideNumber}: ${slide.title}`
+          : `## Slide ${slideNumber}`,
+        ...slide.body,
+      ];
+
+      const notes = await this.extractNotes(zip, slidePath);
+      if (notes.length > 0) {
+        section.push("### Speaker notes", ...notes);
+      }
+
+      parts.push(section.join("\n\n"));
+    }
+
+    const content = parts.join("\n\n");
+
+    return {
+      content,
+      metadata: {
+        fileType: "pptx",
+        strategyUsed: this.getStrategyType(),
+        originalSize: buffer.length,
+        extractedLength: content.length,
+        outline,
+      },
+    };
+  }
+
+  /**
+   * プレゼンテーションの表示順にスライドXMLのパスを取得する
+   * 表示順を解決できない場合はファイル名の番号順とする
+   */
+  private async resolveSlidePaths(zip: JSZip): Promise<string[]> {
+    const presentationXml = await zip
+      .file("ppt/presentation.xml")
+      ?.async("string");
+    const relationships = await this.readRelationships(
+      zip,
+      "ppt/presentation.xml",
+    );
+
+    if (presentationXml) {
+      const ordered = Array.from(
+        presentationXml.matchAll(/<p:sldId\b[^>]*\br:id="([^"]+)"/g),
+      )
+        .map((match) => relationships.get(match[1])?.target)
+        .filter((target): target is string => !!target && !!zip.file(target));
+      if (ordered.length > 0) {
+        return ordered;
+      }
+    }
+
+    const slideNumber = (name: string) =>
+      Number(/slide(\d+)\.xml$/.exec(name)?.[1] ?? 0);
+    return Object.keys(zip.files)
+      .filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+      .sort((a, b) => slideNumber(a) - slideNumber(b));
+  }
+
+  /**
+   * パーツの関係（_rels）を読み取り、IDごとの種別と絶対パスを返す
+   */
+  private async readRelationships(
+    zip: JSZip,
+    partPath: string,
+  ): Promise<Map<string, { type: string; target: string }>> {
+    const dir = path.posix.dirname(partPath);
+    const relsPath = `${dir}/_rels/${path.posix.basename(partPath)}.rels`;
+    const relsXml = await zip.file(relsPath)?.async("string");
+    const relationships = new Map<string, { type: string; target: string }>();
+    if (!relsXml) {
+      return relationships;
+    }
+
+    for (const match of relsXml.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+      const attrs = match[1];
+      const id = /\bId="([^"]+)"/.exec(attrs)?.[1];
+      const type = /\bType="([^"]+)"/.exec(attrs)?.[1];
+      const target = /\bTarget="([^"]+)"/.exec(attrs)?.[1];
+      if (id && type && target) {
+        relationships.set(id, {
+          type,
+          target: path.posix.normalize(`${dir}/${target}`),
+        });
+      }
+    }
+    return relationships;
+  }
+
+  /**
+   * スライドXMLからタイトルと本文を抽出する
+   * 図形（テキストボックス）と表を出現順に処理する
+   */
+  private parseSlide(xml: string): SlideContent {
+    let title: string | null = null;
+    const body: string[] = [];
+
+    for (const match of xml.matchAll(
+      /<p:sp\b[\s\S]*?<\/p:sp>|<p:graphicFrame\b[\s\S]*?<\/p:graphicFrame>/g,
+    )) {
+      const shapeXml = match[0];
+
+      if (shapeXml.startsWith("<p:graphicFrame")) {
+        const table = this.parseTable(shapeXml);
+        if (table) {
+          body.push(table);
+        }
+        continue;
+      }
+
+      const placeholderType = /<p:ph\b[^>]*\btype="([^"]+)"/.exec(
+        shapeXml,
+      )?.[1];
+      const paragraphs = this.parseParagraphs(shapeXml);
+      if (paragraphs.length === 0) continue;
+
+      if (
+        title === null &&
+        placeholderType &&
+        TITLE_PLACEHOLDER_TYPES.includes(placeholderType)
+      ) {
+        title = paragraphs.map((p) => p.text).join(" ");
+        continue;
+      }
+
+      body.push(this.formatParagraphs(paragraphs));
+    }
+
+    return { title, body };
+  }
+
+  /**
+   * スライドに対応する発表者ノートを抽出する
+   * ノートの本文プレースホルダーのみを対象とし、スライド番号などは除外する
+   */
+  private async extractNotes(zip: JSZip, slidePath: string): Promise<string[]> {
+    const relationships = await this.readRelationships(zip, slidePath);
+    const notesPath = Array.from(relationships.values()).find(
+      (rel) => rel.type === NOTES_SLIDE_RELATIONSHIP_TYPE,
+    )?.target;
+    const notesXml = notesPath
+      ? await zip.file(notesPath)?.async("string")
+      : undefined;
+    if (!notesXml) {
+      return [];
+    }
+
+    const notes: string[] = [];
+    for (const match of notesXml.matchAll(/<p:sp\b[\s\S]*?<\/p:sp>/g)) {
+      const placeholderType = /<p:ph\b[^>]*\btype="([^"]+)"/.exec(
+        match[0],
+      )?.[1];
+      if (placeholderType !== "body") continue;
+
+      const paragraphs = this.parseParagraphs(match[0]);
+      if (paragraphs.length > 0) {
+        notes.push(this.formatParagraphs(paragraphs));
+      }
+    }
+    return notes;
+  }
+
+  /**
+   * 図形内の段落（テキストと箇条書きの階層）を抽出する
+   * 空の段落は除外する
+   */
+  private parseParagraphs(xml: string): { text: string; level: number }[] {
+    return Array.from(xml.matchAll(/<a:p(?:\s[^>]*)?>[\s\S]*?<\/a:p>/g))
+      .map((match) => ({
+        text: this.parseText(match[0]),
+        level: Number(/<a:pPr\b[^>]*\blvl="(\d+)"/.exec(match[0])?.[1] ?? 0),
+      }))
+      .filter((paragraph) => paragraph.text.length > 0);
+  }
+
+  /**
+   * 段落内のテキストランを連結する（改行要素は改行に置き換える）
+   */
+  private parseText(xml: string): string {
+    return Array.from(
+      xml.matchAll(/<a:t(?:\s[^>]*)?>([\s\S]*?)<\/a:t>|<a:br\b[^>]*\/>/g),
+    )
+      .map((match) =>
+        match[1] === undefined
+          ? "\n"
+          : MarkdownFormatter.decodeEntities(match[1]),
+      )
+      .join("")
+      .trim();
+  }
+
+  /**
+   * 段落を出力用のテキストに整形する
+   * 複数段落の図形は箇条書きとして階層をインデントで表現する
+   */
+  private formatParagraphs(
+    paragraphs: { text: string; level: number }[],
+  ): string {
+    if (paragraphs.length === 1 && paragraphs[0].level === 0) {
+      return paragraphs[0].text;
+    }
+    return paragraphs
+      .map(
+        (paragraph) =>
+          `${"  ".repeat(paragraph.level)}- ${paragraph.text.replace(/\n/g, " ")}`,
+      )
+      .join("\n");
+  }
+
+  /**
+   * 表を含むグラフィックフレームをMarkdownの表に変換する
+   * 表以外（グラフ・図表など）の場合は空文字を返す
+   */
+  private parseTable(xml: string): string {
+    if (!xml.includes("<a:tbl>")) {
+      return "";
+    }
+    const rows = Array.from(xml.matchAll(/<a:tr\b[\s\S]*?<\/a:tr>/g)).map(
+      (row) =>
+        Array.from(row[0].matchAll(/<a:tc\b[\s\S]*?<\/a:tc>/g)).map((cell) =>
+          this.parseParagraphs(cell[0])
+            .map((paragraph) => paragraph.text)
+            .join("\n"),
+        ),
+    );
+    return MarkdownFormatter.table(rows);
+  }
+}
@@ -0,0 +1,81 @@
+import type {
+  ITextExtractorStrategy,
+  TextExtractionResult,
+  TextExtractorOptions,
+  TextExtractorType,
+} from "@/application/shared/port/textExtractor";
+import {
+  SOURCE_CODE_EXTENSIONS,
+  getSourceCodeLanguage,
+} from "@/lib/shared/sourceCode";
+
+/**
+ * ソースコードの抽出戦略
+ * AIが指摘箇所を行番号で引用できるよう、言語タグ付きのコードブロックに行番号を付けて出力する
+ *
+ * 出力例:
+ * ```typescript
+ *  1 | const a = 1;
+ *  2 | export default a;
+ * ```
+ */
+export class SourceCodeExtractorStrategy implements ITextExtractorStrategy {
+  /**
+   * サポートする拡張子を返す
+   */
+  getSupportedExtensions(): string[] {
+    return SOURCE_CODE_EXTENSIONS;
+  }
+
+  /**
+   * 戦略の識別子を返す
+   */
+  getStrategyType(): TextExtractorType {
+    return "source-code";
+  }
+
+  /**
+   * テキスト抽出を実行
+   * @param buffer ファイルのバイナリデータ
+   * @param options 抽出オプション（fileNameから言語タグを判定する）
+   * @returns 抽出結果
+   */
+  async extract(
+    buffer: Buffer,
+    options?: TextExtractorOptions,
+  ): Promise<TextExtractionResult> {
+    const encoding = (options?.encoding ?? "utf-8") as BufferEncoding;
+    const source = buffer
+      .toString(encoding)
+      .replace(/^﻿/, "")
+      .replace(/\r\n?/g, "\n");
+    const language = options?.fileName
+      ? (getSourceCodeLanguage(options.fileName) ?? "")
+      : "";
+
+    // 末尾の改行による空行は行番号を付けない
+    const lines = source.replace(/\n$/, "").split("\n");
+    const width = String(lines.length).length;
+    const numbered = lines
+      .map((line, index) => `${String(index + 1).padStart(width)} | ${line}`)
+      .join("\n");
+
+    // コード内にバッククォートの連続がある場合も閉じられないよう、フェンスを長くする
+    const longestBackticks = Math.max(
+      0,
+      ...(source.match(/`+/g) ?? []).map((ticks) => ticks.length),
+    );
+    const fence = "`".repeat(Math.max(3, longestBackticks + 1));
+    const content = `${fence}${language}\n${numbered}\n${fence}`;
+
+    return {
+      content,
+      metadata: {
+        fileType: language || "source",
+        strategyUsed: this.getStrategyType(),
+        originalSize: buffer.length,
+        extractedLength: content.length,
+      },
+    };
+  }
+}
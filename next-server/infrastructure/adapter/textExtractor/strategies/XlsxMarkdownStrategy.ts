@@ -0,0 +1,103 @@
+import * as XLSX from "xlsx";
+import type {
+  ITextExtractorStrategy,
+  TextExtractionResult,
+  TextExtractionSection,
+  TextExtractorOptions,
+  TextExtractorType,
+} from "@/application/shared/port/textExtractor";
+import { MarkdownFormatter } from "../MarkdownFormatter";
+
+/**
+ * Excelファイル（.xlsx, .xls）のMarkdown抽出戦略
+ * SheetJS（xlsx）を使用して各シートを「## Sheet: シート名」見出し付きのMarkdown表に変換する
+ * 各シートの先頭行を表の見出し行として扱う
+ */
+export class XlsxMarkdownStrategy implements ITextExtractorStrategy {
+  /**
+   * サポートする拡張子を返す
+   */
+  getSupportedExtensions(): string[] {
+    return [".xlsx", ".xls"];
+  }
+
+  /**
+   * 戦略の識別子を返す
+   */
+  getStrategyType(): TextExtractorType {
+    return "xlsx-markdown";
+  }
+
+  /**
+   * テキスト抽出を実行
+   * @param buffer ファイルのバイナリデータ
+   * @param _options 抽出オプション（XLSXでは使用しない）
+   * @returns 抽出結果
+   */
+  async extract(
+    buffer: Buffer,
+    _options?: TextExtractorOptions,
+  ): Promise<TextExtractionResult> {
+    // ワークブックを読み込み
+    const workbook = XLSX.read(buffer, { type: "buffer" });
+
+    const parts: string[] = [];
+    const outline: TextExtractionSection[] = [];
+
+    for (const sheetName of workbook.SheetNames) {
+      const sheet = workbook.Sheets[sheetName];
+      if (!sheet) continue;
+
+      outline.push({ level: 2, title: sheetName });
+      parts.push(`## Sheet: ${sheetName}`);
+
+      // 表示形式の文字列で取得する
+      const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+        header: 1,
+        raw: false,
+        defval: "",
+        blankrows: false,
+      });
+      const table = MarkdownFormatter.table(this.toCells(rows));
+      if (table) {
+        parts.push(table);
+      }
+    }
+
+    const content = parts.join("\n\n");
+
+    return {
+      content,
+      metadata: {
+        fileType: "xlsx",
+        strategyUsed: this.getStrategyType(),
+        originalSize: buffer.length,
+        extractedLength: content.length,
+        outline,
+      },
+    };
+  }
+
+  /**
+   * セルを文字列に変換し、空の行と全行で空の末尾列を取り除く
+   * （空文字のセルを含む行はSheetJSの空行判定の対象外のため、ここで除外する）
+   */
+  private toCells(rows: unknown[][]): string[][] {
+    const cells = rows
+      .map((row) =>
+        row.map((cell) =>
+          cell === null || cell === undefined ? "" : String(cell),
+        ),
+      )
+      .filter((row) => row.some((cell) => cell.trim() !== ""));
+    const columnCount = Math.max(
+      0,
+      ...cells.map((row) => {
+        let last = row.length;
+        while (last > 0 && row[last - 1].trim() === "") last--;
+        return last;
+      }),
+    );
+    return cells.map((row) => row.slice(0, columnCount));
+  }
+}
@@ -0,0 +1,75 @@
+import type {
+  IWebhookSender,
+  WebhookSendRequest,
+  WebhookSendResult,
+} from "@/application/shared/port/webhook";
+
+/** エラーメッセージに含める応答ボディの最大長 */
+const MAX_RESPONSE_EXCERPT_LENGTH = 200;
+
+/**
+ * HTTPによるWebhook送信の実装
+ * fetchでJSONをPOSTし、2xx応答を成功とみなす
+ * リダイレクトは追跡しない（署名済みペイロードを意図しない宛先へ転送しないため）
+ */
+export class HttpWebhookSender implements IWebhookSender {
+  async send(request: WebhookSendRequest): Promise<WebhookSendResult> {
+    let response: Response;
+    try {
+      response = await fetch(request.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "AIKATA-Webhook",
+          ...request.headers,
+        },
+        body: request.body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(request.timeoutMs),
+      });
+    } catch (error) {
+      return {
+        status: "error",
+        statusCode: null,
+        errorMessage: HttpWebhookSender.describeFetchError(
+          error,
+          request.timeoutMs,
+        ),
+      };
+    }
+
+    if (response.status >= 200 && response.status < 300) {
+      // 接続を解放するためボディを読み捨てる
+      await response.body?.cancel().catch(() => undefined);
+      return { status: "success", statusCode: response.status };
+    }
+
+    const excerpt = await response
+      .text()
+      .then((text) => text.slice(0, MAX_RESPONSE_EXCERPT_LENGTH))
+      .catch(() => "");
+    return {
+      status: "error",
+      statusCode: response.status,
+      errorMessage: excerpt
+        ? `HTTP ${response.status}: ${excerpt}`
+        : `HTTP ${response.status}`,
+    };
+  }
+
+  /**
+   * fetchの例外を配信ログに記録するメッセージに変換する
+   */
+  private static describeFetchError(error: unknown, timeoutMs: number): string {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      return `${timeoutMs}ms以内に応答がありませんでした`;
+    }
+    if (error instanceof Error) {
+      const cause = (error as Error & { cause?: unknown }).cause;
+      return cause instanceof Error
+        ? `${error.message}: ${cause.message}`
+        : error.message;
+    }
+    return "送信中に予期せぬエラーが発生しました";
+  }
+}
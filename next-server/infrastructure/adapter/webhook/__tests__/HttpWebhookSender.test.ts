@@ -0,0 +1,143 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+import { HttpWebhookSender } from "../HttpWebhookSender";
+
+/**
+ * ローカルHTTPスタブが受信したリクエスト
+ */
+interface ReceivedRequest {
+  method: string | undefined;
+  url: string | undefined;
+  headers: IncomingMessage["headers"];
+  body: string;
+}
+
+describe("HttpWebhookSender", () => {
+  const sender = new HttpWebhookSender();
+  let server: Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[];
+
+  // 受信したリクエストを記録し、パスごとに応答を切り替えるローカルHTTPスタブ
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({
+          method: req.method,
+          url: req.url,
+          headers: req.headers,
+          body,
+        });
+        switch (req.url) {
+          case "/ok":
+            res.writeHead(204).end();
+            break;
+          case "/error":
+            res.writeHead(500).end("internal failure");
+            break;
+          case "/redirect":
+            res.writeHead(302, { Location: "/ok" }).end();
+            break;
+          case "/slow":
+            setTimeout(() => res.writeHead(200).end(), 500);
+            break;
+          default:
+            res.writeHead(404).end();
+        }
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  it("JSONボディと指定ヘッダーをPOSTし、2xx応答を成功として返す", async () => {
+    const body = JSON.stringify({ event: "review.completed" });
+
+    const result = await sender.send({
+      url: `${baseUrl}/ok`,
+      body,
+      headers: { "X-Webhook-Signature": "sha256=abc" },
+      timeoutMs: 2000,
+    });
+
+    expect(result).toEqual({ status: "success", statusCode: 204 });
+    expect(received).toHaveLength(1);
+    expect(received[0].method).toBe("POST");
+    expect(received[0].body).toBe(body);
+    expect(received[0].headers["content-type"]).toBe("application/json");
+    expect(received[0].headers["x-webhook-signature"]).toBe("sha256=abc");
+  });
+
+  it("2xx以外の応答はステータスコードと応答ボディの抜粋を返す", async () => {
+    const result = await sender.send({
+      url: `${baseUrl}/error`,
+      body: "{}",
+      headers: {},
+      timeoutMs: 2000,
+    });
+
+    expect(result).toEqual({
+      status: "error",
+      statusCode: 500,
+      errorMessage: "HTTP 500: internal failure",
+    });
+  });
+
+  it("リダイレクトは追跡せず失敗として扱う", async () => {
+    const result = await sender.send({
+      url: `${baseUrl}/redirect`,
+      body: "{}",
+      headers: {},
+      timeoutMs: 2000,
+    });
+
+    expect(result.status).toBe("error");
+    expect(received.map((r) => r.url)).toEqual(["/redirect"]);
+  });
+
+  it("タイムアウトした場合はステータスコードなしの失敗を返す", async () => {
+    const result = await sender.send({
+      url: `${baseUrl}/slow`,
+      body: "{}",
+      headers: {},
+      timeoutMs: 100,
+    });
+
+    expect(result).toEqual({
+      status: "error",
+      statusCode: null,
+      errorMessage: "100ms以内に応答がありませんでした",
+    });
+  });
+
+  it("接続できない場合はステータスコードなしの失敗を返す", async () => {
+    const result = await sender.send({
+      url: "http://127.0.0.1:1/unreachable",
+      body: "{}",
+      headers: {},
+      timeoutMs: 2000,
+    });
+
+    expect(result.status).toBe("error");
+    if (result.status === "error") {
+      expect(result.statusCode).toBeNull();
+      expect(result.errorMessage).not.toBe("");
+    }
+  });
+});
@@ -0,0 +1 @@
+export { HttpWebhookSender } from "./HttpWebhookSender";
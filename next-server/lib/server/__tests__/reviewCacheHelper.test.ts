@@ -276,6 +276,40 @@ describe("ReviewCacheHelper", () => {
     });
   });
 
+  describe("getCacheDirectorySize", () => {
+    it("キャッシュディレクトリ配下のファイルサイズを再帰的に合計する", async () => {
+      const cacheDir = path.join("./review_cache", testReviewTargetId);
+      vi.mocked(fs.readdir).mockImplementation((async (dir: string) => {
+        if (dir === cacheDir) {
+          return [
+            { name: "a.txt", isDirectory: () => false, isFile: () => true },
+            { name: "images", isDirectory: () => true, isFile: () => false },
+          ];
+        }
+        return [
+          { name: "page_1.png", isDirectory: () => false, isFile: () => true },
+        ];
+      }) as unknown as typeof fs.readdir);
+      vi.mocked(fs.stat).mockImplementation((async (filePath: string) => ({
+        size: filePath.endsWith("a.txt") ? 100 : 2048,
+      })) as unknown as typeof fs.stat);
+
+      const result =
+        await ReviewCacheHelper.getCacheDirectorySize(testReviewTargetId);
+
+      expect(result).toBe(2148);
+    });
+
+    it("ディレクトリが存在しない場合は0を返す", async () => {
+      vi.mocked(fs.readdir).mockRejectedValue(new Error("ENOENT"));
+
+      const result =
+        await ReviewCacheHelper.getCacheDirectorySize(testReviewTargetId);
+
+      expect(result).toBe(0);
+    });
+  });
+
   describe("exists", () => {
     it("パスが存在する場合はtrueを返す", async () => {
       vi.mocked(fs.access).mockResolvedValue(undefined);
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from "next/server";
+import { v4 as uuidv4 } from "uuid";
+import { AuthenticatePersonalAccessTokenService } from "@/application/personalAccessToken";
+import {
+  PersonalAccessTokenRepository,
+  ReviewSpaceRepository,
+  ReviewTargetRepository,
+  UserRepository,
+} from "@/infrastructure/adapter/db";
+import { ReviewSpaceId } from "@/domain/reviewSpace";
+import { ReviewTargetId } from "@/domain/reviewTarget";
+import { errorStatusCodeMap } from "@/types";
+import type { AuthContext } from "./baseAction";
+import {
+  AppError,
+  normalizeUnknownError,
+  toPayload,
+  unauthorizedError,
+} from "./error";
+import { createContextLogger, getLogger } from "./logger";
+import { runWithRequestContext } from "./requestContext";
+
+/**
+ * REST API（/api/v1）の認証済みコンテキスト
+ * パーソナルアクセストークンの発行ユーザーとして処理する
+ */
+export interface ApiAuthContext extends AuthContext {
+  /** 認証に使用したトークンID */
+  tokenId: string;
+  /** トークンでアクセスを許可されたプロジェクトID一覧 */
+  projectIds: string[];
+}
+
+/**
+ * REST APIハンドラーに渡すコンテキスト
+ */
+interface ApiRouteContext<P> {
+  auth: ApiAuthContext;
+  params: P;
+}
+
+/**
+ * AuthorizationヘッダーからBearerトークンを取り出す
+ */
+function extractBearerToken(request: NextRequest): string | null {
+  const authorization = request.headers.get("authorization");
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * 例外をREST APIのエラーレスポンスに変換する
+ * サーバーアクションと同じく、expose: false のエラーは汎用メッセージに丸める
+ */
+export function toApiErrorResponse(error: unknown): Response {
+  const appError = normalizeUnknownError(error);
+  getLogger().error({ err: appError }, "API route error occurred");
+  return NextResponse.json(
+    { error: toPayload(appError) },
+    { status: errorStatusCodeMap[appError.errorCode] },
+  );
+}
+
+/**
+ * パーソナルアクセストークンで認証するREST APIのルートハンドラーを作成する
+ * - Authorization: Bearer <token> を検証し、発行ユーザーとして処理する
+ * - AsyncLocalStorageにリクエストコンテキストを設定（全レイヤーでgetLogger()でアクセス可能）
+ * - 例外は { error: { code, message } } 形式のJSONで返す
+ */
+export function apiRoute<P = Record<string, never>>(
+  handler: (
+    request: NextRequest,
+    context: ApiRouteContext<P>,
+  ) => Promise<Response>,
+) {
+  return async (
+    request: NextRequest,
+    { params }: { params: Promise<P> },
+  ): Promise<Response> => {
+    try {
+      const rawToken = extractBearerToken(request);
+      if (!rawToken) {
+        throw unauthorizedError();
+      }
+
+      const principal = await new AuthenticatePersonalAccessTokenService(
+        new PersonalAccessTokenRepository(),
+        new UserRepository(),
+      ).execute({ rawToken });
+
+      const requestId = uuidv4();
+      const auth: ApiAuthContext = {
+        userId: principal.userId,
+        employeeId: principal.employeeId,
+        displayName: principal.displayName,
+        isAdmin: principal.isAdmin,
+        requestId,
+        tokenId: principal.tokenId,
+        projectIds: principal.projectIds,
+      };
+
+      createContextLogger({
+        requestId,
+        employeeId: principal.employeeId,
+      }).info(
+        { tokenId: principal.tokenId, method: request.method },
+        "API request started",
+      );
+
+      const resolvedParams = await params;
+      return await runWithRequestContext(
+        { requestId, employeeId: principal.employeeId },
+        () => handler(request, { auth, params: resolvedParams }),
+      );
+    } catch (error) {
+      return toApiErrorResponse(error);
+    }
+  };
+}
+
+/**
+ * トークンで指定プロジェクトへのアクセスが許可されていることを確認する
+ * @throws 権限エラー - トークンの対象外のプロジェクトの場合
+ */
+export function assertProjectScope(
+  auth: ApiAuthContext,
+  projectId: string,
+): void {
+  if (!auth.projectIds.includes(projectId)) {
+    throw new AppError("FORBIDDEN", {
+      expose: true,
+      messageCode: "PERSONAL_ACCESS_TOKEN_SCOPE_DENIED",
+    });
+  }
+}
+
+/**
+ * レビュースペースがトークンの対象プロジェクトに属することを確認する
+ * @throws NOT_FOUNDエラー - レビュースペースが存在しない場合
+ * @throws 権限エラー - トークンの対象外のプロジェクトの場合
+ */
+export async function assertReviewSpaceScope(
+  auth: ApiAuthContext,
+  reviewSpaceId: string,
+): Promise<void> {
+  const reviewSpace = await new ReviewSpaceRepository().findById(
+    ReviewSpaceId.reconstruct(reviewSpaceId),
+  );
+  if (!reviewSpace) {
+    throw new AppError("NOT_FOUND", {
+      expose: true,
+      messageCode: "API_REVIEW_SPACE_NOT_FOUND",
+    });
+  }
+  assertProjectScope(auth, reviewSpace.projectId.value);
+}
+
+/**
+ * レビュー対象がトークンの対象プロジェクトに属することを確認する
+ * @throws NOT_FOUNDエラー - レビュー対象が存在しない場合
+ * @throws 権限エラー - トークンの対象外のプロジェクトの場合
+ */
+export async function assertReviewTargetScope(
+  auth: ApiAuthContext,
+  reviewTargetId: string,
+): Promise<void> {
+  const reviewTarget = await new ReviewTargetRepository().findById(
+    ReviewTargetId.reconstruct(reviewTargetId),
+  );
+  if (!reviewTarget) {
+    throw new AppError("NOT_FOUND", {
+      expose: true,
+      messageCode: "API_REVIEW_TARGET_NOT_FOUND",
+    });
+  }
+  await assertReviewSpaceScope(auth, reviewTarget.reviewSpaceId.value);
+}
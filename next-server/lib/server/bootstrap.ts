@@ -1,4 +1,5 @@
 import { getAiTaskBootstrap } from "@/application/aiTask";
+import { getWebhookDeliveryWorker } from "@/application/webhook";
 import { getLogger } from "./logger";
 
 const logger = getLogger();
@@ -22,6 +23,9 @@ export async function initializeServer(): Promise<void> {
     const aiTaskBootstrap = getAiTaskBootstrap();
     await aiTaskBootstrap.initialize();
 
+    // Webhook配信ワーカーを開始
+    getWebhookDeliveryWorker().start();
+
     isInitialized = true;
     logger.info("サーバの初期化が完了しました");
   } catch (error) {
@@ -46,6 +50,9 @@ export async function shutdownServer(): Promise<void> {
     const aiTaskBootstrap = getAiTaskBootstrap();
     await aiTaskBootstrap.shutdown();
 
+    // Webhook配信ワーカーを停止
+    getWebhookDeliveryWorker().stop();
+
     isInitialized = false;
     logger.info("サーバのシャットダウンが完了しました");
   } catch (error) {
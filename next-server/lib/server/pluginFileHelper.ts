@@ -0,0 +1,114 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { getLogger } from "./logger";
+
+const logger = getLogger();
+
+/**
+ * プラグインスクリプトの保存先ディレクトリを取得する
+ * 環境変数PLUGIN_FILE_DIRが設定されていればそれを使用、なければデフォルト値
+ */
+const getFileBaseDir = (): string => {
+  return process.env.PLUGIN_FILE_DIR || "./plugin_files";
+};
+
+/**
+ * レビュースペースプラグインのスクリプトファイルを管理するヘルパークラス
+ * アップロードされたプラグインを保存・読み込み・削除する
+ */
+export class PluginFileHelper {
+  /**
+   * ファイルベースディレクトリを取得する
+   */
+  static getFileBaseDir(): string {
+    return getFileBaseDir();
+  }
+
+  /**
+   * レビュースペースIDに基づくプラグインディレクトリを取得する
+   */
+  static getReviewSpaceDir(reviewSpaceId: string): string {
+    return path.join(getFileBaseDir(), reviewSpaceId);
+  }
+
+  /**
+   * スクリプトの保存先パスを取得する
+   */
+  static getScriptPath(reviewSpaceId: string, pluginId: string): string {
+    return path.join(
+      PluginFileHelper.getReviewSpaceDir(reviewSpaceId),
+      `${pluginId}.js`,
+    );
+  }
+
+  /**
+   * スクリプトを保存する
+   * @param reviewSpaceId レビュースペースID
+   * @param pluginId プラグインID
+   * @param script スクリプト本文
+   * @returns 保存先のファイルパス
+   */
+  static async saveScript(
+    reviewSpaceId: string,
+    pluginId: string,
+    script: string,
+  ): Promise<string> {
+    const dir = PluginFileHelper.getReviewSpaceDir(reviewSpaceId);
+    await fs.mkdir(dir, { recursive: true });
+
+    const scriptPath = PluginFileHelper.getScriptPath(reviewSpaceId, pluginId);
+    await fs.writeFile(scriptPath, script, "utf-8");
+
+    logger.debug(
+      { reviewSpaceId, pluginId, scriptPath },
+      "プラグインスクリプトを保存しました",
+    );
+    return scriptPath;
+  }
+
+  /**
+   * スクリプトを読み込む
+   * @param scriptPath スクリプトパス
+   * @returns スクリプト本文
+   */
+  static async loadScript(scriptPath: string): Promise<string> {
+    return fs.readFile(scriptPath, "utf-8");
+  }
+
+  /**
+   * 単一のスクリプトを削除する
+   * @param scriptPath スクリプトパス
+   */
+  static async deleteScript(scriptPath: string): Promise<void> {
+    try {
+      await fs.unlink(scriptPath);
+      logger.debug({ scriptPath }, "プラグインスクリプトを削除しました");
+    } catch (error) {
+      // ファイルが存在しない場合は無視
+      logger.debug(
+        { scriptPath, error },
+        "プラグインスクリプトの削除に失敗しましたが、無視します",
+      );
+    }
+  }
+
+  /**
+   * レビュースペースのプラグインディレクトリを削除する
+   * @param reviewSpaceId レビュースペースID
+   */
+  static async deleteReviewSpaceScripts(reviewSpaceId: string): Promise<void> {
+    const dir = PluginFileHelper.getReviewSpaceDir(reviewSpaceId);
+    try {
+      await fs.rm(dir, { recursive: true, force: true });
+      logger.debug(
+        { reviewSpaceId, dir },
+        "プラグインディレクトリを削除しました",
+      );
+    } catch (error) {
+      logger.debug(
+        { reviewSpaceId, dir, error },
+        "プラグインディレクトリの削除に失敗しましたが、無視します",
+      );
+    }
+  }
+}
@@ -12,6 +12,31 @@ const getCacheBaseDir = (): string => {
   return process.env.REVIEW_CACHE_DIR || "./review_cache";
 };
 
+/**
+ * ディレクトリ配下のファイルサイズの合計を再帰的に取得する
+ * 存在しないディレクトリは0として扱う
+ */
+const getDirectorySize = async (dir: string): Promise<number> => {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+
+  let total = 0;
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      total += await getDirectorySize(entryPath);
+    } else if (entry.isFile()) {
+      const stat = await fs.stat(entryPath);
+      total += stat.size;
+    }
+  }
+  return total;
+};
+
 /**
  * レビュードキュメントキャッシュを管理するヘルパークラス
  * リトライ時にドキュメントの再処理を省略するために使用
@@ -153,6 +178,15 @@ export class ReviewCacheHelper {
     }
   }
 
+  /**
+   * レビュー対象のキャッシュディレクトリの使用容量を取得する
+   * @param reviewTargetId レビュー対象ID
+   * @returns 合計バイト数（ディレクトリが存在しない場合は0）
+   */
+  static async getCacheDirectorySize(reviewTargetId: string): Promise<number> {
+    return getDirectorySize(ReviewCacheHelper.getCacheDir(reviewTargetId));
+  }
+
   /**
    * キャッシュが存在するか確認する
    * @param cachePath キャッシュファイル/ディレクトリのパス
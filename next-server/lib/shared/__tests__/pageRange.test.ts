@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { isValidPageRange, parsePageRange } from "../pageRange";
+
+describe("pageRange", () => {
+  describe("isValidPageRange", () => {
+    it("単一ページ・範囲・末尾までの範囲を受け付ける", () => {
+      expect(isValidPageRange("3")).toBe(true);
+      expect(isValidPageRange("1-5")).toBe(true);
+      expect(isValidPageRange("10-")).toBe(true);
+      expect(isValidPageRange("1-3, 5, 8-")).toBe(true);
+    });
+
+    it("空文字は全ページとして受け付ける", () => {
+      expect(isValidPageRange("")).toBe(true);
+      expect(isValidPageRange("  ")).toBe(true);
+    });
+
+    it("不正な書式を拒否する", () => {
+      expect(isValidPageRange("0")).toBe(false);
+      expect(isValidPageRange("5-3")).toBe(false);
+      expect(isValidPageRange("a-b")).toBe(false);
+      expect(isValidPageRange("1,,2")).toBe(false);
+      expect(isValidPageRange("-3")).toBe(false);
+    });
+  });
+
+  describe("parsePageRange", () => {
+    it("未指定の場合は全ページを返す", () => {
+      expect(parsePageRange(undefined, 3)).toEqual([1, 2, 3]);
+      expect(parsePageRange("", 2)).toEqual([1, 2]);
+    });
+
+    it("範囲を展開して昇順・重複なしで返す", () => {
+      expect(parsePageRange("5, 1-3, 2", 10)).toEqual([1, 2, 3, 5]);
+    });
+
+    it("末尾までの範囲は総ページ数まで展開する", () => {
+      expect(parsePageRange("8-", 10)).toEqual([8, 9, 10]);
+    });
+
+    it("総ページ数を超えるページは除外する", () => {
+      expect(parsePageRange("2-20, 15", 4)).toEqual([2, 3, 4]);
+    });
+
+    it("不正な書式の場合はエラーになる", () => {
+      expect(() => parsePageRange("3-1", 10)).toThrow(
+        "ページ範囲の指定が正しくありません",
+      );
+    });
+  });
+});
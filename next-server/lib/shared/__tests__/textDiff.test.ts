@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { diffText } from "../textDiff";
+
+describe("textDiff", () => {
+  describe("diffText", () => {
+    it("同じテキストは1つのequal断片になる", () => {
+      expect(diffText("目次があります", "目次があります")).toEqual([
+        { type: "equal", text: "目次があります" },
+      ]);
+    });
+
+    it("文字単位で追加・削除を検出する", () => {
+      expect(diffText("図表に番号がない", "図表に一部番号がない")).toEqual([
+        { type: "equal", text: "図表に" },
+        { type: "added", text: "一部" },
+        { type: "equal", text: "番号がない" },
+      ]);
+    });
+
+    it("置き換えは削除と追加の組み合わせになる", () => {
+      expect(diffText("評価はCです", "評価はAです")).toEqual([
+        { type: "equal", text: "評価は" },
+        { type: "removed", text: "C" },
+        { type: "added", text: "A" },
+        { type: "equal", text: "です" },
+      ]);
+    });
+
+    it("空文字との比較は全体を追加または削除として扱う", () => {
+      expect(diffText("", "新しいコメント")).toEqual([
+        { type: "added", text: "新しいコメント" },
+      ]);
+      expect(diffText("古いコメント", "")).toEqual([
+        { type: "removed", text: "古いコメント" },
+      ]);
+      expect(diffText("", "")).toEqual([]);
+    });
+
+    it("差分の断片を連結すると変更前・変更後のテキストに戻る", () => {
+      const before = "1章の記述が不足しています。2章は問題ありません。";
+      const after = "1章の記述は十分です。2章と3章は問題ありません。";
+      const segments = diffText(before, after);
+
+      expect(
+        segments
+          .filter((s) => s.type !== "added")
+          .map((s) => s.text)
+          .join(""),
+      ).toBe(before);
+      expect(
+        segments
+          .filter((s) => s.type !== "removed")
+          .map((s) => s.text)
+          .join(""),
+      ).toBe(after);
+    });
+  });
+});
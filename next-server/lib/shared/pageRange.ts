@@ -0,0 +1,81 @@
+/**
+ * ページ範囲ユーティリティ
+ * クライアント・サーバー両方で使用可能
+ */
+
+/**
+ * ドキュメントを画像に変換する際の解像度（倍率）の下限
+ */
+export const MIN_RENDER_SCALE = 0.5;
+
+/**
+ * ドキュメントを画像に変換する際の解像度（倍率）の上限
+ */
+export const MAX_RENDER_SCALE = 3;
+
+/**
+ * ドキュメントを画像に変換する際の解像度（倍率）の既定値
+ */
+export const DEFAULT_RENDER_SCALE = 2;
+
+/**
+ * ページ範囲の1区間の書式（例: "3" / "1-5" / "10-"）
+ */
+const RANGE_PART_PATTERN = /^(\d+)(?:\s*(-)\s*(\d+)?)?$/;
+
+/**
+ * ページ範囲の書式が正しいかどうかを判定する
+ * カンマ区切りで単一ページ（3）、範囲（1-5）、末尾までの範囲（10-）を指定できる
+ * 空文字は全ページとして扱うため正しい書式とみなす
+ * @param pageRange ページ範囲の文字列
+ */
+export function isValidPageRange(pageRange: string): boolean {
+  if (!pageRange.trim()) {
+    return true;
+  }
+  return pageRange.split(",").every((part) => {
+    const match = RANGE_PART_PATTERN.exec(part.trim());
+    if (!match) {
+      return false;
+    }
+    const start = Number(match[1]);
+    const end = match[3] !== undefined ? Number(match[3]) : undefined;
+    return start >= 1 && (end === undefined || end >= start);
+  });
+}
+
+/**
+ * ページ範囲を解析し、対象のページ番号（1始まり）を昇順で返す
+ * 総ページ数を超えるページは除外し、重複するページは1つにまとめる
+ * @param pageRange ページ範囲の文字列（未指定・空文字の場合は全ページ）
+ * @param totalPages ドキュメントの総ページ数
+ * @returns ページ番号の配列
+ * @throws 書式が正しくない場合
+ */
+export function parsePageRange(
+  pageRange: string | undefined,
+  totalPages: number,
+): number[] {
+  if (!pageRange?.trim()) {
+    return Array.from({ length: totalPages }, (_, i) => i + 1);
+  }
+  if (!isValidPageRange(pageRange)) {
+    throw new Error(`ページ範囲の指定が正しくありません: ${pageRange}`);
+  }
+
+  const pages = new Set<number>();
+  for (const part of pageRange.split(",")) {
+    const match = RANGE_PART_PATTERN.exec(part.trim())!;
+    const start = Number(match[1]);
+    const end = match[2]
+      ? Math.min(
+          match[3] !== undefined ? Number(match[3]) : totalPages,
+          totalPages,
+        )
+      : start;
+    for (let page = start; page <= end && page <= totalPages; page++) {
+      pages.add(page);
+    }
+  }
+  return Array.from(pages).sort((a, b) => a - b);
+}
@@ -0,0 +1,79 @@
+/**
+ * ソースコード・アーカイブのファイル形式ユーティリティ
+ * クライアント・サーバー両方で使用可能
+ */
+
+/**
+ * ソースコードの拡張子と言語タグ（Markdownのコードブロックで使用）のマッピング
+ */
+export const SOURCE_CODE_LANGUAGES: Record<string, string> = {
+  ".ts": "typescript",
+  ".tsx": "tsx",
+  ".js": "javascript",
+  ".jsx": "jsx",
+  ".mjs": "javascript",
+  ".cjs": "javascript",
+  ".py": "python",
+  ".java": "java",
+  ".kt": "kotlin",
+  ".scala": "scala",
+  ".go": "go",
+  ".rs": "rust",
+  ".rb": "ruby",
+  ".php": "php",
+  ".c": "c",
+  ".h": "c",
+  ".cpp": "cpp",
+  ".cc": "cpp",
+  ".hpp": "cpp",
+  ".cs": "csharp",
+  ".swift": "swift",
+  ".vue": "vue",
+  ".html": "html",
+  ".css": "css",
+  ".scss": "scss",
+  ".sql": "sql",
+  ".sh": "bash",
+  ".ps1": "powershell",
+  ".json": "json",
+  ".yaml": "yaml",
+  ".yml": "yaml",
+  ".xml": "xml",
+  ".md": "markdown",
+};
+
+/**
+ * サポートするソースコードの拡張子
+ */
+export const SOURCE_CODE_EXTENSIONS = Object.keys(SOURCE_CODE_LANGUAGES);
+
+/**
+ * サポートするアーカイブの拡張子
+ * .gzはtar形式をgzip圧縮したもの（.tar.gz）のみ対応
+ */
+export const ARCHIVE_EXTENSIONS = [".zip", ".tar", ".tgz", ".gz"];
+
+/**
+ * ファイル名から拡張子を取得（小文字）
+ */
+const getExtension = (fileName: string): string => {
+  const lastDot = fileName.lastIndexOf(".");
+  return lastDot === -1 ? "" : fileName.substring(lastDot).toLowerCase();
+};
+
+/**
+ * ソースコードの言語タグを取得する
+ * @param fileName ファイル名
+ * @returns 言語タグ、ソースコードでない場合はundefined
+ */
+export function getSourceCodeLanguage(fileName: string): string | undefined {
+  return SOURCE_CODE_LANGUAGES[getExtension(fileName)];
+}
+
+/**
+ * アーカイブファイルかどうかを判定する
+ * @param fileName ファイル名
+ */
+export function isArchiveFileName(fileName: string): boolean {
+  return ARCHIVE_EXTENSIONS.includes(getExtension(fileName));
+}
@@ -0,0 +1,105 @@
+/**
+ * テキスト差分ユーティリティ
+ * クライアント・サーバー両方で使用可能
+ */
+
+/**
+ * 差分の種別
+ */
+export type TextDiffType = "equal" | "added" | "removed";
+
+/**
+ * 差分の断片
+ */
+export interface TextDiffSegment {
+  type: TextDiffType;
+  text: string;
+}
+
+/**
+ * LCSを計算する最大のセル数（比較元の文字数 × 比較先の文字数）
+ * 超える場合は共通の前後以外を丸ごと置き換えとして扱う
+ */
+const MAX_LCS_CELLS = 1_000_000;
+
+/**
+ * 2つのテキストの文字単位の差分を計算する
+ * 日本語の文章は単語の区切りがないため、文字単位で比較する
+ * @param before 変更前のテキスト
+ * @param after 変更後のテキスト
+ * @returns 差分の断片の配列（同じ種別の連続する断片は結合される）
+ */
+export function diffText(before: string, after: string): TextDiffSegment[] {
+  const a = Array.from(before);
+  const b = Array.from(after);
+
+  // 共通の前後を除いてLCSの計算量を減らす
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const segments: TextDiffSegment[] = [];
+  const push = (type: TextDiffType, char: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += char;
+    } else {
+      segments.push({ type, text: char });
+    }
+  };
+
+  a.slice(0, prefix).forEach((char) => push("equal", char));
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    midA.forEach((char) => push("removed", char));
+    midB.forEach((char) => push("added", char));
+  } else {
+    // lengths[i][j]: midA[i..] と midB[j..] のLCSの長さ
+    const width = midB.length + 1;
+    const lengths = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i * width + j] =
+          midA[i] === midB[j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(
+                lengths[(i + 1) * width + j],
+                lengths[i * width + j + 1],
+              );
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        push("equal", midA[i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        push("removed", midA[i]);
+        i++;
+      } else {
+        push("added", midB[j]);
+        j++;
+      }
+    }
+    midA.slice(i).forEach((char) => push("removed", char));
+    midB.slice(j).forEach((char) => push("added", char));
+  }
+
+  a.slice(a.length - suffix).forEach((char) => push("equal", char));
+
+  return segments;
+}
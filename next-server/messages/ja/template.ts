@@ -24,6 +24,10 @@ export const template = {
   PROJECT_MEMBER_ALREADY_EXISTS: `指定されたユーザは既にプロジェクトメンバーです。`,
   PROJECT_MEMBER_NOT_FOUND: `指定されたユーザはプロジェクトメンバーではありません。`,
   PROJECT_MEMBER_USER_NOT_FOUND: `指定されたメンバーの一部が見つかりません。`,
+  PROJECT_MEMBER_ROLE_INVALID: `プロジェクトメンバーのロールが不正です。`,
+  PROJECT_OWNER_REQUIRED: `プロジェクトには少なくとも1人のオーナーが必要です。`,
+  PROJECT_PERMISSION_DENIED: `この操作を行う権限がありません。`,
+  PROJECT_MONTHLY_TOKEN_BUDGET_INVALID: `月間トークン上限は1以上の整数で指定してください。`,
   // レビュースペース管理ドメインバリデーションエラー
   REVIEW_SPACE_ID_INVALID_FORMAT: `レビュースペースIDの形式が不正です。有効なUUID形式である必要があります。`,
   REVIEW_SPACE_NAME_EMPTY: `スペース名は必須です。`,
@@ -31,10 +35,28 @@ export const template = {
   REVIEW_SPACE_DESCRIPTION_TOO_LONG: `スペース説明は1000文字以内で入力してください。`,
   REVIEW_SPACE_NOT_FOUND: `指定されたレビュースペースが見つかりません。`,
   REVIEW_SPACE_ACCESS_DENIED: `このレビュースペースへのアクセス権がありません。`,
+  // レビュースペースプラグイン関連エラー
+  REVIEW_SPACE_PLUGIN_ID_INVALID_FORMAT: `プラグインIDの形式が不正です。有効なUUID形式である必要があります。`,
+  REVIEW_SPACE_PLUGIN_HOOK_POINT_INVALID: `プラグインのフックポイントが不正です。`,
+  REVIEW_SPACE_PLUGIN_NAME_EMPTY: `プラグイン名は必須です。`,
+  REVIEW_SPACE_PLUGIN_NAME_TOO_LONG: `プラグイン名は100文字以内で指定してください。`,
+  REVIEW_SPACE_PLUGIN_NO_HOOKS: `プラグインにフックが1つも定義されていません。`,
+  REVIEW_SPACE_PLUGIN_EXTENSION_INVALID: `プラグインが宣言した拡張子の形式が不正です。`,
+  REVIEW_SPACE_PLUGIN_TIMEOUT_INVALID: `プラグインのタイムアウトは100〜60000ミリ秒の整数で指定してください。`,
+  REVIEW_SPACE_PLUGIN_NOT_FOUND: `指定されたプラグインが見つかりません。`,
+  REVIEW_SPACE_PLUGIN_FILE_INVALID: `プラグインファイルはJavaScript（.js）ファイルを指定してください。`,
+  REVIEW_SPACE_PLUGIN_FILE_TOO_LARGE: `プラグインファイルのサイズが上限（{maxSize}）を超えています。`,
+  REVIEW_SPACE_PLUGIN_LOAD_FAILED: `プラグインの読み込みに失敗しました: {detail}`,
+  PLUGIN_EXECUTION_FAILED: `プラグイン「{pluginName}」の実行（{hookPoint}）に失敗しました: {detail}`,
+  PLUGIN_EXECUTION_TIMEOUT: `プラグイン「{pluginName}」の実行（{hookPoint}）がタイムアウトしました。`,
   // チェック項目管理ドメインバリデーションエラー
   CHECK_LIST_ITEM_ID_INVALID_FORMAT: `チェック項目IDの形式が不正です。有効なUUID形式である必要があります。`,
   CHECK_LIST_ITEM_CONTENT_EMPTY: `チェック項目の内容は必須です。`,
   CHECK_LIST_ITEM_NOT_FOUND: `指定されたチェック項目が見つかりません。`,
+  CHECK_LIST_ITEM_CATEGORY_TOO_LONG: `チェック項目のカテゴリは100文字以内で入力してください。`,
+  CHECK_LIST_ITEM_SEVERITY_INVALID: `チェック項目の重要度が不正です。高・中・低のいずれかを指定してください。`,
+  CHECK_LIST_ITEM_GUIDANCE_TOO_LONG: `チェック項目のレビューガイダンスは2000文字以内で入力してください。`,
+  CHECK_LIST_ITEM_DISPLAY_ORDER_INVALID: `チェック項目の表示順は0以上の整数である必要があります。`,
   // チェックリストファイルインポートエラー
   CHECK_LIST_FILE_IMPORT_UNSUPPORTED_FORMAT: `サポートされていないファイル形式です。csv, xlsxファイルのみ対応しています。`,
   CHECK_LIST_FILE_IMPORT_FILE_TOO_LARGE: `ファイルサイズが上限（{maxSize}MB）を超えています。`,
@@ -55,6 +77,10 @@ export const template = {
   AI_CHECKLIST_GENERATION_FAILED: `AIチェックリスト生成に失敗しました。{detail}`,
   // PDF変換エラー
   PDF_CONVERSION_FAILED: `PDFの画像変換に失敗しました。{detail}`,
+  // ドキュメント画像変換エラー（サーバー側）
+  DOCUMENT_RENDER_FAILED: `ドキュメントの画像変換に失敗しました。{detail}`,
+  ARCHIVE_EXTRACTION_FAILED: `アーカイブの展開に失敗しました。{detail}`,
+  ARCHIVE_NO_TARGET_FILES: `アーカイブ「{fileName}」にレビュー対象のファイルがありません。対象・除外パターンと対応しているファイル形式を確認してください。`,
   // ファイルアップロードエラー
   FILE_UPLOAD_TOO_MANY_FILES: `ファイル数が上限（{maxFiles}件）を超えています。`,
   // レビュー設定ドメインバリデーションエラー
@@ -69,6 +95,7 @@ export const template = {
   REVIEW_SETTINGS_CONCURRENT_ITEMS_INVALID: `同時レビュー項目数は1以上100以下で設定してください。`,
   REVIEW_SETTINGS_COMMENT_FORMAT_REQUIRED: `コメントフォーマットは必須です。`,
   REVIEW_SETTINGS_COMMENT_FORMAT_TOO_LONG: `コメントフォーマットは2000文字以内で入力してください。`,
+  REVIEW_SETTINGS_CHUNKING_INVALID: `ドキュメント分割設定が不正です。チャンクサイズは500以上（未指定の場合は自動）、オーバーラップはチャンクサイズの半分未満、最大ページ数は1〜500、ページのオーバーラップは最大ページ数未満で設定してください。`,
   // レビュー対象管理ドメインバリデーションエラー
   REVIEW_TARGET_ID_INVALID_FORMAT: `レビュー対象IDの形式が不正です。有効なUUID形式である必要があります。`,
   REVIEW_TARGET_NAME_EMPTY: `レビュー対象名は必須です。`,
@@ -78,9 +105,19 @@ export const template = {
   REVIEW_TARGET_NOT_FOUND: `指定されたレビュー対象が見つかりません。`,
   REVIEW_TARGET_ACCESS_DENIED: `このレビュー対象へのアクセス権がありません。`,
   REVIEW_TARGET_CANNOT_DELETE_REVIEWING: `レビュー実行中のレビュー対象は削除できません。`,
+  REVIEW_TARGET_ALREADY_SIGNED_OFF: `このレビュー対象は既に承認済みです。`,
+  REVIEW_TARGET_NOT_SIGNED_OFF: `このレビュー対象は承認されていません。`,
+  REVIEW_TARGET_SIGN_OFF_NOT_COMPLETED: `レビューが完了していないため承認できません。`,
+  REVIEW_TARGET_SIGN_OFF_HAS_DISPUTED: `異議ありのレビュー結果が残っているため承認できません。対応状況を更新してから再度お試しください。`,
+  REVIEW_TARGET_SIGNED_OFF_LOCKED: `承認済みのレビュー対象は変更できません。承認を取り消してから再度お試しください。`,
+  REVIEW_TARGET_REVISION_MISMATCH: `同じレビュー対象のリビジョン同士のみ比較できます。`,
   // レビュー結果管理ドメインバリデーションエラー
   REVIEW_RESULT_ID_INVALID_FORMAT: `レビュー結果IDの形式が不正です。有効なUUID形式である必要があります。`,
   REVIEW_RESULT_EVALUATION_TOO_LONG: `評価ラベルは20文字以内で入力してください。`,
+  REVIEW_RESULT_NOT_FOUND: `指定されたレビュー結果が見つかりません。`,
+  REVIEW_RESULT_DISPOSITION_INVALID: `対応状況が不正です。`,
+  REVIEW_RESULT_EVALUATION_NOT_IN_CRITERIA: `評定は評価基準に定義されたラベルから選択してください。`,
+  REVIEW_RESULT_HUMAN_COMMENT_TOO_LONG: `レビュアーコメントは2000文字以内で入力してください。`,
   // レビュー実行エラー
   REVIEW_EXECUTION_NO_FILES: `ファイルが選択されていません。`,
   REVIEW_EXECUTION_NO_CHECKLIST: `チェックリストがありません。レビュー実行前にチェックリストを追加してください。`,
@@ -118,6 +155,7 @@ export const template = {
   AI_TASK_FILE_METADATA_ID_INVALID_FORMAT: `AIタスクファイルメタデータIDの形式が不正です。有効なUUID形式である必要があります。`,
   AI_TASK_NOT_FOUND: `指定されたAIタスクが見つかりません。`,
   AI_TASK_CANNOT_CANCEL_PROCESSING: `処理中のタスクはキャンセルできません。`,
+  AI_TASK_HISTORY_NOT_FINISHED: `完了または失敗していないAIタスクは実行履歴に記録できません。`,
   // AIタスクキュー処理エラー
   AI_TASK_ENQUEUE_FAILED: `AIタスクの実行待ちリスト登録に失敗しました。{detail}`,
   AI_TASK_EXECUTION_FAILED: `AIタスクの実行に失敗しました。{detail}`,
@@ -135,6 +173,8 @@ export const template = {
   QA_HISTORY_STATUS_INVALID: `Q&Aステータスが不正です。processing、completed、errorのいずれかである必要があります。`,
   QA_HISTORY_NOT_FOUND: `指定されたQ&A履歴が見つかりません。`,
   QA_HISTORY_ACCESS_DENIED: `このQ&A履歴へのアクセス権がありません。`,
+  QA_HISTORY_THREAD_NOT_FOUND: `続けて質問するスレッドが見つかりません。`,
+  QA_HISTORY_THREAD_IN_PROGRESS: `スレッド内の質問に回答中です。回答が完了してから質問してください。`,
   // Q&A実行エラー
   QA_EXECUTION_NO_DOCUMENT_CACHE: `ドキュメントキャッシュが見つかりません。レビューを実行してから再度お試しください。`,
   QA_EXECUTION_NO_REVIEW_RESULT: `レビュー結果が見つかりません。レビューを実行してから再度お試しください。`,
@@ -154,6 +194,54 @@ export const template = {
   SYSTEM_NOTIFICATION_MESSAGE_EMPTY: `通知メッセージは必須です。`,
   SYSTEM_NOTIFICATION_MESSAGE_TOO_LONG: `通知メッセージは1000文字以内で入力してください。`,
   SYSTEM_NOTIFICATION_NOT_FOUND: `指定されたシステム通知が見つかりません。`,
+  // 通知ドメインバリデーションエラー
+  NOTIFICATION_ID_INVALID_FORMAT: `通知IDの形式が不正です。有効なUUID形式である必要があります。`,
+  NOTIFICATION_TYPE_INVALID: `通知種別が不正です。`,
+  NOTIFICATION_TITLE_EMPTY: `通知タイトルは必須です。`,
+  NOTIFICATION_TITLE_TOO_LONG: `通知タイトルは255文字以内で指定してください。`,
+  NOTIFICATION_MESSAGE_TOO_LONG: `通知本文は2000文字以内で指定してください。`,
+  NOTIFICATION_NOT_FOUND: `指定された通知が見つかりません。`,
+  NOTIFICATION_ACCESS_DENIED: `この通知にアクセスする権限がありません。`,
+  // パーソナルアクセストークンドメインバリデーションエラー
+  PERSONAL_ACCESS_TOKEN_ID_INVALID_FORMAT: `アクセストークンIDの形式が不正です。有効なUUID形式である必要があります。`,
+  PERSONAL_ACCESS_TOKEN_NAME_EMPTY: `アクセストークン名は必須です。`,
+  PERSONAL_ACCESS_TOKEN_NAME_TOO_LONG: `アクセストークン名は100文字以内で入力してください。`,
+  PERSONAL_ACCESS_TOKEN_PROJECTS_EMPTY: `アクセスを許可するプロジェクトを1つ以上選択してください。`,
+  PERSONAL_ACCESS_TOKEN_EXPIRES_AT_INVALID: `アクセストークンの有効期限には未来の日時を指定してください。`,
+  PERSONAL_ACCESS_TOKEN_NOT_FOUND: `指定されたアクセストークンが見つかりません。`,
+  PERSONAL_ACCESS_TOKEN_ACCESS_DENIED: `このアクセストークンを操作する権限がありません。`,
+  PERSONAL_ACCESS_TOKEN_INVALID: `アクセストークンが無効か、有効期限が切れています。`,
+  PERSONAL_ACCESS_TOKEN_SCOPE_DENIED: `このアクセストークンには対象プロジェクトへのアクセスが許可されていません。`,
+  // REST APIエラー
+  API_REVIEW_SPACE_NOT_FOUND: `指定されたレビュースペースが見つかりません。`,
+  API_REVIEW_TARGET_NOT_FOUND: `指定されたレビュー対象が見つかりません。`,
+  API_REVIEW_TARGET_FILES_REQUIRED: `files にレビュー対象ファイルを1件以上指定してください。`,
+  API_REVIEW_TARGET_TOO_MANY_FILES: `files に指定できるファイルは{maxFiles}件までです。`,
+  API_REVIEW_TARGET_FILE_TOO_LARGE: `ファイル「{fileName}」のサイズが上限（{maxSize}MB）を超えています。`,
+  // Webhookドメインバリデーションエラー
+  WEBHOOK_ID_INVALID_FORMAT: `WebhookIDの形式が不正です。有効なUUID形式である必要があります。`,
+  WEBHOOK_DELIVERY_ID_INVALID_FORMAT: `Webhook配信IDの形式が不正です。有効なUUID形式である必要があります。`,
+  WEBHOOK_NAME_EMPTY: `Webhook名は必須です。`,
+  WEBHOOK_NAME_TOO_LONG: `Webhook名は100文字以内で入力してください。`,
+  WEBHOOK_URL_INVALID: `送信先URLにはhttpまたはhttpsで始まる2048文字以内のURLを指定してください。`,
+  WEBHOOK_EVENTS_EMPTY: `通知するイベントを1つ以上選択してください。`,
+  WEBHOOK_EVENT_INVALID: `Webhookのイベント種別が不正です。`,
+  WEBHOOK_NOT_FOUND: `指定されたWebhookが見つかりません。`,
+  WEBHOOK_DELIVERY_NOT_FOUND: `指定されたWebhookの配信記録が見つかりません。`,
+  // チェックリストテンプレートドメインバリデーションエラー
+  CHECKLIST_TEMPLATE_ID_INVALID_FORMAT: `チェックリストテンプレートIDの形式が不正です。有効なUUID形式である必要があります。`,
+  CHECKLIST_TEMPLATE_NAME_EMPTY: `テンプレート名は必須です。`,
+  CHECKLIST_TEMPLATE_NAME_TOO_LONG: `テンプレート名は100文字以内で入力してください。`,
+  CHECKLIST_TEMPLATE_DESCRIPTION_TOO_LONG: `テンプレートの説明は1000文字以内で入力してください。`,
+  CHECKLIST_TEMPLATE_CHANGE_NOTE_TOO_LONG: `変更内容のメモは1000文字以内で入力してください。`,
+  CHECKLIST_TEMPLATE_ITEMS_EMPTY: `テンプレートにはチェック項目が1件以上必要です。`,
+  CHECKLIST_TEMPLATE_VERSION_INVALID: `テンプレートのバージョンは1以上の整数である必要があります。`,
+  CHECKLIST_TEMPLATE_NOT_FOUND: `指定されたチェックリストテンプレートが見つかりません。`,
+  CHECKLIST_TEMPLATE_VERSION_NOT_FOUND: `指定されたチェックリストテンプレートのバージョンが見つかりません。`,
+  CHECKLIST_TEMPLATE_ACCESS_DENIED: `このチェックリストテンプレートを操作する権限がありません。`,
+  CHECKLIST_TEMPLATE_NOT_LINKED: `このレビュースペースはチェックリストテンプレートにリンクされていません。`,
+  CHECKLIST_TEMPLATE_VERSION_CONFLICT: `テンプレートが更新されました。差分を再確認してから取り込んでください。`,
+  REVIEW_ANALYTICS_DATE_RANGE_INVALID: `集計期間が不正です。開始日は終了日以前、期間は1年以内で指定してください。`,
   // レビュー結果CSV出力エラー
   REVIEW_RESULT_EXPORT_NO_ITEMS: `レビュー結果がありません。出力するにはレビューを実行してください。`,
   REVIEW_RESULT_EXPORT_TOO_MANY_ITEMS: `レビュー結果数が上限（{maxItems}件）を超えています。`,
@@ -171,6 +259,16 @@ export const template = {
   AI_CONFIG_API_KEY_MISSING: `AI APIキーが設定されていません。システム設定またはプロジェクト設定を確認してください。`,
   AI_CONFIG_API_URL_MISSING: `AI API URLが設定されていません。システム設定を確認してください。`,
   AI_CONFIG_API_MODEL_MISSING: `AI APIモデルが設定されていません。システム設定を確認してください。`,
+  AI_API_RATE_LIMIT_INVALID: `AI APIのレート制限は1以上の整数で指定してください。`,
+  AI_TOKEN_BUDGET_EXCEEDED: `プロジェクトの今月のAIトークン使用量が上限に達しているため、AI処理を開始できません。上限はプロジェクト設定で変更できます。`,
+  AI_CONFIG_PROVIDER_NOT_FOUND: `エージェント別モデルに指定されたAIプロバイダーが見つかりません。システム設定またはプロジェクト設定を確認してください。`,
+  AI_PROVIDER_INVALID: `AIプロバイダーの設定が不正です。IDは英小文字・数字・ハイフン・アンダースコア（50文字以内）、名前は100文字以内、URLはhttp(s)形式で指定してください。`,
+  AI_PROVIDER_API_VERSION_REQUIRED: `Azure形式のAIプロバイダーにはAPIバージョンを指定してください。`,
+  AI_PROVIDER_ID_DUPLICATED: `AIプロバイダーのIDが重複しています。`,
+  AI_MODEL_ASSIGNMENT_INVALID: `エージェント別モデルの設定が不正です。対象のエージェントとモデル名（255文字以内）を指定してください。`,
+  AI_MODEL_ASSIGNMENT_PROVIDER_NOT_FOUND: `エージェント別モデルに登録されていないAIプロバイダーが指定されています。`,
+  MODEL_CONTEXT_WINDOW_INVALID: `コンテキストウィンドウの設定が不正です。モデル名（255文字以内）、コンテキストウィンドウ（1000トークン以上）、コンテキストウィンドウ未満の出力トークン数を指定してください。`,
+  MODEL_CONTEXT_WINDOW_DUPLICATED: `コンテキストウィンドウの設定でモデル名が重複しています。`,
   // 成功メッセージ
   SUCCESS_CHECKLIST_GENERATION_QUEUED: `チェックリスト生成タスクが実行待ちリストに登録されました。処理完了後にチェックリスト画面に反映されます。`,
   SUCCESS_CHECKLIST_GENERATION_ACCEPTED: `チェックリスト生成を受け付けました。`,
@@ -179,6 +277,9 @@ export const template = {
   SUCCESS_RETRY_STARTED: `リトライを開始しました`,
   SUCCESS_REVIEW_SPACE_UPDATED: `レビュースペースを更新しました`,
   SUCCESS_REVIEW_SPACE_DELETED: `レビュースペースを削除しました`,
+  SUCCESS_PLUGIN_UPLOADED: `プラグインを登録しました`,
+  SUCCESS_PLUGIN_UPDATED: `プラグインを更新しました`,
+  SUCCESS_PLUGIN_DELETED: `プラグインを削除しました`,
   SUCCESS_REVIEW_TARGET_DELETED: `レビュー対象を削除しました`,
   SUCCESS_CHECKLIST_SAVED: `チェックリストを保存しました`,
   SUCCESS_CHECKLIST_ITEMS_GENERATED: `{count}件のチェック項目を生成しました。確認後、保存してください。`,
@@ -186,12 +287,30 @@ export const template = {
   SUCCESS_CHECKLIST_IMPORTED: `{count}件のチェック項目をインポートしました`,
   SUCCESS_CHECKLIST_EXPORTED: `{count}件のチェック項目をエクスポートしました`,
   SUCCESS_REVIEW_RESULT_EXPORTED: `{count}件のレビュー結果をエクスポートしました`,
+  SUCCESS_REVIEW_ANALYTICS_EXPORTED: `{count}行の集計結果をエクスポートしました`,
+  SUCCESS_REVIEW_RESULT_ADJUDICATED: `レビュー結果の判定を保存しました`,
+  SUCCESS_REVIEW_TARGET_SIGNED_OFF: `レビュー対象を承認しました`,
+  SUCCESS_REVIEW_TARGET_SIGN_OFF_REVOKED: `レビュー対象の承認を取り消しました`,
   SUCCESS_SETTINGS_SAVED: `設定を保存しました`,
   SUCCESS_ADMIN_GRANTED: `管理者権限を付与しました`,
   SUCCESS_ADMIN_REVOKED: `管理者権限を削除しました`,
   SUCCESS_NOTIFICATION_CREATED: `通知を作成しました`,
   SUCCESS_NOTIFICATION_UPDATED: `通知を更新しました`,
   SUCCESS_NOTIFICATION_DELETED: `通知を削除しました`,
+  SUCCESS_AI_TASK_FORCE_STOPPED: `AIタスクを停止しました`,
+  SUCCESS_PROJECT_DELETED: `プロジェクトを削除しました`,
+  SUCCESS_PERSONAL_ACCESS_TOKEN_CREATED: `アクセストークンを発行しました`,
+  SUCCESS_PERSONAL_ACCESS_TOKEN_REVOKED: `アクセストークンを無効化しました`,
+  SUCCESS_WEBHOOK_CREATED: `Webhookを登録しました`,
+  SUCCESS_WEBHOOK_UPDATED: `Webhookを更新しました`,
+  SUCCESS_WEBHOOK_DELETED: `Webhookを削除しました`,
+  SUCCESS_WEBHOOK_REDELIVERY_QUEUED: `再送信を受け付けました`,
+  SUCCESS_CHECKLIST_TEMPLATE_CREATED: `チェックリストテンプレートを作成しました`,
+  SUCCESS_CHECKLIST_TEMPLATE_VERSION_PUBLISHED: `テンプレートの新しいバージョン（v{version}）を公開しました`,
+  SUCCESS_CHECKLIST_TEMPLATE_UPDATED: `チェックリストテンプレートを更新しました`,
+  SUCCESS_CHECKLIST_TEMPLATE_DELETED: `チェックリストテンプレートを削除しました`,
+  SUCCESS_CHECKLIST_TEMPLATE_SYNCED: `テンプレート（v{version}）の変更をチェックリストに取り込みました`,
+  SUCCESS_CHECKLIST_TEMPLATE_UNLINKED: `テンプレートとのリンクを解除しました`,
   // クライアントサイドエラーメッセージ
   ERROR_PDF_CONVERSION_FAILED: `PDFの画像変換に失敗しました`,
   ERROR_API_REVIEW_FAILED: `外部APIレビューに失敗しました`,
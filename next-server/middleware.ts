@@ -30,17 +30,19 @@ export default withAuth(
 /**
  * ミドルウェアの適用対象
  * - 静的ファイル、API認証エンドポイント、_nextを除外
+ * - REST API（api/v1）はパーソナルアクセストークンで認証するため除外
  */
 export const config = {
   matcher: [
     /*
      * Match all request paths except for the ones starting with:
      * - api/auth (authentication API routes)
+     * - api/v1 (REST API authenticated by personal access tokens)
      * - auth/signin (sign in page)
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
      */
-    "/((?!api/auth|auth/signin|_next/static|_next/image|favicon.ico).*)",
+    "/((?!api/auth|api/v1|auth/signin|_next/static|_next/image|favicon.ico).*)",
   ],
 };
@@ -20,6 +20,8 @@ const nextConfig: NextConfig = {
       },
     },
   },
+  // ネイティブモジュールはバンドルせずにNode.jsから読み込む（サーバー側のPDF画像変換用）
+  serverExternalPackages: ["@napi-rs/canvas"],
   // Webpack設定（unpdf用）
   webpack: (config) => {
     // canvasモジュールを無効化（unpdfで推奨される設定）
@@ -7,6 +7,7 @@ export type ErrorCode =
   | "FORBIDDEN"
   | "UNAUTHORIZED"
   | "NOT_FOUND"
+  | "PAYLOAD_TOO_LARGE"
   | "VALIDATION"
   | "EXTERNAL_SERVICE"
   | "INTERNAL"
@@ -23,6 +24,7 @@ export const errorStatusCodeMap: ErrorStatusCodeMap = {
   FORBIDDEN: 403,
   UNAUTHORIZED: 401,
   NOT_FOUND: 404,
+  PAYLOAD_TOO_LARGE: 413,
   VALIDATION: 422,
   EXTERNAL_SERVICE: 502,
   INTERNAL: 500,
@@ -24,6 +24,10 @@ export type MessageCode =
   | "PROJECT_MEMBER_ALREADY_EXISTS"
   | "PROJECT_MEMBER_NOT_FOUND"
   | "PROJECT_MEMBER_USER_NOT_FOUND"
+  | "PROJECT_MEMBER_ROLE_INVALID"
+  | "PROJECT_OWNER_REQUIRED"
+  | "PROJECT_PERMISSION_DENIED"
+  | "PROJECT_MONTHLY_TOKEN_BUDGET_INVALID"
   // レビュースペース管理ドメインバリデーションエラー
   | "REVIEW_SPACE_ID_INVALID_FORMAT"
   | "REVIEW_SPACE_NAME_EMPTY"
@@ -31,6 +35,20 @@ export type MessageCode =
   | "REVIEW_SPACE_DESCRIPTION_TOO_LONG"
   | "REVIEW_SPACE_NOT_FOUND"
   | "REVIEW_SPACE_ACCESS_DENIED"
+  // レビュースペースプラグイン関連エラー
+  | "REVIEW_SPACE_PLUGIN_ID_INVALID_FORMAT"
+  | "REVIEW_SPACE_PLUGIN_HOOK_POINT_INVALID"
+  | "REVIEW_SPACE_PLUGIN_NAME_EMPTY"
+  | "REVIEW_SPACE_PLUGIN_NAME_TOO_LONG"
+  | "REVIEW_SPACE_PLUGIN_NO_HOOKS"
+  | "REVIEW_SPACE_PLUGIN_EXTENSION_INVALID"
+  | "REVIEW_SPACE_PLUGIN_TIMEOUT_INVALID"
+  | "REVIEW_SPACE_PLUGIN_NOT_FOUND"
+  | "REVIEW_SPACE_PLUGIN_FILE_INVALID"
+  | "REVIEW_SPACE_PLUGIN_FILE_TOO_LARGE"
+  | "REVIEW_SPACE_PLUGIN_LOAD_FAILED"
+  | "PLUGIN_EXECUTION_FAILED"
+  | "PLUGIN_EXECUTION_TIMEOUT"
   // レビュー設定ドメインバリデーションエラー
   | "EVALUATION_LABEL_EMPTY"
   | "EVALUATION_LABEL_TOO_LONG"
@@ -43,10 +61,15 @@ export type MessageCode =
   | "REVIEW_SETTINGS_CONCURRENT_ITEMS_INVALID"
   | "REVIEW_SETTINGS_COMMENT_FORMAT_REQUIRED"
   | "REVIEW_SETTINGS_COMMENT_FORMAT_TOO_LONG"
+  | "REVIEW_SETTINGS_CHUNKING_INVALID"
   // チェック項目管理ドメインバリデーションエラー
   | "CHECK_LIST_ITEM_ID_INVALID_FORMAT"
   | "CHECK_LIST_ITEM_CONTENT_EMPTY"
   | "CHECK_LIST_ITEM_NOT_FOUND"
+  | "CHECK_LIST_ITEM_CATEGORY_TOO_LONG"
+  | "CHECK_LIST_ITEM_SEVERITY_INVALID"
+  | "CHECK_LIST_ITEM_GUIDANCE_TOO_LONG"
+  | "CHECK_LIST_ITEM_DISPLAY_ORDER_INVALID"
   // チェックリストファイルインポートエラー
   | "CHECK_LIST_FILE_IMPORT_UNSUPPORTED_FORMAT"
   | "CHECK_LIST_FILE_IMPORT_FILE_TOO_LARGE"
@@ -67,6 +90,10 @@ export type MessageCode =
   | "AI_CHECKLIST_GENERATION_FAILED"
   // PDF変換エラー
   | "PDF_CONVERSION_FAILED"
+  // ドキュメント画像変換エラー（サーバー側）
+  | "DOCUMENT_RENDER_FAILED"
+  | "ARCHIVE_EXTRACTION_FAILED"
+  | "ARCHIVE_NO_TARGET_FILES"
   // ファイルアップロードエラー
   | "FILE_UPLOAD_TOO_MANY_FILES"
   // レビュー対象管理ドメインバリデーションエラー
@@ -78,9 +105,19 @@ export type MessageCode =
   | "REVIEW_TARGET_NOT_FOUND"
   | "REVIEW_TARGET_ACCESS_DENIED"
   | "REVIEW_TARGET_CANNOT_DELETE_REVIEWING"
+  | "REVIEW_TARGET_ALREADY_SIGNED_OFF"
+  | "REVIEW_TARGET_NOT_SIGNED_OFF"
+  | "REVIEW_TARGET_SIGN_OFF_NOT_COMPLETED"
+  | "REVIEW_TARGET_SIGN_OFF_HAS_DISPUTED"
+  | "REVIEW_TARGET_SIGNED_OFF_LOCKED"
+  | "REVIEW_TARGET_REVISION_MISMATCH"
   // レビュー結果管理ドメインバリデーションエラー
   | "REVIEW_RESULT_ID_INVALID_FORMAT"
   | "REVIEW_RESULT_EVALUATION_TOO_LONG"
+  | "REVIEW_RESULT_NOT_FOUND"
+  | "REVIEW_RESULT_DISPOSITION_INVALID"
+  | "REVIEW_RESULT_EVALUATION_NOT_IN_CRITERIA"
+  | "REVIEW_RESULT_HUMAN_COMMENT_TOO_LONG"
   // レビュー結果CSV出力エラー
   | "REVIEW_RESULT_EXPORT_NO_ITEMS"
   | "REVIEW_RESULT_EXPORT_TOO_MANY_ITEMS"
@@ -121,6 +158,7 @@ export type MessageCode =
   | "AI_TASK_FILE_METADATA_ID_INVALID_FORMAT"
   | "AI_TASK_NOT_FOUND"
   | "AI_TASK_CANNOT_CANCEL_PROCESSING"
+  | "AI_TASK_HISTORY_NOT_FINISHED"
   // AIタスクキュー処理エラー
   | "AI_TASK_ENQUEUE_FAILED"
   | "AI_TASK_EXECUTION_FAILED"
@@ -138,6 +176,8 @@ export type MessageCode =
   | "QA_HISTORY_STATUS_INVALID"
   | "QA_HISTORY_NOT_FOUND"
   | "QA_HISTORY_ACCESS_DENIED"
+  | "QA_HISTORY_THREAD_NOT_FOUND"
+  | "QA_HISTORY_THREAD_IN_PROGRESS"
   // Q&A実行エラー
   | "QA_EXECUTION_NO_DOCUMENT_CACHE"
   | "QA_EXECUTION_NO_REVIEW_RESULT"
@@ -157,6 +197,55 @@ export type MessageCode =
   | "SYSTEM_NOTIFICATION_MESSAGE_EMPTY"
   | "SYSTEM_NOTIFICATION_MESSAGE_TOO_LONG"
   | "SYSTEM_NOTIFICATION_NOT_FOUND"
+  // 通知ドメインバリデーションエラー
+  | "NOTIFICATION_ID_INVALID_FORMAT"
+  | "NOTIFICATION_TYPE_INVALID"
+  | "NOTIFICATION_TITLE_EMPTY"
+  | "NOTIFICATION_TITLE_TOO_LONG"
+  | "NOTIFICATION_MESSAGE_TOO_LONG"
+  | "NOTIFICATION_NOT_FOUND"
+  | "NOTIFICATION_ACCESS_DENIED"
+  // パーソナルアクセストークンドメインバリデーションエラー
+  | "PERSONAL_ACCESS_TOKEN_ID_INVALID_FORMAT"
+  | "PERSONAL_ACCESS_TOKEN_NAME_EMPTY"
+  | "PERSONAL_ACCESS_TOKEN_NAME_TOO_LONG"
+  | "PERSONAL_ACCESS_TOKEN_PROJECTS_EMPTY"
+  | "PERSONAL_ACCESS_TOKEN_EXPIRES_AT_INVALID"
+  | "PERSONAL_ACCESS_TOKEN_NOT_FOUND"
+  | "PERSONAL_ACCESS_TOKEN_ACCESS_DENIED"
+  | "PERSONAL_ACCESS_TOKEN_INVALID"
+  | "PERSONAL_ACCESS_TOKEN_SCOPE_DENIED"
+  // REST APIエラー
+  | "API_REVIEW_SPACE_NOT_FOUND"
+  | "API_REVIEW_TARGET_NOT_FOUND"
+  | "API_REVIEW_TARGET_FILES_REQUIRED"
+  | "API_REVIEW_TARGET_TOO_MANY_FILES"
+  | "API_REVIEW_TARGET_FILE_TOO_LARGE"
+  // Webhookドメインバリデーションエラー
+  | "WEBHOOK_ID_INVALID_FORMAT"
+  | "WEBHOOK_DELIVERY_ID_INVALID_FORMAT"
+  | "WEBHOOK_NAME_EMPTY"
+  | "WEBHOOK_NAME_TOO_LONG"
+  | "WEBHOOK_URL_INVALID"
+  | "WEBHOOK_EVENTS_EMPTY"
+  | "WEBHOOK_EVENT_INVALID"
+  | "WEBHOOK_NOT_FOUND"
+  | "WEBHOOK_DELIVERY_NOT_FOUND"
+  // チェックリストテンプレートドメインバリデーションエラー
+  | "CHECKLIST_TEMPLATE_ID_INVALID_FORMAT"
+  | "CHECKLIST_TEMPLATE_NAME_EMPTY"
+  | "CHECKLIST_TEMPLATE_NAME_TOO_LONG"
+  | "CHECKLIST_TEMPLATE_DESCRIPTION_TOO_LONG"
+  | "CHECKLIST_TEMPLATE_CHANGE_NOTE_TOO_LONG"
+  | "CHECKLIST_TEMPLATE_ITEMS_EMPTY"
+  | "CHECKLIST_TEMPLATE_VERSION_INVALID"
+  | "CHECKLIST_TEMPLATE_NOT_FOUND"
+  | "CHECKLIST_TEMPLATE_VERSION_NOT_FOUND"
+  | "CHECKLIST_TEMPLATE_ACCESS_DENIED"
+  | "CHECKLIST_TEMPLATE_NOT_LINKED"
+  | "CHECKLIST_TEMPLATE_VERSION_CONFLICT"
+  // レビュー分析エラー
+  | "REVIEW_ANALYTICS_DATE_RANGE_INVALID"
   // ワークフローステップ関連エラー
   | "WORKFLOW_AI_API_ERROR"
   | "WORKFLOW_REVIEW_RESULTS_MISSING"
@@ -171,6 +260,16 @@ export type MessageCode =
   | "AI_CONFIG_API_KEY_MISSING"
   | "AI_CONFIG_API_URL_MISSING"
   | "AI_CONFIG_API_MODEL_MISSING"
+  | "AI_API_RATE_LIMIT_INVALID"
+  | "AI_TOKEN_BUDGET_EXCEEDED"
+  | "AI_CONFIG_PROVIDER_NOT_FOUND"
+  | "AI_PROVIDER_INVALID"
+  | "AI_PROVIDER_API_VERSION_REQUIRED"
+  | "AI_PROVIDER_ID_DUPLICATED"
+  | "AI_MODEL_ASSIGNMENT_INVALID"
+  | "AI_MODEL_ASSIGNMENT_PROVIDER_NOT_FOUND"
+  | "MODEL_CONTEXT_WINDOW_INVALID"
+  | "MODEL_CONTEXT_WINDOW_DUPLICATED"
   // 成功メッセージ
   | "SUCCESS_CHECKLIST_GENERATION_QUEUED"
   | "SUCCESS_CHECKLIST_GENERATION_ACCEPTED"
@@ -179,6 +278,9 @@ export type MessageCode =
   | "SUCCESS_RETRY_STARTED"
   | "SUCCESS_REVIEW_SPACE_UPDATED"
   | "SUCCESS_REVIEW_SPACE_DELETED"
+  | "SUCCESS_PLUGIN_UPLOADED"
+  | "SUCCESS_PLUGIN_UPDATED"
+  | "SUCCESS_PLUGIN_DELETED"
   | "SUCCESS_REVIEW_TARGET_DELETED"
   | "SUCCESS_CHECKLIST_SAVED"
   | "SUCCESS_CHECKLIST_ITEMS_GENERATED"
@@ -186,12 +288,30 @@ export type MessageCode =
   | "SUCCESS_CHECKLIST_IMPORTED"
   | "SUCCESS_CHECKLIST_EXPORTED"
   | "SUCCESS_REVIEW_RESULT_EXPORTED"
+  | "SUCCESS_REVIEW_ANALYTICS_EXPORTED"
+  | "SUCCESS_REVIEW_RESULT_ADJUDICATED"
+  | "SUCCESS_REVIEW_TARGET_SIGNED_OFF"
+  | "SUCCESS_REVIEW_TARGET_SIGN_OFF_REVOKED"
   | "SUCCESS_SETTINGS_SAVED"
   | "SUCCESS_ADMIN_GRANTED"
   | "SUCCESS_ADMIN_REVOKED"
   | "SUCCESS_NOTIFICATION_CREATED"
   | "SUCCESS_NOTIFICATION_UPDATED"
   | "SUCCESS_NOTIFICATION_DELETED"
+  | "SUCCESS_AI_TASK_FORCE_STOPPED"
+  | "SUCCESS_PROJECT_DELETED"
+  | "SUCCESS_PERSONAL_ACCESS_TOKEN_CREATED"
+  | "SUCCESS_PERSONAL_ACCESS_TOKEN_REVOKED"
+  | "SUCCESS_WEBHOOK_CREATED"
+  | "SUCCESS_WEBHOOK_UPDATED"
+  | "SUCCESS_WEBHOOK_DELETED"
+  | "SUCCESS_WEBHOOK_REDELIVERY_QUEUED"
+  | "SUCCESS_CHECKLIST_TEMPLATE_CREATED"
+  | "SUCCESS_CHECKLIST_TEMPLATE_VERSION_PUBLISHED"
+  | "SUCCESS_CHECKLIST_TEMPLATE_UPDATED"
+  | "SUCCESS_CHECKLIST_TEMPLATE_DELETED"
+  | "SUCCESS_CHECKLIST_TEMPLATE_SYNCED"
+  | "SUCCESS_CHECKLIST_TEMPLATE_UNLINKED"
   // クライアントサイドエラーメッセージ
   | "ERROR_PDF_CONVERSION_FAILED"
   | "ERROR_API_REVIEW_FAILED"
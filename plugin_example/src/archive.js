@@ -0,0 +1,36 @@
+import { unzipSync, strFromU8 } from "fflate";
+import { formatSourceFile, isSourceFile } from "./sourceCode";
+
+/**
+ * アーカイブから展開するファイルの上限
+ * 巨大なリポジトリでプロンプトが溢れることを防ぐ
+ */
+const MAX_ARCHIVE_FILES = 200;
+
+/**
+ * 無視するディレクトリ
+ */
+const IGNORED_DIRECTORIES = ["node_modules/", ".git/", "dist/", "build/"];
+
+/**
+ * ZIPアーカイブ内のソースコードを連結したテキストに変換する
+ */
+export const extractZipSourceText = (bytes) => {
+  const entries = unzipSync(bytes, {
+    filter: (file) =>
+      isSourceFile(file.name) &&
+      !IGNORED_DIRECTORIES.some((dir) => file.name.includes(dir)),
+  });
+
+  const paths = Object.keys(entries).sort();
+  const sections = paths
+    .slice(0, MAX_ARCHIVE_FILES)
+    .map((path) => formatSourceFile(path, strFromU8(entries[path])));
+
+  if (paths.length > MAX_ARCHIVE_FILES) {
+    sections.push(
+      `（ファイル数が上限の${MAX_ARCHIVE_FILES}件を超えたため、残り${paths.length - MAX_ARCHIVE_FILES}件は省略しました）`,
+    );
+  }
+  return sections.join("\n\n");
+};
@@ -0,0 +1,30 @@
+/**
+ * Base64デコード
+ * サンドボックスにはatob/Bufferが存在しないため自前で実装する
+ */
+const ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+const LOOKUP = (() => {
+  const table = new Uint8Array(128);
+  for (let i = 0; i < ALPHABET.length; i++) {
+    table[ALPHABET.charCodeAt(i)] = i;
+  }
+  return table;
+})();
+
+export const decodeBase64 = (base64) => {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, "");
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let p = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    const a = LOOKUP[clean.charCodeAt(i)];
+    const b = LOOKUP[clean.charCodeAt(i + 1)];
+    const c = LOOKUP[clean.charCodeAt(i + 2)];
+    const d = LOOKUP[clean.charCodeAt(i + 3)];
+    bytes[p++] = (a << 2) | (b >> 4);
+    if (i + 2 < clean.length) bytes[p++] = ((b & 15) << 4) | (c >> 2);
+    if (i + 3 < clean.length) bytes[p++] = ((c & 3) << 6) | d;
+  }
+  return bytes.subarray(0, p);
+};
@@ -0,0 +1,39 @@
+import { decodeBase64 } from "./base64";
+import { extractZipSourceText } from "./archive";
+import {
+  SOURCE_EXTENSIONS,
+  formatSourceFile,
+  getExtension,
+} from "./sourceCode";
+
+/**
+ * ソースコード・アーカイブレビュー用プラグイン
+ * - ソースコードは行番号付きのテキストに変換する
+ * - ZIPアーカイブは展開し、含まれるソースコードをファイルごとに連結する
+ */
+export const name = "ソースコード・アーカイブ変換";
+
+export const extensions = [...SOURCE_EXTENSIONS, ".zip"];
+
+export const hooks = {
+  beforeExtraction(input) {
+    if (getExtension(input.fileName) === ".zip") {
+      return {
+        textContent: extractZipSourceText(decodeBase64(input.contentBase64)),
+      };
+    }
+    return {
+      textContent: formatSourceFile(input.fileName, input.contentText),
+    };
+  },
+
+  beforePromptBuilding(input) {
+    const note =
+      "ソースコードは「行番号 | 内容」の形式で与えられます。指摘する際は該当するファイル名と行番号を併記してください。";
+    return {
+      additionalInstructions: input.additionalInstructions
+        ? `${input.additionalInstructions}\n${note}`
+        : note,
+    };
+  },
+};
@@ -0,0 +1,53 @@
+/**
+ * ソースコードとして扱う拡張子
+ */
+export const SOURCE_EXTENSIONS = [
+  ".js",
+  ".jsx",
+  ".ts",
+  ".tsx",
+  ".py",
+  ".java",
+  ".kt",
+  ".go",
+  ".rs",
+  ".c",
+  ".h",
+  ".cpp",
+  ".cs",
+  ".rb",
+  ".php",
+  ".sql",
+  ".sh",
+  ".json",
+  ".yaml",
+  ".yml",
+  ".xml",
+  ".md",
+];
+
+export const getExtension = (fileName) => {
+  const lastDot = fileName.lastIndexOf(".");
+  return lastDot === -1 ? "" : fileName.substring(lastDot).toLowerCase();
+};
+
+export const isSourceFile = (fileName) =>
+  SOURCE_EXTENSIONS.includes(getExtension(fileName));
+
+/**
+ * 行番号付きのテキストに変換する
+ * AIがコメントで該当箇所を行番号で示せるようにする
+ */
+export const withLineNumbers = (text) => {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const width = String(lines.length).length;
+  return lines
+    .map((line, i) => `${String(i + 1).padStart(width, " ")} | ${line}`)
+    .join("\n");
+};
+
+/**
+ * ファイル単位の見出しを付けて整形する
+ */
+export const formatSourceFile = (path, text) =>
+  `===== ${path} =====\n${withLineNumbers(text)}`;